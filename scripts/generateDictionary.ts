@@ -1,20 +1,29 @@
 /**
- * Generates the flat DICOM dictionary lookup file from _configs/dicom.dic.json.
+ * Generates the flat DICOM dictionary lookup file from _configs/dicom.dic.json,
+ * then the typed tag constant catalog from that dictionary.
  *
- * Usage: npx tsx scripts/generateDictionary.ts
+ * Usage: npx tsx scripts/generateDictionary.ts [--tags-only]
  *
  * Input:  _configs/dicom.dic.json (762KB, grouped by DICOM group number)
  * Output: src/data/dictionary.json (flat Record<string, DictionaryEntry>)
+ *         src/data/tags.ts (typed `Tags` constants, one per dictionary entry)
+ *
+ * `--tags-only` skips the first step and regenerates src/data/tags.ts from the
+ * existing src/data/dictionary.json.
  *
  * The output format uses 8-char hex keys (group+element, no parens/comma):
  *   "00100010": { "vr": "PN", "name": "PatientName", "vm": [1, 1], "retired": false }
  *
+ * Stepped VMs such as `3-3n` are unbounded and keep their step:
+ *   "30060050": { "vr": "DS", "name": "ContourData", "vm": [3, null], "vmStep": 3, "retired": false }
+ *
  * DCMTK-internal VR aliases (lowercase) are normalized:
  *   ox → OW, xs → US, lt → OW, px → OW, up → UL, na → (skipped)
  */
 
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import * as prettier from 'prettier';
 
 // Standard VR codes for validation
 const STANDARD_VRS = new Set([
@@ -63,11 +72,14 @@ const VR_ALIASES: Record<string, string> = {
     up: 'UL', // UL (pointer)
 };
 
+/** A source VM, structured or in DCMTK notation (`1`, `1-3`, `1-n`, `3-3n`). */
+type SourceVM = { min: number; max: number | null; step?: number } | string;
+
 interface SourceElement {
     tag: string;
     vr: string;
     name: string;
-    vm: { min: number; max: number | null };
+    vm: SourceVM;
     retired: boolean;
 }
 
@@ -86,11 +98,32 @@ interface OutputEntry {
     vr: string;
     name: string;
     vm: [number, number | null];
+    vmStep?: number;
     retired: boolean;
 }
 
-function main(): void {
-    const projectRoot = path.resolve(import.meta.dirname, '..');
+/** Matches a VM in DCMTK notation, capturing min, max and the step of an unbounded max. */
+const DCMTK_VM = /^(\d+)(?:-(?:(\d+)|(\d*)n))?$/;
+
+/**
+ * Converts a source VM to the output `vm` and `vmStep`. A stepped max such as the
+ * `3n` of `3-3n` is unbounded: it must not be read as the number 3.
+ */
+function toOutputVM(vm: SourceVM): Pick<OutputEntry, 'vm' | 'vmStep'> | undefined {
+    if (typeof vm !== 'string') {
+        const step = vm.step ?? 1;
+        return step > 1 ? { vm: [vm.min, null], vmStep: step } : { vm: [vm.min, vm.max] };
+    }
+    const match = DCMTK_VM.exec(vm.trim());
+    if (match === null) return undefined;
+    const min = Number(match[1]);
+    if (match[2] !== undefined) return { vm: [min, Number(match[2])] };
+    if (match[3] === undefined) return { vm: [min, min] };
+    const step = match[3].length > 0 ? Number(match[3]) : 1;
+    return step > 1 ? { vm: [min, null], vmStep: step } : { vm: [min, null] };
+}
+
+function generateDictionary(projectRoot: string): void {
     const inputPath = path.join(projectRoot, '_configs', 'dicom.dic.json');
     const outputPath = path.join(projectRoot, 'src', 'data', 'dictionary.json');
 
@@ -144,10 +177,16 @@ function main(): void {
                 continue;
             }
 
+            const vm = toOutputVM(element.vm);
+            if (vm === undefined) {
+                console.warn(`  WARNING: Unknown VM ${JSON.stringify(element.vm)} for tag (${groupHex},${elementKey}), name=${element.name}`);
+                continue;
+            }
+
             output[key] = {
                 vr,
                 name: element.name,
-                vm: [element.vm.min, element.vm.max],
+                ...vm,
                 retired: element.retired,
             };
             totalProcessed++;
@@ -181,4 +220,68 @@ function main(): void {
     console.log(`  Verified:      ${verifyCount} entries ✓`);
 }
 
-main();
+const TAGS_HEADER = `/**
+ * Generated DICOM tag constants — DO NOT EDIT.
+ *
+ * Regenerate with \`pnpm run generate\` (scripts/generateDictionary.ts) from
+ * src/data/dictionary.json.
+ *
+ * @module data/tags
+ */
+
+import type { TagDefinition } from '../dicom/tagTypes';
+
+/**
+ * Every data dictionary attribute as a typed constant carrying its tag, VR and VM.
+ *
+ * Pass an entry to \`DicomDataset.get\` to read the value with a type derived
+ * from the VR and VM, e.g. \`dataset.get(Tags.Rows)\` yields a number.
+ */
+const Tags = {
+`;
+
+const TAGS_FOOTER = `} as const satisfies Readonly<Record<string, TagDefinition>>;
+
+/** A keyword in the {@link Tags} catalog, e.g. \`'PatientName'\`. */
+type TagKeyword = keyof typeof Tags;
+
+export { Tags };
+export type { TagKeyword };
+`;
+
+async function generateTags(projectRoot: string): Promise<void> {
+    const dictionaryPath = path.join(projectRoot, 'src', 'data', 'dictionary.json');
+    const outputPath = path.join(projectRoot, 'src', 'data', 'tags.ts');
+
+    console.log(`Reading: ${dictionaryPath}`);
+    const dictionary = JSON.parse(fs.readFileSync(dictionaryPath, 'utf8')) as Record<string, OutputEntry>;
+
+    const lines: string[] = [];
+    for (const key of Object.keys(dictionary).sort()) {
+        const entry = dictionary[key];
+        if (entry === undefined) continue;
+        const tag = `(${key.slice(0, 4)},${key.slice(4, 8)})`;
+        const max = entry.vm[1] === null ? 'null' : String(entry.vm[1]);
+        lines.push(`    ${entry.name}: { tag: '${tag}', keyword: '${entry.name}', vr: '${entry.vr}', vm: [${entry.vm[0]}, ${max}] },`);
+    }
+
+    // Format with the repo's prettier config so regenerating never produces lint noise
+    const options = await prettier.resolveConfig(outputPath);
+    const source = await prettier.format(TAGS_HEADER + lines.join('\n') + '\n' + TAGS_FOOTER, { ...options, filepath: outputPath });
+    fs.writeFileSync(outputPath, source, 'utf8');
+    console.log(`  Tag constants: ${lines.length}`);
+    console.log(`  Output:        ${outputPath}`);
+}
+
+async function main(): Promise<void> {
+    const projectRoot = path.resolve(import.meta.dirname, '..');
+    if (!process.argv.includes('--tags-only')) {
+        generateDictionary(projectRoot);
+    }
+    await generateTags(projectRoot);
+}
+
+main().catch((error: unknown) => {
+    console.error(error);
+    process.exit(1);
+});
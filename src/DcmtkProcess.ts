@@ -16,6 +16,7 @@ import kill from 'tree-kill';
 import type { Result, LineSource } from './types';
 import { ok, err } from './types';
 import { DEFAULT_START_TIMEOUT_MS, DEFAULT_DRAIN_TIMEOUT_MS } from './constants';
+import { dcmtkProcessEnv } from './dictionaryPath';
 
 // ---------------------------------------------------------------------------
 // Event types
@@ -150,6 +151,7 @@ class DcmtkProcess extends EventEmitter<DcmtkProcessEventMap> {
             try {
                 this.child = spawn(this.config.binary, [...this.config.args], {
                     cwd: this.config.cwd,
+                    env: dcmtkProcessEnv(),
                     windowsHide: true,
                 });
                 /* v8 ignore start -- spawn() rarely throws synchronously */
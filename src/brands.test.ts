@@ -1,6 +1,7 @@
 import { normalize } from 'node:path';
 import { describe, it, expect } from 'vitest';
 import { createDicomTag, createAETitle, createDicomTagPath, createSOPClassUID, createTransferSyntaxUID, createDicomFilePath, createPort } from './brands';
+import { checkPathKeywords } from './dicom/dictionary';
 
 describe('Branded type factories', () => {
     describe('createDicomTag()', () => {
@@ -114,6 +115,23 @@ describe('Branded type factories', () => {
             const result = createDicomTagPath('not-a-tag');
             expect(result.ok).toBe(false);
         });
+
+        it('accepts keyword paths', () => {
+            expect(createDicomTagPath('PatientName').ok).toBe(true);
+            expect(createDicomTagPath('ReferencedSeriesSequence[0].SeriesInstanceUID').ok).toBe(true);
+            expect(createDicomTagPath('(0008,1115)[0].SeriesInstanceUID').ok).toBe(true);
+        });
+
+        it('checks only the syntax of keywords without a keyword check', () => {
+            expect(createDicomTagPath('PatientNmae').ok).toBe(true);
+            expect(createDicomTagPath('Patient-Name').ok).toBe(false);
+        });
+
+        it('rejects unknown keywords with a suggestion', () => {
+            const result = createDicomTagPath('PatientNmae', checkPathKeywords);
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toMatch(/Did you mean "PatientName"\?/);
+        });
     });
 
     describe('createSOPClassUID()', () => {
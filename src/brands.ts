@@ -17,6 +17,7 @@ import {
     AE_TITLE_PATTERN,
     UID_PATTERN,
     DICOM_TAG_PATH_PATTERN,
+    KEYWORD_TAG_PATH_PATTERN,
     AE_TITLE_MIN_LENGTH,
     AE_TITLE_MAX_LENGTH,
     UID_MAX_LENGTH,
@@ -24,6 +25,7 @@ import {
     PORT_MAX,
     PATH_TRAVERSAL_PATTERN,
 } from './patterns';
+import type { TagKeyword } from './data/tags';
 
 declare const __brand: unique symbol;
 
@@ -34,6 +36,9 @@ type Brand<T, TBrand extends string> = T & { readonly [__brand]: TBrand };
 // Branded types
 // ---------------------------------------------------------------------------
 
+/** Checks the keyword segments of a tag path, failing for the first that names no attribute. */
+type KeywordPathCheck = (path: string) => Result<void>;
+
 /**
  * A validated DICOM tag string, e.g. `"(0010,0010)"`.
  *
@@ -55,7 +60,8 @@ type DicomTag = Brand<string, 'DicomTag'>;
 type AETitle = Brand<string, 'AETitle'>;
 
 /**
- * A validated DICOM tag path, e.g. `"(0040,A730)[0].(0010,0010)"`.
+ * A validated DICOM tag path, e.g. `"(0040,A730)[0].(0010,0010)"` or
+ * `"ReferencedSeriesSequence[0].SeriesInstanceUID"`.
  *
  * @remarks
  * Branded types enforce type safety when passing values between functions.
@@ -104,6 +110,77 @@ type DicomFilePath = Brand<string, 'DicomFilePath'>;
  */
 type Port = Brand<number, 'Port'>;
 
+// ---------------------------------------------------------------------------
+// Compile-time tag path literals
+// ---------------------------------------------------------------------------
+
+type HexDigit = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'a' | 'b' | 'c' | 'd' | 'e' | 'f';
+type DecimalDigit = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9';
+
+/** `true` if S is exactly four hex digits. */
+type IsHex4<S extends string> = S extends `${infer A}${infer B}${infer C}${infer D}`
+    ? [A, B, C, D] extends [HexDigit, HexDigit, HexDigit, HexDigit]
+        ? true
+        : false
+    : false;
+
+/** `true` if S is one or more decimal digits. */
+type IsDigits<S extends string> = S extends `${DecimalDigit}${infer Rest}` ? (Rest extends '' ? true : IsDigits<Rest>) : false;
+
+/** `true` if S is empty or a single `[n]` / `[*]` index. */
+type IsPathIndex<S extends string> = S extends '' ? true : S extends `[${infer I}]` ? (I extends '*' ? true : IsDigits<I>) : false;
+
+/** `true` if S is a dictionary keyword, optionally indexed. */
+type IsKeywordSegment<S extends string> = S extends `${infer K}[${infer I}`
+    ? K extends TagKeyword
+        ? IsPathIndex<`[${I}`>
+        : false
+    : S extends TagKeyword
+      ? true
+      : false;
+
+/** `true` if S is a `(XXXX,XXXX)` tag or a dictionary keyword, optionally indexed. */
+type IsPathSegment<S extends string> = S extends `(${infer G},${infer E})${infer I}`
+    ? [IsHex4<G>, IsHex4<E>, IsPathIndex<I>] extends [true, true, true]
+        ? true
+        : false
+    : IsKeywordSegment<S>;
+
+/**
+ * `true` if S is a well-formed tag path literal: dot-separated `(XXXX,XXXX)` tags
+ * or dictionary keywords, each optionally followed by `[n]` or `[*]`.
+ * The non-literal `string` type is never well-formed.
+ */
+type IsTagPathLiteral<S extends string> = string extends S
+    ? false
+    : S extends `${infer Head}.${infer Rest}`
+      ? IsPathSegment<Head> extends true
+          ? IsTagPathLiteral<Rest>
+          : false
+      : IsPathSegment<S>;
+
+/** Marker intersected into {@link TagPathInput} so malformed literals name themselves in the compile error. */
+interface InvalidTagPath<P extends string> {
+    readonly invalidTagPath: `"${P}" is not a valid DICOM tag path; use createDicomTagPath() for dynamic strings`;
+}
+
+/**
+ * Parameter type for APIs that take a tag path.
+ *
+ * Accepts a branded {@link DicomTagPath}, or a string literal checked at compile
+ * time by {@link IsTagPathLiteral}. Malformed literals and unbranded dynamic
+ * strings do not compile; obtain a DicomTagPath for the latter through
+ * {@link createDicomTagPath}.
+ *
+ * @example
+ * ```ts
+ * ds.getElementAtPath('(0040,A730)[0].(0040,A160)'); // ok
+ * ds.findValues('ReferencedSeriesSequence[*].SeriesInstanceUID'); // ok
+ * ds.getElementAtPath('(0010,001)'); // compile error
+ * ```
+ */
+type TagPathInput<P extends string> = P & (P extends DicomTagPath ? unknown : IsTagPathLiteral<P> extends true ? unknown : InvalidTagPath<P>);
+
 // Validation patterns and constants imported from ./patterns
 
 // ---------------------------------------------------------------------------
@@ -142,16 +219,29 @@ function createAETitle(input: string): Result<AETitle> {
 /**
  * Creates a validated DicomTagPath from a raw string.
  *
- * @param input - A dot-separated path of DICOM tags with optional array indices
+ * Segments may be `(XXXX,XXXX)` tags or data dictionary keywords. Keyword segments
+ * are checked by `checkKeywords`, such as the dictionary's `checkPathKeywords`, which
+ * rejects unknown keywords with a suggestion; without it only their syntax is checked
+ * here, and an unknown keyword fails where the path is resolved.
+ *
+ * @param input - A dot-separated path of DICOM tags or keywords with optional array indices
+ * @param checkKeywords - Checks the keyword segments of the path
  * @returns A Result containing the branded DicomTagPath or an error
  */
-function createDicomTagPath(input: string): Result<DicomTagPath> {
+function createDicomTagPath(input: string, checkKeywords?: KeywordPathCheck): Result<DicomTagPath> {
     if (input.length === 0) {
         return err(new Error('Invalid DICOM tag path: empty string'));
     }
-    if (!DICOM_TAG_PATH_PATTERN.test(input)) {
+    if (DICOM_TAG_PATH_PATTERN.test(input)) {
+        return ok(input as DicomTagPath);
+    }
+    if (!KEYWORD_TAG_PATH_PATTERN.test(input)) {
         return err(new Error(`Invalid DICOM tag path: "${input}". Expected format like (XXXX,XXXX) or (XXXX,XXXX)[0].(XXXX,XXXX)`));
     }
+    const keywords = checkKeywords?.(input) ?? ok(undefined);
+    if (!keywords.ok) {
+        return err(new Error(`Invalid DICOM tag path: "${input}". ${keywords.error.message}`));
+    }
     return ok(input as DicomTagPath);
 }
 
@@ -220,3 +310,4 @@ function createPort(input: number): Result<Port> {
 
 export { createDicomTag, createAETitle, createDicomTagPath, createSOPClassUID, createTransferSyntaxUID, createDicomFilePath, createPort };
 export type { Brand, DicomTag, AETitle, DicomTagPath, SOPClassUID, TransferSyntaxUID, DicomFilePath, Port };
+export type { IsTagPathLiteral, TagPathInput, KeywordPathCheck };
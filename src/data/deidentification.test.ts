@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { BASIC_PROFILE_ATTRIBUTES, OPTION_CODES, REPEATING_PROFILE_ATTRIBUTES, SAFE_PRIVATE_ATTRIBUTES } from './deidentification';
+import { lookupTagByName } from '../dicom/dictionary';
+import { DeidentificationOption } from '../dicom/deidentifyTypes';
+
+describe('Basic Profile attributes', () => {
+    it('uses data dictionary keywords only', () => {
+        const unknown = BASIC_PROFILE_ATTRIBUTES.map(attribute => attribute.keyword).filter(keyword => lookupTagByName(keyword) === undefined);
+        expect(unknown).toEqual([]);
+    });
+
+    it('lists each attribute once', () => {
+        const keywords = BASIC_PROFILE_ATTRIBUTES.map(attribute => attribute.keyword);
+        expect(new Set(keywords).size).toBe(keywords.length);
+    });
+
+    it('replaces only the UIDs of UI attributes and the items of sequences', () => {
+        const misplaced = BASIC_PROFILE_ATTRIBUTES.filter(attribute => attribute.action === 'U').filter(
+            attribute => lookupTagByName(attribute.keyword)?.entry.vr !== 'UI'
+        );
+        expect(misplaced).toEqual([]);
+    });
+});
+
+describe('repeating profile attributes', () => {
+    it('are ranges of standard groups', () => {
+        for (const attribute of REPEATING_PROFILE_ATTRIBUTES) {
+            expect(attribute.range).toMatch(/^[0-9A-F]{2}xx[0-9A-Fx]{4}$/);
+            expect(parseInt(attribute.range.slice(0, 2), 16) % 2).toBe(0);
+        }
+    });
+});
+
+describe('safe private attributes', () => {
+    it('are private element numbers of odd groups', () => {
+        for (const ref of SAFE_PRIVATE_ATTRIBUTES) {
+            expect(ref.group % 2).toBe(1);
+            expect(ref.element).toBeGreaterThanOrEqual(0x00);
+            expect(ref.element).toBeLessThanOrEqual(0xff);
+        }
+    });
+});
+
+describe('option codes', () => {
+    it('covers every option with a distinct CID 7050 code', () => {
+        const codes = Object.values(DeidentificationOption).map(option => OPTION_CODES[option].codeValue);
+        expect(new Set(codes).size).toBe(codes.length);
+        expect(codes.every(code => /^1131\d\d$/.test(code))).toBe(true);
+    });
+});
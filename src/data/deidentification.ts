@@ -0,0 +1,412 @@
+/**
+ * Attribute rules of the Basic Application Level Confidentiality Profile used by `deidentify`.
+ *
+ * The attributes of PS3.15 Table E.1-1 with the actions the profile options replace them
+ * with: those with a dictionary keyword, and the repeating groups of overlays and curves,
+ * which match every group of their range. Attributes not listed are kept. Safe private
+ * attributes follow PS3.15 Table E.3.10-1.
+ *
+ * @see DICOM PS3.15 Table E.1-1 — Application Level Confidentiality Profile Attributes
+ * @see DICOM PS3.16 CID 7050 — De-identification Method
+ * @module data/deidentification
+ */
+
+import type { DeidentificationCode, DeidentificationOptionValue, ProfileAttribute, ProfileRange } from '../dicom/deidentifyTypes';
+import type { PlacedPrivateTagRef } from '../dicom/privateDictionary';
+
+// ---------------------------------------------------------------------------
+// Shared option columns
+// ---------------------------------------------------------------------------
+
+/** Dates and times: kept with full dates, shifted with modified dates. */
+const DATES = { retainLongitudinalFullDates: 'K', retainLongitudinalModifiedDates: 'C' } as const;
+
+/** Identifiers of equipment. */
+const DEVICE = { retainDeviceIdentity: 'K' } as const;
+
+/** Identifiers of institutions and departments. */
+const INSTITUTION = { retainInstitutionIdentity: 'K' } as const;
+
+/** UIDs of instances and of the entities they reference. */
+const UIDS = { retainUIDs: 'K' } as const;
+
+/** Physical characteristics of the patient. */
+const CHARACTERISTICS = { retainPatientCharacteristics: 'K' } as const;
+
+/** Free-text descriptions. */
+const DESCRIPTOR = { cleanDescriptors: 'C' } as const;
+
+/** Free-text descriptions of the patient's condition. */
+const CONDITION = { retainPatientCharacteristics: 'C', cleanDescriptors: 'C' } as const;
+
+// ---------------------------------------------------------------------------
+// Table E.1-1
+// ---------------------------------------------------------------------------
+
+/** PS3.15 Table E.1-1, in keyword order. */
+const BASIC_PROFILE_ATTRIBUTES: readonly ProfileAttribute[] = [
+    { keyword: 'AccessionNumber', action: 'Z' },
+    { keyword: 'AcquisitionContextSequence', action: 'X', options: { cleanStructuredContent: 'C' } },
+    { keyword: 'AcquisitionDate', action: 'X/Z', options: DATES },
+    { keyword: 'AcquisitionDateTime', action: 'X/D', options: DATES },
+    { keyword: 'AcquisitionDeviceProcessingDescription', action: 'X/D', options: { retainDeviceIdentity: 'K', cleanDescriptors: 'C' } },
+    { keyword: 'AcquisitionProtocolDescription', action: 'X', options: DESCRIPTOR },
+    { keyword: 'AcquisitionTime', action: 'X/Z', options: DATES },
+    { keyword: 'ActualHumanPerformersSequence', action: 'X' },
+    { keyword: 'AdditionalPatientHistory', action: 'X', options: CONDITION },
+    { keyword: 'AdmissionID', action: 'X' },
+    { keyword: 'AdmittingDate', action: 'X', options: DATES },
+    { keyword: 'AdmittingDiagnosesCodeSequence', action: 'X', options: { retainPatientCharacteristics: 'C' } },
+    { keyword: 'AdmittingDiagnosesDescription', action: 'X', options: CONDITION },
+    { keyword: 'AdmittingTime', action: 'X', options: DATES },
+    { keyword: 'Allergies', action: 'X', options: CONDITION },
+    { keyword: 'AuthorObserverSequence', action: 'X' },
+    { keyword: 'BeamDescription', action: 'X', options: DESCRIPTOR },
+    { keyword: 'BolusDescription', action: 'X', options: DESCRIPTOR },
+    { keyword: 'BranchOfService', action: 'X' },
+    { keyword: 'CassetteID', action: 'X', options: DEVICE },
+    { keyword: 'CommentsOnThePerformedProcedureStep', action: 'X', options: DESCRIPTOR },
+    { keyword: 'CompensatorDescription', action: 'X', options: DESCRIPTOR },
+    { keyword: 'ConcatenationUID', action: 'U', options: UIDS },
+    { keyword: 'ConsultingPhysicianIdentificationSequence', action: 'X' },
+    { keyword: 'ConsultingPhysicianName', action: 'X' },
+    { keyword: 'ContentCreatorIdentificationCodeSequence', action: 'X' },
+    { keyword: 'ContentCreatorName', action: 'Z' },
+    { keyword: 'ContentDate', action: 'Z/D', options: DATES },
+    { keyword: 'ContentSequence', action: 'X', options: { cleanStructuredContent: 'C' } },
+    { keyword: 'ContentTime', action: 'Z/D', options: DATES },
+    { keyword: 'ContextGroupExtensionCreatorUID', action: 'U', options: UIDS },
+    { keyword: 'ContrastBolusAgent', action: 'Z/D', options: DESCRIPTOR },
+    { keyword: 'ContributionDescription', action: 'X', options: DESCRIPTOR },
+    { keyword: 'CountryOfResidence', action: 'X' },
+    { keyword: 'CreatorVersionUID', action: 'U', options: UIDS },
+    { keyword: 'CurrentPatientLocation', action: 'X' },
+    { keyword: 'CustodialOrganizationSequence', action: 'X' },
+    { keyword: 'DataSetTrailingPadding', action: 'X' },
+    { keyword: 'Date', action: 'X', options: DATES },
+    { keyword: 'DateTime', action: 'X', options: DATES },
+    { keyword: 'DerivationDescription', action: 'X', options: DESCRIPTOR },
+    { keyword: 'DestinationAE', action: 'X', options: DEVICE },
+    { keyword: 'DetectorID', action: 'X/D', options: DEVICE },
+    { keyword: 'DeviceDescription', action: 'X', options: { retainDeviceIdentity: 'K', cleanDescriptors: 'C' } },
+    { keyword: 'DeviceSerialNumber', action: 'X/Z/D', options: DEVICE },
+    { keyword: 'DeviceUID', action: 'U', options: { retainUIDs: 'K', retainDeviceIdentity: 'K' } },
+    { keyword: 'DigitalSignaturesSequence', action: 'X' },
+    { keyword: 'DigitalSignatureUID', action: 'X' },
+    { keyword: 'DimensionOrganizationUID', action: 'U', options: UIDS },
+    { keyword: 'DoseReferenceDescription', action: 'X', options: DESCRIPTOR },
+    { keyword: 'DoseReferenceUID', action: 'U', options: UIDS },
+    { keyword: 'EncryptedAttributesSequence', action: 'X' },
+    { keyword: 'EndAcquisitionDateTime', action: 'X/D', options: DATES },
+    { keyword: 'EthnicGroup', action: 'X', options: CHARACTERISTICS },
+    { keyword: 'ExpectedCompletionDateTime', action: 'X', options: DATES },
+    { keyword: 'FailedSOPInstanceUIDList', action: 'U', options: UIDS },
+    { keyword: 'FiducialUID', action: 'U', options: UIDS },
+    { keyword: 'FillerOrderNumberImagingServiceRequest', action: 'Z' },
+    { keyword: 'FrameAcquisitionDateTime', action: 'X/D', options: DATES },
+    { keyword: 'FrameComments', action: 'X', options: DESCRIPTOR },
+    { keyword: 'FrameOfReferenceUID', action: 'U', options: UIDS },
+    { keyword: 'FrameReferenceDateTime', action: 'X/D', options: DATES },
+    { keyword: 'GantryID', action: 'X', options: DEVICE },
+    { keyword: 'GeneratorID', action: 'X', options: DEVICE },
+    { keyword: 'GraphicAnnotationSequence', action: 'D', options: { cleanGraphics: 'C' } },
+    { keyword: 'HumanPerformerName', action: 'X' },
+    { keyword: 'HumanPerformerOrganization', action: 'X' },
+    { keyword: 'IconImageSequence', action: 'X' },
+    { keyword: 'ImageComments', action: 'X', options: DESCRIPTOR },
+    { keyword: 'ImagingServiceRequestComments', action: 'X', options: DESCRIPTOR },
+    { keyword: 'InstanceCreationDate', action: 'X/D', options: DATES },
+    { keyword: 'InstanceCreationTime', action: 'X/Z/D', options: DATES },
+    { keyword: 'InstanceCreatorUID', action: 'U', options: UIDS },
+    { keyword: 'InstitutionAddress', action: 'X', options: INSTITUTION },
+    { keyword: 'InstitutionalDepartmentTypeCodeSequence', action: 'X', options: INSTITUTION },
+    { keyword: 'InstitutionCodeSequence', action: 'X/Z/D', options: INSTITUTION },
+    { keyword: 'InstitutionName', action: 'X/Z/D', options: INSTITUTION },
+    { keyword: 'InstitutionalDepartmentName', action: 'X', options: INSTITUTION },
+    { keyword: 'IntendedRecipientsOfResultsIdentificationSequence', action: 'X' },
+    { keyword: 'IrradiationEventUID', action: 'U', options: UIDS },
+    { keyword: 'IssueDateOfImagingServiceRequest', action: 'X', options: DATES },
+    { keyword: 'IssuerOfAdmissionIDSequence', action: 'X' },
+    { keyword: 'IssuerOfPatientID', action: 'X' },
+    { keyword: 'IssuerOfPatientIDQualifiersSequence', action: 'X' },
+    { keyword: 'IssuerOfServiceEpisodeIDSequence', action: 'X' },
+    { keyword: 'IssueTimeOfImagingServiceRequest', action: 'X', options: DATES },
+    { keyword: 'LastMenstrualDate', action: 'X', options: DATES },
+    { keyword: 'MAC', action: 'X' },
+    { keyword: 'MediaStorageSOPInstanceUID', action: 'U', options: UIDS },
+    { keyword: 'MedicalAlerts', action: 'X', options: CONDITION },
+    { keyword: 'MilitaryRank', action: 'X' },
+    { keyword: 'ModifiedAttributesSequence', action: 'X' },
+    { keyword: 'NameOfPhysiciansReadingStudy', action: 'X' },
+    { keyword: 'NamesOfIntendedRecipientsOfResults', action: 'X' },
+    { keyword: 'ObservationUID', action: 'U', options: UIDS },
+    { keyword: 'Occupation', action: 'X', options: CONDITION },
+    { keyword: 'OperatorIdentificationSequence', action: 'X' },
+    { keyword: 'OperatorsName', action: 'X/Z/D' },
+    { keyword: 'OrderCallbackPhoneNumber', action: 'X' },
+    { keyword: 'OrderCallbackTelecomInformation', action: 'X' },
+    { keyword: 'OrderEnteredBy', action: 'X' },
+    { keyword: 'OrderEntererLocation', action: 'X' },
+    { keyword: 'OriginalAttributesSequence', action: 'X' },
+    { keyword: 'OtherPatientIDsSequence', action: 'X' },
+    { keyword: 'OtherPatientNames', action: 'X' },
+    { keyword: 'ParticipantSequence', action: 'X' },
+    { keyword: 'PatientAddress', action: 'X' },
+    { keyword: 'PatientAge', action: 'X', options: CHARACTERISTICS },
+    { keyword: 'PatientAlternativeCalendar', action: 'X' },
+    { keyword: 'PatientBirthDate', action: 'Z' },
+    { keyword: 'PatientBirthDateInAlternativeCalendar', action: 'X' },
+    { keyword: 'PatientBirthName', action: 'X' },
+    { keyword: 'PatientBirthTime', action: 'X' },
+    { keyword: 'PatientComments', action: 'X', options: DESCRIPTOR },
+    { keyword: 'PatientDeathDateInAlternativeCalendar', action: 'X' },
+    { keyword: 'PatientID', action: 'Z' },
+    { keyword: 'PatientInstitutionResidence', action: 'X' },
+    { keyword: 'PatientInsurancePlanCodeSequence', action: 'X' },
+    { keyword: 'PatientMotherBirthName', action: 'X' },
+    { keyword: 'PatientName', action: 'Z' },
+    { keyword: 'PatientPrimaryLanguageCodeSequence', action: 'X' },
+    { keyword: 'PatientPrimaryLanguageModifierCodeSequence', action: 'X' },
+    { keyword: 'PatientReligiousPreference', action: 'X' },
+    { keyword: 'PatientSex', action: 'Z', options: CHARACTERISTICS },
+    { keyword: 'PatientSexNeutered', action: 'X/Z', options: CHARACTERISTICS },
+    { keyword: 'PatientSize', action: 'X', options: CHARACTERISTICS },
+    { keyword: 'PatientSizeCodeSequence', action: 'X', options: CHARACTERISTICS },
+    { keyword: 'PatientState', action: 'X', options: CONDITION },
+    { keyword: 'PatientTelecomInformation', action: 'X' },
+    { keyword: 'PatientTelephoneNumbers', action: 'X' },
+    { keyword: 'PatientTransportArrangements', action: 'X' },
+    { keyword: 'PatientWeight', action: 'X', options: CHARACTERISTICS },
+    { keyword: 'PerformedLocation', action: 'X' },
+    { keyword: 'PerformedProcedureStepDescription', action: 'X', options: DESCRIPTOR },
+    { keyword: 'PerformedProcedureStepEndDate', action: 'X', options: DATES },
+    { keyword: 'PerformedProcedureStepEndDateTime', action: 'X', options: DATES },
+    { keyword: 'PerformedProcedureStepEndTime', action: 'X', options: DATES },
+    { keyword: 'PerformedProcedureStepID', action: 'X' },
+    { keyword: 'PerformedProcedureStepStartDate', action: 'X', options: DATES },
+    { keyword: 'PerformedProcedureStepStartDateTime', action: 'X', options: DATES },
+    { keyword: 'PerformedProcedureStepStartTime', action: 'X', options: DATES },
+    { keyword: 'PerformedStationAETitle', action: 'X', options: DEVICE },
+    { keyword: 'PerformedStationGeographicLocationCodeSequence', action: 'X', options: DEVICE },
+    { keyword: 'PerformedStationName', action: 'X', options: DEVICE },
+    { keyword: 'PerformedStationNameCodeSequence', action: 'X', options: DEVICE },
+    { keyword: 'PerformingPhysicianIdentificationSequence', action: 'X' },
+    { keyword: 'PerformingPhysicianName', action: 'X' },
+    { keyword: 'PersonAddress', action: 'X' },
+    { keyword: 'PersonIdentificationCodeSequence', action: 'D' },
+    { keyword: 'PersonName', action: 'D' },
+    { keyword: 'PersonTelecomInformation', action: 'X' },
+    { keyword: 'PersonTelephoneNumbers', action: 'X' },
+    { keyword: 'PhysiciansOfRecord', action: 'X' },
+    { keyword: 'PhysiciansOfRecordIdentificationSequence', action: 'X' },
+    { keyword: 'PhysiciansReadingStudyIdentificationSequence', action: 'X' },
+    { keyword: 'PlacerOrderNumberImagingServiceRequest', action: 'Z' },
+    { keyword: 'PlateID', action: 'X', options: DEVICE },
+    { keyword: 'PregnancyStatus', action: 'X', options: CHARACTERISTICS },
+    { keyword: 'PreMedication', action: 'X', options: CONDITION },
+    { keyword: 'PresentationDisplayCollectionUID', action: 'U', options: UIDS },
+    { keyword: 'PresentationSequenceCollectionUID', action: 'U', options: UIDS },
+    { keyword: 'ProcedureStepCancellationDateTime', action: 'X', options: DATES },
+    { keyword: 'ProtocolName', action: 'X/D', options: DESCRIPTOR },
+    { keyword: 'ReasonForTheRequestedProcedure', action: 'X', options: DESCRIPTOR },
+    { keyword: 'ReferencedDigitalSignatureSequence', action: 'X' },
+    { keyword: 'ReferencedFrameOfReferenceUID', action: 'U', options: UIDS },
+    { keyword: 'ReferencedImageSequence', action: 'X/Z/U*', options: UIDS },
+    { keyword: 'ReferencedPatientAliasSequence', action: 'X' },
+    { keyword: 'ReferencedPatientPhotoSequence', action: 'X' },
+    { keyword: 'ReferencedPatientSequence', action: 'X' },
+    { keyword: 'ReferencedPerformedProcedureStepSequence', action: 'X/Z/D' },
+    { keyword: 'ReferencedSOPInstanceMACSequence', action: 'X' },
+    { keyword: 'ReferencedSOPInstanceUID', action: 'U', options: UIDS },
+    { keyword: 'ReferencedSOPInstanceUIDInFile', action: 'U', options: UIDS },
+    { keyword: 'ReferencedStudySequence', action: 'X/Z' },
+    { keyword: 'ReferringPhysicianAddress', action: 'X' },
+    { keyword: 'ReferringPhysicianIdentificationSequence', action: 'X' },
+    { keyword: 'ReferringPhysicianName', action: 'Z' },
+    { keyword: 'ReferringPhysicianTelephoneNumbers', action: 'X' },
+    { keyword: 'RegionOfResidence', action: 'X' },
+    { keyword: 'RequestAttributesSequence', action: 'X' },
+    { keyword: 'RequestedContrastAgent', action: 'X', options: DESCRIPTOR },
+    { keyword: 'RequestedProcedureComments', action: 'X', options: DESCRIPTOR },
+    { keyword: 'RequestedProcedureDescription', action: 'X/Z', options: DESCRIPTOR },
+    { keyword: 'RequestedProcedureID', action: 'X' },
+    { keyword: 'RequestedProcedureLocation', action: 'X' },
+    { keyword: 'RequestedSOPInstanceUID', action: 'U', options: UIDS },
+    { keyword: 'RequestingPhysician', action: 'X' },
+    { keyword: 'RequestingPhysicianIdentificationSequence', action: 'X' },
+    { keyword: 'RequestingService', action: 'X' },
+    { keyword: 'ResponsibleOrganization', action: 'X' },
+    { keyword: 'ResponsiblePerson', action: 'X' },
+    { keyword: 'RETIRED_AcquisitionComments', action: 'X', options: DESCRIPTOR },
+    { keyword: 'RETIRED_CurrentObserverTrial', action: 'X' },
+    { keyword: 'RETIRED_CurveDate', action: 'X', options: DATES },
+    { keyword: 'RETIRED_CurveTime', action: 'X', options: DATES },
+    { keyword: 'RETIRED_DischargeDate', action: 'X', options: DATES },
+    { keyword: 'RETIRED_DischargeDiagnosisDescription', action: 'X', options: DESCRIPTOR },
+    { keyword: 'RETIRED_DischargeTime', action: 'X', options: DATES },
+    { keyword: 'RETIRED_DistributionAddress', action: 'X' },
+    { keyword: 'RETIRED_DistributionName', action: 'X' },
+    { keyword: 'RETIRED_IdentifyingComments', action: 'X', options: DESCRIPTOR },
+    { keyword: 'RETIRED_ImagePresentationComments', action: 'X', options: DESCRIPTOR },
+    { keyword: 'RETIRED_InsurancePlanIdentification', action: 'X' },
+    { keyword: 'RETIRED_InterpretationApproverSequence', action: 'X' },
+    { keyword: 'RETIRED_InterpretationAuthor', action: 'X' },
+    { keyword: 'RETIRED_InterpretationIDIssuer', action: 'X' },
+    { keyword: 'RETIRED_InterpretationRecorder', action: 'X' },
+    { keyword: 'RETIRED_InterpretationText', action: 'X', options: DESCRIPTOR },
+    { keyword: 'RETIRED_InterpretationTranscriber', action: 'X' },
+    { keyword: 'RETIRED_LargePaletteColorLookupTableUID', action: 'U', options: UIDS },
+    { keyword: 'RETIRED_MedicalRecordLocator', action: 'X' },
+    { keyword: 'RETIRED_ModifyingDeviceID', action: 'X', options: DEVICE },
+    { keyword: 'RETIRED_ModifyingDeviceManufacturer', action: 'X', options: DEVICE },
+    { keyword: 'RETIRED_NetworkID', action: 'X', options: DEVICE },
+    { keyword: 'RETIRED_OtherPatientIDs', action: 'X' },
+    { keyword: 'RETIRED_OverlayDate', action: 'X', options: DATES },
+    { keyword: 'RETIRED_OverlayTime', action: 'X', options: DATES },
+    { keyword: 'RETIRED_PhysicianApprovingInterpretation', action: 'X' },
+    { keyword: 'RETIRED_ReasonForStudy', action: 'X', options: DESCRIPTOR },
+    { keyword: 'RETIRED_ReasonForTheImagingServiceRequest', action: 'X', options: DESCRIPTOR },
+    { keyword: 'RETIRED_ReferencedGeneralPurposeScheduledProcedureStepTransactionUID', action: 'U', options: UIDS },
+    { keyword: 'RETIRED_RelatedFrameOfReferenceUID', action: 'U', options: UIDS },
+    { keyword: 'RETIRED_ResultsIDIssuer', action: 'X' },
+    { keyword: 'RETIRED_ScheduledPatientInstitutionResidence', action: 'X' },
+    { keyword: 'RETIRED_ScheduledStudyLocation', action: 'X' },
+    { keyword: 'RETIRED_ScheduledStudyLocationAETitle', action: 'X' },
+    { keyword: 'RETIRED_ScheduledStudyStartDate', action: 'X', options: DATES },
+    { keyword: 'RETIRED_ScheduledStudyStartTime', action: 'X', options: DATES },
+    { keyword: 'RETIRED_ScheduledStudyStopDate', action: 'X', options: DATES },
+    { keyword: 'RETIRED_ScheduledStudyStopTime', action: 'X', options: DATES },
+    { keyword: 'RETIRED_SpecimenAccessionNumber', action: 'X' },
+    { keyword: 'RETIRED_StudyArrivalDate', action: 'X', options: DATES },
+    { keyword: 'RETIRED_StudyArrivalTime', action: 'X', options: DATES },
+    { keyword: 'RETIRED_StudyComments', action: 'X', options: DESCRIPTOR },
+    { keyword: 'RETIRED_StudyCompletionDate', action: 'X', options: DATES },
+    { keyword: 'RETIRED_StudyCompletionTime', action: 'X', options: DATES },
+    { keyword: 'RETIRED_StudyIDIssuer', action: 'X' },
+    { keyword: 'RETIRED_StudyReadDate', action: 'X', options: DATES },
+    { keyword: 'RETIRED_StudyReadTime', action: 'X', options: DATES },
+    { keyword: 'RETIRED_StudyVerifiedDate', action: 'X', options: DATES },
+    { keyword: 'RETIRED_StudyVerifiedTime', action: 'X', options: DATES },
+    { keyword: 'RETIRED_TemplateExtensionCreatorUID', action: 'U', options: UIDS },
+    { keyword: 'RETIRED_TemplateExtensionOrganizationUID', action: 'U', options: UIDS },
+    { keyword: 'RETIRED_TextComments', action: 'X', options: DESCRIPTOR },
+    { keyword: 'RETIRED_TopicAuthor', action: 'X' },
+    { keyword: 'RETIRED_TopicKeywords', action: 'X' },
+    { keyword: 'RETIRED_TopicSubject', action: 'X' },
+    { keyword: 'RETIRED_TopicTitle', action: 'X' },
+    { keyword: 'RETIRED_VerbalSourceIdentifierCodeSequenceTrial', action: 'X' },
+    { keyword: 'RETIRED_VerbalSourceTrial', action: 'X' },
+    { keyword: 'ReviewDate', action: 'X', options: DATES },
+    { keyword: 'ReviewerName', action: 'X' },
+    { keyword: 'ReviewTime', action: 'X', options: DATES },
+    { keyword: 'ROIDescription', action: 'X', options: DESCRIPTOR },
+    { keyword: 'ROIGenerationDescription', action: 'X', options: DESCRIPTOR },
+    { keyword: 'ROIInterpreter', action: 'X' },
+    { keyword: 'ScheduledHumanPerformersSequence', action: 'X' },
+    { keyword: 'ScheduledPerformingPhysicianIdentificationSequence', action: 'X' },
+    { keyword: 'ScheduledPerformingPhysicianName', action: 'X' },
+    { keyword: 'ScheduledProcedureStepDescription', action: 'X', options: DESCRIPTOR },
+    { keyword: 'ScheduledProcedureStepEndDate', action: 'X', options: DATES },
+    { keyword: 'ScheduledProcedureStepEndTime', action: 'X', options: DATES },
+    { keyword: 'ScheduledProcedureStepID', action: 'X' },
+    { keyword: 'ScheduledProcedureStepLocation', action: 'X' },
+    { keyword: 'ScheduledProcedureStepModificationDateTime', action: 'X', options: DATES },
+    { keyword: 'ScheduledProcedureStepStartDate', action: 'X', options: DATES },
+    { keyword: 'ScheduledProcedureStepStartDateTime', action: 'X', options: DATES },
+    { keyword: 'ScheduledProcedureStepStartTime', action: 'X', options: DATES },
+    { keyword: 'ScheduledStationAETitle', action: 'X', options: DEVICE },
+    { keyword: 'ScheduledStationGeographicLocationCodeSequence', action: 'X', options: DEVICE },
+    { keyword: 'ScheduledStationName', action: 'X', options: DEVICE },
+    { keyword: 'ScheduledStationNameCodeSequence', action: 'X', options: DEVICE },
+    { keyword: 'SeriesDate', action: 'X/D', options: DATES },
+    { keyword: 'SeriesDescription', action: 'X', options: DESCRIPTOR },
+    { keyword: 'SeriesInstanceUID', action: 'U', options: UIDS },
+    { keyword: 'SeriesTime', action: 'X/D', options: DATES },
+    { keyword: 'ServiceEpisodeDescription', action: 'X', options: DESCRIPTOR },
+    { keyword: 'ServiceEpisodeID', action: 'X' },
+    { keyword: 'SmokingStatus', action: 'X', options: CHARACTERISTICS },
+    { keyword: 'SOPInstanceUID', action: 'U', options: UIDS },
+    { keyword: 'SourceImageSequence', action: 'X/Z/U*', options: UIDS },
+    { keyword: 'SourceSerialNumber', action: 'X', options: DEVICE },
+    { keyword: 'SpecialNeeds', action: 'X', options: CONDITION },
+    { keyword: 'SpecimenDetailedDescription', action: 'X', options: DESCRIPTOR },
+    { keyword: 'SpecimenShortDescription', action: 'X', options: DESCRIPTOR },
+    { keyword: 'SpecimenUID', action: 'U', options: UIDS },
+    { keyword: 'StartAcquisitionDateTime', action: 'X/D', options: DATES },
+    { keyword: 'StationName', action: 'X/Z/D', options: DEVICE },
+    { keyword: 'StorageMediaFileSetUID', action: 'U', options: UIDS },
+    { keyword: 'StudyDate', action: 'Z', options: DATES },
+    { keyword: 'StudyDescription', action: 'X', options: DESCRIPTOR },
+    { keyword: 'StudyID', action: 'Z' },
+    { keyword: 'StudyInstanceUID', action: 'U', options: UIDS },
+    { keyword: 'StudyTime', action: 'Z', options: DATES },
+    { keyword: 'SynchronizationFrameOfReferenceUID', action: 'U', options: UIDS },
+    { keyword: 'TargetUID', action: 'U', options: UIDS },
+    { keyword: 'TextString', action: 'X', options: DESCRIPTOR },
+    { keyword: 'TextValue', action: 'X', options: { cleanStructuredContent: 'C' } },
+    { keyword: 'Time', action: 'X', options: DATES },
+    { keyword: 'TimezoneOffsetFromUTC', action: 'X', options: DATES },
+    { keyword: 'TrackingUID', action: 'U', options: UIDS },
+    { keyword: 'TransactionUID', action: 'U', options: UIDS },
+    { keyword: 'UID', action: 'U', options: UIDS },
+    { keyword: 'UniqueDeviceIdentifier', action: 'X', options: DEVICE },
+    { keyword: 'VerifyingObserverIdentificationCodeSequence', action: 'Z' },
+    { keyword: 'VerifyingObserverName', action: 'D' },
+    { keyword: 'VerifyingObserverSequence', action: 'D' },
+    { keyword: 'VerifyingOrganization', action: 'X' },
+    { keyword: 'VisitComments', action: 'X', options: DESCRIPTOR },
+];
+
+/** The repeating groups of PS3.15 Table E.1-1. */
+const REPEATING_PROFILE_ATTRIBUTES: readonly ProfileRange[] = [
+    // Curve Data
+    { range: '50xxxxxx', action: 'X', options: { cleanGraphics: 'C' } },
+    // Overlay Data
+    { range: '60xx3000', action: 'X', options: { cleanGraphics: 'C' } },
+    // Overlay Comments
+    { range: '60xx4000', action: 'X', options: DESCRIPTOR },
+];
+
+// ---------------------------------------------------------------------------
+// Table E.3.10-1
+// ---------------------------------------------------------------------------
+
+/** Private attributes known to hold no identifying information (PS3.15 Table E.3.10-1, common subset). */
+const SAFE_PRIVATE_ATTRIBUTES: readonly PlacedPrivateTagRef[] = [
+    // Diffusion b-value, directionality, gradient direction and b-matrix
+    { creator: 'SIEMENS MR HEADER', group: 0x0019, element: 0x0c },
+    { creator: 'SIEMENS MR HEADER', group: 0x0019, element: 0x0d },
+    { creator: 'SIEMENS MR HEADER', group: 0x0019, element: 0x0e },
+    { creator: 'SIEMENS MR HEADER', group: 0x0019, element: 0x27 },
+    // Slop integers holding the diffusion b-value
+    { creator: 'GEMS_PARM_01', group: 0x0043, element: 0x39 },
+    // Diffusion b-factor and direction
+    { creator: 'Philips Imaging DD 001', group: 0x2001, element: 0x03 },
+    { creator: 'Philips Imaging DD 001', group: 0x2001, element: 0x04 },
+    // SUV factor and activity concentration scale factor
+    { creator: 'Philips PET Private Group', group: 0x7053, element: 0x00 },
+    { creator: 'Philips PET Private Group', group: 0x7053, element: 0x09 },
+];
+
+// ---------------------------------------------------------------------------
+// CID 7050
+// ---------------------------------------------------------------------------
+
+/** Code of the Basic Application Confidentiality Profile. */
+const BASIC_PROFILE_CODE: DeidentificationCode = { codeValue: '113100', codeMeaning: 'Basic Application Confidentiality Profile' };
+
+/** Codes of the profile options. */
+const OPTION_CODES: Readonly<Record<DeidentificationOptionValue, DeidentificationCode>> = {
+    cleanGraphics: { codeValue: '113103', codeMeaning: 'Clean Graphics Option' },
+    cleanStructuredContent: { codeValue: '113104', codeMeaning: 'Clean Structured Content Option' },
+    cleanDescriptors: { codeValue: '113105', codeMeaning: 'Clean Descriptors Option' },
+    retainLongitudinalFullDates: { codeValue: '113106', codeMeaning: 'Retain Longitudinal Temporal Information Full Dates Option' },
+    retainLongitudinalModifiedDates: { codeValue: '113107', codeMeaning: 'Retain Longitudinal Temporal Information Modified Dates Option' },
+    retainPatientCharacteristics: { codeValue: '113108', codeMeaning: 'Retain Patient Characteristics Option' },
+    retainDeviceIdentity: { codeValue: '113109', codeMeaning: 'Retain Device Identity Option' },
+    retainUIDs: { codeValue: '113110', codeMeaning: 'Retain UIDs Option' },
+    retainSafePrivate: { codeValue: '113111', codeMeaning: 'Retain Safe Private Option' },
+    retainInstitutionIdentity: { codeValue: '113112', codeMeaning: 'Retain Institution Identity Option' },
+};
+
+export { BASIC_PROFILE_ATTRIBUTES, REPEATING_PROFILE_ATTRIBUTES, SAFE_PRIVATE_ATTRIBUTES, BASIC_PROFILE_CODE, OPTION_CODES };
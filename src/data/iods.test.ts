@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { IOD_DEFINITIONS, findIod } from './iods';
+import { SOP_CLASSES } from './sopClasses';
+import { lookupTagByName } from '../dicom/dictionary';
+import type { ModuleAttribute } from '../dicom/iodTypes';
+
+/** Collects every keyword used by the definitions, walking item attributes once each. */
+function collectKeywords(): ReadonlySet<string> {
+    const keywords = new Set<string>();
+    const seen = new Set<ReadonlyArray<ModuleAttribute>>();
+    const queue: Array<ReadonlyArray<ModuleAttribute>> = IOD_DEFINITIONS.flatMap(iod => iod.modules.map(used => used.module.attributes));
+    for (let i = 0; i < queue.length; i++) {
+        const attributes = queue[i];
+        if (attributes === undefined || seen.has(attributes)) continue;
+        seen.add(attributes);
+        for (const attribute of attributes) {
+            keywords.add(attribute.keyword);
+            if (attribute.condition !== undefined) keywords.add(attribute.condition.keyword);
+            if (attribute.items !== undefined) queue.push(attribute.items);
+        }
+    }
+    return keywords;
+}
+
+describe('IOD definitions', () => {
+    it('finds the IOD of each covered SOP class', () => {
+        expect(findIod(SOP_CLASSES.CTImageStorage)?.name).toBe('CT Image');
+        expect(findIod(SOP_CLASSES.DigitalXRayImageStorageForProcessing)?.name).toBe('Digital X-Ray Image');
+        expect(findIod(SOP_CLASSES.MultiFrameTrueColorSecondaryCaptureImageStorage)?.name).toBe('Multi-frame Secondary Capture Image');
+        expect(findIod(SOP_CLASSES.ComprehensiveSRStorage)?.name).toBe('Comprehensive SR');
+        expect(findIod(SOP_CLASSES.EncapsulatedPDFStorage)?.name).toBe('Encapsulated PDF');
+        expect(findIod(SOP_CLASSES.RTPlanStorage)).toBeUndefined();
+    });
+
+    it('covers every SOP class at most once', () => {
+        const uids = IOD_DEFINITIONS.flatMap(iod => iod.sopClassUIDs);
+        expect(new Set(uids).size).toBe(uids.length);
+    });
+
+    it('uses data dictionary keywords only', () => {
+        const unknown = [...collectKeywords()].filter(keyword => lookupTagByName(keyword) === undefined);
+        expect(unknown).toEqual([]);
+    });
+});
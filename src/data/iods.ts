@@ -0,0 +1,899 @@
+/**
+ * Module and IOD definitions used by the IOD conformance validator.
+ *
+ * This is a curated subset of PS3.3: the IODs of the most common storage SOP
+ * classes (CT, MR, CR, DX, US, Secondary Capture, Structured Reports and the
+ * encapsulated documents), with the commonly used attributes of each module.
+ * Type 3 attributes are listed where they carry enumerated values or are widely
+ * used; attributes not listed are only checked against the data dictionary.
+ *
+ * @see DICOM PS3.3 Annex A — Composite Information Object Definitions
+ * @see DICOM PS3.3 Annex C — Information Module Definitions
+ * @module data/iods
+ */
+
+import type { IodDefinition, IodModule, ModuleAttribute, ModuleDefinition } from '../dicom/iodTypes';
+import { SOP_CLASSES } from './sopClasses';
+
+// ---------------------------------------------------------------------------
+// Shared values
+// ---------------------------------------------------------------------------
+
+const YES_NO: readonly string[] = ['YES', 'NO'];
+const MONOCHROME: readonly string[] = ['MONOCHROME1', 'MONOCHROME2'];
+
+/** Attributes of a code sequence item (PS3.3 Table 8.8-1, basic subset). */
+const CODE_ITEM: readonly ModuleAttribute[] = [
+    { keyword: 'CodeValue', type: '1C' },
+    { keyword: 'CodingSchemeDesignator', type: '1C', condition: { kind: 'present', keyword: 'CodeValue' } },
+    { keyword: 'CodeMeaning', type: '1' },
+];
+
+/** Attributes of an SOP instance reference item. */
+const SOP_REFERENCE_ITEM: readonly ModuleAttribute[] = [
+    { keyword: 'ReferencedSOPClassUID', type: '1' },
+    { keyword: 'ReferencedSOPInstanceUID', type: '1' },
+];
+
+// ---------------------------------------------------------------------------
+// Common modules
+// ---------------------------------------------------------------------------
+
+/** PS3.3 C.7.1.1 */
+const PATIENT: ModuleDefinition = {
+    name: 'Patient',
+    attributes: [
+        { keyword: 'PatientName', type: '2' },
+        { keyword: 'PatientID', type: '2' },
+        { keyword: 'IssuerOfPatientID', type: '3' },
+        { keyword: 'PatientBirthDate', type: '2' },
+        { keyword: 'PatientSex', type: '2', enumerated: ['M', 'F', 'O'] },
+        { keyword: 'OtherPatientIDsSequence', type: '3', items: [{ keyword: 'PatientID', type: '1' }] },
+        { keyword: 'PatientComments', type: '3' },
+    ],
+};
+
+/** PS3.3 C.7.2.1 */
+const GENERAL_STUDY: ModuleDefinition = {
+    name: 'General Study',
+    attributes: [
+        { keyword: 'StudyInstanceUID', type: '1' },
+        { keyword: 'StudyDate', type: '2' },
+        { keyword: 'StudyTime', type: '2' },
+        { keyword: 'ReferringPhysicianName', type: '2' },
+        { keyword: 'StudyID', type: '2' },
+        { keyword: 'AccessionNumber', type: '2' },
+        { keyword: 'StudyDescription', type: '3' },
+        { keyword: 'ProcedureCodeSequence', type: '3', items: CODE_ITEM },
+    ],
+};
+
+/** PS3.3 C.7.2.2 */
+const PATIENT_STUDY: ModuleDefinition = {
+    name: 'Patient Study',
+    attributes: [
+        { keyword: 'AdmittingDiagnosesDescription', type: '3' },
+        { keyword: 'PatientAge', type: '3' },
+        { keyword: 'PatientSize', type: '3' },
+        { keyword: 'PatientWeight', type: '3' },
+    ],
+};
+
+/** PS3.3 C.7.3.1 */
+const GENERAL_SERIES: ModuleDefinition = {
+    name: 'General Series',
+    attributes: [
+        { keyword: 'Modality', type: '1' },
+        { keyword: 'SeriesInstanceUID', type: '1' },
+        { keyword: 'SeriesNumber', type: '2' },
+        { keyword: 'Laterality', type: '2C', enumerated: ['R', 'L'] },
+        { keyword: 'SeriesDate', type: '3' },
+        { keyword: 'SeriesTime', type: '3' },
+        { keyword: 'PerformingPhysicianName', type: '3' },
+        { keyword: 'ProtocolName', type: '3' },
+        { keyword: 'SeriesDescription', type: '3' },
+        { keyword: 'OperatorsName', type: '3' },
+        { keyword: 'ReferencedPerformedProcedureStepSequence', type: '3', items: SOP_REFERENCE_ITEM },
+        { keyword: 'BodyPartExamined', type: '3' },
+        { keyword: 'PatientPosition', type: '2C' },
+    ],
+};
+
+/** PS3.3 C.7.4.1 */
+const FRAME_OF_REFERENCE: ModuleDefinition = {
+    name: 'Frame of Reference',
+    attributes: [
+        { keyword: 'FrameOfReferenceUID', type: '1' },
+        { keyword: 'PositionReferenceIndicator', type: '2' },
+    ],
+};
+
+/** PS3.3 C.7.5.1 */
+const GENERAL_EQUIPMENT: ModuleDefinition = {
+    name: 'General Equipment',
+    attributes: [
+        { keyword: 'Manufacturer', type: '2' },
+        { keyword: 'InstitutionName', type: '3' },
+        { keyword: 'StationName', type: '3' },
+        { keyword: 'ManufacturerModelName', type: '3' },
+        { keyword: 'DeviceSerialNumber', type: '3' },
+        { keyword: 'SoftwareVersions', type: '3' },
+    ],
+};
+
+/** PS3.3 C.7.6.1 */
+const GENERAL_IMAGE: ModuleDefinition = {
+    name: 'General Image',
+    attributes: [
+        { keyword: 'InstanceNumber', type: '2' },
+        { keyword: 'PatientOrientation', type: '2C', condition: { kind: 'absent', keyword: 'ImageOrientationPatient' } },
+        { keyword: 'ContentDate', type: '2C' },
+        { keyword: 'ContentTime', type: '2C' },
+        { keyword: 'ImageType', type: '3' },
+        { keyword: 'AcquisitionNumber', type: '3' },
+        { keyword: 'AcquisitionDate', type: '3' },
+        { keyword: 'AcquisitionTime', type: '3' },
+        { keyword: 'AcquisitionDateTime', type: '3' },
+        { keyword: 'ImagesInAcquisition', type: '3' },
+        { keyword: 'ImageComments', type: '3' },
+        { keyword: 'QualityControlImage', type: '3', enumerated: YES_NO },
+        { keyword: 'BurnedInAnnotation', type: '3', enumerated: YES_NO },
+        { keyword: 'LossyImageCompression', type: '3', enumerated: ['00', '01'] },
+        { keyword: 'LossyImageCompressionRatio', type: '3' },
+        { keyword: 'LossyImageCompressionMethod', type: '3' },
+    ],
+};
+
+/** PS3.3 C.7.6.2 */
+const IMAGE_PLANE: ModuleDefinition = {
+    name: 'Image Plane',
+    attributes: [
+        { keyword: 'PixelSpacing', type: '1' },
+        { keyword: 'ImageOrientationPatient', type: '1' },
+        { keyword: 'ImagePositionPatient', type: '1' },
+        { keyword: 'SliceThickness', type: '2' },
+        { keyword: 'SliceLocation', type: '3' },
+    ],
+};
+
+/** PS3.3 C.7.6.3 */
+const IMAGE_PIXEL: ModuleDefinition = {
+    name: 'Image Pixel',
+    attributes: [
+        { keyword: 'SamplesPerPixel', type: '1' },
+        { keyword: 'PhotometricInterpretation', type: '1' },
+        { keyword: 'Rows', type: '1' },
+        { keyword: 'Columns', type: '1' },
+        { keyword: 'BitsAllocated', type: '1' },
+        { keyword: 'BitsStored', type: '1' },
+        { keyword: 'HighBit', type: '1' },
+        { keyword: 'PixelRepresentation', type: '1', enumerated: ['0', '1'] },
+        { keyword: 'PixelData', type: '1C', condition: { kind: 'absent', keyword: 'PixelDataProviderURL' } },
+        { keyword: 'PlanarConfiguration', type: '1C', enumerated: ['0', '1'], condition: { kind: 'notEquals', keyword: 'SamplesPerPixel', values: ['1'] } },
+        { keyword: 'PixelAspectRatio', type: '1C' },
+        { keyword: 'SmallestImagePixelValue', type: '3' },
+        { keyword: 'LargestImagePixelValue', type: '3' },
+        {
+            keyword: 'RedPaletteColorLookupTableDescriptor',
+            type: '1C',
+            condition: { kind: 'equals', keyword: 'PhotometricInterpretation', values: ['PALETTE COLOR'] },
+        },
+        {
+            keyword: 'GreenPaletteColorLookupTableDescriptor',
+            type: '1C',
+            condition: { kind: 'equals', keyword: 'PhotometricInterpretation', values: ['PALETTE COLOR'] },
+        },
+        {
+            keyword: 'BluePaletteColorLookupTableDescriptor',
+            type: '1C',
+            condition: { kind: 'equals', keyword: 'PhotometricInterpretation', values: ['PALETTE COLOR'] },
+        },
+    ],
+};
+
+/** PS3.3 C.7.6.4 */
+const CONTRAST_BOLUS: ModuleDefinition = {
+    name: 'Contrast/Bolus',
+    attributes: [
+        { keyword: 'ContrastBolusAgent', type: '2' },
+        { keyword: 'ContrastBolusAgentSequence', type: '3', items: CODE_ITEM },
+        { keyword: 'ContrastBolusRoute', type: '3' },
+        { keyword: 'ContrastBolusVolume', type: '3' },
+    ],
+};
+
+/** PS3.3 C.7.6.5 */
+const CINE: ModuleDefinition = {
+    name: 'Cine',
+    attributes: [
+        { keyword: 'FrameTime', type: '1C', condition: { kind: 'equals', keyword: 'FrameIncrementPointer', values: ['(0018,1063)'] } },
+        { keyword: 'FrameTimeVector', type: '1C', condition: { kind: 'equals', keyword: 'FrameIncrementPointer', values: ['(0018,1065)'] } },
+        { keyword: 'CineRate', type: '3' },
+    ],
+};
+
+/** PS3.3 C.7.6.6 */
+const MULTI_FRAME: ModuleDefinition = {
+    name: 'Multi-frame',
+    attributes: [
+        { keyword: 'NumberOfFrames', type: '1' },
+        { keyword: 'FrameIncrementPointer', type: '1C' },
+    ],
+};
+
+/** PS3.3 C.11.2 */
+const VOI_LUT: ModuleDefinition = {
+    name: 'VOI LUT',
+    attributes: [
+        {
+            keyword: 'VOILUTSequence',
+            type: '1C',
+            condition: { kind: 'absent', keyword: 'WindowCenter' },
+            items: [
+                { keyword: 'LUTDescriptor', type: '1' },
+                { keyword: 'LUTExplanation', type: '3' },
+                { keyword: 'LUTData', type: '1' },
+            ],
+        },
+        { keyword: 'WindowCenter', type: '1C', condition: { kind: 'absent', keyword: 'VOILUTSequence' } },
+        { keyword: 'WindowWidth', type: '1C', condition: { kind: 'present', keyword: 'WindowCenter' } },
+        { keyword: 'WindowCenterWidthExplanation', type: '3' },
+        { keyword: 'VOILUTFunction', type: '3', enumerated: ['LINEAR', 'LINEAR_EXACT', 'SIGMOID'] },
+    ],
+};
+
+/** PS3.3 C.12.1 */
+const SOP_COMMON: ModuleDefinition = {
+    name: 'SOP Common',
+    attributes: [
+        { keyword: 'SOPClassUID', type: '1' },
+        { keyword: 'SOPInstanceUID', type: '1' },
+        { keyword: 'SpecificCharacterSet', type: '1C' },
+        { keyword: 'InstanceCreationDate', type: '3' },
+        { keyword: 'InstanceCreationTime', type: '3' },
+        { keyword: 'InstanceCreatorUID', type: '3' },
+        { keyword: 'TimezoneOffsetFromUTC', type: '3' },
+    ],
+};
+
+// ---------------------------------------------------------------------------
+// Modality modules
+// ---------------------------------------------------------------------------
+
+/** PS3.3 C.8.2.1 */
+const CT_IMAGE: ModuleDefinition = {
+    name: 'CT Image',
+    attributes: [
+        { keyword: 'ImageType', type: '1' },
+        { keyword: 'SamplesPerPixel', type: '1', enumerated: ['1'] },
+        { keyword: 'PhotometricInterpretation', type: '1', enumerated: MONOCHROME },
+        { keyword: 'BitsAllocated', type: '1', enumerated: ['16'] },
+        { keyword: 'BitsStored', type: '1' },
+        { keyword: 'HighBit', type: '1' },
+        { keyword: 'RescaleIntercept', type: '1' },
+        { keyword: 'RescaleSlope', type: '1' },
+        { keyword: 'KVP', type: '2' },
+        { keyword: 'AcquisitionNumber', type: '2' },
+        { keyword: 'ScanOptions', type: '3' },
+        { keyword: 'DataCollectionDiameter', type: '3' },
+        { keyword: 'ReconstructionDiameter', type: '3' },
+        { keyword: 'DistanceSourceToDetector', type: '3' },
+        { keyword: 'GantryDetectorTilt', type: '3' },
+        { keyword: 'TableHeight', type: '3' },
+        { keyword: 'RotationDirection', type: '3', enumerated: ['CW', 'CC'] },
+        { keyword: 'ExposureTime', type: '3' },
+        { keyword: 'XRayTubeCurrent', type: '3' },
+        { keyword: 'Exposure', type: '3' },
+        { keyword: 'ConvolutionKernel', type: '3' },
+    ],
+};
+
+/** PS3.3 C.8.3.1 */
+const MR_IMAGE: ModuleDefinition = {
+    name: 'MR Image',
+    attributes: [
+        { keyword: 'ImageType', type: '1' },
+        { keyword: 'SamplesPerPixel', type: '1', enumerated: ['1'] },
+        { keyword: 'PhotometricInterpretation', type: '1', enumerated: MONOCHROME },
+        { keyword: 'BitsAllocated', type: '1', enumerated: ['16'] },
+        { keyword: 'ScanningSequence', type: '1', enumerated: ['SE', 'IR', 'GR', 'EP', 'RM'] },
+        { keyword: 'SequenceVariant', type: '1', enumerated: ['SK', 'MTC', 'SS', 'TRSS', 'SP', 'MP', 'OSP', 'NONE'] },
+        { keyword: 'ScanOptions', type: '2' },
+        { keyword: 'MRAcquisitionType', type: '2', enumerated: ['2D', '3D'] },
+        { keyword: 'RepetitionTime', type: '2C' },
+        { keyword: 'EchoTime', type: '2' },
+        { keyword: 'EchoTrainLength', type: '2' },
+        { keyword: 'InversionTime', type: '2C', condition: { kind: 'equals', keyword: 'ScanningSequence', values: ['IR'] } },
+        { keyword: 'TriggerTime', type: '2C' },
+        { keyword: 'SequenceName', type: '3' },
+        { keyword: 'AngioFlag', type: '3', enumerated: ['Y', 'N'] },
+        { keyword: 'NumberOfAverages', type: '3' },
+        { keyword: 'ImagingFrequency', type: '3' },
+        { keyword: 'ImagedNucleus', type: '3' },
+        { keyword: 'MagneticFieldStrength', type: '3' },
+        { keyword: 'SpacingBetweenSlices', type: '3' },
+        { keyword: 'FlipAngle', type: '3' },
+    ],
+};
+
+/** PS3.3 C.8.1.1 */
+const CR_SERIES: ModuleDefinition = {
+    name: 'CR Series',
+    attributes: [
+        { keyword: 'BodyPartExamined', type: '2' },
+        { keyword: 'ViewPosition', type: '2' },
+        { keyword: 'FilterType', type: '3' },
+        { keyword: 'PlateType', type: '3' },
+        { keyword: 'PhosphorType', type: '3' },
+    ],
+};
+
+/** PS3.3 C.8.1.2 */
+const CR_IMAGE: ModuleDefinition = {
+    name: 'CR Image',
+    attributes: [
+        { keyword: 'PhotometricInterpretation', type: '1', enumerated: MONOCHROME },
+        { keyword: 'KVP', type: '3' },
+        { keyword: 'PlateID', type: '3' },
+        { keyword: 'DistanceSourceToDetector', type: '3' },
+        { keyword: 'DistanceSourceToPatient', type: '3' },
+        { keyword: 'ExposureTime', type: '3' },
+        { keyword: 'XRayTubeCurrent', type: '3' },
+        { keyword: 'Exposure', type: '3' },
+        { keyword: 'ImagerPixelSpacing', type: '3' },
+    ],
+};
+
+/** PS3.3 C.8.11.1 */
+const DX_SERIES: ModuleDefinition = {
+    name: 'DX Series',
+    attributes: [
+        { keyword: 'Modality', type: '1', enumerated: ['DX'] },
+        { keyword: 'ReferencedPerformedProcedureStepSequence', type: '1C', items: SOP_REFERENCE_ITEM },
+        { keyword: 'PresentationIntentType', type: '1', enumerated: ['FOR PRESENTATION', 'FOR PROCESSING'] },
+    ],
+};
+
+/** PS3.3 C.8.11.2 */
+const DX_ANATOMY_IMAGED: ModuleDefinition = {
+    name: 'DX Anatomy Imaged',
+    attributes: [
+        { keyword: 'ImageLaterality', type: '1', enumerated: ['R', 'L', 'U', 'B'] },
+        { keyword: 'AnatomicRegionSequence', type: '2', items: CODE_ITEM },
+    ],
+};
+
+/** PS3.3 C.8.11.3 */
+const DX_IMAGE: ModuleDefinition = {
+    name: 'DX Image',
+    attributes: [
+        { keyword: 'ImageType', type: '1' },
+        { keyword: 'SamplesPerPixel', type: '1', enumerated: ['1'] },
+        { keyword: 'PhotometricInterpretation', type: '1', enumerated: MONOCHROME },
+        { keyword: 'BitsAllocated', type: '1', enumerated: ['8', '16'] },
+        { keyword: 'BitsStored', type: '1' },
+        { keyword: 'HighBit', type: '1' },
+        { keyword: 'PixelRepresentation', type: '1', enumerated: ['0'] },
+        { keyword: 'PixelIntensityRelationship', type: '1', enumerated: ['LIN', 'LOG'] },
+        { keyword: 'PixelIntensityRelationshipSign', type: '1', enumerated: ['1', '-1'] },
+        { keyword: 'RescaleIntercept', type: '1' },
+        { keyword: 'RescaleSlope', type: '1' },
+        { keyword: 'RescaleType', type: '1', enumerated: ['US'] },
+        { keyword: 'PresentationLUTShape', type: '1', enumerated: ['IDENTITY', 'INVERSE'] },
+        { keyword: 'LossyImageCompression', type: '1', enumerated: ['00', '01'] },
+        { keyword: 'LossyImageCompressionRatio', type: '1C', condition: { kind: 'equals', keyword: 'LossyImageCompression', values: ['01'] } },
+        { keyword: 'DerivationDescription', type: '3' },
+        { keyword: 'AcquisitionDeviceProcessingDescription', type: '3' },
+        { keyword: 'PatientOrientation', type: '1' },
+        { keyword: 'CalibrationImage', type: '3', enumerated: YES_NO },
+        { keyword: 'BurnedInAnnotation', type: '1', enumerated: YES_NO },
+    ],
+};
+
+/** PS3.3 C.8.11.4 */
+const DX_DETECTOR: ModuleDefinition = {
+    name: 'DX Detector',
+    attributes: [
+        { keyword: 'DetectorType', type: '2', enumerated: ['DIRECT', 'SCINTILLATOR', 'STORAGE', 'FILM'] },
+        { keyword: 'DetectorID', type: '3' },
+        { keyword: 'DetectorConditionsNominalFlag', type: '3', enumerated: YES_NO },
+        { keyword: 'ImagerPixelSpacing', type: '1' },
+    ],
+};
+
+/** PS3.3 C.8.5.5 */
+const US_REGION_CALIBRATION: ModuleDefinition = {
+    name: 'US Region Calibration',
+    attributes: [
+        {
+            keyword: 'SequenceOfUltrasoundRegions',
+            type: '1',
+            items: [
+                { keyword: 'RegionLocationMinX0', type: '1' },
+                { keyword: 'RegionLocationMinY0', type: '1' },
+                { keyword: 'RegionLocationMaxX1', type: '1' },
+                { keyword: 'RegionLocationMaxY1', type: '1' },
+                { keyword: 'PhysicalUnitsXDirection', type: '1' },
+                { keyword: 'PhysicalUnitsYDirection', type: '1' },
+                { keyword: 'PhysicalDeltaX', type: '1' },
+                { keyword: 'PhysicalDeltaY', type: '1' },
+                { keyword: 'RegionSpatialFormat', type: '1' },
+                { keyword: 'RegionDataType', type: '1' },
+                { keyword: 'RegionFlags', type: '1' },
+            ],
+        },
+    ],
+};
+
+/** PS3.3 C.8.5.6 */
+const US_IMAGE: ModuleDefinition = {
+    name: 'US Image',
+    attributes: [
+        { keyword: 'SamplesPerPixel', type: '1', enumerated: ['1', '3'] },
+        {
+            keyword: 'PhotometricInterpretation',
+            type: '1',
+            enumerated: ['MONOCHROME2', 'PALETTE COLOR', 'RGB', 'YBR_FULL', 'YBR_FULL_422', 'YBR_PARTIAL_422', 'YBR_PARTIAL_420', 'YBR_ICT', 'YBR_RCT'],
+        },
+        { keyword: 'BitsAllocated', type: '1', enumerated: ['8', '16'] },
+        { keyword: 'BitsStored', type: '1', enumerated: ['8', '16'] },
+        { keyword: 'HighBit', type: '1', enumerated: ['7', '15'] },
+        { keyword: 'PlanarConfiguration', type: '1C', enumerated: ['0', '1'], condition: { kind: 'notEquals', keyword: 'SamplesPerPixel', values: ['1'] } },
+        { keyword: 'PixelRepresentation', type: '1', enumerated: ['0'] },
+        { keyword: 'FrameIncrementPointer', type: '1C', condition: { kind: 'present', keyword: 'NumberOfFrames' } },
+        { keyword: 'ImageType', type: '2' },
+        { keyword: 'LossyImageCompression', type: '1C', enumerated: ['00', '01'] },
+        { keyword: 'NumberOfStages', type: '2C' },
+        { keyword: 'TransducerData', type: '3' },
+    ],
+};
+
+/** PS3.3 C.8.6.1 */
+const SC_EQUIPMENT: ModuleDefinition = {
+    name: 'SC Equipment',
+    attributes: [
+        { keyword: 'ConversionType', type: '1' },
+        { keyword: 'Modality', type: '3' },
+        { keyword: 'SecondaryCaptureDeviceID', type: '3' },
+        { keyword: 'SecondaryCaptureDeviceManufacturer', type: '3' },
+        { keyword: 'SecondaryCaptureDeviceManufacturerModelName', type: '3' },
+        { keyword: 'SecondaryCaptureDeviceSoftwareVersions', type: '3' },
+    ],
+};
+
+/** PS3.3 C.8.6.2 */
+const SC_IMAGE: ModuleDefinition = {
+    name: 'SC Image',
+    attributes: [
+        { keyword: 'DateOfSecondaryCapture', type: '3' },
+        { keyword: 'TimeOfSecondaryCapture', type: '3' },
+        { keyword: 'NominalScannedPixelSpacing', type: '3' },
+    ],
+};
+
+/** PS3.3 C.8.6.3 */
+const SC_MULTI_FRAME_IMAGE: ModuleDefinition = {
+    name: 'SC Multi-frame Image',
+    attributes: [
+        { keyword: 'BurnedInAnnotation', type: '1', enumerated: YES_NO },
+        { keyword: 'PresentationLUTShape', type: '1C', enumerated: ['IDENTITY', 'INVERSE'] },
+        { keyword: 'RescaleIntercept', type: '1C' },
+        { keyword: 'RescaleSlope', type: '1C', condition: { kind: 'present', keyword: 'RescaleIntercept' } },
+        { keyword: 'RescaleType', type: '1C', condition: { kind: 'present', keyword: 'RescaleIntercept' } },
+        { keyword: 'FrameIncrementPointer', type: '1C' },
+        { keyword: 'NominalScannedPixelSpacing', type: '1C' },
+    ],
+};
+
+// ---------------------------------------------------------------------------
+// Structured Report modules
+// ---------------------------------------------------------------------------
+
+/** PS3.3 C.17.1 */
+const SR_DOCUMENT_SERIES: ModuleDefinition = {
+    name: 'SR Document Series',
+    attributes: [
+        { keyword: 'Modality', type: '1', enumerated: ['SR'] },
+        { keyword: 'SeriesInstanceUID', type: '1' },
+        { keyword: 'SeriesNumber', type: '1' },
+        { keyword: 'SeriesDate', type: '3' },
+        { keyword: 'SeriesTime', type: '3' },
+        { keyword: 'SeriesDescription', type: '3' },
+        { keyword: 'ReferencedPerformedProcedureStepSequence', type: '2', items: SOP_REFERENCE_ITEM },
+    ],
+};
+
+/** PS3.3 C.17.2 */
+const SR_DOCUMENT_GENERAL: ModuleDefinition = {
+    name: 'SR Document General',
+    attributes: [
+        { keyword: 'InstanceNumber', type: '1' },
+        { keyword: 'PreliminaryFlag', type: '3', enumerated: ['PRELIMINARY', 'FINAL'] },
+        { keyword: 'CompletionFlag', type: '1', enumerated: ['PARTIAL', 'COMPLETE'] },
+        { keyword: 'CompletionFlagDescription', type: '3' },
+        { keyword: 'VerificationFlag', type: '1', enumerated: ['UNVERIFIED', 'VERIFIED'] },
+        { keyword: 'ContentDate', type: '1' },
+        { keyword: 'ContentTime', type: '1' },
+        {
+            keyword: 'VerifyingObserverSequence',
+            type: '1C',
+            condition: { kind: 'equals', keyword: 'VerificationFlag', values: ['VERIFIED'] },
+            items: [
+                { keyword: 'VerifyingObserverName', type: '1' },
+                { keyword: 'VerifyingObserverIdentificationCodeSequence', type: '2', items: CODE_ITEM },
+                { keyword: 'VerifyingOrganization', type: '1' },
+                { keyword: 'VerificationDateTime', type: '1' },
+            ],
+        },
+        { keyword: 'PredecessorDocumentsSequence', type: '1C' },
+        { keyword: 'ReferencedRequestSequence', type: '1C' },
+        { keyword: 'PerformedProcedureCodeSequence', type: '2', items: CODE_ITEM },
+        { keyword: 'CurrentRequestedProcedureEvidenceSequence', type: '1C' },
+        { keyword: 'PertinentOtherEvidenceSequence', type: '1C' },
+        { keyword: 'IdenticalDocumentsSequence', type: '1C' },
+    ],
+};
+
+/** Value types of SR content items (PS3.3 C.17.3). */
+const SR_VALUE_TYPES: readonly string[] = [
+    'TEXT',
+    'NUM',
+    'CODE',
+    'DATETIME',
+    'DATE',
+    'TIME',
+    'UIDREF',
+    'PNAME',
+    'COMPOSITE',
+    'IMAGE',
+    'WAVEFORM',
+    'SCOORD',
+    'SCOORD3D',
+    'TCOORD',
+    'CONTAINER',
+    'TABLE',
+];
+
+/**
+ * Attributes of an SR content item (PS3.3 Table C.17-5 and C.18), including the
+ * nested Content Sequence, whose items are content items again.
+ */
+const CONTENT_ITEM: ModuleAttribute[] = [
+    {
+        keyword: 'RelationshipType',
+        type: '1',
+        enumerated: ['CONTAINS', 'HAS PROPERTIES', 'HAS OBS CONTEXT', 'HAS ACQ CONTEXT', 'INFERRED FROM', 'SELECTED FROM', 'HAS CONCEPT MOD'],
+    },
+    { keyword: 'ValueType', type: '1', enumerated: SR_VALUE_TYPES },
+    { keyword: 'ConceptNameCodeSequence', type: '1C', items: CODE_ITEM },
+    { keyword: 'TextValue', type: '1C', condition: { kind: 'equals', keyword: 'ValueType', values: ['TEXT'] } },
+    { keyword: 'MeasuredValueSequence', type: '2C', condition: { kind: 'equals', keyword: 'ValueType', values: ['NUM'] } },
+    { keyword: 'ConceptCodeSequence', type: '1C', condition: { kind: 'equals', keyword: 'ValueType', values: ['CODE'] }, items: CODE_ITEM },
+    { keyword: 'DateTime', type: '1C', condition: { kind: 'equals', keyword: 'ValueType', values: ['DATETIME'] } },
+    { keyword: 'Date', type: '1C', condition: { kind: 'equals', keyword: 'ValueType', values: ['DATE'] } },
+    { keyword: 'Time', type: '1C', condition: { kind: 'equals', keyword: 'ValueType', values: ['TIME'] } },
+    { keyword: 'UID', type: '1C', condition: { kind: 'equals', keyword: 'ValueType', values: ['UIDREF'] } },
+    { keyword: 'PersonName', type: '1C', condition: { kind: 'equals', keyword: 'ValueType', values: ['PNAME'] } },
+    {
+        keyword: 'ReferencedSOPSequence',
+        type: '1C',
+        condition: { kind: 'equals', keyword: 'ValueType', values: ['COMPOSITE', 'IMAGE', 'WAVEFORM'] },
+        items: SOP_REFERENCE_ITEM,
+    },
+    { keyword: 'GraphicType', type: '1C', condition: { kind: 'equals', keyword: 'ValueType', values: ['SCOORD', 'SCOORD3D'] } },
+    { keyword: 'GraphicData', type: '1C', condition: { kind: 'equals', keyword: 'ValueType', values: ['SCOORD', 'SCOORD3D'] } },
+    {
+        keyword: 'ContinuityOfContent',
+        type: '1C',
+        enumerated: ['SEPARATE', 'CONTINUOUS'],
+        condition: { kind: 'equals', keyword: 'ValueType', values: ['CONTAINER'] },
+    },
+];
+CONTENT_ITEM.push({ keyword: 'ContentSequence', type: '1C', items: CONTENT_ITEM });
+
+/** PS3.3 C.17.3 */
+const SR_DOCUMENT_CONTENT: ModuleDefinition = {
+    name: 'SR Document Content',
+    attributes: [
+        { keyword: 'ValueType', type: '1', enumerated: ['CONTAINER'] },
+        { keyword: 'ConceptNameCodeSequence', type: '1', items: CODE_ITEM },
+        { keyword: 'ContinuityOfContent', type: '1', enumerated: ['SEPARATE', 'CONTINUOUS'] },
+        {
+            keyword: 'ContentTemplateSequence',
+            type: '1C',
+            items: [
+                { keyword: 'MappingResource', type: '1' },
+                { keyword: 'TemplateIdentifier', type: '1' },
+            ],
+        },
+        { keyword: 'ContentSequence', type: '1C', items: CONTENT_ITEM },
+    ],
+};
+
+// ---------------------------------------------------------------------------
+// Encapsulated document modules
+// ---------------------------------------------------------------------------
+
+/** PS3.3 C.24.1 */
+const ENCAPSULATED_DOCUMENT_SERIES: ModuleDefinition = {
+    name: 'Encapsulated Document Series',
+    attributes: [
+        { keyword: 'Modality', type: '1' },
+        { keyword: 'SeriesInstanceUID', type: '1' },
+        { keyword: 'SeriesNumber', type: '1' },
+        { keyword: 'SeriesDescription', type: '3' },
+    ],
+};
+
+/** PS3.3 C.24.2 */
+const ENCAPSULATED_DOCUMENT: ModuleDefinition = {
+    name: 'Encapsulated Document',
+    attributes: [
+        { keyword: 'InstanceNumber', type: '1' },
+        { keyword: 'ContentDate', type: '2' },
+        { keyword: 'ContentTime', type: '2' },
+        { keyword: 'AcquisitionDateTime', type: '2' },
+        { keyword: 'BurnedInAnnotation', type: '1', enumerated: YES_NO },
+        { keyword: 'RecognizableVisualFeatures', type: '3', enumerated: YES_NO },
+        { keyword: 'SourceInstanceSequence', type: '1C', items: SOP_REFERENCE_ITEM },
+        { keyword: 'ConceptNameCodeSequence', type: '2', items: CODE_ITEM },
+        { keyword: 'DocumentTitle', type: '2' },
+        { keyword: 'VerificationFlag', type: '3', enumerated: ['UNVERIFIED', 'VERIFIED'] },
+        { keyword: 'HL7InstanceIdentifier', type: '1C', condition: { kind: 'equals', keyword: 'MIMETypeOfEncapsulatedDocument', values: ['text/XML'] } },
+        { keyword: 'MIMETypeOfEncapsulatedDocument', type: '1' },
+        { keyword: 'ListOfMIMETypes', type: '1C' },
+        { keyword: 'EncapsulatedDocument', type: '1' },
+        { keyword: 'EncapsulatedDocumentLength', type: '3' },
+    ],
+};
+
+/** PS3.3 C.35.1 */
+const MANUFACTURING_3D_MODEL: ModuleDefinition = {
+    name: 'Manufacturing 3D Model',
+    attributes: [{ keyword: 'MeasurementUnitsCodeSequence', type: '1', items: CODE_ITEM }],
+};
+
+/**
+ * Builds the module holding the content constraints of one encapsulated document IOD:
+ * its MIME type and, for 3D models, its modality.
+ */
+function encapsulatedConstraints(name: string, mimeType: string, modality?: string): ModuleDefinition {
+    const attributes: ModuleAttribute[] = [{ keyword: 'MIMETypeOfEncapsulatedDocument', type: '1', enumerated: [mimeType] }];
+    if (modality !== undefined) attributes.push({ keyword: 'Modality', type: '1', enumerated: [modality] });
+    return { name: `${name} Constraints`, attributes };
+}
+
+// ---------------------------------------------------------------------------
+// IODs
+// ---------------------------------------------------------------------------
+
+/** Modules shared by the image IODs up to the modality-specific ones. */
+const PATIENT_STUDY_MODULES: readonly IodModule[] = [
+    { module: PATIENT, usage: 'M' },
+    { module: GENERAL_STUDY, usage: 'M' },
+    { module: PATIENT_STUDY, usage: 'U' },
+];
+
+/** The Structured Report IODs share their modules (PS3.3 A.35). */
+function srIod(name: string, sopClassUID: string): IodDefinition {
+    return {
+        name,
+        sopClassUIDs: [sopClassUID],
+        modules: [
+            ...PATIENT_STUDY_MODULES,
+            { module: SR_DOCUMENT_SERIES, usage: 'M' },
+            { module: GENERAL_EQUIPMENT, usage: 'M' },
+            { module: SR_DOCUMENT_GENERAL, usage: 'M' },
+            { module: SR_DOCUMENT_CONTENT, usage: 'M' },
+            { module: SOP_COMMON, usage: 'M' },
+        ],
+    };
+}
+
+/** The encapsulated document IODs share their modules (PS3.3 A.45, A.85). */
+function encapsulatedIod(name: string, sopClassUID: string, constraints: ModuleDefinition, model: boolean): IodDefinition {
+    const modelModules: readonly IodModule[] = model
+        ? [
+              { module: FRAME_OF_REFERENCE, usage: 'M' },
+              { module: MANUFACTURING_3D_MODEL, usage: 'M' },
+          ]
+        : [];
+    return {
+        name,
+        sopClassUIDs: [sopClassUID],
+        modules: [
+            ...PATIENT_STUDY_MODULES,
+            { module: ENCAPSULATED_DOCUMENT_SERIES, usage: 'M' },
+            { module: GENERAL_EQUIPMENT, usage: 'M' },
+            { module: SC_EQUIPMENT, usage: 'M' },
+            ...modelModules,
+            { module: ENCAPSULATED_DOCUMENT, usage: 'M' },
+            { module: constraints, usage: 'M' },
+            { module: SOP_COMMON, usage: 'M' },
+        ],
+    };
+}
+
+/** Every IOD the validator knows. */
+const IOD_DEFINITIONS: readonly IodDefinition[] = [
+    {
+        name: 'CT Image',
+        sopClassUIDs: [SOP_CLASSES.CTImageStorage],
+        modules: [
+            ...PATIENT_STUDY_MODULES,
+            { module: GENERAL_SERIES, usage: 'M' },
+            { module: FRAME_OF_REFERENCE, usage: 'M' },
+            { module: GENERAL_EQUIPMENT, usage: 'M' },
+            { module: GENERAL_IMAGE, usage: 'M' },
+            { module: IMAGE_PLANE, usage: 'M' },
+            { module: IMAGE_PIXEL, usage: 'M' },
+            { module: CONTRAST_BOLUS, usage: 'C' },
+            { module: CT_IMAGE, usage: 'M' },
+            { module: VOI_LUT, usage: 'U' },
+            { module: SOP_COMMON, usage: 'M' },
+        ],
+    },
+    {
+        name: 'MR Image',
+        sopClassUIDs: [SOP_CLASSES.MRImageStorage],
+        modules: [
+            ...PATIENT_STUDY_MODULES,
+            { module: GENERAL_SERIES, usage: 'M' },
+            { module: FRAME_OF_REFERENCE, usage: 'M' },
+            { module: GENERAL_EQUIPMENT, usage: 'M' },
+            { module: GENERAL_IMAGE, usage: 'M' },
+            { module: IMAGE_PLANE, usage: 'M' },
+            { module: IMAGE_PIXEL, usage: 'M' },
+            { module: CONTRAST_BOLUS, usage: 'C' },
+            { module: MR_IMAGE, usage: 'M' },
+            { module: VOI_LUT, usage: 'U' },
+            { module: SOP_COMMON, usage: 'M' },
+        ],
+    },
+    {
+        name: 'Computed Radiography Image',
+        sopClassUIDs: [SOP_CLASSES.ComputedRadiographyImageStorage],
+        modules: [
+            ...PATIENT_STUDY_MODULES,
+            { module: GENERAL_SERIES, usage: 'M' },
+            { module: CR_SERIES, usage: 'M' },
+            { module: GENERAL_EQUIPMENT, usage: 'M' },
+            { module: GENERAL_IMAGE, usage: 'M' },
+            { module: IMAGE_PIXEL, usage: 'M' },
+            { module: CONTRAST_BOLUS, usage: 'U' },
+            { module: CR_IMAGE, usage: 'M' },
+            { module: VOI_LUT, usage: 'U' },
+            { module: SOP_COMMON, usage: 'M' },
+        ],
+    },
+    {
+        name: 'Digital X-Ray Image',
+        sopClassUIDs: [SOP_CLASSES.DigitalXRayImageStorageForPresentation, SOP_CLASSES.DigitalXRayImageStorageForProcessing],
+        modules: [
+            ...PATIENT_STUDY_MODULES,
+            { module: GENERAL_SERIES, usage: 'M' },
+            { module: DX_SERIES, usage: 'M' },
+            { module: GENERAL_EQUIPMENT, usage: 'M' },
+            { module: GENERAL_IMAGE, usage: 'M' },
+            { module: IMAGE_PIXEL, usage: 'M' },
+            { module: CONTRAST_BOLUS, usage: 'U' },
+            { module: DX_ANATOMY_IMAGED, usage: 'M' },
+            { module: DX_IMAGE, usage: 'M' },
+            { module: DX_DETECTOR, usage: 'M' },
+            { module: VOI_LUT, usage: 'C', condition: { kind: 'equals', keyword: 'PresentationIntentType', values: ['FOR PRESENTATION'] } },
+            { module: SOP_COMMON, usage: 'M' },
+        ],
+    },
+    {
+        name: 'US Image',
+        sopClassUIDs: [SOP_CLASSES.UltrasoundImageStorage],
+        modules: [
+            ...PATIENT_STUDY_MODULES,
+            { module: GENERAL_SERIES, usage: 'M' },
+            { module: FRAME_OF_REFERENCE, usage: 'U' },
+            { module: GENERAL_EQUIPMENT, usage: 'M' },
+            { module: GENERAL_IMAGE, usage: 'M' },
+            { module: IMAGE_PIXEL, usage: 'M' },
+            { module: CONTRAST_BOLUS, usage: 'C' },
+            { module: US_REGION_CALIBRATION, usage: 'U' },
+            { module: US_IMAGE, usage: 'M' },
+            { module: VOI_LUT, usage: 'U' },
+            { module: SOP_COMMON, usage: 'M' },
+        ],
+    },
+    {
+        name: 'US Multi-frame Image',
+        sopClassUIDs: [SOP_CLASSES.UltrasoundMultiFrameImageStorage],
+        modules: [
+            ...PATIENT_STUDY_MODULES,
+            { module: GENERAL_SERIES, usage: 'M' },
+            { module: FRAME_OF_REFERENCE, usage: 'U' },
+            { module: GENERAL_EQUIPMENT, usage: 'M' },
+            { module: GENERAL_IMAGE, usage: 'M' },
+            { module: IMAGE_PIXEL, usage: 'M' },
+            { module: CONTRAST_BOLUS, usage: 'C' },
+            { module: CINE, usage: 'C' },
+            { module: MULTI_FRAME, usage: 'M' },
+            { module: US_REGION_CALIBRATION, usage: 'U' },
+            { module: US_IMAGE, usage: 'M' },
+            { module: VOI_LUT, usage: 'U' },
+            { module: SOP_COMMON, usage: 'M' },
+        ],
+    },
+    {
+        name: 'Secondary Capture Image',
+        sopClassUIDs: [SOP_CLASSES.SecondaryCaptureImageStorage],
+        modules: [
+            ...PATIENT_STUDY_MODULES,
+            { module: GENERAL_SERIES, usage: 'M' },
+            { module: GENERAL_EQUIPMENT, usage: 'U' },
+            { module: SC_EQUIPMENT, usage: 'M' },
+            { module: GENERAL_IMAGE, usage: 'M' },
+            { module: IMAGE_PIXEL, usage: 'M' },
+            { module: SC_IMAGE, usage: 'M' },
+            { module: VOI_LUT, usage: 'U' },
+            { module: SOP_COMMON, usage: 'M' },
+        ],
+    },
+    {
+        name: 'Multi-frame Secondary Capture Image',
+        sopClassUIDs: [
+            SOP_CLASSES.MultiFrameSingleBitSecondaryCaptureImageStorage,
+            SOP_CLASSES.MultiFrameGrayscaleByteSecondaryCaptureImageStorage,
+            SOP_CLASSES.MultiFrameGrayscaleWordSecondaryCaptureImageStorage,
+            SOP_CLASSES.MultiFrameTrueColorSecondaryCaptureImageStorage,
+        ],
+        modules: [
+            ...PATIENT_STUDY_MODULES,
+            { module: GENERAL_SERIES, usage: 'M' },
+            { module: GENERAL_EQUIPMENT, usage: 'U' },
+            { module: SC_EQUIPMENT, usage: 'M' },
+            { module: GENERAL_IMAGE, usage: 'M' },
+            { module: IMAGE_PIXEL, usage: 'M' },
+            { module: CINE, usage: 'C' },
+            { module: MULTI_FRAME, usage: 'M' },
+            { module: SC_IMAGE, usage: 'U' },
+            { module: SC_MULTI_FRAME_IMAGE, usage: 'M' },
+            { module: VOI_LUT, usage: 'C' },
+            { module: SOP_COMMON, usage: 'M' },
+        ],
+    },
+    srIod('Basic Text SR', SOP_CLASSES.BasicTextSRStorage),
+    srIod('Enhanced SR', SOP_CLASSES.EnhancedSRStorage),
+    srIod('Comprehensive SR', SOP_CLASSES.ComprehensiveSRStorage),
+    srIod('Comprehensive 3D SR', SOP_CLASSES.Comprehensive3DSRStorage),
+    encapsulatedIod('Encapsulated PDF', SOP_CLASSES.EncapsulatedPDFStorage, encapsulatedConstraints('Encapsulated PDF', 'application/pdf'), false),
+    encapsulatedIod('Encapsulated CDA', SOP_CLASSES.EncapsulatedCDAStorage, encapsulatedConstraints('Encapsulated CDA', 'text/XML'), false),
+    encapsulatedIod('Encapsulated STL', SOP_CLASSES.EncapsulatedSTLStorage, encapsulatedConstraints('Encapsulated STL', 'model/stl', 'M3D'), true),
+    encapsulatedIod('Encapsulated OBJ', SOP_CLASSES.EncapsulatedOBJStorage, encapsulatedConstraints('Encapsulated OBJ', 'model/obj', 'M3D'), true),
+    encapsulatedIod('Encapsulated MTL', SOP_CLASSES.EncapsulatedMTLStorage, encapsulatedConstraints('Encapsulated MTL', 'model/mtl', 'M3D'), false),
+];
+
+// ---------------------------------------------------------------------------
+// Lookup by SOP Class UID (lazily built)
+// ---------------------------------------------------------------------------
+
+let iodIndex: ReadonlyMap<string, IodDefinition> | undefined;
+
+function buildIodIndex(): ReadonlyMap<string, IodDefinition> {
+    const map = new Map<string, IodDefinition>();
+    for (const iod of IOD_DEFINITIONS) {
+        for (const uid of iod.sopClassUIDs) map.set(uid, iod);
+    }
+    return map;
+}
+
+/**
+ * Finds the IOD that instances of a SOP class follow.
+ *
+ * @param sopClassUID - A DICOM SOP Class UID string
+ * @returns The IOD definition, or undefined if the SOP class is not covered
+ */
+function findIod(sopClassUID: string): IodDefinition | undefined {
+    if (iodIndex === undefined) {
+        iodIndex = buildIodIndex();
+    }
+    return iodIndex.get(sopClassUID);
+}
+
+export { IOD_DEFINITIONS, findIod };
@@ -83,6 +83,9 @@ const SOP_CLASSES = {
     ColorSoftcopyPresentationStateStorage: '1.2.840.10008.5.1.4.1.1.11.2',
     EncapsulatedPDFStorage: '1.2.840.10008.5.1.4.1.1.104.1',
     EncapsulatedCDAStorage: '1.2.840.10008.5.1.4.1.1.104.2',
+    EncapsulatedSTLStorage: '1.2.840.10008.5.1.4.1.1.104.3',
+    EncapsulatedOBJStorage: '1.2.840.10008.5.1.4.1.1.104.4',
+    EncapsulatedMTLStorage: '1.2.840.10008.5.1.4.1.1.104.5',
     RawDataStorage: '1.2.840.10008.5.1.4.1.1.66',
     SpatialRegistrationStorage: '1.2.840.10008.5.1.4.1.1.66.1',
     SpatialFiducialsStorage: '1.2.840.10008.5.1.4.1.1.66.2',
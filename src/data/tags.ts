@@ -0,0 +1,5292 @@
+/**
+ * Generated DICOM tag constants — DO NOT EDIT.
+ *
+ * Regenerate with `pnpm run generate` (scripts/generateDictionary.ts) from
+ * src/data/dictionary.json.
+ *
+ * @module data/tags
+ */
+
+import type { TagDefinition } from '../dicom/tagTypes';
+
+/**
+ * Every data dictionary attribute as a typed constant carrying its tag, VR and VM.
+ *
+ * Pass an entry to `DicomDataset.get` to read the value with a type derived
+ * from the VR and VM, e.g. `dataset.get(Tags.Rows)` yields a number.
+ */
+const Tags = {
+    CommandGroupLength: { tag: '(0000,0000)', keyword: 'CommandGroupLength', vr: 'UL', vm: [1, 1] },
+    RETIRED_CommandLengthToEnd: { tag: '(0000,0001)', keyword: 'RETIRED_CommandLengthToEnd', vr: 'UL', vm: [1, 1] },
+    AffectedSOPClassUID: { tag: '(0000,0002)', keyword: 'AffectedSOPClassUID', vr: 'UI', vm: [1, 1] },
+    RequestedSOPClassUID: { tag: '(0000,0003)', keyword: 'RequestedSOPClassUID', vr: 'UI', vm: [1, 1] },
+    RETIRED_CommandRecognitionCode: { tag: '(0000,0010)', keyword: 'RETIRED_CommandRecognitionCode', vr: 'SH', vm: [1, 1] },
+    CommandField: { tag: '(0000,0100)', keyword: 'CommandField', vr: 'US', vm: [1, 1] },
+    MessageID: { tag: '(0000,0110)', keyword: 'MessageID', vr: 'US', vm: [1, 1] },
+    MessageIDBeingRespondedTo: { tag: '(0000,0120)', keyword: 'MessageIDBeingRespondedTo', vr: 'US', vm: [1, 1] },
+    RETIRED_Initiator: { tag: '(0000,0200)', keyword: 'RETIRED_Initiator', vr: 'AE', vm: [1, 1] },
+    RETIRED_Receiver: { tag: '(0000,0300)', keyword: 'RETIRED_Receiver', vr: 'AE', vm: [1, 1] },
+    RETIRED_FindLocation: { tag: '(0000,0400)', keyword: 'RETIRED_FindLocation', vr: 'AE', vm: [1, 1] },
+    MoveDestination: { tag: '(0000,0600)', keyword: 'MoveDestination', vr: 'AE', vm: [1, 1] },
+    Priority: { tag: '(0000,0700)', keyword: 'Priority', vr: 'US', vm: [1, 1] },
+    CommandDataSetType: { tag: '(0000,0800)', keyword: 'CommandDataSetType', vr: 'US', vm: [1, 1] },
+    RETIRED_NumberOfMatches: { tag: '(0000,0850)', keyword: 'RETIRED_NumberOfMatches', vr: 'US', vm: [1, 1] },
+    RETIRED_ResponseSequenceNumber: { tag: '(0000,0860)', keyword: 'RETIRED_ResponseSequenceNumber', vr: 'US', vm: [1, 1] },
+    Status: { tag: '(0000,0900)', keyword: 'Status', vr: 'US', vm: [1, 1] },
+    OffendingElement: { tag: '(0000,0901)', keyword: 'OffendingElement', vr: 'AT', vm: [1, null] },
+    ErrorComment: { tag: '(0000,0902)', keyword: 'ErrorComment', vr: 'LO', vm: [1, 1] },
+    ErrorID: { tag: '(0000,0903)', keyword: 'ErrorID', vr: 'US', vm: [1, 1] },
+    AffectedSOPInstanceUID: { tag: '(0000,1000)', keyword: 'AffectedSOPInstanceUID', vr: 'UI', vm: [1, 1] },
+    RequestedSOPInstanceUID: { tag: '(0000,1001)', keyword: 'RequestedSOPInstanceUID', vr: 'UI', vm: [1, 1] },
+    EventTypeID: { tag: '(0000,1002)', keyword: 'EventTypeID', vr: 'US', vm: [1, 1] },
+    AttributeIdentifierList: { tag: '(0000,1005)', keyword: 'AttributeIdentifierList', vr: 'AT', vm: [1, null] },
+    ActionTypeID: { tag: '(0000,1008)', keyword: 'ActionTypeID', vr: 'US', vm: [1, 1] },
+    NumberOfRemainingSuboperations: { tag: '(0000,1020)', keyword: 'NumberOfRemainingSuboperations', vr: 'US', vm: [1, 1] },
+    NumberOfCompletedSuboperations: { tag: '(0000,1021)', keyword: 'NumberOfCompletedSuboperations', vr: 'US', vm: [1, 1] },
+    NumberOfFailedSuboperations: { tag: '(0000,1022)', keyword: 'NumberOfFailedSuboperations', vr: 'US', vm: [1, 1] },
+    NumberOfWarningSuboperations: { tag: '(0000,1023)', keyword: 'NumberOfWarningSuboperations', vr: 'US', vm: [1, 1] },
+    MoveOriginatorApplicationEntityTitle: { tag: '(0000,1030)', keyword: 'MoveOriginatorApplicationEntityTitle', vr: 'AE', vm: [1, 1] },
+    MoveOriginatorMessageID: { tag: '(0000,1031)', keyword: 'MoveOriginatorMessageID', vr: 'US', vm: [1, 1] },
+    RETIRED_DialogReceiver: { tag: '(0000,4000)', keyword: 'RETIRED_DialogReceiver', vr: 'LT', vm: [1, 1] },
+    RETIRED_TerminalType: { tag: '(0000,4010)', keyword: 'RETIRED_TerminalType', vr: 'LT', vm: [1, 1] },
+    RETIRED_MessageSetID: { tag: '(0000,5010)', keyword: 'RETIRED_MessageSetID', vr: 'SH', vm: [1, 1] },
+    RETIRED_EndMessageID: { tag: '(0000,5020)', keyword: 'RETIRED_EndMessageID', vr: 'SH', vm: [1, 1] },
+    RETIRED_DisplayFormat: { tag: '(0000,5110)', keyword: 'RETIRED_DisplayFormat', vr: 'LT', vm: [1, 1] },
+    RETIRED_PagePositionID: { tag: '(0000,5120)', keyword: 'RETIRED_PagePositionID', vr: 'LT', vm: [1, 1] },
+    RETIRED_TextFormatID: { tag: '(0000,5130)', keyword: 'RETIRED_TextFormatID', vr: 'CS', vm: [1, 1] },
+    RETIRED_NormalReverse: { tag: '(0000,5140)', keyword: 'RETIRED_NormalReverse', vr: 'CS', vm: [1, 1] },
+    RETIRED_AddGrayScale: { tag: '(0000,5150)', keyword: 'RETIRED_AddGrayScale', vr: 'CS', vm: [1, 1] },
+    RETIRED_Borders: { tag: '(0000,5160)', keyword: 'RETIRED_Borders', vr: 'CS', vm: [1, 1] },
+    RETIRED_Copies: { tag: '(0000,5170)', keyword: 'RETIRED_Copies', vr: 'IS', vm: [1, 1] },
+    RETIRED_CommandMagnificationType: { tag: '(0000,5180)', keyword: 'RETIRED_CommandMagnificationType', vr: 'CS', vm: [1, 1] },
+    RETIRED_Erase: { tag: '(0000,5190)', keyword: 'RETIRED_Erase', vr: 'CS', vm: [1, 1] },
+    RETIRED_Print: { tag: '(0000,51A0)', keyword: 'RETIRED_Print', vr: 'CS', vm: [1, 1] },
+    RETIRED_Overlays: { tag: '(0000,51B0)', keyword: 'RETIRED_Overlays', vr: 'US', vm: [1, null] },
+    FileMetaInformationGroupLength: { tag: '(0002,0000)', keyword: 'FileMetaInformationGroupLength', vr: 'UL', vm: [1, 1] },
+    FileMetaInformationVersion: { tag: '(0002,0001)', keyword: 'FileMetaInformationVersion', vr: 'OB', vm: [1, 1] },
+    MediaStorageSOPClassUID: { tag: '(0002,0002)', keyword: 'MediaStorageSOPClassUID', vr: 'UI', vm: [1, 1] },
+    MediaStorageSOPInstanceUID: { tag: '(0002,0003)', keyword: 'MediaStorageSOPInstanceUID', vr: 'UI', vm: [1, 1] },
+    TransferSyntaxUID: { tag: '(0002,0010)', keyword: 'TransferSyntaxUID', vr: 'UI', vm: [1, 1] },
+    ImplementationClassUID: { tag: '(0002,0012)', keyword: 'ImplementationClassUID', vr: 'UI', vm: [1, 1] },
+    ImplementationVersionName: { tag: '(0002,0013)', keyword: 'ImplementationVersionName', vr: 'SH', vm: [1, 1] },
+    SourceApplicationEntityTitle: { tag: '(0002,0016)', keyword: 'SourceApplicationEntityTitle', vr: 'AE', vm: [1, 1] },
+    SendingApplicationEntityTitle: { tag: '(0002,0017)', keyword: 'SendingApplicationEntityTitle', vr: 'AE', vm: [1, 1] },
+    ReceivingApplicationEntityTitle: { tag: '(0002,0018)', keyword: 'ReceivingApplicationEntityTitle', vr: 'AE', vm: [1, 1] },
+    SourcePresentationAddress: { tag: '(0002,0026)', keyword: 'SourcePresentationAddress', vr: 'UR', vm: [1, 1] },
+    SendingPresentationAddress: { tag: '(0002,0027)', keyword: 'SendingPresentationAddress', vr: 'UR', vm: [1, 1] },
+    ReceivingPresentationAddress: { tag: '(0002,0028)', keyword: 'ReceivingPresentationAddress', vr: 'UR', vm: [1, 1] },
+    RTVMetaInformationVersion: { tag: '(0002,0031)', keyword: 'RTVMetaInformationVersion', vr: 'OB', vm: [1, 1] },
+    RTVCommunicationSOPClassUID: { tag: '(0002,0032)', keyword: 'RTVCommunicationSOPClassUID', vr: 'UI', vm: [1, 1] },
+    RTVCommunicationSOPInstanceUID: { tag: '(0002,0033)', keyword: 'RTVCommunicationSOPInstanceUID', vr: 'UI', vm: [1, 1] },
+    RTVSourceIdentifier: { tag: '(0002,0035)', keyword: 'RTVSourceIdentifier', vr: 'OB', vm: [1, 1] },
+    RTVFlowIdentifier: { tag: '(0002,0036)', keyword: 'RTVFlowIdentifier', vr: 'OB', vm: [1, 1] },
+    RTVFlowRTPSamplingRate: { tag: '(0002,0037)', keyword: 'RTVFlowRTPSamplingRate', vr: 'UL', vm: [1, 1] },
+    RTVFlowActualFrameDuration: { tag: '(0002,0038)', keyword: 'RTVFlowActualFrameDuration', vr: 'FD', vm: [1, 1] },
+    PrivateInformationCreatorUID: { tag: '(0002,0100)', keyword: 'PrivateInformationCreatorUID', vr: 'UI', vm: [1, 1] },
+    PrivateInformation: { tag: '(0002,0102)', keyword: 'PrivateInformation', vr: 'OB', vm: [1, 1] },
+    FileSetID: { tag: '(0004,1130)', keyword: 'FileSetID', vr: 'CS', vm: [1, 1] },
+    FileSetDescriptorFileID: { tag: '(0004,1141)', keyword: 'FileSetDescriptorFileID', vr: 'CS', vm: [1, 8] },
+    SpecificCharacterSetOfFileSetDescriptorFile: { tag: '(0004,1142)', keyword: 'SpecificCharacterSetOfFileSetDescriptorFile', vr: 'CS', vm: [1, 1] },
+    OffsetOfTheFirstDirectoryRecordOfTheRootDirectoryEntity: {
+        tag: '(0004,1200)',
+        keyword: 'OffsetOfTheFirstDirectoryRecordOfTheRootDirectoryEntity',
+        vr: 'UL',
+        vm: [1, 1],
+    },
+    OffsetOfTheLastDirectoryRecordOfTheRootDirectoryEntity: {
+        tag: '(0004,1202)',
+        keyword: 'OffsetOfTheLastDirectoryRecordOfTheRootDirectoryEntity',
+        vr: 'UL',
+        vm: [1, 1],
+    },
+    FileSetConsistencyFlag: { tag: '(0004,1212)', keyword: 'FileSetConsistencyFlag', vr: 'US', vm: [1, 1] },
+    DirectoryRecordSequence: { tag: '(0004,1220)', keyword: 'DirectoryRecordSequence', vr: 'SQ', vm: [1, 1] },
+    OffsetOfTheNextDirectoryRecord: { tag: '(0004,1400)', keyword: 'OffsetOfTheNextDirectoryRecord', vr: 'UL', vm: [1, 1] },
+    RecordInUseFlag: { tag: '(0004,1410)', keyword: 'RecordInUseFlag', vr: 'US', vm: [1, 1] },
+    OffsetOfReferencedLowerLevelDirectoryEntity: { tag: '(0004,1420)', keyword: 'OffsetOfReferencedLowerLevelDirectoryEntity', vr: 'UL', vm: [1, 1] },
+    DirectoryRecordType: { tag: '(0004,1430)', keyword: 'DirectoryRecordType', vr: 'CS', vm: [1, 1] },
+    PrivateRecordUID: { tag: '(0004,1432)', keyword: 'PrivateRecordUID', vr: 'UI', vm: [1, 1] },
+    ReferencedFileID: { tag: '(0004,1500)', keyword: 'ReferencedFileID', vr: 'CS', vm: [1, 8] },
+    RETIRED_MRDRDirectoryRecordOffset: { tag: '(0004,1504)', keyword: 'RETIRED_MRDRDirectoryRecordOffset', vr: 'UL', vm: [1, 1] },
+    ReferencedSOPClassUIDInFile: { tag: '(0004,1510)', keyword: 'ReferencedSOPClassUIDInFile', vr: 'UI', vm: [1, 1] },
+    ReferencedSOPInstanceUIDInFile: { tag: '(0004,1511)', keyword: 'ReferencedSOPInstanceUIDInFile', vr: 'UI', vm: [1, 1] },
+    ReferencedTransferSyntaxUIDInFile: { tag: '(0004,1512)', keyword: 'ReferencedTransferSyntaxUIDInFile', vr: 'UI', vm: [1, 1] },
+    ReferencedRelatedGeneralSOPClassUIDInFile: { tag: '(0004,151A)', keyword: 'ReferencedRelatedGeneralSOPClassUIDInFile', vr: 'UI', vm: [1, null] },
+    RETIRED_NumberOfReferences: { tag: '(0004,1600)', keyword: 'RETIRED_NumberOfReferences', vr: 'UL', vm: [1, 1] },
+    CurrentFrameFunctionalGroupsSequence: { tag: '(0006,0001)', keyword: 'CurrentFrameFunctionalGroupsSequence', vr: 'SQ', vm: [1, 1] },
+    IllegalGroupLength: { tag: '(0007,0000)', keyword: 'IllegalGroupLength', vr: 'UL', vm: [1, 1] },
+    IllegalPrivateCreator: { tag: '(0007,0010)', keyword: 'IllegalPrivateCreator', vr: 'LO', vm: [1, 1] },
+    RETIRED_LengthToEnd: { tag: '(0008,0001)', keyword: 'RETIRED_LengthToEnd', vr: 'UL', vm: [1, 1] },
+    SpecificCharacterSet: { tag: '(0008,0005)', keyword: 'SpecificCharacterSet', vr: 'CS', vm: [1, null] },
+    LanguageCodeSequence: { tag: '(0008,0006)', keyword: 'LanguageCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ImageType: { tag: '(0008,0008)', keyword: 'ImageType', vr: 'CS', vm: [2, null] },
+    RETIRED_RecognitionCode: { tag: '(0008,0010)', keyword: 'RETIRED_RecognitionCode', vr: 'SH', vm: [1, 1] },
+    InstanceCreationDate: { tag: '(0008,0012)', keyword: 'InstanceCreationDate', vr: 'DA', vm: [1, 1] },
+    InstanceCreationTime: { tag: '(0008,0013)', keyword: 'InstanceCreationTime', vr: 'TM', vm: [1, 1] },
+    InstanceCreatorUID: { tag: '(0008,0014)', keyword: 'InstanceCreatorUID', vr: 'UI', vm: [1, 1] },
+    InstanceCoercionDateTime: { tag: '(0008,0015)', keyword: 'InstanceCoercionDateTime', vr: 'DT', vm: [1, 1] },
+    SOPClassUID: { tag: '(0008,0016)', keyword: 'SOPClassUID', vr: 'UI', vm: [1, 1] },
+    SOPInstanceUID: { tag: '(0008,0018)', keyword: 'SOPInstanceUID', vr: 'UI', vm: [1, 1] },
+    RelatedGeneralSOPClassUID: { tag: '(0008,001A)', keyword: 'RelatedGeneralSOPClassUID', vr: 'UI', vm: [1, null] },
+    OriginalSpecializedSOPClassUID: { tag: '(0008,001B)', keyword: 'OriginalSpecializedSOPClassUID', vr: 'UI', vm: [1, 1] },
+    StudyDate: { tag: '(0008,0020)', keyword: 'StudyDate', vr: 'DA', vm: [1, 1] },
+    SeriesDate: { tag: '(0008,0021)', keyword: 'SeriesDate', vr: 'DA', vm: [1, 1] },
+    AcquisitionDate: { tag: '(0008,0022)', keyword: 'AcquisitionDate', vr: 'DA', vm: [1, 1] },
+    ContentDate: { tag: '(0008,0023)', keyword: 'ContentDate', vr: 'DA', vm: [1, 1] },
+    RETIRED_OverlayDate: { tag: '(0008,0024)', keyword: 'RETIRED_OverlayDate', vr: 'DA', vm: [1, 1] },
+    RETIRED_CurveDate: { tag: '(0008,0025)', keyword: 'RETIRED_CurveDate', vr: 'DA', vm: [1, 1] },
+    AcquisitionDateTime: { tag: '(0008,002A)', keyword: 'AcquisitionDateTime', vr: 'DT', vm: [1, 1] },
+    StudyTime: { tag: '(0008,0030)', keyword: 'StudyTime', vr: 'TM', vm: [1, 1] },
+    SeriesTime: { tag: '(0008,0031)', keyword: 'SeriesTime', vr: 'TM', vm: [1, 1] },
+    AcquisitionTime: { tag: '(0008,0032)', keyword: 'AcquisitionTime', vr: 'TM', vm: [1, 1] },
+    ContentTime: { tag: '(0008,0033)', keyword: 'ContentTime', vr: 'TM', vm: [1, 1] },
+    RETIRED_OverlayTime: { tag: '(0008,0034)', keyword: 'RETIRED_OverlayTime', vr: 'TM', vm: [1, 1] },
+    RETIRED_CurveTime: { tag: '(0008,0035)', keyword: 'RETIRED_CurveTime', vr: 'TM', vm: [1, 1] },
+    RETIRED_DataSetType: { tag: '(0008,0040)', keyword: 'RETIRED_DataSetType', vr: 'US', vm: [1, 1] },
+    RETIRED_DataSetSubtype: { tag: '(0008,0041)', keyword: 'RETIRED_DataSetSubtype', vr: 'LO', vm: [1, 1] },
+    RETIRED_NuclearMedicineSeriesType: { tag: '(0008,0042)', keyword: 'RETIRED_NuclearMedicineSeriesType', vr: 'CS', vm: [1, 1] },
+    AccessionNumber: { tag: '(0008,0050)', keyword: 'AccessionNumber', vr: 'SH', vm: [1, 1] },
+    IssuerOfAccessionNumberSequence: { tag: '(0008,0051)', keyword: 'IssuerOfAccessionNumberSequence', vr: 'SQ', vm: [1, 1] },
+    QueryRetrieveLevel: { tag: '(0008,0052)', keyword: 'QueryRetrieveLevel', vr: 'CS', vm: [1, 1] },
+    QueryRetrieveView: { tag: '(0008,0053)', keyword: 'QueryRetrieveView', vr: 'CS', vm: [1, 1] },
+    RetrieveAETitle: { tag: '(0008,0054)', keyword: 'RetrieveAETitle', vr: 'AE', vm: [1, null] },
+    StationAETitle: { tag: '(0008,0055)', keyword: 'StationAETitle', vr: 'AE', vm: [1, 1] },
+    InstanceAvailability: { tag: '(0008,0056)', keyword: 'InstanceAvailability', vr: 'CS', vm: [1, 1] },
+    FailedSOPInstanceUIDList: { tag: '(0008,0058)', keyword: 'FailedSOPInstanceUIDList', vr: 'UI', vm: [1, null] },
+    Modality: { tag: '(0008,0060)', keyword: 'Modality', vr: 'CS', vm: [1, 1] },
+    ModalitiesInStudy: { tag: '(0008,0061)', keyword: 'ModalitiesInStudy', vr: 'CS', vm: [1, null] },
+    SOPClassesInStudy: { tag: '(0008,0062)', keyword: 'SOPClassesInStudy', vr: 'UI', vm: [1, null] },
+    AnatomicRegionsInStudyCodeSequence: { tag: '(0008,0063)', keyword: 'AnatomicRegionsInStudyCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ConversionType: { tag: '(0008,0064)', keyword: 'ConversionType', vr: 'CS', vm: [1, 1] },
+    PresentationIntentType: { tag: '(0008,0068)', keyword: 'PresentationIntentType', vr: 'CS', vm: [1, 1] },
+    Manufacturer: { tag: '(0008,0070)', keyword: 'Manufacturer', vr: 'LO', vm: [1, 1] },
+    InstitutionName: { tag: '(0008,0080)', keyword: 'InstitutionName', vr: 'LO', vm: [1, 1] },
+    InstitutionAddress: { tag: '(0008,0081)', keyword: 'InstitutionAddress', vr: 'ST', vm: [1, 1] },
+    InstitutionCodeSequence: { tag: '(0008,0082)', keyword: 'InstitutionCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ReferringPhysicianName: { tag: '(0008,0090)', keyword: 'ReferringPhysicianName', vr: 'PN', vm: [1, 1] },
+    ReferringPhysicianAddress: { tag: '(0008,0092)', keyword: 'ReferringPhysicianAddress', vr: 'ST', vm: [1, 1] },
+    ReferringPhysicianTelephoneNumbers: { tag: '(0008,0094)', keyword: 'ReferringPhysicianTelephoneNumbers', vr: 'SH', vm: [1, null] },
+    ReferringPhysicianIdentificationSequence: { tag: '(0008,0096)', keyword: 'ReferringPhysicianIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    ConsultingPhysicianName: { tag: '(0008,009C)', keyword: 'ConsultingPhysicianName', vr: 'PN', vm: [1, null] },
+    ConsultingPhysicianIdentificationSequence: { tag: '(0008,009D)', keyword: 'ConsultingPhysicianIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    CodeValue: { tag: '(0008,0100)', keyword: 'CodeValue', vr: 'SH', vm: [1, 1] },
+    ExtendedCodeValue: { tag: '(0008,0101)', keyword: 'ExtendedCodeValue', vr: 'LO', vm: [1, 1] },
+    CodingSchemeDesignator: { tag: '(0008,0102)', keyword: 'CodingSchemeDesignator', vr: 'SH', vm: [1, 1] },
+    CodingSchemeVersion: { tag: '(0008,0103)', keyword: 'CodingSchemeVersion', vr: 'SH', vm: [1, 1] },
+    CodeMeaning: { tag: '(0008,0104)', keyword: 'CodeMeaning', vr: 'LO', vm: [1, 1] },
+    MappingResource: { tag: '(0008,0105)', keyword: 'MappingResource', vr: 'CS', vm: [1, 1] },
+    ContextGroupVersion: { tag: '(0008,0106)', keyword: 'ContextGroupVersion', vr: 'DT', vm: [1, 1] },
+    ContextGroupLocalVersion: { tag: '(0008,0107)', keyword: 'ContextGroupLocalVersion', vr: 'DT', vm: [1, 1] },
+    ExtendedCodeMeaning: { tag: '(0008,0108)', keyword: 'ExtendedCodeMeaning', vr: 'LT', vm: [1, 1] },
+    CodingSchemeResourcesSequence: { tag: '(0008,0109)', keyword: 'CodingSchemeResourcesSequence', vr: 'SQ', vm: [1, 1] },
+    CodingSchemeURLType: { tag: '(0008,010A)', keyword: 'CodingSchemeURLType', vr: 'CS', vm: [1, 1] },
+    ContextGroupExtensionFlag: { tag: '(0008,010B)', keyword: 'ContextGroupExtensionFlag', vr: 'CS', vm: [1, 1] },
+    CodingSchemeUID: { tag: '(0008,010C)', keyword: 'CodingSchemeUID', vr: 'UI', vm: [1, 1] },
+    ContextGroupExtensionCreatorUID: { tag: '(0008,010D)', keyword: 'ContextGroupExtensionCreatorUID', vr: 'UI', vm: [1, 1] },
+    CodingSchemeURL: { tag: '(0008,010E)', keyword: 'CodingSchemeURL', vr: 'UR', vm: [1, 1] },
+    ContextIdentifier: { tag: '(0008,010F)', keyword: 'ContextIdentifier', vr: 'CS', vm: [1, 1] },
+    CodingSchemeIdentificationSequence: { tag: '(0008,0110)', keyword: 'CodingSchemeIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    CodingSchemeRegistry: { tag: '(0008,0112)', keyword: 'CodingSchemeRegistry', vr: 'LO', vm: [1, 1] },
+    CodingSchemeExternalID: { tag: '(0008,0114)', keyword: 'CodingSchemeExternalID', vr: 'ST', vm: [1, 1] },
+    CodingSchemeName: { tag: '(0008,0115)', keyword: 'CodingSchemeName', vr: 'ST', vm: [1, 1] },
+    CodingSchemeResponsibleOrganization: { tag: '(0008,0116)', keyword: 'CodingSchemeResponsibleOrganization', vr: 'ST', vm: [1, 1] },
+    ContextUID: { tag: '(0008,0117)', keyword: 'ContextUID', vr: 'UI', vm: [1, 1] },
+    MappingResourceUID: { tag: '(0008,0118)', keyword: 'MappingResourceUID', vr: 'UI', vm: [1, 1] },
+    LongCodeValue: { tag: '(0008,0119)', keyword: 'LongCodeValue', vr: 'UC', vm: [1, 1] },
+    URNCodeValue: { tag: '(0008,0120)', keyword: 'URNCodeValue', vr: 'UR', vm: [1, 1] },
+    EquivalentCodeSequence: { tag: '(0008,0121)', keyword: 'EquivalentCodeSequence', vr: 'SQ', vm: [1, 1] },
+    MappingResourceName: { tag: '(0008,0122)', keyword: 'MappingResourceName', vr: 'LO', vm: [1, 1] },
+    ContextGroupIdentificationSequence: { tag: '(0008,0123)', keyword: 'ContextGroupIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    MappingResourceIdentificationSequence: { tag: '(0008,0124)', keyword: 'MappingResourceIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    TimezoneOffsetFromUTC: { tag: '(0008,0201)', keyword: 'TimezoneOffsetFromUTC', vr: 'SH', vm: [1, 1] },
+    ResponsibleGroupCodeSequence: { tag: '(0008,0220)', keyword: 'ResponsibleGroupCodeSequence', vr: 'SQ', vm: [1, 1] },
+    EquipmentModality: { tag: '(0008,0221)', keyword: 'EquipmentModality', vr: 'CS', vm: [1, 1] },
+    ManufacturerRelatedModelGroup: { tag: '(0008,0222)', keyword: 'ManufacturerRelatedModelGroup', vr: 'LO', vm: [1, 1] },
+    PrivateDataElementCharacteristicsSequence: { tag: '(0008,0300)', keyword: 'PrivateDataElementCharacteristicsSequence', vr: 'SQ', vm: [1, 1] },
+    PrivateGroupReference: { tag: '(0008,0301)', keyword: 'PrivateGroupReference', vr: 'US', vm: [1, 1] },
+    PrivateCreatorReference: { tag: '(0008,0302)', keyword: 'PrivateCreatorReference', vr: 'LO', vm: [1, 1] },
+    BlockIdentifyingInformationStatus: { tag: '(0008,0303)', keyword: 'BlockIdentifyingInformationStatus', vr: 'CS', vm: [1, 1] },
+    NonidentifyingPrivateElements: { tag: '(0008,0304)', keyword: 'NonidentifyingPrivateElements', vr: 'US', vm: [1, null] },
+    DeidentificationActionSequence: { tag: '(0008,0305)', keyword: 'DeidentificationActionSequence', vr: 'SQ', vm: [1, 1] },
+    IdentifyingPrivateElements: { tag: '(0008,0306)', keyword: 'IdentifyingPrivateElements', vr: 'US', vm: [1, null] },
+    DeidentificationAction: { tag: '(0008,0307)', keyword: 'DeidentificationAction', vr: 'CS', vm: [1, 1] },
+    PrivateDataElement: { tag: '(0008,0308)', keyword: 'PrivateDataElement', vr: 'US', vm: [1, 1] },
+    PrivateDataElementValueMultiplicity: { tag: '(0008,0309)', keyword: 'PrivateDataElementValueMultiplicity', vr: 'UL', vm: [1, 3] },
+    PrivateDataElementValueRepresentation: { tag: '(0008,030A)', keyword: 'PrivateDataElementValueRepresentation', vr: 'CS', vm: [1, 1] },
+    PrivateDataElementNumberOfItems: { tag: '(0008,030B)', keyword: 'PrivateDataElementNumberOfItems', vr: 'UL', vm: [1, 2] },
+    PrivateDataElementName: { tag: '(0008,030C)', keyword: 'PrivateDataElementName', vr: 'UC', vm: [1, 1] },
+    PrivateDataElementKeyword: { tag: '(0008,030D)', keyword: 'PrivateDataElementKeyword', vr: 'UC', vm: [1, 1] },
+    PrivateDataElementDescription: { tag: '(0008,030E)', keyword: 'PrivateDataElementDescription', vr: 'UT', vm: [1, 1] },
+    PrivateDataElementEncoding: { tag: '(0008,030F)', keyword: 'PrivateDataElementEncoding', vr: 'UT', vm: [1, 1] },
+    PrivateDataElementDefinitionSequence: { tag: '(0008,0310)', keyword: 'PrivateDataElementDefinitionSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_NetworkID: { tag: '(0008,1000)', keyword: 'RETIRED_NetworkID', vr: 'AE', vm: [1, 1] },
+    StationName: { tag: '(0008,1010)', keyword: 'StationName', vr: 'SH', vm: [1, 1] },
+    StudyDescription: { tag: '(0008,1030)', keyword: 'StudyDescription', vr: 'LO', vm: [1, 1] },
+    ProcedureCodeSequence: { tag: '(0008,1032)', keyword: 'ProcedureCodeSequence', vr: 'SQ', vm: [1, 1] },
+    SeriesDescription: { tag: '(0008,103E)', keyword: 'SeriesDescription', vr: 'LO', vm: [1, 1] },
+    SeriesDescriptionCodeSequence: { tag: '(0008,103F)', keyword: 'SeriesDescriptionCodeSequence', vr: 'SQ', vm: [1, 1] },
+    InstitutionalDepartmentName: { tag: '(0008,1040)', keyword: 'InstitutionalDepartmentName', vr: 'LO', vm: [1, 1] },
+    InstitutionalDepartmentTypeCodeSequence: { tag: '(0008,1041)', keyword: 'InstitutionalDepartmentTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PhysiciansOfRecord: { tag: '(0008,1048)', keyword: 'PhysiciansOfRecord', vr: 'PN', vm: [1, null] },
+    PhysiciansOfRecordIdentificationSequence: { tag: '(0008,1049)', keyword: 'PhysiciansOfRecordIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    PerformingPhysicianName: { tag: '(0008,1050)', keyword: 'PerformingPhysicianName', vr: 'PN', vm: [1, null] },
+    PerformingPhysicianIdentificationSequence: { tag: '(0008,1052)', keyword: 'PerformingPhysicianIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    NameOfPhysiciansReadingStudy: { tag: '(0008,1060)', keyword: 'NameOfPhysiciansReadingStudy', vr: 'PN', vm: [1, null] },
+    PhysiciansReadingStudyIdentificationSequence: { tag: '(0008,1062)', keyword: 'PhysiciansReadingStudyIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    OperatorsName: { tag: '(0008,1070)', keyword: 'OperatorsName', vr: 'PN', vm: [1, null] },
+    OperatorIdentificationSequence: { tag: '(0008,1072)', keyword: 'OperatorIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    AdmittingDiagnosesDescription: { tag: '(0008,1080)', keyword: 'AdmittingDiagnosesDescription', vr: 'LO', vm: [1, null] },
+    AdmittingDiagnosesCodeSequence: { tag: '(0008,1084)', keyword: 'AdmittingDiagnosesCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ManufacturerModelName: { tag: '(0008,1090)', keyword: 'ManufacturerModelName', vr: 'LO', vm: [1, 1] },
+    RETIRED_ReferencedResultsSequence: { tag: '(0008,1100)', keyword: 'RETIRED_ReferencedResultsSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedStudySequence: { tag: '(0008,1110)', keyword: 'ReferencedStudySequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedPerformedProcedureStepSequence: { tag: '(0008,1111)', keyword: 'ReferencedPerformedProcedureStepSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedSeriesSequence: { tag: '(0008,1115)', keyword: 'ReferencedSeriesSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedPatientSequence: { tag: '(0008,1120)', keyword: 'ReferencedPatientSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedVisitSequence: { tag: '(0008,1125)', keyword: 'ReferencedVisitSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ReferencedOverlaySequence: { tag: '(0008,1130)', keyword: 'RETIRED_ReferencedOverlaySequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedStereometricInstanceSequence: { tag: '(0008,1134)', keyword: 'ReferencedStereometricInstanceSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedWaveformSequence: { tag: '(0008,113A)', keyword: 'ReferencedWaveformSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedImageSequence: { tag: '(0008,1140)', keyword: 'ReferencedImageSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ReferencedCurveSequence: { tag: '(0008,1145)', keyword: 'RETIRED_ReferencedCurveSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedInstanceSequence: { tag: '(0008,114A)', keyword: 'ReferencedInstanceSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedRealWorldValueMappingInstanceSequence: { tag: '(0008,114B)', keyword: 'ReferencedRealWorldValueMappingInstanceSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedSOPClassUID: { tag: '(0008,1150)', keyword: 'ReferencedSOPClassUID', vr: 'UI', vm: [1, 1] },
+    ReferencedSOPInstanceUID: { tag: '(0008,1155)', keyword: 'ReferencedSOPInstanceUID', vr: 'UI', vm: [1, 1] },
+    DefinitionSourceSequence: { tag: '(0008,1156)', keyword: 'DefinitionSourceSequence', vr: 'SQ', vm: [1, 1] },
+    SOPClassesSupported: { tag: '(0008,115A)', keyword: 'SOPClassesSupported', vr: 'UI', vm: [1, null] },
+    ReferencedFrameNumber: { tag: '(0008,1160)', keyword: 'ReferencedFrameNumber', vr: 'IS', vm: [1, null] },
+    SimpleFrameList: { tag: '(0008,1161)', keyword: 'SimpleFrameList', vr: 'UL', vm: [1, null] },
+    CalculatedFrameList: { tag: '(0008,1162)', keyword: 'CalculatedFrameList', vr: 'UL', vm: [3, null] },
+    TimeRange: { tag: '(0008,1163)', keyword: 'TimeRange', vr: 'FD', vm: [2, 2] },
+    FrameExtractionSequence: { tag: '(0008,1164)', keyword: 'FrameExtractionSequence', vr: 'SQ', vm: [1, 1] },
+    MultiFrameSourceSOPInstanceUID: { tag: '(0008,1167)', keyword: 'MultiFrameSourceSOPInstanceUID', vr: 'UI', vm: [1, 1] },
+    RetrieveURL: { tag: '(0008,1190)', keyword: 'RetrieveURL', vr: 'UR', vm: [1, 1] },
+    TransactionUID: { tag: '(0008,1195)', keyword: 'TransactionUID', vr: 'UI', vm: [1, 1] },
+    WarningReason: { tag: '(0008,1196)', keyword: 'WarningReason', vr: 'US', vm: [1, 1] },
+    FailureReason: { tag: '(0008,1197)', keyword: 'FailureReason', vr: 'US', vm: [1, 1] },
+    FailedSOPSequence: { tag: '(0008,1198)', keyword: 'FailedSOPSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedSOPSequence: { tag: '(0008,1199)', keyword: 'ReferencedSOPSequence', vr: 'SQ', vm: [1, 1] },
+    OtherFailuresSequence: { tag: '(0008,119A)', keyword: 'OtherFailuresSequence', vr: 'SQ', vm: [1, 1] },
+    StudiesContainingOtherReferencedInstancesSequence: {
+        tag: '(0008,1200)',
+        keyword: 'StudiesContainingOtherReferencedInstancesSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    RelatedSeriesSequence: { tag: '(0008,1250)', keyword: 'RelatedSeriesSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_LossyImageCompressionRetired: { tag: '(0008,2110)', keyword: 'RETIRED_LossyImageCompressionRetired', vr: 'CS', vm: [1, 1] },
+    DerivationDescription: { tag: '(0008,2111)', keyword: 'DerivationDescription', vr: 'ST', vm: [1, 1] },
+    SourceImageSequence: { tag: '(0008,2112)', keyword: 'SourceImageSequence', vr: 'SQ', vm: [1, 1] },
+    StageName: { tag: '(0008,2120)', keyword: 'StageName', vr: 'SH', vm: [1, 1] },
+    StageNumber: { tag: '(0008,2122)', keyword: 'StageNumber', vr: 'IS', vm: [1, 1] },
+    NumberOfStages: { tag: '(0008,2124)', keyword: 'NumberOfStages', vr: 'IS', vm: [1, 1] },
+    ViewName: { tag: '(0008,2127)', keyword: 'ViewName', vr: 'SH', vm: [1, 1] },
+    ViewNumber: { tag: '(0008,2128)', keyword: 'ViewNumber', vr: 'IS', vm: [1, 1] },
+    NumberOfEventTimers: { tag: '(0008,2129)', keyword: 'NumberOfEventTimers', vr: 'IS', vm: [1, 1] },
+    NumberOfViewsInStage: { tag: '(0008,212A)', keyword: 'NumberOfViewsInStage', vr: 'IS', vm: [1, 1] },
+    EventElapsedTimes: { tag: '(0008,2130)', keyword: 'EventElapsedTimes', vr: 'DS', vm: [1, null] },
+    EventTimerNames: { tag: '(0008,2132)', keyword: 'EventTimerNames', vr: 'LO', vm: [1, null] },
+    EventTimerSequence: { tag: '(0008,2133)', keyword: 'EventTimerSequence', vr: 'SQ', vm: [1, 1] },
+    EventTimeOffset: { tag: '(0008,2134)', keyword: 'EventTimeOffset', vr: 'FD', vm: [1, 1] },
+    EventCodeSequence: { tag: '(0008,2135)', keyword: 'EventCodeSequence', vr: 'SQ', vm: [1, 1] },
+    StartTrim: { tag: '(0008,2142)', keyword: 'StartTrim', vr: 'IS', vm: [1, 1] },
+    StopTrim: { tag: '(0008,2143)', keyword: 'StopTrim', vr: 'IS', vm: [1, 1] },
+    RecommendedDisplayFrameRate: { tag: '(0008,2144)', keyword: 'RecommendedDisplayFrameRate', vr: 'IS', vm: [1, 1] },
+    RETIRED_TransducerPosition: { tag: '(0008,2200)', keyword: 'RETIRED_TransducerPosition', vr: 'CS', vm: [1, 1] },
+    RETIRED_TransducerOrientation: { tag: '(0008,2204)', keyword: 'RETIRED_TransducerOrientation', vr: 'CS', vm: [1, 1] },
+    RETIRED_AnatomicStructure: { tag: '(0008,2208)', keyword: 'RETIRED_AnatomicStructure', vr: 'CS', vm: [1, 1] },
+    AnatomicRegionSequence: { tag: '(0008,2218)', keyword: 'AnatomicRegionSequence', vr: 'SQ', vm: [1, 1] },
+    AnatomicRegionModifierSequence: { tag: '(0008,2220)', keyword: 'AnatomicRegionModifierSequence', vr: 'SQ', vm: [1, 1] },
+    PrimaryAnatomicStructureSequence: { tag: '(0008,2228)', keyword: 'PrimaryAnatomicStructureSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_AnatomicStructureSpaceOrRegionSequence: { tag: '(0008,2229)', keyword: 'RETIRED_AnatomicStructureSpaceOrRegionSequence', vr: 'SQ', vm: [1, 1] },
+    PrimaryAnatomicStructureModifierSequence: { tag: '(0008,2230)', keyword: 'PrimaryAnatomicStructureModifierSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_TransducerPositionSequence: { tag: '(0008,2240)', keyword: 'RETIRED_TransducerPositionSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_TransducerPositionModifierSequence: { tag: '(0008,2242)', keyword: 'RETIRED_TransducerPositionModifierSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_TransducerOrientationSequence: { tag: '(0008,2244)', keyword: 'RETIRED_TransducerOrientationSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_TransducerOrientationModifierSequence: { tag: '(0008,2246)', keyword: 'RETIRED_TransducerOrientationModifierSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_AnatomicStructureSpaceOrRegionCodeSequenceTrial: {
+        tag: '(0008,2251)',
+        keyword: 'RETIRED_AnatomicStructureSpaceOrRegionCodeSequenceTrial',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    RETIRED_AnatomicPortalOfEntranceCodeSequenceTrial: {
+        tag: '(0008,2253)',
+        keyword: 'RETIRED_AnatomicPortalOfEntranceCodeSequenceTrial',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    RETIRED_AnatomicApproachDirectionCodeSequenceTrial: {
+        tag: '(0008,2255)',
+        keyword: 'RETIRED_AnatomicApproachDirectionCodeSequenceTrial',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    RETIRED_AnatomicPerspectiveDescriptionTrial: { tag: '(0008,2256)', keyword: 'RETIRED_AnatomicPerspectiveDescriptionTrial', vr: 'ST', vm: [1, 1] },
+    RETIRED_AnatomicPerspectiveCodeSequenceTrial: { tag: '(0008,2257)', keyword: 'RETIRED_AnatomicPerspectiveCodeSequenceTrial', vr: 'SQ', vm: [1, 1] },
+    RETIRED_AnatomicLocationOfExaminingInstrumentDescriptionTrial: {
+        tag: '(0008,2258)',
+        keyword: 'RETIRED_AnatomicLocationOfExaminingInstrumentDescriptionTrial',
+        vr: 'ST',
+        vm: [1, 1],
+    },
+    RETIRED_AnatomicLocationOfExaminingInstrumentCodeSequenceTrial: {
+        tag: '(0008,2259)',
+        keyword: 'RETIRED_AnatomicLocationOfExaminingInstrumentCodeSequenceTrial',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    RETIRED_AnatomicStructureSpaceOrRegionModifierCodeSequenceTrial: {
+        tag: '(0008,225A)',
+        keyword: 'RETIRED_AnatomicStructureSpaceOrRegionModifierCodeSequenceTrial',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    RETIRED_OnAxisBackgroundAnatomicStructureCodeSequenceTrial: {
+        tag: '(0008,225C)',
+        keyword: 'RETIRED_OnAxisBackgroundAnatomicStructureCodeSequenceTrial',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    AlternateRepresentationSequence: { tag: '(0008,3001)', keyword: 'AlternateRepresentationSequence', vr: 'SQ', vm: [1, 1] },
+    AvailableTransferSyntaxUID: { tag: '(0008,3002)', keyword: 'AvailableTransferSyntaxUID', vr: 'UI', vm: [1, null] },
+    IrradiationEventUID: { tag: '(0008,3010)', keyword: 'IrradiationEventUID', vr: 'UI', vm: [1, null] },
+    SourceIrradiationEventSequence: { tag: '(0008,3011)', keyword: 'SourceIrradiationEventSequence', vr: 'SQ', vm: [1, 1] },
+    RadiopharmaceuticalAdministrationEventUID: { tag: '(0008,3012)', keyword: 'RadiopharmaceuticalAdministrationEventUID', vr: 'UI', vm: [1, 1] },
+    RETIRED_IdentifyingComments: { tag: '(0008,4000)', keyword: 'RETIRED_IdentifyingComments', vr: 'LT', vm: [1, 1] },
+    FrameType: { tag: '(0008,9007)', keyword: 'FrameType', vr: 'CS', vm: [4, 4] },
+    ReferencedImageEvidenceSequence: { tag: '(0008,9092)', keyword: 'ReferencedImageEvidenceSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedRawDataSequence: { tag: '(0008,9121)', keyword: 'ReferencedRawDataSequence', vr: 'SQ', vm: [1, 1] },
+    CreatorVersionUID: { tag: '(0008,9123)', keyword: 'CreatorVersionUID', vr: 'UI', vm: [1, 1] },
+    DerivationImageSequence: { tag: '(0008,9124)', keyword: 'DerivationImageSequence', vr: 'SQ', vm: [1, 1] },
+    SourceImageEvidenceSequence: { tag: '(0008,9154)', keyword: 'SourceImageEvidenceSequence', vr: 'SQ', vm: [1, 1] },
+    PixelPresentation: { tag: '(0008,9205)', keyword: 'PixelPresentation', vr: 'CS', vm: [1, 1] },
+    VolumetricProperties: { tag: '(0008,9206)', keyword: 'VolumetricProperties', vr: 'CS', vm: [1, 1] },
+    VolumeBasedCalculationTechnique: { tag: '(0008,9207)', keyword: 'VolumeBasedCalculationTechnique', vr: 'CS', vm: [1, 1] },
+    ComplexImageComponent: { tag: '(0008,9208)', keyword: 'ComplexImageComponent', vr: 'CS', vm: [1, 1] },
+    AcquisitionContrast: { tag: '(0008,9209)', keyword: 'AcquisitionContrast', vr: 'CS', vm: [1, 1] },
+    DerivationCodeSequence: { tag: '(0008,9215)', keyword: 'DerivationCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedPresentationStateSequence: { tag: '(0008,9237)', keyword: 'ReferencedPresentationStateSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedOtherPlaneSequence: { tag: '(0008,9410)', keyword: 'ReferencedOtherPlaneSequence', vr: 'SQ', vm: [1, 1] },
+    FrameDisplaySequence: { tag: '(0008,9458)', keyword: 'FrameDisplaySequence', vr: 'SQ', vm: [1, 1] },
+    RecommendedDisplayFrameRateInFloat: { tag: '(0008,9459)', keyword: 'RecommendedDisplayFrameRateInFloat', vr: 'FL', vm: [1, 1] },
+    SkipFrameRangeFlag: { tag: '(0008,9460)', keyword: 'SkipFrameRangeFlag', vr: 'CS', vm: [1, 1] },
+    PatientName: { tag: '(0010,0010)', keyword: 'PatientName', vr: 'PN', vm: [1, 1] },
+    PatientID: { tag: '(0010,0020)', keyword: 'PatientID', vr: 'LO', vm: [1, 1] },
+    IssuerOfPatientID: { tag: '(0010,0021)', keyword: 'IssuerOfPatientID', vr: 'LO', vm: [1, 1] },
+    TypeOfPatientID: { tag: '(0010,0022)', keyword: 'TypeOfPatientID', vr: 'CS', vm: [1, 1] },
+    IssuerOfPatientIDQualifiersSequence: { tag: '(0010,0024)', keyword: 'IssuerOfPatientIDQualifiersSequence', vr: 'SQ', vm: [1, 1] },
+    SourcePatientGroupIdentificationSequence: { tag: '(0010,0026)', keyword: 'SourcePatientGroupIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    GroupOfPatientsIdentificationSequence: { tag: '(0010,0027)', keyword: 'GroupOfPatientsIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    SubjectRelativePositionInImage: { tag: '(0010,0028)', keyword: 'SubjectRelativePositionInImage', vr: 'US', vm: [3, 3] },
+    PatientBirthDate: { tag: '(0010,0030)', keyword: 'PatientBirthDate', vr: 'DA', vm: [1, 1] },
+    PatientBirthTime: { tag: '(0010,0032)', keyword: 'PatientBirthTime', vr: 'TM', vm: [1, 1] },
+    PatientBirthDateInAlternativeCalendar: { tag: '(0010,0033)', keyword: 'PatientBirthDateInAlternativeCalendar', vr: 'LO', vm: [1, 1] },
+    PatientDeathDateInAlternativeCalendar: { tag: '(0010,0034)', keyword: 'PatientDeathDateInAlternativeCalendar', vr: 'LO', vm: [1, 1] },
+    PatientAlternativeCalendar: { tag: '(0010,0035)', keyword: 'PatientAlternativeCalendar', vr: 'CS', vm: [1, 1] },
+    PatientSex: { tag: '(0010,0040)', keyword: 'PatientSex', vr: 'CS', vm: [1, 1] },
+    PatientInsurancePlanCodeSequence: { tag: '(0010,0050)', keyword: 'PatientInsurancePlanCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PatientPrimaryLanguageCodeSequence: { tag: '(0010,0101)', keyword: 'PatientPrimaryLanguageCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PatientPrimaryLanguageModifierCodeSequence: { tag: '(0010,0102)', keyword: 'PatientPrimaryLanguageModifierCodeSequence', vr: 'SQ', vm: [1, 1] },
+    QualityControlSubject: { tag: '(0010,0200)', keyword: 'QualityControlSubject', vr: 'CS', vm: [1, 1] },
+    QualityControlSubjectTypeCodeSequence: { tag: '(0010,0201)', keyword: 'QualityControlSubjectTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    StrainDescription: { tag: '(0010,0212)', keyword: 'StrainDescription', vr: 'UC', vm: [1, 1] },
+    StrainNomenclature: { tag: '(0010,0213)', keyword: 'StrainNomenclature', vr: 'LO', vm: [1, 1] },
+    StrainStockNumber: { tag: '(0010,0214)', keyword: 'StrainStockNumber', vr: 'LO', vm: [1, 1] },
+    StrainSourceRegistryCodeSequence: { tag: '(0010,0215)', keyword: 'StrainSourceRegistryCodeSequence', vr: 'SQ', vm: [1, 1] },
+    StrainStockSequence: { tag: '(0010,0216)', keyword: 'StrainStockSequence', vr: 'SQ', vm: [1, 1] },
+    StrainSource: { tag: '(0010,0217)', keyword: 'StrainSource', vr: 'LO', vm: [1, 1] },
+    StrainAdditionalInformation: { tag: '(0010,0218)', keyword: 'StrainAdditionalInformation', vr: 'UT', vm: [1, 1] },
+    StrainCodeSequence: { tag: '(0010,0219)', keyword: 'StrainCodeSequence', vr: 'SQ', vm: [1, 1] },
+    GeneticModificationsSequence: { tag: '(0010,0221)', keyword: 'GeneticModificationsSequence', vr: 'SQ', vm: [1, 1] },
+    GeneticModificationsDescription: { tag: '(0010,0222)', keyword: 'GeneticModificationsDescription', vr: 'UC', vm: [1, 1] },
+    GeneticModificationsNomenclature: { tag: '(0010,0223)', keyword: 'GeneticModificationsNomenclature', vr: 'LO', vm: [1, 1] },
+    GeneticModificationsCodeSequence: { tag: '(0010,0229)', keyword: 'GeneticModificationsCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_OtherPatientIDs: { tag: '(0010,1000)', keyword: 'RETIRED_OtherPatientIDs', vr: 'LO', vm: [1, null] },
+    OtherPatientNames: { tag: '(0010,1001)', keyword: 'OtherPatientNames', vr: 'PN', vm: [1, null] },
+    OtherPatientIDsSequence: { tag: '(0010,1002)', keyword: 'OtherPatientIDsSequence', vr: 'SQ', vm: [1, 1] },
+    PatientBirthName: { tag: '(0010,1005)', keyword: 'PatientBirthName', vr: 'PN', vm: [1, 1] },
+    PatientAge: { tag: '(0010,1010)', keyword: 'PatientAge', vr: 'AS', vm: [1, 1] },
+    PatientSize: { tag: '(0010,1020)', keyword: 'PatientSize', vr: 'DS', vm: [1, 1] },
+    PatientSizeCodeSequence: { tag: '(0010,1021)', keyword: 'PatientSizeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PatientBodyMassIndex: { tag: '(0010,1022)', keyword: 'PatientBodyMassIndex', vr: 'DS', vm: [1, 1] },
+    MeasuredAPDimension: { tag: '(0010,1023)', keyword: 'MeasuredAPDimension', vr: 'DS', vm: [1, 1] },
+    MeasuredLateralDimension: { tag: '(0010,1024)', keyword: 'MeasuredLateralDimension', vr: 'DS', vm: [1, 1] },
+    PatientWeight: { tag: '(0010,1030)', keyword: 'PatientWeight', vr: 'DS', vm: [1, 1] },
+    PatientAddress: { tag: '(0010,1040)', keyword: 'PatientAddress', vr: 'LO', vm: [1, 1] },
+    RETIRED_InsurancePlanIdentification: { tag: '(0010,1050)', keyword: 'RETIRED_InsurancePlanIdentification', vr: 'LO', vm: [1, null] },
+    PatientMotherBirthName: { tag: '(0010,1060)', keyword: 'PatientMotherBirthName', vr: 'PN', vm: [1, 1] },
+    MilitaryRank: { tag: '(0010,1080)', keyword: 'MilitaryRank', vr: 'LO', vm: [1, 1] },
+    BranchOfService: { tag: '(0010,1081)', keyword: 'BranchOfService', vr: 'LO', vm: [1, 1] },
+    RETIRED_MedicalRecordLocator: { tag: '(0010,1090)', keyword: 'RETIRED_MedicalRecordLocator', vr: 'LO', vm: [1, 1] },
+    ReferencedPatientPhotoSequence: { tag: '(0010,1100)', keyword: 'ReferencedPatientPhotoSequence', vr: 'SQ', vm: [1, 1] },
+    MedicalAlerts: { tag: '(0010,2000)', keyword: 'MedicalAlerts', vr: 'LO', vm: [1, null] },
+    Allergies: { tag: '(0010,2110)', keyword: 'Allergies', vr: 'LO', vm: [1, null] },
+    CountryOfResidence: { tag: '(0010,2150)', keyword: 'CountryOfResidence', vr: 'LO', vm: [1, 1] },
+    RegionOfResidence: { tag: '(0010,2152)', keyword: 'RegionOfResidence', vr: 'LO', vm: [1, 1] },
+    PatientTelephoneNumbers: { tag: '(0010,2154)', keyword: 'PatientTelephoneNumbers', vr: 'SH', vm: [1, null] },
+    PatientTelecomInformation: { tag: '(0010,2155)', keyword: 'PatientTelecomInformation', vr: 'LT', vm: [1, 1] },
+    EthnicGroup: { tag: '(0010,2160)', keyword: 'EthnicGroup', vr: 'SH', vm: [1, 1] },
+    Occupation: { tag: '(0010,2180)', keyword: 'Occupation', vr: 'SH', vm: [1, 1] },
+    SmokingStatus: { tag: '(0010,21A0)', keyword: 'SmokingStatus', vr: 'CS', vm: [1, 1] },
+    AdditionalPatientHistory: { tag: '(0010,21B0)', keyword: 'AdditionalPatientHistory', vr: 'LT', vm: [1, 1] },
+    PregnancyStatus: { tag: '(0010,21C0)', keyword: 'PregnancyStatus', vr: 'US', vm: [1, 1] },
+    LastMenstrualDate: { tag: '(0010,21D0)', keyword: 'LastMenstrualDate', vr: 'DA', vm: [1, 1] },
+    PatientReligiousPreference: { tag: '(0010,21F0)', keyword: 'PatientReligiousPreference', vr: 'LO', vm: [1, 1] },
+    PatientSpeciesDescription: { tag: '(0010,2201)', keyword: 'PatientSpeciesDescription', vr: 'LO', vm: [1, 1] },
+    PatientSpeciesCodeSequence: { tag: '(0010,2202)', keyword: 'PatientSpeciesCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PatientSexNeutered: { tag: '(0010,2203)', keyword: 'PatientSexNeutered', vr: 'CS', vm: [1, 1] },
+    AnatomicalOrientationType: { tag: '(0010,2210)', keyword: 'AnatomicalOrientationType', vr: 'CS', vm: [1, 1] },
+    PatientBreedDescription: { tag: '(0010,2292)', keyword: 'PatientBreedDescription', vr: 'LO', vm: [1, 1] },
+    PatientBreedCodeSequence: { tag: '(0010,2293)', keyword: 'PatientBreedCodeSequence', vr: 'SQ', vm: [1, 1] },
+    BreedRegistrationSequence: { tag: '(0010,2294)', keyword: 'BreedRegistrationSequence', vr: 'SQ', vm: [1, 1] },
+    BreedRegistrationNumber: { tag: '(0010,2295)', keyword: 'BreedRegistrationNumber', vr: 'LO', vm: [1, 1] },
+    BreedRegistryCodeSequence: { tag: '(0010,2296)', keyword: 'BreedRegistryCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ResponsiblePerson: { tag: '(0010,2297)', keyword: 'ResponsiblePerson', vr: 'PN', vm: [1, 1] },
+    ResponsiblePersonRole: { tag: '(0010,2298)', keyword: 'ResponsiblePersonRole', vr: 'CS', vm: [1, 1] },
+    ResponsibleOrganization: { tag: '(0010,2299)', keyword: 'ResponsibleOrganization', vr: 'LO', vm: [1, 1] },
+    PatientComments: { tag: '(0010,4000)', keyword: 'PatientComments', vr: 'LT', vm: [1, 1] },
+    ExaminedBodyThickness: { tag: '(0010,9431)', keyword: 'ExaminedBodyThickness', vr: 'FL', vm: [1, 1] },
+    ClinicalTrialSponsorName: { tag: '(0012,0010)', keyword: 'ClinicalTrialSponsorName', vr: 'LO', vm: [1, 1] },
+    ClinicalTrialProtocolID: { tag: '(0012,0020)', keyword: 'ClinicalTrialProtocolID', vr: 'LO', vm: [1, 1] },
+    ClinicalTrialProtocolName: { tag: '(0012,0021)', keyword: 'ClinicalTrialProtocolName', vr: 'LO', vm: [1, 1] },
+    ClinicalTrialSiteID: { tag: '(0012,0030)', keyword: 'ClinicalTrialSiteID', vr: 'LO', vm: [1, 1] },
+    ClinicalTrialSiteName: { tag: '(0012,0031)', keyword: 'ClinicalTrialSiteName', vr: 'LO', vm: [1, 1] },
+    ClinicalTrialSubjectID: { tag: '(0012,0040)', keyword: 'ClinicalTrialSubjectID', vr: 'LO', vm: [1, 1] },
+    ClinicalTrialSubjectReadingID: { tag: '(0012,0042)', keyword: 'ClinicalTrialSubjectReadingID', vr: 'LO', vm: [1, 1] },
+    ClinicalTrialTimePointID: { tag: '(0012,0050)', keyword: 'ClinicalTrialTimePointID', vr: 'LO', vm: [1, 1] },
+    ClinicalTrialTimePointDescription: { tag: '(0012,0051)', keyword: 'ClinicalTrialTimePointDescription', vr: 'ST', vm: [1, 1] },
+    LongitudinalTemporalOffsetFromEvent: { tag: '(0012,0052)', keyword: 'LongitudinalTemporalOffsetFromEvent', vr: 'FD', vm: [1, 1] },
+    LongitudinalTemporalEventType: { tag: '(0012,0053)', keyword: 'LongitudinalTemporalEventType', vr: 'CS', vm: [1, 1] },
+    ClinicalTrialCoordinatingCenterName: { tag: '(0012,0060)', keyword: 'ClinicalTrialCoordinatingCenterName', vr: 'LO', vm: [1, 1] },
+    PatientIdentityRemoved: { tag: '(0012,0062)', keyword: 'PatientIdentityRemoved', vr: 'CS', vm: [1, 1] },
+    DeidentificationMethod: { tag: '(0012,0063)', keyword: 'DeidentificationMethod', vr: 'LO', vm: [1, null] },
+    DeidentificationMethodCodeSequence: { tag: '(0012,0064)', keyword: 'DeidentificationMethodCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ClinicalTrialSeriesID: { tag: '(0012,0071)', keyword: 'ClinicalTrialSeriesID', vr: 'LO', vm: [1, 1] },
+    ClinicalTrialSeriesDescription: { tag: '(0012,0072)', keyword: 'ClinicalTrialSeriesDescription', vr: 'LO', vm: [1, 1] },
+    ClinicalTrialProtocolEthicsCommitteeName: { tag: '(0012,0081)', keyword: 'ClinicalTrialProtocolEthicsCommitteeName', vr: 'LO', vm: [1, 1] },
+    ClinicalTrialProtocolEthicsCommitteeApprovalNumber: {
+        tag: '(0012,0082)',
+        keyword: 'ClinicalTrialProtocolEthicsCommitteeApprovalNumber',
+        vr: 'LO',
+        vm: [1, 1],
+    },
+    ConsentForClinicalTrialUseSequence: { tag: '(0012,0083)', keyword: 'ConsentForClinicalTrialUseSequence', vr: 'SQ', vm: [1, 1] },
+    DistributionType: { tag: '(0012,0084)', keyword: 'DistributionType', vr: 'CS', vm: [1, 1] },
+    ConsentForDistributionFlag: { tag: '(0012,0085)', keyword: 'ConsentForDistributionFlag', vr: 'CS', vm: [1, 1] },
+    EthicsCommitteeApprovalEffectivenessStartDate: { tag: '(0012,0086)', keyword: 'EthicsCommitteeApprovalEffectivenessStartDate', vr: 'DA', vm: [1, 1] },
+    EthicsCommitteeApprovalEffectivenessEndDate: { tag: '(0012,0087)', keyword: 'EthicsCommitteeApprovalEffectivenessEndDate', vr: 'DA', vm: [1, 1] },
+    RETIRED_CADFileFormat: { tag: '(0014,0023)', keyword: 'RETIRED_CADFileFormat', vr: 'ST', vm: [1, 1] },
+    RETIRED_ComponentReferenceSystem: { tag: '(0014,0024)', keyword: 'RETIRED_ComponentReferenceSystem', vr: 'ST', vm: [1, 1] },
+    ComponentManufacturingProcedure: { tag: '(0014,0025)', keyword: 'ComponentManufacturingProcedure', vr: 'ST', vm: [1, 1] },
+    ComponentManufacturer: { tag: '(0014,0028)', keyword: 'ComponentManufacturer', vr: 'ST', vm: [1, 1] },
+    MaterialThickness: { tag: '(0014,0030)', keyword: 'MaterialThickness', vr: 'DS', vm: [1, null] },
+    MaterialPipeDiameter: { tag: '(0014,0032)', keyword: 'MaterialPipeDiameter', vr: 'DS', vm: [1, null] },
+    MaterialIsolationDiameter: { tag: '(0014,0034)', keyword: 'MaterialIsolationDiameter', vr: 'DS', vm: [1, null] },
+    MaterialGrade: { tag: '(0014,0042)', keyword: 'MaterialGrade', vr: 'ST', vm: [1, 1] },
+    MaterialPropertiesDescription: { tag: '(0014,0044)', keyword: 'MaterialPropertiesDescription', vr: 'ST', vm: [1, 1] },
+    RETIRED_MaterialPropertiesFileFormatRetired: { tag: '(0014,0045)', keyword: 'RETIRED_MaterialPropertiesFileFormatRetired', vr: 'ST', vm: [1, 1] },
+    MaterialNotes: { tag: '(0014,0046)', keyword: 'MaterialNotes', vr: 'LT', vm: [1, 1] },
+    ComponentShape: { tag: '(0014,0050)', keyword: 'ComponentShape', vr: 'CS', vm: [1, 1] },
+    CurvatureType: { tag: '(0014,0052)', keyword: 'CurvatureType', vr: 'CS', vm: [1, 1] },
+    OuterDiameter: { tag: '(0014,0054)', keyword: 'OuterDiameter', vr: 'DS', vm: [1, 1] },
+    InnerDiameter: { tag: '(0014,0056)', keyword: 'InnerDiameter', vr: 'DS', vm: [1, 1] },
+    ComponentWelderIDs: { tag: '(0014,0100)', keyword: 'ComponentWelderIDs', vr: 'LO', vm: [1, null] },
+    SecondaryApprovalStatus: { tag: '(0014,0101)', keyword: 'SecondaryApprovalStatus', vr: 'CS', vm: [1, 1] },
+    SecondaryReviewDate: { tag: '(0014,0102)', keyword: 'SecondaryReviewDate', vr: 'DA', vm: [1, 1] },
+    SecondaryReviewTime: { tag: '(0014,0103)', keyword: 'SecondaryReviewTime', vr: 'TM', vm: [1, 1] },
+    SecondaryReviewerName: { tag: '(0014,0104)', keyword: 'SecondaryReviewerName', vr: 'PN', vm: [1, 1] },
+    RepairID: { tag: '(0014,0105)', keyword: 'RepairID', vr: 'ST', vm: [1, 1] },
+    MultipleComponentApprovalSequence: { tag: '(0014,0106)', keyword: 'MultipleComponentApprovalSequence', vr: 'SQ', vm: [1, 1] },
+    OtherApprovalStatus: { tag: '(0014,0107)', keyword: 'OtherApprovalStatus', vr: 'CS', vm: [1, null] },
+    OtherSecondaryApprovalStatus: { tag: '(0014,0108)', keyword: 'OtherSecondaryApprovalStatus', vr: 'CS', vm: [1, null] },
+    ActualEnvironmentalConditions: { tag: '(0014,1010)', keyword: 'ActualEnvironmentalConditions', vr: 'ST', vm: [1, 1] },
+    ExpiryDate: { tag: '(0014,1020)', keyword: 'ExpiryDate', vr: 'DA', vm: [1, 1] },
+    EnvironmentalConditions: { tag: '(0014,1040)', keyword: 'EnvironmentalConditions', vr: 'ST', vm: [1, 1] },
+    EvaluatorSequence: { tag: '(0014,2002)', keyword: 'EvaluatorSequence', vr: 'SQ', vm: [1, 1] },
+    EvaluatorNumber: { tag: '(0014,2004)', keyword: 'EvaluatorNumber', vr: 'IS', vm: [1, 1] },
+    EvaluatorName: { tag: '(0014,2006)', keyword: 'EvaluatorName', vr: 'PN', vm: [1, 1] },
+    EvaluationAttempt: { tag: '(0014,2008)', keyword: 'EvaluationAttempt', vr: 'IS', vm: [1, 1] },
+    IndicationSequence: { tag: '(0014,2012)', keyword: 'IndicationSequence', vr: 'SQ', vm: [1, 1] },
+    IndicationNumber: { tag: '(0014,2014)', keyword: 'IndicationNumber', vr: 'IS', vm: [1, 1] },
+    IndicationLabel: { tag: '(0014,2016)', keyword: 'IndicationLabel', vr: 'SH', vm: [1, 1] },
+    IndicationDescription: { tag: '(0014,2018)', keyword: 'IndicationDescription', vr: 'ST', vm: [1, 1] },
+    IndicationType: { tag: '(0014,201A)', keyword: 'IndicationType', vr: 'CS', vm: [1, null] },
+    IndicationDisposition: { tag: '(0014,201C)', keyword: 'IndicationDisposition', vr: 'CS', vm: [1, 1] },
+    IndicationROISequence: { tag: '(0014,201E)', keyword: 'IndicationROISequence', vr: 'SQ', vm: [1, 1] },
+    IndicationPhysicalPropertySequence: { tag: '(0014,2030)', keyword: 'IndicationPhysicalPropertySequence', vr: 'SQ', vm: [1, 1] },
+    PropertyLabel: { tag: '(0014,2032)', keyword: 'PropertyLabel', vr: 'SH', vm: [1, 1] },
+    CoordinateSystemNumberOfAxes: { tag: '(0014,2202)', keyword: 'CoordinateSystemNumberOfAxes', vr: 'IS', vm: [1, 1] },
+    CoordinateSystemAxesSequence: { tag: '(0014,2204)', keyword: 'CoordinateSystemAxesSequence', vr: 'SQ', vm: [1, 1] },
+    CoordinateSystemAxisDescription: { tag: '(0014,2206)', keyword: 'CoordinateSystemAxisDescription', vr: 'ST', vm: [1, 1] },
+    CoordinateSystemDataSetMapping: { tag: '(0014,2208)', keyword: 'CoordinateSystemDataSetMapping', vr: 'CS', vm: [1, 1] },
+    CoordinateSystemAxisNumber: { tag: '(0014,220A)', keyword: 'CoordinateSystemAxisNumber', vr: 'IS', vm: [1, 1] },
+    CoordinateSystemAxisType: { tag: '(0014,220C)', keyword: 'CoordinateSystemAxisType', vr: 'CS', vm: [1, 1] },
+    CoordinateSystemAxisUnits: { tag: '(0014,220E)', keyword: 'CoordinateSystemAxisUnits', vr: 'CS', vm: [1, 1] },
+    CoordinateSystemAxisValues: { tag: '(0014,2210)', keyword: 'CoordinateSystemAxisValues', vr: 'OB', vm: [1, 1] },
+    CoordinateSystemTransformSequence: { tag: '(0014,2220)', keyword: 'CoordinateSystemTransformSequence', vr: 'SQ', vm: [1, 1] },
+    TransformDescription: { tag: '(0014,2222)', keyword: 'TransformDescription', vr: 'ST', vm: [1, 1] },
+    TransformNumberOfAxes: { tag: '(0014,2224)', keyword: 'TransformNumberOfAxes', vr: 'IS', vm: [1, 1] },
+    TransformOrderOfAxes: { tag: '(0014,2226)', keyword: 'TransformOrderOfAxes', vr: 'IS', vm: [1, null] },
+    TransformedAxisUnits: { tag: '(0014,2228)', keyword: 'TransformedAxisUnits', vr: 'CS', vm: [1, 1] },
+    CoordinateSystemTransformRotationAndScaleMatrix: {
+        tag: '(0014,222A)',
+        keyword: 'CoordinateSystemTransformRotationAndScaleMatrix',
+        vr: 'DS',
+        vm: [1, null],
+    },
+    CoordinateSystemTransformTranslationMatrix: { tag: '(0014,222C)', keyword: 'CoordinateSystemTransformTranslationMatrix', vr: 'DS', vm: [1, null] },
+    InternalDetectorFrameTime: { tag: '(0014,3011)', keyword: 'InternalDetectorFrameTime', vr: 'DS', vm: [1, 1] },
+    NumberOfFramesIntegrated: { tag: '(0014,3012)', keyword: 'NumberOfFramesIntegrated', vr: 'DS', vm: [1, 1] },
+    DetectorTemperatureSequence: { tag: '(0014,3020)', keyword: 'DetectorTemperatureSequence', vr: 'SQ', vm: [1, 1] },
+    SensorName: { tag: '(0014,3022)', keyword: 'SensorName', vr: 'ST', vm: [1, 1] },
+    HorizontalOffsetOfSensor: { tag: '(0014,3024)', keyword: 'HorizontalOffsetOfSensor', vr: 'DS', vm: [1, 1] },
+    VerticalOffsetOfSensor: { tag: '(0014,3026)', keyword: 'VerticalOffsetOfSensor', vr: 'DS', vm: [1, 1] },
+    SensorTemperature: { tag: '(0014,3028)', keyword: 'SensorTemperature', vr: 'DS', vm: [1, 1] },
+    DarkCurrentSequence: { tag: '(0014,3040)', keyword: 'DarkCurrentSequence', vr: 'SQ', vm: [1, 1] },
+    DarkCurrentCounts: { tag: '(0014,3050)', keyword: 'DarkCurrentCounts', vr: 'OW', vm: [1, 1] },
+    GainCorrectionReferenceSequence: { tag: '(0014,3060)', keyword: 'GainCorrectionReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    AirCounts: { tag: '(0014,3070)', keyword: 'AirCounts', vr: 'OW', vm: [1, 1] },
+    KVUsedInGainCalibration: { tag: '(0014,3071)', keyword: 'KVUsedInGainCalibration', vr: 'DS', vm: [1, 1] },
+    MAUsedInGainCalibration: { tag: '(0014,3072)', keyword: 'MAUsedInGainCalibration', vr: 'DS', vm: [1, 1] },
+    NumberOfFramesUsedForIntegration: { tag: '(0014,3073)', keyword: 'NumberOfFramesUsedForIntegration', vr: 'DS', vm: [1, 1] },
+    FilterMaterialUsedInGainCalibration: { tag: '(0014,3074)', keyword: 'FilterMaterialUsedInGainCalibration', vr: 'LO', vm: [1, 1] },
+    FilterThicknessUsedInGainCalibration: { tag: '(0014,3075)', keyword: 'FilterThicknessUsedInGainCalibration', vr: 'DS', vm: [1, 1] },
+    DateOfGainCalibration: { tag: '(0014,3076)', keyword: 'DateOfGainCalibration', vr: 'DA', vm: [1, 1] },
+    TimeOfGainCalibration: { tag: '(0014,3077)', keyword: 'TimeOfGainCalibration', vr: 'TM', vm: [1, 1] },
+    BadPixelImage: { tag: '(0014,3080)', keyword: 'BadPixelImage', vr: 'OB', vm: [1, 1] },
+    CalibrationNotes: { tag: '(0014,3099)', keyword: 'CalibrationNotes', vr: 'LT', vm: [1, 1] },
+    PulserEquipmentSequence: { tag: '(0014,4002)', keyword: 'PulserEquipmentSequence', vr: 'SQ', vm: [1, 1] },
+    PulserType: { tag: '(0014,4004)', keyword: 'PulserType', vr: 'CS', vm: [1, 1] },
+    PulserNotes: { tag: '(0014,4006)', keyword: 'PulserNotes', vr: 'LT', vm: [1, 1] },
+    ReceiverEquipmentSequence: { tag: '(0014,4008)', keyword: 'ReceiverEquipmentSequence', vr: 'SQ', vm: [1, 1] },
+    AmplifierType: { tag: '(0014,400A)', keyword: 'AmplifierType', vr: 'CS', vm: [1, 1] },
+    ReceiverNotes: { tag: '(0014,400C)', keyword: 'ReceiverNotes', vr: 'LT', vm: [1, 1] },
+    PreAmplifierEquipmentSequence: { tag: '(0014,400E)', keyword: 'PreAmplifierEquipmentSequence', vr: 'SQ', vm: [1, 1] },
+    PreAmplifierNotes: { tag: '(0014,400F)', keyword: 'PreAmplifierNotes', vr: 'LT', vm: [1, 1] },
+    TransmitTransducerSequence: { tag: '(0014,4010)', keyword: 'TransmitTransducerSequence', vr: 'SQ', vm: [1, 1] },
+    ReceiveTransducerSequence: { tag: '(0014,4011)', keyword: 'ReceiveTransducerSequence', vr: 'SQ', vm: [1, 1] },
+    NumberOfElements: { tag: '(0014,4012)', keyword: 'NumberOfElements', vr: 'US', vm: [1, 1] },
+    ElementShape: { tag: '(0014,4013)', keyword: 'ElementShape', vr: 'CS', vm: [1, 1] },
+    ElementDimensionA: { tag: '(0014,4014)', keyword: 'ElementDimensionA', vr: 'DS', vm: [1, 1] },
+    ElementDimensionB: { tag: '(0014,4015)', keyword: 'ElementDimensionB', vr: 'DS', vm: [1, 1] },
+    ElementPitchA: { tag: '(0014,4016)', keyword: 'ElementPitchA', vr: 'DS', vm: [1, 1] },
+    MeasuredBeamDimensionA: { tag: '(0014,4017)', keyword: 'MeasuredBeamDimensionA', vr: 'DS', vm: [1, 1] },
+    MeasuredBeamDimensionB: { tag: '(0014,4018)', keyword: 'MeasuredBeamDimensionB', vr: 'DS', vm: [1, 1] },
+    LocationOfMeasuredBeamDiameter: { tag: '(0014,4019)', keyword: 'LocationOfMeasuredBeamDiameter', vr: 'DS', vm: [1, 1] },
+    NominalFrequency: { tag: '(0014,401A)', keyword: 'NominalFrequency', vr: 'DS', vm: [1, 1] },
+    MeasuredCenterFrequency: { tag: '(0014,401B)', keyword: 'MeasuredCenterFrequency', vr: 'DS', vm: [1, 1] },
+    MeasuredBandwidth: { tag: '(0014,401C)', keyword: 'MeasuredBandwidth', vr: 'DS', vm: [1, 1] },
+    ElementPitchB: { tag: '(0014,401D)', keyword: 'ElementPitchB', vr: 'DS', vm: [1, 1] },
+    PulserSettingsSequence: { tag: '(0014,4020)', keyword: 'PulserSettingsSequence', vr: 'SQ', vm: [1, 1] },
+    PulseWidth: { tag: '(0014,4022)', keyword: 'PulseWidth', vr: 'DS', vm: [1, 1] },
+    ExcitationFrequency: { tag: '(0014,4024)', keyword: 'ExcitationFrequency', vr: 'DS', vm: [1, 1] },
+    ModulationType: { tag: '(0014,4026)', keyword: 'ModulationType', vr: 'CS', vm: [1, 1] },
+    Damping: { tag: '(0014,4028)', keyword: 'Damping', vr: 'DS', vm: [1, 1] },
+    ReceiverSettingsSequence: { tag: '(0014,4030)', keyword: 'ReceiverSettingsSequence', vr: 'SQ', vm: [1, 1] },
+    AcquiredSoundpathLength: { tag: '(0014,4031)', keyword: 'AcquiredSoundpathLength', vr: 'DS', vm: [1, 1] },
+    AcquisitionCompressionType: { tag: '(0014,4032)', keyword: 'AcquisitionCompressionType', vr: 'CS', vm: [1, 1] },
+    AcquisitionSampleSize: { tag: '(0014,4033)', keyword: 'AcquisitionSampleSize', vr: 'IS', vm: [1, 1] },
+    RectifierSmoothing: { tag: '(0014,4034)', keyword: 'RectifierSmoothing', vr: 'DS', vm: [1, 1] },
+    DACSequence: { tag: '(0014,4035)', keyword: 'DACSequence', vr: 'SQ', vm: [1, 1] },
+    DACType: { tag: '(0014,4036)', keyword: 'DACType', vr: 'CS', vm: [1, 1] },
+    DACGainPoints: { tag: '(0014,4038)', keyword: 'DACGainPoints', vr: 'DS', vm: [1, null] },
+    DACTimePoints: { tag: '(0014,403A)', keyword: 'DACTimePoints', vr: 'DS', vm: [1, null] },
+    DACAmplitude: { tag: '(0014,403C)', keyword: 'DACAmplitude', vr: 'DS', vm: [1, null] },
+    PreAmplifierSettingsSequence: { tag: '(0014,4040)', keyword: 'PreAmplifierSettingsSequence', vr: 'SQ', vm: [1, 1] },
+    TransmitTransducerSettingsSequence: { tag: '(0014,4050)', keyword: 'TransmitTransducerSettingsSequence', vr: 'SQ', vm: [1, 1] },
+    ReceiveTransducerSettingsSequence: { tag: '(0014,4051)', keyword: 'ReceiveTransducerSettingsSequence', vr: 'SQ', vm: [1, 1] },
+    IncidentAngle: { tag: '(0014,4052)', keyword: 'IncidentAngle', vr: 'DS', vm: [1, 1] },
+    CouplingTechnique: { tag: '(0014,4054)', keyword: 'CouplingTechnique', vr: 'ST', vm: [1, 1] },
+    CouplingMedium: { tag: '(0014,4056)', keyword: 'CouplingMedium', vr: 'ST', vm: [1, 1] },
+    CouplingVelocity: { tag: '(0014,4057)', keyword: 'CouplingVelocity', vr: 'DS', vm: [1, 1] },
+    ProbeCenterLocationX: { tag: '(0014,4058)', keyword: 'ProbeCenterLocationX', vr: 'DS', vm: [1, 1] },
+    ProbeCenterLocationZ: { tag: '(0014,4059)', keyword: 'ProbeCenterLocationZ', vr: 'DS', vm: [1, 1] },
+    SoundPathLength: { tag: '(0014,405A)', keyword: 'SoundPathLength', vr: 'DS', vm: [1, 1] },
+    DelayLawIdentifier: { tag: '(0014,405C)', keyword: 'DelayLawIdentifier', vr: 'ST', vm: [1, 1] },
+    GateSettingsSequence: { tag: '(0014,4060)', keyword: 'GateSettingsSequence', vr: 'SQ', vm: [1, 1] },
+    GateThreshold: { tag: '(0014,4062)', keyword: 'GateThreshold', vr: 'DS', vm: [1, 1] },
+    VelocityOfSound: { tag: '(0014,4064)', keyword: 'VelocityOfSound', vr: 'DS', vm: [1, 1] },
+    CalibrationSettingsSequence: { tag: '(0014,4070)', keyword: 'CalibrationSettingsSequence', vr: 'SQ', vm: [1, 1] },
+    CalibrationProcedure: { tag: '(0014,4072)', keyword: 'CalibrationProcedure', vr: 'ST', vm: [1, 1] },
+    ProcedureVersion: { tag: '(0014,4074)', keyword: 'ProcedureVersion', vr: 'SH', vm: [1, 1] },
+    ProcedureCreationDate: { tag: '(0014,4076)', keyword: 'ProcedureCreationDate', vr: 'DA', vm: [1, 1] },
+    ProcedureExpirationDate: { tag: '(0014,4078)', keyword: 'ProcedureExpirationDate', vr: 'DA', vm: [1, 1] },
+    ProcedureLastModifiedDate: { tag: '(0014,407A)', keyword: 'ProcedureLastModifiedDate', vr: 'DA', vm: [1, 1] },
+    CalibrationTime: { tag: '(0014,407C)', keyword: 'CalibrationTime', vr: 'TM', vm: [1, null] },
+    CalibrationDate: { tag: '(0014,407E)', keyword: 'CalibrationDate', vr: 'DA', vm: [1, null] },
+    ProbeDriveEquipmentSequence: { tag: '(0014,4080)', keyword: 'ProbeDriveEquipmentSequence', vr: 'SQ', vm: [1, 1] },
+    DriveType: { tag: '(0014,4081)', keyword: 'DriveType', vr: 'CS', vm: [1, 1] },
+    ProbeDriveNotes: { tag: '(0014,4082)', keyword: 'ProbeDriveNotes', vr: 'LT', vm: [1, 1] },
+    DriveProbeSequence: { tag: '(0014,4083)', keyword: 'DriveProbeSequence', vr: 'SQ', vm: [1, 1] },
+    ProbeInductance: { tag: '(0014,4084)', keyword: 'ProbeInductance', vr: 'DS', vm: [1, 1] },
+    ProbeResistance: { tag: '(0014,4085)', keyword: 'ProbeResistance', vr: 'DS', vm: [1, 1] },
+    ReceiveProbeSequence: { tag: '(0014,4086)', keyword: 'ReceiveProbeSequence', vr: 'SQ', vm: [1, 1] },
+    ProbeDriveSettingsSequence: { tag: '(0014,4087)', keyword: 'ProbeDriveSettingsSequence', vr: 'SQ', vm: [1, 1] },
+    BridgeResistors: { tag: '(0014,4088)', keyword: 'BridgeResistors', vr: 'DS', vm: [1, 1] },
+    ProbeOrientationAngle: { tag: '(0014,4089)', keyword: 'ProbeOrientationAngle', vr: 'DS', vm: [1, 1] },
+    UserSelectedGainY: { tag: '(0014,408B)', keyword: 'UserSelectedGainY', vr: 'DS', vm: [1, 1] },
+    UserSelectedPhase: { tag: '(0014,408C)', keyword: 'UserSelectedPhase', vr: 'DS', vm: [1, 1] },
+    UserSelectedOffsetX: { tag: '(0014,408D)', keyword: 'UserSelectedOffsetX', vr: 'DS', vm: [1, 1] },
+    UserSelectedOffsetY: { tag: '(0014,408E)', keyword: 'UserSelectedOffsetY', vr: 'DS', vm: [1, 1] },
+    ChannelSettingsSequence: { tag: '(0014,4091)', keyword: 'ChannelSettingsSequence', vr: 'SQ', vm: [1, 1] },
+    ChannelThreshold: { tag: '(0014,4092)', keyword: 'ChannelThreshold', vr: 'DS', vm: [1, 1] },
+    ScannerSettingsSequence: { tag: '(0014,409A)', keyword: 'ScannerSettingsSequence', vr: 'SQ', vm: [1, 1] },
+    ScanProcedure: { tag: '(0014,409B)', keyword: 'ScanProcedure', vr: 'ST', vm: [1, 1] },
+    TranslationRateX: { tag: '(0014,409C)', keyword: 'TranslationRateX', vr: 'DS', vm: [1, 1] },
+    TranslationRateY: { tag: '(0014,409D)', keyword: 'TranslationRateY', vr: 'DS', vm: [1, 1] },
+    ChannelOverlap: { tag: '(0014,409F)', keyword: 'ChannelOverlap', vr: 'DS', vm: [1, 1] },
+    ImageQualityIndicatorType: { tag: '(0014,40A0)', keyword: 'ImageQualityIndicatorType', vr: 'LO', vm: [1, 1] },
+    ImageQualityIndicatorMaterial: { tag: '(0014,40A1)', keyword: 'ImageQualityIndicatorMaterial', vr: 'LO', vm: [1, 1] },
+    ImageQualityIndicatorSize: { tag: '(0014,40A2)', keyword: 'ImageQualityIndicatorSize', vr: 'LO', vm: [1, 1] },
+    LINACEnergy: { tag: '(0014,5002)', keyword: 'LINACEnergy', vr: 'IS', vm: [1, 1] },
+    LINACOutput: { tag: '(0014,5004)', keyword: 'LINACOutput', vr: 'IS', vm: [1, 1] },
+    ActiveAperture: { tag: '(0014,5100)', keyword: 'ActiveAperture', vr: 'US', vm: [1, 1] },
+    TotalAperture: { tag: '(0014,5101)', keyword: 'TotalAperture', vr: 'DS', vm: [1, 1] },
+    ApertureElevation: { tag: '(0014,5102)', keyword: 'ApertureElevation', vr: 'DS', vm: [1, 1] },
+    MainLobeAngle: { tag: '(0014,5103)', keyword: 'MainLobeAngle', vr: 'DS', vm: [1, 1] },
+    MainRoofAngle: { tag: '(0014,5104)', keyword: 'MainRoofAngle', vr: 'DS', vm: [1, 1] },
+    ConnectorType: { tag: '(0014,5105)', keyword: 'ConnectorType', vr: 'CS', vm: [1, 1] },
+    WedgeModelNumber: { tag: '(0014,5106)', keyword: 'WedgeModelNumber', vr: 'SH', vm: [1, 1] },
+    WedgeAngleFloat: { tag: '(0014,5107)', keyword: 'WedgeAngleFloat', vr: 'DS', vm: [1, 1] },
+    WedgeRoofAngle: { tag: '(0014,5108)', keyword: 'WedgeRoofAngle', vr: 'DS', vm: [1, 1] },
+    WedgeElement1Position: { tag: '(0014,5109)', keyword: 'WedgeElement1Position', vr: 'CS', vm: [1, 1] },
+    WedgeMaterialVelocity: { tag: '(0014,510A)', keyword: 'WedgeMaterialVelocity', vr: 'DS', vm: [1, 1] },
+    WedgeMaterial: { tag: '(0014,510B)', keyword: 'WedgeMaterial', vr: 'SH', vm: [1, 1] },
+    WedgeOffsetZ: { tag: '(0014,510C)', keyword: 'WedgeOffsetZ', vr: 'DS', vm: [1, 1] },
+    WedgeOriginOffsetX: { tag: '(0014,510D)', keyword: 'WedgeOriginOffsetX', vr: 'DS', vm: [1, 1] },
+    WedgeTimeDelay: { tag: '(0014,510E)', keyword: 'WedgeTimeDelay', vr: 'DS', vm: [1, 1] },
+    WedgeName: { tag: '(0014,510F)', keyword: 'WedgeName', vr: 'SH', vm: [1, 1] },
+    WedgeManufacturerName: { tag: '(0014,5110)', keyword: 'WedgeManufacturerName', vr: 'SH', vm: [1, 1] },
+    WedgeDescription: { tag: '(0014,5111)', keyword: 'WedgeDescription', vr: 'LO', vm: [1, 1] },
+    NominalBeamAngle: { tag: '(0014,5112)', keyword: 'NominalBeamAngle', vr: 'DS', vm: [1, 1] },
+    WedgeOffsetX: { tag: '(0014,5113)', keyword: 'WedgeOffsetX', vr: 'DS', vm: [1, 1] },
+    WedgeOffsetY: { tag: '(0014,5114)', keyword: 'WedgeOffsetY', vr: 'DS', vm: [1, 1] },
+    WedgeTotalLength: { tag: '(0014,5115)', keyword: 'WedgeTotalLength', vr: 'DS', vm: [1, 1] },
+    WedgeInContactLength: { tag: '(0014,5116)', keyword: 'WedgeInContactLength', vr: 'DS', vm: [1, 1] },
+    WedgeFrontGap: { tag: '(0014,5117)', keyword: 'WedgeFrontGap', vr: 'DS', vm: [1, 1] },
+    WedgeTotalHeight: { tag: '(0014,5118)', keyword: 'WedgeTotalHeight', vr: 'DS', vm: [1, 1] },
+    WedgeFrontHeight: { tag: '(0014,5119)', keyword: 'WedgeFrontHeight', vr: 'DS', vm: [1, 1] },
+    WedgeRearHeight: { tag: '(0014,511A)', keyword: 'WedgeRearHeight', vr: 'DS', vm: [1, 1] },
+    WedgeTotalWidth: { tag: '(0014,511B)', keyword: 'WedgeTotalWidth', vr: 'DS', vm: [1, 1] },
+    WedgeInContactWidth: { tag: '(0014,511C)', keyword: 'WedgeInContactWidth', vr: 'DS', vm: [1, 1] },
+    WedgeChamferHeight: { tag: '(0014,511D)', keyword: 'WedgeChamferHeight', vr: 'DS', vm: [1, 1] },
+    WedgeCurve: { tag: '(0014,511E)', keyword: 'WedgeCurve', vr: 'CS', vm: [1, 1] },
+    RadiusAlongWedge: { tag: '(0014,511F)', keyword: 'RadiusAlongWedge', vr: 'DS', vm: [1, 1] },
+    WhitePoint: { tag: '(0016,0001)', keyword: 'WhitePoint', vr: 'DS', vm: [1, 1] },
+    PrimaryChromaticities: { tag: '(0016,0002)', keyword: 'PrimaryChromaticities', vr: 'DS', vm: [3, 3] },
+    BatteryLevel: { tag: '(0016,0003)', keyword: 'BatteryLevel', vr: 'UT', vm: [1, 1] },
+    ExposureTimeInSeconds: { tag: '(0016,0004)', keyword: 'ExposureTimeInSeconds', vr: 'DS', vm: [1, 1] },
+    FNumber: { tag: '(0016,0005)', keyword: 'FNumber', vr: 'DS', vm: [1, 1] },
+    OECFRows: { tag: '(0016,0006)', keyword: 'OECFRows', vr: 'IS', vm: [1, 1] },
+    OECFColumns: { tag: '(0016,0007)', keyword: 'OECFColumns', vr: 'IS', vm: [1, 1] },
+    OECFColumnNames: { tag: '(0016,0008)', keyword: 'OECFColumnNames', vr: 'UC', vm: [1, null] },
+    OECFValues: { tag: '(0016,0009)', keyword: 'OECFValues', vr: 'DS', vm: [1, null] },
+    SpatialFrequencyResponseRows: { tag: '(0016,000A)', keyword: 'SpatialFrequencyResponseRows', vr: 'IS', vm: [1, 1] },
+    SpatialFrequencyResponseColumns: { tag: '(0016,000B)', keyword: 'SpatialFrequencyResponseColumns', vr: 'IS', vm: [1, 1] },
+    SpatialFrequencyResponseColumnNames: { tag: '(0016,000C)', keyword: 'SpatialFrequencyResponseColumnNames', vr: 'UC', vm: [1, null] },
+    SpatialFrequencyResponseValues: { tag: '(0016,000D)', keyword: 'SpatialFrequencyResponseValues', vr: 'DS', vm: [1, null] },
+    ColorFilterArrayPatternRows: { tag: '(0016,000E)', keyword: 'ColorFilterArrayPatternRows', vr: 'IS', vm: [1, 1] },
+    ColorFilterArrayPatternColumns: { tag: '(0016,000F)', keyword: 'ColorFilterArrayPatternColumns', vr: 'IS', vm: [1, 1] },
+    ColorFilterArrayPatternValues: { tag: '(0016,0010)', keyword: 'ColorFilterArrayPatternValues', vr: 'DS', vm: [1, null] },
+    FlashFiringStatus: { tag: '(0016,0011)', keyword: 'FlashFiringStatus', vr: 'US', vm: [1, 1] },
+    FlashReturnStatus: { tag: '(0016,0012)', keyword: 'FlashReturnStatus', vr: 'US', vm: [1, 1] },
+    FlashMode: { tag: '(0016,0013)', keyword: 'FlashMode', vr: 'US', vm: [1, 1] },
+    FlashFunctionPresent: { tag: '(0016,0014)', keyword: 'FlashFunctionPresent', vr: 'US', vm: [1, 1] },
+    FlashRedEyeMode: { tag: '(0016,0015)', keyword: 'FlashRedEyeMode', vr: 'US', vm: [1, 1] },
+    ExposureProgram: { tag: '(0016,0016)', keyword: 'ExposureProgram', vr: 'US', vm: [1, 1] },
+    SpectralSensitivity: { tag: '(0016,0017)', keyword: 'SpectralSensitivity', vr: 'UT', vm: [1, 1] },
+    PhotographicSensitivity: { tag: '(0016,0018)', keyword: 'PhotographicSensitivity', vr: 'IS', vm: [1, 1] },
+    SelfTimerMode: { tag: '(0016,0019)', keyword: 'SelfTimerMode', vr: 'IS', vm: [1, 1] },
+    SensitivityType: { tag: '(0016,001A)', keyword: 'SensitivityType', vr: 'US', vm: [1, 1] },
+    StandardOutputSensitivity: { tag: '(0016,001B)', keyword: 'StandardOutputSensitivity', vr: 'IS', vm: [1, 1] },
+    RecommendedExposureIndex: { tag: '(0016,001C)', keyword: 'RecommendedExposureIndex', vr: 'IS', vm: [1, 1] },
+    ISOSpeed: { tag: '(0016,001D)', keyword: 'ISOSpeed', vr: 'IS', vm: [1, 1] },
+    ISOSpeedLatitudeyyy: { tag: '(0016,001E)', keyword: 'ISOSpeedLatitudeyyy', vr: 'IS', vm: [1, 1] },
+    ISOSpeedLatitudezzz: { tag: '(0016,001F)', keyword: 'ISOSpeedLatitudezzz', vr: 'IS', vm: [1, 1] },
+    EXIFVersion: { tag: '(0016,0020)', keyword: 'EXIFVersion', vr: 'UT', vm: [1, 1] },
+    ShutterSpeedValue: { tag: '(0016,0021)', keyword: 'ShutterSpeedValue', vr: 'DS', vm: [1, 1] },
+    ApertureValue: { tag: '(0016,0022)', keyword: 'ApertureValue', vr: 'DS', vm: [1, 1] },
+    BrightnessValue: { tag: '(0016,0023)', keyword: 'BrightnessValue', vr: 'DS', vm: [1, 1] },
+    ExposureBiasValue: { tag: '(0016,0024)', keyword: 'ExposureBiasValue', vr: 'DS', vm: [1, 1] },
+    MaxApertureValue: { tag: '(0016,0025)', keyword: 'MaxApertureValue', vr: 'DS', vm: [1, 1] },
+    SubjectDistance: { tag: '(0016,0026)', keyword: 'SubjectDistance', vr: 'DS', vm: [1, 1] },
+    MeteringMode: { tag: '(0016,0027)', keyword: 'MeteringMode', vr: 'US', vm: [1, 1] },
+    LightSource: { tag: '(0016,0028)', keyword: 'LightSource', vr: 'US', vm: [1, 1] },
+    FocalLength: { tag: '(0016,0029)', keyword: 'FocalLength', vr: 'DS', vm: [1, 1] },
+    SubjectArea: { tag: '(0016,002A)', keyword: 'SubjectArea', vr: 'IS', vm: [2, 4] },
+    MakerNote: { tag: '(0016,002B)', keyword: 'MakerNote', vr: 'OB', vm: [1, 1] },
+    Temperature: { tag: '(0016,0030)', keyword: 'Temperature', vr: 'DS', vm: [1, 1] },
+    Humidity: { tag: '(0016,0031)', keyword: 'Humidity', vr: 'DS', vm: [1, 1] },
+    Pressure: { tag: '(0016,0032)', keyword: 'Pressure', vr: 'DS', vm: [1, 1] },
+    WaterDepth: { tag: '(0016,0033)', keyword: 'WaterDepth', vr: 'DS', vm: [1, 1] },
+    Acceleration: { tag: '(0016,0034)', keyword: 'Acceleration', vr: 'DS', vm: [1, 1] },
+    CameraElevationAngle: { tag: '(0016,0035)', keyword: 'CameraElevationAngle', vr: 'DS', vm: [1, 1] },
+    FlashEnergy: { tag: '(0016,0036)', keyword: 'FlashEnergy', vr: 'DS', vm: [1, 2] },
+    SubjectLocation: { tag: '(0016,0037)', keyword: 'SubjectLocation', vr: 'IS', vm: [2, 2] },
+    PhotographicExposureIndex: { tag: '(0016,0038)', keyword: 'PhotographicExposureIndex', vr: 'DS', vm: [1, 1] },
+    SensingMethod: { tag: '(0016,0039)', keyword: 'SensingMethod', vr: 'US', vm: [1, 1] },
+    FileSource: { tag: '(0016,003A)', keyword: 'FileSource', vr: 'US', vm: [1, 1] },
+    SceneType: { tag: '(0016,003B)', keyword: 'SceneType', vr: 'US', vm: [1, 1] },
+    CustomRendered: { tag: '(0016,0041)', keyword: 'CustomRendered', vr: 'US', vm: [1, 1] },
+    ExposureMode: { tag: '(0016,0042)', keyword: 'ExposureMode', vr: 'US', vm: [1, 1] },
+    WhiteBalance: { tag: '(0016,0043)', keyword: 'WhiteBalance', vr: 'US', vm: [1, 1] },
+    DigitalZoomRatio: { tag: '(0016,0044)', keyword: 'DigitalZoomRatio', vr: 'DS', vm: [1, 1] },
+    FocalLengthIn35mmFilm: { tag: '(0016,0045)', keyword: 'FocalLengthIn35mmFilm', vr: 'IS', vm: [1, 1] },
+    SceneCaptureType: { tag: '(0016,0046)', keyword: 'SceneCaptureType', vr: 'US', vm: [1, 1] },
+    GainControl: { tag: '(0016,0047)', keyword: 'GainControl', vr: 'US', vm: [1, 1] },
+    Contrast: { tag: '(0016,0048)', keyword: 'Contrast', vr: 'US', vm: [1, 1] },
+    Saturation: { tag: '(0016,0049)', keyword: 'Saturation', vr: 'US', vm: [1, 1] },
+    Sharpness: { tag: '(0016,004A)', keyword: 'Sharpness', vr: 'US', vm: [1, 1] },
+    DeviceSettingDescription: { tag: '(0016,004B)', keyword: 'DeviceSettingDescription', vr: 'OB', vm: [1, 1] },
+    SubjectDistanceRange: { tag: '(0016,004C)', keyword: 'SubjectDistanceRange', vr: 'US', vm: [1, 1] },
+    CameraOwnerName: { tag: '(0016,004D)', keyword: 'CameraOwnerName', vr: 'UT', vm: [1, 1] },
+    LensSpecification: { tag: '(0016,004E)', keyword: 'LensSpecification', vr: 'DS', vm: [4, 4] },
+    LensMake: { tag: '(0016,004F)', keyword: 'LensMake', vr: 'UT', vm: [1, 1] },
+    LensModel: { tag: '(0016,0050)', keyword: 'LensModel', vr: 'UT', vm: [1, 1] },
+    LensSerialNumber: { tag: '(0016,0051)', keyword: 'LensSerialNumber', vr: 'UT', vm: [1, 1] },
+    InteroperabilityIndex: { tag: '(0016,0061)', keyword: 'InteroperabilityIndex', vr: 'CS', vm: [1, 1] },
+    InteroperabilityVersion: { tag: '(0016,0062)', keyword: 'InteroperabilityVersion', vr: 'OB', vm: [1, 1] },
+    GPSVersionID: { tag: '(0016,0070)', keyword: 'GPSVersionID', vr: 'OB', vm: [1, 1] },
+    GPSLatitudeRef: { tag: '(0016,0071)', keyword: 'GPSLatitudeRef', vr: 'CS', vm: [1, 1] },
+    GPSLatitude: { tag: '(0016,0072)', keyword: 'GPSLatitude', vr: 'DS', vm: [3, 3] },
+    GPSLongitudeRef: { tag: '(0016,0073)', keyword: 'GPSLongitudeRef', vr: 'CS', vm: [1, 1] },
+    GPSLongitude: { tag: '(0016,0074)', keyword: 'GPSLongitude', vr: 'DS', vm: [3, 3] },
+    GPSAltitudeRef: { tag: '(0016,0075)', keyword: 'GPSAltitudeRef', vr: 'US', vm: [1, 1] },
+    GPSAltitude: { tag: '(0016,0076)', keyword: 'GPSAltitude', vr: 'DS', vm: [1, 1] },
+    GPSTimeStamp: { tag: '(0016,0077)', keyword: 'GPSTimeStamp', vr: 'DT', vm: [1, 1] },
+    GPSSatellites: { tag: '(0016,0078)', keyword: 'GPSSatellites', vr: 'UT', vm: [1, 1] },
+    GPSStatus: { tag: '(0016,0079)', keyword: 'GPSStatus', vr: 'CS', vm: [1, 1] },
+    GPSMeasureMode: { tag: '(0016,007A)', keyword: 'GPSMeasureMode', vr: 'CS', vm: [1, 1] },
+    GPSDOP: { tag: '(0016,007B)', keyword: 'GPSDOP', vr: 'DS', vm: [1, 1] },
+    GPSSpeedRef: { tag: '(0016,007C)', keyword: 'GPSSpeedRef', vr: 'CS', vm: [1, 1] },
+    GPSSpeed: { tag: '(0016,007D)', keyword: 'GPSSpeed', vr: 'DS', vm: [1, 1] },
+    GPSTrackRef: { tag: '(0016,007E)', keyword: 'GPSTrackRef', vr: 'CS', vm: [1, 1] },
+    GPSTrack: { tag: '(0016,007F)', keyword: 'GPSTrack', vr: 'DS', vm: [1, 1] },
+    GPSImgDirectionRef: { tag: '(0016,0080)', keyword: 'GPSImgDirectionRef', vr: 'CS', vm: [1, 1] },
+    GPSImgDirection: { tag: '(0016,0081)', keyword: 'GPSImgDirection', vr: 'DS', vm: [1, 1] },
+    GPSMapDatum: { tag: '(0016,0082)', keyword: 'GPSMapDatum', vr: 'UT', vm: [1, 1] },
+    GPSDestLatitudeRef: { tag: '(0016,0083)', keyword: 'GPSDestLatitudeRef', vr: 'CS', vm: [1, 1] },
+    GPSDestLatitude: { tag: '(0016,0084)', keyword: 'GPSDestLatitude', vr: 'DS', vm: [3, 3] },
+    GPSDestLongitudeRef: { tag: '(0016,0085)', keyword: 'GPSDestLongitudeRef', vr: 'CS', vm: [1, 1] },
+    GPSDestLongitude: { tag: '(0016,0086)', keyword: 'GPSDestLongitude', vr: 'DS', vm: [3, 3] },
+    GPSDestBearingRef: { tag: '(0016,0087)', keyword: 'GPSDestBearingRef', vr: 'CS', vm: [1, 1] },
+    GPSDestBearing: { tag: '(0016,0088)', keyword: 'GPSDestBearing', vr: 'DS', vm: [1, 1] },
+    GPSDestDistanceRef: { tag: '(0016,0089)', keyword: 'GPSDestDistanceRef', vr: 'CS', vm: [1, 1] },
+    GPSDestDistance: { tag: '(0016,008A)', keyword: 'GPSDestDistance', vr: 'DS', vm: [1, 1] },
+    GPSProcessingMethod: { tag: '(0016,008B)', keyword: 'GPSProcessingMethod', vr: 'OB', vm: [1, 1] },
+    GPSAreaInformation: { tag: '(0016,008C)', keyword: 'GPSAreaInformation', vr: 'OB', vm: [1, 1] },
+    GPSDateStamp: { tag: '(0016,008D)', keyword: 'GPSDateStamp', vr: 'DT', vm: [1, 1] },
+    GPSDifferential: { tag: '(0016,008E)', keyword: 'GPSDifferential', vr: 'IS', vm: [1, 1] },
+    LightSourcePolarization: { tag: '(0016,1001)', keyword: 'LightSourcePolarization', vr: 'CS', vm: [1, 1] },
+    EmitterColorTemperature: { tag: '(0016,1002)', keyword: 'EmitterColorTemperature', vr: 'DS', vm: [1, 1] },
+    ContactMethod: { tag: '(0016,1003)', keyword: 'ContactMethod', vr: 'CS', vm: [1, 1] },
+    ImmersionMedia: { tag: '(0016,1004)', keyword: 'ImmersionMedia', vr: 'CS', vm: [1, null] },
+    OpticalMagnificationFactor: { tag: '(0016,1005)', keyword: 'OpticalMagnificationFactor', vr: 'DS', vm: [1, 1] },
+    ContrastBolusAgent: { tag: '(0018,0010)', keyword: 'ContrastBolusAgent', vr: 'LO', vm: [1, 1] },
+    ContrastBolusAgentSequence: { tag: '(0018,0012)', keyword: 'ContrastBolusAgentSequence', vr: 'SQ', vm: [1, 1] },
+    ContrastBolusT1Relaxivity: { tag: '(0018,0013)', keyword: 'ContrastBolusT1Relaxivity', vr: 'FL', vm: [1, 1] },
+    ContrastBolusAdministrationRouteSequence: { tag: '(0018,0014)', keyword: 'ContrastBolusAdministrationRouteSequence', vr: 'SQ', vm: [1, 1] },
+    BodyPartExamined: { tag: '(0018,0015)', keyword: 'BodyPartExamined', vr: 'CS', vm: [1, 1] },
+    ScanningSequence: { tag: '(0018,0020)', keyword: 'ScanningSequence', vr: 'CS', vm: [1, null] },
+    SequenceVariant: { tag: '(0018,0021)', keyword: 'SequenceVariant', vr: 'CS', vm: [1, null] },
+    ScanOptions: { tag: '(0018,0022)', keyword: 'ScanOptions', vr: 'CS', vm: [1, null] },
+    MRAcquisitionType: { tag: '(0018,0023)', keyword: 'MRAcquisitionType', vr: 'CS', vm: [1, 1] },
+    SequenceName: { tag: '(0018,0024)', keyword: 'SequenceName', vr: 'SH', vm: [1, 1] },
+    AngioFlag: { tag: '(0018,0025)', keyword: 'AngioFlag', vr: 'CS', vm: [1, 1] },
+    InterventionDrugInformationSequence: { tag: '(0018,0026)', keyword: 'InterventionDrugInformationSequence', vr: 'SQ', vm: [1, 1] },
+    InterventionDrugStopTime: { tag: '(0018,0027)', keyword: 'InterventionDrugStopTime', vr: 'TM', vm: [1, 1] },
+    InterventionDrugDose: { tag: '(0018,0028)', keyword: 'InterventionDrugDose', vr: 'DS', vm: [1, 1] },
+    InterventionDrugCodeSequence: { tag: '(0018,0029)', keyword: 'InterventionDrugCodeSequence', vr: 'SQ', vm: [1, 1] },
+    AdditionalDrugSequence: { tag: '(0018,002A)', keyword: 'AdditionalDrugSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_Radionuclide: { tag: '(0018,0030)', keyword: 'RETIRED_Radionuclide', vr: 'LO', vm: [1, null] },
+    Radiopharmaceutical: { tag: '(0018,0031)', keyword: 'Radiopharmaceutical', vr: 'LO', vm: [1, 1] },
+    RETIRED_EnergyWindowCenterline: { tag: '(0018,0032)', keyword: 'RETIRED_EnergyWindowCenterline', vr: 'DS', vm: [1, 1] },
+    RETIRED_EnergyWindowTotalWidth: { tag: '(0018,0033)', keyword: 'RETIRED_EnergyWindowTotalWidth', vr: 'DS', vm: [1, null] },
+    InterventionDrugName: { tag: '(0018,0034)', keyword: 'InterventionDrugName', vr: 'LO', vm: [1, 1] },
+    InterventionDrugStartTime: { tag: '(0018,0035)', keyword: 'InterventionDrugStartTime', vr: 'TM', vm: [1, 1] },
+    InterventionSequence: { tag: '(0018,0036)', keyword: 'InterventionSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_TherapyType: { tag: '(0018,0037)', keyword: 'RETIRED_TherapyType', vr: 'CS', vm: [1, 1] },
+    InterventionStatus: { tag: '(0018,0038)', keyword: 'InterventionStatus', vr: 'CS', vm: [1, 1] },
+    RETIRED_TherapyDescription: { tag: '(0018,0039)', keyword: 'RETIRED_TherapyDescription', vr: 'CS', vm: [1, 1] },
+    InterventionDescription: { tag: '(0018,003A)', keyword: 'InterventionDescription', vr: 'ST', vm: [1, 1] },
+    CineRate: { tag: '(0018,0040)', keyword: 'CineRate', vr: 'IS', vm: [1, 1] },
+    InitialCineRunState: { tag: '(0018,0042)', keyword: 'InitialCineRunState', vr: 'CS', vm: [1, 1] },
+    SliceThickness: { tag: '(0018,0050)', keyword: 'SliceThickness', vr: 'DS', vm: [1, 1] },
+    KVP: { tag: '(0018,0060)', keyword: 'KVP', vr: 'DS', vm: [1, 1] },
+    CountsAccumulated: { tag: '(0018,0070)', keyword: 'CountsAccumulated', vr: 'IS', vm: [1, 1] },
+    AcquisitionTerminationCondition: { tag: '(0018,0071)', keyword: 'AcquisitionTerminationCondition', vr: 'CS', vm: [1, 1] },
+    EffectiveDuration: { tag: '(0018,0072)', keyword: 'EffectiveDuration', vr: 'DS', vm: [1, 1] },
+    AcquisitionStartCondition: { tag: '(0018,0073)', keyword: 'AcquisitionStartCondition', vr: 'CS', vm: [1, 1] },
+    AcquisitionStartConditionData: { tag: '(0018,0074)', keyword: 'AcquisitionStartConditionData', vr: 'IS', vm: [1, 1] },
+    AcquisitionTerminationConditionData: { tag: '(0018,0075)', keyword: 'AcquisitionTerminationConditionData', vr: 'IS', vm: [1, 1] },
+    RepetitionTime: { tag: '(0018,0080)', keyword: 'RepetitionTime', vr: 'DS', vm: [1, 1] },
+    EchoTime: { tag: '(0018,0081)', keyword: 'EchoTime', vr: 'DS', vm: [1, 1] },
+    InversionTime: { tag: '(0018,0082)', keyword: 'InversionTime', vr: 'DS', vm: [1, 1] },
+    NumberOfAverages: { tag: '(0018,0083)', keyword: 'NumberOfAverages', vr: 'DS', vm: [1, 1] },
+    ImagingFrequency: { tag: '(0018,0084)', keyword: 'ImagingFrequency', vr: 'DS', vm: [1, 1] },
+    ImagedNucleus: { tag: '(0018,0085)', keyword: 'ImagedNucleus', vr: 'SH', vm: [1, 1] },
+    EchoNumbers: { tag: '(0018,0086)', keyword: 'EchoNumbers', vr: 'IS', vm: [1, null] },
+    MagneticFieldStrength: { tag: '(0018,0087)', keyword: 'MagneticFieldStrength', vr: 'DS', vm: [1, 1] },
+    SpacingBetweenSlices: { tag: '(0018,0088)', keyword: 'SpacingBetweenSlices', vr: 'DS', vm: [1, 1] },
+    NumberOfPhaseEncodingSteps: { tag: '(0018,0089)', keyword: 'NumberOfPhaseEncodingSteps', vr: 'IS', vm: [1, 1] },
+    DataCollectionDiameter: { tag: '(0018,0090)', keyword: 'DataCollectionDiameter', vr: 'DS', vm: [1, 1] },
+    EchoTrainLength: { tag: '(0018,0091)', keyword: 'EchoTrainLength', vr: 'IS', vm: [1, 1] },
+    PercentSampling: { tag: '(0018,0093)', keyword: 'PercentSampling', vr: 'DS', vm: [1, 1] },
+    PercentPhaseFieldOfView: { tag: '(0018,0094)', keyword: 'PercentPhaseFieldOfView', vr: 'DS', vm: [1, 1] },
+    PixelBandwidth: { tag: '(0018,0095)', keyword: 'PixelBandwidth', vr: 'DS', vm: [1, 1] },
+    DeviceSerialNumber: { tag: '(0018,1000)', keyword: 'DeviceSerialNumber', vr: 'LO', vm: [1, 1] },
+    DeviceUID: { tag: '(0018,1002)', keyword: 'DeviceUID', vr: 'UI', vm: [1, 1] },
+    DeviceID: { tag: '(0018,1003)', keyword: 'DeviceID', vr: 'LO', vm: [1, 1] },
+    PlateID: { tag: '(0018,1004)', keyword: 'PlateID', vr: 'LO', vm: [1, 1] },
+    GeneratorID: { tag: '(0018,1005)', keyword: 'GeneratorID', vr: 'LO', vm: [1, 1] },
+    GridID: { tag: '(0018,1006)', keyword: 'GridID', vr: 'LO', vm: [1, 1] },
+    CassetteID: { tag: '(0018,1007)', keyword: 'CassetteID', vr: 'LO', vm: [1, 1] },
+    GantryID: { tag: '(0018,1008)', keyword: 'GantryID', vr: 'LO', vm: [1, 1] },
+    UniqueDeviceIdentifier: { tag: '(0018,1009)', keyword: 'UniqueDeviceIdentifier', vr: 'UT', vm: [1, 1] },
+    UDISequence: { tag: '(0018,100A)', keyword: 'UDISequence', vr: 'SQ', vm: [1, 1] },
+    ManufacturerDeviceClassUID: { tag: '(0018,100B)', keyword: 'ManufacturerDeviceClassUID', vr: 'UI', vm: [1, null] },
+    SecondaryCaptureDeviceID: { tag: '(0018,1010)', keyword: 'SecondaryCaptureDeviceID', vr: 'LO', vm: [1, 1] },
+    RETIRED_HardcopyCreationDeviceID: { tag: '(0018,1011)', keyword: 'RETIRED_HardcopyCreationDeviceID', vr: 'LO', vm: [1, 1] },
+    DateOfSecondaryCapture: { tag: '(0018,1012)', keyword: 'DateOfSecondaryCapture', vr: 'DA', vm: [1, 1] },
+    TimeOfSecondaryCapture: { tag: '(0018,1014)', keyword: 'TimeOfSecondaryCapture', vr: 'TM', vm: [1, 1] },
+    SecondaryCaptureDeviceManufacturer: { tag: '(0018,1016)', keyword: 'SecondaryCaptureDeviceManufacturer', vr: 'LO', vm: [1, 1] },
+    RETIRED_HardcopyDeviceManufacturer: { tag: '(0018,1017)', keyword: 'RETIRED_HardcopyDeviceManufacturer', vr: 'LO', vm: [1, 1] },
+    SecondaryCaptureDeviceManufacturerModelName: { tag: '(0018,1018)', keyword: 'SecondaryCaptureDeviceManufacturerModelName', vr: 'LO', vm: [1, 1] },
+    SecondaryCaptureDeviceSoftwareVersions: { tag: '(0018,1019)', keyword: 'SecondaryCaptureDeviceSoftwareVersions', vr: 'LO', vm: [1, null] },
+    RETIRED_HardcopyDeviceSoftwareVersion: { tag: '(0018,101A)', keyword: 'RETIRED_HardcopyDeviceSoftwareVersion', vr: 'LO', vm: [1, null] },
+    RETIRED_HardcopyDeviceManufacturerModelName: { tag: '(0018,101B)', keyword: 'RETIRED_HardcopyDeviceManufacturerModelName', vr: 'LO', vm: [1, 1] },
+    SoftwareVersions: { tag: '(0018,1020)', keyword: 'SoftwareVersions', vr: 'LO', vm: [1, null] },
+    VideoImageFormatAcquired: { tag: '(0018,1022)', keyword: 'VideoImageFormatAcquired', vr: 'SH', vm: [1, 1] },
+    DigitalImageFormatAcquired: { tag: '(0018,1023)', keyword: 'DigitalImageFormatAcquired', vr: 'LO', vm: [1, 1] },
+    ProtocolName: { tag: '(0018,1030)', keyword: 'ProtocolName', vr: 'LO', vm: [1, 1] },
+    ContrastBolusRoute: { tag: '(0018,1040)', keyword: 'ContrastBolusRoute', vr: 'LO', vm: [1, 1] },
+    ContrastBolusVolume: { tag: '(0018,1041)', keyword: 'ContrastBolusVolume', vr: 'DS', vm: [1, 1] },
+    ContrastBolusStartTime: { tag: '(0018,1042)', keyword: 'ContrastBolusStartTime', vr: 'TM', vm: [1, 1] },
+    ContrastBolusStopTime: { tag: '(0018,1043)', keyword: 'ContrastBolusStopTime', vr: 'TM', vm: [1, 1] },
+    ContrastBolusTotalDose: { tag: '(0018,1044)', keyword: 'ContrastBolusTotalDose', vr: 'DS', vm: [1, 1] },
+    SyringeCounts: { tag: '(0018,1045)', keyword: 'SyringeCounts', vr: 'IS', vm: [1, 1] },
+    ContrastFlowRate: { tag: '(0018,1046)', keyword: 'ContrastFlowRate', vr: 'DS', vm: [1, null] },
+    ContrastFlowDuration: { tag: '(0018,1047)', keyword: 'ContrastFlowDuration', vr: 'DS', vm: [1, null] },
+    ContrastBolusIngredient: { tag: '(0018,1048)', keyword: 'ContrastBolusIngredient', vr: 'CS', vm: [1, 1] },
+    ContrastBolusIngredientConcentration: { tag: '(0018,1049)', keyword: 'ContrastBolusIngredientConcentration', vr: 'DS', vm: [1, 1] },
+    SpatialResolution: { tag: '(0018,1050)', keyword: 'SpatialResolution', vr: 'DS', vm: [1, 1] },
+    TriggerTime: { tag: '(0018,1060)', keyword: 'TriggerTime', vr: 'DS', vm: [1, 1] },
+    TriggerSourceOrType: { tag: '(0018,1061)', keyword: 'TriggerSourceOrType', vr: 'LO', vm: [1, 1] },
+    NominalInterval: { tag: '(0018,1062)', keyword: 'NominalInterval', vr: 'IS', vm: [1, 1] },
+    FrameTime: { tag: '(0018,1063)', keyword: 'FrameTime', vr: 'DS', vm: [1, 1] },
+    CardiacFramingType: { tag: '(0018,1064)', keyword: 'CardiacFramingType', vr: 'LO', vm: [1, 1] },
+    FrameTimeVector: { tag: '(0018,1065)', keyword: 'FrameTimeVector', vr: 'DS', vm: [1, null] },
+    FrameDelay: { tag: '(0018,1066)', keyword: 'FrameDelay', vr: 'DS', vm: [1, 1] },
+    ImageTriggerDelay: { tag: '(0018,1067)', keyword: 'ImageTriggerDelay', vr: 'DS', vm: [1, 1] },
+    MultiplexGroupTimeOffset: { tag: '(0018,1068)', keyword: 'MultiplexGroupTimeOffset', vr: 'DS', vm: [1, 1] },
+    TriggerTimeOffset: { tag: '(0018,1069)', keyword: 'TriggerTimeOffset', vr: 'DS', vm: [1, 1] },
+    SynchronizationTrigger: { tag: '(0018,106A)', keyword: 'SynchronizationTrigger', vr: 'CS', vm: [1, 1] },
+    SynchronizationChannel: { tag: '(0018,106C)', keyword: 'SynchronizationChannel', vr: 'US', vm: [2, 2] },
+    TriggerSamplePosition: { tag: '(0018,106E)', keyword: 'TriggerSamplePosition', vr: 'UL', vm: [1, 1] },
+    RadiopharmaceuticalRoute: { tag: '(0018,1070)', keyword: 'RadiopharmaceuticalRoute', vr: 'LO', vm: [1, 1] },
+    RadiopharmaceuticalVolume: { tag: '(0018,1071)', keyword: 'RadiopharmaceuticalVolume', vr: 'DS', vm: [1, 1] },
+    RadiopharmaceuticalStartTime: { tag: '(0018,1072)', keyword: 'RadiopharmaceuticalStartTime', vr: 'TM', vm: [1, 1] },
+    RadiopharmaceuticalStopTime: { tag: '(0018,1073)', keyword: 'RadiopharmaceuticalStopTime', vr: 'TM', vm: [1, 1] },
+    RadionuclideTotalDose: { tag: '(0018,1074)', keyword: 'RadionuclideTotalDose', vr: 'DS', vm: [1, 1] },
+    RadionuclideHalfLife: { tag: '(0018,1075)', keyword: 'RadionuclideHalfLife', vr: 'DS', vm: [1, 1] },
+    RadionuclidePositronFraction: { tag: '(0018,1076)', keyword: 'RadionuclidePositronFraction', vr: 'DS', vm: [1, 1] },
+    RadiopharmaceuticalSpecificActivity: { tag: '(0018,1077)', keyword: 'RadiopharmaceuticalSpecificActivity', vr: 'DS', vm: [1, 1] },
+    RadiopharmaceuticalStartDateTime: { tag: '(0018,1078)', keyword: 'RadiopharmaceuticalStartDateTime', vr: 'DT', vm: [1, 1] },
+    RadiopharmaceuticalStopDateTime: { tag: '(0018,1079)', keyword: 'RadiopharmaceuticalStopDateTime', vr: 'DT', vm: [1, 1] },
+    BeatRejectionFlag: { tag: '(0018,1080)', keyword: 'BeatRejectionFlag', vr: 'CS', vm: [1, 1] },
+    LowRRValue: { tag: '(0018,1081)', keyword: 'LowRRValue', vr: 'IS', vm: [1, 1] },
+    HighRRValue: { tag: '(0018,1082)', keyword: 'HighRRValue', vr: 'IS', vm: [1, 1] },
+    IntervalsAcquired: { tag: '(0018,1083)', keyword: 'IntervalsAcquired', vr: 'IS', vm: [1, 1] },
+    IntervalsRejected: { tag: '(0018,1084)', keyword: 'IntervalsRejected', vr: 'IS', vm: [1, 1] },
+    PVCRejection: { tag: '(0018,1085)', keyword: 'PVCRejection', vr: 'LO', vm: [1, 1] },
+    SkipBeats: { tag: '(0018,1086)', keyword: 'SkipBeats', vr: 'IS', vm: [1, 1] },
+    HeartRate: { tag: '(0018,1088)', keyword: 'HeartRate', vr: 'IS', vm: [1, 1] },
+    CardiacNumberOfImages: { tag: '(0018,1090)', keyword: 'CardiacNumberOfImages', vr: 'IS', vm: [1, 1] },
+    TriggerWindow: { tag: '(0018,1094)', keyword: 'TriggerWindow', vr: 'IS', vm: [1, 1] },
+    ReconstructionDiameter: { tag: '(0018,1100)', keyword: 'ReconstructionDiameter', vr: 'DS', vm: [1, 1] },
+    DistanceSourceToDetector: { tag: '(0018,1110)', keyword: 'DistanceSourceToDetector', vr: 'DS', vm: [1, 1] },
+    DistanceSourceToPatient: { tag: '(0018,1111)', keyword: 'DistanceSourceToPatient', vr: 'DS', vm: [1, 1] },
+    EstimatedRadiographicMagnificationFactor: { tag: '(0018,1114)', keyword: 'EstimatedRadiographicMagnificationFactor', vr: 'DS', vm: [1, 1] },
+    GantryDetectorTilt: { tag: '(0018,1120)', keyword: 'GantryDetectorTilt', vr: 'DS', vm: [1, 1] },
+    GantryDetectorSlew: { tag: '(0018,1121)', keyword: 'GantryDetectorSlew', vr: 'DS', vm: [1, 1] },
+    TableHeight: { tag: '(0018,1130)', keyword: 'TableHeight', vr: 'DS', vm: [1, 1] },
+    TableTraverse: { tag: '(0018,1131)', keyword: 'TableTraverse', vr: 'DS', vm: [1, 1] },
+    TableMotion: { tag: '(0018,1134)', keyword: 'TableMotion', vr: 'CS', vm: [1, 1] },
+    TableVerticalIncrement: { tag: '(0018,1135)', keyword: 'TableVerticalIncrement', vr: 'DS', vm: [1, null] },
+    TableLateralIncrement: { tag: '(0018,1136)', keyword: 'TableLateralIncrement', vr: 'DS', vm: [1, null] },
+    TableLongitudinalIncrement: { tag: '(0018,1137)', keyword: 'TableLongitudinalIncrement', vr: 'DS', vm: [1, null] },
+    TableAngle: { tag: '(0018,1138)', keyword: 'TableAngle', vr: 'DS', vm: [1, 1] },
+    TableType: { tag: '(0018,113A)', keyword: 'TableType', vr: 'CS', vm: [1, 1] },
+    RotationDirection: { tag: '(0018,1140)', keyword: 'RotationDirection', vr: 'CS', vm: [1, 1] },
+    RETIRED_AngularPosition: { tag: '(0018,1141)', keyword: 'RETIRED_AngularPosition', vr: 'DS', vm: [1, 1] },
+    RadialPosition: { tag: '(0018,1142)', keyword: 'RadialPosition', vr: 'DS', vm: [1, null] },
+    ScanArc: { tag: '(0018,1143)', keyword: 'ScanArc', vr: 'DS', vm: [1, 1] },
+    AngularStep: { tag: '(0018,1144)', keyword: 'AngularStep', vr: 'DS', vm: [1, 1] },
+    CenterOfRotationOffset: { tag: '(0018,1145)', keyword: 'CenterOfRotationOffset', vr: 'DS', vm: [1, 1] },
+    RETIRED_RotationOffset: { tag: '(0018,1146)', keyword: 'RETIRED_RotationOffset', vr: 'DS', vm: [1, null] },
+    FieldOfViewShape: { tag: '(0018,1147)', keyword: 'FieldOfViewShape', vr: 'CS', vm: [1, 1] },
+    FieldOfViewDimensions: { tag: '(0018,1149)', keyword: 'FieldOfViewDimensions', vr: 'IS', vm: [1, 2] },
+    ExposureTime: { tag: '(0018,1150)', keyword: 'ExposureTime', vr: 'IS', vm: [1, 1] },
+    XRayTubeCurrent: { tag: '(0018,1151)', keyword: 'XRayTubeCurrent', vr: 'IS', vm: [1, 1] },
+    Exposure: { tag: '(0018,1152)', keyword: 'Exposure', vr: 'IS', vm: [1, 1] },
+    ExposureInuAs: { tag: '(0018,1153)', keyword: 'ExposureInuAs', vr: 'IS', vm: [1, 1] },
+    AveragePulseWidth: { tag: '(0018,1154)', keyword: 'AveragePulseWidth', vr: 'DS', vm: [1, 1] },
+    RadiationSetting: { tag: '(0018,1155)', keyword: 'RadiationSetting', vr: 'CS', vm: [1, 1] },
+    RectificationType: { tag: '(0018,1156)', keyword: 'RectificationType', vr: 'CS', vm: [1, 1] },
+    RadiationMode: { tag: '(0018,115A)', keyword: 'RadiationMode', vr: 'CS', vm: [1, 1] },
+    ImageAndFluoroscopyAreaDoseProduct: { tag: '(0018,115E)', keyword: 'ImageAndFluoroscopyAreaDoseProduct', vr: 'DS', vm: [1, 1] },
+    FilterType: { tag: '(0018,1160)', keyword: 'FilterType', vr: 'SH', vm: [1, 1] },
+    TypeOfFilters: { tag: '(0018,1161)', keyword: 'TypeOfFilters', vr: 'LO', vm: [1, null] },
+    IntensifierSize: { tag: '(0018,1162)', keyword: 'IntensifierSize', vr: 'DS', vm: [1, 1] },
+    ImagerPixelSpacing: { tag: '(0018,1164)', keyword: 'ImagerPixelSpacing', vr: 'DS', vm: [2, 2] },
+    Grid: { tag: '(0018,1166)', keyword: 'Grid', vr: 'CS', vm: [1, null] },
+    GeneratorPower: { tag: '(0018,1170)', keyword: 'GeneratorPower', vr: 'IS', vm: [1, 1] },
+    CollimatorGridName: { tag: '(0018,1180)', keyword: 'CollimatorGridName', vr: 'SH', vm: [1, 1] },
+    CollimatorType: { tag: '(0018,1181)', keyword: 'CollimatorType', vr: 'CS', vm: [1, 1] },
+    FocalDistance: { tag: '(0018,1182)', keyword: 'FocalDistance', vr: 'IS', vm: [1, 2] },
+    XFocusCenter: { tag: '(0018,1183)', keyword: 'XFocusCenter', vr: 'DS', vm: [1, 2] },
+    YFocusCenter: { tag: '(0018,1184)', keyword: 'YFocusCenter', vr: 'DS', vm: [1, 2] },
+    FocalSpots: { tag: '(0018,1190)', keyword: 'FocalSpots', vr: 'DS', vm: [1, null] },
+    AnodeTargetMaterial: { tag: '(0018,1191)', keyword: 'AnodeTargetMaterial', vr: 'CS', vm: [1, 1] },
+    BodyPartThickness: { tag: '(0018,11A0)', keyword: 'BodyPartThickness', vr: 'DS', vm: [1, 1] },
+    CompressionForce: { tag: '(0018,11A2)', keyword: 'CompressionForce', vr: 'DS', vm: [1, 1] },
+    CompressionPressure: { tag: '(0018,11A3)', keyword: 'CompressionPressure', vr: 'DS', vm: [1, 1] },
+    PaddleDescription: { tag: '(0018,11A4)', keyword: 'PaddleDescription', vr: 'LO', vm: [1, 1] },
+    CompressionContactArea: { tag: '(0018,11A5)', keyword: 'CompressionContactArea', vr: 'DS', vm: [1, 1] },
+    DateOfLastCalibration: { tag: '(0018,1200)', keyword: 'DateOfLastCalibration', vr: 'DA', vm: [1, null] },
+    TimeOfLastCalibration: { tag: '(0018,1201)', keyword: 'TimeOfLastCalibration', vr: 'TM', vm: [1, null] },
+    DateTimeOfLastCalibration: { tag: '(0018,1202)', keyword: 'DateTimeOfLastCalibration', vr: 'DT', vm: [1, 1] },
+    ConvolutionKernel: { tag: '(0018,1210)', keyword: 'ConvolutionKernel', vr: 'SH', vm: [1, null] },
+    RETIRED_UpperLowerPixelValues: { tag: '(0018,1240)', keyword: 'RETIRED_UpperLowerPixelValues', vr: 'IS', vm: [1, null] },
+    ActualFrameDuration: { tag: '(0018,1242)', keyword: 'ActualFrameDuration', vr: 'IS', vm: [1, 1] },
+    CountRate: { tag: '(0018,1243)', keyword: 'CountRate', vr: 'IS', vm: [1, 1] },
+    PreferredPlaybackSequencing: { tag: '(0018,1244)', keyword: 'PreferredPlaybackSequencing', vr: 'US', vm: [1, 1] },
+    ReceiveCoilName: { tag: '(0018,1250)', keyword: 'ReceiveCoilName', vr: 'SH', vm: [1, 1] },
+    TransmitCoilName: { tag: '(0018,1251)', keyword: 'TransmitCoilName', vr: 'SH', vm: [1, 1] },
+    PlateType: { tag: '(0018,1260)', keyword: 'PlateType', vr: 'SH', vm: [1, 1] },
+    PhosphorType: { tag: '(0018,1261)', keyword: 'PhosphorType', vr: 'LO', vm: [1, 1] },
+    WaterEquivalentDiameter: { tag: '(0018,1271)', keyword: 'WaterEquivalentDiameter', vr: 'FD', vm: [1, 1] },
+    WaterEquivalentDiameterCalculationMethodCodeSequence: {
+        tag: '(0018,1272)',
+        keyword: 'WaterEquivalentDiameterCalculationMethodCodeSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    ScanVelocity: { tag: '(0018,1300)', keyword: 'ScanVelocity', vr: 'DS', vm: [1, 1] },
+    WholeBodyTechnique: { tag: '(0018,1301)', keyword: 'WholeBodyTechnique', vr: 'CS', vm: [1, null] },
+    ScanLength: { tag: '(0018,1302)', keyword: 'ScanLength', vr: 'IS', vm: [1, 1] },
+    AcquisitionMatrix: { tag: '(0018,1310)', keyword: 'AcquisitionMatrix', vr: 'US', vm: [4, 4] },
+    InPlanePhaseEncodingDirection: { tag: '(0018,1312)', keyword: 'InPlanePhaseEncodingDirection', vr: 'CS', vm: [1, 1] },
+    FlipAngle: { tag: '(0018,1314)', keyword: 'FlipAngle', vr: 'DS', vm: [1, 1] },
+    VariableFlipAngleFlag: { tag: '(0018,1315)', keyword: 'VariableFlipAngleFlag', vr: 'CS', vm: [1, 1] },
+    SAR: { tag: '(0018,1316)', keyword: 'SAR', vr: 'DS', vm: [1, 1] },
+    dBdt: { tag: '(0018,1318)', keyword: 'dBdt', vr: 'DS', vm: [1, 1] },
+    B1rms: { tag: '(0018,1320)', keyword: 'B1rms', vr: 'FL', vm: [1, 1] },
+    AcquisitionDeviceProcessingDescription: { tag: '(0018,1400)', keyword: 'AcquisitionDeviceProcessingDescription', vr: 'LO', vm: [1, 1] },
+    AcquisitionDeviceProcessingCode: { tag: '(0018,1401)', keyword: 'AcquisitionDeviceProcessingCode', vr: 'LO', vm: [1, 1] },
+    CassetteOrientation: { tag: '(0018,1402)', keyword: 'CassetteOrientation', vr: 'CS', vm: [1, 1] },
+    CassetteSize: { tag: '(0018,1403)', keyword: 'CassetteSize', vr: 'CS', vm: [1, 1] },
+    ExposuresOnPlate: { tag: '(0018,1404)', keyword: 'ExposuresOnPlate', vr: 'US', vm: [1, 1] },
+    RelativeXRayExposure: { tag: '(0018,1405)', keyword: 'RelativeXRayExposure', vr: 'IS', vm: [1, 1] },
+    ExposureIndex: { tag: '(0018,1411)', keyword: 'ExposureIndex', vr: 'DS', vm: [1, 1] },
+    TargetExposureIndex: { tag: '(0018,1412)', keyword: 'TargetExposureIndex', vr: 'DS', vm: [1, 1] },
+    DeviationIndex: { tag: '(0018,1413)', keyword: 'DeviationIndex', vr: 'DS', vm: [1, 1] },
+    ColumnAngulation: { tag: '(0018,1450)', keyword: 'ColumnAngulation', vr: 'DS', vm: [1, 1] },
+    TomoLayerHeight: { tag: '(0018,1460)', keyword: 'TomoLayerHeight', vr: 'DS', vm: [1, 1] },
+    TomoAngle: { tag: '(0018,1470)', keyword: 'TomoAngle', vr: 'DS', vm: [1, 1] },
+    TomoTime: { tag: '(0018,1480)', keyword: 'TomoTime', vr: 'DS', vm: [1, 1] },
+    TomoType: { tag: '(0018,1490)', keyword: 'TomoType', vr: 'CS', vm: [1, 1] },
+    TomoClass: { tag: '(0018,1491)', keyword: 'TomoClass', vr: 'CS', vm: [1, 1] },
+    NumberOfTomosynthesisSourceImages: { tag: '(0018,1495)', keyword: 'NumberOfTomosynthesisSourceImages', vr: 'IS', vm: [1, 1] },
+    PositionerMotion: { tag: '(0018,1500)', keyword: 'PositionerMotion', vr: 'CS', vm: [1, 1] },
+    PositionerType: { tag: '(0018,1508)', keyword: 'PositionerType', vr: 'CS', vm: [1, 1] },
+    PositionerPrimaryAngle: { tag: '(0018,1510)', keyword: 'PositionerPrimaryAngle', vr: 'DS', vm: [1, 1] },
+    PositionerSecondaryAngle: { tag: '(0018,1511)', keyword: 'PositionerSecondaryAngle', vr: 'DS', vm: [1, 1] },
+    PositionerPrimaryAngleIncrement: { tag: '(0018,1520)', keyword: 'PositionerPrimaryAngleIncrement', vr: 'DS', vm: [1, null] },
+    PositionerSecondaryAngleIncrement: { tag: '(0018,1521)', keyword: 'PositionerSecondaryAngleIncrement', vr: 'DS', vm: [1, null] },
+    DetectorPrimaryAngle: { tag: '(0018,1530)', keyword: 'DetectorPrimaryAngle', vr: 'DS', vm: [1, 1] },
+    DetectorSecondaryAngle: { tag: '(0018,1531)', keyword: 'DetectorSecondaryAngle', vr: 'DS', vm: [1, 1] },
+    ShutterShape: { tag: '(0018,1600)', keyword: 'ShutterShape', vr: 'CS', vm: [1, 3] },
+    ShutterLeftVerticalEdge: { tag: '(0018,1602)', keyword: 'ShutterLeftVerticalEdge', vr: 'IS', vm: [1, 1] },
+    ShutterRightVerticalEdge: { tag: '(0018,1604)', keyword: 'ShutterRightVerticalEdge', vr: 'IS', vm: [1, 1] },
+    ShutterUpperHorizontalEdge: { tag: '(0018,1606)', keyword: 'ShutterUpperHorizontalEdge', vr: 'IS', vm: [1, 1] },
+    ShutterLowerHorizontalEdge: { tag: '(0018,1608)', keyword: 'ShutterLowerHorizontalEdge', vr: 'IS', vm: [1, 1] },
+    CenterOfCircularShutter: { tag: '(0018,1610)', keyword: 'CenterOfCircularShutter', vr: 'IS', vm: [2, 2] },
+    RadiusOfCircularShutter: { tag: '(0018,1612)', keyword: 'RadiusOfCircularShutter', vr: 'IS', vm: [1, 1] },
+    VerticesOfThePolygonalShutter: { tag: '(0018,1620)', keyword: 'VerticesOfThePolygonalShutter', vr: 'IS', vm: [2, null] },
+    ShutterPresentationValue: { tag: '(0018,1622)', keyword: 'ShutterPresentationValue', vr: 'US', vm: [1, 1] },
+    ShutterOverlayGroup: { tag: '(0018,1623)', keyword: 'ShutterOverlayGroup', vr: 'US', vm: [1, 1] },
+    ShutterPresentationColorCIELabValue: { tag: '(0018,1624)', keyword: 'ShutterPresentationColorCIELabValue', vr: 'US', vm: [3, 3] },
+    OutlineShapeType: { tag: '(0018,1630)', keyword: 'OutlineShapeType', vr: 'CS', vm: [1, 1] },
+    OutlineLeftVerticalEdge: { tag: '(0018,1631)', keyword: 'OutlineLeftVerticalEdge', vr: 'FD', vm: [1, 1] },
+    OutlineRightVerticalEdge: { tag: '(0018,1632)', keyword: 'OutlineRightVerticalEdge', vr: 'FD', vm: [1, 1] },
+    OutlineUpperHorizontalEdge: { tag: '(0018,1633)', keyword: 'OutlineUpperHorizontalEdge', vr: 'FD', vm: [1, 1] },
+    OutlineLowerHorizontalEdge: { tag: '(0018,1634)', keyword: 'OutlineLowerHorizontalEdge', vr: 'FD', vm: [1, 1] },
+    CenterOfCircularOutline: { tag: '(0018,1635)', keyword: 'CenterOfCircularOutline', vr: 'FD', vm: [2, 2] },
+    DiameterOfCircularOutline: { tag: '(0018,1636)', keyword: 'DiameterOfCircularOutline', vr: 'FD', vm: [1, 1] },
+    NumberOfPolygonalVertices: { tag: '(0018,1637)', keyword: 'NumberOfPolygonalVertices', vr: 'UL', vm: [1, 1] },
+    VerticesOfThePolygonalOutline: { tag: '(0018,1638)', keyword: 'VerticesOfThePolygonalOutline', vr: 'OF', vm: [1, 1] },
+    CollimatorShape: { tag: '(0018,1700)', keyword: 'CollimatorShape', vr: 'CS', vm: [1, 3] },
+    CollimatorLeftVerticalEdge: { tag: '(0018,1702)', keyword: 'CollimatorLeftVerticalEdge', vr: 'IS', vm: [1, 1] },
+    CollimatorRightVerticalEdge: { tag: '(0018,1704)', keyword: 'CollimatorRightVerticalEdge', vr: 'IS', vm: [1, 1] },
+    CollimatorUpperHorizontalEdge: { tag: '(0018,1706)', keyword: 'CollimatorUpperHorizontalEdge', vr: 'IS', vm: [1, 1] },
+    CollimatorLowerHorizontalEdge: { tag: '(0018,1708)', keyword: 'CollimatorLowerHorizontalEdge', vr: 'IS', vm: [1, 1] },
+    CenterOfCircularCollimator: { tag: '(0018,1710)', keyword: 'CenterOfCircularCollimator', vr: 'IS', vm: [2, 2] },
+    RadiusOfCircularCollimator: { tag: '(0018,1712)', keyword: 'RadiusOfCircularCollimator', vr: 'IS', vm: [1, 1] },
+    VerticesOfThePolygonalCollimator: { tag: '(0018,1720)', keyword: 'VerticesOfThePolygonalCollimator', vr: 'IS', vm: [2, null] },
+    AcquisitionTimeSynchronized: { tag: '(0018,1800)', keyword: 'AcquisitionTimeSynchronized', vr: 'CS', vm: [1, 1] },
+    TimeSource: { tag: '(0018,1801)', keyword: 'TimeSource', vr: 'SH', vm: [1, 1] },
+    TimeDistributionProtocol: { tag: '(0018,1802)', keyword: 'TimeDistributionProtocol', vr: 'CS', vm: [1, 1] },
+    NTPSourceAddress: { tag: '(0018,1803)', keyword: 'NTPSourceAddress', vr: 'LO', vm: [1, 1] },
+    PageNumberVector: { tag: '(0018,2001)', keyword: 'PageNumberVector', vr: 'IS', vm: [1, null] },
+    FrameLabelVector: { tag: '(0018,2002)', keyword: 'FrameLabelVector', vr: 'SH', vm: [1, null] },
+    FramePrimaryAngleVector: { tag: '(0018,2003)', keyword: 'FramePrimaryAngleVector', vr: 'DS', vm: [1, null] },
+    FrameSecondaryAngleVector: { tag: '(0018,2004)', keyword: 'FrameSecondaryAngleVector', vr: 'DS', vm: [1, null] },
+    SliceLocationVector: { tag: '(0018,2005)', keyword: 'SliceLocationVector', vr: 'DS', vm: [1, null] },
+    DisplayWindowLabelVector: { tag: '(0018,2006)', keyword: 'DisplayWindowLabelVector', vr: 'SH', vm: [1, null] },
+    NominalScannedPixelSpacing: { tag: '(0018,2010)', keyword: 'NominalScannedPixelSpacing', vr: 'DS', vm: [2, 2] },
+    DigitizingDeviceTransportDirection: { tag: '(0018,2020)', keyword: 'DigitizingDeviceTransportDirection', vr: 'CS', vm: [1, 1] },
+    RotationOfScannedFilm: { tag: '(0018,2030)', keyword: 'RotationOfScannedFilm', vr: 'DS', vm: [1, 1] },
+    BiopsyTargetSequence: { tag: '(0018,2041)', keyword: 'BiopsyTargetSequence', vr: 'SQ', vm: [1, 1] },
+    TargetUID: { tag: '(0018,2042)', keyword: 'TargetUID', vr: 'UI', vm: [1, 1] },
+    LocalizingCursorPosition: { tag: '(0018,2043)', keyword: 'LocalizingCursorPosition', vr: 'FL', vm: [2, 2] },
+    CalculatedTargetPosition: { tag: '(0018,2044)', keyword: 'CalculatedTargetPosition', vr: 'FL', vm: [3, 3] },
+    TargetLabel: { tag: '(0018,2045)', keyword: 'TargetLabel', vr: 'SH', vm: [1, 1] },
+    DisplayedZValue: { tag: '(0018,2046)', keyword: 'DisplayedZValue', vr: 'FL', vm: [1, 1] },
+    IVUSAcquisition: { tag: '(0018,3100)', keyword: 'IVUSAcquisition', vr: 'CS', vm: [1, 1] },
+    IVUSPullbackRate: { tag: '(0018,3101)', keyword: 'IVUSPullbackRate', vr: 'DS', vm: [1, 1] },
+    IVUSGatedRate: { tag: '(0018,3102)', keyword: 'IVUSGatedRate', vr: 'DS', vm: [1, 1] },
+    IVUSPullbackStartFrameNumber: { tag: '(0018,3103)', keyword: 'IVUSPullbackStartFrameNumber', vr: 'IS', vm: [1, 1] },
+    IVUSPullbackStopFrameNumber: { tag: '(0018,3104)', keyword: 'IVUSPullbackStopFrameNumber', vr: 'IS', vm: [1, 1] },
+    LesionNumber: { tag: '(0018,3105)', keyword: 'LesionNumber', vr: 'IS', vm: [1, null] },
+    RETIRED_AcquisitionComments: { tag: '(0018,4000)', keyword: 'RETIRED_AcquisitionComments', vr: 'LT', vm: [1, 1] },
+    OutputPower: { tag: '(0018,5000)', keyword: 'OutputPower', vr: 'SH', vm: [1, null] },
+    TransducerData: { tag: '(0018,5010)', keyword: 'TransducerData', vr: 'LO', vm: [1, null] },
+    TransducerIdentificationSequence: { tag: '(0018,5011)', keyword: 'TransducerIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    FocusDepth: { tag: '(0018,5012)', keyword: 'FocusDepth', vr: 'DS', vm: [1, 1] },
+    ProcessingFunction: { tag: '(0018,5020)', keyword: 'ProcessingFunction', vr: 'LO', vm: [1, 1] },
+    RETIRED_PostprocessingFunction: { tag: '(0018,5021)', keyword: 'RETIRED_PostprocessingFunction', vr: 'LO', vm: [1, 1] },
+    MechanicalIndex: { tag: '(0018,5022)', keyword: 'MechanicalIndex', vr: 'DS', vm: [1, 1] },
+    BoneThermalIndex: { tag: '(0018,5024)', keyword: 'BoneThermalIndex', vr: 'DS', vm: [1, 1] },
+    CranialThermalIndex: { tag: '(0018,5026)', keyword: 'CranialThermalIndex', vr: 'DS', vm: [1, 1] },
+    SoftTissueThermalIndex: { tag: '(0018,5027)', keyword: 'SoftTissueThermalIndex', vr: 'DS', vm: [1, 1] },
+    SoftTissueFocusThermalIndex: { tag: '(0018,5028)', keyword: 'SoftTissueFocusThermalIndex', vr: 'DS', vm: [1, 1] },
+    SoftTissueSurfaceThermalIndex: { tag: '(0018,5029)', keyword: 'SoftTissueSurfaceThermalIndex', vr: 'DS', vm: [1, 1] },
+    RETIRED_DynamicRange: { tag: '(0018,5030)', keyword: 'RETIRED_DynamicRange', vr: 'DS', vm: [1, 1] },
+    RETIRED_TotalGain: { tag: '(0018,5040)', keyword: 'RETIRED_TotalGain', vr: 'DS', vm: [1, 1] },
+    DepthOfScanField: { tag: '(0018,5050)', keyword: 'DepthOfScanField', vr: 'IS', vm: [1, 1] },
+    PatientPosition: { tag: '(0018,5100)', keyword: 'PatientPosition', vr: 'CS', vm: [1, 1] },
+    ViewPosition: { tag: '(0018,5101)', keyword: 'ViewPosition', vr: 'CS', vm: [1, 1] },
+    ProjectionEponymousNameCodeSequence: { tag: '(0018,5104)', keyword: 'ProjectionEponymousNameCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ImageTransformationMatrix: { tag: '(0018,5210)', keyword: 'RETIRED_ImageTransformationMatrix', vr: 'DS', vm: [6, 6] },
+    RETIRED_ImageTranslationVector: { tag: '(0018,5212)', keyword: 'RETIRED_ImageTranslationVector', vr: 'DS', vm: [3, 3] },
+    Sensitivity: { tag: '(0018,6000)', keyword: 'Sensitivity', vr: 'DS', vm: [1, 1] },
+    SequenceOfUltrasoundRegions: { tag: '(0018,6011)', keyword: 'SequenceOfUltrasoundRegions', vr: 'SQ', vm: [1, 1] },
+    RegionSpatialFormat: { tag: '(0018,6012)', keyword: 'RegionSpatialFormat', vr: 'US', vm: [1, 1] },
+    RegionDataType: { tag: '(0018,6014)', keyword: 'RegionDataType', vr: 'US', vm: [1, 1] },
+    RegionFlags: { tag: '(0018,6016)', keyword: 'RegionFlags', vr: 'UL', vm: [1, 1] },
+    RegionLocationMinX0: { tag: '(0018,6018)', keyword: 'RegionLocationMinX0', vr: 'UL', vm: [1, 1] },
+    RegionLocationMinY0: { tag: '(0018,601A)', keyword: 'RegionLocationMinY0', vr: 'UL', vm: [1, 1] },
+    RegionLocationMaxX1: { tag: '(0018,601C)', keyword: 'RegionLocationMaxX1', vr: 'UL', vm: [1, 1] },
+    RegionLocationMaxY1: { tag: '(0018,601E)', keyword: 'RegionLocationMaxY1', vr: 'UL', vm: [1, 1] },
+    ReferencePixelX0: { tag: '(0018,6020)', keyword: 'ReferencePixelX0', vr: 'SL', vm: [1, 1] },
+    ReferencePixelY0: { tag: '(0018,6022)', keyword: 'ReferencePixelY0', vr: 'SL', vm: [1, 1] },
+    PhysicalUnitsXDirection: { tag: '(0018,6024)', keyword: 'PhysicalUnitsXDirection', vr: 'US', vm: [1, 1] },
+    PhysicalUnitsYDirection: { tag: '(0018,6026)', keyword: 'PhysicalUnitsYDirection', vr: 'US', vm: [1, 1] },
+    ReferencePixelPhysicalValueX: { tag: '(0018,6028)', keyword: 'ReferencePixelPhysicalValueX', vr: 'FD', vm: [1, 1] },
+    ReferencePixelPhysicalValueY: { tag: '(0018,602A)', keyword: 'ReferencePixelPhysicalValueY', vr: 'FD', vm: [1, 1] },
+    PhysicalDeltaX: { tag: '(0018,602C)', keyword: 'PhysicalDeltaX', vr: 'FD', vm: [1, 1] },
+    PhysicalDeltaY: { tag: '(0018,602E)', keyword: 'PhysicalDeltaY', vr: 'FD', vm: [1, 1] },
+    TransducerFrequency: { tag: '(0018,6030)', keyword: 'TransducerFrequency', vr: 'UL', vm: [1, 1] },
+    TransducerType: { tag: '(0018,6031)', keyword: 'TransducerType', vr: 'CS', vm: [1, 1] },
+    PulseRepetitionFrequency: { tag: '(0018,6032)', keyword: 'PulseRepetitionFrequency', vr: 'UL', vm: [1, 1] },
+    DopplerCorrectionAngle: { tag: '(0018,6034)', keyword: 'DopplerCorrectionAngle', vr: 'FD', vm: [1, 1] },
+    SteeringAngle: { tag: '(0018,6036)', keyword: 'SteeringAngle', vr: 'FD', vm: [1, 1] },
+    RETIRED_DopplerSampleVolumeXPositionRetired: { tag: '(0018,6038)', keyword: 'RETIRED_DopplerSampleVolumeXPositionRetired', vr: 'UL', vm: [1, 1] },
+    DopplerSampleVolumeXPosition: { tag: '(0018,6039)', keyword: 'DopplerSampleVolumeXPosition', vr: 'SL', vm: [1, 1] },
+    RETIRED_DopplerSampleVolumeYPositionRetired: { tag: '(0018,603A)', keyword: 'RETIRED_DopplerSampleVolumeYPositionRetired', vr: 'UL', vm: [1, 1] },
+    DopplerSampleVolumeYPosition: { tag: '(0018,603B)', keyword: 'DopplerSampleVolumeYPosition', vr: 'SL', vm: [1, 1] },
+    RETIRED_TMLinePositionX0Retired: { tag: '(0018,603C)', keyword: 'RETIRED_TMLinePositionX0Retired', vr: 'UL', vm: [1, 1] },
+    TMLinePositionX0: { tag: '(0018,603D)', keyword: 'TMLinePositionX0', vr: 'SL', vm: [1, 1] },
+    RETIRED_TMLinePositionY0Retired: { tag: '(0018,603E)', keyword: 'RETIRED_TMLinePositionY0Retired', vr: 'UL', vm: [1, 1] },
+    TMLinePositionY0: { tag: '(0018,603F)', keyword: 'TMLinePositionY0', vr: 'SL', vm: [1, 1] },
+    RETIRED_TMLinePositionX1Retired: { tag: '(0018,6040)', keyword: 'RETIRED_TMLinePositionX1Retired', vr: 'UL', vm: [1, 1] },
+    TMLinePositionX1: { tag: '(0018,6041)', keyword: 'TMLinePositionX1', vr: 'SL', vm: [1, 1] },
+    RETIRED_TMLinePositionY1Retired: { tag: '(0018,6042)', keyword: 'RETIRED_TMLinePositionY1Retired', vr: 'UL', vm: [1, 1] },
+    TMLinePositionY1: { tag: '(0018,6043)', keyword: 'TMLinePositionY1', vr: 'SL', vm: [1, 1] },
+    PixelComponentOrganization: { tag: '(0018,6044)', keyword: 'PixelComponentOrganization', vr: 'US', vm: [1, 1] },
+    PixelComponentMask: { tag: '(0018,6046)', keyword: 'PixelComponentMask', vr: 'UL', vm: [1, 1] },
+    PixelComponentRangeStart: { tag: '(0018,6048)', keyword: 'PixelComponentRangeStart', vr: 'UL', vm: [1, 1] },
+    PixelComponentRangeStop: { tag: '(0018,604A)', keyword: 'PixelComponentRangeStop', vr: 'UL', vm: [1, 1] },
+    PixelComponentPhysicalUnits: { tag: '(0018,604C)', keyword: 'PixelComponentPhysicalUnits', vr: 'US', vm: [1, 1] },
+    PixelComponentDataType: { tag: '(0018,604E)', keyword: 'PixelComponentDataType', vr: 'US', vm: [1, 1] },
+    NumberOfTableBreakPoints: { tag: '(0018,6050)', keyword: 'NumberOfTableBreakPoints', vr: 'UL', vm: [1, 1] },
+    TableOfXBreakPoints: { tag: '(0018,6052)', keyword: 'TableOfXBreakPoints', vr: 'UL', vm: [1, null] },
+    TableOfYBreakPoints: { tag: '(0018,6054)', keyword: 'TableOfYBreakPoints', vr: 'FD', vm: [1, null] },
+    NumberOfTableEntries: { tag: '(0018,6056)', keyword: 'NumberOfTableEntries', vr: 'UL', vm: [1, 1] },
+    TableOfPixelValues: { tag: '(0018,6058)', keyword: 'TableOfPixelValues', vr: 'UL', vm: [1, null] },
+    TableOfParameterValues: { tag: '(0018,605A)', keyword: 'TableOfParameterValues', vr: 'FL', vm: [1, null] },
+    RWaveTimeVector: { tag: '(0018,6060)', keyword: 'RWaveTimeVector', vr: 'FL', vm: [1, null] },
+    DetectorConditionsNominalFlag: { tag: '(0018,7000)', keyword: 'DetectorConditionsNominalFlag', vr: 'CS', vm: [1, 1] },
+    DetectorTemperature: { tag: '(0018,7001)', keyword: 'DetectorTemperature', vr: 'DS', vm: [1, 1] },
+    DetectorType: { tag: '(0018,7004)', keyword: 'DetectorType', vr: 'CS', vm: [1, 1] },
+    DetectorConfiguration: { tag: '(0018,7005)', keyword: 'DetectorConfiguration', vr: 'CS', vm: [1, 1] },
+    DetectorDescription: { tag: '(0018,7006)', keyword: 'DetectorDescription', vr: 'LT', vm: [1, 1] },
+    DetectorMode: { tag: '(0018,7008)', keyword: 'DetectorMode', vr: 'LT', vm: [1, 1] },
+    DetectorID: { tag: '(0018,700A)', keyword: 'DetectorID', vr: 'SH', vm: [1, 1] },
+    DateOfLastDetectorCalibration: { tag: '(0018,700C)', keyword: 'DateOfLastDetectorCalibration', vr: 'DA', vm: [1, 1] },
+    TimeOfLastDetectorCalibration: { tag: '(0018,700E)', keyword: 'TimeOfLastDetectorCalibration', vr: 'TM', vm: [1, 1] },
+    ExposuresOnDetectorSinceLastCalibration: { tag: '(0018,7010)', keyword: 'ExposuresOnDetectorSinceLastCalibration', vr: 'IS', vm: [1, 1] },
+    ExposuresOnDetectorSinceManufactured: { tag: '(0018,7011)', keyword: 'ExposuresOnDetectorSinceManufactured', vr: 'IS', vm: [1, 1] },
+    DetectorTimeSinceLastExposure: { tag: '(0018,7012)', keyword: 'DetectorTimeSinceLastExposure', vr: 'DS', vm: [1, 1] },
+    DetectorActiveTime: { tag: '(0018,7014)', keyword: 'DetectorActiveTime', vr: 'DS', vm: [1, 1] },
+    DetectorActivationOffsetFromExposure: { tag: '(0018,7016)', keyword: 'DetectorActivationOffsetFromExposure', vr: 'DS', vm: [1, 1] },
+    DetectorBinning: { tag: '(0018,701A)', keyword: 'DetectorBinning', vr: 'DS', vm: [2, 2] },
+    DetectorElementPhysicalSize: { tag: '(0018,7020)', keyword: 'DetectorElementPhysicalSize', vr: 'DS', vm: [2, 2] },
+    DetectorElementSpacing: { tag: '(0018,7022)', keyword: 'DetectorElementSpacing', vr: 'DS', vm: [2, 2] },
+    DetectorActiveShape: { tag: '(0018,7024)', keyword: 'DetectorActiveShape', vr: 'CS', vm: [1, 1] },
+    DetectorActiveDimensions: { tag: '(0018,7026)', keyword: 'DetectorActiveDimensions', vr: 'DS', vm: [1, 2] },
+    DetectorActiveOrigin: { tag: '(0018,7028)', keyword: 'DetectorActiveOrigin', vr: 'DS', vm: [2, 2] },
+    DetectorManufacturerName: { tag: '(0018,702A)', keyword: 'DetectorManufacturerName', vr: 'LO', vm: [1, 1] },
+    DetectorManufacturerModelName: { tag: '(0018,702B)', keyword: 'DetectorManufacturerModelName', vr: 'LO', vm: [1, 1] },
+    FieldOfViewOrigin: { tag: '(0018,7030)', keyword: 'FieldOfViewOrigin', vr: 'DS', vm: [2, 2] },
+    FieldOfViewRotation: { tag: '(0018,7032)', keyword: 'FieldOfViewRotation', vr: 'DS', vm: [1, 1] },
+    FieldOfViewHorizontalFlip: { tag: '(0018,7034)', keyword: 'FieldOfViewHorizontalFlip', vr: 'CS', vm: [1, 1] },
+    PixelDataAreaOriginRelativeToFOV: { tag: '(0018,7036)', keyword: 'PixelDataAreaOriginRelativeToFOV', vr: 'FL', vm: [2, 2] },
+    PixelDataAreaRotationAngleRelativeToFOV: { tag: '(0018,7038)', keyword: 'PixelDataAreaRotationAngleRelativeToFOV', vr: 'FL', vm: [1, 1] },
+    GridAbsorbingMaterial: { tag: '(0018,7040)', keyword: 'GridAbsorbingMaterial', vr: 'LT', vm: [1, 1] },
+    GridSpacingMaterial: { tag: '(0018,7041)', keyword: 'GridSpacingMaterial', vr: 'LT', vm: [1, 1] },
+    GridThickness: { tag: '(0018,7042)', keyword: 'GridThickness', vr: 'DS', vm: [1, 1] },
+    GridPitch: { tag: '(0018,7044)', keyword: 'GridPitch', vr: 'DS', vm: [1, 1] },
+    GridAspectRatio: { tag: '(0018,7046)', keyword: 'GridAspectRatio', vr: 'IS', vm: [2, 2] },
+    GridPeriod: { tag: '(0018,7048)', keyword: 'GridPeriod', vr: 'DS', vm: [1, 1] },
+    GridFocalDistance: { tag: '(0018,704C)', keyword: 'GridFocalDistance', vr: 'DS', vm: [1, 1] },
+    FilterMaterial: { tag: '(0018,7050)', keyword: 'FilterMaterial', vr: 'CS', vm: [1, null] },
+    FilterThicknessMinimum: { tag: '(0018,7052)', keyword: 'FilterThicknessMinimum', vr: 'DS', vm: [1, null] },
+    FilterThicknessMaximum: { tag: '(0018,7054)', keyword: 'FilterThicknessMaximum', vr: 'DS', vm: [1, null] },
+    FilterBeamPathLengthMinimum: { tag: '(0018,7056)', keyword: 'FilterBeamPathLengthMinimum', vr: 'FL', vm: [1, null] },
+    FilterBeamPathLengthMaximum: { tag: '(0018,7058)', keyword: 'FilterBeamPathLengthMaximum', vr: 'FL', vm: [1, null] },
+    ExposureControlMode: { tag: '(0018,7060)', keyword: 'ExposureControlMode', vr: 'CS', vm: [1, 1] },
+    ExposureControlModeDescription: { tag: '(0018,7062)', keyword: 'ExposureControlModeDescription', vr: 'LT', vm: [1, 1] },
+    ExposureStatus: { tag: '(0018,7064)', keyword: 'ExposureStatus', vr: 'CS', vm: [1, 1] },
+    PhototimerSetting: { tag: '(0018,7065)', keyword: 'PhototimerSetting', vr: 'DS', vm: [1, 1] },
+    ExposureTimeInuS: { tag: '(0018,8150)', keyword: 'ExposureTimeInuS', vr: 'DS', vm: [1, 1] },
+    XRayTubeCurrentInuA: { tag: '(0018,8151)', keyword: 'XRayTubeCurrentInuA', vr: 'DS', vm: [1, 1] },
+    ContentQualification: { tag: '(0018,9004)', keyword: 'ContentQualification', vr: 'CS', vm: [1, 1] },
+    PulseSequenceName: { tag: '(0018,9005)', keyword: 'PulseSequenceName', vr: 'SH', vm: [1, 1] },
+    MRImagingModifierSequence: { tag: '(0018,9006)', keyword: 'MRImagingModifierSequence', vr: 'SQ', vm: [1, 1] },
+    EchoPulseSequence: { tag: '(0018,9008)', keyword: 'EchoPulseSequence', vr: 'CS', vm: [1, 1] },
+    InversionRecovery: { tag: '(0018,9009)', keyword: 'InversionRecovery', vr: 'CS', vm: [1, 1] },
+    FlowCompensation: { tag: '(0018,9010)', keyword: 'FlowCompensation', vr: 'CS', vm: [1, 1] },
+    MultipleSpinEcho: { tag: '(0018,9011)', keyword: 'MultipleSpinEcho', vr: 'CS', vm: [1, 1] },
+    MultiPlanarExcitation: { tag: '(0018,9012)', keyword: 'MultiPlanarExcitation', vr: 'CS', vm: [1, 1] },
+    PhaseContrast: { tag: '(0018,9014)', keyword: 'PhaseContrast', vr: 'CS', vm: [1, 1] },
+    TimeOfFlightContrast: { tag: '(0018,9015)', keyword: 'TimeOfFlightContrast', vr: 'CS', vm: [1, 1] },
+    Spoiling: { tag: '(0018,9016)', keyword: 'Spoiling', vr: 'CS', vm: [1, 1] },
+    SteadyStatePulseSequence: { tag: '(0018,9017)', keyword: 'SteadyStatePulseSequence', vr: 'CS', vm: [1, 1] },
+    EchoPlanarPulseSequence: { tag: '(0018,9018)', keyword: 'EchoPlanarPulseSequence', vr: 'CS', vm: [1, 1] },
+    TagAngleFirstAxis: { tag: '(0018,9019)', keyword: 'TagAngleFirstAxis', vr: 'FD', vm: [1, 1] },
+    MagnetizationTransfer: { tag: '(0018,9020)', keyword: 'MagnetizationTransfer', vr: 'CS', vm: [1, 1] },
+    T2Preparation: { tag: '(0018,9021)', keyword: 'T2Preparation', vr: 'CS', vm: [1, 1] },
+    BloodSignalNulling: { tag: '(0018,9022)', keyword: 'BloodSignalNulling', vr: 'CS', vm: [1, 1] },
+    SaturationRecovery: { tag: '(0018,9024)', keyword: 'SaturationRecovery', vr: 'CS', vm: [1, 1] },
+    SpectrallySelectedSuppression: { tag: '(0018,9025)', keyword: 'SpectrallySelectedSuppression', vr: 'CS', vm: [1, 1] },
+    SpectrallySelectedExcitation: { tag: '(0018,9026)', keyword: 'SpectrallySelectedExcitation', vr: 'CS', vm: [1, 1] },
+    SpatialPresaturation: { tag: '(0018,9027)', keyword: 'SpatialPresaturation', vr: 'CS', vm: [1, 1] },
+    Tagging: { tag: '(0018,9028)', keyword: 'Tagging', vr: 'CS', vm: [1, 1] },
+    OversamplingPhase: { tag: '(0018,9029)', keyword: 'OversamplingPhase', vr: 'CS', vm: [1, 1] },
+    TagSpacingFirstDimension: { tag: '(0018,9030)', keyword: 'TagSpacingFirstDimension', vr: 'FD', vm: [1, 1] },
+    GeometryOfKSpaceTraversal: { tag: '(0018,9032)', keyword: 'GeometryOfKSpaceTraversal', vr: 'CS', vm: [1, 1] },
+    SegmentedKSpaceTraversal: { tag: '(0018,9033)', keyword: 'SegmentedKSpaceTraversal', vr: 'CS', vm: [1, 1] },
+    RectilinearPhaseEncodeReordering: { tag: '(0018,9034)', keyword: 'RectilinearPhaseEncodeReordering', vr: 'CS', vm: [1, 1] },
+    TagThickness: { tag: '(0018,9035)', keyword: 'TagThickness', vr: 'FD', vm: [1, 1] },
+    PartialFourierDirection: { tag: '(0018,9036)', keyword: 'PartialFourierDirection', vr: 'CS', vm: [1, 1] },
+    CardiacSynchronizationTechnique: { tag: '(0018,9037)', keyword: 'CardiacSynchronizationTechnique', vr: 'CS', vm: [1, 1] },
+    ReceiveCoilManufacturerName: { tag: '(0018,9041)', keyword: 'ReceiveCoilManufacturerName', vr: 'LO', vm: [1, 1] },
+    MRReceiveCoilSequence: { tag: '(0018,9042)', keyword: 'MRReceiveCoilSequence', vr: 'SQ', vm: [1, 1] },
+    ReceiveCoilType: { tag: '(0018,9043)', keyword: 'ReceiveCoilType', vr: 'CS', vm: [1, 1] },
+    QuadratureReceiveCoil: { tag: '(0018,9044)', keyword: 'QuadratureReceiveCoil', vr: 'CS', vm: [1, 1] },
+    MultiCoilDefinitionSequence: { tag: '(0018,9045)', keyword: 'MultiCoilDefinitionSequence', vr: 'SQ', vm: [1, 1] },
+    MultiCoilConfiguration: { tag: '(0018,9046)', keyword: 'MultiCoilConfiguration', vr: 'LO', vm: [1, 1] },
+    MultiCoilElementName: { tag: '(0018,9047)', keyword: 'MultiCoilElementName', vr: 'SH', vm: [1, 1] },
+    MultiCoilElementUsed: { tag: '(0018,9048)', keyword: 'MultiCoilElementUsed', vr: 'CS', vm: [1, 1] },
+    MRTransmitCoilSequence: { tag: '(0018,9049)', keyword: 'MRTransmitCoilSequence', vr: 'SQ', vm: [1, 1] },
+    TransmitCoilManufacturerName: { tag: '(0018,9050)', keyword: 'TransmitCoilManufacturerName', vr: 'LO', vm: [1, 1] },
+    TransmitCoilType: { tag: '(0018,9051)', keyword: 'TransmitCoilType', vr: 'CS', vm: [1, 1] },
+    SpectralWidth: { tag: '(0018,9052)', keyword: 'SpectralWidth', vr: 'FD', vm: [1, 2] },
+    ChemicalShiftReference: { tag: '(0018,9053)', keyword: 'ChemicalShiftReference', vr: 'FD', vm: [1, 2] },
+    VolumeLocalizationTechnique: { tag: '(0018,9054)', keyword: 'VolumeLocalizationTechnique', vr: 'CS', vm: [1, 1] },
+    MRAcquisitionFrequencyEncodingSteps: { tag: '(0018,9058)', keyword: 'MRAcquisitionFrequencyEncodingSteps', vr: 'US', vm: [1, 1] },
+    Decoupling: { tag: '(0018,9059)', keyword: 'Decoupling', vr: 'CS', vm: [1, 1] },
+    DecoupledNucleus: { tag: '(0018,9060)', keyword: 'DecoupledNucleus', vr: 'CS', vm: [1, 2] },
+    DecouplingFrequency: { tag: '(0018,9061)', keyword: 'DecouplingFrequency', vr: 'FD', vm: [1, 2] },
+    DecouplingMethod: { tag: '(0018,9062)', keyword: 'DecouplingMethod', vr: 'CS', vm: [1, 1] },
+    DecouplingChemicalShiftReference: { tag: '(0018,9063)', keyword: 'DecouplingChemicalShiftReference', vr: 'FD', vm: [1, 2] },
+    KSpaceFiltering: { tag: '(0018,9064)', keyword: 'KSpaceFiltering', vr: 'CS', vm: [1, 1] },
+    TimeDomainFiltering: { tag: '(0018,9065)', keyword: 'TimeDomainFiltering', vr: 'CS', vm: [1, 2] },
+    NumberOfZeroFills: { tag: '(0018,9066)', keyword: 'NumberOfZeroFills', vr: 'US', vm: [1, 2] },
+    BaselineCorrection: { tag: '(0018,9067)', keyword: 'BaselineCorrection', vr: 'CS', vm: [1, 1] },
+    ParallelReductionFactorInPlane: { tag: '(0018,9069)', keyword: 'ParallelReductionFactorInPlane', vr: 'FD', vm: [1, 1] },
+    CardiacRRIntervalSpecified: { tag: '(0018,9070)', keyword: 'CardiacRRIntervalSpecified', vr: 'FD', vm: [1, 1] },
+    AcquisitionDuration: { tag: '(0018,9073)', keyword: 'AcquisitionDuration', vr: 'FD', vm: [1, 1] },
+    FrameAcquisitionDateTime: { tag: '(0018,9074)', keyword: 'FrameAcquisitionDateTime', vr: 'DT', vm: [1, 1] },
+    DiffusionDirectionality: { tag: '(0018,9075)', keyword: 'DiffusionDirectionality', vr: 'CS', vm: [1, 1] },
+    DiffusionGradientDirectionSequence: { tag: '(0018,9076)', keyword: 'DiffusionGradientDirectionSequence', vr: 'SQ', vm: [1, 1] },
+    ParallelAcquisition: { tag: '(0018,9077)', keyword: 'ParallelAcquisition', vr: 'CS', vm: [1, 1] },
+    ParallelAcquisitionTechnique: { tag: '(0018,9078)', keyword: 'ParallelAcquisitionTechnique', vr: 'CS', vm: [1, 1] },
+    InversionTimes: { tag: '(0018,9079)', keyword: 'InversionTimes', vr: 'FD', vm: [1, null] },
+    MetaboliteMapDescription: { tag: '(0018,9080)', keyword: 'MetaboliteMapDescription', vr: 'ST', vm: [1, 1] },
+    PartialFourier: { tag: '(0018,9081)', keyword: 'PartialFourier', vr: 'CS', vm: [1, 1] },
+    EffectiveEchoTime: { tag: '(0018,9082)', keyword: 'EffectiveEchoTime', vr: 'FD', vm: [1, 1] },
+    MetaboliteMapCodeSequence: { tag: '(0018,9083)', keyword: 'MetaboliteMapCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ChemicalShiftSequence: { tag: '(0018,9084)', keyword: 'ChemicalShiftSequence', vr: 'SQ', vm: [1, 1] },
+    CardiacSignalSource: { tag: '(0018,9085)', keyword: 'CardiacSignalSource', vr: 'CS', vm: [1, 1] },
+    DiffusionBValue: { tag: '(0018,9087)', keyword: 'DiffusionBValue', vr: 'FD', vm: [1, 1] },
+    DiffusionGradientOrientation: { tag: '(0018,9089)', keyword: 'DiffusionGradientOrientation', vr: 'FD', vm: [3, 3] },
+    VelocityEncodingDirection: { tag: '(0018,9090)', keyword: 'VelocityEncodingDirection', vr: 'FD', vm: [3, 3] },
+    VelocityEncodingMinimumValue: { tag: '(0018,9091)', keyword: 'VelocityEncodingMinimumValue', vr: 'FD', vm: [1, 1] },
+    VelocityEncodingAcquisitionSequence: { tag: '(0018,9092)', keyword: 'VelocityEncodingAcquisitionSequence', vr: 'SQ', vm: [1, 1] },
+    NumberOfKSpaceTrajectories: { tag: '(0018,9093)', keyword: 'NumberOfKSpaceTrajectories', vr: 'US', vm: [1, 1] },
+    CoverageOfKSpace: { tag: '(0018,9094)', keyword: 'CoverageOfKSpace', vr: 'CS', vm: [1, 1] },
+    SpectroscopyAcquisitionPhaseRows: { tag: '(0018,9095)', keyword: 'SpectroscopyAcquisitionPhaseRows', vr: 'UL', vm: [1, 1] },
+    RETIRED_ParallelReductionFactorInPlaneRetired: { tag: '(0018,9096)', keyword: 'RETIRED_ParallelReductionFactorInPlaneRetired', vr: 'FD', vm: [1, 1] },
+    TransmitterFrequency: { tag: '(0018,9098)', keyword: 'TransmitterFrequency', vr: 'FD', vm: [1, 2] },
+    ResonantNucleus: { tag: '(0018,9100)', keyword: 'ResonantNucleus', vr: 'CS', vm: [1, 2] },
+    FrequencyCorrection: { tag: '(0018,9101)', keyword: 'FrequencyCorrection', vr: 'CS', vm: [1, 1] },
+    MRSpectroscopyFOVGeometrySequence: { tag: '(0018,9103)', keyword: 'MRSpectroscopyFOVGeometrySequence', vr: 'SQ', vm: [1, 1] },
+    SlabThickness: { tag: '(0018,9104)', keyword: 'SlabThickness', vr: 'FD', vm: [1, 1] },
+    SlabOrientation: { tag: '(0018,9105)', keyword: 'SlabOrientation', vr: 'FD', vm: [3, 3] },
+    MidSlabPosition: { tag: '(0018,9106)', keyword: 'MidSlabPosition', vr: 'FD', vm: [3, 3] },
+    MRSpatialSaturationSequence: { tag: '(0018,9107)', keyword: 'MRSpatialSaturationSequence', vr: 'SQ', vm: [1, 1] },
+    MRTimingAndRelatedParametersSequence: { tag: '(0018,9112)', keyword: 'MRTimingAndRelatedParametersSequence', vr: 'SQ', vm: [1, 1] },
+    MREchoSequence: { tag: '(0018,9114)', keyword: 'MREchoSequence', vr: 'SQ', vm: [1, 1] },
+    MRModifierSequence: { tag: '(0018,9115)', keyword: 'MRModifierSequence', vr: 'SQ', vm: [1, 1] },
+    MRDiffusionSequence: { tag: '(0018,9117)', keyword: 'MRDiffusionSequence', vr: 'SQ', vm: [1, 1] },
+    CardiacSynchronizationSequence: { tag: '(0018,9118)', keyword: 'CardiacSynchronizationSequence', vr: 'SQ', vm: [1, 1] },
+    MRAveragesSequence: { tag: '(0018,9119)', keyword: 'MRAveragesSequence', vr: 'SQ', vm: [1, 1] },
+    MRFOVGeometrySequence: { tag: '(0018,9125)', keyword: 'MRFOVGeometrySequence', vr: 'SQ', vm: [1, 1] },
+    VolumeLocalizationSequence: { tag: '(0018,9126)', keyword: 'VolumeLocalizationSequence', vr: 'SQ', vm: [1, 1] },
+    SpectroscopyAcquisitionDataColumns: { tag: '(0018,9127)', keyword: 'SpectroscopyAcquisitionDataColumns', vr: 'UL', vm: [1, 1] },
+    DiffusionAnisotropyType: { tag: '(0018,9147)', keyword: 'DiffusionAnisotropyType', vr: 'CS', vm: [1, 1] },
+    FrameReferenceDateTime: { tag: '(0018,9151)', keyword: 'FrameReferenceDateTime', vr: 'DT', vm: [1, 1] },
+    MRMetaboliteMapSequence: { tag: '(0018,9152)', keyword: 'MRMetaboliteMapSequence', vr: 'SQ', vm: [1, 1] },
+    ParallelReductionFactorOutOfPlane: { tag: '(0018,9155)', keyword: 'ParallelReductionFactorOutOfPlane', vr: 'FD', vm: [1, 1] },
+    SpectroscopyAcquisitionOutOfPlanePhaseSteps: { tag: '(0018,9159)', keyword: 'SpectroscopyAcquisitionOutOfPlanePhaseSteps', vr: 'UL', vm: [1, 1] },
+    RETIRED_BulkMotionStatus: { tag: '(0018,9166)', keyword: 'RETIRED_BulkMotionStatus', vr: 'CS', vm: [1, 1] },
+    ParallelReductionFactorSecondInPlane: { tag: '(0018,9168)', keyword: 'ParallelReductionFactorSecondInPlane', vr: 'FD', vm: [1, 1] },
+    CardiacBeatRejectionTechnique: { tag: '(0018,9169)', keyword: 'CardiacBeatRejectionTechnique', vr: 'CS', vm: [1, 1] },
+    RespiratoryMotionCompensationTechnique: { tag: '(0018,9170)', keyword: 'RespiratoryMotionCompensationTechnique', vr: 'CS', vm: [1, 1] },
+    RespiratorySignalSource: { tag: '(0018,9171)', keyword: 'RespiratorySignalSource', vr: 'CS', vm: [1, 1] },
+    BulkMotionCompensationTechnique: { tag: '(0018,9172)', keyword: 'BulkMotionCompensationTechnique', vr: 'CS', vm: [1, 1] },
+    BulkMotionSignalSource: { tag: '(0018,9173)', keyword: 'BulkMotionSignalSource', vr: 'CS', vm: [1, 1] },
+    ApplicableSafetyStandardAgency: { tag: '(0018,9174)', keyword: 'ApplicableSafetyStandardAgency', vr: 'CS', vm: [1, 1] },
+    ApplicableSafetyStandardDescription: { tag: '(0018,9175)', keyword: 'ApplicableSafetyStandardDescription', vr: 'LO', vm: [1, 1] },
+    OperatingModeSequence: { tag: '(0018,9176)', keyword: 'OperatingModeSequence', vr: 'SQ', vm: [1, 1] },
+    OperatingModeType: { tag: '(0018,9177)', keyword: 'OperatingModeType', vr: 'CS', vm: [1, 1] },
+    OperatingMode: { tag: '(0018,9178)', keyword: 'OperatingMode', vr: 'CS', vm: [1, 1] },
+    SpecificAbsorptionRateDefinition: { tag: '(0018,9179)', keyword: 'SpecificAbsorptionRateDefinition', vr: 'CS', vm: [1, 1] },
+    GradientOutputType: { tag: '(0018,9180)', keyword: 'GradientOutputType', vr: 'CS', vm: [1, 1] },
+    SpecificAbsorptionRateValue: { tag: '(0018,9181)', keyword: 'SpecificAbsorptionRateValue', vr: 'FD', vm: [1, 1] },
+    GradientOutput: { tag: '(0018,9182)', keyword: 'GradientOutput', vr: 'FD', vm: [1, 1] },
+    FlowCompensationDirection: { tag: '(0018,9183)', keyword: 'FlowCompensationDirection', vr: 'CS', vm: [1, 1] },
+    TaggingDelay: { tag: '(0018,9184)', keyword: 'TaggingDelay', vr: 'FD', vm: [1, 1] },
+    RespiratoryMotionCompensationTechniqueDescription: {
+        tag: '(0018,9185)',
+        keyword: 'RespiratoryMotionCompensationTechniqueDescription',
+        vr: 'ST',
+        vm: [1, 1],
+    },
+    RespiratorySignalSourceID: { tag: '(0018,9186)', keyword: 'RespiratorySignalSourceID', vr: 'SH', vm: [1, 1] },
+    RETIRED_ChemicalShiftMinimumIntegrationLimitInHz: { tag: '(0018,9195)', keyword: 'RETIRED_ChemicalShiftMinimumIntegrationLimitInHz', vr: 'FD', vm: [1, 1] },
+    RETIRED_ChemicalShiftMaximumIntegrationLimitInHz: { tag: '(0018,9196)', keyword: 'RETIRED_ChemicalShiftMaximumIntegrationLimitInHz', vr: 'FD', vm: [1, 1] },
+    MRVelocityEncodingSequence: { tag: '(0018,9197)', keyword: 'MRVelocityEncodingSequence', vr: 'SQ', vm: [1, 1] },
+    FirstOrderPhaseCorrection: { tag: '(0018,9198)', keyword: 'FirstOrderPhaseCorrection', vr: 'CS', vm: [1, 1] },
+    WaterReferencedPhaseCorrection: { tag: '(0018,9199)', keyword: 'WaterReferencedPhaseCorrection', vr: 'CS', vm: [1, 1] },
+    MRSpectroscopyAcquisitionType: { tag: '(0018,9200)', keyword: 'MRSpectroscopyAcquisitionType', vr: 'CS', vm: [1, 1] },
+    RespiratoryCyclePosition: { tag: '(0018,9214)', keyword: 'RespiratoryCyclePosition', vr: 'CS', vm: [1, 1] },
+    VelocityEncodingMaximumValue: { tag: '(0018,9217)', keyword: 'VelocityEncodingMaximumValue', vr: 'FD', vm: [1, 1] },
+    TagSpacingSecondDimension: { tag: '(0018,9218)', keyword: 'TagSpacingSecondDimension', vr: 'FD', vm: [1, 1] },
+    TagAngleSecondAxis: { tag: '(0018,9219)', keyword: 'TagAngleSecondAxis', vr: 'SS', vm: [1, 1] },
+    FrameAcquisitionDuration: { tag: '(0018,9220)', keyword: 'FrameAcquisitionDuration', vr: 'FD', vm: [1, 1] },
+    MRImageFrameTypeSequence: { tag: '(0018,9226)', keyword: 'MRImageFrameTypeSequence', vr: 'SQ', vm: [1, 1] },
+    MRSpectroscopyFrameTypeSequence: { tag: '(0018,9227)', keyword: 'MRSpectroscopyFrameTypeSequence', vr: 'SQ', vm: [1, 1] },
+    MRAcquisitionPhaseEncodingStepsInPlane: { tag: '(0018,9231)', keyword: 'MRAcquisitionPhaseEncodingStepsInPlane', vr: 'US', vm: [1, 1] },
+    MRAcquisitionPhaseEncodingStepsOutOfPlane: { tag: '(0018,9232)', keyword: 'MRAcquisitionPhaseEncodingStepsOutOfPlane', vr: 'US', vm: [1, 1] },
+    SpectroscopyAcquisitionPhaseColumns: { tag: '(0018,9234)', keyword: 'SpectroscopyAcquisitionPhaseColumns', vr: 'UL', vm: [1, 1] },
+    CardiacCyclePosition: { tag: '(0018,9236)', keyword: 'CardiacCyclePosition', vr: 'CS', vm: [1, 1] },
+    SpecificAbsorptionRateSequence: { tag: '(0018,9239)', keyword: 'SpecificAbsorptionRateSequence', vr: 'SQ', vm: [1, 1] },
+    RFEchoTrainLength: { tag: '(0018,9240)', keyword: 'RFEchoTrainLength', vr: 'US', vm: [1, 1] },
+    GradientEchoTrainLength: { tag: '(0018,9241)', keyword: 'GradientEchoTrainLength', vr: 'US', vm: [1, 1] },
+    ArterialSpinLabelingContrast: { tag: '(0018,9250)', keyword: 'ArterialSpinLabelingContrast', vr: 'CS', vm: [1, 1] },
+    MRArterialSpinLabelingSequence: { tag: '(0018,9251)', keyword: 'MRArterialSpinLabelingSequence', vr: 'SQ', vm: [1, 1] },
+    ASLTechniqueDescription: { tag: '(0018,9252)', keyword: 'ASLTechniqueDescription', vr: 'LO', vm: [1, 1] },
+    ASLSlabNumber: { tag: '(0018,9253)', keyword: 'ASLSlabNumber', vr: 'US', vm: [1, 1] },
+    ASLSlabThickness: { tag: '(0018,9254)', keyword: 'ASLSlabThickness', vr: 'FD', vm: [1, 1] },
+    ASLSlabOrientation: { tag: '(0018,9255)', keyword: 'ASLSlabOrientation', vr: 'FD', vm: [3, 3] },
+    ASLMidSlabPosition: { tag: '(0018,9256)', keyword: 'ASLMidSlabPosition', vr: 'FD', vm: [3, 3] },
+    ASLContext: { tag: '(0018,9257)', keyword: 'ASLContext', vr: 'CS', vm: [1, 1] },
+    ASLPulseTrainDuration: { tag: '(0018,9258)', keyword: 'ASLPulseTrainDuration', vr: 'UL', vm: [1, 1] },
+    ASLCrusherFlag: { tag: '(0018,9259)', keyword: 'ASLCrusherFlag', vr: 'CS', vm: [1, 1] },
+    ASLCrusherFlowLimit: { tag: '(0018,925A)', keyword: 'ASLCrusherFlowLimit', vr: 'FD', vm: [1, 1] },
+    ASLCrusherDescription: { tag: '(0018,925B)', keyword: 'ASLCrusherDescription', vr: 'LO', vm: [1, 1] },
+    ASLBolusCutoffFlag: { tag: '(0018,925C)', keyword: 'ASLBolusCutoffFlag', vr: 'CS', vm: [1, 1] },
+    ASLBolusCutoffTimingSequence: { tag: '(0018,925D)', keyword: 'ASLBolusCutoffTimingSequence', vr: 'SQ', vm: [1, 1] },
+    ASLBolusCutoffTechnique: { tag: '(0018,925E)', keyword: 'ASLBolusCutoffTechnique', vr: 'LO', vm: [1, 1] },
+    ASLBolusCutoffDelayTime: { tag: '(0018,925F)', keyword: 'ASLBolusCutoffDelayTime', vr: 'UL', vm: [1, 1] },
+    ASLSlabSequence: { tag: '(0018,9260)', keyword: 'ASLSlabSequence', vr: 'SQ', vm: [1, 1] },
+    ChemicalShiftMinimumIntegrationLimitInppm: { tag: '(0018,9295)', keyword: 'ChemicalShiftMinimumIntegrationLimitInppm', vr: 'FD', vm: [1, 1] },
+    ChemicalShiftMaximumIntegrationLimitInppm: { tag: '(0018,9296)', keyword: 'ChemicalShiftMaximumIntegrationLimitInppm', vr: 'FD', vm: [1, 1] },
+    WaterReferenceAcquisition: { tag: '(0018,9297)', keyword: 'WaterReferenceAcquisition', vr: 'CS', vm: [1, 1] },
+    EchoPeakPosition: { tag: '(0018,9298)', keyword: 'EchoPeakPosition', vr: 'IS', vm: [1, 1] },
+    CTAcquisitionTypeSequence: { tag: '(0018,9301)', keyword: 'CTAcquisitionTypeSequence', vr: 'SQ', vm: [1, 1] },
+    AcquisitionType: { tag: '(0018,9302)', keyword: 'AcquisitionType', vr: 'CS', vm: [1, 1] },
+    TubeAngle: { tag: '(0018,9303)', keyword: 'TubeAngle', vr: 'FD', vm: [1, 1] },
+    CTAcquisitionDetailsSequence: { tag: '(0018,9304)', keyword: 'CTAcquisitionDetailsSequence', vr: 'SQ', vm: [1, 1] },
+    RevolutionTime: { tag: '(0018,9305)', keyword: 'RevolutionTime', vr: 'FD', vm: [1, 1] },
+    SingleCollimationWidth: { tag: '(0018,9306)', keyword: 'SingleCollimationWidth', vr: 'FD', vm: [1, 1] },
+    TotalCollimationWidth: { tag: '(0018,9307)', keyword: 'TotalCollimationWidth', vr: 'FD', vm: [1, 1] },
+    CTTableDynamicsSequence: { tag: '(0018,9308)', keyword: 'CTTableDynamicsSequence', vr: 'SQ', vm: [1, 1] },
+    TableSpeed: { tag: '(0018,9309)', keyword: 'TableSpeed', vr: 'FD', vm: [1, 1] },
+    TableFeedPerRotation: { tag: '(0018,9310)', keyword: 'TableFeedPerRotation', vr: 'FD', vm: [1, 1] },
+    SpiralPitchFactor: { tag: '(0018,9311)', keyword: 'SpiralPitchFactor', vr: 'FD', vm: [1, 1] },
+    CTGeometrySequence: { tag: '(0018,9312)', keyword: 'CTGeometrySequence', vr: 'SQ', vm: [1, 1] },
+    DataCollectionCenterPatient: { tag: '(0018,9313)', keyword: 'DataCollectionCenterPatient', vr: 'FD', vm: [3, 3] },
+    CTReconstructionSequence: { tag: '(0018,9314)', keyword: 'CTReconstructionSequence', vr: 'SQ', vm: [1, 1] },
+    ReconstructionAlgorithm: { tag: '(0018,9315)', keyword: 'ReconstructionAlgorithm', vr: 'CS', vm: [1, 1] },
+    ConvolutionKernelGroup: { tag: '(0018,9316)', keyword: 'ConvolutionKernelGroup', vr: 'CS', vm: [1, 1] },
+    ReconstructionFieldOfView: { tag: '(0018,9317)', keyword: 'ReconstructionFieldOfView', vr: 'FD', vm: [2, 2] },
+    ReconstructionTargetCenterPatient: { tag: '(0018,9318)', keyword: 'ReconstructionTargetCenterPatient', vr: 'FD', vm: [3, 3] },
+    ReconstructionAngle: { tag: '(0018,9319)', keyword: 'ReconstructionAngle', vr: 'FD', vm: [1, 1] },
+    ImageFilter: { tag: '(0018,9320)', keyword: 'ImageFilter', vr: 'SH', vm: [1, 1] },
+    CTExposureSequence: { tag: '(0018,9321)', keyword: 'CTExposureSequence', vr: 'SQ', vm: [1, 1] },
+    ReconstructionPixelSpacing: { tag: '(0018,9322)', keyword: 'ReconstructionPixelSpacing', vr: 'FD', vm: [2, 2] },
+    ExposureModulationType: { tag: '(0018,9323)', keyword: 'ExposureModulationType', vr: 'CS', vm: [1, null] },
+    EstimatedDoseSaving: { tag: '(0018,9324)', keyword: 'EstimatedDoseSaving', vr: 'FD', vm: [1, 1] },
+    CTXRayDetailsSequence: { tag: '(0018,9325)', keyword: 'CTXRayDetailsSequence', vr: 'SQ', vm: [1, 1] },
+    CTPositionSequence: { tag: '(0018,9326)', keyword: 'CTPositionSequence', vr: 'SQ', vm: [1, 1] },
+    TablePosition: { tag: '(0018,9327)', keyword: 'TablePosition', vr: 'FD', vm: [1, 1] },
+    ExposureTimeInms: { tag: '(0018,9328)', keyword: 'ExposureTimeInms', vr: 'FD', vm: [1, 1] },
+    CTImageFrameTypeSequence: { tag: '(0018,9329)', keyword: 'CTImageFrameTypeSequence', vr: 'SQ', vm: [1, 1] },
+    XRayTubeCurrentInmA: { tag: '(0018,9330)', keyword: 'XRayTubeCurrentInmA', vr: 'FD', vm: [1, 1] },
+    ExposureInmAs: { tag: '(0018,9332)', keyword: 'ExposureInmAs', vr: 'FD', vm: [1, 1] },
+    ConstantVolumeFlag: { tag: '(0018,9333)', keyword: 'ConstantVolumeFlag', vr: 'CS', vm: [1, 1] },
+    FluoroscopyFlag: { tag: '(0018,9334)', keyword: 'FluoroscopyFlag', vr: 'CS', vm: [1, 1] },
+    DistanceSourceToDataCollectionCenter: { tag: '(0018,9335)', keyword: 'DistanceSourceToDataCollectionCenter', vr: 'FD', vm: [1, 1] },
+    ContrastBolusAgentNumber: { tag: '(0018,9337)', keyword: 'ContrastBolusAgentNumber', vr: 'US', vm: [1, 1] },
+    ContrastBolusIngredientCodeSequence: { tag: '(0018,9338)', keyword: 'ContrastBolusIngredientCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ContrastAdministrationProfileSequence: { tag: '(0018,9340)', keyword: 'ContrastAdministrationProfileSequence', vr: 'SQ', vm: [1, 1] },
+    ContrastBolusUsageSequence: { tag: '(0018,9341)', keyword: 'ContrastBolusUsageSequence', vr: 'SQ', vm: [1, 1] },
+    ContrastBolusAgentAdministered: { tag: '(0018,9342)', keyword: 'ContrastBolusAgentAdministered', vr: 'CS', vm: [1, 1] },
+    ContrastBolusAgentDetected: { tag: '(0018,9343)', keyword: 'ContrastBolusAgentDetected', vr: 'CS', vm: [1, 1] },
+    ContrastBolusAgentPhase: { tag: '(0018,9344)', keyword: 'ContrastBolusAgentPhase', vr: 'CS', vm: [1, 1] },
+    CTDIvol: { tag: '(0018,9345)', keyword: 'CTDIvol', vr: 'FD', vm: [1, 1] },
+    CTDIPhantomTypeCodeSequence: { tag: '(0018,9346)', keyword: 'CTDIPhantomTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    CalciumScoringMassFactorPatient: { tag: '(0018,9351)', keyword: 'CalciumScoringMassFactorPatient', vr: 'FL', vm: [1, 1] },
+    CalciumScoringMassFactorDevice: { tag: '(0018,9352)', keyword: 'CalciumScoringMassFactorDevice', vr: 'FL', vm: [3, 3] },
+    EnergyWeightingFactor: { tag: '(0018,9353)', keyword: 'EnergyWeightingFactor', vr: 'FL', vm: [1, 1] },
+    CTAdditionalXRaySourceSequence: { tag: '(0018,9360)', keyword: 'CTAdditionalXRaySourceSequence', vr: 'SQ', vm: [1, 1] },
+    MultienergyCTAcquisition: { tag: '(0018,9361)', keyword: 'MultienergyCTAcquisition', vr: 'CS', vm: [1, 1] },
+    MultienergyCTAcquisitionSequence: { tag: '(0018,9362)', keyword: 'MultienergyCTAcquisitionSequence', vr: 'SQ', vm: [1, 1] },
+    MultienergyCTProcessingSequence: { tag: '(0018,9363)', keyword: 'MultienergyCTProcessingSequence', vr: 'SQ', vm: [1, 1] },
+    MultienergyCTCharacteristicsSequence: { tag: '(0018,9364)', keyword: 'MultienergyCTCharacteristicsSequence', vr: 'SQ', vm: [1, 1] },
+    MultienergyCTXRaySourceSequence: { tag: '(0018,9365)', keyword: 'MultienergyCTXRaySourceSequence', vr: 'SQ', vm: [1, 1] },
+    XRaySourceIndex: { tag: '(0018,9366)', keyword: 'XRaySourceIndex', vr: 'US', vm: [1, 1] },
+    XRaySourceID: { tag: '(0018,9367)', keyword: 'XRaySourceID', vr: 'UC', vm: [1, 1] },
+    MultienergySourceTechnique: { tag: '(0018,9368)', keyword: 'MultienergySourceTechnique', vr: 'CS', vm: [1, 1] },
+    SourceStartDateTime: { tag: '(0018,9369)', keyword: 'SourceStartDateTime', vr: 'DT', vm: [1, 1] },
+    SourceEndDateTime: { tag: '(0018,936A)', keyword: 'SourceEndDateTime', vr: 'DT', vm: [1, 1] },
+    SwitchingPhaseNumber: { tag: '(0018,936B)', keyword: 'SwitchingPhaseNumber', vr: 'US', vm: [1, 1] },
+    SwitchingPhaseNominalDuration: { tag: '(0018,936C)', keyword: 'SwitchingPhaseNominalDuration', vr: 'DS', vm: [1, 1] },
+    SwitchingPhaseTransitionDuration: { tag: '(0018,936D)', keyword: 'SwitchingPhaseTransitionDuration', vr: 'DS', vm: [1, 1] },
+    EffectiveBinEnergy: { tag: '(0018,936E)', keyword: 'EffectiveBinEnergy', vr: 'DS', vm: [1, 1] },
+    MultienergyCTXRayDetectorSequence: { tag: '(0018,936F)', keyword: 'MultienergyCTXRayDetectorSequence', vr: 'SQ', vm: [1, 1] },
+    XRayDetectorIndex: { tag: '(0018,9370)', keyword: 'XRayDetectorIndex', vr: 'US', vm: [1, 1] },
+    XRayDetectorID: { tag: '(0018,9371)', keyword: 'XRayDetectorID', vr: 'UC', vm: [1, 1] },
+    MultienergyDetectorType: { tag: '(0018,9372)', keyword: 'MultienergyDetectorType', vr: 'CS', vm: [1, 1] },
+    XRayDetectorLabel: { tag: '(0018,9373)', keyword: 'XRayDetectorLabel', vr: 'ST', vm: [1, 1] },
+    NominalMaxEnergy: { tag: '(0018,9374)', keyword: 'NominalMaxEnergy', vr: 'DS', vm: [1, 1] },
+    NominalMinEnergy: { tag: '(0018,9375)', keyword: 'NominalMinEnergy', vr: 'DS', vm: [1, 1] },
+    ReferencedXRayDetectorIndex: { tag: '(0018,9376)', keyword: 'ReferencedXRayDetectorIndex', vr: 'US', vm: [1, null] },
+    ReferencedXRaySourceIndex: { tag: '(0018,9377)', keyword: 'ReferencedXRaySourceIndex', vr: 'US', vm: [1, null] },
+    ReferencedPathIndex: { tag: '(0018,9378)', keyword: 'ReferencedPathIndex', vr: 'US', vm: [1, null] },
+    MultienergyCTPathSequence: { tag: '(0018,9379)', keyword: 'MultienergyCTPathSequence', vr: 'SQ', vm: [1, 1] },
+    MultienergyCTPathIndex: { tag: '(0018,937A)', keyword: 'MultienergyCTPathIndex', vr: 'US', vm: [1, 1] },
+    MultienergyAcquisitionDescription: { tag: '(0018,937B)', keyword: 'MultienergyAcquisitionDescription', vr: 'UT', vm: [1, 1] },
+    MonoenergeticEnergyEquivalent: { tag: '(0018,937C)', keyword: 'MonoenergeticEnergyEquivalent', vr: 'FD', vm: [1, 1] },
+    MaterialCodeSequence: { tag: '(0018,937D)', keyword: 'MaterialCodeSequence', vr: 'SQ', vm: [1, 1] },
+    DecompositionMethod: { tag: '(0018,937E)', keyword: 'DecompositionMethod', vr: 'CS', vm: [1, 1] },
+    DecompositionDescription: { tag: '(0018,937F)', keyword: 'DecompositionDescription', vr: 'UT', vm: [1, 1] },
+    DecompositionAlgorithmIdentificationSequence: { tag: '(0018,9380)', keyword: 'DecompositionAlgorithmIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    DecompositionMaterialSequence: { tag: '(0018,9381)', keyword: 'DecompositionMaterialSequence', vr: 'SQ', vm: [1, 1] },
+    MaterialAttenuationSequence: { tag: '(0018,9382)', keyword: 'MaterialAttenuationSequence', vr: 'SQ', vm: [1, 1] },
+    PhotonEnergy: { tag: '(0018,9383)', keyword: 'PhotonEnergy', vr: 'DS', vm: [1, 1] },
+    XRayMassAttenuationCoefficient: { tag: '(0018,9384)', keyword: 'XRayMassAttenuationCoefficient', vr: 'DS', vm: [1, 1] },
+    ProjectionPixelCalibrationSequence: { tag: '(0018,9401)', keyword: 'ProjectionPixelCalibrationSequence', vr: 'SQ', vm: [1, 1] },
+    DistanceSourceToIsocenter: { tag: '(0018,9402)', keyword: 'DistanceSourceToIsocenter', vr: 'FL', vm: [1, 1] },
+    DistanceObjectToTableTop: { tag: '(0018,9403)', keyword: 'DistanceObjectToTableTop', vr: 'FL', vm: [1, 1] },
+    ObjectPixelSpacingInCenterOfBeam: { tag: '(0018,9404)', keyword: 'ObjectPixelSpacingInCenterOfBeam', vr: 'FL', vm: [2, 2] },
+    PositionerPositionSequence: { tag: '(0018,9405)', keyword: 'PositionerPositionSequence', vr: 'SQ', vm: [1, 1] },
+    TablePositionSequence: { tag: '(0018,9406)', keyword: 'TablePositionSequence', vr: 'SQ', vm: [1, 1] },
+    CollimatorShapeSequence: { tag: '(0018,9407)', keyword: 'CollimatorShapeSequence', vr: 'SQ', vm: [1, 1] },
+    PlanesInAcquisition: { tag: '(0018,9410)', keyword: 'PlanesInAcquisition', vr: 'CS', vm: [1, 1] },
+    XAXRFFrameCharacteristicsSequence: { tag: '(0018,9412)', keyword: 'XAXRFFrameCharacteristicsSequence', vr: 'SQ', vm: [1, 1] },
+    FrameAcquisitionSequence: { tag: '(0018,9417)', keyword: 'FrameAcquisitionSequence', vr: 'SQ', vm: [1, 1] },
+    XRayReceptorType: { tag: '(0018,9420)', keyword: 'XRayReceptorType', vr: 'CS', vm: [1, 1] },
+    AcquisitionProtocolName: { tag: '(0018,9423)', keyword: 'AcquisitionProtocolName', vr: 'LO', vm: [1, 1] },
+    AcquisitionProtocolDescription: { tag: '(0018,9424)', keyword: 'AcquisitionProtocolDescription', vr: 'LT', vm: [1, 1] },
+    ContrastBolusIngredientOpaque: { tag: '(0018,9425)', keyword: 'ContrastBolusIngredientOpaque', vr: 'CS', vm: [1, 1] },
+    DistanceReceptorPlaneToDetectorHousing: { tag: '(0018,9426)', keyword: 'DistanceReceptorPlaneToDetectorHousing', vr: 'FL', vm: [1, 1] },
+    IntensifierActiveShape: { tag: '(0018,9427)', keyword: 'IntensifierActiveShape', vr: 'CS', vm: [1, 1] },
+    IntensifierActiveDimensions: { tag: '(0018,9428)', keyword: 'IntensifierActiveDimensions', vr: 'FL', vm: [1, 2] },
+    PhysicalDetectorSize: { tag: '(0018,9429)', keyword: 'PhysicalDetectorSize', vr: 'FL', vm: [2, 2] },
+    PositionOfIsocenterProjection: { tag: '(0018,9430)', keyword: 'PositionOfIsocenterProjection', vr: 'FL', vm: [2, 2] },
+    FieldOfViewSequence: { tag: '(0018,9432)', keyword: 'FieldOfViewSequence', vr: 'SQ', vm: [1, 1] },
+    FieldOfViewDescription: { tag: '(0018,9433)', keyword: 'FieldOfViewDescription', vr: 'LO', vm: [1, 1] },
+    ExposureControlSensingRegionsSequence: { tag: '(0018,9434)', keyword: 'ExposureControlSensingRegionsSequence', vr: 'SQ', vm: [1, 1] },
+    ExposureControlSensingRegionShape: { tag: '(0018,9435)', keyword: 'ExposureControlSensingRegionShape', vr: 'CS', vm: [1, 1] },
+    ExposureControlSensingRegionLeftVerticalEdge: { tag: '(0018,9436)', keyword: 'ExposureControlSensingRegionLeftVerticalEdge', vr: 'SS', vm: [1, 1] },
+    ExposureControlSensingRegionRightVerticalEdge: { tag: '(0018,9437)', keyword: 'ExposureControlSensingRegionRightVerticalEdge', vr: 'SS', vm: [1, 1] },
+    ExposureControlSensingRegionUpperHorizontalEdge: { tag: '(0018,9438)', keyword: 'ExposureControlSensingRegionUpperHorizontalEdge', vr: 'SS', vm: [1, 1] },
+    ExposureControlSensingRegionLowerHorizontalEdge: { tag: '(0018,9439)', keyword: 'ExposureControlSensingRegionLowerHorizontalEdge', vr: 'SS', vm: [1, 1] },
+    CenterOfCircularExposureControlSensingRegion: { tag: '(0018,9440)', keyword: 'CenterOfCircularExposureControlSensingRegion', vr: 'SS', vm: [2, 2] },
+    RadiusOfCircularExposureControlSensingRegion: { tag: '(0018,9441)', keyword: 'RadiusOfCircularExposureControlSensingRegion', vr: 'US', vm: [1, 1] },
+    VerticesOfThePolygonalExposureControlSensingRegion: {
+        tag: '(0018,9442)',
+        keyword: 'VerticesOfThePolygonalExposureControlSensingRegion',
+        vr: 'SS',
+        vm: [2, null],
+    },
+    ColumnAngulationPatient: { tag: '(0018,9447)', keyword: 'ColumnAngulationPatient', vr: 'FL', vm: [1, 1] },
+    BeamAngle: { tag: '(0018,9449)', keyword: 'BeamAngle', vr: 'FL', vm: [1, 1] },
+    FrameDetectorParametersSequence: { tag: '(0018,9451)', keyword: 'FrameDetectorParametersSequence', vr: 'SQ', vm: [1, 1] },
+    CalculatedAnatomyThickness: { tag: '(0018,9452)', keyword: 'CalculatedAnatomyThickness', vr: 'FL', vm: [1, 1] },
+    CalibrationSequence: { tag: '(0018,9455)', keyword: 'CalibrationSequence', vr: 'SQ', vm: [1, 1] },
+    ObjectThicknessSequence: { tag: '(0018,9456)', keyword: 'ObjectThicknessSequence', vr: 'SQ', vm: [1, 1] },
+    PlaneIdentification: { tag: '(0018,9457)', keyword: 'PlaneIdentification', vr: 'CS', vm: [1, 1] },
+    FieldOfViewDimensionsInFloat: { tag: '(0018,9461)', keyword: 'FieldOfViewDimensionsInFloat', vr: 'FL', vm: [1, 2] },
+    IsocenterReferenceSystemSequence: { tag: '(0018,9462)', keyword: 'IsocenterReferenceSystemSequence', vr: 'SQ', vm: [1, 1] },
+    PositionerIsocenterPrimaryAngle: { tag: '(0018,9463)', keyword: 'PositionerIsocenterPrimaryAngle', vr: 'FL', vm: [1, 1] },
+    PositionerIsocenterSecondaryAngle: { tag: '(0018,9464)', keyword: 'PositionerIsocenterSecondaryAngle', vr: 'FL', vm: [1, 1] },
+    PositionerIsocenterDetectorRotationAngle: { tag: '(0018,9465)', keyword: 'PositionerIsocenterDetectorRotationAngle', vr: 'FL', vm: [1, 1] },
+    TableXPositionToIsocenter: { tag: '(0018,9466)', keyword: 'TableXPositionToIsocenter', vr: 'FL', vm: [1, 1] },
+    TableYPositionToIsocenter: { tag: '(0018,9467)', keyword: 'TableYPositionToIsocenter', vr: 'FL', vm: [1, 1] },
+    TableZPositionToIsocenter: { tag: '(0018,9468)', keyword: 'TableZPositionToIsocenter', vr: 'FL', vm: [1, 1] },
+    TableHorizontalRotationAngle: { tag: '(0018,9469)', keyword: 'TableHorizontalRotationAngle', vr: 'FL', vm: [1, 1] },
+    TableHeadTiltAngle: { tag: '(0018,9470)', keyword: 'TableHeadTiltAngle', vr: 'FL', vm: [1, 1] },
+    TableCradleTiltAngle: { tag: '(0018,9471)', keyword: 'TableCradleTiltAngle', vr: 'FL', vm: [1, 1] },
+    FrameDisplayShutterSequence: { tag: '(0018,9472)', keyword: 'FrameDisplayShutterSequence', vr: 'SQ', vm: [1, 1] },
+    AcquiredImageAreaDoseProduct: { tag: '(0018,9473)', keyword: 'AcquiredImageAreaDoseProduct', vr: 'FL', vm: [1, 1] },
+    CArmPositionerTabletopRelationship: { tag: '(0018,9474)', keyword: 'CArmPositionerTabletopRelationship', vr: 'CS', vm: [1, 1] },
+    XRayGeometrySequence: { tag: '(0018,9476)', keyword: 'XRayGeometrySequence', vr: 'SQ', vm: [1, 1] },
+    IrradiationEventIdentificationSequence: { tag: '(0018,9477)', keyword: 'IrradiationEventIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    XRay3DFrameTypeSequence: { tag: '(0018,9504)', keyword: 'XRay3DFrameTypeSequence', vr: 'SQ', vm: [1, 1] },
+    ContributingSourcesSequence: { tag: '(0018,9506)', keyword: 'ContributingSourcesSequence', vr: 'SQ', vm: [1, 1] },
+    XRay3DAcquisitionSequence: { tag: '(0018,9507)', keyword: 'XRay3DAcquisitionSequence', vr: 'SQ', vm: [1, 1] },
+    PrimaryPositionerScanArc: { tag: '(0018,9508)', keyword: 'PrimaryPositionerScanArc', vr: 'FL', vm: [1, 1] },
+    SecondaryPositionerScanArc: { tag: '(0018,9509)', keyword: 'SecondaryPositionerScanArc', vr: 'FL', vm: [1, 1] },
+    PrimaryPositionerScanStartAngle: { tag: '(0018,9510)', keyword: 'PrimaryPositionerScanStartAngle', vr: 'FL', vm: [1, 1] },
+    SecondaryPositionerScanStartAngle: { tag: '(0018,9511)', keyword: 'SecondaryPositionerScanStartAngle', vr: 'FL', vm: [1, 1] },
+    PrimaryPositionerIncrement: { tag: '(0018,9514)', keyword: 'PrimaryPositionerIncrement', vr: 'FL', vm: [1, 1] },
+    SecondaryPositionerIncrement: { tag: '(0018,9515)', keyword: 'SecondaryPositionerIncrement', vr: 'FL', vm: [1, 1] },
+    StartAcquisitionDateTime: { tag: '(0018,9516)', keyword: 'StartAcquisitionDateTime', vr: 'DT', vm: [1, 1] },
+    EndAcquisitionDateTime: { tag: '(0018,9517)', keyword: 'EndAcquisitionDateTime', vr: 'DT', vm: [1, 1] },
+    PrimaryPositionerIncrementSign: { tag: '(0018,9518)', keyword: 'PrimaryPositionerIncrementSign', vr: 'SS', vm: [1, 1] },
+    SecondaryPositionerIncrementSign: { tag: '(0018,9519)', keyword: 'SecondaryPositionerIncrementSign', vr: 'SS', vm: [1, 1] },
+    ApplicationName: { tag: '(0018,9524)', keyword: 'ApplicationName', vr: 'LO', vm: [1, 1] },
+    ApplicationVersion: { tag: '(0018,9525)', keyword: 'ApplicationVersion', vr: 'LO', vm: [1, 1] },
+    ApplicationManufacturer: { tag: '(0018,9526)', keyword: 'ApplicationManufacturer', vr: 'LO', vm: [1, 1] },
+    AlgorithmType: { tag: '(0018,9527)', keyword: 'AlgorithmType', vr: 'CS', vm: [1, 1] },
+    AlgorithmDescription: { tag: '(0018,9528)', keyword: 'AlgorithmDescription', vr: 'LO', vm: [1, 1] },
+    XRay3DReconstructionSequence: { tag: '(0018,9530)', keyword: 'XRay3DReconstructionSequence', vr: 'SQ', vm: [1, 1] },
+    ReconstructionDescription: { tag: '(0018,9531)', keyword: 'ReconstructionDescription', vr: 'LO', vm: [1, 1] },
+    PerProjectionAcquisitionSequence: { tag: '(0018,9538)', keyword: 'PerProjectionAcquisitionSequence', vr: 'SQ', vm: [1, 1] },
+    DetectorPositionSequence: { tag: '(0018,9541)', keyword: 'DetectorPositionSequence', vr: 'SQ', vm: [1, 1] },
+    XRayAcquisitionDoseSequence: { tag: '(0018,9542)', keyword: 'XRayAcquisitionDoseSequence', vr: 'SQ', vm: [1, 1] },
+    XRaySourceIsocenterPrimaryAngle: { tag: '(0018,9543)', keyword: 'XRaySourceIsocenterPrimaryAngle', vr: 'FD', vm: [1, 1] },
+    XRaySourceIsocenterSecondaryAngle: { tag: '(0018,9544)', keyword: 'XRaySourceIsocenterSecondaryAngle', vr: 'FD', vm: [1, 1] },
+    BreastSupportIsocenterPrimaryAngle: { tag: '(0018,9545)', keyword: 'BreastSupportIsocenterPrimaryAngle', vr: 'FD', vm: [1, 1] },
+    BreastSupportIsocenterSecondaryAngle: { tag: '(0018,9546)', keyword: 'BreastSupportIsocenterSecondaryAngle', vr: 'FD', vm: [1, 1] },
+    BreastSupportXPositionToIsocenter: { tag: '(0018,9547)', keyword: 'BreastSupportXPositionToIsocenter', vr: 'FD', vm: [1, 1] },
+    BreastSupportYPositionToIsocenter: { tag: '(0018,9548)', keyword: 'BreastSupportYPositionToIsocenter', vr: 'FD', vm: [1, 1] },
+    BreastSupportZPositionToIsocenter: { tag: '(0018,9549)', keyword: 'BreastSupportZPositionToIsocenter', vr: 'FD', vm: [1, 1] },
+    DetectorIsocenterPrimaryAngle: { tag: '(0018,9550)', keyword: 'DetectorIsocenterPrimaryAngle', vr: 'FD', vm: [1, 1] },
+    DetectorIsocenterSecondaryAngle: { tag: '(0018,9551)', keyword: 'DetectorIsocenterSecondaryAngle', vr: 'FD', vm: [1, 1] },
+    DetectorXPositionToIsocenter: { tag: '(0018,9552)', keyword: 'DetectorXPositionToIsocenter', vr: 'FD', vm: [1, 1] },
+    DetectorYPositionToIsocenter: { tag: '(0018,9553)', keyword: 'DetectorYPositionToIsocenter', vr: 'FD', vm: [1, 1] },
+    DetectorZPositionToIsocenter: { tag: '(0018,9554)', keyword: 'DetectorZPositionToIsocenter', vr: 'FD', vm: [1, 1] },
+    XRayGridSequence: { tag: '(0018,9555)', keyword: 'XRayGridSequence', vr: 'SQ', vm: [1, 1] },
+    XRayFilterSequence: { tag: '(0018,9556)', keyword: 'XRayFilterSequence', vr: 'SQ', vm: [1, 1] },
+    DetectorActiveAreaTLHCPosition: { tag: '(0018,9557)', keyword: 'DetectorActiveAreaTLHCPosition', vr: 'FD', vm: [3, 3] },
+    DetectorActiveAreaOrientation: { tag: '(0018,9558)', keyword: 'DetectorActiveAreaOrientation', vr: 'FD', vm: [6, 6] },
+    PositionerPrimaryAngleDirection: { tag: '(0018,9559)', keyword: 'PositionerPrimaryAngleDirection', vr: 'CS', vm: [1, 1] },
+    DiffusionBMatrixSequence: { tag: '(0018,9601)', keyword: 'DiffusionBMatrixSequence', vr: 'SQ', vm: [1, 1] },
+    DiffusionBValueXX: { tag: '(0018,9602)', keyword: 'DiffusionBValueXX', vr: 'FD', vm: [1, 1] },
+    DiffusionBValueXY: { tag: '(0018,9603)', keyword: 'DiffusionBValueXY', vr: 'FD', vm: [1, 1] },
+    DiffusionBValueXZ: { tag: '(0018,9604)', keyword: 'DiffusionBValueXZ', vr: 'FD', vm: [1, 1] },
+    DiffusionBValueYY: { tag: '(0018,9605)', keyword: 'DiffusionBValueYY', vr: 'FD', vm: [1, 1] },
+    DiffusionBValueYZ: { tag: '(0018,9606)', keyword: 'DiffusionBValueYZ', vr: 'FD', vm: [1, 1] },
+    DiffusionBValueZZ: { tag: '(0018,9607)', keyword: 'DiffusionBValueZZ', vr: 'FD', vm: [1, 1] },
+    FunctionalMRSequence: { tag: '(0018,9621)', keyword: 'FunctionalMRSequence', vr: 'SQ', vm: [1, 1] },
+    FunctionalSettlingPhaseFramesPresent: { tag: '(0018,9622)', keyword: 'FunctionalSettlingPhaseFramesPresent', vr: 'CS', vm: [1, 1] },
+    FunctionalSyncPulse: { tag: '(0018,9623)', keyword: 'FunctionalSyncPulse', vr: 'DT', vm: [1, 1] },
+    SettlingPhaseFrame: { tag: '(0018,9624)', keyword: 'SettlingPhaseFrame', vr: 'CS', vm: [1, 1] },
+    DecayCorrectionDateTime: { tag: '(0018,9701)', keyword: 'DecayCorrectionDateTime', vr: 'DT', vm: [1, 1] },
+    StartDensityThreshold: { tag: '(0018,9715)', keyword: 'StartDensityThreshold', vr: 'FD', vm: [1, 1] },
+    StartRelativeDensityDifferenceThreshold: { tag: '(0018,9716)', keyword: 'StartRelativeDensityDifferenceThreshold', vr: 'FD', vm: [1, 1] },
+    StartCardiacTriggerCountThreshold: { tag: '(0018,9717)', keyword: 'StartCardiacTriggerCountThreshold', vr: 'FD', vm: [1, 1] },
+    StartRespiratoryTriggerCountThreshold: { tag: '(0018,9718)', keyword: 'StartRespiratoryTriggerCountThreshold', vr: 'FD', vm: [1, 1] },
+    TerminationCountsThreshold: { tag: '(0018,9719)', keyword: 'TerminationCountsThreshold', vr: 'FD', vm: [1, 1] },
+    TerminationDensityThreshold: { tag: '(0018,9720)', keyword: 'TerminationDensityThreshold', vr: 'FD', vm: [1, 1] },
+    TerminationRelativeDensityThreshold: { tag: '(0018,9721)', keyword: 'TerminationRelativeDensityThreshold', vr: 'FD', vm: [1, 1] },
+    TerminationTimeThreshold: { tag: '(0018,9722)', keyword: 'TerminationTimeThreshold', vr: 'FD', vm: [1, 1] },
+    TerminationCardiacTriggerCountThreshold: { tag: '(0018,9723)', keyword: 'TerminationCardiacTriggerCountThreshold', vr: 'FD', vm: [1, 1] },
+    TerminationRespiratoryTriggerCountThreshold: { tag: '(0018,9724)', keyword: 'TerminationRespiratoryTriggerCountThreshold', vr: 'FD', vm: [1, 1] },
+    DetectorGeometry: { tag: '(0018,9725)', keyword: 'DetectorGeometry', vr: 'CS', vm: [1, 1] },
+    TransverseDetectorSeparation: { tag: '(0018,9726)', keyword: 'TransverseDetectorSeparation', vr: 'FD', vm: [1, 1] },
+    AxialDetectorDimension: { tag: '(0018,9727)', keyword: 'AxialDetectorDimension', vr: 'FD', vm: [1, 1] },
+    RadiopharmaceuticalAgentNumber: { tag: '(0018,9729)', keyword: 'RadiopharmaceuticalAgentNumber', vr: 'US', vm: [1, 1] },
+    PETFrameAcquisitionSequence: { tag: '(0018,9732)', keyword: 'PETFrameAcquisitionSequence', vr: 'SQ', vm: [1, 1] },
+    PETDetectorMotionDetailsSequence: { tag: '(0018,9733)', keyword: 'PETDetectorMotionDetailsSequence', vr: 'SQ', vm: [1, 1] },
+    PETTableDynamicsSequence: { tag: '(0018,9734)', keyword: 'PETTableDynamicsSequence', vr: 'SQ', vm: [1, 1] },
+    PETPositionSequence: { tag: '(0018,9735)', keyword: 'PETPositionSequence', vr: 'SQ', vm: [1, 1] },
+    PETFrameCorrectionFactorsSequence: { tag: '(0018,9736)', keyword: 'PETFrameCorrectionFactorsSequence', vr: 'SQ', vm: [1, 1] },
+    RadiopharmaceuticalUsageSequence: { tag: '(0018,9737)', keyword: 'RadiopharmaceuticalUsageSequence', vr: 'SQ', vm: [1, 1] },
+    AttenuationCorrectionSource: { tag: '(0018,9738)', keyword: 'AttenuationCorrectionSource', vr: 'CS', vm: [1, 1] },
+    NumberOfIterations: { tag: '(0018,9739)', keyword: 'NumberOfIterations', vr: 'US', vm: [1, 1] },
+    NumberOfSubsets: { tag: '(0018,9740)', keyword: 'NumberOfSubsets', vr: 'US', vm: [1, 1] },
+    PETReconstructionSequence: { tag: '(0018,9749)', keyword: 'PETReconstructionSequence', vr: 'SQ', vm: [1, 1] },
+    PETFrameTypeSequence: { tag: '(0018,9751)', keyword: 'PETFrameTypeSequence', vr: 'SQ', vm: [1, 1] },
+    TimeOfFlightInformationUsed: { tag: '(0018,9755)', keyword: 'TimeOfFlightInformationUsed', vr: 'CS', vm: [1, 1] },
+    ReconstructionType: { tag: '(0018,9756)', keyword: 'ReconstructionType', vr: 'CS', vm: [1, 1] },
+    DecayCorrected: { tag: '(0018,9758)', keyword: 'DecayCorrected', vr: 'CS', vm: [1, 1] },
+    AttenuationCorrected: { tag: '(0018,9759)', keyword: 'AttenuationCorrected', vr: 'CS', vm: [1, 1] },
+    ScatterCorrected: { tag: '(0018,9760)', keyword: 'ScatterCorrected', vr: 'CS', vm: [1, 1] },
+    DeadTimeCorrected: { tag: '(0018,9761)', keyword: 'DeadTimeCorrected', vr: 'CS', vm: [1, 1] },
+    GantryMotionCorrected: { tag: '(0018,9762)', keyword: 'GantryMotionCorrected', vr: 'CS', vm: [1, 1] },
+    PatientMotionCorrected: { tag: '(0018,9763)', keyword: 'PatientMotionCorrected', vr: 'CS', vm: [1, 1] },
+    CountLossNormalizationCorrected: { tag: '(0018,9764)', keyword: 'CountLossNormalizationCorrected', vr: 'CS', vm: [1, 1] },
+    RandomsCorrected: { tag: '(0018,9765)', keyword: 'RandomsCorrected', vr: 'CS', vm: [1, 1] },
+    NonUniformRadialSamplingCorrected: { tag: '(0018,9766)', keyword: 'NonUniformRadialSamplingCorrected', vr: 'CS', vm: [1, 1] },
+    SensitivityCalibrated: { tag: '(0018,9767)', keyword: 'SensitivityCalibrated', vr: 'CS', vm: [1, 1] },
+    DetectorNormalizationCorrection: { tag: '(0018,9768)', keyword: 'DetectorNormalizationCorrection', vr: 'CS', vm: [1, 1] },
+    IterativeReconstructionMethod: { tag: '(0018,9769)', keyword: 'IterativeReconstructionMethod', vr: 'CS', vm: [1, 1] },
+    AttenuationCorrectionTemporalRelationship: { tag: '(0018,9770)', keyword: 'AttenuationCorrectionTemporalRelationship', vr: 'CS', vm: [1, 1] },
+    PatientPhysiologicalStateSequence: { tag: '(0018,9771)', keyword: 'PatientPhysiologicalStateSequence', vr: 'SQ', vm: [1, 1] },
+    PatientPhysiologicalStateCodeSequence: { tag: '(0018,9772)', keyword: 'PatientPhysiologicalStateCodeSequence', vr: 'SQ', vm: [1, 1] },
+    DepthsOfFocus: { tag: '(0018,9801)', keyword: 'DepthsOfFocus', vr: 'FD', vm: [1, null] },
+    ExcludedIntervalsSequence: { tag: '(0018,9803)', keyword: 'ExcludedIntervalsSequence', vr: 'SQ', vm: [1, 1] },
+    ExclusionStartDateTime: { tag: '(0018,9804)', keyword: 'ExclusionStartDateTime', vr: 'DT', vm: [1, 1] },
+    ExclusionDuration: { tag: '(0018,9805)', keyword: 'ExclusionDuration', vr: 'FD', vm: [1, 1] },
+    USImageDescriptionSequence: { tag: '(0018,9806)', keyword: 'USImageDescriptionSequence', vr: 'SQ', vm: [1, 1] },
+    ImageDataTypeSequence: { tag: '(0018,9807)', keyword: 'ImageDataTypeSequence', vr: 'SQ', vm: [1, 1] },
+    DataType: { tag: '(0018,9808)', keyword: 'DataType', vr: 'CS', vm: [1, 1] },
+    TransducerScanPatternCodeSequence: { tag: '(0018,9809)', keyword: 'TransducerScanPatternCodeSequence', vr: 'SQ', vm: [1, 1] },
+    AliasedDataType: { tag: '(0018,980B)', keyword: 'AliasedDataType', vr: 'CS', vm: [1, 1] },
+    PositionMeasuringDeviceUsed: { tag: '(0018,980C)', keyword: 'PositionMeasuringDeviceUsed', vr: 'CS', vm: [1, 1] },
+    TransducerGeometryCodeSequence: { tag: '(0018,980D)', keyword: 'TransducerGeometryCodeSequence', vr: 'SQ', vm: [1, 1] },
+    TransducerBeamSteeringCodeSequence: { tag: '(0018,980E)', keyword: 'TransducerBeamSteeringCodeSequence', vr: 'SQ', vm: [1, 1] },
+    TransducerApplicationCodeSequence: { tag: '(0018,980F)', keyword: 'TransducerApplicationCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ZeroVelocityPixelValue: { tag: '(0018,9810)', keyword: 'ZeroVelocityPixelValue', vr: 'US', vm: [1, 1] },
+    ReferenceLocationLabel: { tag: '(0018,9900)', keyword: 'ReferenceLocationLabel', vr: 'LO', vm: [1, 1] },
+    ReferenceLocationDescription: { tag: '(0018,9901)', keyword: 'ReferenceLocationDescription', vr: 'UT', vm: [1, 1] },
+    ReferenceBasisCodeSequence: { tag: '(0018,9902)', keyword: 'ReferenceBasisCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ReferenceGeometryCodeSequence: { tag: '(0018,9903)', keyword: 'ReferenceGeometryCodeSequence', vr: 'SQ', vm: [1, 1] },
+    OffsetDistance: { tag: '(0018,9904)', keyword: 'OffsetDistance', vr: 'DS', vm: [1, 1] },
+    OffsetDirection: { tag: '(0018,9905)', keyword: 'OffsetDirection', vr: 'CS', vm: [1, 1] },
+    PotentialScheduledProtocolCodeSequence: { tag: '(0018,9906)', keyword: 'PotentialScheduledProtocolCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PotentialRequestedProcedureCodeSequence: { tag: '(0018,9907)', keyword: 'PotentialRequestedProcedureCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PotentialReasonsForProcedure: { tag: '(0018,9908)', keyword: 'PotentialReasonsForProcedure', vr: 'UC', vm: [1, null] },
+    PotentialReasonsForProcedureCodeSequence: { tag: '(0018,9909)', keyword: 'PotentialReasonsForProcedureCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PotentialDiagnosticTasks: { tag: '(0018,990A)', keyword: 'PotentialDiagnosticTasks', vr: 'UC', vm: [1, null] },
+    ContraindicationsCodeSequence: { tag: '(0018,990B)', keyword: 'ContraindicationsCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedDefinedProtocolSequence: { tag: '(0018,990C)', keyword: 'ReferencedDefinedProtocolSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedPerformedProtocolSequence: { tag: '(0018,990D)', keyword: 'ReferencedPerformedProtocolSequence', vr: 'SQ', vm: [1, 1] },
+    PredecessorProtocolSequence: { tag: '(0018,990E)', keyword: 'PredecessorProtocolSequence', vr: 'SQ', vm: [1, 1] },
+    ProtocolPlanningInformation: { tag: '(0018,990F)', keyword: 'ProtocolPlanningInformation', vr: 'UT', vm: [1, 1] },
+    ProtocolDesignRationale: { tag: '(0018,9910)', keyword: 'ProtocolDesignRationale', vr: 'UT', vm: [1, 1] },
+    PatientSpecificationSequence: { tag: '(0018,9911)', keyword: 'PatientSpecificationSequence', vr: 'SQ', vm: [1, 1] },
+    ModelSpecificationSequence: { tag: '(0018,9912)', keyword: 'ModelSpecificationSequence', vr: 'SQ', vm: [1, 1] },
+    ParametersSpecificationSequence: { tag: '(0018,9913)', keyword: 'ParametersSpecificationSequence', vr: 'SQ', vm: [1, 1] },
+    InstructionSequence: { tag: '(0018,9914)', keyword: 'InstructionSequence', vr: 'SQ', vm: [1, 1] },
+    InstructionIndex: { tag: '(0018,9915)', keyword: 'InstructionIndex', vr: 'US', vm: [1, 1] },
+    InstructionText: { tag: '(0018,9916)', keyword: 'InstructionText', vr: 'LO', vm: [1, 1] },
+    InstructionDescription: { tag: '(0018,9917)', keyword: 'InstructionDescription', vr: 'UT', vm: [1, 1] },
+    InstructionPerformedFlag: { tag: '(0018,9918)', keyword: 'InstructionPerformedFlag', vr: 'CS', vm: [1, 1] },
+    InstructionPerformedDateTime: { tag: '(0018,9919)', keyword: 'InstructionPerformedDateTime', vr: 'DT', vm: [1, 1] },
+    InstructionPerformanceComment: { tag: '(0018,991A)', keyword: 'InstructionPerformanceComment', vr: 'UT', vm: [1, 1] },
+    PatientPositioningInstructionSequence: { tag: '(0018,991B)', keyword: 'PatientPositioningInstructionSequence', vr: 'SQ', vm: [1, 1] },
+    PositioningMethodCodeSequence: { tag: '(0018,991C)', keyword: 'PositioningMethodCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PositioningLandmarkSequence: { tag: '(0018,991D)', keyword: 'PositioningLandmarkSequence', vr: 'SQ', vm: [1, 1] },
+    TargetFrameOfReferenceUID: { tag: '(0018,991E)', keyword: 'TargetFrameOfReferenceUID', vr: 'UI', vm: [1, 1] },
+    AcquisitionProtocolElementSpecificationSequence: { tag: '(0018,991F)', keyword: 'AcquisitionProtocolElementSpecificationSequence', vr: 'SQ', vm: [1, 1] },
+    AcquisitionProtocolElementSequence: { tag: '(0018,9920)', keyword: 'AcquisitionProtocolElementSequence', vr: 'SQ', vm: [1, 1] },
+    ProtocolElementNumber: { tag: '(0018,9921)', keyword: 'ProtocolElementNumber', vr: 'US', vm: [1, 1] },
+    ProtocolElementName: { tag: '(0018,9922)', keyword: 'ProtocolElementName', vr: 'LO', vm: [1, 1] },
+    ProtocolElementCharacteristicsSummary: { tag: '(0018,9923)', keyword: 'ProtocolElementCharacteristicsSummary', vr: 'UT', vm: [1, 1] },
+    ProtocolElementPurpose: { tag: '(0018,9924)', keyword: 'ProtocolElementPurpose', vr: 'UT', vm: [1, 1] },
+    AcquisitionMotion: { tag: '(0018,9930)', keyword: 'AcquisitionMotion', vr: 'CS', vm: [1, 1] },
+    AcquisitionStartLocationSequence: { tag: '(0018,9931)', keyword: 'AcquisitionStartLocationSequence', vr: 'SQ', vm: [1, 1] },
+    AcquisitionEndLocationSequence: { tag: '(0018,9932)', keyword: 'AcquisitionEndLocationSequence', vr: 'SQ', vm: [1, 1] },
+    ReconstructionProtocolElementSpecificationSequence: {
+        tag: '(0018,9933)',
+        keyword: 'ReconstructionProtocolElementSpecificationSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    ReconstructionProtocolElementSequence: { tag: '(0018,9934)', keyword: 'ReconstructionProtocolElementSequence', vr: 'SQ', vm: [1, 1] },
+    StorageProtocolElementSpecificationSequence: { tag: '(0018,9935)', keyword: 'StorageProtocolElementSpecificationSequence', vr: 'SQ', vm: [1, 1] },
+    StorageProtocolElementSequence: { tag: '(0018,9936)', keyword: 'StorageProtocolElementSequence', vr: 'SQ', vm: [1, 1] },
+    RequestedSeriesDescription: { tag: '(0018,9937)', keyword: 'RequestedSeriesDescription', vr: 'LO', vm: [1, 1] },
+    SourceAcquisitionProtocolElementNumber: { tag: '(0018,9938)', keyword: 'SourceAcquisitionProtocolElementNumber', vr: 'US', vm: [1, null] },
+    SourceAcquisitionBeamNumber: { tag: '(0018,9939)', keyword: 'SourceAcquisitionBeamNumber', vr: 'US', vm: [1, null] },
+    SourceReconstructionProtocolElementNumber: { tag: '(0018,993A)', keyword: 'SourceReconstructionProtocolElementNumber', vr: 'US', vm: [1, null] },
+    ReconstructionStartLocationSequence: { tag: '(0018,993B)', keyword: 'ReconstructionStartLocationSequence', vr: 'SQ', vm: [1, 1] },
+    ReconstructionEndLocationSequence: { tag: '(0018,993C)', keyword: 'ReconstructionEndLocationSequence', vr: 'SQ', vm: [1, 1] },
+    ReconstructionAlgorithmSequence: { tag: '(0018,993D)', keyword: 'ReconstructionAlgorithmSequence', vr: 'SQ', vm: [1, 1] },
+    ReconstructionTargetCenterLocationSequence: { tag: '(0018,993E)', keyword: 'ReconstructionTargetCenterLocationSequence', vr: 'SQ', vm: [1, 1] },
+    ImageFilterDescription: { tag: '(0018,9941)', keyword: 'ImageFilterDescription', vr: 'UT', vm: [1, 1] },
+    CTDIvolNotificationTrigger: { tag: '(0018,9942)', keyword: 'CTDIvolNotificationTrigger', vr: 'FD', vm: [1, 1] },
+    DLPNotificationTrigger: { tag: '(0018,9943)', keyword: 'DLPNotificationTrigger', vr: 'FD', vm: [1, 1] },
+    AutoKVPSelectionType: { tag: '(0018,9944)', keyword: 'AutoKVPSelectionType', vr: 'CS', vm: [1, 1] },
+    AutoKVPUpperBound: { tag: '(0018,9945)', keyword: 'AutoKVPUpperBound', vr: 'FD', vm: [1, 1] },
+    AutoKVPLowerBound: { tag: '(0018,9946)', keyword: 'AutoKVPLowerBound', vr: 'FD', vm: [1, 1] },
+    ProtocolDefinedPatientPosition: { tag: '(0018,9947)', keyword: 'ProtocolDefinedPatientPosition', vr: 'CS', vm: [1, 1] },
+    ContributingEquipmentSequence: { tag: '(0018,A001)', keyword: 'ContributingEquipmentSequence', vr: 'SQ', vm: [1, 1] },
+    ContributionDateTime: { tag: '(0018,A002)', keyword: 'ContributionDateTime', vr: 'DT', vm: [1, 1] },
+    ContributionDescription: { tag: '(0018,A003)', keyword: 'ContributionDescription', vr: 'ST', vm: [1, 1] },
+    StudyInstanceUID: { tag: '(0020,000D)', keyword: 'StudyInstanceUID', vr: 'UI', vm: [1, 1] },
+    SeriesInstanceUID: { tag: '(0020,000E)', keyword: 'SeriesInstanceUID', vr: 'UI', vm: [1, 1] },
+    StudyID: { tag: '(0020,0010)', keyword: 'StudyID', vr: 'SH', vm: [1, 1] },
+    SeriesNumber: { tag: '(0020,0011)', keyword: 'SeriesNumber', vr: 'IS', vm: [1, 1] },
+    AcquisitionNumber: { tag: '(0020,0012)', keyword: 'AcquisitionNumber', vr: 'IS', vm: [1, 1] },
+    InstanceNumber: { tag: '(0020,0013)', keyword: 'InstanceNumber', vr: 'IS', vm: [1, 1] },
+    RETIRED_IsotopeNumber: { tag: '(0020,0014)', keyword: 'RETIRED_IsotopeNumber', vr: 'IS', vm: [1, 1] },
+    RETIRED_PhaseNumber: { tag: '(0020,0015)', keyword: 'RETIRED_PhaseNumber', vr: 'IS', vm: [1, 1] },
+    RETIRED_IntervalNumber: { tag: '(0020,0016)', keyword: 'RETIRED_IntervalNumber', vr: 'IS', vm: [1, 1] },
+    RETIRED_TimeSlotNumber: { tag: '(0020,0017)', keyword: 'RETIRED_TimeSlotNumber', vr: 'IS', vm: [1, 1] },
+    RETIRED_AngleNumber: { tag: '(0020,0018)', keyword: 'RETIRED_AngleNumber', vr: 'IS', vm: [1, 1] },
+    ItemNumber: { tag: '(0020,0019)', keyword: 'ItemNumber', vr: 'IS', vm: [1, 1] },
+    PatientOrientation: { tag: '(0020,0020)', keyword: 'PatientOrientation', vr: 'CS', vm: [2, 2] },
+    RETIRED_OverlayNumber: { tag: '(0020,0022)', keyword: 'RETIRED_OverlayNumber', vr: 'IS', vm: [1, 1] },
+    RETIRED_CurveNumber: { tag: '(0020,0024)', keyword: 'RETIRED_CurveNumber', vr: 'IS', vm: [1, 1] },
+    RETIRED_LUTNumber: { tag: '(0020,0026)', keyword: 'RETIRED_LUTNumber', vr: 'IS', vm: [1, 1] },
+    RETIRED_ImagePosition: { tag: '(0020,0030)', keyword: 'RETIRED_ImagePosition', vr: 'DS', vm: [3, 3] },
+    ImagePositionPatient: { tag: '(0020,0032)', keyword: 'ImagePositionPatient', vr: 'DS', vm: [3, 3] },
+    RETIRED_ImageOrientation: { tag: '(0020,0035)', keyword: 'RETIRED_ImageOrientation', vr: 'DS', vm: [6, 6] },
+    ImageOrientationPatient: { tag: '(0020,0037)', keyword: 'ImageOrientationPatient', vr: 'DS', vm: [6, 6] },
+    RETIRED_Location: { tag: '(0020,0050)', keyword: 'RETIRED_Location', vr: 'DS', vm: [1, 1] },
+    FrameOfReferenceUID: { tag: '(0020,0052)', keyword: 'FrameOfReferenceUID', vr: 'UI', vm: [1, 1] },
+    Laterality: { tag: '(0020,0060)', keyword: 'Laterality', vr: 'CS', vm: [1, 1] },
+    ImageLaterality: { tag: '(0020,0062)', keyword: 'ImageLaterality', vr: 'CS', vm: [1, 1] },
+    RETIRED_ImageGeometryType: { tag: '(0020,0070)', keyword: 'RETIRED_ImageGeometryType', vr: 'LO', vm: [1, 1] },
+    RETIRED_MaskingImage: { tag: '(0020,0080)', keyword: 'RETIRED_MaskingImage', vr: 'CS', vm: [1, null] },
+    RETIRED_ReportNumber: { tag: '(0020,00AA)', keyword: 'RETIRED_ReportNumber', vr: 'IS', vm: [1, 1] },
+    TemporalPositionIdentifier: { tag: '(0020,0100)', keyword: 'TemporalPositionIdentifier', vr: 'IS', vm: [1, 1] },
+    NumberOfTemporalPositions: { tag: '(0020,0105)', keyword: 'NumberOfTemporalPositions', vr: 'IS', vm: [1, 1] },
+    TemporalResolution: { tag: '(0020,0110)', keyword: 'TemporalResolution', vr: 'DS', vm: [1, 1] },
+    SynchronizationFrameOfReferenceUID: { tag: '(0020,0200)', keyword: 'SynchronizationFrameOfReferenceUID', vr: 'UI', vm: [1, 1] },
+    SOPInstanceUIDOfConcatenationSource: { tag: '(0020,0242)', keyword: 'SOPInstanceUIDOfConcatenationSource', vr: 'UI', vm: [1, 1] },
+    RETIRED_SeriesInStudy: { tag: '(0020,1000)', keyword: 'RETIRED_SeriesInStudy', vr: 'IS', vm: [1, 1] },
+    RETIRED_AcquisitionsInSeries: { tag: '(0020,1001)', keyword: 'RETIRED_AcquisitionsInSeries', vr: 'IS', vm: [1, 1] },
+    ImagesInAcquisition: { tag: '(0020,1002)', keyword: 'ImagesInAcquisition', vr: 'IS', vm: [1, 1] },
+    RETIRED_ImagesInSeries: { tag: '(0020,1003)', keyword: 'RETIRED_ImagesInSeries', vr: 'IS', vm: [1, 1] },
+    RETIRED_AcquisitionsInStudy: { tag: '(0020,1004)', keyword: 'RETIRED_AcquisitionsInStudy', vr: 'IS', vm: [1, 1] },
+    RETIRED_ImagesInStudy: { tag: '(0020,1005)', keyword: 'RETIRED_ImagesInStudy', vr: 'IS', vm: [1, 1] },
+    RETIRED_Reference: { tag: '(0020,1020)', keyword: 'RETIRED_Reference', vr: 'LO', vm: [1, null] },
+    TargetPositionReferenceIndicator: { tag: '(0020,103F)', keyword: 'TargetPositionReferenceIndicator', vr: 'LO', vm: [1, 1] },
+    PositionReferenceIndicator: { tag: '(0020,1040)', keyword: 'PositionReferenceIndicator', vr: 'LO', vm: [1, 1] },
+    SliceLocation: { tag: '(0020,1041)', keyword: 'SliceLocation', vr: 'DS', vm: [1, 1] },
+    RETIRED_OtherStudyNumbers: { tag: '(0020,1070)', keyword: 'RETIRED_OtherStudyNumbers', vr: 'IS', vm: [1, null] },
+    NumberOfPatientRelatedStudies: { tag: '(0020,1200)', keyword: 'NumberOfPatientRelatedStudies', vr: 'IS', vm: [1, 1] },
+    NumberOfPatientRelatedSeries: { tag: '(0020,1202)', keyword: 'NumberOfPatientRelatedSeries', vr: 'IS', vm: [1, 1] },
+    NumberOfPatientRelatedInstances: { tag: '(0020,1204)', keyword: 'NumberOfPatientRelatedInstances', vr: 'IS', vm: [1, 1] },
+    NumberOfStudyRelatedSeries: { tag: '(0020,1206)', keyword: 'NumberOfStudyRelatedSeries', vr: 'IS', vm: [1, 1] },
+    NumberOfStudyRelatedInstances: { tag: '(0020,1208)', keyword: 'NumberOfStudyRelatedInstances', vr: 'IS', vm: [1, 1] },
+    NumberOfSeriesRelatedInstances: { tag: '(0020,1209)', keyword: 'NumberOfSeriesRelatedInstances', vr: 'IS', vm: [1, 1] },
+    RETIRED_SourceImageIDs: { tag: '(0020,3100)', keyword: 'RETIRED_SourceImageIDs', vr: 'CS', vm: [1, null] },
+    RETIRED_ModifyingDeviceID: { tag: '(0020,3401)', keyword: 'RETIRED_ModifyingDeviceID', vr: 'CS', vm: [1, 1] },
+    RETIRED_ModifiedImageID: { tag: '(0020,3402)', keyword: 'RETIRED_ModifiedImageID', vr: 'CS', vm: [1, 1] },
+    RETIRED_ModifiedImageDate: { tag: '(0020,3403)', keyword: 'RETIRED_ModifiedImageDate', vr: 'DA', vm: [1, 1] },
+    RETIRED_ModifyingDeviceManufacturer: { tag: '(0020,3404)', keyword: 'RETIRED_ModifyingDeviceManufacturer', vr: 'LO', vm: [1, 1] },
+    RETIRED_ModifiedImageTime: { tag: '(0020,3405)', keyword: 'RETIRED_ModifiedImageTime', vr: 'TM', vm: [1, 1] },
+    RETIRED_ModifiedImageDescription: { tag: '(0020,3406)', keyword: 'RETIRED_ModifiedImageDescription', vr: 'LO', vm: [1, 1] },
+    ImageComments: { tag: '(0020,4000)', keyword: 'ImageComments', vr: 'LT', vm: [1, 1] },
+    RETIRED_OriginalImageIdentification: { tag: '(0020,5000)', keyword: 'RETIRED_OriginalImageIdentification', vr: 'AT', vm: [1, null] },
+    RETIRED_OriginalImageIdentificationNomenclature: {
+        tag: '(0020,5002)',
+        keyword: 'RETIRED_OriginalImageIdentificationNomenclature',
+        vr: 'LO',
+        vm: [1, null],
+    },
+    StackID: { tag: '(0020,9056)', keyword: 'StackID', vr: 'SH', vm: [1, 1] },
+    InStackPositionNumber: { tag: '(0020,9057)', keyword: 'InStackPositionNumber', vr: 'UL', vm: [1, 1] },
+    FrameAnatomySequence: { tag: '(0020,9071)', keyword: 'FrameAnatomySequence', vr: 'SQ', vm: [1, 1] },
+    FrameLaterality: { tag: '(0020,9072)', keyword: 'FrameLaterality', vr: 'CS', vm: [1, 1] },
+    FrameContentSequence: { tag: '(0020,9111)', keyword: 'FrameContentSequence', vr: 'SQ', vm: [1, 1] },
+    PlanePositionSequence: { tag: '(0020,9113)', keyword: 'PlanePositionSequence', vr: 'SQ', vm: [1, 1] },
+    PlaneOrientationSequence: { tag: '(0020,9116)', keyword: 'PlaneOrientationSequence', vr: 'SQ', vm: [1, 1] },
+    TemporalPositionIndex: { tag: '(0020,9128)', keyword: 'TemporalPositionIndex', vr: 'UL', vm: [1, 1] },
+    NominalCardiacTriggerDelayTime: { tag: '(0020,9153)', keyword: 'NominalCardiacTriggerDelayTime', vr: 'FD', vm: [1, 1] },
+    NominalCardiacTriggerTimePriorToRPeak: { tag: '(0020,9154)', keyword: 'NominalCardiacTriggerTimePriorToRPeak', vr: 'FL', vm: [1, 1] },
+    ActualCardiacTriggerTimePriorToRPeak: { tag: '(0020,9155)', keyword: 'ActualCardiacTriggerTimePriorToRPeak', vr: 'FL', vm: [1, 1] },
+    FrameAcquisitionNumber: { tag: '(0020,9156)', keyword: 'FrameAcquisitionNumber', vr: 'US', vm: [1, 1] },
+    DimensionIndexValues: { tag: '(0020,9157)', keyword: 'DimensionIndexValues', vr: 'UL', vm: [1, null] },
+    FrameComments: { tag: '(0020,9158)', keyword: 'FrameComments', vr: 'LT', vm: [1, 1] },
+    ConcatenationUID: { tag: '(0020,9161)', keyword: 'ConcatenationUID', vr: 'UI', vm: [1, 1] },
+    InConcatenationNumber: { tag: '(0020,9162)', keyword: 'InConcatenationNumber', vr: 'US', vm: [1, 1] },
+    InConcatenationTotalNumber: { tag: '(0020,9163)', keyword: 'InConcatenationTotalNumber', vr: 'US', vm: [1, 1] },
+    DimensionOrganizationUID: { tag: '(0020,9164)', keyword: 'DimensionOrganizationUID', vr: 'UI', vm: [1, 1] },
+    DimensionIndexPointer: { tag: '(0020,9165)', keyword: 'DimensionIndexPointer', vr: 'AT', vm: [1, 1] },
+    FunctionalGroupPointer: { tag: '(0020,9167)', keyword: 'FunctionalGroupPointer', vr: 'AT', vm: [1, 1] },
+    UnassignedSharedConvertedAttributesSequence: { tag: '(0020,9170)', keyword: 'UnassignedSharedConvertedAttributesSequence', vr: 'SQ', vm: [1, 1] },
+    UnassignedPerFrameConvertedAttributesSequence: { tag: '(0020,9171)', keyword: 'UnassignedPerFrameConvertedAttributesSequence', vr: 'SQ', vm: [1, 1] },
+    ConversionSourceAttributesSequence: { tag: '(0020,9172)', keyword: 'ConversionSourceAttributesSequence', vr: 'SQ', vm: [1, 1] },
+    DimensionIndexPrivateCreator: { tag: '(0020,9213)', keyword: 'DimensionIndexPrivateCreator', vr: 'LO', vm: [1, 1] },
+    DimensionOrganizationSequence: { tag: '(0020,9221)', keyword: 'DimensionOrganizationSequence', vr: 'SQ', vm: [1, 1] },
+    DimensionIndexSequence: { tag: '(0020,9222)', keyword: 'DimensionIndexSequence', vr: 'SQ', vm: [1, 1] },
+    ConcatenationFrameOffsetNumber: { tag: '(0020,9228)', keyword: 'ConcatenationFrameOffsetNumber', vr: 'UL', vm: [1, 1] },
+    FunctionalGroupPrivateCreator: { tag: '(0020,9238)', keyword: 'FunctionalGroupPrivateCreator', vr: 'LO', vm: [1, 1] },
+    NominalPercentageOfCardiacPhase: { tag: '(0020,9241)', keyword: 'NominalPercentageOfCardiacPhase', vr: 'FL', vm: [1, 1] },
+    NominalPercentageOfRespiratoryPhase: { tag: '(0020,9245)', keyword: 'NominalPercentageOfRespiratoryPhase', vr: 'FL', vm: [1, 1] },
+    StartingRespiratoryAmplitude: { tag: '(0020,9246)', keyword: 'StartingRespiratoryAmplitude', vr: 'FL', vm: [1, 1] },
+    StartingRespiratoryPhase: { tag: '(0020,9247)', keyword: 'StartingRespiratoryPhase', vr: 'CS', vm: [1, 1] },
+    EndingRespiratoryAmplitude: { tag: '(0020,9248)', keyword: 'EndingRespiratoryAmplitude', vr: 'FL', vm: [1, 1] },
+    EndingRespiratoryPhase: { tag: '(0020,9249)', keyword: 'EndingRespiratoryPhase', vr: 'CS', vm: [1, 1] },
+    RespiratoryTriggerType: { tag: '(0020,9250)', keyword: 'RespiratoryTriggerType', vr: 'CS', vm: [1, 1] },
+    RRIntervalTimeNominal: { tag: '(0020,9251)', keyword: 'RRIntervalTimeNominal', vr: 'FD', vm: [1, 1] },
+    ActualCardiacTriggerDelayTime: { tag: '(0020,9252)', keyword: 'ActualCardiacTriggerDelayTime', vr: 'FD', vm: [1, 1] },
+    RespiratorySynchronizationSequence: { tag: '(0020,9253)', keyword: 'RespiratorySynchronizationSequence', vr: 'SQ', vm: [1, 1] },
+    RespiratoryIntervalTime: { tag: '(0020,9254)', keyword: 'RespiratoryIntervalTime', vr: 'FD', vm: [1, 1] },
+    NominalRespiratoryTriggerDelayTime: { tag: '(0020,9255)', keyword: 'NominalRespiratoryTriggerDelayTime', vr: 'FD', vm: [1, 1] },
+    RespiratoryTriggerDelayThreshold: { tag: '(0020,9256)', keyword: 'RespiratoryTriggerDelayThreshold', vr: 'FD', vm: [1, 1] },
+    ActualRespiratoryTriggerDelayTime: { tag: '(0020,9257)', keyword: 'ActualRespiratoryTriggerDelayTime', vr: 'FD', vm: [1, 1] },
+    ImagePositionVolume: { tag: '(0020,9301)', keyword: 'ImagePositionVolume', vr: 'FD', vm: [3, 3] },
+    ImageOrientationVolume: { tag: '(0020,9302)', keyword: 'ImageOrientationVolume', vr: 'FD', vm: [6, 6] },
+    UltrasoundAcquisitionGeometry: { tag: '(0020,9307)', keyword: 'UltrasoundAcquisitionGeometry', vr: 'CS', vm: [1, 1] },
+    ApexPosition: { tag: '(0020,9308)', keyword: 'ApexPosition', vr: 'FD', vm: [3, 3] },
+    VolumeToTransducerMappingMatrix: { tag: '(0020,9309)', keyword: 'VolumeToTransducerMappingMatrix', vr: 'FD', vm: [22, 22] },
+    VolumeToTableMappingMatrix: { tag: '(0020,930A)', keyword: 'VolumeToTableMappingMatrix', vr: 'FD', vm: [22, 22] },
+    VolumeToTransducerRelationship: { tag: '(0020,930B)', keyword: 'VolumeToTransducerRelationship', vr: 'CS', vm: [1, 1] },
+    PatientFrameOfReferenceSource: { tag: '(0020,930C)', keyword: 'PatientFrameOfReferenceSource', vr: 'CS', vm: [1, 1] },
+    TemporalPositionTimeOffset: { tag: '(0020,930D)', keyword: 'TemporalPositionTimeOffset', vr: 'FD', vm: [1, 1] },
+    PlanePositionVolumeSequence: { tag: '(0020,930E)', keyword: 'PlanePositionVolumeSequence', vr: 'SQ', vm: [1, 1] },
+    PlaneOrientationVolumeSequence: { tag: '(0020,930F)', keyword: 'PlaneOrientationVolumeSequence', vr: 'SQ', vm: [1, 1] },
+    TemporalPositionSequence: { tag: '(0020,9310)', keyword: 'TemporalPositionSequence', vr: 'SQ', vm: [1, 1] },
+    DimensionOrganizationType: { tag: '(0020,9311)', keyword: 'DimensionOrganizationType', vr: 'CS', vm: [1, 1] },
+    VolumeFrameOfReferenceUID: { tag: '(0020,9312)', keyword: 'VolumeFrameOfReferenceUID', vr: 'UI', vm: [1, 1] },
+    TableFrameOfReferenceUID: { tag: '(0020,9313)', keyword: 'TableFrameOfReferenceUID', vr: 'UI', vm: [1, 1] },
+    DimensionDescriptionLabel: { tag: '(0020,9421)', keyword: 'DimensionDescriptionLabel', vr: 'LO', vm: [1, 1] },
+    PatientOrientationInFrameSequence: { tag: '(0020,9450)', keyword: 'PatientOrientationInFrameSequence', vr: 'SQ', vm: [1, 1] },
+    FrameLabel: { tag: '(0020,9453)', keyword: 'FrameLabel', vr: 'LO', vm: [1, 1] },
+    AcquisitionIndex: { tag: '(0020,9518)', keyword: 'AcquisitionIndex', vr: 'US', vm: [1, null] },
+    ContributingSOPInstancesReferenceSequence: { tag: '(0020,9529)', keyword: 'ContributingSOPInstancesReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    ReconstructionIndex: { tag: '(0020,9536)', keyword: 'ReconstructionIndex', vr: 'US', vm: [1, 1] },
+    LightPathFilterPassThroughWavelength: { tag: '(0022,0001)', keyword: 'LightPathFilterPassThroughWavelength', vr: 'US', vm: [1, 1] },
+    LightPathFilterPassBand: { tag: '(0022,0002)', keyword: 'LightPathFilterPassBand', vr: 'US', vm: [2, 2] },
+    ImagePathFilterPassThroughWavelength: { tag: '(0022,0003)', keyword: 'ImagePathFilterPassThroughWavelength', vr: 'US', vm: [1, 1] },
+    ImagePathFilterPassBand: { tag: '(0022,0004)', keyword: 'ImagePathFilterPassBand', vr: 'US', vm: [2, 2] },
+    PatientEyeMovementCommanded: { tag: '(0022,0005)', keyword: 'PatientEyeMovementCommanded', vr: 'CS', vm: [1, 1] },
+    PatientEyeMovementCommandCodeSequence: { tag: '(0022,0006)', keyword: 'PatientEyeMovementCommandCodeSequence', vr: 'SQ', vm: [1, 1] },
+    SphericalLensPower: { tag: '(0022,0007)', keyword: 'SphericalLensPower', vr: 'FL', vm: [1, 1] },
+    CylinderLensPower: { tag: '(0022,0008)', keyword: 'CylinderLensPower', vr: 'FL', vm: [1, 1] },
+    CylinderAxis: { tag: '(0022,0009)', keyword: 'CylinderAxis', vr: 'FL', vm: [1, 1] },
+    EmmetropicMagnification: { tag: '(0022,000A)', keyword: 'EmmetropicMagnification', vr: 'FL', vm: [1, 1] },
+    IntraOcularPressure: { tag: '(0022,000B)', keyword: 'IntraOcularPressure', vr: 'FL', vm: [1, 1] },
+    HorizontalFieldOfView: { tag: '(0022,000C)', keyword: 'HorizontalFieldOfView', vr: 'FL', vm: [1, 1] },
+    PupilDilated: { tag: '(0022,000D)', keyword: 'PupilDilated', vr: 'CS', vm: [1, 1] },
+    DegreeOfDilation: { tag: '(0022,000E)', keyword: 'DegreeOfDilation', vr: 'FL', vm: [1, 1] },
+    StereoBaselineAngle: { tag: '(0022,0010)', keyword: 'StereoBaselineAngle', vr: 'FL', vm: [1, 1] },
+    StereoBaselineDisplacement: { tag: '(0022,0011)', keyword: 'StereoBaselineDisplacement', vr: 'FL', vm: [1, 1] },
+    StereoHorizontalPixelOffset: { tag: '(0022,0012)', keyword: 'StereoHorizontalPixelOffset', vr: 'FL', vm: [1, 1] },
+    StereoVerticalPixelOffset: { tag: '(0022,0013)', keyword: 'StereoVerticalPixelOffset', vr: 'FL', vm: [1, 1] },
+    StereoRotation: { tag: '(0022,0014)', keyword: 'StereoRotation', vr: 'FL', vm: [1, 1] },
+    AcquisitionDeviceTypeCodeSequence: { tag: '(0022,0015)', keyword: 'AcquisitionDeviceTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    IlluminationTypeCodeSequence: { tag: '(0022,0016)', keyword: 'IlluminationTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    LightPathFilterTypeStackCodeSequence: { tag: '(0022,0017)', keyword: 'LightPathFilterTypeStackCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ImagePathFilterTypeStackCodeSequence: { tag: '(0022,0018)', keyword: 'ImagePathFilterTypeStackCodeSequence', vr: 'SQ', vm: [1, 1] },
+    LensesCodeSequence: { tag: '(0022,0019)', keyword: 'LensesCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ChannelDescriptionCodeSequence: { tag: '(0022,001A)', keyword: 'ChannelDescriptionCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RefractiveStateSequence: { tag: '(0022,001B)', keyword: 'RefractiveStateSequence', vr: 'SQ', vm: [1, 1] },
+    MydriaticAgentCodeSequence: { tag: '(0022,001C)', keyword: 'MydriaticAgentCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RelativeImagePositionCodeSequence: { tag: '(0022,001D)', keyword: 'RelativeImagePositionCodeSequence', vr: 'SQ', vm: [1, 1] },
+    CameraAngleOfView: { tag: '(0022,001E)', keyword: 'CameraAngleOfView', vr: 'FL', vm: [1, 1] },
+    StereoPairsSequence: { tag: '(0022,0020)', keyword: 'StereoPairsSequence', vr: 'SQ', vm: [1, 1] },
+    LeftImageSequence: { tag: '(0022,0021)', keyword: 'LeftImageSequence', vr: 'SQ', vm: [1, 1] },
+    RightImageSequence: { tag: '(0022,0022)', keyword: 'RightImageSequence', vr: 'SQ', vm: [1, 1] },
+    StereoPairsPresent: { tag: '(0022,0028)', keyword: 'StereoPairsPresent', vr: 'CS', vm: [1, 1] },
+    AxialLengthOfTheEye: { tag: '(0022,0030)', keyword: 'AxialLengthOfTheEye', vr: 'FL', vm: [1, 1] },
+    OphthalmicFrameLocationSequence: { tag: '(0022,0031)', keyword: 'OphthalmicFrameLocationSequence', vr: 'SQ', vm: [1, 1] },
+    ReferenceCoordinates: { tag: '(0022,0032)', keyword: 'ReferenceCoordinates', vr: 'FL', vm: [2, 2] },
+    DepthSpatialResolution: { tag: '(0022,0035)', keyword: 'DepthSpatialResolution', vr: 'FL', vm: [1, 1] },
+    MaximumDepthDistortion: { tag: '(0022,0036)', keyword: 'MaximumDepthDistortion', vr: 'FL', vm: [1, 1] },
+    AlongScanSpatialResolution: { tag: '(0022,0037)', keyword: 'AlongScanSpatialResolution', vr: 'FL', vm: [1, 1] },
+    MaximumAlongScanDistortion: { tag: '(0022,0038)', keyword: 'MaximumAlongScanDistortion', vr: 'FL', vm: [1, 1] },
+    OphthalmicImageOrientation: { tag: '(0022,0039)', keyword: 'OphthalmicImageOrientation', vr: 'CS', vm: [1, 1] },
+    DepthOfTransverseImage: { tag: '(0022,0041)', keyword: 'DepthOfTransverseImage', vr: 'FL', vm: [1, 1] },
+    MydriaticAgentConcentrationUnitsSequence: { tag: '(0022,0042)', keyword: 'MydriaticAgentConcentrationUnitsSequence', vr: 'SQ', vm: [1, 1] },
+    AcrossScanSpatialResolution: { tag: '(0022,0048)', keyword: 'AcrossScanSpatialResolution', vr: 'FL', vm: [1, 1] },
+    MaximumAcrossScanDistortion: { tag: '(0022,0049)', keyword: 'MaximumAcrossScanDistortion', vr: 'FL', vm: [1, 1] },
+    MydriaticAgentConcentration: { tag: '(0022,004E)', keyword: 'MydriaticAgentConcentration', vr: 'DS', vm: [1, 1] },
+    IlluminationWaveLength: { tag: '(0022,0055)', keyword: 'IlluminationWaveLength', vr: 'FL', vm: [1, 1] },
+    IlluminationPower: { tag: '(0022,0056)', keyword: 'IlluminationPower', vr: 'FL', vm: [1, 1] },
+    IlluminationBandwidth: { tag: '(0022,0057)', keyword: 'IlluminationBandwidth', vr: 'FL', vm: [1, 1] },
+    MydriaticAgentSequence: { tag: '(0022,0058)', keyword: 'MydriaticAgentSequence', vr: 'SQ', vm: [1, 1] },
+    OphthalmicAxialMeasurementsRightEyeSequence: { tag: '(0022,1007)', keyword: 'OphthalmicAxialMeasurementsRightEyeSequence', vr: 'SQ', vm: [1, 1] },
+    OphthalmicAxialMeasurementsLeftEyeSequence: { tag: '(0022,1008)', keyword: 'OphthalmicAxialMeasurementsLeftEyeSequence', vr: 'SQ', vm: [1, 1] },
+    OphthalmicAxialMeasurementsDeviceType: { tag: '(0022,1009)', keyword: 'OphthalmicAxialMeasurementsDeviceType', vr: 'CS', vm: [1, 1] },
+    OphthalmicAxialLengthMeasurementsType: { tag: '(0022,1010)', keyword: 'OphthalmicAxialLengthMeasurementsType', vr: 'CS', vm: [1, 1] },
+    OphthalmicAxialLengthSequence: { tag: '(0022,1012)', keyword: 'OphthalmicAxialLengthSequence', vr: 'SQ', vm: [1, 1] },
+    OphthalmicAxialLength: { tag: '(0022,1019)', keyword: 'OphthalmicAxialLength', vr: 'FL', vm: [1, 1] },
+    LensStatusCodeSequence: { tag: '(0022,1024)', keyword: 'LensStatusCodeSequence', vr: 'SQ', vm: [1, 1] },
+    VitreousStatusCodeSequence: { tag: '(0022,1025)', keyword: 'VitreousStatusCodeSequence', vr: 'SQ', vm: [1, 1] },
+    IOLFormulaCodeSequence: { tag: '(0022,1028)', keyword: 'IOLFormulaCodeSequence', vr: 'SQ', vm: [1, 1] },
+    IOLFormulaDetail: { tag: '(0022,1029)', keyword: 'IOLFormulaDetail', vr: 'LO', vm: [1, 1] },
+    KeratometerIndex: { tag: '(0022,1033)', keyword: 'KeratometerIndex', vr: 'FL', vm: [1, 1] },
+    SourceOfOphthalmicAxialLengthCodeSequence: { tag: '(0022,1035)', keyword: 'SourceOfOphthalmicAxialLengthCodeSequence', vr: 'SQ', vm: [1, 1] },
+    SourceOfCornealSizeDataCodeSequence: { tag: '(0022,1036)', keyword: 'SourceOfCornealSizeDataCodeSequence', vr: 'SQ', vm: [1, 1] },
+    TargetRefraction: { tag: '(0022,1037)', keyword: 'TargetRefraction', vr: 'FL', vm: [1, 1] },
+    RefractiveProcedureOccurred: { tag: '(0022,1039)', keyword: 'RefractiveProcedureOccurred', vr: 'CS', vm: [1, 1] },
+    RefractiveSurgeryTypeCodeSequence: { tag: '(0022,1040)', keyword: 'RefractiveSurgeryTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    OphthalmicUltrasoundMethodCodeSequence: { tag: '(0022,1044)', keyword: 'OphthalmicUltrasoundMethodCodeSequence', vr: 'SQ', vm: [1, 1] },
+    SurgicallyInducedAstigmatismSequence: { tag: '(0022,1045)', keyword: 'SurgicallyInducedAstigmatismSequence', vr: 'SQ', vm: [1, 1] },
+    TypeOfOpticalCorrection: { tag: '(0022,1046)', keyword: 'TypeOfOpticalCorrection', vr: 'CS', vm: [1, 1] },
+    ToricIOLPowerSequence: { tag: '(0022,1047)', keyword: 'ToricIOLPowerSequence', vr: 'SQ', vm: [1, 1] },
+    PredictedToricErrorSequence: { tag: '(0022,1048)', keyword: 'PredictedToricErrorSequence', vr: 'SQ', vm: [1, 1] },
+    PreSelectedForImplantation: { tag: '(0022,1049)', keyword: 'PreSelectedForImplantation', vr: 'CS', vm: [1, 1] },
+    ToricIOLPowerForExactEmmetropiaSequence: { tag: '(0022,104A)', keyword: 'ToricIOLPowerForExactEmmetropiaSequence', vr: 'SQ', vm: [1, 1] },
+    ToricIOLPowerForExactTargetRefractionSequence: { tag: '(0022,104B)', keyword: 'ToricIOLPowerForExactTargetRefractionSequence', vr: 'SQ', vm: [1, 1] },
+    OphthalmicAxialLengthMeasurementsSequence: { tag: '(0022,1050)', keyword: 'OphthalmicAxialLengthMeasurementsSequence', vr: 'SQ', vm: [1, 1] },
+    IOLPower: { tag: '(0022,1053)', keyword: 'IOLPower', vr: 'FL', vm: [1, 1] },
+    PredictedRefractiveError: { tag: '(0022,1054)', keyword: 'PredictedRefractiveError', vr: 'FL', vm: [1, 1] },
+    OphthalmicAxialLengthVelocity: { tag: '(0022,1059)', keyword: 'OphthalmicAxialLengthVelocity', vr: 'FL', vm: [1, 1] },
+    LensStatusDescription: { tag: '(0022,1065)', keyword: 'LensStatusDescription', vr: 'LO', vm: [1, 1] },
+    VitreousStatusDescription: { tag: '(0022,1066)', keyword: 'VitreousStatusDescription', vr: 'LO', vm: [1, 1] },
+    IOLPowerSequence: { tag: '(0022,1090)', keyword: 'IOLPowerSequence', vr: 'SQ', vm: [1, 1] },
+    LensConstantSequence: { tag: '(0022,1092)', keyword: 'LensConstantSequence', vr: 'SQ', vm: [1, 1] },
+    IOLManufacturer: { tag: '(0022,1093)', keyword: 'IOLManufacturer', vr: 'LO', vm: [1, 1] },
+    RETIRED_LensConstantDescription: { tag: '(0022,1094)', keyword: 'RETIRED_LensConstantDescription', vr: 'LO', vm: [1, 1] },
+    ImplantName: { tag: '(0022,1095)', keyword: 'ImplantName', vr: 'LO', vm: [1, 1] },
+    KeratometryMeasurementTypeCodeSequence: { tag: '(0022,1096)', keyword: 'KeratometryMeasurementTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ImplantPartNumber: { tag: '(0022,1097)', keyword: 'ImplantPartNumber', vr: 'LO', vm: [1, 1] },
+    ReferencedOphthalmicAxialMeasurementsSequence: { tag: '(0022,1100)', keyword: 'ReferencedOphthalmicAxialMeasurementsSequence', vr: 'SQ', vm: [1, 1] },
+    OphthalmicAxialLengthMeasurementsSegmentNameCodeSequence: {
+        tag: '(0022,1101)',
+        keyword: 'OphthalmicAxialLengthMeasurementsSegmentNameCodeSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    RefractiveErrorBeforeRefractiveSurgeryCodeSequence: {
+        tag: '(0022,1103)',
+        keyword: 'RefractiveErrorBeforeRefractiveSurgeryCodeSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    IOLPowerForExactEmmetropia: { tag: '(0022,1121)', keyword: 'IOLPowerForExactEmmetropia', vr: 'FL', vm: [1, 1] },
+    IOLPowerForExactTargetRefraction: { tag: '(0022,1122)', keyword: 'IOLPowerForExactTargetRefraction', vr: 'FL', vm: [1, 1] },
+    AnteriorChamberDepthDefinitionCodeSequence: { tag: '(0022,1125)', keyword: 'AnteriorChamberDepthDefinitionCodeSequence', vr: 'SQ', vm: [1, 1] },
+    LensThicknessSequence: { tag: '(0022,1127)', keyword: 'LensThicknessSequence', vr: 'SQ', vm: [1, 1] },
+    AnteriorChamberDepthSequence: { tag: '(0022,1128)', keyword: 'AnteriorChamberDepthSequence', vr: 'SQ', vm: [1, 1] },
+    CalculationCommentSequence: { tag: '(0022,112A)', keyword: 'CalculationCommentSequence', vr: 'SQ', vm: [1, 1] },
+    CalculationCommentType: { tag: '(0022,112B)', keyword: 'CalculationCommentType', vr: 'CS', vm: [1, 1] },
+    CalculationComment: { tag: '(0022,112C)', keyword: 'CalculationComment', vr: 'LT', vm: [1, 1] },
+    LensThickness: { tag: '(0022,1130)', keyword: 'LensThickness', vr: 'FL', vm: [1, 1] },
+    AnteriorChamberDepth: { tag: '(0022,1131)', keyword: 'AnteriorChamberDepth', vr: 'FL', vm: [1, 1] },
+    SourceOfLensThicknessDataCodeSequence: { tag: '(0022,1132)', keyword: 'SourceOfLensThicknessDataCodeSequence', vr: 'SQ', vm: [1, 1] },
+    SourceOfAnteriorChamberDepthDataCodeSequence: { tag: '(0022,1133)', keyword: 'SourceOfAnteriorChamberDepthDataCodeSequence', vr: 'SQ', vm: [1, 1] },
+    SourceOfRefractiveMeasurementsSequence: { tag: '(0022,1134)', keyword: 'SourceOfRefractiveMeasurementsSequence', vr: 'SQ', vm: [1, 1] },
+    SourceOfRefractiveMeasurementsCodeSequence: { tag: '(0022,1135)', keyword: 'SourceOfRefractiveMeasurementsCodeSequence', vr: 'SQ', vm: [1, 1] },
+    OphthalmicAxialLengthMeasurementModified: { tag: '(0022,1140)', keyword: 'OphthalmicAxialLengthMeasurementModified', vr: 'CS', vm: [1, 1] },
+    OphthalmicAxialLengthDataSourceCodeSequence: { tag: '(0022,1150)', keyword: 'OphthalmicAxialLengthDataSourceCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_OphthalmicAxialLengthAcquisitionMethodCodeSequence: {
+        tag: '(0022,1153)',
+        keyword: 'RETIRED_OphthalmicAxialLengthAcquisitionMethodCodeSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    SignalToNoiseRatio: { tag: '(0022,1155)', keyword: 'SignalToNoiseRatio', vr: 'FL', vm: [1, 1] },
+    OphthalmicAxialLengthDataSourceDescription: { tag: '(0022,1159)', keyword: 'OphthalmicAxialLengthDataSourceDescription', vr: 'LO', vm: [1, 1] },
+    OphthalmicAxialLengthMeasurementsTotalLengthSequence: {
+        tag: '(0022,1210)',
+        keyword: 'OphthalmicAxialLengthMeasurementsTotalLengthSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    OphthalmicAxialLengthMeasurementsSegmentalLengthSequence: {
+        tag: '(0022,1211)',
+        keyword: 'OphthalmicAxialLengthMeasurementsSegmentalLengthSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    OphthalmicAxialLengthMeasurementsLengthSummationSequence: {
+        tag: '(0022,1212)',
+        keyword: 'OphthalmicAxialLengthMeasurementsLengthSummationSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    UltrasoundOphthalmicAxialLengthMeasurementsSequence: {
+        tag: '(0022,1220)',
+        keyword: 'UltrasoundOphthalmicAxialLengthMeasurementsSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    OpticalOphthalmicAxialLengthMeasurementsSequence: { tag: '(0022,1225)', keyword: 'OpticalOphthalmicAxialLengthMeasurementsSequence', vr: 'SQ', vm: [1, 1] },
+    UltrasoundSelectedOphthalmicAxialLengthSequence: { tag: '(0022,1230)', keyword: 'UltrasoundSelectedOphthalmicAxialLengthSequence', vr: 'SQ', vm: [1, 1] },
+    OphthalmicAxialLengthSelectionMethodCodeSequence: { tag: '(0022,1250)', keyword: 'OphthalmicAxialLengthSelectionMethodCodeSequence', vr: 'SQ', vm: [1, 1] },
+    OpticalSelectedOphthalmicAxialLengthSequence: { tag: '(0022,1255)', keyword: 'OpticalSelectedOphthalmicAxialLengthSequence', vr: 'SQ', vm: [1, 1] },
+    SelectedSegmentalOphthalmicAxialLengthSequence: { tag: '(0022,1257)', keyword: 'SelectedSegmentalOphthalmicAxialLengthSequence', vr: 'SQ', vm: [1, 1] },
+    SelectedTotalOphthalmicAxialLengthSequence: { tag: '(0022,1260)', keyword: 'SelectedTotalOphthalmicAxialLengthSequence', vr: 'SQ', vm: [1, 1] },
+    OphthalmicAxialLengthQualityMetricSequence: { tag: '(0022,1262)', keyword: 'OphthalmicAxialLengthQualityMetricSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_OphthalmicAxialLengthQualityMetricTypeCodeSequence: {
+        tag: '(0022,1265)',
+        keyword: 'RETIRED_OphthalmicAxialLengthQualityMetricTypeCodeSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    RETIRED_OphthalmicAxialLengthQualityMetricTypeDescription: {
+        tag: '(0022,1273)',
+        keyword: 'RETIRED_OphthalmicAxialLengthQualityMetricTypeDescription',
+        vr: 'LO',
+        vm: [1, 1],
+    },
+    IntraocularLensCalculationsRightEyeSequence: { tag: '(0022,1300)', keyword: 'IntraocularLensCalculationsRightEyeSequence', vr: 'SQ', vm: [1, 1] },
+    IntraocularLensCalculationsLeftEyeSequence: { tag: '(0022,1310)', keyword: 'IntraocularLensCalculationsLeftEyeSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedOphthalmicAxialLengthMeasurementQCImageSequence: {
+        tag: '(0022,1330)',
+        keyword: 'ReferencedOphthalmicAxialLengthMeasurementQCImageSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    OphthalmicMappingDeviceType: { tag: '(0022,1415)', keyword: 'OphthalmicMappingDeviceType', vr: 'CS', vm: [1, 1] },
+    AcquisitionMethodCodeSequence: { tag: '(0022,1420)', keyword: 'AcquisitionMethodCodeSequence', vr: 'SQ', vm: [1, 1] },
+    AcquisitionMethodAlgorithmSequence: { tag: '(0022,1423)', keyword: 'AcquisitionMethodAlgorithmSequence', vr: 'SQ', vm: [1, 1] },
+    OphthalmicThicknessMapTypeCodeSequence: { tag: '(0022,1436)', keyword: 'OphthalmicThicknessMapTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    OphthalmicThicknessMappingNormalsSequence: { tag: '(0022,1443)', keyword: 'OphthalmicThicknessMappingNormalsSequence', vr: 'SQ', vm: [1, 1] },
+    RetinalThicknessDefinitionCodeSequence: { tag: '(0022,1445)', keyword: 'RetinalThicknessDefinitionCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PixelValueMappingToCodedConceptSequence: { tag: '(0022,1450)', keyword: 'PixelValueMappingToCodedConceptSequence', vr: 'SQ', vm: [1, 1] },
+    MappedPixelValue: { tag: '(0022,1452)', keyword: 'MappedPixelValue', vr: 'US', vm: [1, 1] },
+    PixelValueMappingExplanation: { tag: '(0022,1454)', keyword: 'PixelValueMappingExplanation', vr: 'LO', vm: [1, 1] },
+    OphthalmicThicknessMapQualityThresholdSequence: { tag: '(0022,1458)', keyword: 'OphthalmicThicknessMapQualityThresholdSequence', vr: 'SQ', vm: [1, 1] },
+    OphthalmicThicknessMapThresholdQualityRating: { tag: '(0022,1460)', keyword: 'OphthalmicThicknessMapThresholdQualityRating', vr: 'FL', vm: [1, 1] },
+    AnatomicStructureReferencePoint: { tag: '(0022,1463)', keyword: 'AnatomicStructureReferencePoint', vr: 'FL', vm: [2, 2] },
+    RegistrationToLocalizerSequence: { tag: '(0022,1465)', keyword: 'RegistrationToLocalizerSequence', vr: 'SQ', vm: [1, 1] },
+    RegisteredLocalizerUnits: { tag: '(0022,1466)', keyword: 'RegisteredLocalizerUnits', vr: 'CS', vm: [1, 1] },
+    RegisteredLocalizerTopLeftHandCorner: { tag: '(0022,1467)', keyword: 'RegisteredLocalizerTopLeftHandCorner', vr: 'FL', vm: [2, 2] },
+    RegisteredLocalizerBottomRightHandCorner: { tag: '(0022,1468)', keyword: 'RegisteredLocalizerBottomRightHandCorner', vr: 'FL', vm: [2, 2] },
+    OphthalmicThicknessMapQualityRatingSequence: { tag: '(0022,1470)', keyword: 'OphthalmicThicknessMapQualityRatingSequence', vr: 'SQ', vm: [1, 1] },
+    RelevantOPTAttributesSequence: { tag: '(0022,1472)', keyword: 'RelevantOPTAttributesSequence', vr: 'SQ', vm: [1, 1] },
+    TransformationMethodCodeSequence: { tag: '(0022,1512)', keyword: 'TransformationMethodCodeSequence', vr: 'SQ', vm: [1, 1] },
+    TransformationAlgorithmSequence: { tag: '(0022,1513)', keyword: 'TransformationAlgorithmSequence', vr: 'SQ', vm: [1, 1] },
+    OphthalmicAxialLengthMethod: { tag: '(0022,1515)', keyword: 'OphthalmicAxialLengthMethod', vr: 'CS', vm: [1, 1] },
+    OphthalmicFOV: { tag: '(0022,1517)', keyword: 'OphthalmicFOV', vr: 'FL', vm: [1, 1] },
+    TwoDimensionalToThreeDimensionalMapSequence: { tag: '(0022,1518)', keyword: 'TwoDimensionalToThreeDimensionalMapSequence', vr: 'SQ', vm: [1, 1] },
+    WideFieldOphthalmicPhotographyQualityRatingSequence: {
+        tag: '(0022,1525)',
+        keyword: 'WideFieldOphthalmicPhotographyQualityRatingSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    WideFieldOphthalmicPhotographyQualityThresholdSequence: {
+        tag: '(0022,1526)',
+        keyword: 'WideFieldOphthalmicPhotographyQualityThresholdSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    WideFieldOphthalmicPhotographyThresholdQualityRating: {
+        tag: '(0022,1527)',
+        keyword: 'WideFieldOphthalmicPhotographyThresholdQualityRating',
+        vr: 'FL',
+        vm: [1, 1],
+    },
+    XCoordinatesCenterPixelViewAngle: { tag: '(0022,1528)', keyword: 'XCoordinatesCenterPixelViewAngle', vr: 'FL', vm: [1, 1] },
+    YCoordinatesCenterPixelViewAngle: { tag: '(0022,1529)', keyword: 'YCoordinatesCenterPixelViewAngle', vr: 'FL', vm: [1, 1] },
+    NumberOfMapPoints: { tag: '(0022,1530)', keyword: 'NumberOfMapPoints', vr: 'UL', vm: [1, 1] },
+    TwoDimensionalToThreeDimensionalMapData: { tag: '(0022,1531)', keyword: 'TwoDimensionalToThreeDimensionalMapData', vr: 'OF', vm: [1, 1] },
+    DerivationAlgorithmSequence: { tag: '(0022,1612)', keyword: 'DerivationAlgorithmSequence', vr: 'SQ', vm: [1, 1] },
+    OphthalmicImageTypeCodeSequence: { tag: '(0022,1615)', keyword: 'OphthalmicImageTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    OphthalmicImageTypeDescription: { tag: '(0022,1616)', keyword: 'OphthalmicImageTypeDescription', vr: 'LO', vm: [1, 1] },
+    ScanPatternTypeCodeSequence: { tag: '(0022,1618)', keyword: 'ScanPatternTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedSurfaceMeshIdentificationSequence: { tag: '(0022,1620)', keyword: 'ReferencedSurfaceMeshIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    OphthalmicVolumetricPropertiesFlag: { tag: '(0022,1622)', keyword: 'OphthalmicVolumetricPropertiesFlag', vr: 'CS', vm: [1, 1] },
+    OphthalmicAnatomicReferencePointXCoordinate: { tag: '(0022,1624)', keyword: 'OphthalmicAnatomicReferencePointXCoordinate', vr: 'FL', vm: [1, 1] },
+    OphthalmicAnatomicReferencePointYCoordinate: { tag: '(0022,1626)', keyword: 'OphthalmicAnatomicReferencePointYCoordinate', vr: 'FL', vm: [1, 1] },
+    OphthalmicEnFaceImageQualityRatingSequence: { tag: '(0022,1628)', keyword: 'OphthalmicEnFaceImageQualityRatingSequence', vr: 'SQ', vm: [1, 1] },
+    QualityThreshold: { tag: '(0022,1630)', keyword: 'QualityThreshold', vr: 'DS', vm: [1, 1] },
+    OCTBscanAnalysisAcquisitionParametersSequence: { tag: '(0022,1640)', keyword: 'OCTBscanAnalysisAcquisitionParametersSequence', vr: 'SQ', vm: [1, 1] },
+    NumberofBscansPerFrame: { tag: '(0022,1642)', keyword: 'NumberofBscansPerFrame', vr: 'UL', vm: [1, 1] },
+    BscanSlabThickness: { tag: '(0022,1643)', keyword: 'BscanSlabThickness', vr: 'FL', vm: [1, 1] },
+    DistanceBetweenBscanSlabs: { tag: '(0022,1644)', keyword: 'DistanceBetweenBscanSlabs', vr: 'FL', vm: [1, 1] },
+    BscanCycleTime: { tag: '(0022,1645)', keyword: 'BscanCycleTime', vr: 'FL', vm: [1, 1] },
+    BscanCycleTimeVector: { tag: '(0022,1646)', keyword: 'BscanCycleTimeVector', vr: 'FL', vm: [1, null] },
+    AscanRate: { tag: '(0022,1649)', keyword: 'AscanRate', vr: 'FL', vm: [1, 1] },
+    BscanRate: { tag: '(0022,1650)', keyword: 'BscanRate', vr: 'FL', vm: [1, 1] },
+    SurfaceMeshZPixelOffset: { tag: '(0022,1658)', keyword: 'SurfaceMeshZPixelOffset', vr: 'UL', vm: [1, 1] },
+    VisualFieldHorizontalExtent: { tag: '(0024,0010)', keyword: 'VisualFieldHorizontalExtent', vr: 'FL', vm: [1, 1] },
+    VisualFieldVerticalExtent: { tag: '(0024,0011)', keyword: 'VisualFieldVerticalExtent', vr: 'FL', vm: [1, 1] },
+    VisualFieldShape: { tag: '(0024,0012)', keyword: 'VisualFieldShape', vr: 'CS', vm: [1, 1] },
+    ScreeningTestModeCodeSequence: { tag: '(0024,0016)', keyword: 'ScreeningTestModeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    MaximumStimulusLuminance: { tag: '(0024,0018)', keyword: 'MaximumStimulusLuminance', vr: 'FL', vm: [1, 1] },
+    BackgroundLuminance: { tag: '(0024,0020)', keyword: 'BackgroundLuminance', vr: 'FL', vm: [1, 1] },
+    StimulusColorCodeSequence: { tag: '(0024,0021)', keyword: 'StimulusColorCodeSequence', vr: 'SQ', vm: [1, 1] },
+    BackgroundIlluminationColorCodeSequence: { tag: '(0024,0024)', keyword: 'BackgroundIlluminationColorCodeSequence', vr: 'SQ', vm: [1, 1] },
+    StimulusArea: { tag: '(0024,0025)', keyword: 'StimulusArea', vr: 'FL', vm: [1, 1] },
+    StimulusPresentationTime: { tag: '(0024,0028)', keyword: 'StimulusPresentationTime', vr: 'FL', vm: [1, 1] },
+    FixationSequence: { tag: '(0024,0032)', keyword: 'FixationSequence', vr: 'SQ', vm: [1, 1] },
+    FixationMonitoringCodeSequence: { tag: '(0024,0033)', keyword: 'FixationMonitoringCodeSequence', vr: 'SQ', vm: [1, 1] },
+    VisualFieldCatchTrialSequence: { tag: '(0024,0034)', keyword: 'VisualFieldCatchTrialSequence', vr: 'SQ', vm: [1, 1] },
+    FixationCheckedQuantity: { tag: '(0024,0035)', keyword: 'FixationCheckedQuantity', vr: 'US', vm: [1, 1] },
+    PatientNotProperlyFixatedQuantity: { tag: '(0024,0036)', keyword: 'PatientNotProperlyFixatedQuantity', vr: 'US', vm: [1, 1] },
+    PresentedVisualStimuliDataFlag: { tag: '(0024,0037)', keyword: 'PresentedVisualStimuliDataFlag', vr: 'CS', vm: [1, 1] },
+    NumberOfVisualStimuli: { tag: '(0024,0038)', keyword: 'NumberOfVisualStimuli', vr: 'US', vm: [1, 1] },
+    ExcessiveFixationLossesDataFlag: { tag: '(0024,0039)', keyword: 'ExcessiveFixationLossesDataFlag', vr: 'CS', vm: [1, 1] },
+    ExcessiveFixationLosses: { tag: '(0024,0040)', keyword: 'ExcessiveFixationLosses', vr: 'CS', vm: [1, 1] },
+    StimuliRetestingQuantity: { tag: '(0024,0042)', keyword: 'StimuliRetestingQuantity', vr: 'US', vm: [1, 1] },
+    CommentsOnPatientPerformanceOfVisualField: { tag: '(0024,0044)', keyword: 'CommentsOnPatientPerformanceOfVisualField', vr: 'LT', vm: [1, 1] },
+    FalseNegativesEstimateFlag: { tag: '(0024,0045)', keyword: 'FalseNegativesEstimateFlag', vr: 'CS', vm: [1, 1] },
+    FalseNegativesEstimate: { tag: '(0024,0046)', keyword: 'FalseNegativesEstimate', vr: 'FL', vm: [1, 1] },
+    NegativeCatchTrialsQuantity: { tag: '(0024,0048)', keyword: 'NegativeCatchTrialsQuantity', vr: 'US', vm: [1, 1] },
+    FalseNegativesQuantity: { tag: '(0024,0050)', keyword: 'FalseNegativesQuantity', vr: 'US', vm: [1, 1] },
+    ExcessiveFalseNegativesDataFlag: { tag: '(0024,0051)', keyword: 'ExcessiveFalseNegativesDataFlag', vr: 'CS', vm: [1, 1] },
+    ExcessiveFalseNegatives: { tag: '(0024,0052)', keyword: 'ExcessiveFalseNegatives', vr: 'CS', vm: [1, 1] },
+    FalsePositivesEstimateFlag: { tag: '(0024,0053)', keyword: 'FalsePositivesEstimateFlag', vr: 'CS', vm: [1, 1] },
+    FalsePositivesEstimate: { tag: '(0024,0054)', keyword: 'FalsePositivesEstimate', vr: 'FL', vm: [1, 1] },
+    CatchTrialsDataFlag: { tag: '(0024,0055)', keyword: 'CatchTrialsDataFlag', vr: 'CS', vm: [1, 1] },
+    PositiveCatchTrialsQuantity: { tag: '(0024,0056)', keyword: 'PositiveCatchTrialsQuantity', vr: 'US', vm: [1, 1] },
+    TestPointNormalsDataFlag: { tag: '(0024,0057)', keyword: 'TestPointNormalsDataFlag', vr: 'CS', vm: [1, 1] },
+    TestPointNormalsSequence: { tag: '(0024,0058)', keyword: 'TestPointNormalsSequence', vr: 'SQ', vm: [1, 1] },
+    GlobalDeviationProbabilityNormalsFlag: { tag: '(0024,0059)', keyword: 'GlobalDeviationProbabilityNormalsFlag', vr: 'CS', vm: [1, 1] },
+    FalsePositivesQuantity: { tag: '(0024,0060)', keyword: 'FalsePositivesQuantity', vr: 'US', vm: [1, 1] },
+    ExcessiveFalsePositivesDataFlag: { tag: '(0024,0061)', keyword: 'ExcessiveFalsePositivesDataFlag', vr: 'CS', vm: [1, 1] },
+    ExcessiveFalsePositives: { tag: '(0024,0062)', keyword: 'ExcessiveFalsePositives', vr: 'CS', vm: [1, 1] },
+    VisualFieldTestNormalsFlag: { tag: '(0024,0063)', keyword: 'VisualFieldTestNormalsFlag', vr: 'CS', vm: [1, 1] },
+    ResultsNormalsSequence: { tag: '(0024,0064)', keyword: 'ResultsNormalsSequence', vr: 'SQ', vm: [1, 1] },
+    AgeCorrectedSensitivityDeviationAlgorithmSequence: {
+        tag: '(0024,0065)',
+        keyword: 'AgeCorrectedSensitivityDeviationAlgorithmSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    GlobalDeviationFromNormal: { tag: '(0024,0066)', keyword: 'GlobalDeviationFromNormal', vr: 'FL', vm: [1, 1] },
+    GeneralizedDefectSensitivityDeviationAlgorithmSequence: {
+        tag: '(0024,0067)',
+        keyword: 'GeneralizedDefectSensitivityDeviationAlgorithmSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    LocalizedDeviationFromNormal: { tag: '(0024,0068)', keyword: 'LocalizedDeviationFromNormal', vr: 'FL', vm: [1, 1] },
+    PatientReliabilityIndicator: { tag: '(0024,0069)', keyword: 'PatientReliabilityIndicator', vr: 'LO', vm: [1, 1] },
+    VisualFieldMeanSensitivity: { tag: '(0024,0070)', keyword: 'VisualFieldMeanSensitivity', vr: 'FL', vm: [1, 1] },
+    GlobalDeviationProbability: { tag: '(0024,0071)', keyword: 'GlobalDeviationProbability', vr: 'FL', vm: [1, 1] },
+    LocalDeviationProbabilityNormalsFlag: { tag: '(0024,0072)', keyword: 'LocalDeviationProbabilityNormalsFlag', vr: 'CS', vm: [1, 1] },
+    LocalizedDeviationProbability: { tag: '(0024,0073)', keyword: 'LocalizedDeviationProbability', vr: 'FL', vm: [1, 1] },
+    ShortTermFluctuationCalculated: { tag: '(0024,0074)', keyword: 'ShortTermFluctuationCalculated', vr: 'CS', vm: [1, 1] },
+    ShortTermFluctuation: { tag: '(0024,0075)', keyword: 'ShortTermFluctuation', vr: 'FL', vm: [1, 1] },
+    ShortTermFluctuationProbabilityCalculated: { tag: '(0024,0076)', keyword: 'ShortTermFluctuationProbabilityCalculated', vr: 'CS', vm: [1, 1] },
+    ShortTermFluctuationProbability: { tag: '(0024,0077)', keyword: 'ShortTermFluctuationProbability', vr: 'FL', vm: [1, 1] },
+    CorrectedLocalizedDeviationFromNormalCalculated: { tag: '(0024,0078)', keyword: 'CorrectedLocalizedDeviationFromNormalCalculated', vr: 'CS', vm: [1, 1] },
+    CorrectedLocalizedDeviationFromNormal: { tag: '(0024,0079)', keyword: 'CorrectedLocalizedDeviationFromNormal', vr: 'FL', vm: [1, 1] },
+    CorrectedLocalizedDeviationFromNormalProbabilityCalculated: {
+        tag: '(0024,0080)',
+        keyword: 'CorrectedLocalizedDeviationFromNormalProbabilityCalculated',
+        vr: 'CS',
+        vm: [1, 1],
+    },
+    CorrectedLocalizedDeviationFromNormalProbability: { tag: '(0024,0081)', keyword: 'CorrectedLocalizedDeviationFromNormalProbability', vr: 'FL', vm: [1, 1] },
+    GlobalDeviationProbabilitySequence: { tag: '(0024,0083)', keyword: 'GlobalDeviationProbabilitySequence', vr: 'SQ', vm: [1, 1] },
+    LocalizedDeviationProbabilitySequence: { tag: '(0024,0085)', keyword: 'LocalizedDeviationProbabilitySequence', vr: 'SQ', vm: [1, 1] },
+    FovealSensitivityMeasured: { tag: '(0024,0086)', keyword: 'FovealSensitivityMeasured', vr: 'CS', vm: [1, 1] },
+    FovealSensitivity: { tag: '(0024,0087)', keyword: 'FovealSensitivity', vr: 'FL', vm: [1, 1] },
+    VisualFieldTestDuration: { tag: '(0024,0088)', keyword: 'VisualFieldTestDuration', vr: 'FL', vm: [1, 1] },
+    VisualFieldTestPointSequence: { tag: '(0024,0089)', keyword: 'VisualFieldTestPointSequence', vr: 'SQ', vm: [1, 1] },
+    VisualFieldTestPointXCoordinate: { tag: '(0024,0090)', keyword: 'VisualFieldTestPointXCoordinate', vr: 'FL', vm: [1, 1] },
+    VisualFieldTestPointYCoordinate: { tag: '(0024,0091)', keyword: 'VisualFieldTestPointYCoordinate', vr: 'FL', vm: [1, 1] },
+    AgeCorrectedSensitivityDeviationValue: { tag: '(0024,0092)', keyword: 'AgeCorrectedSensitivityDeviationValue', vr: 'FL', vm: [1, 1] },
+    StimulusResults: { tag: '(0024,0093)', keyword: 'StimulusResults', vr: 'CS', vm: [1, 1] },
+    SensitivityValue: { tag: '(0024,0094)', keyword: 'SensitivityValue', vr: 'FL', vm: [1, 1] },
+    RetestStimulusSeen: { tag: '(0024,0095)', keyword: 'RetestStimulusSeen', vr: 'CS', vm: [1, 1] },
+    RetestSensitivityValue: { tag: '(0024,0096)', keyword: 'RetestSensitivityValue', vr: 'FL', vm: [1, 1] },
+    VisualFieldTestPointNormalsSequence: { tag: '(0024,0097)', keyword: 'VisualFieldTestPointNormalsSequence', vr: 'SQ', vm: [1, 1] },
+    QuantifiedDefect: { tag: '(0024,0098)', keyword: 'QuantifiedDefect', vr: 'FL', vm: [1, 1] },
+    AgeCorrectedSensitivityDeviationProbabilityValue: { tag: '(0024,0100)', keyword: 'AgeCorrectedSensitivityDeviationProbabilityValue', vr: 'FL', vm: [1, 1] },
+    GeneralizedDefectCorrectedSensitivityDeviationFlag: {
+        tag: '(0024,0102)',
+        keyword: 'GeneralizedDefectCorrectedSensitivityDeviationFlag',
+        vr: 'CS',
+        vm: [1, 1],
+    },
+    GeneralizedDefectCorrectedSensitivityDeviationValue: {
+        tag: '(0024,0103)',
+        keyword: 'GeneralizedDefectCorrectedSensitivityDeviationValue',
+        vr: 'FL',
+        vm: [1, 1],
+    },
+    GeneralizedDefectCorrectedSensitivityDeviationProbabilityValue: {
+        tag: '(0024,0104)',
+        keyword: 'GeneralizedDefectCorrectedSensitivityDeviationProbabilityValue',
+        vr: 'FL',
+        vm: [1, 1],
+    },
+    MinimumSensitivityValue: { tag: '(0024,0105)', keyword: 'MinimumSensitivityValue', vr: 'FL', vm: [1, 1] },
+    BlindSpotLocalized: { tag: '(0024,0106)', keyword: 'BlindSpotLocalized', vr: 'CS', vm: [1, 1] },
+    BlindSpotXCoordinate: { tag: '(0024,0107)', keyword: 'BlindSpotXCoordinate', vr: 'FL', vm: [1, 1] },
+    BlindSpotYCoordinate: { tag: '(0024,0108)', keyword: 'BlindSpotYCoordinate', vr: 'FL', vm: [1, 1] },
+    VisualAcuityMeasurementSequence: { tag: '(0024,0110)', keyword: 'VisualAcuityMeasurementSequence', vr: 'SQ', vm: [1, 1] },
+    RefractiveParametersUsedOnPatientSequence: { tag: '(0024,0112)', keyword: 'RefractiveParametersUsedOnPatientSequence', vr: 'SQ', vm: [1, 1] },
+    MeasurementLaterality: { tag: '(0024,0113)', keyword: 'MeasurementLaterality', vr: 'CS', vm: [1, 1] },
+    OphthalmicPatientClinicalInformationLeftEyeSequence: {
+        tag: '(0024,0114)',
+        keyword: 'OphthalmicPatientClinicalInformationLeftEyeSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    OphthalmicPatientClinicalInformationRightEyeSequence: {
+        tag: '(0024,0115)',
+        keyword: 'OphthalmicPatientClinicalInformationRightEyeSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    FovealPointNormativeDataFlag: { tag: '(0024,0117)', keyword: 'FovealPointNormativeDataFlag', vr: 'CS', vm: [1, 1] },
+    FovealPointProbabilityValue: { tag: '(0024,0118)', keyword: 'FovealPointProbabilityValue', vr: 'FL', vm: [1, 1] },
+    ScreeningBaselineMeasured: { tag: '(0024,0120)', keyword: 'ScreeningBaselineMeasured', vr: 'CS', vm: [1, 1] },
+    ScreeningBaselineMeasuredSequence: { tag: '(0024,0122)', keyword: 'ScreeningBaselineMeasuredSequence', vr: 'SQ', vm: [1, 1] },
+    ScreeningBaselineType: { tag: '(0024,0124)', keyword: 'ScreeningBaselineType', vr: 'CS', vm: [1, 1] },
+    ScreeningBaselineValue: { tag: '(0024,0126)', keyword: 'ScreeningBaselineValue', vr: 'FL', vm: [1, 1] },
+    AlgorithmSource: { tag: '(0024,0202)', keyword: 'AlgorithmSource', vr: 'LO', vm: [1, 1] },
+    DataSetName: { tag: '(0024,0306)', keyword: 'DataSetName', vr: 'LO', vm: [1, 1] },
+    DataSetVersion: { tag: '(0024,0307)', keyword: 'DataSetVersion', vr: 'LO', vm: [1, 1] },
+    DataSetSource: { tag: '(0024,0308)', keyword: 'DataSetSource', vr: 'LO', vm: [1, 1] },
+    DataSetDescription: { tag: '(0024,0309)', keyword: 'DataSetDescription', vr: 'LO', vm: [1, 1] },
+    VisualFieldTestReliabilityGlobalIndexSequence: { tag: '(0024,0317)', keyword: 'VisualFieldTestReliabilityGlobalIndexSequence', vr: 'SQ', vm: [1, 1] },
+    VisualFieldGlobalResultsIndexSequence: { tag: '(0024,0320)', keyword: 'VisualFieldGlobalResultsIndexSequence', vr: 'SQ', vm: [1, 1] },
+    DataObservationSequence: { tag: '(0024,0325)', keyword: 'DataObservationSequence', vr: 'SQ', vm: [1, 1] },
+    IndexNormalsFlag: { tag: '(0024,0338)', keyword: 'IndexNormalsFlag', vr: 'CS', vm: [1, 1] },
+    IndexProbability: { tag: '(0024,0341)', keyword: 'IndexProbability', vr: 'FL', vm: [1, 1] },
+    IndexProbabilitySequence: { tag: '(0024,0344)', keyword: 'IndexProbabilitySequence', vr: 'SQ', vm: [1, 1] },
+    SamplesPerPixel: { tag: '(0028,0002)', keyword: 'SamplesPerPixel', vr: 'US', vm: [1, 1] },
+    SamplesPerPixelUsed: { tag: '(0028,0003)', keyword: 'SamplesPerPixelUsed', vr: 'US', vm: [1, 1] },
+    PhotometricInterpretation: { tag: '(0028,0004)', keyword: 'PhotometricInterpretation', vr: 'CS', vm: [1, 1] },
+    RETIRED_ImageDimensions: { tag: '(0028,0005)', keyword: 'RETIRED_ImageDimensions', vr: 'US', vm: [1, 1] },
+    PlanarConfiguration: { tag: '(0028,0006)', keyword: 'PlanarConfiguration', vr: 'US', vm: [1, 1] },
+    NumberOfFrames: { tag: '(0028,0008)', keyword: 'NumberOfFrames', vr: 'IS', vm: [1, 1] },
+    FrameIncrementPointer: { tag: '(0028,0009)', keyword: 'FrameIncrementPointer', vr: 'AT', vm: [1, null] },
+    FrameDimensionPointer: { tag: '(0028,000A)', keyword: 'FrameDimensionPointer', vr: 'AT', vm: [1, null] },
+    Rows: { tag: '(0028,0010)', keyword: 'Rows', vr: 'US', vm: [1, 1] },
+    Columns: { tag: '(0028,0011)', keyword: 'Columns', vr: 'US', vm: [1, 1] },
+    RETIRED_Planes: { tag: '(0028,0012)', keyword: 'RETIRED_Planes', vr: 'US', vm: [1, 1] },
+    UltrasoundColorDataPresent: { tag: '(0028,0014)', keyword: 'UltrasoundColorDataPresent', vr: 'US', vm: [1, 1] },
+    PixelSpacing: { tag: '(0028,0030)', keyword: 'PixelSpacing', vr: 'DS', vm: [2, 2] },
+    ZoomFactor: { tag: '(0028,0031)', keyword: 'ZoomFactor', vr: 'DS', vm: [2, 2] },
+    ZoomCenter: { tag: '(0028,0032)', keyword: 'ZoomCenter', vr: 'DS', vm: [2, 2] },
+    PixelAspectRatio: { tag: '(0028,0034)', keyword: 'PixelAspectRatio', vr: 'IS', vm: [2, 2] },
+    RETIRED_ImageFormat: { tag: '(0028,0040)', keyword: 'RETIRED_ImageFormat', vr: 'CS', vm: [1, 1] },
+    RETIRED_ManipulatedImage: { tag: '(0028,0050)', keyword: 'RETIRED_ManipulatedImage', vr: 'LO', vm: [1, null] },
+    CorrectedImage: { tag: '(0028,0051)', keyword: 'CorrectedImage', vr: 'CS', vm: [1, null] },
+    RETIRED_CompressionRecognitionCode: { tag: '(0028,005F)', keyword: 'RETIRED_CompressionRecognitionCode', vr: 'LO', vm: [1, 1] },
+    RETIRED_CompressionCode: { tag: '(0028,0060)', keyword: 'RETIRED_CompressionCode', vr: 'CS', vm: [1, 1] },
+    RETIRED_CompressionOriginator: { tag: '(0028,0061)', keyword: 'RETIRED_CompressionOriginator', vr: 'SH', vm: [1, 1] },
+    RETIRED_CompressionLabel: { tag: '(0028,0062)', keyword: 'RETIRED_CompressionLabel', vr: 'LO', vm: [1, 1] },
+    RETIRED_CompressionDescription: { tag: '(0028,0063)', keyword: 'RETIRED_CompressionDescription', vr: 'SH', vm: [1, 1] },
+    RETIRED_CompressionSequence: { tag: '(0028,0065)', keyword: 'RETIRED_CompressionSequence', vr: 'CS', vm: [1, null] },
+    RETIRED_CompressionStepPointers: { tag: '(0028,0066)', keyword: 'RETIRED_CompressionStepPointers', vr: 'AT', vm: [1, null] },
+    RETIRED_RepeatInterval: { tag: '(0028,0068)', keyword: 'RETIRED_RepeatInterval', vr: 'US', vm: [1, 1] },
+    RETIRED_BitsGrouped: { tag: '(0028,0069)', keyword: 'RETIRED_BitsGrouped', vr: 'US', vm: [1, 1] },
+    RETIRED_PerimeterTable: { tag: '(0028,0070)', keyword: 'RETIRED_PerimeterTable', vr: 'US', vm: [1, null] },
+    RETIRED_PerimeterValue: { tag: '(0028,0071)', keyword: 'RETIRED_PerimeterValue', vr: 'US', vm: [1, 1] },
+    RETIRED_PredictorRows: { tag: '(0028,0080)', keyword: 'RETIRED_PredictorRows', vr: 'US', vm: [1, 1] },
+    RETIRED_PredictorColumns: { tag: '(0028,0081)', keyword: 'RETIRED_PredictorColumns', vr: 'US', vm: [1, 1] },
+    RETIRED_PredictorConstants: { tag: '(0028,0082)', keyword: 'RETIRED_PredictorConstants', vr: 'US', vm: [1, null] },
+    RETIRED_BlockedPixels: { tag: '(0028,0090)', keyword: 'RETIRED_BlockedPixels', vr: 'CS', vm: [1, 1] },
+    RETIRED_BlockRows: { tag: '(0028,0091)', keyword: 'RETIRED_BlockRows', vr: 'US', vm: [1, 1] },
+    RETIRED_BlockColumns: { tag: '(0028,0092)', keyword: 'RETIRED_BlockColumns', vr: 'US', vm: [1, 1] },
+    RETIRED_RowOverlap: { tag: '(0028,0093)', keyword: 'RETIRED_RowOverlap', vr: 'US', vm: [1, 1] },
+    RETIRED_ColumnOverlap: { tag: '(0028,0094)', keyword: 'RETIRED_ColumnOverlap', vr: 'US', vm: [1, 1] },
+    BitsAllocated: { tag: '(0028,0100)', keyword: 'BitsAllocated', vr: 'US', vm: [1, 1] },
+    BitsStored: { tag: '(0028,0101)', keyword: 'BitsStored', vr: 'US', vm: [1, 1] },
+    HighBit: { tag: '(0028,0102)', keyword: 'HighBit', vr: 'US', vm: [1, 1] },
+    PixelRepresentation: { tag: '(0028,0103)', keyword: 'PixelRepresentation', vr: 'US', vm: [1, 1] },
+    RETIRED_SmallestValidPixelValue: { tag: '(0028,0104)', keyword: 'RETIRED_SmallestValidPixelValue', vr: 'US', vm: [1, 1] },
+    RETIRED_LargestValidPixelValue: { tag: '(0028,0105)', keyword: 'RETIRED_LargestValidPixelValue', vr: 'US', vm: [1, 1] },
+    SmallestImagePixelValue: { tag: '(0028,0106)', keyword: 'SmallestImagePixelValue', vr: 'US', vm: [1, 1] },
+    LargestImagePixelValue: { tag: '(0028,0107)', keyword: 'LargestImagePixelValue', vr: 'US', vm: [1, 1] },
+    SmallestPixelValueInSeries: { tag: '(0028,0108)', keyword: 'SmallestPixelValueInSeries', vr: 'US', vm: [1, 1] },
+    LargestPixelValueInSeries: { tag: '(0028,0109)', keyword: 'LargestPixelValueInSeries', vr: 'US', vm: [1, 1] },
+    RETIRED_SmallestImagePixelValueInPlane: { tag: '(0028,0110)', keyword: 'RETIRED_SmallestImagePixelValueInPlane', vr: 'US', vm: [1, 1] },
+    RETIRED_LargestImagePixelValueInPlane: { tag: '(0028,0111)', keyword: 'RETIRED_LargestImagePixelValueInPlane', vr: 'US', vm: [1, 1] },
+    PixelPaddingValue: { tag: '(0028,0120)', keyword: 'PixelPaddingValue', vr: 'US', vm: [1, 1] },
+    PixelPaddingRangeLimit: { tag: '(0028,0121)', keyword: 'PixelPaddingRangeLimit', vr: 'US', vm: [1, 1] },
+    FloatPixelPaddingValue: { tag: '(0028,0122)', keyword: 'FloatPixelPaddingValue', vr: 'FL', vm: [1, 1] },
+    DoubleFloatPixelPaddingValue: { tag: '(0028,0123)', keyword: 'DoubleFloatPixelPaddingValue', vr: 'FD', vm: [1, 1] },
+    FloatPixelPaddingRangeLimit: { tag: '(0028,0124)', keyword: 'FloatPixelPaddingRangeLimit', vr: 'FL', vm: [1, 1] },
+    DoubleFloatPixelPaddingRangeLimit: { tag: '(0028,0125)', keyword: 'DoubleFloatPixelPaddingRangeLimit', vr: 'FD', vm: [1, 1] },
+    RETIRED_ImageLocation: { tag: '(0028,0200)', keyword: 'RETIRED_ImageLocation', vr: 'US', vm: [1, 1] },
+    QualityControlImage: { tag: '(0028,0300)', keyword: 'QualityControlImage', vr: 'CS', vm: [1, 1] },
+    BurnedInAnnotation: { tag: '(0028,0301)', keyword: 'BurnedInAnnotation', vr: 'CS', vm: [1, 1] },
+    RecognizableVisualFeatures: { tag: '(0028,0302)', keyword: 'RecognizableVisualFeatures', vr: 'CS', vm: [1, 1] },
+    LongitudinalTemporalInformationModified: { tag: '(0028,0303)', keyword: 'LongitudinalTemporalInformationModified', vr: 'CS', vm: [1, 1] },
+    ReferencedColorPaletteInstanceUID: { tag: '(0028,0304)', keyword: 'ReferencedColorPaletteInstanceUID', vr: 'UI', vm: [1, 1] },
+    RETIRED_TransformLabel: { tag: '(0028,0400)', keyword: 'RETIRED_TransformLabel', vr: 'LO', vm: [1, 1] },
+    RETIRED_TransformVersionNumber: { tag: '(0028,0401)', keyword: 'RETIRED_TransformVersionNumber', vr: 'LO', vm: [1, 1] },
+    RETIRED_NumberOfTransformSteps: { tag: '(0028,0402)', keyword: 'RETIRED_NumberOfTransformSteps', vr: 'US', vm: [1, 1] },
+    RETIRED_SequenceOfCompressedData: { tag: '(0028,0403)', keyword: 'RETIRED_SequenceOfCompressedData', vr: 'LO', vm: [1, null] },
+    RETIRED_DetailsOfCoefficients: { tag: '(0028,0404)', keyword: 'RETIRED_DetailsOfCoefficients', vr: 'AT', vm: [1, null] },
+    RETIRED_RowsForNthOrderCoefficients: { tag: '(0028,0410)', keyword: 'RETIRED_RowsForNthOrderCoefficients', vr: 'US', vm: [1, 1] },
+    RETIRED_ColumnsForNthOrderCoefficients: { tag: '(0028,0411)', keyword: 'RETIRED_ColumnsForNthOrderCoefficients', vr: 'US', vm: [1, 1] },
+    RETIRED_CoefficientCoding: { tag: '(0028,0412)', keyword: 'RETIRED_CoefficientCoding', vr: 'LO', vm: [1, null] },
+    RETIRED_CoefficientCodingPointers: { tag: '(0028,0413)', keyword: 'RETIRED_CoefficientCodingPointers', vr: 'AT', vm: [1, null] },
+    RETIRED_DCTLabel: { tag: '(0028,0700)', keyword: 'RETIRED_DCTLabel', vr: 'LO', vm: [1, 1] },
+    RETIRED_DataBlockDescription: { tag: '(0028,0701)', keyword: 'RETIRED_DataBlockDescription', vr: 'CS', vm: [1, null] },
+    RETIRED_DataBlock: { tag: '(0028,0702)', keyword: 'RETIRED_DataBlock', vr: 'AT', vm: [1, null] },
+    RETIRED_NormalizationFactorFormat: { tag: '(0028,0710)', keyword: 'RETIRED_NormalizationFactorFormat', vr: 'US', vm: [1, 1] },
+    RETIRED_ZonalMapNumberFormat: { tag: '(0028,0720)', keyword: 'RETIRED_ZonalMapNumberFormat', vr: 'US', vm: [1, 1] },
+    RETIRED_ZonalMapLocation: { tag: '(0028,0721)', keyword: 'RETIRED_ZonalMapLocation', vr: 'AT', vm: [1, null] },
+    RETIRED_ZonalMapFormat: { tag: '(0028,0722)', keyword: 'RETIRED_ZonalMapFormat', vr: 'US', vm: [1, 1] },
+    RETIRED_AdaptiveMapFormat: { tag: '(0028,0730)', keyword: 'RETIRED_AdaptiveMapFormat', vr: 'US', vm: [1, 1] },
+    RETIRED_CodeNumberFormat: { tag: '(0028,0740)', keyword: 'RETIRED_CodeNumberFormat', vr: 'US', vm: [1, 1] },
+    RETIRED_CodeLabel: { tag: '(0028,0800)', keyword: 'RETIRED_CodeLabel', vr: 'CS', vm: [1, null] },
+    RETIRED_NumberOfTables: { tag: '(0028,0802)', keyword: 'RETIRED_NumberOfTables', vr: 'US', vm: [1, 1] },
+    RETIRED_CodeTableLocation: { tag: '(0028,0803)', keyword: 'RETIRED_CodeTableLocation', vr: 'AT', vm: [1, null] },
+    RETIRED_BitsForCodeWord: { tag: '(0028,0804)', keyword: 'RETIRED_BitsForCodeWord', vr: 'US', vm: [1, 1] },
+    RETIRED_ImageDataLocation: { tag: '(0028,0808)', keyword: 'RETIRED_ImageDataLocation', vr: 'AT', vm: [1, null] },
+    PixelSpacingCalibrationType: { tag: '(0028,0A02)', keyword: 'PixelSpacingCalibrationType', vr: 'CS', vm: [1, 1] },
+    PixelSpacingCalibrationDescription: { tag: '(0028,0A04)', keyword: 'PixelSpacingCalibrationDescription', vr: 'LO', vm: [1, 1] },
+    PixelIntensityRelationship: { tag: '(0028,1040)', keyword: 'PixelIntensityRelationship', vr: 'CS', vm: [1, 1] },
+    PixelIntensityRelationshipSign: { tag: '(0028,1041)', keyword: 'PixelIntensityRelationshipSign', vr: 'SS', vm: [1, 1] },
+    WindowCenter: { tag: '(0028,1050)', keyword: 'WindowCenter', vr: 'DS', vm: [1, null] },
+    WindowWidth: { tag: '(0028,1051)', keyword: 'WindowWidth', vr: 'DS', vm: [1, null] },
+    RescaleIntercept: { tag: '(0028,1052)', keyword: 'RescaleIntercept', vr: 'DS', vm: [1, 1] },
+    RescaleSlope: { tag: '(0028,1053)', keyword: 'RescaleSlope', vr: 'DS', vm: [1, 1] },
+    RescaleType: { tag: '(0028,1054)', keyword: 'RescaleType', vr: 'LO', vm: [1, 1] },
+    WindowCenterWidthExplanation: { tag: '(0028,1055)', keyword: 'WindowCenterWidthExplanation', vr: 'LO', vm: [1, null] },
+    VOILUTFunction: { tag: '(0028,1056)', keyword: 'VOILUTFunction', vr: 'CS', vm: [1, 1] },
+    RETIRED_GrayScale: { tag: '(0028,1080)', keyword: 'RETIRED_GrayScale', vr: 'CS', vm: [1, 1] },
+    RecommendedViewingMode: { tag: '(0028,1090)', keyword: 'RecommendedViewingMode', vr: 'CS', vm: [1, 1] },
+    RETIRED_GrayLookupTableDescriptor: { tag: '(0028,1100)', keyword: 'RETIRED_GrayLookupTableDescriptor', vr: 'US', vm: [3, 3] },
+    RedPaletteColorLookupTableDescriptor: { tag: '(0028,1101)', keyword: 'RedPaletteColorLookupTableDescriptor', vr: 'US', vm: [3, 3] },
+    GreenPaletteColorLookupTableDescriptor: { tag: '(0028,1102)', keyword: 'GreenPaletteColorLookupTableDescriptor', vr: 'US', vm: [3, 3] },
+    BluePaletteColorLookupTableDescriptor: { tag: '(0028,1103)', keyword: 'BluePaletteColorLookupTableDescriptor', vr: 'US', vm: [3, 3] },
+    AlphaPaletteColorLookupTableDescriptor: { tag: '(0028,1104)', keyword: 'AlphaPaletteColorLookupTableDescriptor', vr: 'US', vm: [3, 3] },
+    RETIRED_LargeRedPaletteColorLookupTableDescriptor: {
+        tag: '(0028,1111)',
+        keyword: 'RETIRED_LargeRedPaletteColorLookupTableDescriptor',
+        vr: 'US',
+        vm: [4, 4],
+    },
+    RETIRED_LargeGreenPaletteColorLookupTableDescriptor: {
+        tag: '(0028,1112)',
+        keyword: 'RETIRED_LargeGreenPaletteColorLookupTableDescriptor',
+        vr: 'US',
+        vm: [4, 4],
+    },
+    RETIRED_LargeBluePaletteColorLookupTableDescriptor: {
+        tag: '(0028,1113)',
+        keyword: 'RETIRED_LargeBluePaletteColorLookupTableDescriptor',
+        vr: 'US',
+        vm: [4, 4],
+    },
+    PaletteColorLookupTableUID: { tag: '(0028,1199)', keyword: 'PaletteColorLookupTableUID', vr: 'UI', vm: [1, 1] },
+    RETIRED_GrayLookupTableData: { tag: '(0028,1200)', keyword: 'RETIRED_GrayLookupTableData', vr: 'OW', vm: [1, null] },
+    RedPaletteColorLookupTableData: { tag: '(0028,1201)', keyword: 'RedPaletteColorLookupTableData', vr: 'OW', vm: [1, 1] },
+    GreenPaletteColorLookupTableData: { tag: '(0028,1202)', keyword: 'GreenPaletteColorLookupTableData', vr: 'OW', vm: [1, 1] },
+    BluePaletteColorLookupTableData: { tag: '(0028,1203)', keyword: 'BluePaletteColorLookupTableData', vr: 'OW', vm: [1, 1] },
+    AlphaPaletteColorLookupTableData: { tag: '(0028,1204)', keyword: 'AlphaPaletteColorLookupTableData', vr: 'OW', vm: [1, 1] },
+    RETIRED_LargeRedPaletteColorLookupTableData: { tag: '(0028,1211)', keyword: 'RETIRED_LargeRedPaletteColorLookupTableData', vr: 'OW', vm: [1, 1] },
+    RETIRED_LargeGreenPaletteColorLookupTableData: { tag: '(0028,1212)', keyword: 'RETIRED_LargeGreenPaletteColorLookupTableData', vr: 'OW', vm: [1, 1] },
+    RETIRED_LargeBluePaletteColorLookupTableData: { tag: '(0028,1213)', keyword: 'RETIRED_LargeBluePaletteColorLookupTableData', vr: 'OW', vm: [1, 1] },
+    RETIRED_LargePaletteColorLookupTableUID: { tag: '(0028,1214)', keyword: 'RETIRED_LargePaletteColorLookupTableUID', vr: 'UI', vm: [1, 1] },
+    SegmentedRedPaletteColorLookupTableData: { tag: '(0028,1221)', keyword: 'SegmentedRedPaletteColorLookupTableData', vr: 'OW', vm: [1, 1] },
+    SegmentedGreenPaletteColorLookupTableData: { tag: '(0028,1222)', keyword: 'SegmentedGreenPaletteColorLookupTableData', vr: 'OW', vm: [1, 1] },
+    SegmentedBluePaletteColorLookupTableData: { tag: '(0028,1223)', keyword: 'SegmentedBluePaletteColorLookupTableData', vr: 'OW', vm: [1, 1] },
+    SegmentedAlphaPaletteColorLookupTableData: { tag: '(0028,1224)', keyword: 'SegmentedAlphaPaletteColorLookupTableData', vr: 'OW', vm: [1, 1] },
+    StoredValueColorRangeSequence: { tag: '(0028,1230)', keyword: 'StoredValueColorRangeSequence', vr: 'SQ', vm: [1, 1] },
+    MinimumStoredValueMapped: { tag: '(0028,1231)', keyword: 'MinimumStoredValueMapped', vr: 'FD', vm: [1, 1] },
+    MaximumStoredValueMapped: { tag: '(0028,1232)', keyword: 'MaximumStoredValueMapped', vr: 'FD', vm: [1, 1] },
+    BreastImplantPresent: { tag: '(0028,1300)', keyword: 'BreastImplantPresent', vr: 'CS', vm: [1, 1] },
+    PartialView: { tag: '(0028,1350)', keyword: 'PartialView', vr: 'CS', vm: [1, 1] },
+    PartialViewDescription: { tag: '(0028,1351)', keyword: 'PartialViewDescription', vr: 'ST', vm: [1, 1] },
+    PartialViewCodeSequence: { tag: '(0028,1352)', keyword: 'PartialViewCodeSequence', vr: 'SQ', vm: [1, 1] },
+    SpatialLocationsPreserved: { tag: '(0028,135A)', keyword: 'SpatialLocationsPreserved', vr: 'CS', vm: [1, 1] },
+    DataFrameAssignmentSequence: { tag: '(0028,1401)', keyword: 'DataFrameAssignmentSequence', vr: 'SQ', vm: [1, 1] },
+    DataPathAssignment: { tag: '(0028,1402)', keyword: 'DataPathAssignment', vr: 'CS', vm: [1, 1] },
+    BitsMappedToColorLookupTable: { tag: '(0028,1403)', keyword: 'BitsMappedToColorLookupTable', vr: 'US', vm: [1, 1] },
+    BlendingLUT1Sequence: { tag: '(0028,1404)', keyword: 'BlendingLUT1Sequence', vr: 'SQ', vm: [1, 1] },
+    BlendingLUT1TransferFunction: { tag: '(0028,1405)', keyword: 'BlendingLUT1TransferFunction', vr: 'CS', vm: [1, 1] },
+    BlendingWeightConstant: { tag: '(0028,1406)', keyword: 'BlendingWeightConstant', vr: 'FD', vm: [1, 1] },
+    BlendingLookupTableDescriptor: { tag: '(0028,1407)', keyword: 'BlendingLookupTableDescriptor', vr: 'US', vm: [3, 3] },
+    BlendingLookupTableData: { tag: '(0028,1408)', keyword: 'BlendingLookupTableData', vr: 'OW', vm: [1, 1] },
+    EnhancedPaletteColorLookupTableSequence: { tag: '(0028,140B)', keyword: 'EnhancedPaletteColorLookupTableSequence', vr: 'SQ', vm: [1, 1] },
+    BlendingLUT2Sequence: { tag: '(0028,140C)', keyword: 'BlendingLUT2Sequence', vr: 'SQ', vm: [1, 1] },
+    BlendingLUT2TransferFunction: { tag: '(0028,140D)', keyword: 'BlendingLUT2TransferFunction', vr: 'CS', vm: [1, 1] },
+    DataPathID: { tag: '(0028,140E)', keyword: 'DataPathID', vr: 'CS', vm: [1, 1] },
+    RGBLUTTransferFunction: { tag: '(0028,140F)', keyword: 'RGBLUTTransferFunction', vr: 'CS', vm: [1, 1] },
+    AlphaLUTTransferFunction: { tag: '(0028,1410)', keyword: 'AlphaLUTTransferFunction', vr: 'CS', vm: [1, 1] },
+    ICCProfile: { tag: '(0028,2000)', keyword: 'ICCProfile', vr: 'OB', vm: [1, 1] },
+    ColorSpace: { tag: '(0028,2002)', keyword: 'ColorSpace', vr: 'CS', vm: [1, 1] },
+    LossyImageCompression: { tag: '(0028,2110)', keyword: 'LossyImageCompression', vr: 'CS', vm: [1, 1] },
+    LossyImageCompressionRatio: { tag: '(0028,2112)', keyword: 'LossyImageCompressionRatio', vr: 'DS', vm: [1, null] },
+    LossyImageCompressionMethod: { tag: '(0028,2114)', keyword: 'LossyImageCompressionMethod', vr: 'CS', vm: [1, null] },
+    ModalityLUTSequence: { tag: '(0028,3000)', keyword: 'ModalityLUTSequence', vr: 'SQ', vm: [1, 1] },
+    LUTDescriptor: { tag: '(0028,3002)', keyword: 'LUTDescriptor', vr: 'US', vm: [3, 3] },
+    LUTExplanation: { tag: '(0028,3003)', keyword: 'LUTExplanation', vr: 'LO', vm: [1, 1] },
+    ModalityLUTType: { tag: '(0028,3004)', keyword: 'ModalityLUTType', vr: 'LO', vm: [1, 1] },
+    LUTData: { tag: '(0028,3006)', keyword: 'LUTData', vr: 'OW', vm: [1, null] },
+    VOILUTSequence: { tag: '(0028,3010)', keyword: 'VOILUTSequence', vr: 'SQ', vm: [1, 1] },
+    SoftcopyVOILUTSequence: { tag: '(0028,3110)', keyword: 'SoftcopyVOILUTSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ImagePresentationComments: { tag: '(0028,4000)', keyword: 'RETIRED_ImagePresentationComments', vr: 'LT', vm: [1, 1] },
+    RETIRED_BiPlaneAcquisitionSequence: { tag: '(0028,5000)', keyword: 'RETIRED_BiPlaneAcquisitionSequence', vr: 'SQ', vm: [1, 1] },
+    RepresentativeFrameNumber: { tag: '(0028,6010)', keyword: 'RepresentativeFrameNumber', vr: 'US', vm: [1, 1] },
+    FrameNumbersOfInterest: { tag: '(0028,6020)', keyword: 'FrameNumbersOfInterest', vr: 'US', vm: [1, null] },
+    FrameOfInterestDescription: { tag: '(0028,6022)', keyword: 'FrameOfInterestDescription', vr: 'LO', vm: [1, null] },
+    FrameOfInterestType: { tag: '(0028,6023)', keyword: 'FrameOfInterestType', vr: 'CS', vm: [1, null] },
+    RETIRED_MaskPointers: { tag: '(0028,6030)', keyword: 'RETIRED_MaskPointers', vr: 'US', vm: [1, null] },
+    RWavePointer: { tag: '(0028,6040)', keyword: 'RWavePointer', vr: 'US', vm: [1, null] },
+    MaskSubtractionSequence: { tag: '(0028,6100)', keyword: 'MaskSubtractionSequence', vr: 'SQ', vm: [1, 1] },
+    MaskOperation: { tag: '(0028,6101)', keyword: 'MaskOperation', vr: 'CS', vm: [1, 1] },
+    ApplicableFrameRange: { tag: '(0028,6102)', keyword: 'ApplicableFrameRange', vr: 'US', vm: [2, null] },
+    MaskFrameNumbers: { tag: '(0028,6110)', keyword: 'MaskFrameNumbers', vr: 'US', vm: [1, null] },
+    ContrastFrameAveraging: { tag: '(0028,6112)', keyword: 'ContrastFrameAveraging', vr: 'US', vm: [1, 1] },
+    MaskSubPixelShift: { tag: '(0028,6114)', keyword: 'MaskSubPixelShift', vr: 'FL', vm: [2, 2] },
+    TIDOffset: { tag: '(0028,6120)', keyword: 'TIDOffset', vr: 'SS', vm: [1, 1] },
+    MaskOperationExplanation: { tag: '(0028,6190)', keyword: 'MaskOperationExplanation', vr: 'ST', vm: [1, 1] },
+    EquipmentAdministratorSequence: { tag: '(0028,7000)', keyword: 'EquipmentAdministratorSequence', vr: 'SQ', vm: [1, 1] },
+    NumberOfDisplaySubsystems: { tag: '(0028,7001)', keyword: 'NumberOfDisplaySubsystems', vr: 'US', vm: [1, 1] },
+    CurrentConfigurationID: { tag: '(0028,7002)', keyword: 'CurrentConfigurationID', vr: 'US', vm: [1, 1] },
+    DisplaySubsystemID: { tag: '(0028,7003)', keyword: 'DisplaySubsystemID', vr: 'US', vm: [1, 1] },
+    DisplaySubsystemName: { tag: '(0028,7004)', keyword: 'DisplaySubsystemName', vr: 'SH', vm: [1, 1] },
+    DisplaySubsystemDescription: { tag: '(0028,7005)', keyword: 'DisplaySubsystemDescription', vr: 'LO', vm: [1, 1] },
+    SystemStatus: { tag: '(0028,7006)', keyword: 'SystemStatus', vr: 'CS', vm: [1, 1] },
+    SystemStatusComment: { tag: '(0028,7007)', keyword: 'SystemStatusComment', vr: 'LO', vm: [1, 1] },
+    TargetLuminanceCharacteristicsSequence: { tag: '(0028,7008)', keyword: 'TargetLuminanceCharacteristicsSequence', vr: 'SQ', vm: [1, 1] },
+    LuminanceCharacteristicsID: { tag: '(0028,7009)', keyword: 'LuminanceCharacteristicsID', vr: 'US', vm: [1, 1] },
+    DisplaySubsystemConfigurationSequence: { tag: '(0028,700A)', keyword: 'DisplaySubsystemConfigurationSequence', vr: 'SQ', vm: [1, 1] },
+    ConfigurationID: { tag: '(0028,700B)', keyword: 'ConfigurationID', vr: 'US', vm: [1, 1] },
+    ConfigurationName: { tag: '(0028,700C)', keyword: 'ConfigurationName', vr: 'SH', vm: [1, 1] },
+    ConfigurationDescription: { tag: '(0028,700D)', keyword: 'ConfigurationDescription', vr: 'LO', vm: [1, 1] },
+    ReferencedTargetLuminanceCharacteristicsID: { tag: '(0028,700E)', keyword: 'ReferencedTargetLuminanceCharacteristicsID', vr: 'US', vm: [1, 1] },
+    QAResultsSequence: { tag: '(0028,700F)', keyword: 'QAResultsSequence', vr: 'SQ', vm: [1, 1] },
+    DisplaySubsystemQAResultsSequence: { tag: '(0028,7010)', keyword: 'DisplaySubsystemQAResultsSequence', vr: 'SQ', vm: [1, 1] },
+    ConfigurationQAResultsSequence: { tag: '(0028,7011)', keyword: 'ConfigurationQAResultsSequence', vr: 'SQ', vm: [1, 1] },
+    MeasurementEquipmentSequence: { tag: '(0028,7012)', keyword: 'MeasurementEquipmentSequence', vr: 'SQ', vm: [1, 1] },
+    MeasurementFunctions: { tag: '(0028,7013)', keyword: 'MeasurementFunctions', vr: 'CS', vm: [1, null] },
+    MeasurementEquipmentType: { tag: '(0028,7014)', keyword: 'MeasurementEquipmentType', vr: 'CS', vm: [1, 1] },
+    VisualEvaluationResultSequence: { tag: '(0028,7015)', keyword: 'VisualEvaluationResultSequence', vr: 'SQ', vm: [1, 1] },
+    DisplayCalibrationResultSequence: { tag: '(0028,7016)', keyword: 'DisplayCalibrationResultSequence', vr: 'SQ', vm: [1, 1] },
+    DDLValue: { tag: '(0028,7017)', keyword: 'DDLValue', vr: 'US', vm: [1, 1] },
+    CIExyWhitePoint: { tag: '(0028,7018)', keyword: 'CIExyWhitePoint', vr: 'FL', vm: [2, 2] },
+    DisplayFunctionType: { tag: '(0028,7019)', keyword: 'DisplayFunctionType', vr: 'CS', vm: [1, 1] },
+    GammaValue: { tag: '(0028,701A)', keyword: 'GammaValue', vr: 'FL', vm: [1, 1] },
+    NumberOfLuminancePoints: { tag: '(0028,701B)', keyword: 'NumberOfLuminancePoints', vr: 'US', vm: [1, 1] },
+    LuminanceResponseSequence: { tag: '(0028,701C)', keyword: 'LuminanceResponseSequence', vr: 'SQ', vm: [1, 1] },
+    TargetMinimumLuminance: { tag: '(0028,701D)', keyword: 'TargetMinimumLuminance', vr: 'FL', vm: [1, 1] },
+    TargetMaximumLuminance: { tag: '(0028,701E)', keyword: 'TargetMaximumLuminance', vr: 'FL', vm: [1, 1] },
+    LuminanceValue: { tag: '(0028,701F)', keyword: 'LuminanceValue', vr: 'FL', vm: [1, 1] },
+    LuminanceResponseDescription: { tag: '(0028,7020)', keyword: 'LuminanceResponseDescription', vr: 'LO', vm: [1, 1] },
+    WhitePointFlag: { tag: '(0028,7021)', keyword: 'WhitePointFlag', vr: 'CS', vm: [1, 1] },
+    DisplayDeviceTypeCodeSequence: { tag: '(0028,7022)', keyword: 'DisplayDeviceTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    DisplaySubsystemSequence: { tag: '(0028,7023)', keyword: 'DisplaySubsystemSequence', vr: 'SQ', vm: [1, 1] },
+    LuminanceResultSequence: { tag: '(0028,7024)', keyword: 'LuminanceResultSequence', vr: 'SQ', vm: [1, 1] },
+    AmbientLightValueSource: { tag: '(0028,7025)', keyword: 'AmbientLightValueSource', vr: 'CS', vm: [1, 1] },
+    MeasuredCharacteristics: { tag: '(0028,7026)', keyword: 'MeasuredCharacteristics', vr: 'CS', vm: [1, null] },
+    LuminanceUniformityResultSequence: { tag: '(0028,7027)', keyword: 'LuminanceUniformityResultSequence', vr: 'SQ', vm: [1, 1] },
+    VisualEvaluationTestSequence: { tag: '(0028,7028)', keyword: 'VisualEvaluationTestSequence', vr: 'SQ', vm: [1, 1] },
+    TestResult: { tag: '(0028,7029)', keyword: 'TestResult', vr: 'CS', vm: [1, 1] },
+    TestResultComment: { tag: '(0028,702A)', keyword: 'TestResultComment', vr: 'LO', vm: [1, 1] },
+    TestImageValidation: { tag: '(0028,702B)', keyword: 'TestImageValidation', vr: 'CS', vm: [1, 1] },
+    TestPatternCodeSequence: { tag: '(0028,702C)', keyword: 'TestPatternCodeSequence', vr: 'SQ', vm: [1, 1] },
+    MeasurementPatternCodeSequence: { tag: '(0028,702D)', keyword: 'MeasurementPatternCodeSequence', vr: 'SQ', vm: [1, 1] },
+    VisualEvaluationMethodCodeSequence: { tag: '(0028,702E)', keyword: 'VisualEvaluationMethodCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PixelDataProviderURL: { tag: '(0028,7FE0)', keyword: 'PixelDataProviderURL', vr: 'UR', vm: [1, 1] },
+    DataPointRows: { tag: '(0028,9001)', keyword: 'DataPointRows', vr: 'UL', vm: [1, 1] },
+    DataPointColumns: { tag: '(0028,9002)', keyword: 'DataPointColumns', vr: 'UL', vm: [1, 1] },
+    SignalDomainColumns: { tag: '(0028,9003)', keyword: 'SignalDomainColumns', vr: 'CS', vm: [1, 1] },
+    RETIRED_LargestMonochromePixelValue: { tag: '(0028,9099)', keyword: 'RETIRED_LargestMonochromePixelValue', vr: 'US', vm: [1, 1] },
+    DataRepresentation: { tag: '(0028,9108)', keyword: 'DataRepresentation', vr: 'CS', vm: [1, 1] },
+    PixelMeasuresSequence: { tag: '(0028,9110)', keyword: 'PixelMeasuresSequence', vr: 'SQ', vm: [1, 1] },
+    FrameVOILUTSequence: { tag: '(0028,9132)', keyword: 'FrameVOILUTSequence', vr: 'SQ', vm: [1, 1] },
+    PixelValueTransformationSequence: { tag: '(0028,9145)', keyword: 'PixelValueTransformationSequence', vr: 'SQ', vm: [1, 1] },
+    SignalDomainRows: { tag: '(0028,9235)', keyword: 'SignalDomainRows', vr: 'CS', vm: [1, 1] },
+    DisplayFilterPercentage: { tag: '(0028,9411)', keyword: 'DisplayFilterPercentage', vr: 'FL', vm: [1, 1] },
+    FramePixelShiftSequence: { tag: '(0028,9415)', keyword: 'FramePixelShiftSequence', vr: 'SQ', vm: [1, 1] },
+    SubtractionItemID: { tag: '(0028,9416)', keyword: 'SubtractionItemID', vr: 'US', vm: [1, 1] },
+    PixelIntensityRelationshipLUTSequence: { tag: '(0028,9422)', keyword: 'PixelIntensityRelationshipLUTSequence', vr: 'SQ', vm: [1, 1] },
+    FramePixelDataPropertiesSequence: { tag: '(0028,9443)', keyword: 'FramePixelDataPropertiesSequence', vr: 'SQ', vm: [1, 1] },
+    GeometricalProperties: { tag: '(0028,9444)', keyword: 'GeometricalProperties', vr: 'CS', vm: [1, 1] },
+    GeometricMaximumDistortion: { tag: '(0028,9445)', keyword: 'GeometricMaximumDistortion', vr: 'FL', vm: [1, 1] },
+    ImageProcessingApplied: { tag: '(0028,9446)', keyword: 'ImageProcessingApplied', vr: 'CS', vm: [1, null] },
+    MaskSelectionMode: { tag: '(0028,9454)', keyword: 'MaskSelectionMode', vr: 'CS', vm: [1, 1] },
+    LUTFunction: { tag: '(0028,9474)', keyword: 'LUTFunction', vr: 'CS', vm: [1, 1] },
+    MaskVisibilityPercentage: { tag: '(0028,9478)', keyword: 'MaskVisibilityPercentage', vr: 'FL', vm: [1, 1] },
+    PixelShiftSequence: { tag: '(0028,9501)', keyword: 'PixelShiftSequence', vr: 'SQ', vm: [1, 1] },
+    RegionPixelShiftSequence: { tag: '(0028,9502)', keyword: 'RegionPixelShiftSequence', vr: 'SQ', vm: [1, 1] },
+    VerticesOfTheRegion: { tag: '(0028,9503)', keyword: 'VerticesOfTheRegion', vr: 'SS', vm: [2, null] },
+    MultiFramePresentationSequence: { tag: '(0028,9505)', keyword: 'MultiFramePresentationSequence', vr: 'SQ', vm: [1, 1] },
+    PixelShiftFrameRange: { tag: '(0028,9506)', keyword: 'PixelShiftFrameRange', vr: 'US', vm: [2, null] },
+    LUTFrameRange: { tag: '(0028,9507)', keyword: 'LUTFrameRange', vr: 'US', vm: [2, null] },
+    ImageToEquipmentMappingMatrix: { tag: '(0028,9520)', keyword: 'ImageToEquipmentMappingMatrix', vr: 'DS', vm: [22, 22] },
+    EquipmentCoordinateSystemIdentification: { tag: '(0028,9537)', keyword: 'EquipmentCoordinateSystemIdentification', vr: 'CS', vm: [1, 1] },
+    RETIRED_StudyStatusID: { tag: '(0032,000A)', keyword: 'RETIRED_StudyStatusID', vr: 'CS', vm: [1, 1] },
+    RETIRED_StudyPriorityID: { tag: '(0032,000C)', keyword: 'RETIRED_StudyPriorityID', vr: 'CS', vm: [1, 1] },
+    RETIRED_StudyIDIssuer: { tag: '(0032,0012)', keyword: 'RETIRED_StudyIDIssuer', vr: 'LO', vm: [1, 1] },
+    RETIRED_StudyVerifiedDate: { tag: '(0032,0032)', keyword: 'RETIRED_StudyVerifiedDate', vr: 'DA', vm: [1, 1] },
+    RETIRED_StudyVerifiedTime: { tag: '(0032,0033)', keyword: 'RETIRED_StudyVerifiedTime', vr: 'TM', vm: [1, 1] },
+    RETIRED_StudyReadDate: { tag: '(0032,0034)', keyword: 'RETIRED_StudyReadDate', vr: 'DA', vm: [1, 1] },
+    RETIRED_StudyReadTime: { tag: '(0032,0035)', keyword: 'RETIRED_StudyReadTime', vr: 'TM', vm: [1, 1] },
+    RETIRED_ScheduledStudyStartDate: { tag: '(0032,1000)', keyword: 'RETIRED_ScheduledStudyStartDate', vr: 'DA', vm: [1, 1] },
+    RETIRED_ScheduledStudyStartTime: { tag: '(0032,1001)', keyword: 'RETIRED_ScheduledStudyStartTime', vr: 'TM', vm: [1, 1] },
+    RETIRED_ScheduledStudyStopDate: { tag: '(0032,1010)', keyword: 'RETIRED_ScheduledStudyStopDate', vr: 'DA', vm: [1, 1] },
+    RETIRED_ScheduledStudyStopTime: { tag: '(0032,1011)', keyword: 'RETIRED_ScheduledStudyStopTime', vr: 'TM', vm: [1, 1] },
+    RETIRED_ScheduledStudyLocation: { tag: '(0032,1020)', keyword: 'RETIRED_ScheduledStudyLocation', vr: 'LO', vm: [1, 1] },
+    RETIRED_ScheduledStudyLocationAETitle: { tag: '(0032,1021)', keyword: 'RETIRED_ScheduledStudyLocationAETitle', vr: 'AE', vm: [1, null] },
+    RETIRED_ReasonForStudy: { tag: '(0032,1030)', keyword: 'RETIRED_ReasonForStudy', vr: 'LO', vm: [1, 1] },
+    RequestingPhysicianIdentificationSequence: { tag: '(0032,1031)', keyword: 'RequestingPhysicianIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    RequestingPhysician: { tag: '(0032,1032)', keyword: 'RequestingPhysician', vr: 'PN', vm: [1, 1] },
+    RequestingService: { tag: '(0032,1033)', keyword: 'RequestingService', vr: 'LO', vm: [1, 1] },
+    RequestingServiceCodeSequence: { tag: '(0032,1034)', keyword: 'RequestingServiceCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_StudyArrivalDate: { tag: '(0032,1040)', keyword: 'RETIRED_StudyArrivalDate', vr: 'DA', vm: [1, 1] },
+    RETIRED_StudyArrivalTime: { tag: '(0032,1041)', keyword: 'RETIRED_StudyArrivalTime', vr: 'TM', vm: [1, 1] },
+    RETIRED_StudyCompletionDate: { tag: '(0032,1050)', keyword: 'RETIRED_StudyCompletionDate', vr: 'DA', vm: [1, 1] },
+    RETIRED_StudyCompletionTime: { tag: '(0032,1051)', keyword: 'RETIRED_StudyCompletionTime', vr: 'TM', vm: [1, 1] },
+    RETIRED_StudyComponentStatusID: { tag: '(0032,1055)', keyword: 'RETIRED_StudyComponentStatusID', vr: 'CS', vm: [1, 1] },
+    RequestedProcedureDescription: { tag: '(0032,1060)', keyword: 'RequestedProcedureDescription', vr: 'LO', vm: [1, 1] },
+    RequestedProcedureCodeSequence: { tag: '(0032,1064)', keyword: 'RequestedProcedureCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ReasonForVisit: { tag: '(0032,1066)', keyword: 'ReasonForVisit', vr: 'UT', vm: [1, 1] },
+    ReasonForVisitCodeSequence: { tag: '(0032,1067)', keyword: 'ReasonForVisitCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RequestedContrastAgent: { tag: '(0032,1070)', keyword: 'RequestedContrastAgent', vr: 'LO', vm: [1, 1] },
+    RETIRED_StudyComments: { tag: '(0032,4000)', keyword: 'RETIRED_StudyComments', vr: 'LT', vm: [1, 1] },
+    FlowIdentifierSequence: { tag: '(0034,0001)', keyword: 'FlowIdentifierSequence', vr: 'SQ', vm: [1, 1] },
+    FlowIdentifier: { tag: '(0034,0002)', keyword: 'FlowIdentifier', vr: 'OB', vm: [1, 1] },
+    FlowTransferSyntaxUID: { tag: '(0034,0003)', keyword: 'FlowTransferSyntaxUID', vr: 'UI', vm: [1, 1] },
+    FlowRTPSamplingRate: { tag: '(0034,0004)', keyword: 'FlowRTPSamplingRate', vr: 'UL', vm: [1, 1] },
+    SourceIdentifier: { tag: '(0034,0005)', keyword: 'SourceIdentifier', vr: 'OB', vm: [1, 1] },
+    FrameOriginTimestamp: { tag: '(0034,0007)', keyword: 'FrameOriginTimestamp', vr: 'OB', vm: [1, 1] },
+    IncludesImagingSubject: { tag: '(0034,0008)', keyword: 'IncludesImagingSubject', vr: 'CS', vm: [1, 1] },
+    FrameUsefulnessGroupSequence: { tag: '(0034,0009)', keyword: 'FrameUsefulnessGroupSequence', vr: 'SQ', vm: [1, 1] },
+    RealTimeBulkDataFlowSequence: { tag: '(0034,000A)', keyword: 'RealTimeBulkDataFlowSequence', vr: 'SQ', vm: [1, 1] },
+    CameraPositionGroupSequence: { tag: '(0034,000B)', keyword: 'CameraPositionGroupSequence', vr: 'SQ', vm: [1, 1] },
+    IncludesInformation: { tag: '(0034,000C)', keyword: 'IncludesInformation', vr: 'CS', vm: [1, 1] },
+    TimeOfFrameGroupSequence: { tag: '(0034,000D)', keyword: 'TimeOfFrameGroupSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedPatientAliasSequence: { tag: '(0038,0004)', keyword: 'ReferencedPatientAliasSequence', vr: 'SQ', vm: [1, 1] },
+    VisitStatusID: { tag: '(0038,0008)', keyword: 'VisitStatusID', vr: 'CS', vm: [1, 1] },
+    AdmissionID: { tag: '(0038,0010)', keyword: 'AdmissionID', vr: 'LO', vm: [1, 1] },
+    RETIRED_IssuerOfAdmissionID: { tag: '(0038,0011)', keyword: 'RETIRED_IssuerOfAdmissionID', vr: 'LO', vm: [1, 1] },
+    IssuerOfAdmissionIDSequence: { tag: '(0038,0014)', keyword: 'IssuerOfAdmissionIDSequence', vr: 'SQ', vm: [1, 1] },
+    RouteOfAdmissions: { tag: '(0038,0016)', keyword: 'RouteOfAdmissions', vr: 'LO', vm: [1, 1] },
+    RETIRED_ScheduledAdmissionDate: { tag: '(0038,001A)', keyword: 'RETIRED_ScheduledAdmissionDate', vr: 'DA', vm: [1, 1] },
+    RETIRED_ScheduledAdmissionTime: { tag: '(0038,001B)', keyword: 'RETIRED_ScheduledAdmissionTime', vr: 'TM', vm: [1, 1] },
+    RETIRED_ScheduledDischargeDate: { tag: '(0038,001C)', keyword: 'RETIRED_ScheduledDischargeDate', vr: 'DA', vm: [1, 1] },
+    RETIRED_ScheduledDischargeTime: { tag: '(0038,001D)', keyword: 'RETIRED_ScheduledDischargeTime', vr: 'TM', vm: [1, 1] },
+    RETIRED_ScheduledPatientInstitutionResidence: { tag: '(0038,001E)', keyword: 'RETIRED_ScheduledPatientInstitutionResidence', vr: 'LO', vm: [1, 1] },
+    AdmittingDate: { tag: '(0038,0020)', keyword: 'AdmittingDate', vr: 'DA', vm: [1, 1] },
+    AdmittingTime: { tag: '(0038,0021)', keyword: 'AdmittingTime', vr: 'TM', vm: [1, 1] },
+    RETIRED_DischargeDate: { tag: '(0038,0030)', keyword: 'RETIRED_DischargeDate', vr: 'DA', vm: [1, 1] },
+    RETIRED_DischargeTime: { tag: '(0038,0032)', keyword: 'RETIRED_DischargeTime', vr: 'TM', vm: [1, 1] },
+    RETIRED_DischargeDiagnosisDescription: { tag: '(0038,0040)', keyword: 'RETIRED_DischargeDiagnosisDescription', vr: 'LO', vm: [1, 1] },
+    RETIRED_DischargeDiagnosisCodeSequence: { tag: '(0038,0044)', keyword: 'RETIRED_DischargeDiagnosisCodeSequence', vr: 'SQ', vm: [1, 1] },
+    SpecialNeeds: { tag: '(0038,0050)', keyword: 'SpecialNeeds', vr: 'LO', vm: [1, 1] },
+    ServiceEpisodeID: { tag: '(0038,0060)', keyword: 'ServiceEpisodeID', vr: 'LO', vm: [1, 1] },
+    RETIRED_IssuerOfServiceEpisodeID: { tag: '(0038,0061)', keyword: 'RETIRED_IssuerOfServiceEpisodeID', vr: 'LO', vm: [1, 1] },
+    ServiceEpisodeDescription: { tag: '(0038,0062)', keyword: 'ServiceEpisodeDescription', vr: 'LO', vm: [1, 1] },
+    IssuerOfServiceEpisodeIDSequence: { tag: '(0038,0064)', keyword: 'IssuerOfServiceEpisodeIDSequence', vr: 'SQ', vm: [1, 1] },
+    PertinentDocumentsSequence: { tag: '(0038,0100)', keyword: 'PertinentDocumentsSequence', vr: 'SQ', vm: [1, 1] },
+    PertinentResourcesSequence: { tag: '(0038,0101)', keyword: 'PertinentResourcesSequence', vr: 'SQ', vm: [1, 1] },
+    ResourceDescription: { tag: '(0038,0102)', keyword: 'ResourceDescription', vr: 'LO', vm: [1, 1] },
+    CurrentPatientLocation: { tag: '(0038,0300)', keyword: 'CurrentPatientLocation', vr: 'LO', vm: [1, 1] },
+    PatientInstitutionResidence: { tag: '(0038,0400)', keyword: 'PatientInstitutionResidence', vr: 'LO', vm: [1, 1] },
+    PatientState: { tag: '(0038,0500)', keyword: 'PatientState', vr: 'LO', vm: [1, 1] },
+    PatientClinicalTrialParticipationSequence: { tag: '(0038,0502)', keyword: 'PatientClinicalTrialParticipationSequence', vr: 'SQ', vm: [1, 1] },
+    VisitComments: { tag: '(0038,4000)', keyword: 'VisitComments', vr: 'LT', vm: [1, 1] },
+    WaveformOriginality: { tag: '(003A,0004)', keyword: 'WaveformOriginality', vr: 'CS', vm: [1, 1] },
+    NumberOfWaveformChannels: { tag: '(003A,0005)', keyword: 'NumberOfWaveformChannels', vr: 'US', vm: [1, 1] },
+    NumberOfWaveformSamples: { tag: '(003A,0010)', keyword: 'NumberOfWaveformSamples', vr: 'UL', vm: [1, 1] },
+    SamplingFrequency: { tag: '(003A,001A)', keyword: 'SamplingFrequency', vr: 'DS', vm: [1, 1] },
+    MultiplexGroupLabel: { tag: '(003A,0020)', keyword: 'MultiplexGroupLabel', vr: 'SH', vm: [1, 1] },
+    ChannelDefinitionSequence: { tag: '(003A,0200)', keyword: 'ChannelDefinitionSequence', vr: 'SQ', vm: [1, 1] },
+    WaveformChannelNumber: { tag: '(003A,0202)', keyword: 'WaveformChannelNumber', vr: 'IS', vm: [1, 1] },
+    ChannelLabel: { tag: '(003A,0203)', keyword: 'ChannelLabel', vr: 'SH', vm: [1, 1] },
+    ChannelStatus: { tag: '(003A,0205)', keyword: 'ChannelStatus', vr: 'CS', vm: [1, null] },
+    ChannelSourceSequence: { tag: '(003A,0208)', keyword: 'ChannelSourceSequence', vr: 'SQ', vm: [1, 1] },
+    ChannelSourceModifiersSequence: { tag: '(003A,0209)', keyword: 'ChannelSourceModifiersSequence', vr: 'SQ', vm: [1, 1] },
+    SourceWaveformSequence: { tag: '(003A,020A)', keyword: 'SourceWaveformSequence', vr: 'SQ', vm: [1, 1] },
+    ChannelDerivationDescription: { tag: '(003A,020C)', keyword: 'ChannelDerivationDescription', vr: 'LO', vm: [1, 1] },
+    ChannelSensitivity: { tag: '(003A,0210)', keyword: 'ChannelSensitivity', vr: 'DS', vm: [1, 1] },
+    ChannelSensitivityUnitsSequence: { tag: '(003A,0211)', keyword: 'ChannelSensitivityUnitsSequence', vr: 'SQ', vm: [1, 1] },
+    ChannelSensitivityCorrectionFactor: { tag: '(003A,0212)', keyword: 'ChannelSensitivityCorrectionFactor', vr: 'DS', vm: [1, 1] },
+    ChannelBaseline: { tag: '(003A,0213)', keyword: 'ChannelBaseline', vr: 'DS', vm: [1, 1] },
+    ChannelTimeSkew: { tag: '(003A,0214)', keyword: 'ChannelTimeSkew', vr: 'DS', vm: [1, 1] },
+    ChannelSampleSkew: { tag: '(003A,0215)', keyword: 'ChannelSampleSkew', vr: 'DS', vm: [1, 1] },
+    ChannelOffset: { tag: '(003A,0218)', keyword: 'ChannelOffset', vr: 'DS', vm: [1, 1] },
+    WaveformBitsStored: { tag: '(003A,021A)', keyword: 'WaveformBitsStored', vr: 'US', vm: [1, 1] },
+    FilterLowFrequency: { tag: '(003A,0220)', keyword: 'FilterLowFrequency', vr: 'DS', vm: [1, 1] },
+    FilterHighFrequency: { tag: '(003A,0221)', keyword: 'FilterHighFrequency', vr: 'DS', vm: [1, 1] },
+    NotchFilterFrequency: { tag: '(003A,0222)', keyword: 'NotchFilterFrequency', vr: 'DS', vm: [1, 1] },
+    NotchFilterBandwidth: { tag: '(003A,0223)', keyword: 'NotchFilterBandwidth', vr: 'DS', vm: [1, 1] },
+    WaveformDataDisplayScale: { tag: '(003A,0230)', keyword: 'WaveformDataDisplayScale', vr: 'FL', vm: [1, 1] },
+    WaveformDisplayBackgroundCIELabValue: { tag: '(003A,0231)', keyword: 'WaveformDisplayBackgroundCIELabValue', vr: 'US', vm: [3, 3] },
+    WaveformPresentationGroupSequence: { tag: '(003A,0240)', keyword: 'WaveformPresentationGroupSequence', vr: 'SQ', vm: [1, 1] },
+    PresentationGroupNumber: { tag: '(003A,0241)', keyword: 'PresentationGroupNumber', vr: 'US', vm: [1, 1] },
+    ChannelDisplaySequence: { tag: '(003A,0242)', keyword: 'ChannelDisplaySequence', vr: 'SQ', vm: [1, 1] },
+    ChannelRecommendedDisplayCIELabValue: { tag: '(003A,0244)', keyword: 'ChannelRecommendedDisplayCIELabValue', vr: 'US', vm: [3, 3] },
+    ChannelPosition: { tag: '(003A,0245)', keyword: 'ChannelPosition', vr: 'FL', vm: [1, 1] },
+    DisplayShadingFlag: { tag: '(003A,0246)', keyword: 'DisplayShadingFlag', vr: 'CS', vm: [1, 1] },
+    FractionalChannelDisplayScale: { tag: '(003A,0247)', keyword: 'FractionalChannelDisplayScale', vr: 'FL', vm: [1, 1] },
+    AbsoluteChannelDisplayScale: { tag: '(003A,0248)', keyword: 'AbsoluteChannelDisplayScale', vr: 'FL', vm: [1, 1] },
+    MultiplexedAudioChannelsDescriptionCodeSequence: { tag: '(003A,0300)', keyword: 'MultiplexedAudioChannelsDescriptionCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ChannelIdentificationCode: { tag: '(003A,0301)', keyword: 'ChannelIdentificationCode', vr: 'IS', vm: [1, 1] },
+    ChannelMode: { tag: '(003A,0302)', keyword: 'ChannelMode', vr: 'CS', vm: [1, 1] },
+    MultiplexGroupUID: { tag: '(003A,0310)', keyword: 'MultiplexGroupUID', vr: 'UI', vm: [1, 1] },
+    PowerlineFrequency: { tag: '(003A,0311)', keyword: 'PowerlineFrequency', vr: 'DS', vm: [1, 1] },
+    ChannelImpedanceSequence: { tag: '(003A,0312)', keyword: 'ChannelImpedanceSequence', vr: 'SQ', vm: [1, 1] },
+    ImpedanceValue: { tag: '(003A,0313)', keyword: 'ImpedanceValue', vr: 'DS', vm: [1, 1] },
+    ImpedanceMeasurementDateTime: { tag: '(003A,0314)', keyword: 'ImpedanceMeasurementDateTime', vr: 'DT', vm: [1, 1] },
+    ImpedanceMeasurementFrequency: { tag: '(003A,0315)', keyword: 'ImpedanceMeasurementFrequency', vr: 'DS', vm: [1, 1] },
+    ImpedanceMeasurementCurrentType: { tag: '(003A,0316)', keyword: 'ImpedanceMeasurementCurrentType', vr: 'CS', vm: [1, 1] },
+    ScheduledStationAETitle: { tag: '(0040,0001)', keyword: 'ScheduledStationAETitle', vr: 'AE', vm: [1, null] },
+    ScheduledProcedureStepStartDate: { tag: '(0040,0002)', keyword: 'ScheduledProcedureStepStartDate', vr: 'DA', vm: [1, 1] },
+    ScheduledProcedureStepStartTime: { tag: '(0040,0003)', keyword: 'ScheduledProcedureStepStartTime', vr: 'TM', vm: [1, 1] },
+    ScheduledProcedureStepEndDate: { tag: '(0040,0004)', keyword: 'ScheduledProcedureStepEndDate', vr: 'DA', vm: [1, 1] },
+    ScheduledProcedureStepEndTime: { tag: '(0040,0005)', keyword: 'ScheduledProcedureStepEndTime', vr: 'TM', vm: [1, 1] },
+    ScheduledPerformingPhysicianName: { tag: '(0040,0006)', keyword: 'ScheduledPerformingPhysicianName', vr: 'PN', vm: [1, 1] },
+    ScheduledProcedureStepDescription: { tag: '(0040,0007)', keyword: 'ScheduledProcedureStepDescription', vr: 'LO', vm: [1, 1] },
+    ScheduledProtocolCodeSequence: { tag: '(0040,0008)', keyword: 'ScheduledProtocolCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ScheduledProcedureStepID: { tag: '(0040,0009)', keyword: 'ScheduledProcedureStepID', vr: 'SH', vm: [1, 1] },
+    StageCodeSequence: { tag: '(0040,000A)', keyword: 'StageCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ScheduledPerformingPhysicianIdentificationSequence: {
+        tag: '(0040,000B)',
+        keyword: 'ScheduledPerformingPhysicianIdentificationSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    ScheduledStationName: { tag: '(0040,0010)', keyword: 'ScheduledStationName', vr: 'SH', vm: [1, null] },
+    ScheduledProcedureStepLocation: { tag: '(0040,0011)', keyword: 'ScheduledProcedureStepLocation', vr: 'SH', vm: [1, 1] },
+    PreMedication: { tag: '(0040,0012)', keyword: 'PreMedication', vr: 'LO', vm: [1, 1] },
+    ScheduledProcedureStepStatus: { tag: '(0040,0020)', keyword: 'ScheduledProcedureStepStatus', vr: 'CS', vm: [1, 1] },
+    OrderPlacerIdentifierSequence: { tag: '(0040,0026)', keyword: 'OrderPlacerIdentifierSequence', vr: 'SQ', vm: [1, 1] },
+    OrderFillerIdentifierSequence: { tag: '(0040,0027)', keyword: 'OrderFillerIdentifierSequence', vr: 'SQ', vm: [1, 1] },
+    LocalNamespaceEntityID: { tag: '(0040,0031)', keyword: 'LocalNamespaceEntityID', vr: 'UT', vm: [1, 1] },
+    UniversalEntityID: { tag: '(0040,0032)', keyword: 'UniversalEntityID', vr: 'UT', vm: [1, 1] },
+    UniversalEntityIDType: { tag: '(0040,0033)', keyword: 'UniversalEntityIDType', vr: 'CS', vm: [1, 1] },
+    IdentifierTypeCode: { tag: '(0040,0035)', keyword: 'IdentifierTypeCode', vr: 'CS', vm: [1, 1] },
+    AssigningFacilitySequence: { tag: '(0040,0036)', keyword: 'AssigningFacilitySequence', vr: 'SQ', vm: [1, 1] },
+    AssigningJurisdictionCodeSequence: { tag: '(0040,0039)', keyword: 'AssigningJurisdictionCodeSequence', vr: 'SQ', vm: [1, 1] },
+    AssigningAgencyOrDepartmentCodeSequence: { tag: '(0040,003A)', keyword: 'AssigningAgencyOrDepartmentCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ScheduledProcedureStepSequence: { tag: '(0040,0100)', keyword: 'ScheduledProcedureStepSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedNonImageCompositeSOPInstanceSequence: { tag: '(0040,0220)', keyword: 'ReferencedNonImageCompositeSOPInstanceSequence', vr: 'SQ', vm: [1, 1] },
+    PerformedStationAETitle: { tag: '(0040,0241)', keyword: 'PerformedStationAETitle', vr: 'AE', vm: [1, 1] },
+    PerformedStationName: { tag: '(0040,0242)', keyword: 'PerformedStationName', vr: 'SH', vm: [1, 1] },
+    PerformedLocation: { tag: '(0040,0243)', keyword: 'PerformedLocation', vr: 'SH', vm: [1, 1] },
+    PerformedProcedureStepStartDate: { tag: '(0040,0244)', keyword: 'PerformedProcedureStepStartDate', vr: 'DA', vm: [1, 1] },
+    PerformedProcedureStepStartTime: { tag: '(0040,0245)', keyword: 'PerformedProcedureStepStartTime', vr: 'TM', vm: [1, 1] },
+    PerformedProcedureStepEndDate: { tag: '(0040,0250)', keyword: 'PerformedProcedureStepEndDate', vr: 'DA', vm: [1, 1] },
+    PerformedProcedureStepEndTime: { tag: '(0040,0251)', keyword: 'PerformedProcedureStepEndTime', vr: 'TM', vm: [1, 1] },
+    PerformedProcedureStepStatus: { tag: '(0040,0252)', keyword: 'PerformedProcedureStepStatus', vr: 'CS', vm: [1, 1] },
+    PerformedProcedureStepID: { tag: '(0040,0253)', keyword: 'PerformedProcedureStepID', vr: 'SH', vm: [1, 1] },
+    PerformedProcedureStepDescription: { tag: '(0040,0254)', keyword: 'PerformedProcedureStepDescription', vr: 'LO', vm: [1, 1] },
+    PerformedProcedureTypeDescription: { tag: '(0040,0255)', keyword: 'PerformedProcedureTypeDescription', vr: 'LO', vm: [1, 1] },
+    PerformedProtocolCodeSequence: { tag: '(0040,0260)', keyword: 'PerformedProtocolCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PerformedProtocolType: { tag: '(0040,0261)', keyword: 'PerformedProtocolType', vr: 'CS', vm: [1, 1] },
+    ScheduledStepAttributesSequence: { tag: '(0040,0270)', keyword: 'ScheduledStepAttributesSequence', vr: 'SQ', vm: [1, 1] },
+    RequestAttributesSequence: { tag: '(0040,0275)', keyword: 'RequestAttributesSequence', vr: 'SQ', vm: [1, 1] },
+    CommentsOnThePerformedProcedureStep: { tag: '(0040,0280)', keyword: 'CommentsOnThePerformedProcedureStep', vr: 'ST', vm: [1, 1] },
+    PerformedProcedureStepDiscontinuationReasonCodeSequence: {
+        tag: '(0040,0281)',
+        keyword: 'PerformedProcedureStepDiscontinuationReasonCodeSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    QuantitySequence: { tag: '(0040,0293)', keyword: 'QuantitySequence', vr: 'SQ', vm: [1, 1] },
+    Quantity: { tag: '(0040,0294)', keyword: 'Quantity', vr: 'DS', vm: [1, 1] },
+    MeasuringUnitsSequence: { tag: '(0040,0295)', keyword: 'MeasuringUnitsSequence', vr: 'SQ', vm: [1, 1] },
+    BillingItemSequence: { tag: '(0040,0296)', keyword: 'BillingItemSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_TotalTimeOfFluoroscopy: { tag: '(0040,0300)', keyword: 'RETIRED_TotalTimeOfFluoroscopy', vr: 'US', vm: [1, 1] },
+    RETIRED_TotalNumberOfExposures: { tag: '(0040,0301)', keyword: 'RETIRED_TotalNumberOfExposures', vr: 'US', vm: [1, 1] },
+    EntranceDose: { tag: '(0040,0302)', keyword: 'EntranceDose', vr: 'US', vm: [1, 1] },
+    ExposedArea: { tag: '(0040,0303)', keyword: 'ExposedArea', vr: 'US', vm: [1, 2] },
+    DistanceSourceToEntrance: { tag: '(0040,0306)', keyword: 'DistanceSourceToEntrance', vr: 'DS', vm: [1, 1] },
+    RETIRED_DistanceSourceToSupport: { tag: '(0040,0307)', keyword: 'RETIRED_DistanceSourceToSupport', vr: 'DS', vm: [1, 1] },
+    RETIRED_ExposureDoseSequence: { tag: '(0040,030E)', keyword: 'RETIRED_ExposureDoseSequence', vr: 'SQ', vm: [1, 1] },
+    CommentsOnRadiationDose: { tag: '(0040,0310)', keyword: 'CommentsOnRadiationDose', vr: 'ST', vm: [1, 1] },
+    XRayOutput: { tag: '(0040,0312)', keyword: 'XRayOutput', vr: 'DS', vm: [1, 1] },
+    HalfValueLayer: { tag: '(0040,0314)', keyword: 'HalfValueLayer', vr: 'DS', vm: [1, 1] },
+    OrganDose: { tag: '(0040,0316)', keyword: 'OrganDose', vr: 'DS', vm: [1, 1] },
+    OrganExposed: { tag: '(0040,0318)', keyword: 'OrganExposed', vr: 'CS', vm: [1, 1] },
+    BillingProcedureStepSequence: { tag: '(0040,0320)', keyword: 'BillingProcedureStepSequence', vr: 'SQ', vm: [1, 1] },
+    FilmConsumptionSequence: { tag: '(0040,0321)', keyword: 'FilmConsumptionSequence', vr: 'SQ', vm: [1, 1] },
+    BillingSuppliesAndDevicesSequence: { tag: '(0040,0324)', keyword: 'BillingSuppliesAndDevicesSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ReferencedProcedureStepSequence: { tag: '(0040,0330)', keyword: 'RETIRED_ReferencedProcedureStepSequence', vr: 'SQ', vm: [1, 1] },
+    PerformedSeriesSequence: { tag: '(0040,0340)', keyword: 'PerformedSeriesSequence', vr: 'SQ', vm: [1, 1] },
+    CommentsOnTheScheduledProcedureStep: { tag: '(0040,0400)', keyword: 'CommentsOnTheScheduledProcedureStep', vr: 'LT', vm: [1, 1] },
+    ProtocolContextSequence: { tag: '(0040,0440)', keyword: 'ProtocolContextSequence', vr: 'SQ', vm: [1, 1] },
+    ContentItemModifierSequence: { tag: '(0040,0441)', keyword: 'ContentItemModifierSequence', vr: 'SQ', vm: [1, 1] },
+    ScheduledSpecimenSequence: { tag: '(0040,0500)', keyword: 'ScheduledSpecimenSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_SpecimenAccessionNumber: { tag: '(0040,050A)', keyword: 'RETIRED_SpecimenAccessionNumber', vr: 'LO', vm: [1, 1] },
+    ContainerIdentifier: { tag: '(0040,0512)', keyword: 'ContainerIdentifier', vr: 'LO', vm: [1, 1] },
+    IssuerOfTheContainerIdentifierSequence: { tag: '(0040,0513)', keyword: 'IssuerOfTheContainerIdentifierSequence', vr: 'SQ', vm: [1, 1] },
+    AlternateContainerIdentifierSequence: { tag: '(0040,0515)', keyword: 'AlternateContainerIdentifierSequence', vr: 'SQ', vm: [1, 1] },
+    ContainerTypeCodeSequence: { tag: '(0040,0518)', keyword: 'ContainerTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ContainerDescription: { tag: '(0040,051A)', keyword: 'ContainerDescription', vr: 'LO', vm: [1, 1] },
+    ContainerComponentSequence: { tag: '(0040,0520)', keyword: 'ContainerComponentSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_SpecimenSequence: { tag: '(0040,0550)', keyword: 'RETIRED_SpecimenSequence', vr: 'SQ', vm: [1, 1] },
+    SpecimenIdentifier: { tag: '(0040,0551)', keyword: 'SpecimenIdentifier', vr: 'LO', vm: [1, 1] },
+    RETIRED_SpecimenDescriptionSequenceTrial: { tag: '(0040,0552)', keyword: 'RETIRED_SpecimenDescriptionSequenceTrial', vr: 'SQ', vm: [1, 1] },
+    RETIRED_SpecimenDescriptionTrial: { tag: '(0040,0553)', keyword: 'RETIRED_SpecimenDescriptionTrial', vr: 'ST', vm: [1, 1] },
+    SpecimenUID: { tag: '(0040,0554)', keyword: 'SpecimenUID', vr: 'UI', vm: [1, 1] },
+    AcquisitionContextSequence: { tag: '(0040,0555)', keyword: 'AcquisitionContextSequence', vr: 'SQ', vm: [1, 1] },
+    AcquisitionContextDescription: { tag: '(0040,0556)', keyword: 'AcquisitionContextDescription', vr: 'ST', vm: [1, 1] },
+    SpecimenDescriptionSequence: { tag: '(0040,0560)', keyword: 'SpecimenDescriptionSequence', vr: 'SQ', vm: [1, 1] },
+    IssuerOfTheSpecimenIdentifierSequence: { tag: '(0040,0562)', keyword: 'IssuerOfTheSpecimenIdentifierSequence', vr: 'SQ', vm: [1, 1] },
+    SpecimenTypeCodeSequence: { tag: '(0040,059A)', keyword: 'SpecimenTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    SpecimenShortDescription: { tag: '(0040,0600)', keyword: 'SpecimenShortDescription', vr: 'LO', vm: [1, 1] },
+    SpecimenDetailedDescription: { tag: '(0040,0602)', keyword: 'SpecimenDetailedDescription', vr: 'UT', vm: [1, 1] },
+    SpecimenPreparationSequence: { tag: '(0040,0610)', keyword: 'SpecimenPreparationSequence', vr: 'SQ', vm: [1, 1] },
+    SpecimenPreparationStepContentItemSequence: { tag: '(0040,0612)', keyword: 'SpecimenPreparationStepContentItemSequence', vr: 'SQ', vm: [1, 1] },
+    SpecimenLocalizationContentItemSequence: { tag: '(0040,0620)', keyword: 'SpecimenLocalizationContentItemSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_SlideIdentifier: { tag: '(0040,06FA)', keyword: 'RETIRED_SlideIdentifier', vr: 'LO', vm: [1, 1] },
+    WholeSlideMicroscopyImageFrameTypeSequence: { tag: '(0040,0710)', keyword: 'WholeSlideMicroscopyImageFrameTypeSequence', vr: 'SQ', vm: [1, 1] },
+    ImageCenterPointCoordinatesSequence: { tag: '(0040,071A)', keyword: 'ImageCenterPointCoordinatesSequence', vr: 'SQ', vm: [1, 1] },
+    XOffsetInSlideCoordinateSystem: { tag: '(0040,072A)', keyword: 'XOffsetInSlideCoordinateSystem', vr: 'DS', vm: [1, 1] },
+    YOffsetInSlideCoordinateSystem: { tag: '(0040,073A)', keyword: 'YOffsetInSlideCoordinateSystem', vr: 'DS', vm: [1, 1] },
+    ZOffsetInSlideCoordinateSystem: { tag: '(0040,074A)', keyword: 'ZOffsetInSlideCoordinateSystem', vr: 'DS', vm: [1, 1] },
+    RETIRED_PixelSpacingSequence: { tag: '(0040,08D8)', keyword: 'RETIRED_PixelSpacingSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_CoordinateSystemAxisCodeSequence: { tag: '(0040,08DA)', keyword: 'RETIRED_CoordinateSystemAxisCodeSequence', vr: 'SQ', vm: [1, 1] },
+    MeasurementUnitsCodeSequence: { tag: '(0040,08EA)', keyword: 'MeasurementUnitsCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_VitalStainCodeSequenceTrial: { tag: '(0040,09F8)', keyword: 'RETIRED_VitalStainCodeSequenceTrial', vr: 'SQ', vm: [1, 1] },
+    RequestedProcedureID: { tag: '(0040,1001)', keyword: 'RequestedProcedureID', vr: 'SH', vm: [1, 1] },
+    ReasonForTheRequestedProcedure: { tag: '(0040,1002)', keyword: 'ReasonForTheRequestedProcedure', vr: 'LO', vm: [1, 1] },
+    RequestedProcedurePriority: { tag: '(0040,1003)', keyword: 'RequestedProcedurePriority', vr: 'SH', vm: [1, 1] },
+    PatientTransportArrangements: { tag: '(0040,1004)', keyword: 'PatientTransportArrangements', vr: 'LO', vm: [1, 1] },
+    RequestedProcedureLocation: { tag: '(0040,1005)', keyword: 'RequestedProcedureLocation', vr: 'LO', vm: [1, 1] },
+    RETIRED_PlacerOrderNumberProcedure: { tag: '(0040,1006)', keyword: 'RETIRED_PlacerOrderNumberProcedure', vr: 'SH', vm: [1, 1] },
+    RETIRED_FillerOrderNumberProcedure: { tag: '(0040,1007)', keyword: 'RETIRED_FillerOrderNumberProcedure', vr: 'SH', vm: [1, 1] },
+    ConfidentialityCode: { tag: '(0040,1008)', keyword: 'ConfidentialityCode', vr: 'LO', vm: [1, 1] },
+    ReportingPriority: { tag: '(0040,1009)', keyword: 'ReportingPriority', vr: 'SH', vm: [1, 1] },
+    ReasonForRequestedProcedureCodeSequence: { tag: '(0040,100A)', keyword: 'ReasonForRequestedProcedureCodeSequence', vr: 'SQ', vm: [1, 1] },
+    NamesOfIntendedRecipientsOfResults: { tag: '(0040,1010)', keyword: 'NamesOfIntendedRecipientsOfResults', vr: 'PN', vm: [1, null] },
+    IntendedRecipientsOfResultsIdentificationSequence: {
+        tag: '(0040,1011)',
+        keyword: 'IntendedRecipientsOfResultsIdentificationSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    ReasonForPerformedProcedureCodeSequence: { tag: '(0040,1012)', keyword: 'ReasonForPerformedProcedureCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_RequestedProcedureDescriptionTrial: { tag: '(0040,1060)', keyword: 'RETIRED_RequestedProcedureDescriptionTrial', vr: 'LO', vm: [1, 1] },
+    PersonIdentificationCodeSequence: { tag: '(0040,1101)', keyword: 'PersonIdentificationCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PersonAddress: { tag: '(0040,1102)', keyword: 'PersonAddress', vr: 'ST', vm: [1, 1] },
+    PersonTelephoneNumbers: { tag: '(0040,1103)', keyword: 'PersonTelephoneNumbers', vr: 'LO', vm: [1, null] },
+    PersonTelecomInformation: { tag: '(0040,1104)', keyword: 'PersonTelecomInformation', vr: 'LT', vm: [1, 1] },
+    RequestedProcedureComments: { tag: '(0040,1400)', keyword: 'RequestedProcedureComments', vr: 'LT', vm: [1, 1] },
+    RETIRED_ReasonForTheImagingServiceRequest: { tag: '(0040,2001)', keyword: 'RETIRED_ReasonForTheImagingServiceRequest', vr: 'LO', vm: [1, 1] },
+    IssueDateOfImagingServiceRequest: { tag: '(0040,2004)', keyword: 'IssueDateOfImagingServiceRequest', vr: 'DA', vm: [1, 1] },
+    IssueTimeOfImagingServiceRequest: { tag: '(0040,2005)', keyword: 'IssueTimeOfImagingServiceRequest', vr: 'TM', vm: [1, 1] },
+    RETIRED_PlacerOrderNumberImagingServiceRequestRetired: {
+        tag: '(0040,2006)',
+        keyword: 'RETIRED_PlacerOrderNumberImagingServiceRequestRetired',
+        vr: 'SH',
+        vm: [1, 1],
+    },
+    RETIRED_FillerOrderNumberImagingServiceRequestRetired: {
+        tag: '(0040,2007)',
+        keyword: 'RETIRED_FillerOrderNumberImagingServiceRequestRetired',
+        vr: 'SH',
+        vm: [1, 1],
+    },
+    OrderEnteredBy: { tag: '(0040,2008)', keyword: 'OrderEnteredBy', vr: 'PN', vm: [1, 1] },
+    OrderEntererLocation: { tag: '(0040,2009)', keyword: 'OrderEntererLocation', vr: 'SH', vm: [1, 1] },
+    OrderCallbackPhoneNumber: { tag: '(0040,2010)', keyword: 'OrderCallbackPhoneNumber', vr: 'SH', vm: [1, 1] },
+    OrderCallbackTelecomInformation: { tag: '(0040,2011)', keyword: 'OrderCallbackTelecomInformation', vr: 'LT', vm: [1, 1] },
+    PlacerOrderNumberImagingServiceRequest: { tag: '(0040,2016)', keyword: 'PlacerOrderNumberImagingServiceRequest', vr: 'LO', vm: [1, 1] },
+    FillerOrderNumberImagingServiceRequest: { tag: '(0040,2017)', keyword: 'FillerOrderNumberImagingServiceRequest', vr: 'LO', vm: [1, 1] },
+    ImagingServiceRequestComments: { tag: '(0040,2400)', keyword: 'ImagingServiceRequestComments', vr: 'LT', vm: [1, 1] },
+    ConfidentialityConstraintOnPatientDataDescription: {
+        tag: '(0040,3001)',
+        keyword: 'ConfidentialityConstraintOnPatientDataDescription',
+        vr: 'LO',
+        vm: [1, 1],
+    },
+    RETIRED_GeneralPurposeScheduledProcedureStepStatus: {
+        tag: '(0040,4001)',
+        keyword: 'RETIRED_GeneralPurposeScheduledProcedureStepStatus',
+        vr: 'CS',
+        vm: [1, 1],
+    },
+    RETIRED_GeneralPurposePerformedProcedureStepStatus: {
+        tag: '(0040,4002)',
+        keyword: 'RETIRED_GeneralPurposePerformedProcedureStepStatus',
+        vr: 'CS',
+        vm: [1, 1],
+    },
+    RETIRED_GeneralPurposeScheduledProcedureStepPriority: {
+        tag: '(0040,4003)',
+        keyword: 'RETIRED_GeneralPurposeScheduledProcedureStepPriority',
+        vr: 'CS',
+        vm: [1, 1],
+    },
+    RETIRED_ScheduledProcessingApplicationsCodeSequence: {
+        tag: '(0040,4004)',
+        keyword: 'RETIRED_ScheduledProcessingApplicationsCodeSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    ScheduledProcedureStepStartDateTime: { tag: '(0040,4005)', keyword: 'ScheduledProcedureStepStartDateTime', vr: 'DT', vm: [1, 1] },
+    RETIRED_MultipleCopiesFlag: { tag: '(0040,4006)', keyword: 'RETIRED_MultipleCopiesFlag', vr: 'CS', vm: [1, 1] },
+    RETIRED_PerformedProcessingApplicationsCodeSequence: {
+        tag: '(0040,4007)',
+        keyword: 'RETIRED_PerformedProcessingApplicationsCodeSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    ScheduledProcedureStepExpirationDateTime: { tag: '(0040,4008)', keyword: 'ScheduledProcedureStepExpirationDateTime', vr: 'DT', vm: [1, 1] },
+    HumanPerformerCodeSequence: { tag: '(0040,4009)', keyword: 'HumanPerformerCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ScheduledProcedureStepModificationDateTime: { tag: '(0040,4010)', keyword: 'ScheduledProcedureStepModificationDateTime', vr: 'DT', vm: [1, 1] },
+    ExpectedCompletionDateTime: { tag: '(0040,4011)', keyword: 'ExpectedCompletionDateTime', vr: 'DT', vm: [1, 1] },
+    RETIRED_ResultingGeneralPurposePerformedProcedureStepsSequence: {
+        tag: '(0040,4015)',
+        keyword: 'RETIRED_ResultingGeneralPurposePerformedProcedureStepsSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    RETIRED_ReferencedGeneralPurposeScheduledProcedureStepSequence: {
+        tag: '(0040,4016)',
+        keyword: 'RETIRED_ReferencedGeneralPurposeScheduledProcedureStepSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    ScheduledWorkitemCodeSequence: { tag: '(0040,4018)', keyword: 'ScheduledWorkitemCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PerformedWorkitemCodeSequence: { tag: '(0040,4019)', keyword: 'PerformedWorkitemCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_InputAvailabilityFlag: { tag: '(0040,4020)', keyword: 'RETIRED_InputAvailabilityFlag', vr: 'CS', vm: [1, 1] },
+    InputInformationSequence: { tag: '(0040,4021)', keyword: 'InputInformationSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_RelevantInformationSequence: { tag: '(0040,4022)', keyword: 'RETIRED_RelevantInformationSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ReferencedGeneralPurposeScheduledProcedureStepTransactionUID: {
+        tag: '(0040,4023)',
+        keyword: 'RETIRED_ReferencedGeneralPurposeScheduledProcedureStepTransactionUID',
+        vr: 'UI',
+        vm: [1, 1],
+    },
+    ScheduledStationNameCodeSequence: { tag: '(0040,4025)', keyword: 'ScheduledStationNameCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ScheduledStationClassCodeSequence: { tag: '(0040,4026)', keyword: 'ScheduledStationClassCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ScheduledStationGeographicLocationCodeSequence: { tag: '(0040,4027)', keyword: 'ScheduledStationGeographicLocationCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PerformedStationNameCodeSequence: { tag: '(0040,4028)', keyword: 'PerformedStationNameCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PerformedStationClassCodeSequence: { tag: '(0040,4029)', keyword: 'PerformedStationClassCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PerformedStationGeographicLocationCodeSequence: { tag: '(0040,4030)', keyword: 'PerformedStationGeographicLocationCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_RequestedSubsequentWorkitemCodeSequence: { tag: '(0040,4031)', keyword: 'RETIRED_RequestedSubsequentWorkitemCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_NonDICOMOutputCodeSequence: { tag: '(0040,4032)', keyword: 'RETIRED_NonDICOMOutputCodeSequence', vr: 'SQ', vm: [1, 1] },
+    OutputInformationSequence: { tag: '(0040,4033)', keyword: 'OutputInformationSequence', vr: 'SQ', vm: [1, 1] },
+    ScheduledHumanPerformersSequence: { tag: '(0040,4034)', keyword: 'ScheduledHumanPerformersSequence', vr: 'SQ', vm: [1, 1] },
+    ActualHumanPerformersSequence: { tag: '(0040,4035)', keyword: 'ActualHumanPerformersSequence', vr: 'SQ', vm: [1, 1] },
+    HumanPerformerOrganization: { tag: '(0040,4036)', keyword: 'HumanPerformerOrganization', vr: 'LO', vm: [1, 1] },
+    HumanPerformerName: { tag: '(0040,4037)', keyword: 'HumanPerformerName', vr: 'PN', vm: [1, 1] },
+    RawDataHandling: { tag: '(0040,4040)', keyword: 'RawDataHandling', vr: 'CS', vm: [1, 1] },
+    InputReadinessState: { tag: '(0040,4041)', keyword: 'InputReadinessState', vr: 'CS', vm: [1, 1] },
+    PerformedProcedureStepStartDateTime: { tag: '(0040,4050)', keyword: 'PerformedProcedureStepStartDateTime', vr: 'DT', vm: [1, 1] },
+    PerformedProcedureStepEndDateTime: { tag: '(0040,4051)', keyword: 'PerformedProcedureStepEndDateTime', vr: 'DT', vm: [1, 1] },
+    ProcedureStepCancellationDateTime: { tag: '(0040,4052)', keyword: 'ProcedureStepCancellationDateTime', vr: 'DT', vm: [1, 1] },
+    OutputDestinationSequence: { tag: '(0040,4070)', keyword: 'OutputDestinationSequence', vr: 'SQ', vm: [1, 1] },
+    DICOMStorageSequence: { tag: '(0040,4071)', keyword: 'DICOMStorageSequence', vr: 'SQ', vm: [1, 1] },
+    STOWRSStorageSequence: { tag: '(0040,4072)', keyword: 'STOWRSStorageSequence', vr: 'SQ', vm: [1, 1] },
+    StorageURL: { tag: '(0040,4073)', keyword: 'StorageURL', vr: 'UR', vm: [1, 1] },
+    XDSStorageSequence: { tag: '(0040,4074)', keyword: 'XDSStorageSequence', vr: 'SQ', vm: [1, 1] },
+    EntranceDoseInmGy: { tag: '(0040,8302)', keyword: 'EntranceDoseInmGy', vr: 'DS', vm: [1, 1] },
+    EntranceDoseDerivation: { tag: '(0040,8303)', keyword: 'EntranceDoseDerivation', vr: 'CS', vm: [1, 1] },
+    ParametricMapFrameTypeSequence: { tag: '(0040,9092)', keyword: 'ParametricMapFrameTypeSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedImageRealWorldValueMappingSequence: { tag: '(0040,9094)', keyword: 'ReferencedImageRealWorldValueMappingSequence', vr: 'SQ', vm: [1, 1] },
+    RealWorldValueMappingSequence: { tag: '(0040,9096)', keyword: 'RealWorldValueMappingSequence', vr: 'SQ', vm: [1, 1] },
+    PixelValueMappingCodeSequence: { tag: '(0040,9098)', keyword: 'PixelValueMappingCodeSequence', vr: 'SQ', vm: [1, 1] },
+    LUTLabel: { tag: '(0040,9210)', keyword: 'LUTLabel', vr: 'SH', vm: [1, 1] },
+    RealWorldValueLastValueMapped: { tag: '(0040,9211)', keyword: 'RealWorldValueLastValueMapped', vr: 'US', vm: [1, 1] },
+    RealWorldValueLUTData: { tag: '(0040,9212)', keyword: 'RealWorldValueLUTData', vr: 'FD', vm: [1, null] },
+    DoubleFloatRealWorldValueLastValueMapped: { tag: '(0040,9213)', keyword: 'DoubleFloatRealWorldValueLastValueMapped', vr: 'FD', vm: [1, 1] },
+    DoubleFloatRealWorldValueFirstValueMapped: { tag: '(0040,9214)', keyword: 'DoubleFloatRealWorldValueFirstValueMapped', vr: 'FD', vm: [1, 1] },
+    RealWorldValueFirstValueMapped: { tag: '(0040,9216)', keyword: 'RealWorldValueFirstValueMapped', vr: 'US', vm: [1, 1] },
+    QuantityDefinitionSequence: { tag: '(0040,9220)', keyword: 'QuantityDefinitionSequence', vr: 'SQ', vm: [1, 1] },
+    RealWorldValueIntercept: { tag: '(0040,9224)', keyword: 'RealWorldValueIntercept', vr: 'FD', vm: [1, 1] },
+    RealWorldValueSlope: { tag: '(0040,9225)', keyword: 'RealWorldValueSlope', vr: 'FD', vm: [1, 1] },
+    RETIRED_FindingsFlagTrial: { tag: '(0040,A007)', keyword: 'RETIRED_FindingsFlagTrial', vr: 'CS', vm: [1, 1] },
+    RelationshipType: { tag: '(0040,A010)', keyword: 'RelationshipType', vr: 'CS', vm: [1, 1] },
+    RETIRED_FindingsSequenceTrial: { tag: '(0040,A020)', keyword: 'RETIRED_FindingsSequenceTrial', vr: 'SQ', vm: [1, 1] },
+    RETIRED_FindingsGroupUIDTrial: { tag: '(0040,A021)', keyword: 'RETIRED_FindingsGroupUIDTrial', vr: 'UI', vm: [1, 1] },
+    RETIRED_ReferencedFindingsGroupUIDTrial: { tag: '(0040,A022)', keyword: 'RETIRED_ReferencedFindingsGroupUIDTrial', vr: 'UI', vm: [1, 1] },
+    RETIRED_FindingsGroupRecordingDateTrial: { tag: '(0040,A023)', keyword: 'RETIRED_FindingsGroupRecordingDateTrial', vr: 'DA', vm: [1, 1] },
+    RETIRED_FindingsGroupRecordingTimeTrial: { tag: '(0040,A024)', keyword: 'RETIRED_FindingsGroupRecordingTimeTrial', vr: 'TM', vm: [1, 1] },
+    RETIRED_FindingsSourceCategoryCodeSequenceTrial: { tag: '(0040,A026)', keyword: 'RETIRED_FindingsSourceCategoryCodeSequenceTrial', vr: 'SQ', vm: [1, 1] },
+    VerifyingOrganization: { tag: '(0040,A027)', keyword: 'VerifyingOrganization', vr: 'LO', vm: [1, 1] },
+    RETIRED_DocumentingOrganizationIdentifierCodeSequenceTrial: {
+        tag: '(0040,A028)',
+        keyword: 'RETIRED_DocumentingOrganizationIdentifierCodeSequenceTrial',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    VerificationDateTime: { tag: '(0040,A030)', keyword: 'VerificationDateTime', vr: 'DT', vm: [1, 1] },
+    ObservationDateTime: { tag: '(0040,A032)', keyword: 'ObservationDateTime', vr: 'DT', vm: [1, 1] },
+    ValueType: { tag: '(0040,A040)', keyword: 'ValueType', vr: 'CS', vm: [1, 1] },
+    ConceptNameCodeSequence: { tag: '(0040,A043)', keyword: 'ConceptNameCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_MeasurementPrecisionDescriptionTrial: { tag: '(0040,A047)', keyword: 'RETIRED_MeasurementPrecisionDescriptionTrial', vr: 'LO', vm: [1, 1] },
+    ContinuityOfContent: { tag: '(0040,A050)', keyword: 'ContinuityOfContent', vr: 'CS', vm: [1, 1] },
+    RETIRED_UrgencyOrPriorityAlertsTrial: { tag: '(0040,A057)', keyword: 'RETIRED_UrgencyOrPriorityAlertsTrial', vr: 'CS', vm: [1, null] },
+    RETIRED_SequencingIndicatorTrial: { tag: '(0040,A060)', keyword: 'RETIRED_SequencingIndicatorTrial', vr: 'LO', vm: [1, 1] },
+    RETIRED_DocumentIdentifierCodeSequenceTrial: { tag: '(0040,A066)', keyword: 'RETIRED_DocumentIdentifierCodeSequenceTrial', vr: 'SQ', vm: [1, 1] },
+    RETIRED_DocumentAuthorTrial: { tag: '(0040,A067)', keyword: 'RETIRED_DocumentAuthorTrial', vr: 'PN', vm: [1, 1] },
+    RETIRED_DocumentAuthorIdentifierCodeSequenceTrial: {
+        tag: '(0040,A068)',
+        keyword: 'RETIRED_DocumentAuthorIdentifierCodeSequenceTrial',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    RETIRED_IdentifierCodeSequenceTrial: { tag: '(0040,A070)', keyword: 'RETIRED_IdentifierCodeSequenceTrial', vr: 'SQ', vm: [1, 1] },
+    VerifyingObserverSequence: { tag: '(0040,A073)', keyword: 'VerifyingObserverSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ObjectBinaryIdentifierTrial: { tag: '(0040,A074)', keyword: 'RETIRED_ObjectBinaryIdentifierTrial', vr: 'OB', vm: [1, 1] },
+    VerifyingObserverName: { tag: '(0040,A075)', keyword: 'VerifyingObserverName', vr: 'PN', vm: [1, 1] },
+    RETIRED_DocumentingObserverIdentifierCodeSequenceTrial: {
+        tag: '(0040,A076)',
+        keyword: 'RETIRED_DocumentingObserverIdentifierCodeSequenceTrial',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    AuthorObserverSequence: { tag: '(0040,A078)', keyword: 'AuthorObserverSequence', vr: 'SQ', vm: [1, 1] },
+    ParticipantSequence: { tag: '(0040,A07A)', keyword: 'ParticipantSequence', vr: 'SQ', vm: [1, 1] },
+    CustodialOrganizationSequence: { tag: '(0040,A07C)', keyword: 'CustodialOrganizationSequence', vr: 'SQ', vm: [1, 1] },
+    ParticipationType: { tag: '(0040,A080)', keyword: 'ParticipationType', vr: 'CS', vm: [1, 1] },
+    ParticipationDateTime: { tag: '(0040,A082)', keyword: 'ParticipationDateTime', vr: 'DT', vm: [1, 1] },
+    ObserverType: { tag: '(0040,A084)', keyword: 'ObserverType', vr: 'CS', vm: [1, 1] },
+    RETIRED_ProcedureIdentifierCodeSequenceTrial: { tag: '(0040,A085)', keyword: 'RETIRED_ProcedureIdentifierCodeSequenceTrial', vr: 'SQ', vm: [1, 1] },
+    VerifyingObserverIdentificationCodeSequence: { tag: '(0040,A088)', keyword: 'VerifyingObserverIdentificationCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ObjectDirectoryBinaryIdentifierTrial: { tag: '(0040,A089)', keyword: 'RETIRED_ObjectDirectoryBinaryIdentifierTrial', vr: 'OB', vm: [1, 1] },
+    RETIRED_EquivalentCDADocumentSequence: { tag: '(0040,A090)', keyword: 'RETIRED_EquivalentCDADocumentSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedWaveformChannels: { tag: '(0040,A0B0)', keyword: 'ReferencedWaveformChannels', vr: 'US', vm: [2, null] },
+    RETIRED_DateOfDocumentOrVerbalTransactionTrial: { tag: '(0040,A110)', keyword: 'RETIRED_DateOfDocumentOrVerbalTransactionTrial', vr: 'DA', vm: [1, 1] },
+    RETIRED_TimeOfDocumentCreationOrVerbalTransactionTrial: {
+        tag: '(0040,A112)',
+        keyword: 'RETIRED_TimeOfDocumentCreationOrVerbalTransactionTrial',
+        vr: 'TM',
+        vm: [1, 1],
+    },
+    DateTime: { tag: '(0040,A120)', keyword: 'DateTime', vr: 'DT', vm: [1, 1] },
+    Date: { tag: '(0040,A121)', keyword: 'Date', vr: 'DA', vm: [1, 1] },
+    Time: { tag: '(0040,A122)', keyword: 'Time', vr: 'TM', vm: [1, 1] },
+    PersonName: { tag: '(0040,A123)', keyword: 'PersonName', vr: 'PN', vm: [1, 1] },
+    UID: { tag: '(0040,A124)', keyword: 'UID', vr: 'UI', vm: [1, 1] },
+    RETIRED_ReportStatusIDTrial: { tag: '(0040,A125)', keyword: 'RETIRED_ReportStatusIDTrial', vr: 'CS', vm: [2, 2] },
+    TemporalRangeType: { tag: '(0040,A130)', keyword: 'TemporalRangeType', vr: 'CS', vm: [1, 1] },
+    ReferencedSamplePositions: { tag: '(0040,A132)', keyword: 'ReferencedSamplePositions', vr: 'UL', vm: [1, null] },
+    RETIRED_ReferencedFrameNumbers: { tag: '(0040,A136)', keyword: 'RETIRED_ReferencedFrameNumbers', vr: 'US', vm: [1, null] },
+    ReferencedTimeOffsets: { tag: '(0040,A138)', keyword: 'ReferencedTimeOffsets', vr: 'DS', vm: [1, null] },
+    ReferencedDateTime: { tag: '(0040,A13A)', keyword: 'ReferencedDateTime', vr: 'DT', vm: [1, null] },
+    TextValue: { tag: '(0040,A160)', keyword: 'TextValue', vr: 'UT', vm: [1, 1] },
+    FloatingPointValue: { tag: '(0040,A161)', keyword: 'FloatingPointValue', vr: 'FD', vm: [1, null] },
+    RationalNumeratorValue: { tag: '(0040,A162)', keyword: 'RationalNumeratorValue', vr: 'SL', vm: [1, null] },
+    RationalDenominatorValue: { tag: '(0040,A163)', keyword: 'RationalDenominatorValue', vr: 'UL', vm: [1, null] },
+    RETIRED_ObservationCategoryCodeSequenceTrial: { tag: '(0040,A167)', keyword: 'RETIRED_ObservationCategoryCodeSequenceTrial', vr: 'SQ', vm: [1, 1] },
+    ConceptCodeSequence: { tag: '(0040,A168)', keyword: 'ConceptCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_BibliographicCitationTrial: { tag: '(0040,A16A)', keyword: 'RETIRED_BibliographicCitationTrial', vr: 'ST', vm: [1, 1] },
+    PurposeOfReferenceCodeSequence: { tag: '(0040,A170)', keyword: 'PurposeOfReferenceCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ObservationUID: { tag: '(0040,A171)', keyword: 'ObservationUID', vr: 'UI', vm: [1, 1] },
+    RETIRED_ReferencedObservationUIDTrial: { tag: '(0040,A172)', keyword: 'RETIRED_ReferencedObservationUIDTrial', vr: 'UI', vm: [1, 1] },
+    RETIRED_ReferencedObservationClassTrial: { tag: '(0040,A173)', keyword: 'RETIRED_ReferencedObservationClassTrial', vr: 'CS', vm: [1, 1] },
+    RETIRED_ReferencedObjectObservationClassTrial: { tag: '(0040,A174)', keyword: 'RETIRED_ReferencedObjectObservationClassTrial', vr: 'CS', vm: [1, 1] },
+    AnnotationGroupNumber: { tag: '(0040,A180)', keyword: 'AnnotationGroupNumber', vr: 'US', vm: [1, 1] },
+    RETIRED_ObservationDateTrial: { tag: '(0040,A192)', keyword: 'RETIRED_ObservationDateTrial', vr: 'DA', vm: [1, 1] },
+    RETIRED_ObservationTimeTrial: { tag: '(0040,A193)', keyword: 'RETIRED_ObservationTimeTrial', vr: 'TM', vm: [1, 1] },
+    RETIRED_MeasurementAutomationTrial: { tag: '(0040,A194)', keyword: 'RETIRED_MeasurementAutomationTrial', vr: 'CS', vm: [1, 1] },
+    ModifierCodeSequence: { tag: '(0040,A195)', keyword: 'ModifierCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_IdentificationDescriptionTrial: { tag: '(0040,A224)', keyword: 'RETIRED_IdentificationDescriptionTrial', vr: 'ST', vm: [1, 1] },
+    RETIRED_CoordinatesSetGeometricTypeTrial: { tag: '(0040,A290)', keyword: 'RETIRED_CoordinatesSetGeometricTypeTrial', vr: 'CS', vm: [1, 1] },
+    RETIRED_AlgorithmCodeSequenceTrial: { tag: '(0040,A296)', keyword: 'RETIRED_AlgorithmCodeSequenceTrial', vr: 'SQ', vm: [1, 1] },
+    RETIRED_AlgorithmDescriptionTrial: { tag: '(0040,A297)', keyword: 'RETIRED_AlgorithmDescriptionTrial', vr: 'ST', vm: [1, 1] },
+    RETIRED_PixelCoordinatesSetTrial: { tag: '(0040,A29A)', keyword: 'RETIRED_PixelCoordinatesSetTrial', vr: 'SL', vm: [2, null] },
+    MeasuredValueSequence: { tag: '(0040,A300)', keyword: 'MeasuredValueSequence', vr: 'SQ', vm: [1, 1] },
+    NumericValueQualifierCodeSequence: { tag: '(0040,A301)', keyword: 'NumericValueQualifierCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_CurrentObserverTrial: { tag: '(0040,A307)', keyword: 'RETIRED_CurrentObserverTrial', vr: 'PN', vm: [1, 1] },
+    NumericValue: { tag: '(0040,A30A)', keyword: 'NumericValue', vr: 'DS', vm: [1, null] },
+    RETIRED_ReferencedAccessionSequenceTrial: { tag: '(0040,A313)', keyword: 'RETIRED_ReferencedAccessionSequenceTrial', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ReportStatusCommentTrial: { tag: '(0040,A33A)', keyword: 'RETIRED_ReportStatusCommentTrial', vr: 'ST', vm: [1, 1] },
+    RETIRED_ProcedureContextSequenceTrial: { tag: '(0040,A340)', keyword: 'RETIRED_ProcedureContextSequenceTrial', vr: 'SQ', vm: [1, 1] },
+    RETIRED_VerbalSourceTrial: { tag: '(0040,A352)', keyword: 'RETIRED_VerbalSourceTrial', vr: 'PN', vm: [1, 1] },
+    RETIRED_AddressTrial: { tag: '(0040,A353)', keyword: 'RETIRED_AddressTrial', vr: 'ST', vm: [1, 1] },
+    RETIRED_TelephoneNumberTrial: { tag: '(0040,A354)', keyword: 'RETIRED_TelephoneNumberTrial', vr: 'LO', vm: [1, 1] },
+    RETIRED_VerbalSourceIdentifierCodeSequenceTrial: { tag: '(0040,A358)', keyword: 'RETIRED_VerbalSourceIdentifierCodeSequenceTrial', vr: 'SQ', vm: [1, 1] },
+    PredecessorDocumentsSequence: { tag: '(0040,A360)', keyword: 'PredecessorDocumentsSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedRequestSequence: { tag: '(0040,A370)', keyword: 'ReferencedRequestSequence', vr: 'SQ', vm: [1, 1] },
+    PerformedProcedureCodeSequence: { tag: '(0040,A372)', keyword: 'PerformedProcedureCodeSequence', vr: 'SQ', vm: [1, 1] },
+    CurrentRequestedProcedureEvidenceSequence: { tag: '(0040,A375)', keyword: 'CurrentRequestedProcedureEvidenceSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ReportDetailSequenceTrial: { tag: '(0040,A380)', keyword: 'RETIRED_ReportDetailSequenceTrial', vr: 'SQ', vm: [1, 1] },
+    PertinentOtherEvidenceSequence: { tag: '(0040,A385)', keyword: 'PertinentOtherEvidenceSequence', vr: 'SQ', vm: [1, 1] },
+    HL7StructuredDocumentReferenceSequence: { tag: '(0040,A390)', keyword: 'HL7StructuredDocumentReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ObservationSubjectUIDTrial: { tag: '(0040,A402)', keyword: 'RETIRED_ObservationSubjectUIDTrial', vr: 'UI', vm: [1, 1] },
+    RETIRED_ObservationSubjectClassTrial: { tag: '(0040,A403)', keyword: 'RETIRED_ObservationSubjectClassTrial', vr: 'CS', vm: [1, 1] },
+    RETIRED_ObservationSubjectTypeCodeSequenceTrial: { tag: '(0040,A404)', keyword: 'RETIRED_ObservationSubjectTypeCodeSequenceTrial', vr: 'SQ', vm: [1, 1] },
+    CompletionFlag: { tag: '(0040,A491)', keyword: 'CompletionFlag', vr: 'CS', vm: [1, 1] },
+    CompletionFlagDescription: { tag: '(0040,A492)', keyword: 'CompletionFlagDescription', vr: 'LO', vm: [1, 1] },
+    VerificationFlag: { tag: '(0040,A493)', keyword: 'VerificationFlag', vr: 'CS', vm: [1, 1] },
+    ArchiveRequested: { tag: '(0040,A494)', keyword: 'ArchiveRequested', vr: 'CS', vm: [1, 1] },
+    PreliminaryFlag: { tag: '(0040,A496)', keyword: 'PreliminaryFlag', vr: 'CS', vm: [1, 1] },
+    ContentTemplateSequence: { tag: '(0040,A504)', keyword: 'ContentTemplateSequence', vr: 'SQ', vm: [1, 1] },
+    IdenticalDocumentsSequence: { tag: '(0040,A525)', keyword: 'IdenticalDocumentsSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ObservationSubjectContextFlagTrial: { tag: '(0040,A600)', keyword: 'RETIRED_ObservationSubjectContextFlagTrial', vr: 'CS', vm: [1, 1] },
+    RETIRED_ObserverContextFlagTrial: { tag: '(0040,A601)', keyword: 'RETIRED_ObserverContextFlagTrial', vr: 'CS', vm: [1, 1] },
+    RETIRED_ProcedureContextFlagTrial: { tag: '(0040,A603)', keyword: 'RETIRED_ProcedureContextFlagTrial', vr: 'CS', vm: [1, 1] },
+    ContentSequence: { tag: '(0040,A730)', keyword: 'ContentSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_RelationshipSequenceTrial: { tag: '(0040,A731)', keyword: 'RETIRED_RelationshipSequenceTrial', vr: 'SQ', vm: [1, 1] },
+    RETIRED_RelationshipTypeCodeSequenceTrial: { tag: '(0040,A732)', keyword: 'RETIRED_RelationshipTypeCodeSequenceTrial', vr: 'SQ', vm: [1, 1] },
+    RETIRED_LanguageCodeSequenceTrial: { tag: '(0040,A744)', keyword: 'RETIRED_LanguageCodeSequenceTrial', vr: 'SQ', vm: [1, 1] },
+    TabulatedValuesSequence: { tag: '(0040,A801)', keyword: 'TabulatedValuesSequence', vr: 'SQ', vm: [1, 1] },
+    NumberOfTableRows: { tag: '(0040,A802)', keyword: 'NumberOfTableRows', vr: 'UL', vm: [1, 1] },
+    NumbeOfTableColumns: { tag: '(0040,A803)', keyword: 'NumbeOfTableColumns', vr: 'UL', vm: [1, 1] },
+    TableRowNumber: { tag: '(0040,A804)', keyword: 'TableRowNumber', vr: 'UL', vm: [1, 1] },
+    TableColumnNumber: { tag: '(0040,A805)', keyword: 'TableColumnNumber', vr: 'UL', vm: [1, 1] },
+    TableRowDefinitionSequence: { tag: '(0040,A806)', keyword: 'TableRowDefinitionSequence', vr: 'SQ', vm: [1, 1] },
+    TableColumnDefinitionSequence: { tag: '(0040,A807)', keyword: 'TableColumnDefinitionSequence', vr: 'SQ', vm: [1, 1] },
+    CellValuesSequence: { tag: '(0040,A808)', keyword: 'CellValuesSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_UniformResourceLocatorTrial: { tag: '(0040,A992)', keyword: 'RETIRED_UniformResourceLocatorTrial', vr: 'ST', vm: [1, 1] },
+    WaveformAnnotationSequence: { tag: '(0040,B020)', keyword: 'WaveformAnnotationSequence', vr: 'SQ', vm: [1, 1] },
+    TemplateIdentifier: { tag: '(0040,DB00)', keyword: 'TemplateIdentifier', vr: 'CS', vm: [1, 1] },
+    RETIRED_TemplateVersion: { tag: '(0040,DB06)', keyword: 'RETIRED_TemplateVersion', vr: 'DT', vm: [1, 1] },
+    RETIRED_TemplateLocalVersion: { tag: '(0040,DB07)', keyword: 'RETIRED_TemplateLocalVersion', vr: 'DT', vm: [1, 1] },
+    RETIRED_TemplateExtensionFlag: { tag: '(0040,DB0B)', keyword: 'RETIRED_TemplateExtensionFlag', vr: 'CS', vm: [1, 1] },
+    RETIRED_TemplateExtensionOrganizationUID: { tag: '(0040,DB0C)', keyword: 'RETIRED_TemplateExtensionOrganizationUID', vr: 'UI', vm: [1, 1] },
+    RETIRED_TemplateExtensionCreatorUID: { tag: '(0040,DB0D)', keyword: 'RETIRED_TemplateExtensionCreatorUID', vr: 'UI', vm: [1, 1] },
+    ReferencedContentItemIdentifier: { tag: '(0040,DB73)', keyword: 'ReferencedContentItemIdentifier', vr: 'UL', vm: [1, null] },
+    HL7InstanceIdentifier: { tag: '(0040,E001)', keyword: 'HL7InstanceIdentifier', vr: 'ST', vm: [1, 1] },
+    HL7DocumentEffectiveTime: { tag: '(0040,E004)', keyword: 'HL7DocumentEffectiveTime', vr: 'DT', vm: [1, 1] },
+    HL7DocumentTypeCodeSequence: { tag: '(0040,E006)', keyword: 'HL7DocumentTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    DocumentClassCodeSequence: { tag: '(0040,E008)', keyword: 'DocumentClassCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RetrieveURI: { tag: '(0040,E010)', keyword: 'RetrieveURI', vr: 'UR', vm: [1, 1] },
+    RetrieveLocationUID: { tag: '(0040,E011)', keyword: 'RetrieveLocationUID', vr: 'UI', vm: [1, 1] },
+    TypeOfInstances: { tag: '(0040,E020)', keyword: 'TypeOfInstances', vr: 'CS', vm: [1, 1] },
+    DICOMRetrievalSequence: { tag: '(0040,E021)', keyword: 'DICOMRetrievalSequence', vr: 'SQ', vm: [1, 1] },
+    DICOMMediaRetrievalSequence: { tag: '(0040,E022)', keyword: 'DICOMMediaRetrievalSequence', vr: 'SQ', vm: [1, 1] },
+    WADORetrievalSequence: { tag: '(0040,E023)', keyword: 'WADORetrievalSequence', vr: 'SQ', vm: [1, 1] },
+    XDSRetrievalSequence: { tag: '(0040,E024)', keyword: 'XDSRetrievalSequence', vr: 'SQ', vm: [1, 1] },
+    WADORSRetrievalSequence: { tag: '(0040,E025)', keyword: 'WADORSRetrievalSequence', vr: 'SQ', vm: [1, 1] },
+    RepositoryUniqueID: { tag: '(0040,E030)', keyword: 'RepositoryUniqueID', vr: 'UI', vm: [1, 1] },
+    HomeCommunityID: { tag: '(0040,E031)', keyword: 'HomeCommunityID', vr: 'UI', vm: [1, 1] },
+    DocumentTitle: { tag: '(0042,0010)', keyword: 'DocumentTitle', vr: 'ST', vm: [1, 1] },
+    EncapsulatedDocument: { tag: '(0042,0011)', keyword: 'EncapsulatedDocument', vr: 'OB', vm: [1, 1] },
+    MIMETypeOfEncapsulatedDocument: { tag: '(0042,0012)', keyword: 'MIMETypeOfEncapsulatedDocument', vr: 'LO', vm: [1, 1] },
+    SourceInstanceSequence: { tag: '(0042,0013)', keyword: 'SourceInstanceSequence', vr: 'SQ', vm: [1, 1] },
+    ListOfMIMETypes: { tag: '(0042,0014)', keyword: 'ListOfMIMETypes', vr: 'LO', vm: [1, null] },
+    EncapsulatedDocumentLength: { tag: '(0042,0015)', keyword: 'EncapsulatedDocumentLength', vr: 'UL', vm: [1, 1] },
+    ProductPackageIdentifier: { tag: '(0044,0001)', keyword: 'ProductPackageIdentifier', vr: 'ST', vm: [1, 1] },
+    SubstanceAdministrationApproval: { tag: '(0044,0002)', keyword: 'SubstanceAdministrationApproval', vr: 'CS', vm: [1, 1] },
+    ApprovalStatusFurtherDescription: { tag: '(0044,0003)', keyword: 'ApprovalStatusFurtherDescription', vr: 'LT', vm: [1, 1] },
+    ApprovalStatusDateTime: { tag: '(0044,0004)', keyword: 'ApprovalStatusDateTime', vr: 'DT', vm: [1, 1] },
+    ProductTypeCodeSequence: { tag: '(0044,0007)', keyword: 'ProductTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ProductName: { tag: '(0044,0008)', keyword: 'ProductName', vr: 'LO', vm: [1, null] },
+    ProductDescription: { tag: '(0044,0009)', keyword: 'ProductDescription', vr: 'LT', vm: [1, 1] },
+    ProductLotIdentifier: { tag: '(0044,000A)', keyword: 'ProductLotIdentifier', vr: 'LO', vm: [1, 1] },
+    ProductExpirationDateTime: { tag: '(0044,000B)', keyword: 'ProductExpirationDateTime', vr: 'DT', vm: [1, 1] },
+    SubstanceAdministrationDateTime: { tag: '(0044,0010)', keyword: 'SubstanceAdministrationDateTime', vr: 'DT', vm: [1, 1] },
+    SubstanceAdministrationNotes: { tag: '(0044,0011)', keyword: 'SubstanceAdministrationNotes', vr: 'LO', vm: [1, 1] },
+    SubstanceAdministrationDeviceID: { tag: '(0044,0012)', keyword: 'SubstanceAdministrationDeviceID', vr: 'LO', vm: [1, 1] },
+    ProductParameterSequence: { tag: '(0044,0013)', keyword: 'ProductParameterSequence', vr: 'SQ', vm: [1, 1] },
+    SubstanceAdministrationParameterSequence: { tag: '(0044,0019)', keyword: 'SubstanceAdministrationParameterSequence', vr: 'SQ', vm: [1, 1] },
+    ApprovalSequence: { tag: '(0044,0100)', keyword: 'ApprovalSequence', vr: 'SQ', vm: [1, 1] },
+    AssertionCodeSequence: { tag: '(0044,0101)', keyword: 'AssertionCodeSequence', vr: 'SQ', vm: [1, 1] },
+    AssertionUID: { tag: '(0044,0102)', keyword: 'AssertionUID', vr: 'UI', vm: [1, 1] },
+    AsserterIdentificationSequence: { tag: '(0044,0103)', keyword: 'AsserterIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    AssertionDateTime: { tag: '(0044,0104)', keyword: 'AssertionDateTime', vr: 'DT', vm: [1, 1] },
+    AssertionExpirationDateTime: { tag: '(0044,0105)', keyword: 'AssertionExpirationDateTime', vr: 'DT', vm: [1, 1] },
+    AssertionComments: { tag: '(0044,0106)', keyword: 'AssertionComments', vr: 'UT', vm: [1, 1] },
+    RelatedAssertionSequence: { tag: '(0044,0107)', keyword: 'RelatedAssertionSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedAssertionUID: { tag: '(0044,0108)', keyword: 'ReferencedAssertionUID', vr: 'UI', vm: [1, 1] },
+    ApprovalSubjectSequence: { tag: '(0044,0109)', keyword: 'ApprovalSubjectSequence', vr: 'SQ', vm: [1, 1] },
+    OrganizationalRoleCodeSequence: { tag: '(0044,010A)', keyword: 'OrganizationalRoleCodeSequence', vr: 'SQ', vm: [1, 1] },
+    LensDescription: { tag: '(0046,0012)', keyword: 'LensDescription', vr: 'LO', vm: [1, 1] },
+    RightLensSequence: { tag: '(0046,0014)', keyword: 'RightLensSequence', vr: 'SQ', vm: [1, 1] },
+    LeftLensSequence: { tag: '(0046,0015)', keyword: 'LeftLensSequence', vr: 'SQ', vm: [1, 1] },
+    UnspecifiedLateralityLensSequence: { tag: '(0046,0016)', keyword: 'UnspecifiedLateralityLensSequence', vr: 'SQ', vm: [1, 1] },
+    CylinderSequence: { tag: '(0046,0018)', keyword: 'CylinderSequence', vr: 'SQ', vm: [1, 1] },
+    PrismSequence: { tag: '(0046,0028)', keyword: 'PrismSequence', vr: 'SQ', vm: [1, 1] },
+    HorizontalPrismPower: { tag: '(0046,0030)', keyword: 'HorizontalPrismPower', vr: 'FD', vm: [1, 1] },
+    HorizontalPrismBase: { tag: '(0046,0032)', keyword: 'HorizontalPrismBase', vr: 'CS', vm: [1, 1] },
+    VerticalPrismPower: { tag: '(0046,0034)', keyword: 'VerticalPrismPower', vr: 'FD', vm: [1, 1] },
+    VerticalPrismBase: { tag: '(0046,0036)', keyword: 'VerticalPrismBase', vr: 'CS', vm: [1, 1] },
+    LensSegmentType: { tag: '(0046,0038)', keyword: 'LensSegmentType', vr: 'CS', vm: [1, 1] },
+    OpticalTransmittance: { tag: '(0046,0040)', keyword: 'OpticalTransmittance', vr: 'FD', vm: [1, 1] },
+    ChannelWidth: { tag: '(0046,0042)', keyword: 'ChannelWidth', vr: 'FD', vm: [1, 1] },
+    PupilSize: { tag: '(0046,0044)', keyword: 'PupilSize', vr: 'FD', vm: [1, 1] },
+    CornealSize: { tag: '(0046,0046)', keyword: 'CornealSize', vr: 'FD', vm: [1, 1] },
+    CornealSizeSequence: { tag: '(0046,0047)', keyword: 'CornealSizeSequence', vr: 'SQ', vm: [1, 1] },
+    AutorefractionRightEyeSequence: { tag: '(0046,0050)', keyword: 'AutorefractionRightEyeSequence', vr: 'SQ', vm: [1, 1] },
+    AutorefractionLeftEyeSequence: { tag: '(0046,0052)', keyword: 'AutorefractionLeftEyeSequence', vr: 'SQ', vm: [1, 1] },
+    DistancePupillaryDistance: { tag: '(0046,0060)', keyword: 'DistancePupillaryDistance', vr: 'FD', vm: [1, 1] },
+    NearPupillaryDistance: { tag: '(0046,0062)', keyword: 'NearPupillaryDistance', vr: 'FD', vm: [1, 1] },
+    IntermediatePupillaryDistance: { tag: '(0046,0063)', keyword: 'IntermediatePupillaryDistance', vr: 'FD', vm: [1, 1] },
+    OtherPupillaryDistance: { tag: '(0046,0064)', keyword: 'OtherPupillaryDistance', vr: 'FD', vm: [1, 1] },
+    KeratometryRightEyeSequence: { tag: '(0046,0070)', keyword: 'KeratometryRightEyeSequence', vr: 'SQ', vm: [1, 1] },
+    KeratometryLeftEyeSequence: { tag: '(0046,0071)', keyword: 'KeratometryLeftEyeSequence', vr: 'SQ', vm: [1, 1] },
+    SteepKeratometricAxisSequence: { tag: '(0046,0074)', keyword: 'SteepKeratometricAxisSequence', vr: 'SQ', vm: [1, 1] },
+    RadiusOfCurvature: { tag: '(0046,0075)', keyword: 'RadiusOfCurvature', vr: 'FD', vm: [1, 1] },
+    KeratometricPower: { tag: '(0046,0076)', keyword: 'KeratometricPower', vr: 'FD', vm: [1, 1] },
+    KeratometricAxis: { tag: '(0046,0077)', keyword: 'KeratometricAxis', vr: 'FD', vm: [1, 1] },
+    FlatKeratometricAxisSequence: { tag: '(0046,0080)', keyword: 'FlatKeratometricAxisSequence', vr: 'SQ', vm: [1, 1] },
+    BackgroundColor: { tag: '(0046,0092)', keyword: 'BackgroundColor', vr: 'CS', vm: [1, 1] },
+    Optotype: { tag: '(0046,0094)', keyword: 'Optotype', vr: 'CS', vm: [1, 1] },
+    OptotypePresentation: { tag: '(0046,0095)', keyword: 'OptotypePresentation', vr: 'CS', vm: [1, 1] },
+    SubjectiveRefractionRightEyeSequence: { tag: '(0046,0097)', keyword: 'SubjectiveRefractionRightEyeSequence', vr: 'SQ', vm: [1, 1] },
+    SubjectiveRefractionLeftEyeSequence: { tag: '(0046,0098)', keyword: 'SubjectiveRefractionLeftEyeSequence', vr: 'SQ', vm: [1, 1] },
+    AddNearSequence: { tag: '(0046,0100)', keyword: 'AddNearSequence', vr: 'SQ', vm: [1, 1] },
+    AddIntermediateSequence: { tag: '(0046,0101)', keyword: 'AddIntermediateSequence', vr: 'SQ', vm: [1, 1] },
+    AddOtherSequence: { tag: '(0046,0102)', keyword: 'AddOtherSequence', vr: 'SQ', vm: [1, 1] },
+    AddPower: { tag: '(0046,0104)', keyword: 'AddPower', vr: 'FD', vm: [1, 1] },
+    ViewingDistance: { tag: '(0046,0106)', keyword: 'ViewingDistance', vr: 'FD', vm: [1, 1] },
+    CorneaMeasurementsSequence: { tag: '(0046,0110)', keyword: 'CorneaMeasurementsSequence', vr: 'SQ', vm: [1, 1] },
+    SourceOfCorneaMeasurementDataCodeSequence: { tag: '(0046,0111)', keyword: 'SourceOfCorneaMeasurementDataCodeSequence', vr: 'SQ', vm: [1, 1] },
+    SteepCornealAxisSequence: { tag: '(0046,0112)', keyword: 'SteepCornealAxisSequence', vr: 'SQ', vm: [1, 1] },
+    FlatCornealAxisSequence: { tag: '(0046,0113)', keyword: 'FlatCornealAxisSequence', vr: 'SQ', vm: [1, 1] },
+    CornealPower: { tag: '(0046,0114)', keyword: 'CornealPower', vr: 'FD', vm: [1, 1] },
+    CornealAxis: { tag: '(0046,0115)', keyword: 'CornealAxis', vr: 'FD', vm: [1, 1] },
+    CorneaMeasurementMethodCodeSequence: { tag: '(0046,0116)', keyword: 'CorneaMeasurementMethodCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RefractiveIndexOfCornea: { tag: '(0046,0117)', keyword: 'RefractiveIndexOfCornea', vr: 'FL', vm: [1, 1] },
+    RefractiveIndexOfAqueousHumor: { tag: '(0046,0118)', keyword: 'RefractiveIndexOfAqueousHumor', vr: 'FL', vm: [1, 1] },
+    VisualAcuityTypeCodeSequence: { tag: '(0046,0121)', keyword: 'VisualAcuityTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    VisualAcuityRightEyeSequence: { tag: '(0046,0122)', keyword: 'VisualAcuityRightEyeSequence', vr: 'SQ', vm: [1, 1] },
+    VisualAcuityLeftEyeSequence: { tag: '(0046,0123)', keyword: 'VisualAcuityLeftEyeSequence', vr: 'SQ', vm: [1, 1] },
+    VisualAcuityBothEyesOpenSequence: { tag: '(0046,0124)', keyword: 'VisualAcuityBothEyesOpenSequence', vr: 'SQ', vm: [1, 1] },
+    ViewingDistanceType: { tag: '(0046,0125)', keyword: 'ViewingDistanceType', vr: 'CS', vm: [1, 1] },
+    VisualAcuityModifiers: { tag: '(0046,0135)', keyword: 'VisualAcuityModifiers', vr: 'SS', vm: [2, 2] },
+    DecimalVisualAcuity: { tag: '(0046,0137)', keyword: 'DecimalVisualAcuity', vr: 'FD', vm: [1, 1] },
+    OptotypeDetailedDefinition: { tag: '(0046,0139)', keyword: 'OptotypeDetailedDefinition', vr: 'LO', vm: [1, 1] },
+    ReferencedRefractiveMeasurementsSequence: { tag: '(0046,0145)', keyword: 'ReferencedRefractiveMeasurementsSequence', vr: 'SQ', vm: [1, 1] },
+    SpherePower: { tag: '(0046,0146)', keyword: 'SpherePower', vr: 'FD', vm: [1, 1] },
+    CylinderPower: { tag: '(0046,0147)', keyword: 'CylinderPower', vr: 'FD', vm: [1, 1] },
+    CornealTopographySurface: { tag: '(0046,0201)', keyword: 'CornealTopographySurface', vr: 'CS', vm: [1, 1] },
+    CornealVertexLocation: { tag: '(0046,0202)', keyword: 'CornealVertexLocation', vr: 'FL', vm: [2, 2] },
+    PupilCentroidXCoordinate: { tag: '(0046,0203)', keyword: 'PupilCentroidXCoordinate', vr: 'FL', vm: [1, 1] },
+    PupilCentroidYCoordinate: { tag: '(0046,0204)', keyword: 'PupilCentroidYCoordinate', vr: 'FL', vm: [1, 1] },
+    EquivalentPupilRadius: { tag: '(0046,0205)', keyword: 'EquivalentPupilRadius', vr: 'FL', vm: [1, 1] },
+    CornealTopographyMapTypeCodeSequence: { tag: '(0046,0207)', keyword: 'CornealTopographyMapTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    VerticesOfTheOutlineOfPupil: { tag: '(0046,0208)', keyword: 'VerticesOfTheOutlineOfPupil', vr: 'IS', vm: [2, null] },
+    CornealTopographyMappingNormalsSequence: { tag: '(0046,0210)', keyword: 'CornealTopographyMappingNormalsSequence', vr: 'SQ', vm: [1, 1] },
+    MaximumCornealCurvatureSequence: { tag: '(0046,0211)', keyword: 'MaximumCornealCurvatureSequence', vr: 'SQ', vm: [1, 1] },
+    MaximumCornealCurvature: { tag: '(0046,0212)', keyword: 'MaximumCornealCurvature', vr: 'FL', vm: [1, 1] },
+    MaximumCornealCurvatureLocation: { tag: '(0046,0213)', keyword: 'MaximumCornealCurvatureLocation', vr: 'FL', vm: [2, 2] },
+    MinimumKeratometricSequence: { tag: '(0046,0215)', keyword: 'MinimumKeratometricSequence', vr: 'SQ', vm: [1, 1] },
+    SimulatedKeratometricCylinderSequence: { tag: '(0046,0218)', keyword: 'SimulatedKeratometricCylinderSequence', vr: 'SQ', vm: [1, 1] },
+    AverageCornealPower: { tag: '(0046,0220)', keyword: 'AverageCornealPower', vr: 'FL', vm: [1, 1] },
+    CornealISValue: { tag: '(0046,0224)', keyword: 'CornealISValue', vr: 'FL', vm: [1, 1] },
+    AnalyzedArea: { tag: '(0046,0227)', keyword: 'AnalyzedArea', vr: 'FL', vm: [1, 1] },
+    SurfaceRegularityIndex: { tag: '(0046,0230)', keyword: 'SurfaceRegularityIndex', vr: 'FL', vm: [1, 1] },
+    SurfaceAsymmetryIndex: { tag: '(0046,0232)', keyword: 'SurfaceAsymmetryIndex', vr: 'FL', vm: [1, 1] },
+    CornealEccentricityIndex: { tag: '(0046,0234)', keyword: 'CornealEccentricityIndex', vr: 'FL', vm: [1, 1] },
+    KeratoconusPredictionIndex: { tag: '(0046,0236)', keyword: 'KeratoconusPredictionIndex', vr: 'FL', vm: [1, 1] },
+    DecimalPotentialVisualAcuity: { tag: '(0046,0238)', keyword: 'DecimalPotentialVisualAcuity', vr: 'FL', vm: [1, 1] },
+    CornealTopographyMapQualityEvaluation: { tag: '(0046,0242)', keyword: 'CornealTopographyMapQualityEvaluation', vr: 'CS', vm: [1, 1] },
+    SourceImageCornealProcessedDataSequence: { tag: '(0046,0244)', keyword: 'SourceImageCornealProcessedDataSequence', vr: 'SQ', vm: [1, 1] },
+    CornealPointLocation: { tag: '(0046,0247)', keyword: 'CornealPointLocation', vr: 'FL', vm: [3, 3] },
+    CornealPointEstimated: { tag: '(0046,0248)', keyword: 'CornealPointEstimated', vr: 'CS', vm: [1, 1] },
+    AxialPower: { tag: '(0046,0249)', keyword: 'AxialPower', vr: 'FL', vm: [1, 1] },
+    TangentialPower: { tag: '(0046,0250)', keyword: 'TangentialPower', vr: 'FL', vm: [1, 1] },
+    RefractivePower: { tag: '(0046,0251)', keyword: 'RefractivePower', vr: 'FL', vm: [1, 1] },
+    RelativeElevation: { tag: '(0046,0252)', keyword: 'RelativeElevation', vr: 'FL', vm: [1, 1] },
+    CornealWavefront: { tag: '(0046,0253)', keyword: 'CornealWavefront', vr: 'FL', vm: [1, 1] },
+    ImagedVolumeWidth: { tag: '(0048,0001)', keyword: 'ImagedVolumeWidth', vr: 'FL', vm: [1, 1] },
+    ImagedVolumeHeight: { tag: '(0048,0002)', keyword: 'ImagedVolumeHeight', vr: 'FL', vm: [1, 1] },
+    ImagedVolumeDepth: { tag: '(0048,0003)', keyword: 'ImagedVolumeDepth', vr: 'FL', vm: [1, 1] },
+    TotalPixelMatrixColumns: { tag: '(0048,0006)', keyword: 'TotalPixelMatrixColumns', vr: 'UL', vm: [1, 1] },
+    TotalPixelMatrixRows: { tag: '(0048,0007)', keyword: 'TotalPixelMatrixRows', vr: 'UL', vm: [1, 1] },
+    TotalPixelMatrixOriginSequence: { tag: '(0048,0008)', keyword: 'TotalPixelMatrixOriginSequence', vr: 'SQ', vm: [1, 1] },
+    SpecimenLabelInImage: { tag: '(0048,0010)', keyword: 'SpecimenLabelInImage', vr: 'CS', vm: [1, 1] },
+    FocusMethod: { tag: '(0048,0011)', keyword: 'FocusMethod', vr: 'CS', vm: [1, 1] },
+    ExtendedDepthOfField: { tag: '(0048,0012)', keyword: 'ExtendedDepthOfField', vr: 'CS', vm: [1, 1] },
+    NumberOfFocalPlanes: { tag: '(0048,0013)', keyword: 'NumberOfFocalPlanes', vr: 'US', vm: [1, 1] },
+    DistanceBetweenFocalPlanes: { tag: '(0048,0014)', keyword: 'DistanceBetweenFocalPlanes', vr: 'FL', vm: [1, 1] },
+    RecommendedAbsentPixelCIELabValue: { tag: '(0048,0015)', keyword: 'RecommendedAbsentPixelCIELabValue', vr: 'US', vm: [3, 3] },
+    IlluminatorTypeCodeSequence: { tag: '(0048,0100)', keyword: 'IlluminatorTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ImageOrientationSlide: { tag: '(0048,0102)', keyword: 'ImageOrientationSlide', vr: 'DS', vm: [6, 6] },
+    OpticalPathSequence: { tag: '(0048,0105)', keyword: 'OpticalPathSequence', vr: 'SQ', vm: [1, 1] },
+    OpticalPathIdentifier: { tag: '(0048,0106)', keyword: 'OpticalPathIdentifier', vr: 'SH', vm: [1, 1] },
+    OpticalPathDescription: { tag: '(0048,0107)', keyword: 'OpticalPathDescription', vr: 'ST', vm: [1, 1] },
+    IlluminationColorCodeSequence: { tag: '(0048,0108)', keyword: 'IlluminationColorCodeSequence', vr: 'SQ', vm: [1, 1] },
+    SpecimenReferenceSequence: { tag: '(0048,0110)', keyword: 'SpecimenReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    CondenserLensPower: { tag: '(0048,0111)', keyword: 'CondenserLensPower', vr: 'DS', vm: [1, 1] },
+    ObjectiveLensPower: { tag: '(0048,0112)', keyword: 'ObjectiveLensPower', vr: 'DS', vm: [1, 1] },
+    ObjectiveLensNumericalAperture: { tag: '(0048,0113)', keyword: 'ObjectiveLensNumericalAperture', vr: 'DS', vm: [1, 1] },
+    PaletteColorLookupTableSequence: { tag: '(0048,0120)', keyword: 'PaletteColorLookupTableSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedImageNavigationSequence: { tag: '(0048,0200)', keyword: 'ReferencedImageNavigationSequence', vr: 'SQ', vm: [1, 1] },
+    TopLeftHandCornerOfLocalizerArea: { tag: '(0048,0201)', keyword: 'TopLeftHandCornerOfLocalizerArea', vr: 'US', vm: [2, 2] },
+    BottomRightHandCornerOfLocalizerArea: { tag: '(0048,0202)', keyword: 'BottomRightHandCornerOfLocalizerArea', vr: 'US', vm: [2, 2] },
+    OpticalPathIdentificationSequence: { tag: '(0048,0207)', keyword: 'OpticalPathIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    PlanePositionSlideSequence: { tag: '(0048,021A)', keyword: 'PlanePositionSlideSequence', vr: 'SQ', vm: [1, 1] },
+    ColumnPositionInTotalImagePixelMatrix: { tag: '(0048,021E)', keyword: 'ColumnPositionInTotalImagePixelMatrix', vr: 'SL', vm: [1, 1] },
+    RowPositionInTotalImagePixelMatrix: { tag: '(0048,021F)', keyword: 'RowPositionInTotalImagePixelMatrix', vr: 'SL', vm: [1, 1] },
+    PixelOriginInterpretation: { tag: '(0048,0301)', keyword: 'PixelOriginInterpretation', vr: 'CS', vm: [1, 1] },
+    NumberOfOpticalPaths: { tag: '(0048,0302)', keyword: 'NumberOfOpticalPaths', vr: 'UL', vm: [1, 1] },
+    TotalPixelMatrixFocalPlanes: { tag: '(0048,0303)', keyword: 'TotalPixelMatrixFocalPlanes', vr: 'UL', vm: [1, 1] },
+    CalibrationImage: { tag: '(0050,0004)', keyword: 'CalibrationImage', vr: 'CS', vm: [1, 1] },
+    DeviceSequence: { tag: '(0050,0010)', keyword: 'DeviceSequence', vr: 'SQ', vm: [1, 1] },
+    ContainerComponentTypeCodeSequence: { tag: '(0050,0012)', keyword: 'ContainerComponentTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ContainerComponentThickness: { tag: '(0050,0013)', keyword: 'ContainerComponentThickness', vr: 'FD', vm: [1, 1] },
+    DeviceLength: { tag: '(0050,0014)', keyword: 'DeviceLength', vr: 'DS', vm: [1, 1] },
+    ContainerComponentWidth: { tag: '(0050,0015)', keyword: 'ContainerComponentWidth', vr: 'FD', vm: [1, 1] },
+    DeviceDiameter: { tag: '(0050,0016)', keyword: 'DeviceDiameter', vr: 'DS', vm: [1, 1] },
+    DeviceDiameterUnits: { tag: '(0050,0017)', keyword: 'DeviceDiameterUnits', vr: 'CS', vm: [1, 1] },
+    DeviceVolume: { tag: '(0050,0018)', keyword: 'DeviceVolume', vr: 'DS', vm: [1, 1] },
+    InterMarkerDistance: { tag: '(0050,0019)', keyword: 'InterMarkerDistance', vr: 'DS', vm: [1, 1] },
+    ContainerComponentMaterial: { tag: '(0050,001A)', keyword: 'ContainerComponentMaterial', vr: 'CS', vm: [1, 1] },
+    ContainerComponentID: { tag: '(0050,001B)', keyword: 'ContainerComponentID', vr: 'LO', vm: [1, 1] },
+    ContainerComponentLength: { tag: '(0050,001C)', keyword: 'ContainerComponentLength', vr: 'FD', vm: [1, 1] },
+    ContainerComponentDiameter: { tag: '(0050,001D)', keyword: 'ContainerComponentDiameter', vr: 'FD', vm: [1, 1] },
+    ContainerComponentDescription: { tag: '(0050,001E)', keyword: 'ContainerComponentDescription', vr: 'LO', vm: [1, 1] },
+    DeviceDescription: { tag: '(0050,0020)', keyword: 'DeviceDescription', vr: 'LO', vm: [1, 1] },
+    LongDeviceDescription: { tag: '(0050,0021)', keyword: 'LongDeviceDescription', vr: 'ST', vm: [1, 1] },
+    ContrastBolusIngredientPercentByVolume: { tag: '(0052,0001)', keyword: 'ContrastBolusIngredientPercentByVolume', vr: 'FL', vm: [1, 1] },
+    OCTFocalDistance: { tag: '(0052,0002)', keyword: 'OCTFocalDistance', vr: 'FD', vm: [1, 1] },
+    BeamSpotSize: { tag: '(0052,0003)', keyword: 'BeamSpotSize', vr: 'FD', vm: [1, 1] },
+    EffectiveRefractiveIndex: { tag: '(0052,0004)', keyword: 'EffectiveRefractiveIndex', vr: 'FD', vm: [1, 1] },
+    OCTAcquisitionDomain: { tag: '(0052,0006)', keyword: 'OCTAcquisitionDomain', vr: 'CS', vm: [1, 1] },
+    OCTOpticalCenterWavelength: { tag: '(0052,0007)', keyword: 'OCTOpticalCenterWavelength', vr: 'FD', vm: [1, 1] },
+    AxialResolution: { tag: '(0052,0008)', keyword: 'AxialResolution', vr: 'FD', vm: [1, 1] },
+    RangingDepth: { tag: '(0052,0009)', keyword: 'RangingDepth', vr: 'FD', vm: [1, 1] },
+    ALineRate: { tag: '(0052,0011)', keyword: 'ALineRate', vr: 'FD', vm: [1, 1] },
+    ALinesPerFrame: { tag: '(0052,0012)', keyword: 'ALinesPerFrame', vr: 'US', vm: [1, 1] },
+    CatheterRotationalRate: { tag: '(0052,0013)', keyword: 'CatheterRotationalRate', vr: 'FD', vm: [1, 1] },
+    ALinePixelSpacing: { tag: '(0052,0014)', keyword: 'ALinePixelSpacing', vr: 'FD', vm: [1, 1] },
+    ModeOfPercutaneousAccessSequence: { tag: '(0052,0016)', keyword: 'ModeOfPercutaneousAccessSequence', vr: 'SQ', vm: [1, 1] },
+    IntravascularOCTFrameTypeSequence: { tag: '(0052,0025)', keyword: 'IntravascularOCTFrameTypeSequence', vr: 'SQ', vm: [1, 1] },
+    OCTZOffsetApplied: { tag: '(0052,0026)', keyword: 'OCTZOffsetApplied', vr: 'CS', vm: [1, 1] },
+    IntravascularFrameContentSequence: { tag: '(0052,0027)', keyword: 'IntravascularFrameContentSequence', vr: 'SQ', vm: [1, 1] },
+    IntravascularLongitudinalDistance: { tag: '(0052,0028)', keyword: 'IntravascularLongitudinalDistance', vr: 'FD', vm: [1, 1] },
+    IntravascularOCTFrameContentSequence: { tag: '(0052,0029)', keyword: 'IntravascularOCTFrameContentSequence', vr: 'SQ', vm: [1, 1] },
+    OCTZOffsetCorrection: { tag: '(0052,0030)', keyword: 'OCTZOffsetCorrection', vr: 'SS', vm: [1, 1] },
+    CatheterDirectionOfRotation: { tag: '(0052,0031)', keyword: 'CatheterDirectionOfRotation', vr: 'CS', vm: [1, 1] },
+    SeamLineLocation: { tag: '(0052,0033)', keyword: 'SeamLineLocation', vr: 'FD', vm: [1, 1] },
+    FirstALineLocation: { tag: '(0052,0034)', keyword: 'FirstALineLocation', vr: 'FD', vm: [1, 1] },
+    SeamLineIndex: { tag: '(0052,0036)', keyword: 'SeamLineIndex', vr: 'US', vm: [1, 1] },
+    NumberOfPaddedALines: { tag: '(0052,0038)', keyword: 'NumberOfPaddedALines', vr: 'US', vm: [1, 1] },
+    InterpolationType: { tag: '(0052,0039)', keyword: 'InterpolationType', vr: 'CS', vm: [1, 1] },
+    RefractiveIndexApplied: { tag: '(0052,003A)', keyword: 'RefractiveIndexApplied', vr: 'CS', vm: [1, 1] },
+    EnergyWindowVector: { tag: '(0054,0010)', keyword: 'EnergyWindowVector', vr: 'US', vm: [1, null] },
+    NumberOfEnergyWindows: { tag: '(0054,0011)', keyword: 'NumberOfEnergyWindows', vr: 'US', vm: [1, 1] },
+    EnergyWindowInformationSequence: { tag: '(0054,0012)', keyword: 'EnergyWindowInformationSequence', vr: 'SQ', vm: [1, 1] },
+    EnergyWindowRangeSequence: { tag: '(0054,0013)', keyword: 'EnergyWindowRangeSequence', vr: 'SQ', vm: [1, 1] },
+    EnergyWindowLowerLimit: { tag: '(0054,0014)', keyword: 'EnergyWindowLowerLimit', vr: 'DS', vm: [1, 1] },
+    EnergyWindowUpperLimit: { tag: '(0054,0015)', keyword: 'EnergyWindowUpperLimit', vr: 'DS', vm: [1, 1] },
+    RadiopharmaceuticalInformationSequence: { tag: '(0054,0016)', keyword: 'RadiopharmaceuticalInformationSequence', vr: 'SQ', vm: [1, 1] },
+    ResidualSyringeCounts: { tag: '(0054,0017)', keyword: 'ResidualSyringeCounts', vr: 'IS', vm: [1, 1] },
+    EnergyWindowName: { tag: '(0054,0018)', keyword: 'EnergyWindowName', vr: 'SH', vm: [1, 1] },
+    DetectorVector: { tag: '(0054,0020)', keyword: 'DetectorVector', vr: 'US', vm: [1, null] },
+    NumberOfDetectors: { tag: '(0054,0021)', keyword: 'NumberOfDetectors', vr: 'US', vm: [1, 1] },
+    DetectorInformationSequence: { tag: '(0054,0022)', keyword: 'DetectorInformationSequence', vr: 'SQ', vm: [1, 1] },
+    PhaseVector: { tag: '(0054,0030)', keyword: 'PhaseVector', vr: 'US', vm: [1, null] },
+    NumberOfPhases: { tag: '(0054,0031)', keyword: 'NumberOfPhases', vr: 'US', vm: [1, 1] },
+    PhaseInformationSequence: { tag: '(0054,0032)', keyword: 'PhaseInformationSequence', vr: 'SQ', vm: [1, 1] },
+    NumberOfFramesInPhase: { tag: '(0054,0033)', keyword: 'NumberOfFramesInPhase', vr: 'US', vm: [1, 1] },
+    PhaseDelay: { tag: '(0054,0036)', keyword: 'PhaseDelay', vr: 'IS', vm: [1, 1] },
+    PauseBetweenFrames: { tag: '(0054,0038)', keyword: 'PauseBetweenFrames', vr: 'IS', vm: [1, 1] },
+    PhaseDescription: { tag: '(0054,0039)', keyword: 'PhaseDescription', vr: 'CS', vm: [1, 1] },
+    RotationVector: { tag: '(0054,0050)', keyword: 'RotationVector', vr: 'US', vm: [1, null] },
+    NumberOfRotations: { tag: '(0054,0051)', keyword: 'NumberOfRotations', vr: 'US', vm: [1, 1] },
+    RotationInformationSequence: { tag: '(0054,0052)', keyword: 'RotationInformationSequence', vr: 'SQ', vm: [1, 1] },
+    NumberOfFramesInRotation: { tag: '(0054,0053)', keyword: 'NumberOfFramesInRotation', vr: 'US', vm: [1, 1] },
+    RRIntervalVector: { tag: '(0054,0060)', keyword: 'RRIntervalVector', vr: 'US', vm: [1, null] },
+    NumberOfRRIntervals: { tag: '(0054,0061)', keyword: 'NumberOfRRIntervals', vr: 'US', vm: [1, 1] },
+    GatedInformationSequence: { tag: '(0054,0062)', keyword: 'GatedInformationSequence', vr: 'SQ', vm: [1, 1] },
+    DataInformationSequence: { tag: '(0054,0063)', keyword: 'DataInformationSequence', vr: 'SQ', vm: [1, 1] },
+    TimeSlotVector: { tag: '(0054,0070)', keyword: 'TimeSlotVector', vr: 'US', vm: [1, null] },
+    NumberOfTimeSlots: { tag: '(0054,0071)', keyword: 'NumberOfTimeSlots', vr: 'US', vm: [1, 1] },
+    TimeSlotInformationSequence: { tag: '(0054,0072)', keyword: 'TimeSlotInformationSequence', vr: 'SQ', vm: [1, 1] },
+    TimeSlotTime: { tag: '(0054,0073)', keyword: 'TimeSlotTime', vr: 'DS', vm: [1, 1] },
+    SliceVector: { tag: '(0054,0080)', keyword: 'SliceVector', vr: 'US', vm: [1, null] },
+    NumberOfSlices: { tag: '(0054,0081)', keyword: 'NumberOfSlices', vr: 'US', vm: [1, 1] },
+    AngularViewVector: { tag: '(0054,0090)', keyword: 'AngularViewVector', vr: 'US', vm: [1, null] },
+    TimeSliceVector: { tag: '(0054,0100)', keyword: 'TimeSliceVector', vr: 'US', vm: [1, null] },
+    NumberOfTimeSlices: { tag: '(0054,0101)', keyword: 'NumberOfTimeSlices', vr: 'US', vm: [1, 1] },
+    StartAngle: { tag: '(0054,0200)', keyword: 'StartAngle', vr: 'DS', vm: [1, 1] },
+    TypeOfDetectorMotion: { tag: '(0054,0202)', keyword: 'TypeOfDetectorMotion', vr: 'CS', vm: [1, 1] },
+    TriggerVector: { tag: '(0054,0210)', keyword: 'TriggerVector', vr: 'IS', vm: [1, null] },
+    NumberOfTriggersInPhase: { tag: '(0054,0211)', keyword: 'NumberOfTriggersInPhase', vr: 'US', vm: [1, 1] },
+    ViewCodeSequence: { tag: '(0054,0220)', keyword: 'ViewCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ViewModifierCodeSequence: { tag: '(0054,0222)', keyword: 'ViewModifierCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RadionuclideCodeSequence: { tag: '(0054,0300)', keyword: 'RadionuclideCodeSequence', vr: 'SQ', vm: [1, 1] },
+    AdministrationRouteCodeSequence: { tag: '(0054,0302)', keyword: 'AdministrationRouteCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RadiopharmaceuticalCodeSequence: { tag: '(0054,0304)', keyword: 'RadiopharmaceuticalCodeSequence', vr: 'SQ', vm: [1, 1] },
+    CalibrationDataSequence: { tag: '(0054,0306)', keyword: 'CalibrationDataSequence', vr: 'SQ', vm: [1, 1] },
+    EnergyWindowNumber: { tag: '(0054,0308)', keyword: 'EnergyWindowNumber', vr: 'US', vm: [1, 1] },
+    ImageID: { tag: '(0054,0400)', keyword: 'ImageID', vr: 'SH', vm: [1, 1] },
+    PatientOrientationCodeSequence: { tag: '(0054,0410)', keyword: 'PatientOrientationCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PatientOrientationModifierCodeSequence: { tag: '(0054,0412)', keyword: 'PatientOrientationModifierCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PatientGantryRelationshipCodeSequence: { tag: '(0054,0414)', keyword: 'PatientGantryRelationshipCodeSequence', vr: 'SQ', vm: [1, 1] },
+    SliceProgressionDirection: { tag: '(0054,0500)', keyword: 'SliceProgressionDirection', vr: 'CS', vm: [1, 1] },
+    ScanProgressionDirection: { tag: '(0054,0501)', keyword: 'ScanProgressionDirection', vr: 'CS', vm: [1, 1] },
+    SeriesType: { tag: '(0054,1000)', keyword: 'SeriesType', vr: 'CS', vm: [2, 2] },
+    Units: { tag: '(0054,1001)', keyword: 'Units', vr: 'CS', vm: [1, 1] },
+    CountsSource: { tag: '(0054,1002)', keyword: 'CountsSource', vr: 'CS', vm: [1, 1] },
+    ReprojectionMethod: { tag: '(0054,1004)', keyword: 'ReprojectionMethod', vr: 'CS', vm: [1, 1] },
+    SUVType: { tag: '(0054,1006)', keyword: 'SUVType', vr: 'CS', vm: [1, 1] },
+    RandomsCorrectionMethod: { tag: '(0054,1100)', keyword: 'RandomsCorrectionMethod', vr: 'CS', vm: [1, 1] },
+    AttenuationCorrectionMethod: { tag: '(0054,1101)', keyword: 'AttenuationCorrectionMethod', vr: 'LO', vm: [1, 1] },
+    DecayCorrection: { tag: '(0054,1102)', keyword: 'DecayCorrection', vr: 'CS', vm: [1, 1] },
+    ReconstructionMethod: { tag: '(0054,1103)', keyword: 'ReconstructionMethod', vr: 'LO', vm: [1, 1] },
+    DetectorLinesOfResponseUsed: { tag: '(0054,1104)', keyword: 'DetectorLinesOfResponseUsed', vr: 'LO', vm: [1, 1] },
+    ScatterCorrectionMethod: { tag: '(0054,1105)', keyword: 'ScatterCorrectionMethod', vr: 'LO', vm: [1, 1] },
+    AxialAcceptance: { tag: '(0054,1200)', keyword: 'AxialAcceptance', vr: 'DS', vm: [1, 1] },
+    AxialMash: { tag: '(0054,1201)', keyword: 'AxialMash', vr: 'IS', vm: [2, 2] },
+    TransverseMash: { tag: '(0054,1202)', keyword: 'TransverseMash', vr: 'IS', vm: [1, 1] },
+    DetectorElementSize: { tag: '(0054,1203)', keyword: 'DetectorElementSize', vr: 'DS', vm: [2, 2] },
+    CoincidenceWindowWidth: { tag: '(0054,1210)', keyword: 'CoincidenceWindowWidth', vr: 'DS', vm: [1, 1] },
+    SecondaryCountsType: { tag: '(0054,1220)', keyword: 'SecondaryCountsType', vr: 'CS', vm: [1, null] },
+    FrameReferenceTime: { tag: '(0054,1300)', keyword: 'FrameReferenceTime', vr: 'DS', vm: [1, 1] },
+    PrimaryPromptsCountsAccumulated: { tag: '(0054,1310)', keyword: 'PrimaryPromptsCountsAccumulated', vr: 'IS', vm: [1, 1] },
+    SecondaryCountsAccumulated: { tag: '(0054,1311)', keyword: 'SecondaryCountsAccumulated', vr: 'IS', vm: [1, null] },
+    SliceSensitivityFactor: { tag: '(0054,1320)', keyword: 'SliceSensitivityFactor', vr: 'DS', vm: [1, 1] },
+    DecayFactor: { tag: '(0054,1321)', keyword: 'DecayFactor', vr: 'DS', vm: [1, 1] },
+    DoseCalibrationFactor: { tag: '(0054,1322)', keyword: 'DoseCalibrationFactor', vr: 'DS', vm: [1, 1] },
+    ScatterFractionFactor: { tag: '(0054,1323)', keyword: 'ScatterFractionFactor', vr: 'DS', vm: [1, 1] },
+    DeadTimeFactor: { tag: '(0054,1324)', keyword: 'DeadTimeFactor', vr: 'DS', vm: [1, 1] },
+    ImageIndex: { tag: '(0054,1330)', keyword: 'ImageIndex', vr: 'US', vm: [1, 1] },
+    RETIRED_CountsIncluded: { tag: '(0054,1400)', keyword: 'RETIRED_CountsIncluded', vr: 'CS', vm: [1, null] },
+    RETIRED_DeadTimeCorrectionFlag: { tag: '(0054,1401)', keyword: 'RETIRED_DeadTimeCorrectionFlag', vr: 'CS', vm: [1, 1] },
+    HistogramSequence: { tag: '(0060,3000)', keyword: 'HistogramSequence', vr: 'SQ', vm: [1, 1] },
+    HistogramNumberOfBins: { tag: '(0060,3002)', keyword: 'HistogramNumberOfBins', vr: 'US', vm: [1, 1] },
+    HistogramFirstBinValue: { tag: '(0060,3004)', keyword: 'HistogramFirstBinValue', vr: 'US', vm: [1, 1] },
+    HistogramLastBinValue: { tag: '(0060,3006)', keyword: 'HistogramLastBinValue', vr: 'US', vm: [1, 1] },
+    HistogramBinWidth: { tag: '(0060,3008)', keyword: 'HistogramBinWidth', vr: 'US', vm: [1, 1] },
+    HistogramExplanation: { tag: '(0060,3010)', keyword: 'HistogramExplanation', vr: 'LO', vm: [1, 1] },
+    HistogramData: { tag: '(0060,3020)', keyword: 'HistogramData', vr: 'UL', vm: [1, null] },
+    SegmentationType: { tag: '(0062,0001)', keyword: 'SegmentationType', vr: 'CS', vm: [1, 1] },
+    SegmentSequence: { tag: '(0062,0002)', keyword: 'SegmentSequence', vr: 'SQ', vm: [1, 1] },
+    SegmentedPropertyCategoryCodeSequence: { tag: '(0062,0003)', keyword: 'SegmentedPropertyCategoryCodeSequence', vr: 'SQ', vm: [1, 1] },
+    SegmentNumber: { tag: '(0062,0004)', keyword: 'SegmentNumber', vr: 'US', vm: [1, 1] },
+    SegmentLabel: { tag: '(0062,0005)', keyword: 'SegmentLabel', vr: 'LO', vm: [1, 1] },
+    SegmentDescription: { tag: '(0062,0006)', keyword: 'SegmentDescription', vr: 'ST', vm: [1, 1] },
+    SegmentationAlgorithmIdentificationSequence: { tag: '(0062,0007)', keyword: 'SegmentationAlgorithmIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    SegmentAlgorithmType: { tag: '(0062,0008)', keyword: 'SegmentAlgorithmType', vr: 'CS', vm: [1, 1] },
+    SegmentAlgorithmName: { tag: '(0062,0009)', keyword: 'SegmentAlgorithmName', vr: 'LO', vm: [1, 1] },
+    SegmentIdentificationSequence: { tag: '(0062,000A)', keyword: 'SegmentIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedSegmentNumber: { tag: '(0062,000B)', keyword: 'ReferencedSegmentNumber', vr: 'US', vm: [1, null] },
+    RecommendedDisplayGrayscaleValue: { tag: '(0062,000C)', keyword: 'RecommendedDisplayGrayscaleValue', vr: 'US', vm: [1, 1] },
+    RecommendedDisplayCIELabValue: { tag: '(0062,000D)', keyword: 'RecommendedDisplayCIELabValue', vr: 'US', vm: [3, 3] },
+    MaximumFractionalValue: { tag: '(0062,000E)', keyword: 'MaximumFractionalValue', vr: 'US', vm: [1, 1] },
+    SegmentedPropertyTypeCodeSequence: { tag: '(0062,000F)', keyword: 'SegmentedPropertyTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    SegmentationFractionalType: { tag: '(0062,0010)', keyword: 'SegmentationFractionalType', vr: 'CS', vm: [1, 1] },
+    SegmentedPropertyTypeModifierCodeSequence: { tag: '(0062,0011)', keyword: 'SegmentedPropertyTypeModifierCodeSequence', vr: 'SQ', vm: [1, 1] },
+    UsedSegmentsSequence: { tag: '(0062,0012)', keyword: 'UsedSegmentsSequence', vr: 'SQ', vm: [1, 1] },
+    SegmentsOverlap: { tag: '(0062,0013)', keyword: 'SegmentsOverlap', vr: 'CS', vm: [1, 1] },
+    TrackingID: { tag: '(0062,0020)', keyword: 'TrackingID', vr: 'UT', vm: [1, 1] },
+    TrackingUID: { tag: '(0062,0021)', keyword: 'TrackingUID', vr: 'UI', vm: [1, 1] },
+    DeformableRegistrationSequence: { tag: '(0064,0002)', keyword: 'DeformableRegistrationSequence', vr: 'SQ', vm: [1, 1] },
+    SourceFrameOfReferenceUID: { tag: '(0064,0003)', keyword: 'SourceFrameOfReferenceUID', vr: 'UI', vm: [1, 1] },
+    DeformableRegistrationGridSequence: { tag: '(0064,0005)', keyword: 'DeformableRegistrationGridSequence', vr: 'SQ', vm: [1, 1] },
+    GridDimensions: { tag: '(0064,0007)', keyword: 'GridDimensions', vr: 'UL', vm: [3, 3] },
+    GridResolution: { tag: '(0064,0008)', keyword: 'GridResolution', vr: 'FD', vm: [3, 3] },
+    VectorGridData: { tag: '(0064,0009)', keyword: 'VectorGridData', vr: 'OF', vm: [1, 1] },
+    PreDeformationMatrixRegistrationSequence: { tag: '(0064,000F)', keyword: 'PreDeformationMatrixRegistrationSequence', vr: 'SQ', vm: [1, 1] },
+    PostDeformationMatrixRegistrationSequence: { tag: '(0064,0010)', keyword: 'PostDeformationMatrixRegistrationSequence', vr: 'SQ', vm: [1, 1] },
+    NumberOfSurfaces: { tag: '(0066,0001)', keyword: 'NumberOfSurfaces', vr: 'UL', vm: [1, 1] },
+    SurfaceSequence: { tag: '(0066,0002)', keyword: 'SurfaceSequence', vr: 'SQ', vm: [1, 1] },
+    SurfaceNumber: { tag: '(0066,0003)', keyword: 'SurfaceNumber', vr: 'UL', vm: [1, 1] },
+    SurfaceComments: { tag: '(0066,0004)', keyword: 'SurfaceComments', vr: 'LT', vm: [1, 1] },
+    SurfaceProcessing: { tag: '(0066,0009)', keyword: 'SurfaceProcessing', vr: 'CS', vm: [1, 1] },
+    SurfaceProcessingRatio: { tag: '(0066,000A)', keyword: 'SurfaceProcessingRatio', vr: 'FL', vm: [1, 1] },
+    SurfaceProcessingDescription: { tag: '(0066,000B)', keyword: 'SurfaceProcessingDescription', vr: 'LO', vm: [1, 1] },
+    RecommendedPresentationOpacity: { tag: '(0066,000C)', keyword: 'RecommendedPresentationOpacity', vr: 'FL', vm: [1, 1] },
+    RecommendedPresentationType: { tag: '(0066,000D)', keyword: 'RecommendedPresentationType', vr: 'CS', vm: [1, 1] },
+    FiniteVolume: { tag: '(0066,000E)', keyword: 'FiniteVolume', vr: 'CS', vm: [1, 1] },
+    Manifold: { tag: '(0066,0010)', keyword: 'Manifold', vr: 'CS', vm: [1, 1] },
+    SurfacePointsSequence: { tag: '(0066,0011)', keyword: 'SurfacePointsSequence', vr: 'SQ', vm: [1, 1] },
+    SurfacePointsNormalsSequence: { tag: '(0066,0012)', keyword: 'SurfacePointsNormalsSequence', vr: 'SQ', vm: [1, 1] },
+    SurfaceMeshPrimitivesSequence: { tag: '(0066,0013)', keyword: 'SurfaceMeshPrimitivesSequence', vr: 'SQ', vm: [1, 1] },
+    NumberOfSurfacePoints: { tag: '(0066,0015)', keyword: 'NumberOfSurfacePoints', vr: 'UL', vm: [1, 1] },
+    PointCoordinatesData: { tag: '(0066,0016)', keyword: 'PointCoordinatesData', vr: 'OF', vm: [1, 1] },
+    PointPositionAccuracy: { tag: '(0066,0017)', keyword: 'PointPositionAccuracy', vr: 'FL', vm: [3, 3] },
+    MeanPointDistance: { tag: '(0066,0018)', keyword: 'MeanPointDistance', vr: 'FL', vm: [1, 1] },
+    MaximumPointDistance: { tag: '(0066,0019)', keyword: 'MaximumPointDistance', vr: 'FL', vm: [1, 1] },
+    PointsBoundingBoxCoordinates: { tag: '(0066,001A)', keyword: 'PointsBoundingBoxCoordinates', vr: 'FL', vm: [6, 6] },
+    AxisOfRotation: { tag: '(0066,001B)', keyword: 'AxisOfRotation', vr: 'FL', vm: [3, 3] },
+    CenterOfRotation: { tag: '(0066,001C)', keyword: 'CenterOfRotation', vr: 'FL', vm: [3, 3] },
+    NumberOfVectors: { tag: '(0066,001E)', keyword: 'NumberOfVectors', vr: 'UL', vm: [1, 1] },
+    VectorDimensionality: { tag: '(0066,001F)', keyword: 'VectorDimensionality', vr: 'US', vm: [1, 1] },
+    VectorAccuracy: { tag: '(0066,0020)', keyword: 'VectorAccuracy', vr: 'FL', vm: [1, null] },
+    VectorCoordinateData: { tag: '(0066,0021)', keyword: 'VectorCoordinateData', vr: 'OF', vm: [1, 1] },
+    RETIRED_TrianglePointIndexList: { tag: '(0066,0023)', keyword: 'RETIRED_TrianglePointIndexList', vr: 'OW', vm: [1, 1] },
+    RETIRED_EdgePointIndexList: { tag: '(0066,0024)', keyword: 'RETIRED_EdgePointIndexList', vr: 'OW', vm: [1, 1] },
+    RETIRED_VertexPointIndexList: { tag: '(0066,0025)', keyword: 'RETIRED_VertexPointIndexList', vr: 'OW', vm: [1, 1] },
+    TriangleStripSequence: { tag: '(0066,0026)', keyword: 'TriangleStripSequence', vr: 'SQ', vm: [1, 1] },
+    TriangleFanSequence: { tag: '(0066,0027)', keyword: 'TriangleFanSequence', vr: 'SQ', vm: [1, 1] },
+    LineSequence: { tag: '(0066,0028)', keyword: 'LineSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_PrimitivePointIndexList: { tag: '(0066,0029)', keyword: 'RETIRED_PrimitivePointIndexList', vr: 'OW', vm: [1, 1] },
+    SurfaceCount: { tag: '(0066,002A)', keyword: 'SurfaceCount', vr: 'UL', vm: [1, 1] },
+    ReferencedSurfaceSequence: { tag: '(0066,002B)', keyword: 'ReferencedSurfaceSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedSurfaceNumber: { tag: '(0066,002C)', keyword: 'ReferencedSurfaceNumber', vr: 'UL', vm: [1, 1] },
+    SegmentSurfaceGenerationAlgorithmIdentificationSequence: {
+        tag: '(0066,002D)',
+        keyword: 'SegmentSurfaceGenerationAlgorithmIdentificationSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    SegmentSurfaceSourceInstanceSequence: { tag: '(0066,002E)', keyword: 'SegmentSurfaceSourceInstanceSequence', vr: 'SQ', vm: [1, 1] },
+    AlgorithmFamilyCodeSequence: { tag: '(0066,002F)', keyword: 'AlgorithmFamilyCodeSequence', vr: 'SQ', vm: [1, 1] },
+    AlgorithmNameCodeSequence: { tag: '(0066,0030)', keyword: 'AlgorithmNameCodeSequence', vr: 'SQ', vm: [1, 1] },
+    AlgorithmVersion: { tag: '(0066,0031)', keyword: 'AlgorithmVersion', vr: 'LO', vm: [1, 1] },
+    AlgorithmParameters: { tag: '(0066,0032)', keyword: 'AlgorithmParameters', vr: 'LT', vm: [1, 1] },
+    FacetSequence: { tag: '(0066,0034)', keyword: 'FacetSequence', vr: 'SQ', vm: [1, 1] },
+    SurfaceProcessingAlgorithmIdentificationSequence: { tag: '(0066,0035)', keyword: 'SurfaceProcessingAlgorithmIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    AlgorithmName: { tag: '(0066,0036)', keyword: 'AlgorithmName', vr: 'LO', vm: [1, 1] },
+    RecommendedPointRadius: { tag: '(0066,0037)', keyword: 'RecommendedPointRadius', vr: 'FL', vm: [1, 1] },
+    RecommendedLineThickness: { tag: '(0066,0038)', keyword: 'RecommendedLineThickness', vr: 'FL', vm: [1, 1] },
+    LongPrimitivePointIndexList: { tag: '(0066,0040)', keyword: 'LongPrimitivePointIndexList', vr: 'OL', vm: [1, 1] },
+    LongTrianglePointIndexList: { tag: '(0066,0041)', keyword: 'LongTrianglePointIndexList', vr: 'OL', vm: [1, 1] },
+    LongEdgePointIndexList: { tag: '(0066,0042)', keyword: 'LongEdgePointIndexList', vr: 'OL', vm: [1, 1] },
+    LongVertexPointIndexList: { tag: '(0066,0043)', keyword: 'LongVertexPointIndexList', vr: 'OL', vm: [1, 1] },
+    TrackSetSequence: { tag: '(0066,0101)', keyword: 'TrackSetSequence', vr: 'SQ', vm: [1, 1] },
+    TrackSequence: { tag: '(0066,0102)', keyword: 'TrackSequence', vr: 'SQ', vm: [1, 1] },
+    RecommendedDisplayCIELabValueList: { tag: '(0066,0103)', keyword: 'RecommendedDisplayCIELabValueList', vr: 'OW', vm: [1, 1] },
+    TrackingAlgorithmIdentificationSequence: { tag: '(0066,0104)', keyword: 'TrackingAlgorithmIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    TrackSetNumber: { tag: '(0066,0105)', keyword: 'TrackSetNumber', vr: 'UL', vm: [1, 1] },
+    TrackSetLabel: { tag: '(0066,0106)', keyword: 'TrackSetLabel', vr: 'LO', vm: [1, 1] },
+    TrackSetDescription: { tag: '(0066,0107)', keyword: 'TrackSetDescription', vr: 'UT', vm: [1, 1] },
+    TrackSetAnatomicalTypeCodeSequence: { tag: '(0066,0108)', keyword: 'TrackSetAnatomicalTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    MeasurementsSequence: { tag: '(0066,0121)', keyword: 'MeasurementsSequence', vr: 'SQ', vm: [1, 1] },
+    TrackSetStatisticsSequence: { tag: '(0066,0124)', keyword: 'TrackSetStatisticsSequence', vr: 'SQ', vm: [1, 1] },
+    FloatingPointValues: { tag: '(0066,0125)', keyword: 'FloatingPointValues', vr: 'OF', vm: [1, 1] },
+    TrackPointIndexList: { tag: '(0066,0129)', keyword: 'TrackPointIndexList', vr: 'OL', vm: [1, 1] },
+    TrackStatisticsSequence: { tag: '(0066,0130)', keyword: 'TrackStatisticsSequence', vr: 'SQ', vm: [1, 1] },
+    MeasurementValuesSequence: { tag: '(0066,0132)', keyword: 'MeasurementValuesSequence', vr: 'SQ', vm: [1, 1] },
+    DiffusionAcquisitionCodeSequence: { tag: '(0066,0133)', keyword: 'DiffusionAcquisitionCodeSequence', vr: 'SQ', vm: [1, 1] },
+    DiffusionModelCodeSequence: { tag: '(0066,0134)', keyword: 'DiffusionModelCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ImplantSize: { tag: '(0068,6210)', keyword: 'ImplantSize', vr: 'LO', vm: [1, 1] },
+    ImplantTemplateVersion: { tag: '(0068,6221)', keyword: 'ImplantTemplateVersion', vr: 'LO', vm: [1, 1] },
+    ReplacedImplantTemplateSequence: { tag: '(0068,6222)', keyword: 'ReplacedImplantTemplateSequence', vr: 'SQ', vm: [1, 1] },
+    ImplantType: { tag: '(0068,6223)', keyword: 'ImplantType', vr: 'CS', vm: [1, 1] },
+    DerivationImplantTemplateSequence: { tag: '(0068,6224)', keyword: 'DerivationImplantTemplateSequence', vr: 'SQ', vm: [1, 1] },
+    OriginalImplantTemplateSequence: { tag: '(0068,6225)', keyword: 'OriginalImplantTemplateSequence', vr: 'SQ', vm: [1, 1] },
+    EffectiveDateTime: { tag: '(0068,6226)', keyword: 'EffectiveDateTime', vr: 'DT', vm: [1, 1] },
+    ImplantTargetAnatomySequence: { tag: '(0068,6230)', keyword: 'ImplantTargetAnatomySequence', vr: 'SQ', vm: [1, 1] },
+    InformationFromManufacturerSequence: { tag: '(0068,6260)', keyword: 'InformationFromManufacturerSequence', vr: 'SQ', vm: [1, 1] },
+    NotificationFromManufacturerSequence: { tag: '(0068,6265)', keyword: 'NotificationFromManufacturerSequence', vr: 'SQ', vm: [1, 1] },
+    InformationIssueDateTime: { tag: '(0068,6270)', keyword: 'InformationIssueDateTime', vr: 'DT', vm: [1, 1] },
+    InformationSummary: { tag: '(0068,6280)', keyword: 'InformationSummary', vr: 'ST', vm: [1, 1] },
+    ImplantRegulatoryDisapprovalCodeSequence: { tag: '(0068,62A0)', keyword: 'ImplantRegulatoryDisapprovalCodeSequence', vr: 'SQ', vm: [1, 1] },
+    OverallTemplateSpatialTolerance: { tag: '(0068,62A5)', keyword: 'OverallTemplateSpatialTolerance', vr: 'FD', vm: [1, 1] },
+    HPGLDocumentSequence: { tag: '(0068,62C0)', keyword: 'HPGLDocumentSequence', vr: 'SQ', vm: [1, 1] },
+    HPGLDocumentID: { tag: '(0068,62D0)', keyword: 'HPGLDocumentID', vr: 'US', vm: [1, 1] },
+    HPGLDocumentLabel: { tag: '(0068,62D5)', keyword: 'HPGLDocumentLabel', vr: 'LO', vm: [1, 1] },
+    ViewOrientationCodeSequence: { tag: '(0068,62E0)', keyword: 'ViewOrientationCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ViewOrientationModifierCodeSequence: { tag: '(0068,62F0)', keyword: 'ViewOrientationModifierCodeSequence', vr: 'SQ', vm: [1, 1] },
+    HPGLDocumentScaling: { tag: '(0068,62F2)', keyword: 'HPGLDocumentScaling', vr: 'FD', vm: [1, 1] },
+    HPGLDocument: { tag: '(0068,6300)', keyword: 'HPGLDocument', vr: 'OB', vm: [1, 1] },
+    HPGLContourPenNumber: { tag: '(0068,6310)', keyword: 'HPGLContourPenNumber', vr: 'US', vm: [1, 1] },
+    HPGLPenSequence: { tag: '(0068,6320)', keyword: 'HPGLPenSequence', vr: 'SQ', vm: [1, 1] },
+    HPGLPenNumber: { tag: '(0068,6330)', keyword: 'HPGLPenNumber', vr: 'US', vm: [1, 1] },
+    HPGLPenLabel: { tag: '(0068,6340)', keyword: 'HPGLPenLabel', vr: 'LO', vm: [1, 1] },
+    HPGLPenDescription: { tag: '(0068,6345)', keyword: 'HPGLPenDescription', vr: 'ST', vm: [1, 1] },
+    RecommendedRotationPoint: { tag: '(0068,6346)', keyword: 'RecommendedRotationPoint', vr: 'FD', vm: [2, 2] },
+    BoundingRectangle: { tag: '(0068,6347)', keyword: 'BoundingRectangle', vr: 'FD', vm: [4, 4] },
+    ImplantTemplate3DModelSurfaceNumber: { tag: '(0068,6350)', keyword: 'ImplantTemplate3DModelSurfaceNumber', vr: 'US', vm: [1, null] },
+    SurfaceModelDescriptionSequence: { tag: '(0068,6360)', keyword: 'SurfaceModelDescriptionSequence', vr: 'SQ', vm: [1, 1] },
+    SurfaceModelLabel: { tag: '(0068,6380)', keyword: 'SurfaceModelLabel', vr: 'LO', vm: [1, 1] },
+    SurfaceModelScalingFactor: { tag: '(0068,6390)', keyword: 'SurfaceModelScalingFactor', vr: 'FD', vm: [1, 1] },
+    MaterialsCodeSequence: { tag: '(0068,63A0)', keyword: 'MaterialsCodeSequence', vr: 'SQ', vm: [1, 1] },
+    CoatingMaterialsCodeSequence: { tag: '(0068,63A4)', keyword: 'CoatingMaterialsCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ImplantTypeCodeSequence: { tag: '(0068,63A8)', keyword: 'ImplantTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    FixationMethodCodeSequence: { tag: '(0068,63AC)', keyword: 'FixationMethodCodeSequence', vr: 'SQ', vm: [1, 1] },
+    MatingFeatureSetsSequence: { tag: '(0068,63B0)', keyword: 'MatingFeatureSetsSequence', vr: 'SQ', vm: [1, 1] },
+    MatingFeatureSetID: { tag: '(0068,63C0)', keyword: 'MatingFeatureSetID', vr: 'US', vm: [1, 1] },
+    MatingFeatureSetLabel: { tag: '(0068,63D0)', keyword: 'MatingFeatureSetLabel', vr: 'LO', vm: [1, 1] },
+    MatingFeatureSequence: { tag: '(0068,63E0)', keyword: 'MatingFeatureSequence', vr: 'SQ', vm: [1, 1] },
+    MatingFeatureID: { tag: '(0068,63F0)', keyword: 'MatingFeatureID', vr: 'US', vm: [1, 1] },
+    MatingFeatureDegreeOfFreedomSequence: { tag: '(0068,6400)', keyword: 'MatingFeatureDegreeOfFreedomSequence', vr: 'SQ', vm: [1, 1] },
+    DegreeOfFreedomID: { tag: '(0068,6410)', keyword: 'DegreeOfFreedomID', vr: 'US', vm: [1, 1] },
+    DegreeOfFreedomType: { tag: '(0068,6420)', keyword: 'DegreeOfFreedomType', vr: 'CS', vm: [1, 1] },
+    TwoDMatingFeatureCoordinatesSequence: { tag: '(0068,6430)', keyword: 'TwoDMatingFeatureCoordinatesSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedHPGLDocumentID: { tag: '(0068,6440)', keyword: 'ReferencedHPGLDocumentID', vr: 'US', vm: [1, 1] },
+    TwoDMatingPoint: { tag: '(0068,6450)', keyword: 'TwoDMatingPoint', vr: 'FD', vm: [2, 2] },
+    TwoDMatingAxes: { tag: '(0068,6460)', keyword: 'TwoDMatingAxes', vr: 'FD', vm: [4, 4] },
+    TwoDDegreeOfFreedomSequence: { tag: '(0068,6470)', keyword: 'TwoDDegreeOfFreedomSequence', vr: 'SQ', vm: [1, 1] },
+    ThreeDDegreeOfFreedomAxis: { tag: '(0068,6490)', keyword: 'ThreeDDegreeOfFreedomAxis', vr: 'FD', vm: [3, 3] },
+    RangeOfFreedom: { tag: '(0068,64A0)', keyword: 'RangeOfFreedom', vr: 'FD', vm: [2, 2] },
+    ThreeDMatingPoint: { tag: '(0068,64C0)', keyword: 'ThreeDMatingPoint', vr: 'FD', vm: [3, 3] },
+    ThreeDMatingAxes: { tag: '(0068,64D0)', keyword: 'ThreeDMatingAxes', vr: 'FD', vm: [9, 9] },
+    TwoDDegreeOfFreedomAxis: { tag: '(0068,64F0)', keyword: 'TwoDDegreeOfFreedomAxis', vr: 'FD', vm: [3, 3] },
+    PlanningLandmarkPointSequence: { tag: '(0068,6500)', keyword: 'PlanningLandmarkPointSequence', vr: 'SQ', vm: [1, 1] },
+    PlanningLandmarkLineSequence: { tag: '(0068,6510)', keyword: 'PlanningLandmarkLineSequence', vr: 'SQ', vm: [1, 1] },
+    PlanningLandmarkPlaneSequence: { tag: '(0068,6520)', keyword: 'PlanningLandmarkPlaneSequence', vr: 'SQ', vm: [1, 1] },
+    PlanningLandmarkID: { tag: '(0068,6530)', keyword: 'PlanningLandmarkID', vr: 'US', vm: [1, 1] },
+    PlanningLandmarkDescription: { tag: '(0068,6540)', keyword: 'PlanningLandmarkDescription', vr: 'LO', vm: [1, 1] },
+    PlanningLandmarkIdentificationCodeSequence: { tag: '(0068,6545)', keyword: 'PlanningLandmarkIdentificationCodeSequence', vr: 'SQ', vm: [1, 1] },
+    TwoDPointCoordinatesSequence: { tag: '(0068,6550)', keyword: 'TwoDPointCoordinatesSequence', vr: 'SQ', vm: [1, 1] },
+    TwoDPointCoordinates: { tag: '(0068,6560)', keyword: 'TwoDPointCoordinates', vr: 'FD', vm: [2, 2] },
+    ThreeDPointCoordinates: { tag: '(0068,6590)', keyword: 'ThreeDPointCoordinates', vr: 'FD', vm: [3, 3] },
+    TwoDLineCoordinatesSequence: { tag: '(0068,65A0)', keyword: 'TwoDLineCoordinatesSequence', vr: 'SQ', vm: [1, 1] },
+    TwoDLineCoordinates: { tag: '(0068,65B0)', keyword: 'TwoDLineCoordinates', vr: 'FD', vm: [4, 4] },
+    ThreeDLineCoordinates: { tag: '(0068,65D0)', keyword: 'ThreeDLineCoordinates', vr: 'FD', vm: [6, 6] },
+    TwoDPlaneCoordinatesSequence: { tag: '(0068,65E0)', keyword: 'TwoDPlaneCoordinatesSequence', vr: 'SQ', vm: [1, 1] },
+    TwoDPlaneIntersection: { tag: '(0068,65F0)', keyword: 'TwoDPlaneIntersection', vr: 'FD', vm: [4, 4] },
+    ThreeDPlaneOrigin: { tag: '(0068,6610)', keyword: 'ThreeDPlaneOrigin', vr: 'FD', vm: [3, 3] },
+    ThreeDPlaneNormal: { tag: '(0068,6620)', keyword: 'ThreeDPlaneNormal', vr: 'FD', vm: [3, 3] },
+    ModelModification: { tag: '(0068,7001)', keyword: 'ModelModification', vr: 'CS', vm: [1, 1] },
+    ModelMirroring: { tag: '(0068,7002)', keyword: 'ModelMirroring', vr: 'CS', vm: [1, 1] },
+    ModelUsageCodeSequence: { tag: '(0068,7003)', keyword: 'ModelUsageCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ModelGroupUID: { tag: '(0068,7004)', keyword: 'ModelGroupUID', vr: 'UI', vm: [1, 1] },
+    RelativeURIReferenceWithinEncapsulatedDocument: { tag: '(0068,7005)', keyword: 'RelativeURIReferenceWithinEncapsulatedDocument', vr: 'UR', vm: [1, 1] },
+    GraphicAnnotationSequence: { tag: '(0070,0001)', keyword: 'GraphicAnnotationSequence', vr: 'SQ', vm: [1, 1] },
+    GraphicLayer: { tag: '(0070,0002)', keyword: 'GraphicLayer', vr: 'CS', vm: [1, 1] },
+    BoundingBoxAnnotationUnits: { tag: '(0070,0003)', keyword: 'BoundingBoxAnnotationUnits', vr: 'CS', vm: [1, 1] },
+    AnchorPointAnnotationUnits: { tag: '(0070,0004)', keyword: 'AnchorPointAnnotationUnits', vr: 'CS', vm: [1, 1] },
+    GraphicAnnotationUnits: { tag: '(0070,0005)', keyword: 'GraphicAnnotationUnits', vr: 'CS', vm: [1, 1] },
+    UnformattedTextValue: { tag: '(0070,0006)', keyword: 'UnformattedTextValue', vr: 'ST', vm: [1, 1] },
+    TextObjectSequence: { tag: '(0070,0008)', keyword: 'TextObjectSequence', vr: 'SQ', vm: [1, 1] },
+    GraphicObjectSequence: { tag: '(0070,0009)', keyword: 'GraphicObjectSequence', vr: 'SQ', vm: [1, 1] },
+    BoundingBoxTopLeftHandCorner: { tag: '(0070,0010)', keyword: 'BoundingBoxTopLeftHandCorner', vr: 'FL', vm: [2, 2] },
+    BoundingBoxBottomRightHandCorner: { tag: '(0070,0011)', keyword: 'BoundingBoxBottomRightHandCorner', vr: 'FL', vm: [2, 2] },
+    BoundingBoxTextHorizontalJustification: { tag: '(0070,0012)', keyword: 'BoundingBoxTextHorizontalJustification', vr: 'CS', vm: [1, 1] },
+    AnchorPoint: { tag: '(0070,0014)', keyword: 'AnchorPoint', vr: 'FL', vm: [2, 2] },
+    AnchorPointVisibility: { tag: '(0070,0015)', keyword: 'AnchorPointVisibility', vr: 'CS', vm: [1, 1] },
+    GraphicDimensions: { tag: '(0070,0020)', keyword: 'GraphicDimensions', vr: 'US', vm: [1, 1] },
+    NumberOfGraphicPoints: { tag: '(0070,0021)', keyword: 'NumberOfGraphicPoints', vr: 'US', vm: [1, 1] },
+    GraphicData: { tag: '(0070,0022)', keyword: 'GraphicData', vr: 'FL', vm: [2, null] },
+    GraphicType: { tag: '(0070,0023)', keyword: 'GraphicType', vr: 'CS', vm: [1, 1] },
+    GraphicFilled: { tag: '(0070,0024)', keyword: 'GraphicFilled', vr: 'CS', vm: [1, 1] },
+    RETIRED_ImageRotationRetired: { tag: '(0070,0040)', keyword: 'RETIRED_ImageRotationRetired', vr: 'IS', vm: [1, 1] },
+    ImageHorizontalFlip: { tag: '(0070,0041)', keyword: 'ImageHorizontalFlip', vr: 'CS', vm: [1, 1] },
+    ImageRotation: { tag: '(0070,0042)', keyword: 'ImageRotation', vr: 'US', vm: [1, 1] },
+    RETIRED_DisplayedAreaTopLeftHandCornerTrial: { tag: '(0070,0050)', keyword: 'RETIRED_DisplayedAreaTopLeftHandCornerTrial', vr: 'US', vm: [2, 2] },
+    RETIRED_DisplayedAreaBottomRightHandCornerTrial: { tag: '(0070,0051)', keyword: 'RETIRED_DisplayedAreaBottomRightHandCornerTrial', vr: 'US', vm: [2, 2] },
+    DisplayedAreaTopLeftHandCorner: { tag: '(0070,0052)', keyword: 'DisplayedAreaTopLeftHandCorner', vr: 'SL', vm: [2, 2] },
+    DisplayedAreaBottomRightHandCorner: { tag: '(0070,0053)', keyword: 'DisplayedAreaBottomRightHandCorner', vr: 'SL', vm: [2, 2] },
+    DisplayedAreaSelectionSequence: { tag: '(0070,005A)', keyword: 'DisplayedAreaSelectionSequence', vr: 'SQ', vm: [1, 1] },
+    GraphicLayerSequence: { tag: '(0070,0060)', keyword: 'GraphicLayerSequence', vr: 'SQ', vm: [1, 1] },
+    GraphicLayerOrder: { tag: '(0070,0062)', keyword: 'GraphicLayerOrder', vr: 'IS', vm: [1, 1] },
+    GraphicLayerRecommendedDisplayGrayscaleValue: { tag: '(0070,0066)', keyword: 'GraphicLayerRecommendedDisplayGrayscaleValue', vr: 'US', vm: [1, 1] },
+    RETIRED_GraphicLayerRecommendedDisplayRGBValue: { tag: '(0070,0067)', keyword: 'RETIRED_GraphicLayerRecommendedDisplayRGBValue', vr: 'US', vm: [3, 3] },
+    GraphicLayerDescription: { tag: '(0070,0068)', keyword: 'GraphicLayerDescription', vr: 'LO', vm: [1, 1] },
+    ContentLabel: { tag: '(0070,0080)', keyword: 'ContentLabel', vr: 'CS', vm: [1, 1] },
+    ContentDescription: { tag: '(0070,0081)', keyword: 'ContentDescription', vr: 'LO', vm: [1, 1] },
+    PresentationCreationDate: { tag: '(0070,0082)', keyword: 'PresentationCreationDate', vr: 'DA', vm: [1, 1] },
+    PresentationCreationTime: { tag: '(0070,0083)', keyword: 'PresentationCreationTime', vr: 'TM', vm: [1, 1] },
+    ContentCreatorName: { tag: '(0070,0084)', keyword: 'ContentCreatorName', vr: 'PN', vm: [1, 1] },
+    ContentCreatorIdentificationCodeSequence: { tag: '(0070,0086)', keyword: 'ContentCreatorIdentificationCodeSequence', vr: 'SQ', vm: [1, 1] },
+    AlternateContentDescriptionSequence: { tag: '(0070,0087)', keyword: 'AlternateContentDescriptionSequence', vr: 'SQ', vm: [1, 1] },
+    PresentationSizeMode: { tag: '(0070,0100)', keyword: 'PresentationSizeMode', vr: 'CS', vm: [1, 1] },
+    PresentationPixelSpacing: { tag: '(0070,0101)', keyword: 'PresentationPixelSpacing', vr: 'DS', vm: [2, 2] },
+    PresentationPixelAspectRatio: { tag: '(0070,0102)', keyword: 'PresentationPixelAspectRatio', vr: 'IS', vm: [2, 2] },
+    PresentationPixelMagnificationRatio: { tag: '(0070,0103)', keyword: 'PresentationPixelMagnificationRatio', vr: 'FL', vm: [1, 1] },
+    GraphicGroupLabel: { tag: '(0070,0207)', keyword: 'GraphicGroupLabel', vr: 'LO', vm: [1, 1] },
+    GraphicGroupDescription: { tag: '(0070,0208)', keyword: 'GraphicGroupDescription', vr: 'ST', vm: [1, 1] },
+    CompoundGraphicSequence: { tag: '(0070,0209)', keyword: 'CompoundGraphicSequence', vr: 'SQ', vm: [1, 1] },
+    CompoundGraphicInstanceID: { tag: '(0070,0226)', keyword: 'CompoundGraphicInstanceID', vr: 'UL', vm: [1, 1] },
+    FontName: { tag: '(0070,0227)', keyword: 'FontName', vr: 'LO', vm: [1, 1] },
+    FontNameType: { tag: '(0070,0228)', keyword: 'FontNameType', vr: 'CS', vm: [1, 1] },
+    CSSFontName: { tag: '(0070,0229)', keyword: 'CSSFontName', vr: 'LO', vm: [1, 1] },
+    RotationAngle: { tag: '(0070,0230)', keyword: 'RotationAngle', vr: 'FD', vm: [1, 1] },
+    TextStyleSequence: { tag: '(0070,0231)', keyword: 'TextStyleSequence', vr: 'SQ', vm: [1, 1] },
+    LineStyleSequence: { tag: '(0070,0232)', keyword: 'LineStyleSequence', vr: 'SQ', vm: [1, 1] },
+    FillStyleSequence: { tag: '(0070,0233)', keyword: 'FillStyleSequence', vr: 'SQ', vm: [1, 1] },
+    GraphicGroupSequence: { tag: '(0070,0234)', keyword: 'GraphicGroupSequence', vr: 'SQ', vm: [1, 1] },
+    TextColorCIELabValue: { tag: '(0070,0241)', keyword: 'TextColorCIELabValue', vr: 'US', vm: [3, 3] },
+    HorizontalAlignment: { tag: '(0070,0242)', keyword: 'HorizontalAlignment', vr: 'CS', vm: [1, 1] },
+    VerticalAlignment: { tag: '(0070,0243)', keyword: 'VerticalAlignment', vr: 'CS', vm: [1, 1] },
+    ShadowStyle: { tag: '(0070,0244)', keyword: 'ShadowStyle', vr: 'CS', vm: [1, 1] },
+    ShadowOffsetX: { tag: '(0070,0245)', keyword: 'ShadowOffsetX', vr: 'FL', vm: [1, 1] },
+    ShadowOffsetY: { tag: '(0070,0246)', keyword: 'ShadowOffsetY', vr: 'FL', vm: [1, 1] },
+    ShadowColorCIELabValue: { tag: '(0070,0247)', keyword: 'ShadowColorCIELabValue', vr: 'US', vm: [3, 3] },
+    Underlined: { tag: '(0070,0248)', keyword: 'Underlined', vr: 'CS', vm: [1, 1] },
+    Bold: { tag: '(0070,0249)', keyword: 'Bold', vr: 'CS', vm: [1, 1] },
+    Italic: { tag: '(0070,0250)', keyword: 'Italic', vr: 'CS', vm: [1, 1] },
+    PatternOnColorCIELabValue: { tag: '(0070,0251)', keyword: 'PatternOnColorCIELabValue', vr: 'US', vm: [3, 3] },
+    PatternOffColorCIELabValue: { tag: '(0070,0252)', keyword: 'PatternOffColorCIELabValue', vr: 'US', vm: [3, 3] },
+    LineThickness: { tag: '(0070,0253)', keyword: 'LineThickness', vr: 'FL', vm: [1, 1] },
+    LineDashingStyle: { tag: '(0070,0254)', keyword: 'LineDashingStyle', vr: 'CS', vm: [1, 1] },
+    LinePattern: { tag: '(0070,0255)', keyword: 'LinePattern', vr: 'UL', vm: [1, 1] },
+    FillPattern: { tag: '(0070,0256)', keyword: 'FillPattern', vr: 'OB', vm: [1, 1] },
+    FillMode: { tag: '(0070,0257)', keyword: 'FillMode', vr: 'CS', vm: [1, 1] },
+    ShadowOpacity: { tag: '(0070,0258)', keyword: 'ShadowOpacity', vr: 'FL', vm: [1, 1] },
+    GapLength: { tag: '(0070,0261)', keyword: 'GapLength', vr: 'FL', vm: [1, 1] },
+    DiameterOfVisibility: { tag: '(0070,0262)', keyword: 'DiameterOfVisibility', vr: 'FL', vm: [1, 1] },
+    RotationPoint: { tag: '(0070,0273)', keyword: 'RotationPoint', vr: 'FL', vm: [2, 2] },
+    TickAlignment: { tag: '(0070,0274)', keyword: 'TickAlignment', vr: 'CS', vm: [1, 1] },
+    ShowTickLabel: { tag: '(0070,0278)', keyword: 'ShowTickLabel', vr: 'CS', vm: [1, 1] },
+    TickLabelAlignment: { tag: '(0070,0279)', keyword: 'TickLabelAlignment', vr: 'CS', vm: [1, 1] },
+    CompoundGraphicUnits: { tag: '(0070,0282)', keyword: 'CompoundGraphicUnits', vr: 'CS', vm: [1, 1] },
+    PatternOnOpacity: { tag: '(0070,0284)', keyword: 'PatternOnOpacity', vr: 'FL', vm: [1, 1] },
+    PatternOffOpacity: { tag: '(0070,0285)', keyword: 'PatternOffOpacity', vr: 'FL', vm: [1, 1] },
+    MajorTicksSequence: { tag: '(0070,0287)', keyword: 'MajorTicksSequence', vr: 'SQ', vm: [1, 1] },
+    TickPosition: { tag: '(0070,0288)', keyword: 'TickPosition', vr: 'FL', vm: [1, 1] },
+    TickLabel: { tag: '(0070,0289)', keyword: 'TickLabel', vr: 'SH', vm: [1, 1] },
+    CompoundGraphicType: { tag: '(0070,0294)', keyword: 'CompoundGraphicType', vr: 'CS', vm: [1, 1] },
+    GraphicGroupID: { tag: '(0070,0295)', keyword: 'GraphicGroupID', vr: 'UL', vm: [1, 1] },
+    ShapeType: { tag: '(0070,0306)', keyword: 'ShapeType', vr: 'CS', vm: [1, 1] },
+    RegistrationSequence: { tag: '(0070,0308)', keyword: 'RegistrationSequence', vr: 'SQ', vm: [1, 1] },
+    MatrixRegistrationSequence: { tag: '(0070,0309)', keyword: 'MatrixRegistrationSequence', vr: 'SQ', vm: [1, 1] },
+    MatrixSequence: { tag: '(0070,030A)', keyword: 'MatrixSequence', vr: 'SQ', vm: [1, 1] },
+    FrameOfReferenceToDisplayedCoordinateSystemTransformationMatrix: {
+        tag: '(0070,030B)',
+        keyword: 'FrameOfReferenceToDisplayedCoordinateSystemTransformationMatrix',
+        vr: 'FD',
+        vm: [22, 22],
+    },
+    FrameOfReferenceTransformationMatrixType: { tag: '(0070,030C)', keyword: 'FrameOfReferenceTransformationMatrixType', vr: 'CS', vm: [1, 1] },
+    RegistrationTypeCodeSequence: { tag: '(0070,030D)', keyword: 'RegistrationTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    FiducialDescription: { tag: '(0070,030F)', keyword: 'FiducialDescription', vr: 'ST', vm: [1, 1] },
+    FiducialIdentifier: { tag: '(0070,0310)', keyword: 'FiducialIdentifier', vr: 'SH', vm: [1, 1] },
+    FiducialIdentifierCodeSequence: { tag: '(0070,0311)', keyword: 'FiducialIdentifierCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ContourUncertaintyRadius: { tag: '(0070,0312)', keyword: 'ContourUncertaintyRadius', vr: 'FD', vm: [1, 1] },
+    UsedFiducialsSequence: { tag: '(0070,0314)', keyword: 'UsedFiducialsSequence', vr: 'SQ', vm: [1, 1] },
+    GraphicCoordinatesDataSequence: { tag: '(0070,0318)', keyword: 'GraphicCoordinatesDataSequence', vr: 'SQ', vm: [1, 1] },
+    FiducialUID: { tag: '(0070,031A)', keyword: 'FiducialUID', vr: 'UI', vm: [1, 1] },
+    ReferencedFiducialUID: { tag: '(0070,031B)', keyword: 'ReferencedFiducialUID', vr: 'UI', vm: [1, 1] },
+    FiducialSetSequence: { tag: '(0070,031C)', keyword: 'FiducialSetSequence', vr: 'SQ', vm: [1, 1] },
+    FiducialSequence: { tag: '(0070,031E)', keyword: 'FiducialSequence', vr: 'SQ', vm: [1, 1] },
+    FiducialsPropertyCategoryCodeSequence: { tag: '(0070,031F)', keyword: 'FiducialsPropertyCategoryCodeSequence', vr: 'SQ', vm: [1, 1] },
+    GraphicLayerRecommendedDisplayCIELabValue: { tag: '(0070,0401)', keyword: 'GraphicLayerRecommendedDisplayCIELabValue', vr: 'US', vm: [3, 3] },
+    BlendingSequence: { tag: '(0070,0402)', keyword: 'BlendingSequence', vr: 'SQ', vm: [1, 1] },
+    RelativeOpacity: { tag: '(0070,0403)', keyword: 'RelativeOpacity', vr: 'FL', vm: [1, 1] },
+    ReferencedSpatialRegistrationSequence: { tag: '(0070,0404)', keyword: 'ReferencedSpatialRegistrationSequence', vr: 'SQ', vm: [1, 1] },
+    BlendingPosition: { tag: '(0070,0405)', keyword: 'BlendingPosition', vr: 'CS', vm: [1, 1] },
+    PresentationDisplayCollectionUID: { tag: '(0070,1101)', keyword: 'PresentationDisplayCollectionUID', vr: 'UI', vm: [1, 1] },
+    PresentationSequenceCollectionUID: { tag: '(0070,1102)', keyword: 'PresentationSequenceCollectionUID', vr: 'UI', vm: [1, 1] },
+    PresentationSequencePositionIndex: { tag: '(0070,1103)', keyword: 'PresentationSequencePositionIndex', vr: 'US', vm: [1, 1] },
+    RenderedImageReferenceSequence: { tag: '(0070,1104)', keyword: 'RenderedImageReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    VolumetricPresentationStateInputSequence: { tag: '(0070,1201)', keyword: 'VolumetricPresentationStateInputSequence', vr: 'SQ', vm: [1, 1] },
+    PresentationInputType: { tag: '(0070,1202)', keyword: 'PresentationInputType', vr: 'CS', vm: [1, 1] },
+    InputSequencePositionIndex: { tag: '(0070,1203)', keyword: 'InputSequencePositionIndex', vr: 'US', vm: [1, 1] },
+    Crop: { tag: '(0070,1204)', keyword: 'Crop', vr: 'CS', vm: [1, 1] },
+    CroppingSpecificationIndex: { tag: '(0070,1205)', keyword: 'CroppingSpecificationIndex', vr: 'US', vm: [1, null] },
+    RETIRED_CompositingMethod: { tag: '(0070,1206)', keyword: 'RETIRED_CompositingMethod', vr: 'CS', vm: [1, 1] },
+    VolumetricPresentationInputNumber: { tag: '(0070,1207)', keyword: 'VolumetricPresentationInputNumber', vr: 'US', vm: [1, 1] },
+    ImageVolumeGeometry: { tag: '(0070,1208)', keyword: 'ImageVolumeGeometry', vr: 'CS', vm: [1, 1] },
+    VolumetricPresentationInputSetUID: { tag: '(0070,1209)', keyword: 'VolumetricPresentationInputSetUID', vr: 'UI', vm: [1, 1] },
+    VolumetricPresentationInputSetSequence: { tag: '(0070,120A)', keyword: 'VolumetricPresentationInputSetSequence', vr: 'SQ', vm: [1, 1] },
+    GlobalCrop: { tag: '(0070,120B)', keyword: 'GlobalCrop', vr: 'CS', vm: [1, 1] },
+    GlobalCroppingSpecificationIndex: { tag: '(0070,120C)', keyword: 'GlobalCroppingSpecificationIndex', vr: 'US', vm: [1, null] },
+    RenderingMethod: { tag: '(0070,120D)', keyword: 'RenderingMethod', vr: 'CS', vm: [1, 1] },
+    VolumeCroppingSequence: { tag: '(0070,1301)', keyword: 'VolumeCroppingSequence', vr: 'SQ', vm: [1, 1] },
+    VolumeCroppingMethod: { tag: '(0070,1302)', keyword: 'VolumeCroppingMethod', vr: 'CS', vm: [1, 1] },
+    BoundingBoxCrop: { tag: '(0070,1303)', keyword: 'BoundingBoxCrop', vr: 'FD', vm: [6, 6] },
+    ObliqueCroppingPlaneSequence: { tag: '(0070,1304)', keyword: 'ObliqueCroppingPlaneSequence', vr: 'SQ', vm: [1, 1] },
+    Plane: { tag: '(0070,1305)', keyword: 'Plane', vr: 'FD', vm: [4, 4] },
+    PlaneNormal: { tag: '(0070,1306)', keyword: 'PlaneNormal', vr: 'FD', vm: [3, 3] },
+    CroppingSpecificationNumber: { tag: '(0070,1309)', keyword: 'CroppingSpecificationNumber', vr: 'US', vm: [1, 1] },
+    MultiPlanarReconstructionStyle: { tag: '(0070,1501)', keyword: 'MultiPlanarReconstructionStyle', vr: 'CS', vm: [1, 1] },
+    MPRThicknessType: { tag: '(0070,1502)', keyword: 'MPRThicknessType', vr: 'CS', vm: [1, 1] },
+    MPRSlabThickness: { tag: '(0070,1503)', keyword: 'MPRSlabThickness', vr: 'FD', vm: [1, 1] },
+    MPRTopLeftHandCorner: { tag: '(0070,1505)', keyword: 'MPRTopLeftHandCorner', vr: 'FD', vm: [3, 3] },
+    MPRViewWidthDirection: { tag: '(0070,1507)', keyword: 'MPRViewWidthDirection', vr: 'FD', vm: [3, 3] },
+    MPRViewWidth: { tag: '(0070,1508)', keyword: 'MPRViewWidth', vr: 'FD', vm: [1, 1] },
+    NumberOfVolumetricCurvePoints: { tag: '(0070,150C)', keyword: 'NumberOfVolumetricCurvePoints', vr: 'UL', vm: [1, 1] },
+    VolumetricCurvePoints: { tag: '(0070,150D)', keyword: 'VolumetricCurvePoints', vr: 'OD', vm: [1, 1] },
+    MPRViewHeightDirection: { tag: '(0070,1511)', keyword: 'MPRViewHeightDirection', vr: 'FD', vm: [3, 3] },
+    MPRViewHeight: { tag: '(0070,1512)', keyword: 'MPRViewHeight', vr: 'FD', vm: [1, 1] },
+    RenderProjection: { tag: '(0070,1602)', keyword: 'RenderProjection', vr: 'CS', vm: [1, 1] },
+    ViewpointPosition: { tag: '(0070,1603)', keyword: 'ViewpointPosition', vr: 'FD', vm: [3, 3] },
+    ViewpointLookAtPoint: { tag: '(0070,1604)', keyword: 'ViewpointLookAtPoint', vr: 'FD', vm: [3, 3] },
+    ViewpointUpDirection: { tag: '(0070,1605)', keyword: 'ViewpointUpDirection', vr: 'FD', vm: [3, 3] },
+    RenderFieldOfView: { tag: '(0070,1606)', keyword: 'RenderFieldOfView', vr: 'FD', vm: [6, 6] },
+    SamplingStepSize: { tag: '(0070,1607)', keyword: 'SamplingStepSize', vr: 'FD', vm: [1, 1] },
+    ShadingStyle: { tag: '(0070,1701)', keyword: 'ShadingStyle', vr: 'CS', vm: [1, 1] },
+    AmbientReflectionIntensity: { tag: '(0070,1702)', keyword: 'AmbientReflectionIntensity', vr: 'FD', vm: [1, 1] },
+    LightDirection: { tag: '(0070,1703)', keyword: 'LightDirection', vr: 'FD', vm: [3, 3] },
+    DiffuseReflectionIntensity: { tag: '(0070,1704)', keyword: 'DiffuseReflectionIntensity', vr: 'FD', vm: [1, 1] },
+    SpecularReflectionIntensity: { tag: '(0070,1705)', keyword: 'SpecularReflectionIntensity', vr: 'FD', vm: [1, 1] },
+    Shininess: { tag: '(0070,1706)', keyword: 'Shininess', vr: 'FD', vm: [1, 1] },
+    PresentationStateClassificationComponentSequence: { tag: '(0070,1801)', keyword: 'PresentationStateClassificationComponentSequence', vr: 'SQ', vm: [1, 1] },
+    ComponentType: { tag: '(0070,1802)', keyword: 'ComponentType', vr: 'CS', vm: [1, 1] },
+    ComponentInputSequence: { tag: '(0070,1803)', keyword: 'ComponentInputSequence', vr: 'SQ', vm: [1, 1] },
+    VolumetricPresentationInputIndex: { tag: '(0070,1804)', keyword: 'VolumetricPresentationInputIndex', vr: 'US', vm: [1, 1] },
+    PresentationStateCompositorComponentSequence: { tag: '(0070,1805)', keyword: 'PresentationStateCompositorComponentSequence', vr: 'SQ', vm: [1, 1] },
+    WeightingTransferFunctionSequence: { tag: '(0070,1806)', keyword: 'WeightingTransferFunctionSequence', vr: 'SQ', vm: [1, 1] },
+    WeightingLookupTableDescriptor: { tag: '(0070,1807)', keyword: 'WeightingLookupTableDescriptor', vr: 'US', vm: [3, 3] },
+    WeightingLookupTableData: { tag: '(0070,1808)', keyword: 'WeightingLookupTableData', vr: 'OB', vm: [1, 1] },
+    VolumetricAnnotationSequence: { tag: '(0070,1901)', keyword: 'VolumetricAnnotationSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedStructuredContextSequence: { tag: '(0070,1903)', keyword: 'ReferencedStructuredContextSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedContentItem: { tag: '(0070,1904)', keyword: 'ReferencedContentItem', vr: 'UI', vm: [1, 1] },
+    VolumetricPresentationInputAnnotationSequence: { tag: '(0070,1905)', keyword: 'VolumetricPresentationInputAnnotationSequence', vr: 'SQ', vm: [1, 1] },
+    AnnotationClipping: { tag: '(0070,1907)', keyword: 'AnnotationClipping', vr: 'CS', vm: [1, 1] },
+    PresentationAnimationStyle: { tag: '(0070,1A01)', keyword: 'PresentationAnimationStyle', vr: 'CS', vm: [1, 1] },
+    RecommendedAnimationRate: { tag: '(0070,1A03)', keyword: 'RecommendedAnimationRate', vr: 'FD', vm: [1, 1] },
+    AnimationCurveSequence: { tag: '(0070,1A04)', keyword: 'AnimationCurveSequence', vr: 'SQ', vm: [1, 1] },
+    AnimationStepSize: { tag: '(0070,1A05)', keyword: 'AnimationStepSize', vr: 'FD', vm: [1, 1] },
+    SwivelRange: { tag: '(0070,1A06)', keyword: 'SwivelRange', vr: 'FD', vm: [1, 1] },
+    VolumetricCurveUpDirections: { tag: '(0070,1A07)', keyword: 'VolumetricCurveUpDirections', vr: 'OD', vm: [1, 1] },
+    VolumeStreamSequence: { tag: '(0070,1A08)', keyword: 'VolumeStreamSequence', vr: 'SQ', vm: [1, 1] },
+    RGBATransferFunctionDescription: { tag: '(0070,1A09)', keyword: 'RGBATransferFunctionDescription', vr: 'LO', vm: [1, 1] },
+    AdvancedBlendingSequence: { tag: '(0070,1B01)', keyword: 'AdvancedBlendingSequence', vr: 'SQ', vm: [1, 1] },
+    BlendingInputNumber: { tag: '(0070,1B02)', keyword: 'BlendingInputNumber', vr: 'US', vm: [1, 1] },
+    BlendingDisplayInputSequence: { tag: '(0070,1B03)', keyword: 'BlendingDisplayInputSequence', vr: 'SQ', vm: [1, 1] },
+    BlendingDisplaySequence: { tag: '(0070,1B04)', keyword: 'BlendingDisplaySequence', vr: 'SQ', vm: [1, 1] },
+    BlendingMode: { tag: '(0070,1B06)', keyword: 'BlendingMode', vr: 'CS', vm: [1, 1] },
+    TimeSeriesBlending: { tag: '(0070,1B07)', keyword: 'TimeSeriesBlending', vr: 'CS', vm: [1, 1] },
+    GeometryForDisplay: { tag: '(0070,1B08)', keyword: 'GeometryForDisplay', vr: 'CS', vm: [1, 1] },
+    ThresholdSequence: { tag: '(0070,1B11)', keyword: 'ThresholdSequence', vr: 'SQ', vm: [1, 1] },
+    ThresholdValueSequence: { tag: '(0070,1B12)', keyword: 'ThresholdValueSequence', vr: 'SQ', vm: [1, 1] },
+    ThresholdType: { tag: '(0070,1B13)', keyword: 'ThresholdType', vr: 'CS', vm: [1, 1] },
+    ThresholdValue: { tag: '(0070,1B14)', keyword: 'ThresholdValue', vr: 'FD', vm: [1, 1] },
+    HangingProtocolName: { tag: '(0072,0002)', keyword: 'HangingProtocolName', vr: 'SH', vm: [1, 1] },
+    HangingProtocolDescription: { tag: '(0072,0004)', keyword: 'HangingProtocolDescription', vr: 'LO', vm: [1, 1] },
+    HangingProtocolLevel: { tag: '(0072,0006)', keyword: 'HangingProtocolLevel', vr: 'CS', vm: [1, 1] },
+    HangingProtocolCreator: { tag: '(0072,0008)', keyword: 'HangingProtocolCreator', vr: 'LO', vm: [1, 1] },
+    HangingProtocolCreationDateTime: { tag: '(0072,000A)', keyword: 'HangingProtocolCreationDateTime', vr: 'DT', vm: [1, 1] },
+    HangingProtocolDefinitionSequence: { tag: '(0072,000C)', keyword: 'HangingProtocolDefinitionSequence', vr: 'SQ', vm: [1, 1] },
+    HangingProtocolUserIdentificationCodeSequence: { tag: '(0072,000E)', keyword: 'HangingProtocolUserIdentificationCodeSequence', vr: 'SQ', vm: [1, 1] },
+    HangingProtocolUserGroupName: { tag: '(0072,0010)', keyword: 'HangingProtocolUserGroupName', vr: 'LO', vm: [1, 1] },
+    SourceHangingProtocolSequence: { tag: '(0072,0012)', keyword: 'SourceHangingProtocolSequence', vr: 'SQ', vm: [1, 1] },
+    NumberOfPriorsReferenced: { tag: '(0072,0014)', keyword: 'NumberOfPriorsReferenced', vr: 'US', vm: [1, 1] },
+    ImageSetsSequence: { tag: '(0072,0020)', keyword: 'ImageSetsSequence', vr: 'SQ', vm: [1, 1] },
+    ImageSetSelectorSequence: { tag: '(0072,0022)', keyword: 'ImageSetSelectorSequence', vr: 'SQ', vm: [1, 1] },
+    ImageSetSelectorUsageFlag: { tag: '(0072,0024)', keyword: 'ImageSetSelectorUsageFlag', vr: 'CS', vm: [1, 1] },
+    SelectorAttribute: { tag: '(0072,0026)', keyword: 'SelectorAttribute', vr: 'AT', vm: [1, 1] },
+    SelectorValueNumber: { tag: '(0072,0028)', keyword: 'SelectorValueNumber', vr: 'US', vm: [1, 1] },
+    TimeBasedImageSetsSequence: { tag: '(0072,0030)', keyword: 'TimeBasedImageSetsSequence', vr: 'SQ', vm: [1, 1] },
+    ImageSetNumber: { tag: '(0072,0032)', keyword: 'ImageSetNumber', vr: 'US', vm: [1, 1] },
+    ImageSetSelectorCategory: { tag: '(0072,0034)', keyword: 'ImageSetSelectorCategory', vr: 'CS', vm: [1, 1] },
+    RelativeTime: { tag: '(0072,0038)', keyword: 'RelativeTime', vr: 'US', vm: [2, 2] },
+    RelativeTimeUnits: { tag: '(0072,003A)', keyword: 'RelativeTimeUnits', vr: 'CS', vm: [1, 1] },
+    AbstractPriorValue: { tag: '(0072,003C)', keyword: 'AbstractPriorValue', vr: 'SS', vm: [2, 2] },
+    AbstractPriorCodeSequence: { tag: '(0072,003E)', keyword: 'AbstractPriorCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ImageSetLabel: { tag: '(0072,0040)', keyword: 'ImageSetLabel', vr: 'LO', vm: [1, 1] },
+    SelectorAttributeVR: { tag: '(0072,0050)', keyword: 'SelectorAttributeVR', vr: 'CS', vm: [1, 1] },
+    SelectorSequencePointer: { tag: '(0072,0052)', keyword: 'SelectorSequencePointer', vr: 'AT', vm: [1, null] },
+    SelectorSequencePointerPrivateCreator: { tag: '(0072,0054)', keyword: 'SelectorSequencePointerPrivateCreator', vr: 'LO', vm: [1, null] },
+    SelectorAttributePrivateCreator: { tag: '(0072,0056)', keyword: 'SelectorAttributePrivateCreator', vr: 'LO', vm: [1, 1] },
+    SelectorAEValue: { tag: '(0072,005E)', keyword: 'SelectorAEValue', vr: 'AE', vm: [1, null] },
+    SelectorASValue: { tag: '(0072,005F)', keyword: 'SelectorASValue', vr: 'AS', vm: [1, null] },
+    SelectorATValue: { tag: '(0072,0060)', keyword: 'SelectorATValue', vr: 'AT', vm: [1, null] },
+    SelectorDAValue: { tag: '(0072,0061)', keyword: 'SelectorDAValue', vr: 'DA', vm: [1, null] },
+    SelectorCSValue: { tag: '(0072,0062)', keyword: 'SelectorCSValue', vr: 'CS', vm: [1, null] },
+    SelectorDTValue: { tag: '(0072,0063)', keyword: 'SelectorDTValue', vr: 'DT', vm: [1, null] },
+    SelectorISValue: { tag: '(0072,0064)', keyword: 'SelectorISValue', vr: 'IS', vm: [1, null] },
+    SelectorOBValue: { tag: '(0072,0065)', keyword: 'SelectorOBValue', vr: 'OB', vm: [1, 1] },
+    SelectorLOValue: { tag: '(0072,0066)', keyword: 'SelectorLOValue', vr: 'LO', vm: [1, null] },
+    SelectorOFValue: { tag: '(0072,0067)', keyword: 'SelectorOFValue', vr: 'OF', vm: [1, 1] },
+    SelectorLTValue: { tag: '(0072,0068)', keyword: 'SelectorLTValue', vr: 'LT', vm: [1, 1] },
+    SelectorOWValue: { tag: '(0072,0069)', keyword: 'SelectorOWValue', vr: 'OW', vm: [1, 1] },
+    SelectorPNValue: { tag: '(0072,006A)', keyword: 'SelectorPNValue', vr: 'PN', vm: [1, null] },
+    SelectorTMValue: { tag: '(0072,006B)', keyword: 'SelectorTMValue', vr: 'TM', vm: [1, null] },
+    SelectorSHValue: { tag: '(0072,006C)', keyword: 'SelectorSHValue', vr: 'SH', vm: [1, null] },
+    SelectorUNValue: { tag: '(0072,006D)', keyword: 'SelectorUNValue', vr: 'UN', vm: [1, 1] },
+    SelectorSTValue: { tag: '(0072,006E)', keyword: 'SelectorSTValue', vr: 'ST', vm: [1, 1] },
+    SelectorUCValue: { tag: '(0072,006F)', keyword: 'SelectorUCValue', vr: 'UC', vm: [1, null] },
+    SelectorUTValue: { tag: '(0072,0070)', keyword: 'SelectorUTValue', vr: 'UT', vm: [1, 1] },
+    SelectorURValue: { tag: '(0072,0071)', keyword: 'SelectorURValue', vr: 'UR', vm: [1, 1] },
+    SelectorDSValue: { tag: '(0072,0072)', keyword: 'SelectorDSValue', vr: 'DS', vm: [1, null] },
+    SelectorODValue: { tag: '(0072,0073)', keyword: 'SelectorODValue', vr: 'OD', vm: [1, 1] },
+    SelectorFDValue: { tag: '(0072,0074)', keyword: 'SelectorFDValue', vr: 'FD', vm: [1, null] },
+    SelectorOLValue: { tag: '(0072,0075)', keyword: 'SelectorOLValue', vr: 'OL', vm: [1, 1] },
+    SelectorFLValue: { tag: '(0072,0076)', keyword: 'SelectorFLValue', vr: 'FL', vm: [1, null] },
+    SelectorULValue: { tag: '(0072,0078)', keyword: 'SelectorULValue', vr: 'UL', vm: [1, null] },
+    SelectorUSValue: { tag: '(0072,007A)', keyword: 'SelectorUSValue', vr: 'US', vm: [1, null] },
+    SelectorSLValue: { tag: '(0072,007C)', keyword: 'SelectorSLValue', vr: 'SL', vm: [1, null] },
+    SelectorSSValue: { tag: '(0072,007E)', keyword: 'SelectorSSValue', vr: 'SS', vm: [1, null] },
+    SelectorUIValue: { tag: '(0072,007F)', keyword: 'SelectorUIValue', vr: 'UI', vm: [1, null] },
+    SelectorCodeSequenceValue: { tag: '(0072,0080)', keyword: 'SelectorCodeSequenceValue', vr: 'SQ', vm: [1, 1] },
+    SelectorOVValue: { tag: '(0072,0081)', keyword: 'SelectorOVValue', vr: 'OV', vm: [1, 1] },
+    SelectorSVValue: { tag: '(0072,0082)', keyword: 'SelectorSVValue', vr: 'SV', vm: [1, null] },
+    SelectorUVValue: { tag: '(0072,0083)', keyword: 'SelectorUVValue', vr: 'UV', vm: [1, null] },
+    NumberOfScreens: { tag: '(0072,0100)', keyword: 'NumberOfScreens', vr: 'US', vm: [1, 1] },
+    NominalScreenDefinitionSequence: { tag: '(0072,0102)', keyword: 'NominalScreenDefinitionSequence', vr: 'SQ', vm: [1, 1] },
+    NumberOfVerticalPixels: { tag: '(0072,0104)', keyword: 'NumberOfVerticalPixels', vr: 'US', vm: [1, 1] },
+    NumberOfHorizontalPixels: { tag: '(0072,0106)', keyword: 'NumberOfHorizontalPixels', vr: 'US', vm: [1, 1] },
+    DisplayEnvironmentSpatialPosition: { tag: '(0072,0108)', keyword: 'DisplayEnvironmentSpatialPosition', vr: 'FD', vm: [4, 4] },
+    ScreenMinimumGrayscaleBitDepth: { tag: '(0072,010A)', keyword: 'ScreenMinimumGrayscaleBitDepth', vr: 'US', vm: [1, 1] },
+    ScreenMinimumColorBitDepth: { tag: '(0072,010C)', keyword: 'ScreenMinimumColorBitDepth', vr: 'US', vm: [1, 1] },
+    ApplicationMaximumRepaintTime: { tag: '(0072,010E)', keyword: 'ApplicationMaximumRepaintTime', vr: 'US', vm: [1, 1] },
+    DisplaySetsSequence: { tag: '(0072,0200)', keyword: 'DisplaySetsSequence', vr: 'SQ', vm: [1, 1] },
+    DisplaySetNumber: { tag: '(0072,0202)', keyword: 'DisplaySetNumber', vr: 'US', vm: [1, 1] },
+    DisplaySetLabel: { tag: '(0072,0203)', keyword: 'DisplaySetLabel', vr: 'LO', vm: [1, 1] },
+    DisplaySetPresentationGroup: { tag: '(0072,0204)', keyword: 'DisplaySetPresentationGroup', vr: 'US', vm: [1, 1] },
+    DisplaySetPresentationGroupDescription: { tag: '(0072,0206)', keyword: 'DisplaySetPresentationGroupDescription', vr: 'LO', vm: [1, 1] },
+    PartialDataDisplayHandling: { tag: '(0072,0208)', keyword: 'PartialDataDisplayHandling', vr: 'CS', vm: [1, 1] },
+    SynchronizedScrollingSequence: { tag: '(0072,0210)', keyword: 'SynchronizedScrollingSequence', vr: 'SQ', vm: [1, 1] },
+    DisplaySetScrollingGroup: { tag: '(0072,0212)', keyword: 'DisplaySetScrollingGroup', vr: 'US', vm: [2, null] },
+    NavigationIndicatorSequence: { tag: '(0072,0214)', keyword: 'NavigationIndicatorSequence', vr: 'SQ', vm: [1, 1] },
+    NavigationDisplaySet: { tag: '(0072,0216)', keyword: 'NavigationDisplaySet', vr: 'US', vm: [1, 1] },
+    ReferenceDisplaySets: { tag: '(0072,0218)', keyword: 'ReferenceDisplaySets', vr: 'US', vm: [1, null] },
+    ImageBoxesSequence: { tag: '(0072,0300)', keyword: 'ImageBoxesSequence', vr: 'SQ', vm: [1, 1] },
+    ImageBoxNumber: { tag: '(0072,0302)', keyword: 'ImageBoxNumber', vr: 'US', vm: [1, 1] },
+    ImageBoxLayoutType: { tag: '(0072,0304)', keyword: 'ImageBoxLayoutType', vr: 'CS', vm: [1, 1] },
+    ImageBoxTileHorizontalDimension: { tag: '(0072,0306)', keyword: 'ImageBoxTileHorizontalDimension', vr: 'US', vm: [1, 1] },
+    ImageBoxTileVerticalDimension: { tag: '(0072,0308)', keyword: 'ImageBoxTileVerticalDimension', vr: 'US', vm: [1, 1] },
+    ImageBoxScrollDirection: { tag: '(0072,0310)', keyword: 'ImageBoxScrollDirection', vr: 'CS', vm: [1, 1] },
+    ImageBoxSmallScrollType: { tag: '(0072,0312)', keyword: 'ImageBoxSmallScrollType', vr: 'CS', vm: [1, 1] },
+    ImageBoxSmallScrollAmount: { tag: '(0072,0314)', keyword: 'ImageBoxSmallScrollAmount', vr: 'US', vm: [1, 1] },
+    ImageBoxLargeScrollType: { tag: '(0072,0316)', keyword: 'ImageBoxLargeScrollType', vr: 'CS', vm: [1, 1] },
+    ImageBoxLargeScrollAmount: { tag: '(0072,0318)', keyword: 'ImageBoxLargeScrollAmount', vr: 'US', vm: [1, 1] },
+    ImageBoxOverlapPriority: { tag: '(0072,0320)', keyword: 'ImageBoxOverlapPriority', vr: 'US', vm: [1, 1] },
+    CineRelativeToRealTime: { tag: '(0072,0330)', keyword: 'CineRelativeToRealTime', vr: 'FD', vm: [1, 1] },
+    FilterOperationsSequence: { tag: '(0072,0400)', keyword: 'FilterOperationsSequence', vr: 'SQ', vm: [1, 1] },
+    FilterByCategory: { tag: '(0072,0402)', keyword: 'FilterByCategory', vr: 'CS', vm: [1, 1] },
+    FilterByAttributePresence: { tag: '(0072,0404)', keyword: 'FilterByAttributePresence', vr: 'CS', vm: [1, 1] },
+    FilterByOperator: { tag: '(0072,0406)', keyword: 'FilterByOperator', vr: 'CS', vm: [1, 1] },
+    StructuredDisplayBackgroundCIELabValue: { tag: '(0072,0420)', keyword: 'StructuredDisplayBackgroundCIELabValue', vr: 'US', vm: [3, 3] },
+    EmptyImageBoxCIELabValue: { tag: '(0072,0421)', keyword: 'EmptyImageBoxCIELabValue', vr: 'US', vm: [3, 3] },
+    StructuredDisplayImageBoxSequence: { tag: '(0072,0422)', keyword: 'StructuredDisplayImageBoxSequence', vr: 'SQ', vm: [1, 1] },
+    StructuredDisplayTextBoxSequence: { tag: '(0072,0424)', keyword: 'StructuredDisplayTextBoxSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedFirstFrameSequence: { tag: '(0072,0427)', keyword: 'ReferencedFirstFrameSequence', vr: 'SQ', vm: [1, 1] },
+    ImageBoxSynchronizationSequence: { tag: '(0072,0430)', keyword: 'ImageBoxSynchronizationSequence', vr: 'SQ', vm: [1, 1] },
+    SynchronizedImageBoxList: { tag: '(0072,0432)', keyword: 'SynchronizedImageBoxList', vr: 'US', vm: [2, null] },
+    TypeOfSynchronization: { tag: '(0072,0434)', keyword: 'TypeOfSynchronization', vr: 'CS', vm: [1, 1] },
+    BlendingOperationType: { tag: '(0072,0500)', keyword: 'BlendingOperationType', vr: 'CS', vm: [1, 1] },
+    ReformattingOperationType: { tag: '(0072,0510)', keyword: 'ReformattingOperationType', vr: 'CS', vm: [1, 1] },
+    ReformattingThickness: { tag: '(0072,0512)', keyword: 'ReformattingThickness', vr: 'FD', vm: [1, 1] },
+    ReformattingInterval: { tag: '(0072,0514)', keyword: 'ReformattingInterval', vr: 'FD', vm: [1, 1] },
+    ReformattingOperationInitialViewDirection: { tag: '(0072,0516)', keyword: 'ReformattingOperationInitialViewDirection', vr: 'CS', vm: [1, 1] },
+    ThreeDRenderingType: { tag: '(0072,0520)', keyword: 'ThreeDRenderingType', vr: 'CS', vm: [1, null] },
+    SortingOperationsSequence: { tag: '(0072,0600)', keyword: 'SortingOperationsSequence', vr: 'SQ', vm: [1, 1] },
+    SortByCategory: { tag: '(0072,0602)', keyword: 'SortByCategory', vr: 'CS', vm: [1, 1] },
+    SortingDirection: { tag: '(0072,0604)', keyword: 'SortingDirection', vr: 'CS', vm: [1, 1] },
+    DisplaySetPatientOrientation: { tag: '(0072,0700)', keyword: 'DisplaySetPatientOrientation', vr: 'CS', vm: [2, 2] },
+    VOIType: { tag: '(0072,0702)', keyword: 'VOIType', vr: 'CS', vm: [1, 1] },
+    PseudoColorType: { tag: '(0072,0704)', keyword: 'PseudoColorType', vr: 'CS', vm: [1, 1] },
+    PseudoColorPaletteInstanceReferenceSequence: { tag: '(0072,0705)', keyword: 'PseudoColorPaletteInstanceReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    ShowGrayscaleInverted: { tag: '(0072,0706)', keyword: 'ShowGrayscaleInverted', vr: 'CS', vm: [1, 1] },
+    ShowImageTrueSizeFlag: { tag: '(0072,0710)', keyword: 'ShowImageTrueSizeFlag', vr: 'CS', vm: [1, 1] },
+    ShowGraphicAnnotationFlag: { tag: '(0072,0712)', keyword: 'ShowGraphicAnnotationFlag', vr: 'CS', vm: [1, 1] },
+    ShowPatientDemographicsFlag: { tag: '(0072,0714)', keyword: 'ShowPatientDemographicsFlag', vr: 'CS', vm: [1, 1] },
+    ShowAcquisitionTechniquesFlag: { tag: '(0072,0716)', keyword: 'ShowAcquisitionTechniquesFlag', vr: 'CS', vm: [1, 1] },
+    DisplaySetHorizontalJustification: { tag: '(0072,0717)', keyword: 'DisplaySetHorizontalJustification', vr: 'CS', vm: [1, 1] },
+    DisplaySetVerticalJustification: { tag: '(0072,0718)', keyword: 'DisplaySetVerticalJustification', vr: 'CS', vm: [1, 1] },
+    ContinuationStartMeterset: { tag: '(0074,0120)', keyword: 'ContinuationStartMeterset', vr: 'FD', vm: [1, 1] },
+    ContinuationEndMeterset: { tag: '(0074,0121)', keyword: 'ContinuationEndMeterset', vr: 'FD', vm: [1, 1] },
+    ProcedureStepState: { tag: '(0074,1000)', keyword: 'ProcedureStepState', vr: 'CS', vm: [1, 1] },
+    ProcedureStepProgressInformationSequence: { tag: '(0074,1002)', keyword: 'ProcedureStepProgressInformationSequence', vr: 'SQ', vm: [1, 1] },
+    ProcedureStepProgress: { tag: '(0074,1004)', keyword: 'ProcedureStepProgress', vr: 'DS', vm: [1, 1] },
+    ProcedureStepProgressDescription: { tag: '(0074,1006)', keyword: 'ProcedureStepProgressDescription', vr: 'ST', vm: [1, 1] },
+    ProcedureStepProgressParametersSequence: { tag: '(0074,1007)', keyword: 'ProcedureStepProgressParametersSequence', vr: 'SQ', vm: [1, 1] },
+    ProcedureStepCommunicationsURISequence: { tag: '(0074,1008)', keyword: 'ProcedureStepCommunicationsURISequence', vr: 'SQ', vm: [1, 1] },
+    ContactURI: { tag: '(0074,100A)', keyword: 'ContactURI', vr: 'UR', vm: [1, 1] },
+    ContactDisplayName: { tag: '(0074,100C)', keyword: 'ContactDisplayName', vr: 'LO', vm: [1, 1] },
+    ProcedureStepDiscontinuationReasonCodeSequence: { tag: '(0074,100E)', keyword: 'ProcedureStepDiscontinuationReasonCodeSequence', vr: 'SQ', vm: [1, 1] },
+    BeamTaskSequence: { tag: '(0074,1020)', keyword: 'BeamTaskSequence', vr: 'SQ', vm: [1, 1] },
+    BeamTaskType: { tag: '(0074,1022)', keyword: 'BeamTaskType', vr: 'CS', vm: [1, 1] },
+    RETIRED_BeamOrderIndexTrial: { tag: '(0074,1024)', keyword: 'RETIRED_BeamOrderIndexTrial', vr: 'IS', vm: [1, 1] },
+    AutosequenceFlag: { tag: '(0074,1025)', keyword: 'AutosequenceFlag', vr: 'CS', vm: [1, 1] },
+    TableTopVerticalAdjustedPosition: { tag: '(0074,1026)', keyword: 'TableTopVerticalAdjustedPosition', vr: 'FD', vm: [1, 1] },
+    TableTopLongitudinalAdjustedPosition: { tag: '(0074,1027)', keyword: 'TableTopLongitudinalAdjustedPosition', vr: 'FD', vm: [1, 1] },
+    TableTopLateralAdjustedPosition: { tag: '(0074,1028)', keyword: 'TableTopLateralAdjustedPosition', vr: 'FD', vm: [1, 1] },
+    PatientSupportAdjustedAngle: { tag: '(0074,102A)', keyword: 'PatientSupportAdjustedAngle', vr: 'FD', vm: [1, 1] },
+    TableTopEccentricAdjustedAngle: { tag: '(0074,102B)', keyword: 'TableTopEccentricAdjustedAngle', vr: 'FD', vm: [1, 1] },
+    TableTopPitchAdjustedAngle: { tag: '(0074,102C)', keyword: 'TableTopPitchAdjustedAngle', vr: 'FD', vm: [1, 1] },
+    TableTopRollAdjustedAngle: { tag: '(0074,102D)', keyword: 'TableTopRollAdjustedAngle', vr: 'FD', vm: [1, 1] },
+    DeliveryVerificationImageSequence: { tag: '(0074,1030)', keyword: 'DeliveryVerificationImageSequence', vr: 'SQ', vm: [1, 1] },
+    VerificationImageTiming: { tag: '(0074,1032)', keyword: 'VerificationImageTiming', vr: 'CS', vm: [1, 1] },
+    DoubleExposureFlag: { tag: '(0074,1034)', keyword: 'DoubleExposureFlag', vr: 'CS', vm: [1, 1] },
+    DoubleExposureOrdering: { tag: '(0074,1036)', keyword: 'DoubleExposureOrdering', vr: 'CS', vm: [1, 1] },
+    RETIRED_DoubleExposureMetersetTrial: { tag: '(0074,1038)', keyword: 'RETIRED_DoubleExposureMetersetTrial', vr: 'DS', vm: [1, 1] },
+    RETIRED_DoubleExposureFieldDeltaTrial: { tag: '(0074,103A)', keyword: 'RETIRED_DoubleExposureFieldDeltaTrial', vr: 'DS', vm: [4, 4] },
+    RelatedReferenceRTImageSequence: { tag: '(0074,1040)', keyword: 'RelatedReferenceRTImageSequence', vr: 'SQ', vm: [1, 1] },
+    GeneralMachineVerificationSequence: { tag: '(0074,1042)', keyword: 'GeneralMachineVerificationSequence', vr: 'SQ', vm: [1, 1] },
+    ConventionalMachineVerificationSequence: { tag: '(0074,1044)', keyword: 'ConventionalMachineVerificationSequence', vr: 'SQ', vm: [1, 1] },
+    IonMachineVerificationSequence: { tag: '(0074,1046)', keyword: 'IonMachineVerificationSequence', vr: 'SQ', vm: [1, 1] },
+    FailedAttributesSequence: { tag: '(0074,1048)', keyword: 'FailedAttributesSequence', vr: 'SQ', vm: [1, 1] },
+    OverriddenAttributesSequence: { tag: '(0074,104A)', keyword: 'OverriddenAttributesSequence', vr: 'SQ', vm: [1, 1] },
+    ConventionalControlPointVerificationSequence: { tag: '(0074,104C)', keyword: 'ConventionalControlPointVerificationSequence', vr: 'SQ', vm: [1, 1] },
+    IonControlPointVerificationSequence: { tag: '(0074,104E)', keyword: 'IonControlPointVerificationSequence', vr: 'SQ', vm: [1, 1] },
+    AttributeOccurrenceSequence: { tag: '(0074,1050)', keyword: 'AttributeOccurrenceSequence', vr: 'SQ', vm: [1, 1] },
+    AttributeOccurrencePointer: { tag: '(0074,1052)', keyword: 'AttributeOccurrencePointer', vr: 'AT', vm: [1, 1] },
+    AttributeItemSelector: { tag: '(0074,1054)', keyword: 'AttributeItemSelector', vr: 'UL', vm: [1, 1] },
+    AttributeOccurrencePrivateCreator: { tag: '(0074,1056)', keyword: 'AttributeOccurrencePrivateCreator', vr: 'LO', vm: [1, 1] },
+    SelectorSequencePointerItems: { tag: '(0074,1057)', keyword: 'SelectorSequencePointerItems', vr: 'IS', vm: [1, null] },
+    ScheduledProcedureStepPriority: { tag: '(0074,1200)', keyword: 'ScheduledProcedureStepPriority', vr: 'CS', vm: [1, 1] },
+    WorklistLabel: { tag: '(0074,1202)', keyword: 'WorklistLabel', vr: 'LO', vm: [1, 1] },
+    ProcedureStepLabel: { tag: '(0074,1204)', keyword: 'ProcedureStepLabel', vr: 'LO', vm: [1, 1] },
+    ScheduledProcessingParametersSequence: { tag: '(0074,1210)', keyword: 'ScheduledProcessingParametersSequence', vr: 'SQ', vm: [1, 1] },
+    PerformedProcessingParametersSequence: { tag: '(0074,1212)', keyword: 'PerformedProcessingParametersSequence', vr: 'SQ', vm: [1, 1] },
+    UnifiedProcedureStepPerformedProcedureSequence: { tag: '(0074,1216)', keyword: 'UnifiedProcedureStepPerformedProcedureSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_RelatedProcedureStepSequence: { tag: '(0074,1220)', keyword: 'RETIRED_RelatedProcedureStepSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ProcedureStepRelationshipType: { tag: '(0074,1222)', keyword: 'RETIRED_ProcedureStepRelationshipType', vr: 'LO', vm: [1, 1] },
+    ReplacedProcedureStepSequence: { tag: '(0074,1224)', keyword: 'ReplacedProcedureStepSequence', vr: 'SQ', vm: [1, 1] },
+    DeletionLock: { tag: '(0074,1230)', keyword: 'DeletionLock', vr: 'LO', vm: [1, 1] },
+    ReceivingAE: { tag: '(0074,1234)', keyword: 'ReceivingAE', vr: 'AE', vm: [1, 1] },
+    RequestingAE: { tag: '(0074,1236)', keyword: 'RequestingAE', vr: 'AE', vm: [1, 1] },
+    ReasonForCancellation: { tag: '(0074,1238)', keyword: 'ReasonForCancellation', vr: 'LT', vm: [1, 1] },
+    SCPStatus: { tag: '(0074,1242)', keyword: 'SCPStatus', vr: 'CS', vm: [1, 1] },
+    SubscriptionListStatus: { tag: '(0074,1244)', keyword: 'SubscriptionListStatus', vr: 'CS', vm: [1, 1] },
+    UnifiedProcedureStepListStatus: { tag: '(0074,1246)', keyword: 'UnifiedProcedureStepListStatus', vr: 'CS', vm: [1, 1] },
+    BeamOrderIndex: { tag: '(0074,1324)', keyword: 'BeamOrderIndex', vr: 'UL', vm: [1, 1] },
+    DoubleExposureMeterset: { tag: '(0074,1338)', keyword: 'DoubleExposureMeterset', vr: 'FD', vm: [1, 1] },
+    DoubleExposureFieldDelta: { tag: '(0074,133A)', keyword: 'DoubleExposureFieldDelta', vr: 'FD', vm: [4, 4] },
+    BrachyTaskSequence: { tag: '(0074,1401)', keyword: 'BrachyTaskSequence', vr: 'SQ', vm: [1, 1] },
+    ContinuationStartTotalReferenceAirKerma: { tag: '(0074,1402)', keyword: 'ContinuationStartTotalReferenceAirKerma', vr: 'DS', vm: [1, 1] },
+    ContinuationEndTotalReferenceAirKerma: { tag: '(0074,1403)', keyword: 'ContinuationEndTotalReferenceAirKerma', vr: 'DS', vm: [1, 1] },
+    ContinuationPulseNumber: { tag: '(0074,1404)', keyword: 'ContinuationPulseNumber', vr: 'IS', vm: [1, 1] },
+    ChannelDeliveryOrderSequence: { tag: '(0074,1405)', keyword: 'ChannelDeliveryOrderSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedChannelNumber: { tag: '(0074,1406)', keyword: 'ReferencedChannelNumber', vr: 'IS', vm: [1, 1] },
+    StartCumulativeTimeWeight: { tag: '(0074,1407)', keyword: 'StartCumulativeTimeWeight', vr: 'DS', vm: [1, 1] },
+    EndCumulativeTimeWeight: { tag: '(0074,1408)', keyword: 'EndCumulativeTimeWeight', vr: 'DS', vm: [1, 1] },
+    OmittedChannelSequence: { tag: '(0074,1409)', keyword: 'OmittedChannelSequence', vr: 'SQ', vm: [1, 1] },
+    ReasonForChannelOmission: { tag: '(0074,140A)', keyword: 'ReasonForChannelOmission', vr: 'CS', vm: [1, 1] },
+    ReasonForChannelOmissionDescription: { tag: '(0074,140B)', keyword: 'ReasonForChannelOmissionDescription', vr: 'LO', vm: [1, 1] },
+    ChannelDeliveryOrderIndex: { tag: '(0074,140C)', keyword: 'ChannelDeliveryOrderIndex', vr: 'IS', vm: [1, 1] },
+    ChannelDeliveryContinuationSequence: { tag: '(0074,140D)', keyword: 'ChannelDeliveryContinuationSequence', vr: 'SQ', vm: [1, 1] },
+    OmittedApplicationSetupSequence: { tag: '(0074,140E)', keyword: 'OmittedApplicationSetupSequence', vr: 'SQ', vm: [1, 1] },
+    ImplantAssemblyTemplateName: { tag: '(0076,0001)', keyword: 'ImplantAssemblyTemplateName', vr: 'LO', vm: [1, 1] },
+    ImplantAssemblyTemplateIssuer: { tag: '(0076,0003)', keyword: 'ImplantAssemblyTemplateIssuer', vr: 'LO', vm: [1, 1] },
+    ImplantAssemblyTemplateVersion: { tag: '(0076,0006)', keyword: 'ImplantAssemblyTemplateVersion', vr: 'LO', vm: [1, 1] },
+    ReplacedImplantAssemblyTemplateSequence: { tag: '(0076,0008)', keyword: 'ReplacedImplantAssemblyTemplateSequence', vr: 'SQ', vm: [1, 1] },
+    ImplantAssemblyTemplateType: { tag: '(0076,000A)', keyword: 'ImplantAssemblyTemplateType', vr: 'CS', vm: [1, 1] },
+    OriginalImplantAssemblyTemplateSequence: { tag: '(0076,000C)', keyword: 'OriginalImplantAssemblyTemplateSequence', vr: 'SQ', vm: [1, 1] },
+    DerivationImplantAssemblyTemplateSequence: { tag: '(0076,000E)', keyword: 'DerivationImplantAssemblyTemplateSequence', vr: 'SQ', vm: [1, 1] },
+    ImplantAssemblyTemplateTargetAnatomySequence: { tag: '(0076,0010)', keyword: 'ImplantAssemblyTemplateTargetAnatomySequence', vr: 'SQ', vm: [1, 1] },
+    ProcedureTypeCodeSequence: { tag: '(0076,0020)', keyword: 'ProcedureTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    SurgicalTechnique: { tag: '(0076,0030)', keyword: 'SurgicalTechnique', vr: 'LO', vm: [1, 1] },
+    ComponentTypesSequence: { tag: '(0076,0032)', keyword: 'ComponentTypesSequence', vr: 'SQ', vm: [1, 1] },
+    ComponentTypeCodeSequence: { tag: '(0076,0034)', keyword: 'ComponentTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ExclusiveComponentType: { tag: '(0076,0036)', keyword: 'ExclusiveComponentType', vr: 'CS', vm: [1, 1] },
+    MandatoryComponentType: { tag: '(0076,0038)', keyword: 'MandatoryComponentType', vr: 'CS', vm: [1, 1] },
+    ComponentSequence: { tag: '(0076,0040)', keyword: 'ComponentSequence', vr: 'SQ', vm: [1, 1] },
+    ComponentID: { tag: '(0076,0055)', keyword: 'ComponentID', vr: 'US', vm: [1, 1] },
+    ComponentAssemblySequence: { tag: '(0076,0060)', keyword: 'ComponentAssemblySequence', vr: 'SQ', vm: [1, 1] },
+    Component1ReferencedID: { tag: '(0076,0070)', keyword: 'Component1ReferencedID', vr: 'US', vm: [1, 1] },
+    Component1ReferencedMatingFeatureSetID: { tag: '(0076,0080)', keyword: 'Component1ReferencedMatingFeatureSetID', vr: 'US', vm: [1, 1] },
+    Component1ReferencedMatingFeatureID: { tag: '(0076,0090)', keyword: 'Component1ReferencedMatingFeatureID', vr: 'US', vm: [1, 1] },
+    Component2ReferencedID: { tag: '(0076,00A0)', keyword: 'Component2ReferencedID', vr: 'US', vm: [1, 1] },
+    Component2ReferencedMatingFeatureSetID: { tag: '(0076,00B0)', keyword: 'Component2ReferencedMatingFeatureSetID', vr: 'US', vm: [1, 1] },
+    Component2ReferencedMatingFeatureID: { tag: '(0076,00C0)', keyword: 'Component2ReferencedMatingFeatureID', vr: 'US', vm: [1, 1] },
+    ImplantTemplateGroupName: { tag: '(0078,0001)', keyword: 'ImplantTemplateGroupName', vr: 'LO', vm: [1, 1] },
+    ImplantTemplateGroupDescription: { tag: '(0078,0010)', keyword: 'ImplantTemplateGroupDescription', vr: 'ST', vm: [1, 1] },
+    ImplantTemplateGroupIssuer: { tag: '(0078,0020)', keyword: 'ImplantTemplateGroupIssuer', vr: 'LO', vm: [1, 1] },
+    ImplantTemplateGroupVersion: { tag: '(0078,0024)', keyword: 'ImplantTemplateGroupVersion', vr: 'LO', vm: [1, 1] },
+    ReplacedImplantTemplateGroupSequence: { tag: '(0078,0026)', keyword: 'ReplacedImplantTemplateGroupSequence', vr: 'SQ', vm: [1, 1] },
+    ImplantTemplateGroupTargetAnatomySequence: { tag: '(0078,0028)', keyword: 'ImplantTemplateGroupTargetAnatomySequence', vr: 'SQ', vm: [1, 1] },
+    ImplantTemplateGroupMembersSequence: { tag: '(0078,002A)', keyword: 'ImplantTemplateGroupMembersSequence', vr: 'SQ', vm: [1, 1] },
+    ImplantTemplateGroupMemberID: { tag: '(0078,002E)', keyword: 'ImplantTemplateGroupMemberID', vr: 'US', vm: [1, 1] },
+    ThreeDImplantTemplateGroupMemberMatchingPoint: { tag: '(0078,0050)', keyword: 'ThreeDImplantTemplateGroupMemberMatchingPoint', vr: 'FD', vm: [3, 3] },
+    ThreeDImplantTemplateGroupMemberMatchingAxes: { tag: '(0078,0060)', keyword: 'ThreeDImplantTemplateGroupMemberMatchingAxes', vr: 'FD', vm: [9, 9] },
+    ImplantTemplateGroupMemberMatching2DCoordinatesSequence: {
+        tag: '(0078,0070)',
+        keyword: 'ImplantTemplateGroupMemberMatching2DCoordinatesSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    TwoDImplantTemplateGroupMemberMatchingPoint: { tag: '(0078,0090)', keyword: 'TwoDImplantTemplateGroupMemberMatchingPoint', vr: 'FD', vm: [2, 2] },
+    TwoDImplantTemplateGroupMemberMatchingAxes: { tag: '(0078,00A0)', keyword: 'TwoDImplantTemplateGroupMemberMatchingAxes', vr: 'FD', vm: [4, 4] },
+    ImplantTemplateGroupVariationDimensionSequence: { tag: '(0078,00B0)', keyword: 'ImplantTemplateGroupVariationDimensionSequence', vr: 'SQ', vm: [1, 1] },
+    ImplantTemplateGroupVariationDimensionName: { tag: '(0078,00B2)', keyword: 'ImplantTemplateGroupVariationDimensionName', vr: 'LO', vm: [1, 1] },
+    ImplantTemplateGroupVariationDimensionRankSequence: {
+        tag: '(0078,00B4)',
+        keyword: 'ImplantTemplateGroupVariationDimensionRankSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    ReferencedImplantTemplateGroupMemberID: { tag: '(0078,00B6)', keyword: 'ReferencedImplantTemplateGroupMemberID', vr: 'US', vm: [1, 1] },
+    ImplantTemplateGroupVariationDimensionRank: { tag: '(0078,00B8)', keyword: 'ImplantTemplateGroupVariationDimensionRank', vr: 'US', vm: [1, 1] },
+    SurfaceScanAcquisitionTypeCodeSequence: { tag: '(0080,0001)', keyword: 'SurfaceScanAcquisitionTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    SurfaceScanModeCodeSequence: { tag: '(0080,0002)', keyword: 'SurfaceScanModeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RegistrationMethodCodeSequence: { tag: '(0080,0003)', keyword: 'RegistrationMethodCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ShotDurationTime: { tag: '(0080,0004)', keyword: 'ShotDurationTime', vr: 'FD', vm: [1, 1] },
+    ShotOffsetTime: { tag: '(0080,0005)', keyword: 'ShotOffsetTime', vr: 'FD', vm: [1, 1] },
+    SurfacePointPresentationValueData: { tag: '(0080,0006)', keyword: 'SurfacePointPresentationValueData', vr: 'US', vm: [1, null] },
+    SurfacePointColorCIELabValueData: { tag: '(0080,0007)', keyword: 'SurfacePointColorCIELabValueData', vr: 'US', vm: [3, 3] },
+    UVMappingSequence: { tag: '(0080,0008)', keyword: 'UVMappingSequence', vr: 'SQ', vm: [1, 1] },
+    TextureLabel: { tag: '(0080,0009)', keyword: 'TextureLabel', vr: 'SH', vm: [1, 1] },
+    UValueData: { tag: '(0080,0010)', keyword: 'UValueData', vr: 'OF', vm: [1, 1] },
+    VValueData: { tag: '(0080,0011)', keyword: 'VValueData', vr: 'OF', vm: [1, 1] },
+    ReferencedTextureSequence: { tag: '(0080,0012)', keyword: 'ReferencedTextureSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedSurfaceDataSequence: { tag: '(0080,0013)', keyword: 'ReferencedSurfaceDataSequence', vr: 'SQ', vm: [1, 1] },
+    AssessmentSummary: { tag: '(0082,0001)', keyword: 'AssessmentSummary', vr: 'CS', vm: [1, 1] },
+    AssessmentSummaryDescription: { tag: '(0082,0003)', keyword: 'AssessmentSummaryDescription', vr: 'UT', vm: [1, 1] },
+    AssessedSOPInstanceSequence: { tag: '(0082,0004)', keyword: 'AssessedSOPInstanceSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedComparisonSOPInstanceSequence: { tag: '(0082,0005)', keyword: 'ReferencedComparisonSOPInstanceSequence', vr: 'SQ', vm: [1, 1] },
+    NumberOfAssessmentObservations: { tag: '(0082,0006)', keyword: 'NumberOfAssessmentObservations', vr: 'UL', vm: [1, 1] },
+    AssessmentObservationsSequence: { tag: '(0082,0007)', keyword: 'AssessmentObservationsSequence', vr: 'SQ', vm: [1, 1] },
+    ObservationSignificance: { tag: '(0082,0008)', keyword: 'ObservationSignificance', vr: 'CS', vm: [1, 1] },
+    ObservationDescription: { tag: '(0082,000A)', keyword: 'ObservationDescription', vr: 'UT', vm: [1, 1] },
+    StructuredConstraintObservationSequence: { tag: '(0082,000C)', keyword: 'StructuredConstraintObservationSequence', vr: 'SQ', vm: [1, 1] },
+    AssessedAttributeValueSequence: { tag: '(0082,0010)', keyword: 'AssessedAttributeValueSequence', vr: 'SQ', vm: [1, 1] },
+    AssessmentSetID: { tag: '(0082,0016)', keyword: 'AssessmentSetID', vr: 'LO', vm: [1, 1] },
+    AssessmentRequesterSequence: { tag: '(0082,0017)', keyword: 'AssessmentRequesterSequence', vr: 'SQ', vm: [1, 1] },
+    SelectorAttributeName: { tag: '(0082,0018)', keyword: 'SelectorAttributeName', vr: 'LO', vm: [1, 1] },
+    SelectorAttributeKeyword: { tag: '(0082,0019)', keyword: 'SelectorAttributeKeyword', vr: 'LO', vm: [1, 1] },
+    AssessmentTypeCodeSequence: { tag: '(0082,0021)', keyword: 'AssessmentTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ObservationBasisCodeSequence: { tag: '(0082,0022)', keyword: 'ObservationBasisCodeSequence', vr: 'SQ', vm: [1, 1] },
+    AssessmentLabel: { tag: '(0082,0023)', keyword: 'AssessmentLabel', vr: 'LO', vm: [1, 1] },
+    ConstraintType: { tag: '(0082,0032)', keyword: 'ConstraintType', vr: 'CS', vm: [1, 1] },
+    SpecificationSelectionGuidance: { tag: '(0082,0033)', keyword: 'SpecificationSelectionGuidance', vr: 'UT', vm: [1, 1] },
+    ConstraintValueSequence: { tag: '(0082,0034)', keyword: 'ConstraintValueSequence', vr: 'SQ', vm: [1, 1] },
+    RecommendedDefaultValueSequence: { tag: '(0082,0035)', keyword: 'RecommendedDefaultValueSequence', vr: 'SQ', vm: [1, 1] },
+    ConstraintViolationSignificance: { tag: '(0082,0036)', keyword: 'ConstraintViolationSignificance', vr: 'CS', vm: [1, 1] },
+    ConstraintViolationCondition: { tag: '(0082,0037)', keyword: 'ConstraintViolationCondition', vr: 'UT', vm: [1, 1] },
+    ModifiableConstraintFlag: { tag: '(0082,0038)', keyword: 'ModifiableConstraintFlag', vr: 'CS', vm: [1, 1] },
+    StorageMediaFileSetID: { tag: '(0088,0130)', keyword: 'StorageMediaFileSetID', vr: 'SH', vm: [1, 1] },
+    StorageMediaFileSetUID: { tag: '(0088,0140)', keyword: 'StorageMediaFileSetUID', vr: 'UI', vm: [1, 1] },
+    IconImageSequence: { tag: '(0088,0200)', keyword: 'IconImageSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_TopicTitle: { tag: '(0088,0904)', keyword: 'RETIRED_TopicTitle', vr: 'LO', vm: [1, 1] },
+    RETIRED_TopicSubject: { tag: '(0088,0906)', keyword: 'RETIRED_TopicSubject', vr: 'ST', vm: [1, 1] },
+    RETIRED_TopicAuthor: { tag: '(0088,0910)', keyword: 'RETIRED_TopicAuthor', vr: 'LO', vm: [1, 1] },
+    RETIRED_TopicKeywords: { tag: '(0088,0912)', keyword: 'RETIRED_TopicKeywords', vr: 'LO', vm: [1, 50] },
+    SOPInstanceStatus: { tag: '(0100,0410)', keyword: 'SOPInstanceStatus', vr: 'CS', vm: [1, 1] },
+    SOPAuthorizationDateTime: { tag: '(0100,0420)', keyword: 'SOPAuthorizationDateTime', vr: 'DT', vm: [1, 1] },
+    SOPAuthorizationComment: { tag: '(0100,0424)', keyword: 'SOPAuthorizationComment', vr: 'LT', vm: [1, 1] },
+    AuthorizationEquipmentCertificationNumber: { tag: '(0100,0426)', keyword: 'AuthorizationEquipmentCertificationNumber', vr: 'LO', vm: [1, 1] },
+    MACIDNumber: { tag: '(0400,0005)', keyword: 'MACIDNumber', vr: 'US', vm: [1, 1] },
+    MACCalculationTransferSyntaxUID: { tag: '(0400,0010)', keyword: 'MACCalculationTransferSyntaxUID', vr: 'UI', vm: [1, 1] },
+    MACAlgorithm: { tag: '(0400,0015)', keyword: 'MACAlgorithm', vr: 'CS', vm: [1, 1] },
+    DataElementsSigned: { tag: '(0400,0020)', keyword: 'DataElementsSigned', vr: 'AT', vm: [1, null] },
+    DigitalSignatureUID: { tag: '(0400,0100)', keyword: 'DigitalSignatureUID', vr: 'UI', vm: [1, 1] },
+    DigitalSignatureDateTime: { tag: '(0400,0105)', keyword: 'DigitalSignatureDateTime', vr: 'DT', vm: [1, 1] },
+    CertificateType: { tag: '(0400,0110)', keyword: 'CertificateType', vr: 'CS', vm: [1, 1] },
+    CertificateOfSigner: { tag: '(0400,0115)', keyword: 'CertificateOfSigner', vr: 'OB', vm: [1, 1] },
+    Signature: { tag: '(0400,0120)', keyword: 'Signature', vr: 'OB', vm: [1, 1] },
+    CertifiedTimestampType: { tag: '(0400,0305)', keyword: 'CertifiedTimestampType', vr: 'CS', vm: [1, 1] },
+    CertifiedTimestamp: { tag: '(0400,0310)', keyword: 'CertifiedTimestamp', vr: 'OB', vm: [1, 1] },
+    DigitalSignaturePurposeCodeSequence: { tag: '(0400,0401)', keyword: 'DigitalSignaturePurposeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedDigitalSignatureSequence: { tag: '(0400,0402)', keyword: 'ReferencedDigitalSignatureSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedSOPInstanceMACSequence: { tag: '(0400,0403)', keyword: 'ReferencedSOPInstanceMACSequence', vr: 'SQ', vm: [1, 1] },
+    MAC: { tag: '(0400,0404)', keyword: 'MAC', vr: 'OB', vm: [1, 1] },
+    EncryptedAttributesSequence: { tag: '(0400,0500)', keyword: 'EncryptedAttributesSequence', vr: 'SQ', vm: [1, 1] },
+    EncryptedContentTransferSyntaxUID: { tag: '(0400,0510)', keyword: 'EncryptedContentTransferSyntaxUID', vr: 'UI', vm: [1, 1] },
+    EncryptedContent: { tag: '(0400,0520)', keyword: 'EncryptedContent', vr: 'OB', vm: [1, 1] },
+    ModifiedAttributesSequence: { tag: '(0400,0550)', keyword: 'ModifiedAttributesSequence', vr: 'SQ', vm: [1, 1] },
+    NonconformingModifiedAttributesSequence: { tag: '(0400,0551)', keyword: 'NonconformingModifiedAttributesSequence', vr: 'SQ', vm: [1, 1] },
+    NonconformingDataElementValue: { tag: '(0400,0552)', keyword: 'NonconformingDataElementValue', vr: 'OB', vm: [1, 1] },
+    OriginalAttributesSequence: { tag: '(0400,0561)', keyword: 'OriginalAttributesSequence', vr: 'SQ', vm: [1, 1] },
+    AttributeModificationDateTime: { tag: '(0400,0562)', keyword: 'AttributeModificationDateTime', vr: 'DT', vm: [1, 1] },
+    ModifyingSystem: { tag: '(0400,0563)', keyword: 'ModifyingSystem', vr: 'LO', vm: [1, 1] },
+    SourceOfPreviousValues: { tag: '(0400,0564)', keyword: 'SourceOfPreviousValues', vr: 'LO', vm: [1, 1] },
+    ReasonForTheAttributeModification: { tag: '(0400,0565)', keyword: 'ReasonForTheAttributeModification', vr: 'CS', vm: [1, 1] },
+    InstanceOriginStatus: { tag: '(0400,0600)', keyword: 'InstanceOriginStatus', vr: 'CS', vm: [1, 1] },
+    RETIRED_EscapeTriplet: { tag: '(1000,0010)', keyword: 'RETIRED_EscapeTriplet', vr: 'US', vm: [3, 3] },
+    RETIRED_RunLengthTriplet: { tag: '(1000,0011)', keyword: 'RETIRED_RunLengthTriplet', vr: 'US', vm: [3, 3] },
+    RETIRED_HuffmanTableSize: { tag: '(1000,0012)', keyword: 'RETIRED_HuffmanTableSize', vr: 'US', vm: [1, 1] },
+    RETIRED_HuffmanTableTriplet: { tag: '(1000,0013)', keyword: 'RETIRED_HuffmanTableTriplet', vr: 'US', vm: [3, 3] },
+    RETIRED_ShiftTableSize: { tag: '(1000,0014)', keyword: 'RETIRED_ShiftTableSize', vr: 'US', vm: [1, 1] },
+    RETIRED_ShiftTableTriplet: { tag: '(1000,0015)', keyword: 'RETIRED_ShiftTableTriplet', vr: 'US', vm: [3, 3] },
+    RETIRED_ZonalMap: { tag: '(1010,0004)', keyword: 'RETIRED_ZonalMap', vr: 'US', vm: [1, null] },
+    NumberOfCopies: { tag: '(2000,0010)', keyword: 'NumberOfCopies', vr: 'IS', vm: [1, 1] },
+    PrinterConfigurationSequence: { tag: '(2000,001E)', keyword: 'PrinterConfigurationSequence', vr: 'SQ', vm: [1, 1] },
+    PrintPriority: { tag: '(2000,0020)', keyword: 'PrintPriority', vr: 'CS', vm: [1, 1] },
+    MediumType: { tag: '(2000,0030)', keyword: 'MediumType', vr: 'CS', vm: [1, 1] },
+    FilmDestination: { tag: '(2000,0040)', keyword: 'FilmDestination', vr: 'CS', vm: [1, 1] },
+    FilmSessionLabel: { tag: '(2000,0050)', keyword: 'FilmSessionLabel', vr: 'LO', vm: [1, 1] },
+    MemoryAllocation: { tag: '(2000,0060)', keyword: 'MemoryAllocation', vr: 'IS', vm: [1, 1] },
+    MaximumMemoryAllocation: { tag: '(2000,0061)', keyword: 'MaximumMemoryAllocation', vr: 'IS', vm: [1, 1] },
+    RETIRED_ColorImagePrintingFlag: { tag: '(2000,0062)', keyword: 'RETIRED_ColorImagePrintingFlag', vr: 'CS', vm: [1, 1] },
+    RETIRED_CollationFlag: { tag: '(2000,0063)', keyword: 'RETIRED_CollationFlag', vr: 'CS', vm: [1, 1] },
+    RETIRED_AnnotationFlag: { tag: '(2000,0065)', keyword: 'RETIRED_AnnotationFlag', vr: 'CS', vm: [1, 1] },
+    RETIRED_ImageOverlayFlag: { tag: '(2000,0067)', keyword: 'RETIRED_ImageOverlayFlag', vr: 'CS', vm: [1, 1] },
+    RETIRED_PresentationLUTFlag: { tag: '(2000,0069)', keyword: 'RETIRED_PresentationLUTFlag', vr: 'CS', vm: [1, 1] },
+    RETIRED_ImageBoxPresentationLUTFlag: { tag: '(2000,006A)', keyword: 'RETIRED_ImageBoxPresentationLUTFlag', vr: 'CS', vm: [1, 1] },
+    MemoryBitDepth: { tag: '(2000,00A0)', keyword: 'MemoryBitDepth', vr: 'US', vm: [1, 1] },
+    PrintingBitDepth: { tag: '(2000,00A1)', keyword: 'PrintingBitDepth', vr: 'US', vm: [1, 1] },
+    MediaInstalledSequence: { tag: '(2000,00A2)', keyword: 'MediaInstalledSequence', vr: 'SQ', vm: [1, 1] },
+    OtherMediaAvailableSequence: { tag: '(2000,00A4)', keyword: 'OtherMediaAvailableSequence', vr: 'SQ', vm: [1, 1] },
+    SupportedImageDisplayFormatsSequence: { tag: '(2000,00A8)', keyword: 'SupportedImageDisplayFormatsSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedFilmBoxSequence: { tag: '(2000,0500)', keyword: 'ReferencedFilmBoxSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ReferencedStoredPrintSequence: { tag: '(2000,0510)', keyword: 'RETIRED_ReferencedStoredPrintSequence', vr: 'SQ', vm: [1, 1] },
+    ImageDisplayFormat: { tag: '(2010,0010)', keyword: 'ImageDisplayFormat', vr: 'ST', vm: [1, 1] },
+    AnnotationDisplayFormatID: { tag: '(2010,0030)', keyword: 'AnnotationDisplayFormatID', vr: 'CS', vm: [1, 1] },
+    FilmOrientation: { tag: '(2010,0040)', keyword: 'FilmOrientation', vr: 'CS', vm: [1, 1] },
+    FilmSizeID: { tag: '(2010,0050)', keyword: 'FilmSizeID', vr: 'CS', vm: [1, 1] },
+    PrinterResolutionID: { tag: '(2010,0052)', keyword: 'PrinterResolutionID', vr: 'CS', vm: [1, 1] },
+    DefaultPrinterResolutionID: { tag: '(2010,0054)', keyword: 'DefaultPrinterResolutionID', vr: 'CS', vm: [1, 1] },
+    MagnificationType: { tag: '(2010,0060)', keyword: 'MagnificationType', vr: 'CS', vm: [1, 1] },
+    SmoothingType: { tag: '(2010,0080)', keyword: 'SmoothingType', vr: 'CS', vm: [1, 1] },
+    DefaultMagnificationType: { tag: '(2010,00A6)', keyword: 'DefaultMagnificationType', vr: 'CS', vm: [1, 1] },
+    OtherMagnificationTypesAvailable: { tag: '(2010,00A7)', keyword: 'OtherMagnificationTypesAvailable', vr: 'CS', vm: [1, null] },
+    DefaultSmoothingType: { tag: '(2010,00A8)', keyword: 'DefaultSmoothingType', vr: 'CS', vm: [1, 1] },
+    OtherSmoothingTypesAvailable: { tag: '(2010,00A9)', keyword: 'OtherSmoothingTypesAvailable', vr: 'CS', vm: [1, null] },
+    BorderDensity: { tag: '(2010,0100)', keyword: 'BorderDensity', vr: 'CS', vm: [1, 1] },
+    EmptyImageDensity: { tag: '(2010,0110)', keyword: 'EmptyImageDensity', vr: 'CS', vm: [1, 1] },
+    MinDensity: { tag: '(2010,0120)', keyword: 'MinDensity', vr: 'US', vm: [1, 1] },
+    MaxDensity: { tag: '(2010,0130)', keyword: 'MaxDensity', vr: 'US', vm: [1, 1] },
+    Trim: { tag: '(2010,0140)', keyword: 'Trim', vr: 'CS', vm: [1, 1] },
+    ConfigurationInformation: { tag: '(2010,0150)', keyword: 'ConfigurationInformation', vr: 'ST', vm: [1, 1] },
+    ConfigurationInformationDescription: { tag: '(2010,0152)', keyword: 'ConfigurationInformationDescription', vr: 'LT', vm: [1, 1] },
+    MaximumCollatedFilms: { tag: '(2010,0154)', keyword: 'MaximumCollatedFilms', vr: 'IS', vm: [1, 1] },
+    Illumination: { tag: '(2010,015E)', keyword: 'Illumination', vr: 'US', vm: [1, 1] },
+    ReflectedAmbientLight: { tag: '(2010,0160)', keyword: 'ReflectedAmbientLight', vr: 'US', vm: [1, 1] },
+    PrinterPixelSpacing: { tag: '(2010,0376)', keyword: 'PrinterPixelSpacing', vr: 'DS', vm: [2, 2] },
+    ReferencedFilmSessionSequence: { tag: '(2010,0500)', keyword: 'ReferencedFilmSessionSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedImageBoxSequence: { tag: '(2010,0510)', keyword: 'ReferencedImageBoxSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedBasicAnnotationBoxSequence: { tag: '(2010,0520)', keyword: 'ReferencedBasicAnnotationBoxSequence', vr: 'SQ', vm: [1, 1] },
+    ImageBoxPosition: { tag: '(2020,0010)', keyword: 'ImageBoxPosition', vr: 'US', vm: [1, 1] },
+    Polarity: { tag: '(2020,0020)', keyword: 'Polarity', vr: 'CS', vm: [1, 1] },
+    RequestedImageSize: { tag: '(2020,0030)', keyword: 'RequestedImageSize', vr: 'DS', vm: [1, 1] },
+    RequestedDecimateCropBehavior: { tag: '(2020,0040)', keyword: 'RequestedDecimateCropBehavior', vr: 'CS', vm: [1, 1] },
+    RequestedResolutionID: { tag: '(2020,0050)', keyword: 'RequestedResolutionID', vr: 'CS', vm: [1, 1] },
+    RequestedImageSizeFlag: { tag: '(2020,00A0)', keyword: 'RequestedImageSizeFlag', vr: 'CS', vm: [1, 1] },
+    DecimateCropResult: { tag: '(2020,00A2)', keyword: 'DecimateCropResult', vr: 'CS', vm: [1, 1] },
+    BasicGrayscaleImageSequence: { tag: '(2020,0110)', keyword: 'BasicGrayscaleImageSequence', vr: 'SQ', vm: [1, 1] },
+    BasicColorImageSequence: { tag: '(2020,0111)', keyword: 'BasicColorImageSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ReferencedImageOverlayBoxSequence: { tag: '(2020,0130)', keyword: 'RETIRED_ReferencedImageOverlayBoxSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ReferencedVOILUTBoxSequence: { tag: '(2020,0140)', keyword: 'RETIRED_ReferencedVOILUTBoxSequence', vr: 'SQ', vm: [1, 1] },
+    AnnotationPosition: { tag: '(2030,0010)', keyword: 'AnnotationPosition', vr: 'US', vm: [1, 1] },
+    TextString: { tag: '(2030,0020)', keyword: 'TextString', vr: 'LO', vm: [1, 1] },
+    RETIRED_ReferencedOverlayPlaneSequence: { tag: '(2040,0010)', keyword: 'RETIRED_ReferencedOverlayPlaneSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ReferencedOverlayPlaneGroups: { tag: '(2040,0011)', keyword: 'RETIRED_ReferencedOverlayPlaneGroups', vr: 'US', vm: [1, 153] },
+    RETIRED_OverlayPixelDataSequence: { tag: '(2040,0020)', keyword: 'RETIRED_OverlayPixelDataSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_OverlayMagnificationType: { tag: '(2040,0060)', keyword: 'RETIRED_OverlayMagnificationType', vr: 'CS', vm: [1, 1] },
+    RETIRED_OverlaySmoothingType: { tag: '(2040,0070)', keyword: 'RETIRED_OverlaySmoothingType', vr: 'CS', vm: [1, 1] },
+    RETIRED_OverlayOrImageMagnification: { tag: '(2040,0072)', keyword: 'RETIRED_OverlayOrImageMagnification', vr: 'CS', vm: [1, 1] },
+    RETIRED_MagnifyToNumberOfColumns: { tag: '(2040,0074)', keyword: 'RETIRED_MagnifyToNumberOfColumns', vr: 'US', vm: [1, 1] },
+    RETIRED_OverlayForegroundDensity: { tag: '(2040,0080)', keyword: 'RETIRED_OverlayForegroundDensity', vr: 'CS', vm: [1, 1] },
+    RETIRED_OverlayBackgroundDensity: { tag: '(2040,0082)', keyword: 'RETIRED_OverlayBackgroundDensity', vr: 'CS', vm: [1, 1] },
+    RETIRED_OverlayMode: { tag: '(2040,0090)', keyword: 'RETIRED_OverlayMode', vr: 'CS', vm: [1, 1] },
+    RETIRED_ThresholdDensity: { tag: '(2040,0100)', keyword: 'RETIRED_ThresholdDensity', vr: 'CS', vm: [1, 1] },
+    RETIRED_ReferencedImageBoxSequenceRetired: { tag: '(2040,0500)', keyword: 'RETIRED_ReferencedImageBoxSequenceRetired', vr: 'SQ', vm: [1, 1] },
+    PresentationLUTSequence: { tag: '(2050,0010)', keyword: 'PresentationLUTSequence', vr: 'SQ', vm: [1, 1] },
+    PresentationLUTShape: { tag: '(2050,0020)', keyword: 'PresentationLUTShape', vr: 'CS', vm: [1, 1] },
+    ReferencedPresentationLUTSequence: { tag: '(2050,0500)', keyword: 'ReferencedPresentationLUTSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_PrintJobID: { tag: '(2100,0010)', keyword: 'RETIRED_PrintJobID', vr: 'SH', vm: [1, 1] },
+    ExecutionStatus: { tag: '(2100,0020)', keyword: 'ExecutionStatus', vr: 'CS', vm: [1, 1] },
+    ExecutionStatusInfo: { tag: '(2100,0030)', keyword: 'ExecutionStatusInfo', vr: 'CS', vm: [1, 1] },
+    CreationDate: { tag: '(2100,0040)', keyword: 'CreationDate', vr: 'DA', vm: [1, 1] },
+    CreationTime: { tag: '(2100,0050)', keyword: 'CreationTime', vr: 'TM', vm: [1, 1] },
+    Originator: { tag: '(2100,0070)', keyword: 'Originator', vr: 'AE', vm: [1, 1] },
+    DestinationAE: { tag: '(2100,0140)', keyword: 'DestinationAE', vr: 'AE', vm: [1, 1] },
+    OwnerID: { tag: '(2100,0160)', keyword: 'OwnerID', vr: 'SH', vm: [1, 1] },
+    NumberOfFilms: { tag: '(2100,0170)', keyword: 'NumberOfFilms', vr: 'IS', vm: [1, 1] },
+    RETIRED_ReferencedPrintJobSequencePullStoredPrint: {
+        tag: '(2100,0500)',
+        keyword: 'RETIRED_ReferencedPrintJobSequencePullStoredPrint',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    PrinterStatus: { tag: '(2110,0010)', keyword: 'PrinterStatus', vr: 'CS', vm: [1, 1] },
+    PrinterStatusInfo: { tag: '(2110,0020)', keyword: 'PrinterStatusInfo', vr: 'CS', vm: [1, 1] },
+    PrinterName: { tag: '(2110,0030)', keyword: 'PrinterName', vr: 'LO', vm: [1, 1] },
+    RETIRED_PrintQueueID: { tag: '(2110,0099)', keyword: 'RETIRED_PrintQueueID', vr: 'SH', vm: [1, 1] },
+    RETIRED_QueueStatus: { tag: '(2120,0010)', keyword: 'RETIRED_QueueStatus', vr: 'CS', vm: [1, 1] },
+    RETIRED_PrintJobDescriptionSequence: { tag: '(2120,0050)', keyword: 'RETIRED_PrintJobDescriptionSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ReferencedPrintJobSequence: { tag: '(2120,0070)', keyword: 'RETIRED_ReferencedPrintJobSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_PrintManagementCapabilitiesSequence: { tag: '(2130,0010)', keyword: 'RETIRED_PrintManagementCapabilitiesSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_PrinterCharacteristicsSequence: { tag: '(2130,0015)', keyword: 'RETIRED_PrinterCharacteristicsSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_FilmBoxContentSequence: { tag: '(2130,0030)', keyword: 'RETIRED_FilmBoxContentSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ImageBoxContentSequence: { tag: '(2130,0040)', keyword: 'RETIRED_ImageBoxContentSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_AnnotationContentSequence: { tag: '(2130,0050)', keyword: 'RETIRED_AnnotationContentSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ImageOverlayBoxContentSequence: { tag: '(2130,0060)', keyword: 'RETIRED_ImageOverlayBoxContentSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_PresentationLUTContentSequence: { tag: '(2130,0080)', keyword: 'RETIRED_PresentationLUTContentSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ProposedStudySequence: { tag: '(2130,00A0)', keyword: 'RETIRED_ProposedStudySequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_OriginalImageSequence: { tag: '(2130,00C0)', keyword: 'RETIRED_OriginalImageSequence', vr: 'SQ', vm: [1, 1] },
+    LabelUsingInformationExtractedFromInstances: { tag: '(2200,0001)', keyword: 'LabelUsingInformationExtractedFromInstances', vr: 'CS', vm: [1, 1] },
+    LabelText: { tag: '(2200,0002)', keyword: 'LabelText', vr: 'UT', vm: [1, 1] },
+    LabelStyleSelection: { tag: '(2200,0003)', keyword: 'LabelStyleSelection', vr: 'CS', vm: [1, 1] },
+    MediaDisposition: { tag: '(2200,0004)', keyword: 'MediaDisposition', vr: 'LT', vm: [1, 1] },
+    BarcodeValue: { tag: '(2200,0005)', keyword: 'BarcodeValue', vr: 'LT', vm: [1, 1] },
+    BarcodeSymbology: { tag: '(2200,0006)', keyword: 'BarcodeSymbology', vr: 'CS', vm: [1, 1] },
+    AllowMediaSplitting: { tag: '(2200,0007)', keyword: 'AllowMediaSplitting', vr: 'CS', vm: [1, 1] },
+    IncludeNonDICOMObjects: { tag: '(2200,0008)', keyword: 'IncludeNonDICOMObjects', vr: 'CS', vm: [1, 1] },
+    IncludeDisplayApplication: { tag: '(2200,0009)', keyword: 'IncludeDisplayApplication', vr: 'CS', vm: [1, 1] },
+    PreserveCompositeInstancesAfterMediaCreation: { tag: '(2200,000A)', keyword: 'PreserveCompositeInstancesAfterMediaCreation', vr: 'CS', vm: [1, 1] },
+    TotalNumberOfPiecesOfMediaCreated: { tag: '(2200,000B)', keyword: 'TotalNumberOfPiecesOfMediaCreated', vr: 'US', vm: [1, 1] },
+    RequestedMediaApplicationProfile: { tag: '(2200,000C)', keyword: 'RequestedMediaApplicationProfile', vr: 'LO', vm: [1, 1] },
+    ReferencedStorageMediaSequence: { tag: '(2200,000D)', keyword: 'ReferencedStorageMediaSequence', vr: 'SQ', vm: [1, 1] },
+    FailureAttributes: { tag: '(2200,000E)', keyword: 'FailureAttributes', vr: 'AT', vm: [1, null] },
+    AllowLossyCompression: { tag: '(2200,000F)', keyword: 'AllowLossyCompression', vr: 'CS', vm: [1, 1] },
+    RequestPriority: { tag: '(2200,0020)', keyword: 'RequestPriority', vr: 'CS', vm: [1, 1] },
+    RTImageLabel: { tag: '(3002,0002)', keyword: 'RTImageLabel', vr: 'SH', vm: [1, 1] },
+    RTImageName: { tag: '(3002,0003)', keyword: 'RTImageName', vr: 'LO', vm: [1, 1] },
+    RTImageDescription: { tag: '(3002,0004)', keyword: 'RTImageDescription', vr: 'ST', vm: [1, 1] },
+    ReportedValuesOrigin: { tag: '(3002,000A)', keyword: 'ReportedValuesOrigin', vr: 'CS', vm: [1, 1] },
+    RTImagePlane: { tag: '(3002,000C)', keyword: 'RTImagePlane', vr: 'CS', vm: [1, 1] },
+    XRayImageReceptorTranslation: { tag: '(3002,000D)', keyword: 'XRayImageReceptorTranslation', vr: 'DS', vm: [3, 3] },
+    XRayImageReceptorAngle: { tag: '(3002,000E)', keyword: 'XRayImageReceptorAngle', vr: 'DS', vm: [1, 1] },
+    RTImageOrientation: { tag: '(3002,0010)', keyword: 'RTImageOrientation', vr: 'DS', vm: [6, 6] },
+    ImagePlanePixelSpacing: { tag: '(3002,0011)', keyword: 'ImagePlanePixelSpacing', vr: 'DS', vm: [2, 2] },
+    RTImagePosition: { tag: '(3002,0012)', keyword: 'RTImagePosition', vr: 'DS', vm: [2, 2] },
+    RadiationMachineName: { tag: '(3002,0020)', keyword: 'RadiationMachineName', vr: 'SH', vm: [1, 1] },
+    RadiationMachineSAD: { tag: '(3002,0022)', keyword: 'RadiationMachineSAD', vr: 'DS', vm: [1, 1] },
+    RadiationMachineSSD: { tag: '(3002,0024)', keyword: 'RadiationMachineSSD', vr: 'DS', vm: [1, 1] },
+    RTImageSID: { tag: '(3002,0026)', keyword: 'RTImageSID', vr: 'DS', vm: [1, 1] },
+    SourceToReferenceObjectDistance: { tag: '(3002,0028)', keyword: 'SourceToReferenceObjectDistance', vr: 'DS', vm: [1, 1] },
+    FractionNumber: { tag: '(3002,0029)', keyword: 'FractionNumber', vr: 'IS', vm: [1, 1] },
+    ExposureSequence: { tag: '(3002,0030)', keyword: 'ExposureSequence', vr: 'SQ', vm: [1, 1] },
+    MetersetExposure: { tag: '(3002,0032)', keyword: 'MetersetExposure', vr: 'DS', vm: [1, 1] },
+    DiaphragmPosition: { tag: '(3002,0034)', keyword: 'DiaphragmPosition', vr: 'DS', vm: [4, 4] },
+    FluenceMapSequence: { tag: '(3002,0040)', keyword: 'FluenceMapSequence', vr: 'SQ', vm: [1, 1] },
+    FluenceDataSource: { tag: '(3002,0041)', keyword: 'FluenceDataSource', vr: 'CS', vm: [1, 1] },
+    FluenceDataScale: { tag: '(3002,0042)', keyword: 'FluenceDataScale', vr: 'DS', vm: [1, 1] },
+    PrimaryFluenceModeSequence: { tag: '(3002,0050)', keyword: 'PrimaryFluenceModeSequence', vr: 'SQ', vm: [1, 1] },
+    FluenceMode: { tag: '(3002,0051)', keyword: 'FluenceMode', vr: 'CS', vm: [1, 1] },
+    FluenceModeID: { tag: '(3002,0052)', keyword: 'FluenceModeID', vr: 'SH', vm: [1, 1] },
+    DVHType: { tag: '(3004,0001)', keyword: 'DVHType', vr: 'CS', vm: [1, 1] },
+    DoseUnits: { tag: '(3004,0002)', keyword: 'DoseUnits', vr: 'CS', vm: [1, 1] },
+    DoseType: { tag: '(3004,0004)', keyword: 'DoseType', vr: 'CS', vm: [1, 1] },
+    SpatialTransformOfDose: { tag: '(3004,0005)', keyword: 'SpatialTransformOfDose', vr: 'CS', vm: [1, 1] },
+    DoseComment: { tag: '(3004,0006)', keyword: 'DoseComment', vr: 'LO', vm: [1, 1] },
+    NormalizationPoint: { tag: '(3004,0008)', keyword: 'NormalizationPoint', vr: 'DS', vm: [3, 3] },
+    DoseSummationType: { tag: '(3004,000A)', keyword: 'DoseSummationType', vr: 'CS', vm: [1, 1] },
+    GridFrameOffsetVector: { tag: '(3004,000C)', keyword: 'GridFrameOffsetVector', vr: 'DS', vm: [2, null] },
+    DoseGridScaling: { tag: '(3004,000E)', keyword: 'DoseGridScaling', vr: 'DS', vm: [1, 1] },
+    RTDoseROISequence: { tag: '(3004,0010)', keyword: 'RTDoseROISequence', vr: 'SQ', vm: [1, 1] },
+    DoseValue: { tag: '(3004,0012)', keyword: 'DoseValue', vr: 'DS', vm: [1, 1] },
+    TissueHeterogeneityCorrection: { tag: '(3004,0014)', keyword: 'TissueHeterogeneityCorrection', vr: 'CS', vm: [1, 3] },
+    DVHNormalizationPoint: { tag: '(3004,0040)', keyword: 'DVHNormalizationPoint', vr: 'DS', vm: [3, 3] },
+    DVHNormalizationDoseValue: { tag: '(3004,0042)', keyword: 'DVHNormalizationDoseValue', vr: 'DS', vm: [1, 1] },
+    DVHSequence: { tag: '(3004,0050)', keyword: 'DVHSequence', vr: 'SQ', vm: [1, 1] },
+    DVHDoseScaling: { tag: '(3004,0052)', keyword: 'DVHDoseScaling', vr: 'DS', vm: [1, 1] },
+    DVHVolumeUnits: { tag: '(3004,0054)', keyword: 'DVHVolumeUnits', vr: 'CS', vm: [1, 1] },
+    DVHNumberOfBins: { tag: '(3004,0056)', keyword: 'DVHNumberOfBins', vr: 'IS', vm: [1, 1] },
+    DVHData: { tag: '(3004,0058)', keyword: 'DVHData', vr: 'DS', vm: [2, null] },
+    DVHReferencedROISequence: { tag: '(3004,0060)', keyword: 'DVHReferencedROISequence', vr: 'SQ', vm: [1, 1] },
+    DVHROIContributionType: { tag: '(3004,0062)', keyword: 'DVHROIContributionType', vr: 'CS', vm: [1, 1] },
+    DVHMinimumDose: { tag: '(3004,0070)', keyword: 'DVHMinimumDose', vr: 'DS', vm: [1, 1] },
+    DVHMaximumDose: { tag: '(3004,0072)', keyword: 'DVHMaximumDose', vr: 'DS', vm: [1, 1] },
+    DVHMeanDose: { tag: '(3004,0074)', keyword: 'DVHMeanDose', vr: 'DS', vm: [1, 1] },
+    StructureSetLabel: { tag: '(3006,0002)', keyword: 'StructureSetLabel', vr: 'SH', vm: [1, 1] },
+    StructureSetName: { tag: '(3006,0004)', keyword: 'StructureSetName', vr: 'LO', vm: [1, 1] },
+    StructureSetDescription: { tag: '(3006,0006)', keyword: 'StructureSetDescription', vr: 'ST', vm: [1, 1] },
+    StructureSetDate: { tag: '(3006,0008)', keyword: 'StructureSetDate', vr: 'DA', vm: [1, 1] },
+    StructureSetTime: { tag: '(3006,0009)', keyword: 'StructureSetTime', vr: 'TM', vm: [1, 1] },
+    ReferencedFrameOfReferenceSequence: { tag: '(3006,0010)', keyword: 'ReferencedFrameOfReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    RTReferencedStudySequence: { tag: '(3006,0012)', keyword: 'RTReferencedStudySequence', vr: 'SQ', vm: [1, 1] },
+    RTReferencedSeriesSequence: { tag: '(3006,0014)', keyword: 'RTReferencedSeriesSequence', vr: 'SQ', vm: [1, 1] },
+    ContourImageSequence: { tag: '(3006,0016)', keyword: 'ContourImageSequence', vr: 'SQ', vm: [1, 1] },
+    PredecessorStructureSetSequence: { tag: '(3006,0018)', keyword: 'PredecessorStructureSetSequence', vr: 'SQ', vm: [1, 1] },
+    StructureSetROISequence: { tag: '(3006,0020)', keyword: 'StructureSetROISequence', vr: 'SQ', vm: [1, 1] },
+    ROINumber: { tag: '(3006,0022)', keyword: 'ROINumber', vr: 'IS', vm: [1, 1] },
+    ReferencedFrameOfReferenceUID: { tag: '(3006,0024)', keyword: 'ReferencedFrameOfReferenceUID', vr: 'UI', vm: [1, 1] },
+    ROIName: { tag: '(3006,0026)', keyword: 'ROIName', vr: 'LO', vm: [1, 1] },
+    ROIDescription: { tag: '(3006,0028)', keyword: 'ROIDescription', vr: 'ST', vm: [1, 1] },
+    ROIDisplayColor: { tag: '(3006,002A)', keyword: 'ROIDisplayColor', vr: 'IS', vm: [3, 3] },
+    ROIVolume: { tag: '(3006,002C)', keyword: 'ROIVolume', vr: 'DS', vm: [1, 1] },
+    RTRelatedROISequence: { tag: '(3006,0030)', keyword: 'RTRelatedROISequence', vr: 'SQ', vm: [1, 1] },
+    RTROIRelationship: { tag: '(3006,0033)', keyword: 'RTROIRelationship', vr: 'CS', vm: [1, 1] },
+    ROIGenerationAlgorithm: { tag: '(3006,0036)', keyword: 'ROIGenerationAlgorithm', vr: 'CS', vm: [1, 1] },
+    ROIDerivationAlgorithmIdentificationSequence: { tag: '(3006,0037)', keyword: 'ROIDerivationAlgorithmIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    ROIGenerationDescription: { tag: '(3006,0038)', keyword: 'ROIGenerationDescription', vr: 'LO', vm: [1, 1] },
+    ROIContourSequence: { tag: '(3006,0039)', keyword: 'ROIContourSequence', vr: 'SQ', vm: [1, 1] },
+    ContourSequence: { tag: '(3006,0040)', keyword: 'ContourSequence', vr: 'SQ', vm: [1, 1] },
+    ContourGeometricType: { tag: '(3006,0042)', keyword: 'ContourGeometricType', vr: 'CS', vm: [1, 1] },
+    ContourSlabThickness: { tag: '(3006,0044)', keyword: 'ContourSlabThickness', vr: 'DS', vm: [1, 1] },
+    ContourOffsetVector: { tag: '(3006,0045)', keyword: 'ContourOffsetVector', vr: 'DS', vm: [3, 3] },
+    NumberOfContourPoints: { tag: '(3006,0046)', keyword: 'NumberOfContourPoints', vr: 'IS', vm: [1, 1] },
+    ContourNumber: { tag: '(3006,0048)', keyword: 'ContourNumber', vr: 'IS', vm: [1, 1] },
+    AttachedContours: { tag: '(3006,0049)', keyword: 'AttachedContours', vr: 'IS', vm: [1, null] },
+    ContourData: { tag: '(3006,0050)', keyword: 'ContourData', vr: 'DS', vm: [3, null] },
+    RTROIObservationsSequence: { tag: '(3006,0080)', keyword: 'RTROIObservationsSequence', vr: 'SQ', vm: [1, 1] },
+    ObservationNumber: { tag: '(3006,0082)', keyword: 'ObservationNumber', vr: 'IS', vm: [1, 1] },
+    ReferencedROINumber: { tag: '(3006,0084)', keyword: 'ReferencedROINumber', vr: 'IS', vm: [1, 1] },
+    ROIObservationLabel: { tag: '(3006,0085)', keyword: 'ROIObservationLabel', vr: 'SH', vm: [1, 1] },
+    RTROIIdentificationCodeSequence: { tag: '(3006,0086)', keyword: 'RTROIIdentificationCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ROIObservationDescription: { tag: '(3006,0088)', keyword: 'ROIObservationDescription', vr: 'ST', vm: [1, 1] },
+    RelatedRTROIObservationsSequence: { tag: '(3006,00A0)', keyword: 'RelatedRTROIObservationsSequence', vr: 'SQ', vm: [1, 1] },
+    RTROIInterpretedType: { tag: '(3006,00A4)', keyword: 'RTROIInterpretedType', vr: 'CS', vm: [1, 1] },
+    ROIInterpreter: { tag: '(3006,00A6)', keyword: 'ROIInterpreter', vr: 'PN', vm: [1, 1] },
+    ROIPhysicalPropertiesSequence: { tag: '(3006,00B0)', keyword: 'ROIPhysicalPropertiesSequence', vr: 'SQ', vm: [1, 1] },
+    ROIPhysicalProperty: { tag: '(3006,00B2)', keyword: 'ROIPhysicalProperty', vr: 'CS', vm: [1, 1] },
+    ROIPhysicalPropertyValue: { tag: '(3006,00B4)', keyword: 'ROIPhysicalPropertyValue', vr: 'DS', vm: [1, 1] },
+    ROIElementalCompositionSequence: { tag: '(3006,00B6)', keyword: 'ROIElementalCompositionSequence', vr: 'SQ', vm: [1, 1] },
+    ROIElementalCompositionAtomicNumber: { tag: '(3006,00B7)', keyword: 'ROIElementalCompositionAtomicNumber', vr: 'US', vm: [1, 1] },
+    ROIElementalCompositionAtomicMassFraction: { tag: '(3006,00B8)', keyword: 'ROIElementalCompositionAtomicMassFraction', vr: 'FL', vm: [1, 1] },
+    RETIRED_AdditionalRTROIIdentificationCodeSequence: {
+        tag: '(3006,00B9)',
+        keyword: 'RETIRED_AdditionalRTROIIdentificationCodeSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    RETIRED_FrameOfReferenceRelationshipSequence: { tag: '(3006,00C0)', keyword: 'RETIRED_FrameOfReferenceRelationshipSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_RelatedFrameOfReferenceUID: { tag: '(3006,00C2)', keyword: 'RETIRED_RelatedFrameOfReferenceUID', vr: 'UI', vm: [1, 1] },
+    RETIRED_FrameOfReferenceTransformationType: { tag: '(3006,00C4)', keyword: 'RETIRED_FrameOfReferenceTransformationType', vr: 'CS', vm: [1, 1] },
+    FrameOfReferenceTransformationMatrix: { tag: '(3006,00C6)', keyword: 'FrameOfReferenceTransformationMatrix', vr: 'DS', vm: [22, 22] },
+    FrameOfReferenceTransformationComment: { tag: '(3006,00C8)', keyword: 'FrameOfReferenceTransformationComment', vr: 'LO', vm: [1, 1] },
+    PatientLocationCoordinatesSequence: { tag: '(3006,00C9)', keyword: 'PatientLocationCoordinatesSequence', vr: 'SQ', vm: [1, 1] },
+    PatientLocationCoordinatesCodeSequence: { tag: '(3006,00CA)', keyword: 'PatientLocationCoordinatesCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PatientSupportPositionSequence: { tag: '(3006,00CB)', keyword: 'PatientSupportPositionSequence', vr: 'SQ', vm: [1, 1] },
+    MeasuredDoseReferenceSequence: { tag: '(3008,0010)', keyword: 'MeasuredDoseReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    MeasuredDoseDescription: { tag: '(3008,0012)', keyword: 'MeasuredDoseDescription', vr: 'ST', vm: [1, 1] },
+    MeasuredDoseType: { tag: '(3008,0014)', keyword: 'MeasuredDoseType', vr: 'CS', vm: [1, 1] },
+    MeasuredDoseValue: { tag: '(3008,0016)', keyword: 'MeasuredDoseValue', vr: 'DS', vm: [1, 1] },
+    TreatmentSessionBeamSequence: { tag: '(3008,0020)', keyword: 'TreatmentSessionBeamSequence', vr: 'SQ', vm: [1, 1] },
+    TreatmentSessionIonBeamSequence: { tag: '(3008,0021)', keyword: 'TreatmentSessionIonBeamSequence', vr: 'SQ', vm: [1, 1] },
+    CurrentFractionNumber: { tag: '(3008,0022)', keyword: 'CurrentFractionNumber', vr: 'IS', vm: [1, 1] },
+    TreatmentControlPointDate: { tag: '(3008,0024)', keyword: 'TreatmentControlPointDate', vr: 'DA', vm: [1, 1] },
+    TreatmentControlPointTime: { tag: '(3008,0025)', keyword: 'TreatmentControlPointTime', vr: 'TM', vm: [1, 1] },
+    TreatmentTerminationStatus: { tag: '(3008,002A)', keyword: 'TreatmentTerminationStatus', vr: 'CS', vm: [1, 1] },
+    TreatmentTerminationCode: { tag: '(3008,002B)', keyword: 'TreatmentTerminationCode', vr: 'SH', vm: [1, 1] },
+    TreatmentVerificationStatus: { tag: '(3008,002C)', keyword: 'TreatmentVerificationStatus', vr: 'CS', vm: [1, 1] },
+    ReferencedTreatmentRecordSequence: { tag: '(3008,0030)', keyword: 'ReferencedTreatmentRecordSequence', vr: 'SQ', vm: [1, 1] },
+    SpecifiedPrimaryMeterset: { tag: '(3008,0032)', keyword: 'SpecifiedPrimaryMeterset', vr: 'DS', vm: [1, 1] },
+    SpecifiedSecondaryMeterset: { tag: '(3008,0033)', keyword: 'SpecifiedSecondaryMeterset', vr: 'DS', vm: [1, 1] },
+    DeliveredPrimaryMeterset: { tag: '(3008,0036)', keyword: 'DeliveredPrimaryMeterset', vr: 'DS', vm: [1, 1] },
+    DeliveredSecondaryMeterset: { tag: '(3008,0037)', keyword: 'DeliveredSecondaryMeterset', vr: 'DS', vm: [1, 1] },
+    SpecifiedTreatmentTime: { tag: '(3008,003A)', keyword: 'SpecifiedTreatmentTime', vr: 'DS', vm: [1, 1] },
+    DeliveredTreatmentTime: { tag: '(3008,003B)', keyword: 'DeliveredTreatmentTime', vr: 'DS', vm: [1, 1] },
+    ControlPointDeliverySequence: { tag: '(3008,0040)', keyword: 'ControlPointDeliverySequence', vr: 'SQ', vm: [1, 1] },
+    IonControlPointDeliverySequence: { tag: '(3008,0041)', keyword: 'IonControlPointDeliverySequence', vr: 'SQ', vm: [1, 1] },
+    SpecifiedMeterset: { tag: '(3008,0042)', keyword: 'SpecifiedMeterset', vr: 'DS', vm: [1, 1] },
+    DeliveredMeterset: { tag: '(3008,0044)', keyword: 'DeliveredMeterset', vr: 'DS', vm: [1, 1] },
+    MetersetRateSet: { tag: '(3008,0045)', keyword: 'MetersetRateSet', vr: 'FL', vm: [1, 1] },
+    MetersetRateDelivered: { tag: '(3008,0046)', keyword: 'MetersetRateDelivered', vr: 'FL', vm: [1, 1] },
+    ScanSpotMetersetsDelivered: { tag: '(3008,0047)', keyword: 'ScanSpotMetersetsDelivered', vr: 'FL', vm: [1, null] },
+    DoseRateDelivered: { tag: '(3008,0048)', keyword: 'DoseRateDelivered', vr: 'DS', vm: [1, 1] },
+    TreatmentSummaryCalculatedDoseReferenceSequence: { tag: '(3008,0050)', keyword: 'TreatmentSummaryCalculatedDoseReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    CumulativeDoseToDoseReference: { tag: '(3008,0052)', keyword: 'CumulativeDoseToDoseReference', vr: 'DS', vm: [1, 1] },
+    FirstTreatmentDate: { tag: '(3008,0054)', keyword: 'FirstTreatmentDate', vr: 'DA', vm: [1, 1] },
+    MostRecentTreatmentDate: { tag: '(3008,0056)', keyword: 'MostRecentTreatmentDate', vr: 'DA', vm: [1, 1] },
+    NumberOfFractionsDelivered: { tag: '(3008,005A)', keyword: 'NumberOfFractionsDelivered', vr: 'IS', vm: [1, 1] },
+    OverrideSequence: { tag: '(3008,0060)', keyword: 'OverrideSequence', vr: 'SQ', vm: [1, 1] },
+    ParameterSequencePointer: { tag: '(3008,0061)', keyword: 'ParameterSequencePointer', vr: 'AT', vm: [1, 1] },
+    OverrideParameterPointer: { tag: '(3008,0062)', keyword: 'OverrideParameterPointer', vr: 'AT', vm: [1, 1] },
+    ParameterItemIndex: { tag: '(3008,0063)', keyword: 'ParameterItemIndex', vr: 'IS', vm: [1, 1] },
+    MeasuredDoseReferenceNumber: { tag: '(3008,0064)', keyword: 'MeasuredDoseReferenceNumber', vr: 'IS', vm: [1, 1] },
+    ParameterPointer: { tag: '(3008,0065)', keyword: 'ParameterPointer', vr: 'AT', vm: [1, 1] },
+    OverrideReason: { tag: '(3008,0066)', keyword: 'OverrideReason', vr: 'ST', vm: [1, 1] },
+    ParameterValueNumber: { tag: '(3008,0067)', keyword: 'ParameterValueNumber', vr: 'US', vm: [1, 1] },
+    CorrectedParameterSequence: { tag: '(3008,0068)', keyword: 'CorrectedParameterSequence', vr: 'SQ', vm: [1, 1] },
+    CorrectionValue: { tag: '(3008,006A)', keyword: 'CorrectionValue', vr: 'FL', vm: [1, 1] },
+    CalculatedDoseReferenceSequence: { tag: '(3008,0070)', keyword: 'CalculatedDoseReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    CalculatedDoseReferenceNumber: { tag: '(3008,0072)', keyword: 'CalculatedDoseReferenceNumber', vr: 'IS', vm: [1, 1] },
+    CalculatedDoseReferenceDescription: { tag: '(3008,0074)', keyword: 'CalculatedDoseReferenceDescription', vr: 'ST', vm: [1, 1] },
+    CalculatedDoseReferenceDoseValue: { tag: '(3008,0076)', keyword: 'CalculatedDoseReferenceDoseValue', vr: 'DS', vm: [1, 1] },
+    StartMeterset: { tag: '(3008,0078)', keyword: 'StartMeterset', vr: 'DS', vm: [1, 1] },
+    EndMeterset: { tag: '(3008,007A)', keyword: 'EndMeterset', vr: 'DS', vm: [1, 1] },
+    ReferencedMeasuredDoseReferenceSequence: { tag: '(3008,0080)', keyword: 'ReferencedMeasuredDoseReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedMeasuredDoseReferenceNumber: { tag: '(3008,0082)', keyword: 'ReferencedMeasuredDoseReferenceNumber', vr: 'IS', vm: [1, 1] },
+    ReferencedCalculatedDoseReferenceSequence: { tag: '(3008,0090)', keyword: 'ReferencedCalculatedDoseReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedCalculatedDoseReferenceNumber: { tag: '(3008,0092)', keyword: 'ReferencedCalculatedDoseReferenceNumber', vr: 'IS', vm: [1, 1] },
+    BeamLimitingDeviceLeafPairsSequence: { tag: '(3008,00A0)', keyword: 'BeamLimitingDeviceLeafPairsSequence', vr: 'SQ', vm: [1, 1] },
+    RecordedWedgeSequence: { tag: '(3008,00B0)', keyword: 'RecordedWedgeSequence', vr: 'SQ', vm: [1, 1] },
+    RecordedCompensatorSequence: { tag: '(3008,00C0)', keyword: 'RecordedCompensatorSequence', vr: 'SQ', vm: [1, 1] },
+    RecordedBlockSequence: { tag: '(3008,00D0)', keyword: 'RecordedBlockSequence', vr: 'SQ', vm: [1, 1] },
+    TreatmentSummaryMeasuredDoseReferenceSequence: { tag: '(3008,00E0)', keyword: 'TreatmentSummaryMeasuredDoseReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    RecordedSnoutSequence: { tag: '(3008,00F0)', keyword: 'RecordedSnoutSequence', vr: 'SQ', vm: [1, 1] },
+    RecordedRangeShifterSequence: { tag: '(3008,00F2)', keyword: 'RecordedRangeShifterSequence', vr: 'SQ', vm: [1, 1] },
+    RecordedLateralSpreadingDeviceSequence: { tag: '(3008,00F4)', keyword: 'RecordedLateralSpreadingDeviceSequence', vr: 'SQ', vm: [1, 1] },
+    RecordedRangeModulatorSequence: { tag: '(3008,00F6)', keyword: 'RecordedRangeModulatorSequence', vr: 'SQ', vm: [1, 1] },
+    RecordedSourceSequence: { tag: '(3008,0100)', keyword: 'RecordedSourceSequence', vr: 'SQ', vm: [1, 1] },
+    SourceSerialNumber: { tag: '(3008,0105)', keyword: 'SourceSerialNumber', vr: 'LO', vm: [1, 1] },
+    TreatmentSessionApplicationSetupSequence: { tag: '(3008,0110)', keyword: 'TreatmentSessionApplicationSetupSequence', vr: 'SQ', vm: [1, 1] },
+    ApplicationSetupCheck: { tag: '(3008,0116)', keyword: 'ApplicationSetupCheck', vr: 'CS', vm: [1, 1] },
+    RecordedBrachyAccessoryDeviceSequence: { tag: '(3008,0120)', keyword: 'RecordedBrachyAccessoryDeviceSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedBrachyAccessoryDeviceNumber: { tag: '(3008,0122)', keyword: 'ReferencedBrachyAccessoryDeviceNumber', vr: 'IS', vm: [1, 1] },
+    RecordedChannelSequence: { tag: '(3008,0130)', keyword: 'RecordedChannelSequence', vr: 'SQ', vm: [1, 1] },
+    SpecifiedChannelTotalTime: { tag: '(3008,0132)', keyword: 'SpecifiedChannelTotalTime', vr: 'DS', vm: [1, 1] },
+    DeliveredChannelTotalTime: { tag: '(3008,0134)', keyword: 'DeliveredChannelTotalTime', vr: 'DS', vm: [1, 1] },
+    SpecifiedNumberOfPulses: { tag: '(3008,0136)', keyword: 'SpecifiedNumberOfPulses', vr: 'IS', vm: [1, 1] },
+    DeliveredNumberOfPulses: { tag: '(3008,0138)', keyword: 'DeliveredNumberOfPulses', vr: 'IS', vm: [1, 1] },
+    SpecifiedPulseRepetitionInterval: { tag: '(3008,013A)', keyword: 'SpecifiedPulseRepetitionInterval', vr: 'DS', vm: [1, 1] },
+    DeliveredPulseRepetitionInterval: { tag: '(3008,013C)', keyword: 'DeliveredPulseRepetitionInterval', vr: 'DS', vm: [1, 1] },
+    RecordedSourceApplicatorSequence: { tag: '(3008,0140)', keyword: 'RecordedSourceApplicatorSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedSourceApplicatorNumber: { tag: '(3008,0142)', keyword: 'ReferencedSourceApplicatorNumber', vr: 'IS', vm: [1, 1] },
+    RecordedChannelShieldSequence: { tag: '(3008,0150)', keyword: 'RecordedChannelShieldSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedChannelShieldNumber: { tag: '(3008,0152)', keyword: 'ReferencedChannelShieldNumber', vr: 'IS', vm: [1, 1] },
+    BrachyControlPointDeliveredSequence: { tag: '(3008,0160)', keyword: 'BrachyControlPointDeliveredSequence', vr: 'SQ', vm: [1, 1] },
+    SafePositionExitDate: { tag: '(3008,0162)', keyword: 'SafePositionExitDate', vr: 'DA', vm: [1, 1] },
+    SafePositionExitTime: { tag: '(3008,0164)', keyword: 'SafePositionExitTime', vr: 'TM', vm: [1, 1] },
+    SafePositionReturnDate: { tag: '(3008,0166)', keyword: 'SafePositionReturnDate', vr: 'DA', vm: [1, 1] },
+    SafePositionReturnTime: { tag: '(3008,0168)', keyword: 'SafePositionReturnTime', vr: 'TM', vm: [1, 1] },
+    PulseSpecificBrachyControlPointDeliveredSequence: { tag: '(3008,0171)', keyword: 'PulseSpecificBrachyControlPointDeliveredSequence', vr: 'SQ', vm: [1, 1] },
+    PulseNumber: { tag: '(3008,0172)', keyword: 'PulseNumber', vr: 'US', vm: [1, 1] },
+    BrachyPulseControlPointDeliveredSequence: { tag: '(3008,0173)', keyword: 'BrachyPulseControlPointDeliveredSequence', vr: 'SQ', vm: [1, 1] },
+    CurrentTreatmentStatus: { tag: '(3008,0200)', keyword: 'CurrentTreatmentStatus', vr: 'CS', vm: [1, 1] },
+    TreatmentStatusComment: { tag: '(3008,0202)', keyword: 'TreatmentStatusComment', vr: 'ST', vm: [1, 1] },
+    FractionGroupSummarySequence: { tag: '(3008,0220)', keyword: 'FractionGroupSummarySequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedFractionNumber: { tag: '(3008,0223)', keyword: 'ReferencedFractionNumber', vr: 'IS', vm: [1, 1] },
+    FractionGroupType: { tag: '(3008,0224)', keyword: 'FractionGroupType', vr: 'CS', vm: [1, 1] },
+    BeamStopperPosition: { tag: '(3008,0230)', keyword: 'BeamStopperPosition', vr: 'CS', vm: [1, 1] },
+    FractionStatusSummarySequence: { tag: '(3008,0240)', keyword: 'FractionStatusSummarySequence', vr: 'SQ', vm: [1, 1] },
+    TreatmentDate: { tag: '(3008,0250)', keyword: 'TreatmentDate', vr: 'DA', vm: [1, 1] },
+    TreatmentTime: { tag: '(3008,0251)', keyword: 'TreatmentTime', vr: 'TM', vm: [1, 1] },
+    RTPlanLabel: { tag: '(300A,0002)', keyword: 'RTPlanLabel', vr: 'SH', vm: [1, 1] },
+    RTPlanName: { tag: '(300A,0003)', keyword: 'RTPlanName', vr: 'LO', vm: [1, 1] },
+    RTPlanDescription: { tag: '(300A,0004)', keyword: 'RTPlanDescription', vr: 'ST', vm: [1, 1] },
+    RTPlanDate: { tag: '(300A,0006)', keyword: 'RTPlanDate', vr: 'DA', vm: [1, 1] },
+    RTPlanTime: { tag: '(300A,0007)', keyword: 'RTPlanTime', vr: 'TM', vm: [1, 1] },
+    TreatmentProtocols: { tag: '(300A,0009)', keyword: 'TreatmentProtocols', vr: 'LO', vm: [1, null] },
+    PlanIntent: { tag: '(300A,000A)', keyword: 'PlanIntent', vr: 'CS', vm: [1, 1] },
+    TreatmentSites: { tag: '(300A,000B)', keyword: 'TreatmentSites', vr: 'LO', vm: [1, null] },
+    RTPlanGeometry: { tag: '(300A,000C)', keyword: 'RTPlanGeometry', vr: 'CS', vm: [1, 1] },
+    PrescriptionDescription: { tag: '(300A,000E)', keyword: 'PrescriptionDescription', vr: 'ST', vm: [1, 1] },
+    DoseReferenceSequence: { tag: '(300A,0010)', keyword: 'DoseReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    DoseReferenceNumber: { tag: '(300A,0012)', keyword: 'DoseReferenceNumber', vr: 'IS', vm: [1, 1] },
+    DoseReferenceUID: { tag: '(300A,0013)', keyword: 'DoseReferenceUID', vr: 'UI', vm: [1, 1] },
+    DoseReferenceStructureType: { tag: '(300A,0014)', keyword: 'DoseReferenceStructureType', vr: 'CS', vm: [1, 1] },
+    NominalBeamEnergyUnit: { tag: '(300A,0015)', keyword: 'NominalBeamEnergyUnit', vr: 'CS', vm: [1, 1] },
+    DoseReferenceDescription: { tag: '(300A,0016)', keyword: 'DoseReferenceDescription', vr: 'LO', vm: [1, 1] },
+    DoseReferencePointCoordinates: { tag: '(300A,0018)', keyword: 'DoseReferencePointCoordinates', vr: 'DS', vm: [3, 3] },
+    NominalPriorDose: { tag: '(300A,001A)', keyword: 'NominalPriorDose', vr: 'DS', vm: [1, 1] },
+    DoseReferenceType: { tag: '(300A,0020)', keyword: 'DoseReferenceType', vr: 'CS', vm: [1, 1] },
+    ConstraintWeight: { tag: '(300A,0021)', keyword: 'ConstraintWeight', vr: 'DS', vm: [1, 1] },
+    DeliveryWarningDose: { tag: '(300A,0022)', keyword: 'DeliveryWarningDose', vr: 'DS', vm: [1, 1] },
+    DeliveryMaximumDose: { tag: '(300A,0023)', keyword: 'DeliveryMaximumDose', vr: 'DS', vm: [1, 1] },
+    TargetMinimumDose: { tag: '(300A,0025)', keyword: 'TargetMinimumDose', vr: 'DS', vm: [1, 1] },
+    TargetPrescriptionDose: { tag: '(300A,0026)', keyword: 'TargetPrescriptionDose', vr: 'DS', vm: [1, 1] },
+    TargetMaximumDose: { tag: '(300A,0027)', keyword: 'TargetMaximumDose', vr: 'DS', vm: [1, 1] },
+    TargetUnderdoseVolumeFraction: { tag: '(300A,0028)', keyword: 'TargetUnderdoseVolumeFraction', vr: 'DS', vm: [1, 1] },
+    OrganAtRiskFullVolumeDose: { tag: '(300A,002A)', keyword: 'OrganAtRiskFullVolumeDose', vr: 'DS', vm: [1, 1] },
+    OrganAtRiskLimitDose: { tag: '(300A,002B)', keyword: 'OrganAtRiskLimitDose', vr: 'DS', vm: [1, 1] },
+    OrganAtRiskMaximumDose: { tag: '(300A,002C)', keyword: 'OrganAtRiskMaximumDose', vr: 'DS', vm: [1, 1] },
+    OrganAtRiskOverdoseVolumeFraction: { tag: '(300A,002D)', keyword: 'OrganAtRiskOverdoseVolumeFraction', vr: 'DS', vm: [1, 1] },
+    ToleranceTableSequence: { tag: '(300A,0040)', keyword: 'ToleranceTableSequence', vr: 'SQ', vm: [1, 1] },
+    ToleranceTableNumber: { tag: '(300A,0042)', keyword: 'ToleranceTableNumber', vr: 'IS', vm: [1, 1] },
+    ToleranceTableLabel: { tag: '(300A,0043)', keyword: 'ToleranceTableLabel', vr: 'SH', vm: [1, 1] },
+    GantryAngleTolerance: { tag: '(300A,0044)', keyword: 'GantryAngleTolerance', vr: 'DS', vm: [1, 1] },
+    BeamLimitingDeviceAngleTolerance: { tag: '(300A,0046)', keyword: 'BeamLimitingDeviceAngleTolerance', vr: 'DS', vm: [1, 1] },
+    BeamLimitingDeviceToleranceSequence: { tag: '(300A,0048)', keyword: 'BeamLimitingDeviceToleranceSequence', vr: 'SQ', vm: [1, 1] },
+    BeamLimitingDevicePositionTolerance: { tag: '(300A,004A)', keyword: 'BeamLimitingDevicePositionTolerance', vr: 'DS', vm: [1, 1] },
+    SnoutPositionTolerance: { tag: '(300A,004B)', keyword: 'SnoutPositionTolerance', vr: 'FL', vm: [1, 1] },
+    PatientSupportAngleTolerance: { tag: '(300A,004C)', keyword: 'PatientSupportAngleTolerance', vr: 'DS', vm: [1, 1] },
+    TableTopEccentricAngleTolerance: { tag: '(300A,004E)', keyword: 'TableTopEccentricAngleTolerance', vr: 'DS', vm: [1, 1] },
+    TableTopPitchAngleTolerance: { tag: '(300A,004F)', keyword: 'TableTopPitchAngleTolerance', vr: 'FL', vm: [1, 1] },
+    TableTopRollAngleTolerance: { tag: '(300A,0050)', keyword: 'TableTopRollAngleTolerance', vr: 'FL', vm: [1, 1] },
+    TableTopVerticalPositionTolerance: { tag: '(300A,0051)', keyword: 'TableTopVerticalPositionTolerance', vr: 'DS', vm: [1, 1] },
+    TableTopLongitudinalPositionTolerance: { tag: '(300A,0052)', keyword: 'TableTopLongitudinalPositionTolerance', vr: 'DS', vm: [1, 1] },
+    TableTopLateralPositionTolerance: { tag: '(300A,0053)', keyword: 'TableTopLateralPositionTolerance', vr: 'DS', vm: [1, 1] },
+    RTPlanRelationship: { tag: '(300A,0055)', keyword: 'RTPlanRelationship', vr: 'CS', vm: [1, 1] },
+    FractionGroupSequence: { tag: '(300A,0070)', keyword: 'FractionGroupSequence', vr: 'SQ', vm: [1, 1] },
+    FractionGroupNumber: { tag: '(300A,0071)', keyword: 'FractionGroupNumber', vr: 'IS', vm: [1, 1] },
+    FractionGroupDescription: { tag: '(300A,0072)', keyword: 'FractionGroupDescription', vr: 'LO', vm: [1, 1] },
+    NumberOfFractionsPlanned: { tag: '(300A,0078)', keyword: 'NumberOfFractionsPlanned', vr: 'IS', vm: [1, 1] },
+    NumberOfFractionPatternDigitsPerDay: { tag: '(300A,0079)', keyword: 'NumberOfFractionPatternDigitsPerDay', vr: 'IS', vm: [1, 1] },
+    RepeatFractionCycleLength: { tag: '(300A,007A)', keyword: 'RepeatFractionCycleLength', vr: 'IS', vm: [1, 1] },
+    FractionPattern: { tag: '(300A,007B)', keyword: 'FractionPattern', vr: 'LT', vm: [1, 1] },
+    NumberOfBeams: { tag: '(300A,0080)', keyword: 'NumberOfBeams', vr: 'IS', vm: [1, 1] },
+    RETIRED_BeamDoseSpecificationPoint: { tag: '(300A,0082)', keyword: 'RETIRED_BeamDoseSpecificationPoint', vr: 'DS', vm: [3, 3] },
+    ReferencedDoseReferenceUID: { tag: '(300A,0083)', keyword: 'ReferencedDoseReferenceUID', vr: 'UI', vm: [1, 1] },
+    BeamDose: { tag: '(300A,0084)', keyword: 'BeamDose', vr: 'DS', vm: [1, 1] },
+    BeamMeterset: { tag: '(300A,0086)', keyword: 'BeamMeterset', vr: 'DS', vm: [1, 1] },
+    BeamDosePointDepth: { tag: '(300A,0088)', keyword: 'BeamDosePointDepth', vr: 'FL', vm: [1, 1] },
+    BeamDosePointEquivalentDepth: { tag: '(300A,0089)', keyword: 'BeamDosePointEquivalentDepth', vr: 'FL', vm: [1, 1] },
+    BeamDosePointSSD: { tag: '(300A,008A)', keyword: 'BeamDosePointSSD', vr: 'FL', vm: [1, 1] },
+    BeamDoseMeaning: { tag: '(300A,008B)', keyword: 'BeamDoseMeaning', vr: 'CS', vm: [1, 1] },
+    BeamDoseVerificationControlPointSequence: { tag: '(300A,008C)', keyword: 'BeamDoseVerificationControlPointSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_AverageBeamDosePointDepth: { tag: '(300A,008D)', keyword: 'RETIRED_AverageBeamDosePointDepth', vr: 'FL', vm: [1, 1] },
+    RETIRED_AverageBeamDosePointEquivalentDepth: { tag: '(300A,008E)', keyword: 'RETIRED_AverageBeamDosePointEquivalentDepth', vr: 'FL', vm: [1, 1] },
+    RETIRED_AverageBeamDosePointSSD: { tag: '(300A,008F)', keyword: 'RETIRED_AverageBeamDosePointSSD', vr: 'FL', vm: [1, 1] },
+    BeamDoseType: { tag: '(300A,0090)', keyword: 'BeamDoseType', vr: 'CS', vm: [1, 1] },
+    AlternateBeamDose: { tag: '(300A,0091)', keyword: 'AlternateBeamDose', vr: 'DS', vm: [1, 1] },
+    AlternateBeamDoseType: { tag: '(300A,0092)', keyword: 'AlternateBeamDoseType', vr: 'CS', vm: [1, 1] },
+    DepthValueAveragingFlag: { tag: '(300A,0093)', keyword: 'DepthValueAveragingFlag', vr: 'CS', vm: [1, 1] },
+    BeamDosePointSourceToExternalContourDistance: { tag: '(300A,0094)', keyword: 'BeamDosePointSourceToExternalContourDistance', vr: 'DS', vm: [1, 1] },
+    NumberOfBrachyApplicationSetups: { tag: '(300A,00A0)', keyword: 'NumberOfBrachyApplicationSetups', vr: 'IS', vm: [1, 1] },
+    BrachyApplicationSetupDoseSpecificationPoint: { tag: '(300A,00A2)', keyword: 'BrachyApplicationSetupDoseSpecificationPoint', vr: 'DS', vm: [3, 3] },
+    BrachyApplicationSetupDose: { tag: '(300A,00A4)', keyword: 'BrachyApplicationSetupDose', vr: 'DS', vm: [1, 1] },
+    BeamSequence: { tag: '(300A,00B0)', keyword: 'BeamSequence', vr: 'SQ', vm: [1, 1] },
+    TreatmentMachineName: { tag: '(300A,00B2)', keyword: 'TreatmentMachineName', vr: 'SH', vm: [1, 1] },
+    PrimaryDosimeterUnit: { tag: '(300A,00B3)', keyword: 'PrimaryDosimeterUnit', vr: 'CS', vm: [1, 1] },
+    SourceAxisDistance: { tag: '(300A,00B4)', keyword: 'SourceAxisDistance', vr: 'DS', vm: [1, 1] },
+    BeamLimitingDeviceSequence: { tag: '(300A,00B6)', keyword: 'BeamLimitingDeviceSequence', vr: 'SQ', vm: [1, 1] },
+    RTBeamLimitingDeviceType: { tag: '(300A,00B8)', keyword: 'RTBeamLimitingDeviceType', vr: 'CS', vm: [1, 1] },
+    SourceToBeamLimitingDeviceDistance: { tag: '(300A,00BA)', keyword: 'SourceToBeamLimitingDeviceDistance', vr: 'DS', vm: [1, 1] },
+    IsocenterToBeamLimitingDeviceDistance: { tag: '(300A,00BB)', keyword: 'IsocenterToBeamLimitingDeviceDistance', vr: 'FL', vm: [1, 1] },
+    NumberOfLeafJawPairs: { tag: '(300A,00BC)', keyword: 'NumberOfLeafJawPairs', vr: 'IS', vm: [1, 1] },
+    LeafPositionBoundaries: { tag: '(300A,00BE)', keyword: 'LeafPositionBoundaries', vr: 'DS', vm: [3, null] },
+    BeamNumber: { tag: '(300A,00C0)', keyword: 'BeamNumber', vr: 'IS', vm: [1, 1] },
+    BeamName: { tag: '(300A,00C2)', keyword: 'BeamName', vr: 'LO', vm: [1, 1] },
+    BeamDescription: { tag: '(300A,00C3)', keyword: 'BeamDescription', vr: 'ST', vm: [1, 1] },
+    BeamType: { tag: '(300A,00C4)', keyword: 'BeamType', vr: 'CS', vm: [1, 1] },
+    BeamDeliveryDurationLimit: { tag: '(300A,00C5)', keyword: 'BeamDeliveryDurationLimit', vr: 'FD', vm: [1, 1] },
+    RadiationType: { tag: '(300A,00C6)', keyword: 'RadiationType', vr: 'CS', vm: [1, 1] },
+    HighDoseTechniqueType: { tag: '(300A,00C7)', keyword: 'HighDoseTechniqueType', vr: 'CS', vm: [1, 1] },
+    ReferenceImageNumber: { tag: '(300A,00C8)', keyword: 'ReferenceImageNumber', vr: 'IS', vm: [1, 1] },
+    PlannedVerificationImageSequence: { tag: '(300A,00CA)', keyword: 'PlannedVerificationImageSequence', vr: 'SQ', vm: [1, 1] },
+    ImagingDeviceSpecificAcquisitionParameters: { tag: '(300A,00CC)', keyword: 'ImagingDeviceSpecificAcquisitionParameters', vr: 'LO', vm: [1, null] },
+    TreatmentDeliveryType: { tag: '(300A,00CE)', keyword: 'TreatmentDeliveryType', vr: 'CS', vm: [1, 1] },
+    NumberOfWedges: { tag: '(300A,00D0)', keyword: 'NumberOfWedges', vr: 'IS', vm: [1, 1] },
+    WedgeSequence: { tag: '(300A,00D1)', keyword: 'WedgeSequence', vr: 'SQ', vm: [1, 1] },
+    WedgeNumber: { tag: '(300A,00D2)', keyword: 'WedgeNumber', vr: 'IS', vm: [1, 1] },
+    WedgeType: { tag: '(300A,00D3)', keyword: 'WedgeType', vr: 'CS', vm: [1, 1] },
+    WedgeID: { tag: '(300A,00D4)', keyword: 'WedgeID', vr: 'SH', vm: [1, 1] },
+    WedgeAngle: { tag: '(300A,00D5)', keyword: 'WedgeAngle', vr: 'IS', vm: [1, 1] },
+    WedgeFactor: { tag: '(300A,00D6)', keyword: 'WedgeFactor', vr: 'DS', vm: [1, 1] },
+    TotalWedgeTrayWaterEquivalentThickness: { tag: '(300A,00D7)', keyword: 'TotalWedgeTrayWaterEquivalentThickness', vr: 'FL', vm: [1, 1] },
+    WedgeOrientation: { tag: '(300A,00D8)', keyword: 'WedgeOrientation', vr: 'DS', vm: [1, 1] },
+    IsocenterToWedgeTrayDistance: { tag: '(300A,00D9)', keyword: 'IsocenterToWedgeTrayDistance', vr: 'FL', vm: [1, 1] },
+    SourceToWedgeTrayDistance: { tag: '(300A,00DA)', keyword: 'SourceToWedgeTrayDistance', vr: 'DS', vm: [1, 1] },
+    WedgeThinEdgePosition: { tag: '(300A,00DB)', keyword: 'WedgeThinEdgePosition', vr: 'FL', vm: [1, 1] },
+    BolusID: { tag: '(300A,00DC)', keyword: 'BolusID', vr: 'SH', vm: [1, 1] },
+    BolusDescription: { tag: '(300A,00DD)', keyword: 'BolusDescription', vr: 'ST', vm: [1, 1] },
+    EffectiveWedgeAngle: { tag: '(300A,00DE)', keyword: 'EffectiveWedgeAngle', vr: 'DS', vm: [1, 1] },
+    NumberOfCompensators: { tag: '(300A,00E0)', keyword: 'NumberOfCompensators', vr: 'IS', vm: [1, 1] },
+    MaterialID: { tag: '(300A,00E1)', keyword: 'MaterialID', vr: 'SH', vm: [1, 1] },
+    TotalCompensatorTrayFactor: { tag: '(300A,00E2)', keyword: 'TotalCompensatorTrayFactor', vr: 'DS', vm: [1, 1] },
+    CompensatorSequence: { tag: '(300A,00E3)', keyword: 'CompensatorSequence', vr: 'SQ', vm: [1, 1] },
+    CompensatorNumber: { tag: '(300A,00E4)', keyword: 'CompensatorNumber', vr: 'IS', vm: [1, 1] },
+    CompensatorID: { tag: '(300A,00E5)', keyword: 'CompensatorID', vr: 'SH', vm: [1, 1] },
+    SourceToCompensatorTrayDistance: { tag: '(300A,00E6)', keyword: 'SourceToCompensatorTrayDistance', vr: 'DS', vm: [1, 1] },
+    CompensatorRows: { tag: '(300A,00E7)', keyword: 'CompensatorRows', vr: 'IS', vm: [1, 1] },
+    CompensatorColumns: { tag: '(300A,00E8)', keyword: 'CompensatorColumns', vr: 'IS', vm: [1, 1] },
+    CompensatorPixelSpacing: { tag: '(300A,00E9)', keyword: 'CompensatorPixelSpacing', vr: 'DS', vm: [2, 2] },
+    CompensatorPosition: { tag: '(300A,00EA)', keyword: 'CompensatorPosition', vr: 'DS', vm: [2, 2] },
+    CompensatorTransmissionData: { tag: '(300A,00EB)', keyword: 'CompensatorTransmissionData', vr: 'DS', vm: [1, null] },
+    CompensatorThicknessData: { tag: '(300A,00EC)', keyword: 'CompensatorThicknessData', vr: 'DS', vm: [1, null] },
+    NumberOfBoli: { tag: '(300A,00ED)', keyword: 'NumberOfBoli', vr: 'IS', vm: [1, 1] },
+    CompensatorType: { tag: '(300A,00EE)', keyword: 'CompensatorType', vr: 'CS', vm: [1, 1] },
+    CompensatorTrayID: { tag: '(300A,00EF)', keyword: 'CompensatorTrayID', vr: 'SH', vm: [1, 1] },
+    NumberOfBlocks: { tag: '(300A,00F0)', keyword: 'NumberOfBlocks', vr: 'IS', vm: [1, 1] },
+    TotalBlockTrayFactor: { tag: '(300A,00F2)', keyword: 'TotalBlockTrayFactor', vr: 'DS', vm: [1, 1] },
+    TotalBlockTrayWaterEquivalentThickness: { tag: '(300A,00F3)', keyword: 'TotalBlockTrayWaterEquivalentThickness', vr: 'FL', vm: [1, 1] },
+    BlockSequence: { tag: '(300A,00F4)', keyword: 'BlockSequence', vr: 'SQ', vm: [1, 1] },
+    BlockTrayID: { tag: '(300A,00F5)', keyword: 'BlockTrayID', vr: 'SH', vm: [1, 1] },
+    SourceToBlockTrayDistance: { tag: '(300A,00F6)', keyword: 'SourceToBlockTrayDistance', vr: 'DS', vm: [1, 1] },
+    IsocenterToBlockTrayDistance: { tag: '(300A,00F7)', keyword: 'IsocenterToBlockTrayDistance', vr: 'FL', vm: [1, 1] },
+    BlockType: { tag: '(300A,00F8)', keyword: 'BlockType', vr: 'CS', vm: [1, 1] },
+    AccessoryCode: { tag: '(300A,00F9)', keyword: 'AccessoryCode', vr: 'LO', vm: [1, 1] },
+    BlockDivergence: { tag: '(300A,00FA)', keyword: 'BlockDivergence', vr: 'CS', vm: [1, 1] },
+    BlockMountingPosition: { tag: '(300A,00FB)', keyword: 'BlockMountingPosition', vr: 'CS', vm: [1, 1] },
+    BlockNumber: { tag: '(300A,00FC)', keyword: 'BlockNumber', vr: 'IS', vm: [1, 1] },
+    BlockName: { tag: '(300A,00FE)', keyword: 'BlockName', vr: 'LO', vm: [1, 1] },
+    BlockThickness: { tag: '(300A,0100)', keyword: 'BlockThickness', vr: 'DS', vm: [1, 1] },
+    BlockTransmission: { tag: '(300A,0102)', keyword: 'BlockTransmission', vr: 'DS', vm: [1, 1] },
+    BlockNumberOfPoints: { tag: '(300A,0104)', keyword: 'BlockNumberOfPoints', vr: 'IS', vm: [1, 1] },
+    BlockData: { tag: '(300A,0106)', keyword: 'BlockData', vr: 'DS', vm: [2, null] },
+    ApplicatorSequence: { tag: '(300A,0107)', keyword: 'ApplicatorSequence', vr: 'SQ', vm: [1, 1] },
+    ApplicatorID: { tag: '(300A,0108)', keyword: 'ApplicatorID', vr: 'SH', vm: [1, 1] },
+    ApplicatorType: { tag: '(300A,0109)', keyword: 'ApplicatorType', vr: 'CS', vm: [1, 1] },
+    ApplicatorDescription: { tag: '(300A,010A)', keyword: 'ApplicatorDescription', vr: 'LO', vm: [1, 1] },
+    CumulativeDoseReferenceCoefficient: { tag: '(300A,010C)', keyword: 'CumulativeDoseReferenceCoefficient', vr: 'DS', vm: [1, 1] },
+    FinalCumulativeMetersetWeight: { tag: '(300A,010E)', keyword: 'FinalCumulativeMetersetWeight', vr: 'DS', vm: [1, 1] },
+    NumberOfControlPoints: { tag: '(300A,0110)', keyword: 'NumberOfControlPoints', vr: 'IS', vm: [1, 1] },
+    ControlPointSequence: { tag: '(300A,0111)', keyword: 'ControlPointSequence', vr: 'SQ', vm: [1, 1] },
+    ControlPointIndex: { tag: '(300A,0112)', keyword: 'ControlPointIndex', vr: 'IS', vm: [1, 1] },
+    NominalBeamEnergy: { tag: '(300A,0114)', keyword: 'NominalBeamEnergy', vr: 'DS', vm: [1, 1] },
+    DoseRateSet: { tag: '(300A,0115)', keyword: 'DoseRateSet', vr: 'DS', vm: [1, 1] },
+    WedgePositionSequence: { tag: '(300A,0116)', keyword: 'WedgePositionSequence', vr: 'SQ', vm: [1, 1] },
+    WedgePosition: { tag: '(300A,0118)', keyword: 'WedgePosition', vr: 'CS', vm: [1, 1] },
+    BeamLimitingDevicePositionSequence: { tag: '(300A,011A)', keyword: 'BeamLimitingDevicePositionSequence', vr: 'SQ', vm: [1, 1] },
+    LeafJawPositions: { tag: '(300A,011C)', keyword: 'LeafJawPositions', vr: 'DS', vm: [2, null] },
+    GantryAngle: { tag: '(300A,011E)', keyword: 'GantryAngle', vr: 'DS', vm: [1, 1] },
+    GantryRotationDirection: { tag: '(300A,011F)', keyword: 'GantryRotationDirection', vr: 'CS', vm: [1, 1] },
+    BeamLimitingDeviceAngle: { tag: '(300A,0120)', keyword: 'BeamLimitingDeviceAngle', vr: 'DS', vm: [1, 1] },
+    BeamLimitingDeviceRotationDirection: { tag: '(300A,0121)', keyword: 'BeamLimitingDeviceRotationDirection', vr: 'CS', vm: [1, 1] },
+    PatientSupportAngle: { tag: '(300A,0122)', keyword: 'PatientSupportAngle', vr: 'DS', vm: [1, 1] },
+    PatientSupportRotationDirection: { tag: '(300A,0123)', keyword: 'PatientSupportRotationDirection', vr: 'CS', vm: [1, 1] },
+    TableTopEccentricAxisDistance: { tag: '(300A,0124)', keyword: 'TableTopEccentricAxisDistance', vr: 'DS', vm: [1, 1] },
+    TableTopEccentricAngle: { tag: '(300A,0125)', keyword: 'TableTopEccentricAngle', vr: 'DS', vm: [1, 1] },
+    TableTopEccentricRotationDirection: { tag: '(300A,0126)', keyword: 'TableTopEccentricRotationDirection', vr: 'CS', vm: [1, 1] },
+    TableTopVerticalPosition: { tag: '(300A,0128)', keyword: 'TableTopVerticalPosition', vr: 'DS', vm: [1, 1] },
+    TableTopLongitudinalPosition: { tag: '(300A,0129)', keyword: 'TableTopLongitudinalPosition', vr: 'DS', vm: [1, 1] },
+    TableTopLateralPosition: { tag: '(300A,012A)', keyword: 'TableTopLateralPosition', vr: 'DS', vm: [1, 1] },
+    IsocenterPosition: { tag: '(300A,012C)', keyword: 'IsocenterPosition', vr: 'DS', vm: [3, 3] },
+    SurfaceEntryPoint: { tag: '(300A,012E)', keyword: 'SurfaceEntryPoint', vr: 'DS', vm: [3, 3] },
+    SourceToSurfaceDistance: { tag: '(300A,0130)', keyword: 'SourceToSurfaceDistance', vr: 'DS', vm: [1, 1] },
+    AverageBeamDosePointSourceToExternalContourDistance: {
+        tag: '(300A,0131)',
+        keyword: 'AverageBeamDosePointSourceToExternalContourDistance',
+        vr: 'FL',
+        vm: [1, 1],
+    },
+    SourceToExternalContourDistance: { tag: '(300A,0132)', keyword: 'SourceToExternalContourDistance', vr: 'FL', vm: [1, 1] },
+    ExternalContourEntryPoint: { tag: '(300A,0133)', keyword: 'ExternalContourEntryPoint', vr: 'FL', vm: [3, 3] },
+    CumulativeMetersetWeight: { tag: '(300A,0134)', keyword: 'CumulativeMetersetWeight', vr: 'DS', vm: [1, 1] },
+    TableTopPitchAngle: { tag: '(300A,0140)', keyword: 'TableTopPitchAngle', vr: 'FL', vm: [1, 1] },
+    TableTopPitchRotationDirection: { tag: '(300A,0142)', keyword: 'TableTopPitchRotationDirection', vr: 'CS', vm: [1, 1] },
+    TableTopRollAngle: { tag: '(300A,0144)', keyword: 'TableTopRollAngle', vr: 'FL', vm: [1, 1] },
+    TableTopRollRotationDirection: { tag: '(300A,0146)', keyword: 'TableTopRollRotationDirection', vr: 'CS', vm: [1, 1] },
+    HeadFixationAngle: { tag: '(300A,0148)', keyword: 'HeadFixationAngle', vr: 'FL', vm: [1, 1] },
+    GantryPitchAngle: { tag: '(300A,014A)', keyword: 'GantryPitchAngle', vr: 'FL', vm: [1, 1] },
+    GantryPitchRotationDirection: { tag: '(300A,014C)', keyword: 'GantryPitchRotationDirection', vr: 'CS', vm: [1, 1] },
+    GantryPitchAngleTolerance: { tag: '(300A,014E)', keyword: 'GantryPitchAngleTolerance', vr: 'FL', vm: [1, 1] },
+    FixationEye: { tag: '(300A,0150)', keyword: 'FixationEye', vr: 'CS', vm: [1, 1] },
+    ChairHeadFramePosition: { tag: '(300A,0151)', keyword: 'ChairHeadFramePosition', vr: 'DS', vm: [1, 1] },
+    HeadFixationAngleTolerance: { tag: '(300A,0152)', keyword: 'HeadFixationAngleTolerance', vr: 'DS', vm: [1, 1] },
+    ChairHeadFramePositionTolerance: { tag: '(300A,0153)', keyword: 'ChairHeadFramePositionTolerance', vr: 'DS', vm: [1, 1] },
+    FixationLightAzimuthalAngleTolerance: { tag: '(300A,0154)', keyword: 'FixationLightAzimuthalAngleTolerance', vr: 'DS', vm: [1, 1] },
+    FixationLightPolarAngleTolerance: { tag: '(300A,0155)', keyword: 'FixationLightPolarAngleTolerance', vr: 'DS', vm: [1, 1] },
+    PatientSetupSequence: { tag: '(300A,0180)', keyword: 'PatientSetupSequence', vr: 'SQ', vm: [1, 1] },
+    PatientSetupNumber: { tag: '(300A,0182)', keyword: 'PatientSetupNumber', vr: 'IS', vm: [1, 1] },
+    PatientSetupLabel: { tag: '(300A,0183)', keyword: 'PatientSetupLabel', vr: 'LO', vm: [1, 1] },
+    PatientAdditionalPosition: { tag: '(300A,0184)', keyword: 'PatientAdditionalPosition', vr: 'LO', vm: [1, 1] },
+    FixationDeviceSequence: { tag: '(300A,0190)', keyword: 'FixationDeviceSequence', vr: 'SQ', vm: [1, 1] },
+    FixationDeviceType: { tag: '(300A,0192)', keyword: 'FixationDeviceType', vr: 'CS', vm: [1, 1] },
+    FixationDeviceLabel: { tag: '(300A,0194)', keyword: 'FixationDeviceLabel', vr: 'SH', vm: [1, 1] },
+    FixationDeviceDescription: { tag: '(300A,0196)', keyword: 'FixationDeviceDescription', vr: 'ST', vm: [1, 1] },
+    FixationDevicePosition: { tag: '(300A,0198)', keyword: 'FixationDevicePosition', vr: 'SH', vm: [1, 1] },
+    FixationDevicePitchAngle: { tag: '(300A,0199)', keyword: 'FixationDevicePitchAngle', vr: 'FL', vm: [1, 1] },
+    FixationDeviceRollAngle: { tag: '(300A,019A)', keyword: 'FixationDeviceRollAngle', vr: 'FL', vm: [1, 1] },
+    ShieldingDeviceSequence: { tag: '(300A,01A0)', keyword: 'ShieldingDeviceSequence', vr: 'SQ', vm: [1, 1] },
+    ShieldingDeviceType: { tag: '(300A,01A2)', keyword: 'ShieldingDeviceType', vr: 'CS', vm: [1, 1] },
+    ShieldingDeviceLabel: { tag: '(300A,01A4)', keyword: 'ShieldingDeviceLabel', vr: 'SH', vm: [1, 1] },
+    ShieldingDeviceDescription: { tag: '(300A,01A6)', keyword: 'ShieldingDeviceDescription', vr: 'ST', vm: [1, 1] },
+    ShieldingDevicePosition: { tag: '(300A,01A8)', keyword: 'ShieldingDevicePosition', vr: 'SH', vm: [1, 1] },
+    SetupTechnique: { tag: '(300A,01B0)', keyword: 'SetupTechnique', vr: 'CS', vm: [1, 1] },
+    SetupTechniqueDescription: { tag: '(300A,01B2)', keyword: 'SetupTechniqueDescription', vr: 'ST', vm: [1, 1] },
+    SetupDeviceSequence: { tag: '(300A,01B4)', keyword: 'SetupDeviceSequence', vr: 'SQ', vm: [1, 1] },
+    SetupDeviceType: { tag: '(300A,01B6)', keyword: 'SetupDeviceType', vr: 'CS', vm: [1, 1] },
+    SetupDeviceLabel: { tag: '(300A,01B8)', keyword: 'SetupDeviceLabel', vr: 'SH', vm: [1, 1] },
+    SetupDeviceDescription: { tag: '(300A,01BA)', keyword: 'SetupDeviceDescription', vr: 'ST', vm: [1, 1] },
+    SetupDeviceParameter: { tag: '(300A,01BC)', keyword: 'SetupDeviceParameter', vr: 'DS', vm: [1, 1] },
+    SetupReferenceDescription: { tag: '(300A,01D0)', keyword: 'SetupReferenceDescription', vr: 'ST', vm: [1, 1] },
+    TableTopVerticalSetupDisplacement: { tag: '(300A,01D2)', keyword: 'TableTopVerticalSetupDisplacement', vr: 'DS', vm: [1, 1] },
+    TableTopLongitudinalSetupDisplacement: { tag: '(300A,01D4)', keyword: 'TableTopLongitudinalSetupDisplacement', vr: 'DS', vm: [1, 1] },
+    TableTopLateralSetupDisplacement: { tag: '(300A,01D6)', keyword: 'TableTopLateralSetupDisplacement', vr: 'DS', vm: [1, 1] },
+    BrachyTreatmentTechnique: { tag: '(300A,0200)', keyword: 'BrachyTreatmentTechnique', vr: 'CS', vm: [1, 1] },
+    BrachyTreatmentType: { tag: '(300A,0202)', keyword: 'BrachyTreatmentType', vr: 'CS', vm: [1, 1] },
+    TreatmentMachineSequence: { tag: '(300A,0206)', keyword: 'TreatmentMachineSequence', vr: 'SQ', vm: [1, 1] },
+    SourceSequence: { tag: '(300A,0210)', keyword: 'SourceSequence', vr: 'SQ', vm: [1, 1] },
+    SourceNumber: { tag: '(300A,0212)', keyword: 'SourceNumber', vr: 'IS', vm: [1, 1] },
+    SourceType: { tag: '(300A,0214)', keyword: 'SourceType', vr: 'CS', vm: [1, 1] },
+    SourceManufacturer: { tag: '(300A,0216)', keyword: 'SourceManufacturer', vr: 'LO', vm: [1, 1] },
+    ActiveSourceDiameter: { tag: '(300A,0218)', keyword: 'ActiveSourceDiameter', vr: 'DS', vm: [1, 1] },
+    ActiveSourceLength: { tag: '(300A,021A)', keyword: 'ActiveSourceLength', vr: 'DS', vm: [1, 1] },
+    SourceModelID: { tag: '(300A,021B)', keyword: 'SourceModelID', vr: 'SH', vm: [1, 1] },
+    SourceDescription: { tag: '(300A,021C)', keyword: 'SourceDescription', vr: 'LO', vm: [1, 1] },
+    SourceEncapsulationNominalThickness: { tag: '(300A,0222)', keyword: 'SourceEncapsulationNominalThickness', vr: 'DS', vm: [1, 1] },
+    SourceEncapsulationNominalTransmission: { tag: '(300A,0224)', keyword: 'SourceEncapsulationNominalTransmission', vr: 'DS', vm: [1, 1] },
+    SourceIsotopeName: { tag: '(300A,0226)', keyword: 'SourceIsotopeName', vr: 'LO', vm: [1, 1] },
+    SourceIsotopeHalfLife: { tag: '(300A,0228)', keyword: 'SourceIsotopeHalfLife', vr: 'DS', vm: [1, 1] },
+    SourceStrengthUnits: { tag: '(300A,0229)', keyword: 'SourceStrengthUnits', vr: 'CS', vm: [1, 1] },
+    ReferenceAirKermaRate: { tag: '(300A,022A)', keyword: 'ReferenceAirKermaRate', vr: 'DS', vm: [1, 1] },
+    SourceStrength: { tag: '(300A,022B)', keyword: 'SourceStrength', vr: 'DS', vm: [1, 1] },
+    SourceStrengthReferenceDate: { tag: '(300A,022C)', keyword: 'SourceStrengthReferenceDate', vr: 'DA', vm: [1, 1] },
+    SourceStrengthReferenceTime: { tag: '(300A,022E)', keyword: 'SourceStrengthReferenceTime', vr: 'TM', vm: [1, 1] },
+    ApplicationSetupSequence: { tag: '(300A,0230)', keyword: 'ApplicationSetupSequence', vr: 'SQ', vm: [1, 1] },
+    ApplicationSetupType: { tag: '(300A,0232)', keyword: 'ApplicationSetupType', vr: 'CS', vm: [1, 1] },
+    ApplicationSetupNumber: { tag: '(300A,0234)', keyword: 'ApplicationSetupNumber', vr: 'IS', vm: [1, 1] },
+    ApplicationSetupName: { tag: '(300A,0236)', keyword: 'ApplicationSetupName', vr: 'LO', vm: [1, 1] },
+    ApplicationSetupManufacturer: { tag: '(300A,0238)', keyword: 'ApplicationSetupManufacturer', vr: 'LO', vm: [1, 1] },
+    TemplateNumber: { tag: '(300A,0240)', keyword: 'TemplateNumber', vr: 'IS', vm: [1, 1] },
+    TemplateType: { tag: '(300A,0242)', keyword: 'TemplateType', vr: 'SH', vm: [1, 1] },
+    TemplateName: { tag: '(300A,0244)', keyword: 'TemplateName', vr: 'LO', vm: [1, 1] },
+    TotalReferenceAirKerma: { tag: '(300A,0250)', keyword: 'TotalReferenceAirKerma', vr: 'DS', vm: [1, 1] },
+    BrachyAccessoryDeviceSequence: { tag: '(300A,0260)', keyword: 'BrachyAccessoryDeviceSequence', vr: 'SQ', vm: [1, 1] },
+    BrachyAccessoryDeviceNumber: { tag: '(300A,0262)', keyword: 'BrachyAccessoryDeviceNumber', vr: 'IS', vm: [1, 1] },
+    BrachyAccessoryDeviceID: { tag: '(300A,0263)', keyword: 'BrachyAccessoryDeviceID', vr: 'SH', vm: [1, 1] },
+    BrachyAccessoryDeviceType: { tag: '(300A,0264)', keyword: 'BrachyAccessoryDeviceType', vr: 'CS', vm: [1, 1] },
+    BrachyAccessoryDeviceName: { tag: '(300A,0266)', keyword: 'BrachyAccessoryDeviceName', vr: 'LO', vm: [1, 1] },
+    BrachyAccessoryDeviceNominalThickness: { tag: '(300A,026A)', keyword: 'BrachyAccessoryDeviceNominalThickness', vr: 'DS', vm: [1, 1] },
+    BrachyAccessoryDeviceNominalTransmission: { tag: '(300A,026C)', keyword: 'BrachyAccessoryDeviceNominalTransmission', vr: 'DS', vm: [1, 1] },
+    ChannelEffectiveLength: { tag: '(300A,0271)', keyword: 'ChannelEffectiveLength', vr: 'DS', vm: [1, 1] },
+    ChannelInnerLength: { tag: '(300A,0272)', keyword: 'ChannelInnerLength', vr: 'DS', vm: [1, 1] },
+    AfterloaderChannelID: { tag: '(300A,0273)', keyword: 'AfterloaderChannelID', vr: 'SH', vm: [1, 1] },
+    SourceApplicatorTipLength: { tag: '(300A,0274)', keyword: 'SourceApplicatorTipLength', vr: 'DS', vm: [1, 1] },
+    ChannelSequence: { tag: '(300A,0280)', keyword: 'ChannelSequence', vr: 'SQ', vm: [1, 1] },
+    ChannelNumber: { tag: '(300A,0282)', keyword: 'ChannelNumber', vr: 'IS', vm: [1, 1] },
+    ChannelLength: { tag: '(300A,0284)', keyword: 'ChannelLength', vr: 'DS', vm: [1, 1] },
+    ChannelTotalTime: { tag: '(300A,0286)', keyword: 'ChannelTotalTime', vr: 'DS', vm: [1, 1] },
+    SourceMovementType: { tag: '(300A,0288)', keyword: 'SourceMovementType', vr: 'CS', vm: [1, 1] },
+    NumberOfPulses: { tag: '(300A,028A)', keyword: 'NumberOfPulses', vr: 'IS', vm: [1, 1] },
+    PulseRepetitionInterval: { tag: '(300A,028C)', keyword: 'PulseRepetitionInterval', vr: 'DS', vm: [1, 1] },
+    SourceApplicatorNumber: { tag: '(300A,0290)', keyword: 'SourceApplicatorNumber', vr: 'IS', vm: [1, 1] },
+    SourceApplicatorID: { tag: '(300A,0291)', keyword: 'SourceApplicatorID', vr: 'SH', vm: [1, 1] },
+    SourceApplicatorType: { tag: '(300A,0292)', keyword: 'SourceApplicatorType', vr: 'CS', vm: [1, 1] },
+    SourceApplicatorName: { tag: '(300A,0294)', keyword: 'SourceApplicatorName', vr: 'LO', vm: [1, 1] },
+    SourceApplicatorLength: { tag: '(300A,0296)', keyword: 'SourceApplicatorLength', vr: 'DS', vm: [1, 1] },
+    SourceApplicatorManufacturer: { tag: '(300A,0298)', keyword: 'SourceApplicatorManufacturer', vr: 'LO', vm: [1, 1] },
+    SourceApplicatorWallNominalThickness: { tag: '(300A,029C)', keyword: 'SourceApplicatorWallNominalThickness', vr: 'DS', vm: [1, 1] },
+    SourceApplicatorWallNominalTransmission: { tag: '(300A,029E)', keyword: 'SourceApplicatorWallNominalTransmission', vr: 'DS', vm: [1, 1] },
+    SourceApplicatorStepSize: { tag: '(300A,02A0)', keyword: 'SourceApplicatorStepSize', vr: 'DS', vm: [1, 1] },
+    TransferTubeNumber: { tag: '(300A,02A2)', keyword: 'TransferTubeNumber', vr: 'IS', vm: [1, 1] },
+    TransferTubeLength: { tag: '(300A,02A4)', keyword: 'TransferTubeLength', vr: 'DS', vm: [1, 1] },
+    ChannelShieldSequence: { tag: '(300A,02B0)', keyword: 'ChannelShieldSequence', vr: 'SQ', vm: [1, 1] },
+    ChannelShieldNumber: { tag: '(300A,02B2)', keyword: 'ChannelShieldNumber', vr: 'IS', vm: [1, 1] },
+    ChannelShieldID: { tag: '(300A,02B3)', keyword: 'ChannelShieldID', vr: 'SH', vm: [1, 1] },
+    ChannelShieldName: { tag: '(300A,02B4)', keyword: 'ChannelShieldName', vr: 'LO', vm: [1, 1] },
+    ChannelShieldNominalThickness: { tag: '(300A,02B8)', keyword: 'ChannelShieldNominalThickness', vr: 'DS', vm: [1, 1] },
+    ChannelShieldNominalTransmission: { tag: '(300A,02BA)', keyword: 'ChannelShieldNominalTransmission', vr: 'DS', vm: [1, 1] },
+    FinalCumulativeTimeWeight: { tag: '(300A,02C8)', keyword: 'FinalCumulativeTimeWeight', vr: 'DS', vm: [1, 1] },
+    BrachyControlPointSequence: { tag: '(300A,02D0)', keyword: 'BrachyControlPointSequence', vr: 'SQ', vm: [1, 1] },
+    ControlPointRelativePosition: { tag: '(300A,02D2)', keyword: 'ControlPointRelativePosition', vr: 'DS', vm: [1, 1] },
+    ControlPoint3DPosition: { tag: '(300A,02D4)', keyword: 'ControlPoint3DPosition', vr: 'DS', vm: [3, 3] },
+    CumulativeTimeWeight: { tag: '(300A,02D6)', keyword: 'CumulativeTimeWeight', vr: 'DS', vm: [1, 1] },
+    CompensatorDivergence: { tag: '(300A,02E0)', keyword: 'CompensatorDivergence', vr: 'CS', vm: [1, 1] },
+    CompensatorMountingPosition: { tag: '(300A,02E1)', keyword: 'CompensatorMountingPosition', vr: 'CS', vm: [1, 1] },
+    SourceToCompensatorDistance: { tag: '(300A,02E2)', keyword: 'SourceToCompensatorDistance', vr: 'DS', vm: [1, null] },
+    TotalCompensatorTrayWaterEquivalentThickness: { tag: '(300A,02E3)', keyword: 'TotalCompensatorTrayWaterEquivalentThickness', vr: 'FL', vm: [1, 1] },
+    IsocenterToCompensatorTrayDistance: { tag: '(300A,02E4)', keyword: 'IsocenterToCompensatorTrayDistance', vr: 'FL', vm: [1, 1] },
+    CompensatorColumnOffset: { tag: '(300A,02E5)', keyword: 'CompensatorColumnOffset', vr: 'FL', vm: [1, 1] },
+    IsocenterToCompensatorDistances: { tag: '(300A,02E6)', keyword: 'IsocenterToCompensatorDistances', vr: 'FL', vm: [1, null] },
+    CompensatorRelativeStoppingPowerRatio: { tag: '(300A,02E7)', keyword: 'CompensatorRelativeStoppingPowerRatio', vr: 'FL', vm: [1, 1] },
+    CompensatorMillingToolDiameter: { tag: '(300A,02E8)', keyword: 'CompensatorMillingToolDiameter', vr: 'FL', vm: [1, 1] },
+    IonRangeCompensatorSequence: { tag: '(300A,02EA)', keyword: 'IonRangeCompensatorSequence', vr: 'SQ', vm: [1, 1] },
+    CompensatorDescription: { tag: '(300A,02EB)', keyword: 'CompensatorDescription', vr: 'LT', vm: [1, 1] },
+    RadiationMassNumber: { tag: '(300A,0302)', keyword: 'RadiationMassNumber', vr: 'IS', vm: [1, 1] },
+    RadiationAtomicNumber: { tag: '(300A,0304)', keyword: 'RadiationAtomicNumber', vr: 'IS', vm: [1, 1] },
+    RadiationChargeState: { tag: '(300A,0306)', keyword: 'RadiationChargeState', vr: 'SS', vm: [1, 1] },
+    ScanMode: { tag: '(300A,0308)', keyword: 'ScanMode', vr: 'CS', vm: [1, 1] },
+    ModulatedScanModeType: { tag: '(300A,0309)', keyword: 'ModulatedScanModeType', vr: 'CS', vm: [1, 1] },
+    VirtualSourceAxisDistances: { tag: '(300A,030A)', keyword: 'VirtualSourceAxisDistances', vr: 'FL', vm: [2, 2] },
+    SnoutSequence: { tag: '(300A,030C)', keyword: 'SnoutSequence', vr: 'SQ', vm: [1, 1] },
+    SnoutPosition: { tag: '(300A,030D)', keyword: 'SnoutPosition', vr: 'FL', vm: [1, 1] },
+    SnoutID: { tag: '(300A,030F)', keyword: 'SnoutID', vr: 'SH', vm: [1, 1] },
+    NumberOfRangeShifters: { tag: '(300A,0312)', keyword: 'NumberOfRangeShifters', vr: 'IS', vm: [1, 1] },
+    RangeShifterSequence: { tag: '(300A,0314)', keyword: 'RangeShifterSequence', vr: 'SQ', vm: [1, 1] },
+    RangeShifterNumber: { tag: '(300A,0316)', keyword: 'RangeShifterNumber', vr: 'IS', vm: [1, 1] },
+    RangeShifterID: { tag: '(300A,0318)', keyword: 'RangeShifterID', vr: 'SH', vm: [1, 1] },
+    RangeShifterType: { tag: '(300A,0320)', keyword: 'RangeShifterType', vr: 'CS', vm: [1, 1] },
+    RangeShifterDescription: { tag: '(300A,0322)', keyword: 'RangeShifterDescription', vr: 'LO', vm: [1, 1] },
+    NumberOfLateralSpreadingDevices: { tag: '(300A,0330)', keyword: 'NumberOfLateralSpreadingDevices', vr: 'IS', vm: [1, 1] },
+    LateralSpreadingDeviceSequence: { tag: '(300A,0332)', keyword: 'LateralSpreadingDeviceSequence', vr: 'SQ', vm: [1, 1] },
+    LateralSpreadingDeviceNumber: { tag: '(300A,0334)', keyword: 'LateralSpreadingDeviceNumber', vr: 'IS', vm: [1, 1] },
+    LateralSpreadingDeviceID: { tag: '(300A,0336)', keyword: 'LateralSpreadingDeviceID', vr: 'SH', vm: [1, 1] },
+    LateralSpreadingDeviceType: { tag: '(300A,0338)', keyword: 'LateralSpreadingDeviceType', vr: 'CS', vm: [1, 1] },
+    LateralSpreadingDeviceDescription: { tag: '(300A,033A)', keyword: 'LateralSpreadingDeviceDescription', vr: 'LO', vm: [1, 1] },
+    LateralSpreadingDeviceWaterEquivalentThickness: { tag: '(300A,033C)', keyword: 'LateralSpreadingDeviceWaterEquivalentThickness', vr: 'FL', vm: [1, 1] },
+    NumberOfRangeModulators: { tag: '(300A,0340)', keyword: 'NumberOfRangeModulators', vr: 'IS', vm: [1, 1] },
+    RangeModulatorSequence: { tag: '(300A,0342)', keyword: 'RangeModulatorSequence', vr: 'SQ', vm: [1, 1] },
+    RangeModulatorNumber: { tag: '(300A,0344)', keyword: 'RangeModulatorNumber', vr: 'IS', vm: [1, 1] },
+    RangeModulatorID: { tag: '(300A,0346)', keyword: 'RangeModulatorID', vr: 'SH', vm: [1, 1] },
+    RangeModulatorType: { tag: '(300A,0348)', keyword: 'RangeModulatorType', vr: 'CS', vm: [1, 1] },
+    RangeModulatorDescription: { tag: '(300A,034A)', keyword: 'RangeModulatorDescription', vr: 'LO', vm: [1, 1] },
+    BeamCurrentModulationID: { tag: '(300A,034C)', keyword: 'BeamCurrentModulationID', vr: 'SH', vm: [1, 1] },
+    PatientSupportType: { tag: '(300A,0350)', keyword: 'PatientSupportType', vr: 'CS', vm: [1, 1] },
+    PatientSupportID: { tag: '(300A,0352)', keyword: 'PatientSupportID', vr: 'SH', vm: [1, 1] },
+    PatientSupportAccessoryCode: { tag: '(300A,0354)', keyword: 'PatientSupportAccessoryCode', vr: 'LO', vm: [1, 1] },
+    TrayAccessoryCode: { tag: '(300A,0355)', keyword: 'TrayAccessoryCode', vr: 'LO', vm: [1, 1] },
+    FixationLightAzimuthalAngle: { tag: '(300A,0356)', keyword: 'FixationLightAzimuthalAngle', vr: 'FL', vm: [1, 1] },
+    FixationLightPolarAngle: { tag: '(300A,0358)', keyword: 'FixationLightPolarAngle', vr: 'FL', vm: [1, 1] },
+    MetersetRate: { tag: '(300A,035A)', keyword: 'MetersetRate', vr: 'FL', vm: [1, 1] },
+    RangeShifterSettingsSequence: { tag: '(300A,0360)', keyword: 'RangeShifterSettingsSequence', vr: 'SQ', vm: [1, 1] },
+    RangeShifterSetting: { tag: '(300A,0362)', keyword: 'RangeShifterSetting', vr: 'LO', vm: [1, 1] },
+    IsocenterToRangeShifterDistance: { tag: '(300A,0364)', keyword: 'IsocenterToRangeShifterDistance', vr: 'FL', vm: [1, 1] },
+    RangeShifterWaterEquivalentThickness: { tag: '(300A,0366)', keyword: 'RangeShifterWaterEquivalentThickness', vr: 'FL', vm: [1, 1] },
+    LateralSpreadingDeviceSettingsSequence: { tag: '(300A,0370)', keyword: 'LateralSpreadingDeviceSettingsSequence', vr: 'SQ', vm: [1, 1] },
+    LateralSpreadingDeviceSetting: { tag: '(300A,0372)', keyword: 'LateralSpreadingDeviceSetting', vr: 'LO', vm: [1, 1] },
+    IsocenterToLateralSpreadingDeviceDistance: { tag: '(300A,0374)', keyword: 'IsocenterToLateralSpreadingDeviceDistance', vr: 'FL', vm: [1, 1] },
+    RangeModulatorSettingsSequence: { tag: '(300A,0380)', keyword: 'RangeModulatorSettingsSequence', vr: 'SQ', vm: [1, 1] },
+    RangeModulatorGatingStartValue: { tag: '(300A,0382)', keyword: 'RangeModulatorGatingStartValue', vr: 'FL', vm: [1, 1] },
+    RangeModulatorGatingStopValue: { tag: '(300A,0384)', keyword: 'RangeModulatorGatingStopValue', vr: 'FL', vm: [1, 1] },
+    RangeModulatorGatingStartWaterEquivalentThickness: {
+        tag: '(300A,0386)',
+        keyword: 'RangeModulatorGatingStartWaterEquivalentThickness',
+        vr: 'FL',
+        vm: [1, 1],
+    },
+    RangeModulatorGatingStopWaterEquivalentThickness: { tag: '(300A,0388)', keyword: 'RangeModulatorGatingStopWaterEquivalentThickness', vr: 'FL', vm: [1, 1] },
+    IsocenterToRangeModulatorDistance: { tag: '(300A,038A)', keyword: 'IsocenterToRangeModulatorDistance', vr: 'FL', vm: [1, 1] },
+    ScanSpotTimeOffset: { tag: '(300A,038F)', keyword: 'ScanSpotTimeOffset', vr: 'FL', vm: [1, null] },
+    ScanSpotTuneID: { tag: '(300A,0390)', keyword: 'ScanSpotTuneID', vr: 'SH', vm: [1, 1] },
+    ScanSpotPrescribedIndices: { tag: '(300A,0391)', keyword: 'ScanSpotPrescribedIndices', vr: 'IS', vm: [1, null] },
+    NumberOfScanSpotPositions: { tag: '(300A,0392)', keyword: 'NumberOfScanSpotPositions', vr: 'IS', vm: [1, 1] },
+    ScanSpotReordered: { tag: '(300A,0393)', keyword: 'ScanSpotReordered', vr: 'CS', vm: [1, 1] },
+    ScanSpotPositionMap: { tag: '(300A,0394)', keyword: 'ScanSpotPositionMap', vr: 'FL', vm: [1, null] },
+    ScanSpotReorderingAllowed: { tag: '(300A,0395)', keyword: 'ScanSpotReorderingAllowed', vr: 'CS', vm: [1, 1] },
+    ScanSpotMetersetWeights: { tag: '(300A,0396)', keyword: 'ScanSpotMetersetWeights', vr: 'FL', vm: [1, null] },
+    ScanningSpotSize: { tag: '(300A,0398)', keyword: 'ScanningSpotSize', vr: 'FL', vm: [2, 2] },
+    ScanSpotSizesDelivered: { tag: '(300A,0399)', keyword: 'ScanSpotSizesDelivered', vr: 'FL', vm: [2, 2] },
+    NumberOfPaintings: { tag: '(300A,039A)', keyword: 'NumberOfPaintings', vr: 'IS', vm: [1, 1] },
+    IonToleranceTableSequence: { tag: '(300A,03A0)', keyword: 'IonToleranceTableSequence', vr: 'SQ', vm: [1, 1] },
+    IonBeamSequence: { tag: '(300A,03A2)', keyword: 'IonBeamSequence', vr: 'SQ', vm: [1, 1] },
+    IonBeamLimitingDeviceSequence: { tag: '(300A,03A4)', keyword: 'IonBeamLimitingDeviceSequence', vr: 'SQ', vm: [1, 1] },
+    IonBlockSequence: { tag: '(300A,03A6)', keyword: 'IonBlockSequence', vr: 'SQ', vm: [1, 1] },
+    IonControlPointSequence: { tag: '(300A,03A8)', keyword: 'IonControlPointSequence', vr: 'SQ', vm: [1, 1] },
+    IonWedgeSequence: { tag: '(300A,03AA)', keyword: 'IonWedgeSequence', vr: 'SQ', vm: [1, 1] },
+    IonWedgePositionSequence: { tag: '(300A,03AC)', keyword: 'IonWedgePositionSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedSetupImageSequence: { tag: '(300A,0401)', keyword: 'ReferencedSetupImageSequence', vr: 'SQ', vm: [1, 1] },
+    SetupImageComment: { tag: '(300A,0402)', keyword: 'SetupImageComment', vr: 'ST', vm: [1, 1] },
+    MotionSynchronizationSequence: { tag: '(300A,0410)', keyword: 'MotionSynchronizationSequence', vr: 'SQ', vm: [1, 1] },
+    ControlPointOrientation: { tag: '(300A,0412)', keyword: 'ControlPointOrientation', vr: 'FL', vm: [3, 3] },
+    GeneralAccessorySequence: { tag: '(300A,0420)', keyword: 'GeneralAccessorySequence', vr: 'SQ', vm: [1, 1] },
+    GeneralAccessoryID: { tag: '(300A,0421)', keyword: 'GeneralAccessoryID', vr: 'SH', vm: [1, 1] },
+    GeneralAccessoryDescription: { tag: '(300A,0422)', keyword: 'GeneralAccessoryDescription', vr: 'ST', vm: [1, 1] },
+    GeneralAccessoryType: { tag: '(300A,0423)', keyword: 'GeneralAccessoryType', vr: 'CS', vm: [1, 1] },
+    GeneralAccessoryNumber: { tag: '(300A,0424)', keyword: 'GeneralAccessoryNumber', vr: 'IS', vm: [1, 1] },
+    SourceToGeneralAccessoryDistance: { tag: '(300A,0425)', keyword: 'SourceToGeneralAccessoryDistance', vr: 'FL', vm: [1, 1] },
+    IsocenterToGeneralAccessoryDistance: { tag: '(300A,0426)', keyword: 'IsocenterToGeneralAccessoryDistance', vr: 'DS', vm: [1, 1] },
+    ApplicatorGeometrySequence: { tag: '(300A,0431)', keyword: 'ApplicatorGeometrySequence', vr: 'SQ', vm: [1, 1] },
+    ApplicatorApertureShape: { tag: '(300A,0432)', keyword: 'ApplicatorApertureShape', vr: 'CS', vm: [1, 1] },
+    ApplicatorOpening: { tag: '(300A,0433)', keyword: 'ApplicatorOpening', vr: 'FL', vm: [1, 1] },
+    ApplicatorOpeningX: { tag: '(300A,0434)', keyword: 'ApplicatorOpeningX', vr: 'FL', vm: [1, 1] },
+    ApplicatorOpeningY: { tag: '(300A,0435)', keyword: 'ApplicatorOpeningY', vr: 'FL', vm: [1, 1] },
+    SourceToApplicatorMountingPositionDistance: { tag: '(300A,0436)', keyword: 'SourceToApplicatorMountingPositionDistance', vr: 'FL', vm: [1, 1] },
+    NumberOfBlockSlabItems: { tag: '(300A,0440)', keyword: 'NumberOfBlockSlabItems', vr: 'IS', vm: [1, 1] },
+    BlockSlabSequence: { tag: '(300A,0441)', keyword: 'BlockSlabSequence', vr: 'SQ', vm: [1, 1] },
+    BlockSlabThickness: { tag: '(300A,0442)', keyword: 'BlockSlabThickness', vr: 'DS', vm: [1, 1] },
+    BlockSlabNumber: { tag: '(300A,0443)', keyword: 'BlockSlabNumber', vr: 'US', vm: [1, 1] },
+    DeviceMotionControlSequence: { tag: '(300A,0450)', keyword: 'DeviceMotionControlSequence', vr: 'SQ', vm: [1, 1] },
+    DeviceMotionExecutionMode: { tag: '(300A,0451)', keyword: 'DeviceMotionExecutionMode', vr: 'CS', vm: [1, 1] },
+    DeviceMotionObservationMode: { tag: '(300A,0452)', keyword: 'DeviceMotionObservationMode', vr: 'CS', vm: [1, 1] },
+    DeviceMotionParameterCodeSequence: { tag: '(300A,0453)', keyword: 'DeviceMotionParameterCodeSequence', vr: 'SQ', vm: [1, 1] },
+    DistalDepthFraction: { tag: '(300A,0501)', keyword: 'DistalDepthFraction', vr: 'FL', vm: [1, 1] },
+    DistalDepth: { tag: '(300A,0502)', keyword: 'DistalDepth', vr: 'FL', vm: [1, 1] },
+    NominalRangeModulationFractions: { tag: '(300A,0503)', keyword: 'NominalRangeModulationFractions', vr: 'FL', vm: [2, 2] },
+    NominalRangeModulatedRegionDepths: { tag: '(300A,0504)', keyword: 'NominalRangeModulatedRegionDepths', vr: 'FL', vm: [2, 2] },
+    DepthDoseParametersSequence: { tag: '(300A,0505)', keyword: 'DepthDoseParametersSequence', vr: 'SQ', vm: [1, 1] },
+    DeliveredDepthDoseParametersSequence: { tag: '(300A,0506)', keyword: 'DeliveredDepthDoseParametersSequence', vr: 'SQ', vm: [1, 1] },
+    DeliveredDistalDepthFraction: { tag: '(300A,0507)', keyword: 'DeliveredDistalDepthFraction', vr: 'FL', vm: [1, 1] },
+    DeliveredDistalDepth: { tag: '(300A,0508)', keyword: 'DeliveredDistalDepth', vr: 'FL', vm: [1, 1] },
+    DeliveredNominalRangeModulationFractions: { tag: '(300A,0509)', keyword: 'DeliveredNominalRangeModulationFractions', vr: 'FL', vm: [2, 2] },
+    DeliveredNominalRangeModulatedRegionDepths: { tag: '(300A,0510)', keyword: 'DeliveredNominalRangeModulatedRegionDepths', vr: 'FL', vm: [2, 2] },
+    DeliveredReferenceDoseDefinition: { tag: '(300A,0511)', keyword: 'DeliveredReferenceDoseDefinition', vr: 'CS', vm: [1, 1] },
+    ReferenceDoseDefinition: { tag: '(300A,0512)', keyword: 'ReferenceDoseDefinition', vr: 'CS', vm: [1, 1] },
+    RTControlPointIndex: { tag: '(300A,0600)', keyword: 'RTControlPointIndex', vr: 'US', vm: [1, 1] },
+    RadiationGenerationModeIndex: { tag: '(300A,0601)', keyword: 'RadiationGenerationModeIndex', vr: 'US', vm: [1, 1] },
+    ReferencedDefinedDeviceIndex: { tag: '(300A,0602)', keyword: 'ReferencedDefinedDeviceIndex', vr: 'US', vm: [1, 1] },
+    RadiationDoseIdentificationIndex: { tag: '(300A,0603)', keyword: 'RadiationDoseIdentificationIndex', vr: 'US', vm: [1, 1] },
+    NumberOfRTControlPoints: { tag: '(300A,0604)', keyword: 'NumberOfRTControlPoints', vr: 'US', vm: [1, 1] },
+    ReferencedRadiationGenerationModeIndex: { tag: '(300A,0605)', keyword: 'ReferencedRadiationGenerationModeIndex', vr: 'US', vm: [1, 1] },
+    TreatmentPositionIndex: { tag: '(300A,0606)', keyword: 'TreatmentPositionIndex', vr: 'US', vm: [1, 1] },
+    ReferencedDeviceIndex: { tag: '(300A,0607)', keyword: 'ReferencedDeviceIndex', vr: 'US', vm: [1, 1] },
+    TreatmentPositionGroupLabel: { tag: '(300A,0608)', keyword: 'TreatmentPositionGroupLabel', vr: 'LO', vm: [1, 1] },
+    TreatmentPositionGroupUID: { tag: '(300A,0609)', keyword: 'TreatmentPositionGroupUID', vr: 'UI', vm: [1, 1] },
+    TreatmentPositionGroupSequence: { tag: '(300A,060A)', keyword: 'TreatmentPositionGroupSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedTreatmentPositionIndex: { tag: '(300A,060B)', keyword: 'ReferencedTreatmentPositionIndex', vr: 'US', vm: [1, 1] },
+    ReferencedRadiationDoseIdentificationIndex: { tag: '(300A,060C)', keyword: 'ReferencedRadiationDoseIdentificationIndex', vr: 'US', vm: [1, 1] },
+    RTAccessoryHolderWaterEquivalentThickness: { tag: '(300A,060D)', keyword: 'RTAccessoryHolderWaterEquivalentThickness', vr: 'FD', vm: [1, 1] },
+    ReferencedRTAccessoryHolderDeviceIndex: { tag: '(300A,060E)', keyword: 'ReferencedRTAccessoryHolderDeviceIndex', vr: 'US', vm: [1, 1] },
+    RTAccessoryHolderSlotExistenceFlag: { tag: '(300A,060F)', keyword: 'RTAccessoryHolderSlotExistenceFlag', vr: 'CS', vm: [1, 1] },
+    RTAccessoryHolderSlotSequence: { tag: '(300A,0610)', keyword: 'RTAccessoryHolderSlotSequence', vr: 'SQ', vm: [1, 1] },
+    RTAccessoryHolderSlotID: { tag: '(300A,0611)', keyword: 'RTAccessoryHolderSlotID', vr: 'LO', vm: [1, 1] },
+    RTAccessoryHolderSlotDistance: { tag: '(300A,0612)', keyword: 'RTAccessoryHolderSlotDistance', vr: 'FD', vm: [1, 1] },
+    RTAccessorySlotDistance: { tag: '(300A,0613)', keyword: 'RTAccessorySlotDistance', vr: 'FD', vm: [1, 1] },
+    RTAccessoryHolderDefinitionSequence: { tag: '(300A,0614)', keyword: 'RTAccessoryHolderDefinitionSequence', vr: 'SQ', vm: [1, 1] },
+    RTAccessoryDeviceSlotID: { tag: '(300A,0615)', keyword: 'RTAccessoryDeviceSlotID', vr: 'LO', vm: [1, 1] },
+    RTRadiationSequence: { tag: '(300A,0616)', keyword: 'RTRadiationSequence', vr: 'SQ', vm: [1, 1] },
+    RadiationDoseSequence: { tag: '(300A,0617)', keyword: 'RadiationDoseSequence', vr: 'SQ', vm: [1, 1] },
+    RadiationDoseIdentificationSequence: { tag: '(300A,0618)', keyword: 'RadiationDoseIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    RadiationDoseIdentificationLabel: { tag: '(300A,0619)', keyword: 'RadiationDoseIdentificationLabel', vr: 'LO', vm: [1, 1] },
+    ReferenceDoseType: { tag: '(300A,061A)', keyword: 'ReferenceDoseType', vr: 'CS', vm: [1, 1] },
+    PrimaryDoseValueIndicator: { tag: '(300A,061B)', keyword: 'PrimaryDoseValueIndicator', vr: 'CS', vm: [1, 1] },
+    DoseValuesSequence: { tag: '(300A,061C)', keyword: 'DoseValuesSequence', vr: 'SQ', vm: [1, 1] },
+    DoseValuePurpose: { tag: '(300A,061D)', keyword: 'DoseValuePurpose', vr: 'CS', vm: [1, null] },
+    ReferenceDosePointCoordinates: { tag: '(300A,061E)', keyword: 'ReferenceDosePointCoordinates', vr: 'FD', vm: [3, 3] },
+    RadiationDoseValuesParametersSequence: { tag: '(300A,061F)', keyword: 'RadiationDoseValuesParametersSequence', vr: 'SQ', vm: [1, 1] },
+    MetersetToDoseMappingSequence: { tag: '(300A,0620)', keyword: 'MetersetToDoseMappingSequence', vr: 'SQ', vm: [1, 1] },
+    ExpectedInVivoMeasurementValuesSequence: { tag: '(300A,0621)', keyword: 'ExpectedInVivoMeasurementValuesSequence', vr: 'SQ', vm: [1, 1] },
+    ExpectedInVivoMeasurementValueIndex: { tag: '(300A,0622)', keyword: 'ExpectedInVivoMeasurementValueIndex', vr: 'US', vm: [1, 1] },
+    RadiationDoseInVivoMeasurementLabel: { tag: '(300A,0623)', keyword: 'RadiationDoseInVivoMeasurementLabel', vr: 'LO', vm: [1, 1] },
+    RadiationDoseCentralAxisDisplacement: { tag: '(300A,0624)', keyword: 'RadiationDoseCentralAxisDisplacement', vr: 'FD', vm: [2, 2] },
+    RadiationDoseValue: { tag: '(300A,0625)', keyword: 'RadiationDoseValue', vr: 'FD', vm: [1, 1] },
+    RadiationDoseSourceToSkinDistance: { tag: '(300A,0626)', keyword: 'RadiationDoseSourceToSkinDistance', vr: 'FD', vm: [1, 1] },
+    RadiationDoseMeasurementPointCoordinates: { tag: '(300A,0627)', keyword: 'RadiationDoseMeasurementPointCoordinates', vr: 'FD', vm: [3, 3] },
+    RadiationDoseSourceToExternalContourDistance: { tag: '(300A,0628)', keyword: 'RadiationDoseSourceToExternalContourDistance', vr: 'FD', vm: [1, 1] },
+    RTToleranceSetSequence: { tag: '(300A,0629)', keyword: 'RTToleranceSetSequence', vr: 'SQ', vm: [1, 1] },
+    RTToleranceSetLabel: { tag: '(300A,062A)', keyword: 'RTToleranceSetLabel', vr: 'LO', vm: [1, 1] },
+    AttributeToleranceValuesSequence: { tag: '(300A,062B)', keyword: 'AttributeToleranceValuesSequence', vr: 'SQ', vm: [1, 1] },
+    ToleranceValue: { tag: '(300A,062C)', keyword: 'ToleranceValue', vr: 'FD', vm: [1, 1] },
+    PatientSupportPositionToleranceSequence: { tag: '(300A,062D)', keyword: 'PatientSupportPositionToleranceSequence', vr: 'SQ', vm: [1, 1] },
+    TreatmentTimeLimit: { tag: '(300A,062E)', keyword: 'TreatmentTimeLimit', vr: 'FD', vm: [1, 1] },
+    CArmPhotonElectronControlPointSequence: { tag: '(300A,062F)', keyword: 'CArmPhotonElectronControlPointSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedRTRadiationSequence: { tag: '(300A,0630)', keyword: 'ReferencedRTRadiationSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedRTInstanceSequence: { tag: '(300A,0631)', keyword: 'ReferencedRTInstanceSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedRTPatientSetupSequence: { tag: '(300A,0632)', keyword: 'ReferencedRTPatientSetupSequence', vr: 'SQ', vm: [1, 1] },
+    SourceToPatientSurfaceDistance: { tag: '(300A,0634)', keyword: 'SourceToPatientSurfaceDistance', vr: 'FD', vm: [1, 1] },
+    TreatmentMachineSpecialModeCodeSequence: { tag: '(300A,0635)', keyword: 'TreatmentMachineSpecialModeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    IntendedNumberOfFractions: { tag: '(300A,0636)', keyword: 'IntendedNumberOfFractions', vr: 'US', vm: [1, 1] },
+    RTRadiationSetIntent: { tag: '(300A,0637)', keyword: 'RTRadiationSetIntent', vr: 'CS', vm: [1, 1] },
+    RTRadiationPhysicalAndGeometricContentDetailFlag: { tag: '(300A,0638)', keyword: 'RTRadiationPhysicalAndGeometricContentDetailFlag', vr: 'CS', vm: [1, 1] },
+    RTRecordFlag: { tag: '(300A,0639)', keyword: 'RTRecordFlag', vr: 'CS', vm: [1, 1] },
+    TreatmentDeviceIdentificationSequence: { tag: '(300A,063A)', keyword: 'TreatmentDeviceIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedRTPhysicianIntentSequence: { tag: '(300A,063B)', keyword: 'ReferencedRTPhysicianIntentSequence', vr: 'SQ', vm: [1, 1] },
+    CumulativeMeterset: { tag: '(300A,063C)', keyword: 'CumulativeMeterset', vr: 'FD', vm: [1, 1] },
+    DeliveryRate: { tag: '(300A,063D)', keyword: 'DeliveryRate', vr: 'FD', vm: [1, 1] },
+    DeliveryRateUnitSequence: { tag: '(300A,063E)', keyword: 'DeliveryRateUnitSequence', vr: 'SQ', vm: [1, 1] },
+    TreatmentPositionSequence: { tag: '(300A,063F)', keyword: 'TreatmentPositionSequence', vr: 'SQ', vm: [1, 1] },
+    RadiationSourceAxisDistance: { tag: '(300A,0640)', keyword: 'RadiationSourceAxisDistance', vr: 'FD', vm: [1, 1] },
+    NumberOfRTBeamLimitingDevices: { tag: '(300A,0641)', keyword: 'NumberOfRTBeamLimitingDevices', vr: 'US', vm: [1, 1] },
+    RTBeamLimitingDeviceProximalDistance: { tag: '(300A,0642)', keyword: 'RTBeamLimitingDeviceProximalDistance', vr: 'FD', vm: [1, 1] },
+    RTBeamLimitingDeviceDistalDistance: { tag: '(300A,0643)', keyword: 'RTBeamLimitingDeviceDistalDistance', vr: 'FD', vm: [1, 1] },
+    ParallelRTBeamDelimiterDeviceOrientationLabelCodeSequence: {
+        tag: '(300A,0644)',
+        keyword: 'ParallelRTBeamDelimiterDeviceOrientationLabelCodeSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    BeamModifierOrientationAngle: { tag: '(300A,0645)', keyword: 'BeamModifierOrientationAngle', vr: 'FD', vm: [1, 1] },
+    FixedRTBeamDelimiterDeviceSequence: { tag: '(300A,0646)', keyword: 'FixedRTBeamDelimiterDeviceSequence', vr: 'SQ', vm: [1, 1] },
+    ParallelRTBeamDelimiterDeviceSequence: { tag: '(300A,0647)', keyword: 'ParallelRTBeamDelimiterDeviceSequence', vr: 'SQ', vm: [1, 1] },
+    NumberOfParallelRTBeamDelimiters: { tag: '(300A,0648)', keyword: 'NumberOfParallelRTBeamDelimiters', vr: 'US', vm: [1, 1] },
+    ParallelRTBeamDelimiterBoundaries: { tag: '(300A,0649)', keyword: 'ParallelRTBeamDelimiterBoundaries', vr: 'FD', vm: [2, null] },
+    ParallelRTBeamDelimiterPositions: { tag: '(300A,064A)', keyword: 'ParallelRTBeamDelimiterPositions', vr: 'FD', vm: [2, null] },
+    RTBeamLimitingDeviceOffset: { tag: '(300A,064B)', keyword: 'RTBeamLimitingDeviceOffset', vr: 'FD', vm: [2, 2] },
+    RTBeamDelimiterGeometrySequence: { tag: '(300A,064C)', keyword: 'RTBeamDelimiterGeometrySequence', vr: 'SQ', vm: [1, 1] },
+    RTBeamLimitingDeviceDefinitionSequence: { tag: '(300A,064D)', keyword: 'RTBeamLimitingDeviceDefinitionSequence', vr: 'SQ', vm: [1, 1] },
+    ParallelRTBeamDelimiterOpeningMode: { tag: '(300A,064E)', keyword: 'ParallelRTBeamDelimiterOpeningMode', vr: 'CS', vm: [1, 1] },
+    ParallelRTBeamDelimiterLeafMountingSide: { tag: '(300A,064F)', keyword: 'ParallelRTBeamDelimiterLeafMountingSide', vr: 'CS', vm: [1, null] },
+    PatientSetupUID: { tag: '(300A,0650)', keyword: 'PatientSetupUID', vr: 'UI', vm: [1, 1] },
+    WedgeDefinitionSequence: { tag: '(300A,0651)', keyword: 'WedgeDefinitionSequence', vr: 'SQ', vm: [1, 1] },
+    RadiationBeamWedgeAngle: { tag: '(300A,0652)', keyword: 'RadiationBeamWedgeAngle', vr: 'FD', vm: [1, 1] },
+    RadiationBeamWedgeThinEdgeDistance: { tag: '(300A,0653)', keyword: 'RadiationBeamWedgeThinEdgeDistance', vr: 'FD', vm: [1, 1] },
+    RadiationBeamEffectiveWedgeAngle: { tag: '(300A,0654)', keyword: 'RadiationBeamEffectiveWedgeAngle', vr: 'FD', vm: [1, 1] },
+    NumberOfWedgePositions: { tag: '(300A,0655)', keyword: 'NumberOfWedgePositions', vr: 'US', vm: [1, 1] },
+    RTBeamLimitingDeviceOpeningSequence: { tag: '(300A,0656)', keyword: 'RTBeamLimitingDeviceOpeningSequence', vr: 'SQ', vm: [1, 1] },
+    NumberOfRTBeamLimitingDeviceOpenings: { tag: '(300A,0657)', keyword: 'NumberOfRTBeamLimitingDeviceOpenings', vr: 'US', vm: [1, 1] },
+    RadiationDosimeterUnitSequence: { tag: '(300A,0658)', keyword: 'RadiationDosimeterUnitSequence', vr: 'SQ', vm: [1, 1] },
+    RTDeviceDistanceReferenceLocationCodeSequence: { tag: '(300A,0659)', keyword: 'RTDeviceDistanceReferenceLocationCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RadiationDeviceConfigurationAndCommissioningKeySequence: {
+        tag: '(300A,065A)',
+        keyword: 'RadiationDeviceConfigurationAndCommissioningKeySequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    PatientSupportPositionParameterSequence: { tag: '(300A,065B)', keyword: 'PatientSupportPositionParameterSequence', vr: 'SQ', vm: [1, 1] },
+    PatientSupportPositionSpecificationMethod: { tag: '(300A,065C)', keyword: 'PatientSupportPositionSpecificationMethod', vr: 'CS', vm: [1, 1] },
+    PatientSupportPositionDeviceParameterSequence: { tag: '(300A,065D)', keyword: 'PatientSupportPositionDeviceParameterSequence', vr: 'SQ', vm: [1, 1] },
+    DeviceOrderIndex: { tag: '(300A,065E)', keyword: 'DeviceOrderIndex', vr: 'US', vm: [1, 1] },
+    PatientSupportPositionParameterOrderIndex: { tag: '(300A,065F)', keyword: 'PatientSupportPositionParameterOrderIndex', vr: 'US', vm: [1, 1] },
+    PatientSupportPositionDeviceToleranceSequence: { tag: '(300A,0660)', keyword: 'PatientSupportPositionDeviceToleranceSequence', vr: 'SQ', vm: [1, 1] },
+    PatientSupportPositionToleranceOrderIndex: { tag: '(300A,0661)', keyword: 'PatientSupportPositionToleranceOrderIndex', vr: 'US', vm: [1, 1] },
+    CompensatorDefinitionSequence: { tag: '(300A,0662)', keyword: 'CompensatorDefinitionSequence', vr: 'SQ', vm: [1, 1] },
+    CompensatorMapOrientation: { tag: '(300A,0663)', keyword: 'CompensatorMapOrientation', vr: 'CS', vm: [1, 1] },
+    CompensatorProximalThicknessMap: { tag: '(300A,0664)', keyword: 'CompensatorProximalThicknessMap', vr: 'OF', vm: [1, 1] },
+    CompensatorDistalThicknessMap: { tag: '(300A,0665)', keyword: 'CompensatorDistalThicknessMap', vr: 'OF', vm: [1, 1] },
+    CompensatorBasePlaneOffset: { tag: '(300A,0666)', keyword: 'CompensatorBasePlaneOffset', vr: 'FD', vm: [1, 1] },
+    CompensatorShapeFabricationCodeSequence: { tag: '(300A,0667)', keyword: 'CompensatorShapeFabricationCodeSequence', vr: 'SQ', vm: [1, 1] },
+    CompensatorShapeSequence: { tag: '(300A,0668)', keyword: 'CompensatorShapeSequence', vr: 'SQ', vm: [1, 1] },
+    RadiationBeamCompensatorMillingToolDiameter: { tag: '(300A,0669)', keyword: 'RadiationBeamCompensatorMillingToolDiameter', vr: 'FD', vm: [1, 1] },
+    BlockDefinitionSequence: { tag: '(300A,066A)', keyword: 'BlockDefinitionSequence', vr: 'SQ', vm: [1, 1] },
+    BlockEdgeData: { tag: '(300A,066B)', keyword: 'BlockEdgeData', vr: 'OF', vm: [1, 1] },
+    BlockOrientation: { tag: '(300A,066C)', keyword: 'BlockOrientation', vr: 'CS', vm: [1, 1] },
+    RadiationBeamBlockThickness: { tag: '(300A,066D)', keyword: 'RadiationBeamBlockThickness', vr: 'FD', vm: [1, 1] },
+    RadiationBeamBlockSlabThickness: { tag: '(300A,066E)', keyword: 'RadiationBeamBlockSlabThickness', vr: 'FD', vm: [1, 1] },
+    BlockEdgeDataSequence: { tag: '(300A,066F)', keyword: 'BlockEdgeDataSequence', vr: 'SQ', vm: [1, 1] },
+    NumberOfRTAccessoryHolders: { tag: '(300A,0670)', keyword: 'NumberOfRTAccessoryHolders', vr: 'US', vm: [1, 1] },
+    GeneralAccessoryDefinitionSequence: { tag: '(300A,0671)', keyword: 'GeneralAccessoryDefinitionSequence', vr: 'SQ', vm: [1, 1] },
+    NumberOfGeneralAccessories: { tag: '(300A,0672)', keyword: 'NumberOfGeneralAccessories', vr: 'US', vm: [1, 1] },
+    BolusDefinitionSequence: { tag: '(300A,0673)', keyword: 'BolusDefinitionSequence', vr: 'SQ', vm: [1, 1] },
+    NumberOfBoluses: { tag: '(300A,0674)', keyword: 'NumberOfBoluses', vr: 'US', vm: [1, 1] },
+    EquipmentFrameOfReferenceUID: { tag: '(300A,0675)', keyword: 'EquipmentFrameOfReferenceUID', vr: 'UI', vm: [1, 1] },
+    EquipmentFrameOfReferenceDescription: { tag: '(300A,0676)', keyword: 'EquipmentFrameOfReferenceDescription', vr: 'ST', vm: [1, 1] },
+    EquipmentReferencePointCoordinatesSequence: { tag: '(300A,0677)', keyword: 'EquipmentReferencePointCoordinatesSequence', vr: 'SQ', vm: [1, 1] },
+    EquipmentReferencePointCodeSequence: { tag: '(300A,0678)', keyword: 'EquipmentReferencePointCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RTBeamLimitingDeviceAngle: { tag: '(300A,0679)', keyword: 'RTBeamLimitingDeviceAngle', vr: 'FD', vm: [1, 1] },
+    SourceRollAngle: { tag: '(300A,067A)', keyword: 'SourceRollAngle', vr: 'FD', vm: [1, 1] },
+    RadiationGenerationModeSequence: { tag: '(300A,067B)', keyword: 'RadiationGenerationModeSequence', vr: 'SQ', vm: [1, 1] },
+    RadiationGenerationModeLabel: { tag: '(300A,067C)', keyword: 'RadiationGenerationModeLabel', vr: 'SH', vm: [1, 1] },
+    RadiationGenerationModeDescription: { tag: '(300A,067D)', keyword: 'RadiationGenerationModeDescription', vr: 'ST', vm: [1, 1] },
+    RadiationGenerationModeMachineCodeSequence: { tag: '(300A,067E)', keyword: 'RadiationGenerationModeMachineCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RadiationTypeCodeSequence: { tag: '(300A,067F)', keyword: 'RadiationTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    NominalEnergy: { tag: '(300A,0680)', keyword: 'NominalEnergy', vr: 'DS', vm: [1, 1] },
+    MinimumNominalEnergy: { tag: '(300A,0681)', keyword: 'MinimumNominalEnergy', vr: 'DS', vm: [1, 1] },
+    MaximumNominalEnergy: { tag: '(300A,0682)', keyword: 'MaximumNominalEnergy', vr: 'DS', vm: [1, 1] },
+    RadiationFluenceModifierCodeSequence: { tag: '(300A,0683)', keyword: 'RadiationFluenceModifierCodeSequence', vr: 'SQ', vm: [1, 1] },
+    EnergyUnitCodeSequence: { tag: '(300A,0684)', keyword: 'EnergyUnitCodeSequence', vr: 'SQ', vm: [1, 1] },
+    NumberOfRadiationGenerationModes: { tag: '(300A,0685)', keyword: 'NumberOfRadiationGenerationModes', vr: 'US', vm: [1, 1] },
+    PatientSupportDevicesSequence: { tag: '(300A,0686)', keyword: 'PatientSupportDevicesSequence', vr: 'SQ', vm: [1, 1] },
+    NumberOfPatientSupportDevices: { tag: '(300A,0687)', keyword: 'NumberOfPatientSupportDevices', vr: 'US', vm: [1, 1] },
+    RTBeamModifierDefinitionDistance: { tag: '(300A,0688)', keyword: 'RTBeamModifierDefinitionDistance', vr: 'FD', vm: [1, 1] },
+    BeamAreaLimitSequence: { tag: '(300A,0689)', keyword: 'BeamAreaLimitSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedRTPrescriptionSequence: { tag: '(300A,068A)', keyword: 'ReferencedRTPrescriptionSequence', vr: 'SQ', vm: [1, 1] },
+    TreatmentSessionUID: { tag: '(300A,0700)', keyword: 'TreatmentSessionUID', vr: 'UI', vm: [1, 1] },
+    RTRadiationUsage: { tag: '(300A,0701)', keyword: 'RTRadiationUsage', vr: 'CS', vm: [1, 1] },
+    ReferencedRTRadiationSetSequence: { tag: '(300A,0702)', keyword: 'ReferencedRTRadiationSetSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedRTRadiationRecordSequence: { tag: '(300A,0703)', keyword: 'ReferencedRTRadiationRecordSequence', vr: 'SQ', vm: [1, 1] },
+    RTRadiationSetDeliveryNumber: { tag: '(300A,0704)', keyword: 'RTRadiationSetDeliveryNumber', vr: 'US', vm: [1, 1] },
+    ClinicalFractionNumber: { tag: '(300A,0705)', keyword: 'ClinicalFractionNumber', vr: 'US', vm: [1, 1] },
+    RTTreatmentFractionCompletionStatus: { tag: '(300A,0706)', keyword: 'RTTreatmentFractionCompletionStatus', vr: 'CS', vm: [1, 1] },
+    RTRadiationSetUsage: { tag: '(300A,0707)', keyword: 'RTRadiationSetUsage', vr: 'CS', vm: [1, 1] },
+    TreatmentDeliveryContinuationFlag: { tag: '(300A,0708)', keyword: 'TreatmentDeliveryContinuationFlag', vr: 'CS', vm: [1, 1] },
+    TreatmentRecordContentOrigin: { tag: '(300A,0709)', keyword: 'TreatmentRecordContentOrigin', vr: 'CS', vm: [1, 1] },
+    RTTreatmentTerminationStatus: { tag: '(300A,0714)', keyword: 'RTTreatmentTerminationStatus', vr: 'CS', vm: [1, 1] },
+    RTTreatmentTerminationReasonCodeSequence: { tag: '(300A,0715)', keyword: 'RTTreatmentTerminationReasonCodeSequence', vr: 'SQ', vm: [1, 1] },
+    MachineSpecificTreatmentTerminationCodeSequence: { tag: '(300A,0716)', keyword: 'MachineSpecificTreatmentTerminationCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RTRadiationSalvageRecordControlPointSequence: { tag: '(300A,0722)', keyword: 'RTRadiationSalvageRecordControlPointSequence', vr: 'SQ', vm: [1, 1] },
+    StartingMetersetValueKnownFlag: { tag: '(300A,0723)', keyword: 'StartingMetersetValueKnownFlag', vr: 'CS', vm: [1, 1] },
+    TreatmentTerminationDescription: { tag: '(300A,0730)', keyword: 'TreatmentTerminationDescription', vr: 'ST', vm: [1, 1] },
+    TreatmentToleranceViolationSequence: { tag: '(300A,0731)', keyword: 'TreatmentToleranceViolationSequence', vr: 'SQ', vm: [1, 1] },
+    TreatmentToleranceViolationCategory: { tag: '(300A,0732)', keyword: 'TreatmentToleranceViolationCategory', vr: 'CS', vm: [1, 1] },
+    TreatmentToleranceViolationAttributeSequence: { tag: '(300A,0733)', keyword: 'TreatmentToleranceViolationAttributeSequence', vr: 'SQ', vm: [1, 1] },
+    TreatmentToleranceViolationDescription: { tag: '(300A,0734)', keyword: 'TreatmentToleranceViolationDescription', vr: 'ST', vm: [1, 1] },
+    TreatmentToleranceViolationIdentification: { tag: '(300A,0735)', keyword: 'TreatmentToleranceViolationIdentification', vr: 'ST', vm: [1, 1] },
+    TreatmentToleranceViolationDateTime: { tag: '(300A,0736)', keyword: 'TreatmentToleranceViolationDateTime', vr: 'DT', vm: [1, 1] },
+    RecordedRTControlPointDateTime: { tag: '(300A,073A)', keyword: 'RecordedRTControlPointDateTime', vr: 'DT', vm: [1, 1] },
+    ReferencedRadiationRTControlPointIndex: { tag: '(300A,073B)', keyword: 'ReferencedRadiationRTControlPointIndex', vr: 'US', vm: [1, 1] },
+    AlternateValueSequence: { tag: '(300A,073E)', keyword: 'AlternateValueSequence', vr: 'SQ', vm: [1, 1] },
+    ConfirmationSequence: { tag: '(300A,073F)', keyword: 'ConfirmationSequence', vr: 'SQ', vm: [1, 1] },
+    InterlockSequence: { tag: '(300A,0740)', keyword: 'InterlockSequence', vr: 'SQ', vm: [1, 1] },
+    InterlockDateTime: { tag: '(300A,0741)', keyword: 'InterlockDateTime', vr: 'DT', vm: [1, 1] },
+    InterlockDescription: { tag: '(300A,0742)', keyword: 'InterlockDescription', vr: 'ST', vm: [1, 1] },
+    InterlockOriginatingDeviceSequence: { tag: '(300A,0743)', keyword: 'InterlockOriginatingDeviceSequence', vr: 'SQ', vm: [1, 1] },
+    InterlockCodeSequence: { tag: '(300A,0744)', keyword: 'InterlockCodeSequence', vr: 'SQ', vm: [1, 1] },
+    InterlockResolutionCodeSequence: { tag: '(300A,0745)', keyword: 'InterlockResolutionCodeSequence', vr: 'SQ', vm: [1, 1] },
+    InterlockResolutionUserSequence: { tag: '(300A,0746)', keyword: 'InterlockResolutionUserSequence', vr: 'SQ', vm: [1, 1] },
+    OverrideDateTime: { tag: '(300A,0760)', keyword: 'OverrideDateTime', vr: 'DT', vm: [1, 1] },
+    TreatmentToleranceViolationTypeCodeSequence: { tag: '(300A,0761)', keyword: 'TreatmentToleranceViolationTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    TreatmentToleranceViolationCauseCodeSequence: { tag: '(300A,0762)', keyword: 'TreatmentToleranceViolationCauseCodeSequence', vr: 'SQ', vm: [1, 1] },
+    MeasuredMetersetToDoseMappingSequence: { tag: '(300A,0772)', keyword: 'MeasuredMetersetToDoseMappingSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedExpectedInVivoMeasurementValueIndex: { tag: '(300A,0773)', keyword: 'ReferencedExpectedInVivoMeasurementValueIndex', vr: 'US', vm: [1, 1] },
+    DoseMeasurementDeviceCodeSequence: { tag: '(300A,0774)', keyword: 'DoseMeasurementDeviceCodeSequence', vr: 'SQ', vm: [1, 1] },
+    AdditionalParameterRecordingInstanceSequence: { tag: '(300A,0780)', keyword: 'AdditionalParameterRecordingInstanceSequence', vr: 'SQ', vm: [1, 1] },
+    InterlockOriginDescription: { tag: '(300A,0783)', keyword: 'InterlockOriginDescription', vr: 'ST', vm: [1, 1] },
+    ReferencedRTPlanSequence: { tag: '(300C,0002)', keyword: 'ReferencedRTPlanSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedBeamSequence: { tag: '(300C,0004)', keyword: 'ReferencedBeamSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedBeamNumber: { tag: '(300C,0006)', keyword: 'ReferencedBeamNumber', vr: 'IS', vm: [1, 1] },
+    ReferencedReferenceImageNumber: { tag: '(300C,0007)', keyword: 'ReferencedReferenceImageNumber', vr: 'IS', vm: [1, 1] },
+    StartCumulativeMetersetWeight: { tag: '(300C,0008)', keyword: 'StartCumulativeMetersetWeight', vr: 'DS', vm: [1, 1] },
+    EndCumulativeMetersetWeight: { tag: '(300C,0009)', keyword: 'EndCumulativeMetersetWeight', vr: 'DS', vm: [1, 1] },
+    ReferencedBrachyApplicationSetupSequence: { tag: '(300C,000A)', keyword: 'ReferencedBrachyApplicationSetupSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedBrachyApplicationSetupNumber: { tag: '(300C,000C)', keyword: 'ReferencedBrachyApplicationSetupNumber', vr: 'IS', vm: [1, 1] },
+    ReferencedSourceNumber: { tag: '(300C,000E)', keyword: 'ReferencedSourceNumber', vr: 'IS', vm: [1, 1] },
+    ReferencedFractionGroupSequence: { tag: '(300C,0020)', keyword: 'ReferencedFractionGroupSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedFractionGroupNumber: { tag: '(300C,0022)', keyword: 'ReferencedFractionGroupNumber', vr: 'IS', vm: [1, 1] },
+    ReferencedVerificationImageSequence: { tag: '(300C,0040)', keyword: 'ReferencedVerificationImageSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedReferenceImageSequence: { tag: '(300C,0042)', keyword: 'ReferencedReferenceImageSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedDoseReferenceSequence: { tag: '(300C,0050)', keyword: 'ReferencedDoseReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedDoseReferenceNumber: { tag: '(300C,0051)', keyword: 'ReferencedDoseReferenceNumber', vr: 'IS', vm: [1, 1] },
+    BrachyReferencedDoseReferenceSequence: { tag: '(300C,0055)', keyword: 'BrachyReferencedDoseReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedStructureSetSequence: { tag: '(300C,0060)', keyword: 'ReferencedStructureSetSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedPatientSetupNumber: { tag: '(300C,006A)', keyword: 'ReferencedPatientSetupNumber', vr: 'IS', vm: [1, 1] },
+    ReferencedDoseSequence: { tag: '(300C,0080)', keyword: 'ReferencedDoseSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedToleranceTableNumber: { tag: '(300C,00A0)', keyword: 'ReferencedToleranceTableNumber', vr: 'IS', vm: [1, 1] },
+    ReferencedBolusSequence: { tag: '(300C,00B0)', keyword: 'ReferencedBolusSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedWedgeNumber: { tag: '(300C,00C0)', keyword: 'ReferencedWedgeNumber', vr: 'IS', vm: [1, 1] },
+    ReferencedCompensatorNumber: { tag: '(300C,00D0)', keyword: 'ReferencedCompensatorNumber', vr: 'IS', vm: [1, 1] },
+    ReferencedBlockNumber: { tag: '(300C,00E0)', keyword: 'ReferencedBlockNumber', vr: 'IS', vm: [1, 1] },
+    ReferencedControlPointIndex: { tag: '(300C,00F0)', keyword: 'ReferencedControlPointIndex', vr: 'IS', vm: [1, 1] },
+    ReferencedControlPointSequence: { tag: '(300C,00F2)', keyword: 'ReferencedControlPointSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedStartControlPointIndex: { tag: '(300C,00F4)', keyword: 'ReferencedStartControlPointIndex', vr: 'IS', vm: [1, 1] },
+    ReferencedStopControlPointIndex: { tag: '(300C,00F6)', keyword: 'ReferencedStopControlPointIndex', vr: 'IS', vm: [1, 1] },
+    ReferencedRangeShifterNumber: { tag: '(300C,0100)', keyword: 'ReferencedRangeShifterNumber', vr: 'IS', vm: [1, 1] },
+    ReferencedLateralSpreadingDeviceNumber: { tag: '(300C,0102)', keyword: 'ReferencedLateralSpreadingDeviceNumber', vr: 'IS', vm: [1, 1] },
+    ReferencedRangeModulatorNumber: { tag: '(300C,0104)', keyword: 'ReferencedRangeModulatorNumber', vr: 'IS', vm: [1, 1] },
+    OmittedBeamTaskSequence: { tag: '(300C,0111)', keyword: 'OmittedBeamTaskSequence', vr: 'SQ', vm: [1, 1] },
+    ReasonForOmission: { tag: '(300C,0112)', keyword: 'ReasonForOmission', vr: 'CS', vm: [1, 1] },
+    ReasonForOmissionDescription: { tag: '(300C,0113)', keyword: 'ReasonForOmissionDescription', vr: 'LO', vm: [1, 1] },
+    ApprovalStatus: { tag: '(300E,0002)', keyword: 'ApprovalStatus', vr: 'CS', vm: [1, 1] },
+    ReviewDate: { tag: '(300E,0004)', keyword: 'ReviewDate', vr: 'DA', vm: [1, 1] },
+    ReviewTime: { tag: '(300E,0005)', keyword: 'ReviewTime', vr: 'TM', vm: [1, 1] },
+    ReviewerName: { tag: '(300E,0008)', keyword: 'ReviewerName', vr: 'PN', vm: [1, 1] },
+    RadiobiologicalDoseEffectSequence: { tag: '(3010,0001)', keyword: 'RadiobiologicalDoseEffectSequence', vr: 'SQ', vm: [1, 1] },
+    RadiobiologicalDoseEffectFlag: { tag: '(3010,0002)', keyword: 'RadiobiologicalDoseEffectFlag', vr: 'CS', vm: [1, 1] },
+    EffectiveDoseCalculationMethodCategoryCodeSequence: {
+        tag: '(3010,0003)',
+        keyword: 'EffectiveDoseCalculationMethodCategoryCodeSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    EffectiveDoseCalculationMethodCodeSequence: { tag: '(3010,0004)', keyword: 'EffectiveDoseCalculationMethodCodeSequence', vr: 'SQ', vm: [1, 1] },
+    EffectiveDoseCalculationMethodDescription: { tag: '(3010,0005)', keyword: 'EffectiveDoseCalculationMethodDescription', vr: 'LO', vm: [1, 1] },
+    ConceptualVolumeUID: { tag: '(3010,0006)', keyword: 'ConceptualVolumeUID', vr: 'UI', vm: [1, 1] },
+    OriginatingSOPInstanceReferenceSequence: { tag: '(3010,0007)', keyword: 'OriginatingSOPInstanceReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    ConceptualVolumeConstituentSequence: { tag: '(3010,0008)', keyword: 'ConceptualVolumeConstituentSequence', vr: 'SQ', vm: [1, 1] },
+    EquivalentConceptualVolumeInstanceReferenceSequence: {
+        tag: '(3010,0009)',
+        keyword: 'EquivalentConceptualVolumeInstanceReferenceSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    EquivalentConceptualVolumesSequence: { tag: '(3010,000A)', keyword: 'EquivalentConceptualVolumesSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedConceptualVolumeUID: { tag: '(3010,000B)', keyword: 'ReferencedConceptualVolumeUID', vr: 'UI', vm: [1, 1] },
+    ConceptualVolumeCombinationExpression: { tag: '(3010,000C)', keyword: 'ConceptualVolumeCombinationExpression', vr: 'UT', vm: [1, 1] },
+    ConceptualVolumeConstituentIndex: { tag: '(3010,000D)', keyword: 'ConceptualVolumeConstituentIndex', vr: 'US', vm: [1, 1] },
+    ConceptualVolumeCombinationFlag: { tag: '(3010,000E)', keyword: 'ConceptualVolumeCombinationFlag', vr: 'CS', vm: [1, 1] },
+    ConceptualVolumeCombinationDescription: { tag: '(3010,000F)', keyword: 'ConceptualVolumeCombinationDescription', vr: 'ST', vm: [1, 1] },
+    ConceptualVolumeSegmentationDefinedFlag: { tag: '(3010,0010)', keyword: 'ConceptualVolumeSegmentationDefinedFlag', vr: 'CS', vm: [1, 1] },
+    ConceptualVolumeSegmentationReferenceSequence: { tag: '(3010,0011)', keyword: 'ConceptualVolumeSegmentationReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    ConceptualVolumeConstituentSegmentationReferenceSequence: {
+        tag: '(3010,0012)',
+        keyword: 'ConceptualVolumeConstituentSegmentationReferenceSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    ConstituentConceptualVolumeUID: { tag: '(3010,0013)', keyword: 'ConstituentConceptualVolumeUID', vr: 'UI', vm: [1, 1] },
+    DerivationConceptualVolumeSequence: { tag: '(3010,0014)', keyword: 'DerivationConceptualVolumeSequence', vr: 'SQ', vm: [1, 1] },
+    SourceConceptualVolumeUID: { tag: '(3010,0015)', keyword: 'SourceConceptualVolumeUID', vr: 'UI', vm: [1, 1] },
+    ConceptualVolumeDerivationAlgorithmSequence: { tag: '(3010,0016)', keyword: 'ConceptualVolumeDerivationAlgorithmSequence', vr: 'SQ', vm: [1, 1] },
+    ConceptualVolumeDescription: { tag: '(3010,0017)', keyword: 'ConceptualVolumeDescription', vr: 'ST', vm: [1, 1] },
+    SourceConceptualVolumeSequence: { tag: '(3010,0018)', keyword: 'SourceConceptualVolumeSequence', vr: 'SQ', vm: [1, 1] },
+    AuthorIdentificationSequence: { tag: '(3010,0019)', keyword: 'AuthorIdentificationSequence', vr: 'SQ', vm: [1, 1] },
+    ManufacturerModelVersion: { tag: '(3010,001A)', keyword: 'ManufacturerModelVersion', vr: 'LO', vm: [1, 1] },
+    DeviceAlternateIdentifier: { tag: '(3010,001B)', keyword: 'DeviceAlternateIdentifier', vr: 'UC', vm: [1, 1] },
+    DeviceAlternateIdentifierType: { tag: '(3010,001C)', keyword: 'DeviceAlternateIdentifierType', vr: 'CS', vm: [1, 1] },
+    DeviceAlternateIdentifierFormat: { tag: '(3010,001D)', keyword: 'DeviceAlternateIdentifierFormat', vr: 'LT', vm: [1, 1] },
+    SegmentationCreationTemplateLabel: { tag: '(3010,001E)', keyword: 'SegmentationCreationTemplateLabel', vr: 'LO', vm: [1, 1] },
+    SegmentationTemplateUID: { tag: '(3010,001F)', keyword: 'SegmentationTemplateUID', vr: 'UI', vm: [1, 1] },
+    ReferencedSegmentReferenceIndex: { tag: '(3010,0020)', keyword: 'ReferencedSegmentReferenceIndex', vr: 'US', vm: [1, 1] },
+    SegmentReferenceSequence: { tag: '(3010,0021)', keyword: 'SegmentReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    SegmentReferenceIndex: { tag: '(3010,0022)', keyword: 'SegmentReferenceIndex', vr: 'US', vm: [1, 1] },
+    DirectSegmentReferenceSequence: { tag: '(3010,0023)', keyword: 'DirectSegmentReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    CombinationSegmentReferenceSequence: { tag: '(3010,0024)', keyword: 'CombinationSegmentReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    ConceptualVolumeSequence: { tag: '(3010,0025)', keyword: 'ConceptualVolumeSequence', vr: 'SQ', vm: [1, 1] },
+    SegmentedRTAccessoryDeviceSequence: { tag: '(3010,0026)', keyword: 'SegmentedRTAccessoryDeviceSequence', vr: 'SQ', vm: [1, 1] },
+    SegmentCharacteristicsSequence: { tag: '(3010,0027)', keyword: 'SegmentCharacteristicsSequence', vr: 'SQ', vm: [1, 1] },
+    RelatedSegmentCharacteristicsSequence: { tag: '(3010,0028)', keyword: 'RelatedSegmentCharacteristicsSequence', vr: 'SQ', vm: [1, 1] },
+    SegmentCharacteristicsPrecedence: { tag: '(3010,0029)', keyword: 'SegmentCharacteristicsPrecedence', vr: 'US', vm: [1, 1] },
+    RTSegmentAnnotationSequence: { tag: '(3010,002A)', keyword: 'RTSegmentAnnotationSequence', vr: 'SQ', vm: [1, 1] },
+    SegmentAnnotationCategoryCodeSequence: { tag: '(3010,002B)', keyword: 'SegmentAnnotationCategoryCodeSequence', vr: 'SQ', vm: [1, 1] },
+    SegmentAnnotationTypeCodeSequence: { tag: '(3010,002C)', keyword: 'SegmentAnnotationTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    DeviceLabel: { tag: '(3010,002D)', keyword: 'DeviceLabel', vr: 'LO', vm: [1, 1] },
+    DeviceTypeCodeSequence: { tag: '(3010,002E)', keyword: 'DeviceTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    SegmentAnnotationTypeModifierCodeSequence: { tag: '(3010,002F)', keyword: 'SegmentAnnotationTypeModifierCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PatientEquipmentRelationshipCodeSequence: { tag: '(3010,0030)', keyword: 'PatientEquipmentRelationshipCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedFiducialsUID: { tag: '(3010,0031)', keyword: 'ReferencedFiducialsUID', vr: 'UI', vm: [1, 1] },
+    PatientTreatmentOrientationSequence: { tag: '(3010,0032)', keyword: 'PatientTreatmentOrientationSequence', vr: 'SQ', vm: [1, 1] },
+    UserContentLabel: { tag: '(3010,0033)', keyword: 'UserContentLabel', vr: 'SH', vm: [1, 1] },
+    UserContentLongLabel: { tag: '(3010,0034)', keyword: 'UserContentLongLabel', vr: 'LO', vm: [1, 1] },
+    EntityLabel: { tag: '(3010,0035)', keyword: 'EntityLabel', vr: 'SH', vm: [1, 1] },
+    EntityName: { tag: '(3010,0036)', keyword: 'EntityName', vr: 'LO', vm: [1, 1] },
+    EntityDescription: { tag: '(3010,0037)', keyword: 'EntityDescription', vr: 'ST', vm: [1, 1] },
+    EntityLongLabel: { tag: '(3010,0038)', keyword: 'EntityLongLabel', vr: 'LO', vm: [1, 1] },
+    DeviceIndex: { tag: '(3010,0039)', keyword: 'DeviceIndex', vr: 'US', vm: [1, 1] },
+    RTTreatmentPhaseIndex: { tag: '(3010,003A)', keyword: 'RTTreatmentPhaseIndex', vr: 'US', vm: [1, 1] },
+    RTTreatmentPhaseUID: { tag: '(3010,003B)', keyword: 'RTTreatmentPhaseUID', vr: 'UI', vm: [1, 1] },
+    RTPrescriptionIndex: { tag: '(3010,003C)', keyword: 'RTPrescriptionIndex', vr: 'US', vm: [1, 1] },
+    RTSegmentAnnotationIndex: { tag: '(3010,003D)', keyword: 'RTSegmentAnnotationIndex', vr: 'US', vm: [1, 1] },
+    BasisRTTreatmentPhaseIndex: { tag: '(3010,003E)', keyword: 'BasisRTTreatmentPhaseIndex', vr: 'US', vm: [1, 1] },
+    RelatedRTTreatmentPhaseIndex: { tag: '(3010,003F)', keyword: 'RelatedRTTreatmentPhaseIndex', vr: 'US', vm: [1, 1] },
+    ReferencedRTTreatmentPhaseIndex: { tag: '(3010,0040)', keyword: 'ReferencedRTTreatmentPhaseIndex', vr: 'US', vm: [1, 1] },
+    ReferencedRTPrescriptionIndex: { tag: '(3010,0041)', keyword: 'ReferencedRTPrescriptionIndex', vr: 'US', vm: [1, 1] },
+    ReferencedParentRTPrescriptionIndex: { tag: '(3010,0042)', keyword: 'ReferencedParentRTPrescriptionIndex', vr: 'US', vm: [1, 1] },
+    ManufacturerDeviceIdentifier: { tag: '(3010,0043)', keyword: 'ManufacturerDeviceIdentifier', vr: 'ST', vm: [1, 1] },
+    InstanceLevelReferencedPerformedProcedureStepSequence: {
+        tag: '(3010,0044)',
+        keyword: 'InstanceLevelReferencedPerformedProcedureStepSequence',
+        vr: 'SQ',
+        vm: [1, 1],
+    },
+    RTTreatmentPhaseIntentPresenceFlag: { tag: '(3010,0045)', keyword: 'RTTreatmentPhaseIntentPresenceFlag', vr: 'CS', vm: [1, 1] },
+    RadiotherapyTreatmentType: { tag: '(3010,0046)', keyword: 'RadiotherapyTreatmentType', vr: 'CS', vm: [1, 1] },
+    TeletherapyRadiationType: { tag: '(3010,0047)', keyword: 'TeletherapyRadiationType', vr: 'CS', vm: [1, null] },
+    BrachytherapySourceType: { tag: '(3010,0048)', keyword: 'BrachytherapySourceType', vr: 'CS', vm: [1, null] },
+    ReferencedRTTreatmentPhaseSequence: { tag: '(3010,0049)', keyword: 'ReferencedRTTreatmentPhaseSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedDirectSegmentInstanceSequence: { tag: '(3010,004A)', keyword: 'ReferencedDirectSegmentInstanceSequence', vr: 'SQ', vm: [1, 1] },
+    IntendedRTTreatmentPhaseSequence: { tag: '(3010,004B)', keyword: 'IntendedRTTreatmentPhaseSequence', vr: 'SQ', vm: [1, 1] },
+    IntendedPhaseStartDate: { tag: '(3010,004C)', keyword: 'IntendedPhaseStartDate', vr: 'DA', vm: [1, 1] },
+    IntendedPhaseEndDate: { tag: '(3010,004D)', keyword: 'IntendedPhaseEndDate', vr: 'DA', vm: [1, 1] },
+    RTTreatmentPhaseIntervalSequence: { tag: '(3010,004E)', keyword: 'RTTreatmentPhaseIntervalSequence', vr: 'SQ', vm: [1, 1] },
+    TemporalRelationshipIntervalAnchor: { tag: '(3010,004F)', keyword: 'TemporalRelationshipIntervalAnchor', vr: 'CS', vm: [1, 1] },
+    MinimumNumberOfIntervalDays: { tag: '(3010,0050)', keyword: 'MinimumNumberOfIntervalDays', vr: 'FD', vm: [1, 1] },
+    MaximumNumberOfIntervalDays: { tag: '(3010,0051)', keyword: 'MaximumNumberOfIntervalDays', vr: 'FD', vm: [1, 1] },
+    PertinentSOPClassesInStudy: { tag: '(3010,0052)', keyword: 'PertinentSOPClassesInStudy', vr: 'UI', vm: [1, null] },
+    PertinentSOPClassesInSeries: { tag: '(3010,0053)', keyword: 'PertinentSOPClassesInSeries', vr: 'UI', vm: [1, null] },
+    RTPrescriptionLabel: { tag: '(3010,0054)', keyword: 'RTPrescriptionLabel', vr: 'LO', vm: [1, 1] },
+    RTPhysicianIntentPredecessorSequence: { tag: '(3010,0055)', keyword: 'RTPhysicianIntentPredecessorSequence', vr: 'SQ', vm: [1, 1] },
+    RTTreatmentApproachLabel: { tag: '(3010,0056)', keyword: 'RTTreatmentApproachLabel', vr: 'LO', vm: [1, 1] },
+    RTPhysicianIntentSequence: { tag: '(3010,0057)', keyword: 'RTPhysicianIntentSequence', vr: 'SQ', vm: [1, 1] },
+    RTPhysicianIntentIndex: { tag: '(3010,0058)', keyword: 'RTPhysicianIntentIndex', vr: 'US', vm: [1, 1] },
+    RTTreatmentIntentType: { tag: '(3010,0059)', keyword: 'RTTreatmentIntentType', vr: 'CS', vm: [1, 1] },
+    RTPhysicianIntentNarrative: { tag: '(3010,005A)', keyword: 'RTPhysicianIntentNarrative', vr: 'UT', vm: [1, 1] },
+    RTProtocolCodeSequence: { tag: '(3010,005B)', keyword: 'RTProtocolCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ReasonForSuperseding: { tag: '(3010,005C)', keyword: 'ReasonForSuperseding', vr: 'ST', vm: [1, 1] },
+    RTDiagnosisCodeSequence: { tag: '(3010,005D)', keyword: 'RTDiagnosisCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedRTPhysicianIntentIndex: { tag: '(3010,005E)', keyword: 'ReferencedRTPhysicianIntentIndex', vr: 'US', vm: [1, 1] },
+    RTPhysicianIntentInputInstanceSequence: { tag: '(3010,005F)', keyword: 'RTPhysicianIntentInputInstanceSequence', vr: 'SQ', vm: [1, 1] },
+    RTAnatomicPrescriptionSequence: { tag: '(3010,0060)', keyword: 'RTAnatomicPrescriptionSequence', vr: 'SQ', vm: [1, 1] },
+    PriorTreatmentDoseDescription: { tag: '(3010,0061)', keyword: 'PriorTreatmentDoseDescription', vr: 'UT', vm: [1, 1] },
+    PriorTreatmentReferenceSequence: { tag: '(3010,0062)', keyword: 'PriorTreatmentReferenceSequence', vr: 'SQ', vm: [1, 1] },
+    DosimetricObjectiveEvaluationScope: { tag: '(3010,0063)', keyword: 'DosimetricObjectiveEvaluationScope', vr: 'CS', vm: [1, 1] },
+    TherapeuticRoleCategoryCodeSequence: { tag: '(3010,0064)', keyword: 'TherapeuticRoleCategoryCodeSequence', vr: 'SQ', vm: [1, 1] },
+    TherapeuticRoleTypeCodeSequence: { tag: '(3010,0065)', keyword: 'TherapeuticRoleTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ConceptualVolumeOptimizationPrecedence: { tag: '(3010,0066)', keyword: 'ConceptualVolumeOptimizationPrecedence', vr: 'US', vm: [1, 1] },
+    ConceptualVolumeCategoryCodeSequence: { tag: '(3010,0067)', keyword: 'ConceptualVolumeCategoryCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ConceptualVolumeBlockingConstraint: { tag: '(3010,0068)', keyword: 'ConceptualVolumeBlockingConstraint', vr: 'CS', vm: [1, 1] },
+    ConceptualVolumeTypeCodeSequence: { tag: '(3010,0069)', keyword: 'ConceptualVolumeTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    ConceptualVolumeTypeModifierCodeSequence: { tag: '(3010,006A)', keyword: 'ConceptualVolumeTypeModifierCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RTPrescriptionSequence: { tag: '(3010,006B)', keyword: 'RTPrescriptionSequence', vr: 'SQ', vm: [1, 1] },
+    DosimetricObjectiveSequence: { tag: '(3010,006C)', keyword: 'DosimetricObjectiveSequence', vr: 'SQ', vm: [1, 1] },
+    DosimetricObjectiveTypeCodeSequence: { tag: '(3010,006D)', keyword: 'DosimetricObjectiveTypeCodeSequence', vr: 'SQ', vm: [1, 1] },
+    DosimetricObjectiveUID: { tag: '(3010,006E)', keyword: 'DosimetricObjectiveUID', vr: 'UI', vm: [1, 1] },
+    ReferencedDosimetricObjectiveUID: { tag: '(3010,006F)', keyword: 'ReferencedDosimetricObjectiveUID', vr: 'UI', vm: [1, 1] },
+    DosimetricObjectiveParameterSequence: { tag: '(3010,0070)', keyword: 'DosimetricObjectiveParameterSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedDosimetricObjectivesSequence: { tag: '(3010,0071)', keyword: 'ReferencedDosimetricObjectivesSequence', vr: 'SQ', vm: [1, 1] },
+    AbsoluteDosimetricObjectiveFlag: { tag: '(3010,0073)', keyword: 'AbsoluteDosimetricObjectiveFlag', vr: 'CS', vm: [1, 1] },
+    DosimetricObjectiveWeight: { tag: '(3010,0074)', keyword: 'DosimetricObjectiveWeight', vr: 'FD', vm: [1, 1] },
+    DosimetricObjectivePurpose: { tag: '(3010,0075)', keyword: 'DosimetricObjectivePurpose', vr: 'CS', vm: [1, 1] },
+    PlanningInputInformationSequence: { tag: '(3010,0076)', keyword: 'PlanningInputInformationSequence', vr: 'SQ', vm: [1, 1] },
+    TreatmentSite: { tag: '(3010,0077)', keyword: 'TreatmentSite', vr: 'LO', vm: [1, 1] },
+    TreatmentSiteCodeSequence: { tag: '(3010,0078)', keyword: 'TreatmentSiteCodeSequence', vr: 'SQ', vm: [1, 1] },
+    FractionPatternSequence: { tag: '(3010,0079)', keyword: 'FractionPatternSequence', vr: 'SQ', vm: [1, 1] },
+    TreatmentTechniqueNotes: { tag: '(3010,007A)', keyword: 'TreatmentTechniqueNotes', vr: 'UT', vm: [1, 1] },
+    PrescriptionNotes: { tag: '(3010,007B)', keyword: 'PrescriptionNotes', vr: 'UT', vm: [1, 1] },
+    NumberOfIntervalFractions: { tag: '(3010,007C)', keyword: 'NumberOfIntervalFractions', vr: 'IS', vm: [1, 1] },
+    NumberOfFractions: { tag: '(3010,007D)', keyword: 'NumberOfFractions', vr: 'US', vm: [1, 1] },
+    IntendedDeliveryDuration: { tag: '(3010,007E)', keyword: 'IntendedDeliveryDuration', vr: 'US', vm: [1, 1] },
+    FractionationNotes: { tag: '(3010,007F)', keyword: 'FractionationNotes', vr: 'UT', vm: [1, 1] },
+    RTTreatmentTechniqueCodeSequence: { tag: '(3010,0080)', keyword: 'RTTreatmentTechniqueCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PrescriptionNotesSequence: { tag: '(3010,0081)', keyword: 'PrescriptionNotesSequence', vr: 'SQ', vm: [1, 1] },
+    FractionBasedRelationshipSequence: { tag: '(3010,0082)', keyword: 'FractionBasedRelationshipSequence', vr: 'SQ', vm: [1, 1] },
+    FractionBasedRelationshipIntervalAnchor: { tag: '(3010,0083)', keyword: 'FractionBasedRelationshipIntervalAnchor', vr: 'CS', vm: [1, 1] },
+    MinimumHoursBetweenFractions: { tag: '(3010,0084)', keyword: 'MinimumHoursBetweenFractions', vr: 'FD', vm: [1, 1] },
+    IntendedFractionStartTime: { tag: '(3010,0085)', keyword: 'IntendedFractionStartTime', vr: 'TM', vm: [1, null] },
+    IntendedStartDayOfWeek: { tag: '(3010,0086)', keyword: 'IntendedStartDayOfWeek', vr: 'LT', vm: [1, 1] },
+    WeekdayFractionPatternSequence: { tag: '(3010,0087)', keyword: 'WeekdayFractionPatternSequence', vr: 'SQ', vm: [1, 1] },
+    DeliveryTimeStructureCodeSequence: { tag: '(3010,0088)', keyword: 'DeliveryTimeStructureCodeSequence', vr: 'SQ', vm: [1, 1] },
+    TreatmentSiteModifierCodeSequence: { tag: '(3010,0089)', keyword: 'TreatmentSiteModifierCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RoboticBaseLocationIndicator: { tag: '(3010,0090)', keyword: 'RoboticBaseLocationIndicator', vr: 'CS', vm: [1, 1] },
+    RoboticPathNodeSetCodeSequence: { tag: '(3010,0091)', keyword: 'RoboticPathNodeSetCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RoboticNodeIdentifier: { tag: '(3010,0092)', keyword: 'RoboticNodeIdentifier', vr: 'UL', vm: [1, 1] },
+    RTTreatmentSourceCoordinates: { tag: '(3010,0093)', keyword: 'RTTreatmentSourceCoordinates', vr: 'FD', vm: [3, 3] },
+    RadiationSourceCoordinateSystemYawAngle: { tag: '(3010,0094)', keyword: 'RadiationSourceCoordinateSystemYawAngle', vr: 'FD', vm: [1, 1] },
+    RadiationSourceCoordinateSystemRollAngle: { tag: '(3010,0095)', keyword: 'RadiationSourceCoordinateSystemRollAngle', vr: 'FD', vm: [1, 1] },
+    RadiationSourceCoordinateSystemPitchAngle: { tag: '(3010,0096)', keyword: 'RadiationSourceCoordinateSystemPitchAngle', vr: 'FD', vm: [1, 1] },
+    RoboticPathControlPointSequence: { tag: '(3010,0097)', keyword: 'RoboticPathControlPointSequence', vr: 'SQ', vm: [1, 1] },
+    TomotherapeuticControlPointSequence: { tag: '(3010,0098)', keyword: 'TomotherapeuticControlPointSequence', vr: 'SQ', vm: [1, 1] },
+    TomotherapeuticLeafOpenDurations: { tag: '(3010,0099)', keyword: 'TomotherapeuticLeafOpenDurations', vr: 'FD', vm: [1, null] },
+    TomotherapeuticLeafInitialClosedDurations: { tag: '(3010,009A)', keyword: 'TomotherapeuticLeafInitialClosedDurations', vr: 'FD', vm: [1, null] },
+    RETIRED_Arbitrary: { tag: '(4000,0010)', keyword: 'RETIRED_Arbitrary', vr: 'LT', vm: [1, 1] },
+    RETIRED_TextComments: { tag: '(4000,4000)', keyword: 'RETIRED_TextComments', vr: 'LT', vm: [1, 1] },
+    RETIRED_ResultsID: { tag: '(4008,0040)', keyword: 'RETIRED_ResultsID', vr: 'SH', vm: [1, 1] },
+    RETIRED_ResultsIDIssuer: { tag: '(4008,0042)', keyword: 'RETIRED_ResultsIDIssuer', vr: 'LO', vm: [1, 1] },
+    RETIRED_ReferencedInterpretationSequence: { tag: '(4008,0050)', keyword: 'RETIRED_ReferencedInterpretationSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ReportProductionStatusTrial: { tag: '(4008,00FF)', keyword: 'RETIRED_ReportProductionStatusTrial', vr: 'CS', vm: [1, 1] },
+    RETIRED_InterpretationRecordedDate: { tag: '(4008,0100)', keyword: 'RETIRED_InterpretationRecordedDate', vr: 'DA', vm: [1, 1] },
+    RETIRED_InterpretationRecordedTime: { tag: '(4008,0101)', keyword: 'RETIRED_InterpretationRecordedTime', vr: 'TM', vm: [1, 1] },
+    RETIRED_InterpretationRecorder: { tag: '(4008,0102)', keyword: 'RETIRED_InterpretationRecorder', vr: 'PN', vm: [1, 1] },
+    RETIRED_ReferenceToRecordedSound: { tag: '(4008,0103)', keyword: 'RETIRED_ReferenceToRecordedSound', vr: 'LO', vm: [1, 1] },
+    RETIRED_InterpretationTranscriptionDate: { tag: '(4008,0108)', keyword: 'RETIRED_InterpretationTranscriptionDate', vr: 'DA', vm: [1, 1] },
+    RETIRED_InterpretationTranscriptionTime: { tag: '(4008,0109)', keyword: 'RETIRED_InterpretationTranscriptionTime', vr: 'TM', vm: [1, 1] },
+    RETIRED_InterpretationTranscriber: { tag: '(4008,010A)', keyword: 'RETIRED_InterpretationTranscriber', vr: 'PN', vm: [1, 1] },
+    RETIRED_InterpretationText: { tag: '(4008,010B)', keyword: 'RETIRED_InterpretationText', vr: 'ST', vm: [1, 1] },
+    RETIRED_InterpretationAuthor: { tag: '(4008,010C)', keyword: 'RETIRED_InterpretationAuthor', vr: 'PN', vm: [1, 1] },
+    RETIRED_InterpretationApproverSequence: { tag: '(4008,0111)', keyword: 'RETIRED_InterpretationApproverSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_InterpretationApprovalDate: { tag: '(4008,0112)', keyword: 'RETIRED_InterpretationApprovalDate', vr: 'DA', vm: [1, 1] },
+    RETIRED_InterpretationApprovalTime: { tag: '(4008,0113)', keyword: 'RETIRED_InterpretationApprovalTime', vr: 'TM', vm: [1, 1] },
+    RETIRED_PhysicianApprovingInterpretation: { tag: '(4008,0114)', keyword: 'RETIRED_PhysicianApprovingInterpretation', vr: 'PN', vm: [1, 1] },
+    RETIRED_InterpretationDiagnosisDescription: { tag: '(4008,0115)', keyword: 'RETIRED_InterpretationDiagnosisDescription', vr: 'LT', vm: [1, 1] },
+    RETIRED_InterpretationDiagnosisCodeSequence: { tag: '(4008,0117)', keyword: 'RETIRED_InterpretationDiagnosisCodeSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_ResultsDistributionListSequence: { tag: '(4008,0118)', keyword: 'RETIRED_ResultsDistributionListSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_DistributionName: { tag: '(4008,0119)', keyword: 'RETIRED_DistributionName', vr: 'PN', vm: [1, 1] },
+    RETIRED_DistributionAddress: { tag: '(4008,011A)', keyword: 'RETIRED_DistributionAddress', vr: 'LO', vm: [1, 1] },
+    RETIRED_InterpretationID: { tag: '(4008,0200)', keyword: 'RETIRED_InterpretationID', vr: 'SH', vm: [1, 1] },
+    RETIRED_InterpretationIDIssuer: { tag: '(4008,0202)', keyword: 'RETIRED_InterpretationIDIssuer', vr: 'LO', vm: [1, 1] },
+    RETIRED_InterpretationTypeID: { tag: '(4008,0210)', keyword: 'RETIRED_InterpretationTypeID', vr: 'CS', vm: [1, 1] },
+    RETIRED_InterpretationStatusID: { tag: '(4008,0212)', keyword: 'RETIRED_InterpretationStatusID', vr: 'CS', vm: [1, 1] },
+    RETIRED_Impressions: { tag: '(4008,0300)', keyword: 'RETIRED_Impressions', vr: 'ST', vm: [1, 1] },
+    RETIRED_ResultsComments: { tag: '(4008,4000)', keyword: 'RETIRED_ResultsComments', vr: 'ST', vm: [1, 1] },
+    LowEnergyDetectors: { tag: '(4010,0001)', keyword: 'LowEnergyDetectors', vr: 'CS', vm: [1, 1] },
+    HighEnergyDetectors: { tag: '(4010,0002)', keyword: 'HighEnergyDetectors', vr: 'CS', vm: [1, 1] },
+    DetectorGeometrySequence: { tag: '(4010,0004)', keyword: 'DetectorGeometrySequence', vr: 'SQ', vm: [1, 1] },
+    ThreatROIVoxelSequence: { tag: '(4010,1001)', keyword: 'ThreatROIVoxelSequence', vr: 'SQ', vm: [1, 1] },
+    ThreatROIBase: { tag: '(4010,1004)', keyword: 'ThreatROIBase', vr: 'FL', vm: [3, 3] },
+    ThreatROIExtents: { tag: '(4010,1005)', keyword: 'ThreatROIExtents', vr: 'FL', vm: [3, 3] },
+    ThreatROIBitmap: { tag: '(4010,1006)', keyword: 'ThreatROIBitmap', vr: 'OB', vm: [1, 1] },
+    RouteSegmentID: { tag: '(4010,1007)', keyword: 'RouteSegmentID', vr: 'SH', vm: [1, 1] },
+    GantryType: { tag: '(4010,1008)', keyword: 'GantryType', vr: 'CS', vm: [1, 1] },
+    OOIOwnerType: { tag: '(4010,1009)', keyword: 'OOIOwnerType', vr: 'CS', vm: [1, 1] },
+    RouteSegmentSequence: { tag: '(4010,100A)', keyword: 'RouteSegmentSequence', vr: 'SQ', vm: [1, 1] },
+    PotentialThreatObjectID: { tag: '(4010,1010)', keyword: 'PotentialThreatObjectID', vr: 'US', vm: [1, 1] },
+    ThreatSequence: { tag: '(4010,1011)', keyword: 'ThreatSequence', vr: 'SQ', vm: [1, 1] },
+    ThreatCategory: { tag: '(4010,1012)', keyword: 'ThreatCategory', vr: 'CS', vm: [1, 1] },
+    ThreatCategoryDescription: { tag: '(4010,1013)', keyword: 'ThreatCategoryDescription', vr: 'LT', vm: [1, 1] },
+    ATDAbilityAssessment: { tag: '(4010,1014)', keyword: 'ATDAbilityAssessment', vr: 'CS', vm: [1, 1] },
+    ATDAssessmentFlag: { tag: '(4010,1015)', keyword: 'ATDAssessmentFlag', vr: 'CS', vm: [1, 1] },
+    ATDAssessmentProbability: { tag: '(4010,1016)', keyword: 'ATDAssessmentProbability', vr: 'FL', vm: [1, 1] },
+    Mass: { tag: '(4010,1017)', keyword: 'Mass', vr: 'FL', vm: [1, 1] },
+    Density: { tag: '(4010,1018)', keyword: 'Density', vr: 'FL', vm: [1, 1] },
+    ZEffective: { tag: '(4010,1019)', keyword: 'ZEffective', vr: 'FL', vm: [1, 1] },
+    BoardingPassID: { tag: '(4010,101A)', keyword: 'BoardingPassID', vr: 'SH', vm: [1, 1] },
+    CenterOfMass: { tag: '(4010,101B)', keyword: 'CenterOfMass', vr: 'FL', vm: [3, 3] },
+    CenterOfPTO: { tag: '(4010,101C)', keyword: 'CenterOfPTO', vr: 'FL', vm: [3, 3] },
+    BoundingPolygon: { tag: '(4010,101D)', keyword: 'BoundingPolygon', vr: 'FL', vm: [6, null] },
+    RouteSegmentStartLocationID: { tag: '(4010,101E)', keyword: 'RouteSegmentStartLocationID', vr: 'SH', vm: [1, 1] },
+    RouteSegmentEndLocationID: { tag: '(4010,101F)', keyword: 'RouteSegmentEndLocationID', vr: 'SH', vm: [1, 1] },
+    RouteSegmentLocationIDType: { tag: '(4010,1020)', keyword: 'RouteSegmentLocationIDType', vr: 'CS', vm: [1, 1] },
+    AbortReason: { tag: '(4010,1021)', keyword: 'AbortReason', vr: 'CS', vm: [1, null] },
+    VolumeOfPTO: { tag: '(4010,1023)', keyword: 'VolumeOfPTO', vr: 'FL', vm: [1, 1] },
+    AbortFlag: { tag: '(4010,1024)', keyword: 'AbortFlag', vr: 'CS', vm: [1, 1] },
+    RouteSegmentStartTime: { tag: '(4010,1025)', keyword: 'RouteSegmentStartTime', vr: 'DT', vm: [1, 1] },
+    RouteSegmentEndTime: { tag: '(4010,1026)', keyword: 'RouteSegmentEndTime', vr: 'DT', vm: [1, 1] },
+    TDRType: { tag: '(4010,1027)', keyword: 'TDRType', vr: 'CS', vm: [1, 1] },
+    InternationalRouteSegment: { tag: '(4010,1028)', keyword: 'InternationalRouteSegment', vr: 'CS', vm: [1, 1] },
+    ThreatDetectionAlgorithmAndVersion: { tag: '(4010,1029)', keyword: 'ThreatDetectionAlgorithmAndVersion', vr: 'LO', vm: [1, null] },
+    AssignedLocation: { tag: '(4010,102A)', keyword: 'AssignedLocation', vr: 'SH', vm: [1, 1] },
+    AlarmDecisionTime: { tag: '(4010,102B)', keyword: 'AlarmDecisionTime', vr: 'DT', vm: [1, 1] },
+    AlarmDecision: { tag: '(4010,1031)', keyword: 'AlarmDecision', vr: 'CS', vm: [1, 1] },
+    NumberOfTotalObjects: { tag: '(4010,1033)', keyword: 'NumberOfTotalObjects', vr: 'US', vm: [1, 1] },
+    NumberOfAlarmObjects: { tag: '(4010,1034)', keyword: 'NumberOfAlarmObjects', vr: 'US', vm: [1, 1] },
+    PTORepresentationSequence: { tag: '(4010,1037)', keyword: 'PTORepresentationSequence', vr: 'SQ', vm: [1, 1] },
+    ATDAssessmentSequence: { tag: '(4010,1038)', keyword: 'ATDAssessmentSequence', vr: 'SQ', vm: [1, 1] },
+    TIPType: { tag: '(4010,1039)', keyword: 'TIPType', vr: 'CS', vm: [1, 1] },
+    DICOSVersion: { tag: '(4010,103A)', keyword: 'DICOSVersion', vr: 'CS', vm: [1, 1] },
+    OOIOwnerCreationTime: { tag: '(4010,1041)', keyword: 'OOIOwnerCreationTime', vr: 'DT', vm: [1, 1] },
+    OOIType: { tag: '(4010,1042)', keyword: 'OOIType', vr: 'CS', vm: [1, 1] },
+    OOISize: { tag: '(4010,1043)', keyword: 'OOISize', vr: 'FL', vm: [3, 3] },
+    AcquisitionStatus: { tag: '(4010,1044)', keyword: 'AcquisitionStatus', vr: 'CS', vm: [1, 1] },
+    BasisMaterialsCodeSequence: { tag: '(4010,1045)', keyword: 'BasisMaterialsCodeSequence', vr: 'SQ', vm: [1, 1] },
+    PhantomType: { tag: '(4010,1046)', keyword: 'PhantomType', vr: 'CS', vm: [1, 1] },
+    OOIOwnerSequence: { tag: '(4010,1047)', keyword: 'OOIOwnerSequence', vr: 'SQ', vm: [1, 1] },
+    ScanType: { tag: '(4010,1048)', keyword: 'ScanType', vr: 'CS', vm: [1, 1] },
+    ItineraryID: { tag: '(4010,1051)', keyword: 'ItineraryID', vr: 'LO', vm: [1, 1] },
+    ItineraryIDType: { tag: '(4010,1052)', keyword: 'ItineraryIDType', vr: 'SH', vm: [1, 1] },
+    ItineraryIDAssigningAuthority: { tag: '(4010,1053)', keyword: 'ItineraryIDAssigningAuthority', vr: 'LO', vm: [1, 1] },
+    RouteID: { tag: '(4010,1054)', keyword: 'RouteID', vr: 'SH', vm: [1, 1] },
+    RouteIDAssigningAuthority: { tag: '(4010,1055)', keyword: 'RouteIDAssigningAuthority', vr: 'SH', vm: [1, 1] },
+    InboundArrivalType: { tag: '(4010,1056)', keyword: 'InboundArrivalType', vr: 'CS', vm: [1, 1] },
+    CarrierID: { tag: '(4010,1058)', keyword: 'CarrierID', vr: 'SH', vm: [1, 1] },
+    CarrierIDAssigningAuthority: { tag: '(4010,1059)', keyword: 'CarrierIDAssigningAuthority', vr: 'CS', vm: [1, 1] },
+    SourceOrientation: { tag: '(4010,1060)', keyword: 'SourceOrientation', vr: 'FL', vm: [3, 3] },
+    SourcePosition: { tag: '(4010,1061)', keyword: 'SourcePosition', vr: 'FL', vm: [3, 3] },
+    BeltHeight: { tag: '(4010,1062)', keyword: 'BeltHeight', vr: 'FL', vm: [1, 1] },
+    AlgorithmRoutingCodeSequence: { tag: '(4010,1064)', keyword: 'AlgorithmRoutingCodeSequence', vr: 'SQ', vm: [1, 1] },
+    TransportClassification: { tag: '(4010,1067)', keyword: 'TransportClassification', vr: 'CS', vm: [1, 1] },
+    OOITypeDescriptor: { tag: '(4010,1068)', keyword: 'OOITypeDescriptor', vr: 'LT', vm: [1, 1] },
+    TotalProcessingTime: { tag: '(4010,1069)', keyword: 'TotalProcessingTime', vr: 'FL', vm: [1, 1] },
+    DetectorCalibrationData: { tag: '(4010,106C)', keyword: 'DetectorCalibrationData', vr: 'OB', vm: [1, 1] },
+    AdditionalScreeningPerformed: { tag: '(4010,106D)', keyword: 'AdditionalScreeningPerformed', vr: 'CS', vm: [1, 1] },
+    AdditionalInspectionSelectionCriteria: { tag: '(4010,106E)', keyword: 'AdditionalInspectionSelectionCriteria', vr: 'CS', vm: [1, 1] },
+    AdditionalInspectionMethodSequence: { tag: '(4010,106F)', keyword: 'AdditionalInspectionMethodSequence', vr: 'SQ', vm: [1, 1] },
+    AITDeviceType: { tag: '(4010,1070)', keyword: 'AITDeviceType', vr: 'CS', vm: [1, 1] },
+    QRMeasurementsSequence: { tag: '(4010,1071)', keyword: 'QRMeasurementsSequence', vr: 'SQ', vm: [1, 1] },
+    TargetMaterialSequence: { tag: '(4010,1072)', keyword: 'TargetMaterialSequence', vr: 'SQ', vm: [1, 1] },
+    SNRThreshold: { tag: '(4010,1073)', keyword: 'SNRThreshold', vr: 'FD', vm: [1, 1] },
+    ImageScaleRepresentation: { tag: '(4010,1075)', keyword: 'ImageScaleRepresentation', vr: 'DS', vm: [1, 1] },
+    ReferencedPTOSequence: { tag: '(4010,1076)', keyword: 'ReferencedPTOSequence', vr: 'SQ', vm: [1, 1] },
+    ReferencedTDRInstanceSequence: { tag: '(4010,1077)', keyword: 'ReferencedTDRInstanceSequence', vr: 'SQ', vm: [1, 1] },
+    PTOLocationDescription: { tag: '(4010,1078)', keyword: 'PTOLocationDescription', vr: 'ST', vm: [1, 1] },
+    AnomalyLocatorIndicatorSequence: { tag: '(4010,1079)', keyword: 'AnomalyLocatorIndicatorSequence', vr: 'SQ', vm: [1, 1] },
+    AnomalyLocatorIndicator: { tag: '(4010,107A)', keyword: 'AnomalyLocatorIndicator', vr: 'FL', vm: [3, 3] },
+    PTORegionSequence: { tag: '(4010,107B)', keyword: 'PTORegionSequence', vr: 'SQ', vm: [1, 1] },
+    InspectionSelectionCriteria: { tag: '(4010,107C)', keyword: 'InspectionSelectionCriteria', vr: 'CS', vm: [1, 1] },
+    SecondaryInspectionMethodSequence: { tag: '(4010,107D)', keyword: 'SecondaryInspectionMethodSequence', vr: 'SQ', vm: [1, 1] },
+    PRCSToRCSOrientation: { tag: '(4010,107E)', keyword: 'PRCSToRCSOrientation', vr: 'DS', vm: [6, 6] },
+    MACParametersSequence: { tag: '(4FFE,0001)', keyword: 'MACParametersSequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_CurveDimensions: { tag: '(50FF,0005)', keyword: 'RETIRED_CurveDimensions', vr: 'US', vm: [1, 1] },
+    RETIRED_NumberOfPoints: { tag: '(50FF,0010)', keyword: 'RETIRED_NumberOfPoints', vr: 'US', vm: [1, 1] },
+    RETIRED_TypeOfData: { tag: '(50FF,0020)', keyword: 'RETIRED_TypeOfData', vr: 'CS', vm: [1, 1] },
+    RETIRED_CurveDescription: { tag: '(50FF,0022)', keyword: 'RETIRED_CurveDescription', vr: 'LO', vm: [1, 1] },
+    RETIRED_AxisUnits: { tag: '(50FF,0030)', keyword: 'RETIRED_AxisUnits', vr: 'SH', vm: [1, null] },
+    RETIRED_AxisLabels: { tag: '(50FF,0040)', keyword: 'RETIRED_AxisLabels', vr: 'SH', vm: [1, null] },
+    RETIRED_DataValueRepresentation: { tag: '(50FF,0103)', keyword: 'RETIRED_DataValueRepresentation', vr: 'US', vm: [1, 1] },
+    RETIRED_MinimumCoordinateValue: { tag: '(50FF,0104)', keyword: 'RETIRED_MinimumCoordinateValue', vr: 'US', vm: [1, null] },
+    RETIRED_MaximumCoordinateValue: { tag: '(50FF,0105)', keyword: 'RETIRED_MaximumCoordinateValue', vr: 'US', vm: [1, null] },
+    RETIRED_CurveRange: { tag: '(50FF,0106)', keyword: 'RETIRED_CurveRange', vr: 'SH', vm: [1, null] },
+    RETIRED_CurveDataDescriptor: { tag: '(50FF,0110)', keyword: 'RETIRED_CurveDataDescriptor', vr: 'US', vm: [1, null] },
+    RETIRED_CoordinateStartValue: { tag: '(50FF,0112)', keyword: 'RETIRED_CoordinateStartValue', vr: 'US', vm: [1, null] },
+    RETIRED_CoordinateStepValue: { tag: '(50FF,0114)', keyword: 'RETIRED_CoordinateStepValue', vr: 'US', vm: [1, null] },
+    RETIRED_CurveActivationLayer: { tag: '(50FF,1001)', keyword: 'RETIRED_CurveActivationLayer', vr: 'CS', vm: [1, 1] },
+    RETIRED_AudioType: { tag: '(50FF,2000)', keyword: 'RETIRED_AudioType', vr: 'US', vm: [1, 1] },
+    RETIRED_AudioSampleFormat: { tag: '(50FF,2002)', keyword: 'RETIRED_AudioSampleFormat', vr: 'US', vm: [1, 1] },
+    RETIRED_NumberOfChannels: { tag: '(50FF,2004)', keyword: 'RETIRED_NumberOfChannels', vr: 'US', vm: [1, 1] },
+    RETIRED_NumberOfSamples: { tag: '(50FF,2006)', keyword: 'RETIRED_NumberOfSamples', vr: 'UL', vm: [1, 1] },
+    RETIRED_SampleRate: { tag: '(50FF,2008)', keyword: 'RETIRED_SampleRate', vr: 'UL', vm: [1, 1] },
+    RETIRED_TotalTime: { tag: '(50FF,200A)', keyword: 'RETIRED_TotalTime', vr: 'UL', vm: [1, 1] },
+    RETIRED_AudioSampleData: { tag: '(50FF,200C)', keyword: 'RETIRED_AudioSampleData', vr: 'OW', vm: [1, 1] },
+    RETIRED_AudioComments: { tag: '(50FF,200E)', keyword: 'RETIRED_AudioComments', vr: 'LT', vm: [1, 1] },
+    RETIRED_CurveLabel: { tag: '(50FF,2500)', keyword: 'RETIRED_CurveLabel', vr: 'LO', vm: [1, 1] },
+    RETIRED_CurveReferencedOverlaySequence: { tag: '(50FF,2600)', keyword: 'RETIRED_CurveReferencedOverlaySequence', vr: 'SQ', vm: [1, 1] },
+    RETIRED_CurveReferencedOverlayGroup: { tag: '(50FF,2610)', keyword: 'RETIRED_CurveReferencedOverlayGroup', vr: 'US', vm: [1, 1] },
+    RETIRED_CurveData: { tag: '(50FF,3000)', keyword: 'RETIRED_CurveData', vr: 'OW', vm: [1, 1] },
+    SharedFunctionalGroupsSequence: { tag: '(5200,9229)', keyword: 'SharedFunctionalGroupsSequence', vr: 'SQ', vm: [1, 1] },
+    PerFrameFunctionalGroupsSequence: { tag: '(5200,9230)', keyword: 'PerFrameFunctionalGroupsSequence', vr: 'SQ', vm: [1, 1] },
+    WaveformSequence: { tag: '(5400,0100)', keyword: 'WaveformSequence', vr: 'SQ', vm: [1, 1] },
+    ChannelMinimumValue: { tag: '(5400,0110)', keyword: 'ChannelMinimumValue', vr: 'OW', vm: [1, 1] },
+    ChannelMaximumValue: { tag: '(5400,0112)', keyword: 'ChannelMaximumValue', vr: 'OW', vm: [1, 1] },
+    WaveformBitsAllocated: { tag: '(5400,1004)', keyword: 'WaveformBitsAllocated', vr: 'US', vm: [1, 1] },
+    WaveformSampleInterpretation: { tag: '(5400,1006)', keyword: 'WaveformSampleInterpretation', vr: 'CS', vm: [1, 1] },
+    WaveformPaddingValue: { tag: '(5400,100A)', keyword: 'WaveformPaddingValue', vr: 'OW', vm: [1, 1] },
+    WaveformData: { tag: '(5400,1010)', keyword: 'WaveformData', vr: 'OW', vm: [1, 1] },
+    FirstOrderPhaseCorrectionAngle: { tag: '(5600,0010)', keyword: 'FirstOrderPhaseCorrectionAngle', vr: 'OF', vm: [1, 1] },
+    SpectroscopyData: { tag: '(5600,0020)', keyword: 'SpectroscopyData', vr: 'OF', vm: [1, 1] },
+    OverlayRows: { tag: '(60FF,0010)', keyword: 'OverlayRows', vr: 'US', vm: [1, 1] },
+    OverlayColumns: { tag: '(60FF,0011)', keyword: 'OverlayColumns', vr: 'US', vm: [1, 1] },
+    RETIRED_OverlayPlanes: { tag: '(60FF,0012)', keyword: 'RETIRED_OverlayPlanes', vr: 'US', vm: [1, 1] },
+    NumberOfFramesInOverlay: { tag: '(60FF,0015)', keyword: 'NumberOfFramesInOverlay', vr: 'IS', vm: [1, 1] },
+    OverlayDescription: { tag: '(60FF,0022)', keyword: 'OverlayDescription', vr: 'LO', vm: [1, 1] },
+    OverlayType: { tag: '(60FF,0040)', keyword: 'OverlayType', vr: 'CS', vm: [1, 1] },
+    OverlaySubtype: { tag: '(60FF,0045)', keyword: 'OverlaySubtype', vr: 'LO', vm: [1, 1] },
+    OverlayOrigin: { tag: '(60FF,0050)', keyword: 'OverlayOrigin', vr: 'SS', vm: [2, 2] },
+    ImageFrameOrigin: { tag: '(60FF,0051)', keyword: 'ImageFrameOrigin', vr: 'US', vm: [1, 1] },
+    RETIRED_OverlayPlaneOrigin: { tag: '(60FF,0052)', keyword: 'RETIRED_OverlayPlaneOrigin', vr: 'US', vm: [1, 1] },
+    RETIRED_OverlayCompressionCode: { tag: '(60FF,0060)', keyword: 'RETIRED_OverlayCompressionCode', vr: 'CS', vm: [1, 1] },
+    RETIRED_OverlayCompressionOriginator: { tag: '(60FF,0061)', keyword: 'RETIRED_OverlayCompressionOriginator', vr: 'SH', vm: [1, 1] },
+    RETIRED_OverlayCompressionLabel: { tag: '(60FF,0062)', keyword: 'RETIRED_OverlayCompressionLabel', vr: 'SH', vm: [1, 1] },
+    RETIRED_OverlayCompressionDescription: { tag: '(60FF,0063)', keyword: 'RETIRED_OverlayCompressionDescription', vr: 'CS', vm: [1, 1] },
+    RETIRED_OverlayCompressionStepPointers: { tag: '(60FF,0066)', keyword: 'RETIRED_OverlayCompressionStepPointers', vr: 'AT', vm: [1, null] },
+    RETIRED_OverlayRepeatInterval: { tag: '(60FF,0068)', keyword: 'RETIRED_OverlayRepeatInterval', vr: 'US', vm: [1, 1] },
+    RETIRED_OverlayBitsGrouped: { tag: '(60FF,0069)', keyword: 'RETIRED_OverlayBitsGrouped', vr: 'US', vm: [1, 1] },
+    OverlayBitsAllocated: { tag: '(60FF,0100)', keyword: 'OverlayBitsAllocated', vr: 'US', vm: [1, 1] },
+    OverlayBitPosition: { tag: '(60FF,0102)', keyword: 'OverlayBitPosition', vr: 'US', vm: [1, 1] },
+    RETIRED_OverlayFormat: { tag: '(60FF,0110)', keyword: 'RETIRED_OverlayFormat', vr: 'CS', vm: [1, 1] },
+    RETIRED_OverlayLocation: { tag: '(60FF,0200)', keyword: 'RETIRED_OverlayLocation', vr: 'US', vm: [1, 1] },
+    RETIRED_OverlayCodeLabel: { tag: '(60FF,0800)', keyword: 'RETIRED_OverlayCodeLabel', vr: 'CS', vm: [1, null] },
+    RETIRED_OverlayNumberOfTables: { tag: '(60FF,0802)', keyword: 'RETIRED_OverlayNumberOfTables', vr: 'US', vm: [1, 1] },
+    RETIRED_OverlayCodeTableLocation: { tag: '(60FF,0803)', keyword: 'RETIRED_OverlayCodeTableLocation', vr: 'AT', vm: [1, null] },
+    RETIRED_OverlayBitsForCodeWord: { tag: '(60FF,0804)', keyword: 'RETIRED_OverlayBitsForCodeWord', vr: 'US', vm: [1, 1] },
+    OverlayActivationLayer: { tag: '(60FF,1001)', keyword: 'OverlayActivationLayer', vr: 'CS', vm: [1, 1] },
+    RETIRED_OverlayDescriptorGray: { tag: '(60FF,1100)', keyword: 'RETIRED_OverlayDescriptorGray', vr: 'US', vm: [1, 1] },
+    RETIRED_OverlayDescriptorRed: { tag: '(60FF,1101)', keyword: 'RETIRED_OverlayDescriptorRed', vr: 'US', vm: [1, 1] },
+    RETIRED_OverlayDescriptorGreen: { tag: '(60FF,1102)', keyword: 'RETIRED_OverlayDescriptorGreen', vr: 'US', vm: [1, 1] },
+    RETIRED_OverlayDescriptorBlue: { tag: '(60FF,1103)', keyword: 'RETIRED_OverlayDescriptorBlue', vr: 'US', vm: [1, 1] },
+    RETIRED_OverlaysGray: { tag: '(60FF,1200)', keyword: 'RETIRED_OverlaysGray', vr: 'US', vm: [1, null] },
+    RETIRED_OverlaysRed: { tag: '(60FF,1201)', keyword: 'RETIRED_OverlaysRed', vr: 'US', vm: [1, null] },
+    RETIRED_OverlaysGreen: { tag: '(60FF,1202)', keyword: 'RETIRED_OverlaysGreen', vr: 'US', vm: [1, null] },
+    RETIRED_OverlaysBlue: { tag: '(60FF,1203)', keyword: 'RETIRED_OverlaysBlue', vr: 'US', vm: [1, null] },
+    ROIArea: { tag: '(60FF,1301)', keyword: 'ROIArea', vr: 'IS', vm: [1, 1] },
+    ROIMean: { tag: '(60FF,1302)', keyword: 'ROIMean', vr: 'DS', vm: [1, 1] },
+    ROIStandardDeviation: { tag: '(60FF,1303)', keyword: 'ROIStandardDeviation', vr: 'DS', vm: [1, 1] },
+    OverlayLabel: { tag: '(60FF,1500)', keyword: 'OverlayLabel', vr: 'LO', vm: [1, 1] },
+    OverlayData: { tag: '(60FF,3000)', keyword: 'OverlayData', vr: 'OW', vm: [1, 1] },
+    RETIRED_OverlayComments: { tag: '(60FF,4000)', keyword: 'RETIRED_OverlayComments', vr: 'LT', vm: [1, 1] },
+    ExtendedOffsetTable: { tag: '(7FE0,0001)', keyword: 'ExtendedOffsetTable', vr: 'OV', vm: [1, 1] },
+    ExtendedOffsetTableLengths: { tag: '(7FE0,0002)', keyword: 'ExtendedOffsetTableLengths', vr: 'OV', vm: [1, 1] },
+    FloatPixelData: { tag: '(7FE0,0008)', keyword: 'FloatPixelData', vr: 'OF', vm: [1, 1] },
+    DoubleFloatPixelData: { tag: '(7FE0,0009)', keyword: 'DoubleFloatPixelData', vr: 'OD', vm: [1, 1] },
+    PixelData: { tag: '(7FE0,0010)', keyword: 'PixelData', vr: 'OW', vm: [1, 1] },
+    RETIRED_CoefficientsSDVN: { tag: '(7FE0,0020)', keyword: 'RETIRED_CoefficientsSDVN', vr: 'OW', vm: [1, 1] },
+    RETIRED_CoefficientsSDHN: { tag: '(7FE0,0030)', keyword: 'RETIRED_CoefficientsSDHN', vr: 'OW', vm: [1, 1] },
+    RETIRED_CoefficientsSDDN: { tag: '(7FE0,0040)', keyword: 'RETIRED_CoefficientsSDDN', vr: 'OW', vm: [1, 1] },
+    RETIRED_VariablePixelData: { tag: '(7FFF,0010)', keyword: 'RETIRED_VariablePixelData', vr: 'OW', vm: [1, 1] },
+    RETIRED_VariableNextDataGroup: { tag: '(7FFF,0011)', keyword: 'RETIRED_VariableNextDataGroup', vr: 'US', vm: [1, 1] },
+    RETIRED_VariableCoefficientsSDVN: { tag: '(7FFF,0020)', keyword: 'RETIRED_VariableCoefficientsSDVN', vr: 'OW', vm: [1, 1] },
+    RETIRED_VariableCoefficientsSDHN: { tag: '(7FFF,0030)', keyword: 'RETIRED_VariableCoefficientsSDHN', vr: 'OW', vm: [1, 1] },
+    RETIRED_VariableCoefficientsSDDN: { tag: '(7FFF,0040)', keyword: 'RETIRED_VariableCoefficientsSDDN', vr: 'OW', vm: [1, 1] },
+    DigitalSignaturesSequence: { tag: '(FFFA,FFFA)', keyword: 'DigitalSignaturesSequence', vr: 'SQ', vm: [1, 1] },
+    DataSetTrailingPadding: { tag: '(FFFC,FFFC)', keyword: 'DataSetTrailingPadding', vr: 'OB', vm: [1, 1] },
+    PrivateGroupLength: { tag: '(FFFF,0000)', keyword: 'PrivateGroupLength', vr: 'UL', vm: [1, 1] },
+    PrivateCreator: { tag: '(FFFF,0010)', keyword: 'PrivateCreator', vr: 'LO', vm: [1, 1] },
+} as const satisfies Readonly<Record<string, TagDefinition>>;
+
+/** A keyword in the {@link Tags} catalog, e.g. `'PatientName'`. */
+type TagKeyword = keyof typeof Tags;
+
+export { Tags };
+export type { TagKeyword };
@@ -1,7 +1,10 @@
 import { describe, it, expect } from 'vitest';
 import { ChangeSet } from './ChangeSet';
+import type { SequenceItem } from './ChangeSet';
+import { DicomDataset } from './DicomDataset';
 import type { DicomTagPath } from '../brands';
-import { MAX_CHANGESET_OPERATIONS } from '../constants';
+import { MAX_CHANGESET_OPERATIONS, MAX_TRAVERSAL_DEPTH } from '../constants';
+import { clearPrivateDictionaries, registerPrivateDictionary } from './privateDictionary';
 
 const path = (s: string): DicomTagPath => s as DicomTagPath;
 
@@ -52,6 +55,21 @@ describe('ChangeSet', () => {
             expect(cs.modifications.get('(0010,0010)')).toBe('Value\\Multi');
         });
 
+        it('stores keyword paths under their hex tag', () => {
+            const cs = ChangeSet.empty().setTag(path('PatientName'), 'A').setTag(path('(0010,0010)'), 'B');
+            expect(cs.modifications.size).toBe(1);
+            expect(cs.modifications.get('(0010,0010)')).toBe('B');
+        });
+
+        it('resolves nested keyword paths for dcmodify', () => {
+            const cs = ChangeSet.empty().setTag(path('ReferencedSeriesSequence[0].SeriesInstanceUID'), '1.2.3');
+            expect(cs.toModifications()).toEqual([{ tag: '(0008,1115)[0].(0020,000E)', value: '1.2.3' }]);
+        });
+
+        it('throws with a suggestion for unknown keywords', () => {
+            expect(() => ChangeSet.empty().setTag(path('PatientNam'), 'A')).toThrow(/Did you mean "PatientName"/);
+        });
+
         it('removes tag from erasures set', () => {
             const cs = ChangeSet.empty().eraseTag(path('(0010,0010)')).setTag(path('(0010,0010)'), 'NewValue');
             expect(cs.erasures.has('(0010,0010)')).toBe(false);
@@ -69,6 +87,52 @@ describe('ChangeSet', () => {
         });
     });
 
+    describe('setTagStrict()', () => {
+        it('sets values that conform to the VR and VM', () => {
+            const result = ChangeSet.empty().setTagStrict(path('StudyDate'), '20240115');
+            expect(result.ok && result.value.modifications.get('(0008,0020)')).toBe('20240115');
+        });
+
+        it('validates the sanitized value', () => {
+            const result = ChangeSet.empty().setTagStrict(path('PatientID'), 'ID\x00-1');
+            expect(result.ok && result.value.modifications.get('(0010,0020)')).toBe('ID-1');
+        });
+
+        it('names the attribute in errors', () => {
+            const result = ChangeSet.empty().setTagStrict(path('StudyDate'), '2024-01-15');
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toMatch(/^StudyDate \(0008,0020\): Invalid DA value "2024-01-15"/);
+        });
+
+        it('rejects values that break the VM', () => {
+            const result = ChangeSet.empty().setTagStrict(path('PatientID'), 'A\\B');
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toBe('PatientID (0010,0020): 2 value(s) given, but VM is 1');
+        });
+
+        it('validates the last tag of a nested path', () => {
+            expect(ChangeSet.empty().setTagStrict(path('ReferencedSeriesSequence[0].SeriesInstanceUID'), '1.2.3').ok).toBe(true);
+            expect(ChangeSet.empty().setTagStrict(path('ReferencedSeriesSequence[0].SeriesInstanceUID'), '1.02.3').ok).toBe(false);
+        });
+
+        it('only accepts empty values for sequence item paths', () => {
+            expect(ChangeSet.empty().setTagStrict(path('ReferencedSeriesSequence[0]'), '').ok).toBe(true);
+            expect(ChangeSet.empty().setTagStrict(path('ReferencedSeriesSequence[0]'), 'x').ok).toBe(false);
+        });
+
+        it('rejects tags without a dictionary entry', () => {
+            const result = ChangeSet.empty().setTagStrict(path('(0009,1001)'), 'x');
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toMatch(/not in the data dictionary/);
+        });
+
+        it('returns invalid paths as errors', () => {
+            const result = ChangeSet.empty().setTagStrict(path('PatientNam'), 'A');
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toMatch(/Did you mean "PatientName"/);
+        });
+    });
+
     describe('eraseTag()', () => {
         it('adds tag to erasures set', () => {
             const cs = ChangeSet.empty().eraseTag(path('(0010,0020)'));
@@ -81,6 +145,12 @@ describe('ChangeSet', () => {
             expect(cs.erasures.has('(0010,0010)')).toBe(true);
         });
 
+        it('stores keyword paths under their hex tag', () => {
+            const cs = ChangeSet.empty().setTag(path('(0010,0020)'), 'X').eraseTag(path('PatientID'));
+            expect(cs.modifications.size).toBe(0);
+            expect(cs.toErasureArgs()).toEqual(['(0010,0020)']);
+        });
+
         it('is idempotent', () => {
             const cs = ChangeSet.empty().eraseTag(path('(0010,0010)')).eraseTag(path('(0010,0010)'));
             expect(cs.erasures.size).toBe(1);
@@ -92,6 +162,269 @@ describe('ChangeSet', () => {
         });
     });
 
+    describe('addItem()', () => {
+        it('writes item elements under the indexed item path', () => {
+            const cs = ChangeSet.empty().addItem('OtherPatientIDsSequence', 0, { PatientID: 'MRN-2', '(0010,0021)': 'HOSP' });
+            expect(cs.modifications.get('(0010,1002)[0].(0010,0020)')).toBe('MRN-2');
+            expect(cs.modifications.get('(0010,1002)[0].(0010,0021)')).toBe('HOSP');
+        });
+
+        it('writes nested sequences as deeper item paths', () => {
+            const cs = ChangeSet.empty().addItem('ReferencedSeriesSequence', 1, {
+                SeriesInstanceUID: '1.2.3',
+                ReferencedInstanceSequence: [{ ReferencedSOPInstanceUID: '1.2.3.1' }, { ReferencedSOPInstanceUID: '1.2.3.2' }],
+            });
+            expect([...cs.modifications.keys()]).toEqual([
+                '(0008,1115)[1].(0020,000E)',
+                '(0008,1115)[1].(0008,114A)[0].(0008,1155)',
+                '(0008,1115)[1].(0008,114A)[1].(0008,1155)',
+            ]);
+        });
+
+        it('creates an empty item through an empty item path value', () => {
+            const cs = ChangeSet.empty().addItem('(0008,1115)[0].(0008,114A)', 2);
+            expect(cs.modifications.get('(0008,1115)[0].(0008,114A)[2]')).toBe('');
+        });
+
+        it('sanitizes item values', () => {
+            const cs = ChangeSet.empty().addItem('OtherPatientIDsSequence', 0, { PatientID: 'A\x00B' });
+            expect(cs.modifications.get('(0010,1002)[0].(0010,0020)')).toBe('AB');
+        });
+
+        it('removes matching paths from erasures', () => {
+            const cs = ChangeSet.empty().eraseTag('(0010,1002)[0].(0010,0020)').addItem('OtherPatientIDsSequence', 0, { PatientID: 'X' });
+            expect(cs.erasures.size).toBe(0);
+        });
+
+        it('rejects invalid indices, paths and keys', () => {
+            expect(() => ChangeSet.empty().addItem('OtherPatientIDsSequence', -1)).toThrow('Invalid sequence item index');
+            expect(() => ChangeSet.empty().addItem('OtherPatientIDsSequence', 1.5)).toThrow('Invalid sequence item index');
+            expect(() => ChangeSet.empty().addItem('OtherPatientIDsSequence[0]', 0)).toThrow('must not end in an item index');
+            expect(() => ChangeSet.empty().addItem('OtherPatientIDsSequence', 0, { 'PatientID[0]': 'x' })).toThrow('Invalid sequence item key');
+            expect(() => ChangeSet.empty().addItem('OtherPatientIDsSequence', 0, { NotAKeyword: 'x' })).toThrow();
+        });
+
+        it('rejects empty nested sequences', () => {
+            expect(() => ChangeSet.empty().addItem('ReferencedSeriesSequence', 0, { ReferencedInstanceSequence: [] })).toThrow(
+                'Cannot add an empty sequence at (0008,1115)[0].(0008,114A)'
+            );
+        });
+
+        it('rejects nesting deeper than MAX_TRAVERSAL_DEPTH', () => {
+            let item: SequenceItem = { PatientID: 'x' };
+            for (let i = 0; i <= MAX_TRAVERSAL_DEPTH; i++) item = { OtherPatientIDsSequence: [item] };
+            expect(() => ChangeSet.empty().addItem('OtherPatientIDsSequence', 0, item)).toThrow('exceeds maximum depth');
+        });
+
+        it('throws when the item would exceed MAX_CHANGESET_OPERATIONS', () => {
+            const item: Record<string, string> = {};
+            for (let i = 0; i <= MAX_CHANGESET_OPERATIONS; i++) item[`(0009,${i.toString(16).padStart(4, '0')})`] = 'x';
+            expect(() => ChangeSet.empty().addItem('OtherPatientIDsSequence', 0, item)).toThrow(
+                `ChangeSet operation limit (${MAX_CHANGESET_OPERATIONS}) exceeded`
+            );
+        });
+    });
+
+    describe('removeItem()', () => {
+        it('marks the item path for erasure', () => {
+            const cs = ChangeSet.empty().removeItem('ReferencedSeriesSequence', 3);
+            expect(cs.erasures.has('(0008,1115)[3]')).toBe(true);
+        });
+
+        it('removes a pending item creation', () => {
+            const cs = ChangeSet.empty().addItem('ReferencedSeriesSequence', 0).removeItem('ReferencedSeriesSequence', 0);
+            expect(cs.modifications.size).toBe(0);
+        });
+
+        it('rejects invalid indices and paths', () => {
+            expect(() => ChangeSet.empty().removeItem('ReferencedSeriesSequence', -1)).toThrow('Invalid sequence item index');
+            expect(() => ChangeSet.empty().removeItem('ReferencedSeriesSequence[*]', 0)).toThrow('must not end in an item index');
+        });
+    });
+
+    describe('expandWildcards()', () => {
+        const dataset = (() => {
+            const step = (uids: ReadonlyArray<string>): Record<string, unknown> => ({
+                '00400275': {
+                    vr: 'SQ',
+                    Value: uids.map(uid => ({ '00321060': { vr: 'LO', Value: ['desc'] }, '0020000D': { vr: 'UI', Value: [uid] } })),
+                },
+            });
+            const result = DicomDataset.fromJson({
+                ...step(['1.1', '1.2', '1.3']),
+                '00081115': { vr: 'SQ', Value: [step(['2.1']), step([]), step(['2.2', '2.3'])] },
+            });
+            if (!result.ok) throw result.error;
+            return result.value;
+        })();
+
+        it('expands a wildcard into every existing item index', () => {
+            const cs = ChangeSet.empty().setTag('(0040,0275)[*].(0032,1060)', '').expandWildcards(dataset);
+            expect([...cs.modifications.keys()]).toEqual(['(0040,0275)[0].(0032,1060)', '(0040,0275)[1].(0032,1060)', '(0040,0275)[2].(0032,1060)']);
+            expect(cs.modifications.get('(0040,0275)[2].(0032,1060)')).toBe('');
+        });
+
+        it('expands nested wildcards per item', () => {
+            const cs = ChangeSet.empty().eraseTag('(0008,1115)[*].(0040,0275)[*].(0020,000D)').expandWildcards(dataset);
+            expect([...cs.erasures].sort()).toEqual([
+                '(0008,1115)[0].(0040,0275)[0].(0020,000D)',
+                '(0008,1115)[2].(0040,0275)[0].(0020,000D)',
+                '(0008,1115)[2].(0040,0275)[1].(0020,000D)',
+            ]);
+        });
+
+        it('expands a trailing wildcard erasure into item removals', () => {
+            const cs = ChangeSet.empty().eraseTag('(0040,0275)[*]').expandWildcards(dataset);
+            expect(cs.toErasureArgs()).toEqual(['(0040,0275)[2]', '(0040,0275)[1]', '(0040,0275)[0]']);
+        });
+
+        it('drops wildcard operations that match no item', () => {
+            const cs = ChangeSet.empty().setTag('(0010,1002)[*].(0010,0020)', 'X').expandWildcards(dataset);
+            expect(cs.isEmpty).toBe(true);
+        });
+
+        it('keeps concrete paths and the erase-private flag', () => {
+            const cs = ChangeSet.empty().setTag('PatientID', 'ANON').eraseTag('(0010,1002)[4]').erasePrivateTags().expandWildcards(dataset);
+            expect(cs.modifications.get('(0010,0020)')).toBe('ANON');
+            expect(cs.erasures.has('(0010,1002)[4]')).toBe(true);
+            expect(cs.erasePrivate).toBe(true);
+        });
+
+        it('applies like the original ChangeSet', () => {
+            const cs = ChangeSet.empty()
+                .setTag('(0040,0275)[1].(0032,1060)', 'explicit')
+                .setTag('(0040,0275)[*].(0032,1060)', 'wildcard')
+                .eraseTag('(0040,0275)[*].(0020,000D)')
+                .setTag('(0040,0275)[0].(0020,000D)', '9.9');
+            const expanded = cs.expandWildcards(dataset);
+            expect(expanded.modifications.get('(0040,0275)[1].(0032,1060)')).toBe('wildcard');
+            expect(expanded.modifications.has('(0040,0275)[0].(0020,000D)')).toBe(false);
+            const original = dataset.apply(cs);
+            const pinned = dataset.apply(expanded);
+            expect(original.ok && pinned.ok && DicomDataset.diff(original.value, pinned.value).isEmpty).toBe(true);
+        });
+
+        it('expands transform targets and keeps the all-dates shift', () => {
+            const cs = ChangeSet.empty().replaceValue('(0040,0275)[*].(0032,1060)', /desc/, 'x').shiftAllDates(2).expandWildcards(dataset);
+            expect([...cs.transforms.keys()]).toEqual([
+                '(0040,0275)[0].(0032,1060)',
+                '(0040,0275)[1].(0032,1060)',
+                '(0040,0275)[2].(0032,1060)',
+                '__SHIFT_ALL_DATES__',
+            ]);
+        });
+
+        it('throws when the expansion exceeds MAX_CHANGESET_OPERATIONS', () => {
+            const items = Array.from({ length: MAX_CHANGESET_OPERATIONS + 1 }, () => ({}));
+            const large = DicomDataset.fromJson({ '00400275': { vr: 'SQ', Value: items } });
+            if (!large.ok) throw large.error;
+            expect(() => ChangeSet.empty().eraseTag('(0040,0275)[*]').expandWildcards(large.value)).toThrow(
+                `Expanding (0040,0275)[*] exceeds the ChangeSet operation limit (${MAX_CHANGESET_OPERATIONS})`
+            );
+        });
+    });
+
+    describe('value transforms', () => {
+        it('records transforms under canonical paths', () => {
+            const cs = ChangeSet.empty()
+                .shiftDate('StudyDate', -7)
+                .copyTag('StudyID', 'AccessionNumber')
+                .replaceValue('PatientID', /^SITE-/, '')
+                .setTemplate('StudyDescription', '{Modality} {(0018,0015)}');
+            expect(cs.transforms.get('(0008,0020)')).toEqual({ kind: 'shiftDate', days: -7 });
+            expect(cs.transforms.get('(0020,0010)')).toEqual({ kind: 'copy', source: '(0008,0050)' });
+            expect(cs.transforms.get('(0010,0020)')).toEqual({ kind: 'replace', pattern: /^SITE-/, replacement: '' });
+            expect(cs.transforms.get('(0008,1030)')).toEqual({ kind: 'template', template: '{(0008,0060)} {(0018,0015)}' });
+            expect(cs.operationCount).toBe(4);
+            expect(cs.isEmpty).toBe(false);
+        });
+
+        it('replaces and is replaced by literal operations on the same path', () => {
+            const transformed = ChangeSet.empty()
+                .setTag('PatientID', 'A')
+                .eraseTag('StudyID')
+                .copyTag('PatientID', 'OtherPatientNames')
+                .copyTag('StudyID', 'AccessionNumber');
+            expect(transformed.modifications.size).toBe(0);
+            expect(transformed.erasures.size).toBe(0);
+            const literal = transformed.setTag('PatientID', 'B').eraseTag('StudyID');
+            expect(literal.transforms.size).toBe(0);
+        });
+
+        it('merges transforms with the other ChangeSet winning', () => {
+            const base = ChangeSet.empty().copyTag('StudyID', 'AccessionNumber').setTag('PatientID', 'A').shiftAllDates(1);
+            const other = ChangeSet.empty().setTag('StudyID', 'S1').replaceValue('PatientID', /x/, 'y').eraseTag('StudyDate');
+            const merged = base.merge(other);
+            expect(merged.modifications.get('(0020,0010)')).toBe('S1');
+            expect(merged.modifications.has('(0010,0020)')).toBe(false);
+            expect(merged.transforms.get('(0010,0020)')?.kind).toBe('replace');
+            expect(merged.transforms.size).toBe(2);
+        });
+
+        it('are not emitted as dcmodify arguments before resolution', () => {
+            const cs = ChangeSet.empty().shiftAllDates(3).setTag('PatientID', 'A');
+            expect(cs.toModifications()).toEqual([{ tag: '(0010,0020)', value: 'A' }]);
+            expect(cs.toErasureArgs()).toEqual([]);
+        });
+
+        it('rejects invalid day offsets', () => {
+            expect(() => ChangeSet.empty().shiftDate('StudyDate', 1.5)).toThrow('Invalid date shift: 1.5');
+            expect(() => ChangeSet.empty().shiftAllDates(Number.NaN)).toThrow('Invalid date shift');
+            expect(() => ChangeSet.empty().shiftAllDates(10_000_000)).toThrow('Invalid date shift');
+        });
+
+        it('rejects wildcard sources and invalid template placeholders', () => {
+            expect(() => ChangeSet.empty().copyTag('StudyID', '(0040,0275)[*].(0040,0009)')).toThrow('Source path must name a single element');
+            expect(() => ChangeSet.empty().setTemplate('StudyDescription', '{NotAKeyword}')).toThrow('Unknown DICOM keyword');
+            expect(() => ChangeSet.empty().setTemplate('StudyDescription', '{(0040,0275)[*].(0040,0009)}')).toThrow('Source path must name a single element');
+        });
+
+        it('throws when a transform exceeds MAX_CHANGESET_OPERATIONS', () => {
+            let cs = ChangeSet.empty();
+            for (let i = 0; i < MAX_CHANGESET_OPERATIONS; i++) {
+                cs = cs.eraseTag(path(`(${String(i).padStart(4, '0')},0000)`));
+            }
+            expect(() => cs.shiftAllDates(1)).toThrow(`ChangeSet operation limit (${MAX_CHANGESET_OPERATIONS}) exceeded`);
+        });
+    });
+
+    describe('checkCharacterSet()', () => {
+        const dataset = (characterSet?: string): DicomDataset => {
+            const result = DicomDataset.fromJson(characterSet !== undefined ? { '00080005': { vr: 'CS', Value: characterSet.split('\\') } } : {});
+            if (!result.ok) throw result.error;
+            return result.value;
+        };
+
+        it('keeps ASCII values and values the character set can encode', () => {
+            const ascii = ChangeSet.empty().setTag('PatientName', 'Smith^John');
+            expect(ascii.checkCharacterSet(dataset())).toEqual({ ok: true, value: ascii });
+            const latin1 = ChangeSet.empty().setTag('PatientName', 'Buc^Jérôme');
+            expect(latin1.checkCharacterSet(dataset('ISO_IR 100'))).toEqual({ ok: true, value: latin1 });
+            const japanese = ChangeSet.empty().setTag('PatientName', 'Yamada^Tarou=山田^太郎');
+            expect(japanese.checkCharacterSet(dataset('\\ISO 2022 IR 87'))).toEqual({ ok: true, value: japanese });
+        });
+
+        it('switches to ISO_IR 192 for values the character set cannot encode', () => {
+            const result = ChangeSet.empty().setTag('PatientName', '山田^太郎').checkCharacterSet(dataset('ISO_IR 100'));
+            expect(result.ok && result.value.modifications.get('(0008,0005)')).toBe('ISO_IR 192');
+            const unset = ChangeSet.empty().setTag('PatientName', 'Jérôme').checkCharacterSet(dataset());
+            expect(unset.ok && unset.value.modifications.get('(0008,0005)')).toBe('ISO_IR 192');
+        });
+
+        it('rejects values the character set cannot encode with the reject policy', () => {
+            const result = ChangeSet.empty().setTag('(0008,1115)[0].(0010,0010)', 'Jérôme').checkCharacterSet(dataset(), 'reject');
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toBe('(0008,1115)[0].(0010,0010): "é" cannot be encoded in Specific Character Set ISO_IR 6');
+        });
+
+        it('checks values against a character set the ChangeSet sets', () => {
+            const cs = ChangeSet.empty().setTag('SpecificCharacterSet', 'ISO_IR 100').setTag('PatientName', 'Jérôme');
+            expect(cs.checkCharacterSet(dataset('ISO_IR 192'))).toEqual({ ok: true, value: cs });
+            const result = cs.setTag('PatientName', '山田').checkCharacterSet(dataset('ISO_IR 192'));
+            expect(result.ok).toBe(false);
+        });
+    });
+
     describe('erasePrivateTags()', () => {
         it('sets erasePrivate to true', () => {
             const cs = ChangeSet.empty().erasePrivateTags();
@@ -180,6 +513,22 @@ describe('ChangeSet', () => {
             expect(mods).toContainEqual({ tag: '(0010,0020)', value: 'ANON001' });
         });
 
+        it('orders paths by tag, then lower item indices and shallower paths first', () => {
+            const cs = ChangeSet.empty()
+                .setTag('(0010,0020)', 'B')
+                .setTag('(0008,1115)[1].(0020,000E)', '2')
+                .addItem('ReferencedSeriesSequence', 0)
+                .setTag('(0008,1115)[0].(0008,114A)[0].(0008,1155)', '1.1')
+                .setTag('(0008,0050)', 'A');
+            expect(cs.toModifications().map(m => m.tag)).toEqual([
+                '(0008,0050)',
+                '(0008,1115)[0]',
+                '(0008,1115)[0].(0008,114A)[0].(0008,1155)',
+                '(0008,1115)[1].(0020,000E)',
+                '(0010,0020)',
+            ]);
+        });
+
         it('returns empty array for no modifications', () => {
             const cs = ChangeSet.empty().eraseTag(path('(0010,0010)'));
             expect(cs.toModifications()).toHaveLength(0);
@@ -203,6 +552,22 @@ describe('ChangeSet', () => {
             expect(args).not.toContain('__ERASE_PRIVATE__');
         });
 
+        it('orders item removals from the highest index down, deeper paths first', () => {
+            const cs = ChangeSet.empty()
+                .removeItem('ReferencedSeriesSequence', 0)
+                .eraseTag('(0008,1115)[*].(0020,000E)')
+                .removeItem('ReferencedSeriesSequence', 2)
+                .eraseTag('(0008,1115)[2].(0008,114A)[0]')
+                .eraseTag('(0010,0020)');
+            expect(cs.toErasureArgs()).toEqual([
+                '(0008,1115)[*].(0020,000E)',
+                '(0008,1115)[2].(0008,114A)[0]',
+                '(0008,1115)[2]',
+                '(0008,1115)[0]',
+                '(0010,0020)',
+            ]);
+        });
+
         it('returns empty array for no erasures', () => {
             const cs = ChangeSet.empty().setTag(path('(0010,0010)'), 'Test');
             expect(cs.toErasureArgs()).toHaveLength(0);
@@ -264,6 +629,93 @@ describe('ChangeSet', () => {
         });
     });
 
+    describe('private tags', () => {
+        const CSA = { creator: 'SIEMENS CSA HEADER', group: 0x0029, element: 0x08 };
+
+        function datasetWithCreators(): DicomDataset {
+            const result = DicomDataset.fromJson({
+                '00290010': { vr: 'LO', Value: ['SIEMENS MEDCOM HEADER'] },
+                '00290011': { vr: 'LO', Value: ['SIEMENS CSA HEADER'] },
+                '00291108': { vr: 'CS', Value: ['IMAGE NUM 4'] },
+            });
+            if (!result.ok) throw result.error;
+            return result.value;
+        }
+
+        it('resolves a creator-relative tag into the block the creator holds', () => {
+            const cs = ChangeSet.empty().setPrivateTag(CSA, 'MOSAIC');
+            expect(cs.modifications.size).toBe(0);
+            expect(cs.operationCount).toBe(1);
+            expect(cs.isEmpty).toBe(false);
+
+            const resolved = cs.resolve(datasetWithCreators());
+            expect(resolved.ok && [...resolved.value.modifications]).toEqual([['(0029,1108)', 'MOSAIC']]);
+        });
+
+        it('reserves the lowest free block for a creator the dataset lacks', () => {
+            const cs = ChangeSet.empty()
+                .setPrivateTag({ creator: 'ACME 1.0', group: 0x0029, element: 0x01 }, 'A')
+                .setPrivateTag({ creator: 'ACME 1.0', group: 0x0029, element: 0x02 }, 'B')
+                .setPrivateTag({ creator: 'OTHER', group: 0x0029, element: 0x01 }, 'C');
+            const resolved = cs.resolve(datasetWithCreators());
+            expect(resolved.ok && resolved.value.toModifications()).toEqual([
+                { tag: '(0029,0012)', value: 'ACME 1.0' },
+                { tag: '(0029,0013)', value: 'OTHER' },
+                { tag: '(0029,1201)', value: 'A' },
+                { tag: '(0029,1202)', value: 'B' },
+                { tag: '(0029,1301)', value: 'C' },
+            ]);
+        });
+
+        it('erases only elements of creators present in the dataset', () => {
+            const cs = ChangeSet.empty().erasePrivateTag(CSA).erasePrivateTag({ creator: 'ACME 1.0', group: 0x0029, element: 0x01 });
+            const resolved = cs.resolve(datasetWithCreators());
+            expect(resolved.ok && [...resolved.value.erasures]).toEqual(['(0029,1108)']);
+            expect(resolved.ok && resolved.value.operationCount).toBe(1);
+        });
+
+        it('lets explicit tag operations win over creator-relative ones', () => {
+            const cs = ChangeSet.empty().setPrivateTag(CSA, 'MOSAIC').eraseTag(path('(0029,1108)'));
+            const resolved = cs.resolve(datasetWithCreators());
+            expect(resolved.ok && resolved.value.modifications.size).toBe(0);
+            expect(resolved.ok && [...resolved.value.erasures]).toEqual(['(0029,1108)']);
+        });
+
+        it('keeps the last operation on an element and merges like other operations', () => {
+            const cs = ChangeSet.empty().setPrivateTag(CSA, 'A').erasePrivateTag(CSA).merge(ChangeSet.empty().setPrivateTag(CSA, 'B'));
+            expect(cs.operationCount).toBe(1);
+            const resolved = cs.resolve(datasetWithCreators());
+            expect(resolved.ok && resolved.value.modifications.get('(0029,1108)')).toBe('B');
+        });
+
+        it("takes the group from the creator's dictionary", () => {
+            registerPrivateDictionary([{ ...CSA, vr: 'CS', name: 'CSAImageHeaderType', vm: [1, 1] }]);
+            try {
+                const resolved = ChangeSet.empty().setPrivateTag({ creator: 'SIEMENS CSA HEADER', element: 0x08 }, 'X').resolve(datasetWithCreators());
+                expect(resolved.ok && resolved.value.modifications.get('(0029,1108)')).toBe('X');
+            } finally {
+                clearPrivateDictionaries();
+            }
+        });
+
+        it('throws for invalid references', () => {
+            expect(() => ChangeSet.empty().setPrivateTag({ creator: 'ACME', element: 0x01 }, 'X')).toThrow(
+                'No group given for private creator "ACME", which has no registered dictionary'
+            );
+            expect(() => ChangeSet.empty().setPrivateTag({ creator: 'ACME', group: 0x0010, element: 0x01 }, 'X')).toThrow('Invalid private group');
+            expect(() => ChangeSet.empty().erasePrivateTag({ creator: 'ACME', group: 0x0009, element: 0x100 })).toThrow('Invalid private element');
+        });
+
+        it('fails to resolve when every block of the group is reserved', () => {
+            const full: Record<string, unknown> = {};
+            for (let block = 0x10; block <= 0xff; block++) full[`000900${block.toString(16).toUpperCase()}`] = { vr: 'LO', Value: [`C${block}`] };
+            const dataset = DicomDataset.fromJson(full);
+            if (!dataset.ok) throw dataset.error;
+            const resolved = ChangeSet.empty().setPrivateTag({ creator: 'ACME', group: 0x0009, element: 0x01 }, 'X').resolve(dataset.value);
+            expect(!resolved.ok && resolved.error.message).toBe('(0009,"ACME",01): every private block of the group is reserved');
+        });
+    });
+
     describe('control character sanitization', () => {
         it('strips NULL (0x00)', () => {
             const cs = ChangeSet.empty().setTag(path('(0010,0010)'), 'A\x00B');
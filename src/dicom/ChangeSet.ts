@@ -7,9 +7,50 @@
  * @module dicom/ChangeSet
  */
 
-import type { DicomTagPath } from '../brands';
+import type { DicomTagPath, TagPathInput } from '../brands';
 import type { TagModification } from '../tools/dcmodify';
-import { MAX_CHANGESET_OPERATIONS } from '../constants';
+import { MAX_CHANGESET_OPERATIONS, MAX_TRAVERSAL_DEPTH } from '../constants';
+import type { Result } from '../types';
+import { ok, err } from '../types';
+import type { DicomDataset } from './DicomDataset';
+import type { TagSegment } from './tagPath';
+import { segmentsToModifyPath, tagPathToSegments } from './tagPath';
+import { PLACEHOLDER_PATTERN, collectDatePaths, isValidDayOffset, resolveTransforms } from './transforms';
+import type { ValueTransform } from './transforms';
+import { validateTagValue } from './validateValue';
+import { CharacterSetPolicy, UTF8_CHARACTER_SET, encodeText, isAscii } from '../tools/_characterSet';
+import type { CharacterSetPolicyValue } from '../tools/_characterSet';
+import { VR } from './vr';
+import { findCreatorBlock, findFreeCreatorBlock, formatPrivateRef, placePrivateRef, privateTag } from './privateDictionary';
+import type { PlacedPrivateTagRef, PrivateTagRef } from './privateDictionary';
+import type { DicomJsonModel } from '../tools/_xmlToJson';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Content of a sequence item for {@link ChangeSet.addItem}.
+ *
+ * Keys are `(XXXX,XXXX)` tags or dictionary keywords. String values set an
+ * element; arrays describe the items of a nested sequence.
+ */
+interface SequenceItem {
+    readonly [tagOrKeyword: string]: string | ReadonlyArray<SequenceItem>;
+}
+
+/** An item still to flatten into modifications, with its canonical path and nesting depth. */
+interface PendingItem {
+    readonly path: string;
+    readonly item: SequenceItem;
+    readonly depth: number;
+}
+
+/** A creator-relative operation: a value to set, or undefined to erase the element. */
+interface PrivateOperation {
+    readonly ref: PlacedPrivateTagRef;
+    readonly value: string | undefined;
+}
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -18,6 +59,12 @@ import { MAX_CHANGESET_OPERATIONS } from '../constants';
 /** Sentinel value in the erasures set to indicate erasing all private tags. */
 const ERASE_PRIVATE_SENTINEL = '__ERASE_PRIVATE__';
 
+/** Sentinel key in the transforms map to indicate shifting every DA and DT element. */
+const SHIFT_ALL_DATES_SENTINEL = '__SHIFT_ALL_DATES__';
+
+/** Canonical path of Specific Character Set (0008,0005). */
+const CHARACTER_SET_PATH = '(0008,0005)';
+
 // ---------------------------------------------------------------------------
 // Helpers (extracted for complexity/line limits)
 // ---------------------------------------------------------------------------
@@ -46,6 +93,226 @@ function sanitizeValue(value: string): string {
     return result;
 }
 
+/**
+ * Converts a tag path to its canonical dcmodify form, resolving keyword segments
+ * so that `PatientName` and `(0010,0010)` share a single key.
+ */
+function canonicalPath<P extends string>(path: TagPathInput<P>): string {
+    return segmentsToModifyPath(tagPathToSegments(path));
+}
+
+/** Resolves a sequence path to canonical form, rejecting paths that end in an item index. */
+function canonicalSequencePath<P extends string>(path: TagPathInput<P>): string {
+    const segments = tagPathToSegments(path);
+    const last = segments[segments.length - 1];
+    if (last?.index !== undefined || last?.isWildcard === true) {
+        throw new Error(`Sequence path must not end in an item index: "${path}"`);
+    }
+    return segmentsToModifyPath(segments);
+}
+
+/** Resolves the path of an element a transform reads from, rejecting wildcards. */
+function canonicalSourcePath(path: string): string {
+    // Source paths may come from template text, so they are validated here rather than at compile time
+    const segments = tagPathToSegments(path as DicomTagPath);
+    if (segments.some(seg => seg.isWildcard === true)) {
+        throw new Error(`Source path must name a single element: "${path}"`);
+    }
+    return segmentsToModifyPath(segments);
+}
+
+/** Rewrites every `{path}` placeholder of a template to its canonical source path. */
+function canonicalTemplate(template: string): string {
+    return template.replace(PLACEHOLDER_PATTERN, (_, path: string) => `{${canonicalSourcePath(path)}}`);
+}
+
+/** Validates a date shift offset. */
+function checkDayOffset(days: number): void {
+    if (!isValidDayOffset(days)) {
+        throw new Error(`Invalid date shift: ${days}. Expected an integer number of days`);
+    }
+}
+
+/** Validates a sequence item index. */
+function checkItemIndex(index: number): void {
+    if (!Number.isSafeInteger(index) || index < 0) {
+        throw new Error(`Invalid sequence item index: ${index}. Expected a non-negative integer`);
+    }
+}
+
+/** Resolves an item key (tag or keyword) to its `(XXXX,XXXX)` tag. */
+function canonicalItemKey(key: string): string {
+    // Keys come from runtime objects, so they are validated here rather than at compile time
+    const segments = tagPathToSegments(key as DicomTagPath);
+    const only = segments[0];
+    if (segments.length !== 1 || only === undefined || only.index !== undefined || only.isWildcard === true) {
+        throw new Error(`Invalid sequence item key: "${key}". Expected a single tag or keyword`);
+    }
+    return only.tag;
+}
+
+/** Queues the items of a nested sequence, rejecting empty sequences and excessive nesting. */
+function queueNestedItems(queue: PendingItem[], elementPath: string, items: ReadonlyArray<SequenceItem>, depth: number): void {
+    if (items.length === 0) throw new Error(`Cannot add an empty sequence at ${elementPath}`);
+    if (depth > MAX_TRAVERSAL_DEPTH) throw new Error(`Sequence item nesting exceeds maximum depth of ${MAX_TRAVERSAL_DEPTH}`);
+    items.forEach((item, index) => queue.push({ path: `${elementPath}[${index}]`, item, depth }));
+}
+
+/**
+ * Flattens a sequence item into canonical path → value modifications (iterative, no recursion — Rule 8.2).
+ * An empty item becomes a modification of the item path itself with an empty value, which creates the item.
+ */
+function flattenItem(itemPath: string, item: SequenceItem): ReadonlyArray<readonly [string, string]> {
+    const result: Array<readonly [string, string]> = [];
+    const queue: PendingItem[] = [{ path: itemPath, item, depth: 1 }];
+    for (let i = 0; i < queue.length; i++) {
+        const entry = queue[i] as PendingItem;
+        const keys = Object.keys(entry.item);
+        if (keys.length === 0) result.push([entry.path, '']);
+        for (const key of keys) {
+            const value = entry.item[key] as string | ReadonlyArray<SequenceItem>;
+            const elementPath = `${entry.path}.${canonicalItemKey(key)}`;
+            if (typeof value === 'string') {
+                result.push([elementPath, sanitizeValue(value)]);
+            } else {
+                queueNestedItems(queue, elementPath, value, entry.depth + 1);
+            }
+        }
+    }
+    return result;
+}
+
+/** Sort key of a segment's item index: a wildcard sorts above any index, no index below. */
+function itemOrder(segment: TagSegment): number {
+    if (segment.isWildcard === true) return Number.MAX_SAFE_INTEGER;
+    return segment.index ?? -1;
+}
+
+/**
+ * Compares two parsed paths segment by segment: tags ascending, then item indices
+ * and path depth in the given direction (1 = lower indices and shallower paths first).
+ */
+function comparePaths(a: ReadonlyArray<TagSegment>, b: ReadonlyArray<TagSegment>, direction: 1 | -1): number {
+    const shared = Math.min(a.length, b.length);
+    for (let i = 0; i < shared; i++) {
+        const x = a[i] as TagSegment;
+        const y = b[i] as TagSegment;
+        if (x.tag !== y.tag) return x.tag < y.tag ? -1 : 1;
+        const order = itemOrder(x) - itemOrder(y);
+        if (order !== 0) return direction * order;
+    }
+    return direction * (a.length - b.length);
+}
+
+/** Sorts canonical paths with {@link comparePaths}, parsing each path once. */
+function sortPaths(paths: Iterable<string>, direction: 1 | -1): ReadonlyArray<string> {
+    const parsed = [...paths].map(path => ({ path, segments: tagPathToSegments(path as DicomTagPath) }));
+    parsed.sort((a, b) => comparePaths(a.segments, b.segments, direction));
+    return parsed.map(entry => entry.path);
+}
+
+/** Returns the number of items in the sequence a concrete path names, or 0 if it is missing or not a sequence. */
+function itemCount(dataset: DicomDataset, sequence: ReadonlyArray<TagSegment>): number {
+    const element = dataset.getElementAtPath(segmentsToModifyPath(sequence) as DicomTagPath);
+    if (!element.ok || element.value.vr !== VR.SQ) return 0;
+    return element.value.Value?.length ?? 0;
+}
+
+/**
+ * Expands every `[*]` segment of a canonical path into the item indices present in a dataset
+ * (iterative, no recursion — Rule 8.2). Paths without wildcards are returned unchanged.
+ *
+ * @throws Error if the expansion would produce more than `limit` paths
+ */
+function expandPath(dataset: DicomDataset, path: string, limit: number): ReadonlyArray<string> {
+    const segments = tagPathToSegments(path as DicomTagPath);
+    if (!segments.some(seg => seg.isWildcard === true)) return [path];
+    let prefixes: ReadonlyArray<ReadonlyArray<TagSegment>> = [[]];
+    for (const seg of segments) {
+        const next: Array<ReadonlyArray<TagSegment>> = [];
+        for (const prefix of prefixes) {
+            const count = seg.isWildcard === true ? itemCount(dataset, [...prefix, { tag: seg.tag }]) : 1;
+            if (next.length + count > limit) {
+                throw new Error(`Expanding ${path} exceeds the ChangeSet operation limit (${MAX_CHANGESET_OPERATIONS})`);
+            }
+            for (let index = 0; index < count; index++) {
+                next.push([...prefix, seg.isWildcard === true ? { tag: seg.tag, index } : seg]);
+            }
+        }
+        prefixes = next;
+    }
+    return prefixes.map(segmentsToModifyPath);
+}
+
+/**
+ * Resolves transform targets to concrete paths: the all-dates sentinel becomes every DA/DT element
+ * in the dataset and wildcards are expanded. Transforms on explicit paths win over the all-dates shift.
+ *
+ * @throws Error if the number of targets would exceed MAX_CHANGESET_OPERATIONS
+ */
+function expandTransformTargets(dataset: DicomDataset, transforms: ReadonlyMap<string, ValueTransform>): ReadonlyMap<string, ValueTransform> {
+    const targets = new Map<string, ValueTransform>();
+    const shiftAll = transforms.get(SHIFT_ALL_DATES_SENTINEL);
+    if (shiftAll !== undefined) {
+        for (const path of collectDatePaths(dataset.toJson())) targets.set(path, shiftAll);
+    }
+    for (const [key, transform] of transforms) {
+        if (key === SHIFT_ALL_DATES_SENTINEL) continue;
+        for (const path of expandPath(dataset, key, MAX_CHANGESET_OPERATIONS - targets.size)) targets.set(path, transform);
+    }
+    if (targets.size > MAX_CHANGESET_OPERATIONS) {
+        throw new Error(`Resolving transforms exceeds the ChangeSet operation limit (${MAX_CHANGESET_OPERATIONS})`);
+    }
+    return targets;
+}
+
+/** Reserves the lowest free block of a group for a creator, recording it in `reserved`. */
+function reserveCreatorBlock(model: Readonly<DicomJsonModel>, ref: PlacedPrivateTagRef, reserved: Map<string, number>): Result<number> {
+    const taken = new Set([...reserved].filter(([key]) => key.startsWith(`${ref.group}|`)).map(([, block]) => block));
+    const block = findFreeCreatorBlock(model, ref.group, taken);
+    if (block === undefined) return err(new Error(`${formatPrivateRef(ref)}: every private block of the group is reserved`));
+    reserved.set(`${ref.group}|${ref.creator}`, block);
+    return ok(block);
+}
+
+/**
+ * Places creator-relative operations in the blocks their creators hold in a dataset. A creator
+ * without a block gets the lowest free one, preceded by its Private Creator element; erasing
+ * from a creator without a block does nothing.
+ *
+ * @returns Pairs of concrete path and value (undefined to erase), or an error if a group has no free block
+ */
+function placePrivateOperations(
+    model: Readonly<DicomJsonModel>,
+    operations: ReadonlyMap<string, PrivateOperation>
+): Result<ReadonlyArray<readonly [string, string | undefined]>> {
+    const placed: Array<readonly [string, string | undefined]> = [];
+    const reserved = new Map<string, number>();
+    for (const { ref, value } of operations.values()) {
+        let block = findCreatorBlock(model, ref.group, ref.creator) ?? reserved.get(`${ref.group}|${ref.creator}`);
+        if (block === undefined && value === undefined) continue;
+        if (block === undefined) {
+            const reservation = reserveCreatorBlock(model, ref, reserved);
+            if (!reservation.ok) return reservation;
+            block = reservation.value;
+            placed.push([privateTag(ref.group, block, undefined), ref.creator]);
+        }
+        placed.push([privateTag(ref.group, block, ref.element), value]);
+    }
+    return ok(placed);
+}
+
+/** Returns `map` without `keys`, sharing the original map when none of the keys is present. */
+function withoutKeys<V>(map: ReadonlyMap<string, V>, keys: Iterable<string>): ReadonlyMap<string, V> {
+    let result: Map<string, V> | undefined;
+    for (const key of keys) {
+        if (!map.has(key)) continue;
+        result ??= new Map(map);
+        result.delete(key);
+    }
+    return result ?? map;
+}
+
 /** Merges two modification maps, with `other` winning conflicts. Removes keys present in erasures. */
 function buildMergedModifications(
     base: ReadonlyMap<string, string>,
@@ -76,23 +343,32 @@ function buildMergedModifications(
  * @example
  * ```ts
  * const cs = ChangeSet.empty()
- *     .setTag('(0010,0010)' as DicomTagPath, 'Anonymous')
- *     .eraseTag('(0010,0020)' as DicomTagPath)
+ *     .setTag('(0010,0010)', 'Anonymous')
+ *     .eraseTag('PatientID')
  *     .erasePrivateTags();
  * ```
  */
 class ChangeSet {
     private readonly mods: ReadonlyMap<string, string>;
     private readonly erased: ReadonlySet<string>;
+    private readonly xforms: ReadonlyMap<string, ValueTransform>;
+    private readonly privates: ReadonlyMap<string, PrivateOperation>;
 
-    private constructor(mods: ReadonlyMap<string, string>, erasures: ReadonlySet<string>) {
+    private constructor(
+        mods: ReadonlyMap<string, string>,
+        erasures: ReadonlySet<string>,
+        transforms: ReadonlyMap<string, ValueTransform>,
+        privates: ReadonlyMap<string, PrivateOperation>
+    ) {
         this.mods = mods;
         this.erased = erasures;
+        this.xforms = transforms;
+        this.privates = privates;
     }
 
     /** Creates an empty ChangeSet with no modifications or erasures. */
     static empty(): ChangeSet {
-        return new ChangeSet(new Map(), new Set());
+        return new ChangeSet(new Map(), new Set(), new Map(), new Map());
     }
 
     /**
@@ -100,44 +376,339 @@ class ChangeSet {
      *
      * Control characters (except LF/CR) are stripped from the value.
      * If the tag was previously erased, it is removed from the erasure set.
+     * Keyword segments (e.g. `PatientName`) are stored as their `(XXXX,XXXX)` tag.
      *
-     * @param path - The DICOM tag path to set
+     * @param path - The DICOM tag path to set, as a DicomTagPath or a tag path literal
      * @param value - The new value for the tag
      * @returns A new ChangeSet with the modification applied
-     * @throws Error if operation count would exceed MAX_CHANGESET_OPERATIONS
+     * @throws Error if operation count would exceed MAX_CHANGESET_OPERATIONS, or the path is invalid
      */
-    setTag(path: DicomTagPath, value: string): ChangeSet {
-        const totalOps = this.mods.size + this.erased.size;
-        if (totalOps >= MAX_CHANGESET_OPERATIONS) {
+    setTag<P extends string>(path: TagPathInput<P>, value: string): ChangeSet {
+        if (this.operationCount >= MAX_CHANGESET_OPERATIONS) {
             throw new Error(`ChangeSet operation limit (${MAX_CHANGESET_OPERATIONS}) exceeded`);
         }
+        const key = canonicalPath(path);
         const sanitized = sanitizeValue(value);
         const newMods = new Map(this.mods);
-        newMods.set(path, sanitized);
+        newMods.set(key, sanitized);
         const newErasures = new Set(this.erased);
-        newErasures.delete(path);
-        return new ChangeSet(newMods, newErasures);
+        newErasures.delete(key);
+        return new ChangeSet(newMods, newErasures, withoutKeys(this.xforms, [key]), this.privates);
+    }
+
+    /**
+     * Sets a tag value after validating it against the data dictionary, returning a new ChangeSet.
+     *
+     * Like {@link ChangeSet.setTag}, but the sanitized value is first checked against the VR
+     * and VM of the path's last tag: maximum length, character repertoire, date/time/age
+     * formats, numeric ranges and the number of backslash-delimited values. A path ending
+     * in an item index only accepts the empty value that creates the item.
+     *
+     * @param path - The DICOM tag path to set, as a DicomTagPath or a tag path literal
+     * @param value - The new value for the tag
+     * @returns A Result containing the new ChangeSet, or an error naming the attribute whose value
+     *   does not conform, the invalid path, or the exceeded operation limit
+     */
+    setTagStrict<P extends string>(path: TagPathInput<P>, value: string): Result<ChangeSet> {
+        try {
+            const segments = tagPathToSegments(path);
+            const last = segments[segments.length - 1];
+            const sanitized = sanitizeValue(value);
+            if (last === undefined) return err(new Error(`Invalid tag path: "${path}"`));
+            const isItem = last.index !== undefined || last.isWildcard === true;
+            if (isItem && sanitized.length > 0) return err(new Error(`${segmentsToModifyPath(segments)}: cannot set a value on a sequence item`));
+            if (!isItem) {
+                const valid = validateTagValue(last.tag, sanitized);
+                if (!valid.ok) return valid;
+            }
+            return ok(this.setTag(path, sanitized));
+        } catch (e: unknown) {
+            return err(e instanceof Error ? e : new Error(String(e)));
+        }
     }
 
     /**
      * Marks a tag for erasure, returning a new ChangeSet.
      *
      * If the tag was previously set, the modification is removed.
+     * Keyword segments (e.g. `PatientID`) are stored as their `(XXXX,XXXX)` tag.
      *
-     * @param path - The DICOM tag path to erase
+     * @param path - The DICOM tag path to erase, as a DicomTagPath or a tag path literal
      * @returns A new ChangeSet with the erasure applied
-     * @throws Error if operation count would exceed MAX_CHANGESET_OPERATIONS
+     * @throws Error if operation count would exceed MAX_CHANGESET_OPERATIONS, or the path is invalid
      */
-    eraseTag(path: DicomTagPath): ChangeSet {
-        const totalOps = this.mods.size + this.erased.size;
-        if (totalOps >= MAX_CHANGESET_OPERATIONS) {
+    eraseTag<P extends string>(path: TagPathInput<P>): ChangeSet {
+        if (this.operationCount >= MAX_CHANGESET_OPERATIONS) {
             throw new Error(`ChangeSet operation limit (${MAX_CHANGESET_OPERATIONS}) exceeded`);
         }
+        const key = canonicalPath(path);
         const newMods = new Map(this.mods);
-        newMods.delete(path);
+        newMods.delete(key);
         const newErasures = new Set(this.erased);
-        newErasures.add(path);
-        return new ChangeSet(newMods, newErasures);
+        newErasures.add(key);
+        return new ChangeSet(newMods, newErasures, withoutKeys(this.xforms, [key]), this.privates);
+    }
+
+    /**
+     * Writes an item into a sequence, returning a new ChangeSet.
+     *
+     * Maps onto dcmodify item paths: each element of `item` becomes a modification
+     * of `sequence[index].tag`, and nested sequences become deeper item paths.
+     * dcmodify creates the sequence and any missing items up to `index`; elements
+     * already in an existing item that `item` does not name are kept.
+     *
+     * @example
+     * ```ts
+     * cs.addItem('OtherPatientIDsSequence', 0, {
+     *     PatientID: 'MRN-2',
+     *     IssuerOfPatientID: 'HOSP',
+     *     IssuerOfPatientIDQualifiersSequence: [{ UniversalEntityID: '1.2.3' }],
+     * });
+     * ```
+     *
+     * @param sequencePath - Path of the sequence element (must not end in an item index)
+     * @param index - Zero-based item index
+     * @param item - Item content; an empty object creates an empty item
+     * @returns A new ChangeSet with the item's modifications applied
+     * @throws Error if the path, index or an item key is invalid, a nested sequence is empty,
+     *   or the operation count would exceed MAX_CHANGESET_OPERATIONS
+     */
+    addItem<P extends string>(sequencePath: TagPathInput<P>, index: number, item: SequenceItem = {}): ChangeSet {
+        checkItemIndex(index);
+        const entries = flattenItem(`${canonicalSequencePath(sequencePath)}[${index}]`, item);
+        if (this.operationCount + entries.length > MAX_CHANGESET_OPERATIONS) {
+            throw new Error(`ChangeSet operation limit (${MAX_CHANGESET_OPERATIONS}) exceeded`);
+        }
+        const newMods = new Map(this.mods);
+        const newErasures = new Set(this.erased);
+        for (const [key, value] of entries) {
+            newMods.set(key, value);
+            newErasures.delete(key);
+        }
+        return new ChangeSet(newMods, newErasures, withoutKeys(this.xforms, newMods.keys()), this.privates);
+    }
+
+    /**
+     * Marks a sequence item for removal, returning a new ChangeSet.
+     *
+     * Item indices always refer to the dataset before any removal;
+     * {@link toErasureArgs} orders removals so later items go first.
+     *
+     * @param sequencePath - Path of the sequence element (must not end in an item index)
+     * @param index - Zero-based index of the item to remove
+     * @returns A new ChangeSet with the removal applied
+     * @throws Error if the path or index is invalid, or the operation count would exceed MAX_CHANGESET_OPERATIONS
+     */
+    removeItem<P extends string>(sequencePath: TagPathInput<P>, index: number): ChangeSet {
+        checkItemIndex(index);
+        return this.eraseTag(`${canonicalSequencePath(sequencePath)}[${index}]` as DicomTagPath);
+    }
+
+    /**
+     * Expands `[*]` wildcards against a dataset, returning a new ChangeSet with only concrete paths.
+     *
+     * Wildcard paths can also be passed to dcmodify as they are; expanding first pins
+     * each operation to the items that exist in `dataset`, e.g. for review or auditing.
+     * Wildcards that match no item drop their operation. The result applies like the
+     * original: erasures still win over modifications, and where a wildcard and an
+     * explicit index set the same element, the wildcard value wins, as it would in dcmodify.
+     *
+     * @param dataset - The dataset whose sequence items the wildcards range over
+     * @returns A new ChangeSet without wildcard paths
+     * @throws Error if the expanded operation count would exceed MAX_CHANGESET_OPERATIONS
+     */
+    expandWildcards(dataset: DicomDataset): ChangeSet {
+        const newErasures = new Set<string>();
+        for (const path of this.erased) {
+            const expanded = path === ERASE_PRIVATE_SENTINEL ? [path] : expandPath(dataset, path, MAX_CHANGESET_OPERATIONS - newErasures.size);
+            for (const key of expanded) newErasures.add(key);
+        }
+        const newMods = new Map<string, string>();
+        for (const { tag, value } of this.toModifications()) {
+            for (const key of expandPath(dataset, tag, MAX_CHANGESET_OPERATIONS - newErasures.size - newMods.size)) {
+                if (!newErasures.has(key)) newMods.set(key, value);
+            }
+        }
+        const newTransforms = new Map<string, ValueTransform>();
+        for (const [path, transform] of this.xforms) {
+            const budget = MAX_CHANGESET_OPERATIONS - newErasures.size - newMods.size - newTransforms.size;
+            const expanded = path === SHIFT_ALL_DATES_SENTINEL ? [path] : expandPath(dataset, path, budget);
+            for (const key of expanded) newTransforms.set(key, transform);
+        }
+        return new ChangeSet(newMods, newErasures, newTransforms, this.privates);
+    }
+
+    /**
+     * Shifts the date element at a path by a number of days, returning a new ChangeSet.
+     *
+     * DA values move by `days`; DT values keep their time and offset and move only their date.
+     * The shift is resolved against a dataset when the ChangeSet is applied; an element the
+     * dataset does not contain is left alone.
+     *
+     * @param path - Path of a DA or DT element; `[*]` shifts the element in every item
+     * @param days - Whole days to add (negative shifts into the past)
+     * @returns A new ChangeSet with the transform recorded
+     * @throws Error if the path or day offset is invalid, or the operation count would exceed MAX_CHANGESET_OPERATIONS
+     */
+    shiftDate<P extends string>(path: TagPathInput<P>, days: number): ChangeSet {
+        checkDayOffset(days);
+        return this.withTransform(canonicalPath(path), { kind: 'shiftDate', days });
+    }
+
+    /**
+     * Shifts every DA and DT element, at every nesting level, by a number of days.
+     *
+     * Elements that are also set, erased or transformed explicitly keep that operation instead.
+     *
+     * @param days - Whole days to add (negative shifts into the past)
+     * @returns A new ChangeSet with the transform recorded
+     * @throws Error if the day offset is invalid, or the operation count would exceed MAX_CHANGESET_OPERATIONS
+     */
+    shiftAllDates(days: number): ChangeSet {
+        checkDayOffset(days);
+        return this.withTransform(SHIFT_ALL_DATES_SENTINEL, { kind: 'shiftDate', days });
+    }
+
+    /**
+     * Sets an element to the value of another element, returning a new ChangeSet.
+     *
+     * @example
+     * ```ts
+     * cs.copyTag('StudyID', 'AccessionNumber');
+     * ```
+     *
+     * @param target - Path of the element to set
+     * @param source - Path of the element to copy from (no wildcards); resolving fails if it is missing
+     * @returns A new ChangeSet with the transform recorded
+     * @throws Error if a path is invalid, or the operation count would exceed MAX_CHANGESET_OPERATIONS
+     */
+    copyTag<P extends string, S extends string>(target: TagPathInput<P>, source: TagPathInput<S>): ChangeSet {
+        return this.withTransform(canonicalPath(target), { kind: 'copy', source: canonicalSourcePath(source) });
+    }
+
+    /**
+     * Rewrites each value of an element with a regular expression, returning a new ChangeSet.
+     *
+     * Uses `String.prototype.replace`, so `pattern` flags and `$1`-style replacement
+     * patterns behave as usual. An element the dataset does not contain is left alone.
+     *
+     * @example
+     * ```ts
+     * cs.replaceValue('PatientID', /^SITE-/, '');
+     * ```
+     *
+     * @param path - Path of the element to rewrite; `[*]` rewrites the element in every item
+     * @param pattern - The pattern to replace
+     * @param replacement - The replacement string
+     * @returns A new ChangeSet with the transform recorded
+     * @throws Error if the path is invalid, or the operation count would exceed MAX_CHANGESET_OPERATIONS
+     */
+    replaceValue<P extends string>(path: TagPathInput<P>, pattern: RegExp, replacement: string): ChangeSet {
+        return this.withTransform(canonicalPath(path), { kind: 'replace', pattern, replacement });
+    }
+
+    /**
+     * Sets an element from a template, returning a new ChangeSet.
+     *
+     * Each `{path}` placeholder is replaced by the value of the element it names, or by
+     * an empty string if the dataset does not contain it.
+     *
+     * @example
+     * ```ts
+     * cs.setTemplate('StudyDescription', '{Modality} {BodyPartExamined} ({StudyDate})');
+     * ```
+     *
+     * @param path - Path of the element to set
+     * @param template - Template text with `{tag or keyword path}` placeholders (no wildcards)
+     * @returns A new ChangeSet with the transform recorded
+     * @throws Error if a path or placeholder is invalid, or the operation count would exceed MAX_CHANGESET_OPERATIONS
+     */
+    setTemplate<P extends string>(path: TagPathInput<P>, template: string): ChangeSet {
+        return this.withTransform(canonicalPath(path), { kind: 'template', template: canonicalTemplate(template) });
+    }
+
+    /**
+     * Resolves value transforms and creator-relative private tags against a dataset into literal
+     * modifications and erasures.
+     *
+     * Transforms read the dataset as it is before any change. Wildcard targets are expanded
+     * against it; a literal modification or erasure of the same path takes precedence.
+     * Private tags are placed in their creators' blocks, reserving new blocks where needed.
+     * `DicomFile.applyChanges`, `DicomFile.writeAs` and `DicomDataset.apply` call this
+     * before applying, so it is only needed to inspect the resolved values.
+     *
+     * @param dataset - The dataset transforms read from
+     * @returns A Result containing a ChangeSet without transforms or private tag references, or an
+     *   error naming the path whose value could not be resolved or does not fit its VR
+     */
+    resolve(dataset: DicomDataset): Result<ChangeSet> {
+        const placed = this.placePrivateTags(dataset);
+        if (!placed.ok) return placed;
+        return placed.value.resolveValueTransforms(dataset);
+    }
+
+    /**
+     * Sets a private element addressed through its private creator, returning a new ChangeSet.
+     *
+     * The element is placed in the block the creator holds in the dataset the ChangeSet is
+     * resolved against. If the creator has no block in the group, the lowest free block is
+     * reserved by adding its Private Creator element. Only top-level elements can be addressed.
+     *
+     * @example
+     * ```ts
+     * cs.setPrivateTag({ creator: 'ACME 1.0', group: 0x0009, element: 0x01 }, 'REVIEWED');
+     * ```
+     *
+     * @param ref - The creator, group (optional if the creator's dictionary names it) and element 0x00-0xFF
+     * @param value - The new value for the element
+     * @returns A new ChangeSet with the private operation recorded
+     * @throws Error if the reference is invalid or has no known group, or the operation count would exceed MAX_CHANGESET_OPERATIONS
+     */
+    setPrivateTag(ref: PrivateTagRef, value: string): ChangeSet {
+        return this.withPrivate(ref, sanitizeValue(value));
+    }
+
+    /**
+     * Marks a private element addressed through its private creator for erasure, returning a new ChangeSet.
+     *
+     * Nothing is erased if the creator has no block in the dataset the ChangeSet is resolved against.
+     *
+     * @param ref - The creator, group (optional if the creator's dictionary names it) and element 0x00-0xFF
+     * @returns A new ChangeSet with the private operation recorded
+     * @throws Error if the reference is invalid or has no known group, or the operation count would exceed MAX_CHANGESET_OPERATIONS
+     */
+    erasePrivateTag(ref: PrivateTagRef): ChangeSet {
+        return this.withPrivate(ref, undefined);
+    }
+
+    /**
+     * Checks non-ASCII values against the Specific Character Set (0008,0005) they are written in.
+     *
+     * ASCII values fit every character set. A value that the dataset's character set (or the
+     * one this ChangeSet sets) cannot encode either switches SpecificCharacterSet to ISO_IR 192
+     * (UTF-8) with the `update` policy, or fails with the `reject` policy. An explicitly set
+     * character set is never replaced. `DicomFile.applyChanges`, `DicomFile.writeAs` and
+     * `DicomDataset.apply` call this after {@link ChangeSet.resolve}.
+     *
+     * @param dataset - The dataset the changes are written to
+     * @param policy - What to do with values the character set cannot encode (default: `'update'`)
+     * @returns A Result containing this ChangeSet, with SpecificCharacterSet set to ISO_IR 192 if
+     *   needed, or an error naming the first value that cannot be encoded
+     */
+    checkCharacterSet(dataset: DicomDataset, policy: CharacterSetPolicyValue = CharacterSetPolicy.UPDATE): Result<ChangeSet> {
+        const explicit = this.mods.get(CHARACTER_SET_PATH);
+        const terms = explicit !== undefined ? explicit.split('\\').map(term => term.trim()) : dataset.characterSet;
+        for (const [key, value] of this.mods) {
+            if (key === CHARACTER_SET_PATH || isAscii(value)) continue;
+            const encoded = encodeText(value, terms);
+            if (encoded.ok) continue;
+            if (policy === CharacterSetPolicy.REJECT || explicit !== undefined) return err(new Error(`${key}: ${encoded.error.message}`));
+            if (this.operationCount >= MAX_CHANGESET_OPERATIONS) {
+                return err(new Error(`ChangeSet operation limit (${MAX_CHANGESET_OPERATIONS}) exceeded`));
+            }
+            return ok(this.setTag(CHARACTER_SET_PATH, UTF8_CHARACTER_SET));
+        }
+        return ok(this);
     }
 
     /**
@@ -147,13 +718,12 @@ class ChangeSet {
      * @throws Error if operation count would exceed MAX_CHANGESET_OPERATIONS
      */
     erasePrivateTags(): ChangeSet {
-        const totalOps = this.mods.size + this.erased.size;
-        if (totalOps >= MAX_CHANGESET_OPERATIONS) {
+        if (this.operationCount >= MAX_CHANGESET_OPERATIONS) {
             throw new Error(`ChangeSet operation limit (${MAX_CHANGESET_OPERATIONS}) exceeded`);
         }
         const newErasures = new Set(this.erased);
         newErasures.add(ERASE_PRIVATE_SENTINEL);
-        return new ChangeSet(new Map(this.mods), newErasures);
+        return new ChangeSet(this.mods, newErasures, this.xforms, this.privates);
     }
 
     /** All pending tag modifications as a readonly map of path → value. */
@@ -166,14 +736,19 @@ class ChangeSet {
         return this.erased;
     }
 
-    /** Total number of operations (modifications + erasures) in this ChangeSet. */
+    /** All pending value transforms as a readonly map of path → transform. */
+    get transforms(): ReadonlyMap<string, ValueTransform> {
+        return this.xforms;
+    }
+
+    /** Total number of operations (modifications + erasures + transforms + private tag operations) in this ChangeSet. */
     get operationCount(): number {
-        return this.mods.size + this.erased.size;
+        return this.mods.size + this.erased.size + this.xforms.size + this.privates.size;
     }
 
-    /** Whether the ChangeSet has no modifications and no erasures. */
+    /** Whether the ChangeSet has no modifications, erasures, transforms or private tag operations. */
     get isEmpty(): boolean {
-        return this.mods.size === 0 && this.erased.size === 0;
+        return this.operationCount === 0;
     }
 
     /** Whether the erase-all-private-tags flag is set. */
@@ -186,26 +761,33 @@ class ChangeSet {
      *
      * The `other` ChangeSet wins on conflicts: if the same tag is modified in both,
      * `other`'s value is used. Erasures from both sets are unioned. An erasure in
-     * `other` removes a modification from `base`.
+     * `other` removes a modification from `base`. Transforms follow the same rules,
+     * and a modification or transform in `other` replaces either kind in `base`.
      *
      * @param other - The ChangeSet to merge in
-     * @returns A new ChangeSet with merged modifications and erasures
+     * @returns A new ChangeSet with merged modifications, erasures and transforms
      */
     merge(other: ChangeSet): ChangeSet {
         const mergedErasures = new Set([...this.erased, ...other.erased]);
-        const mergedMods = buildMergedModifications(this.mods, other.mods, mergedErasures);
-        return new ChangeSet(mergedMods, mergedErasures);
+        const mergedMods = buildMergedModifications(withoutKeys(this.mods, other.xforms.keys()), other.mods, mergedErasures);
+        const mergedTransforms = new Map([...withoutKeys(this.xforms, other.mods.keys()), ...other.xforms]);
+        const mergedPrivates = new Map([...this.privates, ...other.privates]);
+        return new ChangeSet(mergedMods, mergedErasures, withoutKeys(mergedTransforms, mergedErasures), mergedPrivates);
     }
 
     /**
      * Converts modifications to dcmodify-compatible TagModification array.
      *
+     * Paths are ordered by tag, with lower item indices and shallower paths first,
+     * so sequence items are created in index order. Creator-relative private tags are
+     * included once the ChangeSet is resolved against a dataset.
+     *
      * @returns A readonly array of TagModification objects
      */
     toModifications(): ReadonlyArray<TagModification> {
         const result: TagModification[] = [];
-        for (const [tag, value] of this.mods) {
-            result.push({ tag, value });
+        for (const tag of sortPaths(this.mods.keys(), 1)) {
+            result.push({ tag, value: this.mods.get(tag) ?? '' });
         }
         return result;
     }
@@ -216,6 +798,9 @@ class ChangeSet {
      * The erase-private sentinel is excluded — use {@link erasePrivate} to check
      * whether `-ep` should be passed.
      *
+     * Paths are ordered by tag, with higher item indices and deeper paths first,
+     * so removing an item never shifts the index of a later erasure.
+     *
      * @returns A readonly array of tag path strings for `-e` arguments
      */
     toErasureArgs(): ReadonlyArray<string> {
@@ -225,8 +810,74 @@ class ChangeSet {
                 result.push(path);
             }
         }
-        return result;
+        return sortPaths(result, -1);
+    }
+
+    /** Resolves value transforms into literal modifications (see {@link ChangeSet.resolve}). */
+    private resolveValueTransforms(dataset: DicomDataset): Result<ChangeSet> {
+        if (this.xforms.size === 0) return ok(this);
+        let targets: ReadonlyMap<string, ValueTransform>;
+        try {
+            targets = expandTransformTargets(dataset, this.xforms);
+        } catch (error: unknown) {
+            return err(error instanceof Error ? error : new Error(String(error)));
+        }
+        const values = resolveTransforms(dataset, targets);
+        if (!values.ok) return err(values.error);
+        const newMods = new Map(this.mods);
+        for (const [key, value] of values.value) {
+            if (!newMods.has(key) && !this.erased.has(key)) newMods.set(key, sanitizeValue(value));
+        }
+        if (newMods.size + this.erased.size > MAX_CHANGESET_OPERATIONS) {
+            return err(new Error(`ChangeSet operation limit (${MAX_CHANGESET_OPERATIONS}) exceeded`));
+        }
+        return ok(new ChangeSet(newMods, this.erased, new Map(), this.privates));
+    }
+
+    /** Places creator-relative operations in the dataset's creator blocks (see {@link ChangeSet.resolve}). */
+    private placePrivateTags(dataset: DicomDataset): Result<ChangeSet> {
+        if (this.privates.size === 0) return ok(this);
+        const placed = placePrivateOperations(dataset.toJson(), this.privates);
+        if (!placed.ok) return err(placed.error);
+        const newMods = new Map(this.mods);
+        const newErasures = new Set(this.erased);
+        for (const [path, value] of placed.value) {
+            if (newMods.has(path) || newErasures.has(path) || this.xforms.has(path)) continue;
+            if (value === undefined) newErasures.add(path);
+            else newMods.set(path, value);
+        }
+        if (newMods.size + newErasures.size + this.xforms.size > MAX_CHANGESET_OPERATIONS) {
+            return err(new Error(`ChangeSet operation limit (${MAX_CHANGESET_OPERATIONS}) exceeded`));
+        }
+        return ok(new ChangeSet(newMods, newErasures, this.xforms, new Map()));
+    }
+
+    /** Records a creator-relative operation, replacing an earlier one for the same element. */
+    private withPrivate(ref: PrivateTagRef, value: string | undefined): ChangeSet {
+        if (this.operationCount >= MAX_CHANGESET_OPERATIONS) {
+            throw new Error(`ChangeSet operation limit (${MAX_CHANGESET_OPERATIONS}) exceeded`);
+        }
+        const placed = placePrivateRef(ref);
+        if (!placed.ok) throw placed.error;
+        const newPrivates = new Map(this.privates);
+        newPrivates.set(formatPrivateRef(placed.value), { ref: placed.value, value });
+        return new ChangeSet(this.mods, this.erased, this.xforms, newPrivates);
+    }
+
+    /** Records a transform for a canonical path, replacing any modification or erasure of it. */
+    private withTransform(key: string, transform: ValueTransform): ChangeSet {
+        if (this.operationCount >= MAX_CHANGESET_OPERATIONS) {
+            throw new Error(`ChangeSet operation limit (${MAX_CHANGESET_OPERATIONS}) exceeded`);
+        }
+        const newMods = new Map(this.mods);
+        newMods.delete(key);
+        const newErasures = new Set(this.erased);
+        newErasures.delete(key);
+        const newTransforms = new Map(this.xforms);
+        newTransforms.set(key, transform);
+        return new ChangeSet(newMods, newErasures, newTransforms, this.privates);
     }
 }
 
 export { ChangeSet };
+export type { SequenceItem };
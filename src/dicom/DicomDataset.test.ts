@@ -1,62 +1,19 @@
-import { describe, it, expect } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it, expect, afterEach, beforeAll, afterAll } from 'vitest';
 import { DicomDataset } from './DicomDataset';
+import type { DatasetEntry } from './DicomDataset';
+import { MAX_TRAVERSAL_DEPTH } from '../constants';
+import { Tags } from '../data/tags';
+import { ChangeSet } from './ChangeSet';
 import type { DicomTag, DicomTagPath } from '../brands';
 import type { DicomJsonModel } from '../tools/_xmlToJson';
-
-// ---------------------------------------------------------------------------
-// Test fixtures
-// ---------------------------------------------------------------------------
-
-function makeSampleData(): DicomJsonModel {
-    return {
-        '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Smith^John' }] },
-        '00100020': { vr: 'LO', Value: ['PATIENT-001'] },
-        '00080020': { vr: 'DA', Value: ['20240115'] },
-        '00080050': { vr: 'SH', Value: ['ACC-12345'] },
-        '00080060': { vr: 'CS', Value: ['CT'] },
-        '00080016': { vr: 'UI', Value: ['1.2.840.10008.5.1.4.1.1.2'] },
-        '00080018': { vr: 'UI', Value: ['1.2.3.4.5.6.7.8.9'] },
-        '0020000D': { vr: 'UI', Value: ['1.2.3.4.5'] },
-        '0020000E': { vr: 'UI', Value: ['1.2.3.4.5.6'] },
-        '00020010': { vr: 'UI', Value: ['1.2.840.10008.1.2.1'] },
-        '00280010': { vr: 'US', Value: [512] },
-        '00280011': { vr: 'US', Value: [512] },
-        '00280030': { vr: 'DS', Value: ['0.5', '0.5'] },
-        '00080008': { vr: 'CS', Value: ['ORIGINAL', 'PRIMARY', 'AXIAL'] },
-        '7FE00010': { vr: 'OW', InlineBinary: 'AAAA' },
-        '00081115': {
-            vr: 'SQ',
-            Value: [
-                {
-                    '0020000E': { vr: 'UI', Value: ['1.2.3.4.5.6.7'] },
-                    '00081199': {
-                        vr: 'SQ',
-                        Value: [
-                            { '00081150': { vr: 'UI', Value: ['1.2.840.10008.5.1.4.1.1.2'] } },
-                            { '00081150': { vr: 'UI', Value: ['1.2.840.10008.5.1.4.1.1.4'] } },
-                        ],
-                    },
-                },
-                {
-                    '0020000E': { vr: 'UI', Value: ['1.2.3.4.5.6.8'] },
-                    '00081199': {
-                        vr: 'SQ',
-                        Value: [{ '00081150': { vr: 'UI', Value: ['1.2.840.10008.5.1.4.1.1.7'] } }],
-                    },
-                },
-            ],
-        },
-        '00101010': { vr: 'AS', Value: ['032Y'] },
-        '00280101': { vr: 'US' },
-    };
-}
-
-function makeDataset(): DicomDataset {
-    const result = DicomDataset.fromJson(makeSampleData());
-    expect(result.ok).toBe(true);
-    if (!result.ok) throw new Error('unexpected');
-    return result.value;
-}
+import { bulkDataUri, parseBulkDataUri } from '../tools/_bulkData';
+import { clearPrivateDictionaries, registerPrivateDictionary } from './privateDictionary';
+import { readPart10File } from './part10Reader';
+import { writePart10 } from './part10Writer';
+import { makeSampleData, makeDataset } from '../../test/helpers';
 
 // ---------------------------------------------------------------------------
 // fromJson
@@ -131,6 +88,18 @@ describe('DicomDataset.getElement', () => {
         if (!result.ok) expect(result.error.message).toMatch(/not found/);
     });
 
+    it('finds element by keyword', () => {
+        const result = ds.getElement('PatientName');
+        expect(result.ok && result.value.vr).toBe('PN');
+        expect(ds.getString('PatientID')).toBe('PATIENT-001');
+    });
+
+    it('suggests the closest keyword for a misspelled keyword', () => {
+        const result = ds.getElement('PatientNme');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toBe('Invalid tag format: "PatientNme". Unknown DICOM keyword "PatientNme". Did you mean "PatientName"?');
+    });
+
     it('returns error for invalid tag format', () => {
         const result = ds.getElement('INVALID');
         expect(result.ok).toBe(false);
@@ -389,10 +358,423 @@ describe('DicomDataset.getStrings', () => {
     });
 });
 
+// ---------------------------------------------------------------------------
+// VR-aware typed accessors
+// ---------------------------------------------------------------------------
+
+describe('DicomDataset typed accessors', () => {
+    const ds = makeDataset();
+
+    function withElements(data: DicomJsonModel): DicomDataset {
+        const r = DicomDataset.fromJson(data);
+        if (!r.ok) throw new Error('unexpected');
+        return r.value;
+    }
+
+    it('getDate parses a DA value', () => {
+        expect(ds.getDate('00080020')).toEqual({ ok: true, value: { year: 2024, month: 1, day: 15 } });
+    });
+
+    it('getDate rejects a non-DA element', () => {
+        const result = ds.getDate('00100020');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toBe('Tag 00100020 has VR LO, expected DA');
+    });
+
+    it('getDate returns error for missing tag', () => {
+        expect(ds.getDate('00080021').ok).toBe(false);
+    });
+
+    it('getDate returns error for an empty element', () => {
+        const result = withElements({ '00080020': { vr: 'DA' } }).getDate('00080020');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/has no value/);
+    });
+
+    it('getDate returns error for a non-string value', () => {
+        const result = withElements({ '00080020': { vr: 'DA', Value: [20240115] } }).getDate('00080020');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/not a string/);
+    });
+
+    it('getTime parses a TM value', () => {
+        const result = withElements({ '00080030': { vr: 'TM', Value: ['093015'] } }).getTime('(0008,0030)' as DicomTag);
+        expect(result).toEqual({ ok: true, value: { hours: 9, minutes: 30, seconds: 15, microseconds: 0 } });
+    });
+
+    it('getTime rejects a non-TM element', () => {
+        expect(ds.getTime('00080020').ok).toBe(false);
+    });
+
+    it('getDateTime applies TimezoneOffsetFromUTC when the value has no suffix', () => {
+        const result = withElements({
+            '0008002A': { vr: 'DT', Value: ['20240115120000'] },
+            '00080201': { vr: 'SH', Value: ['+0200'] },
+        }).getDateTime('0008002A');
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(result.value.offsetMinutes).toBe(120);
+            expect(result.value.instant.toISOString()).toBe('2024-01-15T10:00:00.000Z');
+        }
+    });
+
+    it('getDateTime treats values as UTC without any offset', () => {
+        const result = withElements({ '0008002A': { vr: 'DT', Value: ['20240115120000'] } }).getDateTime('0008002A');
+        expect(result.ok && result.value.instant.toISOString()).toBe('2024-01-15T12:00:00.000Z');
+    });
+
+    it('getDateTime rejects a non-DT element', () => {
+        expect(ds.getDateTime('00080020').ok).toBe(false);
+    });
+
+    it('getPersonName splits PN components', () => {
+        const result = ds.getPersonName('00100010');
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(result.value.alphabetic?.familyName).toBe('Smith');
+            expect(result.value.alphabetic?.givenName).toBe('John');
+        }
+    });
+
+    it('getPersonName rejects a non-PN element', () => {
+        expect(ds.getPersonName('00100020').ok).toBe(false);
+    });
+
+    it('getPersonName returns error for missing tag', () => {
+        expect(ds.getPersonName('00100011').ok).toBe(false);
+    });
+
+    it('getPersonName returns error for an empty element', () => {
+        expect(withElements({ '00100010': { vr: 'PN' } }).getPersonName('00100010').ok).toBe(false);
+    });
+
+    it('getAge parses an AS value', () => {
+        expect(ds.getAge('00101010')).toEqual({ ok: true, value: { value: 32, unit: 'Y' } });
+    });
+
+    it('getAge rejects malformed ages', () => {
+        const result = withElements({ '00101010': { vr: 'AS', Value: ['32 years'] } }).getAge('00101010');
+        expect(result.ok).toBe(false);
+    });
+
+    it('getNumbers returns DS values as numbers', () => {
+        expect(ds.getNumbers('00280030')).toEqual({ ok: true, value: [0.5, 0.5] });
+    });
+
+    it('getNumbers returns binary numeric values', () => {
+        expect(ds.getNumbers('00280010')).toEqual({ ok: true, value: [512] });
+    });
+
+    it('getNumbers returns an empty array for an element without Value', () => {
+        expect(ds.getNumbers('00280101')).toEqual({ ok: true, value: [] });
+    });
+
+    it('getNumbers rejects non-numeric VRs', () => {
+        const result = ds.getNumbers('00080060');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/expected a numeric VR/);
+    });
+
+    it('getNumbers names the tag for malformed values', () => {
+        const result = withElements({ '00280030': { vr: 'DS', Value: ['0.5', 'x'] } }).getNumbers('00280030');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toBe('Tag 00280030: Value at index 1 ("x") is not numeric');
+    });
+
+    it('getNumbers returns error for missing tag', () => {
+        expect(ds.getNumbers('00280031').ok).toBe(false);
+    });
+});
+
 // ---------------------------------------------------------------------------
 // hasTag
 // ---------------------------------------------------------------------------
 
+describe('DicomDataset.get', () => {
+    it('returns a PersonName for single-valued PN tags', () => {
+        const result = makeDataset().get(Tags.PatientName);
+        expect(result.ok).toBe(true);
+        if (result.ok) expect(result.value.alphabetic?.familyName).toBe('Smith');
+    });
+
+    it('returns a number for single-valued numeric tags', () => {
+        expect(makeDataset().get(Tags.Rows)).toEqual({ ok: true, value: 512 });
+    });
+
+    it('returns parsed numbers for multi-valued DS tags', () => {
+        expect(makeDataset().get(Tags.PixelSpacing)).toEqual({ ok: true, value: [0.5, 0.5] });
+    });
+
+    it('returns a string array for multi-valued string tags', () => {
+        expect(makeDataset().get(Tags.ImageType)).toEqual({ ok: true, value: ['ORIGINAL', 'PRIMARY', 'AXIAL'] });
+    });
+
+    it('returns a string for single-valued string tags', () => {
+        expect(makeDataset().get(Tags.StudyDate)).toEqual({ ok: true, value: '20240115' });
+    });
+
+    it('returns sequence items as datasets', () => {
+        const result = makeDataset().get(Tags.ReferencedSeriesSequence);
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(result.value).toHaveLength(2);
+            expect(result.value[1]?.getString('0020000E')).toBe('1.2.3.4.5.6.8');
+        }
+    });
+
+    it('decodes InlineBinary for binary tags', () => {
+        expect(makeDataset().get(Tags.PixelData)).toEqual({ ok: true, value: new Uint8Array([0, 0, 0]) });
+    });
+
+    it('returns an error for binary tags stored as bulk data', () => {
+        const ds = DicomDataset.fromJson({ '7FE00010': { vr: 'OW', BulkDataURI: 'file:///pixels.raw' } });
+        if (!ds.ok) throw new Error('unexpected');
+        const result = ds.value.get(Tags.PixelData);
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/stored as bulk data/);
+    });
+
+    it('returns an error for missing tags', () => {
+        expect(makeDataset().get(Tags.OtherPatientNames).ok).toBe(false);
+    });
+
+    it('returns an error for single-valued tags without a value', () => {
+        const result = makeDataset().get(Tags.BitsStored);
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/has no value/);
+    });
+
+    it('returns an error when the element VR is incompatible with the definition', () => {
+        const ds = DicomDataset.fromJson({ '00280010': { vr: 'LO', Value: ['512'] } });
+        if (!ds.ok) throw new Error('unexpected');
+        const result = ds.value.get(Tags.Rows);
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toBe('Tag (0028,0010) has VR LO, expected US');
+    });
+
+    it('accepts a compatible VR of the same kind', () => {
+        const ds = DicomDataset.fromJson({ '00280010': { vr: 'SS', Value: [-1] } });
+        if (!ds.ok) throw new Error('unexpected');
+        expect(ds.value.get(Tags.Rows)).toEqual({ ok: true, value: -1 });
+    });
+
+    it('returns an error for unparseable values', () => {
+        const ds = DicomDataset.fromJson({ '00280030': { vr: 'DS', Value: ['abc', '0.5'] } });
+        if (!ds.ok) throw new Error('unexpected');
+        const result = ds.value.get(Tags.PixelSpacing);
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/^Tag \(0028,0030\): Value at index 0/);
+    });
+});
+
+describe('DicomDataset.apply', () => {
+    it('returns a new dataset reflecting sets and erasures', () => {
+        const ds = makeDataset();
+        const result = ds.apply(ChangeSet.empty().setTag('PatientName', 'Doe^Jane').eraseTag('PatientID'));
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(result.value).not.toBe(ds);
+            expect(result.value.patientName).toBe('Doe^Jane');
+            expect(result.value.hasTag('PatientID')).toBe(false);
+        }
+    });
+
+    it('leaves the original dataset unchanged', () => {
+        const ds = makeDataset();
+        ds.apply(ChangeSet.empty().setTag('PatientName', 'Doe^Jane').eraseTag('ReferencedSeriesSequence[0]'));
+        expect(ds.patientName).toBe('Smith^John');
+        expect(ds.findValues('(0008,1115)[*].(0020,000E)')).toHaveLength(2);
+    });
+
+    it('returns an error when a change cannot be applied', () => {
+        const result = makeDataset().apply(ChangeSet.empty().setTag('Rows', 'wide'));
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/^Cannot set \(0028,0010\)/);
+    });
+});
+
+describe('DicomDataset.getBinary', () => {
+    let dir: string;
+    let source: string;
+
+    beforeAll(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dcmtk-bulk-'));
+        source = join(dir, 'image.dcm');
+        const dataset = DicomDataset.fromJson({
+            '00080016': { vr: 'UI', Value: ['1.2.840.10008.5.1.4.1.1.2'] },
+            '00080018': { vr: 'UI', Value: ['1.2.3.4.5.6.7.8.9'] },
+            '00100020': { vr: 'LO', Value: ['PATIENT-001'] },
+            '54000100': { vr: 'SQ', Value: [{ '54001010': { vr: 'OW', InlineBinary: 'BAUGBw==' } }] },
+            '7FE00010': { vr: 'OB', InlineBinary: 'AQIDBA==' },
+        });
+        if (!dataset.ok) throw dataset.error;
+        const bytes = writePart10(dataset.value);
+        if (!bytes.ok) throw bytes.error;
+        await writeFile(source, bytes.value);
+    });
+
+    afterAll(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    function createDataset(overrides: DicomJsonModel = {}): DicomDataset {
+        const result = DicomDataset.fromJson({ ...makeSampleData(), ...overrides });
+        if (!result.ok) throw new Error('unexpected');
+        return result.value;
+    }
+
+    async function readWithUris(): Promise<DicomDataset> {
+        const read = await readPart10File(source, { bulkData: { mode: 'uri' } });
+        if (!read.ok) throw read.error;
+        return createDataset(read.value.data);
+    }
+
+    it('decodes InlineBinary values', async () => {
+        const ds = createDataset();
+        expect(await ds.getBinary('PixelData')).toEqual({ ok: true, value: new Uint8Array([0, 0, 0]) });
+    });
+
+    it('reads only the byte range of a BulkDataURI written by the native reader', async () => {
+        const ds = await readWithUris();
+        const uri = ds.getElement('PixelData');
+        const location = uri.ok && uri.value.BulkDataURI !== undefined ? parseBulkDataUri(uri.value.BulkDataURI) : undefined;
+        expect(location?.ok && location.value.range?.length).toBe(4);
+        expect(await ds.getBinary('7FE00010')).toEqual({ ok: true, value: new Uint8Array([1, 2, 3, 4]) });
+        const item = ds.getSequence('(5400,0100)');
+        expect(item.ok && (await item.value[0]?.getBinary('(5400,1010)'))).toEqual({ ok: true, value: new Uint8Array([4, 5, 6, 7]) });
+    });
+
+    it('reads the file up to the element for BulkDataURIs without a byte range', async () => {
+        const ds = createDataset({ '7FE00010': { vr: 'OW', BulkDataURI: bulkDataUri(source, '(7FE0,0010)') } });
+        expect(await ds.getBinary('PixelData')).toEqual({ ok: true, value: new Uint8Array([1, 2, 3, 4]) });
+        const nested = createDataset({ '7FE00010': { vr: 'OW', BulkDataURI: bulkDataUri(source, '(5400,0100)[0].(5400,1010)') } });
+        expect(await nested.getBinary('PixelData')).toEqual({ ok: true, value: new Uint8Array([4, 5, 6, 7]) });
+    });
+
+    it('fails when the source file no longer has the value', async () => {
+        const ds = createDataset({ '7FE00010': { vr: 'OW', BulkDataURI: bulkDataUri(source, '(7FE0,0020)') } });
+        const result = await ds.getBinary('PixelData');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/^Cannot resolve file:.*not found/);
+        const beyond = createDataset({ '7FE00010': { vr: 'OW', BulkDataURI: bulkDataUri(source, '(7FE0,0010)', { offset: 1 << 20, length: 4 }) } });
+        const short = await beyond.getBinary('PixelData');
+        expect(!short.ok && short.error.message).toMatch(/ends before byte/);
+    });
+
+    it('rejects BulkDataURIs that do not point into a file, and aborted reads', async () => {
+        const ds = createDataset({ '7FE00010': { vr: 'OW', BulkDataURI: 'https://example.com/bulk/1' } });
+        const result = await ds.getBinary('PixelData');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/Unsupported BulkDataURI/);
+        const aborted = await (await readWithUris()).getBinary('PixelData', { signal: AbortSignal.abort() });
+        expect(aborted.ok).toBe(false);
+    });
+
+    it('fails for missing tags and elements without a binary value', async () => {
+        expect((await createDataset().getBinary('(0009,1001)')).ok).toBe(false);
+        const result = await createDataset().getBinary('PatientID');
+        expect(!result.ok && result.error.message).toBe('Tag PatientID has no binary value');
+    });
+});
+
+describe('DicomDataset private tags', () => {
+    const CSA_TYPE = { creator: 'SIEMENS CSA HEADER', group: 0x0029, element: 0x08, vr: 'CS', name: 'CSAImageHeaderType', vm: [1, 1] } as const;
+
+    function createDataset(): DicomDataset {
+        const result = DicomDataset.fromJson({
+            '00290010': { vr: 'LO', Value: ['SIEMENS MEDCOM HEADER'] },
+            '00290011': { vr: 'LO', Value: ['SIEMENS CSA HEADER '] },
+            '00291108': { vr: 'CS', Value: ['IMAGE NUM 4'] },
+        });
+        if (!result.ok) throw new Error('unexpected');
+        return result.value;
+    }
+
+    afterEach(() => {
+        clearPrivateDictionaries();
+    });
+
+    it('resolves creator-relative tags through the Private Creator elements', () => {
+        const ds = createDataset();
+        expect(ds.resolvePrivateTag({ creator: 'SIEMENS CSA HEADER', group: 0x0029, element: 0x08 })).toEqual({ ok: true, value: '(0029,1108)' });
+        expect(ds.getPrivateElement({ creator: 'SIEMENS CSA HEADER', group: 0x0029, element: 0x08 })).toEqual({
+            ok: true,
+            value: { vr: 'CS', Value: ['IMAGE NUM 4'] },
+        });
+        const missing = ds.resolvePrivateTag({ creator: 'ACME', group: 0x0029, element: 0x08 });
+        expect(!missing.ok && missing.error.message).toBe('Private tag (0029,"ACME",08): creator not found in the dataset');
+        expect(ds.getPrivateElement({ creator: 'SIEMENS CSA HEADER', group: 0x0029, element: 0x09 }).ok).toBe(false);
+    });
+
+    it('takes the group of a reference from the registered dictionary', () => {
+        registerPrivateDictionary([CSA_TYPE]);
+        expect(createDataset().resolvePrivateTag({ creator: 'SIEMENS CSA HEADER', element: 0x08 })).toEqual({ ok: true, value: '(0029,1108)' });
+    });
+
+    it('describes private elements with the registered dictionary', () => {
+        const ds = createDataset();
+        expect(ds.getPrivateEntry('(0029,1108)')).toBeUndefined();
+        registerPrivateDictionary([CSA_TYPE]);
+        expect(ds.getPrivateEntry('(0029,1108)')).toEqual(CSA_TYPE);
+        expect(ds.getPrivateEntry('00291008')).toBeUndefined();
+        expect(ds.getPrivateEntry('not a tag')).toBeUndefined();
+    });
+
+    it('applies creator-relative changes with VRs from the registered dictionary', () => {
+        registerPrivateDictionary([{ ...CSA_TYPE, creator: 'ACME 1.0', element: 0x01 }]);
+        const changes = ChangeSet.empty()
+            .setPrivateTag({ creator: 'SIEMENS CSA HEADER', group: 0x0029, element: 0x08 }, 'MOSAIC')
+            .setPrivateTag({ creator: 'ACME 1.0', group: 0x0029, element: 0x01 }, 'REVIEWED');
+        const applied = createDataset().apply(changes);
+        expect(applied.ok).toBe(true);
+        if (!applied.ok) return;
+        expect(applied.value.toJson()).toMatchObject({
+            '00290012': { vr: 'LO', Value: ['ACME 1.0'] },
+            '00291108': { vr: 'CS', Value: ['MOSAIC'] },
+            '00291201': { vr: 'CS', Value: ['REVIEWED'] },
+        });
+        expect(createDataset().apply(ChangeSet.empty().setPrivateTag({ creator: 'OTHER', group: 0x0029, element: 0x01 }, 'X')).ok).toBe(false);
+    });
+});
+
+describe('DicomDataset character sets', () => {
+    function createDataset(model: DicomJsonModel): DicomDataset {
+        const result = DicomDataset.fromJson(model);
+        if (!result.ok) throw new Error('unexpected');
+        return result.value;
+    }
+
+    it('reads the defined terms of SpecificCharacterSet', () => {
+        expect(makeDataset().characterSet).toEqual([]);
+        expect(createDataset({ '00080005': { vr: 'CS', Value: [null, 'ISO 2022 IR 149'] } }).characterSet).toEqual(['', 'ISO 2022 IR 149']);
+    });
+
+    it('encodes text values in the character set with getRawBytes', () => {
+        const ds = createDataset({
+            '00080005': { vr: 'CS', Value: ['ISO_IR 100'] },
+            '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Buc^Jérôme' }] },
+            '00081030': { vr: 'LO', Value: ['Tête', 'Cou'] },
+        });
+        expect(ds.getRawBytes('PatientName')).toEqual({ ok: true, value: Uint8Array.from([0x42, 0x75, 0x63, 0x5e, 0x4a, 0xe9, 0x72, 0xf4, 0x6d, 0x65]) });
+        expect(ds.getRawBytes('StudyDescription')).toEqual({ ok: true, value: Uint8Array.from([0x54, 0xea, 0x74, 0x65, 0x5c, 0x43, 0x6f, 0x75]) });
+    });
+
+    it('fails for values the character set cannot encode and for binary elements', () => {
+        const ds = createDataset({ '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Jérôme' }] }, '7FE00010': { vr: 'OW', InlineBinary: 'AAAA' } });
+        const result = ds.getRawBytes('PatientName');
+        expect(!result.ok && result.error.message).toBe('Tag PatientName: "é" cannot be encoded in Specific Character Set ISO_IR 6');
+        expect(ds.getRawBytes('PixelData').ok).toBe(false);
+    });
+
+    it('switches to ISO_IR 192 when apply writes values the character set cannot encode', () => {
+        const ds = createDataset({ '00080005': { vr: 'CS', Value: ['ISO_IR 100'] } });
+        const applied = ds.apply(ChangeSet.empty().setTag('PatientName', '山田^太郎'));
+        expect(applied.ok && applied.value.characterSet).toEqual(['ISO_IR 192']);
+        const latin1 = ds.apply(ChangeSet.empty().setTag('PatientName', 'Jérôme'));
+        expect(latin1.ok && latin1.value.characterSet).toEqual(['ISO_IR 100']);
+    });
+});
+
 describe('DicomDataset.hasTag', () => {
     const ds = makeDataset();
 
@@ -421,13 +803,24 @@ describe('DicomDataset.getElementAtPath', () => {
     const ds = makeDataset();
 
     it('resolves simple (non-sequence) tag path', () => {
-        const result = ds.getElementAtPath('(0010,0010)' as DicomTagPath);
+        const result = ds.getElementAtPath('(0010,0010)');
         expect(result.ok).toBe(true);
         if (result.ok) expect(result.value.vr).toBe('PN');
     });
 
+    it('resolves keyword paths', () => {
+        const result = ds.getElementAtPath('ReferencedSeriesSequence[1].SeriesInstanceUID');
+        expect(result.ok && result.value.Value).toEqual(['1.2.3.4.5.6.8']);
+    });
+
+    it('returns error for unknown keyword in path', () => {
+        const result = ds.getElementAtPath('ReferencedSeriesSequence[0].SeriesInstanceUi' as DicomTagPath);
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/Did you mean "SeriesInstanceUID"/);
+    });
+
     it('traverses into a sequence item', () => {
-        const result = ds.getElementAtPath('(0008,1115)[0].(0020,000E)' as DicomTagPath);
+        const result = ds.getElementAtPath('(0008,1115)[0].(0020,000E)');
         expect(result.ok).toBe(true);
         if (result.ok) {
             expect(result.value.Value).toEqual(['1.2.3.4.5.6.7']);
@@ -435,7 +828,7 @@ describe('DicomDataset.getElementAtPath', () => {
     });
 
     it('traverses nested sequences', () => {
-        const result = ds.getElementAtPath('(0008,1115)[0].(0008,1199)[1].(0008,1150)' as DicomTagPath);
+        const result = ds.getElementAtPath('(0008,1115)[0].(0008,1199)[1].(0008,1150)');
         expect(result.ok).toBe(true);
         if (result.ok) {
             expect(result.value.Value).toEqual(['1.2.840.10008.5.1.4.1.1.4']);
@@ -443,19 +836,19 @@ describe('DicomDataset.getElementAtPath', () => {
     });
 
     it('returns error for non-existent intermediate tag', () => {
-        const result = ds.getElementAtPath('(9999,9999)[0].(0010,0010)' as DicomTagPath);
+        const result = ds.getElementAtPath('(9999,9999)[0].(0010,0010)');
         expect(result.ok).toBe(false);
         if (!result.ok) expect(result.error.message).toMatch(/not found/);
     });
 
     it('returns error for out-of-range sequence index', () => {
-        const result = ds.getElementAtPath('(0008,1115)[99].(0020,000E)' as DicomTagPath);
+        const result = ds.getElementAtPath('(0008,1115)[99].(0020,000E)');
         expect(result.ok).toBe(false);
         if (!result.ok) expect(result.error.message).toMatch(/no item at index/);
     });
 
     it('returns error when intermediate tag is not a sequence', () => {
-        const result = ds.getElementAtPath('(0010,0010)[0].(0010,0020)' as DicomTagPath);
+        const result = ds.getElementAtPath('(0010,0010)[0].(0010,0020)');
         expect(result.ok).toBe(false);
         if (!result.ok) expect(result.error.message).toMatch(/not a sequence/);
     });
@@ -469,7 +862,7 @@ describe('DicomDataset.getElementAtPath', () => {
         };
         const r = DicomDataset.fromJson(data);
         if (!r.ok) return;
-        const result = r.value.getElementAtPath('(0008,1115).(0020,000E)' as DicomTagPath);
+        const result = r.value.getElementAtPath('(0008,1115).(0020,000E)');
         expect(result.ok).toBe(true);
         if (result.ok) expect(result.value.Value).toEqual(['1.2.3']);
     });
@@ -483,46 +876,235 @@ describe('DicomDataset.findValues', () => {
     const ds = makeDataset();
 
     it('collects values across all wildcard items', () => {
-        const values = ds.findValues('(0008,1115)[*].(0020,000E)' as DicomTagPath);
+        const values = ds.findValues('(0008,1115)[*].(0020,000E)');
+        expect(values).toEqual(['1.2.3.4.5.6.7', '1.2.3.4.5.6.8']);
+    });
+
+    it('collects values through keyword wildcard paths', () => {
+        const values = ds.findValues('ReferencedSeriesSequence[*].SeriesInstanceUID');
         expect(values).toEqual(['1.2.3.4.5.6.7', '1.2.3.4.5.6.8']);
     });
 
     it('collects values from nested wildcard paths', () => {
-        const values = ds.findValues('(0008,1115)[*].(0008,1199)[*].(0008,1150)' as DicomTagPath);
+        const values = ds.findValues('(0008,1115)[*].(0008,1199)[*].(0008,1150)');
         expect(values).toEqual(['1.2.840.10008.5.1.4.1.1.2', '1.2.840.10008.5.1.4.1.1.4', '1.2.840.10008.5.1.4.1.1.7']);
     });
 
     it('returns empty array for non-existent tag in wildcard path', () => {
-        const values = ds.findValues('(0008,1115)[*].(9999,9999)' as DicomTagPath);
+        const values = ds.findValues('(0008,1115)[*].(9999,9999)');
         expect(values).toEqual([]);
     });
 
     it('returns empty array when base tag is missing', () => {
-        const values = ds.findValues('(9999,9999)[*].(0010,0010)' as DicomTagPath);
+        const values = ds.findValues('(9999,9999)[*].(0010,0010)');
         expect(values).toEqual([]);
     });
 
     it('handles non-wildcard path (specific index)', () => {
-        const values = ds.findValues('(0008,1115)[1].(0020,000E)' as DicomTagPath);
+        const values = ds.findValues('(0008,1115)[1].(0020,000E)');
         expect(values).toEqual(['1.2.3.4.5.6.8']);
     });
 
     it('returns leaf values for simple (non-sequence) path', () => {
-        const values = ds.findValues('(0010,0020)' as DicomTagPath);
+        const values = ds.findValues('(0010,0020)');
         expect(values).toEqual(['PATIENT-001']);
     });
 
     it('returns empty for tag with no Value property', () => {
-        const values = ds.findValues('(0028,0101)' as DicomTagPath);
+        const values = ds.findValues('(0028,0101)');
         expect(values).toEqual([]);
     });
 
     it('handles intermediate non-sequence gracefully', () => {
-        const values = ds.findValues('(0010,0010)[*].(0010,0020)' as DicomTagPath);
+        const values = ds.findValues('(0010,0010)[*].(0010,0020)');
         expect(values).toEqual([]);
     });
 });
 
+// ---------------------------------------------------------------------------
+// walk / entries / getSequence
+// ---------------------------------------------------------------------------
+
+/** Nests `levels` sequences of (0040,A730) items, each holding the next level. */
+function makeNestedData(levels: number): DicomJsonModel {
+    let model: DicomJsonModel = { '0040A160': { vr: 'UT', Value: ['leaf'] } };
+    for (let i = 0; i < levels; i++) {
+        model = { '0040A730': { vr: 'SQ', Value: [model] } };
+    }
+    return model;
+}
+
+function datasetOf(data: DicomJsonModel): DicomDataset {
+    const result = DicomDataset.fromJson(data);
+    if (!result.ok) throw new Error('unexpected');
+    return result.value;
+}
+
+describe('DicomDataset.walk', () => {
+    const ds = makeDataset();
+
+    it('visits nested sequence items depth first in tag order', () => {
+        const paths: string[] = [];
+        const result = ds.walk(entry => {
+            paths.push(entry.path);
+            return undefined;
+        });
+        expect(result.ok).toBe(true);
+        const start = paths.indexOf('(0008,1115)');
+        expect(paths.slice(start, start + 9)).toEqual([
+            '(0008,1115)',
+            '(0008,1115)[0].(0008,1199)',
+            '(0008,1115)[0].(0008,1199)[0].(0008,1150)',
+            '(0008,1115)[0].(0008,1199)[1].(0008,1150)',
+            '(0008,1115)[0].(0020,000E)',
+            '(0008,1115)[1].(0008,1199)',
+            '(0008,1115)[1].(0008,1199)[0].(0008,1150)',
+            '(0008,1115)[1].(0020,000E)',
+            '(0010,0010)',
+        ]);
+        expect(paths).toHaveLength(Object.keys(makeSampleData()).length + 7);
+        expect(paths[0]).toBe('(0002,0010)');
+    });
+
+    it('reports tag, VR, depth and parent item', () => {
+        const entries: DatasetEntry[] = [];
+        ds.walk(entry => {
+            entries.push(entry);
+            return undefined;
+        });
+        const nested = entries.find(e => e.path === '(0008,1115)[0].(0008,1199)[1].(0008,1150)');
+        expect(nested).toMatchObject({ tag: '(0008,1150)', vr: 'UI', depth: 2, parent: { path: '(0008,1115)[0].(0008,1199)', tag: '(0008,1199)', index: 1 } });
+        expect(nested?.element.Value).toEqual(['1.2.840.10008.5.1.4.1.1.4']);
+        const top = entries.find(e => e.tag === '(0010,0010)');
+        expect(top).toMatchObject({ depth: 0, vr: 'PN', parent: undefined });
+    });
+
+    it('yields paths that resolve with getElementAtPath', () => {
+        ds.walk(entry => {
+            const resolved = ds.getElementAtPath(entry.path);
+            expect(resolved.ok && resolved.value).toBe(entry.element);
+            return undefined;
+        });
+    });
+
+    it('skips the items of a sequence when the visitor returns skip', () => {
+        const paths: string[] = [];
+        ds.walk(entry => {
+            paths.push(entry.path);
+            return entry.tag === '(0008,1199)' ? 'skip' : undefined;
+        });
+        expect(paths).toContain('(0008,1115)[1].(0020,000E)');
+        expect(paths.some(p => p.includes('(0008,1150)'))).toBe(false);
+    });
+
+    it('ends the walk when the visitor returns stop', () => {
+        const paths: string[] = [];
+        const result = ds.walk(entry => {
+            paths.push(entry.path);
+            return paths.length === 3 ? 'stop' : undefined;
+        });
+        expect(result.ok).toBe(true);
+        expect(paths).toEqual(['(0002,0010)', '(0008,0008)', '(0008,0016)']);
+    });
+
+    it('ignores sequence items that are not objects', () => {
+        const data: DicomJsonModel = { '00081115': { vr: 'SQ', Value: [null as unknown, { '0020000E': { vr: 'UI', Value: ['1.2.3'] } }] } };
+        const paths: string[] = [];
+        datasetOf(data).walk(entry => {
+            paths.push(entry.path);
+            return undefined;
+        });
+        expect(paths).toEqual(['(0008,1115)', '(0008,1115)[1].(0020,000E)']);
+    });
+
+    it('walks sequences nested up to MAX_TRAVERSAL_DEPTH', () => {
+        const entries: DatasetEntry[] = [];
+        const result = datasetOf(makeNestedData(MAX_TRAVERSAL_DEPTH - 1)).walk(entry => {
+            entries.push(entry);
+            return undefined;
+        });
+        expect(result.ok).toBe(true);
+        expect(entries.at(-1)?.depth).toBe(MAX_TRAVERSAL_DEPTH - 1);
+    });
+
+    it('returns an error for sequences nested deeper than MAX_TRAVERSAL_DEPTH', () => {
+        let visited = 0;
+        const result = datasetOf(makeNestedData(MAX_TRAVERSAL_DEPTH)).walk(() => {
+            visited++;
+            return undefined;
+        });
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/maximum depth of 50/);
+        expect(visited).toBe(MAX_TRAVERSAL_DEPTH);
+    });
+});
+
+describe('DicomDataset.entries', () => {
+    it('iterates in the order of walk', () => {
+        const ds = makeDataset();
+        const walked: string[] = [];
+        ds.walk(entry => {
+            walked.push(entry.path);
+            return undefined;
+        });
+        expect([...ds.entries()].map(e => e.path)).toEqual(walked);
+    });
+
+    it('ends without an error at sequences nested too deeply', () => {
+        const entries = [...datasetOf(makeNestedData(MAX_TRAVERSAL_DEPTH)).entries()];
+        expect(entries).toHaveLength(MAX_TRAVERSAL_DEPTH);
+        expect(entries.every(e => e.tag === '(0040,A730)')).toBe(true);
+    });
+
+    it('yields nothing for an empty dataset', () => {
+        expect([...datasetOf({}).entries()]).toEqual([]);
+    });
+});
+
+describe('DicomDataset.getSequence', () => {
+    const ds = makeDataset();
+
+    it('returns the items as datasets', () => {
+        const result = ds.getSequence('ReferencedSeriesSequence');
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        expect(result.value.map(item => item.seriesInstanceUID)).toEqual(['1.2.3.4.5.6.7', '1.2.3.4.5.6.8']);
+        const nested = result.value[0]?.getSequence('(0008,1199)');
+        expect(nested?.ok && nested.value.map(item => item.getString('00081150'))).toEqual(['1.2.840.10008.5.1.4.1.1.2', '1.2.840.10008.5.1.4.1.1.4']);
+    });
+
+    it('returns an empty array for a sequence without items', () => {
+        const result = datasetOf({ '00081115': { vr: 'SQ' } }).getSequence('00081115');
+        expect(result.ok && result.value).toEqual([]);
+    });
+
+    it('returns an error for a missing tag or a non-sequence element', () => {
+        expect(ds.getSequence('(0040,A730)').ok).toBe(false);
+        const result = ds.getSequence('PatientName');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/has VR PN, expected SQ/);
+    });
+
+    it('returns an error for an item that is not a dataset', () => {
+        const result = datasetOf({ '00081115': { vr: 'SQ', Value: ['not-an-object' as unknown] } }).getSequence('00081115');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/item 0 is not a dataset/);
+    });
+
+    it('counts item depth towards MAX_TRAVERSAL_DEPTH', () => {
+        let current = datasetOf(makeNestedData(MAX_TRAVERSAL_DEPTH));
+        for (let i = 0; i < MAX_TRAVERSAL_DEPTH - 1; i++) {
+            const items = current.getSequence('(0040,A730)');
+            if (!items.ok || items.value[0] === undefined) throw new Error(`unexpected at depth ${i}`);
+            current = items.value[0];
+        }
+        const result = current.getSequence('(0040,A730)');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/maximum depth of 50/);
+        expect(current.walk(() => undefined).ok).toBe(false);
+    });
+});
+
 // ---------------------------------------------------------------------------
 // Convenience getters
 // ---------------------------------------------------------------------------
@@ -663,7 +1245,7 @@ describe('DicomDataset edge cases', () => {
         };
         const r = DicomDataset.fromJson(data);
         if (!r.ok) return;
-        const result = r.value.getElementAtPath('(0008,1115)[0].(0020,000E)' as DicomTagPath);
+        const result = r.value.getElementAtPath('(0008,1115)[0].(0020,000E)');
         expect(result.ok).toBe(false);
         if (!result.ok) expect(result.error.message).toMatch(/no item/);
     });
@@ -674,7 +1256,7 @@ describe('DicomDataset edge cases', () => {
         };
         const r = DicomDataset.fromJson(data);
         if (!r.ok) return;
-        const values = r.value.findValues('(0008,1115)[*].(0020,000E)' as DicomTagPath);
+        const values = r.value.findValues('(0008,1115)[*].(0020,000E)');
         expect(values).toEqual(['1.2.3']);
     });
 });
@@ -7,14 +7,39 @@
  * @module dicom/DicomDataset
  */
 
-import type { DicomTag, DicomTagPath, SOPClassUID } from '../brands';
+import type { DicomTag, DicomTagPath, SOPClassUID, TagPathInput } from '../brands';
 import { createSOPClassUID } from '../brands';
 import { MAX_TRAVERSAL_DEPTH } from '../constants';
 import type { Result } from '../types';
 import { ok, err } from '../types';
 import type { TagSegment } from './tagPath';
 import { tagPathToSegments } from './tagPath';
+import { resolveKeyword } from './dictionary';
+import { VR, isBinaryVR, isNumericVR } from './vr';
+import type { VRValue } from './vr';
+import { parseAge, parseDate, parseDateTime, parseNumbers, parsePersonName, parseTime } from './values';
+import type { DicomAge, DicomDate, DicomDateTime, DicomTime, PersonName } from './values';
+import type { TagDefinition, TagMultiplicity, TagValue } from './tagTypes';
+import type { ChangeSet } from './ChangeSet';
+import { applyChangeSet } from './applyChangeSet';
+import { diffModels } from './diff';
+import type { DatasetDiff } from './diff';
+import { jsonToXml } from './nativeXml';
+import { jsonToDcmtkXml } from './dcmtkXml';
+import { formatDataset } from './formatDataset';
+import { canonicalizeModel, fingerprintModel } from './fingerprint';
+import type { CanonicalOptions, FingerprintOptions } from './fingerprint';
+import { JsonValidationMode, validateDicomJson } from './validateJson';
+import type { JsonFinding, JsonValidationModeValue } from './validateJson';
+import type { DatasetFormatOptions } from './formatDataset';
+import { toModifyValue } from './transforms';
+import { findCreatorBlock, formatPrivateRef, lookupPrivateElement, placePrivateRef, privateTag } from './privateDictionary';
+import type { PrivateDictionaryEntry, PrivateTagRef } from './privateDictionary';
 import type { DicomJsonElement, DicomJsonModel } from '../tools/_xmlToJson';
+import { parseBulkDataUri, readByteRange } from '../tools/_bulkData';
+import { readPart10File } from './part10Reader';
+import { characterSetTerms, encodeText } from '../tools/_characterSet';
+import type { ToolBaseOptions } from '../tools/_toolTypes';
 
 // ---------------------------------------------------------------------------
 // Tag normalization
@@ -22,10 +47,18 @@ import type { DicomJsonElement, DicomJsonModel } from '../tools/_xmlToJson';
 
 const TAG_WITH_PARENS = /^\(([0-9A-Fa-f]{4}),([0-9A-Fa-f]{4})\)$/;
 const TAG_HEX_ONLY = /^[0-9A-Fa-f]{8}$/;
+const TAG_KEYWORD = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+/** Resolves a dictionary keyword to 8-char uppercase hex, with a suggestion on failure. */
+function normalizeKeyword(keyword: string): Result<string> {
+    const resolved = resolveKeyword(keyword);
+    if (!resolved.ok) return err(new Error(`Invalid tag format: "${keyword}". ${resolved.error.message}`));
+    return ok(resolved.value.replace(/[(),]/g, '').toUpperCase());
+}
 
 /**
  * Normalizes a DICOM tag to 8-char uppercase hex.
- * Accepts `(0010,0010)` or `00100010` formats.
+ * Accepts `(0010,0010)`, `00100010` or keyword (`PatientName`) formats.
  */
 function normalizeTag(tag: DicomTag | string): Result<string> {
     const parenMatch = TAG_WITH_PARENS.exec(tag);
@@ -39,7 +72,10 @@ function normalizeTag(tag: DicomTag | string): Result<string> {
     if (TAG_HEX_ONLY.test(tag)) {
         return ok(tag.toUpperCase());
     }
-    return err(new Error(`Invalid tag format: "${tag}". Expected (XXXX,XXXX) or XXXXXXXX`));
+    if (TAG_KEYWORD.test(tag)) {
+        return normalizeKeyword(tag);
+    }
+    return err(new Error(`Invalid tag format: "${tag}". Expected (XXXX,XXXX), XXXXXXXX or a dictionary keyword`));
 }
 
 // ---------------------------------------------------------------------------
@@ -113,6 +149,111 @@ function extractStrings(element: DicomJsonElement): ReadonlyArray<string> {
     return result;
 }
 
+// ---------------------------------------------------------------------------
+// VR-aware extraction helpers
+// ---------------------------------------------------------------------------
+
+/** Verifies that an element carries one of the expected VRs. */
+function checkVR(tag: string, element: DicomJsonElement, expected: ReadonlyArray<VRValue>): Result<void> {
+    if (expected.includes(element.vr as VRValue)) return ok(undefined);
+    return err(new Error(`Tag ${tag} has VR ${element.vr}, expected ${expected.join(' or ')}`));
+}
+
+/** Extracts the first value of an element as a string for VR-specific parsing. */
+function firstStringValue(tag: string, element: DicomJsonElement): Result<string> {
+    const first = element.Value?.[0];
+    if (first === undefined || first === null) return err(new Error(`Tag ${tag} has no value`));
+    if (typeof first !== 'string') return err(new Error(`Tag ${tag} value is not a string: ${typeof first}`));
+    return ok(first);
+}
+
+/** Returns true if the VR holds numbers, either binary (US, FD, ...) or as strings (DS, IS). */
+function isNumberBearingVR(vr: string): boolean {
+    return isNumericVR(vr) || vr === VR.DS || vr === VR.IS;
+}
+
+// ---------------------------------------------------------------------------
+// Tag definition helpers
+// ---------------------------------------------------------------------------
+
+/** The JavaScript shape a VR's values are converted to by {@link DicomDataset.get}. */
+type ValueKind = 'sequence' | 'binary' | 'personName' | 'number' | 'string';
+
+/** Classifies a VR by the JavaScript shape of its values. */
+function valueKindOf(vr: string): ValueKind {
+    if (vr === VR.SQ) return 'sequence';
+    if (isBinaryVR(vr)) return 'binary';
+    if (vr === VR.PN) return 'personName';
+    if (isNumberBearingVR(vr)) return 'number';
+    return 'string';
+}
+
+/** Returns true if the multiplicity allows exactly one value. */
+function isSingleValued(vm: TagMultiplicity): boolean {
+    return vm[0] === 1 && vm[1] === 1;
+}
+
+/** Wraps each item of a sequence element in a DicomDataset. */
+function convertSequence(tag: string, element: DicomJsonElement): Result<ReadonlyArray<DicomDataset>> {
+    const items = element.Value ?? [];
+    const datasets: DicomDataset[] = [];
+    for (let i = 0; i < items.length; i++) {
+        const item = DicomDataset.fromJson(items[i]);
+        if (!item.ok) return err(new Error(`Tag ${tag} item ${i}: ${item.error.message}`));
+        datasets.push(item.value);
+    }
+    return ok(datasets);
+}
+
+/** Decodes the InlineBinary payload of a binary element. */
+function convertBinary(tag: string, element: DicomJsonElement): Result<Uint8Array> {
+    if (element.InlineBinary === undefined) {
+        const reason = element.BulkDataURI !== undefined ? 'is stored as bulk data' : 'has no inline binary value';
+        return err(new Error(`Tag ${tag} ${reason}`));
+    }
+    return ok(decodeInlineBinary(element.InlineBinary));
+}
+
+/** Decodes a base64 InlineBinary value. */
+function decodeInlineBinary(base64: string): Uint8Array {
+    return new Uint8Array(Buffer.from(base64, 'base64'));
+}
+
+/** Parses every value of a PN element. */
+function convertPersonNames(element: DicomJsonElement): Result<ReadonlyArray<PersonName>> {
+    const names: PersonName[] = [];
+    for (const value of element.Value ?? []) {
+        const parsed = parsePersonName(value);
+        if (!parsed.ok) return err(parsed.error);
+        names.push(parsed.value);
+    }
+    return ok(names);
+}
+
+/** Converts every value of a PN, number-bearing or string element. */
+function convertValueList(kind: ValueKind, element: DicomJsonElement): Result<ReadonlyArray<unknown>> {
+    if (kind === 'personName') return convertPersonNames(element);
+    if (kind === 'number') return parseNumbers(element.Value ?? []);
+    return ok(extractStrings(element));
+}
+
+/** Converts an element to the value shape described by a tag definition. */
+function convertTagValue(definition: TagDefinition, element: DicomJsonElement): Result<unknown> {
+    const kind = valueKindOf(definition.vr);
+    if (valueKindOf(element.vr) !== kind) {
+        return err(new Error(`Tag ${definition.tag} has VR ${element.vr}, expected ${definition.vr}`));
+    }
+    if (kind === 'sequence') return convertSequence(definition.tag, element);
+    if (kind === 'binary') return convertBinary(definition.tag, element);
+
+    const values = convertValueList(kind, element);
+    if (!values.ok) return err(new Error(`Tag ${definition.tag}: ${values.error.message}`));
+    if (!isSingleValued(definition.vm)) return values;
+    const first = values.value[0];
+    if (first === undefined) return err(new Error(`Tag ${definition.tag} has no value`));
+    return ok(first);
+}
+
 // ---------------------------------------------------------------------------
 // Path traversal helpers (iterative, no recursion — Rule 8.2)
 // ---------------------------------------------------------------------------
@@ -163,6 +304,45 @@ function traversePath(data: DicomJsonModel, segments: ReadonlyArray<TagSegment>)
     return err(new Error('Empty path segments'));
 }
 
+/** Parses a tag path that comes from data rather than code, returning errors instead of throwing. */
+function parsePath(path: string): Result<ReadonlyArray<TagSegment>> {
+    try {
+        // The path is read from a BulkDataURI at runtime, so it is validated here rather than at compile time
+        return ok(tagPathToSegments(path as DicomTagPath));
+    } catch (error: unknown) {
+        return err(error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+/** Returns the hex key of the tag after a segment's tag, at which reading up to the segment's element can stop. */
+function tagKeyAfter(segment: TagSegment | undefined): string | undefined {
+    const key = segment === undefined ? undefined : normalizeTag(segment.tag);
+    if (key === undefined || !key.ok) return undefined;
+    const next = parseInt(key.value, 16) + 1;
+    return next > 0xffffffff ? undefined : next.toString(16).toUpperCase().padStart(8, '0');
+}
+
+/**
+ * Reads the value a BulkDataURI references from its source file: only its byte range when the
+ * URI has one, else the file up to the element, with the in-process Part 10 reader.
+ */
+async function readBulkData(uri: string): Promise<Result<Uint8Array>> {
+    const location = parseBulkDataUri(uri);
+    if (!location.ok) return err(location.error);
+    const { filePath, path, range } = location.value;
+    if (range !== undefined) return readByteRange(filePath, range);
+    const segments = parsePath(path);
+    if (!segments.ok) return err(segments.error);
+
+    const read = await readPart10File(filePath, { stopAtTag: tagKeyAfter(segments.value[0]) });
+    if (!read.ok) return err(read.error);
+
+    const element = traversePath(read.value.data, segments.value);
+    if (!element.ok) return err(new Error(`Cannot resolve ${uri}: ${element.error.message}`));
+    if (element.value.InlineBinary === undefined) return err(new Error(`Cannot resolve ${uri}: the element has no binary value`));
+    return ok(decodeInlineBinary(element.value.InlineBinary));
+}
+
 // ---------------------------------------------------------------------------
 // Wildcard collection (iterative queue — Rule 8.2)
 // ---------------------------------------------------------------------------
@@ -238,6 +418,203 @@ function enqueueSequenceItems(element: DicomJsonElement, seg: TagSegment, segmen
     }
 }
 
+// ---------------------------------------------------------------------------
+// Element walking (iterative stack — Rule 8.2)
+// ---------------------------------------------------------------------------
+
+/** The sequence item an element visited by {@link DicomDataset.walk} belongs to. */
+interface DatasetEntryParent {
+    /** Path of the sequence element holding the item. */
+    readonly path: DicomTagPath;
+    /** Tag of the sequence element. */
+    readonly tag: DicomTag;
+    /** Index of the item within the sequence. */
+    readonly index: number;
+}
+
+/** An element visited by {@link DicomDataset.walk} or {@link DicomDataset.entries}. */
+interface DatasetEntry {
+    /** Full path of the element, e.g. `(0008,1115)[0].(0020,000E)`. */
+    readonly path: DicomTagPath;
+    /** Tag of the element, `(gggg,eeee)`. */
+    readonly tag: DicomTag;
+    /** Value Representation of the element. */
+    readonly vr: string;
+    /** The element itself. */
+    readonly element: DicomJsonElement;
+    /** Sequence nesting level: 0 for top-level elements, 1 for elements of their items, and so on. */
+    readonly depth: number;
+    /** The sequence item holding the element; undefined for top-level elements. */
+    readonly parent?: DatasetEntryParent | undefined;
+}
+
+/** Returned by a {@link DatasetVisitor}: `'skip'` leaves the items of a sequence unvisited, `'stop'` ends the walk. */
+type WalkControl = 'skip' | 'stop';
+
+/** Called by {@link DicomDataset.walk} for every element, parents before the elements of their items. */
+type DatasetVisitor = (entry: DatasetEntry) => WalkControl | undefined;
+
+/** Formats an 8-hex element key as a `(gggg,eeee)` tag. */
+function keyToTag(key: string): DicomTag {
+    const hex = key.toUpperCase();
+    return `(${hex.slice(0, 4)},${hex.slice(4)})` as DicomTag;
+}
+
+/** Builds the entries of a dataset or sequence item in tag order. */
+function modelEntries(model: DicomJsonModel, depth: number, parent?: DatasetEntryParent): DatasetEntry[] {
+    const prefix = parent !== undefined ? `${parent.path}[${parent.index}].` : '';
+    const entries: DatasetEntry[] = [];
+    for (const key of Object.keys(model).sort()) {
+        const element = model[key] as DicomJsonElement;
+        const tag = keyToTag(key);
+        entries.push({ path: `${prefix}${tag}` as DicomTagPath, tag, vr: element.vr, element, depth, parent });
+    }
+    return entries;
+}
+
+/**
+ * Builds the entries of every item of a sequence entry. `nesting` is the sequence depth of the
+ * walked dataset itself, so items of datasets returned by {@link DicomDataset.getSequence} count
+ * towards MAX_TRAVERSAL_DEPTH from the top-level dataset.
+ */
+function itemEntries(entry: DatasetEntry, nesting: number): Result<DatasetEntry[]> {
+    const items = getSequenceItems(entry.element) ?? [];
+    if (items.length === 0) return ok([]);
+    if (nesting + entry.depth + 2 > MAX_TRAVERSAL_DEPTH) {
+        return err(new Error(`Sequence nesting exceeds maximum depth of ${MAX_TRAVERSAL_DEPTH} at ${entry.path}`));
+    }
+    const entries: DatasetEntry[] = [];
+    for (let i = 0; i < items.length; i++) {
+        const item = items[i];
+        if (typeof item !== 'object' || item === null) continue;
+        entries.push(...modelEntries(item as DicomJsonModel, entry.depth + 1, { path: entry.path, tag: entry.tag, index: i }));
+    }
+    return ok(entries);
+}
+
+/**
+ * Yields every element depth first in tag order. Passing `false` to `next()` skips the items
+ * of the sequence just yielded; the return value reports nesting beyond MAX_TRAVERSAL_DEPTH.
+ */
+function* iterateEntries(data: DicomJsonModel, nesting: number): Generator<DatasetEntry, Result<void>, boolean | undefined> {
+    const stack = modelEntries(data, 0).reverse();
+    while (stack.length > 0) {
+        const entry = stack.pop() as DatasetEntry;
+        const descend = yield entry;
+        if (descend === false) continue;
+        const children = itemEntries(entry, nesting);
+        if (!children.ok) return children;
+        for (let i = children.value.length - 1; i >= 0; i--) stack.push(children.value[i] as DatasetEntry);
+    }
+    return ok(undefined);
+}
+
+// ---------------------------------------------------------------------------
+// JSON validation helpers
+// ---------------------------------------------------------------------------
+
+/** Options for {@link DicomDataset.fromJson}. */
+interface DicomDatasetJsonOptions {
+    /** How thoroughly the JSON is validated before it is wrapped (default: `lenient`). */
+    readonly validation?: JsonValidationModeValue | undefined;
+}
+
+/** Number of validation errors quoted in the error of {@link DicomDataset.fromJson}. */
+const QUOTED_JSON_ERRORS = 5;
+
+/** Lists the first validation errors, with a count of the rest. */
+function describeJsonErrors(findings: ReadonlyArray<JsonFinding>): string {
+    const errors = findings.filter(finding => finding.severity === 'error');
+    const quoted = errors.slice(0, QUOTED_JSON_ERRORS).map(finding => `${finding.path}: ${finding.message}`);
+    const more = errors.length - quoted.length;
+    return more > 0 ? `${quoted.join('; ')} (and ${more} more)` : quoted.join('; ');
+}
+
+/** Matches a tag key with lower-case hex digits. */
+const LOWER_CASE_TAG_KEY = /^(?=.*[a-f])[0-9A-Fa-f]{8}$/;
+
+/** A dataset or sequence item to copy, and the object its elements are copied to. */
+interface KeyCopy {
+    readonly source: DicomJsonModel;
+    readonly target: Record<string, DicomJsonElement>;
+}
+
+/** Whether any tag key, at any nesting level, has lower-case hex digits. */
+function hasLowerCaseTagKeys(json: DicomJsonModel): boolean {
+    const stack: DicomJsonModel[] = [json];
+    for (let model = stack.pop(); model !== undefined; model = stack.pop()) {
+        for (const [key, element] of Object.entries(model)) {
+            if (LOWER_CASE_TAG_KEY.test(key)) return true;
+            stack.push(...itemModels(element));
+        }
+    }
+    return false;
+}
+
+/** The sequence items of an element that are objects. */
+function itemModels(element: unknown): DicomJsonModel[] {
+    if (element === null || typeof element !== 'object') return [];
+    const items = getSequenceItems(element as DicomJsonElement) ?? [];
+    return items.filter((item): item is DicomJsonModel => item !== null && typeof item === 'object' && !Array.isArray(item));
+}
+
+/** Copies an element into `target`, queueing the copies of its sequence items. */
+function copyElement(target: Record<string, DicomJsonElement>, key: string, element: DicomJsonElement, stack: KeyCopy[]): void {
+    const items = element !== null && typeof element === 'object' ? getSequenceItems(element) : undefined;
+    if (items === undefined) {
+        target[key] = element;
+        return;
+    }
+    const copies = items.map(item => {
+        if (item === null || typeof item !== 'object' || Array.isArray(item)) return item;
+        const copy: Record<string, DicomJsonElement> = {};
+        stack.push({ source: item as DicomJsonModel, target: copy });
+        return copy;
+    });
+    target[key] = { ...element, Value: copies };
+}
+
+/**
+ * Returns the model with its tag keys in upper case at every nesting level, as every
+ * accessor looks them up (iterative, no recursion — Rule 8.2). A key already in upper
+ * case wins over a lower-case spelling of the same tag. Models without lower-case keys
+ * are returned as they are.
+ */
+function upperCaseTagKeys(json: DicomJsonModel): DicomJsonModel {
+    if (!hasLowerCaseTagKeys(json)) return json;
+    const root: Record<string, DicomJsonElement> = {};
+    const stack: KeyCopy[] = [{ source: json, target: root }];
+    for (let next = stack.pop(); next !== undefined; next = stack.pop()) {
+        const { source, target } = next;
+        for (const [key, element] of Object.entries(source)) {
+            const upper = LOWER_CASE_TAG_KEY.test(key) ? key.toUpperCase() : key;
+            if (upper !== key && upper in source) continue;
+            copyElement(target, upper, element, stack);
+        }
+    }
+    return root;
+}
+
+// ---------------------------------------------------------------------------
+// Fingerprint helpers
+// ---------------------------------------------------------------------------
+
+/** Resolves the ignored tags of fingerprint options to normalized keys. */
+function resolveCanonicalOptions(options: FingerprintOptions | undefined): Result<CanonicalOptions> {
+    const ignoreKeys = new Set<string>();
+    for (const tag of options?.ignoreTags ?? []) {
+        const norm = normalizeTag(tag);
+        if (!norm.ok) return err(norm.error);
+        ignoreKeys.add(norm.value);
+    }
+    return ok({
+        ignoreKeys,
+        ignoreGroupLengths: options?.ignoreGroupLengths === true,
+        ignorePrivate: options?.ignorePrivate === true,
+        ignoreBulkData: options?.ignoreBulkData === true,
+    });
+}
+
 // ---------------------------------------------------------------------------
 // Well-known DICOM tag keys (8-char hex, uppercase)
 // ---------------------------------------------------------------------------
@@ -253,6 +630,8 @@ const TAGS = {
     SeriesInstanceUID: '0020000E',
     SOPInstanceUID: '00080018',
     TransferSyntaxUID: '00020010',
+    TimezoneOffsetFromUTC: '00080201',
+    SpecificCharacterSet: '00080005',
 } as const;
 
 // ---------------------------------------------------------------------------
@@ -277,30 +656,67 @@ const TAGS = {
  */
 class DicomDataset {
     private readonly data: DicomJsonModel;
+    /** Sequence depth of this dataset: 0 for a top-level dataset, n for an item of {@link getSequence} at depth n. */
+    private readonly nesting: number;
 
-    private constructor(data: DicomJsonModel) {
+    private constructor(data: DicomJsonModel, nesting = 0) {
         this.data = data;
+        this.nesting = nesting;
     }
 
     /**
      * Creates a DicomDataset from a DICOM JSON Model object.
      *
-     * Performs structural validation only — verifies the input is a non-null object.
+     * By default performs structural validation only — verifies the input is a non-null object.
+     * JSON from untrusted sources, such as third-party DICOMweb servers, can be validated
+     * element by element with the `standard` or `strict` mode (see {@link validateDicomJson}).
+     * Lower-case tag keys, which `standard` mode accepts with a warning, are upper-cased at
+     * every nesting level so that every accessor finds them.
+     *
+     * @example
+     * ```ts
+     * const ds = DicomDataset.fromJson(await response.json(), { validation: 'strict' });
+     * if (!ds.ok) console.error(ds.error.message); // Invalid DICOM JSON: $['00100010']['vr']: Unknown VR "XX"
+     * ```
      *
      * @param json - A DICOM JSON Model object (typically from dcm2json)
-     * @returns A Result containing the DicomDataset or an error
+     * @param options - The validation mode (default: `lenient`)
+     * @returns A Result containing the DicomDataset, or an error listing the first validation errors
      */
-    static fromJson(json: unknown): Result<DicomDataset> {
+    static fromJson(json: unknown, options?: DicomDatasetJsonOptions): Result<DicomDataset> {
         if (json === null || json === undefined || typeof json !== 'object' || Array.isArray(json)) {
             return err(new Error('Invalid DICOM JSON: expected a non-null, non-array object'));
         }
-        return ok(new DicomDataset(json as DicomJsonModel));
+        const report = validateDicomJson(json, options?.validation ?? JsonValidationMode.LENIENT);
+        if (!report.valid) return err(new Error(`Invalid DICOM JSON: ${describeJsonErrors(report.findings)}`));
+        return ok(new DicomDataset(upperCaseTagKeys(json as DicomJsonModel)));
+    }
+
+    /**
+     * Computes the structural differences between two datasets.
+     *
+     * Sequences present in both are compared item by item at the same index;
+     * surplus items are reported as added or removed whole items.
+     *
+     * @example
+     * ```ts
+     * const diff = DicomDataset.diff(before, after);
+     * console.log(diff.format());
+     * const changes = diff.toChangeSet(); // Result<ChangeSet> turning `before` into `after`
+     * ```
+     *
+     * @param a - The first dataset
+     * @param b - The second dataset
+     * @returns The added, removed and changed elements and items that turn `a` into `b`
+     */
+    static diff(a: DicomDataset, b: DicomDataset): DatasetDiff {
+        return diffModels(a.data, b.data);
     }
 
     /**
      * Gets the full DICOM JSON element for a tag.
      *
-     * @param tag - A DicomTag `(0010,0010)` or hex string `00100010`
+     * @param tag - A DicomTag `(0010,0010)`, hex string `00100010` or keyword `PatientName`
      * @returns Result containing the element or an error if not found
      */
     getElement(tag: DicomTag | string): Result<DicomJsonElement> {
@@ -314,7 +730,7 @@ class DicomDataset {
     /**
      * Gets the Value array for a tag.
      *
-     * @param tag - A DicomTag `(0010,0010)` or hex string `00100010`
+     * @param tag - A DicomTag `(0010,0010)`, hex string `00100010` or keyword `PatientName`
      * @returns Result containing the readonly Value array or an error
      */
     getValue(tag: DicomTag | string): Result<ReadonlyArray<unknown>> {
@@ -328,7 +744,7 @@ class DicomDataset {
     /**
      * Gets the first element of the Value array for a tag.
      *
-     * @param tag - A DicomTag `(0010,0010)` or hex string `00100010`
+     * @param tag - A DicomTag `(0010,0010)`, hex string `00100010` or keyword `PatientName`
      * @returns Result containing the first value or an error
      */
     getFirstValue(tag: DicomTag | string): Result<unknown> {
@@ -345,7 +761,7 @@ class DicomDataset {
      * Returns the fallback (default empty string) if the tag is missing or has no value.
      * Handles PN (PersonName) values by extracting the Alphabetic component.
      *
-     * @param tag - A DicomTag `(0010,0010)` or hex string `00100010`
+     * @param tag - A DicomTag `(0010,0010)`, hex string `00100010` or keyword `PatientName`
      * @param fallback - Value to return if tag is missing (default: `''`)
      * @returns The string value or the fallback
      */
@@ -359,7 +775,7 @@ class DicomDataset {
     /**
      * Gets a tag value as a validated number.
      *
-     * @param tag - A DicomTag `(0010,0010)` or hex string `00100010`
+     * @param tag - A DicomTag `(0010,0010)`, hex string `00100010` or keyword `PatientName`
      * @returns Result containing the number or an error
      */
     getNumber(tag: DicomTag | string): Result<number> {
@@ -373,7 +789,7 @@ class DicomDataset {
      *
      * Useful for multi-valued tags like CS (Code String).
      *
-     * @param tag - A DicomTag `(0010,0010)` or hex string `00100010`
+     * @param tag - A DicomTag `(0010,0010)`, hex string `00100010` or keyword `PatientName`
      * @returns Result containing the readonly string array or an error
      */
     getStrings(tag: DicomTag | string): Result<ReadonlyArray<string>> {
@@ -382,10 +798,169 @@ class DicomDataset {
         return ok(extractStrings(elemResult.value));
     }
 
+    /**
+     * Gets a DA (Date) tag value as a structured date.
+     *
+     * @param tag - A DicomTag `(0008,0020)` or hex string `00080020`
+     * @returns Result containing the parsed date, or an error if missing, not DA, or malformed
+     */
+    getDate(tag: DicomTag | string): Result<DicomDate> {
+        const raw = this.getTypedString(tag, [VR.DA]);
+        if (!raw.ok) return err(raw.error);
+        return parseDate(raw.value);
+    }
+
+    /**
+     * Gets a TM (Time) tag value as a structured time of day.
+     *
+     * @param tag - A DicomTag `(0008,0030)` or hex string `00080030`
+     * @returns Result containing the parsed time, or an error if missing, not TM, or malformed
+     */
+    getTime(tag: DicomTag | string): Result<DicomTime> {
+        const raw = this.getTypedString(tag, [VR.TM]);
+        if (!raw.ok) return err(raw.error);
+        return parseTime(raw.value);
+    }
+
+    /**
+     * Gets a DT (Date Time) tag value as a structured date-time.
+     *
+     * If the value has no UTC offset suffix, TimezoneOffsetFromUTC (0008,0201)
+     * is applied when present in the dataset.
+     *
+     * @param tag - A DicomTag `(0008,002A)` or hex string `0008002A`
+     * @returns Result containing the parsed date-time, or an error if missing, not DT, or malformed
+     */
+    getDateTime(tag: DicomTag | string): Result<DicomDateTime> {
+        const raw = this.getTypedString(tag, [VR.DT]);
+        if (!raw.ok) return err(raw.error);
+        const offset = this.getString(TAGS.TimezoneOffsetFromUTC);
+        return parseDateTime(raw.value, offset.length > 0 ? offset : undefined);
+    }
+
+    /**
+     * Gets a PN (Person Name) tag value with its component groups split into components.
+     *
+     * @param tag - A DicomTag `(0010,0010)`, hex string `00100010` or keyword `PatientName`
+     * @returns Result containing the parsed person name, or an error if missing, not PN, or malformed
+     */
+    getPersonName(tag: DicomTag | string): Result<PersonName> {
+        const elemResult = this.getElement(tag);
+        if (!elemResult.ok) return err(elemResult.error);
+        const vrCheck = checkVR(tag, elemResult.value, [VR.PN]);
+        if (!vrCheck.ok) return err(vrCheck.error);
+        const first = elemResult.value.Value?.[0];
+        if (first === undefined || first === null) return err(new Error(`Tag ${tag} has no value`));
+        return parsePersonName(first);
+    }
+
+    /**
+     * Gets an AS (Age String) tag value as a number and unit.
+     *
+     * @param tag - A DicomTag `(0010,1010)` or hex string `00101010`
+     * @returns Result containing the parsed age, or an error if missing, not AS, or malformed
+     */
+    getAge(tag: DicomTag | string): Result<DicomAge> {
+        const raw = this.getTypedString(tag, [VR.AS]);
+        if (!raw.ok) return err(raw.error);
+        return parseAge(raw.value);
+    }
+
+    /**
+     * Gets all values of a numeric tag as numbers.
+     *
+     * Accepts binary numeric VRs (US, FD, ...) as well as DS and IS, including
+     * backslash-delimited multi-value strings.
+     *
+     * @param tag - A DicomTag `(0028,0030)` or hex string `00280030`
+     * @returns Result containing the readonly number array, or an error if the tag is not numeric
+     */
+    getNumbers(tag: DicomTag | string): Result<ReadonlyArray<number>> {
+        const elemResult = this.getElement(tag);
+        if (!elemResult.ok) return err(elemResult.error);
+        if (!isNumberBearingVR(elemResult.value.vr)) {
+            return err(new Error(`Tag ${tag} has VR ${elemResult.value.vr}, expected a numeric VR, DS or IS`));
+        }
+        const parsed = parseNumbers(elemResult.value.Value ?? []);
+        if (!parsed.ok) return err(new Error(`Tag ${tag}: ${parsed.error.message}`));
+        return parsed;
+    }
+
+    /**
+     * Gets a tag value typed by its definition in the generated `Tags` catalog.
+     *
+     * The return type follows the definition's VR and VM: PN yields {@link PersonName},
+     * numeric VRs, DS and IS yield numbers, SQ yields item datasets, binary VRs yield
+     * the decoded InlineBinary bytes and other VRs yield strings. Tags whose VM is
+     * exactly 1 yield a single value; all others yield a readonly array.
+     *
+     * @example
+     * ```ts
+     * const rows = ds.get(Tags.Rows); // Result<number>
+     * const imageType = ds.get(Tags.ImageType); // Result<ReadonlyArray<string>>
+     * ```
+     *
+     * @param definition - A tag definition, typically an entry of `Tags`
+     * @returns Result containing the typed value, or an error if the tag is missing,
+     *   has an incompatible VR or its value cannot be converted
+     */
+    get<T extends TagDefinition>(definition: T): Result<TagValue<T>> {
+        const elemResult = this.getElement(definition.tag);
+        if (!elemResult.ok) return err(elemResult.error);
+        const converted = convertTagValue(definition, elemResult.value);
+        if (!converted.ok) return err(converted.error);
+        return ok(converted.value as TagValue<T>);
+    }
+
+    /**
+     * Gets the bytes of a binary element.
+     *
+     * InlineBinary values are decoded directly. A BulkDataURI written by a `bulkData`
+     * policy of `dcm2json` or `DicomFile.open` is resolved lazily, in-process: when it
+     * carries the value's byte range, only those bytes of the source file are read; else
+     * the file is read up to the element at the URI's tag path. The source file must not
+     * have changed since the dataset was read.
+     *
+     * @param tag - A DicomTag `(7FE0,0010)`, hex string `7FE00010` or keyword `PixelData`
+     * @param options - An abort signal, checked before a BulkDataURI is resolved; the timeout is not used
+     * @returns A Result containing the bytes, or an error if the tag is missing, has no
+     *   binary value, or its BulkDataURI cannot be resolved
+     */
+    async getBinary(tag: DicomTag | string, options?: ToolBaseOptions): Promise<Result<Uint8Array>> {
+        const elemResult = this.getElement(tag);
+        if (!elemResult.ok) return err(elemResult.error);
+        const element = elemResult.value;
+        if (element.InlineBinary !== undefined) return ok(decodeInlineBinary(element.InlineBinary));
+        if (element.BulkDataURI === undefined) return err(new Error(`Tag ${tag} has no binary value`));
+        if (options?.signal?.aborted === true) return err(new Error(`Reading ${element.BulkDataURI} was aborted`));
+        return readBulkData(element.BulkDataURI);
+    }
+
+    /**
+     * Gets a text value as stored in the file: encoded in the dataset's Specific Character Set.
+     *
+     * Values read through `dcm2json` are decoded strings; this is their raw form. Multiple
+     * values are joined with a backslash and person name groups with `=`. The character set of the
+     * top-level dataset is used, also for elements of sequence items.
+     *
+     * @param tag - A DicomTag `(0010,0010)`, hex string `00100010` or keyword `PatientName`
+     * @returns A Result containing the encoded bytes, or an error if the tag is missing, is
+     *   binary, or its value cannot be encoded in the character set
+     */
+    getRawBytes(tag: DicomTag | string): Result<Uint8Array> {
+        const elemResult = this.getElement(tag);
+        if (!elemResult.ok) return err(elemResult.error);
+        const value = toModifyValue(elemResult.value);
+        if (!value.ok) return err(new Error(`Tag ${tag}: ${value.error.message}`));
+        const encoded = encodeText(value.value, this.characterSet);
+        if (!encoded.ok) return err(new Error(`Tag ${tag}: ${encoded.error.message}`));
+        return encoded;
+    }
+
     /**
      * Checks whether a tag exists in the dataset.
      *
-     * @param tag - A DicomTag `(0010,0010)` or hex string `00100010`
+     * @param tag - A DicomTag `(0010,0010)`, hex string `00100010` or keyword `PatientName`
      * @returns `true` if the tag is present
      */
     hasTag(tag: DicomTag | string): boolean {
@@ -394,15 +969,67 @@ class DicomDataset {
         return resolveElement(this.data, norm.value) !== undefined;
     }
 
+    /**
+     * Resolves a creator-relative private tag to its tag in this dataset.
+     *
+     * The block is the one reserved by the top-level Private Creator element (gggg,0010-00FF)
+     * holding `ref.creator`, so the reference stays valid wherever the block was placed.
+     *
+     * @example
+     * ```ts
+     * // With (0029,0011) = "SIEMENS CSA HEADER": ok('(0029,1110)')
+     * ds.resolvePrivateTag({ creator: 'SIEMENS CSA HEADER', group: 0x0029, element: 0x10 });
+     * ```
+     *
+     * @param ref - The creator, group (optional if the creator's dictionary names it) and element 0x00-0xFF
+     * @returns A Result containing the DicomTag, or an error if the reference is invalid or the creator has no block
+     */
+    resolvePrivateTag(ref: PrivateTagRef): Result<DicomTag> {
+        const placed = placePrivateRef(ref);
+        if (!placed.ok) return err(placed.error);
+        const block = findCreatorBlock(this.data, placed.value.group, placed.value.creator);
+        if (block === undefined) return err(new Error(`Private tag ${formatPrivateRef(placed.value)}: creator not found in the dataset`));
+        return ok(privateTag(placed.value.group, block, placed.value.element) as DicomTag);
+    }
+
+    /**
+     * Gets the element a creator-relative private tag refers to.
+     *
+     * @param ref - The creator, group (optional if the creator's dictionary names it) and element 0x00-0xFF
+     * @returns A Result containing the element, or an error if the reference cannot be resolved or the element is missing
+     */
+    getPrivateElement(ref: PrivateTagRef): Result<DicomJsonElement> {
+        const tag = this.resolvePrivateTag(ref);
+        if (!tag.ok) return err(tag.error);
+        return this.getElement(tag.value);
+    }
+
+    /**
+     * Describes a top-level private element through its creator and the registered private dictionaries.
+     *
+     * @param tag - A DicomTag `(0029,1010)` or hex string `00291010`
+     * @returns The dictionary entry, or undefined if the tag is not a private data element, its block has
+     *   no creator, or the creator's dictionary does not list it
+     */
+    getPrivateEntry(tag: DicomTag | string): PrivateDictionaryEntry | undefined {
+        const norm = normalizeTag(tag);
+        if (!norm.ok) return undefined;
+        return lookupPrivateElement(this.data, norm.value);
+    }
+
     /**
      * Gets an element by traversing a dotted tag path through sequences.
      *
-     * @param path - A branded DicomTagPath, e.g. `(0040,A730)[0].(0040,A160)`
+     * @param path - A DicomTagPath or tag path literal, e.g. `(0040,A730)[0].(0040,A160)` or `ContentSequence[0].TextValue`
      * @returns Result containing the element at the path or an error
      */
-    getElementAtPath(path: DicomTagPath): Result<DicomJsonElement> {
-        const segments = tagPathToSegments(path);
-        return traversePath(this.data, segments);
+    getElementAtPath<P extends string>(path: TagPathInput<P>): Result<DicomJsonElement> {
+        try {
+            return traversePath(this.data, tagPathToSegments(path));
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : 'Unknown tag path error';
+            return err(new Error(message));
+        }
     }
 
     /**
@@ -410,14 +1037,233 @@ class DicomDataset {
      *
      * Traverses all items in wildcard sequence positions using an iterative BFS queue.
      *
-     * @param path - A branded DicomTagPath, e.g. `(0040,A730)[*].(0040,A160)`
+     * @param path - A DicomTagPath or tag path literal, e.g. `(0040,A730)[*].(0040,A160)`
      * @returns A readonly array of all matching values (may be empty)
      */
-    findValues(path: DicomTagPath): ReadonlyArray<unknown> {
+    findValues<P extends string>(path: TagPathInput<P>): ReadonlyArray<unknown> {
         const segments = tagPathToSegments(path);
         return collectWildcard(this.data, segments);
     }
 
+    /**
+     * Gets the items of a sequence element as datasets.
+     *
+     * Items keep counting towards MAX_TRAVERSAL_DEPTH: walking an item, or taking the
+     * items of its own sequences, stops at the same depth as from this dataset.
+     *
+     * @param tag - A DicomTag `(0008,1115)`, hex string `00081115` or keyword `ReferencedSeriesSequence`
+     * @returns Result containing the item datasets, or an error if the tag is missing, is not
+     *   a sequence, has an item that is not an object or nests deeper than MAX_TRAVERSAL_DEPTH
+     */
+    getSequence(tag: DicomTag | string): Result<ReadonlyArray<DicomDataset>> {
+        const elemResult = this.getElement(tag);
+        if (!elemResult.ok) return err(elemResult.error);
+        const vrCheck = checkVR(tag, elemResult.value, [VR.SQ]);
+        if (!vrCheck.ok) return err(vrCheck.error);
+        const items = elemResult.value.Value ?? [];
+        if (items.length > 0 && this.nesting + 2 > MAX_TRAVERSAL_DEPTH) {
+            return err(new Error(`Sequence nesting exceeds maximum depth of ${MAX_TRAVERSAL_DEPTH} at ${tag}`));
+        }
+        const datasets: DicomDataset[] = [];
+        for (let i = 0; i < items.length; i++) {
+            const item = items[i];
+            if (typeof item !== 'object' || item === null || Array.isArray(item)) return err(new Error(`Tag ${tag} item ${i} is not a dataset`));
+            datasets.push(new DicomDataset(item as DicomJsonModel, this.nesting + 1));
+        }
+        return ok(datasets);
+    }
+
+    /**
+     * Visits every element, including the elements of nested sequence items, depth first
+     * in tag order: a sequence is visited before the elements of its items.
+     *
+     * The visitor may return `'skip'` to leave the items of the visited sequence out, or
+     * `'stop'` to end the walk.
+     *
+     * @example
+     * ```ts
+     * ds.walk((entry) => {
+     *     if (entry.vr === 'UI') console.log(entry.path, entry.element.Value);
+     *     return entry.tag === '(7FE0,0010)' ? 'stop' : undefined;
+     * });
+     * ```
+     *
+     * @param visitor - Called with the path, tag, VR, element, depth and parent item of each element
+     * @returns A Result that is an error if sequences nest deeper than MAX_TRAVERSAL_DEPTH;
+     *   the elements up to that sequence have been visited
+     */
+    walk(visitor: DatasetVisitor): Result<void> {
+        const iterator = iterateEntries(this.data, this.nesting);
+        let next = iterator.next();
+        while (next.done !== true) {
+            const control = visitor(next.value);
+            if (control === 'stop') return ok(undefined);
+            next = iterator.next(control !== 'skip');
+        }
+        return next.value;
+    }
+
+    /**
+     * Iterates over every element in the order of {@link walk}.
+     *
+     * Iteration ends at sequences nesting deeper than MAX_TRAVERSAL_DEPTH without an error;
+     * use {@link walk} to detect that.
+     *
+     * @example
+     * ```ts
+     * for (const entry of ds.entries()) {
+     *     if (entry.depth > 0) console.log(entry.path, entry.parent?.index);
+     * }
+     * ```
+     *
+     * @returns A generator of the entries
+     */
+    *entries(): Generator<DatasetEntry, void, undefined> {
+        yield* iterateEntries(this.data, this.nesting);
+    }
+
+    /**
+     * Returns the underlying DICOM JSON Model data.
+     *
+     * The object is shared with this dataset rather than copied; treat it as read-only.
+     *
+     * @returns The dataset's DICOM JSON Model
+     */
+    toJson(): Readonly<DicomJsonModel> {
+        return this.data;
+    }
+
+    /**
+     * Serializes the dataset as PS3.19 Native DICOM Model XML, the format of `dcm2xml -nat`.
+     *
+     * PersonName values are split into their components, sequences into numbered
+     * items, binary values are written as InlineBinary or BulkData, and private
+     * elements carry the creator of their block. The output can be read back with
+     * {@link xmlToJson}; `xml2dcm` reads DCMTK's own format, written by {@link toDcmtkXml}.
+     *
+     * @returns A Result containing the XML document, or an error if sequences nest deeper than MAX_TRAVERSAL_DEPTH
+     */
+    toNativeXml(): Result<string> {
+        return jsonToXml(this.data);
+    }
+
+    /**
+     * Serializes the dataset in the XML format of `dcm2xml` without `-nat`, which `xml2dcm`
+     * converts to a DICOM file.
+     *
+     * Binary values must be inline: a BulkDataURI is an error. `xml2dcm` generates the File
+     * Meta Information, so group 0002 elements are best left out.
+     *
+     * @returns A Result containing the XML document, or an error if a value is a BulkDataURI or sequences nest deeper than MAX_TRAVERSAL_DEPTH
+     */
+    toDcmtkXml(): Result<string> {
+        return jsonToDcmtkXml(this.data);
+    }
+
+    /**
+     * Computes a SHA-256 fingerprint of the dataset's content, for deduplication and cache keys.
+     *
+     * The hash is taken over a canonical serialization, so it does not depend on the order
+     * of elements, the case of their hex tags, trailing padding of text values, trailing
+     * empty person name components, or whether DS and IS values are numbers or strings.
+     * Volatile elements can be left out at every nesting level. Binary values are hashed
+     * as InlineBinary; a BulkDataURI, which names a file rather than the bytes in it, is
+     * an error unless `ignoreBulkData` leaves binary values out.
+     *
+     * @example
+     * ```ts
+     * const key = ds.fingerprint({ ignoreTags: ['InstanceCreationDate', 'InstanceCreationTime'], ignoreGroupLengths: true });
+     * if (key.ok) cache.set(key.value, ds);
+     * ```
+     *
+     * @param options - Tags, group lengths, private elements and binary values to leave out
+     * @returns A Result containing the lower-case hex digest, or an error if an ignored tag is
+     *   invalid, a BulkDataURI is not left out or sequences nest deeper than MAX_TRAVERSAL_DEPTH
+     */
+    fingerprint(options?: FingerprintOptions): Result<string> {
+        const resolved = resolveCanonicalOptions(options);
+        if (!resolved.ok) return err(resolved.error);
+        return fingerprintModel(this.data, resolved.value);
+    }
+
+    /**
+     * Compares the content of two datasets the way {@link fingerprint} does: regardless of
+     * element order and padding, and without the elements the options leave out.
+     *
+     * @param other - The dataset to compare with
+     * @param options - Tags, group lengths, private elements and binary values to leave out
+     * @returns `true` if both have the same canonical form; `false` otherwise, or if an
+     *   ignored tag is invalid, either has a BulkDataURI not left out or nests deeper than MAX_TRAVERSAL_DEPTH
+     */
+    equals(other: DicomDataset, options?: FingerprintOptions): boolean {
+        const resolved = resolveCanonicalOptions(options);
+        if (!resolved.ok) return false;
+        const own = canonicalizeModel(this.data, resolved.value);
+        const theirs = canonicalizeModel(other.data, resolved.value);
+        return own.ok && theirs.ok && own.value === theirs.value;
+    }
+
+    /**
+     * Renders the dataset as an indented listing in the style of `dcmdump`, for logs and debugging.
+     *
+     * Each line holds the tag, VR, value, value multiplicity and dictionary keyword; sequence
+     * items are indented below their sequence. Private elements are named through the
+     * registered private dictionaries.
+     *
+     * @example
+     * ```ts
+     * console.log(ds.format({ hidePrivate: true, maxValueLength: 32 }));
+     * // (0008,0060) CS [CT]                                     #  1 Modality
+     * // (0010,0010) PN [Smith^John]                             #  1 PatientName
+     * ```
+     *
+     * @param options - Maximum value length (default 64), hidden private and group length elements, ANSI colors
+     * @returns The listing, one element per line
+     */
+    format(options?: DatasetFormatOptions): string {
+        return formatDataset(this.data, options);
+    }
+
+    /**
+     * Applies a ChangeSet in memory, returning a new dataset with the result.
+     *
+     * Produces what `DicomFile.applyChanges` would write through dcmodify:
+     * modifications insert missing elements and sequence items, erasures remove
+     * elements or items, and `erasePrivateTags` removes odd-group elements at
+     * every nesting level. Value transforms are resolved against this dataset
+     * first, and a value its Specific Character Set cannot encode sets it to
+     * ISO_IR 192 (see {@link ChangeSet.checkCharacterSet}). This dataset is not modified.
+     *
+     * @example
+     * ```ts
+     * const preview = ds.apply(ChangeSet.empty().setTag('PatientName', 'ANON').erasePrivateTags());
+     * if (preview.ok) console.log(preview.value.patientName); // 'ANON'
+     * ```
+     *
+     * @param changeSet - The changes to apply
+     * @returns Result containing the new dataset, or an error if a transform cannot be
+     *   resolved, a value does not fit its element's VR, a path runs through a
+     *   non-sequence element or a new element has no dictionary VR
+     */
+    apply(changeSet: ChangeSet): Result<DicomDataset> {
+        const resolved = changeSet.resolve(this);
+        if (!resolved.ok) return err(resolved.error);
+        const encodable = resolved.value.checkCharacterSet(this);
+        if (!encodable.ok) return err(encodable.error);
+        const applied = applyChangeSet(this.data, encodable.value);
+        if (!applied.ok) return err(applied.error);
+        return ok(new DicomDataset(applied.value, this.nesting));
+    }
+
+    /** Gets the first value of a tag as a string after checking its VR. */
+    private getTypedString(tag: DicomTag | string, expected: ReadonlyArray<VRValue>): Result<string> {
+        const elemResult = this.getElement(tag);
+        if (!elemResult.ok) return err(elemResult.error);
+        const vrCheck = checkVR(tag, elemResult.value, expected);
+        if (!vrCheck.ok) return err(vrCheck.error);
+        return firstStringValue(tag, elemResult.value);
+    }
+
     // -----------------------------------------------------------------------
     // Convenience readonly getters
     // -----------------------------------------------------------------------
@@ -474,6 +1320,12 @@ class DicomDataset {
     get transferSyntaxUID(): string {
         return this.getString(TAGS.TransferSyntaxUID);
     }
+
+    /** Defined terms of Specific Character Set (0008,0005); empty for the default repertoire. */
+    get characterSet(): ReadonlyArray<string> {
+        return characterSetTerms(this.data[TAGS.SpecificCharacterSet]);
+    }
 }
 
 export { DicomDataset };
+export type { DatasetEntry, DatasetEntryParent, DatasetVisitor, WalkControl, DicomDatasetJsonOptions };
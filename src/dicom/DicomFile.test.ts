@@ -1,4 +1,4 @@
-import { normalize } from 'node:path';
+import { join, normalize } from 'node:path';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import type { Stats } from 'node:fs';
 import { DicomFile } from './DicomFile';
@@ -14,27 +14,74 @@ vi.mock('../tools/dcmodify', () => ({
     dcmodify: vi.fn(),
 }));
 
+vi.mock('../tools/json2dcm', () => ({
+    json2dcm: vi.fn(),
+}));
+
+vi.mock('../tools/dcmconv', () => ({
+    dcmconv: vi.fn(),
+}));
+
+vi.mock('./part10Reader', () => ({
+    readPart10File: vi.fn(),
+}));
+
 vi.mock('node:fs/promises', () => ({
     copyFile: vi.fn(),
+    mkdtemp: vi.fn(),
+    rename: vi.fn(),
+    rm: vi.fn(),
     stat: vi.fn(),
     unlink: vi.fn(),
+    writeFile: vi.fn(),
 }));
 
 import { dcm2json } from '../tools/dcm2json';
+import { dcmconv } from '../tools/dcmconv';
 import { dcmodify } from '../tools/dcmodify';
-import { copyFile, stat, unlink } from 'node:fs/promises';
+import { json2dcm } from '../tools/json2dcm';
+import { readPart10File } from './part10Reader';
+import { copyFile, mkdtemp, rename, rm, stat, unlink, writeFile } from 'node:fs/promises';
+import { DicomDataset } from './DicomDataset';
 
 const mockedDcm2json = vi.mocked(dcm2json);
 const mockedDcmodify = vi.mocked(dcmodify);
 const mockedCopyFile = vi.mocked(copyFile);
 const mockedStat = vi.mocked(stat);
 const mockedUnlink = vi.mocked(unlink);
+const mockedJson2dcm = vi.mocked(json2dcm);
+const mockedDcmconv = vi.mocked(dcmconv);
+const mockedReadPart10File = vi.mocked(readPart10File);
+const mockedMkdtemp = vi.mocked(mkdtemp);
+const mockedRm = vi.mocked(rm);
+const mockedWriteFile = vi.mocked(writeFile);
+const mockedRename = vi.mocked(rename);
 
 const SAMPLE_JSON: DicomJsonModel = {
     '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Smith^John' }] },
     '00100020': { vr: 'LO', Value: ['12345'] },
 };
 
+const CREATABLE_JSON: DicomJsonModel = {
+    '00020010': { vr: 'UI', Value: ['1.2.840.10008.1.2'] },
+    '00080016': { vr: 'UI', Value: ['1.2.840.10008.5.1.4.1.1.7'] },
+    '00080018': { vr: 'UI', Value: ['1.2.3.4.5'] },
+    '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Smith^John' }] },
+};
+
+const NATIVE_FILE = {
+    data: {
+        '00080016': { vr: 'UI', Value: ['1.2.840.10008.5.1.4.1.1.7'] },
+        '00080018': { vr: 'UI', Value: ['1.2.3.4.5'] },
+        '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Smith^John' }] },
+        '00100020': { vr: 'LO', Value: ['12345'] },
+    } as DicomJsonModel,
+    fileMeta: {},
+    transferSyntaxUID: '1.2.840.10008.1.2',
+};
+
+const TEMP_DIR = normalize('/tmp/dcmtk-create-x');
+
 const path = (s: string): DicomTagPath => s as DicomTagPath;
 const filePath = (s: string): DicomFilePath => s as DicomFilePath;
 
@@ -54,6 +101,12 @@ beforeEach(() => {
     mockedCopyFile.mockResolvedValue(undefined);
     mockedStat.mockResolvedValue({ size: 1024 } as Stats);
     mockedUnlink.mockResolvedValue(undefined);
+    mockedMkdtemp.mockResolvedValue(TEMP_DIR);
+    mockedWriteFile.mockResolvedValue(undefined);
+    mockedRm.mockResolvedValue(undefined);
+    mockedRename.mockResolvedValue(undefined);
+    mockedJson2dcm.mockImplementation((_input, outputPath) => Promise.resolve({ ok: true, value: { outputPath } }));
+    mockedDcmconv.mockImplementation((_input, outputPath) => Promise.resolve({ ok: true, value: { outputPath } }));
 });
 
 describe('DicomFile', () => {
@@ -114,6 +167,213 @@ describe('DicomFile', () => {
                 signal: controller.signal,
             });
         });
+
+        it('passes the bulk data policy to dcm2json', async () => {
+            await DicomFile.open('/path/to/test.dcm', { bulkData: { mode: 'uri', inlineThreshold: 1024 } });
+
+            expect(mockedDcm2json).toHaveBeenCalledWith('/path/to/test.dcm', expect.objectContaining({ bulkData: { mode: 'uri', inlineThreshold: 1024 } }));
+        });
+
+        it('reads with dcm2json by default, not the native reader', async () => {
+            await DicomFile.open('/path/to/test.dcm');
+
+            expect(mockedReadPart10File).not.toHaveBeenCalled();
+        });
+
+        it('reads in process with the native backend', async () => {
+            const data: DicomJsonModel = { '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Native^Reader' }] } };
+            mockedReadPart10File.mockResolvedValue({ ok: true, value: { data, fileMeta: {}, transferSyntaxUID: '1.2.840.10008.1.2.1' } });
+
+            const result = await DicomFile.open('/path/to/test.dcm', { backend: 'native', bulkData: { mode: 'exclude' } });
+            expect(result.ok).toBe(true);
+            if (result.ok) expect(result.value.dataset.patientName).toBe('Native^Reader');
+            expect(mockedReadPart10File).toHaveBeenCalledWith('/path/to/test.dcm', { bulkData: { mode: 'exclude' } });
+            expect(mockedDcm2json).not.toHaveBeenCalled();
+        });
+
+        it('falls back to dcm2json when the native reader fails', async () => {
+            mockedReadPart10File.mockResolvedValue({ ok: false, error: new Error('Failed to read DICOM Part 10 data: invalid VR') });
+
+            const result = await DicomFile.open('/path/to/test.dcm', { backend: 'native' });
+            expect(result.ok).toBe(true);
+            if (result.ok) expect(result.value.dataset.patientName).toBe('Smith^John');
+            expect(mockedDcm2json).toHaveBeenCalledTimes(1);
+        });
+
+        it('reports both errors when the native reader and dcm2json fail', async () => {
+            mockedReadPart10File.mockResolvedValue({ ok: false, error: new Error('Failed to read DICOM Part 10 data: invalid VR') });
+            mockedDcm2json.mockResolvedValue({ ok: false, error: new Error('dcm2json: failed') });
+
+            const result = await DicomFile.open('/path/to/test.dcm', { backend: 'native' });
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toBe('Failed to read DICOM Part 10 data: invalid VR; DCMTK fallback: dcm2json: failed');
+        });
+    });
+
+    describe('open modes', () => {
+        const FULL_JSON: DicomJsonModel = { ...SAMPLE_JSON, '00400002': { vr: 'DA', Value: ['20240101'] } };
+
+        it('reads only the header up to Pixel Data', async () => {
+            const result = await DicomFile.open('/path/to/test.dcm', { mode: 'header' });
+
+            expect(result.ok).toBe(true);
+            if (result.ok) expect(result.value.isPartial).toBe(true);
+            expect(mockedDcm2json).toHaveBeenCalledWith('/path/to/test.dcm', expect.objectContaining({ stopAfterElement: '(7FE0,000F)' }));
+        });
+
+        it('ends the header before stopAtGroup, with either reader', async () => {
+            mockedReadPart10File.mockResolvedValue({ ok: true, value: { data: SAMPLE_JSON, fileMeta: {}, transferSyntaxUID: '1.2.840.10008.1.2.1' } });
+
+            await DicomFile.open('/path/to/test.dcm', { mode: 'header', stopAtGroup: '0040' });
+            await DicomFile.open('/path/to/test.dcm', { mode: 'header', stopAtGroup: '0040', backend: 'native' });
+
+            expect(mockedDcm2json).toHaveBeenCalledWith('/path/to/test.dcm', expect.objectContaining({ stopAfterElement: '(003F,FFFF)' }));
+            expect(mockedReadPart10File).toHaveBeenCalledWith('/path/to/test.dcm', expect.objectContaining({ stopAtTag: '00400000' }));
+        });
+
+        it('rejects an invalid stopAtGroup without reading the file', async () => {
+            const result = await DicomFile.open('/path/to/test.dcm', { mode: 'lazy', stopAtGroup: '0002' });
+
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toBe('Invalid stopAtGroup "0002": expected 4 hex digits of a group after 0002');
+            expect(mockedDcm2json).not.toHaveBeenCalled();
+        });
+
+        it('reads the whole file once when a lazy file needs an element beyond the header', async () => {
+            const opened = await DicomFile.open('/path/to/test.dcm', { mode: 'lazy', stopAtGroup: '0040' });
+            if (!opened.ok) return;
+            mockedDcm2json.mockResolvedValue({ ok: true, value: { data: FULL_JSON, source: 'xml' as const } });
+
+            const header = await opened.value.getElement('PatientID');
+            const beyond = await opened.value.getElement('(0040,0002)');
+            const again = await opened.value.withChanges(ChangeSet.empty().setTag(path('(0010,0010)'), 'X')).getElement('00400002');
+
+            expect(header.ok && header.value).toEqual({ vr: 'LO', Value: ['12345'] });
+            expect(beyond.ok && beyond.value).toEqual({ vr: 'DA', Value: ['20240101'] });
+            expect(again.ok).toBe(true);
+            expect(mockedDcm2json).toHaveBeenCalledTimes(2);
+            expect(mockedDcm2json).toHaveBeenLastCalledWith('/path/to/test.dcm', expect.objectContaining({ stopAfterElement: undefined }));
+        });
+
+        it('does not read beyond the header in the header mode', async () => {
+            const opened = await DicomFile.open('/path/to/test.dcm', { mode: 'header', stopAtGroup: '0040' });
+            if (!opened.ok) return;
+
+            const beyond = await opened.value.getElement('(0040,0002)');
+
+            expect(beyond.ok).toBe(false);
+            if (!beyond.ok) {
+                expect(beyond.error.message).toBe('(0040,0002) lies beyond the header, which ends before 00400000; use loadFull() to read it');
+            }
+            expect(mockedDcm2json).toHaveBeenCalledTimes(1);
+        });
+
+        it('answers from the header for elements before its end, without reading the file again', async () => {
+            const opened = await DicomFile.open('/path/to/test.dcm', { mode: 'lazy', stopAtGroup: '0040' });
+            if (!opened.ok) return;
+
+            const header = await opened.value.datasetFor('PatientName');
+            const absent = await opened.value.getElement('StudyDescription');
+
+            expect(header).toEqual({ ok: true, value: opened.value.dataset });
+            expect(absent.ok).toBe(false);
+            expect(mockedDcm2json).toHaveBeenCalledTimes(1);
+        });
+
+        it('returns the whole dataset of a lazy file for a tag path beyond the header', async () => {
+            const opened = await DicomFile.open('/path/to/test.dcm', { mode: 'lazy', stopAtGroup: '0040' });
+            if (!opened.ok) return;
+            mockedDcm2json.mockResolvedValue({ ok: true, value: { data: FULL_JSON, source: 'xml' as const } });
+
+            const full = await opened.value.datasetFor('RequestAttributesSequence[0].ScheduledProcedureStepID');
+
+            expect(full.ok).toBe(true);
+            if (full.ok) expect(full.value.getString('00400002')).toBe('20240101');
+            expect(opened.value.dataset.getString('00400002')).toBe('');
+        });
+
+        it('rejects an invalid tag path', async () => {
+            const opened = await DicomFile.open('/path/to/test.dcm', { mode: 'lazy' });
+            if (!opened.ok) return;
+
+            const result = await opened.value.datasetFor('NotAKeyword');
+
+            expect(result.ok).toBe(false);
+            expect(mockedDcm2json).toHaveBeenCalledTimes(1);
+        });
+
+        it('loads the whole dataset, keeping pending changes, and retries a failed read', async () => {
+            const opened = await DicomFile.open('/path/to/test.dcm', { mode: 'header' });
+            if (!opened.ok) return;
+            const changed = opened.value.withChanges(ChangeSet.empty().setTag(path('(0010,0010)'), 'X'));
+            mockedDcm2json.mockResolvedValueOnce({ ok: false, error: new Error('dcm2json: failed') });
+            mockedDcm2json.mockResolvedValue({ ok: true, value: { data: FULL_JSON, source: 'xml' as const } });
+
+            const failed = await changed.loadFull();
+            const full = await changed.loadFull();
+
+            expect(failed.ok).toBe(false);
+            expect(full.ok).toBe(true);
+            if (!full.ok) return;
+            expect(full.value.isPartial).toBe(false);
+            expect(full.value.dataset.hasTag('00400002')).toBe(true);
+            expect(full.value.changes.isEmpty).toBe(false);
+            expect(await full.value.loadFull()).toEqual({ ok: true, value: full.value });
+        });
+    });
+
+    describe('create()', () => {
+        it('serializes the dataset without File Meta Information and opens the new file', async () => {
+            const result = await DicomFile.create(CREATABLE_JSON, '/out/new.dcm');
+            expect(result.ok).toBe(true);
+            const written = JSON.parse(mockedWriteFile.mock.calls[0]?.[1] as string) as DicomJsonModel;
+            expect(Object.keys(written)).toEqual(['00080016', '00080018', '00100010']);
+            expect(mockedJson2dcm).toHaveBeenCalledWith(join(TEMP_DIR, 'dataset.json'), join(TEMP_DIR, 'dataset.dcm'), expect.anything());
+            expect(mockedCopyFile).toHaveBeenCalledWith(join(TEMP_DIR, 'dataset.dcm'), '/out/new.dcm');
+            expect(mockedDcm2json).toHaveBeenCalledWith('/out/new.dcm', expect.anything());
+            expect(mockedRm).toHaveBeenCalledWith(TEMP_DIR, { recursive: true, force: true });
+            if (result.ok) expect(result.value.filePath).toBe(normalize('/out/new.dcm'));
+        });
+
+        it('accepts a DicomDataset', async () => {
+            const dataset = DicomDataset.fromJson(CREATABLE_JSON);
+            if (!dataset.ok) throw dataset.error;
+            expect((await DicomFile.create(dataset.value, '/out/new.dcm')).ok).toBe(true);
+        });
+
+        it('converts to the requested transfer syntax with dcmconv', async () => {
+            const result = await DicomFile.create(CREATABLE_JSON, '/out/new.dcm', { transferSyntax: '+ti' });
+            expect(result.ok).toBe(true);
+            expect(mockedDcmconv).toHaveBeenCalledWith(
+                join(TEMP_DIR, 'dataset.dcm'),
+                join(TEMP_DIR, 'converted.dcm'),
+                expect.objectContaining({ transferSyntax: '+ti' })
+            );
+            expect(mockedCopyFile).toHaveBeenCalledWith(join(TEMP_DIR, 'converted.dcm'), '/out/new.dcm');
+        });
+
+        it('rejects datasets without SOPClassUID or SOPInstanceUID', async () => {
+            const noClass = { ...CREATABLE_JSON };
+            delete noClass['00080016'];
+            const missing = await DicomFile.create(noClass, '/out/new.dcm');
+            expect(!missing.ok && missing.error.message).toBe('Cannot create a DICOM file without SOPClassUID (0008,0016)');
+            const invalid = await DicomFile.create({ ...CREATABLE_JSON, '00080018': { vr: 'UI', Value: ['1.02'] } }, '/out/new.dcm');
+            expect(!invalid.ok && invalid.error.message).toMatch(/^Cannot create a DICOM file: SOPInstanceUID Invalid UI value/);
+            expect(mockedWriteFile).not.toHaveBeenCalled();
+        });
+
+        it('leaves the output path untouched when json2dcm fails', async () => {
+            mockedJson2dcm.mockResolvedValue({ ok: false, error: new Error('json2dcm failed') });
+            const result = await DicomFile.create(CREATABLE_JSON, '/out/new.dcm');
+            expect(!result.ok && result.error.message).toBe('json2dcm failed');
+            expect(mockedCopyFile).not.toHaveBeenCalled();
+            expect(mockedUnlink).not.toHaveBeenCalled();
+            expect(mockedRm).toHaveBeenCalled();
+        });
+
+        it('returns an error for an empty output path', async () => {
+            expect((await DicomFile.create(CREATABLE_JSON, '')).ok).toBe(false);
+        });
     });
 
     describe('withChanges()', () => {
@@ -195,6 +455,40 @@ describe('DicomFile', () => {
             );
         });
 
+        it('resolves value transforms against the dataset', async () => {
+            const openResult = await DicomFile.open('/path/to/test.dcm');
+            if (!openResult.ok) return;
+
+            const result = await openResult.value.withChanges(ChangeSet.empty().copyTag('StudyID', 'PatientID')).applyChanges();
+
+            expect(result.ok).toBe(true);
+            expect(mockedDcmodify).toHaveBeenCalledWith(
+                normalize('/path/to/test.dcm'),
+                expect.objectContaining({ modifications: [{ tag: '(0020,0010)', value: '12345' }] })
+            );
+        });
+
+        it('returns the resolution error without calling dcmodify', async () => {
+            const openResult = await DicomFile.open('/path/to/test.dcm');
+            if (!openResult.ok) return;
+
+            const result = await openResult.value.withChanges(ChangeSet.empty().copyTag('StudyID', 'AccessionNumber')).applyChanges();
+
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toBe('Cannot resolve (0020,0010): source (0008,0050) not found');
+            expect(mockedDcmodify).not.toHaveBeenCalled();
+        });
+
+        it('skips dcmodify when transforms resolve to nothing', async () => {
+            const openResult = await DicomFile.open('/path/to/test.dcm');
+            if (!openResult.ok) return;
+
+            const result = await openResult.value.withChanges(ChangeSet.empty().shiftAllDates(7)).applyChanges();
+
+            expect(result.ok).toBe(true);
+            expect(mockedDcmodify).not.toHaveBeenCalled();
+        });
+
         it('skips dcmodify when changes are empty', async () => {
             const openResult = await DicomFile.open('/path/to/test.dcm');
             expect(openResult.ok).toBe(true);
@@ -279,6 +573,74 @@ describe('DicomFile', () => {
         });
     });
 
+    describe('character sets', () => {
+        const LATIN1_JSON: DicomJsonModel = { ...SAMPLE_JSON, '00080005': { vr: 'CS', Value: ['ISO_IR 100'] } };
+
+        async function openLatin1(): Promise<DicomFile> {
+            mockedDcm2json.mockResolvedValue({ ok: true, value: { data: LATIN1_JSON, source: 'xml' as const } });
+            const result = await DicomFile.open('/path/to/test.dcm');
+            if (!result.ok) throw result.error;
+            return result.value;
+        }
+
+        it('converts a file to UTF-8 before writing non-ASCII values', async () => {
+            const file = await openLatin1();
+            const result = await file.withChanges(ChangeSet.empty().setTag('PatientName', 'Buc^Jérôme')).applyChanges();
+
+            expect(result.ok).toBe(true);
+            const target = normalize('/path/to/test.dcm');
+            expect(mockedDcmconv).toHaveBeenCalledWith(target, target, expect.objectContaining({ characterSet: 'ISO_IR 192' }));
+            expect(mockedDcmconv.mock.invocationCallOrder[0]).toBeLessThan(mockedDcmodify.mock.invocationCallOrder[0] ?? 0);
+            expect(mockedDcmodify).toHaveBeenCalledWith(target, expect.objectContaining({ modifications: [{ tag: '(0010,0010)', value: 'Buc^Jérôme' }] }));
+        });
+
+        it('does not convert files for ASCII values or files already in UTF-8', async () => {
+            const file = await openLatin1();
+            await file.withChanges(ChangeSet.empty().setTag('PatientName', 'Smith^John')).applyChanges();
+            mockedDcm2json.mockResolvedValue({ ok: true, value: { data: SAMPLE_JSON, source: 'xml' as const } });
+            const unset = await DicomFile.open('/path/to/other.dcm');
+            if (!unset.ok) throw unset.error;
+            await unset.value.withChanges(ChangeSet.empty().setTag('PatientName', 'Jérôme')).applyChanges();
+
+            expect(mockedDcmconv).not.toHaveBeenCalled();
+            expect(mockedDcmodify).toHaveBeenLastCalledWith(
+                normalize('/path/to/other.dcm'),
+                expect.objectContaining({
+                    modifications: expect.arrayContaining([{ tag: '(0008,0005)', value: 'ISO_IR 192' }]) as unknown,
+                })
+            );
+        });
+
+        it('rejects values the character set cannot encode with the reject policy', async () => {
+            const file = await openLatin1();
+            const result = await file.withChanges(ChangeSet.empty().setTag('PatientName', '山田')).writeAs('/out/copy.dcm', { characterSetPolicy: 'reject' });
+
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toMatch(/cannot be encoded in Specific Character Set ISO_IR 100/);
+            expect(mockedCopyFile).not.toHaveBeenCalled();
+            expect(mockedDcmodify).not.toHaveBeenCalled();
+        });
+
+        it('rejects non-ASCII values with an explicitly set character set other than UTF-8', async () => {
+            const file = await openLatin1();
+            const changes = ChangeSet.empty().setTag('SpecificCharacterSet', 'ISO_IR 100').setTag('PatientName', 'Jérôme');
+            const result = await file.withChanges(changes).applyChanges();
+
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toMatch(/values are written as UTF-8/);
+            expect(mockedDcmodify).not.toHaveBeenCalled();
+        });
+
+        it('converts the copy, not the source, in writeAs', async () => {
+            const file = await openLatin1();
+            const result = await file.withChanges(ChangeSet.empty().setTag('PatientName', 'Jérôme')).writeAs('/out/copy.dcm');
+
+            expect(result.ok).toBe(true);
+            const copy = normalize('/out/copy.dcm');
+            expect(mockedDcmconv).toHaveBeenCalledWith(copy, copy, expect.objectContaining({ characterSet: 'ISO_IR 192' }));
+        });
+    });
+
     describe('writeAs()', () => {
         it('copies file and applies changes', async () => {
             const openResult = await DicomFile.open('/path/to/test.dcm');
@@ -326,6 +688,16 @@ describe('DicomFile', () => {
             expect(mockedUnlink).toHaveBeenCalledWith('/path/to/output.dcm');
         });
 
+        it('does not copy when a transform cannot be resolved', async () => {
+            const openResult = await DicomFile.open('/path/to/test.dcm');
+            if (!openResult.ok) return;
+
+            const result = await openResult.value.withChanges(ChangeSet.empty().shiftDate('PatientID', 1)).writeAs('/path/to/output.dcm');
+
+            expect(result.ok).toBe(false);
+            expect(mockedCopyFile).not.toHaveBeenCalled();
+        });
+
         it('returns error when copy fails', async () => {
             mockedCopyFile.mockRejectedValue(new Error('ENOSPC'));
 
@@ -355,6 +727,94 @@ describe('DicomFile', () => {
         });
     });
 
+    describe('native write backend', () => {
+        /** Parses the bytes the native writer passed to writeFile with the real reader. */
+        async function writtenFile(): Promise<DicomJsonModel> {
+            const { readPart10 } = await vi.importActual<typeof import('./part10Reader')>('./part10Reader');
+            const bytes = mockedWriteFile.mock.calls[0]?.[1] as Uint8Array;
+            const read = readPart10(bytes);
+            if (!read.ok) throw read.error;
+            expect(read.value.transferSyntaxUID).toBe('1.2.840.10008.1.2');
+            return read.value.data;
+        }
+
+        beforeEach(() => {
+            mockedReadPart10File.mockResolvedValue({ ok: true, value: NATIVE_FILE });
+        });
+
+        it('rewrites the file in process without dcmodify', async () => {
+            const openResult = await DicomFile.open('/path/to/test.dcm');
+            if (!openResult.ok) return;
+
+            const changes = ChangeSet.empty().setTag(path('(0010,0010)'), 'Anonymous').eraseTag(path('(0010,0020)'));
+            const result = await openResult.value.withChanges(changes).applyChanges({ backend: 'native' });
+
+            expect(result.ok).toBe(true);
+            expect(mockedDcmodify).not.toHaveBeenCalled();
+            const temp = `${normalize('/path/to/test.dcm')}.${process.pid}.tmp`;
+            expect(mockedWriteFile).toHaveBeenCalledWith(temp, expect.any(Uint8Array));
+            expect(mockedRename).toHaveBeenCalledWith(temp, normalize('/path/to/test.dcm'));
+            const written = await writtenFile();
+            expect(written['00100010']).toEqual({ vr: 'PN', Value: [{ Alphabetic: 'Anonymous' }] });
+            expect(written['00100020']).toBeUndefined();
+        });
+
+        it('keeps the DS and IS text of elements the changes do not touch', async () => {
+            const data = { ...NATIVE_FILE.data, '00280030': { vr: 'DS', Value: ['0.50000', '0.50000'] }, '00200013': { vr: 'IS', Value: ['0010'] } };
+            mockedReadPart10File.mockResolvedValue({ ok: true, value: { ...NATIVE_FILE, data } });
+            const openResult = await DicomFile.open('/path/to/test.dcm');
+            if (!openResult.ok) return;
+
+            const result = await openResult.value.withChanges(ChangeSet.empty().setTag(path('(0010,0020)'), 'NEW-ID')).applyChanges({ backend: 'native' });
+
+            expect(result.ok).toBe(true);
+            expect(mockedReadPart10File).toHaveBeenCalledWith('/path/to/test.dcm', { numberText: true });
+            const { readPart10 } = await vi.importActual<typeof import('./part10Reader')>('./part10Reader');
+            const written = readPart10(mockedWriteFile.mock.calls[0]?.[1] as Uint8Array, { numberText: true });
+            if (!written.ok) throw written.error;
+            expect(written.value.data['00280030']).toEqual(data['00280030']);
+            expect(written.value.data['00200013']).toEqual(data['00200013']);
+        });
+
+        it('writes to the output path of writeAs without copying', async () => {
+            const openResult = await DicomFile.open('/path/to/test.dcm');
+            if (!openResult.ok) return;
+
+            const changes = ChangeSet.empty().setTag(path('(0010,0020)'), 'NEW-ID');
+            const result = await openResult.value.withChanges(changes).writeAs('/path/to/output.dcm', { backend: 'native' });
+
+            expect(result.ok).toBe(true);
+            expect(mockedCopyFile).not.toHaveBeenCalled();
+            expect(mockedRename).toHaveBeenCalledWith(expect.any(String), normalize('/path/to/output.dcm'));
+            expect((await writtenFile())['00100020']).toEqual({ vr: 'LO', Value: ['NEW-ID'] });
+        });
+
+        it('falls back to dcmodify when the file cannot be read natively', async () => {
+            mockedReadPart10File.mockResolvedValue({ ok: false, error: new Error('Failed to read DICOM Part 10 data: invalid VR') });
+            const openResult = await DicomFile.open('/path/to/test.dcm');
+            if (!openResult.ok) return;
+
+            const result = await openResult.value.withChanges(ChangeSet.empty().setTag(path('(0010,0010)'), 'Anonymous')).applyChanges({ backend: 'native' });
+
+            expect(result.ok).toBe(true);
+            expect(mockedWriteFile).not.toHaveBeenCalled();
+            expect(mockedDcmodify).toHaveBeenCalledTimes(1);
+        });
+
+        it('removes the temporary file and reports both errors when both writers fail', async () => {
+            mockedRename.mockRejectedValue(new Error('EXDEV'));
+            mockedDcmodify.mockResolvedValue({ ok: false, error: new Error('dcmodify failed') });
+            const openResult = await DicomFile.open('/path/to/test.dcm');
+            if (!openResult.ok) return;
+
+            const result = await openResult.value.withChanges(ChangeSet.empty().setTag(path('(0010,0010)'), 'Anonymous')).applyChanges({ backend: 'native' });
+
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toBe('Failed to write file: EXDEV; DCMTK fallback: dcmodify failed');
+            expect(mockedUnlink).toHaveBeenCalledWith(`${normalize('/path/to/test.dcm')}.${process.pid}.tmp`);
+        });
+    });
+
     describe('fileSize()', () => {
         it('returns file size', async () => {
             const openResult = await DicomFile.open('/path/to/test.dcm');
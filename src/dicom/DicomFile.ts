@@ -2,21 +2,35 @@
  * DICOM file I/O combining DicomDataset + ChangeSet + file path.
  *
  * Provides a high-level API for reading, modifying, and saving DICOM files.
- * All mutations are tracked immutably via ChangeSet and applied through dcmodify.
+ * All mutations are tracked immutably via ChangeSet and applied through dcmodify,
+ * or in process with the native Part 10 reader and writer.
  *
  * @module dicom/DicomFile
  */
 
-import { copyFile, stat, unlink } from 'node:fs/promises';
-import type { DicomFilePath } from '../brands';
+import { copyFile, mkdtemp, rename, rm, stat, unlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { DicomFilePath, DicomTag, DicomTagPath } from '../brands';
 import { createDicomFilePath } from '../brands';
 import { DEFAULT_TIMEOUT_MS } from '../constants';
 import type { Result } from '../types';
 import { ok, err } from '../types';
 import { ChangeSet } from './ChangeSet';
 import { DicomDataset } from './DicomDataset';
+import { validateValue } from './validateValue';
+import type { DicomJsonElement, DicomJsonModel } from '../tools/_xmlToJson';
+import type { BulkDataPolicy } from '../tools/_bulkData';
+import { UTF8_CHARACTER_SET, isAscii } from '../tools/_characterSet';
+import type { CharacterSetPolicyValue } from '../tools/_characterSet';
 import { dcm2json } from '../tools/dcm2json';
+import { dcmconv } from '../tools/dcmconv';
+import type { TransferSyntaxValue } from '../tools/dcmconv';
 import { dcmodify } from '../tools/dcmodify';
+import { json2dcm } from '../tools/json2dcm';
+import { readPart10File } from './part10Reader';
+import { tagPathToSegments } from './tagPath';
+import { writePart10 } from './part10Writer';
 
 // ---------------------------------------------------------------------------
 // Options
@@ -30,6 +44,136 @@ interface DicomFileOptions {
     readonly signal?: AbortSignal | undefined;
 }
 
+/**
+ * How {@link DicomFile.open} reads a file.
+ */
+const ReadBackend = {
+    /** Convert the file with dcm2json. */
+    DCMTK: 'dcmtk',
+    /** Read the file in process with {@link readPart10File}, falling back to dcm2json if that fails. */
+    NATIVE: 'native',
+} as const;
+
+type ReadBackendValue = (typeof ReadBackend)[keyof typeof ReadBackend];
+
+/**
+ * How {@link DicomFile.applyChanges} and {@link DicomFile.writeAs} write changes.
+ */
+const WriteBackend = {
+    /** Apply the changes with dcmodify. */
+    DCMTK: 'dcmtk',
+    /**
+     * Apply the changes in process and rewrite the file with {@link writePart10}, falling back to dcmodify if that fails.
+     * Elements the changes do not touch keep their values, DS and IS ones as the text they are stored as, though not
+     * always their bytes: text padding beyond what an odd length needs and group lengths are dropped, and
+     * sequences and items are written with undefined length.
+     */
+    NATIVE: 'native',
+} as const;
+
+type WriteBackendValue = (typeof WriteBackend)[keyof typeof WriteBackend];
+
+/**
+ * How much of a file {@link DicomFile.open} reads.
+ */
+const OpenMode = {
+    /** Read the whole file. */
+    FULL: 'full',
+    /** Read the header only: the top-level elements before Pixel Data, or before `stopAtGroup`. */
+    HEADER: 'header',
+    /** Read the header, and the whole file once {@link DicomFile.datasetFor} or {@link DicomFile.getElement} needs an element beyond it. */
+    LAZY: 'lazy',
+} as const;
+
+type OpenModeValue = (typeof OpenMode)[keyof typeof OpenMode];
+
+/** Options for {@link DicomFile.open}. */
+interface DicomFileOpenOptions extends DicomFileOptions {
+    /**
+     * How binary values are represented in the dataset. Defaults to the reader's own output:
+     * dcm2json omits binary values, the native reader keeps them inline.
+     */
+    readonly bulkData?: BulkDataPolicy | undefined;
+    /** Which reader parses the file. Defaults to 'dcmtk'. */
+    readonly backend?: ReadBackendValue | undefined;
+    /** How much of the file is read. Defaults to 'full'. */
+    readonly mode?: OpenModeValue | undefined;
+    /**
+     * Group, as 4 hex digits such as `'0040'`, at which the header of the 'header' and 'lazy'
+     * modes ends. Defaults to ending at Pixel Data (7FE0,0010).
+     */
+    readonly stopAtGroup?: string | undefined;
+}
+
+/** Options for {@link DicomFile.applyChanges} and {@link DicomFile.writeAs}. */
+interface DicomFileWriteOptions extends DicomFileOptions {
+    /**
+     * What happens to values the file's Specific Character Set cannot encode: `'update'` switches
+     * it to ISO_IR 192 (UTF-8), `'reject'` fails. Defaults to 'update'.
+     */
+    readonly characterSetPolicy?: CharacterSetPolicyValue | undefined;
+    /** Which writer applies the changes. Defaults to 'dcmtk'. */
+    readonly backend?: WriteBackendValue | undefined;
+}
+
+/** Options for {@link DicomFile.create}. */
+interface DicomFileCreateOptions extends DicomFileOptions {
+    /** Transfer syntax of the new file, as a dcmconv preset. Defaults to Explicit VR Little Endian. */
+    readonly transferSyntax?: TransferSyntaxValue | undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Attributes a dataset must carry to be written as a Part 10 file, keyed by hex tag. */
+const REQUIRED_SOP_ATTRIBUTES: ReadonlyArray<readonly [string, string]> = [
+    ['00080016', 'SOPClassUID'],
+    ['00080018', 'SOPInstanceUID'],
+];
+
+/** Prefix of File Meta Information keys (group 0002) in the DICOM JSON Model. */
+const FILE_META_GROUP_PREFIX = '0002';
+
+/** Pixel Data (7FE0,0010), where a header ends by default, as a hex key. */
+const PIXEL_DATA_KEY = '7FE00010';
+
+/** Matches a group of `stopAtGroup`. */
+const GROUP_PATTERN = /^[0-9A-Fa-f]{4}$/;
+
+/** Matches a tag given as 8 hex digits, which tag paths do not accept. */
+const TAG_KEY_PATTERN = /^[0-9A-Fa-f]{8}$/;
+
+/** Character sets in which the UTF-8 values dcmodify writes are valid as they are. */
+const UTF8_COMPATIBLE_CHARACTER_SETS: ReadonlySet<string> = new Set(['', 'ISO_IR 6', 'ISO 2022 IR 6', UTF8_CHARACTER_SET]);
+
+/** A ChangeSet ready for dcmodify, and whether the file must be converted to UTF-8 first. */
+interface WritePlan {
+    readonly changeset: ChangeSet;
+    readonly convertToUtf8: boolean;
+}
+
+/** How the rest of a file opened with only its header is read. */
+interface PartialRead {
+    readonly path: string;
+    /** Hex key of the first top-level element the header does not include. */
+    readonly boundary: string;
+    /** Elements beyond the header are looked up in the whole dataset. */
+    readonly lazy: boolean;
+    readonly options: DicomFileOpenOptions;
+    /** The whole dataset being or once read; shared by the DicomFiles derived from the opened one. */
+    full: Promise<Result<DicomDataset>> | undefined;
+}
+
+/** Resolved changes to write from the file at `source` to `target`, or in place without a target. */
+interface PendingWrite {
+    readonly source: DicomFilePath;
+    readonly target?: DicomFilePath | undefined;
+    readonly changeset: ChangeSet;
+    /** The dataset the changes were resolved against. */
+    readonly dataset: DicomDataset;
+}
+
 // ---------------------------------------------------------------------------
 // Extracted helpers (keep methods ≤ 40 lines)
 // ---------------------------------------------------------------------------
@@ -52,6 +196,144 @@ async function applyModifications(filePath: DicomFilePath, changeset: ChangeSet,
     return ok(undefined);
 }
 
+/** Resolves a ChangeSet against the dataset and checks it against the file's character set. */
+function resolveChanges(changes: ChangeSet, dataset: DicomDataset, options: DicomFileWriteOptions): Result<ChangeSet> {
+    const resolved = changes.resolve(dataset);
+    if (!resolved.ok) return err(resolved.error);
+    return resolved.value.checkCharacterSet(dataset, options.characterSetPolicy);
+}
+
+/**
+ * Plans a resolved ChangeSet for dcmodify. dcmodify takes values as UTF-8, so a file with
+ * another extended character set is converted to ISO_IR 192 before non-ASCII values are written.
+ */
+function planWrite(changeset: ChangeSet, dataset: DicomDataset): Result<WritePlan> {
+    if ([...changeset.modifications.values()].every(isAscii)) return ok({ changeset, convertToUtf8: false });
+
+    const declared = changeset.modifications.get('(0008,0005)')?.trim();
+    if (declared !== undefined && declared !== UTF8_CHARACTER_SET) {
+        return err(new Error(`Cannot write non-ASCII values with Specific Character Set "${declared}": values are written as UTF-8 (ISO_IR 192)`));
+    }
+    return ok({ changeset, convertToUtf8: !dataset.characterSet.every(term => UTF8_COMPATIBLE_CHARACTER_SETS.has(term)) });
+}
+
+/** Converts the file to UTF-8 if the plan needs it, then applies the ChangeSet with dcmodify. */
+async function writePlan(filePath: DicomFilePath, plan: WritePlan, options: DicomFileOptions): Promise<Result<void>> {
+    if (plan.convertToUtf8) {
+        const timing = { timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS, signal: options.signal };
+        const converted = await dcmconv(filePath, filePath, { ...timing, characterSet: UTF8_CHARACTER_SET });
+        if (!converted.ok) return err(converted.error);
+    }
+    return applyModifications(filePath, plan.changeset, options);
+}
+
+/** Writes changes with dcmodify: to the file in place, or to a copy of it that is removed on failure. */
+async function writeWithDcmodify(write: PendingWrite, options: DicomFileOptions): Promise<Result<void>> {
+    const plan = planWrite(write.changeset, write.dataset);
+    if (!plan.ok) return err(plan.error);
+    if (write.target === undefined) return writePlan(write.source, plan.value, options);
+
+    const copied = await copyFileSafe(write.source, write.target);
+    if (!copied.ok) return err(copied.error);
+    const written = await writePlan(write.target, plan.value, options);
+    if (!written.ok) await unlinkFile(write.target);
+    return written;
+}
+
+/** Reads the file in process, applies the changes and serializes the result in the file's transfer syntax. */
+async function rewriteNative(write: PendingWrite): Promise<Result<Uint8Array>> {
+    const read = await readPart10File(write.source, { numberText: true });
+    if (!read.ok) return err(read.error);
+    const dataset = DicomDataset.fromJson(read.value.data);
+    if (!dataset.ok) return err(dataset.error);
+    const applied = dataset.value.apply(write.changeset);
+    if (!applied.ok) return err(applied.error);
+    return writePart10(applied.value, { transferSyntaxUID: read.value.transferSyntaxUID, fileMeta: read.value.fileMeta });
+}
+
+/**
+ * Writes changes with the chosen backend. The native writer falls back to dcmodify;
+ * when both fail, both errors are reported.
+ */
+async function writeChanges(write: PendingWrite, options: DicomFileWriteOptions): Promise<Result<void>> {
+    const bytes = options.backend === WriteBackend.NATIVE ? await rewriteNative(write) : undefined;
+    const native = bytes?.ok === true ? await replaceFile(write.target ?? write.source, bytes.value) : bytes;
+    if (native?.ok === true) return ok(undefined);
+
+    const written = await writeWithDcmodify(write, options);
+    if (written.ok || native === undefined || native.ok) return written;
+    return err(new Error(`${native.error.message}; DCMTK fallback: ${written.error.message}`));
+}
+
+/**
+ * Returns the hex key of the first top-level element a header does not include, or
+ * undefined when the whole file is read.
+ */
+function headerBoundary(options: DicomFileOpenOptions): Result<string | undefined> {
+    if ((options.mode ?? OpenMode.FULL) === OpenMode.FULL) return ok(undefined);
+    const group = options.stopAtGroup;
+    if (group === undefined) return ok(PIXEL_DATA_KEY);
+    if (!GROUP_PATTERN.test(group) || group <= FILE_META_GROUP_PREFIX) {
+        return err(new Error(`Invalid stopAtGroup "${group}": expected 4 hex digits of a group after ${FILE_META_GROUP_PREFIX}`));
+    }
+    return ok(`${group.toUpperCase()}0000`);
+}
+
+/** Returns the hex key of the top-level tag a tag, hex key, keyword or tag path starts at. */
+function topLevelKey(path: string): Result<string> {
+    if (TAG_KEY_PATTERN.test(path)) return ok(path.toUpperCase());
+    try {
+        // The path may be any string, so it is validated here rather than at compile time
+        const first = tagPathToSegments(path as DicomTagPath)[0];
+        /* v8 ignore next */
+        if (first === undefined) return err(new Error(`Invalid tag path: "${path}"`));
+        return ok(first.tag.replace(/[(),]/g, '').toUpperCase());
+    } catch (error: unknown) {
+        return err(error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+/** Formats the tag before a hex key as `(gggg,eeee)`: the last element a header ending at the key includes. */
+function precedingTag(key: string): string {
+    const hex = (Number.parseInt(key, 16) - 1).toString(16).toUpperCase().padStart(8, '0');
+    return `(${hex.slice(0, 4)},${hex.slice(4)})`;
+}
+
+/**
+ * Reads a file into the DICOM JSON Model with the chosen backend, up to the boundary of a
+ * header if one is given. The native reader falls back to dcm2json; when both fail, both
+ * errors are reported.
+ */
+async function readModel(path: string, options: DicomFileOpenOptions, boundary?: string): Promise<Result<DicomJsonModel>> {
+    const native = options.backend === ReadBackend.NATIVE ? await readPart10File(path, { bulkData: options.bulkData, stopAtTag: boundary }) : undefined;
+    if (native?.ok === true) return ok(native.value.data);
+
+    const converted = await dcm2json(path, {
+        timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+        signal: options.signal,
+        bulkData: options.bulkData,
+        stopAfterElement: boundary !== undefined ? precedingTag(boundary) : undefined,
+    });
+    if (converted.ok) return ok(converted.value.data);
+    if (native === undefined || native.ok) return err(converted.error);
+    return err(new Error(`${native.error.message}; DCMTK fallback: ${converted.error.message}`));
+}
+
+/** Reads and parses a whole file. */
+async function readDataset(path: string, options: DicomFileOpenOptions): Promise<Result<DicomDataset>> {
+    const model = await readModel(path, options);
+    if (!model.ok) return err(model.error);
+    return DicomDataset.fromJson(model.value);
+}
+
+/** Reads the whole dataset of a file opened with only its header, once; a failed read is tried again on the next call. */
+async function loadFullDataset(partial: PartialRead): Promise<Result<DicomDataset>> {
+    partial.full ??= readDataset(partial.path, partial.options);
+    const full = await partial.full;
+    if (!full.ok) partial.full = undefined;
+    return full;
+}
+
 /** Wraps fs.copyFile in a Result. */
 async function copyFileSafe(source: string, dest: string): Promise<Result<void>> {
     try {
@@ -63,6 +345,23 @@ async function copyFileSafe(source: string, dest: string): Promise<Result<void>>
     }
 }
 
+/**
+ * Writes a file next to the target and renames it over the target, so that a failed
+ * write leaves the target as it was.
+ */
+async function replaceFile(target: string, bytes: Uint8Array): Promise<Result<void>> {
+    const temp = `${target}.${process.pid}.tmp`;
+    try {
+        await writeFile(temp, bytes);
+        await rename(temp, target);
+        return ok(undefined);
+    } catch (error: unknown) {
+        await unlinkFile(temp);
+        const message = error instanceof Error ? error.message : 'Unknown write error';
+        return err(new Error(`Failed to write file: ${message}`));
+    }
+}
+
 /** Wraps fs.stat in a Result, returning file size. */
 async function statFileSize(path: string): Promise<Result<number>> {
     try {
@@ -85,6 +384,81 @@ async function unlinkFile(path: string): Promise<Result<void>> {
     }
 }
 
+/** Wraps fs.rm of a temporary directory; cleanup failures are not reported. */
+async function removeTempDir(path: string): Promise<void> {
+    try {
+        await rm(path, { recursive: true, force: true });
+    } catch {
+        // A leftover temp directory does not affect the created file
+    }
+}
+
+// ---------------------------------------------------------------------------
+// File creation helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Returns the dataset part of a model: File Meta Information is dropped, since
+ * json2dcm generates it from SOPClassUID, SOPInstanceUID and the transfer syntax.
+ */
+function withoutFileMeta(model: Readonly<DicomJsonModel>): DicomJsonModel {
+    const dataset: DicomJsonModel = {};
+    for (const [key, element] of Object.entries(model)) {
+        if (!key.startsWith(FILE_META_GROUP_PREFIX)) dataset[key] = element;
+    }
+    return dataset;
+}
+
+/** Checks that a model carries a valid SOPClassUID and SOPInstanceUID. */
+function checkSopIdentity(model: Readonly<DicomJsonModel>): Result<void> {
+    for (const [key, name] of REQUIRED_SOP_ATTRIBUTES) {
+        const value = model[key]?.Value?.[0];
+        if (typeof value !== 'string' || value.length === 0) {
+            return err(new Error(`Cannot create a DICOM file without ${name} (${key.slice(0, 4)},${key.slice(4)})`));
+        }
+        const valid = validateValue('UI', value);
+        if (!valid.ok) return err(new Error(`Cannot create a DICOM file: ${name} ${valid.error.message}`));
+    }
+    return ok(undefined);
+}
+
+/** Resolves the source of {@link DicomFile.create} to a model without File Meta Information. */
+function toCreatableModel(source: DicomDataset | DicomJsonModel): Result<DicomJsonModel> {
+    const dataset = source instanceof DicomDataset ? ok(source) : DicomDataset.fromJson(source);
+    if (!dataset.ok) return err(dataset.error);
+    const model = withoutFileMeta(dataset.value.toJson());
+    const identity = checkSopIdentity(model);
+    if (!identity.ok) return err(identity.error);
+    return ok(model);
+}
+
+/** Writes a model to a JSON file in a new temporary directory, returning the directory. */
+async function writeTempJson(model: DicomJsonModel): Promise<Result<string>> {
+    try {
+        const dir = await mkdtemp(join(tmpdir(), 'dcmtk-create-'));
+        await writeFile(join(dir, 'dataset.json'), JSON.stringify(model), 'utf-8');
+        return ok(dir);
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : 'Unknown write error';
+        return err(new Error(`Failed to write dataset JSON: ${message}`));
+    }
+}
+
+/**
+ * Serializes the JSON in a temporary directory to a Part 10 file in the same directory, returning its path.
+ * json2dcm writes Explicit VR Little Endian; other transfer syntaxes go through dcmconv.
+ */
+async function serializeModel(dir: string, options: DicomFileCreateOptions): Promise<Result<string>> {
+    const timing = { timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS, signal: options.signal };
+    const written = join(dir, 'dataset.dcm');
+    const created = await json2dcm(join(dir, 'dataset.json'), written, timing);
+    if (!created.ok) return err(created.error);
+    if (options.transferSyntax === undefined) return ok(written);
+    const converted = await dcmconv(written, join(dir, 'converted.dcm'), { ...timing, transferSyntax: options.transferSyntax });
+    if (!converted.ok) return err(converted.error);
+    return ok(converted.value.outputPath);
+}
+
 // ---------------------------------------------------------------------------
 // DicomFile class
 // ---------------------------------------------------------------------------
@@ -92,7 +466,7 @@ async function unlinkFile(path: string): Promise<Result<void>> {
 /**
  * High-level DICOM file wrapper combining dataset, change tracking, and file I/O.
  *
- * Create via {@link DicomFile.open}. Accumulate changes with {@link withChanges},
+ * Create via {@link DicomFile.open}, or {@link DicomFile.create} for a new file. Accumulate changes with {@link withChanges},
  * then apply with {@link applyChanges} or write to a new path with {@link writeAs}.
  *
  * @example
@@ -106,40 +480,100 @@ async function unlinkFile(path: string): Promise<Result<void>> {
  * ```
  */
 class DicomFile {
-    /** The immutable DICOM dataset read from the file. */
+    /**
+     * The immutable DICOM dataset read from the file; only its header when {@link isPartial}, so
+     * elements beyond the header read as absent. {@link datasetFor} returns a dataset that holds them.
+     */
     readonly dataset: DicomDataset;
     /** The branded file path. */
     readonly filePath: DicomFilePath;
     /** The accumulated pending changes. */
     readonly changes: ChangeSet;
+    /** How the rest of the file is read, when {@link dataset} holds only its header. */
+    private readonly partial: PartialRead | undefined;
 
-    private constructor(dataset: DicomDataset, filePath: DicomFilePath, changes: ChangeSet) {
+    private constructor(dataset: DicomDataset, filePath: DicomFilePath, changes: ChangeSet, partial?: PartialRead) {
         this.dataset = dataset;
         this.filePath = filePath;
         this.changes = changes;
+        this.partial = partial;
     }
 
     /**
      * Opens a DICOM file and reads its dataset.
      *
+     * With a `bulkData` policy, binary values are kept inline, dropped, or
+     * replaced by BulkDataURIs that {@link DicomDataset.getBinary} resolves
+     * against this file on demand.
+     *
+     * The file is converted with dcm2json, or with `backend: 'native'` read in
+     * process by {@link readPart10File}; dcm2json is then the fallback for
+     * files the native reader cannot parse.
+     *
+     * With `mode: 'header'` or `'lazy'`, only the top-level elements before Pixel
+     * Data, or before the group `stopAtGroup`, are read: dcm2xml stops with
+     * `--stop-after-elem`, and the native reader loads only the start of the file.
+     * {@link dataset} then holds only the header, and its accessors answer as if
+     * later elements were absent; {@link datasetFor} and {@link getElement} tell
+     * them apart. A lazily opened file reads the rest when they need an element
+     * beyond the header, or on {@link loadFull}. Pending changes are resolved
+     * against {@link dataset}, so load the whole file first when they copy values
+     * from beyond the header.
+     *
      * @param path - Filesystem path to the DICOM file
-     * @param options - Timeout and abort options
+     * @param options - Backend, open mode, bulk data policy, timeout and abort options
      * @returns A Result containing the DicomFile or an error
      */
-    static async open(path: string, options?: DicomFileOptions): Promise<Result<DicomFile>> {
+    static async open(path: string, options?: DicomFileOpenOptions): Promise<Result<DicomFile>> {
         const filePathResult = createDicomFilePath(path);
         if (!filePathResult.ok) return err(filePathResult.error);
 
-        const jsonResult = await dcm2json(path, {
-            timeoutMs: options?.timeoutMs ?? DEFAULT_TIMEOUT_MS,
-            signal: options?.signal,
-        });
+        const opts = options ?? {};
+        const boundary = headerBoundary(opts);
+        if (!boundary.ok) return err(boundary.error);
+
+        const jsonResult = await readModel(path, opts, boundary.value);
         if (!jsonResult.ok) return err(jsonResult.error);
 
-        const datasetResult = DicomDataset.fromJson(jsonResult.value.data);
+        const datasetResult = DicomDataset.fromJson(jsonResult.value);
         if (!datasetResult.ok) return err(datasetResult.error);
 
-        return ok(new DicomFile(datasetResult.value, filePathResult.value, ChangeSet.empty()));
+        const partial =
+            boundary.value !== undefined ? { path, boundary: boundary.value, lazy: opts.mode === OpenMode.LAZY, options: opts, full: undefined } : undefined;
+        return ok(new DicomFile(datasetResult.value, filePathResult.value, ChangeSet.empty(), partial));
+    }
+
+    /**
+     * Creates a new DICOM Part 10 file from a dataset and opens it.
+     *
+     * The dataset is serialized with json2dcm, which generates the File Meta
+     * Information; any group 0002 elements in the source are ignored. The
+     * dataset must carry SOPClassUID and SOPInstanceUID, as the Media Storage
+     * SOP Class and Instance UIDs of the meta header are taken from them.
+     * The file is built in a temporary directory and copied to `outputPath`
+     * only once it is complete, so a failure never touches `outputPath`.
+     *
+     * @param source - A DicomDataset or a raw DICOM JSON Model
+     * @param outputPath - Filesystem path of the new file
+     * @param options - Transfer syntax, timeout and abort options
+     * @returns A Result containing the DicomFile opened from the new file, or an error
+     */
+    static async create(source: DicomDataset | DicomJsonModel, outputPath: string, options?: DicomFileCreateOptions): Promise<Result<DicomFile>> {
+        const outPathResult = createDicomFilePath(outputPath);
+        if (!outPathResult.ok) return err(outPathResult.error);
+
+        const model = toCreatableModel(source);
+        if (!model.ok) return err(model.error);
+
+        const dir = await writeTempJson(model.value);
+        if (!dir.ok) return err(dir.error);
+
+        const serialized = await serializeModel(dir.value, options ?? {});
+        const copied = serialized.ok ? await copyFileSafe(serialized.value, outputPath) : serialized;
+        await removeTempDir(dir.value);
+        if (!copied.ok) return err(copied.error);
+
+        return DicomFile.open(outputPath, options);
     }
 
     /**
@@ -149,7 +583,7 @@ class DicomFile {
      * @returns A new DicomFile with accumulated changes
      */
     withChanges(changes: ChangeSet): DicomFile {
-        return new DicomFile(this.dataset, this.filePath, this.changes.merge(changes));
+        return new DicomFile(this.dataset, this.filePath, this.changes.merge(changes), this.partial);
     }
 
     /**
@@ -161,49 +595,119 @@ class DicomFile {
      * @returns A new DicomFile pointing to the new path
      */
     withFilePath(newPath: DicomFilePath): DicomFile {
-        return new DicomFile(this.dataset, newPath, this.changes);
+        return new DicomFile(this.dataset, newPath, this.changes, this.partial);
+    }
+
+    /** True when {@link dataset} holds only the header of the file, as opened in the 'header' or 'lazy' mode. */
+    get isPartial(): boolean {
+        return this.partial !== undefined;
+    }
+
+    /**
+     * Returns this file with its whole dataset, reading the file if only its header was read.
+     *
+     * The file is read once: later calls, also on DicomFiles derived with {@link withChanges},
+     * share the dataset. Pending changes are kept.
+     *
+     * @returns A Result containing the DicomFile with the whole dataset, or an error
+     */
+    async loadFull(): Promise<Result<DicomFile>> {
+        if (this.partial === undefined) return ok(this);
+        const full = await loadFullDataset(this.partial);
+        if (!full.ok) return err(full.error);
+        return ok(new DicomFile(full.value, this.filePath, this.changes));
+    }
+
+    /**
+     * Returns a dataset that holds the element at a tag or tag path, if the file has it, so any
+     * {@link DicomDataset} accessor can read it.
+     *
+     * That is {@link dataset} when the whole file was read or the element's top-level tag lies
+     * before the end of the header. Beyond the header, a file opened with `mode: 'lazy'` returns
+     * its whole dataset, read once as by {@link loadFull}; one opened with `mode: 'header'`
+     * returns an error rather than a dataset in which the element reads as absent.
+     *
+     * @param path - A DicomTag `(0010,0010)`, hex string `00100010`, keyword `PatientName` or tag path
+     * @returns A Result containing the dataset, or an error if the element lies beyond a header or the file cannot be read
+     */
+    async datasetFor(path: DicomTag | DicomTagPath | string): Promise<Result<DicomDataset>> {
+        if (this.partial === undefined) return ok(this.dataset);
+        const key = topLevelKey(path);
+        if (!key.ok) return err(key.error);
+        if (key.value < this.partial.boundary) return ok(this.dataset);
+        if (!this.partial.lazy) {
+            return err(new Error(`${path} lies beyond the header, which ends before ${this.partial.boundary}; use loadFull() to read it`));
+        }
+        return loadFullDataset(this.partial);
+    }
+
+    /**
+     * Gets the DICOM JSON element of a top-level tag, from the dataset {@link datasetFor} returns.
+     *
+     * @param tag - A DicomTag `(0010,0010)`, hex string `00100010` or keyword `PatientName`
+     * @returns A Result containing the element, or an error if it is not found, lies beyond a header, or the file cannot be read
+     */
+    async getElement(tag: DicomTag | string): Promise<Result<DicomJsonElement>> {
+        const dataset = await this.datasetFor(tag);
+        if (!dataset.ok) return err(dataset.error);
+        return dataset.value.getElement(tag);
     }
 
     /**
      * Applies pending changes to the file in-place using dcmodify.
      *
      * If there are no pending changes, this is a no-op that returns success.
+     * Value transforms are resolved against {@link DicomFile.dataset} first.
+     * Non-ASCII values are checked against the Specific Character Set
+     * (see {@link ChangeSet.checkCharacterSet}) and written as UTF-8: a file in
+     * another extended character set is converted to ISO_IR 192 first.
      * After applying, the dataset is NOT refreshed — call {@link DicomFile.open}
      * again if you need fresh data.
      *
-     * @param options - Timeout and abort options
+     * With `backend: 'native'`, the file is read, changed and rewritten in process
+     * by {@link writePart10}, in its own transfer syntax and character set, without
+     * spawning dcmodify; dcmodify is then the fallback for files the native writer
+     * cannot handle, such as Explicit VR Big Endian ones.
+     *
+     * @param options - Backend, timeout, abort and character set options
      * @returns A Result indicating success or failure
      */
-    async applyChanges(options?: DicomFileOptions): Promise<Result<void>> {
+    async applyChanges(options?: DicomFileWriteOptions): Promise<Result<void>> {
         if (this.changes.isEmpty) return ok(undefined);
-        return applyModifications(this.filePath, this.changes, options ?? {});
+        const changeset = resolveChanges(this.changes, this.dataset, options ?? {});
+        if (!changeset.ok) return err(changeset.error);
+        if (changeset.value.isEmpty) return ok(undefined);
+        return writeChanges({ source: this.filePath, changeset: changeset.value, dataset: this.dataset }, options ?? {});
     }
 
     /**
      * Copies the file to a new path and applies pending changes to the copy.
      *
      * If there are no pending changes, only the copy is performed.
-     * On dcmodify failure, the copy is cleaned up.
+     * Value transforms and character sets are checked before copying, as in
+     * {@link applyChanges}, so a ChangeSet that cannot be written leaves no copy
+     * behind. On dcmconv or dcmodify failure, the copy is cleaned up. With
+     * `backend: 'native'`, the changed file is written to `outputPath` directly.
      *
      * @param outputPath - Destination filesystem path
-     * @param options - Timeout and abort options
+     * @param options - Backend, timeout, abort and character set options
      * @returns A Result containing the branded output path or an error
      */
-    async writeAs(outputPath: string, options?: DicomFileOptions): Promise<Result<DicomFilePath>> {
+    async writeAs(outputPath: string, options?: DicomFileWriteOptions): Promise<Result<DicomFilePath>> {
         const outPathResult = createDicomFilePath(outputPath);
         if (!outPathResult.ok) return err(outPathResult.error);
 
-        const copyResult = await copyFileSafe(this.filePath, outputPath);
-        if (!copyResult.ok) return err(copyResult.error);
-
-        if (this.changes.isEmpty) return ok(outPathResult.value);
+        const changeset = resolveChanges(this.changes, this.dataset, options ?? {});
+        if (!changeset.ok) return err(changeset.error);
 
-        const applyResult = await applyModifications(outPathResult.value, this.changes, options ?? {});
-        if (!applyResult.ok) {
-            await unlinkFile(outputPath);
-            return err(applyResult.error);
+        if (changeset.value.isEmpty) {
+            const copyResult = await copyFileSafe(this.filePath, outputPath);
+            return copyResult.ok ? ok(outPathResult.value) : err(copyResult.error);
         }
 
+        const write: PendingWrite = { source: this.filePath, target: outPathResult.value, changeset: changeset.value, dataset: this.dataset };
+        const written = await writeChanges(write, options ?? {});
+        if (!written.ok) return err(written.error);
         return ok(outPathResult.value);
     }
 
@@ -226,5 +730,5 @@ class DicomFile {
     }
 }
 
-export { DicomFile };
-export type { DicomFileOptions };
+export { DicomFile, OpenMode, ReadBackend, WriteBackend };
+export type { OpenModeValue, ReadBackendValue, WriteBackendValue, DicomFileOptions, DicomFileOpenOptions, DicomFileWriteOptions, DicomFileCreateOptions };
@@ -0,0 +1,140 @@
+/**
+ * Shared constants of the DICOM Part 10 file format and its transfer syntaxes.
+ *
+ * @see DICOM PS3.10 Section 7 — DICOM File Format
+ * @see DICOM PS3.5 Section 7 — The Data Set
+ * @module dicom/_part10
+ * @internal
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** How elements are encoded: with or without an explicit VR, and in which byte order. */
+interface ByteSyntax {
+    readonly explicitVR: boolean;
+    readonly littleEndian: boolean;
+}
+
+/** The encoding a transfer syntax prescribes for the dataset following the File Meta Information. */
+interface TransferSyntaxEncoding {
+    readonly syntax: ByteSyntax;
+    /** The dataset is deflated (RFC 1951) after the File Meta Information. */
+    readonly deflated: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** The native (uncompressed) transfer syntaxes, whose Pixel Data is not encapsulated. */
+const TransferSyntaxUID = {
+    IMPLICIT_VR_LITTLE_ENDIAN: '1.2.840.10008.1.2',
+    EXPLICIT_VR_LITTLE_ENDIAN: '1.2.840.10008.1.2.1',
+    DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN: '1.2.840.10008.1.2.1.99',
+    EXPLICIT_VR_BIG_ENDIAN: '1.2.840.10008.1.2.2',
+} as const;
+
+/** Explicit VR Little Endian, the encoding of the File Meta Information. */
+const EXPLICIT_LITTLE: ByteSyntax = { explicitVR: true, littleEndian: true };
+
+/** Implicit VR Little Endian, also the encoding of UN sequences of undefined length. */
+const IMPLICIT_LITTLE: ByteSyntax = { explicitVR: false, littleEndian: true };
+
+/** Explicit VR Big Endian (retired). */
+const EXPLICIT_BIG: ByteSyntax = { explicitVR: true, littleEndian: false };
+
+/** Length of the preamble preceding the `DICM` prefix. */
+const PREAMBLE_LENGTH = 128;
+
+/** The prefix identifying a Part 10 file, after the preamble. */
+const DICM_PREFIX = 'DICM';
+
+/** Group of the File Meta Information elements. */
+const FILE_META_GROUP = 0x0002;
+
+/** Value length marking a sequence, item or encapsulated value of undefined length. */
+const UNDEFINED_LENGTH = 0xffffffff;
+
+/** Item, Item Delimitation Item and Sequence Delimitation Item tags, as hex keys. */
+const ITEM_TAG = 'FFFEE000';
+const ITEM_DELIMITER_TAG = 'FFFEE00D';
+const SEQUENCE_DELIMITER_TAG = 'FFFEE0DD';
+
+/** Pixel Data (7FE0,0010) as a hex key. */
+const PIXEL_DATA_TAG = '7FE00010';
+
+/** Transfer Syntax UID (0002,0010) as a hex key. */
+const TRANSFER_SYNTAX_TAG = '00020010';
+
+/** VRs whose explicit VR header has two reserved bytes and a 32-bit length. */
+const LONG_LENGTH_VRS: ReadonlySet<string> = new Set(['OB', 'OD', 'OF', 'OL', 'OV', 'OW', 'SQ', 'SV', 'UC', 'UN', 'UR', 'UT', 'UV']);
+
+/** Binary VRs, stored as InlineBinary, with the word size that byte order applies to. */
+const BINARY_WORD_SIZES: Readonly<Record<string, number>> = { OB: 1, UN: 1, OW: 2, OF: 4, OL: 4, OD: 8, OV: 8 };
+
+/** Text VRs holding a single value, in which a backslash is not a delimiter. */
+const SINGLE_VALUE_TEXT_VRS: ReadonlySet<string> = new Set(['LT', 'ST', 'UT', 'UR']);
+
+/** Implementation Class UID (0002,0012) of files written by this library. */
+const IMPLEMENTATION_CLASS_UID = '2.25.137777023538502312019457192476890881565';
+
+/** Implementation Version Name (0002,0013) of files written by this library. */
+const IMPLEMENTATION_VERSION_NAME = 'DCMTKJS_001';
+
+/** PN component groups in the order of the DICOM JSON Model and of the `=`-separated value. */
+const PN_GROUPS = ['Alphabetic', 'Ideographic', 'Phonetic'] as const;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Returns the dataset encoding of a transfer syntax. Transfer syntaxes not listed in
+ * {@link TransferSyntaxUID} are compressed ones, encoded as Explicit VR Little Endian.
+ *
+ * @param uid - The Transfer Syntax UID
+ * @returns The encoding of the dataset
+ */
+function transferSyntaxEncoding(uid: string): TransferSyntaxEncoding {
+    if (uid === TransferSyntaxUID.IMPLICIT_VR_LITTLE_ENDIAN) return { syntax: IMPLICIT_LITTLE, deflated: false };
+    if (uid === TransferSyntaxUID.EXPLICIT_VR_BIG_ENDIAN) return { syntax: EXPLICIT_BIG, deflated: false };
+    return { syntax: EXPLICIT_LITTLE, deflated: uid === TransferSyntaxUID.DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN };
+}
+
+/**
+ * True when Pixel Data of the transfer syntax is encapsulated: it is not one of the
+ * native transfer syntaxes in {@link TransferSyntaxUID}.
+ *
+ * @param uid - The Transfer Syntax UID
+ * @returns Whether Pixel Data is stored as a sequence of fragments
+ */
+function isEncapsulatedSyntax(uid: string): boolean {
+    return !(Object.values(TransferSyntaxUID) as readonly string[]).includes(uid);
+}
+
+export {
+    TransferSyntaxUID,
+    EXPLICIT_LITTLE,
+    IMPLICIT_LITTLE,
+    EXPLICIT_BIG,
+    PREAMBLE_LENGTH,
+    DICM_PREFIX,
+    FILE_META_GROUP,
+    UNDEFINED_LENGTH,
+    ITEM_TAG,
+    ITEM_DELIMITER_TAG,
+    SEQUENCE_DELIMITER_TAG,
+    PIXEL_DATA_TAG,
+    TRANSFER_SYNTAX_TAG,
+    LONG_LENGTH_VRS,
+    BINARY_WORD_SIZES,
+    SINGLE_VALUE_TEXT_VRS,
+    IMPLEMENTATION_CLASS_UID,
+    IMPLEMENTATION_VERSION_NAME,
+    PN_GROUPS,
+    transferSyntaxEncoding,
+    isEncapsulatedSyntax,
+};
+export type { ByteSyntax, TransferSyntaxEncoding };
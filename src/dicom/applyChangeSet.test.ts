@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import { applyChangeSet } from './applyChangeSet';
+import { ChangeSet } from './ChangeSet';
+import type { DicomJsonModel } from '../tools/_xmlToJson';
+import { makeSampleData } from '../../test/helpers';
+
+function apply(changeSet: ChangeSet, data: DicomJsonModel = makeSampleData()): DicomJsonModel {
+    const result = applyChangeSet(data, changeSet);
+    if (!result.ok) throw result.error;
+    return result.value;
+}
+
+function items(data: DicomJsonModel, key: string): ReadonlyArray<DicomJsonModel> {
+    return (data[key]?.Value ?? []) as ReadonlyArray<DicomJsonModel>;
+}
+
+describe('applyChangeSet', () => {
+    it('returns an equal copy for an empty ChangeSet', () => {
+        const data = makeSampleData();
+        const result = apply(ChangeSet.empty(), data);
+        expect(result).toEqual(data);
+        expect(result).not.toBe(data);
+    });
+
+    it('does not modify the source data', () => {
+        const data = makeSampleData();
+        apply(ChangeSet.empty().setTag('PatientID', 'ANON').eraseTag('(0010,0010)').erasePrivateTags(), data);
+        expect(data).toEqual(makeSampleData());
+    });
+
+    describe('modifications', () => {
+        it('replaces an existing value and keeps its VR', () => {
+            expect(apply(ChangeSet.empty().setTag('PatientID', 'ANON'))['00100020']).toEqual({ vr: 'LO', Value: ['ANON'] });
+        });
+
+        it('inserts a missing element with its dictionary VR', () => {
+            expect(apply(ChangeSet.empty().setTag('(0008,1030)', 'HEAD'))['00081030']).toEqual({ vr: 'LO', Value: ['HEAD'] });
+        });
+
+        it('splits multi-valued values on backslash', () => {
+            expect(apply(ChangeSet.empty().setTag('ImageType', 'ORIGINAL\\PRIMARY'))['00080008']).toEqual({ vr: 'CS', Value: ['ORIGINAL', 'PRIMARY'] });
+        });
+
+        it('keeps backslashes in text VRs', () => {
+            expect(apply(ChangeSet.empty().setTag('(0008,4000)', 'a\\b'))['00084000']?.Value).toEqual(['a\\b']);
+        });
+
+        it('converts PN values to the JSON object form', () => {
+            const result = apply(ChangeSet.empty().setTag('PatientName', 'Yamada^Tarou=山田^太郎'));
+            expect(result['00100010']?.Value).toEqual([{ Alphabetic: 'Yamada^Tarou', Ideographic: '山田^太郎' }]);
+        });
+
+        it('converts binary numeric VR values to numbers', () => {
+            expect(apply(ChangeSet.empty().setTag('Rows', '256'))['00280010']).toEqual({ vr: 'US', Value: [256] });
+        });
+
+        it('stores an empty value as an element without Value', () => {
+            expect(apply(ChangeSet.empty().setTag('PatientID', ''))['00100020']).toEqual({ vr: 'LO' });
+        });
+
+        it('sets a value inside an existing sequence item', () => {
+            const result = apply(ChangeSet.empty().setTag('ReferencedSeriesSequence[1].SeriesInstanceUID', '9.9'));
+            expect(items(result, '00081115')[1]?.['0020000E']?.Value).toEqual(['9.9']);
+            expect(items(result, '00081115')[0]?.['0020000E']?.Value).toEqual(['1.2.3.4.5.6.7']);
+        });
+
+        it('creates missing sequences and items', () => {
+            const result = apply(ChangeSet.empty().setTag('(0010,1002)[1].(0010,0020)', 'OTHER'));
+            const created = items(result, '00101002');
+            expect(result['00101002']?.vr).toBe('SQ');
+            expect(created).toHaveLength(2);
+            expect(created[0]).toEqual({});
+            expect(created[1]?.['00100020']?.Value).toEqual(['OTHER']);
+        });
+
+        it('creates an empty item from an item path with an empty value', () => {
+            const result = apply(ChangeSet.empty().addItem('ReferencedSeriesSequence', 3));
+            expect(items(result, '00081115')).toHaveLength(4);
+            expect(items(result, '00081115')[3]).toEqual({});
+        });
+
+        it('keeps existing items when adding to them', () => {
+            const result = apply(ChangeSet.empty().addItem('ReferencedSeriesSequence', 0));
+            expect(items(result, '00081115')[0]?.['0020000E']?.Value).toEqual(['1.2.3.4.5.6.7']);
+        });
+
+        it('adds nested items', () => {
+            const changes = ChangeSet.empty().addItem('OtherPatientIDsSequence', 0, { PatientID: 'MRN-2', OtherPatientIDsSequence: [{ PatientID: 'MRN-3' }] });
+            const created = items(apply(changes), '00101002')[0] ?? {};
+            expect(created['00100020']?.Value).toEqual(['MRN-2']);
+            expect(items(created, '00101002')[0]?.['00100020']?.Value).toEqual(['MRN-3']);
+        });
+
+        it('sets a value in every item through a wildcard', () => {
+            const result = apply(ChangeSet.empty().setTag('(0008,1115)[*].(0020,000E)', '7.7'));
+            expect(items(result, '00081115').map(item => item['0020000E']?.Value)).toEqual([['7.7'], ['7.7']]);
+        });
+
+        it('rejects non-numeric values for numeric VRs', () => {
+            const result = applyChangeSet(makeSampleData(), ChangeSet.empty().setTag('Rows', 'abc'));
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toBe('Cannot set (0028,0010): "abc" is not a valid US value');
+        });
+
+        it('rejects string values for sequences and binary VRs', () => {
+            expect(applyChangeSet(makeSampleData(), ChangeSet.empty().setTag('ReferencedSeriesSequence', 'x')).ok).toBe(false);
+            expect(applyChangeSet(makeSampleData(), ChangeSet.empty().setTag('(7FE0,0010)', 'x')).ok).toBe(false);
+        });
+
+        it('rejects paths through non-sequence elements', () => {
+            const result = applyChangeSet(makeSampleData(), ChangeSet.empty().setTag('(0010,0020)[0].(0010,0010)', 'x'));
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toMatch(/\(0010,0020\) is not a sequence/);
+        });
+
+        it('rejects sequence segments without an item index', () => {
+            const result = applyChangeSet(makeSampleData(), ChangeSet.empty().setTag('(0008,1115).(0020,000E)', 'x'));
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toMatch(/needs an item index/);
+        });
+
+        it('rejects setting a value on a sequence item', () => {
+            expect(applyChangeSet(makeSampleData(), ChangeSet.empty().setTag('(0008,1115)[0]', 'x')).ok).toBe(false);
+        });
+
+        it('rejects new elements without a dictionary VR', () => {
+            const result = applyChangeSet(makeSampleData(), ChangeSet.empty().setTag('(0009,10FF)', 'x'));
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toMatch(/no VR is known/);
+        });
+
+        it('bounds the number of items a path may create', () => {
+            const result = applyChangeSet(makeSampleData(), ChangeSet.empty().setTag('(0010,1002)[99999].(0010,0020)', 'x'));
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toMatch(/would create more than/);
+        });
+    });
+
+    describe('erasures', () => {
+        it('removes a top-level element', () => {
+            expect(apply(ChangeSet.empty().eraseTag('PatientID'))).not.toHaveProperty('00100020');
+        });
+
+        it('ignores missing elements and paths', () => {
+            expect(apply(ChangeSet.empty().eraseTag('(0008,1030)').eraseTag('(0010,1002)[0].(0010,0020)'))).toEqual(makeSampleData());
+        });
+
+        it('removes an element inside a sequence item', () => {
+            const result = apply(ChangeSet.empty().eraseTag('(0008,1115)[0].(0020,000E)'));
+            expect(items(result, '00081115')[0]).not.toHaveProperty('0020000E');
+            expect(items(result, '00081115')[1]).toHaveProperty('0020000E');
+        });
+
+        it('removes an element from every item through a wildcard', () => {
+            const result = apply(ChangeSet.empty().eraseTag('(0008,1115)[*].(0020,000E)'));
+            expect(items(result, '00081115').every(item => !('0020000E' in item))).toBe(true);
+        });
+
+        it('removes a single sequence item', () => {
+            const result = apply(ChangeSet.empty().eraseTag('(0008,1115)[0]'));
+            expect(items(result, '00081115')).toHaveLength(1);
+            expect(items(result, '00081115')[0]?.['0020000E']?.Value).toEqual(['1.2.3.4.5.6.8']);
+        });
+
+        it('removes several items by their original indices', () => {
+            const data = { ...makeSampleData(), '00081115': { vr: 'SQ', Value: ['1', '2', '3'].map(uid => ({ '0020000E': { vr: 'UI', Value: [uid] } })) } };
+            const result = apply(ChangeSet.empty().removeItem('ReferencedSeriesSequence', 0).removeItem('ReferencedSeriesSequence', 1), data);
+            expect(items(result, '00081115').map(item => item['0020000E']?.Value)).toEqual([['3']]);
+        });
+
+        it('removes every sequence item with a wildcard', () => {
+            expect(apply(ChangeSet.empty().eraseTag('(0008,1115)[*]'))['00081115']).toEqual({ vr: 'SQ', Value: [] });
+        });
+    });
+
+    describe('erasePrivateTags', () => {
+        it('removes odd-group elements at every nesting level', () => {
+            const data = {
+                ...makeSampleData(),
+                '00091001': { vr: 'LO', Value: ['PRIVATE'] },
+                '00081115': { vr: 'SQ', Value: [{ '0020000E': { vr: 'UI', Value: ['1.2.3.1'] }, '00291010': { vr: 'OB', InlineBinary: 'AAAA' } }] },
+            };
+            const result = apply(ChangeSet.empty().erasePrivateTags(), data);
+            expect(result).not.toHaveProperty('00091001');
+            expect(items(result, '00081115')[0]).not.toHaveProperty('00291010');
+            expect(result).toHaveProperty('00100010');
+        });
+
+        it('runs after modifications like dcmodify -ep', () => {
+            const data = { ...makeSampleData(), '00091002': { vr: 'LO', Value: ['OLD'] } };
+            expect(apply(ChangeSet.empty().setTag('(0009,1002)', 'NEW').erasePrivateTags(), data)).not.toHaveProperty('00091002');
+        });
+    });
+});
@@ -0,0 +1,236 @@
+/**
+ * In-memory application of a ChangeSet to DICOM JSON Model data.
+ *
+ * Mirrors what `DicomFile.applyChanges` does through dcmodify — inserts
+ * (`-i`), then erasures (`-e`), then private tag removal (`-ep`) — so edits can
+ * be previewed without touching files. Paths use the same semantics as
+ * `segmentsToModifyPath`: intermediate segments name a sequence item by index
+ * (created when missing) or select every existing item with `[*]`. A path that
+ * ends in an item index with an empty value creates that item.
+ *
+ * @module dicom/applyChangeSet
+ */
+
+import type { DicomTagPath } from '../brands';
+import { MAX_CHANGESET_OPERATIONS, MAX_TRAVERSAL_DEPTH } from '../constants';
+import type { Result } from '../types';
+import { ok, err } from '../types';
+import type { DicomJsonElement, DicomJsonModel } from '../tools/_xmlToJson';
+import type { ChangeSet } from './ChangeSet';
+import { lookupTag } from './dictionary';
+import { lookupPrivateVR } from './privateDictionary';
+import type { TagSegment } from './tagPath';
+import { tagPathToSegments } from './tagPath';
+import { splitValues } from './validateValue';
+import { VR, isBinaryVR, isNumericVR } from './vr';
+
+// ---------------------------------------------------------------------------
+// Value conversion
+// ---------------------------------------------------------------------------
+
+/** Converts a dcmodify `=` separated PN value to its DICOM JSON object form. */
+function toPersonNameValue(value: string): Record<string, string> {
+    const [alphabetic = '', ideographic = '', phonetic = ''] = value.split('=');
+    const pn: Record<string, string> = {};
+    if (alphabetic.length > 0) pn['Alphabetic'] = alphabetic;
+    if (ideographic.length > 0) pn['Ideographic'] = ideographic;
+    if (phonetic.length > 0) pn['Phonetic'] = phonetic;
+    return pn;
+}
+
+/** Parses each part of a binary numeric VR value. */
+function toNumberValues(vr: string, parts: ReadonlyArray<string>): Result<ReadonlyArray<number>> {
+    const numbers: number[] = [];
+    for (const part of parts) {
+        const parsed = part.trim().length > 0 ? Number(part) : Number.NaN;
+        if (Number.isNaN(parsed)) return err(new Error(`"${part}" is not a valid ${vr} value`));
+        numbers.push(parsed);
+    }
+    return ok(numbers);
+}
+
+/** Converts a dcmodify string value to the DICOM JSON Value array for a VR. */
+function toJsonValues(vr: string, value: string): Result<ReadonlyArray<unknown>> {
+    if (vr === VR.SQ || isBinaryVR(vr)) return err(new Error(`cannot set a string value on VR ${vr}`));
+    if (value.length === 0) return ok([]);
+    const parts = splitValues(vr, value);
+    if (vr === VR.PN) return ok(parts.map(toPersonNameValue));
+    if (isNumericVR(vr)) return toNumberValues(vr, parts);
+    return ok(parts);
+}
+
+// ---------------------------------------------------------------------------
+// Path resolution
+// ---------------------------------------------------------------------------
+
+/** Converts a `(GGGG,EEEE)` tag to its DICOM JSON key. */
+function tagKey(tag: string): string {
+    return tag.replace(/[(),]/g, '').toUpperCase();
+}
+
+/** Returns true if a sequence Value entry is an item object. */
+function isItem(value: unknown): value is DicomJsonModel {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Returns the item at `index` of a sequence element, appending empty items up to it when `create` is set. */
+function itemAt(container: DicomJsonModel, key: string, index: number, create: boolean): Result<DicomJsonModel | undefined> {
+    const element = container[key];
+    const items = element?.Value ?? [];
+    const existing = items[index];
+    if (existing !== undefined || !create) return ok(isItem(existing) ? existing : undefined);
+    if (index - items.length >= MAX_CHANGESET_OPERATIONS) {
+        return err(new Error(`item index ${index} would create more than ${MAX_CHANGESET_OPERATIONS} items`));
+    }
+    const padded = [...items];
+    while (padded.length <= index) padded.push({});
+    container[key] = { vr: VR.SQ, ...element, Value: padded };
+    return ok(padded[index] as DicomJsonModel);
+}
+
+/** Resolves an intermediate segment against a container, returning the sequence items it selects. */
+function stepInto(container: DicomJsonModel, seg: TagSegment, create: boolean): Result<ReadonlyArray<DicomJsonModel>> {
+    const key = tagKey(seg.tag);
+    const element = container[key];
+    if (element === undefined && (!create || seg.isWildcard === true)) return ok([]);
+    if (element !== undefined && element.vr !== VR.SQ) return err(new Error(`${seg.tag} is not a sequence (VR ${element.vr})`));
+    if (seg.isWildcard === true) return ok((element?.Value ?? []).filter(isItem));
+    return selectItem(container, seg, create);
+}
+
+/** Selects the indexed item of a sequence segment, creating it when `create` is set. */
+function selectItem(container: DicomJsonModel, seg: TagSegment, create: boolean): Result<ReadonlyArray<DicomJsonModel>> {
+    if (seg.index === undefined) return err(new Error(`sequence ${seg.tag} needs an item index`));
+    const item = itemAt(container, tagKey(seg.tag), seg.index, create);
+    if (!item.ok) return err(item.error);
+    return ok(item.value === undefined ? [] : [item.value]);
+}
+
+/** Resolves every item container the given segments select (iterative, no recursion — Rule 8.2). */
+function resolveItems(root: DicomJsonModel, segments: ReadonlyArray<TagSegment>, create: boolean): Result<ReadonlyArray<DicomJsonModel>> {
+    let containers: ReadonlyArray<DicomJsonModel> = [root];
+    for (let i = 0; i < segments.length && i < MAX_TRAVERSAL_DEPTH; i++) {
+        const seg = segments[i];
+        /* v8 ignore next */
+        if (seg === undefined) break;
+        const next: DicomJsonModel[] = [];
+        for (const container of containers) {
+            const items = stepInto(container, seg, create);
+            if (!items.ok) return err(items.error);
+            next.push(...items.value);
+        }
+        containers = next;
+    }
+    return ok(containers);
+}
+
+/** Parses a canonical ChangeSet path and returns its segments, the parent segments, and the final segment. */
+function splitPath(path: string): { readonly segments: ReadonlyArray<TagSegment>; readonly parents: ReadonlyArray<TagSegment>; readonly last: TagSegment } {
+    // ChangeSet keys are canonical paths produced by segmentsToModifyPath
+    const segments = tagPathToSegments(path as DicomTagPath);
+    const last = segments[segments.length - 1] as TagSegment;
+    return { segments, parents: segments.slice(0, -1), last };
+}
+
+// ---------------------------------------------------------------------------
+// Operations
+// ---------------------------------------------------------------------------
+
+/** Sets an element in a container, keeping its VR or taking it from the standard or private dictionaries when new. */
+function setElement(container: DicomJsonModel, key: string, value: string): Result<void> {
+    const existing: DicomJsonElement | undefined = container[key];
+    const vr = existing?.vr ?? lookupTag(key)?.vr ?? lookupPrivateVR(container, key);
+    if (vr === undefined) return err(new Error(`no VR is known for new element ${key}`));
+    const values = toJsonValues(vr, value);
+    if (!values.ok) return err(values.error);
+    container[key] = values.value.length === 0 ? { vr } : { vr, Value: values.value };
+    return ok(undefined);
+}
+
+/** Creates the sequence item a path ends in, along with any missing parents and preceding items. */
+function createItem(root: DicomJsonModel, segments: ReadonlyArray<TagSegment>, last: TagSegment, value: string): Result<void> {
+    if (last.isWildcard === true || value.length > 0) return err(new Error('cannot set a value on a sequence item'));
+    const created = resolveItems(root, segments, true);
+    return created.ok ? ok(undefined) : err(created.error);
+}
+
+/** Applies one modification, inserting missing elements and sequence items like `dcmodify -i`. */
+function applyModification(root: DicomJsonModel, path: string, value: string): Result<void> {
+    const { segments, parents: parentSegments, last } = splitPath(path);
+    if (last.index !== undefined || last.isWildcard === true) return createItem(root, segments, last, value);
+    const parents = resolveItems(root, parentSegments, true);
+    if (!parents.ok) return err(parents.error);
+    for (const container of parents.value) {
+        const set = setElement(container, tagKey(last.tag), value);
+        if (!set.ok) return set;
+    }
+    return ok(undefined);
+}
+
+/** Removes an element, one item of a sequence, or every item of a sequence from a container. */
+function eraseFrom(container: DicomJsonModel, seg: TagSegment): void {
+    const key = tagKey(seg.tag);
+    const element = container[key];
+    if (element === undefined) return;
+    if (seg.isWildcard === true) {
+        container[key] = { ...element, Value: [] };
+    } else if (seg.index !== undefined) {
+        const index = seg.index;
+        container[key] = { ...element, Value: (element.Value ?? []).filter((_, i) => i !== index) };
+    } else {
+        Reflect.deleteProperty(container, key);
+    }
+}
+
+/** Applies one erasure like `dcmodify -e`; missing paths are left untouched. */
+function applyErasure(root: DicomJsonModel, path: string): Result<void> {
+    const { parents: parentSegments, last } = splitPath(path);
+    const parents = resolveItems(root, parentSegments, false);
+    if (!parents.ok) return err(parents.error);
+    for (const container of parents.value) {
+        eraseFrom(container, last);
+    }
+    return ok(undefined);
+}
+
+/** Removes odd-group elements at every nesting level like `dcmodify -ep` (iterative, no recursion — Rule 8.2). */
+function erasePrivateElements(root: DicomJsonModel): void {
+    const queue: DicomJsonModel[] = [root];
+    for (let i = 0; i < queue.length; i++) {
+        const container = queue[i] as DicomJsonModel;
+        for (const [key, element] of Object.entries(container)) {
+            if (parseInt(key.slice(0, 4), 16) % 2 === 1) {
+                Reflect.deleteProperty(container, key);
+            } else if (element.vr === VR.SQ) {
+                queue.push(...(element.Value ?? []).filter(isItem));
+            }
+        }
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Applies a ChangeSet to a copy of DICOM JSON Model data.
+ *
+ * @param data - The source data (not modified)
+ * @param changeSet - The changes to apply
+ * @returns A Result containing the changed copy, or an error naming the path that could not be applied
+ */
+function applyChangeSet(data: DicomJsonModel, changeSet: ChangeSet): Result<DicomJsonModel> {
+    const root = structuredClone(data);
+    for (const mod of changeSet.toModifications()) {
+        const applied = applyModification(root, mod.tag, mod.value);
+        if (!applied.ok) return err(new Error(`Cannot set ${mod.tag}: ${applied.error.message}`));
+    }
+    for (const path of changeSet.toErasureArgs()) {
+        const applied = applyErasure(root, path);
+        if (!applied.ok) return err(new Error(`Cannot erase ${path}: ${applied.error.message}`));
+    }
+    if (changeSet.erasePrivate) erasePrivateElements(root);
+    return ok(root);
+}
+
+export { applyChangeSet };
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { jsonToDcmtkXml } from './dcmtkXml';
+import { DicomDataset } from './DicomDataset';
+import { MAX_TRAVERSAL_DEPTH } from '../constants';
+import type { DicomJsonModel } from '../tools/_xmlToJson';
+
+/** Serializes a model, failing the test on error. */
+function toXml(model: DicomJsonModel): string {
+    const result = jsonToDcmtkXml(model);
+    if (!result.ok) throw result.error;
+    return result.value;
+}
+
+describe('jsonToDcmtkXml', () => {
+    it('writes a file-format document with a data-set', () => {
+        expect(toXml({ '00100020': { vr: 'LO', Value: ['MRN001'] }, '00080060': { vr: 'CS', Value: ['CT'] } })).toBe(
+            [
+                '<?xml version="1.0" encoding="UTF-8"?>',
+                '<file-format>',
+                '<data-set xfer="1.2.840.10008.1.2.1" name="Little Endian Explicit">',
+                '<element tag="0008,0060" vr="CS" vm="1" name="Modality">CT</element>',
+                '<element tag="0010,0020" vr="LO" vm="1" name="PatientID">MRN001</element>',
+                '</data-set>',
+                '</file-format>',
+                '',
+            ].join('\n')
+        );
+    });
+
+    it('joins values with backslashes, person name groups with equal signs and formats tags', () => {
+        const xml = toXml({
+            '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Yamada^Tarou', Ideographic: '山田^太郎' }, { Alphabetic: 'Smith' }] },
+            '00280030': { vr: 'DS', Value: [0.5, 0.25] },
+            '00209165': { vr: 'AT', Value: ['00209056'] },
+            '00081030': { vr: 'LO', Value: ['A & <B>', null] },
+        });
+        expect(xml).toContain('<element tag="0010,0010" vr="PN" vm="2" name="PatientName">Yamada^Tarou=山田^太郎\\Smith</element>');
+        expect(xml).toContain('vm="2" name="PixelSpacing">0.5\\0.25</element>');
+        expect(xml).toContain('vm="1" name="DimensionIndexPointer">(0020,9056)</element>');
+        expect(xml).toContain('vm="2" name="StudyDescription">A &amp; &lt;B&gt;\\</element>');
+    });
+
+    it('writes sequences, items and inline binary values', () => {
+        const xml = toXml({
+            '00081115': { vr: 'SQ', Value: [{ '0020000E': { vr: 'UI', Value: ['1.2.3'] } }, {}] },
+            '00091010': { vr: 'OB', InlineBinary: 'AAECAw==' },
+        });
+        expect(xml).toContain(
+            [
+                '<sequence tag="0008,1115" vr="SQ" card="2" name="ReferencedSeriesSequence">',
+                '<item card="1">',
+                '<element tag="0020,000e" vr="UI" vm="1" name="SeriesInstanceUID">1.2.3</element>',
+                '</item>',
+                '<item card="0">',
+                '</item>',
+                '</sequence>',
+                '<element tag="0009,1010" vr="OB" vm="1" binary="base64">AAECAw==</element>',
+            ].join('\n')
+        );
+    });
+
+    it('writes elements and sequences without values', () => {
+        const xml = toXml({
+            '00100010': { vr: 'PN', Value: [null] },
+            '00100020': { vr: 'LO' },
+            '00081115': { vr: 'SQ' },
+            '00081140': { vr: 'SQ', Value: [null] },
+        });
+        expect(xml).toContain(
+            [
+                '<sequence tag="0008,1115" vr="SQ" card="0" name="ReferencedSeriesSequence">',
+                '</sequence>',
+                '<sequence tag="0008,1140" vr="SQ" card="1" name="ReferencedImageSequence">',
+                '<item card="0">',
+                '</item>',
+                '</sequence>',
+                '<element tag="0010,0010" vr="PN" vm="1" name="PatientName"></element>',
+                '<element tag="0010,0020" vr="LO" vm="0" name="PatientID"></element>',
+            ].join('\n')
+        );
+    });
+
+    it('rejects BulkDataURI values', () => {
+        const result = jsonToDcmtkXml({ '7FE00010': { vr: 'OW', BulkDataURI: 'file:///tmp/a.dcm#(7FE0%2C0010)' } });
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toBe('(7fe0,0010): a BulkDataURI cannot be written to DCMTK XML; read binary values inline');
+    });
+
+    it('rejects sequences nested deeper than MAX_TRAVERSAL_DEPTH', () => {
+        let data: DicomJsonModel = { '00100020': { vr: 'LO', Value: ['leaf'] } };
+        for (let i = 0; i < MAX_TRAVERSAL_DEPTH; i++) data = { '00081115': { vr: 'SQ', Value: [data] } };
+        const result = jsonToDcmtkXml(data);
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/maximum depth/);
+    });
+});
+
+describe('DicomDataset.toDcmtkXml', () => {
+    it('serializes the dataset', () => {
+        const data: DicomJsonModel = { '00100020': { vr: 'LO', Value: ['MRN001'] } };
+        const dataset = DicomDataset.fromJson(data);
+        if (!dataset.ok) throw dataset.error;
+        expect(dataset.value.toDcmtkXml()).toEqual(jsonToDcmtkXml(data));
+    });
+});
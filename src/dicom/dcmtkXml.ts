@@ -0,0 +1,147 @@
+/**
+ * Serializes the DICOM JSON Model (PS3.18 F.2) to the XML format of DCMTK's `dcm2xml`,
+ * which `xml2dcm` converts to a DICOM file.
+ *
+ * ```json
+ * { "00100010": { "vr": "PN", "Value": [{"Alphabetic": "Smith^John"}] } }
+ * ```
+ * becomes
+ * ```xml
+ * <file-format>
+ * <data-set xfer="1.2.840.10008.1.2.1" name="Little Endian Explicit">
+ * <element tag="0010,0010" vr="PN" vm="1" name="PatientName">Smith^John</element>
+ * </data-set>
+ * </file-format>
+ * ```
+ *
+ * Elements are written in ascending tag order, the values of each joined with `\`.
+ * InlineBinary values are written base64-encoded with `binary="base64"`. The File Meta
+ * Information is left to `xml2dcm`, which generates it. Text is written as Unicode in
+ * a UTF-8 document, so datasets with other than ASCII text should use ISO_IR 192.
+ *
+ * @module dicom/dcmtkXml
+ */
+
+import { MAX_TRAVERSAL_DEPTH } from '../constants';
+import type { Result } from '../types';
+import { ok, err } from '../types';
+import type { DicomJsonElement, DicomJsonModel } from '../tools/_xmlToJson';
+import { lookupTag } from './dictionary';
+import { escapeXml, valueText } from './nativeXml';
+import { VR } from './vr';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A pending unit of output: a finished line, or a dataset still to write at a nesting depth. */
+type WorkItem = { readonly line: string } | { readonly model: DicomJsonModel; readonly depth: number };
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** XML declaration written before the root element. */
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+
+/** Opening tag of the dataset: `xml2dcm` reads the values as Explicit VR Little Endian. */
+const DATA_SET_OPEN = '<data-set xfer="1.2.840.10008.1.2.1" name="Little Endian Explicit">';
+
+/** PN component groups in the order `=` separates them. */
+const PN_GROUPS = ['Alphabetic', 'Ideographic', 'Phonetic'] as const;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Formats an 8-hex key as the `gggg,eeee` tag of dcm2xml. */
+function xmlTag(key: string): string {
+    return `${key.slice(0, 4)},${key.slice(4, 8)}`.toLowerCase();
+}
+
+/** Formats a DICOM JSON PN value as `Alphabetic=Ideographic=Phonetic`, without trailing empty groups. */
+function personNameText(value: unknown): string {
+    const groups = typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
+    return PN_GROUPS.map(name => valueText(groups[name]))
+        .join('=')
+        .replace(/=+$/, '');
+}
+
+/** Formats one value of an element as DICOM text: PN as its groups, AT as `(gggg,eeee)`. */
+function dicomText(vr: string, value: unknown): string {
+    if (vr === VR.PN) return personNameText(value);
+    if (vr === VR.AT && typeof value === 'string' && value.length === 8) return `(${value.slice(0, 4)},${value.slice(4)})`;
+    return valueText(value);
+}
+
+/** Builds the attributes of an `element` or `sequence` in dcm2xml order: tag, VR, `counts`, and the keyword of standard elements. */
+function tagAttributes(key: string, vr: string, counts: string): string {
+    const name = lookupTag(key)?.name;
+    return `tag="${xmlTag(key)}" vr="${escapeXml(vr)}" ${counts}${name === undefined ? '' : ` name="${name}"`}`;
+}
+
+/** Builds the `element` line of a non-sequence element, or an error for a BulkDataURI. */
+function elementLine(key: string, element: DicomJsonElement): Result<string> {
+    if (element.BulkDataURI !== undefined) {
+        return err(new Error(`(${xmlTag(key)}): a BulkDataURI cannot be written to DCMTK XML; read binary values inline`));
+    }
+    if (element.InlineBinary !== undefined) {
+        return ok(`<element ${tagAttributes(key, element.vr, 'vm="1"')} binary="base64">${escapeXml(element.InlineBinary)}</element>`);
+    }
+    const values = element.Value ?? [];
+    const text = values.map(value => dicomText(element.vr, value)).join('\\');
+    return ok(`<element ${tagAttributes(key, element.vr, `vm="${values.length}"`)}>${escapeXml(text)}</element>`);
+}
+
+/**
+ * Builds the work items of one element, in output order: an `element` line, or a `sequence`
+ * with its items, each a nested dataset between `item` tags.
+ */
+function elementWork(model: DicomJsonModel, key: string, depth: number): Result<ReadonlyArray<WorkItem>> {
+    const element = model[key] as DicomJsonElement;
+    if (element.vr !== VR.SQ) {
+        const line = elementLine(key, element);
+        return line.ok ? ok([{ line: line.value }]) : line;
+    }
+    const items = element.Value ?? [];
+    const work: WorkItem[] = [{ line: `<sequence ${tagAttributes(key, element.vr, `card="${items.length}"`)}>` }];
+    for (const item of items) {
+        const itemModel = typeof item === 'object' && item !== null ? (item as DicomJsonModel) : {};
+        work.push({ line: `<item card="${Object.keys(itemModel).length}">` }, { model: itemModel, depth: depth + 1 }, { line: '</item>' });
+    }
+    work.push({ line: '</sequence>' });
+    return ok(work);
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Converts a DICOM JSON Model to the XML format `xml2dcm` reads (iterative, no recursion — Rule 8.2).
+ *
+ * @param model - The DICOM JSON Model to serialize
+ * @returns A Result containing the XML document, or an error if a value is a BulkDataURI or sequences nest deeper than MAX_TRAVERSAL_DEPTH
+ */
+function jsonToDcmtkXml(model: Readonly<DicomJsonModel>): Result<string> {
+    const lines = [XML_DECLARATION, '<file-format>', DATA_SET_OPEN];
+    const stack: WorkItem[] = [{ model, depth: 1 }];
+    while (stack.length > 0) {
+        const next = stack.pop() as WorkItem;
+        if ('line' in next) {
+            lines.push(next.line);
+            continue;
+        }
+        if (next.depth > MAX_TRAVERSAL_DEPTH) return err(new Error(`Sequence nesting exceeds maximum depth of ${MAX_TRAVERSAL_DEPTH}`));
+        const keys = Object.keys(next.model).sort();
+        for (let i = keys.length - 1; i >= 0; i--) {
+            const work = elementWork(next.model, keys[i] as string, next.depth);
+            if (!work.ok) return work;
+            for (let j = work.value.length - 1; j >= 0; j--) stack.push(work.value[j] as WorkItem);
+        }
+    }
+    lines.push('</data-set>', '</file-format>');
+    return ok(`${lines.join('\n')}\n`);
+}
+
+export { jsonToDcmtkXml };
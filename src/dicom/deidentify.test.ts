@@ -0,0 +1,308 @@
+import { describe, it, expect } from 'vitest';
+import { deidentify } from './deidentify';
+import type { DeidentificationProfile } from './deidentify';
+import { DicomDataset } from './DicomDataset';
+import { MAX_TRAVERSAL_DEPTH } from '../constants';
+import type { DicomJsonElement, DicomJsonModel } from '../tools/_xmlToJson';
+import { makeSampleData } from '../../test/helpers';
+
+const CT_IMAGE_STORAGE = '1.2.840.10008.5.1.4.1.1.2';
+
+/** Private elements: a block of ACME, and one of Siemens with a safe and an unsafe element. */
+const PRIVATE: DicomJsonModel = {
+    '00090010': { vr: 'LO', Value: ['ACME 1.0'] },
+    '00091001': { vr: 'LO', Value: ['Smith'] },
+    '00190010': { vr: 'LO', Value: ['SIEMENS MR HEADER'] },
+    '0019100C': { vr: 'IS', Value: [1000] },
+    '00191008': { vr: 'CS', Value: ['IMAGE NUM 4'] },
+};
+
+/** De-identifies data with a profile and applies the resulting ChangeSet. */
+function deidentified(data: DicomJsonModel, profile?: DeidentificationProfile): DicomJsonModel {
+    const ds = DicomDataset.fromJson(data);
+    if (!ds.ok) throw ds.error;
+    const changes = deidentify(ds.value, profile);
+    if (!changes.ok) throw changes.error;
+    const applied = ds.value.apply(changes.value);
+    if (!applied.ok) throw applied.error;
+    return applied.value.toJson();
+}
+
+function deidentifyError(data: DicomJsonModel, profile: DeidentificationProfile): string {
+    const ds = DicomDataset.fromJson(data);
+    if (!ds.ok) throw ds.error;
+    const changes = deidentify(ds.value, profile);
+    return changes.ok ? '' : changes.error.message;
+}
+
+function valuesOf(element: DicomJsonElement | undefined): ReadonlyArray<unknown> | undefined {
+    return element === undefined ? undefined : (element.Value ?? []);
+}
+
+describe('deidentify', () => {
+    describe('Basic Profile', () => {
+        const result = deidentified({
+            ...makeSampleData(),
+            ...PRIVATE,
+            '00080021': { vr: 'DA', Value: ['20240115'] },
+            '00080030': { vr: 'TM', Value: ['101500'] },
+            '00080080': { vr: 'LO', Value: ['General Hospital'] },
+            '00080090': { vr: 'PN', Value: [{ Alphabetic: 'Jones^Mary' }] },
+            '00081010': { vr: 'SH', Value: ['CT01'] },
+            '00081030': { vr: 'LO', Value: ['CT CHEST'] },
+            '00100030': { vr: 'DA', Value: ['19700101'] },
+            '00100040': { vr: 'CS', Value: ['M'] },
+            '00101030': { vr: 'DS', Value: [80] },
+            '00104000': { vr: 'LT', Value: ['Referred by Dr Jones'] },
+            '00181000': { vr: 'LO', Value: ['SN42'] },
+        });
+
+        it('empties Z attributes', () => {
+            for (const key of ['00100010', '00100020', '00100030', '00100040', '00080050', '00080020', '00080030', '00080090']) {
+                expect(valuesOf(result[key]), key).toEqual([]);
+            }
+        });
+
+        it('removes X attributes', () => {
+            for (const key of ['00101010', '00101030', '00104000', '00081030']) expect(result[key], key).toBeUndefined();
+        });
+
+        it('sets dummy values for D and compound codes ending in D', () => {
+            expect(valuesOf(result['00080080'])).toEqual(['ANONYMOUS']);
+            expect(valuesOf(result['00081010'])).toEqual(['ANONYMOUS']);
+            expect(valuesOf(result['00181000'])).toEqual(['ANONYMOUS']);
+            expect(valuesOf(result['00080021'])).toEqual(['19000101']);
+        });
+
+        it('replaces UIDs at every nesting level', () => {
+            const sopInstanceUID = valuesOf(result['00080018'])?.[0];
+            expect(sopInstanceUID).toMatch(/^2\.25\.\d+$/);
+            expect((sopInstanceUID as string).length).toBeLessThanOrEqual(64);
+            const item = valuesOf(result['00081115'])?.[0] as DicomJsonModel;
+            expect(valuesOf(item['0020000E'])?.[0]).toMatch(/^2\.25\.\d+$/);
+            const reference = valuesOf(item['00081199'])?.[0] as DicomJsonModel;
+            expect(valuesOf(reference['00081150'])).toEqual([CT_IMAGE_STORAGE]);
+        });
+
+        it('keeps attributes the profile does not list, including pixel data', () => {
+            expect(valuesOf(result['00080016'])).toEqual([CT_IMAGE_STORAGE]);
+            expect(valuesOf(result['00080060'])).toEqual(['CT']);
+            expect(result['7FE00010']).toEqual({ vr: 'OW', InlineBinary: 'AAAA' });
+        });
+
+        it('removes every private element', () => {
+            expect(Object.keys(result).filter(key => parseInt(key.slice(0, 4), 16) % 2 === 1)).toEqual([]);
+        });
+
+        it('records the de-identification method', () => {
+            expect(valuesOf(result['00120062'])).toEqual(['YES']);
+            expect(valuesOf(result['00120064'])).toEqual([
+                {
+                    '00080100': { vr: 'SH', Value: ['113100'] },
+                    '00080102': { vr: 'SH', Value: ['DCM'] },
+                    '00080104': { vr: 'LO', Value: ['Basic Application Confidentiality Profile'] },
+                },
+            ]);
+        });
+    });
+
+    it('derives the same replacement UID for the same UID and secret', () => {
+        const referencing: DicomJsonModel = {
+            '00081140': { vr: 'SQ', Value: [{ '00081155': { vr: 'UI', Value: ['1.2.3.4.5.6.7.8.9'] } }] },
+        };
+        const image = deidentified(makeSampleData(), { uidSecret: 'site-secret' });
+        const reference = deidentified(referencing, { uidSecret: 'site-secret' });
+        const item = valuesOf(reference['00081140'])?.[0] as DicomJsonModel;
+        expect(valuesOf(item['00081155'])).toEqual(valuesOf(image['00080018']));
+        expect(valuesOf(deidentified(makeSampleData(), { uidSecret: 'other-secret' })['00080018'])).not.toEqual(valuesOf(image['00080018']));
+        expect(valuesOf(deidentified(makeSampleData())['00080018'])).toEqual(valuesOf(deidentified(makeSampleData())['00080018']));
+    });
+
+    describe('options', () => {
+        it('retains patient characteristics', () => {
+            const data = { ...makeSampleData(), '00100040': { vr: 'CS', Value: ['M'] }, '00101030': { vr: 'DS', Value: [80] } };
+            const result = deidentified(data, { options: ['retainPatientCharacteristics'] });
+            expect(valuesOf(result['00101010'])).toEqual(['032Y']);
+            expect(valuesOf(result['00101030'])).toEqual([80]);
+            expect(valuesOf(result['00100040'])).toEqual(['M']);
+        });
+
+        it('retains device and institution identity', () => {
+            const data = {
+                ...makeSampleData(),
+                '00080080': { vr: 'LO', Value: ['General Hospital'] },
+                '00081010': { vr: 'SH', Value: ['CT01'] },
+                '00181000': { vr: 'LO', Value: ['SN42'] },
+            };
+            const result = deidentified(data, { options: ['retainDeviceIdentity', 'retainInstitutionIdentity'] });
+            expect(valuesOf(result['00081010'])).toEqual(['CT01']);
+            expect(valuesOf(result['00181000'])).toEqual(['SN42']);
+            expect(valuesOf(result['00080080'])).toEqual(['General Hospital']);
+        });
+
+        it('retains UIDs', () => {
+            const result = deidentified(makeSampleData(), { options: ['retainUIDs'] });
+            expect(valuesOf(result['00080018'])).toEqual(['1.2.3.4.5.6.7.8.9']);
+            expect(valuesOf(result['0020000D'])).toEqual(['1.2.3.4.5']);
+        });
+
+        /** The sample data with a Series Date and Study Time beside its Study Date, and a birth date. */
+        const dated = (): DicomJsonModel => ({
+            ...makeSampleData(),
+            '00080021': { vr: 'DA', Value: ['20240115'] },
+            '00080030': { vr: 'TM', Value: ['101500'] },
+            '00100030': { vr: 'DA', Value: ['19700101'] },
+        });
+
+        it('retains full dates', () => {
+            const result = deidentified(dated(), { options: ['retainLongitudinalFullDates'] });
+            expect(valuesOf(result['00080020'])).toEqual(['20240115']);
+            expect(valuesOf(result['00080021'])).toEqual(['20240115']);
+            expect(valuesOf(result['00080030'])).toEqual(['101500']);
+            expect(valuesOf(result['00100030'])).toEqual([]);
+        });
+
+        it('shifts dates with modified dates', () => {
+            const result = deidentified(dated(), { options: ['retainLongitudinalModifiedDates'], dateShiftDays: -10 });
+            expect(valuesOf(result['00080020'])).toEqual(['20240105']);
+            expect(valuesOf(result['00080021'])).toEqual(['20240105']);
+            expect(valuesOf(result['00080030'])).toEqual(['101500']);
+        });
+
+        it('strips the patient names and identifiers from descriptions with Clean Descriptors', () => {
+            const data = {
+                ...makeSampleData(),
+                '00081030': { vr: 'LO', Value: ['CT CHEST Smith ACC-12345'] },
+                '00104000': { vr: 'LT', Value: ['Referred by Dr Jones'] },
+            };
+            const result = deidentified(data, { options: ['cleanDescriptors'] });
+            const description = valuesOf(result['00081030'])?.[0] as string;
+            expect(description).toMatch(/^CT CHEST/);
+            expect(description).not.toMatch(/Smith|ACC-12345/i);
+            expect(valuesOf(result['00104000'])).toEqual(['Referred by Dr Jones']);
+        });
+
+        it('applies the repeating groups of overlays and curves to every group of their range', () => {
+            const data: DicomJsonModel = {
+                ...makeSampleData(),
+                '50020010': { vr: 'US', Value: [4] },
+                '60003000': { vr: 'OW', InlineBinary: 'AAECAw==' },
+                '60004000': { vr: 'LT', Value: ['Smith^John'] },
+                '60024000': { vr: 'LT', Value: ['Smith'] },
+                '60000010': { vr: 'US', Value: [512] },
+            };
+            const result = deidentified(data);
+            expect(Object.keys(result).filter(key => /^(50|60)/.test(key))).toEqual(['60000010']);
+            const cleaned = deidentified(data, { options: ['cleanDescriptors'] });
+            expect(valuesOf(cleaned['60004000'])).toEqual(['^']);
+        });
+
+        it('strips only whole identifiers with Clean Descriptors', () => {
+            const data: DicomJsonModel = {
+                ...makeSampleData(),
+                '00081030': { vr: 'LO', Value: ['CT ABDOMEN PELVIS^ct=Smithson ct'] },
+                '00100020': { vr: 'LO', Value: ['CT'] },
+            };
+            const result = deidentified(data, { options: ['cleanDescriptors'] });
+            expect(valuesOf(result['00081030'])).toEqual([' ABDOMEN PELVIS^=Smithson ']);
+        });
+
+        it('keeps and de-identifies structured content with Clean Structured Content', () => {
+            const data: DicomJsonModel = {
+                '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Smith^John' }] },
+                '0040A730': {
+                    vr: 'SQ',
+                    Value: [{ '0040A123': { vr: 'PN', Value: [{ Alphabetic: 'Jones^Mary' }] }, '0040A160': { vr: 'UT', Value: ['Seen with John Smith'] } }],
+                },
+            };
+            expect(deidentified(data)['0040A730']).toBeUndefined();
+            const item = valuesOf(deidentified(data, { options: ['cleanStructuredContent'] })['0040A730'])?.[0] as DicomJsonModel;
+            expect(valuesOf(item['0040A123'])).toEqual([{ Alphabetic: 'ANONYMOUS' }]);
+            expect(valuesOf(item['0040A160'])?.[0]).not.toMatch(/John|Smith/);
+        });
+
+        it('retains safe private attributes and their creators', () => {
+            const result = deidentified({ ...makeSampleData(), ...PRIVATE }, { options: ['retainSafePrivate'] });
+            expect(Object.keys(result).filter(key => parseInt(key.slice(0, 4), 16) % 2 === 1)).toEqual(['00190010', '0019100C']);
+        });
+
+        it('retains additional safe private attributes', () => {
+            const result = deidentified(
+                { ...makeSampleData(), ...PRIVATE },
+                {
+                    options: ['retainSafePrivate'],
+                    safePrivateTags: [{ creator: 'ACME 1.0', group: 0x0009, element: 0x01 }],
+                }
+            );
+            expect(valuesOf(result['00091001'])).toEqual(['Smith']);
+            expect(valuesOf(result['00090010'])).toEqual(['ACME 1.0']);
+        });
+
+        it('records each option in DeidentificationMethodCodeSequence', () => {
+            const result = deidentified(makeSampleData(), { options: ['retainUIDs', 'cleanDescriptors'] });
+            const codes = valuesOf(result['00120064'])?.map(item => valuesOf((item as DicomJsonModel)['00080100'])?.[0]);
+            expect(codes).toEqual(['113100', '113110', '113105']);
+        });
+
+        it('appends to an existing DeidentificationMethodCodeSequence', () => {
+            const previous = { '00080100': { vr: 'SH', Value: ['113101'] }, '00080102': { vr: 'SH', Value: ['DCM'] } };
+            const result = deidentified({ ...makeSampleData(), '00120064': { vr: 'SQ', Value: [previous] } });
+            const codes = valuesOf(result['00120064'])?.map(item => valuesOf((item as DicomJsonModel)['00080100'])?.[0]);
+            expect(codes).toEqual(['113101', '113100']);
+        });
+    });
+
+    it('empties X/Z sequences', () => {
+        const data: DicomJsonModel = { '00081110': { vr: 'SQ', Value: [{ '00081155': { vr: 'UI', Value: ['1.2.3'] } }] } };
+        expect(valuesOf(deidentified(data)['00081110'])).toEqual([]);
+    });
+
+    it('applies overrides at every nesting level', () => {
+        const data = {
+            ...makeSampleData(),
+            ...PRIVATE,
+            '00081140': { vr: 'SQ', Value: [{ '00081150': { vr: 'UI', Value: [CT_IMAGE_STORAGE] }, '00081155': { vr: 'UI', Value: ['1.2.3.4.5.6.7.8.9'] } }] },
+            '00104000': { vr: 'LT', Value: ['Referred by Dr Jones'] },
+        };
+        const result = deidentified(data, {
+            overrides: {
+                PatientName: { value: 'SUBJECT-001' },
+                '(0010,4000)': 'K',
+                '00081155': 'X',
+                '0019100C': 'K',
+            },
+        });
+        expect(valuesOf(result['00100010'])).toEqual([{ Alphabetic: 'SUBJECT-001' }]);
+        expect(valuesOf(result['00104000'])).toEqual(['Referred by Dr Jones']);
+        expect(valuesOf(result['00081140'])?.[0]).toEqual({ '00081150': { vr: 'UI', Value: [CT_IMAGE_STORAGE] } });
+        expect(valuesOf(result['0019100C'])).toEqual([1000]);
+        expect(valuesOf(result['00190010'])).toEqual(['SIEMENS MR HEADER']);
+    });
+
+    describe('errors', () => {
+        it('rejects invalid overrides', () => {
+            expect(deidentifyError(makeSampleData(), { overrides: { NotAKeyword: 'K' } })).toMatch(/NotAKeyword/);
+            expect(deidentifyError(makeSampleData(), { overrides: { '(0010,0010)[0]': 'K' } })).toMatch(/single tag or keyword/);
+            expect(deidentifyError(makeSampleData(), { overrides: { PatientName: 'Q' as 'K' } })).toMatch(/Invalid override for PatientName/);
+        });
+
+        it('rejects unknown and conflicting options', () => {
+            expect(deidentifyError(makeSampleData(), { options: ['retainEverything' as 'retainUIDs'] })).toMatch(/Unknown de-identification option/);
+            expect(
+                deidentifyError(makeSampleData(), { options: ['retainLongitudinalFullDates', 'retainLongitudinalModifiedDates'], dateShiftDays: 1 })
+            ).toMatch(/exclude each other/);
+        });
+
+        it('requires a valid date shift for modified dates and cleaned dates', () => {
+            expect(deidentifyError(makeSampleData(), { options: ['retainLongitudinalModifiedDates'] })).toMatch(/needs dateShiftDays/);
+            expect(deidentifyError(makeSampleData(), { dateShiftDays: 1.5 })).toMatch(/Invalid date shift/);
+            expect(deidentifyError(makeSampleData(), { overrides: { StudyDate: 'C' } })).toMatch(/\(0008,0020\): cleaning a date needs dateShiftDays/);
+        });
+
+        it('returns an error for sequences nested deeper than MAX_TRAVERSAL_DEPTH', () => {
+            let model: DicomJsonModel = { '0040A160': { vr: 'UT', Value: ['leaf'] } };
+            for (let i = 0; i < MAX_TRAVERSAL_DEPTH; i++) model = { '0040A730': { vr: 'SQ', Value: [model] } };
+            expect(deidentifyError(model, { options: ['cleanStructuredContent'] })).toMatch(/maximum depth of 50/);
+        });
+    });
+});
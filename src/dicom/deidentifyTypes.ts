@@ -0,0 +1,78 @@
+/**
+ * Action codes, options and attribute rules of the PS3.15 Annex E Basic Application
+ * Level Confidentiality Profile.
+ *
+ * The rules themselves live in `src/data/deidentification.ts`; `deidentify` turns them
+ * into a ChangeSet for a dataset.
+ *
+ * @see DICOM PS3.15 Annex E — Attribute Confidentiality Profiles
+ * @module dicom/deidentifyTypes
+ */
+
+/**
+ * Action codes of PS3.15 Table E.1-1:
+ * - `D` replaces the value with a dummy value consistent with the VR
+ * - `Z` replaces the value with a zero-length value
+ * - `X` removes the attribute
+ * - `K` keeps the attribute
+ * - `C` cleans the value, keeping its meaning without identifying information
+ * - `U` replaces each UID with one derived from it, consistently across instances
+ */
+const DeidentificationAction = {
+    DUMMY: 'D',
+    ZERO: 'Z',
+    REMOVE: 'X',
+    KEEP: 'K',
+    CLEAN: 'C',
+    UID: 'U',
+} as const;
+
+type DeidentificationActionValue = (typeof DeidentificationAction)[keyof typeof DeidentificationAction];
+
+/**
+ * An action code as listed in Table E.1-1. Compound codes such as `X/Z` pick the later
+ * action when the earlier one would break IOD conformance; `U*` replaces the UIDs inside
+ * the items of a sequence.
+ */
+type ProfileActionCode = DeidentificationActionValue | 'Z/D' | 'X/Z' | 'X/D' | 'X/Z/D' | 'X/Z/U*';
+
+/** Profile options of PS3.15 Table E.1-1 that change the actions of the Basic Profile. */
+const DeidentificationOption = {
+    RETAIN_SAFE_PRIVATE: 'retainSafePrivate',
+    RETAIN_UIDS: 'retainUIDs',
+    RETAIN_DEVICE_IDENTITY: 'retainDeviceIdentity',
+    RETAIN_INSTITUTION_IDENTITY: 'retainInstitutionIdentity',
+    RETAIN_PATIENT_CHARACTERISTICS: 'retainPatientCharacteristics',
+    RETAIN_LONGITUDINAL_FULL_DATES: 'retainLongitudinalFullDates',
+    RETAIN_LONGITUDINAL_MODIFIED_DATES: 'retainLongitudinalModifiedDates',
+    CLEAN_DESCRIPTORS: 'cleanDescriptors',
+    CLEAN_STRUCTURED_CONTENT: 'cleanStructuredContent',
+    CLEAN_GRAPHICS: 'cleanGraphics',
+} as const;
+
+type DeidentificationOptionValue = (typeof DeidentificationOption)[keyof typeof DeidentificationOption];
+
+/** An attribute of Table E.1-1 with its Basic Profile action and the actions options replace it with. */
+interface ProfileAttribute {
+    /** Dictionary keyword, e.g. `PatientName`. */
+    readonly keyword: string;
+    /** Action of the Basic Profile. */
+    readonly action: ProfileActionCode;
+    /** Actions that replace `action` when an option is selected. */
+    readonly options?: Readonly<Partial<Record<DeidentificationOptionValue, ProfileActionCode>>>;
+}
+
+/** A repeating group of Table E.1-1, such as Overlay Data (60xx,3000), with its actions. */
+interface ProfileRange extends Omit<ProfileAttribute, 'keyword'> {
+    /** Tag range as 8 hex digits, where `x` stands for any hex digit, e.g. `60xx3000`. */
+    readonly range: string;
+}
+
+/** A coded entry of CID 7050 (De-identification Method), for DeidentificationMethodCodeSequence. */
+interface DeidentificationCode {
+    readonly codeValue: string;
+    readonly codeMeaning: string;
+}
+
+export { DeidentificationAction, DeidentificationOption };
+export type { DeidentificationActionValue, ProfileActionCode, DeidentificationOptionValue, ProfileAttribute, ProfileRange, DeidentificationCode };
@@ -1,5 +1,16 @@
-import { describe, it, expect } from 'vitest';
-import { lookupTag, lookupTagByName, lookupTagByKeyword } from './dictionary';
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+    lookupTag,
+    lookupTagByName,
+    lookupTagByKeyword,
+    suggestKeyword,
+    resolveKeyword,
+    checkPathKeywords,
+    searchKeywords,
+    describeTag,
+    formatMultiplicity,
+} from './dictionary';
+import { registerPrivateDictionary, clearPrivateDictionaries } from './privateDictionary';
 import { createDicomTag } from '../brands';
 import type { DictionaryEntry } from './dictionary';
 
@@ -79,6 +90,15 @@ describe('DICOM Dictionary', () => {
             expect(entry?.name).toBe('AttributeIdentifierList');
             expect(entry?.vm[1]).toBeNull();
         });
+
+        it('resolves members of repeating ranges to the entry of their range', () => {
+            expect(lookupTag('(6002,3000)')?.name).toBe('OverlayData');
+            expect(lookupTag('50200010')?.name).toBe('RETIRED_NumberOfPoints');
+            expect(lookupTag('(0028,0420)')?.name).toBe('RETIRED_RowsForNthOrderCoefficients');
+            expect(lookupTag('(1000,0123)')?.name).toBe('RETIRED_HuffmanTableTriplet');
+            expect(lookupTag('(6001,3000)')).toBeUndefined();
+            expect(lookupTag('(7FE0,0010)')?.name).toBe('PixelData');
+        });
     });
 
     describe('lookupTagByName()', () => {
@@ -140,6 +160,126 @@ describe('DICOM Dictionary', () => {
         });
     });
 
+    describe('suggestKeyword()', () => {
+        it('suggests the closest keyword for a typo', () => {
+            expect(suggestKeyword('PatientNam')).toBe('PatientName');
+        });
+
+        it('ignores case differences', () => {
+            expect(suggestKeyword('patientname')).toBe('PatientName');
+        });
+
+        it('returns undefined when nothing is close', () => {
+            expect(suggestKeyword('CompletelyUnrelatedGibberishWord')).toBeUndefined();
+        });
+    });
+
+    describe('resolveKeyword()', () => {
+        it('resolves a known keyword', () => {
+            expect(resolveKeyword('SeriesInstanceUID')).toEqual({ ok: true, value: '(0020,000E)' });
+        });
+
+        it('includes a suggestion for an unknown keyword', () => {
+            const result = resolveKeyword('SeriesInstanceUId');
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toBe('Unknown DICOM keyword "SeriesInstanceUId". Did you mean "SeriesInstanceUID"?');
+        });
+
+        it('omits the suggestion when nothing is close', () => {
+            const result = resolveKeyword('Xyzzyplughfoobarbaz');
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toBe('Unknown DICOM keyword "Xyzzyplughfoobarbaz".');
+        });
+    });
+
+    describe('searchKeywords()', () => {
+        it('ranks exact matches, prefixes, substrings and misspellings', () => {
+            expect(searchKeywords('patient name', { limit: 2 }).map(match => match.keyword)).toEqual(['PatientName', 'OtherPatientNames']);
+            expect(searchKeywords('WindowCentr')[0]?.keyword).toBe('WindowCenter');
+            expect(searchKeywords('studyinstance')[0]).toMatchObject({ keyword: 'StudyInstanceUID', tag: '(0020,000D)' });
+        });
+
+        it('excludes retired keywords unless asked', () => {
+            expect(searchKeywords('CurveData')).toEqual([]);
+            expect(searchKeywords('CurveData', { includeRetired: true })[0]).toMatchObject({ keyword: 'RETIRED_CurveData', range: '(50xx,3000)' });
+        });
+
+        it('returns nothing for an empty query', () => {
+            expect(searchKeywords(' ')).toEqual([]);
+        });
+    });
+
+    describe('formatMultiplicity()', () => {
+        it('writes VMs in the notation of the standard', () => {
+            expect(formatMultiplicity([1, 1])).toBe('1');
+            expect(formatMultiplicity([1, 3])).toBe('1-3');
+            expect(formatMultiplicity([1, null])).toBe('1-n');
+            expect(formatMultiplicity([2, null], 2)).toBe('2-2n');
+        });
+    });
+
+    describe('describeTag()', () => {
+        afterEach(() => {
+            clearPrivateDictionaries();
+        });
+
+        it('describes standard tags', () => {
+            expect(describeTag('(0028,0030)')).toEqual({
+                tag: '(0028,0030)',
+                keyword: 'PixelSpacing',
+                vr: 'DS',
+                vm: [2, 2],
+                vmStep: 1,
+                multiplicity: '2',
+                retired: false,
+            });
+            expect(describeTag('00189442')?.multiplicity).toBe('2-2n');
+            expect(describeTag('(0000,0001)')?.retired).toBe(true);
+        });
+
+        it('keeps the unbounded max and the step of stepped VMs', () => {
+            expect(describeTag('(3006,0050)')).toMatchObject({ keyword: 'ContourData', vm: [3, null], vmStep: 3, multiplicity: '3-3n' });
+            expect(describeTag('(0028,6102)')).toMatchObject({ keyword: 'ApplicableFrameRange', vm: [2, null], vmStep: 2, multiplicity: '2-2n' });
+            expect(describeTag('(0040,A0B0)')).toMatchObject({ keyword: 'ReferencedWaveformChannels', vm: [2, null], vmStep: 2, multiplicity: '2-2n' });
+        });
+
+        it('names the repeating range of a tag', () => {
+            expect(describeTag('(6002,3000)')).toMatchObject({ tag: '(6002,3000)', keyword: 'OverlayData', range: '(60xx,3000)' });
+            expect(describeTag('(0020,3105)')).toMatchObject({ keyword: 'RETIRED_SourceImageIDs', multiplicity: '1-n', range: '(0020,31xx)' });
+        });
+
+        it('describes private tags through the creator reserving their block', () => {
+            expect(describeTag('(0029,0000)')?.keyword).toBe('PrivateGroupLength');
+            expect(describeTag('(0029,0011)')).toMatchObject({ keyword: 'PrivateCreator', vr: 'LO' });
+            expect(describeTag('(0029,1108)')).toBeUndefined();
+
+            registerPrivateDictionary([{ creator: 'SIEMENS CSA HEADER', group: 0x0029, element: 0x08, vr: 'CS', name: 'CSAImageHeaderType', vm: [1, 1] }]);
+            expect(describeTag('(0029,1108)', 'SIEMENS CSA HEADER')).toMatchObject({
+                keyword: 'CSAImageHeaderType',
+                vr: 'CS',
+                privateCreator: 'SIEMENS CSA HEADER',
+            });
+        });
+
+        it('returns undefined for malformed and unknown tags', () => {
+            expect(describeTag('PatientName')).toBeUndefined();
+            expect(describeTag('(0010,9999)')).toBeUndefined();
+        });
+    });
+
+    describe('checkPathKeywords()', () => {
+        it('accepts paths of known keywords and hex tags', () => {
+            expect(checkPathKeywords('ReferencedSeriesSequence[0].(0020,000E)').ok).toBe(true);
+            expect(checkPathKeywords('ContentSequence[*].TextValue').ok).toBe(true);
+        });
+
+        it('rejects the first unknown keyword', () => {
+            const result = checkPathKeywords('ReferencedSeriesSequence[0].SeriesInstanceUid');
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toMatch(/Did you mean "SeriesInstanceUID"/);
+        });
+    });
+
     describe('dictionary integrity', () => {
         it('name index covers all entries (buildNameIndex iterates every key)', () => {
             // lookupTagByName triggers buildNameIndex which iterates all dictionary entries
@@ -150,7 +290,7 @@ describe('DICOM Dictionary', () => {
         });
 
         it('lookupTagByKeyword returns valid DicomTag for known keywords', () => {
-            // This exercises the createDicomTag path inside lookupTagByKeyword
+            // This exercises the hex-to-DicomTag conversion inside lookupTagByKeyword
             const tag = lookupTagByKeyword('PatientName');
             expect(tag).toBe('(0010,0010)');
 
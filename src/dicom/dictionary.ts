@@ -2,13 +2,17 @@
  * DICOM tag dictionary with O(1) lookup by tag and lazy reverse lookup by name.
  *
  * Uses the shipped `src/data/dictionary.json` generated from `_configs/dicom.dic.json`.
+ * The generated file stores each repeating-group range such as `(60xx,3000)` under a
+ * single key; lookups map every member of the range back to that entry.
  *
  * @module dicom/dictionary
  */
 
 import type { DicomTag } from '../brands';
-import { createDicomTag } from '../brands';
+import type { Result } from '../types';
+import { ok, err } from '../types';
 import type { VRValue } from './vr';
+import { lookupPrivateTag } from './privateDictionary';
 import dictionaryData from '../data/dictionary.json';
 
 // ---------------------------------------------------------------------------
@@ -23,10 +27,54 @@ interface DictionaryEntry {
     readonly name: string;
     /** Value multiplicity as [min, max], where max is null if unbounded. */
     readonly vm: readonly [number, number | null];
+    /** The number of values an unbounded VM grows by, when more than 1 (e.g. 2 for `2-2n`). */
+    readonly vmStep?: number;
     /** Whether this tag is retired in the current DICOM standard. */
     readonly retired: boolean;
 }
 
+/** Everything the dictionary knows about a tag, as returned by {@link describeTag}. */
+interface TagDescription {
+    /** The described tag in `(GGGG,EEEE)` format. */
+    readonly tag: DicomTag;
+    /** The keyword (e.g. "PatientName"); retired keywords keep their `RETIRED_` prefix. */
+    readonly keyword: string;
+    /** The Value Representation code. */
+    readonly vr: VRValue;
+    /** Value multiplicity as [min, max], where max is null if unbounded. */
+    readonly vm: readonly [number, number | null];
+    /** The number of values an unbounded VM grows by, e.g. 2 for `2-2n`. */
+    readonly vmStep: number;
+    /** The VM as written in the standard, e.g. `1`, `1-3`, `1-n` or `2-2n`. */
+    readonly multiplicity: string;
+    /** Whether this tag is retired in the current DICOM standard. */
+    readonly retired: boolean;
+    /** The repeating range the tag belongs to, e.g. `(60xx,3000)`. */
+    readonly range?: string;
+    /** The private creator whose dictionary describes the tag. */
+    readonly privateCreator?: string;
+}
+
+/** Options for {@link searchKeywords}. */
+interface KeywordSearchOptions {
+    /** Maximum number of matches to return. Defaults to 10. */
+    readonly limit?: number;
+    /** Whether to include retired keywords. Defaults to false. */
+    readonly includeRetired?: boolean;
+}
+
+/** A keyword found by {@link searchKeywords}. */
+interface KeywordMatch {
+    /** The keyword as stored in the dictionary. */
+    readonly keyword: string;
+    /** The tag of the keyword, as returned by {@link lookupTagByKeyword}. */
+    readonly tag: DicomTag;
+    /** The dictionary entry of the keyword. */
+    readonly entry: DictionaryEntry;
+    /** The repeating range of the keyword, e.g. `(60xx,3000)`. */
+    readonly range?: string;
+}
+
 // ---------------------------------------------------------------------------
 // Dictionary data (typed)
 // ---------------------------------------------------------------------------
@@ -34,6 +82,41 @@ interface DictionaryEntry {
 /** Raw dictionary keyed by 8-char uppercase hex (e.g. "00100010"). */
 const dictionary = dictionaryData as unknown as Readonly<Record<string, DictionaryEntry>>;
 
+/** Groups the generated dictionary stores repeating-group entries under, mapped to the range they stand for. */
+const REPEATING_GROUPS: Readonly<Record<string, string>> = {
+    '50FF': '50xx',
+    '60FF': '60xx',
+    '7FFF': '7Fxx',
+};
+
+/** Repeating element ranges, keyed by the member the generated dictionary stores them under. */
+const REPEATING_ELEMENTS: Readonly<Record<string, string>> = {
+    '00203100': '002031xx',
+    '00280410': '002804x0',
+    '00280411': '002804x1',
+    '00280412': '002804x2',
+    '00280413': '002804x3',
+    '00280800': '002808x0',
+    '00280802': '002808x2',
+    '00280803': '002808x3',
+    '00280804': '002808x4',
+    '00280808': '002808x8',
+    '10000010': '1000xxx0',
+    '10000011': '1000xxx1',
+    '10000012': '1000xxx2',
+    '10000013': '1000xxx3',
+    '10000014': '1000xxx4',
+    '10000015': '1000xxx5',
+    '10100004': '1010xxxx',
+};
+
+/** Dictionary keys of the entries describing every private group length and private creator element. */
+const PRIVATE_GROUP_LENGTH_KEY = 'FFFF0000';
+const PRIVATE_CREATOR_KEY = 'FFFF0010';
+
+/** Matches an 8-char uppercase hex tag key. */
+const TAG_KEY_PATTERN = /^[0-9A-F]{8}$/;
+
 // ---------------------------------------------------------------------------
 // Forward lookup (by tag)
 // ---------------------------------------------------------------------------
@@ -42,15 +125,83 @@ const dictionary = dictionaryData as unknown as Readonly<Record<string, Dictiona
  * Looks up a DICOM tag in the data dictionary.
  *
  * Accepts tags in either branded `DicomTag` format `"(0010,0010)"` or
- * raw 8-char hex format `"00100010"`.
+ * raw 8-char hex format `"00100010"`. Members of repeating ranges such as
+ * `(6002,3000)` resolve to the entry of their range.
  *
  * @param tag - A DicomTag or 8-char hex string
  * @returns The dictionary entry, or undefined if the tag is not in the dictionary
  */
 function lookupTag(tag: DicomTag | string): DictionaryEntry | undefined {
+    const key = toTagKey(tag);
+    return dictionary[key] ?? findRange(key)?.entry;
+}
+
+/** Converts `"(0010,0010)"` or `"00100010"` to an uppercase 8-char hex key. */
+function toTagKey(tag: string): string {
     // Strip parens and comma: "(0010,0010)" → "00100010"
     const key = tag.includes(',') ? tag.replace(/[(),]/g, '') : tag;
-    return dictionary[key.toUpperCase()];
+    return key.toUpperCase();
+}
+
+/** Formats an 8-char hex key as `(GGGG,EEEE)`; callers pass trusted keys only. */
+function toDicomTag(key: string): DicomTag {
+    return `(${key.slice(0, 4)},${key.slice(4, 8)})` as DicomTag;
+}
+
+// ---------------------------------------------------------------------------
+// Repeating ranges (lazily built)
+// ---------------------------------------------------------------------------
+
+/** A repeating range such as `60xx3000`, with the dictionary entry describing its members. */
+interface RepeatingRange {
+    readonly pattern: string;
+    readonly key: string;
+    readonly entry: DictionaryEntry;
+}
+
+let rangeIndex: ReadonlyMap<string, RepeatingRange> | undefined;
+
+function buildRangeIndex(): ReadonlyMap<string, RepeatingRange> {
+    const map = new Map<string, RepeatingRange>();
+    for (const [key, entry] of Object.entries(dictionary)) {
+        const group = REPEATING_GROUPS[key.slice(0, 4)];
+        const pattern = group === undefined ? REPEATING_ELEMENTS[key] : `${group}${key.slice(4)}`;
+        if (pattern !== undefined) map.set(key, { pattern, key, entry });
+    }
+    return map;
+}
+
+function getRangeIndex(): ReadonlyMap<string, RepeatingRange> {
+    if (rangeIndex === undefined) {
+        rangeIndex = buildRangeIndex();
+    }
+    return rangeIndex;
+}
+
+/**
+ * Checks whether a tag key belongs to a range pattern, where `x` stands for any hex digit.
+ * Repeating groups only contain even groups; odd groups are private.
+ */
+function matchesRange(pattern: string, key: string): boolean {
+    for (let i = 0; i < pattern.length; i++) {
+        const digit = pattern[i];
+        if (digit !== 'x' && digit !== key[i]) return false;
+    }
+    return !pattern.slice(0, 4).includes('x') || parseInt(key.slice(0, 4), 16) % 2 === 0;
+}
+
+/** Finds the repeating range a tag key belongs to. */
+function findRange(key: string): RepeatingRange | undefined {
+    if (!TAG_KEY_PATTERN.test(key)) return undefined;
+    for (const range of getRangeIndex().values()) {
+        if (matchesRange(range.pattern, key)) return range;
+    }
+    return undefined;
+}
+
+/** Formats a range pattern such as `60xx3000` as `(60xx,3000)`. */
+function formatRange(pattern: string): string {
+    return `(${pattern.slice(0, 4)},${pattern.slice(4)})`;
 }
 
 // ---------------------------------------------------------------------------
@@ -98,14 +249,225 @@ function lookupTagByKeyword(keyword: string): DicomTag | undefined {
     const found = getNameIndex().get(keyword);
     if (found === undefined) return undefined;
 
-    const hex = found.tag;
-    const group = hex.slice(0, 4);
-    const element = hex.slice(4, 8);
-    const result = createDicomTag(`(${group},${element})`);
-    /* v8 ignore next */
-    if (!result.ok) return undefined;
-    return result.value;
+    // Dictionary keys are trusted 8-char hex, so the brand can be applied directly
+    return toDicomTag(found.tag);
+}
+
+// ---------------------------------------------------------------------------
+// Keyword suggestions
+// ---------------------------------------------------------------------------
+
+/** Minimum edit distance a suggestion may have, regardless of keyword length. */
+const MIN_SUGGESTION_DISTANCE = 2;
+
+/** Computes the Levenshtein edit distance between two strings (two-row DP, no recursion). */
+function editDistance(a: string, b: string): number {
+    let previous: number[] = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current: number[] = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current.push(Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, (previous[j - 1] ?? 0) + cost));
+        }
+        previous = current;
+    }
+    return previous[b.length] ?? 0;
+}
+
+/**
+ * Suggests the dictionary keyword closest to a misspelled keyword.
+ *
+ * Comparison is case-insensitive. Candidates further than a third of the keyword
+ * length (minimum 2 edits) are not suggested.
+ *
+ * @param keyword - The unrecognized keyword (e.g. "PatientNam")
+ * @returns The closest standard keyword, or undefined if nothing is close enough
+ */
+function suggestKeyword(keyword: string): string | undefined {
+    const target = keyword.toLowerCase();
+    let bestDistance = Math.max(MIN_SUGGESTION_DISTANCE, Math.floor(target.length / 3)) + 1;
+    let best: string | undefined;
+    for (const name of getNameIndex().keys()) {
+        if (Math.abs(name.length - target.length) >= bestDistance) continue;
+        const distance = editDistance(target, name.toLowerCase());
+        if (distance < bestDistance) {
+            bestDistance = distance;
+            best = name;
+        }
+    }
+    return best;
+}
+
+/**
+ * Resolves a standard keyword to its DicomTag, with a suggestion on failure.
+ *
+ * @param keyword - The standard keyword (e.g. "PatientName")
+ * @returns A Result containing the DicomTag, or an error naming the closest keyword
+ */
+function resolveKeyword(keyword: string): Result<DicomTag> {
+    const tag = lookupTagByKeyword(keyword);
+    if (tag !== undefined) return ok(tag);
+    const suggestion = suggestKeyword(keyword);
+    const hint = suggestion === undefined ? '' : ` Did you mean "${suggestion}"?`;
+    return err(new Error(`Unknown DICOM keyword "${keyword}".${hint}`));
+}
+
+/**
+ * Checks that every keyword segment of a tag path names a dictionary entry.
+ *
+ * Hex `(XXXX,XXXX)` segments are skipped; path syntax is assumed to be validated already.
+ *
+ * @param path - A tag path such as `ReferencedSeriesSequence[0].SeriesInstanceUID`
+ * @returns A Result that fails with a suggestion for the first unknown keyword
+ */
+function checkPathKeywords(path: string): Result<void> {
+    for (const part of path.split('.')) {
+        if (part.startsWith('(')) continue;
+        const resolved = resolveKeyword(part.replace(/\[(\d+|\*)\]$/, ''));
+        if (!resolved.ok) return err(resolved.error);
+    }
+    return ok(undefined);
+}
+
+// ---------------------------------------------------------------------------
+// Keyword search
+// ---------------------------------------------------------------------------
+
+/** Number of matches {@link searchKeywords} returns by default. */
+const DEFAULT_SEARCH_LIMIT = 10;
+
+/** Prefix of retired keywords in the generated dictionary. */
+const RETIRED_PREFIX = 'RETIRED_';
+
+/** Normalizes a keyword or query for searching: lowercase, without the retired prefix, spaces, `_` and `-`. */
+function searchForm(text: string): string {
+    const bare = text.startsWith(RETIRED_PREFIX) ? text.slice(RETIRED_PREFIX.length) : text;
+    return bare.replace(/[\s_-]+/g, '').toLowerCase();
+}
+
+/**
+ * Ranks a keyword against a normalized query: exact matches first, then prefixes,
+ * then substrings, then close misspellings by edit distance.
+ *
+ * @returns The rank (lower is better), or undefined if the keyword does not match
+ */
+function rankKeyword(query: string, keyword: string): number | undefined {
+    const candidate = searchForm(keyword);
+    if (candidate === query) return 0;
+    if (candidate.startsWith(query)) return 1;
+    if (candidate.includes(query)) return 2;
+    const maxDistance = Math.max(MIN_SUGGESTION_DISTANCE, Math.floor(query.length / 3));
+    if (Math.abs(candidate.length - query.length) > maxDistance) return undefined;
+    const distance = editDistance(query, candidate);
+    return distance <= maxDistance ? 2 + distance : undefined;
+}
+
+/**
+ * Searches dictionary keywords by a partial or misspelled query.
+ *
+ * Matching ignores case, spaces, `_` and `-`, so `"patient name"` finds `PatientName`.
+ * Results are ordered by exact match, prefix, substring and edit distance, then by
+ * keyword length.
+ *
+ * @example
+ * ```ts
+ * searchKeywords('overlay rows'); // [{ keyword: 'OverlayRows', range: '(60xx,0010)', ... }]
+ * ```
+ *
+ * @param query - A keyword fragment, e.g. "WindowCent" or "window center"
+ * @param options - The match limit and whether to include retired keywords
+ * @returns The best matches, at most `options.limit` of them
+ */
+function searchKeywords(query: string, options?: KeywordSearchOptions): ReadonlyArray<KeywordMatch> {
+    const target = searchForm(query);
+    if (target.length === 0) return [];
+    const includeRetired = options?.includeRetired === true;
+    const ranked: Array<{ readonly rank: number; readonly match: KeywordMatch }> = [];
+    for (const [keyword, { tag, entry }] of getNameIndex()) {
+        if (entry.retired && !includeRetired) continue;
+        const rank = rankKeyword(target, keyword);
+        if (rank !== undefined) ranked.push({ rank, match: toKeywordMatch(keyword, tag, entry) });
+    }
+    ranked.sort((a, b) => a.rank - b.rank || a.match.keyword.length - b.match.keyword.length || a.match.keyword.localeCompare(b.match.keyword));
+    return ranked.slice(0, options?.limit ?? DEFAULT_SEARCH_LIMIT).map(found => found.match);
+}
+
+function toKeywordMatch(keyword: string, key: string, entry: DictionaryEntry): KeywordMatch {
+    const range = getRangeIndex().get(key);
+    const match = { keyword, tag: toDicomTag(key), entry };
+    return range === undefined ? match : { ...match, range: formatRange(range.pattern) };
+}
+
+// ---------------------------------------------------------------------------
+// Tag descriptions
+// ---------------------------------------------------------------------------
+
+/**
+ * Formats a VM as it appears in the standard.
+ *
+ * @param vm - Value multiplicity as [min, max], where max is null if unbounded
+ * @param step - The number of values an unbounded VM grows by
+ * @returns The VM, e.g. `1`, `1-3`, `1-n` or `2-2n`
+ */
+function formatMultiplicity(vm: readonly [number, number | null], step = 1): string {
+    const [min, max] = vm;
+    if (min === max) return String(min);
+    if (max !== null) return `${min}-${max}`;
+    return step > 1 ? `${min}-${step}n` : `${min}-n`;
+}
+
+/** Builds the description of a tag from the entry describing it. */
+function describeEntry(tag: DicomTag, entry: DictionaryEntry): TagDescription {
+    const vmStep = entry.vmStep ?? 1;
+    return { tag, keyword: entry.name, vr: entry.vr, vm: entry.vm, vmStep, multiplicity: formatMultiplicity(entry.vm, vmStep), retired: entry.retired };
+}
+
+/** Describes an element of an odd group through the private entries of the dictionary. */
+function describePrivate(tag: DicomTag, key: string, creator: string | undefined): TagDescription | undefined {
+    const group = parseInt(key.slice(0, 4), 16);
+    const element = parseInt(key.slice(4), 16);
+    const reserved = element === 0 ? PRIVATE_GROUP_LENGTH_KEY : element >= 0x10 && element <= 0xff ? PRIVATE_CREATOR_KEY : undefined;
+    const standard = reserved === undefined ? undefined : dictionary[reserved];
+    if (standard !== undefined) return describeEntry(tag, standard);
+    const entry = creator === undefined || element < 0x1000 ? undefined : lookupPrivateTag(creator, group, element & 0xff);
+    if (entry === undefined) return undefined;
+    const multiplicity = formatMultiplicity(entry.vm);
+    return { tag, keyword: entry.name, vr: entry.vr, vm: entry.vm, vmStep: 1, multiplicity, retired: false, privateCreator: entry.creator };
+}
+
+/**
+ * Describes a tag: keyword, VR, VM in both tuple and standard notation, retired status,
+ * and the repeating range or private creator it belongs to.
+ *
+ * Members of repeating ranges such as `(6002,3000)` are described by their range.
+ * In odd groups, group lengths and private creator elements are always described;
+ * other private elements are looked up in the registered private dictionaries when
+ * `creator` is given (see `registerPrivateDictionary`).
+ *
+ * @example
+ * ```ts
+ * describeTag('(6002,3000)');
+ * // { tag: '(6002,3000)', keyword: 'OverlayData', vr: 'OW', vm: [1, 1], vmStep: 1,
+ * //   multiplicity: '1', retired: false, range: '(60xx,3000)' }
+ * ```
+ *
+ * @param tag - A DicomTag or 8-char hex string
+ * @param creator - The private creator reserving the block of a private tag
+ * @returns The description, or undefined if nothing is known about the tag
+ */
+function describeTag(tag: DicomTag | string, creator?: string): TagDescription | undefined {
+    const key = toTagKey(tag);
+    if (!TAG_KEY_PATTERN.test(key)) return undefined;
+    const dicomTag = toDicomTag(key);
+    const exact = dictionary[key];
+    const range = exact === undefined ? findRange(key) : getRangeIndex().get(key);
+    const entry = exact ?? range?.entry;
+    if (entry === undefined) {
+        return parseInt(key.slice(0, 4), 16) % 2 === 1 ? describePrivate(dicomTag, key, creator) : undefined;
+    }
+    const description = describeEntry(dicomTag, entry);
+    return range === undefined ? description : { ...description, range: formatRange(range.pattern) };
 }
 
-export { lookupTag, lookupTagByName, lookupTagByKeyword };
-export type { DictionaryEntry };
+export { lookupTag, lookupTagByName, lookupTagByKeyword, suggestKeyword, resolveKeyword, checkPathKeywords, searchKeywords, describeTag, formatMultiplicity };
+export type { DictionaryEntry, TagDescription, KeywordSearchOptions, KeywordMatch };
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { DicomDataset } from './DicomDataset';
+import { diffModels } from './diff';
+import type { DicomJsonModel } from '../tools/_xmlToJson';
+
+function makeBefore(): DicomJsonModel {
+    return {
+        '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Smith^John' }] },
+        '00100020': { vr: 'LO', Value: ['PATIENT-001'] },
+        '00280010': { vr: 'US', Value: [512] },
+        '00081115': {
+            vr: 'SQ',
+            Value: [{ '0020000E': { vr: 'UI', Value: ['1.2.3.1'] } }, { '0020000E': { vr: 'UI', Value: ['1.2.3.2'] } }],
+        },
+    };
+}
+
+function makeAfter(): DicomJsonModel {
+    return {
+        '00080050': { vr: 'SH', Value: ['ACC1'] },
+        '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Doe^Jane' }] },
+        '00280010': { vr: 'US', Value: [512] },
+        '00081115': {
+            vr: 'SQ',
+            Value: [{ '0020000E': { vr: 'UI', Value: ['1.2.3.9'] } }],
+        },
+    };
+}
+
+function dataset(data: DicomJsonModel): DicomDataset {
+    const result = DicomDataset.fromJson(data);
+    if (!result.ok) throw result.error;
+    return result.value;
+}
+
+describe('diffModels', () => {
+    it('reports no differences for identical data', () => {
+        const diff = diffModels(makeBefore(), makeBefore());
+        expect(diff.isEmpty).toBe(true);
+        expect(diff.format()).toBe('No differences');
+    });
+
+    it('reports added, removed and changed elements', () => {
+        const diff = diffModels(makeBefore(), makeAfter());
+        expect(diff.added.map(e => e.path)).toEqual(['(0008,0050)']);
+        expect(diff.removed.map(e => e.path)).toEqual(['(0008,1115)[1]', '(0010,0020)']);
+        expect(diff.changed.map(e => e.path)).toEqual(['(0010,0010)', '(0008,1115)[0].(0020,000E)']);
+    });
+
+    it('orders entries by nesting level, then by tag', () => {
+        const diff = diffModels(makeBefore(), makeAfter());
+        expect(diff.entries.map(e => e.path)).toEqual(['(0008,0050)', '(0008,1115)[1]', '(0010,0010)', '(0010,0020)', '(0008,1115)[0].(0020,000E)']);
+    });
+
+    it('names paths with dictionary keywords', () => {
+        const diff = diffModels(makeBefore(), makeAfter());
+        expect(diff.changed[1]?.name).toBe('ReferencedSeriesSequence[0].SeriesInstanceUID');
+    });
+
+    it('keeps the hex tag in names of unknown elements', () => {
+        const diff = diffModels({}, { '00091001': { vr: 'LO', Value: ['x'] } });
+        expect(diff.entries[0]?.name).toBe('(0009,1001)');
+    });
+
+    it('reports added sequence items', () => {
+        const diff = diffModels(makeAfter(), makeBefore());
+        const item = diff.added.find(e => e.target === 'item');
+        expect(item?.path).toBe('(0008,1115)[1]');
+        expect(item?.after).toEqual({ '0020000E': { vr: 'UI', Value: ['1.2.3.2'] } });
+    });
+
+    it('reports VR changes as changed elements', () => {
+        const diff = diffModels({ '00280010': { vr: 'US', Value: [1] } }, { '00280010': { vr: 'SS', Value: [1] } });
+        expect(diff.changed).toHaveLength(1);
+    });
+
+    it('treats a sequence replaced by a plain element as changed', () => {
+        const diff = diffModels(makeBefore(), { ...makeBefore(), '00081115': { vr: 'UI', Value: ['1.2'] } });
+        expect(diff.changed.map(e => e.path)).toEqual(['(0008,1115)']);
+    });
+});
+
+describe('DatasetDiff.toChangeSet', () => {
+    it('produces a ChangeSet that turns the first dataset into the second', () => {
+        const before = dataset(makeBefore());
+        const after = dataset(makeAfter());
+        const changes = DicomDataset.diff(before, after).toChangeSet();
+        expect(changes.ok).toBe(true);
+        if (!changes.ok) return;
+        const applied = before.apply(changes.value);
+        expect(applied.ok).toBe(true);
+        if (applied.ok) expect(DicomDataset.diff(applied.value, after).isEmpty).toBe(true);
+    });
+
+    it('sets added sequences and items leaf by leaf', () => {
+        const before = dataset(makeAfter());
+        const after = dataset({ ...makeBefore(), '00101002': { vr: 'SQ', Value: [{ '00100020': { vr: 'LO', Value: ['OTHER'] } }] } });
+        const changes = DicomDataset.diff(before, after).toChangeSet();
+        expect(changes.ok).toBe(true);
+        if (!changes.ok) return;
+        expect(changes.value.modifications.get('(0008,1115)[1].(0020,000E)')).toBe('1.2.3.2');
+        expect(changes.value.modifications.get('(0010,1002)[0].(0010,0020)')).toBe('OTHER');
+        const applied = before.apply(changes.value);
+        if (applied.ok) expect(DicomDataset.diff(applied.value, after).isEmpty).toBe(true);
+    });
+
+    it('erases removed items from the highest index down', () => {
+        const three = { ...makeBefore(), '00081115': { vr: 'SQ', Value: [{}, {}, {}].map((_, i) => ({ '0020000E': { vr: 'UI', Value: [`1.${i}`] } })) } };
+        const changes = diffModels(three, makeBefore()).toChangeSet();
+        expect(changes.ok && [...changes.value.erasures]).toEqual(['(0008,1115)[2]']);
+        const none = diffModels(three, { ...makeBefore(), '00081115': { vr: 'SQ', Value: [] } }).toChangeSet();
+        expect(none.ok && [...none.value.erasures]).toEqual(['(0008,1115)[2]', '(0008,1115)[1]', '(0008,1115)[0]']);
+    });
+
+    it('converts PN and multi-valued elements to dcmodify strings', () => {
+        const changes = diffModels(
+            {},
+            {
+                '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Yamada^Tarou', Ideographic: '山田^太郎' }] },
+                '00280030': { vr: 'DS', Value: [0.5, 0.5] },
+            }
+        ).toChangeSet();
+        expect(changes.ok && changes.value.modifications.get('(0010,0010)')).toBe('Yamada^Tarou=山田^太郎');
+        expect(changes.ok && changes.value.modifications.get('(0028,0030)')).toBe('0.5\\0.5');
+    });
+
+    it('rejects binary value differences', () => {
+        const result = diffModels({}, { '7FE00010': { vr: 'OW', InlineBinary: 'AAAA' } }).toChangeSet();
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/binary values/);
+    });
+
+    it('rejects VR changes', () => {
+        const result = diffModels({ '00280010': { vr: 'US', Value: [1] } }, { '00280010': { vr: 'SS', Value: [1] } }).toChangeSet();
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/VR change from US to SS/);
+    });
+
+    it('rejects empty sequences and items', () => {
+        expect(diffModels({}, { '00081115': { vr: 'SQ', Value: [] } }).toChangeSet().ok).toBe(false);
+        expect(diffModels({}, { '00081115': { vr: 'SQ', Value: [{}] } }).toChangeSet().ok).toBe(false);
+    });
+});
+
+describe('DatasetDiff.format', () => {
+    it('renders one line per entry with keywords, paths and values', () => {
+        expect(diffModels(makeBefore(), makeAfter()).format().split('\n')).toEqual([
+            '+ AccessionNumber (0008,0050): "ACC1"',
+            '- ReferencedSeriesSequence[1] (0008,1115)[1]: <item>',
+            '~ PatientName (0010,0010): "Smith^John" → "Doe^Jane"',
+            '- PatientID (0010,0020): "PATIENT-001"',
+            '~ ReferencedSeriesSequence[0].SeriesInstanceUID (0008,1115)[0].(0020,000E): "1.2.3.1" → "1.2.3.9"',
+        ]);
+    });
+
+    it('renders sequences, binary values and VR changes', () => {
+        const text = diffModels(
+            { '00280010': { vr: 'US', Value: [1] }, '7FE00010': { vr: 'OW', BulkDataURI: 'file:///a' } },
+            { '00280010': { vr: 'SS', Value: [1] }, '00081115': { vr: 'SQ', Value: [{}] }, '7FE00010': { vr: 'OW', InlineBinary: 'AAAA' } }
+        ).format();
+        expect(text).toContain('+ ReferencedSeriesSequence (0008,1115): <sequence of 1 item(s)>');
+        expect(text).toContain('~ Rows (0028,0010): "1" → "1" (VR US → SS)');
+        expect(text).toContain('~ PixelData (7FE0,0010): <bulk data file:///a> → <OW binary, 4 base64 chars>');
+    });
+
+    it('renders unknown elements by tag only', () => {
+        expect(diffModels({ '00091001': { vr: 'LO', Value: ['x'] } }, {}).format()).toBe('- (0009,1001): "x"');
+    });
+});
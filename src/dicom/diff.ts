@@ -0,0 +1,330 @@
+/**
+ * Structural diff between two DICOM JSON Model datasets.
+ *
+ * Compares element by element, descending into sequence items pairwise with an
+ * iterative queue (Rule 8.2: no recursion). The resulting {@link DatasetDiff}
+ * converts to a ChangeSet that turns the first dataset into the second, and
+ * renders as text with dictionary keywords for review.
+ *
+ * @module dicom/diff
+ */
+
+import type { DicomTagPath } from '../brands';
+import type { Result } from '../types';
+import { ok, err } from '../types';
+import type { DicomJsonElement, DicomJsonModel } from '../tools/_xmlToJson';
+import { ChangeSet } from './ChangeSet';
+import { lookupTag } from './dictionary';
+import { toModifyValue, valueToString } from './transforms';
+import { VR } from './vr';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** How an element or sequence item differs between the two datasets. */
+type DiffKind = 'added' | 'removed' | 'changed';
+
+/** A difference in a single element. */
+interface ElementDiff {
+    readonly kind: DiffKind;
+    readonly target: 'element';
+    /** Canonical `(XXXX,XXXX)` path of the element, as stored by ChangeSet. */
+    readonly path: DicomTagPath;
+    /** The same path spelled with dictionary keywords where known. */
+    readonly name: string;
+    /** The element in the first dataset, or undefined if added. */
+    readonly before: DicomJsonElement | undefined;
+    /** The element in the second dataset, or undefined if removed. */
+    readonly after: DicomJsonElement | undefined;
+}
+
+/** A whole sequence item present in only one of the datasets. */
+interface ItemDiff {
+    readonly kind: 'added' | 'removed';
+    readonly target: 'item';
+    /** Canonical path of the item, ending in its `[n]` index. */
+    readonly path: DicomTagPath;
+    /** The same path spelled with dictionary keywords where known. */
+    readonly name: string;
+    /** The item in the first dataset, or undefined if added. */
+    readonly before: DicomJsonModel | undefined;
+    /** The item in the second dataset, or undefined if removed. */
+    readonly after: DicomJsonModel | undefined;
+}
+
+/** One entry of a {@link DatasetDiff}. */
+type DiffEntry = ElementDiff | ItemDiff;
+
+/** An element of an added subtree still to convert to setTag operations. */
+interface PendingElement {
+    readonly path: string;
+    readonly element: DicomJsonElement;
+}
+
+/** Accumulated results and pending item pairs of a diff in progress. */
+interface DiffState {
+    readonly entries: DiffEntry[];
+    readonly queue: DiffQueueEntry[];
+}
+
+/** A pair of item-level datasets still to compare, with the paths leading to them. */
+interface DiffQueueEntry {
+    readonly before: DicomJsonModel;
+    readonly after: DicomJsonModel;
+    readonly path: string;
+    readonly name: string;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Converts an 8-char hex key to `(GGGG,EEEE)`. */
+function keyToTag(key: string): string {
+    return `(${key.slice(0, 4)},${key.slice(4, 8)})`;
+}
+
+/** Joins a path prefix and a segment with a dot when the prefix is not empty. */
+function joinPath(prefix: string, segment: string): string {
+    return prefix.length === 0 ? segment : `${prefix}.${segment}`;
+}
+
+/** Returns the sequence items of an element, skipping anything that is not an item object. */
+function itemsOf(element: DicomJsonElement): ReadonlyArray<DicomJsonModel> {
+    const items: DicomJsonModel[] = [];
+    for (const value of element.Value ?? []) {
+        if (typeof value === 'object' && value !== null && !Array.isArray(value)) items.push(value as DicomJsonModel);
+    }
+    return items;
+}
+
+/** Returns true if two non-sequence elements carry the same VR and value. */
+function elementsEqual(a: DicomJsonElement, b: DicomJsonElement): boolean {
+    return JSON.stringify([a.vr, a.Value, a.InlineBinary, a.BulkDataURI]) === JSON.stringify([b.vr, b.Value, b.InlineBinary, b.BulkDataURI]);
+}
+
+// ---------------------------------------------------------------------------
+// Comparison (iterative, no recursion — Rule 8.2)
+// ---------------------------------------------------------------------------
+
+/** Compares the items of a sequence present in both datasets, queueing item pairs and recording unmatched items. */
+function compareSequences(before: DicomJsonElement, after: DicomJsonElement, at: DiffQueueEntry, state: DiffState): void {
+    const beforeItems = itemsOf(before);
+    const afterItems = itemsOf(after);
+    const count = Math.max(beforeItems.length, afterItems.length);
+    for (let i = 0; i < count; i++) {
+        const path = `${at.path}[${i}]`;
+        const name = `${at.name}[${i}]`;
+        const a = beforeItems[i];
+        const b = afterItems[i];
+        if (a !== undefined && b !== undefined) {
+            state.queue.push({ before: a, after: b, path, name });
+        } else {
+            state.entries.push({ kind: a === undefined ? 'added' : 'removed', target: 'item', path: path as DicomTagPath, name, before: a, after: b });
+        }
+    }
+}
+
+/** Compares one element key of a queued item pair. */
+function compareElement(key: string, pair: DiffQueueEntry, state: DiffState): void {
+    const tag = keyToTag(key);
+    const at = { ...pair, path: joinPath(pair.path, tag), name: joinPath(pair.name, lookupTag(key)?.name ?? tag) };
+    const before = pair.before[key];
+    const after = pair.after[key];
+    const path = at.path as DicomTagPath;
+
+    if (before === undefined || after === undefined) {
+        state.entries.push({ kind: before === undefined ? 'added' : 'removed', target: 'element', path, name: at.name, before, after });
+    } else if (before.vr === VR.SQ && after.vr === VR.SQ) {
+        compareSequences(before, after, at, state);
+    } else if (!elementsEqual(before, after)) {
+        state.entries.push({ kind: 'changed', target: 'element', path, name: at.name, before, after });
+    }
+}
+
+/**
+ * Computes the differences between two DICOM JSON Model datasets.
+ *
+ * Entries are ordered by nesting level, then by tag.
+ *
+ * @param before - The first dataset
+ * @param after - The second dataset
+ * @returns The differences that turn `before` into `after`
+ */
+function diffModels(before: DicomJsonModel, after: DicomJsonModel): DatasetDiff {
+    const state: DiffState = { entries: [], queue: [{ before, after, path: '', name: '' }] };
+    for (let i = 0; i < state.queue.length; i++) {
+        const pair = state.queue[i] as DiffQueueEntry;
+        const keys = [...new Set([...Object.keys(pair.before), ...Object.keys(pair.after)])].sort();
+        for (const key of keys) {
+            compareElement(key, pair, state);
+        }
+    }
+    return new DatasetDiff(state.entries);
+}
+
+// ---------------------------------------------------------------------------
+// ChangeSet conversion
+// ---------------------------------------------------------------------------
+
+/** Queues every element of an added item, rejecting items with no elements. */
+function queueItem(queue: PendingElement[], path: string, item: DicomJsonModel): Result<void> {
+    const keys = Object.keys(item).sort();
+    if (keys.length === 0) return err(new Error(`${path}: empty sequence items cannot be expressed as a ChangeSet`));
+    for (const key of keys) {
+        queue.push({ path: joinPath(path, keyToTag(key)), element: item[key] as DicomJsonElement });
+    }
+    return ok(undefined);
+}
+
+/** Queues the elements of every item of an added sequence, rejecting empty sequences. */
+function queueSequence(queue: PendingElement[], path: string, element: DicomJsonElement): Result<void> {
+    const items = itemsOf(element);
+    if (items.length === 0) return err(new Error(`${path}: empty sequences cannot be expressed as a ChangeSet`));
+    for (let i = 0; i < items.length; i++) {
+        const queued = queueItem(queue, `${path}[${i}]`, items[i] as DicomJsonModel);
+        if (!queued.ok) return queued;
+    }
+    return ok(undefined);
+}
+
+/** Adds a setTag for every leaf element reachable from the queue, expanding sequences item by item. */
+function setElements(changeSet: ChangeSet, queue: PendingElement[]): Result<ChangeSet> {
+    let result = changeSet;
+    for (let i = 0; i < queue.length; i++) {
+        const { path, element } = queue[i] as PendingElement;
+        if (element.vr === VR.SQ) {
+            const queued = queueSequence(queue, path, element);
+            if (!queued.ok) return err(queued.error);
+            continue;
+        }
+        const value = toModifyValue(element);
+        if (!value.ok) return err(new Error(`${path}: ${value.error.message}`));
+        result = result.setTag(path as DicomTagPath, value.value);
+    }
+    return ok(result);
+}
+
+/** Applies one diff entry to a ChangeSet under construction. */
+function addEntry(changeSet: ChangeSet, entry: DiffEntry): Result<ChangeSet> {
+    if (entry.kind === 'removed') return ok(changeSet.eraseTag(entry.path));
+    const queue: PendingElement[] = [];
+    if (entry.target === 'item') {
+        const queued = queueItem(queue, entry.path, entry.after ?? {});
+        if (!queued.ok) return err(queued.error);
+    } else if (entry.after !== undefined) {
+        if (entry.before !== undefined && entry.before.vr !== entry.after.vr) {
+            return err(new Error(`${entry.path}: VR change from ${entry.before.vr} to ${entry.after.vr} cannot be expressed as a ChangeSet`));
+        }
+        queue.push({ path: entry.path, element: entry.after });
+    }
+    return setElements(changeSet, queue);
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+/** Renders an element's value for display. */
+function describeElement(element: DicomJsonElement): string {
+    if (element.vr === VR.SQ) return `<sequence of ${itemsOf(element).length} item(s)>`;
+    if (element.BulkDataURI !== undefined) return `<bulk data ${element.BulkDataURI}>`;
+    if (element.InlineBinary !== undefined) return `<${element.vr} binary, ${element.InlineBinary.length} base64 chars>`;
+    return `"${(element.Value ?? []).map(valueToString).join('\\')}"`;
+}
+
+/** Renders one diff entry as a single line. */
+function formatEntry(entry: DiffEntry): string {
+    const label = entry.name === entry.path ? entry.path : `${entry.name} ${entry.path}`;
+    if (entry.target === 'item') return `${entry.kind === 'added' ? '+' : '-'} ${label}: <item>`;
+    if (entry.before === undefined) return `+ ${label}: ${entry.after === undefined ? '' : describeElement(entry.after)}`;
+    if (entry.after === undefined) return `- ${label}: ${describeElement(entry.before)}`;
+    const vr = entry.before.vr === entry.after.vr ? '' : ` (VR ${entry.before.vr} → ${entry.after.vr})`;
+    return `~ ${label}: ${describeElement(entry.before)} → ${describeElement(entry.after)}${vr}`;
+}
+
+// ---------------------------------------------------------------------------
+// DatasetDiff class
+// ---------------------------------------------------------------------------
+
+/**
+ * The differences between two datasets, as produced by `DicomDataset.diff`.
+ *
+ * @example
+ * ```ts
+ * const diff = DicomDataset.diff(sent, received);
+ * console.log(diff.format());
+ * const fix = diff.toChangeSet(); // turns `sent` into `received`
+ * ```
+ */
+class DatasetDiff {
+    /** Every difference, ordered by nesting level, then by tag. */
+    readonly entries: ReadonlyArray<DiffEntry>;
+
+    constructor(entries: ReadonlyArray<DiffEntry>) {
+        this.entries = entries;
+    }
+
+    /** Elements and items present only in the second dataset. */
+    get added(): ReadonlyArray<DiffEntry> {
+        return this.entries.filter(entry => entry.kind === 'added');
+    }
+
+    /** Elements and items present only in the first dataset. */
+    get removed(): ReadonlyArray<DiffEntry> {
+        return this.entries.filter(entry => entry.kind === 'removed');
+    }
+
+    /** Elements present in both datasets with different VRs or values. */
+    get changed(): ReadonlyArray<ElementDiff> {
+        return this.entries.filter((entry): entry is ElementDiff => entry.kind === 'changed');
+    }
+
+    /** Whether the two datasets are structurally identical. */
+    get isEmpty(): boolean {
+        return this.entries.length === 0;
+    }
+
+    /**
+     * Builds a ChangeSet that turns the first dataset into the second.
+     *
+     * Added and changed elements become `setTag` operations (added sequences and
+     * items are set leaf by leaf), removed elements and items become `eraseTag`
+     * operations. Removed items are erased from the highest index down so earlier
+     * erasures do not shift later ones.
+     *
+     * @returns A Result containing the ChangeSet, or an error if a difference has no
+     *   ChangeSet form (binary values, VR changes, empty sequences or items)
+     */
+    toChangeSet(): Result<ChangeSet> {
+        let changeSet = ChangeSet.empty();
+        const ordered = [...this.entries.filter(entry => entry.kind !== 'removed'), ...this.removed.slice().reverse()];
+        try {
+            for (const entry of ordered) {
+                const next = addEntry(changeSet, entry);
+                if (!next.ok) return next;
+                changeSet = next.value;
+            }
+        } catch (error: unknown) {
+            return err(error instanceof Error ? error : new Error(String(error)));
+        }
+        return ok(changeSet);
+    }
+
+    /**
+     * Renders the differences one per line for review.
+     *
+     * Lines start with `+` (added), `-` (removed) or `~` (changed), followed by
+     * the keyword path, the tag path and the values.
+     *
+     * @returns The rendered diff, or `No differences` when empty
+     */
+    format(): string {
+        if (this.isEmpty) return 'No differences';
+        return this.entries.map(formatEntry).join('\n');
+    }
+}
+
+export { DatasetDiff, diffModels };
+export type { DiffKind, DiffEntry, ElementDiff, ItemDiff };
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import { canonicalizeModel, fingerprintModel } from './fingerprint';
+import type { CanonicalOptions } from './fingerprint';
+import type { DicomDataset } from './DicomDataset';
+import { MAX_TRAVERSAL_DEPTH } from '../constants';
+import type { DicomJsonModel } from '../tools/_xmlToJson';
+import { makeDataset, makeSampleData } from '../../test/helpers';
+
+const NO_IGNORES: CanonicalOptions = { ignoreKeys: new Set(), ignoreGroupLengths: false, ignorePrivate: false, ignoreBulkData: false };
+
+/** Elements whose form the canonical serialization normalizes. */
+const CANONICAL: DicomJsonModel = {
+    '00080018': { vr: 'UI', Value: ['1.2.3.4'] },
+    '00080060': { vr: 'CS', Value: ['CT'] },
+    '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Smith^John' }] },
+    '00280030': { vr: 'DS', Value: [0.5, 0.5] },
+    '00081115': { vr: 'SQ', Value: [{ '0020000E': { vr: 'UI', Value: ['1.2.3.4.5'] } }] },
+    '7FE00010': { vr: 'OW', InlineBinary: 'AAECAw==' },
+};
+
+/** The content of {@link CANONICAL} with reordered keys, lower-case tags, padding and other value forms. */
+const EQUIVALENT: DicomJsonModel = {
+    '7fe00010': { vr: 'OW', InlineBinary: 'AAECAw==' },
+    '00081115': { vr: 'SQ', Value: [{ '0020000e': { vr: 'UI', Value: ['1.2.3.4.5\0'] } }] },
+    '00280030': { vr: 'DS', Value: ['0.5 ', '.5'] },
+    '00100010': { vr: 'PN', Value: ['Smith^John^^'] },
+    '00080060': { vr: 'CS', Value: ['CT '] },
+    '00080018': { vr: 'UI', Value: ['1.2.3.4\0'] },
+};
+
+/** The sample data with an InstanceCreationTime (0008,0013). */
+const createdAt = (time: string): DicomDataset => makeDataset({ ...makeSampleData(), '00080013': { vr: 'TM', Value: [time] } });
+
+describe('canonicalizeModel', () => {
+    it('serializes elements in key order with normalized values', () => {
+        const result = canonicalizeModel(
+            { '00100020': { vr: 'LO', Value: ['ID1 '] }, '00080060': { vr: 'CS' }, '00100010': { vr: 'PN', Value: [null] } },
+            NO_IGNORES
+        );
+        expect(result).toEqual({ ok: true, value: '[["00080060","CS",[]],["00100010","PN",[null]],["00100020","LO",["ID1"]]]' });
+    });
+
+    it('serializes sequence items as nested arrays', () => {
+        const result = canonicalizeModel({ '00081115': { vr: 'SQ', Value: [{ '0020000E': { vr: 'UI', Value: ['1.2'] } }, {}] } }, NO_IGNORES);
+        expect(result).toEqual({ ok: true, value: '[["00081115","SQ",[[["0020000E","UI",["1.2"]]],[]]]]' });
+    });
+
+    it('serializes a sequence without Value as one without items', () => {
+        expect(canonicalizeModel({ '00081115': { vr: 'SQ' } }, NO_IGNORES)).toEqual(canonicalizeModel({ '00081115': { vr: 'SQ', Value: [] } }, NO_IGNORES));
+    });
+
+    it('keeps person name groups and drops empty ones', () => {
+        const result = canonicalizeModel(
+            { '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Yamada^Tarou', Ideographic: '山田^太郎', Phonetic: '' }, 'A=B'] } },
+            NO_IGNORES
+        );
+        expect(result.ok && JSON.parse(result.value)).toEqual([
+            [
+                '00100010',
+                'PN',
+                [
+                    { Alphabetic: 'Yamada^Tarou', Ideographic: '山田^太郎' },
+                    { Alphabetic: 'A', Ideographic: 'B' },
+                ],
+            ],
+        ]);
+    });
+
+    it('keeps DS and IS strings that are not numbers', () => {
+        const result = canonicalizeModel({ '00280030': { vr: 'DS', Value: ['abc', ''] } }, NO_IGNORES);
+        expect(result).toEqual({ ok: true, value: '[["00280030","DS",["abc",""]]]' });
+    });
+
+    it('leaves out ignored keys, group lengths and private elements at every level', () => {
+        const data: DicomJsonModel = {
+            '00080000': { vr: 'UL', Value: [10] },
+            '00081115': { vr: 'SQ', Value: [{ '00080013': { vr: 'TM', Value: ['1'] }, '00091001': { vr: 'LO', Value: ['x'] } }] },
+            '00091010': { vr: 'SQ', Value: [{ '00100010': { vr: 'PN', Value: ['hidden'] } }] },
+        };
+        const result = canonicalizeModel(data, { ...NO_IGNORES, ignoreKeys: new Set(['00080013']), ignoreGroupLengths: true, ignorePrivate: true });
+        expect(result).toEqual({ ok: true, value: '[["00081115","SQ",[[]]]]' });
+    });
+
+    it('returns an error for sequences nested deeper than MAX_TRAVERSAL_DEPTH', () => {
+        let model: DicomJsonModel = { '0040A160': { vr: 'UT', Value: ['leaf'] } };
+        for (let i = 0; i < MAX_TRAVERSAL_DEPTH; i++) model = { '0040A730': { vr: 'SQ', Value: [model] } };
+        const result = canonicalizeModel(model, NO_IGNORES);
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/maximum depth of 50/);
+        expect(fingerprintModel(model, NO_IGNORES).ok).toBe(false);
+    });
+});
+
+describe('fingerprintModel', () => {
+    it('returns the SHA-256 hex digest of the canonical form', () => {
+        expect(fingerprintModel({}, NO_IGNORES)).toEqual({ ok: true, value: '4f53cda18c2baa0c0354bb5f9a3ecbe5ed12ab4d8e11ba873c2f11161202b945' });
+    });
+});
+
+describe('DicomDataset.fingerprint', () => {
+    it('is stable across element order, tag case and padding', () => {
+        const a = makeDataset(CANONICAL).fingerprint();
+        const b = makeDataset(EQUIVALENT).fingerprint();
+        expect(a.ok && a.value).toMatch(/^[0-9a-f]{64}$/);
+        expect(b).toEqual(a);
+    });
+
+    it('changes with the content', () => {
+        const changed = { ...makeSampleData(), '00080060': { vr: 'CS', Value: ['MR'] } };
+        expect(makeDataset(changed).fingerprint()).not.toEqual(makeDataset().fingerprint());
+    });
+
+    it('ignores volatile tags given by keyword, tag or hex key', () => {
+        const changed = createdAt('235959');
+        const original = createdAt('101500');
+        for (const tag of ['InstanceCreationTime', '(0008,0013)', '00080013']) {
+            expect(changed.fingerprint({ ignoreTags: [tag] })).toEqual(original.fingerprint({ ignoreTags: [tag] }));
+        }
+        expect(changed.fingerprint()).not.toEqual(original.fingerprint());
+    });
+
+    it('ignores group lengths and private elements on request', () => {
+        const extended = makeDataset({ ...makeSampleData(), '00080000': { vr: 'UL', Value: [99] }, '00291010': { vr: 'OB', InlineBinary: 'AA==' } });
+        const original = makeDataset();
+        const options = { ignoreGroupLengths: true, ignorePrivate: true };
+        expect(extended.fingerprint(options)).toEqual(original.fingerprint(options));
+        expect(extended.fingerprint({ ignoreGroupLengths: true })).not.toEqual(original.fingerprint({ ignoreGroupLengths: true }));
+    });
+
+    it('returns an error for a BulkDataURI, or leaves binary values out on request', () => {
+        const atPath = (file: string): DicomDataset =>
+            makeDataset({ ...makeSampleData(), '7FE00010': { vr: 'OW', BulkDataURI: `file://${file}?offset=0&length=4` } });
+        const result = atPath('/a/image.dcm').fingerprint();
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toBe('7FE00010: a BulkDataURI cannot be fingerprinted; read binary values inline or set ignoreBulkData');
+
+        const options = { ignoreBulkData: true };
+        expect(atPath('/a/image.dcm').fingerprint(options)).toEqual(atPath('/b/image.dcm').fingerprint(options));
+        expect(atPath('/a/image.dcm').fingerprint(options)).toEqual(makeDataset().fingerprint(options));
+        expect(makeDataset().fingerprint(options)).not.toEqual(makeDataset().fingerprint());
+    });
+
+    it('returns an error for an invalid ignored tag', () => {
+        const result = makeDataset().fingerprint({ ignoreTags: ['NotAKeyword'] });
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/Invalid tag format/);
+    });
+});
+
+describe('DicomDataset.equals', () => {
+    it('compares content regardless of order and padding', () => {
+        expect(makeDataset(CANONICAL).equals(makeDataset(EQUIVALENT))).toBe(true);
+    });
+
+    it('detects different values, VRs and sequence items', () => {
+        const original = makeDataset();
+        expect(original.equals(makeDataset({ ...makeSampleData(), '00080060': { vr: 'CS', Value: ['MR'] } }))).toBe(false);
+        expect(original.equals(makeDataset({ ...makeSampleData(), '00080060': { vr: 'LO', Value: ['CT'] } }))).toBe(false);
+        expect(original.equals(makeDataset({ ...makeSampleData(), '00081115': { vr: 'SQ', Value: [] } }))).toBe(false);
+    });
+
+    it('leaves out the elements the options ignore', () => {
+        const changed = createdAt('235959');
+        expect(changed.equals(createdAt('101500'))).toBe(false);
+        expect(changed.equals(createdAt('101500'), { ignoreTags: ['InstanceCreationTime'] })).toBe(true);
+    });
+
+    it('returns false for a BulkDataURI unless binary values are left out', () => {
+        const uri = makeDataset({ ...makeSampleData(), '7FE00010': { vr: 'OW', BulkDataURI: 'file:///a/image.dcm?offset=0&length=4' } });
+        expect(uri.equals(uri)).toBe(false);
+        expect(uri.equals(makeDataset(), { ignoreBulkData: true })).toBe(true);
+    });
+
+    it('returns false for an invalid ignored tag', () => {
+        expect(makeDataset().equals(makeDataset(), { ignoreTags: ['(zzzz,0000)'] })).toBe(false);
+    });
+});
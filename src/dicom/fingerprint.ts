@@ -0,0 +1,192 @@
+/**
+ * Canonical serialization and SHA-256 fingerprints of DICOM JSON Model datasets.
+ *
+ * Two datasets with the same content serialize identically, regardless of:
+ * - the order of their keys and the case of their hex tags
+ * - trailing padding of text values (spaces, and the NUL padding of UIDs)
+ * - trailing empty components and groups of person names (`Smith^John^^` is `Smith^John`)
+ * - whether DS and IS values are stored as numbers or as numeric strings
+ * - whether an element without a value has no `Value` or an empty one
+ *
+ * Binary values are compared by their InlineBinary bytes. A BulkDataURI names the file a
+ * value is stored in rather than its bytes, so the same instance at two paths would differ:
+ * datasets with BulkDataURI values cannot be fingerprinted unless `ignoreBulkData` leaves
+ * the values of all binary elements out.
+ *
+ * @module dicom/fingerprint
+ */
+
+import { createHash } from 'node:crypto';
+import type { DicomTag } from '../brands';
+import { MAX_TRAVERSAL_DEPTH } from '../constants';
+import type { Result } from '../types';
+import { ok, err } from '../types';
+import type { DicomJsonElement, DicomJsonModel } from '../tools/_xmlToJson';
+import { PN_GROUPS } from './_part10';
+import { VR } from './vr';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Options of `DicomDataset.fingerprint` and `DicomDataset.equals`: volatile elements to leave out at every nesting level. */
+interface FingerprintOptions {
+    /** Elements to leave out, as DicomTag `(0008,0013)`, hex string `00080013` or keyword `InstanceCreationTime`. */
+    readonly ignoreTags?: ReadonlyArray<DicomTag | string> | undefined;
+    /** Leave out group length elements (gggg,0000). Defaults to false. */
+    readonly ignoreGroupLengths?: boolean | undefined;
+    /** Leave out private elements (odd groups), with the items of private sequences. Defaults to false. */
+    readonly ignorePrivate?: boolean | undefined;
+    /**
+     * Leave out the values of binary elements, InlineBinary or BulkDataURI, keeping the elements
+     * themselves. Defaults to false: InlineBinary values are compared, and BulkDataURI values are an error.
+     */
+    readonly ignoreBulkData?: boolean | undefined;
+}
+
+/** {@link FingerprintOptions} with the ignored tags resolved to normalized keys. */
+interface CanonicalOptions {
+    /** Normalized 8-hex keys of the elements to leave out. */
+    readonly ignoreKeys: ReadonlySet<string>;
+    /** Leave out group length elements (gggg,0000). */
+    readonly ignoreGroupLengths: boolean;
+    /** Leave out private elements (odd groups), with the items of private sequences. */
+    readonly ignorePrivate: boolean;
+    /** Leave out the values of binary elements. */
+    readonly ignoreBulkData: boolean;
+}
+
+/** One element in canonical form: its key, VR and normalized values or binary reference. */
+type CanonicalElement = readonly [string, string, unknown];
+
+/** A dataset still to serialize, with the array its canonical elements go into. */
+interface PendingModel {
+    readonly model: DicomJsonModel;
+    readonly target: CanonicalElement[];
+    readonly depth: number;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Text padding: trailing spaces, and the NUL bytes UIDs are padded with. */
+const TRAILING_PADDING = /[ \0]+$/;
+
+/** Returns true if the options leave the element with this normalized key out. */
+function isIgnored(key: string, options: CanonicalOptions): boolean {
+    if (options.ignoreKeys.has(key)) return true;
+    if (options.ignoreGroupLengths && key.endsWith('0000')) return true;
+    return options.ignorePrivate && parseInt(key.slice(0, 4), 16) % 2 === 1;
+}
+
+/** Strips the padding and trailing empty components of one person name group. */
+function normalizeNameGroup(group: string): string {
+    return group.replace(TRAILING_PADDING, '').replace(/\^+$/, '');
+}
+
+/** Converts a PN value, an object of component groups or an `=`-separated string, to its groups. */
+function normalizePersonName(value: unknown): Readonly<Record<string, string>> {
+    const source = typeof value === 'string' ? value.split('=') : PN_GROUPS.map(name => (value as Record<string, unknown>)[name]);
+    const groups: Record<string, string> = {};
+    PN_GROUPS.forEach((name, index) => {
+        const group = source[index];
+        const normalized = typeof group === 'string' ? normalizeNameGroup(group) : '';
+        if (normalized.length > 0) groups[name] = normalized;
+    });
+    return groups;
+}
+
+/** Converts a DS or IS string to the number it holds, keeping strings that are not numbers. */
+function normalizeNumberString(value: string): number | string {
+    const trimmed = value.trim();
+    const parsed = Number(trimmed);
+    return trimmed.length > 0 && Number.isFinite(parsed) ? parsed : trimmed;
+}
+
+/** Normalizes one value of a non-sequence element for its VR. */
+function normalizeValue(vr: string, value: unknown): unknown {
+    if (value === null || value === undefined) return null;
+    if (vr === VR.PN && (typeof value === 'string' || typeof value === 'object')) return normalizePersonName(value);
+    if (typeof value !== 'string') return value;
+    if (vr === VR.DS || vr === VR.IS) return normalizeNumberString(value);
+    return value.replace(TRAILING_PADDING, '');
+}
+
+/** Builds the canonical element of a non-sequence element, or an error for a BulkDataURI that is not left out. */
+function canonicalElement(key: string, element: DicomJsonElement, options: CanonicalOptions): Result<CanonicalElement> {
+    const binary = element.InlineBinary !== undefined || element.BulkDataURI !== undefined;
+    if (binary && options.ignoreBulkData) return ok([key, element.vr, null]);
+    if (element.InlineBinary !== undefined) return ok([key, element.vr, { InlineBinary: element.InlineBinary }]);
+    if (element.BulkDataURI !== undefined) {
+        return err(new Error(`${key}: a BulkDataURI cannot be fingerprinted; read binary values inline or set ignoreBulkData`));
+    }
+    return ok([key, element.vr, (element.Value ?? []).map(value => normalizeValue(element.vr, value))]);
+}
+
+/** Builds the canonical element of a sequence, queueing each item to fill its canonical array. */
+function canonicalSequence(key: string, element: DicomJsonElement, depth: number, queue: PendingModel[]): CanonicalElement {
+    const items: CanonicalElement[][] = [];
+    for (const item of element.Value ?? []) {
+        const target: CanonicalElement[] = [];
+        items.push(target);
+        if (typeof item === 'object' && item !== null && !Array.isArray(item)) queue.push({ model: item as DicomJsonModel, target, depth: depth + 1 });
+    }
+    return [key, element.vr, items];
+}
+
+/** Fills the canonical array of one dataset in key order, queueing the items of its sequences. */
+function canonicalizeEntries(pending: PendingModel, options: CanonicalOptions, queue: PendingModel[]): Result<void> {
+    const elements = new Map<string, DicomJsonElement>();
+    for (const [key, element] of Object.entries(pending.model)) elements.set(key.toUpperCase(), element);
+    for (const key of [...elements.keys()].sort()) {
+        if (isIgnored(key, options)) continue;
+        const element = elements.get(key) as DicomJsonElement;
+        const canonical = element.vr === VR.SQ ? ok(canonicalSequence(key, element, pending.depth, queue)) : canonicalElement(key, element, options);
+        if (!canonical.ok) return canonical;
+        pending.target.push(canonical.value);
+    }
+    return ok(undefined);
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Serializes a dataset to its canonical JSON form (iterative, no recursion — Rule 8.2).
+ *
+ * Each dataset becomes an array of `[key, vr, values]` entries in ascending key order;
+ * sequence values are arrays of such item arrays.
+ *
+ * @param model - The DICOM JSON Model to serialize
+ * @param options - The elements to leave out
+ * @returns A Result containing the canonical JSON, or an error for a BulkDataURI not left out or sequences nested deeper than MAX_TRAVERSAL_DEPTH
+ */
+function canonicalizeModel(model: Readonly<DicomJsonModel>, options: CanonicalOptions): Result<string> {
+    const root: CanonicalElement[] = [];
+    const queue: PendingModel[] = [{ model, target: root, depth: 1 }];
+    while (queue.length > 0) {
+        const pending = queue.pop() as PendingModel;
+        if (pending.depth > MAX_TRAVERSAL_DEPTH) return err(new Error(`Sequence nesting exceeds maximum depth of ${MAX_TRAVERSAL_DEPTH}`));
+        const filled = canonicalizeEntries(pending, options, queue);
+        if (!filled.ok) return filled;
+    }
+    return ok(JSON.stringify(root));
+}
+
+/**
+ * Computes the SHA-256 fingerprint of a dataset over its canonical serialization.
+ *
+ * @param model - The DICOM JSON Model to fingerprint
+ * @param options - The elements to leave out
+ * @returns A Result containing the lower-case hex digest, or an error for a BulkDataURI not left out or sequences nested deeper than MAX_TRAVERSAL_DEPTH
+ */
+function fingerprintModel(model: Readonly<DicomJsonModel>, options: CanonicalOptions): Result<string> {
+    const canonical = canonicalizeModel(model, options);
+    if (!canonical.ok) return canonical;
+    return ok(createHash('sha256').update(canonical.value, 'utf8').digest('hex'));
+}
+
+export { canonicalizeModel, fingerprintModel };
+export type { FingerprintOptions, CanonicalOptions };
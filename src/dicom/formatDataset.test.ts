@@ -0,0 +1,128 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { formatDataset } from './formatDataset';
+import { clearPrivateDictionaries, registerPrivateDictionary } from './privateDictionary';
+import { MAX_TRAVERSAL_DEPTH } from '../constants';
+import type { DicomJsonModel } from '../tools/_xmlToJson';
+import { makeDataset, makeSampleData } from '../../test/helpers';
+
+/** Private elements of the Siemens CSA header, with a creator and an element it reserves. */
+const CSA: DicomJsonModel = {
+    '00290010': { vr: 'LO', Value: ['SIEMENS CSA HEADER'] },
+    '00291008': { vr: 'CS', Value: ['IMAGE NUM 4'] },
+};
+
+/** Removes the padding between the value and comment columns, for readable expectations. */
+function squeeze(text: string): string[] {
+    return text.split('\n').map(line => line.replace(/ {2,}#/, ' #'));
+}
+
+describe('formatDataset', () => {
+    afterEach(() => {
+        clearPrivateDictionaries();
+    });
+
+    it('lists elements in tag order with VR, value, VM and keyword', () => {
+        const data: DicomJsonModel = {
+            '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Yamada^Tarou', Ideographic: '山田^太郎' }] },
+            '00080060': { vr: 'CS', Value: ['CT'] },
+            '00280010': { vr: 'US', Value: [512] },
+            '00280030': { vr: 'DS', Value: ['0.5', '0.25'] },
+            '00280101': { vr: 'US' },
+            '00081115': {
+                vr: 'SQ',
+                Value: [{ '0020000E': { vr: 'UI', Value: ['1.2.3.1'] } }, { '0020000E': { vr: 'UI', Value: ['1.2.3.2'] } }],
+            },
+            ...CSA,
+            '00080000': { vr: 'UL', Value: [120] },
+            '7FE00010': { vr: 'OW', BulkDataURI: 'file:///data/image.dcm?path=(7FE0,0010)' },
+        };
+        expect(squeeze(formatDataset(data))).toEqual([
+            '(0008,0000) UL 120 #  1 GenericGroupLength',
+            '(0008,0060) CS [CT] #  1 Modality',
+            '(0008,1115) SQ (Sequence with 2 items) #  1 ReferencedSeriesSequence',
+            '  (fffe,e000) na (Item with 1 element) #  1 Item',
+            '    (0020,000e) UI [1.2.3.1] #  1 SeriesInstanceUID',
+            '  (fffe,e00d) na (ItemDelimitationItem) #  0 ItemDelimitationItem',
+            '  (fffe,e000) na (Item with 1 element) #  1 Item',
+            '    (0020,000e) UI [1.2.3.2] #  1 SeriesInstanceUID',
+            '  (fffe,e00d) na (ItemDelimitationItem) #  0 ItemDelimitationItem',
+            '(fffe,e0dd) na (SequenceDelimitationItem) #  0 SequenceDelimitationItem',
+            '(0010,0010) PN [Yamada^Tarou=山田^太郎] #  1 PatientName',
+            '(0028,0010) US 512 #  1 Rows',
+            '(0028,0030) DS [0.5\\0.25] #  2 PixelSpacing',
+            '(0028,0101) US (no value available) #  0 BitsStored',
+            '(0029,0010) LO [SIEMENS CSA HEADER] #  1 PrivateCreator',
+            '(0029,1008) CS [IMAGE NUM 4] #  1 Unknown Tag & Data',
+            '(7fe0,0010) OW (bulk data file:///data/image.dcm?path=(7FE0,0010)) #  1 PixelData',
+        ]);
+    });
+
+    it('pads the value column to the width of dcmdump', () => {
+        const line = formatDataset({ '00080060': { vr: 'CS', Value: ['CT'] } });
+        expect(line).toBe(`(0008,0060) CS ${'[CT]'.padEnd(40)} #  1 Modality`);
+    });
+
+    it('names private elements through the registered dictionaries', () => {
+        registerPrivateDictionary([{ creator: 'SIEMENS CSA HEADER', group: 0x0029, element: 0x08, vr: 'CS', name: 'CSAImageHeaderType', vm: [1, 1] }]);
+        expect(formatDataset(CSA)).toMatch(/\(0029,1008\) CS \[IMAGE NUM 4\] +# {2}1 CSAImageHeaderType/);
+    });
+
+    it('hides private and group length elements', () => {
+        const data: DicomJsonModel = { ...CSA, '00080000': { vr: 'UL', Value: [120] }, '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Smith^John' }] } };
+        const text = formatDataset(data, { hidePrivate: true, hideGroupLength: true });
+        expect(text).not.toMatch(/\(0029,|\(0008,0000\)/);
+        expect(text).toMatch(/\(0010,0010\)/);
+    });
+
+    it('hides the items of private sequences and counts only visible item elements', () => {
+        const data: DicomJsonModel = {
+            '00091010': { vr: 'SQ', Value: [{ '00100020': { vr: 'LO', Value: ['hidden'] } }] },
+            '00081115': { vr: 'SQ', Value: [{ '0020000E': { vr: 'UI', Value: ['1.2'] }, '00091001': { vr: 'LO', Value: ['x'] } }] },
+        };
+        const text = formatDataset(data, { hidePrivate: true });
+        expect(text).not.toMatch(/hidden|\(0009,/);
+        expect(text).toMatch(/\(Item with 1 element\)/);
+    });
+
+    it('truncates long values', () => {
+        const data: DicomJsonModel = { '00204000': { vr: 'LT', Value: ['x'.repeat(100)] } };
+        expect(formatDataset(data)).toContain(`[${'x'.repeat(64)}...]`);
+        expect(formatDataset(data, { maxValueLength: 5 })).toContain('[xxxxx...]');
+        expect(formatDataset(data, { maxValueLength: Infinity })).toContain(`[${'x'.repeat(100)}]`);
+    });
+
+    it('renders inline binary values as hex words of the VR word size', () => {
+        const base64 = Buffer.from([0x01, 0x00, 0x03, 0x02]).toString('base64');
+        expect(formatDataset({ '7FE00010': { vr: 'OW', InlineBinary: base64 } })).toMatch(/OW 0001\\0203 /);
+        expect(formatDataset({ '00291010': { vr: 'OB', InlineBinary: base64 } })).toMatch(/OB 01\\00\\03\\02 /);
+    });
+
+    it('truncates large binary values without decoding all of them', () => {
+        const base64 = Buffer.alloc(100000, 0xab).toString('base64');
+        const line = formatDataset({ '7FE00010': { vr: 'OW', InlineBinary: base64 } }, { maxValueLength: 12 });
+        expect(line).toMatch(/OW abab\\abab\\ab\.\.\. /);
+    });
+
+    it('colors the columns with ANSI escape codes', () => {
+        const line = formatDataset({ '00080060': { vr: 'CS', Value: ['CT'] } }, { color: true });
+        expect(line).toBe(`\x1b[36m(0008,0060)\x1b[0m \x1b[33mCS\x1b[0m \x1b[32m${'[CT]'.padEnd(40)}\x1b[0m \x1b[2m#  1 Modality\x1b[0m`);
+    });
+
+    it('ends with a note at sequences nested deeper than MAX_TRAVERSAL_DEPTH', () => {
+        let model: DicomJsonModel = { '0040A160': { vr: 'UT', Value: ['leaf'] } };
+        for (let i = 0; i < MAX_TRAVERSAL_DEPTH; i++) model = { '0040A730': { vr: 'SQ', Value: [model] } };
+        const lines = formatDataset(model).split('\n');
+        expect(lines.at(-1)).toMatch(/^ +# Sequence nesting exceeds maximum depth of 50$/);
+        expect(lines.some(line => line.includes('leaf'))).toBe(false);
+    });
+
+    it('returns an empty string for an empty dataset', () => {
+        expect(formatDataset({})).toBe('');
+    });
+});
+
+describe('DicomDataset.format', () => {
+    it('formats the dataset', () => {
+        expect(makeDataset().format({ hidePrivate: true })).toBe(formatDataset(makeSampleData(), { hidePrivate: true }));
+    });
+});
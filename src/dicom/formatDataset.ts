@@ -0,0 +1,257 @@
+/**
+ * Renders a DICOM JSON Model as an indented listing in the style of `dcmdump`.
+ *
+ * ```text
+ * (0008,0060) CS [CT]                                     #  1 Modality
+ * (0008,1115) SQ (Sequence with 1 item)                   #  1 ReferencedSeriesSequence
+ *   (fffe,e000) na (Item with 1 element)                    #  1 Item
+ *     (0020,000e) UI [1.2.3.4.5.6]                            #  1 SeriesInstanceUID
+ *   (fffe,e00d) na (ItemDelimitationItem)                   #  0 ItemDelimitationItem
+ * (fffe,e0dd) na (SequenceDelimitationItem)               #  0 SequenceDelimitationItem
+ * (0010,0010) PN [Smith^John]                             #  1 PatientName
+ * ```
+ *
+ * Each line holds the tag, VR, value (truncated), value multiplicity and dictionary
+ * keyword. Unlike dcmdump, which lists value lengths, the comment holds only the VM:
+ * the DICOM JSON Model carries no encoded lengths.
+ *
+ * @module dicom/formatDataset
+ */
+
+import { MAX_TRAVERSAL_DEPTH } from '../constants';
+import type { DicomJsonElement, DicomJsonModel } from '../tools/_xmlToJson';
+import { BINARY_WORD_SIZES } from './_part10';
+import { describeTag } from './dictionary';
+import { lookupPrivateElement } from './privateDictionary';
+import { valueToString } from './transforms';
+import { VR, isNumericVR } from './vr';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Options for {@link formatDataset}. */
+interface DatasetFormatOptions {
+    /** Values longer than this many characters are cut and end in `...`. Defaults to 64; `Infinity` prints whole values. */
+    readonly maxValueLength?: number | undefined;
+    /** Leave out private elements (odd groups), with the items of private sequences. Defaults to false. */
+    readonly hidePrivate?: boolean | undefined;
+    /** Leave out group length elements (gggg,0000). Defaults to false. */
+    readonly hideGroupLength?: boolean | undefined;
+    /** Color tags, VRs, values and comments with ANSI escape codes, like `dcmdump +C`. Defaults to false. */
+    readonly color?: boolean | undefined;
+}
+
+/** The options with their defaults applied. */
+interface ResolvedFormatOptions {
+    readonly maxValueLength: number;
+    readonly hidePrivate: boolean;
+    readonly hideGroupLength: boolean;
+    readonly color: boolean;
+}
+
+/** The columns of one output line. */
+interface LineParts {
+    readonly tag: string;
+    readonly vr: string;
+    readonly value: string;
+    readonly vm: number;
+    readonly name: string;
+}
+
+/** A pending unit of output: a finished line, or a dataset still to list at a nesting depth. */
+type WorkItem = { readonly line: string } | { readonly model: DicomJsonModel; readonly depth: number };
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Default of {@link DatasetFormatOptions.maxValueLength}, as in dcmdump. */
+const DEFAULT_MAX_VALUE_LENGTH = 64;
+
+/** Width the value column is padded to, as in dcmdump. */
+const VALUE_WIDTH = 40;
+
+/** Indentation per nesting level. */
+const INDENT = '  ';
+
+/** Keyword dcmdump prints for elements the dictionaries do not describe. */
+const UNKNOWN_NAME = 'Unknown Tag & Data';
+
+/** Keyword DCMTK gives group length elements (gggg,0000) missing from the dictionary. */
+const GROUP_LENGTH_NAME = 'GenericGroupLength';
+
+/** ANSI escape codes of the colored columns. */
+const COLORS = { tag: '\x1b[36m', vr: '\x1b[33m', value: '\x1b[32m', comment: '\x1b[2m', reset: '\x1b[0m' } as const;
+
+/** Item and delimitation lines, in dcmdump's lower-case tag notation. */
+const ITEM_TAG = '(fffe,e000)';
+const ITEM_DELIMITER: LineParts = { tag: '(fffe,e00d)', vr: 'na', value: '(ItemDelimitationItem)', vm: 0, name: 'ItemDelimitationItem' };
+const SEQUENCE_DELIMITER: LineParts = { tag: '(fffe,e0dd)', vr: 'na', value: '(SequenceDelimitationItem)', vm: 0, name: 'SequenceDelimitationItem' };
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Applies the defaults to the options. */
+function resolveOptions(options: DatasetFormatOptions | undefined): ResolvedFormatOptions {
+    return {
+        maxValueLength: options?.maxValueLength ?? DEFAULT_MAX_VALUE_LENGTH,
+        hidePrivate: options?.hidePrivate === true,
+        hideGroupLength: options?.hideGroupLength === true,
+        color: options?.color === true,
+    };
+}
+
+/** Returns true if the options leave the element with this 8-hex key out. */
+function isHidden(key: string, options: ResolvedFormatOptions): boolean {
+    if (options.hideGroupLength && key.endsWith('0000')) return true;
+    return options.hidePrivate && parseInt(key.slice(0, 4), 16) % 2 === 1;
+}
+
+/** Cuts a value to the maximum length, marking the cut with `...`. */
+function truncate(value: string, maxLength: number): string {
+    return value.length > maxLength ? `${value.slice(0, maxLength)}...` : value;
+}
+
+/** Pluralizes a count of things, e.g. `1 item`, `2 items`. */
+function countOf(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/** Returns the sequence items of an element, skipping anything that is not an item object. */
+function itemsOf(element: DicomJsonElement): ReadonlyArray<DicomJsonModel> {
+    const items: DicomJsonModel[] = [];
+    for (const value of element.Value ?? []) {
+        if (typeof value === 'object' && value !== null && !Array.isArray(value)) items.push(value as DicomJsonModel);
+    }
+    return items;
+}
+
+/**
+ * Renders the start of an InlineBinary value as backslash-separated hex words of the VR's
+ * word size, decoding only as much base64 as the maximum length can show.
+ */
+function formatBinary(vr: string, base64: string, maxLength: number): string {
+    const wordSize = BINARY_WORD_SIZES[vr] ?? 1;
+    const shownBytes = Math.ceil((maxLength + 1) / (wordSize * 2 + 1)) * wordSize;
+    const bytes = Buffer.from(base64.slice(0, Math.ceil(shownBytes / 3) * 4 + 4), 'base64');
+    const words: string[] = [];
+    for (let offset = 0; offset + wordSize <= bytes.length && offset < shownBytes; offset += wordSize) {
+        words.push(
+            Buffer.from(bytes.subarray(offset, offset + wordSize))
+                .reverse()
+                .toString('hex')
+        );
+    }
+    const text = words.join('\\');
+    const totalBytes = Math.floor((base64.replace(/=+$/, '').length * 3) / 4);
+    return totalBytes > shownBytes ? `${text.slice(0, maxLength)}...` : truncate(text, maxLength);
+}
+
+/** Renders the value column of a non-sequence element: `[text]`, numbers, hex words or a note. */
+function formatValue(element: DicomJsonElement, maxLength: number): string {
+    if (element.InlineBinary !== undefined) return formatBinary(element.vr, element.InlineBinary, maxLength);
+    if (element.BulkDataURI !== undefined) return `(bulk data ${element.BulkDataURI})`;
+    const values = element.Value ?? [];
+    if (values.length === 0) return '(no value available)';
+    const text = truncate(values.map(valueToString).join('\\'), maxLength);
+    return isNumericVR(element.vr) ? text : `[${text}]`;
+}
+
+/** Counts the values of an element, as dcmdump's VM column does. */
+function multiplicityOf(element: DicomJsonElement): number {
+    if (element.vr === VR.SQ) return 1;
+    if (element.InlineBinary !== undefined || element.BulkDataURI !== undefined) return 1;
+    return element.Value?.length ?? 0;
+}
+
+/** Looks up the keyword of an element, through the private dictionary of its block if private. */
+function nameOf(model: DicomJsonModel, key: string): string {
+    const name = lookupPrivateElement(model, key)?.name ?? describeTag(key)?.keyword;
+    if (name !== undefined) return name;
+    return key.endsWith('0000') ? GROUP_LENGTH_NAME : UNKNOWN_NAME;
+}
+
+/** Renders one line, padding the value column before any color codes are added. */
+function formatLine(parts: LineParts, level: number, color: boolean): string {
+    const value = parts.value.padEnd(VALUE_WIDTH);
+    const comment = `# ${String(parts.vm).padStart(2)} ${parts.name}`;
+    if (!color) return `${INDENT.repeat(level)}${parts.tag} ${parts.vr} ${value} ${comment}`;
+    const tag = `${COLORS.tag}${parts.tag}${COLORS.reset}`;
+    const vr = `${COLORS.vr}${parts.vr}${COLORS.reset}`;
+    return `${INDENT.repeat(level)}${tag} ${vr} ${COLORS.value}${value}${COLORS.reset} ${COLORS.comment}${comment}${COLORS.reset}`;
+}
+
+/** Lists the keys of a dataset the options do not hide, in ascending tag order. */
+function visibleKeys(model: DicomJsonModel, options: ResolvedFormatOptions): string[] {
+    return Object.keys(model)
+        .filter(key => !isHidden(key, options))
+        .sort();
+}
+
+/** Builds the work items of a sequence's items: each item line, its dataset and its delimiter. */
+function itemWork(element: DicomJsonElement, depth: number, options: ResolvedFormatOptions): WorkItem[] {
+    const work: WorkItem[] = [];
+    for (const item of itemsOf(element)) {
+        const value = `(Item with ${countOf(visibleKeys(item, options).length, 'element')})`;
+        work.push({ line: formatLine({ tag: ITEM_TAG, vr: 'na', value, vm: 1, name: 'Item' }, depth * 2 - 1, options.color) });
+        work.push({ model: item, depth: depth + 1 });
+        work.push({ line: formatLine(ITEM_DELIMITER, depth * 2 - 1, options.color) });
+    }
+    work.push({ line: formatLine(SEQUENCE_DELIMITER, depth * 2 - 2, options.color) });
+    return work;
+}
+
+/** Builds the work items of one element, in output order: its line, then the items of a sequence. */
+function elementWork(model: DicomJsonModel, key: string, depth: number, options: ResolvedFormatOptions): ReadonlyArray<WorkItem> {
+    const element = model[key] as DicomJsonElement;
+    const hex = key.toLowerCase();
+    const tag = `(${hex.slice(0, 4)},${hex.slice(4, 8)})`;
+    const isSequence = element.vr === VR.SQ;
+    const value = isSequence ? `(Sequence with ${countOf(itemsOf(element).length, 'item')})` : formatValue(element, options.maxValueLength);
+    const line = { line: formatLine({ tag, vr: element.vr, value, vm: multiplicityOf(element), name: nameOf(model, key) }, depth * 2 - 2, options.color) };
+    return isSequence ? [line, ...itemWork(element, depth, options)] : [line];
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Renders a DICOM JSON Model in the style of `dcmdump` (iterative, no recursion — Rule 8.2).
+ *
+ * Elements are listed in ascending tag order, each sequence item indented below its
+ * sequence. Text values are shown in brackets, numbers as is, and InlineBinary values
+ * as hex words of the VR's word size. Listing ends with a note at sequences nested
+ * deeper than MAX_TRAVERSAL_DEPTH.
+ *
+ * @param model - The DICOM JSON Model to render
+ * @param options - Value length, hidden elements and color
+ * @returns The listing, one element per line, without a trailing newline
+ */
+function formatDataset(model: Readonly<DicomJsonModel>, options?: DatasetFormatOptions): string {
+    const resolved = resolveOptions(options);
+    const lines: string[] = [];
+    const stack: WorkItem[] = [{ model, depth: 1 }];
+    while (stack.length > 0) {
+        const next = stack.pop() as WorkItem;
+        if ('line' in next) {
+            lines.push(next.line);
+            continue;
+        }
+        if (next.depth > MAX_TRAVERSAL_DEPTH) {
+            lines.push(`${INDENT.repeat(next.depth * 2 - 2)}# Sequence nesting exceeds maximum depth of ${MAX_TRAVERSAL_DEPTH}`);
+            break;
+        }
+        const keys = visibleKeys(next.model, resolved);
+        for (let i = keys.length - 1; i >= 0; i--) {
+            const work = elementWork(next.model, keys[i] as string, next.depth, resolved);
+            for (let j = work.length - 1; j >= 0; j--) stack.push(work[j] as WorkItem);
+        }
+    }
+    return lines.join('\n');
+}
+
+export { formatDataset };
+export type { DatasetFormatOptions };
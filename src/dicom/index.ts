@@ -13,8 +13,43 @@ export type { VRValue, VRCategoryName, VRMetadata } from './vr';
 // Dictionary
 // ---------------------------------------------------------------------------
 
-export { lookupTag, lookupTagByName, lookupTagByKeyword } from './dictionary';
-export type { DictionaryEntry } from './dictionary';
+export {
+    lookupTag,
+    lookupTagByName,
+    lookupTagByKeyword,
+    suggestKeyword,
+    resolveKeyword,
+    checkPathKeywords,
+    searchKeywords,
+    describeTag,
+    formatMultiplicity,
+} from './dictionary';
+export type { DictionaryEntry, TagDescription, KeywordSearchOptions, KeywordMatch } from './dictionary';
+export {
+    registerPrivateDictionary,
+    loadPrivateDictionary,
+    parsePrivateDictionary,
+    lookupPrivateTag,
+    clearPrivateDictionaries,
+    formatDcmtkDictionary,
+} from './privateDictionary';
+export type { PrivateDictionaryEntry, PrivateTagRef, PrivateDictionaryFormat } from './privateDictionary';
+
+// ---------------------------------------------------------------------------
+// Typed value parsers
+// ---------------------------------------------------------------------------
+
+export { parseDate, parseTime, parseDateTime, parseUtcOffset, parseAge, parsePersonName, parseNumbers } from './values';
+export type { DicomDate, DicomTime, DicomDateTime, DicomAge, AgeUnit, PersonName, PersonNameComponents } from './values';
+export { validateValue, validateTagValue } from './validateValue';
+
+// ---------------------------------------------------------------------------
+// Typed tag catalog
+// ---------------------------------------------------------------------------
+
+export { Tags } from '../data/tags';
+export type { TagKeyword } from '../data/tags';
+export type { TagDefinition, TagMultiplicity, TagValue } from './tagTypes';
 
 // ---------------------------------------------------------------------------
 // Tag path utilities
@@ -28,10 +63,46 @@ export type { TagSegment } from './tagPath';
 // ---------------------------------------------------------------------------
 
 export { DicomDataset } from './DicomDataset';
+export type { DatasetEntry, DatasetEntryParent, DatasetVisitor, WalkControl, DicomDatasetJsonOptions } from './DicomDataset';
 export { ChangeSet } from './ChangeSet';
-export { DicomFile } from './DicomFile';
-export type { DicomFileOptions } from './DicomFile';
+export type { SequenceItem } from './ChangeSet';
+export type { ValueTransform, ShiftDateTransform, CopyTransform, ReplaceTransform, TemplateTransform } from './transforms';
+export { DatasetDiff } from './diff';
+export type { DiffKind, DiffEntry, ElementDiff, ItemDiff } from './diff';
+export { DicomFile, OpenMode, ReadBackend, WriteBackend } from './DicomFile';
+export type {
+    OpenModeValue,
+    ReadBackendValue,
+    WriteBackendValue,
+    DicomFileOptions,
+    DicomFileOpenOptions,
+    DicomFileWriteOptions,
+    DicomFileCreateOptions,
+} from './DicomFile';
+export { readPart10, readPart10File } from './part10Reader';
+export type { Part10ReadOptions, Part10FileReadOptions, Part10ReadResult } from './part10Reader';
+export { writePart10, writePart10File } from './part10Writer';
+export type { Part10WriteOptions } from './part10Writer';
 export { xmlToJson } from './xmlToJson';
+export { jsonToXml } from './nativeXml';
+export { jsonToDcmtkXml } from './dcmtkXml';
+export { formatDataset } from './formatDataset';
+export type { DatasetFormatOptions } from './formatDataset';
+export type { FingerprintOptions } from './fingerprint';
+export { JsonValidationMode, validateDicomJson } from './validateJson';
+export type { JsonValidationModeValue, JsonFinding, JsonValidationReport } from './validateJson';
+export { deidentify } from './deidentify';
+export type { DeidentificationProfile, DeidentificationOverride } from './deidentify';
+export { DeidentificationAction, DeidentificationOption } from './deidentifyTypes';
+export type {
+    DeidentificationActionValue,
+    DeidentificationOptionValue,
+    ProfileActionCode,
+    ProfileAttribute,
+    ProfileRange,
+    DeidentificationCode,
+} from './deidentifyTypes';
+export { BASIC_PROFILE_ATTRIBUTES, REPEATING_PROFILE_ATTRIBUTES, SAFE_PRIVATE_ATTRIBUTES } from '../data/deidentification';
 
 // ---------------------------------------------------------------------------
 // SOP Classes
@@ -39,3 +110,12 @@ export { xmlToJson } from './xmlToJson';
 
 export { SOP_CLASSES, sopClassNameFromUID } from '../data/sopClasses';
 export type { SOPClassName } from '../data/sopClasses';
+
+// ---------------------------------------------------------------------------
+// IOD conformance validation
+// ---------------------------------------------------------------------------
+
+export { validateIod } from './validateIod';
+export type { FindingSeverity, IodFinding, IodValidationReport } from './validateIod';
+export { IOD_DEFINITIONS, findIod } from '../data/iods';
+export type { AttributeType, ModuleUsage, AttributeCondition, ModuleAttribute, ModuleDefinition, IodModule, IodDefinition } from './iodTypes';
@@ -0,0 +1,79 @@
+/**
+ * Types describing IODs (Information Object Definitions) as lists of modules.
+ *
+ * The definitions themselves live in `src/data/iods.ts`; `validateIod` checks a
+ * dataset against them.
+ *
+ * @see DICOM PS3.3 — Information Object Definitions
+ * @module dicom/iodTypes
+ */
+
+/**
+ * Attribute type as defined in PS3.5 §7.4:
+ * - `1` must be present with a value
+ * - `1C` must be present with a value when its condition holds
+ * - `2` must be present, possibly empty
+ * - `2C` must be present, possibly empty, when its condition holds
+ * - `3` is optional
+ */
+type AttributeType = '1' | '1C' | '2' | '2C' | '3';
+
+/** Module usage in an IOD: Mandatory, Conditional or User option. */
+type ModuleUsage = 'M' | 'C' | 'U';
+
+/**
+ * A condition evaluated against the dataset or sequence item holding the attribute.
+ *
+ * Conditions the standard states in prose that cannot be checked from the dataset
+ * are left out of the definitions; such 1C and 2C attributes are only checked when present.
+ */
+type AttributeCondition =
+    | { readonly kind: 'present'; readonly keyword: string }
+    | { readonly kind: 'absent'; readonly keyword: string }
+    | { readonly kind: 'equals'; readonly keyword: string; readonly values: readonly string[] }
+    | { readonly kind: 'notEquals'; readonly keyword: string; readonly values: readonly string[] };
+
+/** An attribute of a module or of a sequence item. */
+interface ModuleAttribute {
+    /** Dictionary keyword, e.g. `PatientName`. */
+    readonly keyword: string;
+    /** Attribute type. */
+    readonly type: AttributeType;
+    /** Enumerated values; every value of the attribute must be one of them. */
+    readonly enumerated?: readonly string[];
+    /** Condition of a 1C or 2C attribute. */
+    readonly condition?: AttributeCondition;
+    /** Attributes of each item, for sequences. */
+    readonly items?: readonly ModuleAttribute[];
+}
+
+/** A module such as Patient or General Image. */
+interface ModuleDefinition {
+    /** Module name as in PS3.3, e.g. `General Series`. */
+    readonly name: string;
+    /** Top-level attributes of the module. */
+    readonly attributes: readonly ModuleAttribute[];
+}
+
+/** A module as used by an IOD. */
+interface IodModule {
+    readonly module: ModuleDefinition;
+    readonly usage: ModuleUsage;
+    /**
+     * Condition of a conditional module. Conditional modules without one, and
+     * user option modules, are checked only when one of their attributes is present.
+     */
+    readonly condition?: AttributeCondition;
+}
+
+/** An IOD and the SOP classes that use it. */
+interface IodDefinition {
+    /** IOD name as in PS3.3, e.g. `CT Image`. */
+    readonly name: string;
+    /** SOP Class UIDs whose instances follow this IOD. */
+    readonly sopClassUIDs: readonly string[];
+    /** Modules of the IOD. */
+    readonly modules: readonly IodModule[];
+}
+
+export type { AttributeType, ModuleUsage, AttributeCondition, ModuleAttribute, ModuleDefinition, IodModule, IodDefinition };
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { jsonToXml } from './nativeXml';
+import { MAX_TRAVERSAL_DEPTH } from '../constants';
+import { xmlToJson } from '../tools/_xmlToJson';
+import type { DicomJsonModel } from '../tools/_xmlToJson';
+import { makeDataset, makeSampleData } from '../../test/helpers';
+
+function toXml(data: DicomJsonModel): string {
+    const result = jsonToXml(data);
+    if (!result.ok) throw result.error;
+    return result.value;
+}
+
+describe('jsonToXml', () => {
+    it('writes a Native DICOM Model document', () => {
+        const xml = toXml({ '00100020': { vr: 'LO', Value: ['ID1'] } });
+        expect(xml).toBe(
+            [
+                '<?xml version="1.0" encoding="UTF-8"?>',
+                '<NativeDicomModel xml:space="preserve">',
+                '  <DicomAttribute tag="00100020" vr="LO" keyword="PatientID">',
+                '    <Value number="1">ID1</Value>',
+                '  </DicomAttribute>',
+                '</NativeDicomModel>',
+                '',
+            ].join('\n')
+        );
+    });
+
+    it('writes elements in ascending tag order', () => {
+        const data = {
+            '00280010': { vr: 'US', Value: [512] },
+            '00100020': { vr: 'LO', Value: ['ID1'] },
+            '00081115': { vr: 'SQ', Value: [{ '0020000E': { vr: 'UI', Value: ['1.2.3.1'] }, '00081150': { vr: 'UI', Value: ['1.2.3'] } }] },
+            '00091001': { vr: 'LO', Value: ['private'] },
+        };
+        const tags = [...toXml(data).matchAll(/<DicomAttribute tag="(\w+)"/g)].map(m => m[1]);
+        expect(tags).toEqual(['00081115', '00081150', '0020000E', '00091001', '00100020', '00280010']);
+    });
+
+    it('splits person names into components', () => {
+        const xml = toXml({ '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Smith^^Q' }] } });
+        expect(xml).toContain('<PersonName number="1"><Alphabetic><FamilyName>Smith</FamilyName><MiddleName>Q</MiddleName></Alphabetic></PersonName>');
+    });
+
+    it('escapes XML special characters', () => {
+        const xml = toXml({
+            '00100020': { vr: 'LO', Value: ['ID <1> & "2"'] },
+            '7FE00010': { vr: 'OW', BulkDataURI: 'file:///data/pixel.raw?a=1&b=2' },
+        });
+        expect(xml).toContain('<Value number="1">ID &lt;1&gt; &amp; &quot;2&quot;</Value>');
+        expect(xml).toContain('<BulkData uri="file:///data/pixel.raw?a=1&amp;b=2"/>');
+    });
+
+    it('names the creator of private elements', () => {
+        const xml = toXml({ '00090010': { vr: 'LO', Value: ['ACME 1.0'] }, '00091001': { vr: 'LO', Value: ['private'] } });
+        expect(xml).toContain('<DicomAttribute tag="00091001" vr="LO" privateCreator="ACME 1.0">');
+        expect(xml).toContain('<DicomAttribute tag="00090010" vr="LO">');
+    });
+
+    it('omits empty values but keeps the numbering', () => {
+        const xml = toXml({ '00080008': { vr: 'CS', Value: ['ORIGINAL', null, 'AXIAL'] } });
+        expect(xml).toContain('<Value number="1">ORIGINAL</Value>\n    <Value number="3">AXIAL</Value>');
+    });
+
+    it('round-trips through xmlToJson', () => {
+        const data = {
+            ...makeSampleData(),
+            '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Yamada^Tarou', Ideographic: '山田^太郎', Phonetic: 'やまだ^たろう' }] },
+            '00091002': { vr: 'OB', BulkDataURI: 'file:///data/private.raw' },
+        };
+        expect(xmlToJson(toXml(data))).toEqual({
+            ok: true,
+            value: { ...data, '00280010': { vr: 'US', Value: ['512'] }, '00280011': { vr: 'US', Value: ['512'] } },
+        });
+    });
+
+    it('round-trips empty elements, sequences and items', () => {
+        const data = { '00100020': { vr: 'LO' }, '00081115': { vr: 'SQ', Value: [{}] }, '00081140': { vr: 'SQ' } };
+        expect(xmlToJson(toXml(data))).toEqual({ ok: true, value: data });
+    });
+
+    it('rejects sequences nested deeper than MAX_TRAVERSAL_DEPTH', () => {
+        let data: DicomJsonModel = { '00100020': { vr: 'LO', Value: ['leaf'] } };
+        for (let i = 0; i < MAX_TRAVERSAL_DEPTH; i++) data = { '00081115': { vr: 'SQ', Value: [data] } };
+        const result = jsonToXml(data);
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/maximum depth/);
+    });
+});
+
+describe('DicomDataset.toNativeXml', () => {
+    it('serializes the dataset', () => {
+        expect(makeDataset().toNativeXml()).toEqual(jsonToXml(makeSampleData()));
+    });
+});
@@ -0,0 +1,187 @@
+/**
+ * Serializes the DICOM JSON Model (PS3.18 F.2) to Native DICOM Model XML (PS3.19).
+ *
+ * The inverse of {@link xmlToJson}:
+ * ```json
+ * { "00100010": { "vr": "PN", "Value": [{"Alphabetic": "Smith^John"}] } }
+ * ```
+ * becomes
+ * ```xml
+ * <NativeDicomModel xml:space="preserve">
+ *   <DicomAttribute tag="00100010" vr="PN" keyword="PatientName">
+ *     <PersonName number="1">
+ *       <Alphabetic><FamilyName>Smith</FamilyName><GivenName>John</GivenName></Alphabetic>
+ *     </PersonName>
+ *   </DicomAttribute>
+ * </NativeDicomModel>
+ * ```
+ *
+ * Elements are written in ascending tag order. Empty (null) values are omitted
+ * while the `number` of the remaining values is kept, as PS3.19 prescribes.
+ *
+ * @module dicom/nativeXml
+ */
+
+import { MAX_TRAVERSAL_DEPTH } from '../constants';
+import type { Result } from '../types';
+import { ok, err } from '../types';
+import type { DicomJsonElement, DicomJsonModel } from '../tools/_xmlToJson';
+import { lookupTag } from './dictionary';
+import { VR } from './vr';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A pending unit of output: a finished line, or a dataset still to write at a nesting depth. */
+type WorkItem = { readonly line: string } | { readonly model: DicomJsonModel; readonly depth: number };
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** XML declaration written before the root element. */
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+
+/** PN component groups in the order of the DICOM JSON Model. */
+const PN_GROUPS = ['Alphabetic', 'Ideographic', 'Phonetic'] as const;
+
+/** Element names of the five `^`-separated PN components. */
+const PN_COMPONENTS = ['FamilyName', 'GivenName', 'MiddleName', 'NamePrefix', 'NameSuffix'] as const;
+
+/** Characters that must be escaped in XML text and attribute values. */
+const XML_ESCAPES: Readonly<Record<string, string>> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' };
+
+/** Indentation per nesting level. */
+const INDENT = '  ';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Escapes text for use in XML content or a double-quoted attribute. */
+function escapeXml(text: string): string {
+    return text.replace(/[&<>"']/g, char => XML_ESCAPES[char] ?? char);
+}
+
+/** Formats a JSON value as XML text: strings as-is, numbers and booleans via String. */
+function valueText(value: unknown): string {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'bigint') return String(value);
+    return '';
+}
+
+/**
+ * Returns the private creator of a private element (odd group, element `xxyy` with `xx` ≥ 0x10),
+ * read from the `(gggg,00xx)` reservation in the same dataset.
+ */
+function privateCreatorOf(model: DicomJsonModel, key: string): string | undefined {
+    const group = parseInt(key.slice(0, 4), 16);
+    const block = key.slice(4, 6);
+    if (group % 2 === 0 || parseInt(block, 16) < 0x10) return undefined;
+    const creator = model[`${key.slice(0, 4)}00${block}`]?.Value?.[0];
+    return typeof creator === 'string' ? creator : undefined;
+}
+
+/** Builds the opening `DicomAttribute` tag, with the keyword of standard elements and the creator of private ones. */
+function openAttribute(model: DicomJsonModel, key: string, vr: string): string {
+    let attributes = `tag="${escapeXml(key)}" vr="${escapeXml(vr)}"`;
+    const keyword = lookupTag(key)?.name;
+    if (keyword !== undefined) attributes += ` keyword="${keyword}"`;
+    const creator = privateCreatorOf(model, key);
+    if (creator !== undefined) attributes += ` privateCreator="${escapeXml(creator)}"`;
+    return `<DicomAttribute ${attributes}>`;
+}
+
+/** Builds the component elements of one PN component group, e.g. `Smith^John`. */
+function personNameGroup(group: string): string {
+    const parts = group.split('^');
+    let components = '';
+    PN_COMPONENTS.forEach((name, index) => {
+        const part = parts[index];
+        if (part !== undefined && part.length > 0) components += `<${name}>${escapeXml(part)}</${name}>`;
+    });
+    return components;
+}
+
+/** Builds a `PersonName` element from a DICOM JSON PN value. */
+function personNameLine(value: unknown, number: number): string {
+    const groups = typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
+    let content = '';
+    for (const name of PN_GROUPS) {
+        const group = groups[name];
+        if (typeof group === 'string') content += `<${name}>${personNameGroup(group)}</${name}>`;
+    }
+    return `<PersonName number="${number}">${content}</PersonName>`;
+}
+
+/** Builds the lines holding the values of a non-sequence element. */
+function valueLines(element: DicomJsonElement): ReadonlyArray<string> {
+    if (element.InlineBinary !== undefined) return [`<InlineBinary>${escapeXml(element.InlineBinary)}</InlineBinary>`];
+    if (element.BulkDataURI !== undefined) return [`<BulkData uri="${escapeXml(element.BulkDataURI)}"/>`];
+    const lines: string[] = [];
+    (element.Value ?? []).forEach((value, index) => {
+        if (value === null || value === undefined) return;
+        if (element.vr === VR.PN) lines.push(personNameLine(value, index + 1));
+        else lines.push(`<Value number="${index + 1}">${escapeXml(valueText(value))}</Value>`);
+    });
+    return lines;
+}
+
+/** Indents a line for a nesting level. */
+function indented(line: string, level: number): { readonly line: string } {
+    return { line: INDENT.repeat(level) + line };
+}
+
+/**
+ * Builds the work items of one element, in output order: the opening tag, then either
+ * its value lines or its items (each a nested dataset between `Item` tags), then the closing tag.
+ */
+function elementWork(model: DicomJsonModel, key: string, depth: number): ReadonlyArray<WorkItem> {
+    const element = model[key] as DicomJsonElement;
+    const level = depth * 2 - 1;
+    const work: WorkItem[] = [indented(openAttribute(model, key, element.vr), level)];
+    if (element.vr === VR.SQ) {
+        (element.Value ?? []).forEach((item, index) => {
+            work.push(indented(`<Item number="${index + 1}">`, level + 1));
+            if (typeof item === 'object' && item !== null) work.push({ model: item as DicomJsonModel, depth: depth + 1 });
+            work.push(indented('</Item>', level + 1));
+        });
+    } else {
+        for (const line of valueLines(element)) work.push(indented(line, level + 1));
+    }
+    work.push(indented('</DicomAttribute>', level));
+    return work;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Converts a DICOM JSON Model to Native DICOM Model XML (iterative, no recursion — Rule 8.2).
+ *
+ * @param model - The DICOM JSON Model to serialize
+ * @returns A Result containing the XML document, or an error if sequences nest deeper than MAX_TRAVERSAL_DEPTH
+ */
+function jsonToXml(model: Readonly<DicomJsonModel>): Result<string> {
+    const lines = [XML_DECLARATION, '<NativeDicomModel xml:space="preserve">'];
+    const stack: WorkItem[] = [{ model, depth: 1 }];
+    while (stack.length > 0) {
+        const next = stack.pop() as WorkItem;
+        if ('line' in next) {
+            lines.push(next.line);
+            continue;
+        }
+        if (next.depth > MAX_TRAVERSAL_DEPTH) return err(new Error(`Sequence nesting exceeds maximum depth of ${MAX_TRAVERSAL_DEPTH}`));
+        const keys = Object.keys(next.model).sort();
+        for (let i = keys.length - 1; i >= 0; i--) {
+            const work = elementWork(next.model, keys[i] as string, next.depth);
+            for (let j = work.length - 1; j >= 0; j--) stack.push(work[j] as WorkItem);
+        }
+    }
+    lines.push('</NativeDicomModel>');
+    return ok(`${lines.join('\n')}\n`);
+}
+
+export { jsonToXml, escapeXml, valueText };
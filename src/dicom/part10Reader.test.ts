@@ -0,0 +1,416 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { deflateRawSync } from 'node:zlib';
+import { readPart10, readPart10File } from './part10Reader';
+import type { Part10ReadOptions, Part10ReadResult } from './part10Reader';
+import { parseBulkDataUri } from '../tools/_bulkData';
+
+// ---------------------------------------------------------------------------
+// Encoding helpers
+// ---------------------------------------------------------------------------
+
+interface Encoding {
+    readonly implicit?: boolean;
+    readonly bigEndian?: boolean;
+    /** Value length to write instead of the actual one, e.g. undefined length. */
+    readonly length?: number;
+}
+
+const LONG_VRS = new Set(['OB', 'OD', 'OF', 'OL', 'OV', 'OW', 'SQ', 'SV', 'UC', 'UN', 'UR', 'UT', 'UV']);
+const UNDEFINED = 0xffffffff;
+
+/** Encodes a text value, padded to even length with `pad`. */
+const text = (value: string, pad = ' '): Buffer => Buffer.from(value.length % 2 === 0 ? value : value + pad, 'latin1');
+
+/** Encodes 16-bit unsigned values. */
+function uint16(values: readonly number[], bigEndian = false): Buffer {
+    const buffer = Buffer.alloc(values.length * 2);
+    values.forEach((value, index) => (bigEndian ? buffer.writeUInt16BE(value, index * 2) : buffer.writeUInt16LE(value, index * 2)));
+    return buffer;
+}
+
+/** Encodes an element header and value. */
+function element(tag: string, vr: string, value: Uint8Array, encoding: Encoding = {}): Buffer {
+    const be = encoding.bigEndian === true;
+    const length = encoding.length ?? value.length;
+    const tagBytes = uint16([Number.parseInt(tag.slice(0, 4), 16), Number.parseInt(tag.slice(4), 16)], be);
+    const length32 = Buffer.alloc(4);
+    if (be) length32.writeUInt32BE(length);
+    else length32.writeUInt32LE(length);
+    if (encoding.implicit === true || tag.startsWith('FFFE')) return Buffer.concat([tagBytes, length32, value]);
+    if (LONG_VRS.has(vr)) return Buffer.concat([tagBytes, Buffer.from(vr, 'latin1'), Buffer.alloc(2), length32, value]);
+    return Buffer.concat([tagBytes, Buffer.from(vr, 'latin1'), uint16([length], be), value]);
+}
+
+/** Encodes a sequence item, of defined length or closed by an item delimiter. */
+function item(content: Uint8Array, undefinedLength = false, encoding: Encoding = {}): Buffer {
+    if (!undefinedLength) return element('FFFEE000', '', content, encoding);
+    return Buffer.concat([element('FFFEE000', '', content, { ...encoding, length: UNDEFINED }), element('FFFEE00D', '', Buffer.alloc(0), encoding)]);
+}
+
+/** Encodes a sequence of undefined length, closed by a sequence delimiter. */
+function undefinedSequence(tag: string, vr: string, items: readonly Uint8Array[], encoding: Encoding = {}): Buffer {
+    const delimiter = element('FFFEE0DD', '', Buffer.alloc(0), encoding);
+    return Buffer.concat([element(tag, vr, Buffer.alloc(0), { ...encoding, length: UNDEFINED }), ...items, delimiter]);
+}
+
+/** Builds a Part 10 file: preamble, prefix, File Meta Information with the transfer syntax, then the dataset. */
+function part10(transferSyntax: string, dataset: Uint8Array): Buffer {
+    const meta = Buffer.concat([
+        element('00020001', 'OB', Buffer.from([0, 1])),
+        element('00020002', 'UI', text('1.2.840.10008.5.1.4.1.1.7', '\0')),
+        element('00020010', 'UI', text(transferSyntax, '\0')),
+    ]);
+    const groupLength = Buffer.alloc(4);
+    groupLength.writeUInt32LE(meta.length);
+    return Buffer.concat([Buffer.alloc(128), Buffer.from('DICM', 'latin1'), element('00020000', 'UL', groupLength), meta, dataset]);
+}
+
+const EXPLICIT_LE = '1.2.840.10008.1.2.1';
+const IMPLICIT_LE = '1.2.840.10008.1.2';
+const EXPLICIT_BE = '1.2.840.10008.1.2.2';
+const DEFLATED = '1.2.840.10008.1.2.1.99';
+const JPEG_BASELINE = '1.2.840.10008.1.2.4.50';
+
+/** Reads data that must parse, returning the result value. */
+function read(bytes: Uint8Array, options?: Part10ReadOptions): Part10ReadResult {
+    const result = readPart10(bytes, options);
+    if (!result.ok) throw result.error;
+    return result.value;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('readPart10', () => {
+    it('reads File Meta Information and an Explicit VR Little Endian dataset', () => {
+        const dataset = Buffer.concat([
+            element('00080016', 'UI', text('1.2.840.10008.5.1.4.1.1.7', '\0')),
+            element('00080060', 'CS', text('OT')),
+            element('00100010', 'PN', text('Doe^Jane')),
+            element('00100020', 'LO', text(' ID 1 ')),
+            element('00181063', 'DS', text('1.50\\ 2 ')),
+            element('00200013', 'IS', text('7')),
+            element('00280010', 'US', uint16([512])),
+            element('00209165', 'AT', uint16([0x0010, 0x0020])),
+        ]);
+        const result = read(part10(EXPLICIT_LE, dataset));
+
+        expect(result.transferSyntaxUID).toBe(EXPLICIT_LE);
+        expect(result.fileMeta['00020010']).toEqual({ vr: 'UI', Value: [EXPLICIT_LE] });
+        expect(result.fileMeta['00020001']).toEqual({ vr: 'OB', InlineBinary: 'AAE=' });
+        expect(result.data['00020010']).toBeUndefined();
+        expect(result.data).toEqual({
+            '00080016': { vr: 'UI', Value: ['1.2.840.10008.5.1.4.1.1.7'] },
+            '00080060': { vr: 'CS', Value: ['OT'] },
+            '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Doe^Jane' }] },
+            '00100020': { vr: 'LO', Value: ['ID 1'] },
+            '00181063': { vr: 'DS', Value: [1.5, 2] },
+            '00200013': { vr: 'IS', Value: [7] },
+            '00280010': { vr: 'US', Value: [512] },
+            '00209165': { vr: 'AT', Value: ['00100020'] },
+        });
+    });
+
+    it('reads PN component groups, empty values and single-valued text', () => {
+        const dataset = Buffer.concat([
+            element('00100010', 'PN', text('Yamada^Tarou==yamada^tarou')),
+            element('00081030', 'LO', text('A\\\\B')),
+            element('00104000', 'LT', text('  line one\\two  ')),
+            element('00100030', 'DA', Buffer.alloc(0)),
+        ]);
+        const { data } = read(part10(EXPLICIT_LE, dataset));
+
+        expect(data['00100010']).toEqual({ vr: 'PN', Value: [{ Alphabetic: 'Yamada^Tarou', Phonetic: 'yamada^tarou' }] });
+        expect(data['00081030']).toEqual({ vr: 'LO', Value: ['A', null, 'B'] });
+        expect(data['00104000']).toEqual({ vr: 'LT', Value: ['  line one\\two'] });
+        expect(data['00100030']).toEqual({ vr: 'DA' });
+    });
+
+    it('reads binary numbers and keeps 64-bit integers beyond 2^53 as strings', () => {
+        const floats = Buffer.alloc(12);
+        floats.writeFloatLE(0.5, 0);
+        floats.writeDoubleLE(-2.25, 4);
+        const big = Buffer.alloc(16);
+        big.writeBigInt64LE(-5n, 0);
+        big.writeBigUInt64LE(2n ** 60n, 8);
+        const dataset = Buffer.concat([
+            element('00189218', 'FL', floats.subarray(0, 4)),
+            element('00189219', 'FD', floats.subarray(4)),
+            element('0040A162', 'SV', big.subarray(0, 8)),
+            element('0040A163', 'UV', big.subarray(8)),
+        ]);
+        const { data } = read(part10(EXPLICIT_LE, dataset));
+
+        expect(data['00189218']?.Value).toEqual([0.5]);
+        expect(data['00189219']?.Value).toEqual([-2.25]);
+        expect(data['0040A162']?.Value).toEqual([-5]);
+        expect(data['0040A163']?.Value).toEqual([(2n ** 60n).toString()]);
+    });
+
+    it('reads Implicit VR Little Endian with dictionary, group length and private creator VRs', () => {
+        const implicit = { implicit: true };
+        const dataset = Buffer.concat([
+            element('00080000', '', Buffer.from([4, 0, 0, 0]), implicit),
+            element('00080060', '', text('MR'), implicit),
+            element('00280010', '', uint16([256]), implicit),
+            element('00090010', '', text('ACME'), implicit),
+            element('00091001', '', Buffer.from([1, 2]), implicit),
+        ]);
+        const { data, transferSyntaxUID } = read(part10(IMPLICIT_LE, dataset));
+
+        expect(transferSyntaxUID).toBe(IMPLICIT_LE);
+        expect(data).toEqual({
+            '00080000': { vr: 'UL', Value: [4] },
+            '00080060': { vr: 'CS', Value: ['MR'] },
+            '00280010': { vr: 'US', Value: [256] },
+            '00090010': { vr: 'LO', Value: ['ACME'] },
+            '00091001': { vr: 'UN', InlineBinary: 'AQI=' },
+        });
+    });
+
+    it('reads Explicit VR Big Endian, returning binary values in little endian byte order', () => {
+        const be = { bigEndian: true };
+        const dataset = Buffer.concat([element('00280010', 'US', uint16([512], true), be), element('7FE00010', 'OW', uint16([0x0102, 0x0304], true), be)]);
+        const { data } = read(part10(EXPLICIT_BE, dataset));
+
+        expect(data['00280010']).toEqual({ vr: 'US', Value: [512] });
+        expect(data['7FE00010']).toEqual({ vr: 'OW', InlineBinary: Buffer.from([0x02, 0x01, 0x04, 0x03]).toString('base64') });
+    });
+
+    it('reads Deflated Explicit VR Little Endian', () => {
+        const dataset = Buffer.concat([element('00100010', 'PN', text('Doe^John')), element('00280010', 'US', uint16([64]))]);
+        const { data } = read(part10(DEFLATED, deflateRawSync(dataset)));
+
+        expect(data).toEqual({
+            '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Doe^John' }] },
+            '00280010': { vr: 'US', Value: [64] },
+        });
+    });
+
+    it('reads nested sequences and items of defined and undefined length', () => {
+        const inner = item(element('00080100', 'SH', text('T-1')), true);
+        const dataset = Buffer.concat([
+            undefinedSequence('00081115', 'SQ', [
+                item(Buffer.concat([element('00081150', 'UI', text('1.2', '\0')), undefinedSequence('00081199', 'SQ', [inner])]), true),
+                item(element('00081150', 'UI', text('1.3', '\0'))),
+            ]),
+            element('00082112', 'SQ', Buffer.alloc(0)),
+            element('00100010', 'PN', text('After^Sequences')),
+        ]);
+        const { data } = read(part10(EXPLICIT_LE, dataset));
+
+        expect(data['00081115']).toEqual({
+            vr: 'SQ',
+            Value: [
+                { '00081150': { vr: 'UI', Value: ['1.2'] }, '00081199': { vr: 'SQ', Value: [{ '00080100': { vr: 'SH', Value: ['T-1'] } }] } },
+                { '00081150': { vr: 'UI', Value: ['1.3'] } },
+            ],
+        });
+        expect(data['00082112']).toEqual({ vr: 'SQ' });
+        expect(data['00100010']).toEqual({ vr: 'PN', Value: [{ Alphabetic: 'After^Sequences' }] });
+    });
+
+    it('reads a defined-length sequence in Implicit VR', () => {
+        const implicit = { implicit: true };
+        const items = item(element('00080100', '', text('C1'), implicit), false, implicit);
+        const { data } = read(part10(IMPLICIT_LE, element('00081032', '', items, implicit)));
+
+        expect(data['00081032']).toEqual({ vr: 'SQ', Value: [{ '00080100': { vr: 'SH', Value: ['C1'] } }] });
+    });
+
+    it('reads UN elements of undefined length as Implicit VR Little Endian sequences', () => {
+        const items = [item(element('00100020', '', text('X1'), { implicit: true }), true)];
+        const { data } = read(part10(EXPLICIT_LE, undefinedSequence('00291010', 'UN', items)));
+
+        expect(data['00291010']).toEqual({ vr: 'SQ', Value: [{ '00100020': { vr: 'LO', Value: ['X1'] } }] });
+    });
+
+    it('keeps encapsulated pixel data as its item stream', () => {
+        const fragments = [item(Buffer.alloc(0)), item(Buffer.from([0xff, 0xd8, 0xff, 0xd9]))];
+        const dataset = Buffer.concat([element('00280010', 'US', uint16([1])), undefinedSequence('7FE00010', 'OB', fragments)]);
+        const { data, transferSyntaxUID } = read(part10(JPEG_BASELINE, dataset));
+
+        expect(transferSyntaxUID).toBe(JPEG_BASELINE);
+        expect(data['7FE00010']).toEqual({ vr: 'OB', InlineBinary: Buffer.concat(fragments).toString('base64') });
+    });
+
+    it('stops before the top-level Pixel Data when asked', () => {
+        const dataset = Buffer.concat([
+            element('00280010', 'US', uint16([1])),
+            element('7FE00010', 'OW', uint16([1, 2])),
+            element('FFFCFFFC', 'OB', Buffer.alloc(2)),
+        ]);
+        const full = read(part10(EXPLICIT_LE, dataset));
+        const header = read(part10(EXPLICIT_LE, dataset), { stopBeforePixelData: true });
+
+        expect(Object.keys(full.data)).toEqual(['00280010', '7FE00010', 'FFFCFFFC']);
+        expect(Object.keys(header.data)).toEqual(['00280010']);
+    });
+
+    it('stops at the first top-level element at or after stopAtTag', () => {
+        const item = element('00400010', 'SH', text('NESTED'));
+        const dataset = Buffer.concat([
+            element('00100010', 'PN', text('Doe')),
+            undefinedSequence('00321064', 'SQ', [Buffer.concat([element('FFFEE000', '', item)])]),
+            element('00400002', 'DA', text('20240101')),
+            element('7FE00010', 'OW', uint16([1])),
+        ]);
+
+        expect(Object.keys(read(part10(EXPLICIT_LE, dataset), { stopAtTag: '00400000' }).data)).toEqual(['00100010', '00321064']);
+        expect(Object.keys(read(part10(EXPLICIT_LE, dataset), { stopAtTag: '00400002' }).data)).toEqual(['00100010', '00321064']);
+        expect(Object.keys(read(part10(EXPLICIT_LE, dataset), { stopAtTag: '0032ffff' }).data)).toEqual(['00100010', '00321064']);
+    });
+
+    it('decodes text in the Specific Character Set, or keeps byte strings with rawText', () => {
+        const dataset = Buffer.concat([element('00080005', 'CS', text('ISO_IR 100')), element('00100010', 'PN', text('Müller^Jörg'))]);
+        expect(read(part10(EXPLICIT_LE, dataset)).data['00100010']).toEqual({ vr: 'PN', Value: [{ Alphabetic: 'Müller^Jörg' }] });
+        const utf8 = Buffer.concat([element('00080005', 'CS', text('ISO_IR 192')), element('00100010', 'PN', Buffer.from('Åsa ', 'utf-8'))]);
+        expect(read(part10(EXPLICIT_LE, utf8)).data['00100010']).toEqual({ vr: 'PN', Value: [{ Alphabetic: 'Åsa' }] });
+        expect(read(part10(EXPLICIT_LE, utf8), { rawText: true }).data['00100010']).toEqual({ vr: 'PN', Value: [{ Alphabetic: 'Ã\u0085sa' }] });
+    });
+
+    it('reads DS and IS values as numbers, or as their text with numberText', () => {
+        const dataset = Buffer.concat([element('00280030', 'DS', text(' 0.50000\\1E2 ')), element('00200013', 'IS', text('0010'))]);
+        expect(read(part10(EXPLICIT_LE, dataset)).data['00280030']).toEqual({ vr: 'DS', Value: [0.5, 100] });
+        const kept = read(part10(EXPLICIT_LE, dataset), { numberText: true }).data;
+        expect(kept['00280030']).toEqual({ vr: 'DS', Value: ['0.50000', '1E2'] });
+        expect(kept['00200013']).toEqual({ vr: 'IS', Value: ['0010'] });
+    });
+
+    it('reads a bare dataset without preamble, detecting explicit and implicit VR', () => {
+        const explicit = read(element('00100020', 'LO', text('P1')));
+        const implicit = read(element('00100020', '', text('P2'), { implicit: true }));
+
+        expect(explicit.fileMeta).toEqual({});
+        expect(explicit.transferSyntaxUID).toBe(EXPLICIT_LE);
+        expect(explicit.data['00100020']).toEqual({ vr: 'LO', Value: ['P1'] });
+        expect(implicit.transferSyntaxUID).toBe(IMPLICIT_LE);
+        expect(implicit.data['00100020']).toEqual({ vr: 'LO', Value: ['P2'] });
+    });
+
+    it('rejects truncated data', () => {
+        const bytes = part10(EXPLICIT_LE, element('00100010', 'PN', text('Doe^Jane')));
+        const result = readPart10(bytes.subarray(0, bytes.length - 3));
+
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/^Failed to read DICOM Part 10 data: unexpected end of data/);
+    });
+
+    it('rejects an invalid explicit VR and an unterminated sequence', () => {
+        const invalid = Buffer.concat([element('00100010', 'PN', text('A^B')), Buffer.from([0x10, 0x00, 0x20, 0x00, 0x5a, 0x5a, 0x00, 0x00])]);
+        const unterminated = part10(EXPLICIT_LE, element('00081115', 'SQ', item(Buffer.alloc(0), true), { length: UNDEFINED }));
+
+        const first = readPart10(part10(EXPLICIT_LE, invalid));
+        const second = readPart10(unterminated);
+        expect(first.ok).toBe(false);
+        if (!first.ok) expect(first.error.message).toMatch(/invalid VR "ZZ" of \(0010,0020\)/);
+        expect(second.ok).toBe(false);
+    });
+
+    it('rejects File Meta Information without a Transfer Syntax UID', () => {
+        const bytes = Buffer.concat([Buffer.alloc(128), Buffer.from('DICM', 'latin1'), element('00020002', 'UI', text('1.2', '\0'))]);
+        const result = readPart10(bytes);
+
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/no Transfer Syntax UID/);
+    });
+});
+
+describe('readPart10File', () => {
+    let dir: string;
+    let path: string;
+
+    beforeAll(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dcmtk-part10-'));
+        path = join(dir, 'image.dcm');
+        const dataset = Buffer.concat([element('00100010', 'PN', text('Doe^Jane')), element('7FE00010', 'OW', uint16([1, 2, 3, 4]))]);
+        await writeFile(path, part10(EXPLICIT_LE, dataset));
+    });
+
+    afterAll(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('reads a file with every binary value inline by default', async () => {
+        const result = await readPart10File(path);
+
+        expect(result.ok).toBe(true);
+        if (result.ok) expect(result.value.data['7FE00010']).toEqual({ vr: 'OW', InlineBinary: uint16([1, 2, 3, 4]).toString('base64') });
+    });
+
+    it('applies a bulk data policy with URIs into the file', async () => {
+        const result = await readPart10File(path, { bulkData: { mode: 'uri', inlineThreshold: 4 } });
+
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        const uri = result.value.data['7FE00010']?.BulkDataURI ?? '';
+        const location = parseBulkDataUri(uri);
+        expect(location.ok && location.value).toMatchObject({ filePath: path, path: '(7FE0,0010)', range: { length: 8 } });
+        const offset = location.ok ? (location.value.range?.offset ?? 0) : 0;
+        expect((await readFile(path)).subarray(offset, offset + 8)).toEqual(uint16([1, 2, 3, 4]));
+        expect(result.value.data['00100010']).toEqual({ vr: 'PN', Value: [{ Alphabetic: 'Doe^Jane' }] });
+    });
+
+    it('leaves the byte range out of the BulkDataURIs of values swapped from big endian', async () => {
+        const bigEndian = join(dir, 'big-endian.dcm');
+        const be = { bigEndian: true };
+        await writeFile(
+            bigEndian,
+            part10(EXPLICIT_BE, Buffer.concat([element('00091010', 'OB', Buffer.from([1, 2]), be), element('7FE00010', 'OW', uint16([1, 2], true), be)]))
+        );
+        const result = await readPart10File(bigEndian, { bulkData: { mode: 'uri' } });
+
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        const ranges = ['00091010', '7FE00010'].map(key => {
+            const location = parseBulkDataUri(result.value.data[key]?.BulkDataURI ?? '');
+            return location.ok && location.value.range !== undefined;
+        });
+        expect(ranges).toEqual([true, false]);
+    });
+
+    it('reads only as much of a large file as the header needs', async () => {
+        const large = join(dir, 'large.dcm');
+        const header = Buffer.concat([element('00100010', 'PN', text('Doe^Jane')), element('00291010', 'OB', Buffer.alloc(300 * 1024, 7))]);
+        await writeFile(large, part10(EXPLICIT_LE, Buffer.concat([header, element('7FE00010', 'OB', Buffer.alloc(1024 * 1024))])));
+
+        const result = await readPart10File(large, { stopBeforePixelData: true });
+        const group = await readPart10File(large, { stopAtTag: '00290000' });
+
+        expect(result.ok && Object.keys(result.value.data)).toEqual(['00100010', '00291010']);
+        expect(result.ok && result.value.data['00291010']?.InlineBinary).toBe(Buffer.alloc(300 * 1024, 7).toString('base64'));
+        expect(group.ok && Object.keys(group.value.data)).toEqual(['00100010']);
+    });
+
+    it('reads deflated and truncated files whole when reading stops early', async () => {
+        const deflated = join(dir, 'deflated.dcm');
+        const truncated = join(dir, 'truncated.dcm');
+        const dataset = Buffer.concat([element('00100010', 'PN', text('Doe^Jane')), element('7FE00010', 'OB', Buffer.alloc(600 * 1024))]);
+        await writeFile(deflated, part10(DEFLATED, deflateRawSync(dataset)));
+        await writeFile(
+            truncated,
+            part10(EXPLICIT_LE, Buffer.concat([element('00100010', 'PN', text('Doe')), element('00291010', 'OB', Buffer.alloc(2), { length: 1 << 20 })]))
+        );
+
+        const inflated = await readPart10File(deflated, { stopBeforePixelData: true });
+        const broken = await readPart10File(truncated, { stopBeforePixelData: true });
+
+        expect(inflated.ok && Object.keys(inflated.value.data)).toEqual(['00100010']);
+        expect(broken.ok).toBe(false);
+        if (!broken.ok) expect(broken.error.message).toMatch(/^Failed to read DICOM Part 10 data: unexpected end of data/);
+    });
+
+    it('reports a missing file', async () => {
+        const result = await readPart10File(join(dir, 'missing.dcm'));
+        const header = await readPart10File(join(dir, 'missing.dcm'), { stopBeforePixelData: true });
+
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/^Failed to read file:/);
+        expect(header.ok).toBe(false);
+        if (!header.ok) expect(header.error.message).toMatch(/^Failed to read file:/);
+    });
+});
@@ -0,0 +1,608 @@
+/**
+ * In-process reader of DICOM Part 10 files, an alternative to dcm2json.
+ *
+ * Reads the File Meta Information and the dataset of files in Implicit VR Little Endian,
+ * Explicit VR Little Endian, Explicit VR Big Endian, Deflated Explicit VR Little Endian and
+ * the compressed transfer syntaxes into the DICOM JSON Model that {@link DicomDataset} consumes:
+ * - text values are split on backslashes and stripped of padding; PN values become
+ *   `{Alphabetic, Ideographic, Phonetic}` objects, and DS and IS values numbers
+ * - US, SS, UL, SL, FL, FD, SV and UV values are numbers (SV and UV beyond 2^53 strings),
+ *   AT values hex tags such as `00100010`
+ * - binary values are InlineBinary, in little endian byte order whatever the transfer syntax
+ * - encapsulated Pixel Data is InlineBinary holding its items as stored: the Basic Offset
+ *   Table item, then one item per fragment (the sequence delimiter is left out)
+ * - sequences and items may have defined or undefined length; UN elements of undefined
+ *   length are read as sequences in Implicit VR Little Endian
+ *
+ * Parsing is iterative, with an explicit stack of open sequences and items (no recursion — Rule 8.2).
+ *
+ * @see DICOM PS3.10 Section 7 — DICOM File Format
+ * @module dicom/part10Reader
+ */
+
+import { open, readFile } from 'node:fs/promises';
+import type { FileHandle } from 'node:fs/promises';
+import { inflateRawSync } from 'node:zlib';
+import { MAX_TRAVERSAL_DEPTH } from '../constants';
+import type { Result } from '../types';
+import { ok, err } from '../types';
+import { applyBulkDataPolicy } from '../tools/_bulkData';
+import type { BulkDataPolicy, ByteRange } from '../tools/_bulkData';
+import { decodeModelText } from '../tools/_characterSet';
+import type { DicomJsonElement, DicomJsonModel } from '../tools/_xmlToJson';
+import {
+    BINARY_WORD_SIZES,
+    DICM_PREFIX,
+    EXPLICIT_LITTLE,
+    FILE_META_GROUP,
+    IMPLICIT_LITTLE,
+    ITEM_DELIMITER_TAG,
+    ITEM_TAG,
+    LONG_LENGTH_VRS,
+    PIXEL_DATA_TAG,
+    PN_GROUPS,
+    PREAMBLE_LENGTH,
+    SEQUENCE_DELIMITER_TAG,
+    SINGLE_VALUE_TEXT_VRS,
+    TRANSFER_SYNTAX_TAG,
+    TransferSyntaxUID,
+    UNDEFINED_LENGTH,
+    transferSyntaxEncoding,
+} from './_part10';
+import type { ByteSyntax } from './_part10';
+import { lookupTag } from './dictionary';
+import { VR } from './vr';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Options for {@link readPart10}. */
+interface Part10ReadOptions {
+    /**
+     * Stop at the top-level Pixel Data (7FE0,0010): neither it nor the elements after it
+     * are read. Defaults to false.
+     */
+    readonly stopBeforePixelData?: boolean | undefined;
+    /**
+     * Stop at the first top-level element whose tag, as a hex key such as `'00400000'`, is at
+     * or after this one: neither it nor the elements after it are read.
+     */
+    readonly stopAtTag?: string | undefined;
+    /**
+     * Keep text values undecoded, as byte strings (one character per byte) in the dataset's
+     * Specific Character Set. Defaults to false: values are decoded.
+     */
+    readonly rawText?: boolean | undefined;
+    /**
+     * Keep DS and IS values as the text they are stored as, stripped of padding, so that
+     * writing them back leaves `0.50000` as it was. Defaults to false: they are numbers.
+     */
+    readonly numberText?: boolean | undefined;
+}
+
+/** Options for {@link readPart10File}. */
+interface Part10FileReadOptions extends Part10ReadOptions {
+    /** How binary values are represented. Defaults to keeping them all inline. */
+    readonly bulkData?: BulkDataPolicy | undefined;
+}
+
+/** Result of reading a Part 10 file. */
+interface Part10ReadResult {
+    /** The dataset, without File Meta Information. */
+    readonly data: DicomJsonModel;
+    /** The File Meta Information (group 0002); empty for a dataset stored without a Part 10 header. */
+    readonly fileMeta: DicomJsonModel;
+    /** Transfer syntax of the dataset, from the File Meta Information or detected when there is none. */
+    readonly transferSyntaxUID: string;
+}
+
+/** A parsed file, whether reading stopped before the end of the dataset, and where its binary values are stored. */
+interface ParsedPart10 {
+    readonly result: Part10ReadResult;
+    readonly stopped: boolean;
+    readonly ranges: ReadonlyMap<DicomJsonElement, ByteRange>;
+}
+
+/** Read position in a buffer. */
+interface Cursor {
+    readonly bytes: Uint8Array;
+    readonly view: DataView;
+    offset: number;
+    /** Byte ranges of the binary values read that are stored as they are inline; undefined when the buffer is not the file. */
+    readonly ranges?: Map<DicomJsonElement, ByteRange> | undefined;
+    /** DS and IS values are kept as text. */
+    readonly numberText: boolean;
+}
+
+/** Tag, VR and value length of an element; items and delimiters have an empty VR. */
+interface ElementHeader {
+    readonly tag: string;
+    readonly vr: string;
+    readonly length: number;
+}
+
+/** An open dataset or sequence item; `end` is undefined for items of undefined length. */
+interface DatasetFrame {
+    readonly kind: 'dataset';
+    readonly model: Record<string, DicomJsonElement>;
+    readonly end: number | undefined;
+    readonly syntax: ByteSyntax;
+    readonly depth: number;
+}
+
+/** An open sequence, with the dataset and tag it belongs to; `end` is undefined for undefined length. */
+interface SequenceFrame {
+    readonly kind: 'sequence';
+    readonly parent: Record<string, DicomJsonElement>;
+    readonly tag: string;
+    readonly items: DicomJsonModel[];
+    readonly end: number | undefined;
+    readonly syntax: ByteSyntax;
+    readonly depth: number;
+}
+
+type Frame = DatasetFrame | SequenceFrame;
+
+/** Size and reader of one value of a binary number VR. */
+interface NumberReader {
+    readonly size: number;
+    readonly read: (view: DataView, offset: number, littleEndian: boolean) => number | string;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Readers of the binary number VRs. */
+const NUMBER_READERS: Readonly<Record<string, NumberReader>> = {
+    US: { size: 2, read: (view, offset, le) => view.getUint16(offset, le) },
+    SS: { size: 2, read: (view, offset, le) => view.getInt16(offset, le) },
+    UL: { size: 4, read: (view, offset, le) => view.getUint32(offset, le) },
+    SL: { size: 4, read: (view, offset, le) => view.getInt32(offset, le) },
+    FL: { size: 4, read: (view, offset, le) => view.getFloat32(offset, le) },
+    FD: { size: 8, read: (view, offset, le) => view.getFloat64(offset, le) },
+    SV: { size: 8, read: (view, offset, le) => bigIntValue(view.getBigInt64(offset, le)) },
+    UV: { size: 8, read: (view, offset, le) => bigIntValue(view.getBigUint64(offset, le)) },
+};
+
+/** String VRs whose values are numbers in the DICOM JSON Model. */
+const NUMBER_STRING_VRS: ReadonlySet<string> = new Set([VR.DS, VR.IS]);
+
+/** Padding characters removed from the end of text values: space and NUL. */
+const PADDING_CODES: ReadonlySet<number> = new Set([0x20, 0x00]);
+
+/** All VR codes, to recognize an explicit VR. */
+const VR_CODES: ReadonlySet<string> = new Set(Object.values(VR));
+
+// ---------------------------------------------------------------------------
+// Byte reading
+// ---------------------------------------------------------------------------
+
+/** Creates a cursor at the start of a buffer, recording the byte ranges of binary values in `ranges` if given. */
+function createCursor(bytes: Uint8Array, numberText: boolean, ranges?: Map<DicomJsonElement, ByteRange>): Cursor {
+    return { bytes, view: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength), offset: 0, ranges, numberText };
+}
+
+/** Returns the next `length` bytes and advances past them; throws when the data ends first. */
+function takeBytes(cursor: Cursor, length: number): Uint8Array {
+    if (cursor.offset + length > cursor.bytes.length) {
+        throw new Error(`unexpected end of data at offset ${cursor.offset}: ${length} bytes needed, ${cursor.bytes.length - cursor.offset} left`);
+    }
+    const bytes = cursor.bytes.subarray(cursor.offset, cursor.offset + length);
+    cursor.offset += length;
+    return bytes;
+}
+
+/** Reads an unsigned 16-bit integer. */
+function readUint16(cursor: Cursor, littleEndian: boolean): number {
+    takeBytes(cursor, 2);
+    return cursor.view.getUint16(cursor.offset - 2, littleEndian);
+}
+
+/** Reads an unsigned 32-bit integer. */
+function readUint32(cursor: Cursor, littleEndian: boolean): number {
+    takeBytes(cursor, 4);
+    return cursor.view.getUint32(cursor.offset - 4, littleEndian);
+}
+
+/** Formats a 16-bit number as 4 uppercase hex digits. */
+function hex4(value: number): string {
+    return value.toString(16).toUpperCase().padStart(4, '0');
+}
+
+/** Formats a hex key as `(GGGG,EEEE)` for error messages. */
+function formatTag(tag: string): string {
+    return `(${tag.slice(0, 4)},${tag.slice(4)})`;
+}
+
+/** Returns a 64-bit integer as a number, or as a string beyond the safe integer range. */
+function bigIntValue(value: bigint): number | string {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value.toString();
+}
+
+/** Returns the VR of an Implicit VR element: group length UL, private creator LO, else the dictionary VR or UN. */
+function implicitVr(tag: string): string {
+    const group = Number.parseInt(tag.slice(0, 4), 16);
+    const element = Number.parseInt(tag.slice(4), 16);
+    if (element === 0) return VR.UL;
+    if (group % 2 === 1 && element >= 0x10 && element <= 0xff) return VR.LO;
+    return lookupTag(tag)?.vr ?? VR.UN;
+}
+
+/** Reads an element header; items and delimiters carry no VR in any transfer syntax. */
+function readHeader(cursor: Cursor, syntax: ByteSyntax): ElementHeader {
+    const le = syntax.littleEndian;
+    const tag = hex4(readUint16(cursor, le)) + hex4(readUint16(cursor, le));
+    if (tag.startsWith('FFFE')) return { tag, vr: '', length: readUint32(cursor, le) };
+    if (!syntax.explicitVR) return { tag, vr: implicitVr(tag), length: readUint32(cursor, le) };
+    const vr = String.fromCharCode(...takeBytes(cursor, 2));
+    if (!VR_CODES.has(vr)) throw new Error(`invalid VR "${vr}" of ${formatTag(tag)} at offset ${cursor.offset - 6}`);
+    if (!LONG_LENGTH_VRS.has(vr)) return { tag, vr, length: readUint16(cursor, le) };
+    takeBytes(cursor, 2);
+    return { tag, vr, length: readUint32(cursor, le) };
+}
+
+// ---------------------------------------------------------------------------
+// Value conversion
+// ---------------------------------------------------------------------------
+
+/** Removes trailing spaces and NULs, and leading spaces too when `leading` is set. */
+function trimPadding(value: string, leading: boolean): string {
+    let end = value.length;
+    while (end > 0 && PADDING_CODES.has(value.charCodeAt(end - 1))) end--;
+    let start = 0;
+    while (leading && start < end && value.charCodeAt(start) === 0x20) start++;
+    return value.slice(start, end);
+}
+
+/** Splits a PN value into its component groups; empty groups are left out. */
+function toPersonName(value: string): Record<string, string> {
+    const name: Record<string, string> = {};
+    value.split('=').forEach((group, index) => {
+        const key = PN_GROUPS[index];
+        if (key !== undefined && group !== '') name[key] = group;
+    });
+    return name;
+}
+
+/** Converts one text value; empty values are null, DS and IS values numbers when they parse, unless kept as text. */
+function toTextValue(vr: string, value: string, numberText: boolean): unknown {
+    if (value === '') return null;
+    if (vr === VR.PN) return toPersonName(value);
+    if (numberText || !NUMBER_STRING_VRS.has(vr)) return value;
+    const number = Number(value);
+    return Number.isFinite(number) ? number : value;
+}
+
+/** Converts a text value, as a byte string (one character per byte) for later decoding. */
+function convertText(vr: string, bytes: Uint8Array, numberText: boolean): DicomJsonElement {
+    const raw = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('latin1');
+    const single = SINGLE_VALUE_TEXT_VRS.has(vr);
+    const values = (single ? [raw] : raw.split('\\')).map(part => toTextValue(vr, trimPadding(part, !single), numberText));
+    return values.every(value => value === null) ? { vr } : { vr, Value: values };
+}
+
+/** Reads every value of a binary number element. */
+function readNumbers(bytes: Uint8Array, reader: NumberReader, littleEndian: boolean): Array<number | string> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const values: Array<number | string> = [];
+    for (let offset = 0; offset + reader.size <= bytes.length; offset += reader.size) {
+        values.push(reader.read(view, offset, littleEndian));
+    }
+    return values;
+}
+
+/** Reads every value of an AT element as a hex tag. */
+function readTags(bytes: Uint8Array, littleEndian: boolean): string[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const values: string[] = [];
+    for (let offset = 0; offset + 4 <= bytes.length; offset += 4) {
+        values.push(hex4(view.getUint16(offset, littleEndian)) + hex4(view.getUint16(offset + 2, littleEndian)));
+    }
+    return values;
+}
+
+/** Returns binary value bytes in little endian byte order, swapping the bytes of each word of big endian data. */
+function toLittleEndian(bytes: Uint8Array, wordSize: number, littleEndian: boolean): Uint8Array {
+    if (littleEndian || wordSize === 1) return bytes;
+    const swapped = new Uint8Array(bytes.length - (bytes.length % wordSize));
+    for (let offset = 0; offset < swapped.length; offset += wordSize) {
+        swapped.set(bytes.slice(offset, offset + wordSize).reverse(), offset);
+    }
+    return swapped;
+}
+
+/** Encodes bytes as base64. */
+function toBase64(bytes: Uint8Array): string {
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('base64');
+}
+
+/** Converts the value of a non-sequence element of defined length. */
+function convertValue(vr: string, bytes: Uint8Array, syntax: ByteSyntax, numberText: boolean): DicomJsonElement {
+    if (bytes.length === 0) return { vr };
+    const reader = NUMBER_READERS[vr];
+    if (reader !== undefined) return { vr, Value: readNumbers(bytes, reader, syntax.littleEndian) };
+    if (vr === VR.AT) return { vr, Value: readTags(bytes, syntax.littleEndian) };
+    const wordSize = BINARY_WORD_SIZES[vr];
+    if (wordSize !== undefined) return { vr, InlineBinary: toBase64(toLittleEndian(bytes, wordSize, syntax.littleEndian)) };
+    return convertText(vr, bytes, numberText);
+}
+
+/** Reads a value of defined length, recording the byte range of a binary value stored as it is inline. */
+function readValue(cursor: Cursor, header: ElementHeader, syntax: ByteSyntax): DicomJsonElement {
+    const offset = cursor.offset;
+    const element = convertValue(header.vr, takeBytes(cursor, header.length), syntax, cursor.numberText);
+    // Words of big endian data are swapped when read, so their bytes differ from the stored ones
+    const stored = syntax.littleEndian || BINARY_WORD_SIZES[header.vr] === 1;
+    if (element.InlineBinary !== undefined && stored) cursor.ranges?.set(element, { offset, length: header.length });
+    return element;
+}
+
+/** Reads an encapsulated value: items up to the sequence delimiter, kept as stored. */
+function readEncapsulated(cursor: Cursor, header: ElementHeader, syntax: ByteSyntax): DicomJsonElement {
+    const start = cursor.offset;
+    let item = readHeader(cursor, syntax);
+    while (item.tag === ITEM_TAG) {
+        takeBytes(cursor, item.length);
+        item = readHeader(cursor, syntax);
+    }
+    if (item.tag !== SEQUENCE_DELIMITER_TAG) {
+        throw new Error(`expected a fragment item in ${formatTag(header.tag)}, found ${formatTag(item.tag)} at offset ${cursor.offset - 8}`);
+    }
+    const element = { vr: header.vr, InlineBinary: toBase64(cursor.bytes.subarray(start, cursor.offset - 8)) };
+    cursor.ranges?.set(element, { offset: start, length: cursor.offset - 8 - start });
+    return element;
+}
+
+// ---------------------------------------------------------------------------
+// Dataset parsing (explicit stack — Rule 8.2)
+// ---------------------------------------------------------------------------
+
+/** Returns the end offset of a value starting at the cursor, or undefined for undefined length. */
+function endOf(cursor: Cursor, length: number): number | undefined {
+    return length === UNDEFINED_LENGTH ? undefined : cursor.offset + length;
+}
+
+/** Handles an item or delimiter tag met inside a dataset; returns true when it closes the item. */
+function closesItem(cursor: Cursor, frame: DatasetFrame, header: ElementHeader): boolean {
+    if (header.tag !== ITEM_DELIMITER_TAG) throw new Error(`unexpected ${formatTag(header.tag)} in a dataset at offset ${cursor.offset - 8}`);
+    return frame.end === undefined;
+}
+
+/** Opens a sequence element, to be read item by item. */
+function openSequence(cursor: Cursor, frame: DatasetFrame, header: ElementHeader, stack: Frame[]): void {
+    const depth = frame.depth + 1;
+    if (depth > MAX_TRAVERSAL_DEPTH) throw new Error(`sequences nested deeper than ${MAX_TRAVERSAL_DEPTH} levels at offset ${cursor.offset}`);
+    const items: DicomJsonModel[] = [];
+    frame.model[header.tag] = { vr: VR.SQ, Value: items };
+    const syntax = header.vr === VR.UN ? IMPLICIT_LITTLE : frame.syntax;
+    stack.push({ kind: 'sequence', parent: frame.model, tag: header.tag, items, end: endOf(cursor, header.length), syntax, depth });
+}
+
+/** True when reading stops at a top-level element with this tag. */
+function stopsAt(tag: string, options: Part10ReadOptions): boolean {
+    if (tag === PIXEL_DATA_TAG && options.stopBeforePixelData === true) return true;
+    return options.stopAtTag !== undefined && tag >= options.stopAtTag.toUpperCase();
+}
+
+/** Reads the next element of a dataset; returns true when the dataset ends. */
+function stepDataset(cursor: Cursor, frame: DatasetFrame, stack: Frame[], options: Part10ReadOptions): boolean {
+    const header = readHeader(cursor, frame.syntax);
+    if (header.vr === '') return closesItem(cursor, frame, header);
+    if (frame.depth === 0 && stopsAt(header.tag, options)) return true;
+    if (header.vr === VR.SQ || (header.vr === VR.UN && header.length === UNDEFINED_LENGTH)) {
+        openSequence(cursor, frame, header, stack);
+    } else if (header.length === UNDEFINED_LENGTH) {
+        frame.model[header.tag] = readEncapsulated(cursor, header, frame.syntax);
+    } else {
+        frame.model[header.tag] = readValue(cursor, header, frame.syntax);
+    }
+    return false;
+}
+
+/** Opens the next item of a sequence; returns true when the sequence ends. */
+function stepSequence(cursor: Cursor, frame: SequenceFrame, stack: Frame[]): boolean {
+    const header = readHeader(cursor, frame.syntax);
+    if (header.tag === SEQUENCE_DELIMITER_TAG) return true;
+    if (header.tag !== ITEM_TAG) throw new Error(`expected an item in ${formatTag(frame.tag)}, found ${formatTag(header.tag)} at offset ${cursor.offset - 8}`);
+    const model: Record<string, DicomJsonElement> = {};
+    frame.items.push(model);
+    stack.push({ kind: 'dataset', model, end: endOf(cursor, header.length), syntax: frame.syntax, depth: frame.depth });
+    return false;
+}
+
+/** Leaves an empty sequence without a Value, as the other readers do. */
+function closeFrame(frame: Frame): void {
+    if (frame.kind === 'sequence' && frame.items.length === 0) frame.parent[frame.tag] = { vr: VR.SQ };
+}
+
+/** Parses a dataset from the cursor to the end of its buffer. */
+function parseDataset(cursor: Cursor, syntax: ByteSyntax, options: Part10ReadOptions): DicomJsonModel {
+    const root: Record<string, DicomJsonElement> = {};
+    const stack: Frame[] = [{ kind: 'dataset', model: root, end: cursor.bytes.length, syntax, depth: 0 }];
+    while (stack.length > 0) {
+        const frame = stack[stack.length - 1] as Frame;
+        const ended = frame.end !== undefined && cursor.offset >= frame.end;
+        const done = ended || (frame.kind === 'dataset' ? stepDataset(cursor, frame, stack, options) : stepSequence(cursor, frame, stack));
+        if (done) {
+            stack.pop();
+            closeFrame(frame);
+        }
+    }
+    return root;
+}
+
+// ---------------------------------------------------------------------------
+// File Meta Information
+// ---------------------------------------------------------------------------
+
+/** True when the data starts with a preamble and the `DICM` prefix. */
+function hasPart10Header(bytes: Uint8Array): boolean {
+    const prefix = bytes.subarray(PREAMBLE_LENGTH, PREAMBLE_LENGTH + DICM_PREFIX.length);
+    return String.fromCharCode(...prefix) === DICM_PREFIX;
+}
+
+/** Reads the group 0002 elements following the prefix, always Explicit VR Little Endian. */
+function readFileMeta(cursor: Cursor): DicomJsonModel {
+    cursor.offset = PREAMBLE_LENGTH + DICM_PREFIX.length;
+    const meta: Record<string, DicomJsonElement> = {};
+    while (cursor.offset + 2 <= cursor.bytes.length && cursor.view.getUint16(cursor.offset, true) === FILE_META_GROUP) {
+        const header = readHeader(cursor, EXPLICIT_LITTLE);
+        meta[header.tag] = convertValue(header.vr, takeBytes(cursor, header.length), EXPLICIT_LITTLE, false);
+    }
+    return meta;
+}
+
+/** Returns the Transfer Syntax UID of the File Meta Information. */
+function metaTransferSyntax(meta: DicomJsonModel): string {
+    const uid = meta[TRANSFER_SYNTAX_TAG]?.Value?.[0];
+    if (typeof uid !== 'string') throw new Error('the File Meta Information has no Transfer Syntax UID (0002,0010)');
+    return uid;
+}
+
+/** Detects the transfer syntax of a dataset without File Meta Information from its first element. */
+function detectTransferSyntax(bytes: Uint8Array): string {
+    const vr = String.fromCharCode(...bytes.subarray(4, 6));
+    return VR_CODES.has(vr) ? TransferSyntaxUID.EXPLICIT_VR_LITTLE_ENDIAN : TransferSyntaxUID.IMPLICIT_VR_LITTLE_ENDIAN;
+}
+
+/**
+ * Reads File Meta Information and dataset; throws on malformed data. Reading stopped early
+ * when data is left after the top-level dataset ended.
+ */
+function parsePart10(bytes: Uint8Array, options: Part10ReadOptions): ParsedPart10 {
+    const ranges = new Map<DicomJsonElement, ByteRange>();
+    const numberText = options.numberText === true;
+    const cursor = createCursor(bytes, numberText, ranges);
+    const part10 = hasPart10Header(bytes);
+    const fileMeta = part10 ? readFileMeta(cursor) : {};
+    const transferSyntaxUID = part10 ? metaTransferSyntax(fileMeta) : detectTransferSyntax(bytes);
+    const encoding = transferSyntaxEncoding(transferSyntaxUID);
+    const body = encoding.deflated ? createCursor(inflateRawSync(bytes.subarray(cursor.offset)), numberText) : cursor;
+    const data = parseDataset(body, encoding.syntax, options);
+    const result = { data: options.rawText === true ? data : decodeModelText(data), fileMeta, transferSyntaxUID };
+    return { result, stopped: body.offset < body.bytes.length, ranges };
+}
+
+// ---------------------------------------------------------------------------
+// Partial file reading
+// ---------------------------------------------------------------------------
+
+/** Size of the first part of a file read when reading stops early; doubled until the stop is in it. */
+const PREFIX_LENGTH = 256 * 1024;
+
+/** Reads the first `length` bytes of a file. */
+async function readPrefix(handle: FileHandle, length: number): Promise<Uint8Array> {
+    const bytes = new Uint8Array(length);
+    const { bytesRead } = await handle.read(bytes, 0, length, 0);
+    return bytes.subarray(0, bytesRead);
+}
+
+/** Parses File Meta Information and dataset, returning an error for malformed data. */
+function parseBytes(bytes: Uint8Array, options: Part10ReadOptions): Result<ParsedPart10> {
+    try {
+        return ok(parsePart10(bytes, options));
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : 'Unknown parse error';
+        return err(new Error(`Failed to read DICOM Part 10 data: ${message}`));
+    }
+}
+
+/** Parses the first part of a file; undefined when it ends before reading stops, or cannot be parsed without the rest. */
+function parsePrefix(bytes: Uint8Array, options: Part10ReadOptions): ParsedPart10 | undefined {
+    try {
+        const parsed = parsePart10(bytes, options);
+        return parsed.stopped ? parsed : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Reads a file up to where reading stops, without loading the rest: ever larger parts of
+ * the file are read until one contains the stop. Deflated files are read whole.
+ */
+async function readUntilStop(path: string, options: Part10ReadOptions): Promise<Result<ParsedPart10>> {
+    let handle: FileHandle | undefined;
+    try {
+        handle = await open(path, 'r');
+        const { size } = await handle.stat();
+        for (let length = PREFIX_LENGTH; length < size; length *= 2) {
+            const parsed = parsePrefix(await readPrefix(handle, length), options);
+            if (parsed !== undefined) return ok(parsed);
+        }
+        return parseBytes(await readPrefix(handle, size), options);
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : 'Unknown read error';
+        return err(new Error(`Failed to read file: ${message}`));
+    } finally {
+        await handle?.close();
+    }
+}
+
+/** Reads a whole file. */
+async function readWhole(path: string, options: Part10ReadOptions): Promise<Result<ParsedPart10>> {
+    let bytes: Uint8Array;
+    try {
+        bytes = await readFile(path);
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : 'Unknown read error';
+        return err(new Error(`Failed to read file: ${message}`));
+    }
+    return parseBytes(bytes, options);
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Reads DICOM Part 10 data into the DICOM JSON Model, without DCMTK.
+ *
+ * Data without the 128-byte preamble and `DICM` prefix is read as a bare dataset,
+ * in Explicit or Implicit VR Little Endian as its first element shows. Text values
+ * are decoded according to the Specific Character Set of each dataset and item.
+ *
+ * @param bytes - The file content
+ * @param options - Reading options
+ * @returns A Result containing the dataset, File Meta Information and transfer syntax, or an error for malformed data
+ *
+ * @example
+ * ```ts
+ * const result = readPart10(bytes, { stopBeforePixelData: true });
+ * if (result.ok) {
+ *     console.log(result.value.transferSyntaxUID);
+ *     console.log(result.value.data['00100010']); // Patient Name
+ * }
+ * ```
+ */
+function readPart10(bytes: Uint8Array, options?: Part10ReadOptions): Result<Part10ReadResult> {
+    const parsed = parseBytes(bytes, options ?? {});
+    return parsed.ok ? ok(parsed.value.result) : parsed;
+}
+
+/**
+ * Reads a DICOM Part 10 file into the DICOM JSON Model, without DCMTK.
+ *
+ * With a `bulkData` policy, binary values are kept inline, dropped, or replaced by
+ * BulkDataURIs into the file, as with {@link dcm2json}. The BulkDataURIs of values stored
+ * as they are inline (all but the words of big endian and deflated data) carry their byte
+ * range, so they are read again without parsing the file. When reading stops before Pixel
+ * Data or at `stopAtTag`, only the part of the file up to there is loaded.
+ *
+ * @param path - Path of the file
+ * @param options - Reading and bulk data options
+ * @returns A Result containing the dataset, File Meta Information and transfer syntax, or an error
+ */
+async function readPart10File(path: string, options?: Part10FileReadOptions): Promise<Result<Part10ReadResult>> {
+    const stops = options?.stopBeforePixelData === true || options?.stopAtTag !== undefined;
+    const read = stops ? await readUntilStop(path, options ?? {}) : await readWhole(path, options ?? {});
+    if (!read.ok) return read;
+    const { result, ranges } = read.value;
+    const policy = options?.bulkData;
+    return ok(policy === undefined ? result : { ...result, data: applyBulkDataPolicy(result.data, path, policy, ranges) });
+}
+
+export { readPart10, readPart10File };
+export type { Part10ReadOptions, Part10FileReadOptions, Part10ReadResult };
@@ -0,0 +1,287 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DicomDataset } from './DicomDataset';
+import { readPart10 } from './part10Reader';
+import type { Part10ReadResult } from './part10Reader';
+import { writePart10, writePart10File } from './part10Writer';
+import type { Part10WriteOptions } from './part10Writer';
+import { MAX_TRAVERSAL_DEPTH } from '../constants';
+import type { DicomJsonModel } from '../tools/_xmlToJson';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const EXPLICIT_LE = '1.2.840.10008.1.2.1';
+const IMPLICIT_LE = '1.2.840.10008.1.2';
+const EXPLICIT_BE = '1.2.840.10008.1.2.2';
+const DEFLATED = '1.2.840.10008.1.2.1.99';
+const JPEG_BASELINE = '1.2.840.10008.1.2.4.50';
+
+const SOP: DicomJsonModel = {
+    '00080016': { vr: 'UI', Value: ['1.2.840.10008.5.1.4.1.1.7'] },
+    '00080018': { vr: 'UI', Value: ['1.2.3.4.5'] },
+};
+
+/** Creates a dataset with SOP Class and Instance UIDs and the given elements. */
+function dataset(model: DicomJsonModel): DicomDataset {
+    const result = DicomDataset.fromJson({ ...SOP, ...model });
+    if (!result.ok) throw result.error;
+    return result.value;
+}
+
+/** Writes a dataset that must serialize, returning the file content. */
+function write(model: DicomJsonModel, options?: Part10WriteOptions): Uint8Array {
+    const result = writePart10(dataset(model), options);
+    if (!result.ok) throw result.error;
+    return result.value;
+}
+
+/** Writes a dataset and reads it back. */
+function roundTrip(model: DicomJsonModel, options?: Part10WriteOptions): Part10ReadResult {
+    const result = readPart10(write(model, options));
+    if (!result.ok) throw result.error;
+    return result.value;
+}
+
+/** Returns the offset of an ASCII marker in the bytes. */
+const indexOf = (bytes: Uint8Array, marker: string): number => Buffer.from(bytes).indexOf(marker, 0, 'latin1');
+
+const NESTED: DicomJsonModel = {
+    '00081115': {
+        vr: 'SQ',
+        Value: [
+            {
+                '0020000E': { vr: 'UI', Value: ['1.2.3'] },
+                '00081199': { vr: 'SQ', Value: [{ '00081150': { vr: 'UI', Value: ['1.2.4'] } }, {}] },
+            },
+        ],
+    },
+    '00400275': { vr: 'SQ' },
+};
+
+// ---------------------------------------------------------------------------
+// writePart10
+// ---------------------------------------------------------------------------
+
+describe('writePart10', () => {
+    it('writes a preamble and File Meta Information computed from the dataset', () => {
+        const bytes = write({ '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Doe^Jane' }] } });
+        const read = readPart10(bytes);
+
+        expect(Buffer.from(bytes.subarray(128, 132)).toString('latin1')).toBe('DICM');
+        expect(read.ok).toBe(true);
+        if (!read.ok) return;
+        expect(read.value.transferSyntaxUID).toBe(EXPLICIT_LE);
+        expect(read.value.fileMeta['00020001']).toEqual({ vr: 'OB', InlineBinary: 'AAE=' });
+        expect(read.value.fileMeta['00020002']).toEqual({ vr: 'UI', Value: ['1.2.840.10008.5.1.4.1.1.7'] });
+        expect(read.value.fileMeta['00020003']).toEqual({ vr: 'UI', Value: ['1.2.3.4.5'] });
+        expect(read.value.fileMeta['00020012']?.Value).toHaveLength(1);
+        expect(read.value.fileMeta['00020013']).toEqual({ vr: 'SH', Value: ['DCMTKJS_001'] });
+        const datasetStart = 144 + new DataView(bytes.buffer).getUint32(140, true);
+        expect([...bytes.subarray(datasetStart, datasetStart + 6)]).toEqual([0x08, 0x00, 0x16, 0x00, 0x55, 0x49]);
+    });
+
+    it('keeps further File Meta Information elements, computing the rest', () => {
+        const fileMeta: DicomJsonModel = {
+            '00020003': { vr: 'UI', Value: ['9.9.9'] },
+            '00020016': { vr: 'AE', Value: ['SOURCE_AE'] },
+        };
+        const read = roundTrip({ '00020010': { vr: 'UI', Value: [IMPLICIT_LE] } }, { fileMeta });
+
+        expect(read.transferSyntaxUID).toBe(EXPLICIT_LE);
+        expect(read.fileMeta['00020003']).toEqual({ vr: 'UI', Value: ['1.2.3.4.5'] });
+        expect(read.fileMeta['00020016']).toEqual({ vr: 'AE', Value: ['SOURCE_AE'] });
+        expect(read.data['00020010']).toBeUndefined();
+    });
+
+    it.each([EXPLICIT_LE, IMPLICIT_LE, DEFLATED])('round-trips values through %s', transferSyntaxUID => {
+        const model: DicomJsonModel = {
+            '00080005': { vr: 'CS', Value: ['ISO_IR 192'] },
+            '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Doe^Jane', Ideographic: 'ド^ジェーン' }] },
+            '00100020': { vr: 'LO', Value: ['ID-1', 'ID-2'] },
+            '00100030': { vr: 'DA' },
+            '00181050': { vr: 'DS', Value: [0.5, 1234.5] },
+            '00200013': { vr: 'IS', Value: [7] },
+            '00280010': { vr: 'US', Value: [512] },
+            '00189219': { vr: 'SS', Value: [-3] },
+            '00209165': { vr: 'AT', Value: ['00100010'] },
+            '00081030': { vr: 'LO', Value: ['Brain spine'] },
+            '00204000': { vr: 'LT', Value: ['one\\two'] },
+            '00089123': { vr: 'UI', Value: ['1.2.3'] },
+            '00282000': { vr: 'OB', InlineBinary: 'AQID' },
+        };
+        const read = roundTrip(model, { transferSyntaxUID });
+
+        expect(read.transferSyntaxUID).toBe(transferSyntaxUID);
+        expect(read.data).toEqual({ ...SOP, ...model, '00282000': { vr: 'OB', InlineBinary: 'AQIDAA==' } });
+    });
+
+    it('round-trips nested sequences with undefined and defined lengths', () => {
+        const undefinedLength = write(NESTED);
+        const definedLength = write(NESTED, { undefinedLength: false });
+
+        expect(indexOf(undefinedLength, 'SQ')).toBeGreaterThan(0);
+        expect(definedLength.length).toBeLessThan(undefinedLength.length);
+        for (const bytes of [undefinedLength, definedLength]) {
+            const read = readPart10(bytes);
+            expect(read.ok).toBe(true);
+            if (read.ok) expect(read.value.data).toEqual({ ...SOP, ...NESTED });
+        }
+    });
+
+    it('writes group lengths when asked, replacing those of the dataset', () => {
+        const model: DicomJsonModel = {
+            '00100000': { vr: 'UL', Value: [999] },
+            '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Doe' }] },
+            '00100020': { vr: 'LO', Value: ['ID'] },
+        };
+
+        expect(roundTrip(model).data['00100000']).toBeUndefined();
+        const read = roundTrip(model, { groupLengths: true });
+        expect(read.data['00080000']).toEqual({ vr: 'UL', Value: [8 + 26 + 8 + 10] });
+        expect(read.data['00100000']).toEqual({ vr: 'UL', Value: [8 + 4 + 8 + 2] });
+    });
+
+    it('encodes text in the Specific Character Set of each dataset and item', () => {
+        const model: DicomJsonModel = {
+            '00080005': { vr: 'CS', Value: ['ISO_IR 100'] },
+            '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Müller' }] },
+            '00081115': { vr: 'SQ', Value: [{ '00080005': { vr: 'CS', Value: ['ISO_IR 192'] }, '00081030': { vr: 'LO', Value: ['Straße'] } }] },
+        };
+        const bytes = write(model);
+
+        expect(indexOf(bytes, 'Müller')).toBeGreaterThan(0);
+        expect(Buffer.from(bytes).indexOf(Buffer.from('Straße', 'utf-8'))).toBeGreaterThan(0);
+        const read = readPart10(bytes);
+        if (read.ok) expect(read.value.data).toEqual({ ...SOP, ...model });
+    });
+
+    it('shortens DS values to 16 characters and writes 64-bit integers from strings', () => {
+        const read = roundTrip({
+            '00181050': { vr: 'DS', Value: [1 / 3] },
+            '00189219': { vr: 'SV', Value: ['-9223372036854775808'] },
+            '00660040': { vr: 'UV', Value: [42] },
+        });
+
+        expect(read.data['00181050']).toEqual({ vr: 'DS', Value: [0.33333333333333] });
+        expect(read.data['00189219']).toEqual({ vr: 'SV', Value: ['-9223372036854775808'] });
+        expect(read.data['00660040']).toEqual({ vr: 'UV', Value: [42] });
+    });
+
+    it('writes encapsulated Pixel Data as its item stream in a compressed transfer syntax', () => {
+        const items = Buffer.concat([Buffer.from([0xfe, 0xff, 0x00, 0xe0, 0, 0, 0, 0]), Buffer.from([0xfe, 0xff, 0x00, 0xe0, 2, 0, 0, 0, 0xff, 0xd8])]);
+        const pixelData = { vr: 'OB', InlineBinary: items.toString('base64') };
+        const read = roundTrip({ '7FE00010': pixelData }, { transferSyntaxUID: JPEG_BASELINE });
+
+        expect(read.transferSyntaxUID).toBe(JPEG_BASELINE);
+        expect(read.data['7FE00010']).toEqual(pixelData);
+    });
+
+    it('writes nested Pixel Data encapsulated when it holds an item stream, and native otherwise', () => {
+        const items = Buffer.concat([Buffer.from([0xfe, 0xff, 0x00, 0xe0, 0, 0, 0, 0]), Buffer.from([0xfe, 0xff, 0x00, 0xe0, 2, 0, 0, 0, 0xff, 0xd8])]);
+        const encapsulatedIcon = { vr: 'OB', InlineBinary: items.toString('base64') };
+        const nativeIcon = { vr: 'OB', InlineBinary: Buffer.from([0xfe, 0xff, 0x00, 0xe0, 8, 0, 0, 0]).toString('base64') };
+        const icons = { '00880200': { vr: 'SQ', Value: [{ '7FE00010': encapsulatedIcon }, { '7FE00010': nativeIcon }] } };
+
+        const bytes = write(icons, { transferSyntaxUID: JPEG_BASELINE });
+        const undefinedOB = Buffer.from([0xe0, 0x7f, 0x10, 0x00, 0x4f, 0x42, 0, 0, 0xff, 0xff, 0xff, 0xff]);
+        const definedOB = Buffer.from([0xe0, 0x7f, 0x10, 0x00, 0x4f, 0x42, 0, 0, 8, 0, 0, 0]);
+        expect(Buffer.from(bytes).indexOf(undefinedOB)).toBeGreaterThan(0);
+        expect(Buffer.from(bytes).indexOf(definedOB)).toBeGreaterThan(0);
+
+        const read = readPart10(bytes);
+        if (!read.ok) throw read.error;
+        expect(read.value.data['00880200']).toEqual(icons['00880200']);
+    });
+
+    it('rejects values that do not fit their VR', () => {
+        const cases: ReadonlyArray<readonly [DicomJsonModel, string]> = [
+            [{ '00280010': { vr: 'US', Value: [70000] } }, '(0028,0010): 70000 is not a valid US value'],
+            [{ '00209165': { vr: 'AT', Value: ['0010'] } }, '(0020,9165): "0010" is not a valid AT value'],
+            [{ '00204000': { vr: 'LO', Value: ['x'.repeat(70000)] } }, '(0020,4000): a LO value cannot be longer than 65535 bytes'],
+            [{ '7FE00010': { vr: 'OB', BulkDataURI: 'file:///x.dcm?offset=0&length=2' } }, '(7FE0,0010) has a BulkDataURI'],
+            [{ '00280010': { vr: 'US', Value: [{}] } }, '(0028,0010): {} is not a valid US value'],
+            [{ '00189219': { vr: 'FL', Value: ['abc'] } }, '(0018,9219): "abc" is not a valid FL value'],
+            [{ '00720082': { vr: 'SV', Value: [true] } }, '(0072,0082): true is not a valid SV value'],
+            [{ '00720082': { vr: 'SV', Value: ['x'] } }, '(0072,0082): "x" is not a valid SV value'],
+            [{ '00720082': { vr: 'SV', Value: ['99999999999999999999'] } }, '(0072,0082): "99999999999999999999" is not a valid SV value'],
+            [{ '00281201': { vr: 'OW', Value: [1] } }, '(0028,1201): OW values must be InlineBinary'],
+            [
+                { '00080005': { vr: 'CS', Value: ['ISO_IR 100'] }, '00100010': { vr: 'PN', Value: [{ Alphabetic: '山田' }] } },
+                '(0010,0010): "山" cannot be encoded in Specific Character Set ISO_IR 100',
+            ],
+            [{ XYZ: { vr: 'LO', Value: ['a'] } }, '"XYZ" is not a hex tag'],
+            [{ '00081115': { vr: 'SQ', Value: [null] } }, '(0008,1115): item 0 is not a dataset'],
+        ];
+        for (const [model, message] of cases) {
+            const result = writePart10(dataset(model));
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toContain(message);
+        }
+    });
+
+    it('rejects sequences nested deeper than MAX_TRAVERSAL_DEPTH', () => {
+        let model: DicomJsonModel = { '00100020': { vr: 'LO', Value: ['leaf'] } };
+        for (let i = 0; i <= MAX_TRAVERSAL_DEPTH; i++) model = { '00081115': { vr: 'SQ', Value: [model] } };
+        const result = writePart10(dataset(model));
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toContain(`sequences nested deeper than ${MAX_TRAVERSAL_DEPTH} levels`);
+    });
+
+    it('writes elements with lower-case keys and values larger than the initial buffer', () => {
+        const large = Buffer.alloc(100_000, 7).toString('base64');
+        const read = roundTrip({ '0008103e': { vr: 'LO', Value: ['lower'] }, '7FE00010': { vr: 'OB', InlineBinary: large } });
+        expect(read.data['0008103E']).toEqual({ vr: 'LO', Value: ['lower'] });
+        expect(read.data['7FE00010']).toEqual({ vr: 'OB', InlineBinary: large });
+    });
+
+    it('rejects a dataset without SOP Instance UID and Explicit VR Big Endian', () => {
+        const noInstance = DicomDataset.fromJson({ '00080016': SOP['00080016'] as DicomJsonModel[string] });
+        if (!noInstance.ok) throw noInstance.error;
+
+        const missing = writePart10(noInstance.value);
+        expect(missing.ok).toBe(false);
+        if (!missing.ok)
+            expect(missing.error.message).toBe(
+                'Failed to write DICOM Part 10 data: the dataset has no SOPInstanceUID (0008,0018) for the File Meta Information'
+            );
+        const bigEndian = writePart10(dataset({}), { transferSyntaxUID: EXPLICIT_BE });
+        expect(bigEndian.ok).toBe(false);
+        if (!bigEndian.ok) expect(bigEndian.error.message).toMatch(/Big Endian is not supported/);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// writePart10File
+// ---------------------------------------------------------------------------
+
+describe('writePart10File', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'part10-writer-'));
+    });
+
+    afterAll(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('writes the file content', async () => {
+        const path = join(dir, 'out.dcm');
+        const result = await writePart10File(dataset({ '00100020': { vr: 'LO', Value: ['FILE'] } }), path);
+
+        expect(result.ok).toBe(true);
+        const read = readPart10(await readFile(path));
+        if (read.ok) expect(read.value.data['00100020']).toEqual({ vr: 'LO', Value: ['FILE'] });
+    });
+
+    it('reports a file that cannot be written', async () => {
+        const result = await writePart10File(dataset({}), join(dir, 'missing', 'out.dcm'));
+
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/^Failed to write file: /);
+    });
+});
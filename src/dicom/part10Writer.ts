@@ -0,0 +1,599 @@
+/**
+ * In-process writer of DICOM Part 10 files, the counterpart of {@link readPart10}.
+ *
+ * Serializes a {@link DicomDataset} with a freshly computed File Meta Information in
+ * Explicit VR Little Endian, Implicit VR Little Endian or Deflated Explicit VR Little
+ * Endian. Datasets read from a compressed file can be written back in its transfer
+ * syntax: their Pixel Data, at the top level or nested such as that of an icon, holds the
+ * encapsulated items as `readPart10` returns them.
+ *
+ * Elements are written in ascending tag order. Group lengths (gggg,0000) in the dataset
+ * are dropped, and written anew when asked. Text values are encoded in the Specific
+ * Character Set of their dataset or sequence item; binary values must be InlineBinary.
+ *
+ * Writing is iterative, with an explicit stack of open sequences and items (no recursion — Rule 8.2).
+ * Lengths of defined-length sequences, items and groups are patched in once their content is written.
+ *
+ * @see DICOM PS3.10 Section 7 — DICOM File Format
+ * @module dicom/part10Writer
+ */
+
+import { writeFile } from 'node:fs/promises';
+import { deflateRawSync } from 'node:zlib';
+import { MAX_TRAVERSAL_DEPTH } from '../constants';
+import type { Result } from '../types';
+import { ok, err } from '../types';
+import { CHARACTER_SET_VRS, characterSetTerms, encodeText } from '../tools/_characterSet';
+import type { DicomJsonElement, DicomJsonModel } from '../tools/_xmlToJson';
+import {
+    BINARY_WORD_SIZES,
+    DICM_PREFIX,
+    EXPLICIT_LITTLE,
+    IMPLEMENTATION_CLASS_UID,
+    IMPLEMENTATION_VERSION_NAME,
+    ITEM_DELIMITER_TAG,
+    ITEM_TAG,
+    LONG_LENGTH_VRS,
+    PIXEL_DATA_TAG,
+    PREAMBLE_LENGTH,
+    SEQUENCE_DELIMITER_TAG,
+    TransferSyntaxUID,
+    UNDEFINED_LENGTH,
+    isEncapsulatedSyntax,
+    transferSyntaxEncoding,
+} from './_part10';
+import type { ByteSyntax } from './_part10';
+import type { DicomDataset } from './DicomDataset';
+import { valueToString } from './transforms';
+import { VR } from './vr';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Options for {@link writePart10}. */
+interface Part10WriteOptions {
+    /**
+     * Transfer syntax of the file. Defaults to Explicit VR Little Endian. Explicit VR Big Endian
+     * is not supported; compressed transfer syntaxes need encapsulated Pixel Data.
+     */
+    readonly transferSyntaxUID?: string | undefined;
+    /** Write sequences and items with undefined length, closed by delimitation items. Defaults to true, as DCMTK does. */
+    readonly undefinedLength?: boolean | undefined;
+    /** Write a group length (gggg,0000) for every group of the dataset and its items. Defaults to false. */
+    readonly groupLengths?: boolean | undefined;
+    /**
+     * Further File Meta Information elements, such as those {@link readPart10} returns. Group
+     * length, version, SOP Class and Instance, transfer syntax and implementation elements
+     * are always computed.
+     */
+    readonly fileMeta?: DicomJsonModel | undefined;
+}
+
+/** A growable output buffer whose written bytes can be patched. */
+interface ByteWriter {
+    buffer: Uint8Array;
+    view: DataView;
+    length: number;
+}
+
+/** How a dataset is encoded. */
+interface EncodeContext {
+    readonly writer: ByteWriter;
+    readonly syntax: ByteSyntax;
+    readonly undefinedLength: boolean;
+    readonly groupLengths: boolean;
+    /** Pixel Data is written as encapsulated items. */
+    readonly encapsulated: boolean;
+}
+
+/** A group whose length element is written, with the offset of its value. */
+interface OpenGroup {
+    readonly group: string;
+    readonly valueAt: number;
+}
+
+/** A dataset or item being written; `lengthAt` is the offset of a defined item length to patch. */
+interface DatasetFrame {
+    readonly kind: 'dataset';
+    readonly model: DicomJsonModel;
+    readonly keys: readonly string[];
+    index: number;
+    group: OpenGroup | undefined;
+    readonly terms: readonly string[];
+    readonly depth: number;
+    readonly item: boolean;
+    readonly lengthAt: number | undefined;
+}
+
+/** A sequence being written; `lengthAt` is the offset of a defined sequence length to patch. */
+interface SequenceFrame {
+    readonly kind: 'sequence';
+    readonly tag: string;
+    readonly items: readonly unknown[];
+    index: number;
+    readonly terms: readonly string[];
+    readonly depth: number;
+    readonly lengthAt: number | undefined;
+}
+
+type Frame = DatasetFrame | SequenceFrame;
+
+/** Size and writer of one value of a binary number VR. */
+interface NumberWriter {
+    readonly size: number;
+    /** Writes a value; returns false when it is not representable in the VR. */
+    readonly write: (view: DataView, offset: number, value: unknown) => boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Initial capacity of an output buffer. */
+const INITIAL_CAPACITY = 64 * 1024;
+
+/** Largest value length of an element with a 16-bit explicit VR length. */
+const MAX_SHORT_LENGTH = 0xffff;
+
+/** Largest number of characters of a DS value. */
+const MAX_DECIMAL_LENGTH = 16;
+
+/** File Meta Information Version (0002,0001): version 1, as base64. */
+const FILE_META_VERSION = 'AAE=';
+
+/** Hex keys of the File Meta Information elements the writer computes. */
+const COMPUTED_META_KEYS: ReadonlySet<string> = new Set(['00020000', '00020001', '00020002', '00020003', '00020010', '00020012', '00020013']);
+
+/** Matches a hex model key. */
+const TAG_KEY_PATTERN = /^[0-9A-F]{8}$/;
+
+/** Writers of the binary number VRs. */
+const NUMBER_WRITERS: Readonly<Record<string, NumberWriter>> = {
+    US: integerWriter(2, 0, 0xffff, (view, offset, value) => view.setUint16(offset, value, true)),
+    SS: integerWriter(2, -0x8000, 0x7fff, (view, offset, value) => view.setInt16(offset, value, true)),
+    UL: integerWriter(4, 0, 0xffffffff, (view, offset, value) => view.setUint32(offset, value, true)),
+    SL: integerWriter(4, -0x80000000, 0x7fffffff, (view, offset, value) => view.setInt32(offset, value, true)),
+    FL: floatWriter(4, (view, offset, value) => view.setFloat32(offset, value, true)),
+    FD: floatWriter(8, (view, offset, value) => view.setFloat64(offset, value, true)),
+    SV: bigIntWriter(true),
+    UV: bigIntWriter(false),
+};
+
+// ---------------------------------------------------------------------------
+// Number writers
+// ---------------------------------------------------------------------------
+
+/** Returns a JSON number, or a numeric string as a number; NaN for anything else. */
+function toNumeric(value: unknown): number {
+    if (typeof value === 'number') return value;
+    return typeof value === 'string' && value.trim() !== '' ? Number(value) : Number.NaN;
+}
+
+/** Creates a writer of integers within [min, max]. */
+function integerWriter(size: number, min: number, max: number, set: (view: DataView, offset: number, value: number) => void): NumberWriter {
+    return {
+        size,
+        write: (view, offset, value): boolean => {
+            const number = toNumeric(value);
+            if (!Number.isInteger(number) || number < min || number > max) return false;
+            set(view, offset, number);
+            return true;
+        },
+    };
+}
+
+/** Creates a writer of floating point numbers; NaN is accepted only as a JSON number. */
+function floatWriter(size: number, set: (view: DataView, offset: number, value: number) => void): NumberWriter {
+    return {
+        size,
+        write: (view, offset, value): boolean => {
+            const number = toNumeric(value);
+            if (Number.isNaN(number) && typeof value !== 'number') return false;
+            set(view, offset, number);
+            return true;
+        },
+    };
+}
+
+/** Creates a writer of 64-bit integers, given as numbers or as decimal strings. */
+function bigIntWriter(signed: boolean): NumberWriter {
+    return {
+        size: 8,
+        write: (view, offset, value): boolean => {
+            if (typeof value !== 'number' && typeof value !== 'string') return false;
+            let big: bigint;
+            try {
+                big = BigInt(typeof value === 'string' ? value.trim() : value);
+            } catch {
+                return false;
+            }
+            if ((signed ? BigInt.asIntN(64, big) : BigInt.asUintN(64, big)) !== big) return false;
+            if (signed) view.setBigInt64(offset, big, true);
+            else view.setBigUint64(offset, big, true);
+            return true;
+        },
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Byte writing
+// ---------------------------------------------------------------------------
+
+/** Creates an empty output buffer. */
+function createWriter(): ByteWriter {
+    const buffer = new Uint8Array(INITIAL_CAPACITY);
+    return { buffer, view: new DataView(buffer.buffer), length: 0 };
+}
+
+/** Makes room for `size` more bytes and returns the offset they start at. */
+function reserve(writer: ByteWriter, size: number): number {
+    const offset = writer.length;
+    if (offset + size > writer.buffer.length) {
+        const grown = new Uint8Array(Math.max(writer.buffer.length * 2, offset + size));
+        grown.set(writer.buffer.subarray(0, offset));
+        writer.buffer = grown;
+        writer.view = new DataView(grown.buffer);
+    }
+    writer.length += size;
+    return offset;
+}
+
+/** Appends bytes. */
+function writeBytes(writer: ByteWriter, bytes: Uint8Array): void {
+    const offset = reserve(writer, bytes.length);
+    writer.buffer.set(bytes, offset);
+}
+
+/** Appends an unsigned 16-bit integer. */
+function writeUint16(writer: ByteWriter, value: number): void {
+    const offset = reserve(writer, 2);
+    writer.view.setUint16(offset, value, true);
+}
+
+/** Appends an unsigned 32-bit integer and returns its offset. */
+function writeUint32(writer: ByteWriter, value: number): number {
+    const offset = reserve(writer, 4);
+    writer.view.setUint32(offset, value, true);
+    return offset;
+}
+
+/** Patches the 32-bit length at `at` with the number of bytes written after it. */
+function patchLength(writer: ByteWriter, at: number): void {
+    writer.view.setUint32(at, writer.length - at - 4, true);
+}
+
+/** Returns the written bytes. */
+function written(writer: ByteWriter): Uint8Array {
+    return writer.buffer.slice(0, writer.length);
+}
+
+/** Formats a hex key as `(GGGG,EEEE)` for error messages. */
+function formatTag(tag: string): string {
+    return `(${tag.slice(0, 4)},${tag.slice(4)})`;
+}
+
+/** Appends a tag. */
+function writeTag(writer: ByteWriter, tag: string): void {
+    writeUint16(writer, Number.parseInt(tag.slice(0, 4), 16));
+    writeUint16(writer, Number.parseInt(tag.slice(4), 16));
+}
+
+/** Appends an element header and returns the offset of a 32-bit length, for patching. */
+function writeHeader(context: EncodeContext, tag: string, vr: string, length: number): number {
+    const { writer } = context;
+    writeTag(writer, tag);
+    if (!context.syntax.explicitVR) return writeUint32(writer, length);
+    writeBytes(writer, Buffer.from(vr, 'latin1'));
+    if (LONG_LENGTH_VRS.has(vr)) {
+        writeUint16(writer, 0);
+        return writeUint32(writer, length);
+    }
+    if (length > MAX_SHORT_LENGTH) throw new Error(`${formatTag(tag)}: a ${vr} value cannot be longer than ${MAX_SHORT_LENGTH} bytes`);
+    writeUint16(writer, length);
+    return -1;
+}
+
+/** Appends an item or delimitation item header and returns the offset of its length. */
+function writeItemHeader(writer: ByteWriter, tag: string, length: number): number {
+    writeTag(writer, tag);
+    return writeUint32(writer, length);
+}
+
+// ---------------------------------------------------------------------------
+// Value encoding
+// ---------------------------------------------------------------------------
+
+/** Pads a value to even length. */
+function padToEven(bytes: Uint8Array, padding: number): Uint8Array {
+    if (bytes.length % 2 === 0) return bytes;
+    const padded = new Uint8Array(bytes.length + 1);
+    padded.set(bytes);
+    padded[bytes.length] = padding;
+    return padded;
+}
+
+/** Formats a DS number in at most 16 characters. */
+function formatDecimal(value: number): string {
+    let text = String(value);
+    for (let precision = MAX_DECIMAL_LENGTH - 1; text.length > MAX_DECIMAL_LENGTH && precision > 0; precision--) {
+        text = String(Number(value.toPrecision(precision)));
+    }
+    return text;
+}
+
+/** Encodes the values of a binary number element. */
+function encodeNumbers(tag: string, vr: string, values: readonly unknown[], writer: NumberWriter): Uint8Array {
+    const bytes = new Uint8Array(values.length * writer.size);
+    const view = new DataView(bytes.buffer);
+    values.forEach((value, index) => {
+        if (!writer.write(view, index * writer.size, value)) throw new Error(`${formatTag(tag)}: ${JSON.stringify(value)} is not a valid ${vr} value`);
+    });
+    return bytes;
+}
+
+/** Encodes the values of an AT element, given as hex tags. */
+function encodeTags(tag: string, values: readonly unknown[]): Uint8Array {
+    const writer = createWriter();
+    for (const value of values) {
+        if (typeof value !== 'string' || !TAG_KEY_PATTERN.test(value.toUpperCase()))
+            throw new Error(`${formatTag(tag)}: ${JSON.stringify(value)} is not a valid AT value`);
+        writeTag(writer, value);
+    }
+    return written(writer);
+}
+
+/** Encodes the values of a text element in the character set, backslash-delimited. */
+function encodeTextValues(tag: string, element: DicomJsonElement, terms: readonly string[]): Uint8Array {
+    const vr = element.vr;
+    const text = (element.Value ?? []).map(value => (typeof value === 'number' && vr === VR.DS ? formatDecimal(value) : valueToString(value))).join('\\');
+    const encoded = CHARACTER_SET_VRS.has(vr) ? encodeText(text, terms) : ok(new TextEncoder().encode(text));
+    if (!encoded.ok) throw new Error(`${formatTag(tag)}: ${encoded.error.message}`);
+    return padToEven(encoded.value, vr === VR.UI ? 0x00 : 0x20);
+}
+
+/** Encodes the value of a non-sequence element. */
+function encodeValue(tag: string, element: DicomJsonElement, terms: readonly string[]): Uint8Array {
+    if (element.BulkDataURI !== undefined) throw new Error(`${formatTag(tag)} has a BulkDataURI; read it inline before writing`);
+    if (element.InlineBinary !== undefined) return padToEven(Buffer.from(element.InlineBinary, 'base64'), 0x00);
+    const values = element.Value ?? [];
+    if (values.length === 0) return new Uint8Array(0);
+    const numbers = NUMBER_WRITERS[element.vr];
+    if (numbers !== undefined) return encodeNumbers(tag, element.vr, values, numbers);
+    if (element.vr === VR.AT) return encodeTags(tag, values);
+    if (BINARY_WORD_SIZES[element.vr] !== undefined) throw new Error(`${formatTag(tag)}: ${element.vr} values must be InlineBinary`);
+    return encodeTextValues(tag, element, terms);
+}
+
+// ---------------------------------------------------------------------------
+// Dataset encoding (explicit stack — Rule 8.2)
+// ---------------------------------------------------------------------------
+
+/** Returns the sorted keys of a model's elements, without group lengths and with or without File Meta Information. */
+function elementKeys(model: DicomJsonModel, fileMeta: boolean): string[] {
+    const keys = Object.keys(model).map(key => key.toUpperCase());
+    const invalid = keys.find(key => !TAG_KEY_PATTERN.test(key));
+    if (invalid !== undefined) throw new Error(`"${invalid}" is not a hex tag`);
+    return keys.filter(key => !key.endsWith('0000') && key.startsWith('0002') === fileMeta).sort();
+}
+
+/** Returns the element of a key that {@link elementKeys} may have uppercased. */
+function elementAt(model: DicomJsonModel, key: string): DicomJsonElement {
+    return (model[key] ?? model[key.toLowerCase()] ?? Object.entries(model).find(([k]) => k.toUpperCase() === key)?.[1]) as DicomJsonElement;
+}
+
+/** Creates the frame of a dataset or sequence item, with the character set it declares or inherits. */
+function datasetFrame(model: DicomJsonModel, inherited: readonly string[], depth: number, lengthAt?: number): DatasetFrame {
+    const declared = model['00080005'];
+    const terms = declared !== undefined ? characterSetTerms(declared) : inherited;
+    return { kind: 'dataset', model, keys: elementKeys(model, false), index: 0, group: undefined, terms, depth, item: depth > 0, lengthAt };
+}
+
+/** Patches the length of the open group, if any. */
+function closeGroup(context: EncodeContext, frame: DatasetFrame): void {
+    if (frame.group !== undefined) patchLength(context.writer, frame.group.valueAt);
+    frame.group = undefined;
+}
+
+/** Writes a group length element with a placeholder value when an element starts a new group. */
+function openGroup(context: EncodeContext, frame: DatasetFrame, tag: string): void {
+    const group = tag.slice(0, 4);
+    if (!context.groupLengths || frame.group?.group === group) return;
+    closeGroup(context, frame);
+    writeHeader(context, `${group}0000`, VR.UL, 4);
+    frame.group = { group, valueAt: writeUint32(context.writer, 0) };
+}
+
+/** Writes a sequence header and opens the sequence, to be written item by item. */
+function openSequence(context: EncodeContext, frame: DatasetFrame, tag: string, stack: Frame[]): void {
+    const depth = frame.depth + 1;
+    if (depth > MAX_TRAVERSAL_DEPTH) throw new Error(`${formatTag(tag)}: sequences nested deeper than ${MAX_TRAVERSAL_DEPTH} levels`);
+    const lengthAt = writeHeader(context, tag, VR.SQ, context.undefinedLength ? UNDEFINED_LENGTH : 0);
+    const items = elementAt(frame.model, tag).Value ?? [];
+    stack.push({ kind: 'sequence', tag, items, index: 0, terms: frame.terms, depth, lengthAt: context.undefinedLength ? undefined : lengthAt });
+}
+
+/** True when the bytes are a stream of items of defined length that ends with the last of them. */
+function isItemStream(bytes: Uint8Array): boolean {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 0;
+    while (offset + 8 <= bytes.length && view.getUint16(offset, true) === 0xfffe && view.getUint16(offset + 2, true) === 0xe000) {
+        offset += 8 + view.getUint32(offset + 4, true);
+    }
+    return offset > 0 && offset === bytes.length;
+}
+
+/**
+ * True when Pixel Data is written encapsulated: in a compressed transfer syntax, top-level
+ * Pixel Data always is, and Pixel Data nested in a sequence, such as that of an icon, when
+ * its value holds the items {@link readPart10} reads from an encapsulated value.
+ */
+function isEncapsulatedValue(context: EncodeContext, frame: DatasetFrame, tag: string, element: DicomJsonElement): boolean {
+    if (!context.encapsulated || tag !== PIXEL_DATA_TAG || element.InlineBinary === undefined) return false;
+    return frame.depth === 0 || isItemStream(Buffer.from(element.InlineBinary, 'base64'));
+}
+
+/** Writes encapsulated Pixel Data: its items as stored, then a sequence delimiter. */
+function writeEncapsulated(context: EncodeContext, tag: string, element: DicomJsonElement): void {
+    writeHeader(context, tag, element.vr, UNDEFINED_LENGTH);
+    writeBytes(context.writer, Buffer.from(element.InlineBinary ?? '', 'base64'));
+    writeItemHeader(context.writer, SEQUENCE_DELIMITER_TAG, 0);
+}
+
+/** Writes the next element of a dataset. */
+function writeElement(context: EncodeContext, frame: DatasetFrame, tag: string, stack: Frame[]): void {
+    const element = elementAt(frame.model, tag);
+    openGroup(context, frame, tag);
+    if (element.vr === VR.SQ) return openSequence(context, frame, tag, stack);
+    if (isEncapsulatedValue(context, frame, tag, element)) return writeEncapsulated(context, tag, element);
+    const value = encodeValue(tag, element, frame.terms);
+    writeHeader(context, tag, element.vr, value.length);
+    writeBytes(context.writer, value);
+}
+
+/** Ends a dataset: patches its last group length and closes the item it is in. */
+function closeDataset(context: EncodeContext, frame: DatasetFrame): void {
+    closeGroup(context, frame);
+    if (!frame.item) return;
+    if (frame.lengthAt === undefined) writeItemHeader(context.writer, ITEM_DELIMITER_TAG, 0);
+    else patchLength(context.writer, frame.lengthAt);
+}
+
+/** Writes the next item of a sequence, or closes the sequence; returns true when it is closed. */
+function stepSequence(context: EncodeContext, frame: SequenceFrame, stack: Frame[]): boolean {
+    const item = frame.items[frame.index++];
+    if (item === undefined) {
+        if (frame.lengthAt === undefined) writeItemHeader(context.writer, SEQUENCE_DELIMITER_TAG, 0);
+        else patchLength(context.writer, frame.lengthAt);
+        return true;
+    }
+    if (typeof item !== 'object' || item === null) throw new Error(`${formatTag(frame.tag)}: item ${frame.index - 1} is not a dataset`);
+    const lengthAt = writeItemHeader(context.writer, ITEM_TAG, context.undefinedLength ? UNDEFINED_LENGTH : 0);
+    stack.push(datasetFrame(item as DicomJsonModel, frame.terms, frame.depth, context.undefinedLength ? undefined : lengthAt));
+    return false;
+}
+
+/** Encodes a dataset and the sequences nested in it. */
+function encodeDataset(context: EncodeContext, root: DatasetFrame): void {
+    const stack: Frame[] = [root];
+    while (stack.length > 0) {
+        const frame = stack[stack.length - 1] as Frame;
+        if (frame.kind === 'sequence') {
+            if (stepSequence(context, frame, stack)) stack.pop();
+        } else if (frame.index < frame.keys.length) {
+            writeElement(context, frame, frame.keys[frame.index++] as string, stack);
+        } else {
+            closeDataset(context, frame);
+            stack.pop();
+        }
+    }
+}
+
+// ---------------------------------------------------------------------------
+// File Meta Information
+// ---------------------------------------------------------------------------
+
+/** Returns a UID the File Meta Information takes from the dataset. */
+function requiredUid(model: DicomJsonModel, key: string, name: string): string {
+    const value = model[key]?.Value?.[0];
+    if (typeof value !== 'string' || value === '') throw new Error(`the dataset has no ${name} ${formatTag(key)} for the File Meta Information`);
+    return value;
+}
+
+/** Builds the File Meta Information of a dataset. */
+function buildFileMeta(model: DicomJsonModel, transferSyntaxUID: string, extra: DicomJsonModel): DicomJsonModel {
+    const meta: Record<string, DicomJsonElement> = {};
+    for (const [key, element] of Object.entries(extra)) {
+        if (key.startsWith('0002') && !COMPUTED_META_KEYS.has(key)) meta[key] = element;
+    }
+    return {
+        ...meta,
+        '00020001': { vr: VR.OB, InlineBinary: FILE_META_VERSION },
+        '00020002': { vr: VR.UI, Value: [requiredUid(model, '00080016', 'SOPClassUID')] },
+        '00020003': { vr: VR.UI, Value: [requiredUid(model, '00080018', 'SOPInstanceUID')] },
+        '00020010': { vr: VR.UI, Value: [transferSyntaxUID] },
+        '00020012': { vr: VR.UI, Value: [IMPLEMENTATION_CLASS_UID] },
+        '00020013': { vr: VR.SH, Value: [IMPLEMENTATION_VERSION_NAME] },
+    };
+}
+
+/** Encodes a dataset frame with the given encoding into a new buffer. */
+function encodeFrame(frame: DatasetFrame, options: Omit<EncodeContext, 'writer'>): Uint8Array {
+    const context: EncodeContext = { ...options, writer: createWriter() };
+    encodeDataset(context, frame);
+    return written(context.writer);
+}
+
+/** Serializes a dataset; throws on values that cannot be written. */
+function serialize(model: DicomJsonModel, options: Part10WriteOptions): Uint8Array {
+    const uid = options.transferSyntaxUID ?? TransferSyntaxUID.EXPLICIT_VR_LITTLE_ENDIAN;
+    if (uid === TransferSyntaxUID.EXPLICIT_VR_BIG_ENDIAN) throw new Error('Explicit VR Big Endian is not supported for writing');
+    const { syntax, deflated } = transferSyntaxEncoding(uid);
+    const undefinedLength = options.undefinedLength ?? true;
+
+    const meta = buildFileMeta(model, uid, options.fileMeta ?? {});
+    const metaFrame: DatasetFrame = { ...datasetFrame(meta, [], 0), keys: elementKeys(meta, true) };
+    const header = encodeFrame(metaFrame, { syntax: EXPLICIT_LITTLE, undefinedLength, groupLengths: true, encapsulated: false });
+    const groupLengths = options.groupLengths ?? false;
+    const dataset = encodeFrame(datasetFrame(model, [], 0), { syntax, undefinedLength, groupLengths, encapsulated: isEncapsulatedSyntax(uid) });
+    const body = deflated ? padToEven(deflateRawSync(dataset), 0x00) : dataset;
+
+    const file = new Uint8Array(PREAMBLE_LENGTH + DICM_PREFIX.length + header.length + body.length);
+    file.set(Buffer.from(DICM_PREFIX, 'latin1'), PREAMBLE_LENGTH);
+    file.set(header, PREAMBLE_LENGTH + DICM_PREFIX.length);
+    file.set(body, PREAMBLE_LENGTH + DICM_PREFIX.length + header.length);
+    return file;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Serializes a dataset as a DICOM Part 10 file, without DCMTK.
+ *
+ * The File Meta Information is computed: its Media Storage SOP Class and Instance UIDs
+ * are taken from the dataset's SOPClassUID and SOPInstanceUID, which must be present.
+ * Group 0002 elements of the dataset are ignored; pass them as `fileMeta` to keep them.
+ *
+ * @param dataset - The dataset to write
+ * @param options - Transfer syntax, length and File Meta Information options
+ * @returns A Result containing the file content, or an error naming the first element that cannot be written
+ *
+ * @example
+ * ```ts
+ * const bytes = writePart10(dataset, { transferSyntaxUID: '1.2.840.10008.1.2' });
+ * if (bytes.ok) await writeFile('/path/to/out.dcm', bytes.value);
+ * ```
+ */
+function writePart10(dataset: DicomDataset, options?: Part10WriteOptions): Result<Uint8Array> {
+    try {
+        return ok(serialize(dataset.toJson(), options ?? {}));
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : 'Unknown write error';
+        return err(new Error(`Failed to write DICOM Part 10 data: ${message}`));
+    }
+}
+
+/**
+ * Writes a dataset to a DICOM Part 10 file, without DCMTK.
+ *
+ * @param dataset - The dataset to write
+ * @param path - Path of the file to write
+ * @param options - Transfer syntax, length and File Meta Information options
+ * @returns A Result indicating success, or an error
+ */
+async function writePart10File(dataset: DicomDataset, path: string, options?: Part10WriteOptions): Promise<Result<void>> {
+    const bytes = writePart10(dataset, options);
+    if (!bytes.ok) return err(bytes.error);
+    try {
+        await writeFile(path, bytes.value);
+        return ok(undefined);
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : 'Unknown write error';
+        return err(new Error(`Failed to write file: ${message}`));
+    }
+}
+
+export { writePart10, writePart10File };
+export type { Part10WriteOptions };
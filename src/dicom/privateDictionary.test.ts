@@ -0,0 +1,180 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+    registerPrivateDictionary,
+    lookupPrivateTag,
+    clearPrivateDictionaries,
+    parsePrivateDictionary,
+    loadPrivateDictionary,
+    formatDcmtkDictionary,
+    placePrivateRef,
+    findCreatorBlock,
+    findFreeCreatorBlock,
+    lookupPrivateElement,
+    lookupPrivateVR,
+} from './privateDictionary';
+import type { PrivateDictionaryEntry } from './privateDictionary';
+import type { DicomJsonModel } from '../tools/_xmlToJson';
+
+const CSA_INFO: PrivateDictionaryEntry = { creator: 'SIEMENS CSA HEADER', group: 0x0029, element: 0x10, vr: 'OB', name: 'CSAImageHeaderInfo', vm: [1, 1] };
+const CSA_TYPE: PrivateDictionaryEntry = { creator: 'SIEMENS CSA HEADER', group: 0x0029, element: 0x08, vr: 'CS', name: 'CSAImageHeaderType', vm: [1, 1] };
+
+const DIC_SOURCE = [
+    '# Private dictionary',
+    '(0010,0010)\tPN\tPatientName\t1\tDICOM',
+    '(0029,"SIEMENS CSA HEADER",08)\tCS\tCSAImageHeaderType\t1\tPrivateTag',
+    '(0019,"GEMS_ACQU_01",1a)\txs\tTriggerFrequency\t1-n\tPrivateTag',
+    '(0043,"GEMS_PARM_01",29)\tOW\tReferenceChannels\t2-2n\tPrivateTag',
+    '(6001-o-60ff,"ACME",10)\tLO\tOverlayNote\t1\tPrivateTag',
+    '',
+].join('\n');
+
+afterEach(() => {
+    clearPrivateDictionaries();
+});
+
+describe('private dictionary registry', () => {
+    it('registers and looks up entries by creator, group and element', () => {
+        expect(registerPrivateDictionary([CSA_INFO, CSA_TYPE])).toEqual({ ok: true, value: 2 });
+        expect(lookupPrivateTag('SIEMENS CSA HEADER', 0x0029, 0x10)).toEqual(CSA_INFO);
+        expect(lookupPrivateTag('SIEMENS CSA HEADER ', 0x0029, 0x08)?.name).toBe('CSAImageHeaderType');
+        expect(lookupPrivateTag('SIEMENS CSA HEADER', 0x0019, 0x10)).toBeUndefined();
+        expect(lookupPrivateTag('OTHER', 0x0029, 0x10)).toBeUndefined();
+    });
+
+    it('registers nothing if an entry is invalid', () => {
+        const result = registerPrivateDictionary([CSA_INFO, { ...CSA_TYPE, group: 0x0028 }]);
+        expect(!result.ok && result.error.message).toBe('Invalid private group 40 for creator "SIEMENS CSA HEADER": expected an odd group from 0009 to FFFF');
+        expect(lookupPrivateTag('SIEMENS CSA HEADER', 0x0029, 0x10)).toBeUndefined();
+        expect(registerPrivateDictionary([{ ...CSA_INFO, element: 0x1010 }]).ok).toBe(false);
+        expect(registerPrivateDictionary([{ ...CSA_INFO, creator: ' ' }]).ok).toBe(false);
+    });
+
+    it("fills in the group of a reference from the creator's dictionary", () => {
+        registerPrivateDictionary([CSA_INFO, CSA_TYPE]);
+        expect(placePrivateRef({ creator: 'SIEMENS CSA HEADER', element: 0x10 })).toEqual({
+            ok: true,
+            value: { creator: 'SIEMENS CSA HEADER', group: 0x0029, element: 0x10 },
+        });
+        expect(placePrivateRef({ creator: 'ACME', element: 0x01 }).ok).toBe(false);
+
+        registerPrivateDictionary([{ ...CSA_INFO, group: 0x0031 }]);
+        const ambiguous = placePrivateRef({ creator: 'SIEMENS CSA HEADER', element: 0x10 });
+        expect(!ambiguous.ok && ambiguous.error.message).toBe('No group given for private creator "SIEMENS CSA HEADER", which is registered in several groups');
+    });
+});
+
+describe('parsePrivateDictionary()', () => {
+    it('parses JSON dictionaries keyed by creator and ggggxxee', () => {
+        const json = JSON.stringify({
+            'SIEMENS CSA HEADER': { '0029xx10': { vr: 'OB', name: 'CSAImageHeaderInfo' }, '0029xx08': { vr: 'CS', name: 'X', vm: [1, null] } },
+        });
+        expect(parsePrivateDictionary(json, 'json')).toEqual({
+            ok: true,
+            value: [CSA_INFO, { ...CSA_TYPE, name: 'X', vm: [1, null] }],
+        });
+    });
+
+    it('rejects malformed JSON dictionaries', () => {
+        expect(parsePrivateDictionary('{', 'json').ok).toBe(false);
+        expect(parsePrivateDictionary(JSON.stringify({ ACME: { '00291010': { vr: 'LO', name: 'X' } } }), 'json').ok).toBe(false);
+        expect(parsePrivateDictionary(JSON.stringify({ ACME: { '0029xx10': { vr: 'XX', name: 'X' } } }), 'json').ok).toBe(false);
+    });
+
+    it('parses the private lines of DCMTK dictionaries', () => {
+        expect(parsePrivateDictionary(DIC_SOURCE, 'dic')).toEqual({
+            ok: true,
+            value: [
+                CSA_TYPE,
+                { creator: 'GEMS_ACQU_01', group: 0x0019, element: 0x1a, vr: 'US', name: 'TriggerFrequency', vm: [1, null] },
+                { creator: 'GEMS_PARM_01', group: 0x0043, element: 0x29, vr: 'OW', name: 'ReferenceChannels', vm: [2, null] },
+            ],
+        });
+    });
+
+    it('names the line of an invalid DCMTK entry', () => {
+        const result = parsePrivateDictionary('\n(0029,"ACME",10)\tZZ\tNote\t1\tPrivateTag', 'dic');
+        expect(!result.ok && result.error.message).toBe('Invalid DCMTK dictionary line 2: "(0029,"ACME",10)\tZZ\tNote\t1\tPrivateTag"');
+    });
+
+    it('rejects DCMTK entries with a missing field or an invalid VM', () => {
+        for (const line of [
+            '(0029,"ACME",10)',
+            '(0029,"ACME",10)\tLO',
+            '(0029,"ACME",10)\tLO\tNote',
+            '(0029,"ACME",10)\tLO\tNote\tn',
+            '(0029,"ACME",10)\tLO\tNote\t1-',
+        ]) {
+            expect(parsePrivateDictionary(line, 'dic').ok).toBe(false);
+        }
+    });
+
+    it('round-trips through formatDcmtkDictionary', () => {
+        const entries = [CSA_INFO, { ...CSA_TYPE, vm: [1, 3] as const }, { ...CSA_TYPE, element: 0x09, vm: [1, null] as const }];
+        expect(formatDcmtkDictionary([CSA_INFO])).toBe('(0029,"SIEMENS CSA HEADER",10)\tOB\tCSAImageHeaderInfo\t1\tPrivateTag\n');
+        expect(parsePrivateDictionary(formatDcmtkDictionary(entries), 'dic')).toEqual({ ok: true, value: entries });
+    });
+});
+
+describe('loadPrivateDictionary()', () => {
+    let dir: string | undefined;
+
+    afterEach(async () => {
+        if (dir !== undefined) await rm(dir, { recursive: true, force: true });
+        dir = undefined;
+    });
+
+    it('registers .dic files as DCMTK dictionaries and other files as JSON', async () => {
+        dir = await mkdtemp(join(tmpdir(), 'private-dict-'));
+        await writeFile(join(dir, 'private.dic'), DIC_SOURCE);
+        await writeFile(join(dir, 'acme.json'), JSON.stringify({ ACME: { '0009xx01': { vr: 'LO', name: 'Note' } } }));
+
+        expect(await loadPrivateDictionary(join(dir, 'private.dic'))).toEqual({ ok: true, value: 3 });
+        expect(await loadPrivateDictionary(join(dir, 'acme.json'))).toEqual({ ok: true, value: 1 });
+        expect(lookupPrivateTag('GEMS_ACQU_01', 0x0019, 0x1a)?.vr).toBe('US');
+        expect(lookupPrivateTag('ACME', 0x0009, 0x01)?.name).toBe('Note');
+    });
+
+    it('names the file of an invalid dictionary', async () => {
+        dir = await mkdtemp(join(tmpdir(), 'private-dict-'));
+        const path = join(dir, 'acme.json');
+        await writeFile(path, '{');
+
+        const result = await loadPrivateDictionary(path);
+        expect(!result.ok && result.error.message.startsWith(`${path}: Invalid private dictionary JSON`)).toBe(true);
+    });
+
+    it('returns an error for missing files', async () => {
+        const result = await loadPrivateDictionary(join(tmpdir(), 'missing-private-dictionary.dic'));
+        expect(result.ok).toBe(false);
+    });
+});
+
+describe('creator blocks', () => {
+    const model: DicomJsonModel = {
+        '00290010': { vr: 'LO', Value: ['SIEMENS MEDCOM HEADER'] },
+        '00290011': { vr: 'LO', Value: ['SIEMENS CSA HEADER '] },
+        '00291110': { vr: 'OB', InlineBinary: 'AAAA' },
+        '00291210': { vr: 'UN', InlineBinary: 'AAAA' },
+    };
+
+    it('finds the block a creator reserved and the lowest free one', () => {
+        expect(findCreatorBlock(model, 0x0029, 'SIEMENS CSA HEADER')).toBe(0x11);
+        expect(findCreatorBlock(model, 0x0029, 'ACME')).toBeUndefined();
+        expect(findFreeCreatorBlock(model, 0x0029, new Set())).toBe(0x12);
+        expect(findFreeCreatorBlock(model, 0x0029, new Set([0x12]))).toBe(0x13);
+        expect(findFreeCreatorBlock(model, 0x0031, new Set())).toBe(0x10);
+    });
+
+    it('describes private elements through the creator of their block', () => {
+        registerPrivateDictionary([CSA_INFO]);
+        expect(lookupPrivateElement(model, '00291110')).toEqual(CSA_INFO);
+        expect(lookupPrivateElement(model, '00291010')).toBeUndefined();
+        expect(lookupPrivateElement(model, '00100010')).toBeUndefined();
+        expect(lookupPrivateVR(model, '00291110')).toBe('OB');
+        expect(lookupPrivateVR(model, '00290012')).toBe('LO');
+        expect(lookupPrivateVR(model, '00291210')).toBeUndefined();
+    });
+});
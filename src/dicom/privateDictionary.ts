@@ -0,0 +1,462 @@
+/**
+ * Private data dictionaries keyed by private creator.
+ *
+ * Private elements live in odd groups, in blocks reserved by a Private Creator element
+ * (gggg,00xx) that holds the creator string: the block's elements are (gggg,xx00)-(gggg,xxFF).
+ * The block number differs between files, so entries are registered by creator, group and
+ * the element's low byte, and resolved against the Private Creator elements of a dataset.
+ *
+ * Dictionaries are loaded from JSON or from DCMTK `.dic` files.
+ *
+ * @module dicom/privateDictionary
+ */
+
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { z } from 'zod';
+import type { Result } from '../types';
+import { ok, err } from '../types';
+import type { DicomJsonModel } from '../tools/_xmlToJson';
+import { VR } from './vr';
+import type { VRValue } from './vr';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A private element described by its creator, group and element number within the creator's block. */
+interface PrivateDictionaryEntry {
+    /** The private creator string (e.g. "SIEMENS CSA HEADER"). */
+    readonly creator: string;
+    /** The odd group number (e.g. 0x0029). */
+    readonly group: number;
+    /** The element number within the creator's block, 0x00-0xFF. */
+    readonly element: number;
+    /** The Value Representation code. */
+    readonly vr: VRValue;
+    /** The element name (e.g. "CSAImageHeaderInfo"). */
+    readonly name: string;
+    /** Value multiplicity as [min, max], where max is null if unbounded. */
+    readonly vm: readonly [number, number | null];
+}
+
+/**
+ * A creator-relative reference to a private element.
+ *
+ * @example
+ * ```ts
+ * const ref: PrivateTagRef = { creator: 'SIEMENS CSA HEADER', group: 0x0029, element: 0x10 };
+ * ```
+ */
+interface PrivateTagRef {
+    /** The private creator string. */
+    readonly creator: string;
+    /** The element number within the creator's block, 0x00-0xFF. */
+    readonly element: number;
+    /** The odd group number. Defaults to the one group the creator is registered in. */
+    readonly group?: number | undefined;
+}
+
+/** A private tag reference with its group filled in. */
+interface PlacedPrivateTagRef extends PrivateTagRef {
+    readonly group: number;
+}
+
+/** Source formats accepted by {@link parsePrivateDictionary}. */
+type PrivateDictionaryFormat = 'json' | 'dic';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** First and last block numbers a Private Creator element (gggg,0010)-(gggg,00FF) can reserve. */
+const FIRST_PRIVATE_BLOCK = 0x10;
+const LAST_PRIVATE_BLOCK = 0xff;
+
+/** Maximum length of a private creator string (LO). */
+const MAX_CREATOR_LENGTH = 64;
+
+/** DCMTK dictionary VRs that are not DICOM VRs, mapped to the VR used for them. */
+const DCMTK_VR_ALIASES: Readonly<Record<string, VRValue>> = {
+    ox: VR.OB,
+    px: VR.OB,
+    xs: VR.US,
+    lt: VR.OW,
+    up: VR.UL,
+    na: VR.UN,
+};
+
+/** Matches a private tag field of a DCMTK dictionary line: `(0029,"SIEMENS CSA HEADER",08)`. */
+const DIC_PRIVATE_TAG = /^\(([0-9A-Fa-f]{4}),"([^"]+)",([0-9A-Fa-f]{2})\)$/;
+
+/** Matches a DCMTK VM field: `1`, `1-3`, `1-n`, `2-2n`. */
+const DIC_VM = /^(\d+)(?:-(\d*)(n?))?$/;
+
+const VR_CODES = Object.values(VR) as [VRValue, ...VRValue[]];
+
+/** JSON dictionary: creator → `ggggxxee` key → entry. */
+const JsonDictionarySchema = z.record(
+    z.string().min(1),
+    z.record(
+        z.string().regex(/^[0-9A-Fa-f]{4}xx[0-9A-Fa-f]{2}$/, 'Expected a "ggggxxee" key'),
+        z
+            .object({
+                vr: z.enum(VR_CODES),
+                name: z.string().min(1),
+                vm: z.tuple([z.number().int().nonnegative(), z.number().int().positive().nullable()]).optional(),
+            })
+            .strict()
+    )
+);
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+/** Registered entries: creator → `ggggee` key → entry. */
+const registry = new Map<string, Map<string, PrivateDictionaryEntry>>();
+
+/** Formats a number as uppercase hex of a fixed width. */
+function hex(value: number, width: number): string {
+    return value.toString(16).toUpperCase().padStart(width, '0');
+}
+
+/** Returns the registry key of an entry within its creator. */
+function entryKey(group: number, element: number): string {
+    return `${hex(group, 4)}${hex(element, 2)}`;
+}
+
+/**
+ * Formats a private tag reference in DCMTK dictionary notation.
+ *
+ * @param ref - A reference with its group filled in
+ * @returns The reference as `(gggg,"creator",ee)`
+ */
+function formatPrivateRef(ref: PlacedPrivateTagRef): string {
+    return `(${hex(ref.group, 4)},"${ref.creator}",${hex(ref.element, 2)})`;
+}
+
+/** Returns true if a creator string can be held by a Private Creator element. */
+function isValidCreator(creator: string): boolean {
+    const trimmed = creator.trim();
+    return trimmed.length > 0 && trimmed.length <= MAX_CREATOR_LENGTH && !/[\\"\p{Cc}]/u.test(trimmed);
+}
+
+/** Returns true if a group number is an odd group that can hold private elements (0009-FFFF). */
+function isPrivateGroup(group: number): boolean {
+    return Number.isInteger(group) && group % 2 === 1 && group >= 0x0009 && group <= 0xffff;
+}
+
+/** Checks the creator, group and element of a reference or entry. */
+function checkPrivateRef(ref: PrivateTagRef): Result<void> {
+    if (!isValidCreator(ref.creator)) return err(new Error(`Invalid private creator "${ref.creator}"`));
+    if (ref.group !== undefined && !isPrivateGroup(ref.group)) {
+        return err(new Error(`Invalid private group ${ref.group} for creator "${ref.creator}": expected an odd group from 0009 to FFFF`));
+    }
+    if (!Number.isInteger(ref.element) || ref.element < 0 || ref.element > 0xff) {
+        return err(new Error(`Invalid private element ${ref.element} for creator "${ref.creator}": expected 0x00-0xFF`));
+    }
+    return ok(undefined);
+}
+
+/**
+ * Adds entries to the private dictionary registry.
+ *
+ * Entries are validated first; nothing is registered if any entry is invalid.
+ * An entry for the same creator, group and element replaces the earlier one.
+ *
+ * @param entries - The entries to register
+ * @returns A Result containing the number of entries registered, or an error naming the first invalid entry
+ */
+function registerPrivateDictionary(entries: ReadonlyArray<PrivateDictionaryEntry>): Result<number> {
+    for (const entry of entries) {
+        const checked = checkPrivateRef(entry);
+        if (!checked.ok) return checked;
+    }
+    for (const entry of entries) {
+        const creator = entry.creator.trim();
+        let entriesOfCreator = registry.get(creator);
+        if (entriesOfCreator === undefined) {
+            entriesOfCreator = new Map();
+            registry.set(creator, entriesOfCreator);
+        }
+        entriesOfCreator.set(entryKey(entry.group, entry.element), { ...entry, creator });
+    }
+    return ok(entries.length);
+}
+
+/**
+ * Looks up a private element in the registered dictionaries.
+ *
+ * @param creator - The private creator string
+ * @param group - The odd group number
+ * @param element - The element number within the creator's block, 0x00-0xFF
+ * @returns The dictionary entry, or undefined if none is registered
+ */
+function lookupPrivateTag(creator: string, group: number, element: number): PrivateDictionaryEntry | undefined {
+    return registry.get(creator.trim())?.get(entryKey(group, element));
+}
+
+/**
+ * Removes every registered private dictionary entry. Primarily for testing.
+ */
+function clearPrivateDictionaries(): void {
+    registry.clear();
+}
+
+/**
+ * Fills in the group of a private tag reference.
+ *
+ * A reference without a group takes the group of the creator's registered entries,
+ * which must all be in the same group.
+ *
+ * @param ref - The reference to complete
+ * @returns A Result containing the reference with its group, or an error if it is invalid or its group is unknown
+ */
+function placePrivateRef(ref: PrivateTagRef): Result<PlacedPrivateTagRef> {
+    const checked = checkPrivateRef(ref);
+    if (!checked.ok) return checked;
+    const creator = ref.creator.trim();
+    if (ref.group !== undefined) return ok({ creator, group: ref.group, element: ref.element });
+    const groups = new Set([...(registry.get(creator)?.values() ?? [])].map(entry => entry.group));
+    const [group] = groups;
+    if (group === undefined) return err(new Error(`No group given for private creator "${creator}", which has no registered dictionary`));
+    if (groups.size > 1) return err(new Error(`No group given for private creator "${creator}", which is registered in several groups`));
+    return ok({ creator, group, element: ref.element });
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** Parses a DCMTK VM field into [min, max]. */
+function parseDicVM(field: string): readonly [number, number | null] | undefined {
+    const match = DIC_VM.exec(field);
+    if (match === null) return undefined;
+    const min = Number(match[1]);
+    if (match[2] === undefined) return [min, min];
+    if (match[3] === 'n') return [min, null];
+    return match[2].length > 0 ? [min, Number(match[2])] : undefined;
+}
+
+/** Maps a DCMTK VR field to a DICOM VR. */
+function parseDicVR(field: string): VRValue | undefined {
+    return DCMTK_VR_ALIASES[field] ?? VR_CODES.find(code => code === field);
+}
+
+/** Parses a DCMTK private tag field `(gggg,"creator",ee)`. */
+function parseDicTag(field: string): Pick<PrivateDictionaryEntry, 'creator' | 'group' | 'element'> | undefined {
+    const match = DIC_PRIVATE_TAG.exec(field);
+    if (match === null) return undefined;
+    return { creator: match[2] ?? '', group: parseInt(match[1] ?? '', 16), element: parseInt(match[3] ?? '', 16) };
+}
+
+/** Parses one DCMTK dictionary line; returns undefined for lines without a single private tag. */
+function parseDicLine(line: string, lineNumber: number): Result<PrivateDictionaryEntry | undefined> {
+    const fields = line.split(/\t+/);
+    const tag = parseDicTag(fields[0] ?? '');
+    // Standard entries and group or element ranges are not private entries of one creator block
+    if (tag === undefined) return ok(undefined);
+    const vr = parseDicVR(fields[1] ?? '');
+    const name = fields[2] ?? '';
+    const vm = parseDicVM(fields[3] ?? '');
+    if (vr === undefined || vm === undefined || name.length === 0) {
+        return err(new Error(`Invalid DCMTK dictionary line ${lineNumber}: "${line}"`));
+    }
+    return ok({ ...tag, vr, name, vm });
+}
+
+/** Parses the private entries of a DCMTK `.dic` dictionary. */
+function parseDicDictionary(text: string): Result<ReadonlyArray<PrivateDictionaryEntry>> {
+    const entries: PrivateDictionaryEntry[] = [];
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const line = (lines[i] ?? '').trim();
+        if (line.length === 0 || line.startsWith('#')) continue;
+        const entry = parseDicLine(line, i + 1);
+        if (!entry.ok) return entry;
+        if (entry.value !== undefined) entries.push(entry.value);
+    }
+    return ok(entries);
+}
+
+/** Parses a JSON dictionary of the form `{ creator: { ggggxxee: { vr, name, vm? } } }`. */
+function parseJsonDictionary(text: string): Result<ReadonlyArray<PrivateDictionaryEntry>> {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch (e: unknown) {
+        return err(new Error(`Invalid private dictionary JSON: ${e instanceof Error ? e.message : String(e)}`));
+    }
+    const parsed = JsonDictionarySchema.safeParse(json);
+    if (!parsed.success) return err(new Error(`Invalid private dictionary JSON: ${parsed.error.message}`));
+    const entries: PrivateDictionaryEntry[] = [];
+    for (const [creator, elements] of Object.entries(parsed.data)) {
+        for (const [key, { vr, name, vm }] of Object.entries(elements)) {
+            entries.push({ creator, group: parseInt(key.slice(0, 4), 16), element: parseInt(key.slice(6), 16), vr, name, vm: vm ?? [1, 1] });
+        }
+    }
+    return ok(entries);
+}
+
+/**
+ * Parses a private dictionary without registering it.
+ *
+ * JSON dictionaries map each creator to its elements, keyed `ggggxxee` after the
+ * DICOM `(gggg,xxee)` notation; `vm` defaults to `[1, 1]`:
+ *
+ * ```json
+ * { "SIEMENS CSA HEADER": { "0029xx10": { "vr": "OB", "name": "CSAImageHeaderInfo" } } }
+ * ```
+ *
+ * DCMTK dictionaries contribute their private lines, e.g.
+ * `(0029,"SIEMENS CSA HEADER",10)<TAB>OB<TAB>CSAImageHeaderInfo<TAB>1<TAB>PrivateTag`.
+ * Standard entries and lines with group or element ranges are skipped.
+ *
+ * @param text - The dictionary source
+ * @param format - `'json'` or `'dic'` (DCMTK)
+ * @returns A Result containing the entries, or an error describing the first invalid entry
+ */
+function parsePrivateDictionary(text: string, format: PrivateDictionaryFormat): Result<ReadonlyArray<PrivateDictionaryEntry>> {
+    return format === 'dic' ? parseDicDictionary(text) : parseJsonDictionary(text);
+}
+
+/**
+ * Reads a private dictionary file and registers its entries.
+ *
+ * Files ending in `.dic` are read as DCMTK dictionaries, anything else as JSON
+ * (see {@link parsePrivateDictionary}).
+ *
+ * @param path - Path to the dictionary file
+ * @returns A Result containing the number of entries registered, or an error if the file cannot be read or parsed
+ */
+async function loadPrivateDictionary(path: string): Promise<Result<number>> {
+    let text: string;
+    try {
+        text = await readFile(path, 'utf8');
+    } catch (e: unknown) {
+        return err(new Error(`Cannot read private dictionary ${path}: ${e instanceof Error ? e.message : String(e)}`));
+    }
+    const entries = parsePrivateDictionary(text, extname(path).toLowerCase() === '.dic' ? 'dic' : 'json');
+    if (!entries.ok) return err(new Error(`${path}: ${entries.error.message}`));
+    return registerPrivateDictionary(entries.value);
+}
+
+/** Formats a VM range in DCMTK notation. */
+function formatDicVM([min, max]: readonly [number, number | null]): string {
+    if (max === null) return `${min}-n`;
+    return min === max ? String(min) : `${min}-${max}`;
+}
+
+/**
+ * Formats entries as a DCMTK `.dic` dictionary, e.g. to pass JSON dictionaries to DCMTK tools
+ * through `setDcmtkDictionaryPaths`.
+ *
+ * @param entries - The entries to format
+ * @returns The dictionary text, one tab-separated line per entry
+ */
+function formatDcmtkDictionary(entries: ReadonlyArray<PrivateDictionaryEntry>): string {
+    return entries.map(entry => `${formatPrivateRef(entry)}\t${entry.vr}\t${entry.name}\t${formatDicVM(entry.vm)}\tPrivateTag\n`).join('');
+}
+
+// ---------------------------------------------------------------------------
+// Creator blocks in DICOM JSON Model data
+// ---------------------------------------------------------------------------
+
+/** Returns the creator string a Private Creator element holds, if any. */
+function creatorAt(model: Readonly<DicomJsonModel>, group: number, block: number): string | undefined {
+    const value = model[`${hex(group, 4)}00${hex(block, 2)}`]?.Value?.[0];
+    return typeof value === 'string' ? value.trim() : undefined;
+}
+
+/**
+ * Finds the block a creator has reserved in a group.
+ *
+ * @param model - The dataset to search (top level only)
+ * @param group - The odd group number
+ * @param creator - The private creator string
+ * @returns The block number (0x10-0xFF), or undefined if the creator has no block in the group
+ */
+function findCreatorBlock(model: Readonly<DicomJsonModel>, group: number, creator: string): number | undefined {
+    const wanted = creator.trim();
+    for (let block = FIRST_PRIVATE_BLOCK; block <= LAST_PRIVATE_BLOCK; block++) {
+        if (creatorAt(model, group, block) === wanted) return block;
+    }
+    return undefined;
+}
+
+/**
+ * Finds the lowest block of a group that no Private Creator element reserves.
+ *
+ * @param model - The dataset to search (top level only)
+ * @param group - The odd group number
+ * @param taken - Blocks already allocated but not yet in `model`
+ * @returns The block number (0x10-0xFF), or undefined if every block is reserved
+ */
+function findFreeCreatorBlock(model: Readonly<DicomJsonModel>, group: number, taken: ReadonlySet<number>): number | undefined {
+    for (let block = FIRST_PRIVATE_BLOCK; block <= LAST_PRIVATE_BLOCK; block++) {
+        if (!taken.has(block) && model[`${hex(group, 4)}00${hex(block, 2)}`] === undefined) return block;
+    }
+    return undefined;
+}
+
+/**
+ * Builds the `(gggg,eeee)` tag of a private element or Private Creator element.
+ *
+ * @param group - The odd group number
+ * @param block - The creator's block number (0x10-0xFF)
+ * @param element - The element number within the block, or undefined for the Private Creator element
+ * @returns The tag in `(XXXX,XXXX)` format
+ */
+function privateTag(group: number, block: number, element: number | undefined): string {
+    const elementPart = element === undefined ? `00${hex(block, 2)}` : `${hex(block, 2)}${hex(element, 2)}`;
+    return `(${hex(group, 4)},${elementPart})`;
+}
+
+/**
+ * Describes a private element of a dataset through the creator that reserved its block.
+ *
+ * @param model - The dataset holding the element (the creator is looked up at the same level)
+ * @param key - The element's 8-char hex key (e.g. "00291010")
+ * @returns The dictionary entry, or undefined if the tag is not a private data element or is not registered
+ */
+function lookupPrivateElement(model: Readonly<DicomJsonModel>, key: string): PrivateDictionaryEntry | undefined {
+    const group = parseInt(key.slice(0, 4), 16);
+    const element = parseInt(key.slice(4, 8), 16);
+    if (group % 2 === 0 || element < 0x1000) return undefined;
+    const creator = creatorAt(model, group, element >> 8);
+    return creator === undefined ? undefined : lookupPrivateTag(creator, group, element & 0xff);
+}
+
+/**
+ * Returns the VR of a private element of a dataset: LO for Private Creator elements,
+ * otherwise the registered VR for the creator that reserved the element's block.
+ *
+ * @param model - The dataset holding the element
+ * @param key - The element's 8-char hex key
+ * @returns The VR, or undefined if the element is not private or not registered
+ */
+function lookupPrivateVR(model: Readonly<DicomJsonModel>, key: string): VRValue | undefined {
+    const group = parseInt(key.slice(0, 4), 16);
+    const element = parseInt(key.slice(4, 8), 16);
+    if (group % 2 === 1 && element >= FIRST_PRIVATE_BLOCK && element <= LAST_PRIVATE_BLOCK) return VR.LO;
+    return lookupPrivateElement(model, key)?.vr;
+}
+
+export {
+    registerPrivateDictionary,
+    lookupPrivateTag,
+    clearPrivateDictionaries,
+    parsePrivateDictionary,
+    loadPrivateDictionary,
+    formatDcmtkDictionary,
+    formatPrivateRef,
+    placePrivateRef,
+    findCreatorBlock,
+    findFreeCreatorBlock,
+    creatorAt,
+    privateTag,
+    lookupPrivateElement,
+    lookupPrivateVR,
+};
+export type { PrivateDictionaryEntry, PrivateTagRef, PlacedPrivateTagRef, PrivateDictionaryFormat };
@@ -119,6 +119,32 @@ describe('Tag Path Utilities', () => {
         });
     });
 
+    describe('keyword segments', () => {
+        it('resolves a bare keyword', () => {
+            const segments = tagPathToSegments(tp('PatientName'));
+            expect(segments).toEqual([{ tag: '(0010,0010)' }]);
+        });
+
+        it('resolves keywords with indices and wildcards', () => {
+            const segments = tagPathToSegments(tp('ReferencedSeriesSequence[0].ReferencedInstanceSequence[*].ReferencedSOPInstanceUID'));
+            expect(segments).toEqual([{ tag: '(0008,1115)', index: 0 }, { tag: '(0008,114A)', isWildcard: true }, { tag: '(0008,1155)' }]);
+        });
+
+        it('mixes keywords and hex tags', () => {
+            expect(segmentsToModifyPath(tagPathToSegments(tp('(0008,1115)[1].SeriesInstanceUID')))).toBe('(0008,1115)[1].(0020,000E)');
+        });
+
+        it('throws with a suggestion for an unknown keyword', () => {
+            expect(() => tagPathToSegments(tp('ReferencedSeriesSequence[0].SeriesInstanceUi'))).toThrow(
+                'Invalid tag path segment at position 28: Unknown DICOM keyword "SeriesInstanceUi". Did you mean "SeriesInstanceUID"?'
+            );
+        });
+
+        it('rejects keywords followed by garbage', () => {
+            expect(() => tagPathToSegments(tp('PatientName-x'))).toThrow('Invalid tag path segment at position 0');
+        });
+    });
+
     describe('round-trip', () => {
         it('parse → serialize → parse produces same segments for simple tag', () => {
             const original = tp('(0010,0010)');
@@ -3,16 +3,18 @@
  *
  * Provides iterative (no recursion) parsing of DICOM tag paths like
  * `(0040,A730)[0].(0040,A160)` into structured segments, and conversion
- * back to dcmodify-compatible strings.
+ * back to dcmodify-compatible strings. Segments may also be given as data
+ * dictionary keywords, e.g. `ReferencedSeriesSequence[0].SeriesInstanceUID`.
  *
  * Supports wildcard indices `[*]` for use with DicomDataset.findValues.
  *
  * @module dicom/tagPath
  */
 
-import type { DicomTag, DicomTagPath } from '../brands';
+import type { DicomTag, TagPathInput } from '../brands';
 import { createDicomTag } from '../brands';
 import { MAX_TRAVERSAL_DEPTH } from '../constants';
+import { resolveKeyword } from './dictionary';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -32,19 +34,25 @@ interface TagSegment {
 // Patterns
 // ---------------------------------------------------------------------------
 
-// Matches a tag segment: (XXXX,XXXX) optionally followed by [N] or [*]
-const SEGMENT_PATTERN = /^\(([0-9A-Fa-f]{4}),([0-9A-Fa-f]{4})\)(?:\[(\d+|\*)\])?/;
+// Matches a tag segment: (XXXX,XXXX) or a keyword, optionally followed by [N] or [*].
+// A keyword must be followed by the end of the path, a dot, or an index.
+const SEGMENT_PATTERN = /^(?:\(([0-9A-Fa-f]{4}),([0-9A-Fa-f]{4})\)|([A-Za-z][A-Za-z0-9_]*)(?=$|[.[]))(?:\[(\d+|\*)\])?/;
 
 // ---------------------------------------------------------------------------
 // Internal helpers (extracted for complexity/line limits)
 // ---------------------------------------------------------------------------
 
-/** Parses a single regex match into a TagSegment. */
-function matchToSegment(match: RegExpExecArray): TagSegment {
+/** Resolves the tag of a regex match from either its group/element or its keyword capture. */
+function matchToTag(match: RegExpExecArray, position: number): DicomTag {
+    const keyword = match[3];
+    if (keyword !== undefined) {
+        const resolved = resolveKeyword(keyword);
+        if (!resolved.ok) throw new Error(`Invalid tag path segment at position ${position}: ${resolved.error.message}`);
+        return resolved.value;
+    }
+
     const group = match[1];
     const element = match[2];
-    const indexStr = match[3];
-
     /* v8 ignore next 3 */
     if (group === undefined || element === undefined) {
         throw new Error('Failed to parse tag group/element');
@@ -53,10 +61,16 @@ function matchToSegment(match: RegExpExecArray): TagSegment {
     const tagResult = createDicomTag(`(${group},${element})`);
     /* v8 ignore next 2 */
     if (!tagResult.ok) throw new Error(`Invalid tag in path: (${group},${element})`);
+    return tagResult.value;
+}
 
-    if (indexStr === '*') return { tag: tagResult.value, isWildcard: true };
-    if (indexStr !== undefined) return { tag: tagResult.value, index: Number(indexStr) };
-    return { tag: tagResult.value };
+/** Parses a single regex match into a TagSegment. */
+function matchToSegment(match: RegExpExecArray, position: number): TagSegment {
+    const tag = matchToTag(match, position);
+    const indexStr = match[4];
+    if (indexStr === '*') return { tag, isWildcard: true };
+    if (indexStr !== undefined) return { tag, index: Number(indexStr) };
+    return { tag };
 }
 
 /** Advances past the current match and any dot separator. Returns the updated remaining string. */
@@ -76,20 +90,28 @@ function advancePastMatch(remaining: string, matchLength: number): string {
  *
  * Uses iterative parsing with bounded loop (Rule 8.2: no recursion).
  *
- * @param path - A branded DicomTagPath string
+ * Keyword segments are resolved to their `(XXXX,XXXX)` tag through the data dictionary.
+ *
+ * @param path - A branded DicomTagPath, or a tag path literal checked at compile time
  * @returns An array of TagSegment objects
- * @throws Error if the path is malformed or exceeds MAX_TRAVERSAL_DEPTH
+ * @throws Error if the path is malformed, names an unknown keyword, or exceeds MAX_TRAVERSAL_DEPTH
  *
  * @example
  * ```ts
- * tagPathToSegments('(0040,A730)[0].(0040,A160)' as DicomTagPath)
+ * tagPathToSegments('(0040,A730)[0].(0040,A160)')
  * // => [
  * //   { tag: '(0040,A730)' as DicomTag, index: 0 },
  * //   { tag: '(0040,A160)' as DicomTag }
  * // ]
+ *
+ * tagPathToSegments('ReferencedSeriesSequence[0].SeriesInstanceUID')
+ * // => [
+ * //   { tag: '(0008,1115)' as DicomTag, index: 0 },
+ * //   { tag: '(0020,000E)' as DicomTag }
+ * // ]
  * ```
  */
-function tagPathToSegments(path: DicomTagPath): ReadonlyArray<TagSegment> {
+function tagPathToSegments<P extends string>(path: TagPathInput<P>): ReadonlyArray<TagSegment> {
     const segments: TagSegment[] = [];
     let remaining: string = path;
 
@@ -98,7 +120,7 @@ function tagPathToSegments(path: DicomTagPath): ReadonlyArray<TagSegment> {
         if (match === null) {
             throw new Error(`Invalid tag path segment at position ${path.length - remaining.length}: "${remaining}"`);
         }
-        segments.push(matchToSegment(match));
+        segments.push(matchToSegment(match, path.length - remaining.length));
         remaining = advancePastMatch(remaining, match[0].length);
     }
 
@@ -0,0 +1,54 @@
+/**
+ * Type-level mapping from tag definitions to JavaScript value types.
+ *
+ * A {@link TagDefinition} carries a tag's VR and VM as literal types, so
+ * {@link TagValue} can derive the exact value type `DicomDataset.get` returns.
+ *
+ * @module dicom/tagTypes
+ */
+
+import type { DicomDataset } from './DicomDataset';
+import type { PersonName } from './values';
+import type { VRValue } from './vr';
+
+/** Value multiplicity as `[min, max]`, where `null` means unbounded. */
+type TagMultiplicity = readonly [number, number | null];
+
+/** A data dictionary attribute, as emitted into the generated `Tags` catalog. */
+interface TagDefinition<V extends VRValue = VRValue, M extends TagMultiplicity = TagMultiplicity> {
+    /** Tag in `(GGGG,EEEE)` format. */
+    readonly tag: string;
+    /** Dictionary keyword, e.g. `PatientName`. */
+    readonly keyword: string;
+    /** Value representation. */
+    readonly vr: V;
+    /** Value multiplicity. */
+    readonly vm: M;
+}
+
+/** VRs whose values are returned as numbers (DS and IS are parsed from their string form). */
+type NumberVR = 'DS' | 'IS' | 'FD' | 'FL' | 'SL' | 'SS' | 'SV' | 'UL' | 'US' | 'UV';
+
+/** VRs whose value is returned as raw bytes. */
+type BinaryVR = 'OB' | 'OD' | 'OF' | 'OL' | 'OV' | 'OW' | 'UN';
+
+/** The type of a single value of the given VR. */
+type VRScalar<V extends VRValue> = V extends 'PN' ? PersonName : V extends NumberVR ? number : string;
+
+/**
+ * The value type `DicomDataset.get` returns for a tag definition.
+ *
+ * - SQ: the sequence items as datasets
+ * - OB/OD/OF/OL/OV/OW/UN: the decoded bytes
+ * - VM exactly 1: a single value
+ * - otherwise: a readonly array of values
+ */
+type TagValue<T extends TagDefinition> = T['vr'] extends 'SQ'
+    ? ReadonlyArray<DicomDataset>
+    : T['vr'] extends BinaryVR
+      ? Uint8Array
+      : T['vm'] extends readonly [1, 1]
+        ? VRScalar<T['vr']>
+        : ReadonlyArray<VRScalar<T['vr']>>;
+
+export type { TagDefinition, TagMultiplicity, TagValue };
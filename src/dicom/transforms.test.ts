@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { ChangeSet } from './ChangeSet';
+import type { DicomJsonModel } from '../tools/_xmlToJson';
+import { makeDataset, makeSampleData } from '../../test/helpers';
+
+/** Date elements beyond the StudyDate of the sample data, one of them in sequence items. */
+const DATES: DicomJsonModel = {
+    '0008002A': { vr: 'DT', Value: ['20240115103000.5+0100'] },
+    '00100030': { vr: 'DA', Value: ['19800229'] },
+    '00400275': {
+        vr: 'SQ',
+        Value: [{ '00400244': { vr: 'DA', Value: ['20240114'] } }, { '00400244': { vr: 'DA', Value: ['20231231'] } }],
+    },
+};
+
+function resolve(changeSet: ChangeSet, data: DicomJsonModel = { ...makeSampleData(), ...DATES }): ReadonlyMap<string, string> {
+    const result = changeSet.resolve(makeDataset(data));
+    if (!result.ok) throw result.error;
+    expect(result.value.transforms.size).toBe(0);
+    return result.value.modifications;
+}
+
+function resolveError(changeSet: ChangeSet, data: DicomJsonModel = { ...makeSampleData(), ...DATES }): string {
+    const result = changeSet.resolve(makeDataset(data));
+    if (result.ok) throw new Error('expected resolution to fail');
+    return result.error.message;
+}
+
+describe('ChangeSet transform resolution', () => {
+    it('returns the same ChangeSet when there are no transforms', () => {
+        const cs = ChangeSet.empty().setTag('PatientID', 'X');
+        const result = cs.resolve(makeDataset());
+        expect(result.ok && result.value).toBe(cs);
+    });
+
+    describe('shiftDate', () => {
+        it('shifts DA values across month and leap-day boundaries', () => {
+            expect(resolve(ChangeSet.empty().shiftDate('StudyDate', 17)).get('(0008,0020)')).toBe('20240201');
+            expect(resolve(ChangeSet.empty().shiftDate('PatientBirthDate', 365)).get('(0010,0030)')).toBe('19810228');
+            expect(resolve(ChangeSet.empty().shiftDate('StudyDate', -15)).get('(0008,0020)')).toBe('20231231');
+        });
+
+        it('shifts only the date part of DT values', () => {
+            expect(resolve(ChangeSet.empty().shiftDate('AcquisitionDateTime', -20)).get('(0008,002A)')).toBe('20231226103000.5+0100');
+        });
+
+        it('shifts every value of a multi-valued element', () => {
+            const data = { '00080020': { vr: 'DA', Value: ['20240101', '', '20240102'] } };
+            expect(resolve(ChangeSet.empty().shiftDate('StudyDate', 1), data).get('(0008,0020)')).toBe('20240102\\\\20240103');
+        });
+
+        it('shifts through wildcards', () => {
+            const mods = resolve(ChangeSet.empty().shiftDate('(0040,0275)[*].(0040,0244)', 1));
+            expect(mods.get('(0040,0275)[0].(0040,0244)')).toBe('20240115');
+            expect(mods.get('(0040,0275)[1].(0040,0244)')).toBe('20240101');
+        });
+
+        it('leaves missing elements alone', () => {
+            expect(resolve(ChangeSet.empty().shiftDate('(0008,0021)', 1)).size).toBe(0);
+        });
+
+        it('rejects non-date VRs, partial DT values and malformed dates', () => {
+            expect(resolveError(ChangeSet.empty().shiftDate('PatientID', 1))).toBe('Cannot resolve (0010,0020): cannot shift a LO value as a date');
+            expect(resolveError(ChangeSet.empty().shiftDate('AcquisitionDateTime', 1), { '0008002A': { vr: 'DT', Value: ['2024'] } })).toMatch(/has no day/);
+            expect(resolveError(ChangeSet.empty().shiftDate('StudyDate', 1), { '00080020': { vr: 'DA', Value: ['2024-01-15'] } })).toMatch(
+                /Invalid DA value "2024-01-15"/
+            );
+        });
+
+        it('rejects shifts that leave the four-digit year range', () => {
+            expect(resolveError(ChangeSet.empty().shiftDate('StudyDate', 3_000_000))).toMatch(/year range/);
+        });
+    });
+
+    describe('shiftAllDates', () => {
+        it('shifts every DA and DT element at every nesting level', () => {
+            const mods = resolve(ChangeSet.empty().shiftAllDates(1));
+            expect([...mods.keys()].sort()).toEqual(['(0008,0020)', '(0008,002A)', '(0010,0030)', '(0040,0275)[0].(0040,0244)', '(0040,0275)[1].(0040,0244)']);
+        });
+
+        it('lets explicit operations take precedence', () => {
+            const cs = ChangeSet.empty().shiftAllDates(1).setTag('StudyDate', '20000101').eraseTag('PatientBirthDate').shiftDate('(0008,002A)', 2);
+            const mods = resolve(cs);
+            expect(mods.get('(0008,0020)')).toBe('20000101');
+            expect(mods.has('(0010,0030)')).toBe(false);
+            expect(mods.get('(0008,002A)')).toBe('20240117103000.5+0100');
+        });
+    });
+
+    describe('copyTag', () => {
+        it('copies the value of another element', () => {
+            expect(resolve(ChangeSet.empty().copyTag('StudyID', 'AccessionNumber')).get('(0020,0010)')).toBe('ACC-12345');
+        });
+
+        it('copies PN values in dcmodify form', () => {
+            const data = { '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Smith^John', Ideographic: 'スミス^ジョン' }] } };
+            expect(resolve(ChangeSet.empty().copyTag('(0010,1001)', 'PatientName'), data).get('(0010,1001)')).toBe('Smith^John=スミス^ジョン');
+        });
+
+        it('fails when the source is missing', () => {
+            expect(resolveError(ChangeSet.empty().copyTag('StudyID', 'StudyDescription'))).toBe('Cannot resolve (0020,0010): source (0008,1030) not found');
+        });
+
+        it('fails when the value does not fit the target VR', () => {
+            expect(resolveError(ChangeSet.empty().copyTag('StudyDate', 'PatientID'))).toMatch(/^Cannot resolve \(0008,0020\): Invalid DA value "PATIENT-001"/);
+            const long = { ...makeSampleData(), '00100020': { vr: 'LO', Value: ['X'.repeat(20)] } };
+            expect(resolveError(ChangeSet.empty().copyTag('StudyID', 'PatientID'), long)).toMatch(/Invalid SH value "X{20}": exceeds maximum length of 16/);
+        });
+    });
+
+    describe('replaceValue', () => {
+        it('rewrites the value with a regular expression', () => {
+            expect(resolve(ChangeSet.empty().replaceValue('PatientID', /^PATIENT-/, '')).get('(0010,0020)')).toBe('001');
+            expect(resolve(ChangeSet.empty().replaceValue('PatientID', /^(\w+)-(\d+)$/, '$2-$1')).get('(0010,0020)')).toBe('001-PATIENT');
+        });
+
+        it('rewrites each value of a multi-valued element', () => {
+            const data = { '00080008': { vr: 'CS', Value: ['ORIGINAL', 'PRIMARY'] } };
+            expect(resolve(ChangeSet.empty().replaceValue('ImageType', /^/, 'X_'), data).get('(0008,0008)')).toBe('X_ORIGINAL\\X_PRIMARY');
+        });
+
+        it('leaves missing elements alone', () => {
+            expect(resolve(ChangeSet.empty().replaceValue('(0010,1000)', /x/, 'y')).size).toBe(0);
+        });
+    });
+
+    describe('setTemplate', () => {
+        it('fills placeholders with tags and keywords', () => {
+            const cs = ChangeSet.empty().setTemplate('StudyDescription', '{Modality} study {(0008,0050)}');
+            expect(resolve(cs).get('(0008,1030)')).toBe('CT study ACC-12345');
+        });
+
+        it('fills nested placeholders and leaves missing ones empty', () => {
+            const cs = ChangeSet.empty().setTemplate('StudyDescription', '[{(0040,0275)[1].(0040,0244)}][{BodyPartExamined}]');
+            expect(resolve(cs).get('(0008,1030)')).toBe('[20231231][]');
+        });
+
+        it('rejects binary placeholder values', () => {
+            expect(resolveError(ChangeSet.empty().setTemplate('StudyDescription', '{(7FE0,0010)}'))).toMatch(/placeholder \{\(7FE0,0010\)\}: binary values/);
+        });
+    });
+
+    it('fails for new elements without a dictionary VR', () => {
+        expect(resolveError(ChangeSet.empty().copyTag('(0009,10FF)', 'PatientID'))).toBe('Cannot resolve (0009,10FF): no VR is known for the element');
+    });
+
+    it('strips control characters from resolved values', () => {
+        const data = { ...makeSampleData(), '00100020': { vr: 'LO', Value: ['A\u0001B'] } };
+        expect(resolve(ChangeSet.empty().copyTag('(0010,1000)', 'PatientID'), data).get('(0010,1000)')).toBe('AB');
+    });
+
+    it('is applied by DicomDataset.apply', () => {
+        const applied = makeDataset().apply(ChangeSet.empty().shiftAllDates(-1).copyTag('StudyID', 'AccessionNumber'));
+        expect(applied.ok).toBe(true);
+        if (!applied.ok) return;
+        expect(applied.value.studyDate).toBe('20240114');
+        expect(applied.value.getString('StudyID')).toBe('ACC-12345');
+    });
+});
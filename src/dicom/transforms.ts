@@ -0,0 +1,260 @@
+/**
+ * Value transforms for ChangeSet operations that derive a new value from existing ones.
+ *
+ * A transform is recorded on a ChangeSet against a canonical target path and
+ * resolved into a literal dcmodify value by reading a {@link DicomDataset}. Every
+ * transform reads the dataset as it is before any change is applied, so the
+ * outcome does not depend on the order in which operations were added.
+ *
+ * @module dicom/transforms
+ */
+
+import type { DicomTagPath } from '../brands';
+import { MAX_TRAVERSAL_DEPTH } from '../constants';
+import type { Result } from '../types';
+import { ok, err } from '../types';
+import type { DicomJsonElement, DicomJsonModel } from '../tools/_xmlToJson';
+import type { DicomDataset } from './DicomDataset';
+import { lookupTag } from './dictionary';
+import { splitValues, validateValue } from './validateValue';
+import { parseDate, parseDateTime } from './values';
+import { VR } from './vr';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Shifts DA values, and the date part of DT values, by a whole number of days. */
+interface ShiftDateTransform {
+    readonly kind: 'shiftDate';
+    readonly days: number;
+}
+
+/** Copies the value of another element. */
+interface CopyTransform {
+    readonly kind: 'copy';
+    /** Canonical path of the element to copy from. */
+    readonly source: string;
+}
+
+/** Rewrites each value of the element with `String.prototype.replace`. */
+interface ReplaceTransform {
+    readonly kind: 'replace';
+    readonly pattern: RegExp;
+    readonly replacement: string;
+}
+
+/** Builds the value from a template whose `{path}` placeholders name other elements. */
+interface TemplateTransform {
+    readonly kind: 'template';
+    /** Template text with every placeholder rewritten to its canonical path. */
+    readonly template: string;
+}
+
+/** A value transform recorded on a ChangeSet. */
+type ValueTransform = ShiftDateTransform | CopyTransform | ReplaceTransform | TemplateTransform;
+
+/** A sequence item still to scan for date elements, with its path prefix and nesting depth. */
+interface DateScanEntry {
+    readonly item: DicomJsonModel;
+    readonly prefix: string;
+    readonly depth: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Matches a `{path}` placeholder in a template. */
+const PLACEHOLDER_PATTERN = /\{([^{}]+)\}/g;
+
+/** Largest absolute day offset accepted by a date shift (roughly 10,000 years). */
+const MAX_SHIFT_DAYS = 3_652_500;
+
+// ---------------------------------------------------------------------------
+// dcmodify value form
+// ---------------------------------------------------------------------------
+
+/** Converts one DICOM JSON value to its dcmodify string form. */
+function valueToString(value: unknown): string {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    if (typeof value !== 'object' || value === null) return '';
+    const pn = value as Record<string, unknown>;
+    const groups = [pn['Alphabetic'], pn['Ideographic'], pn['Phonetic']].map(group => (typeof group === 'string' ? group : ''));
+    return groups.join('=').replace(/=+$/, '');
+}
+
+/** Converts an element's values to the backslash-delimited string dcmodify expects. */
+function toModifyValue(element: DicomJsonElement): Result<string> {
+    if (element.InlineBinary !== undefined || element.BulkDataURI !== undefined) {
+        return err(new Error('binary values cannot be expressed as a ChangeSet value'));
+    }
+    return ok((element.Value ?? []).map(valueToString).join('\\'));
+}
+
+// ---------------------------------------------------------------------------
+// Date shifting
+// ---------------------------------------------------------------------------
+
+/** Returns true if a day offset is an integer within {@link MAX_SHIFT_DAYS}. */
+function isValidDayOffset(days: number): boolean {
+    return Number.isInteger(days) && Math.abs(days) <= MAX_SHIFT_DAYS;
+}
+
+/** Shifts the leading `YYYYMMDD` of a value by whole days, keeping the rest. */
+function shiftDatePart(value: string, days: number): Result<string> {
+    const date = new Date(0);
+    date.setUTCFullYear(Number(value.slice(0, 4)), Number(value.slice(4, 6)) - 1, Number(value.slice(6, 8)) + days);
+    const year = date.getUTCFullYear();
+    if (year < 0 || year > 9999) return err(new Error(`shifting "${value}" by ${days} days leaves the year range 0000-9999`));
+    const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+    const day = String(date.getUTCDate()).padStart(2, '0');
+    return ok(`${String(year).padStart(4, '0')}${month}${day}${value.slice(8)}`);
+}
+
+/** Shifts a single DA or DT value; empty values stay empty. */
+function shiftValue(vr: string, value: string, days: number): Result<string> {
+    const trimmed = value.trim();
+    if (trimmed.length === 0) return ok(trimmed);
+    const parsed = vr === VR.DA ? parseDate(trimmed) : parseDateTime(trimmed);
+    if (!parsed.ok) return err(parsed.error);
+    if (!/^\d{8}/.test(trimmed)) return err(new Error(`cannot shift "${value}" by days: the value has no day`));
+    return shiftDatePart(trimmed, days);
+}
+
+/** Shifts every value of a DA or DT element. */
+function shiftElement(element: DicomJsonElement, days: number): Result<string> {
+    if (element.vr !== VR.DA && element.vr !== VR.DT) return err(new Error(`cannot shift a ${element.vr} value as a date`));
+    const shifted: string[] = [];
+    for (const value of element.Value ?? []) {
+        const result = shiftValue(element.vr, valueToString(value), days);
+        if (!result.ok) return err(result.error);
+        shifted.push(result.value);
+    }
+    return ok(shifted.join('\\'));
+}
+
+/** Converts an 8-char hex key to `(GGGG,EEEE)`. */
+function keyToTag(key: string): string {
+    return `(${key.slice(0, 4)},${key.slice(4, 8)})`;
+}
+
+/**
+ * Collects the canonical path of every DA and DT element at every nesting level
+ * (iterative, no recursion — Rule 8.2). Items nested deeper than MAX_TRAVERSAL_DEPTH are skipped.
+ */
+function collectDatePaths(data: Readonly<DicomJsonModel>): ReadonlyArray<string> {
+    const paths: string[] = [];
+    const queue: DateScanEntry[] = [{ item: data, prefix: '', depth: 1 }];
+    for (let i = 0; i < queue.length; i++) {
+        const { item, prefix, depth } = queue[i] as DateScanEntry;
+        for (const key of Object.keys(item).sort()) {
+            const element = item[key] as DicomJsonElement;
+            const path = `${prefix}${keyToTag(key)}`;
+            if (element.vr === VR.DA || element.vr === VR.DT) paths.push(path);
+            if (element.vr !== VR.SQ || depth >= MAX_TRAVERSAL_DEPTH) continue;
+            (element.Value ?? []).forEach((child, index) => {
+                if (typeof child === 'object' && child !== null) queue.push({ item: child as DicomJsonModel, prefix: `${path}[${index}].`, depth: depth + 1 });
+            });
+        }
+    }
+    return paths;
+}
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+/** Reads the element at a canonical path, or undefined if the dataset does not contain it. */
+function elementAt(dataset: DicomDataset, path: string): DicomJsonElement | undefined {
+    // Transform paths are canonical paths produced by segmentsToModifyPath
+    const element = dataset.getElementAtPath(path as DicomTagPath);
+    return element.ok ? element.value : undefined;
+}
+
+/** Rewrites each value of an element with a regular expression. */
+function replaceValues(element: DicomJsonElement, transform: ReplaceTransform): Result<string> {
+    const value = toModifyValue(element);
+    if (!value.ok) return err(value.error);
+    const parts = splitValues(element.vr, value.value).map(part => part.replace(transform.pattern, transform.replacement));
+    return ok(parts.join('\\'));
+}
+
+/** Substitutes every placeholder of a template; placeholders naming missing elements become empty. */
+function fillTemplate(dataset: DicomDataset, template: string): Result<string> {
+    let filled = '';
+    let last = 0;
+    for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+        const element = elementAt(dataset, match[1] as string);
+        const value = element === undefined ? ok('') : toModifyValue(element);
+        if (!value.ok) return err(new Error(`placeholder {${match[1]}}: ${value.error.message}`));
+        filled += template.slice(last, match.index) + value.value;
+        last = match.index + match[0].length;
+    }
+    return ok(filled + template.slice(last));
+}
+
+/** Copies the value of a source element, which must exist. */
+function copyValue(dataset: DicomDataset, source: string): Result<string> {
+    const element = elementAt(dataset, source);
+    if (element === undefined) return err(new Error(`source ${source} not found`));
+    return toModifyValue(element);
+}
+
+/**
+ * Resolves one transform into a literal value.
+ *
+ * @returns The value, or `undefined` when a shift or replace targets an element the dataset does not contain
+ */
+function resolveTransform(dataset: DicomDataset, path: string, transform: ValueTransform): Result<string | undefined> {
+    switch (transform.kind) {
+        case 'copy':
+            return copyValue(dataset, transform.source);
+        case 'template':
+            return fillTemplate(dataset, transform.template);
+        case 'shiftDate': {
+            const element = elementAt(dataset, path);
+            return element === undefined ? ok(undefined) : shiftElement(element, transform.days);
+        }
+        case 'replace': {
+            const element = elementAt(dataset, path);
+            return element === undefined ? ok(undefined) : replaceValues(element, transform);
+        }
+    }
+}
+
+// ---------------------------------------------------------------------------
+// VR checks
+// ---------------------------------------------------------------------------
+
+/** Returns the VR a value written to a path will have: the existing element's, or the dictionary's. */
+function targetVR(dataset: DicomDataset, path: string): string | undefined {
+    return elementAt(dataset, path)?.vr ?? lookupTag(path.slice(path.lastIndexOf('(')))?.vr;
+}
+
+/**
+ * Resolves the transforms of a ChangeSet against a dataset.
+ *
+ * @param dataset - The dataset transforms read from
+ * @param transforms - Canonical target paths (without wildcards) and their transforms
+ * @returns A Result containing canonical path → literal value for every transform that
+ *   produced a value, or an error naming the path whose value could not be resolved or does not fit its VR
+ */
+function resolveTransforms(dataset: DicomDataset, transforms: Iterable<readonly [string, ValueTransform]>): Result<ReadonlyMap<string, string>> {
+    const values = new Map<string, string>();
+    for (const [path, transform] of transforms) {
+        const value = resolveTransform(dataset, path, transform);
+        if (!value.ok) return err(new Error(`Cannot resolve ${path}: ${value.error.message}`));
+        if (value.value === undefined) continue;
+        const vr = targetVR(dataset, path);
+        if (vr === undefined) return err(new Error(`Cannot resolve ${path}: no VR is known for the element`));
+        const fits = validateValue(vr, value.value);
+        if (!fits.ok) return err(new Error(`Cannot resolve ${path}: ${fits.error.message}`));
+        values.set(path, value.value);
+    }
+    return ok(values);
+}
+
+export { PLACEHOLDER_PATTERN, collectDatePaths, isValidDayOffset, resolveTransforms, toModifyValue, valueToString };
+export type { ValueTransform, ShiftDateTransform, CopyTransform, ReplaceTransform, TemplateTransform };
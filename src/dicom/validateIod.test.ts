@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest';
+import { validateIod } from './validateIod';
+import { DicomDataset } from './DicomDataset';
+import { SOP_CLASSES } from '../data/sopClasses';
+import type { DicomJsonModel } from '../tools/_xmlToJson';
+
+/** A CT image with every Type 1 and Type 2 attribute of its IOD. */
+const CT_IMAGE: DicomJsonModel = {
+    '00080016': { vr: 'UI', Value: [SOP_CLASSES.CTImageStorage] },
+    '00080018': { vr: 'UI', Value: ['1.2.3.4.5'] },
+    '00080008': { vr: 'CS', Value: ['ORIGINAL', 'PRIMARY', 'AXIAL'] },
+    '00080020': { vr: 'DA', Value: ['20240102'] },
+    '00080030': { vr: 'TM', Value: ['101500'] },
+    '00080050': { vr: 'SH' },
+    '00080060': { vr: 'CS', Value: ['CT'] },
+    '00080070': { vr: 'LO', Value: ['ACME'] },
+    '00080090': { vr: 'PN' },
+    '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Doe^Jane' }] },
+    '00100020': { vr: 'LO', Value: ['12345'] },
+    '00100030': { vr: 'DA' },
+    '00100040': { vr: 'CS', Value: ['F'] },
+    '00180050': { vr: 'DS', Value: [1.25] },
+    '00180060': { vr: 'DS', Value: [120] },
+    '0020000D': { vr: 'UI', Value: ['1.2.3.4'] },
+    '0020000E': { vr: 'UI', Value: ['1.2.3.4.1'] },
+    '00200010': { vr: 'SH', Value: ['S1'] },
+    '00200011': { vr: 'IS', Value: [1] },
+    '00200012': { vr: 'IS', Value: [1] },
+    '00200013': { vr: 'IS', Value: [1] },
+    '00200032': { vr: 'DS', Value: [0, 0, 0] },
+    '00200037': { vr: 'DS', Value: [1, 0, 0, 0, 1, 0] },
+    '00200052': { vr: 'UI', Value: ['1.2.3.4.2'] },
+    '00201040': { vr: 'LO' },
+    '00280002': { vr: 'US', Value: [1] },
+    '00280004': { vr: 'CS', Value: ['MONOCHROME2'] },
+    '00280010': { vr: 'US', Value: [2] },
+    '00280011': { vr: 'US', Value: [2] },
+    '00280030': { vr: 'DS', Value: [0.5, 0.5] },
+    '00280100': { vr: 'US', Value: [16] },
+    '00280101': { vr: 'US', Value: [12] },
+    '00280102': { vr: 'US', Value: [11] },
+    '00280103': { vr: 'US', Value: [0] },
+    '00281052': { vr: 'DS', Value: [-1024] },
+    '00281053': { vr: 'DS', Value: [1] },
+    '7FE00010': { vr: 'OW', InlineBinary: 'AAAAAAAAAAA=' },
+};
+
+function datasetOf(model: DicomJsonModel): DicomDataset {
+    const dataset = DicomDataset.fromJson(model);
+    if (!dataset.ok) throw dataset.error;
+    return dataset.value;
+}
+
+function without(model: DicomJsonModel, ...keys: string[]): DicomJsonModel {
+    return Object.fromEntries(Object.entries(model).filter(([key]) => !keys.includes(key)));
+}
+
+describe('validateIod()', () => {
+    it('accepts a conformant CT image', () => {
+        const report = validateIod(datasetOf(CT_IMAGE));
+        expect(report).toEqual({ sopClassUID: SOP_CLASSES.CTImageStorage, iod: 'CT Image', findings: [], valid: true });
+    });
+
+    it('reports missing Type 1 and Type 2 attributes with their module', () => {
+        const report = validateIod(datasetOf(without(CT_IMAGE, '0020000E', '00100010')));
+        expect(report.valid).toBe(false);
+        expect(report.findings).toEqual([
+            { severity: 'error', path: '(0010,0010)', name: 'PatientName', module: 'Patient', message: 'Type 2 attribute is missing' },
+            { severity: 'error', path: '(0020,000E)', name: 'SeriesInstanceUID', module: 'General Series', message: 'Type 1 attribute is missing' },
+        ]);
+    });
+
+    it('reports empty Type 1 attributes and enumerated value violations', () => {
+        const report = validateIod(datasetOf({ ...CT_IMAGE, '00200052': { vr: 'UI' }, '00280004': { vr: 'CS', Value: ['RGB'] } }));
+        expect(report.findings.map(finding => `${finding.module ?? ''}: ${finding.name}: ${finding.message}`)).toEqual([
+            'Frame of Reference: FrameOfReferenceUID: Type 1 attribute is empty',
+            'CT Image: PhotometricInterpretation: Value "RGB" is not one of the enumerated values MONOCHROME1, MONOCHROME2',
+        ]);
+    });
+
+    it('checks conditional attributes whose condition holds', () => {
+        const palette = {
+            ...CT_IMAGE,
+            '00080016': { vr: 'UI', Value: [SOP_CLASSES.SecondaryCaptureImageStorage] },
+            '00280004': { vr: 'CS', Value: ['PALETTE COLOR'] },
+        };
+        const messages = validateIod(datasetOf(palette))
+            .findings.filter(finding => finding.module === 'Image Pixel')
+            .map(finding => finding.message);
+        expect(messages).toContain('Type 1C attribute is missing (required when PhotometricInterpretation is PALETTE COLOR)');
+    });
+
+    it('checks user option modules only when they are present', () => {
+        const report = validateIod(datasetOf({ ...CT_IMAGE, '00281050': { vr: 'DS', Value: [40] } }));
+        expect(report.findings).toEqual([
+            {
+                severity: 'error',
+                path: '(0028,1051)',
+                name: 'WindowWidth',
+                module: 'VOI LUT',
+                message: 'Type 1C attribute is missing (required when WindowCenter is present)',
+            },
+        ]);
+    });
+
+    it('checks the attributes of sequence items', () => {
+        const sr: DicomJsonModel = {
+            '00080016': { vr: 'UI', Value: [SOP_CLASSES.BasicTextSRStorage] },
+            '0040A730': {
+                vr: 'SQ',
+                Value: [{ '0040A010': { vr: 'CS', Value: ['CONTAINS'] }, '0040A040': { vr: 'CS', Value: ['TEXT'] } }],
+            },
+        };
+        const findings = validateIod(datasetOf(sr)).findings.filter(finding => finding.name.startsWith('ContentSequence'));
+        expect(findings).toEqual([
+            {
+                severity: 'error',
+                path: '(0040,A730)[0].(0040,A160)',
+                name: 'ContentSequence[0].TextValue',
+                module: 'SR Document Content',
+                message: 'Type 1C attribute is missing (required when ValueType is TEXT)',
+            },
+        ]);
+    });
+
+    it('checks VR and VM against the data dictionary', () => {
+        const report = validateIod(datasetOf({ ...CT_IMAGE, '00100040': { vr: 'LO', Value: ['F'] }, '00280030': { vr: 'DS', Value: [0.5] } }));
+        expect(report.findings).toEqual([
+            { severity: 'error', path: '(0010,0040)', name: 'PatientSex', message: 'VR is LO, but the data dictionary defines CS' },
+            { severity: 'error', path: '(0028,0030)', name: 'PixelSpacing', message: '1 value(s) given, but VM is 2' },
+        ]);
+    });
+
+    it('accepts alternative VRs, skips private elements and group lengths and warns about unknown attributes', () => {
+        const report = validateIod(
+            datasetOf({
+                ...CT_IMAGE,
+                '00080000': { vr: 'UL', Value: [100] },
+                '00081FF0': { vr: 'LO', Value: ['X'] },
+                '00091010': { vr: 'LO', Value: ['ACME'] },
+                '00280106': { vr: 'SS', Value: [-1] },
+                '7FE00010': { vr: 'OB', InlineBinary: 'AAAAAAAAAAA=' },
+            })
+        );
+        expect(report.findings).toEqual([
+            { severity: 'warning', path: '(0008,1FF0)', name: '(0008,1FF0)', message: 'Attribute is not in the data dictionary' },
+        ]);
+    });
+
+    it('describes absent and not-equal conditions and accepts AT values', () => {
+        const report = validateIod(
+            datasetOf({
+                ...without(CT_IMAGE, '00200037'),
+                '00280002': { vr: 'US', Value: [3] },
+                '00280004': { vr: 'CS', Value: ['RGB'] },
+                '00280009': { vr: 'AT', Value: ['00181063'] },
+            })
+        );
+        expect(report.findings.map(finding => `${finding.name}: ${finding.message}`)).toEqual(
+            expect.arrayContaining([
+                'PatientOrientation: Type 2C attribute is missing (required when ImageOrientationPatient is absent)',
+                'PlanarConfiguration: Type 1C attribute is missing (required when SamplesPerPixel is not 1)',
+            ])
+        );
+        expect(report.findings.some(finding => finding.name === 'FrameIncrementPointer')).toBe(false);
+    });
+
+    it('accepts every count of a stepped VM and reports counts off the step', () => {
+        const contour = (values: number[]): DicomJsonModel => ({
+            '00080016': { vr: 'UI', Value: [SOP_CLASSES.RTStructureSetStorage] },
+            '30060039': { vr: 'SQ', Value: [{ '30060040': { vr: 'SQ', Value: [{ '30060050': { vr: 'DS', Value: values } }] } }] },
+        });
+        const contourFindings = (values: number[]) => validateIod(datasetOf(contour(values))).findings.filter(finding => finding.name.endsWith('ContourData'));
+        expect(contourFindings([0, 0, 0, 1, 1, 1])).toEqual([]);
+        expect(contourFindings([0, 0, 0, 1, 1, 1, 2])).toEqual([
+            {
+                severity: 'error',
+                path: '(3006,0039)[0].(3006,0040)[0].(3006,0050)',
+                name: 'ROIContourSequence[0].ContourSequence[0].ContourData',
+                message: '7 value(s) given, but VM is 3-3n',
+            },
+        ]);
+    });
+
+    it('warns about retired attributes and SOP classes without an IOD definition', () => {
+        const report = validateIod(datasetOf({ '00080016': { vr: 'UI', Value: [SOP_CLASSES.RTPlanStorage] }, '00080040': { vr: 'US', Value: [1] } }));
+        expect(report.valid).toBe(true);
+        expect(report.iod).toBeUndefined();
+        expect(report.findings.map(finding => finding.message)).toEqual([
+            `No IOD definition for SOP class ${SOP_CLASSES.RTPlanStorage}; only the data dictionary is checked`,
+            'Attribute is retired',
+        ]);
+    });
+
+    it('reports a missing SOP Class UID', () => {
+        const report = validateIod(datasetOf({ '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Doe^Jane' }] } }));
+        expect(report).toEqual({
+            findings: [{ severity: 'error', path: '(0008,0016)', name: 'SOPClassUID', message: 'SOP Class UID is missing, so the IOD cannot be determined' }],
+            valid: false,
+        });
+    });
+});
@@ -0,0 +1,338 @@
+/**
+ * IOD conformance validation.
+ *
+ * Finds the IOD of a dataset from its SOP Class UID and checks it module by module:
+ * presence and emptiness of Type 1, 1C, 2 and 2C attributes, enumerated values, and
+ * the attributes of sequence items. Every standard element is also checked against
+ * the data dictionary for its VR and VM. Sequences are walked with iterative queues
+ * (Rule 8.2: no recursion).
+ *
+ * @module dicom/validateIod
+ */
+
+import type { DicomTagPath } from '../brands';
+import type { DicomJsonElement, DicomJsonModel } from '../tools/_xmlToJson';
+import { findIod } from '../data/iods';
+import type { DicomDataset } from './DicomDataset';
+import { describeTag, formatMultiplicity, lookupTagByName } from './dictionary';
+import type { TagDescription } from './dictionary';
+import type { AttributeCondition, IodModule, ModuleAttribute } from './iodTypes';
+import { valueToString } from './transforms';
+import { validateValue } from './validateValue';
+import { VR, isBinaryVR } from './vr';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Severity of a finding: errors break conformance, warnings point at likely problems. */
+type FindingSeverity = 'error' | 'warning';
+
+/** A single problem found by {@link validateIod}. */
+interface IodFinding {
+    readonly severity: FindingSeverity;
+    /** Canonical `(XXXX,XXXX)` path of the attribute. */
+    readonly path: DicomTagPath;
+    /** The same path spelled with dictionary keywords where known. */
+    readonly name: string;
+    /** The module whose requirements the finding is about; absent for data dictionary checks. */
+    readonly module?: string;
+    readonly message: string;
+}
+
+/** The outcome of validating a dataset against its IOD. */
+interface IodValidationReport {
+    /** The SOP Class UID of the dataset, if present. */
+    readonly sopClassUID?: string;
+    /** The name of the IOD the dataset was checked against, if known. */
+    readonly iod?: string;
+    /** Every finding, module checks first, in module order. */
+    readonly findings: ReadonlyArray<IodFinding>;
+    /** True if there are no error findings. */
+    readonly valid: boolean;
+}
+
+/** A dataset or sequence item whose module attributes are still to check. */
+interface PendingLevel {
+    readonly model: DicomJsonModel;
+    readonly attributes: ReadonlyArray<ModuleAttribute>;
+    readonly path: string;
+    readonly name: string;
+}
+
+/** The module being checked, its pending items and the findings so far. */
+interface ModuleState {
+    readonly module: string;
+    readonly queue: PendingLevel[];
+    readonly findings: IodFinding[];
+}
+
+/** A dataset or sequence item whose elements are still to check against the dictionary. */
+interface PendingItem {
+    readonly model: DicomJsonModel;
+    readonly path: string;
+    readonly name: string;
+}
+
+/** Where an attribute sits, and the module being checked. */
+interface Location {
+    readonly path: string;
+    readonly name: string;
+    readonly module?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** JSON key of SOPClassUID (0008,0016). */
+const SOP_CLASS_UID_KEY = '00080016';
+
+/**
+ * VRs accepted in place of a dictionary VR. The dictionary records one VR for
+ * attributes the standard defines as `US or SS`, `OB or OW` or `US or SS or OW`.
+ */
+const ALTERNATIVE_VRS: Readonly<Record<string, ReadonlyArray<string>>> = {
+    [VR.US]: [VR.SS],
+    [VR.OW]: [VR.OB, VR.US, VR.SS],
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Converts an 8-char hex key to `(GGGG,EEEE)`. */
+function keyToTag(key: string): string {
+    return `(${key.slice(0, 4)},${key.slice(4, 8)})`;
+}
+
+/** Joins a path prefix and a segment with a dot when the prefix is not empty. */
+function joinPath(prefix: string, segment: string): string {
+    return prefix.length === 0 ? segment : `${prefix}.${segment}`;
+}
+
+/** Returns the sequence items of an element, skipping anything that is not an item object. */
+function itemsOf(element: DicomJsonElement): ReadonlyArray<DicomJsonModel> {
+    const items: DicomJsonModel[] = [];
+    for (const value of element.Value ?? []) {
+        if (typeof value === 'object' && value !== null && !Array.isArray(value)) items.push(value as DicomJsonModel);
+    }
+    return items;
+}
+
+/** Returns true if an element carries no value. */
+function isEmpty(element: DicomJsonElement): boolean {
+    if (element.InlineBinary !== undefined || element.BulkDataURI !== undefined) return false;
+    if (element.vr === VR.SQ) return itemsOf(element).length === 0;
+    return (element.Value ?? []).every(value => value === null || valueToString(value).length === 0);
+}
+
+/** Returns the values of an element as trimmed strings, AT values as `(GGGG,EEEE)`. */
+function stringValues(element: DicomJsonElement): ReadonlyArray<string> {
+    const values = (element.Value ?? []).map(value => valueToString(value).trim());
+    return element.vr === VR.AT ? values.map(value => (value.length === 8 ? keyToTag(value) : value)) : values;
+}
+
+/** Returns the JSON key of a module keyword. */
+function keywordKey(keyword: string): string | undefined {
+    return lookupTagByName(keyword)?.tag;
+}
+
+/** Records a finding, tagged with the module being checked if any. */
+function pushFinding(findings: IodFinding[], severity: FindingSeverity, at: Location, message: string): void {
+    const finding = { severity, path: at.path as DicomTagPath, name: at.name, message };
+    findings.push(at.module === undefined ? finding : { ...finding, module: at.module });
+}
+
+// ---------------------------------------------------------------------------
+// Conditions
+// ---------------------------------------------------------------------------
+
+/** Evaluates a condition against the dataset or sequence item holding the attribute. */
+function conditionHolds(model: DicomJsonModel, condition: AttributeCondition): boolean {
+    const key = keywordKey(condition.keyword);
+    const element = key === undefined ? undefined : model[key];
+    const present = element !== undefined && !isEmpty(element);
+    if (condition.kind === 'present') return present;
+    if (condition.kind === 'absent') return !present;
+    const matches = element !== undefined && stringValues(element).some(value => condition.values.includes(value));
+    return condition.kind === 'equals' ? matches : present && !matches;
+}
+
+/** Describes a condition for a finding, e.g. `required when ValueType is TEXT`. */
+function describeCondition(condition: AttributeCondition): string {
+    if (condition.kind === 'present') return `required when ${condition.keyword} is present`;
+    if (condition.kind === 'absent') return `required when ${condition.keyword} is absent`;
+    const values = condition.values.join(' or ');
+    return condition.kind === 'equals' ? `required when ${condition.keyword} is ${values}` : `required when ${condition.keyword} is not ${values}`;
+}
+
+/** Returns true if a module applies to the dataset. */
+function isModuleUsed(model: DicomJsonModel, used: IodModule): boolean {
+    if (used.usage === 'M') return true;
+    if (used.condition !== undefined) return conditionHolds(model, used.condition);
+    return used.module.attributes.some(attribute => {
+        const key = keywordKey(attribute.keyword);
+        return key !== undefined && model[key] !== undefined;
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Module checks (iterative queue — Rule 8.2)
+// ---------------------------------------------------------------------------
+
+/** Returns true if an attribute must be present in the given dataset or item. */
+function isRequired(model: DicomJsonModel, attribute: ModuleAttribute): boolean {
+    if (attribute.type === '1' || attribute.type === '2') return true;
+    if (attribute.type === '3' || attribute.condition === undefined) return false;
+    return conditionHolds(model, attribute.condition);
+}
+
+/** Reports a missing attribute, naming the condition of conditional ones. */
+function reportMissing(attribute: ModuleAttribute, at: Location, findings: IodFinding[]): void {
+    const reason = attribute.condition === undefined ? '' : ` (${describeCondition(attribute.condition)})`;
+    pushFinding(findings, 'error', at, `Type ${attribute.type} attribute is missing${reason}`);
+}
+
+/** Reports values outside the enumerated values of an attribute. */
+function checkEnumerated(element: DicomJsonElement, enumerated: ReadonlyArray<string>, at: Location, findings: IodFinding[]): void {
+    for (const value of stringValues(element)) {
+        if (value.length > 0 && !enumerated.includes(value)) {
+            pushFinding(findings, 'error', at, `Value "${value}" is not one of the enumerated values ${enumerated.join(', ')}`);
+        }
+    }
+}
+
+/** Queues the items of a sequence for checking against the attributes of its items. */
+function queueItems(element: DicomJsonElement, items: ReadonlyArray<ModuleAttribute>, at: Location, state: ModuleState): void {
+    itemsOf(element).forEach((item, index) => state.queue.push({ model: item, attributes: items, path: `${at.path}[${index}]`, name: `${at.name}[${index}]` }));
+}
+
+/** Checks one module attribute of a dataset or item, queueing the items of sequences. */
+function checkAttribute(level: PendingLevel, attribute: ModuleAttribute, state: ModuleState): void {
+    const key = keywordKey(attribute.keyword);
+    /* v8 ignore next */
+    if (key === undefined) return;
+    const at: Location = { path: joinPath(level.path, keyToTag(key)), name: joinPath(level.name, attribute.keyword), module: state.module };
+    const element = level.model[key];
+    if (element === undefined) {
+        if (isRequired(level.model, attribute)) reportMissing(attribute, at, state.findings);
+        return;
+    }
+    if ((attribute.type === '1' || attribute.type === '1C') && isEmpty(element)) {
+        pushFinding(state.findings, 'error', at, `Type ${attribute.type} attribute is empty`);
+    }
+    if (attribute.enumerated !== undefined) checkEnumerated(element, attribute.enumerated, at, state.findings);
+    if (attribute.items !== undefined) queueItems(element, attribute.items, at, state);
+}
+
+/** Checks the attributes of a module, descending into sequence items. */
+function checkModule(model: DicomJsonModel, used: IodModule, findings: IodFinding[]): void {
+    const state: ModuleState = { module: used.module.name, queue: [{ model, attributes: used.module.attributes, path: '', name: '' }], findings };
+    for (let i = 0; i < state.queue.length; i++) {
+        const level = state.queue[i];
+        /* v8 ignore next */
+        if (level === undefined) continue;
+        for (const attribute of level.attributes) checkAttribute(level, attribute, state);
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Data dictionary checks (iterative queue — Rule 8.2)
+// ---------------------------------------------------------------------------
+
+/** Checks the value of an element against its VR and the dictionary VM. */
+function checkValue(element: DicomJsonElement, description: TagDescription, at: Location, findings: IodFinding[]): void {
+    if (element.vr === VR.SQ || isBinaryVR(element.vr) || element.Value === undefined) return;
+    const checked = validateValue(element.vr, stringValues(element).join('\\'), description.vm);
+    if (!checked.ok) {
+        pushFinding(findings, 'error', at, checked.error.message);
+        return;
+    }
+    const count = element.Value.length;
+    if (description.vmStep > 1 && count > 0 && count % description.vmStep !== 0) {
+        pushFinding(findings, 'error', at, `${count} value(s) given, but VM is ${formatMultiplicity(description.vm, description.vmStep)}`);
+    }
+}
+
+/** Checks one element against the data dictionary. */
+function checkElement(key: string, element: DicomJsonElement, at: Location, findings: IodFinding[]): void {
+    const description = describeTag(key);
+    if (description === undefined) {
+        pushFinding(findings, 'warning', at, 'Attribute is not in the data dictionary');
+        return;
+    }
+    const accepted = element.vr === description.vr || element.vr === VR.UN || (ALTERNATIVE_VRS[description.vr]?.includes(element.vr) ?? false);
+    if (!accepted) {
+        pushFinding(findings, 'error', at, `VR is ${element.vr}, but the data dictionary defines ${description.vr}`);
+        return;
+    }
+    if (description.retired) pushFinding(findings, 'warning', at, 'Attribute is retired');
+    checkValue(element, description, at, findings);
+}
+
+/** Checks every standard element of a dataset and its sequence items against the data dictionary. */
+function checkElements(model: DicomJsonModel, findings: IodFinding[]): void {
+    const queue: PendingItem[] = [{ model, path: '', name: '' }];
+    for (let i = 0; i < queue.length; i++) {
+        const item = queue[i];
+        /* v8 ignore next */
+        if (item === undefined) continue;
+        for (const [key, element] of Object.entries(item.model)) {
+            // Private elements have no standard definition; group lengths are not attributes
+            if (parseInt(key.slice(0, 4), 16) % 2 === 1 || key.endsWith('0000')) continue;
+            const keyword = describeTag(key)?.keyword ?? keyToTag(key);
+            const at: Location = { path: joinPath(item.path, keyToTag(key)), name: joinPath(item.name, keyword) };
+            checkElement(key, element, at, findings);
+            const items = element.vr === VR.SQ ? itemsOf(element) : [];
+            items.forEach((child, index) => queue.push({ model: child, path: `${at.path}[${index}]`, name: `${at.name}[${index}]` }));
+        }
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Validates a dataset against the IOD of its SOP class.
+ *
+ * Mandatory modules are always checked; conditional modules when their condition
+ * holds, or, if the condition cannot be evaluated from the dataset, when one of their
+ * attributes is present; user option modules when one of their attributes is present.
+ * Type 1C and 2C attributes whose condition cannot be evaluated are only checked
+ * when present. Datasets of SOP classes without an IOD definition are still checked
+ * against the data dictionary, with a warning.
+ *
+ * @example
+ * ```ts
+ * const report = validateIod(file.dataset);
+ * for (const finding of report.findings) {
+ *     console.log(`${finding.severity} ${finding.name}: ${finding.message}`);
+ * }
+ * ```
+ *
+ * @param dataset - The dataset to validate
+ * @returns The findings, and whether the dataset is free of errors
+ */
+function validateIod(dataset: DicomDataset): IodValidationReport {
+    const model = dataset.toJson();
+    const findings: IodFinding[] = [];
+    const sopClassUID = dataset.sopClassUID;
+    const iod = sopClassUID === undefined ? undefined : findIod(sopClassUID);
+    const at: Location = { path: keyToTag(SOP_CLASS_UID_KEY), name: 'SOPClassUID' };
+    if (sopClassUID === undefined) {
+        pushFinding(findings, 'error', at, 'SOP Class UID is missing, so the IOD cannot be determined');
+    } else if (iod === undefined) {
+        pushFinding(findings, 'warning', at, `No IOD definition for SOP class ${sopClassUID}; only the data dictionary is checked`);
+    }
+    for (const used of iod?.modules ?? []) {
+        if (isModuleUsed(model, used)) checkModule(model, used, findings);
+    }
+    checkElements(model, findings);
+    const report = { findings, valid: findings.every(finding => finding.severity !== 'error') };
+    return { ...report, ...(sopClassUID === undefined ? {} : { sopClassUID }), ...(iod === undefined ? {} : { iod: iod.name }) };
+}
+
+export { validateIod };
+export type { FindingSeverity, IodFinding, IodValidationReport };
@@ -0,0 +1,208 @@
+import { describe, it, expect } from 'vitest';
+import { JsonValidationMode, validateDicomJson } from './validateJson';
+import type { JsonFinding } from './validateJson';
+import { DicomDataset } from './DicomDataset';
+import { MAX_TRAVERSAL_DEPTH } from '../constants';
+
+function makeValidJson(): Record<string, unknown> {
+    return {
+        '00080060': { vr: 'CS', Value: ['CT'] },
+        '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Yamada^Tarou', Ideographic: '山田^太郎' }] },
+        '00100020': { vr: 'LO', Value: [null] },
+        '00201041': { vr: 'DS', Value: [-12.5] },
+        '00200013': { vr: 'IS', Value: [3] },
+        '00280010': { vr: 'US', Value: [512] },
+        '00209165': { vr: 'AT', Value: ['00100020'] },
+        '00081115': { vr: 'SQ', Value: [{ '0020000E': { vr: 'UI', Value: ['1.2.3'] } }] },
+        '00280101': { vr: 'US' },
+        '7FE00010': { vr: 'OW', BulkDataURI: 'https://example.com/studies/1/bulk/7FE00010' },
+        '00291010': { vr: 'OB', InlineBinary: 'AAECAw==' },
+    };
+}
+
+function errorsOf(findings: ReadonlyArray<JsonFinding>): ReadonlyArray<Pick<JsonFinding, 'path' | 'message'>> {
+    return findings.filter(finding => finding.severity === 'error').map(({ path, message }) => ({ path, message }));
+}
+
+describe('validateDicomJson', () => {
+    it('accepts a well-formed dataset in every mode', () => {
+        for (const mode of Object.values(JsonValidationMode)) {
+            expect(validateDicomJson(makeValidJson(), mode)).toEqual({ findings: [], valid: true });
+        }
+    });
+
+    it('rejects input that is not an object in every mode', () => {
+        for (const json of [null, [], 'text', 3]) {
+            const report = validateDicomJson(json, 'lenient');
+            expect(report.valid).toBe(false);
+            expect(report.findings[0]?.path).toBe('$');
+        }
+    });
+
+    it('checks nothing but the root in lenient mode', () => {
+        expect(validateDicomJson({ nonsense: 1 }, 'lenient')).toEqual({ findings: [], valid: true });
+    });
+
+    it('reports malformed tag keys', () => {
+        const report = validateDicomJson({ '0010001': { vr: 'PN' }, PatientName: { vr: 'PN' } });
+        expect(errorsOf(report.findings)).toEqual([
+            { path: "$['0010001']", message: 'Tag keys must be 8 hex digits' },
+            { path: "$['PatientName']", message: 'Tag keys must be 8 hex digits' },
+        ]);
+    });
+
+    it('reports missing and unknown VRs and elements that are not objects', () => {
+        const report = validateDicomJson({ '00100010': { Value: ['x'] }, '00100020': { vr: 'XX' }, '00100030': 'DA' });
+        expect(errorsOf(report.findings)).toEqual([
+            { path: "$['00100010']['vr']", message: 'vr is missing' },
+            { path: "$['00100020']['vr']", message: 'Unknown VR "XX"' },
+            { path: "$['00100030']", message: 'Invalid input: expected object, received string' },
+        ]);
+    });
+
+    it('reports mutually exclusive Value, BulkDataURI and InlineBinary', () => {
+        const report = validateDicomJson({ '7FE00010': { vr: 'OW', Value: [1], InlineBinary: 'AAAA' } });
+        expect(errorsOf(report.findings)).toEqual([{ path: "$['7FE00010']", message: 'Value, BulkDataURI and InlineBinary are mutually exclusive' }]);
+    });
+
+    it('reports values of the wrong type for their VR', () => {
+        const report = validateDicomJson({
+            '00080060': { vr: 'CS', Value: [7] },
+            '00280010': { vr: 'US', Value: ['512'] },
+            '00201041': { vr: 'DS', Value: ['abc'] },
+            '00200013': { vr: 'IS', Value: ['1.5'] },
+            '00209165': { vr: 'AT', Value: ['(0010,0020)'] },
+            '00100020': { vr: 'LO', Value: 'ID1' },
+        });
+        expect(errorsOf(report.findings).map(finding => finding.path)).toEqual([
+            "$['00080060']['Value'][0]",
+            "$['00280010']['Value'][0]",
+            "$['00201041']['Value'][0]",
+            "$['00200013']['Value'][0]",
+            "$['00209165']['Value'][0]",
+            "$['00100020']['Value']",
+        ]);
+    });
+
+    it('reports malformed person names', () => {
+        const report = validateDicomJson({ '00100010': { vr: 'PN', Value: ['Smith^John', { Alphabetic: 1 }, { Alphabetical: 'x' }] } });
+        expect(errorsOf(report.findings).map(finding => finding.path)).toEqual([
+            "$['00100010']['Value'][0]",
+            "$['00100010']['Value'][1]['Alphabetic']",
+            "$['00100010']['Value'][2]",
+        ]);
+    });
+
+    it('checks sequence items level by level with their JSON paths', () => {
+        const report = validateDicomJson({
+            '00081115': {
+                vr: 'SQ',
+                Value: [{ '0020000E': { vr: 'UI', Value: ['1.2'] } }, { '00081199': { vr: 'SQ', Value: [{ '00081150': { vr: 'UI', Value: [1] } }] } }],
+            },
+            '00400275': { vr: 'SQ', Value: ['item'] },
+        });
+        expect(errorsOf(report.findings)).toEqual([
+            { path: "$['00400275']['Value'][0]", message: 'Sequence items must be objects' },
+            { path: "$['00081115']['Value'][1]['00081199']['Value'][0]['00081150']['Value'][0]", message: 'Invalid input: expected string, received number' },
+        ]);
+    });
+
+    it('reports sequences nested deeper than MAX_TRAVERSAL_DEPTH', () => {
+        let model: Record<string, unknown> = { '0040A160': { vr: 'UT', Value: ['leaf'] } };
+        for (let i = 0; i < MAX_TRAVERSAL_DEPTH; i++) model = { '0040A730': { vr: 'SQ', Value: [model] } };
+        const report = validateDicomJson(model);
+        expect(report.valid).toBe(false);
+        expect(report.findings).toHaveLength(1);
+        expect(report.findings[0]?.message).toMatch(/maximum depth of 50/);
+        expect(report.findings[0]?.path.split("['Value'][0]")).toHaveLength(MAX_TRAVERSAL_DEPTH);
+    });
+
+    it('reports keys that name the same tag in different case', () => {
+        const report = validateDicomJson({ '0020000D': { vr: 'UI', Value: ['1.2.3'] }, '0020000d': { vr: 'UI', Value: ['1.2.4'] } });
+        expect(errorsOf(report.findings)).toEqual([{ path: "$['0020000d']", message: 'Tag key duplicates 0020000D' }]);
+    });
+
+    describe('departures from PS3.18', () => {
+        const json = {
+            '0020000e': { vr: 'UI', Value: ['1.2.3'] },
+            '00100010': { vr: 'PN', Value: [{ Alphabetic: 'A' }], keyword: 'PatientName' },
+            '00201041': { vr: 'DS', Value: ['-12.5'] },
+            '00200013': { vr: 'IS', Value: ['3'] },
+            '00280010': { vr: 'US', Value: [70000] },
+            '00291010': { vr: 'OB', Value: [1, 2] },
+            '00291011': { vr: 'OB', InlineBinary: 'not base64!' },
+            '00100020': { vr: 'LO', InlineBinary: 'AAAA' },
+        };
+        const expected = [
+            { path: "$['0020000e']", message: 'Tag keys should be upper-case hex' },
+            { path: "$['00100010']", message: 'Unrecognized key: "keyword"' },
+            { path: "$['00201041']['Value'][0]", message: 'DS values should be JSON numbers' },
+            { path: "$['00200013']['Value'][0]", message: 'IS values should be JSON numbers' },
+            { path: "$['00280010']['Value'][0]", message: 'Too big: expected number to be <=65535' },
+            { path: "$['00291010']['Value']", message: 'OB values should be InlineBinary or BulkDataURI' },
+            { path: "$['00291011']['InlineBinary']", message: 'InlineBinary is not base64' },
+            { path: "$['00100020']['InlineBinary']", message: 'InlineBinary is not allowed for VR LO' },
+        ];
+
+        it('are warnings in standard mode', () => {
+            const report = validateDicomJson(json, 'standard');
+            expect(report.valid).toBe(true);
+            expect(report.findings.map(({ path, message }) => ({ path, message }))).toEqual(expected);
+            expect(report.findings.every(finding => finding.severity === 'warning')).toBe(true);
+        });
+
+        it('are errors in strict mode', () => {
+            const report = validateDicomJson(json, 'strict');
+            expect(report.valid).toBe(false);
+            expect(errorsOf(report.findings)).toEqual(expected);
+        });
+    });
+});
+
+describe('DicomDataset.fromJson validation', () => {
+    it('accepts anything object-shaped by default', () => {
+        expect(DicomDataset.fromJson({ nonsense: 1 }).ok).toBe(true);
+    });
+
+    it('rejects invalid JSON in standard mode with the JSON paths of the errors', () => {
+        const result = DicomDataset.fromJson({ '00100010': { vr: 'XX' } }, { validation: 'standard' });
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toBe(`Invalid DICOM JSON: $['00100010']['vr']: Unknown VR "XX"`);
+    });
+
+    it('accepts warnings in standard mode and rejects them in strict mode', () => {
+        const json = { '00201041': { vr: 'DS', Value: ['1.5'] } };
+        expect(DicomDataset.fromJson(json, { validation: 'standard' }).ok).toBe(true);
+        expect(DicomDataset.fromJson(json, { validation: 'strict' }).ok).toBe(false);
+    });
+
+    it('upper-cases lower-case tag keys at every nesting level', () => {
+        const json = {
+            '0020000d': { vr: 'UI', Value: ['1.2.3'] },
+            '00081115': { vr: 'SQ', Value: [{ '0020000e': { vr: 'UI', Value: ['1.2.3.4'] } }] },
+        };
+        const result = DicomDataset.fromJson(json, { validation: 'standard' });
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        expect(result.value.studyInstanceUID).toBe('1.2.3');
+        expect(result.value.hasTag('(0020,000D)')).toBe(true);
+        expect(result.value.findValues('(0008,1115)[0].(0020,000E)')).toEqual(['1.2.3.4']);
+        expect(Object.keys(json)).toEqual(['0020000d', '00081115']);
+    });
+
+    it('keeps the upper-case key of a tag also given in lower case', () => {
+        const result = DicomDataset.fromJson({ '0020000d': { vr: 'UI', Value: ['1.2.4'] }, '0020000D': { vr: 'UI', Value: ['1.2.3'] } });
+        expect(result.ok && result.value.toJson()).toEqual({ '0020000D': { vr: 'UI', Value: ['1.2.3'] } });
+    });
+
+    it('quotes the first five errors', () => {
+        const json: Record<string, unknown> = {};
+        for (let i = 0; i < 8; i++) json[`0010100${i}`] = { vr: 'XX' };
+        const result = DicomDataset.fromJson(json, { validation: JsonValidationMode.STRICT });
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+            expect(result.error.message.split('; ')).toHaveLength(5);
+            expect(result.error.message).toMatch(/\(and 3 more\)$/);
+        }
+    });
+});
@@ -0,0 +1,262 @@
+/**
+ * Validation of untrusted DICOM JSON Model input (PS3.18 F.2), such as the responses
+ * of third-party DICOMweb servers, before it is wrapped in a DicomDataset.
+ *
+ * Three modes, from most to least permissive:
+ * - `lenient`: the input only has to be an object, as `DicomDataset.fromJson` has always accepted
+ * - `standard`: structural errors are rejected — malformed tag keys, keys naming the same tag
+ *   in different case, missing or unknown VRs, values of the wrong type for their VR, malformed
+ *   person names, sequence items that are not objects, and more than one of `Value`,
+ *   `BulkDataURI` and `InlineBinary`. Departures from PS3.18 that common servers produce are
+ *   reported as warnings; `DicomDataset.fromJson` upper-cases lower-case tag keys.
+ * - `strict`: those departures are errors too — lower-case tag keys, unknown element
+ *   properties, DS and IS values as strings, integers out of range for their VR, `Value`
+ *   on binary VRs, and InlineBinary that is not base64 or not on a binary VR.
+ *
+ * Each level is checked with Zod schemas; sequence items are queued (Rule 8.2: no recursion).
+ * Every finding carries the JSON path of the offending property, e.g.
+ * `$['00081115']['Value'][0]['0020000E']['vr']`.
+ *
+ * @module dicom/validateJson
+ */
+
+import { z } from 'zod';
+import { MAX_TRAVERSAL_DEPTH } from '../constants';
+import type { FindingSeverity } from './validateIod';
+import { VR, isBinaryVR, isNumericVR } from './vr';
+import type { VRValue } from './vr';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** How thoroughly DICOM JSON input is validated. */
+const JsonValidationMode = {
+    LENIENT: 'lenient',
+    STANDARD: 'standard',
+    STRICT: 'strict',
+} as const;
+
+/** One of the {@link JsonValidationMode} values. */
+type JsonValidationModeValue = (typeof JsonValidationMode)[keyof typeof JsonValidationMode];
+
+/** A single problem found by {@link validateDicomJson}. */
+interface JsonFinding {
+    readonly severity: FindingSeverity;
+    /** JSON path of the offending property, e.g. `$['00100010']['Value'][0]`. */
+    readonly path: string;
+    readonly message: string;
+}
+
+/** The outcome of validating DICOM JSON input. */
+interface JsonValidationReport {
+    /** Every finding, level by level in document order. */
+    readonly findings: ReadonlyArray<JsonFinding>;
+    /** True if there are no error findings. */
+    readonly valid: boolean;
+}
+
+/** A dataset or sequence item still to check, with its JSON path and nesting depth. */
+interface PendingModel {
+    readonly model: Readonly<Record<string, unknown>>;
+    readonly path: string;
+    readonly depth: number;
+}
+
+/** Findings and pending sequence items of a validation in progress. */
+interface ValidationState {
+    readonly mode: JsonValidationModeValue;
+    readonly findings: JsonFinding[];
+    readonly queue: PendingModel[];
+}
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+const VR_CODES = Object.values(VR) as [VRValue, ...VRValue[]];
+
+/** An element key: 8 hex digits. */
+const TagKeySchema = z.string().regex(/^[0-9A-Fa-f]{8}$/, 'Tag keys must be 8 hex digits');
+
+/** PS3.18 writes tag keys in upper case. */
+const UpperTagKeySchema = z.string().regex(/^[0-9A-F]{8}$/, 'Tag keys should be upper-case hex');
+
+/** The properties of an element, with `Value`, `BulkDataURI` and `InlineBinary` mutually exclusive. */
+const ElementSchema = z
+    .object({
+        vr: z.enum(VR_CODES, { error: issue => (issue.input === undefined ? 'vr is missing' : `Unknown VR ${JSON.stringify(issue.input)}`) }),
+        Value: z.array(z.unknown()).optional(),
+        BulkDataURI: z.string().optional(),
+        InlineBinary: z.string().optional(),
+    })
+    .refine(element => [element.Value, element.BulkDataURI, element.InlineBinary].filter(part => part !== undefined).length <= 1, {
+        message: 'Value, BulkDataURI and InlineBinary are mutually exclusive',
+    });
+
+/** PS3.18 defines no element properties besides these. */
+const KnownPropertiesSchema = z.strictObject({ vr: z.unknown(), Value: z.unknown(), BulkDataURI: z.unknown(), InlineBinary: z.unknown() });
+
+/** InlineBinary holds standard base64. */
+const Base64Schema = z.string().regex(/^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/, 'InlineBinary is not base64');
+
+/** A PN value: an object of up to three component groups. */
+const PersonNameSchema = z.strictObject({ Alphabetic: z.string().optional(), Ideographic: z.string().optional(), Phonetic: z.string().optional() });
+
+/** A sequence item: an object of elements. */
+const ItemSchema = z.record(z.string(), z.unknown(), { error: 'Sequence items must be objects' });
+
+/** DS and IS values as numbers, or as the strings servers often send instead. */
+const DecimalStringSchema = z.union([z.number(), z.string().regex(/^\s*(?:[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)?\s*$/, 'Not a decimal string')]);
+const IntegerStringSchema = z.union([z.number().int(), z.string().regex(/^\s*(?:[+-]?\d+)?\s*$/, 'Not an integer string')]);
+
+/** 64-bit integers, as numbers or as decimal strings when beyond the safe integer range. */
+const BigIntegerSchema = z.union([z.number().int(), z.string().regex(/^-?\d+$/, 'Not an integer')]);
+
+/** Value schemas for VRs whose values are not plain strings, checked in every validating mode. */
+const VALUE_SCHEMAS: Readonly<Partial<Record<VRValue, z.ZodType>>> = {
+    SQ: ItemSchema,
+    PN: PersonNameSchema.nullable(),
+    AT: z
+        .string()
+        .regex(/^[0-9A-Fa-f]{8}$/, 'AT values must be 8 hex digits')
+        .nullable(),
+    DS: DecimalStringSchema.nullable(),
+    IS: IntegerStringSchema.nullable(),
+    SV: BigIntegerSchema.nullable(),
+    UV: BigIntegerSchema.nullable(),
+};
+
+/** Integer ranges of the binary integer VRs, checked in strict mode. */
+const INTEGER_RANGES: Readonly<Partial<Record<VRValue, readonly [number, number]>>> = {
+    US: [0, 0xffff],
+    SS: [-0x8000, 0x7fff],
+    UL: [0, 0xffffffff],
+    SL: [-0x80000000, 0x7fffffff],
+};
+
+/** The schema of one value of a VR, in every validating mode. */
+function valueSchema(vr: VRValue): z.ZodType {
+    const schema = VALUE_SCHEMAS[vr];
+    if (schema !== undefined) return schema;
+    if (isNumericVR(vr)) return z.number().nullable();
+    if (isBinaryVR(vr)) return z.unknown();
+    return z.string().nullable();
+}
+
+/** The stricter schema of one value of a VR, or undefined if strict mode adds nothing. */
+function strictValueSchema(vr: VRValue): z.ZodType | undefined {
+    const range = INTEGER_RANGES[vr];
+    if (range !== undefined) return z.number().int().min(range[0]).max(range[1]).nullable();
+    if (vr === VR.DS) return z.number({ error: 'DS values should be JSON numbers' }).nullable();
+    if (vr === VR.IS) return z.number({ error: 'IS values should be JSON numbers' }).int().nullable();
+    return undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Appends property names and array indices to a JSON path in normalized bracket notation. */
+function jsonPath(base: string, segments: ReadonlyArray<PropertyKey>): string {
+    let path = base;
+    for (const segment of segments) path += typeof segment === 'number' ? `[${segment}]` : `['${String(segment)}']`;
+    return path;
+}
+
+/** Records the issues of a failed parse as findings under a base path. */
+function addIssues(state: ValidationState, severity: FindingSeverity, base: string, result: z.ZodSafeParseResult<unknown>): boolean {
+    if (result.success) return true;
+    for (const issue of result.error.issues) state.findings.push({ severity, path: jsonPath(base, issue.path), message: issue.message });
+    return false;
+}
+
+/** Severity of the departures from PS3.18 that only strict mode rejects. */
+function strictSeverity(state: ValidationState): FindingSeverity {
+    return state.mode === JsonValidationMode.STRICT ? 'error' : 'warning';
+}
+
+/** Checks the departures from PS3.18 that standard mode only warns about. */
+function checkStrict(state: ValidationState, path: string, element: z.infer<typeof ElementSchema>, raw: unknown): void {
+    const severity = strictSeverity(state);
+    addIssues(state, severity, path, KnownPropertiesSchema.safeParse(raw));
+    const binary = isBinaryVR(element.vr);
+    if (binary && element.Value !== undefined) {
+        state.findings.push({ severity, path: jsonPath(path, ['Value']), message: `${element.vr} values should be InlineBinary or BulkDataURI` });
+    }
+    if (element.InlineBinary !== undefined) {
+        if (!binary) state.findings.push({ severity, path: jsonPath(path, ['InlineBinary']), message: `InlineBinary is not allowed for VR ${element.vr}` });
+        addIssues(state, severity, jsonPath(path, ['InlineBinary']), Base64Schema.safeParse(element.InlineBinary));
+    }
+    const strictSchema = strictValueSchema(element.vr);
+    if (strictSchema !== undefined && element.Value !== undefined) {
+        addIssues(state, severity, jsonPath(path, ['Value']), z.array(strictSchema).safeParse(element.Value));
+    }
+}
+
+/** Queues the items of a valid sequence, or records a finding at the nesting limit. */
+function queueItems(state: ValidationState, path: string, items: ReadonlyArray<unknown>, depth: number): void {
+    if (items.length > 0 && depth + 1 > MAX_TRAVERSAL_DEPTH) {
+        state.findings.push({
+            severity: 'error',
+            path: jsonPath(path, ['Value']),
+            message: `Sequence nesting exceeds maximum depth of ${MAX_TRAVERSAL_DEPTH}`,
+        });
+        return;
+    }
+    items.forEach((item, index) => {
+        state.queue.push({ model: item as Record<string, unknown>, path: jsonPath(path, ['Value', index]), depth: depth + 1 });
+    });
+}
+
+/** Checks one element: its key, its properties, and its values against its VR. */
+function checkElement(state: ValidationState, pending: PendingModel, key: string): void {
+    const path = jsonPath(pending.path, [key]);
+    if (!addIssues(state, 'error', path, TagKeySchema.safeParse(key))) return;
+    addIssues(state, strictSeverity(state), path, UpperTagKeySchema.safeParse(key));
+    const upper = key.toUpperCase();
+    if (upper !== key && upper in pending.model) state.findings.push({ severity: 'error', path, message: `Tag key duplicates ${upper}` });
+
+    const raw = pending.model[key];
+    const parsed = ElementSchema.safeParse(raw);
+    if (!addIssues(state, 'error', path, parsed) || !parsed.success) return;
+    const element = parsed.data;
+    const values = z.array(valueSchema(element.vr)).safeParse(element.Value ?? []);
+    const valuesValid = addIssues(state, 'error', jsonPath(path, ['Value']), values);
+    checkStrict(state, path, element, raw);
+    if (element.vr === VR.SQ && valuesValid) queueItems(state, path, element.Value ?? [], pending.depth);
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Validates DICOM JSON Model input (iterative, no recursion — Rule 8.2).
+ *
+ * @example
+ * ```ts
+ * const report = validateDicomJson(await response.json(), 'strict');
+ * for (const finding of report.findings) {
+ *     console.log(`${finding.severity} ${finding.path}: ${finding.message}`);
+ * }
+ * ```
+ *
+ * @param json - The parsed JSON to validate
+ * @param mode - How thoroughly to validate (default: `standard`)
+ * @returns The findings, and whether the input is free of errors
+ */
+function validateDicomJson(json: unknown, mode: JsonValidationModeValue = JsonValidationMode.STANDARD): JsonValidationReport {
+    if (json === null || typeof json !== 'object' || Array.isArray(json)) {
+        return { findings: [{ severity: 'error', path: '$', message: 'Expected a non-null, non-array object' }], valid: false };
+    }
+    if (mode === JsonValidationMode.LENIENT) return { findings: [], valid: true };
+    const state: ValidationState = { mode, findings: [], queue: [{ model: json as Record<string, unknown>, path: '$', depth: 1 }] };
+    for (let next = state.queue.shift(); next !== undefined; next = state.queue.shift()) {
+        for (const key of Object.keys(next.model)) checkElement(state, next, key);
+    }
+    return { findings: state.findings, valid: state.findings.every(finding => finding.severity !== 'error') };
+}
+
+export { JsonValidationMode, validateDicomJson };
+export type { JsonValidationModeValue, JsonFinding, JsonValidationReport };
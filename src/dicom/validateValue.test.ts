@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { splitValues, validateValue, validateTagValue } from './validateValue';
+
+function errorOf(vr: string, value: string, vm?: readonly [number, number | null]): string {
+    const result = validateValue(vr, value, vm);
+    if (result.ok) throw new Error(`expected "${value}" to be rejected as ${vr}`);
+    return result.error.message;
+}
+
+describe('splitValues', () => {
+    it('splits on backslashes', () => {
+        expect(splitValues('CS', 'A\\B')).toEqual(['A', 'B']);
+    });
+
+    it('keeps LT, ST, UT and UR values whole', () => {
+        expect(splitValues('LT', 'A\\B')).toEqual(['A\\B']);
+        expect(splitValues('UR', 'A\\B')).toEqual(['A\\B']);
+    });
+});
+
+describe('validateValue', () => {
+    it('accepts empty values for any string VR', () => {
+        expect(validateValue('DA', '').ok).toBe(true);
+        expect(validateValue('US', '', [1, 1]).ok).toBe(true);
+    });
+
+    it('rejects unknown, sequence and binary VRs', () => {
+        expect(errorOf('XX', 'a')).toBe('unknown VR "XX"');
+        expect(errorOf('SQ', '')).toBe('cannot set a string value on VR SQ');
+        expect(errorOf('OB', 'a')).toBe('cannot set a string value on VR OB');
+    });
+
+    it('checks maximum lengths from VR_META', () => {
+        expect(validateValue('SH', 'X'.repeat(16)).ok).toBe(true);
+        expect(errorOf('SH', 'X'.repeat(17))).toMatch(/exceeds maximum length of 16/);
+    });
+
+    it('checks PN length per component group', () => {
+        expect(validateValue('PN', `${'A'.repeat(64)}=${'B'.repeat(64)}`).ok).toBe(true);
+        expect(errorOf('PN', 'A'.repeat(65))).toMatch(/component group exceeds 64/);
+        expect(errorOf('PN', 'A=B=C=D')).toMatch(/more than 3 component groups/);
+    });
+
+    it('allows line breaks only in LT, ST and UT', () => {
+        expect(validateValue('LT', 'line 1\r\nline 2').ok).toBe(true);
+        expect(errorOf('LO', 'line 1\nline 2')).toMatch(/line breaks/);
+    });
+
+    it('checks character repertoires', () => {
+        expect(validateValue('CS', 'ORIGINAL\\PRIMARY').ok).toBe(true);
+        expect(errorOf('CS', 'original')).toMatch(/Invalid CS value "original"/);
+        expect(validateValue('UI', '1.2.840.10008.1.2').ok).toBe(true);
+        expect(errorOf('UI', '1.2.03')).toMatch(/Invalid UI value/);
+        expect(errorOf('AE', '    ')).toMatch(/Invalid AE value/);
+        expect(validateValue('AT', '(0010,0010)').ok).toBe(true);
+        expect(errorOf('UR', 'http://a b')).toMatch(/Invalid UR value/);
+    });
+
+    it('checks date, time and age formats', () => {
+        expect(validateValue('DA', '20240229').ok).toBe(true);
+        expect(errorOf('DA', '20230229')).toMatch(/Invalid date "20230229"/);
+        expect(validateValue('TM', '103000.5').ok).toBe(true);
+        expect(errorOf('TM', '256000')).toMatch(/Invalid time "256000"/);
+        expect(validateValue('DT', '20240115103000+0100').ok).toBe(true);
+        expect(validateValue('AS', '045Y').ok).toBe(true);
+        expect(errorOf('AS', '45Y')).toMatch(/Invalid AS value/);
+    });
+
+    it('checks numbers and integer ranges', () => {
+        expect(validateValue('DS', ' -1.5e3 ').ok).toBe(true);
+        expect(errorOf('DS', '1,5')).toMatch(/Invalid DS value/);
+        expect(errorOf('IS', '2147483648')).toMatch(/out of range/);
+        expect(validateValue('US', '65535').ok).toBe(true);
+        expect(errorOf('US', '-1')).toMatch(/out of range/);
+        expect(validateValue('UV', '18446744073709551615').ok).toBe(true);
+        expect(errorOf('SS', '1.5')).toMatch(/expected an integer/);
+        expect(validateValue('FD', '-0.25').ok).toBe(true);
+        expect(errorOf('FL', 'NaN')).toMatch(/expected a number/);
+    });
+
+    it('checks the value multiplicity', () => {
+        expect(validateValue('DS', '0.5\\0.5', [2, 2]).ok).toBe(true);
+        expect(errorOf('DS', '0.5', [2, 2])).toBe('1 value(s) given, but VM is 2');
+        expect(errorOf('CS', 'A\\B\\C', [1, 2])).toBe('3 value(s) given, but VM is 1-2');
+        expect(validateValue('CS', 'A\\B\\C\\D', [2, null]).ok).toBe(true);
+    });
+
+    it('skips empty values of a multi-valued element', () => {
+        expect(validateValue('DA', '20240101\\\\20240102', [1, null]).ok).toBe(true);
+    });
+});
+
+describe('validateTagValue', () => {
+    it('validates against the dictionary VR and VM', () => {
+        expect(validateTagValue('(0028,0010)', '512').ok).toBe(true);
+        const result = validateTagValue('(0028,0010)', '70000');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/^Rows \(0028,0010\): Invalid US value "70000": out of range/);
+    });
+
+    it('rejects tags without a dictionary entry', () => {
+        const result = validateTagValue('(0009,1001)', 'x');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toBe('(0009,1001): not in the data dictionary, so its value cannot be validated');
+    });
+});
@@ -0,0 +1,221 @@
+/**
+ * Validation of dcmodify string values against their VR and value multiplicity.
+ *
+ * Checks what a conformant file requires of each value: the maximum length from
+ * {@link VR_META}, the character repertoire of the VR, date/time/age formats,
+ * numeric ranges, and the number of backslash-delimited values against the VM.
+ *
+ * @module dicom/validateValue
+ */
+
+import type { Result } from '../types';
+import { ok, err } from '../types';
+import { lookupTag, formatMultiplicity } from './dictionary';
+import type { TagMultiplicity } from './tagTypes';
+import { parseAge, parseDate, parseDateTime, parseTime } from './values';
+import { VR, VR_META, isBinaryVR, isStringVR } from './vr';
+import type { VRValue } from './vr';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** CS: uppercase letters, digits, space and underscore. */
+const CS_PATTERN = /^[A-Z0-9 _]*$/;
+
+/** UI: dot-separated numeric components without leading zeros. */
+const UI_PATTERN = /^(0|[1-9]\d*)(\.(0|[1-9]\d*))*$/;
+
+/** DS: a fixed or floating point number, optionally space padded. */
+const DS_PATTERN = /^ *[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)? *$/;
+
+/** IS and the 64-bit integer VRs: an optionally signed integer, optionally space padded. */
+const INTEGER_PATTERN = /^ *[+-]?\d+ *$/;
+
+/** AT: a `(GGGG,EEEE)` tag. */
+const AT_PATTERN = /^\([0-9A-Fa-f]{4},[0-9A-Fa-f]{4}\)$/;
+
+/** Printable characters of the default repertoire (AE). */
+const PRINTABLE_PATTERN = /^[\x20-\x7E]*$/;
+
+/** UR: URI characters with optional trailing spaces. */
+const UR_PATTERN = /^[\x21-\x7E]* *$/;
+
+/** VRs with VM 1 whose values may contain a literal backslash. */
+const UNSPLIT_VRS: ReadonlySet<string> = new Set([VR.LT, VR.ST, VR.UT, VR.UR]);
+
+/** Line breaks, allowed only in the text VRs LT, ST and UT. */
+const LINE_BREAK_PATTERN = /[\n\f\r]/;
+
+/** VRs whose values may contain line breaks. */
+const TEXT_VRS: ReadonlySet<string> = new Set([VR.LT, VR.ST, VR.UT]);
+
+/** Maximum characters per PN component group. */
+const PN_GROUP_MAX_LENGTH = 64;
+
+/** Inclusive ranges of the integer VRs, as bigints so the 64-bit VRs are exact. */
+const INTEGER_RANGES: Readonly<Record<string, readonly [bigint, bigint]>> = {
+    [VR.IS]: [-(2n ** 31n), 2n ** 31n - 1n],
+    [VR.SS]: [-(2n ** 15n), 2n ** 15n - 1n],
+    [VR.US]: [0n, 2n ** 16n - 1n],
+    [VR.SL]: [-(2n ** 31n), 2n ** 31n - 1n],
+    [VR.UL]: [0n, 2n ** 32n - 1n],
+    [VR.SV]: [-(2n ** 63n), 2n ** 63n - 1n],
+    [VR.UV]: [0n, 2n ** 64n - 1n],
+};
+
+// ---------------------------------------------------------------------------
+// Single value checks
+// ---------------------------------------------------------------------------
+
+/** Splits a dcmodify value into its individual values for a VR. */
+function splitValues(vr: string, value: string): ReadonlyArray<string> {
+    return UNSPLIT_VRS.has(vr) ? [value] : value.split('\\');
+}
+
+/** Builds a check from a regular expression and a description of what it expects. */
+function patternCheck(vr: VRValue, pattern: RegExp, expected: string): (value: string) => Result<void> {
+    return value => (pattern.test(value) ? ok(undefined) : err(new Error(`Invalid ${vr} value "${value}": expected ${expected}`)));
+}
+
+/** Builds a check from one of the value parsers. */
+function parserCheck(parse: (value: string) => Result<unknown>): (value: string) => Result<void> {
+    return value => {
+        const parsed = parse(value);
+        return parsed.ok ? ok(undefined) : err(parsed.error);
+    };
+}
+
+/** Checks an integer VR value: its format and its range. */
+function checkInteger(vr: VRValue, value: string): Result<void> {
+    if (!INTEGER_PATTERN.test(value)) return err(new Error(`Invalid ${vr} value "${value}": expected an integer`));
+    const range = INTEGER_RANGES[vr];
+    const parsed = BigInt(value.trim());
+    if (range !== undefined && (parsed < range[0] || parsed > range[1])) {
+        return err(new Error(`Invalid ${vr} value "${value}": out of range ${range[0]} to ${range[1]}`));
+    }
+    return ok(undefined);
+}
+
+/** Checks an FL or FD value, which must be a finite number. */
+function checkFloat(vr: VRValue, value: string): Result<void> {
+    const parsed = value.trim().length > 0 ? Number(value) : Number.NaN;
+    return Number.isFinite(parsed) ? ok(undefined) : err(new Error(`Invalid ${vr} value "${value}": expected a number`));
+}
+
+/** Checks a PN value: the component structure and the length of each component group. */
+function checkPersonName(value: string): Result<void> {
+    const groups = value.split('=');
+    if (groups.length > 3) return err(new Error(`Invalid PN value "${value}": more than 3 component groups`));
+    for (const group of groups) {
+        if (group.split('^').length > 5) return err(new Error(`Invalid PN value "${value}": more than 5 components in a group`));
+        if (group.length > PN_GROUP_MAX_LENGTH) {
+            return err(new Error(`Invalid PN value "${value}": a component group exceeds ${PN_GROUP_MAX_LENGTH} characters`));
+        }
+    }
+    return ok(undefined);
+}
+
+/** Checks an AE value: printable characters that are not all spaces. */
+function checkApplicationEntity(value: string): Result<void> {
+    if (!PRINTABLE_PATTERN.test(value) || value.trim().length === 0) {
+        return err(new Error(`Invalid AE value "${value}": expected printable characters, not only spaces`));
+    }
+    return ok(undefined);
+}
+
+/** Format checks for VRs whose values have a structure beyond their length and line-break rule. */
+const VALUE_CHECKS: Readonly<Partial<Record<VRValue, (value: string) => Result<void>>>> = {
+    AE: checkApplicationEntity,
+    AS: parserCheck(parseAge),
+    AT: patternCheck(VR.AT, AT_PATTERN, '(GGGG,EEEE)'),
+    CS: patternCheck(VR.CS, CS_PATTERN, 'uppercase letters, digits, space or underscore'),
+    DA: parserCheck(parseDate),
+    DS: patternCheck(VR.DS, DS_PATTERN, 'a decimal number'),
+    DT: parserCheck(value => parseDateTime(value)),
+    FD: value => checkFloat(VR.FD, value),
+    FL: value => checkFloat(VR.FL, value),
+    IS: value => checkInteger(VR.IS, value),
+    PN: checkPersonName,
+    SL: value => checkInteger(VR.SL, value),
+    SS: value => checkInteger(VR.SS, value),
+    SV: value => checkInteger(VR.SV, value),
+    TM: parserCheck(parseTime),
+    UI: patternCheck(VR.UI, UI_PATTERN, 'dot-separated numbers without leading zeros'),
+    UL: value => checkInteger(VR.UL, value),
+    UR: patternCheck(VR.UR, UR_PATTERN, 'URI characters without embedded spaces'),
+    US: value => checkInteger(VR.US, value),
+    UV: value => checkInteger(VR.UV, value),
+};
+
+/**
+ * Checks one value of a VR: length, line breaks, then the VR's format.
+ * Only text VRs have a character length; the maximum of binary-encoded VRs is in bytes.
+ */
+function checkSingleValue(vr: VRValue, value: string): Result<void> {
+    const meta = VR_META[vr];
+    const maxLength = vr === VR.PN || meta.category !== 'STRING' ? null : meta.maxLength;
+    if (maxLength !== null && value.length > maxLength) {
+        return err(new Error(`Invalid ${vr} value "${value}": exceeds maximum length of ${maxLength}`));
+    }
+    if (!TEXT_VRS.has(vr) && LINE_BREAK_PATTERN.test(value)) {
+        return err(new Error(`Invalid ${vr} value "${value}": line breaks are only allowed in LT, ST and UT`));
+    }
+    return VALUE_CHECKS[vr]?.(value) ?? ok(undefined);
+}
+
+/** Checks the number of values against a VM. */
+function checkMultiplicity(count: number, vm: TagMultiplicity): Result<void> {
+    if (count >= vm[0] && (vm[1] === null || count <= vm[1])) return ok(undefined);
+    return err(new Error(`${count} value(s) given, but VM is ${formatMultiplicity(vm)}`));
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Validates a dcmodify string value against a VR and, optionally, a value multiplicity.
+ *
+ * An empty value is always valid (it writes a zero-length element). Otherwise the
+ * value is split on backslashes (except for LT, ST, UT and UR), the number of
+ * values is checked against `vm`, and each non-empty value is checked on its own.
+ *
+ * @param vr - The VR of the element
+ * @param value - The value as passed to dcmodify
+ * @param vm - The allowed value multiplicity, if known
+ * @returns A Result that is ok if the value fits, or an error describing the first problem
+ */
+function validateValue(vr: string, value: string, vm?: TagMultiplicity): Result<void> {
+    if (!isStringVR(vr)) return err(new Error(`unknown VR "${vr}"`));
+    if (vr === VR.SQ || isBinaryVR(vr)) return err(new Error(`cannot set a string value on VR ${vr}`));
+    if (value.length === 0) return ok(undefined);
+    const parts = splitValues(vr, value);
+    const counted = vm === undefined ? ok(undefined) : checkMultiplicity(parts.length, vm);
+    if (!counted.ok) return counted;
+    for (const part of parts) {
+        if (part.length === 0) continue;
+        const checked = checkSingleValue(vr, part);
+        if (!checked.ok) return checked;
+    }
+    return ok(undefined);
+}
+
+/**
+ * Validates a value for a tag using its data dictionary VR and VM.
+ *
+ * Errors name the attribute by keyword and tag, e.g. `PatientID (0010,0020): ...`.
+ *
+ * @param tag - The tag in `(GGGG,EEEE)` format
+ * @param value - The value as passed to dcmodify
+ * @returns A Result that is ok if the value fits, or an error naming the attribute; tags
+ *   without a dictionary entry cannot be validated and are reported as errors
+ */
+function validateTagValue(tag: string, value: string): Result<void> {
+    const entry = lookupTag(tag);
+    if (entry === undefined) return err(new Error(`${tag}: not in the data dictionary, so its value cannot be validated`));
+    const checked = validateValue(entry.vr, value, entry.vm);
+    return checked.ok ? checked : err(new Error(`${entry.name} ${tag}: ${checked.error.message}`));
+}
+
+export { splitValues, validateValue, validateTagValue };
@@ -0,0 +1,288 @@
+import { describe, it, expect } from 'vitest';
+import { parseDate, parseTime, parseDateTime, parseUtcOffset, parseAge, parsePersonName, parseNumbers } from './values';
+
+describe('parseDate', () => {
+    it('parses YYYYMMDD', () => {
+        const result = parseDate('20240115');
+        expect(result).toEqual({ ok: true, value: { year: 2024, month: 1, day: 15 } });
+    });
+
+    it('strips space padding', () => {
+        expect(parseDate('20240115 ').ok).toBe(true);
+    });
+
+    it('accepts 29 February in a leap year', () => {
+        expect(parseDate('20240229').ok).toBe(true);
+    });
+
+    it('rejects 29 February in a non-leap year', () => {
+        const result = parseDate('20230229');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/day 29 is out of range/);
+    });
+
+    it('rejects month 13', () => {
+        const result = parseDate('20241301');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/month 13/);
+    });
+
+    it('rejects legacy dotted format', () => {
+        const result = parseDate('2024.01.15');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/exceeds maximum length/);
+    });
+
+    it('rejects non-digit values', () => {
+        const result = parseDate('2024AB15');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/expected YYYYMMDD/);
+    });
+});
+
+describe('parseTime', () => {
+    it('parses full HHMMSS.FFFFFF', () => {
+        const result = parseTime('142530.123456');
+        expect(result).toEqual({ ok: true, value: { hours: 14, minutes: 25, seconds: 30, microseconds: 123456 } });
+    });
+
+    it('defaults omitted components to zero', () => {
+        const result = parseTime('07');
+        expect(result).toEqual({ ok: true, value: { hours: 7, minutes: 0, seconds: 0, microseconds: 0 } });
+    });
+
+    it('scales short fractions to microseconds', () => {
+        const result = parseTime('120000.5');
+        expect(result.ok && result.value.microseconds).toBe(500000);
+    });
+
+    it('accepts a leap second', () => {
+        expect(parseTime('235960').ok).toBe(true);
+    });
+
+    it('rejects hours out of range', () => {
+        const result = parseTime('2400');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/hours 24/);
+    });
+
+    it('rejects minutes out of range', () => {
+        expect(parseTime('1260').ok).toBe(false);
+    });
+
+    it('rejects seconds out of range', () => {
+        expect(parseTime('120061').ok).toBe(false);
+    });
+
+    it('rejects colon-separated time', () => {
+        const result = parseTime('12:30:00');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/expected HH/);
+    });
+});
+
+describe('parseUtcOffset', () => {
+    it('parses positive offsets', () => {
+        expect(parseUtcOffset('+0130')).toEqual({ ok: true, value: 90 });
+    });
+
+    it('parses negative offsets', () => {
+        expect(parseUtcOffset('-0500')).toEqual({ ok: true, value: -300 });
+    });
+
+    it('rejects offsets without sign', () => {
+        expect(parseUtcOffset('0500').ok).toBe(false);
+    });
+
+    it('rejects out-of-range offsets', () => {
+        expect(parseUtcOffset('+1500').ok).toBe(false);
+        expect(parseUtcOffset('+0160').ok).toBe(false);
+    });
+});
+
+describe('parseDateTime', () => {
+    it('parses a full value with offset suffix', () => {
+        const result = parseDateTime('20240115143000.25+0100');
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(result.value.year).toBe(2024);
+            expect(result.value.hours).toBe(14);
+            expect(result.value.microseconds).toBe(250000);
+            expect(result.value.offsetMinutes).toBe(60);
+            expect(result.value.instant.toISOString()).toBe('2024-01-15T13:30:00.250Z');
+        }
+    });
+
+    it('defaults omitted components', () => {
+        const result = parseDateTime('2024');
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(result.value.month).toBe(1);
+            expect(result.value.day).toBe(1);
+            expect(result.value.offsetMinutes).toBeUndefined();
+            expect(result.value.instant.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+        }
+    });
+
+    it('applies the default offset when the value has none', () => {
+        const result = parseDateTime('202401151200', '-0500');
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(result.value.offsetMinutes).toBe(-300);
+            expect(result.value.instant.toISOString()).toBe('2024-01-15T17:00:00.000Z');
+        }
+    });
+
+    it('prefers the value suffix over the default offset', () => {
+        const result = parseDateTime('202401151200+0000', '-0500');
+        expect(result.ok && result.value.offsetMinutes).toBe(0);
+    });
+
+    it('ignores an empty default offset', () => {
+        const result = parseDateTime('20240115', '  ');
+        expect(result.ok && result.value.offsetMinutes).toBeUndefined();
+    });
+
+    it('rejects an invalid default offset', () => {
+        const result = parseDateTime('20240115', 'EST');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/Invalid UTC offset/);
+    });
+
+    it('rejects invalid calendar dates', () => {
+        expect(parseDateTime('20240230').ok).toBe(false);
+    });
+
+    it('rejects invalid times', () => {
+        expect(parseDateTime('2024011525').ok).toBe(false);
+    });
+
+    it('rejects malformed values', () => {
+        const result = parseDateTime('2024-01-15');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/Invalid DT value/);
+    });
+});
+
+describe('parseAge', () => {
+    it.each([
+        ['032Y', 32, 'Y'],
+        ['006M', 6, 'M'],
+        ['002W', 2, 'W'],
+        ['010D', 10, 'D'],
+    ] as const)('parses %s', (input, value, unit) => {
+        expect(parseAge(input)).toEqual({ ok: true, value: { value, unit } });
+    });
+
+    it('rejects missing unit', () => {
+        expect(parseAge('032').ok).toBe(false);
+    });
+
+    it('rejects unknown unit', () => {
+        const result = parseAge('032H');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/expected nnnD/);
+    });
+
+    it('rejects values longer than 4 characters', () => {
+        expect(parseAge('0032Y').ok).toBe(false);
+    });
+});
+
+describe('parsePersonName', () => {
+    it('parses the DICOM JSON object form', () => {
+        const result = parsePersonName({ Alphabetic: 'Smith^John^Q^Dr^Jr' });
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(result.value.alphabetic).toEqual({
+                familyName: 'Smith',
+                givenName: 'John',
+                middleName: 'Q',
+                namePrefix: 'Dr',
+                nameSuffix: 'Jr',
+            });
+            expect(result.value.ideographic).toBeUndefined();
+            expect(result.value.phonetic).toBeUndefined();
+        }
+    });
+
+    it('parses all three component groups from an object', () => {
+        const result = parsePersonName({ Alphabetic: 'Yamada^Tarou', Ideographic: '山田^太郎', Phonetic: 'やまだ^たろう' });
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(result.value.ideographic?.familyName).toBe('山田');
+            expect(result.value.phonetic?.givenName).toBe('たろう');
+        }
+    });
+
+    it('parses the raw string form with = separated groups', () => {
+        const result = parsePersonName('Yamada^Tarou=山田^太郎');
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(result.value.alphabetic?.givenName).toBe('Tarou');
+            expect(result.value.ideographic?.familyName).toBe('山田');
+        }
+    });
+
+    it('fills missing components with empty strings', () => {
+        const result = parsePersonName('Smith');
+        expect(result.ok && result.value.alphabetic?.givenName).toBe('');
+    });
+
+    it('returns no groups for an empty name', () => {
+        expect(parsePersonName('')).toEqual({ ok: true, value: { alphabetic: undefined, ideographic: undefined, phonetic: undefined } });
+    });
+
+    it('rejects more than five components', () => {
+        const result = parsePersonName('A^B^C^D^E^F');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/more than 5 components/);
+    });
+
+    it('rejects more than three groups', () => {
+        const result = parsePersonName('A=B=C=D');
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toMatch(/more than 3 component groups/);
+    });
+
+    it('rejects non-string group properties', () => {
+        expect(parsePersonName({ Alphabetic: 42 }).ok).toBe(false);
+    });
+
+    it('rejects non-string, non-object values', () => {
+        expect(parsePersonName(42).ok).toBe(false);
+        expect(parsePersonName(['Smith']).ok).toBe(false);
+    });
+});
+
+describe('parseNumbers', () => {
+    it('passes JSON numbers through', () => {
+        expect(parseNumbers([512, 1.5])).toEqual({ ok: true, value: [512, 1.5] });
+    });
+
+    it('parses DS and IS strings', () => {
+        expect(parseNumbers(['0.5', ' -12 ', '1e-3', '.25'])).toEqual({ ok: true, value: [0.5, -12, 0.001, 0.25] });
+    });
+
+    it('splits backslash-delimited strings', () => {
+        expect(parseNumbers(['0.5\\0.75'])).toEqual({ ok: true, value: [0.5, 0.75] });
+    });
+
+    it('returns an empty array for no values', () => {
+        expect(parseNumbers([])).toEqual({ ok: true, value: [] });
+    });
+
+    it('rejects non-numeric strings with their index', () => {
+        const result = parseNumbers(['1', 'abc']);
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toBe('Value at index 1 ("abc") is not numeric');
+    });
+
+    it('rejects empty strings', () => {
+        expect(parseNumbers(['']).ok).toBe(false);
+    });
+
+    it('rejects non-string, non-number values', () => {
+        expect(parseNumbers([null]).ok).toBe(false);
+    });
+});
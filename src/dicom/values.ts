@@ -0,0 +1,381 @@
+/**
+ * Typed parsers for DICOM string Value Representations.
+ *
+ * Converts the raw strings found in the DICOM JSON Model into structured values
+ * for the date/time (DA, TM, DT), person name (PN), age (AS) and numeric string
+ * (DS, IS) VRs. All parsers return a Result and never throw.
+ *
+ * @module dicom/values
+ */
+
+import type { Result } from '../types';
+import { ok, err } from '../types';
+import { VR_META } from './vr';
+import type { VRValue } from './vr';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A calendar date parsed from a DA value. */
+interface DicomDate {
+    readonly year: number;
+    /** Month of the year, 1-12. */
+    readonly month: number;
+    /** Day of the month, 1-31. */
+    readonly day: number;
+}
+
+/** A time of day parsed from a TM value. Omitted components default to 0. */
+interface DicomTime {
+    /** Hours, 0-23. */
+    readonly hours: number;
+    /** Minutes, 0-59. */
+    readonly minutes: number;
+    /** Seconds, 0-60 (60 allows for a leap second). */
+    readonly seconds: number;
+    /** Fractional seconds in microseconds, 0-999999. */
+    readonly microseconds: number;
+}
+
+/** A combined date and time parsed from a DT value. */
+interface DicomDateTime extends DicomDate, DicomTime {
+    /**
+     * Offset from UTC in minutes, taken from the value suffix or from
+     * TimezoneOffsetFromUTC (0008,0201). Undefined if neither is present.
+     */
+    readonly offsetMinutes: number | undefined;
+    /** The instant in time, with the UTC offset applied (UTC if no offset is known). */
+    readonly instant: Date;
+}
+
+/** Age units used by the AS VR: Days, Weeks, Months, Years. */
+type AgeUnit = 'D' | 'W' | 'M' | 'Y';
+
+/** An age parsed from an AS value, e.g. `"032Y"`. */
+interface DicomAge {
+    readonly value: number;
+    readonly unit: AgeUnit;
+}
+
+/** The five components of a single PN component group. Missing components are empty strings. */
+interface PersonNameComponents {
+    readonly familyName: string;
+    readonly givenName: string;
+    readonly middleName: string;
+    readonly namePrefix: string;
+    readonly nameSuffix: string;
+}
+
+/** A person name with its Alphabetic, Ideographic and Phonetic component groups. */
+interface PersonName {
+    readonly alphabetic?: PersonNameComponents | undefined;
+    readonly ideographic?: PersonNameComponents | undefined;
+    readonly phonetic?: PersonNameComponents | undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Patterns
+// ---------------------------------------------------------------------------
+
+const DA_PATTERN = /^(\d{4})(\d{2})(\d{2})$/;
+const TM_PATTERN = /^(\d{2})(?:(\d{2})(?:(\d{2})(?:\.(\d{1,6}))?)?)?$/;
+const DT_PATTERN = /^(\d{4})(?:(\d{2})(?:(\d{2})(?:(\d{2})(?:(\d{2})(?:(\d{2})(?:\.(\d{1,6}))?)?)?)?)?)?([+-]\d{4})?$/;
+const OFFSET_PATTERN = /^([+-])(\d{2})(\d{2})$/;
+const AS_PATTERN = /^(\d{3})([DWMY])$/;
+const NUMERIC_STRING_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+/** Maximum number of component groups in a PN value (Alphabetic, Ideographic, Phonetic). */
+const PN_MAX_GROUPS = 3;
+
+/** Maximum number of components in a PN component group. */
+const PN_MAX_COMPONENTS = 5;
+
+/** Maximum UTC offset magnitude in hours accepted for DT suffixes. */
+const MAX_OFFSET_HOURS = 14;
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+/** Strips DICOM space padding and rejects values longer than the VR allows. */
+function prepareValue(value: string, vr: VRValue): Result<string> {
+    const trimmed = value.trim();
+    const maxLength = VR_META[vr].maxLength;
+    if (maxLength !== null && trimmed.length > maxLength) {
+        return err(new Error(`Invalid ${vr} value "${value}": exceeds maximum length of ${maxLength}`));
+    }
+    return ok(trimmed);
+}
+
+/** Converts an optional numeric capture group to a number, using a default when absent. */
+function groupToNumber(group: string | undefined, fallback: number): number {
+    return group === undefined ? fallback : Number(group);
+}
+
+/** Converts a 1-6 digit fraction capture group to microseconds. */
+function fractionToMicroseconds(group: string | undefined): number {
+    return group === undefined ? 0 : Number(group.padEnd(6, '0'));
+}
+
+/** Returns the number of days in a month (month is 1-12). */
+function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** Validates calendar ranges for a date. */
+function validateDate(raw: string, date: DicomDate): Result<DicomDate> {
+    if (date.month < 1 || date.month > 12) {
+        return err(new Error(`Invalid date "${raw}": month ${date.month} is out of range`));
+    }
+    if (date.day < 1 || date.day > daysInMonth(date.year, date.month)) {
+        return err(new Error(`Invalid date "${raw}": day ${date.day} is out of range`));
+    }
+    return ok(date);
+}
+
+/** Validates clock ranges for a time. */
+function validateTime(raw: string, time: DicomTime): Result<DicomTime> {
+    if (time.hours > 23) return err(new Error(`Invalid time "${raw}": hours ${time.hours} is out of range`));
+    if (time.minutes > 59) return err(new Error(`Invalid time "${raw}": minutes ${time.minutes} is out of range`));
+    if (time.seconds > 60) return err(new Error(`Invalid time "${raw}": seconds ${time.seconds} is out of range`));
+    return ok(time);
+}
+
+// ---------------------------------------------------------------------------
+// DA / TM / DT
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses a DA (Date) value in `YYYYMMDD` format.
+ *
+ * @param value - The raw DA string
+ * @returns A Result containing the parsed date or an error
+ */
+function parseDate(value: string): Result<DicomDate> {
+    const prepared = prepareValue(value, 'DA');
+    if (!prepared.ok) return err(prepared.error);
+    const match = DA_PATTERN.exec(prepared.value);
+    if (match === null) return err(new Error(`Invalid DA value "${value}": expected YYYYMMDD`));
+    return validateDate(value, { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) });
+}
+
+/**
+ * Parses a TM (Time) value in `HH[MM[SS[.FFFFFF]]]` format.
+ *
+ * @param value - The raw TM string
+ * @returns A Result containing the parsed time or an error
+ */
+function parseTime(value: string): Result<DicomTime> {
+    const prepared = prepareValue(value, 'TM');
+    if (!prepared.ok) return err(prepared.error);
+    const match = TM_PATTERN.exec(prepared.value);
+    if (match === null) return err(new Error(`Invalid TM value "${value}": expected HH[MM[SS[.FFFFFF]]]`));
+    return validateTime(value, {
+        hours: Number(match[1]),
+        minutes: groupToNumber(match[2], 0),
+        seconds: groupToNumber(match[3], 0),
+        microseconds: fractionToMicroseconds(match[4]),
+    });
+}
+
+/**
+ * Parses a UTC offset in `&ZZXX` format (e.g. `"+0130"`, `"-0500"`) to minutes.
+ *
+ * @param value - The raw offset string, as found in DT suffixes or TimezoneOffsetFromUTC
+ * @returns A Result containing the signed offset in minutes or an error
+ */
+function parseUtcOffset(value: string): Result<number> {
+    const match = OFFSET_PATTERN.exec(value.trim());
+    if (match === null) return err(new Error(`Invalid UTC offset "${value}": expected &ZZXX, e.g. +0100`));
+    const hours = Number(match[2]);
+    const minutes = Number(match[3]);
+    if (hours > MAX_OFFSET_HOURS || minutes > 59) {
+        return err(new Error(`Invalid UTC offset "${value}": out of range`));
+    }
+    const total = hours * 60 + minutes;
+    return ok(match[1] === '-' ? -total : total);
+}
+
+/** Resolves the effective UTC offset from a DT suffix or the dataset default. */
+function resolveOffset(suffix: string | undefined, defaultOffset: string | undefined): Result<number | undefined> {
+    const source = suffix ?? defaultOffset;
+    if (source === undefined || source.trim().length === 0) return ok(undefined);
+    return parseUtcOffset(source);
+}
+
+/** Assembles a DicomDateTime from validated parts, computing the UTC instant. */
+function buildDateTime(date: DicomDate, time: DicomTime, offsetMinutes: number | undefined): DicomDateTime {
+    const localMs = Date.UTC(date.year, date.month - 1, date.day, time.hours, time.minutes, time.seconds, Math.floor(time.microseconds / 1000));
+    const instant = new Date(localMs - (offsetMinutes ?? 0) * 60_000);
+    return { ...date, ...time, offsetMinutes, instant };
+}
+
+/**
+ * Parses a DT (Date Time) value in `YYYY[MM[DD[HH[MM[SS[.FFFFFF]]]]]][&ZZXX]` format.
+ *
+ * Omitted month/day default to 1 and omitted time components to 0. When the value
+ * has no UTC offset suffix, `defaultOffset` (typically TimezoneOffsetFromUTC) is used.
+ *
+ * @param value - The raw DT string
+ * @param defaultOffset - Fallback UTC offset in `&ZZXX` format
+ * @returns A Result containing the parsed date-time or an error
+ */
+function parseDateTime(value: string, defaultOffset?: string): Result<DicomDateTime> {
+    const prepared = prepareValue(value, 'DT');
+    if (!prepared.ok) return err(prepared.error);
+    const match = DT_PATTERN.exec(prepared.value);
+    if (match === null) return err(new Error(`Invalid DT value "${value}": expected YYYY[MM[DD[HH[MM[SS[.FFFFFF]]]]]][&ZZXX]`));
+
+    const date = validateDate(value, { year: Number(match[1]), month: groupToNumber(match[2], 1), day: groupToNumber(match[3], 1) });
+    if (!date.ok) return err(date.error);
+    const time = validateTime(value, {
+        hours: groupToNumber(match[4], 0),
+        minutes: groupToNumber(match[5], 0),
+        seconds: groupToNumber(match[6], 0),
+        microseconds: fractionToMicroseconds(match[7]),
+    });
+    if (!time.ok) return err(time.error);
+
+    const offset = resolveOffset(match[8], defaultOffset);
+    if (!offset.ok) return err(offset.error);
+    return ok(buildDateTime(date.value, time.value, offset.value));
+}
+
+// ---------------------------------------------------------------------------
+// AS
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses an AS (Age String) value in `nnnD`, `nnnW`, `nnnM` or `nnnY` format.
+ *
+ * @param value - The raw AS string
+ * @returns A Result containing the parsed age or an error
+ */
+function parseAge(value: string): Result<DicomAge> {
+    const prepared = prepareValue(value, 'AS');
+    if (!prepared.ok) return err(prepared.error);
+    const match = AS_PATTERN.exec(prepared.value);
+    if (match === null) return err(new Error(`Invalid AS value "${value}": expected nnnD, nnnW, nnnM or nnnY`));
+    return ok({ value: Number(match[1]), unit: match[2] as AgeUnit });
+}
+
+// ---------------------------------------------------------------------------
+// PN
+// ---------------------------------------------------------------------------
+
+/** Splits one `^`-delimited component group into its five components. */
+function parseComponentGroup(group: string, raw: string): Result<PersonNameComponents | undefined> {
+    if (group.length === 0) return ok(undefined);
+    const parts = group.split('^');
+    if (parts.length > PN_MAX_COMPONENTS) {
+        return err(new Error(`Invalid PN value "${raw}": more than ${PN_MAX_COMPONENTS} components in a group`));
+    }
+    return ok({
+        familyName: parts[0] ?? '',
+        givenName: parts[1] ?? '',
+        middleName: parts[2] ?? '',
+        namePrefix: parts[3] ?? '',
+        nameSuffix: parts[4] ?? '',
+    });
+}
+
+/** Parses the three component groups of a PN, given as raw strings. */
+function parseGroups(groups: ReadonlyArray<string>, raw: string): Result<PersonName> {
+    const alphabetic = parseComponentGroup(groups[0] ?? '', raw);
+    if (!alphabetic.ok) return err(alphabetic.error);
+    const ideographic = parseComponentGroup(groups[1] ?? '', raw);
+    if (!ideographic.ok) return err(ideographic.error);
+    const phonetic = parseComponentGroup(groups[2] ?? '', raw);
+    if (!phonetic.ok) return err(phonetic.error);
+    return ok({ alphabetic: alphabetic.value, ideographic: ideographic.value, phonetic: phonetic.value });
+}
+
+/** Reads an optional string property from a DICOM JSON PN object. */
+function pnGroupProperty(obj: Record<string, unknown>, key: string): Result<string> {
+    const value = obj[key];
+    if (value === undefined) return ok('');
+    if (typeof value !== 'string') return err(new Error(`Invalid PN value: ${key} must be a string`));
+    return ok(value);
+}
+
+/** Parses a PN given as a DICOM JSON object `{ Alphabetic, Ideographic, Phonetic }`. */
+function parsePersonNameObject(obj: Record<string, unknown>): Result<PersonName> {
+    const groups: string[] = [];
+    for (const key of ['Alphabetic', 'Ideographic', 'Phonetic']) {
+        const group = pnGroupProperty(obj, key);
+        if (!group.ok) return err(group.error);
+        groups.push(group.value);
+    }
+    return parseGroups(groups, groups.join('='));
+}
+
+/**
+ * Parses a PN (Person Name) value.
+ *
+ * Accepts either the DICOM JSON object form `{ Alphabetic: "Smith^John" }` or
+ * the raw string form `"Smith^John=..."` with `=`-separated component groups.
+ *
+ * @param value - The raw PN value from a DICOM JSON Value array
+ * @returns A Result containing the parsed person name or an error
+ */
+function parsePersonName(value: unknown): Result<PersonName> {
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        return parsePersonNameObject(value as Record<string, unknown>);
+    }
+    if (typeof value !== 'string') return err(new Error('Invalid PN value: expected a string or PN object'));
+    const groups = value.trim().split('=');
+    if (groups.length > PN_MAX_GROUPS) {
+        return err(new Error(`Invalid PN value "${value}": more than ${PN_MAX_GROUPS} component groups`));
+    }
+    return parseGroups(groups, value);
+}
+
+// ---------------------------------------------------------------------------
+// DS / IS / numeric VRs
+// ---------------------------------------------------------------------------
+
+/** Converts a single numeric-string token (DS or IS) to a number. */
+function parseNumericToken(token: string, index: number): Result<number> {
+    const trimmed = token.trim();
+    if (!NUMERIC_STRING_PATTERN.test(trimmed)) {
+        return err(new Error(`Value at index ${index} ("${token}") is not numeric`));
+    }
+    return ok(Number(trimmed));
+}
+
+/** Appends the numbers held by one Value array entry to `out`. */
+function appendNumbers(value: unknown, out: number[]): Result<void> {
+    if (typeof value === 'number') {
+        out.push(value);
+        return ok(undefined);
+    }
+    if (typeof value !== 'string') return err(new Error(`Value at index ${out.length} is not numeric: ${typeof value}`));
+    for (const token of value.split('\\')) {
+        const parsed = parseNumericToken(token, out.length);
+        if (!parsed.ok) return err(parsed.error);
+        out.push(parsed.value);
+    }
+    return ok(undefined);
+}
+
+/**
+ * Parses a multi-valued numeric element into an array of numbers.
+ *
+ * Accepts JSON numbers (binary numeric VRs) and DS/IS strings, including strings
+ * that still contain backslash-delimited values.
+ *
+ * @param values - The Value array of a DICOM JSON element
+ * @returns A Result containing the numbers or an error naming the offending value
+ */
+function parseNumbers(values: ReadonlyArray<unknown>): Result<ReadonlyArray<number>> {
+    const out: number[] = [];
+    for (const value of values) {
+        const appended = appendNumbers(value, out);
+        if (!appended.ok) return err(appended.error);
+    }
+    return ok(out);
+}
+
+export { parseDate, parseTime, parseDateTime, parseUtcOffset, parseAge, parsePersonName, parseNumbers };
+export type { DicomDate, DicomTime, DicomDateTime, DicomAge, AgeUnit, PersonName, PersonNameComponents };
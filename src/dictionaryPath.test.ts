@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { delimiter, join } from 'node:path';
+import { setDcmtkDictionaryPaths, clearDcmtkDictionaryPaths, dcmtkProcessEnv } from './dictionaryPath';
+import { clearDcmtkPathCache } from './findDcmtkPath';
+import { REQUIRED_BINARIES } from './constants';
+
+describe('DCMTK dictionary paths', () => {
+    const originalEnv = { ...process.env };
+    let dir: string;
+    let privateDic: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'dictpath-'));
+        privateDic = join(dir, 'acme.dic');
+        await writeFile(privateDic, '(0009,"ACME",01)\tLO\tNote\t1\tPrivateTag\n');
+        process.env['DCMDICTPATH'] = '/opt/dcmtk/dicom.dic';
+    });
+
+    afterEach(async () => {
+        clearDcmtkDictionaryPaths();
+        process.env = { ...originalEnv };
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('appends custom dictionaries to the current DCMDICTPATH', () => {
+        const result = setDcmtkDictionaryPaths([privateDic]);
+        expect(result).toEqual({ ok: true, value: `/opt/dcmtk/dicom.dic${delimiter}${privateDic}` });
+        expect(dcmtkProcessEnv()?.['DCMDICTPATH']).toBe(`/opt/dcmtk/dicom.dic${delimiter}${privateDic}`);
+    });
+
+    it('leaves the environment alone until a dictionary is set', () => {
+        expect(dcmtkProcessEnv()).toBeUndefined();
+        expect(dcmtkProcessEnv({ FOO: 'bar' })?.['FOO']).toBe('bar');
+
+        setDcmtkDictionaryPaths([privateDic]);
+        setDcmtkDictionaryPaths([]);
+        expect(dcmtkProcessEnv()).toBeUndefined();
+    });
+
+    it('lets extra variables override DCMDICTPATH', () => {
+        setDcmtkDictionaryPaths([privateDic]);
+        expect(dcmtkProcessEnv({ DCMDICTPATH: '/other.dic' })?.['DCMDICTPATH']).toBe('/other.dic');
+    });
+
+    it('rejects missing files and paths containing the delimiter', () => {
+        const missing = setDcmtkDictionaryPaths([join(dir, 'missing.dic')]);
+        expect(!missing.ok && missing.error.message).toBe(`Dictionary file not found: ${join(dir, 'missing.dic')}`);
+        expect(setDcmtkDictionaryPaths([`a${delimiter}b`]).ok).toBe(false);
+        expect(dcmtkProcessEnv()).toBeUndefined();
+    });
+
+    /** Creates a fake DCMTK installation under the temp directory and points DCMTK_PATH at its `bin`. */
+    async function fakeInstallation(): Promise<void> {
+        const bin = join(dir, 'bin');
+        await mkdir(bin, { recursive: true });
+        for (const binary of REQUIRED_BINARIES) await writeFile(join(bin, process.platform === 'win32' ? `${binary}.exe` : binary), '');
+        delete process.env['DCMDICTPATH'];
+        process.env['DCMTK_PATH'] = bin;
+        clearDcmtkPathCache();
+    }
+
+    it('falls back to the dictionaries of the DCMTK installation', async () => {
+        const share = join(dir, 'share', 'dcmtk-3.6.9');
+        await mkdir(share, { recursive: true });
+        await writeFile(join(share, 'dicom.dic'), '');
+        await writeFile(join(share, 'private.dic'), '');
+        await fakeInstallation();
+
+        const result = setDcmtkDictionaryPaths([privateDic]);
+        clearDcmtkPathCache();
+        expect(result).toEqual({ ok: true, value: [join(share, 'dicom.dic'), join(share, 'private.dic'), privateDic].join(delimiter) });
+    });
+
+    it('skips DCMTK directories without dicom.dic and installations without private.dic', async () => {
+        await mkdir(join(dir, 'share', 'dcmtk-3.6.8'), { recursive: true });
+        await mkdir(join(dir, 'share', 'dcmtk-3.6.9'), { recursive: true });
+        await mkdir(join(dir, 'share', 'other'), { recursive: true });
+        await writeFile(join(dir, 'share', 'dcmtk-3.6.9', 'dicom.dic'), '');
+        await fakeInstallation();
+
+        const result = setDcmtkDictionaryPaths([privateDic]);
+        clearDcmtkPathCache();
+        expect(result).toEqual({ ok: true, value: [join(dir, 'share', 'dcmtk-3.6.9', 'dicom.dic'), privateDic].join(delimiter) });
+    });
+
+    it('keeps the custom dictionaries when the installation has no share directory', async () => {
+        await fakeInstallation();
+
+        const result = setDcmtkDictionaryPaths([privateDic]);
+        clearDcmtkPathCache();
+        expect(result.ok && result.value.endsWith(privateDic)).toBe(true);
+    });
+
+    it('returns an empty DCMDICTPATH when clearing without one set', () => {
+        delete process.env['DCMDICTPATH'];
+        expect(setDcmtkDictionaryPaths([])).toEqual({ ok: true, value: '' });
+    });
+});
@@ -0,0 +1,117 @@
+/**
+ * Custom data dictionaries for DCMTK processes.
+ *
+ * DCMTK reads its data dictionaries from the files listed in the `DCMDICTPATH`
+ * environment variable. Setting it replaces the dictionaries DCMTK loads by default,
+ * so custom dictionaries are appended to the default ones:
+ * 1. The current `DCMDICTPATH`, if set
+ * 2. Otherwise `dicom.dic` and `private.dic` from the `share/dcmtk*` directory of the
+ *    DCMTK installation (or `/usr/share/libdcmtk*` on Debian-based systems)
+ *
+ * Builds that compile the dictionary in keep it whether or not one is found.
+ *
+ * @module dictionaryPath
+ */
+
+import { existsSync, readdirSync } from 'node:fs';
+import { delimiter, join } from 'node:path';
+import type { Result } from './types';
+import { ok, err } from './types';
+import { findDcmtkPath } from './findDcmtkPath';
+
+/** `DCMDICTPATH` for child processes, or undefined when no custom dictionary is set. */
+let dictionaryPath: string | undefined;
+
+/** Matches the names of directories DCMTK installs its dictionaries into. */
+const DICTIONARY_DIR_PATTERN = /^(lib)?dcmtk/;
+
+/** Directories searched for DCMTK's default dictionaries besides the installation's own `share` directory. */
+const SYSTEM_SHARE_DIRS: readonly string[] = process.platform === 'win32' ? [] : ['/usr/share', '/usr/local/share'];
+
+/**
+ * Lists the `dicom.dic` and `private.dic` files of the first DCMTK directory under `root`.
+ *
+ * @param root - A `share` directory
+ * @returns The dictionary files, or an empty array if none is found
+ */
+function dictionariesIn(root: string): ReadonlyArray<string> {
+    let names: string[];
+    try {
+        names = readdirSync(root).filter(name => DICTIONARY_DIR_PATTERN.test(name));
+    } catch {
+        // Missing share directory — not exceptional
+        return [];
+    }
+    for (const name of names.sort()) {
+        const dicom = join(root, name, 'dicom.dic');
+        if (!existsSync(dicom)) continue;
+        const privateDic = join(root, name, 'private.dic');
+        return existsSync(privateDic) ? [dicom, privateDic] : [dicom];
+    }
+    return [];
+}
+
+/**
+ * Finds the dictionaries DCMTK loads when `DCMDICTPATH` is not set by this module.
+ *
+ * @returns The current `DCMDICTPATH` entries, or the installation's default dictionary files
+ */
+function findDefaultDictionaries(): ReadonlyArray<string> {
+    const current = process.env['DCMDICTPATH'];
+    if (current !== undefined && current.length > 0) return current.split(delimiter).filter(entry => entry.length > 0);
+    const binDir = findDcmtkPath();
+    const roots = binDir.ok ? [join(binDir.value, '..', 'share'), ...SYSTEM_SHARE_DIRS] : SYSTEM_SHARE_DIRS;
+    for (const root of roots) {
+        const found = dictionariesIn(root);
+        if (found.length > 0) return found;
+    }
+    return [];
+}
+
+/**
+ * Makes DCMTK processes started by this library load additional data dictionaries.
+ *
+ * The files are appended to DCMTK's default dictionaries and passed through `DCMDICTPATH`
+ * to every process started afterwards. Passing an empty array restores the default.
+ *
+ * @example
+ * ```ts
+ * const result = setDcmtkDictionaryPaths(['/etc/dicom/acme-private.dic']);
+ * ```
+ *
+ * @param paths - DCMTK `.dic` files
+ * @returns A Result containing the resulting `DCMDICTPATH`, or an error if a file does not exist
+ */
+function setDcmtkDictionaryPaths(paths: readonly string[]): Result<string> {
+    for (const path of paths) {
+        if (path.includes(delimiter)) return err(new Error(`Dictionary path "${path}" contains the path delimiter "${delimiter}"`));
+        if (!existsSync(path)) return err(new Error(`Dictionary file not found: ${path}`));
+    }
+    if (paths.length === 0) {
+        dictionaryPath = undefined;
+        return ok(process.env['DCMDICTPATH'] ?? '');
+    }
+    dictionaryPath = [...findDefaultDictionaries(), ...paths].join(delimiter);
+    return ok(dictionaryPath);
+}
+
+/**
+ * Stops passing custom dictionaries to DCMTK processes.
+ */
+function clearDcmtkDictionaryPaths(): void {
+    dictionaryPath = undefined;
+}
+
+/**
+ * Builds the environment of a DCMTK child process.
+ *
+ * @param extra - Additional environment variables, which take precedence
+ * @returns `process.env` with `DCMDICTPATH` and `extra` merged in, or undefined to inherit `process.env` unchanged
+ */
+function dcmtkProcessEnv(extra?: Readonly<Record<string, string>>): NodeJS.ProcessEnv | undefined {
+    if (dictionaryPath === undefined && extra === undefined) return undefined;
+    const dictionary = dictionaryPath === undefined ? {} : { DCMDICTPATH: dictionaryPath };
+    return { ...process.env, ...dictionary, ...extra };
+}
+
+export { setDcmtkDictionaryPaths, clearDcmtkDictionaryPaths, dcmtkProcessEnv };
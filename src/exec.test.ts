@@ -1,5 +1,9 @@
 import { describe, it, expect } from 'vitest';
+import { rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { delimiter, join } from 'node:path';
 import { execCommand, spawnCommand } from './exec';
+import { setDcmtkDictionaryPaths, clearDcmtkDictionaryPaths } from './dictionaryPath';
 
 // These tests use real child processes with safe, cross-platform commands.
 // No mocking needed — we test the actual execution path.
@@ -29,6 +33,15 @@ describe('execCommand()', () => {
         }
     });
 
+    it('reads stdout byte for byte with the latin1 encoding', async () => {
+        const script = 'process.stdout.write(Buffer.from([0x41, 0xe9, 0xc3, 0xa9]))';
+        const latin1 = await execCommand(process.execPath, ['-e', script], { stdoutEncoding: 'latin1' });
+        const utf8 = await execCommand(process.execPath, ['-e', script]);
+
+        expect(latin1.ok && latin1.value.stdout).toBe('A\u00e9\u00c3\u00a9');
+        expect(utf8.ok && utf8.value.stdout).toBe('A\ufffd\u00e9');
+    });
+
     it('captures stderr', async () => {
         const result = await execCommand(stderrCmd, stderrArgs);
 
@@ -126,6 +139,23 @@ describe('spawnCommand()', () => {
         }
     });
 
+    it('passes custom dictionaries to the child process through DCMDICTPATH', async () => {
+        const dictionary = join(tmpdir(), `exec-test-${process.pid}.dic`);
+        await writeFile(dictionary, '');
+        const original = process.env['DCMDICTPATH'];
+        process.env['DCMDICTPATH'] = 'default.dic';
+        try {
+            expect(setDcmtkDictionaryPaths([dictionary]).ok).toBe(true);
+            const result = await spawnCommand(process.execPath, ['-e', 'process.stdout.write(process.env.DCMDICTPATH || "missing")']);
+            expect(result.ok && result.value.stdout).toBe(`default.dic${delimiter}${dictionary}`);
+        } finally {
+            clearDcmtkDictionaryPaths();
+            if (original === undefined) delete process.env['DCMDICTPATH'];
+            else process.env['DCMDICTPATH'] = original;
+            await rm(dictionary, { force: true });
+        }
+    });
+
     it('supports AbortSignal cancellation', async () => {
         const controller = new AbortController();
 
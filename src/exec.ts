@@ -16,6 +16,7 @@ import kill from 'tree-kill';
 import type { Result, DcmtkProcessResult, ExecOptions, SpawnOptions } from './types';
 import { ok, err } from './types';
 import { DEFAULT_TIMEOUT_MS } from './constants';
+import { dcmtkProcessEnv } from './dictionaryPath';
 
 /**
  * Kills a process tree by PID. Wraps tree-kill in a promise.
@@ -58,9 +59,11 @@ async function execCommand(binary: string, args: readonly string[], options?: Ex
     return new Promise(resolve => {
         const child = spawn(binary, [...args], {
             cwd: options?.cwd,
+            env: dcmtkProcessEnv(),
             windowsHide: true,
             signal: options?.signal,
         });
+        child.stdout?.setEncoding(options?.stdoutEncoding ?? 'utf8');
         wireSpawnListeners(child, timeoutMs, resolve);
     });
 }
@@ -127,10 +130,11 @@ async function spawnCommand(binary: string, args: readonly string[], options?: S
     return new Promise(resolve => {
         const child = spawn(binary, [...args], {
             cwd: options?.cwd,
-            env: options?.env ? { ...process.env, ...options.env } : undefined,
+            env: dcmtkProcessEnv(options?.env),
             windowsHide: true,
             signal: options?.signal,
         });
+        child.stdout?.setEncoding(options?.stdoutEncoding ?? 'utf8');
         wireSpawnListeners(child, timeoutMs, resolve);
     });
 }
@@ -9,6 +9,7 @@ export type { Result, ResultValue, DcmtkProcessResult, ExecOptions, SpawnOptions
 // Branded types + factories
 export { createDicomTag, createAETitle, createDicomTagPath, createSOPClassUID, createTransferSyntaxUID, createDicomFilePath, createPort } from './brands';
 export type { Brand, DicomTag, AETitle, DicomTagPath, SOPClassUID, TransferSyntaxUID, DicomFilePath, Port } from './brands';
+export type { IsTagPathLiteral, TagPathInput, KeywordPathCheck } from './brands';
 
 // Validation schemas + parsers
 export { AETitleSchema, PortSchema, DicomTagSchema, DicomTagPathSchema, UIDSchema } from './validation';
@@ -39,6 +40,9 @@ export {
 export { findDcmtkPath, clearDcmtkPathCache } from './findDcmtkPath';
 export type { FindDcmtkPathOptions } from './findDcmtkPath';
 
+// DCMTK data dictionaries
+export { setDcmtkDictionaryPaths, clearDcmtkDictionaryPaths } from './dictionaryPath';
+
 // Process execution
 export { execCommand, spawnCommand } from './exec';
 
@@ -64,23 +68,93 @@ export { VR, VR_CATEGORY, VR_CATEGORY_NAME, VR_META, isStringVR, isNumericVR, is
 export type { VRValue, VRCategoryName, VRMetadata } from './dicom/vr';
 
 // Dictionary
-export { lookupTag, lookupTagByName, lookupTagByKeyword } from './dicom/dictionary';
-export type { DictionaryEntry } from './dicom/dictionary';
+export {
+    lookupTag,
+    lookupTagByName,
+    lookupTagByKeyword,
+    suggestKeyword,
+    resolveKeyword,
+    checkPathKeywords,
+    searchKeywords,
+    describeTag,
+    formatMultiplicity,
+} from './dicom/dictionary';
+export type { DictionaryEntry, TagDescription, KeywordSearchOptions, KeywordMatch } from './dicom/dictionary';
+export {
+    registerPrivateDictionary,
+    loadPrivateDictionary,
+    parsePrivateDictionary,
+    lookupPrivateTag,
+    clearPrivateDictionaries,
+    formatDcmtkDictionary,
+} from './dicom/privateDictionary';
+export type { PrivateDictionaryEntry, PrivateTagRef, PrivateDictionaryFormat } from './dicom/privateDictionary';
+
+// Typed value parsers
+export { parseDate, parseTime, parseDateTime, parseUtcOffset, parseAge, parsePersonName, parseNumbers } from './dicom/values';
+export type { DicomDate, DicomTime, DicomDateTime, DicomAge, AgeUnit, PersonName, PersonNameComponents } from './dicom/values';
+export { validateValue, validateTagValue } from './dicom/validateValue';
+
+// Typed tag catalog
+export { Tags } from './data/tags';
+export type { TagKeyword } from './data/tags';
+export type { TagDefinition, TagMultiplicity, TagValue } from './dicom/tagTypes';
 
 // SOP Classes
 export { SOP_CLASSES, sopClassNameFromUID } from './data/sopClasses';
 export type { SOPClassName } from './data/sopClasses';
 
+// IOD conformance validation
+export { validateIod } from './dicom/validateIod';
+export type { FindingSeverity, IodFinding, IodValidationReport } from './dicom/validateIod';
+export { IOD_DEFINITIONS, findIod } from './data/iods';
+export type { AttributeType, ModuleUsage, AttributeCondition, ModuleAttribute, ModuleDefinition, IodModule, IodDefinition } from './dicom/iodTypes';
+
 // Tag path utilities
 export { tagPathToSegments, segmentsToModifyPath, segmentsToString } from './dicom/tagPath';
 export type { TagSegment } from './dicom/tagPath';
 
 // Dataset, ChangeSet, File I/O
 export { DicomDataset } from './dicom/DicomDataset';
+export type { DatasetEntry, DatasetEntryParent, DatasetVisitor, WalkControl, DicomDatasetJsonOptions } from './dicom/DicomDataset';
 export { ChangeSet } from './dicom/ChangeSet';
-export { DicomFile } from './dicom/DicomFile';
-export type { DicomFileOptions } from './dicom/DicomFile';
+export type { SequenceItem } from './dicom/ChangeSet';
+export type { ValueTransform, ShiftDateTransform, CopyTransform, ReplaceTransform, TemplateTransform } from './dicom/transforms';
+export { DatasetDiff } from './dicom/diff';
+export type { DiffKind, DiffEntry, ElementDiff, ItemDiff } from './dicom/diff';
+export { DicomFile, OpenMode, ReadBackend, WriteBackend } from './dicom/DicomFile';
+export type {
+    ReadBackendValue,
+    WriteBackendValue,
+    DicomFileOptions,
+    DicomFileOpenOptions,
+    DicomFileWriteOptions,
+    DicomFileCreateOptions,
+} from './dicom/DicomFile';
+export { readPart10, readPart10File } from './dicom/part10Reader';
+export type { Part10ReadOptions, Part10FileReadOptions, Part10ReadResult } from './dicom/part10Reader';
+export { writePart10, writePart10File } from './dicom/part10Writer';
+export type { Part10WriteOptions } from './dicom/part10Writer';
 export { xmlToJson } from './dicom/xmlToJson';
+export { jsonToXml } from './dicom/nativeXml';
+export { jsonToDcmtkXml } from './dicom/dcmtkXml';
+export { formatDataset } from './dicom/formatDataset';
+export type { DatasetFormatOptions } from './dicom/formatDataset';
+export type { FingerprintOptions } from './dicom/fingerprint';
+export { JsonValidationMode, validateDicomJson } from './dicom/validateJson';
+export type { JsonValidationModeValue, JsonFinding, JsonValidationReport } from './dicom/validateJson';
+export { deidentify } from './dicom/deidentify';
+export type { DeidentificationProfile, DeidentificationOverride } from './dicom/deidentify';
+export { DeidentificationAction, DeidentificationOption } from './dicom/deidentifyTypes';
+export type {
+    DeidentificationActionValue,
+    DeidentificationOptionValue,
+    ProfileActionCode,
+    ProfileAttribute,
+    ProfileRange,
+    DeidentificationCode,
+} from './dicom/deidentifyTypes';
+export { BASIC_PROFILE_ATTRIBUTES, REPEATING_PROFILE_ATTRIBUTES, SAFE_PRIVATE_ATTRIBUTES } from './data/deidentification';
 
 // ---------------------------------------------------------------------------
 // Short-lived tool wrappers — Data & Metadata
@@ -91,6 +165,10 @@ export type { Dcm2xmlOptions, Dcm2xmlResult, Dcm2xmlCharsetValue } from './tools
 
 export { dcm2json } from './tools/dcm2json';
 export type { Dcm2jsonOptions, Dcm2jsonResult, Dcm2jsonSource, DicomJsonModel } from './tools/dcm2json';
+export { BulkDataMode } from './tools/_bulkData';
+export type { BulkDataPolicy, BulkDataModeValue } from './tools/_bulkData';
+export { CharacterSetPolicy, decodeText, encodeText } from './tools/_characterSet';
+export type { CharacterSetPolicyValue } from './tools/_characterSet';
 
 export { dcmdump, DcmdumpFormat } from './tools/dcmdump';
 export type { DcmdumpOptions, DcmdumpResult, DcmdumpFormatValue } from './tools/dcmdump';
@@ -5,6 +5,7 @@ import {
     UID_PATTERN,
     TAG_PATH_SEGMENT,
     DICOM_TAG_PATH_PATTERN,
+    KEYWORD_TAG_PATH_PATTERN,
     AE_TITLE_MIN_LENGTH,
     AE_TITLE_MAX_LENGTH,
     UID_MAX_LENGTH,
@@ -81,6 +82,19 @@ describe('patterns', () => {
         });
     });
 
+    describe('KEYWORD_TAG_PATH_PATTERN', () => {
+        it('matches keyword and mixed paths', () => {
+            expect(KEYWORD_TAG_PATH_PATTERN.test('PatientName')).toBe(true);
+            expect(KEYWORD_TAG_PATH_PATTERN.test('ReferencedSeriesSequence[0].(0020,000E)')).toBe(true);
+        });
+
+        it('rejects malformed segments', () => {
+            expect(KEYWORD_TAG_PATH_PATTERN.test('0Patient')).toBe(false);
+            expect(KEYWORD_TAG_PATH_PATTERN.test('Patient-Name')).toBe(false);
+            expect(KEYWORD_TAG_PATH_PATTERN.test('PatientName.')).toBe(false);
+        });
+    });
+
     describe('validation constants', () => {
         it('has correct AE Title length bounds', () => {
             expect(AE_TITLE_MIN_LENGTH).toBe(1);
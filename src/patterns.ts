@@ -27,6 +27,12 @@ const TAG_PATH_SEGMENT = /\([0-9A-Fa-f]{4},[0-9A-Fa-f]{4}\)(\[\d+\])?/;
 /** Matches a full dot-separated DICOM tag path (e.g. `(0040,A730)[0].(0010,0010)`). */
 const DICOM_TAG_PATH_PATTERN = new RegExp(`^${TAG_PATH_SEGMENT.source}(\\.${TAG_PATH_SEGMENT.source})*$`);
 
+/** Matches a single tag path segment given as a tag or a dictionary keyword, with optional array index. */
+const KEYWORD_TAG_PATH_SEGMENT = /(?:\([0-9A-Fa-f]{4},[0-9A-Fa-f]{4}\)|[A-Za-z][A-Za-z0-9_]*)(\[\d+\])?/;
+
+/** Matches a full dot-separated tag path whose segments may be keywords (e.g. `ReferencedSeriesSequence[0].SeriesInstanceUID`). */
+const KEYWORD_TAG_PATH_PATTERN = new RegExp(`^${KEYWORD_TAG_PATH_SEGMENT.source}(\\.${KEYWORD_TAG_PATH_SEGMENT.source})*$`);
+
 // ---------------------------------------------------------------------------
 // Validation constants
 // ---------------------------------------------------------------------------
@@ -69,6 +75,8 @@ export {
     UID_PATTERN,
     TAG_PATH_SEGMENT,
     DICOM_TAG_PATH_PATTERN,
+    KEYWORD_TAG_PATH_SEGMENT,
+    KEYWORD_TAG_PATH_PATTERN,
     AE_TITLE_MIN_LENGTH,
     AE_TITLE_MAX_LENGTH,
     UID_MAX_LENGTH,
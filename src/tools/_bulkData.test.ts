@@ -0,0 +1,115 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { describe, it, expect } from 'vitest';
+import { applyBulkDataPolicy, bulkDataUri, parseBulkDataUri, readByteRange } from './_bulkData';
+import type { DicomJsonModel } from './_xmlToJson';
+import { makeSampleData } from '../../test/helpers';
+
+const FILE = resolve('/data/study/image 1.dcm');
+
+/** Binary values beside the Pixel Data of the sample data: a short private one and one in a sequence item. */
+const BINARY: DicomJsonModel = {
+    '00091010': { vr: 'OB', InlineBinary: 'AAE=' },
+    '54000100': {
+        vr: 'SQ',
+        Value: [{ '54001010': { vr: 'OW', InlineBinary: 'AAECAwQFBgc=' } }],
+    },
+};
+
+/** The sample data with {@link BINARY}. */
+const withBinary = (): DicomJsonModel => ({ ...makeSampleData(), ...BINARY });
+
+describe('applyBulkDataPolicy', () => {
+    it('keeps every value with the inline mode', () => {
+        expect(applyBulkDataPolicy(withBinary(), FILE, { mode: 'inline' })).toEqual(withBinary());
+    });
+
+    it('drops values with the exclude mode', () => {
+        const result = applyBulkDataPolicy(withBinary(), FILE, { mode: 'exclude' });
+        expect(result['7FE00010']).toEqual({ vr: 'OW' });
+        expect(result['00091010']).toEqual({ vr: 'OB' });
+        expect(result['54000100']?.Value).toEqual([{ '54001010': { vr: 'OW' } }]);
+        expect(result['00100020']).toEqual({ vr: 'LO', Value: ['PATIENT-001'] });
+    });
+
+    it('references values by BulkDataURI with the uri mode, at every nesting level', () => {
+        const result = applyBulkDataPolicy(withBinary(), FILE, { mode: 'uri' });
+        expect(result['7FE00010']).toEqual({ vr: 'OW', BulkDataURI: bulkDataUri(FILE, '(7FE0,0010)') });
+        expect(result['54000100']?.Value).toEqual([{ '54001010': { vr: 'OW', BulkDataURI: bulkDataUri(FILE, '(5400,0100)[0].(5400,1010)') } }]);
+    });
+
+    it('keeps values up to the inline threshold inline', () => {
+        const result = applyBulkDataPolicy(withBinary(), FILE, { mode: 'uri', inlineThreshold: 2 });
+        expect(result['00091010']).toEqual({ vr: 'OB', InlineBinary: 'AAE=' });
+        expect(result['7FE00010']?.BulkDataURI).toBeDefined();
+        expect(applyBulkDataPolicy(withBinary(), FILE, { mode: 'exclude', inlineThreshold: 8 })).toEqual(withBinary());
+    });
+
+    it('measures inline values with and without base64 padding', () => {
+        const data: DicomJsonModel = {
+            '00091010': { vr: 'OB', InlineBinary: 'AAECAw==' },
+            '00091011': { vr: 'OB', InlineBinary: 'AAECAwQ=' },
+            '00091012': { vr: 'OB', InlineBinary: 'AAECAwQF' },
+        };
+        expect(applyBulkDataPolicy(data, FILE, { mode: 'exclude', inlineThreshold: 5 })).toEqual({ ...data, '00091012': { vr: 'OB' } });
+    });
+
+    it('puts the byte ranges of values into their BulkDataURIs', () => {
+        const data = withBinary();
+        const pixelData = data['7FE00010'];
+        if (pixelData === undefined) throw new Error('unexpected');
+        const result = applyBulkDataPolicy(data, FILE, { mode: 'uri' }, new Map([[pixelData, { offset: 300, length: 8 }]]));
+        expect(result['7FE00010']?.BulkDataURI).toBe(bulkDataUri(FILE, '(7FE0,0010)', { offset: 300, length: 8 }));
+        expect(result['00091010']?.BulkDataURI).toBe(bulkDataUri(FILE, '(0009,1010)'));
+    });
+
+    it('does not modify the input', () => {
+        const data = withBinary();
+        applyBulkDataPolicy(data, FILE, { mode: 'exclude' });
+        expect(data).toEqual(withBinary());
+    });
+
+    it('keeps sequences without items and sequence values that are not items', () => {
+        const data: DicomJsonModel = { '00081115': { vr: 'SQ' }, '54000100': { vr: 'SQ', Value: [null] } };
+        expect(applyBulkDataPolicy(data, FILE, { mode: 'exclude' })).toEqual(data);
+    });
+});
+
+describe('BulkDataURI', () => {
+    it('references the absolute source file with the tag path as fragment', () => {
+        const uri = bulkDataUri(FILE, '(5400,0100)[0].(5400,1010)');
+        expect(uri.startsWith(`${pathToFileURL(FILE).href}#`)).toBe(true);
+        expect(parseBulkDataUri(uri)).toEqual({ ok: true, value: { filePath: FILE, path: '(5400,0100)[0].(5400,1010)' } });
+    });
+
+    it('carries the byte range of the value in the query', () => {
+        const uri = bulkDataUri(FILE, '(7FE0,0010)', { offset: 1234, length: 5678 });
+        expect(uri).toBe(`${pathToFileURL(FILE).href}?offset=1234&length=5678#${encodeURIComponent('(7FE0,0010)')}`);
+        expect(parseBulkDataUri(uri)).toEqual({ ok: true, value: { filePath: FILE, path: '(7FE0,0010)', range: { offset: 1234, length: 5678 } } });
+        expect(parseBulkDataUri(`${pathToFileURL(FILE).href}?offset=-1&length=2#x`).ok).toBe(false);
+    });
+
+    it('rejects URIs that do not point into a file', () => {
+        expect(parseBulkDataUri('https://example.com/bulk/1').ok).toBe(false);
+        expect(parseBulkDataUri(pathToFileURL(FILE).href).ok).toBe(false);
+        expect(parseBulkDataUri('file:///data/%2F#x').ok).toBe(false);
+    });
+});
+
+describe('readByteRange', () => {
+    it('reads the bytes of the range, or reports files that end before it or cannot be read', async () => {
+        const dir = await mkdtemp(join(tmpdir(), 'bulkdata-'));
+        const file = join(dir, 'value.bin');
+        await writeFile(file, Uint8Array.from([0, 1, 2, 3, 4, 5]));
+        try {
+            expect(await readByteRange(file, { offset: 2, length: 3 })).toEqual({ ok: true, value: Uint8Array.from([2, 3, 4]) });
+            expect(await readByteRange(file, { offset: 4, length: 3 })).toEqual({ ok: false, error: new Error(`File ${file} ends before byte 7`) });
+            const missing = await readByteRange(join(dir, 'missing.bin'), { offset: 0, length: 1 });
+            expect(!missing.ok && missing.error.message).toMatch(/^Failed to read file: /);
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,225 @@
+/**
+ * Bulk data policy for binary values in the DICOM JSON Model.
+ *
+ * Binary elements (pixel data, waveforms, overlays, ...) are read as InlineBinary
+ * and then, depending on the policy, kept inline, dropped, or replaced by a
+ * BulkDataURI that points back into the source file:
+ * ```
+ * file:///data/study/image.dcm?offset=1234&length=524288#(7FE0%2C0010)
+ * ```
+ * The URI fragment is the element's tag path. When the reader knows where the value is
+ * stored, as the in-process Part 10 reader does for values stored as they are read, the
+ * query gives its byte range, and the value is read again by reading just those bytes.
+ *
+ * @module _bulkData
+ * @internal
+ */
+
+import { open } from 'node:fs/promises';
+import type { FileHandle } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { MAX_TRAVERSAL_DEPTH } from '../constants';
+import type { Result } from '../types';
+import { ok, err } from '../types';
+import type { DicomJsonElement, DicomJsonModel } from './_xmlToJson';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * What happens to binary values larger than the inline threshold.
+ */
+const BulkDataMode = {
+    /** Drop the value; the element keeps only its VR. */
+    EXCLUDE: 'exclude',
+    /** Keep the value as base64 InlineBinary. */
+    INLINE: 'inline',
+    /** Replace the value with a BulkDataURI into the source file. */
+    URI: 'uri',
+} as const;
+
+type BulkDataModeValue = (typeof BulkDataMode)[keyof typeof BulkDataMode];
+
+/** How binary values are represented in a DICOM JSON Model read from a file. */
+interface BulkDataPolicy {
+    /** Representation of binary values above `inlineThreshold` (of all values, when no threshold is set). */
+    readonly mode: BulkDataModeValue;
+    /** Values of at most this many bytes are always kept inline. */
+    readonly inlineThreshold?: number | undefined;
+}
+
+/** Where a value is stored in its source file. */
+interface ByteRange {
+    readonly offset: number;
+    readonly length: number;
+}
+
+/** Location of a bulk data value: the source file, the tag path of the element and, if known, its byte range. */
+interface BulkDataLocation {
+    readonly filePath: string;
+    readonly path: string;
+    readonly range?: ByteRange | undefined;
+}
+
+/** A dataset still to copy, with the copy it goes into, its tag path prefix and its nesting depth. */
+interface PendingDataset {
+    readonly source: DicomJsonModel;
+    readonly target: Record<string, DicomJsonElement>;
+    readonly prefix: string;
+    readonly depth: number;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Returns the decoded size in bytes of a base64 string. */
+function inlineBinarySize(base64: string): number {
+    const trimmed = base64.replace(/\s/g, '');
+    const padding = trimmed.endsWith('==') ? 2 : trimmed.endsWith('=') ? 1 : 0;
+    return Math.floor((trimmed.length * 3) / 4) - padding;
+}
+
+/** Formats a hex model key as a `(GGGG,EEEE)` path segment. */
+function keyToSegment(key: string): string {
+    return `(${key.slice(0, 4)},${key.slice(4)})`;
+}
+
+/** Parses a non-negative integer query parameter; undefined if it is missing or malformed. */
+function parseQueryInteger(query: URLSearchParams, name: string): number | undefined {
+    const value = query.get(name);
+    return value !== null && /^\d+$/.test(value) && Number.isSafeInteger(Number(value)) ? Number(value) : undefined;
+}
+
+/** Parses the byte range in the query of a BulkDataURI; an empty query has none. */
+function parseRange(uri: string, query: string): Result<ByteRange | undefined> {
+    if (query.length === 0) return ok(undefined);
+    const params = new URLSearchParams(query);
+    const offset = parseQueryInteger(params, 'offset');
+    const length = parseQueryInteger(params, 'length');
+    if (offset === undefined || length === undefined) return err(new Error(`Invalid BulkDataURI "${uri}": expected offset and length in the query`));
+    return ok({ offset, length });
+}
+
+/**
+ * Builds the BulkDataURI of an element: the source file as a `file:` URL, with the
+ * element's byte range, if known, as the query and its tag path as the fragment.
+ *
+ * @param filePath - Path of the file the element was read from
+ * @param path - Tag path of the element, e.g. `(0008,1115)[0].(7FE0,0010)`
+ * @param range - Where the value is stored in the file, as it is represented inline
+ * @returns The BulkDataURI
+ */
+function bulkDataUri(filePath: string, path: string, range?: ByteRange): string {
+    const query = range === undefined ? '' : `?offset=${range.offset}&length=${range.length}`;
+    return `${pathToFileURL(resolve(filePath)).href}${query}#${encodeURIComponent(path)}`;
+}
+
+/**
+ * Parses a BulkDataURI built by {@link bulkDataUri}.
+ *
+ * @param uri - The BulkDataURI
+ * @returns A Result containing the file path, tag path and byte range, or an error for other URIs
+ */
+function parseBulkDataUri(uri: string): Result<BulkDataLocation> {
+    const hash = uri.indexOf('#');
+    if (!uri.startsWith('file:') || hash < 0 || hash === uri.length - 1) {
+        return err(new Error(`Unsupported BulkDataURI "${uri}": expected a file URL with a tag path fragment`));
+    }
+    const question = uri.lastIndexOf('?', hash);
+    const range = parseRange(uri, question < 0 ? '' : uri.slice(question + 1, hash));
+    if (!range.ok) return err(range.error);
+    try {
+        const filePath = fileURLToPath(uri.slice(0, question < 0 ? hash : question));
+        const location = { filePath, path: decodeURIComponent(uri.slice(hash + 1)) };
+        return ok(range.value === undefined ? location : { ...location, range: range.value });
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : 'Unknown URI error';
+        return err(new Error(`Invalid BulkDataURI "${uri}": ${message}`));
+    }
+}
+
+/**
+ * Reads the bytes of a value from its byte range in a file, without reading the rest.
+ *
+ * @param filePath - Path of the file
+ * @param range - Where the value is stored
+ * @returns A Result containing the bytes, or an error if the file cannot be read or ends before the range does
+ */
+async function readByteRange(filePath: string, range: ByteRange): Promise<Result<Uint8Array>> {
+    let handle: FileHandle | undefined;
+    try {
+        handle = await open(filePath, 'r');
+        const bytes = new Uint8Array(range.length);
+        const { bytesRead } = await handle.read(bytes, 0, range.length, range.offset);
+        if (bytesRead < range.length) return err(new Error(`File ${filePath} ends before byte ${range.offset + range.length}`));
+        return ok(bytes);
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : 'Unknown read error';
+        return err(new Error(`Failed to read file: ${message}`));
+    } finally {
+        await handle?.close();
+    }
+}
+
+/** Applies a policy to one binary element. */
+function applyToElement(element: DicomJsonElement, inlineBinary: string, location: BulkDataLocation, policy: BulkDataPolicy): DicomJsonElement {
+    if (policy.mode === BulkDataMode.INLINE) return element;
+    if (policy.inlineThreshold !== undefined && inlineBinarySize(inlineBinary) <= policy.inlineThreshold) return element;
+    if (policy.mode === BulkDataMode.EXCLUDE) return { vr: element.vr };
+    return { vr: element.vr, BulkDataURI: bulkDataUri(location.filePath, location.path, location.range) };
+}
+
+/** Copies the items of a sequence element, queueing each item's elements for copying. */
+function copySequence(element: DicomJsonElement, path: string, depth: number, queue: PendingDataset[]): DicomJsonElement {
+    const items = (element.Value ?? []).map((item, index) => {
+        if (typeof item !== 'object' || item === null) return item;
+        const target: Record<string, DicomJsonElement> = {};
+        queue.push({ source: item as DicomJsonModel, target, prefix: `${path}[${index}].`, depth: depth + 1 });
+        return target;
+    });
+    return { ...element, Value: items };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Applies a bulk data policy to every InlineBinary value of a model, at every nesting level
+ * (iterative, no recursion — Rule 8.2). Sequences nested deeper than MAX_TRAVERSAL_DEPTH are kept as read.
+ *
+ * @param model - The model read from `filePath`, with binary values inline
+ * @param filePath - The file the model was read from, referenced by BulkDataURIs
+ * @param policy - The policy to apply
+ * @param ranges - Byte ranges of the values stored in the file as they are inline, by element of `model`
+ * @returns A new model; the input is not modified
+ */
+function applyBulkDataPolicy(
+    model: DicomJsonModel,
+    filePath: string,
+    policy: BulkDataPolicy,
+    ranges?: ReadonlyMap<DicomJsonElement, ByteRange>
+): DicomJsonModel {
+    const root: Record<string, DicomJsonElement> = {};
+    const queue: PendingDataset[] = [{ source: model, target: root, prefix: '', depth: 1 }];
+    for (let i = 0; i < queue.length; i++) {
+        const { source, target, prefix, depth } = queue[i] as PendingDataset;
+        for (const [key, element] of Object.entries(source)) {
+            const path = prefix + keyToSegment(key);
+            if (element.InlineBinary !== undefined) {
+                target[key] = applyToElement(element, element.InlineBinary, { filePath, path, range: ranges?.get(element) }, policy);
+            } else if (element.vr === 'SQ' && Array.isArray(element.Value) && depth < MAX_TRAVERSAL_DEPTH) {
+                target[key] = copySequence(element, path, depth, queue);
+            } else {
+                target[key] = element;
+            }
+        }
+    }
+    return root;
+}
+
+export { BulkDataMode, applyBulkDataPolicy, bulkDataUri, parseBulkDataUri, readByteRange };
+export type { BulkDataModeValue, BulkDataPolicy, BulkDataLocation, ByteRange };
@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import { characterSetTerms, decodeModelText, decodeText, encodeText, isAscii } from './_characterSet';
+import type { DicomJsonModel } from './_xmlToJson';
+
+/** Builds bytes from ASCII text and byte values; ESC is written as 0x1b. */
+function bytes(...parts: ReadonlyArray<string | number>): Uint8Array {
+    return Uint8Array.from(parts.flatMap(part => (typeof part === 'string' ? Array.from(part, c => c.charCodeAt(0)) : [part])));
+}
+
+/** Byte string (one character per byte) of some bytes, as read from dcm2xml. */
+function byteString(value: Uint8Array): string {
+    return String.fromCharCode(...value);
+}
+
+const ESC = 0x1b;
+
+// PS3.5 Annex H.3.1: Yamada^Tarou=山田^太郎=やまだ^たろう
+const JAPANESE_NAME = 'Yamada^Tarou=山田^太郎=やまだ^たろう';
+const JAPANESE_TERMS = ['', 'ISO 2022 IR 87'];
+const JAPANESE_BYTES = bytes(
+    'Yamada^Tarou=',
+    ...[ESC, '$B', 0x3b, 0x33, 0x45, 0x44, ESC, '(B', '^', ESC, '$B', 0x42, 0x40, 0x4f, 0x3a, ESC, '(B', '='],
+    ...[ESC, '$B', 0x24, 0x64, 0x24, 0x5e, 0x24, 0x40, ESC, '(B', '^', ESC, '$B', 0x24, 0x3f, 0x24, 0x6d, 0x24, 0x26, ESC, '(B']
+);
+
+// PS3.5 Annex I.2: Hong^Gildong=洪^吉洞=홍^길동
+const KOREAN_NAME = 'Hong^Gildong=洪^吉洞=홍^길동';
+const KOREAN_TERMS = ['', 'ISO 2022 IR 149'];
+const KOREAN_BYTES = bytes(
+    'Hong^Gildong=',
+    ...[ESC, '$)C', 0xfb, 0xf3, '^', ESC, '$)C', 0xd1, 0xce, 0xd4, 0xd7, '='],
+    ...[ESC, '$)C', 0xc8, 0xab, '^', ESC, '$)C', 0xb1, 0xe6, 0xb5, 0xbf]
+);
+
+describe('decodeText', () => {
+    it('decodes single-byte character sets', () => {
+        expect(decodeText(bytes('Buc^J', 0xe9, 'r', 0xf4, 'me'), ['ISO_IR 100'])).toEqual({ ok: true, value: 'Buc^Jérôme' });
+        expect(decodeText(bytes(0xbb, 0xee, 0xdd, 0xd5, 0xd2, 0xd5, 0xdd), ['ISO_IR 144'])).toEqual({ ok: true, value: 'Люневен' });
+    });
+
+    it('decodes ISO 2022 IR 87 (Japanese) with escape sequences', () => {
+        expect(decodeText(JAPANESE_BYTES, JAPANESE_TERMS)).toEqual({ ok: true, value: JAPANESE_NAME });
+    });
+
+    it('decodes ISO 2022 IR 149 (Korean) in G1', () => {
+        expect(decodeText(KOREAN_BYTES, KOREAN_TERMS)).toEqual({ ok: true, value: KOREAN_NAME });
+    });
+
+    it('decodes ISO 2022 IR 159 (supplementary kanji) and single-byte sets in G1', () => {
+        expect(decodeText(bytes(ESC, '$(D', 0x30, 0x21, ESC, '(B'), ['', 'ISO 2022 IR 159'])).toEqual({ ok: true, value: '丂' });
+        expect(decodeText(bytes('Buc^J', 0xe9, 'r'), ['ISO 2022 IR 100'])).toEqual({ ok: true, value: 'Buc^Jér' });
+    });
+
+    it('keeps unknown escape sequences as text and replaces G1 bytes without a G1 set', () => {
+        expect(decodeText(bytes(ESC, 'Xa', 0xe9), JAPANESE_TERMS)).toEqual({ ok: true, value: '\u001bXa\uFFFD' });
+    });
+
+    it('decodes GB18030 and UTF-8', () => {
+        expect(decodeText(bytes('Wang^XiaoDong=', 0xcd, 0xf5, '^', 0xd0, 0xa1, 0xb6, 0xab, '='), ['GB18030'])).toEqual({
+            ok: true,
+            value: 'Wang^XiaoDong=王^小东=',
+        });
+        expect(decodeText(new TextEncoder().encode('Gröger'), ['ISO_IR 192'])).toEqual({ ok: true, value: 'Gröger' });
+    });
+
+    it('decodes the default repertoire leniently as UTF-8', () => {
+        expect(decodeText(new TextEncoder().encode('Müller'), [])).toEqual({ ok: true, value: 'Müller' });
+    });
+
+    it('rejects unsupported defined terms', () => {
+        const result = decodeText(bytes('x'), ['ISO_IR 999']);
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.message).toBe('Unsupported Specific Character Set "ISO_IR 999"');
+    });
+});
+
+describe('encodeText', () => {
+    it('encodes ISO 2022 IR 87 values as in PS3.5 Annex H', () => {
+        expect(encodeText(JAPANESE_NAME, JAPANESE_TERMS)).toEqual({ ok: true, value: JAPANESE_BYTES });
+    });
+
+    it('encodes ISO 2022 IR 149 values as in PS3.5 Annex I', () => {
+        expect(encodeText(KOREAN_NAME, KOREAN_TERMS)).toEqual({ ok: true, value: KOREAN_BYTES });
+    });
+
+    it('encodes single-byte and unicode character sets', () => {
+        expect(encodeText('Jérôme', ['ISO_IR 100'])).toEqual({ ok: true, value: bytes('J', 0xe9, 'r', 0xf4, 'me') });
+        expect(encodeText('王^小东', ['GB18030'])).toEqual({ ok: true, value: bytes(0xcd, 0xf5, '^', 0xd0, 0xa1, 0xb6, 0xab) });
+        expect(encodeText('山田', ['ISO_IR 192'])).toEqual({ ok: true, value: new TextEncoder().encode('山田') });
+    });
+
+    it('round-trips through decodeText', () => {
+        for (const [value, terms] of [
+            ['Ελληνικά', ['ISO_IR 126']],
+            ['ﾔﾏﾀﾞ^ﾀﾛｳ=山田^太郎', ['ISO 2022 IR 13', 'ISO 2022 IR 87']],
+            ['Zhang^San=张^三', ['', 'ISO 2022 IR 58']],
+        ] as const) {
+            const encoded = encodeText(value, terms);
+            if (!encoded.ok) throw encoded.error;
+            expect(decodeText(encoded.value, terms)).toEqual({ ok: true, value });
+        }
+    });
+
+    it('rejects unsupported defined terms', () => {
+        expect(encodeText('x', ['ISO_IR 999'])).toEqual({ ok: false, error: new Error('Unsupported Specific Character Set "ISO_IR 999"') });
+    });
+
+    it('names the first character a character set cannot encode', () => {
+        expect(encodeText('Jérôme', [])).toEqual({ ok: false, error: new Error('"é" cannot be encoded in Specific Character Set ISO_IR 6') });
+        const result = encodeText('山田^Jérôme', JAPANESE_TERMS);
+        expect(!result.ok && result.error.message).toBe('"é" cannot be encoded in Specific Character Set \\ISO 2022 IR 87');
+    });
+});
+
+describe('characterSetTerms', () => {
+    it('reads defined terms, with an empty value 1 as the default repertoire', () => {
+        expect(characterSetTerms({ vr: 'CS', Value: [null, 'ISO 2022 IR 87'] })).toEqual(['', 'ISO 2022 IR 87']);
+        expect(characterSetTerms({ vr: 'CS', Value: ['ISO_IR 100 '] })).toEqual(['ISO_IR 100']);
+        expect(characterSetTerms(undefined)).toEqual([]);
+    });
+});
+
+describe('isAscii', () => {
+    it('accepts 7-bit text only', () => {
+        expect(isAscii('Smith^John\r\n')).toBe(true);
+        expect(isAscii('Jérôme')).toBe(false);
+    });
+});
+
+describe('decodeModelText', () => {
+    it('decodes text values with the Specific Character Set of each dataset', () => {
+        const model: DicomJsonModel = {
+            '00080005': { vr: 'CS', Value: ['ISO_IR 100'] },
+            '00100010': { vr: 'PN', Value: [{ Alphabetic: byteString(bytes('Buc^J', 0xe9, 'r', 0xf4, 'me')) }] },
+            '00081115': {
+                vr: 'SQ',
+                Value: [
+                    { '00081030': { vr: 'LO', Value: [byteString(bytes('T', 0xea, 'te'))] } },
+                    {
+                        '00080005': { vr: 'CS', Value: [null, 'ISO 2022 IR 87'] },
+                        '00100010': { vr: 'PN', Value: [{ Ideographic: byteString(JAPANESE_BYTES.subarray(13)) }] },
+                    },
+                ],
+            },
+            '00080060': { vr: 'CS', Value: ['MR'] },
+        };
+        expect(decodeModelText(model)).toEqual({
+            ...model,
+            '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Buc^Jérôme' }] },
+            '00081115': {
+                vr: 'SQ',
+                Value: [
+                    { '00081030': { vr: 'LO', Value: ['Tête'] } },
+                    { '00080005': { vr: 'CS', Value: [null, 'ISO 2022 IR 87'] }, '00100010': { vr: 'PN', Value: [{ Ideographic: JAPANESE_NAME.slice(13) }] } },
+                ],
+            },
+        });
+    });
+
+    it('decodes values in unsupported character sets and of other VRs as UTF-8', () => {
+        const utf8 = byteString(new TextEncoder().encode('Gröger'));
+        const model: DicomJsonModel = {
+            '00080005': { vr: 'CS', Value: ['ISO_IR 999'] },
+            '00100020': { vr: 'LO', Value: [utf8] },
+            '00080050': { vr: 'CS', Value: [utf8] },
+        };
+        const decoded = decodeModelText(model);
+        expect(decoded['00100020']?.Value).toEqual(['Gröger']);
+        expect(decoded['00080050']?.Value).toEqual(['Gröger']);
+    });
+
+    it('keeps null values, person name groups and sequence items', () => {
+        const model: DicomJsonModel = {
+            '00080005': { vr: 'CS', Value: ['ISO_IR 100'] },
+            '00100010': { vr: 'PN', Value: [{ Alphabetic: byteString(bytes(0xe9)), Ideographic: null }, null] },
+            '00081115': { vr: 'SQ', Value: [null] },
+            '00100020': { vr: 'LO' },
+        };
+        expect(decodeModelText(model)).toEqual({ ...model, '00100010': { vr: 'PN', Value: [{ Alphabetic: 'é', Ideographic: null }, null] } });
+    });
+});
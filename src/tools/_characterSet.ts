@@ -0,0 +1,443 @@
+/**
+ * Specific Character Set (0008,0005) support for text values.
+ *
+ * Decodes the bytes of text values to strings and encodes strings back to bytes,
+ * for single-byte character sets (ISO_IR 100, ...), ISO 2022 code extensions with
+ * escape sequences (ISO 2022 IR 87, IR 149, ...) and the multi-byte sets
+ * ISO_IR 192 (UTF-8), GB18030 and GBK:
+ * ```
+ * decodeText(bytes, ['ISO 2022 IR 6', 'ISO 2022 IR 87']); // ok('山田^太郎')
+ * ```
+ * Raw values are carried as byte strings: one character per byte (ISO 8859-1 transport),
+ * which is how dcm2xml output is read before decoding.
+ *
+ * @module _characterSet
+ * @internal
+ */
+
+import { TextDecoder, TextEncoder } from 'node:util';
+import { MAX_TRAVERSAL_DEPTH } from '../constants';
+import type { Result } from '../types';
+import { ok, err } from '../types';
+import type { DicomJsonElement, DicomJsonModel } from './_xmlToJson';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * How a character set's characters are encoded.
+ * - `ascii`: 7-bit ASCII in G0
+ * - `single`: one byte per character in G1 (0xA0–0xFF)
+ * - `jis`: two 7-bit bytes per character in G0 (JIS X 0208, JIS X 0212)
+ * - `gr94`: two 8-bit bytes per character in G1 (KS X 1001, GB 2312)
+ * - `unicode`: a multi-byte encoding without code extensions (UTF-8, GB18030, GBK)
+ */
+type CharacterSetKind = 'ascii' | 'single' | 'jis' | 'gr94' | 'unicode';
+
+/** A character set named by a DICOM defined term. */
+interface CharacterSetDef {
+    readonly kind: CharacterSetKind;
+    /** WHATWG encoding label of the decoder. */
+    readonly decoder: string;
+    /** ISO 2022 escape sequence (after ESC) designating the set, for ISO 2022 terms. */
+    readonly escape?: string;
+    /** Byte prepended to each two-byte character before decoding (JIS X 0212 via EUC-JP). */
+    readonly prefix?: number;
+}
+
+/** What happens to values that the dataset's Specific Character Set cannot encode. */
+const CharacterSetPolicy = {
+    /** Set Specific Character Set to ISO_IR 192 (UTF-8). */
+    UPDATE: 'update',
+    /** Fail with an error naming the value. */
+    REJECT: 'reject',
+} as const;
+
+type CharacterSetPolicyValue = (typeof CharacterSetPolicy)[keyof typeof CharacterSetPolicy];
+
+/** Shift state of an ISO 2022 decoder or encoder. */
+interface ShiftState {
+    g0: CharacterSetDef;
+    g1: CharacterSetDef | undefined;
+}
+
+/** A dataset still to decode, with the copy it goes into, its character set and its nesting depth. */
+interface PendingDataset {
+    readonly source: DicomJsonModel;
+    readonly target: Record<string, DicomJsonElement>;
+    readonly terms: readonly string[];
+    readonly depth: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const ESC = 0x1b;
+
+/** The Specific Character Set of UTF-8. */
+const UTF8_CHARACTER_SET = 'ISO_IR 192';
+
+/** VRs whose values are encoded with the Specific Character Set (PS3.5 6.1.2.3). */
+const CHARACTER_SET_VRS: ReadonlySet<string> = new Set(['SH', 'LO', 'UC', 'ST', 'LT', 'UT', 'PN']);
+
+const ASCII: CharacterSetDef = { kind: 'ascii', decoder: 'utf-8', escape: '(B' };
+
+function single(decoder: string, escape: string): CharacterSetDef {
+    return { kind: 'single', decoder, escape };
+}
+
+/** ISO 8859 and other single-byte sets: [non-ISO 2022 term, ISO 2022 term, definition]. */
+const SINGLE_BYTE_SETS: ReadonlyArray<readonly [string, string, CharacterSetDef]> = [
+    ['ISO_IR 100', 'ISO 2022 IR 100', single('iso-8859-1', '-A')],
+    ['ISO_IR 101', 'ISO 2022 IR 101', single('iso-8859-2', '-B')],
+    ['ISO_IR 109', 'ISO 2022 IR 109', single('iso-8859-3', '-C')],
+    ['ISO_IR 110', 'ISO 2022 IR 110', single('iso-8859-4', '-D')],
+    ['ISO_IR 144', 'ISO 2022 IR 144', single('iso-8859-5', '-L')],
+    ['ISO_IR 127', 'ISO 2022 IR 127', single('iso-8859-6', '-G')],
+    ['ISO_IR 126', 'ISO 2022 IR 126', single('iso-8859-7', '-F')],
+    ['ISO_IR 138', 'ISO 2022 IR 138', single('iso-8859-8', '-H')],
+    ['ISO_IR 148', 'ISO 2022 IR 148', single('iso-8859-9', '-M')],
+    ['ISO_IR 203', 'ISO 2022 IR 203', single('iso-8859-15', '-b')],
+    ['ISO_IR 166', 'ISO 2022 IR 166', single('windows-874', '-T')],
+    ['ISO_IR 13', 'ISO 2022 IR 13', single('shift_jis', ')I')],
+];
+
+/** Defined terms of Specific Character Set (PS3.3 C.12.1.1.2). The empty term is the default repertoire. */
+const CHARACTER_SETS: ReadonlyMap<string, CharacterSetDef> = new Map([
+    ['', ASCII],
+    ['ISO_IR 6', ASCII],
+    ['ISO 2022 IR 6', ASCII],
+    ...SINGLE_BYTE_SETS.flatMap(
+        ([term, isoTerm, def]): Array<[string, CharacterSetDef]> => [
+            [term, def],
+            [isoTerm, def],
+        ]
+    ),
+    ['ISO 2022 IR 87', { kind: 'jis', decoder: 'euc-jp', escape: '$B' }],
+    ['ISO 2022 IR 159', { kind: 'jis', decoder: 'euc-jp', escape: '$(D', prefix: 0x8f }],
+    ['ISO 2022 IR 149', { kind: 'gr94', decoder: 'euc-kr', escape: '$)C' }],
+    ['ISO 2022 IR 58', { kind: 'gr94', decoder: 'gbk', escape: '$)A' }],
+    [UTF8_CHARACTER_SET, { kind: 'unicode', decoder: 'utf-8' }],
+    ['GB18030', { kind: 'unicode', decoder: 'gb18030' }],
+    ['GBK', { kind: 'unicode', decoder: 'gbk' }],
+]);
+
+/** Escape sequences (after ESC) to the sets they designate; ESC ( J (JIS X 0201 Roman) is read as ASCII. */
+const ESCAPES: ReadonlyMap<string, CharacterSetDef> = new Map([
+    ...[...CHARACTER_SETS.values()].flatMap((def): Array<[string, CharacterSetDef]> => (def.escape !== undefined ? [[def.escape, def]] : [])),
+    ['(J', ASCII],
+]);
+
+/** Bytes after which an ISO 2022 value returns to its initial state: TAB, LF, FF, CR and the delimiters \ = ^. */
+const RESET_BYTES: ReadonlySet<number> = new Set([0x09, 0x0a, 0x0c, 0x0d, 0x5c, 0x3d, 0x5e]);
+
+const decoders = new Map<string, TextDecoder>();
+const repertoires = new Map<CharacterSetDef, ReadonlyMap<string, readonly number[]>>();
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function decoderFor(label: string): TextDecoder {
+    let decoder = decoders.get(label);
+    if (decoder === undefined) {
+        decoder = new TextDecoder(label);
+        decoders.set(label, decoder);
+    }
+    return decoder;
+}
+
+/** Returns the character a byte sequence decodes to, or undefined when it is not a single valid character. */
+function decodeCharacter(def: CharacterSetDef, bytes: readonly number[]): string | undefined {
+    const text = decoderFor(def.decoder).decode(Uint8Array.from(bytes));
+    return text.length === 1 && text !== '\uFFFD' ? text : undefined;
+}
+
+/** Decodes a two-byte character of a `jis` or `gr94` set from its bytes as they appear in the value. */
+function decodePair(def: CharacterSetDef, first: number, second: number): string {
+    const bytes = [first | 0x80, second | 0x80];
+    return decodeCharacter(def, def.prefix !== undefined ? [def.prefix, ...bytes] : bytes) ?? '\uFFFD';
+}
+
+/** Byte sequences of a set's characters, as they appear in a value (high bit cleared for `jis`). */
+function codeSpace(def: CharacterSetDef): ReadonlyArray<readonly number[]> {
+    const range = (from: number, to: number): number[] => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+    if (def.kind === 'single') return range(0xa0, 0xff).map(b => [b]);
+    if (def.kind === 'jis') return range(0x21, 0x7e).flatMap(b1 => range(0x21, 0x7e).map(b2 => [b1, b2]));
+    if (def.kind === 'gr94') return range(0xa1, 0xfe).flatMap(b1 => range(0xa1, 0xfe).map(b2 => [b1, b2]));
+    // Two-byte GBK region; GB18030 four-byte sequences are not encodable
+    if (def.kind === 'unicode') return range(0x81, 0xfe).flatMap(b1 => range(0x40, 0xfe).flatMap(b2 => (b2 === 0x7f ? [] : [[b1, b2]])));
+    return [];
+}
+
+/** Returns the character to bytes table of a set, built on first use by decoding its code space. */
+function repertoire(def: CharacterSetDef): ReadonlyMap<string, readonly number[]> {
+    const cached = repertoires.get(def);
+    if (cached !== undefined) return cached;
+    const table = new Map<string, readonly number[]>();
+    for (const bytes of codeSpace(def)) {
+        const character = def.kind === 'jis' ? decodePair(def, bytes[0] ?? 0, bytes[1] ?? 0) : decodeCharacter(def, bytes);
+        if (character !== undefined && character !== '\uFFFD' && !table.has(character)) table.set(character, bytes);
+    }
+    repertoires.set(def, table);
+    return table;
+}
+
+/** Resolves defined terms to their character sets. */
+function resolveTerms(terms: readonly string[]): Result<readonly CharacterSetDef[]> {
+    const defs: CharacterSetDef[] = [];
+    for (const term of terms.length === 0 ? [''] : terms) {
+        const def = CHARACTER_SETS.get(term.trim());
+        if (def === undefined) return err(new Error(`Unsupported Specific Character Set "${term}"`));
+        defs.push(def);
+    }
+    return ok(defs);
+}
+
+/** True when the terms use ISO 2022 code extensions. */
+function usesCodeExtensions(terms: readonly string[]): boolean {
+    return terms.length > 1 || terms.some(term => term.startsWith('ISO 2022'));
+}
+
+/** The initial G1 set of an ISO 2022 value: the set of value 1, if it has one. */
+function initialG1(defs: readonly CharacterSetDef[]): CharacterSetDef | undefined {
+    const first = defs[0];
+    return first?.kind === 'single' || first?.kind === 'gr94' ? first : undefined;
+}
+
+/** Reads the escape sequence at `index`, returning the designated set and the sequence length. */
+function readEscape(bytes: Uint8Array, index: number): { readonly def: CharacterSetDef; readonly length: number } | undefined {
+    for (const length of [3, 4]) {
+        const sequence = String.fromCharCode(...bytes.subarray(index + 1, index + length));
+        const def = ESCAPES.get(sequence);
+        if (def !== undefined) return { def, length };
+    }
+    return undefined;
+}
+
+/** Applies the escape sequence at `index` to the shift state, returning its length (1 for an unknown ESC, kept as text). */
+function shiftByEscape(bytes: Uint8Array, index: number, state: ShiftState): number {
+    const escape = readEscape(bytes, index);
+    if (escape === undefined) return 1;
+    if (escape.def.kind === 'ascii' || escape.def.kind === 'jis') state.g0 = escape.def;
+    else state.g1 = escape.def;
+    return escape.length;
+}
+
+/** Decodes one character of an ISO 2022 value at `index`, returning the text and the bytes consumed. */
+function decodeIso2022Character(bytes: Uint8Array, index: number, state: ShiftState, initial: CharacterSetDef | undefined): readonly [string, number] {
+    const byte = bytes[index] ?? 0;
+    const next = bytes[index + 1] ?? 0;
+    if (byte < 0x80) {
+        if (state.g0.kind === 'jis' && byte >= 0x21 && byte <= 0x7e) return [decodePair(state.g0, byte, next), 2];
+        if (RESET_BYTES.has(byte)) Object.assign(state, { g0: ASCII, g1: initial });
+        return [String.fromCharCode(byte), 1];
+    }
+    return decodeG1(state.g1, byte, next);
+}
+
+/** Decodes a G1 character (high bit set) with the designated G1 set. */
+function decodeG1(g1: CharacterSetDef | undefined, byte: number, next: number): readonly [string, number] {
+    if (g1 === undefined) return ['\uFFFD', 1];
+    if (g1.kind === 'gr94') return [decodePair(g1, byte, next), 2];
+    return [decodeCharacter(g1, [byte]) ?? '\uFFFD', 1];
+}
+
+function decodeIso2022(bytes: Uint8Array, defs: readonly CharacterSetDef[]): string {
+    const initial = initialG1(defs);
+    const state: ShiftState = { g0: ASCII, g1: initial };
+    let text = '';
+    for (let i = 0; i < bytes.length; ) {
+        const length = bytes[i] === ESC ? shiftByEscape(bytes, i, state) : 0;
+        if (length > 1) {
+            i += length;
+            continue;
+        }
+        const [decoded, consumed] = length === 1 ? ['\u001b', 1] : decodeIso2022Character(bytes, i, state, initial);
+        text += decoded;
+        i += consumed;
+    }
+    return text;
+}
+
+/** Bytes of one character in an encoding without code extensions. */
+function encodeSingle(def: CharacterSetDef, character: string): readonly number[] | undefined {
+    const code = character.codePointAt(0) ?? 0;
+    if (code < 0x80) return [code];
+    return def.kind === 'ascii' ? undefined : repertoire(def).get(character);
+}
+
+/** Escape sequence bytes designating a set. */
+function escapeBytes(def: CharacterSetDef): readonly number[] {
+    return [ESC, ...Array.from(def.escape ?? '', c => c.charCodeAt(0))];
+}
+
+/** Encodes an ASCII character of an ISO 2022 value, returning G0 to ASCII first. */
+function encodeIso2022Ascii(code: number, state: ShiftState, initial: CharacterSetDef | undefined): readonly number[] {
+    const bytes = state.g0 === ASCII ? [code] : [...escapeBytes(ASCII), code];
+    state.g0 = ASCII;
+    if (RESET_BYTES.has(code)) state.g1 = initial;
+    return bytes;
+}
+
+/** Encodes a non-ASCII character of an ISO 2022 value from the first declared set that contains it, designating that set if needed. */
+function encodeIso2022Extended(character: string, defs: readonly CharacterSetDef[], state: ShiftState): readonly number[] | undefined {
+    for (const def of defs) {
+        const bytes = def.kind === 'ascii' || def.kind === 'unicode' ? undefined : repertoire(def).get(character);
+        if (bytes === undefined) continue;
+        const slot = def.kind === 'jis' ? 'g0' : 'g1';
+        const designated = state[slot] === def;
+        state[slot] = def;
+        return designated ? bytes : [...escapeBytes(def), ...bytes];
+    }
+    return undefined;
+}
+
+function encodeIso2022(value: string, defs: readonly CharacterSetDef[]): readonly number[] | string {
+    const initial = initialG1(defs);
+    const state: ShiftState = { g0: ASCII, g1: initial };
+    const bytes: number[] = [];
+    for (const character of value) {
+        const code = character.codePointAt(0) ?? 0;
+        const encoded = code < 0x80 ? encodeIso2022Ascii(code, state, initial) : encodeIso2022Extended(character, defs, state);
+        if (encoded === undefined) return character;
+        bytes.push(...encoded);
+    }
+    if (state.g0 !== ASCII) bytes.push(...escapeBytes(ASCII));
+    return bytes;
+}
+
+/** Decodes a string value element's byte strings; returns the element unchanged when all are ASCII. */
+function decodeElement(element: DicomJsonElement, terms: readonly string[]): DicomJsonElement {
+    const values = element.Value;
+    if (values === undefined || !values.some(v => typeof v === 'string' || (typeof v === 'object' && v !== null))) return element;
+    const effective = CHARACTER_SET_VRS.has(element.vr) ? terms : [UTF8_CHARACTER_SET];
+    // ISO 2022 IR 87 and IR 159 are 7-bit: their values are ASCII bytes with escape sequences
+    const decode = (raw: string): string => (isAscii(raw) && !raw.includes('\u001b') ? raw : decodeByteString(raw, effective));
+    const decoded = values.map(v => {
+        if (typeof v === 'string') return decode(v);
+        if (element.vr !== 'PN' || typeof v !== 'object' || v === null) return v;
+        return Object.fromEntries(Object.entries(v).map(([group, name]) => [group, typeof name === 'string' ? decode(name) : name]));
+    });
+    return { ...element, Value: decoded };
+}
+
+/** Decodes a byte string, falling back to UTF-8 for character sets that are not supported. */
+function decodeByteString(raw: string, terms: readonly string[]): string {
+    const bytes = Uint8Array.from(raw, c => c.charCodeAt(0));
+    const decoded = decodeText(bytes, terms);
+    return decoded.ok ? decoded.value : decoderFor('utf-8').decode(bytes);
+}
+
+/** Copies the items of a sequence element, queueing each item for decoding. */
+function queueItems(element: DicomJsonElement, terms: readonly string[], depth: number, queue: PendingDataset[]): DicomJsonElement {
+    const items = (element.Value ?? []).map(item => {
+        if (typeof item !== 'object' || item === null) return item;
+        const target: Record<string, DicomJsonElement> = {};
+        queue.push({ source: item as DicomJsonModel, target, terms, depth: depth + 1 });
+        return target;
+    });
+    return { ...element, Value: items };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * True when a string contains only 7-bit ASCII characters, which every character set encodes alike.
+ */
+function isAscii(value: string): boolean {
+    return /^\p{ASCII}*$/u.test(value);
+}
+
+/**
+ * Returns the defined terms of a Specific Character Set (0008,0005) element.
+ * An empty value 1 (the default repertoire with code extensions) is returned as ''.
+ *
+ * @param element - The (0008,0005) element, if present
+ * @returns The defined terms; empty when the dataset uses the default repertoire
+ */
+function characterSetTerms(element: DicomJsonElement | undefined): readonly string[] {
+    const values = element?.Value ?? [];
+    return values.map(v => (typeof v === 'string' ? v.trim() : ''));
+}
+
+/**
+ * Decodes the bytes of a text value in the given Specific Character Set.
+ *
+ * ISO 2022 escape sequences switch between the declared sets; characters that
+ * cannot be decoded become U+FFFD.
+ *
+ * @param bytes - The encoded value
+ * @param terms - Defined terms of Specific Character Set (0008,0005)
+ * @returns A Result containing the decoded string, or an error for unsupported terms
+ */
+function decodeText(bytes: Uint8Array, terms: readonly string[]): Result<string> {
+    const defs = resolveTerms(terms);
+    if (!defs.ok) return err(defs.error);
+    if (usesCodeExtensions(terms)) return ok(decodeIso2022(bytes, defs.value));
+    return ok(decoderFor(defs.value[0]?.decoder ?? 'utf-8').decode(bytes));
+}
+
+/**
+ * Encodes a text value in the given Specific Character Set.
+ *
+ * With ISO 2022 code extensions, each character is taken from the first declared set
+ * that contains it, and the value returns to ASCII at its end.
+ *
+ * @param value - The text value
+ * @param terms - Defined terms of Specific Character Set (0008,0005)
+ * @returns A Result containing the encoded bytes, or an error naming the first character the set cannot encode
+ */
+function encodeText(value: string, terms: readonly string[]): Result<Uint8Array> {
+    const defs = resolveTerms(terms);
+    if (!defs.ok) return err(defs.error);
+    const first = defs.value[0] ?? ASCII;
+    if (!usesCodeExtensions(terms) && first.decoder === 'utf-8' && first.kind === 'unicode') return ok(new TextEncoder().encode(value));
+    const encoded = usesCodeExtensions(terms) ? encodeIso2022(value, defs.value) : encodeWithout(value, first);
+    if (typeof encoded === 'string') {
+        return err(new Error(`"${encoded}" cannot be encoded in Specific Character Set ${terms.length > 0 ? terms.join('\\') : 'ISO_IR 6'}`));
+    }
+    return ok(Uint8Array.from(encoded));
+}
+
+/** Encodes a value in a set without code extensions; returns the first character it cannot encode instead. */
+function encodeWithout(value: string, def: CharacterSetDef): readonly number[] | string {
+    const bytes: number[] = [];
+    for (const character of value) {
+        const encoded = encodeSingle(def, character);
+        if (encoded === undefined) return character;
+        bytes.push(...encoded);
+    }
+    return bytes;
+}
+
+/**
+ * Decodes the text values of a model read as byte strings (one character per byte),
+ * using the Specific Character Set of each dataset and sequence item (iterative, no
+ * recursion — Rule 8.2). Values of VRs not affected by the character set, and values
+ * in unsupported character sets, are decoded as UTF-8.
+ *
+ * @param model - The model with byte string values
+ * @returns A new model with decoded values; the input is not modified
+ */
+function decodeModelText(model: DicomJsonModel): DicomJsonModel {
+    const root: Record<string, DicomJsonElement> = {};
+    const queue: PendingDataset[] = [{ source: model, target: root, terms: [], depth: 1 }];
+    for (let i = 0; i < queue.length; i++) {
+        const { source, target, terms: inherited, depth } = queue[i] as PendingDataset;
+        const declared = source['00080005'];
+        const terms = declared !== undefined ? characterSetTerms(declared) : inherited;
+        for (const [key, element] of Object.entries(source)) {
+            if (element.vr === 'SQ' && Array.isArray(element.Value) && depth < MAX_TRAVERSAL_DEPTH) target[key] = queueItems(element, terms, depth, queue);
+            else target[key] = decodeElement(element, terms);
+        }
+    }
+    return root;
+}
+
+export { CharacterSetPolicy, CHARACTER_SET_VRS, UTF8_CHARACTER_SET, characterSetTerms, decodeModelText, decodeText, encodeText, isAscii };
+export type { CharacterSetPolicyValue };
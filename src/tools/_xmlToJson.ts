@@ -59,6 +59,7 @@ interface XmlDicomAttribute {
     readonly PersonName?: unknown;
     readonly InlineBinary?: unknown;
     readonly BulkDataURI?: unknown;
+    readonly BulkData?: unknown;
     readonly Item?: unknown;
 }
 
@@ -77,6 +78,9 @@ const PN_REPS: readonly PnRepType[] = ['Alphabetic', 'Ideographic', 'Phonetic'];
 
 const ARRAY_TAG_NAMES = new Set(['DicomAttribute', 'Value', 'PersonName', 'Item']);
 
+/** Maximum number of omitted empty values restored as null before a numbered value. */
+const MAX_VALUE_GAP = 1_000;
+
 /**
  * Builds a PN string from name components.
  */
@@ -125,14 +129,27 @@ function safeString(val: unknown): string {
     return '';
 }
 
+/**
+ * Places a value at the position given by its `number` attribute, filling the
+ * values PS3.19 omits as empty with null. Values without a usable number are appended.
+ */
+function placeValue(values: unknown[], node: unknown, value: unknown): void {
+    const number = typeof node === 'object' && node !== null ? Number((node as Record<string, unknown>)['@_number']) : Number.NaN;
+    const gap = number - 1 - values.length;
+    if (Number.isInteger(gap) && gap > 0 && gap <= MAX_VALUE_GAP) {
+        for (let i = 0; i < gap; i++) values.push(null);
+    }
+    values.push(value);
+}
+
 /** Handles InlineBinary elements. */
 function convertInlineBinary(attr: XmlDicomAttribute, element: ElementBuilder): void {
     element.InlineBinary = safeString(attr.InlineBinary);
 }
 
-/** Handles BulkDataURI elements. */
+/** Handles BulkDataURI elements and their PS3.19 form, `<BulkData uri="..."/>`. */
 function convertBulkDataURI(attr: XmlDicomAttribute, element: ElementBuilder): void {
-    const bulkArray = toArray(attr.BulkDataURI);
+    const bulkArray = toArray(attr.BulkDataURI ?? attr.BulkData);
     const firstBulk = bulkArray[0];
     if (typeof firstBulk === 'object' && firstBulk !== null && '@_uri' in firstBulk) {
         element.BulkDataURI = safeString((firstBulk as Record<string, unknown>)['@_uri']);
@@ -144,9 +161,9 @@ function convertBulkDataURI(attr: XmlDicomAttribute, element: ElementBuilder): v
 /** Handles PersonName (PN VR) elements. */
 function convertPNValue(attr: XmlDicomAttribute, element: ElementBuilder): void {
     const pnArray = toArray(attr.PersonName);
-    const values: Record<string, string>[] = [];
+    const values: unknown[] = [];
     for (const pn of pnArray) {
-        values.push(convertPersonName(pn));
+        placeValue(values, pn, convertPersonName(pn));
     }
     if (values.length > 0) element.Value = values;
 }
@@ -168,8 +185,8 @@ function convertRegularValue(attr: XmlDicomAttribute, element: ElementBuilder):
     const valArray = toArray(attr.Value);
     const values: unknown[] = [];
     for (const v of valArray) {
-        if (typeof v === 'object' && v !== null && '#text' in v) {
-            values.push((v as Record<string, unknown>)['#text']);
+        if (typeof v === 'object' && v !== null) {
+            placeValue(values, v, '#text' in v ? (v as Record<string, unknown>)['#text'] : '');
         } else {
             values.push(v);
         }
@@ -177,6 +194,12 @@ function convertRegularValue(attr: XmlDicomAttribute, element: ElementBuilder):
     if (values.length > 0) element.Value = values;
 }
 
+/** Returns true for a `<BulkData uri="..."/>` node; dcm2xml's `<BulkData uuid="..."/>` placeholders carry no reference. */
+function isBulkDataReference(node: unknown): boolean {
+    const first = toArray(node)[0];
+    return typeof first === 'object' && first !== null && '@_uri' in first;
+}
+
 /**
  * Converts a single DicomAttribute XML element to its DICOM JSON element.
  */
@@ -185,7 +208,7 @@ function convertElement(attr: XmlDicomAttribute): DicomJsonElement {
 
     if (attr.InlineBinary !== undefined) {
         convertInlineBinary(attr, element);
-    } else if (attr.BulkDataURI !== undefined) {
+    } else if (attr.BulkDataURI !== undefined || isBulkDataReference(attr.BulkData)) {
         convertBulkDataURI(attr, element);
     } else if (element.vr === 'PN' && attr.PersonName !== undefined) {
         convertPNValue(attr, element);
@@ -5,6 +5,14 @@
  * Fallback: dcm2json binary → repairJson → JSON.parse
  *
  * The result includes a `source` discriminant indicating which strategy succeeded.
+ * With a `bulkData` policy, binary values are read inline and then kept, dropped
+ * or replaced by BulkDataURIs into the source file.
+ *
+ * On the XML path, text values are read byte for byte and decoded according to the
+ * Specific Character Set (0008,0005) of each dataset and sequence item.
+ *
+ * With `stopAfterElement`, dcm2xml stops parsing after the given top-level element
+ * (`--stop-after-elem`), so a header is read without the pixel data that follows it.
  *
  * @module dcm2json
  */
@@ -18,6 +26,9 @@ import { resolveBinary } from './_resolveBinary';
 import { createToolError } from './_toolError';
 import { xmlToJson } from './_xmlToJson';
 import { repairJson } from './_repairJson';
+import { applyBulkDataPolicy } from './_bulkData';
+import { decodeModelText } from './_characterSet';
+import type { BulkDataPolicy } from './_bulkData';
 import type { DicomJsonModel } from './_xmlToJson';
 import type { ToolBaseOptions } from './_toolTypes';
 
@@ -28,6 +39,21 @@ type Dcm2jsonSource = 'xml' | 'direct';
 interface Dcm2jsonOptions extends ToolBaseOptions {
     /** Skip the XML primary path and use direct dcm2json only. Defaults to false. */
     readonly directOnly?: boolean | undefined;
+    /**
+     * How binary values are represented. Defaults to the tools' own output: dcm2xml omits
+     * binary values, the direct dcm2json fallback inlines them.
+     */
+    readonly bulkData?: BulkDataPolicy | undefined;
+    /**
+     * Keep text values of the XML path undecoded, as byte strings (one character per byte)
+     * in the file's Specific Character Set. Defaults to false: values are decoded.
+     */
+    readonly rawText?: boolean | undefined;
+    /**
+     * Read the top-level elements up to and including this tag, `(gggg,eeee)`, and none after it
+     * (`--stop-after-elem`). Elements beyond it are dropped from the result of either path.
+     */
+    readonly stopAfterElement?: string | undefined;
 }
 
 /** Result of a successful dcm2json conversion. */
@@ -43,20 +69,49 @@ const Dcm2jsonOptionsSchema = z
         timeoutMs: z.number().int().positive().optional(),
         signal: z.instanceof(AbortSignal).optional(),
         directOnly: z.boolean().optional(),
+        bulkData: z
+            .object({
+                mode: z.enum(['exclude', 'inline', 'uri']),
+                inlineThreshold: z.number().int().nonnegative().optional(),
+            })
+            .strict()
+            .optional(),
+        rawText: z.boolean().optional(),
+        stopAfterElement: z
+            .string()
+            .regex(/^\([0-9A-Fa-f]{4},[0-9A-Fa-f]{4}\)$/)
+            .optional(),
     })
     .strict()
     .optional();
 
 /**
- * Attempts XML-primary conversion: dcm2xml → xmlToJson.
+ * Builds dcm2xml arguments: native format, base64 binary values only when a bulk data
+ * policy needs them, and where to stop parsing.
+ */
+function buildXmlArgs(inputPath: string, options?: Dcm2jsonOptions): string[] {
+    const args = ['-nat'];
+    if (options?.bulkData !== undefined) {
+        args.push('+Wb', '+Eb');
+    }
+    if (options?.stopAfterElement !== undefined) {
+        // dcm2xml expects "gggg,eeee" without parentheses
+        args.push('--stop-after-elem', options.stopAfterElement.replace(/[()]/g, ''));
+    }
+    args.push(inputPath);
+    return args;
+}
+
+/**
+ * Attempts XML-primary conversion: dcm2xml → xmlToJson → text decoding.
  */
-async function tryXmlPath(inputPath: string, timeoutMs: number, signal?: AbortSignal): Promise<Result<Dcm2jsonResult>> {
+async function tryXmlPath(inputPath: string, timeoutMs: number, signal?: AbortSignal, options?: Dcm2jsonOptions): Promise<Result<Dcm2jsonResult>> {
     const xmlBinary = resolveBinary('dcm2xml');
     if (!xmlBinary.ok) {
         return err(xmlBinary.error);
     }
 
-    const xmlResult = await execCommand(xmlBinary.value, ['-nat', inputPath], { timeoutMs, signal });
+    const xmlResult = await execCommand(xmlBinary.value, buildXmlArgs(inputPath, options), { timeoutMs, signal, stdoutEncoding: 'latin1' });
     if (!xmlResult.ok) {
         return err(xmlResult.error);
     }
@@ -70,7 +125,8 @@ async function tryXmlPath(inputPath: string, timeoutMs: number, signal?: AbortSi
         return err(jsonResult.error);
     }
 
-    return ok({ data: jsonResult.value, source: 'xml' as const });
+    const data = options?.rawText === true ? jsonResult.value : decodeModelText(jsonResult.value);
+    return ok({ data, source: 'xml' as const });
 }
 
 /**
@@ -101,6 +157,41 @@ async function tryDirectPath(inputPath: string, timeoutMs: number, signal?: Abor
     }
 }
 
+/**
+ * Drops the top-level elements after a `(gggg,eeee)` tag, which the direct path reads
+ * regardless of `stopAfterElement`.
+ */
+function dropElementsAfter(data: DicomJsonModel, stopAfterElement: string): DicomJsonModel {
+    const last = stopAfterElement.replace(/[(),]/g, '').toUpperCase();
+    const kept: DicomJsonModel = {};
+    for (const [key, element] of Object.entries(data)) {
+        if (key.toUpperCase() <= last) kept[key] = element;
+    }
+    return kept;
+}
+
+/**
+ * Runs the XML path, falling back to the direct path, or the direct path alone.
+ */
+async function convert(inputPath: string, options?: Dcm2jsonOptions): Promise<Result<Dcm2jsonResult>> {
+    const timeoutMs = options?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const signal = options?.signal;
+
+    // Direct-only mode: skip XML path
+    if (options?.directOnly === true) {
+        return tryDirectPath(inputPath, timeoutMs, signal);
+    }
+
+    // Try XML path first
+    const xmlResult = await tryXmlPath(inputPath, timeoutMs, signal, options);
+    if (xmlResult.ok) {
+        return xmlResult;
+    }
+
+    // Fall back to direct path
+    return tryDirectPath(inputPath, timeoutMs, signal);
+}
+
 /**
  * Converts a DICOM file to the DICOM JSON Model.
  *
@@ -119,6 +210,12 @@ async function tryDirectPath(inputPath: string, timeoutMs: number, signal?: Abor
  *     console.log(result.value.source); // 'xml' or 'direct'
  *     console.log(result.value.data['00100010']); // Patient Name
  * }
+ *
+ * // Inline binary values up to 1 KiB, reference larger ones by BulkDataURI
+ * await dcm2json('/path/to/study.dcm', { bulkData: { mode: 'uri', inlineThreshold: 1024 } });
+ *
+ * // Read the header only, up to the element before Pixel Data (7FE0,0010)
+ * await dcm2json('/path/to/study.dcm', { stopAfterElement: '(7FE0,000F)' });
  * ```
  */
 async function dcm2json(inputPath: string, options?: Dcm2jsonOptions): Promise<Result<Dcm2jsonResult>> {
@@ -127,22 +224,15 @@ async function dcm2json(inputPath: string, options?: Dcm2jsonOptions): Promise<R
         return err(new Error(`dcm2json: invalid options: ${validation.error.message}`));
     }
 
-    const timeoutMs = options?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
-    const signal = options?.signal;
-
-    // Direct-only mode: skip XML path
-    if (options?.directOnly === true) {
-        return tryDirectPath(inputPath, timeoutMs, signal);
-    }
-
-    // Try XML path first
-    const xmlResult = await tryXmlPath(inputPath, timeoutMs, signal);
-    if (xmlResult.ok) {
-        return xmlResult;
+    const result = await convert(inputPath, options);
+    if (!result.ok) {
+        return result;
     }
 
-    // Fall back to direct path
-    return tryDirectPath(inputPath, timeoutMs, signal);
+    const stop = options?.stopAfterElement;
+    const data = stop !== undefined ? dropElementsAfter(result.value.data, stop) : result.value.data;
+    const policy = options?.bulkData;
+    return ok({ ...result.value, data: policy !== undefined ? applyBulkDataPolicy(data, inputPath, policy) : data });
 }
 
 export { dcm2json };
@@ -39,11 +39,13 @@ interface Dcm2xmlOptions extends ToolBaseOptions {
     readonly writeBinaryData?: boolean | undefined;
     /** Encode binary data inline instead of referencing external files. Defaults to true when writeBinaryData is true. */
     readonly encodeBinaryBase64?: boolean | undefined;
+    /** Write the PS3.19 Native DICOM Model (`-nat`) instead of the DCMTK-specific format. Defaults to false. */
+    readonly nativeFormat?: boolean | undefined;
 }
 
 /** Result of a successful dcm2xml conversion. */
 interface Dcm2xmlResult {
-    /** The XML output string in DCMTK Native DICOM Model format. */
+    /** The XML output string, in the DCMTK-specific format or, with `nativeFormat`, the Native DICOM Model. */
     readonly xml: string;
 }
 
@@ -55,10 +57,19 @@ const Dcm2xmlOptionsSchema = z
         charset: z.enum(['utf8', 'latin1', 'ascii']).optional(),
         writeBinaryData: z.boolean().optional(),
         encodeBinaryBase64: z.boolean().optional(),
+        nativeFormat: z.boolean().optional(),
     })
     .strict()
     .optional();
 
+/**
+ * Builds the dcm2xml arguments for writing binary data.
+ */
+function binaryDataArgs(options?: Dcm2xmlOptions): string[] {
+    if (options?.writeBinaryData !== true) return [];
+    return options.encodeBinaryBase64 !== false ? ['+Wb', '+Eb'] : ['+Wb'];
+}
+
 /**
  * Builds dcm2xml command-line arguments from validated options.
  *
@@ -69,6 +80,10 @@ const Dcm2xmlOptionsSchema = z
 function buildArgs(inputPath: string, options?: Dcm2xmlOptions): string[] {
     const args: string[] = [];
 
+    if (options?.nativeFormat === true) {
+        args.push('-nat');
+    }
+
     if (options?.namespace === true) {
         args.push('+Xn');
     }
@@ -79,13 +94,7 @@ function buildArgs(inputPath: string, options?: Dcm2xmlOptions): string[] {
         args.push('+Ca');
     }
 
-    if (options?.writeBinaryData === true) {
-        args.push('+Wb');
-        if (options.encodeBinaryBase64 !== false) {
-            args.push('+Eb');
-        }
-    }
-
+    args.push(...binaryDataArgs(options));
     args.push(inputPath);
 
     return args;
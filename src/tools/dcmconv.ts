@@ -1,6 +1,9 @@
 /**
  * Convert DICOM file encoding/transfer syntax using the dcmconv binary.
  *
+ * Besides the transfer syntax, dcmconv converts text values to another
+ * Specific Character Set (`+C`), e.g. to `ISO_IR 192` (UTF-8).
+ *
  * @module dcmconv
  */
 
@@ -39,8 +42,10 @@ const VALID_TRANSFER_SYNTAXES = ['+ti', '+te', '+tb', '+tl', '+t2', '+tr', '+td'
 
 /** Options for {@link dcmconv}. */
 interface DcmconvOptions extends ToolBaseOptions {
-    /** Target transfer syntax. Required. */
-    readonly transferSyntax: TransferSyntaxValue;
+    /** Target transfer syntax. Required unless `characterSet` is given. */
+    readonly transferSyntax?: TransferSyntaxValue | undefined;
+    /** Specific Character Set defined term to convert text values to, e.g. `ISO_IR 192`. */
+    readonly characterSet?: string | undefined;
 }
 
 /** Result of a successful dcmconv conversion. */
@@ -53,16 +58,35 @@ const DcmconvOptionsSchema = z
     .object({
         timeoutMs: z.number().int().positive().optional(),
         signal: z.instanceof(AbortSignal).optional(),
-        transferSyntax: z.enum(VALID_TRANSFER_SYNTAXES),
+        transferSyntax: z.enum(VALID_TRANSFER_SYNTAXES).optional(),
+        characterSet: z.string().min(1).optional(),
     })
-    .strict();
+    .strict()
+    .refine(options => options.transferSyntax !== undefined || options.characterSet !== undefined, {
+        message: 'transferSyntax or characterSet is required',
+    });
 
 /**
- * Converts a DICOM file's transfer syntax using the dcmconv binary.
+ * Builds dcmconv command-line arguments from validated options.
+ */
+function buildArgs(inputPath: string, outputPath: string, options: DcmconvOptions): string[] {
+    const args: string[] = [];
+    if (options.transferSyntax !== undefined) {
+        args.push(options.transferSyntax);
+    }
+    if (options.characterSet !== undefined) {
+        args.push('+C', options.characterSet);
+    }
+    args.push(inputPath, outputPath);
+    return args;
+}
+
+/**
+ * Converts a DICOM file's transfer syntax or character set using the dcmconv binary.
  *
  * @param inputPath - Path to the DICOM input file
  * @param outputPath - Path for the converted output file
- * @param options - Conversion options (transfer syntax required)
+ * @param options - Conversion options (transfer syntax or character set required)
  * @returns A Result containing the output path or an error
  *
  * @example
@@ -73,6 +97,9 @@ const DcmconvOptionsSchema = z
  * if (result.ok) {
  *     console.log(`Converted: ${result.value.outputPath}`);
  * }
+ *
+ * // Convert text values to UTF-8
+ * await dcmconv('/path/to/input.dcm', '/path/to/output.dcm', { characterSet: 'ISO_IR 192' });
  * ```
  */
 async function dcmconv(inputPath: string, outputPath: string, options: DcmconvOptions): Promise<Result<DcmconvResult>> {
@@ -86,7 +113,7 @@ async function dcmconv(inputPath: string, outputPath: string, options: DcmconvOp
         return err(binaryResult.error);
     }
 
-    const args = [options.transferSyntax, inputPath, outputPath];
+    const args = buildArgs(inputPath, outputPath, options);
     const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
 
     const result = await execCommand(binaryResult.value, args, {
@@ -11,6 +11,10 @@ export type { Dcm2xmlOptions, Dcm2xmlResult, Dcm2xmlCharsetValue } from './dcm2x
 
 export { dcm2json } from './dcm2json';
 export type { Dcm2jsonOptions, Dcm2jsonResult, Dcm2jsonSource, DicomJsonModel } from './dcm2json';
+export { BulkDataMode } from './_bulkData';
+export type { BulkDataPolicy, BulkDataModeValue } from './_bulkData';
+export { CharacterSetPolicy, decodeText, encodeText } from './_characterSet';
+export type { CharacterSetPolicyValue } from './_characterSet';
 
 export { dcmdump, DcmdumpFormat } from './dcmdump';
 export type { DcmdumpOptions, DcmdumpResult, DcmdumpFormatValue } from './dcmdump';
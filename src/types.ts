@@ -112,6 +112,8 @@ interface ExecOptions {
     readonly timeoutMs?: number | undefined;
     /** AbortSignal for external cancellation. */
     readonly signal?: AbortSignal | undefined;
+    /** Encoding of stdout. `'latin1'` keeps every byte as one character. Defaults to 'utf8'. */
+    readonly stdoutEncoding?: 'utf8' | 'latin1' | undefined;
 }
 
 /**
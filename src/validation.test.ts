@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { parseAETitle, parsePort, parseDicomTag, parseDicomTagPath, parseSOPClassUID, parseTransferSyntaxUID } from './validation';
+import { checkPathKeywords } from './dicom/dictionary';
 
 describe('validation parse functions', () => {
     describe('parseAETitle()', () => {
@@ -105,6 +106,17 @@ describe('validation parse functions', () => {
             const result = parseDicomTagPath(123);
             expect(result.ok).toBe(false);
         });
+
+        it('accepts keyword paths', () => {
+            expect(parseDicomTagPath('ReferencedSeriesSequence[0].SeriesInstanceUID').ok).toBe(true);
+        });
+
+        it('rejects unknown keywords with a suggestion', () => {
+            expect(parseDicomTagPath('StudyInstanceUi').ok).toBe(true);
+            const result = parseDicomTagPath('StudyInstanceUi', checkPathKeywords);
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error.message).toMatch(/Did you mean "StudyInstanceUID"/);
+        });
     });
 
     describe('parseSOPClassUID()', () => {
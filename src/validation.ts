@@ -11,12 +11,12 @@
 import { z } from 'zod';
 import type { Result } from './types';
 import { ok, err } from './types';
-import type { AETitle, DicomTag, DicomTagPath, SOPClassUID, TransferSyntaxUID, Port } from './brands';
+import type { AETitle, DicomTag, DicomTagPath, KeywordPathCheck, SOPClassUID, TransferSyntaxUID, Port } from './brands';
 import {
     DICOM_TAG_PATTERN,
     AE_TITLE_PATTERN,
     UID_PATTERN,
-    TAG_PATH_SEGMENT,
+    KEYWORD_TAG_PATH_PATTERN,
     AE_TITLE_MIN_LENGTH,
     AE_TITLE_MAX_LENGTH,
     UID_MAX_LENGTH,
@@ -37,11 +37,8 @@ const PortSchema = z.number().int().min(PORT_MIN).max(PORT_MAX);
 /** Schema for DICOM tags: (XXXX,XXXX) where X is a hex digit. */
 const DicomTagSchema = z.string().regex(DICOM_TAG_PATTERN);
 
-/** Schema for DICOM tag paths: dot-separated tags with optional array indices. */
-const DicomTagPathSchema = z
-    .string()
-    .min(1)
-    .regex(new RegExp(`^${TAG_PATH_SEGMENT.source}(\\.${TAG_PATH_SEGMENT.source})*$`));
+/** Schema for DICOM tag paths: dot-separated tags or keywords with optional array indices. */
+const DicomTagPathSchema = z.string().min(1).regex(KEYWORD_TAG_PATH_PATTERN);
 
 /** Schema for DICOM UIDs: dotted numeric OID, 1-64 chars. */
 const UIDSchema = z.string().min(1).max(UID_MAX_LENGTH).regex(UID_PATTERN);
@@ -95,14 +92,22 @@ function parseDicomTag(input: unknown): Result<DicomTag> {
 /**
  * Validates unknown input as a DICOM tag path.
  *
+ * Keyword segments are checked by `checkKeywords`, such as the dictionary's
+ * `checkPathKeywords`; without it only their syntax is checked.
+ *
  * @param input - The unknown input to validate
+ * @param checkKeywords - Checks the keyword segments of the path
  * @returns Result containing a branded DicomTagPath or an error
  */
-function parseDicomTagPath(input: unknown): Result<DicomTagPath> {
+function parseDicomTagPath(input: unknown, checkKeywords?: KeywordPathCheck): Result<DicomTagPath> {
     const parsed = DicomTagPathSchema.safeParse(input);
     if (!parsed.success) {
         return err(new Error(`Invalid DICOM tag path: ${parsed.error.message}`));
     }
+    const keywords = checkKeywords?.(parsed.data) ?? ok(undefined);
+    if (!keywords.ok) {
+        return err(new Error(`Invalid DICOM tag path: ${keywords.error.message}`));
+    }
     return ok(parsed.data as DicomTagPath);
 }
 
@@ -0,0 +1 @@
+export { makeSampleData, makeDataset } from './sampleData';
@@ -0,0 +1,68 @@
+import { DicomDataset } from '../../src/dicom/DicomDataset';
+import type { DicomJsonModel } from '../../src/tools/_xmlToJson';
+
+/** The elements of {@link makeSampleData}. */
+const SAMPLE_DATA: DicomJsonModel = {
+    '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Smith^John' }] },
+    '00100020': { vr: 'LO', Value: ['PATIENT-001'] },
+    '00080020': { vr: 'DA', Value: ['20240115'] },
+    '00080050': { vr: 'SH', Value: ['ACC-12345'] },
+    '00080060': { vr: 'CS', Value: ['CT'] },
+    '00080016': { vr: 'UI', Value: ['1.2.840.10008.5.1.4.1.1.2'] },
+    '00080018': { vr: 'UI', Value: ['1.2.3.4.5.6.7.8.9'] },
+    '0020000D': { vr: 'UI', Value: ['1.2.3.4.5'] },
+    '0020000E': { vr: 'UI', Value: ['1.2.3.4.5.6'] },
+    '00020010': { vr: 'UI', Value: ['1.2.840.10008.1.2.1'] },
+    '00280010': { vr: 'US', Value: [512] },
+    '00280011': { vr: 'US', Value: [512] },
+    '00280030': { vr: 'DS', Value: ['0.5', '0.5'] },
+    '00080008': { vr: 'CS', Value: ['ORIGINAL', 'PRIMARY', 'AXIAL'] },
+    '7FE00010': { vr: 'OW', InlineBinary: 'AAAA' },
+    '00081115': {
+        vr: 'SQ',
+        Value: [
+            {
+                '0020000E': { vr: 'UI', Value: ['1.2.3.4.5.6.7'] },
+                '00081199': {
+                    vr: 'SQ',
+                    Value: [
+                        { '00081150': { vr: 'UI', Value: ['1.2.840.10008.5.1.4.1.1.2'] } },
+                        { '00081150': { vr: 'UI', Value: ['1.2.840.10008.5.1.4.1.1.4'] } },
+                    ],
+                },
+            },
+            {
+                '0020000E': { vr: 'UI', Value: ['1.2.3.4.5.6.8'] },
+                '00081199': {
+                    vr: 'SQ',
+                    Value: [{ '00081150': { vr: 'UI', Value: ['1.2.840.10008.5.1.4.1.1.7'] } }],
+                },
+            },
+        ],
+    },
+    '00101010': { vr: 'AS', Value: ['032Y'] },
+    '00280101': { vr: 'US' },
+};
+
+/**
+ * A CT image dataset shared by the unit tests: patient, study and image attributes,
+ * a two-level ReferencedSeriesSequence, inline Pixel Data and an empty element.
+ * Tests add the elements they check beyond these inline.
+ */
+function makeSampleData(): DicomJsonModel {
+    return structuredClone(SAMPLE_DATA);
+}
+
+/**
+ * Creates a DicomDataset from a model, by default {@link makeSampleData}.
+ *
+ * @param data - The DICOM JSON Model to wrap
+ * @returns The dataset; throws when the model is not valid DICOM JSON
+ */
+function makeDataset(data: DicomJsonModel = makeSampleData()): DicomDataset {
+    const result = DicomDataset.fromJson(data);
+    if (!result.ok) throw result.error;
+    return result.value;
+}
+
+export { makeSampleData, makeDataset };
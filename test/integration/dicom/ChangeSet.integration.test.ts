@@ -3,7 +3,6 @@ import { ChangeSet } from '../../../src/dicom/ChangeSet';
 import { DicomFile } from '../../../src/dicom/DicomFile';
 import { dcm2json } from '../../../src/tools/dcm2json';
 import { dcmtkAvailable, SAMPLES, createTempDir, removeTempDir, copyDicomToTemp } from '../helpers';
-import type { DicomTagPath } from '../../../src/brands';
 
 describe.skipIf(!dcmtkAvailable)('ChangeSet integration', () => {
     let tempDir: string;
@@ -23,9 +22,7 @@ describe.skipIf(!dcmtkAvailable)('ChangeSet integration', () => {
         expect(fileResult.ok).toBe(true);
         if (!fileResult.ok) return;
 
-        const changeset = ChangeSet.empty()
-            .setTag('(0010,0010)' as DicomTagPath, 'ChangedName')
-            .setTag('(0010,0020)' as DicomTagPath, 'CSTEST001');
+        const changeset = ChangeSet.empty().setTag('(0010,0010)', 'ChangedName').setTag('(0010,0020)', 'CSTEST001');
 
         const modified = fileResult.value.withChanges(changeset);
         const applyResult = await modified.applyChanges();
@@ -62,9 +59,9 @@ describe.skipIf(!dcmtkAvailable)('ChangeSet integration', () => {
         const fileResult = await DicomFile.open(filePath);
         if (!fileResult.ok) return;
 
-        const cs1 = ChangeSet.empty().setTag('(0010,0010)' as DicomTagPath, 'MergeA');
+        const cs1 = ChangeSet.empty().setTag('(0010,0010)', 'MergeA');
 
-        const cs2 = ChangeSet.empty().setTag('(0010,0020)' as DicomTagPath, 'MERGE002');
+        const cs2 = ChangeSet.empty().setTag('(0010,0020)', 'MERGE002');
 
         const merged = cs1.merge(cs2);
         const modified = fileResult.value.withChanges(merged);
@@ -94,9 +91,7 @@ describe.skipIf(!dcmtkAvailable)('ChangeSet integration', () => {
         const fileResult = await DicomFile.open(filePath);
         if (!fileResult.ok) return;
 
-        const changeset = ChangeSet.empty()
-            .eraseTag('(0010,0010)' as DicomTagPath)
-            .setTag('(0010,0020)' as DicomTagPath, 'AFTERERASE');
+        const changeset = ChangeSet.empty().eraseTag('(0010,0010)').setTag('(0010,0020)', 'AFTERERASE');
 
         const modified = fileResult.value.withChanges(changeset);
         const applyResult = await modified.applyChanges();
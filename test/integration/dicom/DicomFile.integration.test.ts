@@ -6,7 +6,6 @@ import { ChangeSet } from '../../../src/dicom/ChangeSet';
 import { dcm2json } from '../../../src/tools/dcm2json';
 import { dcmftest } from '../../../src/tools/dcmftest';
 import { dcmtkAvailable, SAMPLES, createTempDir, removeTempDir, copyDicomToTemp } from '../helpers';
-import type { DicomTagPath } from '../../../src/brands';
 
 describe.skipIf(!dcmtkAvailable)('DicomFile integration', () => {
     let tempDir: string;
@@ -56,7 +55,7 @@ describe.skipIf(!dcmtkAvailable)('DicomFile integration', () => {
         const fileResult = await DicomFile.open(SAMPLES.MR_BRAIN);
         if (!fileResult.ok) return;
 
-        const changes = ChangeSet.empty().setTag('(0010,0010)' as DicomTagPath, 'WriteAsTest');
+        const changes = ChangeSet.empty().setTag('(0010,0010)', 'WriteAsTest');
         const modified = fileResult.value.withChanges(changes);
 
         const outputPath = join(tempDir, 'modified-copy.dcm');
@@ -101,7 +100,7 @@ describe.skipIf(!dcmtkAvailable)('DicomFile integration', () => {
         const fileResult = await DicomFile.open(filePath);
         if (!fileResult.ok) return;
 
-        const changes = ChangeSet.empty().setTag('(0010,0010)' as DicomTagPath, 'InPlaceTest');
+        const changes = ChangeSet.empty().setTag('(0010,0010)', 'InPlaceTest');
         const modified = fileResult.value.withChanges(changes);
 
         const applyResult = await modified.applyChanges();
@@ -142,7 +141,7 @@ describe.skipIf(!dcmtkAvailable)('DicomFile integration', () => {
         const fileResult = await DicomFile.open(filePath);
         if (!fileResult.ok) return;
 
-        const changes = ChangeSet.empty().eraseTag('(0010,0010)' as DicomTagPath);
+        const changes = ChangeSet.empty().eraseTag('(0010,0010)');
         const modified = fileResult.value.withChanges(changes);
 
         const applyResult = await modified.applyChanges();
@@ -154,4 +153,24 @@ describe.skipIf(!dcmtkAvailable)('DicomFile integration', () => {
             expect(jsonResult.value.data['00100010']).toBeUndefined();
         }
     });
+
+    it.each(['dcmtk', 'native'] as const)('opens only the header of a file with the %s backend', async backend => {
+        const full = await DicomFile.open(SAMPLES.MR_BRAIN, { backend, bulkData: { mode: 'exclude' } });
+        const header = await DicomFile.open(SAMPLES.MR_BRAIN, { backend, mode: 'header', bulkData: { mode: 'exclude' } });
+        if (!full.ok) throw full.error;
+        if (!header.ok) throw header.error;
+
+        expect(header.value.isPartial).toBe(true);
+        expect(header.value.dataset.hasTag('7FE00010')).toBe(false);
+        expect(header.value.dataset.studyInstanceUID).toBe(full.value.dataset.studyInstanceUID);
+    });
+
+    it('reads the rest of a lazily opened file on demand', async () => {
+        const lazy = await DicomFile.open(SAMPLES.MR_BRAIN, { mode: 'lazy', stopAtGroup: '0020' });
+        if (!lazy.ok) throw lazy.error;
+
+        expect(lazy.value.dataset.hasTag('0020000D')).toBe(false);
+        const element = await lazy.value.getElement('StudyInstanceUID');
+        expect(element.ok).toBe(true);
+    });
 });
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { join } from 'node:path';
+import { DicomFile } from '../../../src/dicom/DicomFile';
+import { ChangeSet } from '../../../src/dicom/ChangeSet';
+import { dcm2json } from '../../../src/tools/dcm2json';
+import { dcmconv } from '../../../src/tools/dcmconv';
+import { dcmtkAvailable, createTempDir, removeTempDir } from '../helpers';
+
+/** Writes a Secondary Capture file in ISO_IR 100 (Latin-1) with a non-ASCII PatientName. */
+async function createLatin1File(dir: string, name: string): Promise<string> {
+    const utf8Path = join(dir, `${name}-utf8.dcm`);
+    const created = await DicomFile.create(
+        {
+            '00080005': { vr: 'CS', Value: ['ISO_IR 192'] },
+            '00080016': { vr: 'UI', Value: ['1.2.840.10008.5.1.4.1.1.7'] },
+            '00080018': { vr: 'UI', Value: [`1.2.826.0.1.3680043.2.1143.${Date.now()}`] },
+            '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Buc^Jérôme' }] },
+        },
+        utf8Path
+    );
+    if (!created.ok) throw created.error;
+    const latin1Path = join(dir, `${name}.dcm`);
+    const converted = await dcmconv(utf8Path, latin1Path, { characterSet: 'ISO_IR 100' });
+    if (!converted.ok) throw converted.error;
+    return latin1Path;
+}
+
+describe.skipIf(!dcmtkAvailable)('Specific Character Set integration', () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+        tempDir = await createTempDir('charset-');
+    });
+
+    afterAll(async () => {
+        await removeTempDir(tempDir);
+    });
+
+    it('decodes Latin-1 values and exposes their raw bytes', async () => {
+        const file = await DicomFile.open(await createLatin1File(tempDir, 'decode'));
+        expect(file.ok).toBe(true);
+        if (!file.ok) return;
+
+        expect(file.value.dataset.characterSet).toEqual(['ISO_IR 100']);
+        expect(file.value.dataset.patientName).toBe('Buc^Jérôme');
+        const raw = file.value.dataset.getRawBytes('PatientName');
+        expect(raw.ok && Buffer.from(raw.value).toString('latin1')).toBe('Buc^Jérôme');
+    });
+
+    it('keeps values undecoded with rawText', async () => {
+        await createLatin1File(tempDir, 'raw');
+        const result = await dcm2json(join(tempDir, 'raw-utf8.dcm'), { rawText: true });
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            // The UTF-8 bytes of é and ô, one character per byte
+            expect(result.value.data['00100010']?.Value).toEqual([{ Alphabetic: 'Buc^J\u00c3\u00a9r\u00c3\u00b4me' }]);
+        }
+    });
+
+    it('converts the file to UTF-8 when writing values Latin-1 cannot encode', async () => {
+        const path = await createLatin1File(tempDir, 'update');
+        const file = await DicomFile.open(path);
+        if (!file.ok) throw file.error;
+
+        const applied = await file.value.withChanges(ChangeSet.empty().setTag('StudyDescription', '頭部 MRI')).applyChanges();
+        expect(applied.ok).toBe(true);
+
+        const reopened = await DicomFile.open(path);
+        expect(reopened.ok).toBe(true);
+        if (!reopened.ok) return;
+        expect(reopened.value.dataset.characterSet).toEqual(['ISO_IR 192']);
+        expect(reopened.value.dataset.getString('StudyDescription')).toBe('頭部 MRI');
+        expect(reopened.value.dataset.patientName).toBe('Buc^Jérôme');
+    });
+
+    it('rejects values Latin-1 cannot encode with the reject policy', async () => {
+        const file = await DicomFile.open(await createLatin1File(tempDir, 'reject'));
+        if (!file.ok) throw file.error;
+
+        const result = await file.value.withChanges(ChangeSet.empty().setTag('StudyDescription', '頭部')).writeAs(join(tempDir, 'rejected.dcm'), {
+            characterSetPolicy: 'reject',
+        });
+        expect(result.ok).toBe(false);
+    });
+});
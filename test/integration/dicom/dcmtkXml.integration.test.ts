@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { DicomDataset } from '../../../src/dicom/DicomDataset';
+import { dcm2json } from '../../../src/tools/dcm2json';
+import { xml2dcm } from '../../../src/tools/xml2dcm';
+import type { DicomJsonModel } from '../../../src/tools/_xmlToJson';
+import { dcmtkAvailable, SAMPLES, createTempDir, removeTempDir } from '../helpers';
+
+/** Uncompressed samples: encapsulated Pixel Data has no inline form xml2dcm reads back. */
+const ROUND_TRIP_SAMPLES = [
+    ['NESTED_TAGS', SAMPLES.NESTED_TAGS],
+    ['OTHER_0002D', SAMPLES.OTHER_0002D],
+] as const;
+
+/** Reads a file with dcm2json, binary values inline and without the File Meta Information. */
+async function readDataset(path: string): Promise<DicomJsonModel> {
+    const json = await dcm2json(path, { bulkData: { mode: 'inline' } });
+    if (!json.ok) throw json.error;
+    return Object.fromEntries(Object.entries(json.value.data).filter(([key]) => !key.startsWith('0002')));
+}
+
+/** Serializes a model with DicomDataset.toDcmtkXml. */
+function toDcmtkXml(model: DicomJsonModel): string {
+    const dataset = DicomDataset.fromJson(model);
+    if (!dataset.ok) throw dataset.error;
+    const xml = dataset.value.toDcmtkXml();
+    if (!xml.ok) throw xml.error;
+    return xml.value;
+}
+
+describe.skipIf(!dcmtkAvailable)('DicomDataset.toDcmtkXml integration', () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+        tempDir = await createTempDir('dcmtkxml-');
+    });
+
+    afterAll(async () => {
+        await removeTempDir(tempDir);
+    });
+
+    it.each(ROUND_TRIP_SAMPLES)('round-trips %s through xml2dcm and dcm2json', async (name, samplePath) => {
+        const original = await readDataset(samplePath);
+        const xmlPath = join(tempDir, `${name}.xml`);
+        const dcmPath = join(tempDir, `${name}.dcm`);
+        await writeFile(xmlPath, toDcmtkXml(original), 'utf-8');
+
+        const converted = await xml2dcm(xmlPath, dcmPath);
+        expect(converted.ok).toBe(true);
+        expect(await readDataset(dcmPath)).toEqual(original);
+    });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { DicomDataset } from '../../../src/dicom/DicomDataset';
+import { dcm2xml } from '../../../src/tools/dcm2xml';
+import { xmlToJson } from '../../../src/tools/_xmlToJson';
+import type { DicomJsonModel } from '../../../src/tools/_xmlToJson';
+import { dcmtkAvailable, SAMPLES } from '../helpers';
+
+const ROUND_TRIP_SAMPLES = [
+    ['MR_BRAIN', SAMPLES.MR_BRAIN],
+    ['NESTED_TAGS', SAMPLES.NESTED_TAGS],
+    ['OTHER_0002D', SAMPLES.OTHER_0002D],
+    ['TTFM', SAMPLES.TTFM],
+] as const;
+
+/** Reads a file as the DICOM JSON Model through `dcm2xml -nat`, with binary values inline. */
+async function readNative(path: string): Promise<DicomJsonModel> {
+    const xml = await dcm2xml(path, { nativeFormat: true, writeBinaryData: true, encodeBinaryBase64: true });
+    if (!xml.ok) throw xml.error;
+    const json = xmlToJson(xml.value.xml);
+    if (!json.ok) throw json.error;
+    return json.value;
+}
+
+/** Serializes a model with DicomDataset.toNativeXml. */
+function toNativeXml(model: DicomJsonModel): string {
+    const dataset = DicomDataset.fromJson(model);
+    if (!dataset.ok) throw dataset.error;
+    const xml = dataset.value.toNativeXml();
+    if (!xml.ok) throw xml.error;
+    return xml.value;
+}
+
+describe.skipIf(!dcmtkAvailable)('DicomDataset.toNativeXml integration', () => {
+    it.each(ROUND_TRIP_SAMPLES)('round-trips %s losslessly against dcm2xml -nat', async (_name, samplePath) => {
+        const original = await readNative(samplePath);
+        const reparsed = xmlToJson(toNativeXml(original));
+        expect(reparsed).toEqual({ ok: true, value: original });
+    });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { join } from 'node:path';
+import { DicomFile } from '../../../src/dicom/DicomFile';
+import { readPart10File } from '../../../src/dicom/part10Reader';
+import { dcmconv } from '../../../src/tools/dcmconv';
+import type { TransferSyntaxValue } from '../../../src/tools/dcmconv';
+import { dcmtkAvailable, SAMPLES, createTempDir, removeTempDir } from '../helpers';
+
+/** Top-level keys of a model, without group lengths, which the readers may handle differently. */
+function elementKeys(model: Readonly<Record<string, unknown>>): string[] {
+    return Object.keys(model)
+        .filter(key => !key.endsWith('0000'))
+        .sort();
+}
+
+describe.skipIf(!dcmtkAvailable)('Part 10 reader integration', () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+        tempDir = await createTempDir('part10-');
+    });
+
+    afterAll(async () => {
+        await removeTempDir(tempDir);
+    });
+
+    it.each([SAMPLES.MR_BRAIN, SAMPLES.NESTED_TAGS])('reads the same elements as dcm2json from %s', async sample => {
+        const native = await DicomFile.open(sample, { backend: 'native', bulkData: { mode: 'exclude' } });
+        const dcmtk = await DicomFile.open(sample, { bulkData: { mode: 'exclude' } });
+        if (!native.ok) throw native.error;
+        if (!dcmtk.ok) throw dcmtk.error;
+
+        expect(elementKeys(native.value.dataset.toJson())).toEqual(elementKeys(dcmtk.value.dataset.toJson()));
+        expect(native.value.dataset.patientName).toBe(dcmtk.value.dataset.patientName);
+        expect(native.value.dataset.studyInstanceUID).toBe(dcmtk.value.dataset.studyInstanceUID);
+    });
+
+    it.each<[TransferSyntaxValue, string]>([
+        ['+ti', '1.2.840.10008.1.2'],
+        ['+tb', '1.2.840.10008.1.2.2'],
+        ['+td', '1.2.840.10008.1.2.1.99'],
+    ])('reads a file converted with dcmconv %s', async (preset, uid) => {
+        const explicit = join(tempDir, 'explicit.dcm');
+        const converted = join(tempDir, `converted${preset}.dcm`);
+        const decompressed = await dcmconv(SAMPLES.OTHER_0002D, explicit, { transferSyntax: '+te' });
+        if (!decompressed.ok) throw decompressed.error;
+        const result = await dcmconv(explicit, converted, { transferSyntax: preset });
+        if (!result.ok) throw result.error;
+
+        const expected = await readPart10File(explicit);
+        const read = await readPart10File(converted);
+        if (!expected.ok) throw expected.error;
+        if (!read.ok) throw read.error;
+
+        expect(read.value.transferSyntaxUID).toBe(uid);
+        expect(read.value.data['00100010']).toEqual(expected.value.data['00100010']);
+        expect(read.value.data['00280010']).toEqual(expected.value.data['00280010']);
+        expect(read.value.data['7FE00010']).toEqual(expected.value.data['7FE00010']);
+    });
+});
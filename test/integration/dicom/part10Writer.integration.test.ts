@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { copyFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { ChangeSet } from '../../../src/dicom/ChangeSet';
+import { DicomFile } from '../../../src/dicom/DicomFile';
+import { writePart10File } from '../../../src/dicom/part10Writer';
+import { dcmtkAvailable, SAMPLES, createTempDir, removeTempDir } from '../helpers';
+
+describe.skipIf(!dcmtkAvailable)('Part 10 writer integration', () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+        tempDir = await createTempDir('part10-writer-');
+    });
+
+    afterAll(async () => {
+        await removeTempDir(tempDir);
+    });
+
+    it.each([
+        ['1.2.840.10008.1.2.1', true],
+        ['1.2.840.10008.1.2', false],
+        ['1.2.840.10008.1.2.1.99', true],
+    ])('writes %s files that dcm2json reads (undefined length: %s)', async (transferSyntaxUID, undefinedLength) => {
+        const source = await DicomFile.open(SAMPLES.NESTED_TAGS, { backend: 'native' });
+        if (!source.ok) throw source.error;
+        const output = join(tempDir, `written-${transferSyntaxUID}.dcm`);
+
+        const written = await writePart10File(source.value.dataset, output, { transferSyntaxUID, undefinedLength, groupLengths: !undefinedLength });
+        if (!written.ok) throw written.error;
+
+        const reread = await DicomFile.open(output);
+        if (!reread.ok) throw reread.error;
+        expect(reread.value.dataset.patientName).toBe(source.value.dataset.patientName);
+        expect(reread.value.dataset.sopInstanceUID).toBe(source.value.dataset.sopInstanceUID);
+    });
+
+    it('applies changes natively to a compressed file that DCMTK still reads', async () => {
+        const target = join(tempDir, 'retagged.dcm');
+        await copyFile(SAMPLES.MR_BRAIN, target);
+        const file = await DicomFile.open(target);
+        if (!file.ok) throw file.error;
+
+        const applied = await file.value.withChanges(ChangeSet.empty().setTag('PatientID', 'NATIVE-1')).applyChanges({ backend: 'native' });
+        if (!applied.ok) throw applied.error;
+
+        const reread = await DicomFile.open(target);
+        if (!reread.ok) throw reread.error;
+        expect(reread.value.dataset.patientID).toBe('NATIVE-1');
+        expect(reread.value.dataset.studyInstanceUID).toBe(file.value.dataset.studyInstanceUID);
+    });
+});
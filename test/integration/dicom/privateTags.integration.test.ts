@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { DicomFile } from '../../../src/dicom/DicomFile';
+import { ChangeSet } from '../../../src/dicom/ChangeSet';
+import { clearPrivateDictionaries, formatDcmtkDictionary, loadPrivateDictionary } from '../../../src/dicom/privateDictionary';
+import type { PrivateDictionaryEntry } from '../../../src/dicom/privateDictionary';
+import { setDcmtkDictionaryPaths, clearDcmtkDictionaryPaths } from '../../../src/dictionaryPath';
+import { dcmdump } from '../../../src/tools/dcmdump';
+import { dcmtkAvailable, createTempDir, removeTempDir } from '../helpers';
+
+const ACME_NOTE: PrivateDictionaryEntry = { creator: 'ACME 1.0', group: 0x0009, element: 0x01, vr: 'LO', name: 'AcmeReviewNote', vm: [1, 1] };
+
+/** Writes a Secondary Capture file whose ACME 1.0 block is placed at (0009,0011). */
+async function createPrivateFile(dir: string, name: string): Promise<string> {
+    const path = join(dir, `${name}.dcm`);
+    const created = await DicomFile.create(
+        {
+            '00080016': { vr: 'UI', Value: ['1.2.840.10008.5.1.4.1.1.7'] },
+            '00080018': { vr: 'UI', Value: [`1.2.826.0.1.3680043.2.1143.${Date.now()}`] },
+            '00090010': { vr: 'LO', Value: ['OTHER VENDOR'] },
+            '00090011': { vr: 'LO', Value: ['ACME 1.0'] },
+            '00091101': { vr: 'LO', Value: ['first'] },
+        },
+        path
+    );
+    if (!created.ok) throw created.error;
+    return path;
+}
+
+describe.skipIf(!dcmtkAvailable)('Private tag integration', () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+        tempDir = await createTempDir('private-');
+    });
+
+    afterAll(async () => {
+        await removeTempDir(tempDir);
+    });
+
+    afterEach(() => {
+        clearPrivateDictionaries();
+        clearDcmtkDictionaryPaths();
+    });
+
+    it('reads and writes private elements relative to their creator block', async () => {
+        const path = await createPrivateFile(tempDir, 'relative');
+        const file = await DicomFile.open(path);
+        if (!file.ok) throw file.error;
+        expect(file.value.dataset.resolvePrivateTag({ creator: 'ACME 1.0', group: 0x0009, element: 0x01 })).toEqual({ ok: true, value: '(0009,1101)' });
+
+        const changes = ChangeSet.empty()
+            .setPrivateTag({ creator: 'ACME 1.0', group: 0x0009, element: 0x01 }, 'second')
+            .setPrivateTag({ creator: 'NEW VENDOR', group: 0x0009, element: 0x02 }, 'added');
+        const applied = await file.value.withChanges(changes).applyChanges();
+        expect(applied.ok).toBe(true);
+
+        const reopened = await DicomFile.open(path);
+        if (!reopened.ok) throw reopened.error;
+        const dataset = reopened.value.dataset;
+        expect(dataset.getString('(0009,1101)')).toBe('second');
+        expect(dataset.getString('(0009,0012)')).toBe('NEW VENDOR');
+        expect(dataset.getPrivateElement({ creator: 'NEW VENDOR', group: 0x0009, element: 0x02 })).toMatchObject({ ok: true, value: { Value: ['added'] } });
+    });
+
+    it('passes custom dictionaries to DCMTK through DCMDICTPATH', async () => {
+        const path = await createPrivateFile(tempDir, 'dictionary');
+        const dicPath = join(tempDir, 'acme.dic');
+        await writeFile(dicPath, formatDcmtkDictionary([ACME_NOTE]));
+        expect((await loadPrivateDictionary(dicPath)).ok).toBe(true);
+        expect(setDcmtkDictionaryPaths([dicPath]).ok).toBe(true);
+
+        const dump = await dcmdump(path);
+        expect(dump.ok).toBe(true);
+        if (dump.ok) expect(dump.value.text).toContain('AcmeReviewNote');
+
+        const file = await DicomFile.open(path);
+        if (!file.ok) throw file.error;
+        expect(file.value.dataset.getPrivateEntry('(0009,1101)')?.name).toBe('AcmeReviewNote');
+    });
+});
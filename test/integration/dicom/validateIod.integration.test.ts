@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { join } from 'node:path';
+import { DicomFile } from '../../../src/dicom/DicomFile';
+import { validateIod } from '../../../src/dicom/validateIod';
+import { dcmtkAvailable, createTempDir, removeTempDir } from '../helpers';
+
+describe.skipIf(!dcmtkAvailable)('IOD validation integration', () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+        tempDir = await createTempDir('iod-');
+    });
+
+    afterAll(async () => {
+        await removeTempDir(tempDir);
+    });
+
+    it('validates a file read back through DCMTK against its IOD', async () => {
+        const path = join(tempDir, 'sc.dcm');
+        const created = await DicomFile.create(
+            {
+                '00080016': { vr: 'UI', Value: ['1.2.840.10008.5.1.4.1.1.7'] },
+                '00080018': { vr: 'UI', Value: [`1.2.826.0.1.3680043.2.1143.${Date.now()}`] },
+                '00080060': { vr: 'CS', Value: ['OT'] },
+                '00080064': { vr: 'CS', Value: ['WSD'] },
+                '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Doe^Jane' }] },
+                '00100040': { vr: 'CS', Value: ['X'] },
+            },
+            path
+        );
+        if (!created.ok) throw created.error;
+
+        const file = await DicomFile.open(path);
+        if (!file.ok) throw file.error;
+        const report = validateIod(file.value.dataset);
+        expect(report.iod).toBe('Secondary Capture Image');
+        expect(report.valid).toBe(false);
+        expect(report.findings).toContainEqual(
+            expect.objectContaining({ name: 'PatientSex', module: 'Patient', message: 'Value "X" is not one of the enumerated values M, F, O' })
+        );
+        expect(report.findings).toContainEqual(expect.objectContaining({ name: 'StudyInstanceUID', message: 'Type 1 attribute is missing' }));
+    });
+});
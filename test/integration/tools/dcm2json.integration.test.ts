@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { dcm2json } from '../../../src/tools/dcm2json';
+import { DicomDataset } from '../../../src/dicom/DicomDataset';
 import { dcmtkAvailable, SAMPLES } from '../helpers';
 
 describe.skipIf(!dcmtkAvailable)('dcm2json integration', () => {
@@ -46,4 +47,39 @@ describe.skipIf(!dcmtkAvailable)('dcm2json integration', () => {
             }
         }
     });
+
+    it('keeps pixel data inline with the inline bulk data policy', async () => {
+        const result = await dcm2json(SAMPLES.MR_BRAIN, { bulkData: { mode: 'inline' } });
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(result.value.data['7FE00010']?.InlineBinary).toBeDefined();
+        }
+    });
+
+    it('references pixel data by BulkDataURI and resolves it lazily', async () => {
+        const inline = await dcm2json(SAMPLES.MR_BRAIN, { bulkData: { mode: 'inline' } });
+        const result = await dcm2json(SAMPLES.MR_BRAIN, { bulkData: { mode: 'uri', inlineThreshold: 64 } });
+        expect(inline.ok && result.ok).toBe(true);
+        if (!inline.ok || !result.ok) return;
+
+        const pixelData = result.value.data['7FE00010'];
+        expect(pixelData?.InlineBinary).toBeUndefined();
+        expect(pixelData?.BulkDataURI).toMatch(/^file:/);
+
+        const dataset = DicomDataset.fromJson(result.value.data);
+        if (!dataset.ok) throw dataset.error;
+        const binary = await dataset.value.getBinary('7FE00010');
+        expect(binary.ok).toBe(true);
+        if (binary.ok) {
+            expect(Buffer.from(binary.value).toString('base64')).toBe(inline.value.data['7FE00010']?.InlineBinary);
+        }
+    });
+
+    it('drops pixel data with the exclude bulk data policy', async () => {
+        const result = await dcm2json(SAMPLES.MR_BRAIN, { bulkData: { mode: 'exclude' } });
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(Object.keys(result.value.data['7FE00010'] ?? {})).toEqual(['vr']);
+        }
+    });
 });
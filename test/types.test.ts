@@ -41,6 +41,10 @@ import type {
     QRListeningData,
     QRCFindRequestData,
     WlmCFindRequestData,
+    PersonName,
+    TagValue,
+    DicomTagPath,
+    IsTagPathLiteral,
 } from '../src/index';
 import {
     ok,
@@ -59,6 +63,8 @@ import {
     VR,
     lookupTag,
     ProcessState,
+    Tags,
+    createDicomTagPath,
 } from '../src/index';
 
 describe('Result<T, E> type narrowing', () => {
@@ -315,6 +321,31 @@ describe('DICOM data layer types', () => {
     it('TagSegment has tag property', () => {
         expectTypeOf<TagSegment>().toHaveProperty('tag');
     });
+
+    it('TagValue derives value types from the VR and VM', () => {
+        expectTypeOf<TagValue<typeof Tags.PatientName>>().toEqualTypeOf<PersonName>();
+        expectTypeOf<TagValue<typeof Tags.Rows>>().toEqualTypeOf<number>();
+        expectTypeOf<TagValue<typeof Tags.PixelSpacing>>().toEqualTypeOf<ReadonlyArray<number>>();
+        expectTypeOf<TagValue<typeof Tags.ImageType>>().toEqualTypeOf<ReadonlyArray<string>>();
+        expectTypeOf<TagValue<typeof Tags.OtherPatientNames>>().toEqualTypeOf<ReadonlyArray<PersonName>>();
+        expectTypeOf<TagValue<typeof Tags.ReferencedSeriesSequence>>().toEqualTypeOf<ReadonlyArray<DicomDataset>>();
+        expectTypeOf<TagValue<typeof Tags.PixelData>>().toEqualTypeOf<Uint8Array>();
+    });
+
+    it('DicomDataset.get returns the derived value type', () => {
+        expectTypeOf<DicomDataset['get']>().toBeFunction();
+        const ds = DicomDataset.fromJson({});
+        if (ds.ok) {
+            expectTypeOf(ds.value.get(Tags.Rows)).toEqualTypeOf<Result<number>>();
+            expectTypeOf(ds.value.get(Tags.ImageType)).toEqualTypeOf<Result<ReadonlyArray<string>>>();
+        }
+    });
+
+    it('Tags entries carry literal tag, VR and VM types', () => {
+        expectTypeOf(Tags.PatientName.tag).toEqualTypeOf<'(0010,0010)'>();
+        expectTypeOf(Tags.Rows.vr).toEqualTypeOf<'US'>();
+        expectTypeOf(Tags.ImageType.vm).toEqualTypeOf<readonly [2, null]>();
+    });
 });
 
 describe('Constant object types', () => {
@@ -335,6 +366,57 @@ describe('Constant object types', () => {
     });
 });
 
+describe('Tag path literal types', () => {
+    it('accepts well-formed tag path literals', () => {
+        expectTypeOf<IsTagPathLiteral<'(0010,0010)'>>().toEqualTypeOf<true>();
+        expectTypeOf<IsTagPathLiteral<'(0040,a730)[0].(0040,A160)'>>().toEqualTypeOf<true>();
+        expectTypeOf<IsTagPathLiteral<'(0008,1115)[*].(0008,1199)[12].(0008,1150)'>>().toEqualTypeOf<true>();
+        expectTypeOf<IsTagPathLiteral<'ReferencedSeriesSequence[*].SeriesInstanceUID'>>().toEqualTypeOf<true>();
+        expectTypeOf<IsTagPathLiteral<'(0008,1115)[0].SeriesInstanceUID'>>().toEqualTypeOf<true>();
+    });
+
+    it('rejects malformed tag path literals', () => {
+        expectTypeOf<IsTagPathLiteral<''>>().toEqualTypeOf<false>();
+        expectTypeOf<IsTagPathLiteral<'(0010,001)'>>().toEqualTypeOf<false>();
+        expectTypeOf<IsTagPathLiteral<'(0010,00G0)'>>().toEqualTypeOf<false>();
+        expectTypeOf<IsTagPathLiteral<'(0010,0010).'>>().toEqualTypeOf<false>();
+        expectTypeOf<IsTagPathLiteral<'(0010,0010)[x]'>>().toEqualTypeOf<false>();
+        expectTypeOf<IsTagPathLiteral<'(0010,0010)[1][2]'>>().toEqualTypeOf<false>();
+        expectTypeOf<IsTagPathLiteral<'PatentName'>>().toEqualTypeOf<false>();
+        expectTypeOf<IsTagPathLiteral<string>>().toEqualTypeOf<false>();
+    });
+
+    it('APIs accept literals and branded paths without casts', () => {
+        const ds = DicomDataset.fromJson({});
+        expect(ds.ok).toBe(true);
+        if (ds.ok) {
+            expect(ds.value.findValues('ReferencedSeriesSequence[*].SeriesInstanceUID')).toEqual([]);
+            expect(ds.value.getElementAtPath('(0008,1115)[0].(0020,000E)').ok).toBe(false);
+        }
+        const branded = createDicomTagPath('(0010,0020)');
+        if (branded.ok) {
+            expectTypeOf(branded.value).toEqualTypeOf<DicomTagPath>();
+            expect(ChangeSet.empty().setTag('PatientName', 'X').eraseTag(branded.value).isEmpty).toBe(false);
+        }
+    });
+
+    it('APIs reject malformed literals and unbranded strings', () => {
+        const dynamic: string = '(0010,0010)';
+        expect(() => {
+            // @ts-expect-error - malformed tag group
+            ChangeSet.empty().setTag('(0010,001)', 'X');
+        }).toThrow();
+        expect(() => {
+            // @ts-expect-error - unknown keyword
+            ChangeSet.empty().eraseTag('PatentName');
+        }).toThrow();
+        expect(() => {
+            // @ts-expect-error - dynamic strings must be branded through createDicomTagPath
+            ChangeSet.empty().eraseTag(dynamic);
+        }).not.toThrow();
+    });
+});
+
 describe('Negative type tests', () => {
     it('cannot access .value without narrowing Result', () => {
         const result: Result<string> = ok('hello');